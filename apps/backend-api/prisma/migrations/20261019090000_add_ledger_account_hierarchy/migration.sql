@@ -0,0 +1,43 @@
+-- Hierarchical Tek Düzen Hesap Planı: ledger accounts can belong to a client
+-- company and reference a parent account (ana hesap → alt hesap → detay hesap).
+
+-- AlterTable
+ALTER TABLE "ledger_accounts" ADD COLUMN "client_company_id" TEXT,
+ADD COLUMN "parent_id" TEXT,
+ADD COLUMN "account_class" INTEGER,
+ADD COLUMN "level" INTEGER NOT NULL DEFAULT 1;
+
+-- DropIndex
+DROP INDEX IF EXISTS "ledger_accounts_tenant_id_code_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_tenant_id_client_company_id_code_key" ON "ledger_accounts"("tenant_id", "client_company_id", "code");
+
+-- Tenant-wide accounts have a NULL client_company_id, which the unique index above
+-- does not cover, so keep their codes unique per tenant with a partial index.
+CREATE UNIQUE INDEX "ledger_accounts_tenant_id_code_tenant_wide_key" ON "ledger_accounts"("tenant_id", "code") WHERE "client_company_id" IS NULL;
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_client_company_id_idx" ON "ledger_accounts"("client_company_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_parent_id_idx" ON "ledger_accounts"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill account class and level from existing codes
+UPDATE "ledger_accounts" SET "account_class" = CAST(SUBSTRING("code" FROM 1 FOR 1) AS INTEGER) WHERE "code" ~ '^[1-9]';
+UPDATE "ledger_accounts" SET "level" = array_length(string_to_array("code", '.'), 1);
+
+-- Backfill parent links for dotted codes (e.g. 102.01.001 → 102.01)
+UPDATE "ledger_accounts" AS child
+SET "parent_id" = parent."id"
+FROM "ledger_accounts" AS parent
+WHERE child."code" LIKE '%.%'
+  AND parent."tenant_id" = child."tenant_id"
+  AND parent."client_company_id" IS NOT DISTINCT FROM child."client_company_id"
+  AND parent."code" = regexp_replace(child."code", '\.[^.]*$', '');
@@ -0,0 +1,59 @@
+-- Accounting periods (mali dönem) per client company. A soft-closed or locked
+-- month rejects further writes; corrections are posted in the current open period.
+
+-- CreateTable
+CREATE TABLE "accounting_periods" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "period_start" TIMESTAMPTZ(6) NOT NULL,
+    "period_end" TIMESTAMPTZ(6) NOT NULL,
+    "status" VARCHAR(50) NOT NULL DEFAULT 'open',
+    "closed_at" TIMESTAMPTZ(6),
+    "closed_by_user_id" TEXT,
+    "locked_at" TIMESTAMPTZ(6),
+    "locked_by_user_id" TEXT,
+    "reopened_at" TIMESTAMPTZ(6),
+    "reopened_by_user_id" TEXT,
+    "reopen_reason" TEXT,
+    "close_checks" JSONB NOT NULL DEFAULT '{}',
+    "notes" TEXT,
+    "metadata" JSONB DEFAULT '{}',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "accounting_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounting_periods_tenant_id_client_company_id_period_key" ON "accounting_periods"("tenant_id", "client_company_id", "period");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_tenant_id_idx" ON "accounting_periods"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_tenant_id_client_company_id_status_idx" ON "accounting_periods"("tenant_id", "client_company_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_closed_by_user_id_fkey" FOREIGN KEY ("closed_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_locked_by_user_id_fkey" FOREIGN KEY ("locked_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_reopened_by_user_id_fkey" FOREIGN KEY ("reopened_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE accounting_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON accounting_periods FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON accounting_periods FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON accounting_periods FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON accounting_periods FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,44 @@
+-- Year-end closing runs (yıl sonu kapanış / açılış fişleri). One row per client
+-- company and fiscal year; re-running replaces the generated transactions.
+
+-- CreateTable
+CREATE TABLE "year_end_closings" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "fiscal_year" INTEGER NOT NULL,
+    "result_transaction_id" TEXT,
+    "closing_transaction_id" TEXT,
+    "opening_transaction_id" TEXT,
+    "summary" JSONB NOT NULL DEFAULT '{}',
+    "run_count" INTEGER NOT NULL DEFAULT 1,
+    "posted_at" TIMESTAMPTZ(6) NOT NULL,
+    "posted_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "year_end_closings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "year_end_closings_tenant_id_client_company_id_fiscal_year_key" ON "year_end_closings"("tenant_id", "client_company_id", "fiscal_year");
+
+-- CreateIndex
+CREATE INDEX "year_end_closings_tenant_id_idx" ON "year_end_closings"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "year_end_closings" ADD CONSTRAINT "year_end_closings_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "year_end_closings" ADD CONSTRAINT "year_end_closings_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "year_end_closings" ADD CONSTRAINT "year_end_closings_posted_by_user_id_fkey" FOREIGN KEY ("posted_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE year_end_closings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON year_end_closings FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON year_end_closings FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON year_end_closings FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON year_end_closings FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
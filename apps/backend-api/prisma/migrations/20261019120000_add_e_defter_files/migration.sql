@@ -0,0 +1,54 @@
+-- e-Defter XBRL-GL artifacts: yevmiye / kebir parts and their berat drafts,
+-- plus yevmiye madde numbering carried over between periods of a fiscal year.
+
+-- AlterTable
+ALTER TABLE "e_defter_ledgers" ADD COLUMN "fiscal_year" INTEGER,
+ADD COLUMN "first_entry_number" INTEGER,
+ADD COLUMN "last_entry_number" INTEGER,
+ADD COLUMN "last_line_number" INTEGER,
+ADD COLUMN "validation_result" JSONB;
+
+-- CreateTable
+CREATE TABLE "e_defter_files" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "ledger_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "file_type" VARCHAR(20) NOT NULL,
+    "part_number" INTEGER NOT NULL,
+    "file_name" VARCHAR(255) NOT NULL,
+    "storage_path" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "checksum" VARCHAR(64) NOT NULL,
+    "first_entry_number" INTEGER,
+    "last_entry_number" INTEGER,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "e_defter_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "e_defter_ledgers_tenant_id_client_company_id_fiscal_year_idx" ON "e_defter_ledgers"("tenant_id", "client_company_id", "fiscal_year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "e_defter_files_ledger_id_file_name_key" ON "e_defter_files"("ledger_id", "file_name");
+
+-- CreateIndex
+CREATE INDEX "e_defter_files_tenant_id_idx" ON "e_defter_files"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "e_defter_files_ledger_id_idx" ON "e_defter_files"("ledger_id");
+
+-- AddForeignKey
+ALTER TABLE "e_defter_files" ADD CONSTRAINT "e_defter_files_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "e_defter_files" ADD CONSTRAINT "e_defter_files_ledger_id_fkey" FOREIGN KEY ("ledger_id") REFERENCES "e_defter_ledgers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE e_defter_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON e_defter_files FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON e_defter_files FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON e_defter_files FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON e_defter_files FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
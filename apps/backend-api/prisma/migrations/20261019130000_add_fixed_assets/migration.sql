@@ -0,0 +1,122 @@
+-- Fixed asset register (demirbaş) with depreciation postings and disposals.
+
+-- CreateTable
+CREATE TABLE "fixed_assets" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "asset_code" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "category_code" VARCHAR(50),
+    "account_code" VARCHAR(20) NOT NULL,
+    "expense_account_code" VARCHAR(20) NOT NULL DEFAULT '770',
+    "acquisition_date" TIMESTAMPTZ(6) NOT NULL,
+    "acquisition_cost" DECIMAL(15,2) NOT NULL,
+    "useful_life_years" INTEGER NOT NULL,
+    "depreciation_method" VARCHAR(30) NOT NULL DEFAULT 'normal',
+    "prorate_first_year" BOOLEAN NOT NULL DEFAULT false,
+    "disposed_cost" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "accumulated_depreciation" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "status" VARCHAR(50) NOT NULL DEFAULT 'active',
+    "disposed_at" TIMESTAMPTZ(6),
+    "notes" TEXT,
+    "metadata" JSONB DEFAULT '{}',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "fixed_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fixed_asset_depreciations" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "fixed_asset_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "fiscal_year" INTEGER NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "transaction_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fixed_asset_depreciations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fixed_asset_disposals" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "fixed_asset_id" TEXT NOT NULL,
+    "disposal_date" TIMESTAMPTZ(6) NOT NULL,
+    "ratio" DECIMAL(7,4) NOT NULL,
+    "cost_disposed" DECIMAL(15,2) NOT NULL,
+    "accumulated_disposed" DECIMAL(15,2) NOT NULL,
+    "proceeds" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "gain_loss" DECIMAL(15,2) NOT NULL,
+    "transaction_id" TEXT,
+    "notes" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fixed_asset_disposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fixed_assets_tenant_id_client_company_id_asset_code_key" ON "fixed_assets"("tenant_id", "client_company_id", "asset_code");
+
+-- CreateIndex
+CREATE INDEX "fixed_assets_tenant_id_idx" ON "fixed_assets"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "fixed_assets_tenant_id_client_company_id_status_idx" ON "fixed_assets"("tenant_id", "client_company_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fixed_asset_depreciations_fixed_asset_id_period_key" ON "fixed_asset_depreciations"("fixed_asset_id", "period");
+
+-- CreateIndex
+CREATE INDEX "fixed_asset_depreciations_tenant_id_idx" ON "fixed_asset_depreciations"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "fixed_asset_depreciations_transaction_id_idx" ON "fixed_asset_depreciations"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "fixed_asset_disposals_tenant_id_idx" ON "fixed_asset_disposals"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "fixed_asset_disposals_fixed_asset_id_idx" ON "fixed_asset_disposals"("fixed_asset_id");
+
+-- AddForeignKey
+ALTER TABLE "fixed_assets" ADD CONSTRAINT "fixed_assets_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_assets" ADD CONSTRAINT "fixed_assets_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_depreciations" ADD CONSTRAINT "fixed_asset_depreciations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_depreciations" ADD CONSTRAINT "fixed_asset_depreciations_fixed_asset_id_fkey" FOREIGN KEY ("fixed_asset_id") REFERENCES "fixed_assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_disposals" ADD CONSTRAINT "fixed_asset_disposals_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_disposals" ADD CONSTRAINT "fixed_asset_disposals_fixed_asset_id_fkey" FOREIGN KEY ("fixed_asset_id") REFERENCES "fixed_assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE fixed_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fixed_asset_depreciations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fixed_asset_disposals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON fixed_assets FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON fixed_assets FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON fixed_assets FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON fixed_assets FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON fixed_asset_depreciations FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON fixed_asset_depreciations FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON fixed_asset_depreciations FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON fixed_asset_depreciations FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON fixed_asset_disposals FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON fixed_asset_disposals FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON fixed_asset_disposals FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON fixed_asset_disposals FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,77 @@
+-- Enflasyon düzeltmesi (VUK mükerrer 298): price index table, monetary /
+-- non-monetary classification of ledger accounts and adjustment runs.
+
+-- AlterTable
+ALTER TABLE "ledger_accounts" ADD COLUMN "inflation_class" VARCHAR(20);
+
+-- CreateTable
+CREATE TABLE "inflation_indices" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "index_type" VARCHAR(20) NOT NULL DEFAULT 'yi_ufe',
+    "period" VARCHAR(7) NOT NULL,
+    "value" DECIMAL(15,2) NOT NULL,
+    "source" VARCHAR(50) NOT NULL DEFAULT 'TÜİK',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "inflation_indices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "inflation_adjustments" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "index_type" VARCHAR(20) NOT NULL DEFAULT 'yi_ufe',
+    "base_index" DECIMAL(15,2) NOT NULL,
+    "total_adjustment" DECIMAL(15,2) NOT NULL,
+    "transaction_id" TEXT,
+    "working_papers" JSONB NOT NULL DEFAULT '[]',
+    "run_count" INTEGER NOT NULL DEFAULT 1,
+    "posted_at" TIMESTAMPTZ(6) NOT NULL,
+    "posted_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "inflation_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inflation_indices_tenant_id_index_type_period_key" ON "inflation_indices"("tenant_id", "index_type", "period");
+
+-- CreateIndex
+CREATE INDEX "inflation_indices_tenant_id_idx" ON "inflation_indices"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inflation_adjustments_tenant_id_client_company_id_period_key" ON "inflation_adjustments"("tenant_id", "client_company_id", "period");
+
+-- CreateIndex
+CREATE INDEX "inflation_adjustments_tenant_id_idx" ON "inflation_adjustments"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "inflation_indices" ADD CONSTRAINT "inflation_indices_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inflation_adjustments" ADD CONSTRAINT "inflation_adjustments_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inflation_adjustments" ADD CONSTRAINT "inflation_adjustments_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inflation_adjustments" ADD CONSTRAINT "inflation_adjustments_posted_by_user_id_fkey" FOREIGN KEY ("posted_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE inflation_indices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inflation_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON inflation_indices FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON inflation_indices FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON inflation_indices FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON inflation_indices FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON inflation_adjustments FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON inflation_adjustments FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON inflation_adjustments FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON inflation_adjustments FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,91 @@
+-- Kur farkı değerlemesi: ledger link and currency balance for bank accounts,
+-- period-end FX revaluation runs and realised differences on invoice payments.
+
+-- AlterTable
+ALTER TABLE "client_company_bank_accounts" ADD COLUMN "ledger_account_code" VARCHAR(50),
+ADD COLUMN "currency_balance" DECIMAL(15,2),
+ADD COLUMN "balance_date" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "fx_revaluations" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "revaluation_date" TIMESTAMPTZ(6) NOT NULL,
+    "total_gain" DECIMAL(15,2) NOT NULL,
+    "total_loss" DECIMAL(15,2) NOT NULL,
+    "transaction_id" TEXT,
+    "items" JSONB NOT NULL DEFAULT '[]',
+    "warnings" JSONB NOT NULL DEFAULT '[]',
+    "run_count" INTEGER NOT NULL DEFAULT 1,
+    "posted_at" TIMESTAMPTZ(6) NOT NULL,
+    "posted_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "fx_revaluations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fx_settlements" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "invoice_id" TEXT NOT NULL,
+    "settlement_date" TIMESTAMPTZ(6) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "fx_amount" DECIMAL(15,2) NOT NULL,
+    "rate" DECIMAL(15,6) NOT NULL,
+    "carrying_rate" DECIMAL(15,6) NOT NULL,
+    "realised_difference" DECIMAL(15,2) NOT NULL,
+    "transaction_id" TEXT,
+    "kur_farki_invoice_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fx_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_revaluations_tenant_id_client_company_id_period_key" ON "fx_revaluations"("tenant_id", "client_company_id", "period");
+
+-- CreateIndex
+CREATE INDEX "fx_revaluations_tenant_id_idx" ON "fx_revaluations"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "fx_settlements_tenant_id_idx" ON "fx_settlements"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "fx_settlements_invoice_id_idx" ON "fx_settlements"("invoice_id");
+
+-- AddForeignKey
+ALTER TABLE "fx_revaluations" ADD CONSTRAINT "fx_revaluations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fx_revaluations" ADD CONSTRAINT "fx_revaluations_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fx_revaluations" ADD CONSTRAINT "fx_revaluations_posted_by_user_id_fkey" FOREIGN KEY ("posted_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fx_settlements" ADD CONSTRAINT "fx_settlements_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fx_settlements" ADD CONSTRAINT "fx_settlements_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fx_settlements" ADD CONSTRAINT "fx_settlements_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE fx_revaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fx_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON fx_revaluations FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON fx_revaluations FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON fx_revaluations FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON fx_revaluations FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON fx_settlements FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON fx_settlements FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON fx_settlements FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON fx_settlements FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
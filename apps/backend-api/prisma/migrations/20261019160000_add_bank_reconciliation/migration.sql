@@ -0,0 +1,115 @@
+-- Banka mutabakatı: imported bank statement lines, their matches to invoices
+-- and ledger entries, and the paid amount of invoices settled through them.
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "paid_amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+ADD COLUMN "paid_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "bank_statement_lines" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "bank_account_id" TEXT NOT NULL,
+    "external_id" VARCHAR(255) NOT NULL,
+    "booking_date" TIMESTAMPTZ(6) NOT NULL,
+    "value_date" TIMESTAMPTZ(6),
+    "description" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'TRY',
+    "balance_after" DECIMAL(15,2),
+    "counterparty_name" VARCHAR(255),
+    "counterparty_iban" VARCHAR(34),
+    "counterparty_tax_number" VARCHAR(50),
+    "transaction_id" TEXT,
+    "source" VARCHAR(50) NOT NULL DEFAULT 'integration',
+    "matched_amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "status" VARCHAR(30) NOT NULL DEFAULT 'unmatched',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_reconciliation_matches" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "bank_account_id" TEXT NOT NULL,
+    "statement_line_id" TEXT NOT NULL,
+    "invoice_id" TEXT,
+    "transaction_id" TEXT,
+    "match_group_id" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "method" VARCHAR(20) NOT NULL,
+    "confidence" DECIMAL(5,4),
+    "matched_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_reconciliation_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_bank_account_id_external_id_key" ON "bank_statement_lines"("bank_account_id", "external_id");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_tenant_id_idx" ON "bank_statement_lines"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_bank_account_id_status_idx" ON "bank_statement_lines"("bank_account_id", "status");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_bank_account_id_booking_date_idx" ON "bank_statement_lines"("bank_account_id", "booking_date");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_matches_tenant_id_idx" ON "bank_reconciliation_matches"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_matches_bank_account_id_match_group_id_idx" ON "bank_reconciliation_matches"("bank_account_id", "match_group_id");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_matches_statement_line_id_idx" ON "bank_reconciliation_matches"("statement_line_id");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_matches_invoice_id_idx" ON "bank_reconciliation_matches"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_matches_transaction_id_idx" ON "bank_reconciliation_matches"("transaction_id");
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_bank_account_id_fkey" FOREIGN KEY ("bank_account_id") REFERENCES "client_company_bank_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliation_matches" ADD CONSTRAINT "bank_reconciliation_matches_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliation_matches" ADD CONSTRAINT "bank_reconciliation_matches_bank_account_id_fkey" FOREIGN KEY ("bank_account_id") REFERENCES "client_company_bank_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliation_matches" ADD CONSTRAINT "bank_reconciliation_matches_statement_line_id_fkey" FOREIGN KEY ("statement_line_id") REFERENCES "bank_statement_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliation_matches" ADD CONSTRAINT "bank_reconciliation_matches_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliation_matches" ADD CONSTRAINT "bank_reconciliation_matches_matched_by_user_id_fkey" FOREIGN KEY ("matched_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE bank_statement_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_reconciliation_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON bank_statement_lines FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON bank_statement_lines FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON bank_statement_lines FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON bank_statement_lines FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON bank_reconciliation_matches FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON bank_reconciliation_matches FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON bank_reconciliation_matches FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON bank_reconciliation_matches FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,55 @@
+-- MT940, camt.053 and Excel statement files imported per bank account; the
+-- statement reference keeps a statement from being imported twice.
+
+-- CreateTable
+CREATE TABLE "bank_statement_imports" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "bank_account_id" TEXT NOT NULL,
+    "format" VARCHAR(20) NOT NULL,
+    "statement_reference" VARCHAR(255) NOT NULL,
+    "file_name" VARCHAR(255) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'TRY',
+    "period_start" TIMESTAMPTZ(6),
+    "period_end" TIMESTAMPTZ(6),
+    "opening_balance" DECIMAL(15,2),
+    "closing_balance" DECIMAL(15,2),
+    "line_count" INTEGER NOT NULL DEFAULT 0,
+    "created_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_count" INTEGER NOT NULL DEFAULT 0,
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "imported_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_tenant_id_idx" ON "bank_statement_imports"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_bank_account_id_period_end_idx" ON "bank_statement_imports"("bank_account_id", "period_end");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_imports_bank_account_id_statement_reference_key" ON "bank_statement_imports"("bank_account_id", "statement_reference");
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_bank_account_id_fkey" FOREIGN KEY ("bank_account_id") REFERENCES "client_company_bank_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_imported_by_user_id_fkey" FOREIGN KEY ("imported_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE bank_statement_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON bank_statement_imports FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON bank_statement_imports FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON bank_statement_imports FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON bank_statement_imports FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,7 @@
+-- KDV beyannamesi: line-level tevkifat and istisna codes used by the KDV-1 /
+-- KDV-2 calculation.
+
+-- AlterTable
+ALTER TABLE "invoice_lines" ADD COLUMN "withholding_code" VARCHAR(10),
+ADD COLUMN "withholding_rate" DECIMAL(5,4),
+ADD COLUMN "exemption_code" VARCHAR(10);
@@ -0,0 +1,146 @@
+-- Payroll (bordro): employees per client company, monthly payroll runs and payslips.
+
+-- CreateTable
+CREATE TABLE "employees" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "tckn" VARCHAR(11) NOT NULL,
+    "first_name" VARCHAR(100) NOT NULL,
+    "last_name" VARCHAR(100) NOT NULL,
+    "sgk_registry_number" VARCHAR(50),
+    "occupation_code" VARCHAR(20),
+    "department" VARCHAR(100),
+    "start_date" TIMESTAMPTZ(6) NOT NULL,
+    "end_date" TIMESTAMPTZ(6),
+    "gross_salary" DECIMAL(15,2) NOT NULL,
+    "incentive_code" VARCHAR(10),
+    "expense_account_code" VARCHAR(20) NOT NULL DEFAULT '770',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "metadata" JSONB DEFAULT '{}',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "employees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_runs" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'draft',
+    "employee_count" INTEGER NOT NULL DEFAULT 0,
+    "total_gross" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_employee_sgk" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_employer_sgk" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_incentive" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_income_tax" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_stamp_tax" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_net" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "total_employer_cost" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "transaction_id" TEXT,
+    "posted_at" TIMESTAMPTZ(6),
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "payroll_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payslips" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "payroll_run_id" TEXT NOT NULL,
+    "employee_id" TEXT NOT NULL,
+    "worked_days" INTEGER NOT NULL,
+    "gross_salary" DECIMAL(15,2) NOT NULL,
+    "additional_pay" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "sgk_base" DECIMAL(15,2) NOT NULL,
+    "employee_sgk" DECIMAL(15,2) NOT NULL,
+    "employee_unemployment" DECIMAL(15,2) NOT NULL,
+    "employer_sgk" DECIMAL(15,2) NOT NULL,
+    "employer_unemployment" DECIMAL(15,2) NOT NULL,
+    "incentive_code" VARCHAR(10),
+    "incentive_amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "income_tax_base" DECIMAL(15,2) NOT NULL,
+    "cumulative_income_tax_base" DECIMAL(15,2) NOT NULL,
+    "calculated_income_tax" DECIMAL(15,2) NOT NULL,
+    "income_tax_exemption" DECIMAL(15,2) NOT NULL,
+    "income_tax" DECIMAL(15,2) NOT NULL,
+    "calculated_stamp_tax" DECIMAL(15,2) NOT NULL,
+    "stamp_tax_exemption" DECIMAL(15,2) NOT NULL,
+    "stamp_tax" DECIMAL(15,2) NOT NULL,
+    "net_pay" DECIMAL(15,2) NOT NULL,
+    "employer_cost" DECIMAL(15,2) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payslips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "employees_tenant_id_client_company_id_tckn_key" ON "employees"("tenant_id", "client_company_id", "tckn");
+
+-- CreateIndex
+CREATE INDEX "employees_tenant_id_idx" ON "employees"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "employees_tenant_id_client_company_id_is_active_idx" ON "employees"("tenant_id", "client_company_id", "is_active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_runs_tenant_id_client_company_id_period_key" ON "payroll_runs"("tenant_id", "client_company_id", "period");
+
+-- CreateIndex
+CREATE INDEX "payroll_runs_tenant_id_idx" ON "payroll_runs"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payslips_payroll_run_id_employee_id_key" ON "payslips"("payroll_run_id", "employee_id");
+
+-- CreateIndex
+CREATE INDEX "payslips_tenant_id_idx" ON "payslips"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "payslips_employee_id_idx" ON "payslips"("employee_id");
+
+-- AddForeignKey
+ALTER TABLE "employees" ADD CONSTRAINT "employees_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "employees" ADD CONSTRAINT "employees_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payslips" ADD CONSTRAINT "payslips_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payslips" ADD CONSTRAINT "payslips_payroll_run_id_fkey" FOREIGN KEY ("payroll_run_id") REFERENCES "payroll_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payslips" ADD CONSTRAINT "payslips_employee_id_fkey" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payslips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON employees FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON employees FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON employees FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON employees FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON payroll_runs FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON payroll_runs FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON payroll_runs FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON payroll_runs FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON payslips FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON payslips FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON payslips FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON payslips FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,53 @@
+-- Cari hesap mutabakat requests sent to counterparties and their answers.
+
+-- CreateTable
+CREATE TABLE "cari_mutabakatlar" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "counterparty_name" VARCHAR(255) NOT NULL,
+    "counterparty_tax_number" VARCHAR(11) NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "as_of_date" TIMESTAMPTZ(6) NOT NULL,
+    "balance" DECIMAL(15,2) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "sent_at" TIMESTAMPTZ(6) NOT NULL,
+    "reminder_count" INTEGER NOT NULL DEFAULT 0,
+    "last_reminder_at" TIMESTAMPTZ(6),
+    "responded_at" TIMESTAMPTZ(6),
+    "responder_name" VARCHAR(255),
+    "response_balance" DECIMAL(15,2),
+    "response_note" TEXT,
+    "response_document_id" TEXT,
+    "attachment_document_id" TEXT,
+    "task_id" TEXT,
+    "created_by_user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "cari_mutabakatlar_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cari_mutabakatlar_tenant_id_idx" ON "cari_mutabakatlar"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "cari_mutabakatlar_tenant_id_client_company_id_status_idx" ON "cari_mutabakatlar"("tenant_id", "client_company_id", "status");
+
+-- CreateIndex
+CREATE INDEX "cari_mutabakatlar_tenant_id_counterparty_tax_number_idx" ON "cari_mutabakatlar"("tenant_id", "counterparty_tax_number");
+
+-- AddForeignKey
+ALTER TABLE "cari_mutabakatlar" ADD CONSTRAINT "cari_mutabakatlar_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cari_mutabakatlar" ADD CONSTRAINT "cari_mutabakatlar_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE cari_mutabakatlar ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON cari_mutabakatlar FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON cari_mutabakatlar FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON cari_mutabakatlar FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON cari_mutabakatlar FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,136 @@
+-- Cari hesap master data per client company, payments outside the bank
+-- reconciliation and their allocation to open invoices.
+
+-- CreateTable
+CREATE TABLE "counterparties" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "tax_number" VARCHAR(11),
+    "tax_office" VARCHAR(255),
+    "type" VARCHAR(20) NOT NULL DEFAULT 'customer',
+    "email" VARCHAR(255),
+    "phone" VARCHAR(50),
+    "addresses" JSONB NOT NULL DEFAULT '[]',
+    "ibans" VARCHAR(34)[],
+    "aliases" VARCHAR(255)[],
+    "payment_term_days" INTEGER,
+    "receivable_account_code" VARCHAR(50),
+    "payable_account_code" VARCHAR(50),
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "counterparties_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "counterparty_payments" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "counterparty_id" TEXT NOT NULL,
+    "direction" VARCHAR(20) NOT NULL,
+    "date" TIMESTAMPTZ(6) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'TRY',
+    "method" VARCHAR(20) NOT NULL,
+    "reference" VARCHAR(255),
+    "description" TEXT,
+    "allocated_amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "counterparty_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "counterparty_payment_allocations" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "payment_id" TEXT NOT NULL,
+    "invoice_id" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "counterparty_payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "counterparty_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "counterparties_client_company_id_tax_number_key" ON "counterparties"("client_company_id", "tax_number");
+
+-- CreateIndex
+CREATE INDEX "counterparties_tenant_id_idx" ON "counterparties"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "counterparties_tenant_id_client_company_id_is_active_idx" ON "counterparties"("tenant_id", "client_company_id", "is_active");
+
+-- CreateIndex
+CREATE INDEX "counterparty_payments_tenant_id_idx" ON "counterparty_payments"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "counterparty_payments_counterparty_id_date_idx" ON "counterparty_payments"("counterparty_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "counterparty_payment_allocations_payment_id_invoice_id_key" ON "counterparty_payment_allocations"("payment_id", "invoice_id");
+
+-- CreateIndex
+CREATE INDEX "counterparty_payment_allocations_tenant_id_idx" ON "counterparty_payment_allocations"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "counterparty_payment_allocations_invoice_id_idx" ON "counterparty_payment_allocations"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "invoices_counterparty_id_idx" ON "invoices"("counterparty_id");
+
+-- AddForeignKey
+ALTER TABLE "counterparties" ADD CONSTRAINT "counterparties_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "counterparties" ADD CONSTRAINT "counterparties_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "counterparty_payments" ADD CONSTRAINT "counterparty_payments_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "counterparty_payments" ADD CONSTRAINT "counterparty_payments_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "counterparty_payments" ADD CONSTRAINT "counterparty_payments_counterparty_id_fkey" FOREIGN KEY ("counterparty_id") REFERENCES "counterparties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "counterparty_payment_allocations" ADD CONSTRAINT "counterparty_payment_allocations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "counterparty_payment_allocations" ADD CONSTRAINT "counterparty_payment_allocations_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "counterparty_payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "counterparty_payment_allocations" ADD CONSTRAINT "counterparty_payment_allocations_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_counterparty_id_fkey" FOREIGN KEY ("counterparty_id") REFERENCES "counterparties"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE counterparties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE counterparty_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE counterparty_payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON counterparties FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON counterparties FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON counterparties FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON counterparties FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON counterparty_payments FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON counterparty_payments FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON counterparty_payments FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON counterparty_payments FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON counterparty_payment_allocations FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON counterparty_payment_allocations FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON counterparty_payment_allocations FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON counterparty_payment_allocations FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
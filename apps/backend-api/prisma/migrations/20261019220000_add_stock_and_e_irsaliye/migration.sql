@@ -0,0 +1,363 @@
+-- Stok: item catalogue, warehouses, stock movements, sayım and period-end
+-- postings per client company, and e-İrsaliye (UBL-TR DespatchAdvice).
+
+-- CreateTable
+CREATE TABLE "stock_items" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "code" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "unit" VARCHAR(10) NOT NULL DEFAULT 'C62',
+    "barcode" VARCHAR(50),
+    "cost_method" VARCHAR(20) NOT NULL DEFAULT 'fifo',
+    "inventory_account_code" VARCHAR(50) NOT NULL DEFAULT '153',
+    "cogs_account_code" VARCHAR(50) NOT NULL DEFAULT '621',
+    "aliases" VARCHAR(255)[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "stock_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouses" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "code" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "address" TEXT,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "warehouses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_movements" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "item_id" TEXT NOT NULL,
+    "warehouse_id" TEXT,
+    "type" VARCHAR(30) NOT NULL,
+    "direction" VARCHAR(3) NOT NULL,
+    "date" TIMESTAMPTZ(6) NOT NULL,
+    "quantity" DECIMAL(15,3) NOT NULL,
+    "unit_cost" DECIMAL(15,4),
+    "invoice_id" TEXT,
+    "invoice_line_id" TEXT,
+    "count_id" TEXT,
+    "description" VARCHAR(500),
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_counts" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "warehouse_id" TEXT,
+    "count_date" TIMESTAMPTZ(6) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'draft',
+    "notes" TEXT,
+    "applied_at" TIMESTAMPTZ(6),
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "stock_counts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_count_lines" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "count_id" TEXT NOT NULL,
+    "item_id" TEXT NOT NULL,
+    "book_quantity" DECIMAL(15,3) NOT NULL,
+    "counted_quantity" DECIMAL(15,3) NOT NULL,
+    "unit_cost" DECIMAL(15,4) NOT NULL,
+
+    CONSTRAINT "stock_count_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_period_postings" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "cogs_amount" DECIMAL(15,2) NOT NULL,
+    "shortage_amount" DECIMAL(15,2) NOT NULL,
+    "surplus_amount" DECIMAL(15,2) NOT NULL,
+    "closing_value" DECIMAL(15,2) NOT NULL,
+    "transaction_id" TEXT,
+    "posted_by_user_id" TEXT,
+    "posted_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_period_postings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "despatch_advices" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "direction" VARCHAR(10) NOT NULL,
+    "despatch_number" VARCHAR(16) NOT NULL,
+    "uuid" VARCHAR(36) NOT NULL,
+    "profile_id" VARCHAR(30) NOT NULL DEFAULT 'TEMELIRSALIYE',
+    "issue_date" TIMESTAMPTZ(6) NOT NULL,
+    "despatch_date" TIMESTAMPTZ(6) NOT NULL,
+    "counterparty_id" TEXT,
+    "counterparty_name" VARCHAR(255) NOT NULL,
+    "counterparty_tax_number" VARCHAR(11),
+    "delivery_address" TEXT,
+    "carrier_name" VARCHAR(255),
+    "carrier_tax_number" VARCHAR(11),
+    "driver_name" VARCHAR(255),
+    "driver_tckn" VARCHAR(11),
+    "vehicle_plate" VARCHAR(20),
+    "warehouse_id" TEXT,
+    "invoice_id" TEXT,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'draft',
+    "ubl_xml" TEXT,
+    "notes" TEXT,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "despatch_advices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "despatch_advice_lines" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "despatch_advice_id" TEXT NOT NULL,
+    "line_number" INTEGER NOT NULL,
+    "item_id" TEXT,
+    "item_code" VARCHAR(50),
+    "description" VARCHAR(500) NOT NULL,
+    "quantity" DECIMAL(15,3) NOT NULL,
+    "unit" VARCHAR(10) NOT NULL DEFAULT 'C62',
+
+    CONSTRAINT "despatch_advice_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "invoice_lines" ADD COLUMN "stock_item_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_items_client_company_id_code_key" ON "stock_items"("client_company_id", "code");
+
+-- CreateIndex
+CREATE INDEX "stock_items_tenant_id_idx" ON "stock_items"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "stock_items_tenant_id_client_company_id_is_active_idx" ON "stock_items"("tenant_id", "client_company_id", "is_active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "warehouses_client_company_id_code_key" ON "warehouses"("client_company_id", "code");
+
+-- CreateIndex
+CREATE INDEX "warehouses_tenant_id_idx" ON "warehouses"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_movements_invoice_line_id_key" ON "stock_movements"("invoice_line_id");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_tenant_id_idx" ON "stock_movements"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_tenant_id_client_company_id_date_idx" ON "stock_movements"("tenant_id", "client_company_id", "date");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_item_id_date_idx" ON "stock_movements"("item_id", "date");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_invoice_id_idx" ON "stock_movements"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "stock_counts_tenant_id_idx" ON "stock_counts"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "stock_counts_tenant_id_client_company_id_count_date_idx" ON "stock_counts"("tenant_id", "client_company_id", "count_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_count_lines_count_id_item_id_key" ON "stock_count_lines"("count_id", "item_id");
+
+-- CreateIndex
+CREATE INDEX "stock_count_lines_tenant_id_idx" ON "stock_count_lines"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_period_postings_tenant_id_client_company_id_period_key" ON "stock_period_postings"("tenant_id", "client_company_id", "period");
+
+-- CreateIndex
+CREATE INDEX "stock_period_postings_tenant_id_idx" ON "stock_period_postings"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "despatch_advices_company_direction_number_key" ON "despatch_advices"("client_company_id", "direction", "despatch_number");
+
+-- CreateIndex
+CREATE INDEX "despatch_advices_tenant_id_idx" ON "despatch_advices"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "despatch_advices_tenant_id_client_company_id_issue_date_idx" ON "despatch_advices"("tenant_id", "client_company_id", "issue_date");
+
+-- CreateIndex
+CREATE INDEX "despatch_advices_invoice_id_idx" ON "despatch_advices"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "despatch_advice_lines_tenant_id_idx" ON "despatch_advice_lines"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "despatch_advice_lines_despatch_advice_id_idx" ON "despatch_advice_lines"("despatch_advice_id");
+
+-- CreateIndex
+CREATE INDEX "despatch_advice_lines_item_id_idx" ON "despatch_advice_lines"("item_id");
+
+-- CreateIndex
+CREATE INDEX "invoice_lines_stock_item_id_idx" ON "invoice_lines"("stock_item_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_items" ADD CONSTRAINT "stock_items_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_items" ADD CONSTRAINT "stock_items_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "warehouses" ADD CONSTRAINT "warehouses_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "warehouses" ADD CONSTRAINT "warehouses_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_invoice_line_id_fkey" FOREIGN KEY ("invoice_line_id") REFERENCES "invoice_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_count_id_fkey" FOREIGN KEY ("count_id") REFERENCES "stock_counts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_counts" ADD CONSTRAINT "stock_counts_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_counts" ADD CONSTRAINT "stock_counts_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_counts" ADD CONSTRAINT "stock_counts_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_lines" ADD CONSTRAINT "stock_count_lines_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_lines" ADD CONSTRAINT "stock_count_lines_count_id_fkey" FOREIGN KEY ("count_id") REFERENCES "stock_counts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_lines" ADD CONSTRAINT "stock_count_lines_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_period_postings" ADD CONSTRAINT "stock_period_postings_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_period_postings" ADD CONSTRAINT "stock_period_postings_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advices" ADD CONSTRAINT "despatch_advices_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advices" ADD CONSTRAINT "despatch_advices_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advices" ADD CONSTRAINT "despatch_advices_counterparty_id_fkey" FOREIGN KEY ("counterparty_id") REFERENCES "counterparties"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advices" ADD CONSTRAINT "despatch_advices_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advices" ADD CONSTRAINT "despatch_advices_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advice_lines" ADD CONSTRAINT "despatch_advice_lines_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advice_lines" ADD CONSTRAINT "despatch_advice_lines_despatch_advice_id_fkey" FOREIGN KEY ("despatch_advice_id") REFERENCES "despatch_advices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "despatch_advice_lines" ADD CONSTRAINT "despatch_advice_lines_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "stock_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE stock_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_count_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_period_postings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE despatch_advices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE despatch_advice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON stock_items FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON stock_items FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON stock_items FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON stock_items FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON warehouses FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON warehouses FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON warehouses FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON warehouses FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON stock_movements FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON stock_movements FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON stock_movements FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON stock_movements FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON stock_counts FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON stock_counts FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON stock_counts FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON stock_counts FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON stock_count_lines FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON stock_count_lines FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON stock_count_lines FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON stock_count_lines FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON stock_period_postings FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON stock_period_postings FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON stock_period_postings FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON stock_period_postings FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON despatch_advices FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON despatch_advices FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON despatch_advices FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON despatch_advices FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON despatch_advice_lines FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON despatch_advice_lines FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON despatch_advice_lines FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON despatch_advice_lines FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
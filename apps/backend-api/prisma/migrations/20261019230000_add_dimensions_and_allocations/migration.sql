@@ -0,0 +1,286 @@
+-- Analitik boyutlar (masraf merkezi, proje, şube, etiket) on journal and
+-- invoice lines, defaults per cari kart or ledger account, and gider
+-- dağıtım rules with their monthly runs.
+
+-- CreateTable
+CREATE TABLE "dimensions" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "code" VARCHAR(30) NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "type" VARCHAR(20) NOT NULL DEFAULT 'cost_center',
+    "allow_multiple" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "dimensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dimension_values" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "dimension_id" TEXT NOT NULL,
+    "code" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "dimension_values_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "transaction_line_dimensions" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "transaction_line_id" TEXT NOT NULL,
+    "dimension_id" TEXT NOT NULL,
+    "dimension_value_id" TEXT NOT NULL,
+
+    CONSTRAINT "transaction_line_dimensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_line_dimensions" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "invoice_line_id" TEXT NOT NULL,
+    "dimension_id" TEXT NOT NULL,
+    "dimension_value_id" TEXT NOT NULL,
+
+    CONSTRAINT "invoice_line_dimensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dimension_defaults" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "dimension_value_id" TEXT NOT NULL,
+    "counterparty_id" TEXT,
+    "ledger_account_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dimension_defaults_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "allocation_rules" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "source_account_code" VARCHAR(50) NOT NULL,
+    "dimension_id" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "allocation_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "allocation_rule_targets" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "dimension_value_id" TEXT NOT NULL,
+    "percentage" DECIMAL(7,4) NOT NULL,
+
+    CONSTRAINT "allocation_rule_targets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "allocation_runs" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "transaction_id" TEXT,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "allocation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dimensions_tenant_id_code_key" ON "dimensions"("tenant_id", "code");
+
+-- CreateIndex
+CREATE INDEX "dimensions_tenant_id_idx" ON "dimensions"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dimension_values_dimension_id_code_key" ON "dimension_values"("dimension_id", "code");
+
+-- CreateIndex
+CREATE INDEX "dimension_values_tenant_id_idx" ON "dimension_values"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_line_dimensions_line_value_key" ON "transaction_line_dimensions"("transaction_line_id", "dimension_value_id");
+
+-- CreateIndex
+CREATE INDEX "transaction_line_dimensions_tenant_id_idx" ON "transaction_line_dimensions"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "transaction_line_dimensions_dimension_value_id_idx" ON "transaction_line_dimensions"("dimension_value_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_line_dimensions_invoice_line_id_dimension_value_id_key" ON "invoice_line_dimensions"("invoice_line_id", "dimension_value_id");
+
+-- CreateIndex
+CREATE INDEX "invoice_line_dimensions_tenant_id_idx" ON "invoice_line_dimensions"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "invoice_line_dimensions_dimension_value_id_idx" ON "invoice_line_dimensions"("dimension_value_id");
+
+-- CreateIndex
+CREATE INDEX "dimension_defaults_tenant_id_idx" ON "dimension_defaults"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "dimension_defaults_counterparty_id_idx" ON "dimension_defaults"("counterparty_id");
+
+-- CreateIndex
+CREATE INDEX "dimension_defaults_ledger_account_id_idx" ON "dimension_defaults"("ledger_account_id");
+
+-- CreateIndex
+CREATE INDEX "allocation_rules_tenant_id_idx" ON "allocation_rules"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "allocation_rules_tenant_id_client_company_id_idx" ON "allocation_rules"("tenant_id", "client_company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "allocation_rule_targets_rule_id_dimension_value_id_key" ON "allocation_rule_targets"("rule_id", "dimension_value_id");
+
+-- CreateIndex
+CREATE INDEX "allocation_rule_targets_tenant_id_idx" ON "allocation_rule_targets"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "allocation_runs_rule_id_period_key" ON "allocation_runs"("rule_id", "period");
+
+-- CreateIndex
+CREATE INDEX "allocation_runs_tenant_id_idx" ON "allocation_runs"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "dimensions" ADD CONSTRAINT "dimensions_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dimension_values" ADD CONSTRAINT "dimension_values_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dimension_values" ADD CONSTRAINT "dimension_values_dimension_id_fkey" FOREIGN KEY ("dimension_id") REFERENCES "dimensions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_line_dimensions" ADD CONSTRAINT "transaction_line_dimensions_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_line_dimensions" ADD CONSTRAINT "transaction_line_dimensions_transaction_line_id_fkey" FOREIGN KEY ("transaction_line_id") REFERENCES "transaction_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_line_dimensions" ADD CONSTRAINT "transaction_line_dimensions_dimension_id_fkey" FOREIGN KEY ("dimension_id") REFERENCES "dimensions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_line_dimensions" ADD CONSTRAINT "transaction_line_dimensions_dimension_value_id_fkey" FOREIGN KEY ("dimension_value_id") REFERENCES "dimension_values"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_line_dimensions" ADD CONSTRAINT "invoice_line_dimensions_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_line_dimensions" ADD CONSTRAINT "invoice_line_dimensions_invoice_line_id_fkey" FOREIGN KEY ("invoice_line_id") REFERENCES "invoice_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_line_dimensions" ADD CONSTRAINT "invoice_line_dimensions_dimension_id_fkey" FOREIGN KEY ("dimension_id") REFERENCES "dimensions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_line_dimensions" ADD CONSTRAINT "invoice_line_dimensions_dimension_value_id_fkey" FOREIGN KEY ("dimension_value_id") REFERENCES "dimension_values"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dimension_defaults" ADD CONSTRAINT "dimension_defaults_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dimension_defaults" ADD CONSTRAINT "dimension_defaults_dimension_value_id_fkey" FOREIGN KEY ("dimension_value_id") REFERENCES "dimension_values"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dimension_defaults" ADD CONSTRAINT "dimension_defaults_counterparty_id_fkey" FOREIGN KEY ("counterparty_id") REFERENCES "counterparties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dimension_defaults" ADD CONSTRAINT "dimension_defaults_ledger_account_id_fkey" FOREIGN KEY ("ledger_account_id") REFERENCES "ledger_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_rules" ADD CONSTRAINT "allocation_rules_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_rules" ADD CONSTRAINT "allocation_rules_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_rules" ADD CONSTRAINT "allocation_rules_dimension_id_fkey" FOREIGN KEY ("dimension_id") REFERENCES "dimensions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_rule_targets" ADD CONSTRAINT "allocation_rule_targets_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_rule_targets" ADD CONSTRAINT "allocation_rule_targets_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "allocation_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_rule_targets" ADD CONSTRAINT "allocation_rule_targets_dimension_value_id_fkey" FOREIGN KEY ("dimension_value_id") REFERENCES "dimension_values"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_runs" ADD CONSTRAINT "allocation_runs_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_runs" ADD CONSTRAINT "allocation_runs_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "allocation_runs" ADD CONSTRAINT "allocation_runs_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "allocation_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE dimensions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dimension_values ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_line_dimensions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_line_dimensions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dimension_defaults ENABLE ROW LEVEL SECURITY;
+ALTER TABLE allocation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE allocation_rule_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE allocation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON dimensions FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON dimensions FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON dimensions FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON dimensions FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON dimension_values FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON dimension_values FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON dimension_values FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON dimension_values FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON transaction_line_dimensions FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON transaction_line_dimensions FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON transaction_line_dimensions FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON transaction_line_dimensions FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON invoice_line_dimensions FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON invoice_line_dimensions FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON invoice_line_dimensions FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON invoice_line_dimensions FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON dimension_defaults FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON dimension_defaults FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON dimension_defaults FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON dimension_defaults FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON allocation_rules FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON allocation_rules FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON allocation_rules FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON allocation_rules FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON allocation_rule_targets FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON allocation_rule_targets FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON allocation_rule_targets FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON allocation_rule_targets FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON allocation_runs FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON allocation_runs FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON allocation_runs FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON allocation_runs FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
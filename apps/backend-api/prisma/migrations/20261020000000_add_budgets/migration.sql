@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "budgets" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "fiscal_year" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "name" VARCHAR(255) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'draft',
+    "revised_from_id" TEXT,
+    "alert_threshold_percent" DECIMAL(5,2) NOT NULL DEFAULT 10,
+    "notes" TEXT,
+    "created_by_user_id" TEXT,
+    "approved_by_user_id" TEXT,
+    "approved_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "budget_lines" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "budget_id" TEXT NOT NULL,
+    "ledger_account_id" TEXT NOT NULL,
+    "dimension_value_id" TEXT,
+    "month" INTEGER NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "budget_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "budgets_tenant_id_idx" ON "budgets"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "budgets_tenant_id_client_company_id_fiscal_year_status_idx" ON "budgets"("tenant_id", "client_company_id", "fiscal_year", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budgets_tenant_id_client_company_id_fiscal_year_version_key" ON "budgets"("tenant_id", "client_company_id", "fiscal_year", "version");
+
+-- CreateIndex
+CREATE INDEX "budget_lines_tenant_id_idx" ON "budget_lines"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "budget_lines_budget_id_idx" ON "budget_lines"("budget_id");
+
+-- CreateIndex
+CREATE INDEX "budget_lines_ledger_account_id_idx" ON "budget_lines"("ledger_account_id");
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_revised_from_id_fkey" FOREIGN KEY ("revised_from_id") REFERENCES "budgets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_lines" ADD CONSTRAINT "budget_lines_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_lines" ADD CONSTRAINT "budget_lines_budget_id_fkey" FOREIGN KEY ("budget_id") REFERENCES "budgets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_lines" ADD CONSTRAINT "budget_lines_ledger_account_id_fkey" FOREIGN KEY ("ledger_account_id") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_lines" ADD CONSTRAINT "budget_lines_dimension_value_id_fkey" FOREIGN KEY ("dimension_value_id") REFERENCES "dimension_values"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,126 @@
+-- CreateTable
+CREATE TABLE "approval_policies" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "action" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "min_amount" DECIMAL(15,2),
+    "steps" JSONB NOT NULL DEFAULT '[]',
+    "require_distinct_preparer" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "approval_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "approval_requests" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "policy_id" TEXT,
+    "action" VARCHAR(50) NOT NULL,
+    "resource_id" TEXT,
+    "client_company_id" TEXT,
+    "amount" DECIMAL(15,2),
+    "summary" VARCHAR(500) NOT NULL,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "steps" JSONB NOT NULL DEFAULT '[]',
+    "require_distinct_preparer" BOOLEAN NOT NULL DEFAULT false,
+    "current_step" INTEGER NOT NULL DEFAULT 1,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "comment" TEXT,
+    "requested_by_user_id" TEXT NOT NULL,
+    "prepared_by_user_id" TEXT,
+    "decided_at" TIMESTAMPTZ(6),
+    "executed_at" TIMESTAMPTZ(6),
+    "executed_by_user_id" TEXT,
+    "result" JSONB,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "approval_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "approval_decisions" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "approval_request_id" TEXT NOT NULL,
+    "step" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "on_behalf_of_user_id" TEXT,
+    "decision" VARCHAR(20) NOT NULL,
+    "comment" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approval_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "approval_delegations" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "delegator_user_id" TEXT NOT NULL,
+    "delegate_user_id" TEXT NOT NULL,
+    "starts_at" TIMESTAMPTZ(6) NOT NULL,
+    "ends_at" TIMESTAMPTZ(6) NOT NULL,
+    "reason" VARCHAR(500),
+    "revoked_at" TIMESTAMPTZ(6),
+    "created_by_user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "approval_delegations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "approval_policies_tenant_id_idx" ON "approval_policies"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "approval_policies_tenant_id_action_is_active_idx" ON "approval_policies"("tenant_id", "action", "is_active");
+
+-- CreateIndex
+CREATE INDEX "approval_requests_tenant_id_idx" ON "approval_requests"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "approval_requests_tenant_id_status_idx" ON "approval_requests"("tenant_id", "status");
+
+-- CreateIndex
+CREATE INDEX "approval_requests_tenant_id_action_resource_id_idx" ON "approval_requests"("tenant_id", "action", "resource_id");
+
+-- CreateIndex
+CREATE INDEX "approval_decisions_tenant_id_idx" ON "approval_decisions"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "approval_decisions_approval_request_id_idx" ON "approval_decisions"("approval_request_id");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_tenant_id_idx" ON "approval_delegations"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_tenant_id_delegate_user_id_idx" ON "approval_delegations"("tenant_id", "delegate_user_id");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_tenant_id_delegator_user_id_idx" ON "approval_delegations"("tenant_id", "delegator_user_id");
+
+-- AddForeignKey
+ALTER TABLE "approval_policies" ADD CONSTRAINT "approval_policies_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_requests" ADD CONSTRAINT "approval_requests_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_requests" ADD CONSTRAINT "approval_requests_policy_id_fkey" FOREIGN KEY ("policy_id") REFERENCES "approval_policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_requests" ADD CONSTRAINT "approval_requests_client_company_id_fkey" FOREIGN KEY ("client_company_id") REFERENCES "client_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_decisions" ADD CONSTRAINT "approval_decisions_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_decisions" ADD CONSTRAINT "approval_decisions_approval_request_id_fkey" FOREIGN KEY ("approval_request_id") REFERENCES "approval_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_delegations" ADD CONSTRAINT "approval_delegations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "risk_rule_versions" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "description" VARCHAR(500) NOT NULL,
+    "weight" DECIMAL(5,2) NOT NULL,
+    "default_severity" VARCHAR(50) NOT NULL,
+    "config" JSONB NOT NULL DEFAULT '{}',
+    "effective_from" TIMESTAMPTZ(6) NOT NULL,
+    "change_note" VARCHAR(500),
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "risk_rule_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "risk_rule_versions_rule_id_version_key" ON "risk_rule_versions"("rule_id", "version");
+
+-- CreateIndex
+CREATE INDEX "risk_rule_versions_rule_id_effective_from_idx" ON "risk_rule_versions"("rule_id", "effective_from");
+
+-- AddForeignKey
+ALTER TABLE "risk_rule_versions" ADD CONSTRAINT "risk_rule_versions_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "risk_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,117 @@
+-- AlterTable
+ALTER TABLE "risk_alerts" ADD COLUMN "assignee_user_id" TEXT,
+ADD COLUMN "due_at" TIMESTAMPTZ(6),
+ADD COLUMN "disposition" VARCHAR(50),
+ADD COLUMN "disposition_note" TEXT,
+ADD COLUMN "rule_codes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "merged_into_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "risk_alert_comments" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "alert_id" TEXT NOT NULL,
+    "parent_comment_id" TEXT,
+    "author_user_id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "risk_alert_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "risk_alert_evidence" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "alert_id" TEXT NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "document_id" TEXT,
+    "transaction_id" TEXT,
+    "file_name" VARCHAR(255),
+    "content_type" VARCHAR(100),
+    "size_bytes" INTEGER,
+    "storage_path" VARCHAR(500),
+    "checksum" VARCHAR(64),
+    "description" VARCHAR(500),
+    "added_by_user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "risk_alert_evidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "risk_alert_events" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "alert_id" TEXT NOT NULL,
+    "type" VARCHAR(50) NOT NULL,
+    "actor_user_id" TEXT,
+    "data" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "risk_alert_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "risk_alerts_tenant_id_assignee_user_id_status_idx" ON "risk_alerts"("tenant_id", "assignee_user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "risk_alert_comments_tenant_id_idx" ON "risk_alert_comments"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "risk_alert_comments_alert_id_idx" ON "risk_alert_comments"("alert_id");
+
+-- CreateIndex
+CREATE INDEX "risk_alert_evidence_tenant_id_idx" ON "risk_alert_evidence"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "risk_alert_evidence_alert_id_idx" ON "risk_alert_evidence"("alert_id");
+
+-- CreateIndex
+CREATE INDEX "risk_alert_events_tenant_id_idx" ON "risk_alert_events"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "risk_alert_events_alert_id_created_at_idx" ON "risk_alert_events"("alert_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "risk_alerts" ADD CONSTRAINT "risk_alerts_merged_into_id_fkey" FOREIGN KEY ("merged_into_id") REFERENCES "risk_alerts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alert_comments" ADD CONSTRAINT "risk_alert_comments_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alert_comments" ADD CONSTRAINT "risk_alert_comments_alert_id_fkey" FOREIGN KEY ("alert_id") REFERENCES "risk_alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alert_comments" ADD CONSTRAINT "risk_alert_comments_parent_comment_id_fkey" FOREIGN KEY ("parent_comment_id") REFERENCES "risk_alert_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alert_evidence" ADD CONSTRAINT "risk_alert_evidence_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alert_evidence" ADD CONSTRAINT "risk_alert_evidence_alert_id_fkey" FOREIGN KEY ("alert_id") REFERENCES "risk_alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alert_events" ADD CONSTRAINT "risk_alert_events_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alert_events" ADD CONSTRAINT "risk_alert_events_alert_id_fkey" FOREIGN KEY ("alert_id") REFERENCES "risk_alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE risk_alert_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE risk_alert_evidence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE risk_alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON risk_alert_comments FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON risk_alert_comments FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON risk_alert_comments FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON risk_alert_comments FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON risk_alert_evidence FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON risk_alert_evidence FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON risk_alert_evidence FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON risk_alert_evidence FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+-- Case history is append-only: no UPDATE or DELETE policy
+CREATE POLICY tenant_isolation_select ON risk_alert_events FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON risk_alert_events FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "risk_rule_backtests" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "scope" VARCHAR(50) NOT NULL,
+    "client_company_id" TEXT,
+    "window_start" TIMESTAMPTZ(6) NOT NULL,
+    "window_end" TIMESTAMPTZ(6) NOT NULL,
+    "proposed_rules" JSONB NOT NULL DEFAULT '[]',
+    "status" VARCHAR(50) NOT NULL DEFAULT 'pending',
+    "total_count" INTEGER NOT NULL DEFAULT 0,
+    "processed_count" INTEGER NOT NULL DEFAULT 0,
+    "result" JSONB,
+    "error_message" TEXT,
+    "requested_by_user_id" TEXT NOT NULL,
+    "started_at" TIMESTAMPTZ(6),
+    "completed_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "risk_rule_backtests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "risk_rule_backtests_tenant_id_created_at_idx" ON "risk_rule_backtests"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "risk_rule_backtests_status_created_at_idx" ON "risk_rule_backtests"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "risk_rule_backtests" ADD CONSTRAINT "risk_rule_backtests_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE risk_rule_backtests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON risk_rule_backtests FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON risk_rule_backtests FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON risk_rule_backtests FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON risk_rule_backtests FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -0,0 +1,79 @@
+-- CreateTable
+CREATE TABLE "fraud_feature_vectors" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "client_company_id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "feature_set_version" INTEGER NOT NULL,
+    "features" JSONB NOT NULL DEFAULT '{}',
+    "label" INTEGER,
+    "as_of" TIMESTAMPTZ(6) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "fraud_feature_vectors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fraud_models" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "algorithm" VARCHAR(50),
+    "status" VARCHAR(50) NOT NULL DEFAULT 'queued',
+    "feature_set_version" INTEGER NOT NULL,
+    "feature_names" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "artifact" JSONB,
+    "metrics" JSONB,
+    "training_sample_count" INTEGER NOT NULL DEFAULT 0,
+    "labeled_sample_count" INTEGER NOT NULL DEFAULT 0,
+    "error_message" TEXT,
+    "requested_by_user_id" TEXT,
+    "trained_at" TIMESTAMPTZ(6),
+    "activated_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "fraud_models_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fraud_feature_vectors_document_id_key" ON "fraud_feature_vectors"("document_id");
+
+-- CreateIndex
+CREATE INDEX "fraud_feature_vectors_tenant_id_label_idx" ON "fraud_feature_vectors"("tenant_id", "label");
+
+-- CreateIndex
+CREATE INDEX "fraud_feature_vectors_tenant_id_client_company_id_as_of_idx" ON "fraud_feature_vectors"("tenant_id", "client_company_id", "as_of");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fraud_models_tenant_id_version_key" ON "fraud_models"("tenant_id", "version");
+
+-- CreateIndex
+CREATE INDEX "fraud_models_tenant_id_status_idx" ON "fraud_models"("tenant_id", "status");
+
+-- CreateIndex
+CREATE INDEX "fraud_models_status_created_at_idx" ON "fraud_models"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "fraud_feature_vectors" ADD CONSTRAINT "fraud_feature_vectors_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fraud_feature_vectors" ADD CONSTRAINT "fraud_feature_vectors_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fraud_models" ADD CONSTRAINT "fraud_models_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE fraud_feature_vectors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fraud_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON fraud_feature_vectors FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON fraud_feature_vectors FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON fraud_feature_vectors FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON fraud_feature_vectors FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+CREATE POLICY tenant_isolation_select ON fraud_models FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON fraud_models FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON fraud_models FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON fraud_models FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
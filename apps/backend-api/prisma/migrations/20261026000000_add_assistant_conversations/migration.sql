@@ -0,0 +1,115 @@
+-- CreateTable
+CREATE TABLE "assistant_conversations" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "type" VARCHAR(20) NOT NULL DEFAULT 'GENEL',
+    "client_company_id" TEXT,
+    "message_count" INTEGER NOT NULL DEFAULT 0,
+    "last_message_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "assistant_conversations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "assistant_messages" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "role" VARCHAR(20) NOT NULL,
+    "content" TEXT NOT NULL,
+    "search_metrics" JSONB,
+    "feedback_rating" VARCHAR(10),
+    "feedback_comment" TEXT,
+    "feedback_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "assistant_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "assistant_message_citations" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "document_id" TEXT,
+    "invoice_id" TEXT,
+    "transaction_id" TEXT,
+    "label" VARCHAR(500) NOT NULL,
+    "similarity" DOUBLE PRECISION NOT NULL,
+    "rerank_score" DOUBLE PRECISION,
+    "snippet" TEXT,
+
+    CONSTRAINT "assistant_message_citations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assistant_conversations_tenant_id_user_id_last_message_at_idx" ON "assistant_conversations"("tenant_id", "user_id", "last_message_at");
+
+-- CreateIndex
+CREATE INDEX "assistant_conversations_tenant_id_last_message_at_idx" ON "assistant_conversations"("tenant_id", "last_message_at");
+
+-- CreateIndex
+CREATE INDEX "assistant_messages_conversation_id_created_at_idx" ON "assistant_messages"("conversation_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "assistant_messages_tenant_id_feedback_rating_idx" ON "assistant_messages"("tenant_id", "feedback_rating");
+
+-- CreateIndex
+CREATE INDEX "assistant_message_citations_message_id_idx" ON "assistant_message_citations"("message_id");
+
+-- CreateIndex
+CREATE INDEX "assistant_message_citations_document_id_idx" ON "assistant_message_citations"("document_id");
+
+-- AddForeignKey
+ALTER TABLE "assistant_conversations" ADD CONSTRAINT "assistant_conversations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_conversations" ADD CONSTRAINT "assistant_conversations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_messages" ADD CONSTRAINT "assistant_messages_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_messages" ADD CONSTRAINT "assistant_messages_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "assistant_conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_message_citations" ADD CONSTRAINT "assistant_message_citations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_message_citations" ADD CONSTRAINT "assistant_message_citations_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "assistant_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_message_citations" ADD CONSTRAINT "assistant_message_citations_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_message_citations" ADD CONSTRAINT "assistant_message_citations_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assistant_message_citations" ADD CONSTRAINT "assistant_message_citations_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row-Level Security (see 20260216000000_add_row_level_security)
+ALTER TABLE assistant_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON assistant_conversations FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON assistant_conversations FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON assistant_conversations FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON assistant_conversations FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+ALTER TABLE assistant_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON assistant_messages FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON assistant_messages FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON assistant_messages FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON assistant_messages FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+
+ALTER TABLE assistant_message_citations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON assistant_message_citations FOR SELECT USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_insert ON assistant_message_citations FOR INSERT WITH CHECK (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_update ON assistant_message_citations FOR UPDATE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
+CREATE POLICY tenant_isolation_delete ON assistant_message_citations FOR DELETE USING (tenant_id = current_tenant_id() OR current_tenant_id() IS NULL);
@@ -31,6 +31,18 @@ async function seedReportDefinitions() {
       description: "Belge yüklemeleri, AI analizleri ve fatura durumları.",
       isActive: true,
     },
+    {
+      code: "DIMENSION_PROFITABILITY",
+      name: "Boyut Bazında Kârlılık",
+      description: "Seçili müşteri için masraf merkezi, proje veya şube bazında gelir, gider ve kâr.",
+      isActive: true,
+    },
+    {
+      code: "BUDGET_VARIANCE",
+      name: "Bütçe / Fiili Karşılaştırma",
+      description: "Onaylı bütçeye göre ay ve yıl başından itibaren hesap bazında sapmalar.",
+      isActive: true,
+    },
   ];
 
   let created = 0;
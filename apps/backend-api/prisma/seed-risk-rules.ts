@@ -1,5 +1,6 @@
 import "dotenv/config";
 import { PrismaClient } from "@prisma/client";
+import { BUILT_IN_RULES } from "../src/services/risk-rule-language";
 
 const prisma = new PrismaClient();
 
@@ -100,8 +101,26 @@ async function seedRiskRules() {
         days: 90,
       },
     },
+    {
+      tenantId: null,
+      scope: "company",
+      code: "COMP_STOCK_DISCREPANCY",
+      description: "Stok kayıtları faturalarla tutarsız: stoksuz satış, faturasız irsaliye veya yüksek sayım noksanı.",
+      weight: 20,
+      isActive: true,
+      defaultSeverity: "medium",
+      config: {
+        threshold: 0,
+      },
+    },
   ];
 
+  // Store the built-in definitions as conditions, so the rule editor shows
+  // them and tenants can publish tuned versions
+  for (const rule of [...documentRules, ...companyRules] as Array<{ code: string; config: Record<string, unknown> }>) {
+    rule.config = { ...rule.config, condition: BUILT_IN_RULES[rule.code].condition(rule.config) };
+  }
+
   // Upsert document rules
   for (const rule of documentRules) {
     // Check if rule exists
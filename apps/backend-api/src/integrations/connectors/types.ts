@@ -35,6 +35,9 @@ export interface NormalizedBankTransaction {
   amount: number; // Positive for credit, negative for debit
   currency: string;
   balanceAfter?: number | null;
+  counterpartyName?: string | null;
+  counterpartyIban?: string | null;
+  counterpartyTaxNumber?: string | null; // VKN/TCKN when the bank provides it
 }
 
 export interface FetchInvoicesOptions {
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import { isUblDespatchAdvice, isUblInvoice, parseUblDespatchAdviceFile } from "..";
+import { buildEIrsaliyeXml, validateEIrsaliye, type EIrsaliyeInput } from "../../../services/e-irsaliye-xml";
+
+const input: EIrsaliyeInput = {
+  uuid: "0F8FAD5B-D9CB-469F-A165-70867728950E",
+  despatchNumber: "IRS2026000000007",
+  profileId: "TEMELIRSALIYE",
+  issueDate: new Date(2026, 2, 5, 9, 30),
+  despatchDate: new Date(2026, 2, 6, 8, 0),
+  supplier: {
+    taxNumber: "1234567890",
+    name: "Acme Tekstil A.Ş.",
+    taxOffice: "Kadıköy",
+    address: "Organize Sanayi Bölgesi 4. Cadde No:12",
+    city: "Bursa",
+  },
+  customer: {
+    taxNumber: "9876543210",
+    name: "Örnek Konfeksiyon Ltd. Şti.",
+    taxOffice: null,
+    address: "Merter Mah. Keresteciler Sit. No:5",
+    city: "İstanbul",
+  },
+  deliveryAddress: "Merter Mah. Keresteciler Sit. No:5 Depo",
+  carrier: null,
+  driver: { name: "Ahmet Yılmaz", tckn: "10000000146" },
+  vehiclePlate: "16 abc 123",
+  notes: "Kırılacak eşya & dikkatli taşıyın",
+  lines: [
+    { lineNumber: 1, description: "Pamuk İplik Ne 30/1", itemCode: "IPL-30", quantity: 250.5, unitCode: "KGM" },
+    { lineNumber: 2, description: "Ham Kumaş", itemCode: null, quantity: 40, unitCode: "MTR" },
+  ],
+};
+
+describe("e-İrsaliye UBL-TR", () => {
+  it("should read back what the builder wrote", () => {
+    const file = Buffer.from(buildEIrsaliyeXml(input), "utf-8");
+
+    expect(isUblDespatchAdvice(file)).toBe(true);
+    expect(isUblInvoice(file)).toBe(false);
+
+    const parsed = parseUblDespatchAdviceFile(file);
+    expect(parsed).toMatchObject({
+      ettn: input.uuid,
+      despatchNumber: "IRS2026000000007",
+      profileId: "TEMELIRSALIYE",
+      despatchTypeCode: "SEVK",
+      supplier: { taxNumber: "1234567890", taxNumberScheme: "VKN", name: "Acme Tekstil A.Ş.", taxOffice: "Kadıköy" },
+      customer: { taxNumber: "9876543210", name: "Örnek Konfeksiyon Ltd. Şti." },
+      carrier: null,
+      driverName: "Ahmet Yılmaz",
+      driverTckn: "10000000146",
+      vehiclePlate: "16ABC123",
+    });
+    expect(parsed.issueDate.toISOString().slice(0, 10)).toBe("2026-03-05");
+    expect(parsed.despatchDate?.toISOString().slice(0, 10)).toBe("2026-03-06");
+    expect(parsed.deliveryAddress).toContain("Keresteciler Sit. No:5 Depo");
+    expect(parsed.lines).toEqual([
+      { lineNumber: 1, description: "Pamuk İplik Ne 30/1", itemCode: "IPL-30", quantity: 250.5, unitCode: "KGM" },
+      { lineNumber: 2, description: "Ham Kumaş", itemCode: null, quantity: 40, unitCode: "MTR" },
+    ]);
+  });
+
+  it("should read a taşıyıcı firma from CarrierParty", () => {
+    const xml = buildEIrsaliyeXml({
+      ...input,
+      carrier: { name: "Hızlı Lojistik A.Ş.", taxNumber: "5556667770" },
+      driver: null,
+      vehiclePlate: null,
+    });
+
+    const parsed = parseUblDespatchAdviceFile(Buffer.from(xml, "utf-8"));
+    expect(parsed.carrier).toMatchObject({ taxNumber: "5556667770", name: "Hızlı Lojistik A.Ş." });
+    expect(parsed.driverName).toBeNull();
+  });
+
+  it("should require a carrier or the driver and plate", () => {
+    const errors = validateEIrsaliye({ ...input, driver: { name: "Ahmet Yılmaz", tckn: "123" }, vehiclePlate: null });
+
+    expect(errors.map((error) => error.field)).toEqual(["driver.tckn", "vehiclePlate"]);
+    expect(validateEIrsaliye(input)).toEqual([]);
+  });
+
+  it("should reject an invoice passed as an irsaliye", () => {
+    const invoice = Buffer.from(
+      '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"><ID>ABC</ID></Invoice>',
+      "utf-8"
+    );
+
+    expect(isUblDespatchAdvice(invoice)).toBe(false);
+    expect(() => parseUblDespatchAdviceFile(invoice)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import { isUblInvoice, parseUblInvoiceFile } from "..";
+
+const XSLT = Buffer.from('<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform"/>').toString("base64");
+const PDF = Buffer.from("%PDF-1.4 fatura").toString("base64");
+
+const UBL = `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:UBLVersionID>2.1</cbc:UBLVersionID>
+  <cbc:CustomizationID>TR1.2</cbc:CustomizationID>
+  <cbc:ProfileID>TICARIFATURA</cbc:ProfileID>
+  <cbc:ID>ABC2026000000012</cbc:ID>
+  <cbc:UUID>f47ac10b-58cc-4372-a567-0e02b2c3d479</cbc:UUID>
+  <cbc:IssueDate>2026-03-05</cbc:IssueDate>
+  <cbc:InvoiceTypeCode>TEVKIFAT</cbc:InvoiceTypeCode>
+  <cbc:DocumentCurrencyCode>USD</cbc:DocumentCurrencyCode>
+  <cac:AdditionalDocumentReference>
+    <cbc:ID>f47ac10b-58cc-4372-a567-0e02b2c3d479</cbc:ID>
+    <cbc:IssueDate>2026-03-05</cbc:IssueDate>
+    <cbc:DocumentType>XSLT</cbc:DocumentType>
+    <cac:Attachment>
+      <cbc:EmbeddedDocumentBinaryObject mimeCode="application/xml" encodingCode="Base64" filename="ABC2026000000012.xslt">${XSLT}</cbc:EmbeddedDocumentBinaryObject>
+    </cac:Attachment>
+  </cac:AdditionalDocumentReference>
+  <cac:AdditionalDocumentReference>
+    <cbc:ID>PDF</cbc:ID>
+    <cbc:IssueDate>2026-03-05</cbc:IssueDate>
+    <cac:Attachment>
+      <cbc:EmbeddedDocumentBinaryObject mimeCode="application/pdf" encodingCode="Base64">${PDF}</cbc:EmbeddedDocumentBinaryObject>
+    </cac:Attachment>
+  </cac:AdditionalDocumentReference>
+  <cac:AccountingSupplierParty>
+    <cac:Party>
+      <cac:PartyIdentification><cbc:ID schemeID="MERSISNO">0123456789000015</cbc:ID></cac:PartyIdentification>
+      <cac:PartyIdentification><cbc:ID schemeID="VKN">1234567890</cbc:ID></cac:PartyIdentification>
+      <cac:PartyName><cbc:Name>Acme Tekstil A.Ş.</cbc:Name></cac:PartyName>
+      <cac:PartyTaxScheme><cac:TaxScheme><cbc:Name>Kadıköy</cbc:Name></cac:TaxScheme></cac:PartyTaxScheme>
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>
+    <cac:Party>
+      <cac:PartyIdentification><cbc:ID schemeID="TCKN">11111111110</cbc:ID></cac:PartyIdentification>
+      <cac:Person><cbc:FirstName>Ayşe</cbc:FirstName><cbc:FamilyName>Yılmaz</cbc:FamilyName></cac:Person>
+    </cac:Party>
+  </cac:AccountingCustomerParty>
+  <cac:PaymentMeans><cbc:PaymentMeansCode>42</cbc:PaymentMeansCode><cbc:PaymentDueDate>2026-04-04</cbc:PaymentDueDate></cac:PaymentMeans>
+  <cac:PricingExchangeRate>
+    <cbc:SourceCurrencyCode>USD</cbc:SourceCurrencyCode>
+    <cbc:TargetCurrencyCode>TRY</cbc:TargetCurrencyCode>
+    <cbc:CalculationRate>32.5</cbc:CalculationRate>
+  </cac:PricingExchangeRate>
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="USD">200.00</cbc:TaxAmount>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="USD">1000.00</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="USD">200.00</cbc:TaxAmount>
+      <cbc:Percent>20</cbc:Percent>
+      <cac:TaxCategory><cac:TaxScheme><cbc:Name>KDV</cbc:Name><cbc:TaxTypeCode>0015</cbc:TaxTypeCode></cac:TaxScheme></cac:TaxCategory>
+    </cac:TaxSubtotal>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="USD">500.00</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="USD">0.00</cbc:TaxAmount>
+      <cbc:Percent>0</cbc:Percent>
+      <cac:TaxCategory>
+        <cbc:TaxExemptionReasonCode>351</cbc:TaxExemptionReasonCode>
+        <cbc:TaxExemptionReason>KDV - İstisna Olmayan Diğer</cbc:TaxExemptionReason>
+        <cac:TaxScheme><cbc:Name>KDV</cbc:Name><cbc:TaxTypeCode>0015</cbc:TaxTypeCode></cac:TaxScheme>
+      </cac:TaxCategory>
+    </cac:TaxSubtotal>
+  </cac:TaxTotal>
+  <cac:WithholdingTaxTotal>
+    <cbc:TaxAmount currencyID="USD">100.00</cbc:TaxAmount>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="USD">200.00</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="USD">100.00</cbc:TaxAmount>
+      <cbc:Percent>50</cbc:Percent>
+      <cac:TaxCategory><cac:TaxScheme><cbc:Name>Yapım İşleri</cbc:Name><cbc:TaxTypeCode>601</cbc:TaxTypeCode></cac:TaxScheme></cac:TaxCategory>
+    </cac:TaxSubtotal>
+  </cac:WithholdingTaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="USD">1500.00</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount currencyID="USD">1500.00</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="USD">1700.00</cbc:TaxInclusiveAmount>
+    <cbc:AllowanceTotalAmount currencyID="USD">0.00</cbc:AllowanceTotalAmount>
+    <cbc:PayableAmount currencyID="USD">1600.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="C62">10</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="USD">1000.00</cbc:LineExtensionAmount>
+    <cac:TaxTotal>
+      <cbc:TaxAmount currencyID="USD">200.00</cbc:TaxAmount>
+      <cac:TaxSubtotal>
+        <cbc:TaxableAmount currencyID="USD">1000.00</cbc:TaxableAmount>
+        <cbc:TaxAmount currencyID="USD">200.00</cbc:TaxAmount>
+        <cbc:Percent>20</cbc:Percent>
+        <cac:TaxCategory><cac:TaxScheme><cbc:Name>KDV</cbc:Name><cbc:TaxTypeCode>0015</cbc:TaxTypeCode></cac:TaxScheme></cac:TaxCategory>
+      </cac:TaxSubtotal>
+    </cac:TaxTotal>
+    <cac:WithholdingTaxTotal>
+      <cbc:TaxAmount currencyID="USD">100.00</cbc:TaxAmount>
+      <cac:TaxSubtotal>
+        <cbc:TaxableAmount currencyID="USD">200.00</cbc:TaxableAmount>
+        <cbc:TaxAmount currencyID="USD">100.00</cbc:TaxAmount>
+        <cbc:Percent>50</cbc:Percent>
+        <cac:TaxCategory><cac:TaxScheme><cbc:Name>Yapım İşleri</cbc:Name><cbc:TaxTypeCode>601</cbc:TaxTypeCode></cac:TaxScheme></cac:TaxCategory>
+      </cac:TaxSubtotal>
+    </cac:WithholdingTaxTotal>
+    <cac:Item><cbc:Name>Montaj hizmeti</cbc:Name></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="USD">100.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+  <cac:InvoiceLine>
+    <cbc:ID>2</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="KGM">50</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="USD">500.00</cbc:LineExtensionAmount>
+    <cac:TaxTotal>
+      <cbc:TaxAmount currencyID="USD">0.00</cbc:TaxAmount>
+      <cac:TaxSubtotal>
+        <cbc:TaxableAmount currencyID="USD">500.00</cbc:TaxableAmount>
+        <cbc:TaxAmount currencyID="USD">0.00</cbc:TaxAmount>
+        <cbc:Percent>0</cbc:Percent>
+        <cac:TaxCategory>
+          <cbc:TaxExemptionReasonCode>351</cbc:TaxExemptionReasonCode>
+          <cac:TaxScheme><cbc:Name>KDV</cbc:Name><cbc:TaxTypeCode>0015</cbc:TaxTypeCode></cac:TaxScheme>
+        </cac:TaxCategory>
+      </cac:TaxSubtotal>
+    </cac:TaxTotal>
+    <cac:Item><cbc:Name>Pamuk ipliği</cbc:Name></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="USD">10.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+</Invoice>`;
+
+describe("isUblInvoice", () => {
+  it("should recognise UBL-TR invoices only", () => {
+    expect(isUblInvoice(Buffer.from(`\uFEFF${UBL}`))).toBe(true);
+    expect(isUblInvoice(Buffer.from('<?xml version="1.0"?><Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"/>'))).toBe(false);
+    expect(isUblInvoice(Buffer.from("%PDF-1.7"))).toBe(false);
+  });
+});
+
+describe("parseUblInvoiceFile", () => {
+  it("should read parties, totals, tevkifat, istisna and the exchange rate", () => {
+    const invoice = parseUblInvoiceFile(Buffer.from(UBL));
+
+    expect(invoice).toMatchObject({
+      ettn: "F47AC10B-58CC-4372-A567-0E02B2C3D479",
+      invoiceNumber: "ABC2026000000012",
+      profileId: "TICARIFATURA",
+      invoiceTypeCode: "TEVKIFAT",
+      issueDate: new Date(Date.UTC(2026, 2, 5)),
+      dueDate: new Date(Date.UTC(2026, 3, 4)),
+      currency: "USD",
+      exchangeRate: 32.5,
+      supplier: { taxNumber: "1234567890", taxNumberScheme: "VKN", name: "Acme Tekstil A.Ş.", taxOffice: "Kadıköy" },
+      customer: { taxNumber: "11111111110", taxNumberScheme: "TCKN", name: "Ayşe Yılmaz" },
+      netAmount: 1500,
+      taxAmount: 200,
+      withholdingAmount: 100,
+      totalAmount: 1700,
+      payableAmount: 1600,
+    });
+    expect(invoice.taxSubtotals.map((subtotal) => subtotal.exemptionReasonCode)).toEqual([null, "351"]);
+    expect(invoice.withholdings).toEqual([
+      { taxTypeCode: "601", taxName: "Yapım İşleri", percent: 50, taxableAmount: 200, taxAmount: 100 },
+    ]);
+    expect(invoice.lines).toEqual([
+      expect.objectContaining({
+        lineNumber: 1,
+        description: "Montaj hizmeti",
+        quantity: 10,
+        unitCode: "C62",
+        unitPrice: 100,
+        lineTotal: 1000,
+        vatRate: 0.2,
+        vatAmount: 200,
+        withholding: expect.objectContaining({ taxTypeCode: "601", taxAmount: 100 }),
+      }),
+      expect.objectContaining({ lineNumber: 2, vatRate: 0, exemptionReasonCode: "351", withholding: null }),
+    ]);
+  });
+
+  it("should decode embedded XSLT and PDF attachments", () => {
+    const { attachments } = parseUblInvoiceFile(Buffer.from(UBL));
+
+    expect(attachments.map(({ mimeType, fileName }) => ({ mimeType, fileName }))).toEqual([
+      { mimeType: "application/xslt+xml", fileName: "ABC2026000000012.xslt" },
+      { mimeType: "application/pdf", fileName: null },
+    ]);
+    expect(attachments[1].content.toString()).toBe("%PDF-1.4 fatura");
+  });
+
+  it("should reject XML that is not an invoice", () => {
+    expect(() => parseUblInvoiceFile(Buffer.from("<Document><Stmt/></Document>"))).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,64 @@
+import { parseUblInvoice } from "./ubl-tr-parser";
+import { parseUblDespatchAdvice } from "./ubl-tr-despatch-parser";
+import type { ParsedUblDespatchAdvice, ParsedUblInvoice } from "./types";
+
+export type {
+  ParsedUblDespatchAdvice,
+  ParsedUblInvoice,
+  UblAttachment,
+  UblDespatchLine,
+  UblInvoiceLine,
+  UblParty,
+  UblTaxSubtotal,
+  UblWithholding,
+} from "./types";
+export { parseUblInvoice } from "./ubl-tr-parser";
+export { parseUblDespatchAdvice } from "./ubl-tr-despatch-parser";
+
+const UBL_INVOICE_NAMESPACE = "urn:oasis:names:specification:ubl:schema:xsd:Invoice-2";
+const UBL_DESPATCH_ADVICE_NAMESPACE = "urn:oasis:names:specification:ubl:schema:xsd:DespatchAdvice-2";
+
+// UBL-TR is UTF-8 by definition, but older integrators still declare ISO-8859-9
+function decodeXml(buffer: Buffer): string {
+  const prolog = buffer.subarray(0, 200).toString("latin1");
+  const encoding = /encoding=["']([\w-]+)["']/i.exec(prolog)?.[1]?.toLowerCase();
+  if (encoding && encoding !== "utf-8" && encoding !== "utf8") {
+    try {
+      return new TextDecoder(encoding).decode(buffer);
+    } catch {
+      // Unknown label, fall back to UTF-8
+    }
+  }
+  return buffer.toString("utf-8");
+}
+
+/**
+ * Whether the file is a UBL-TR invoice (e-Fatura / e-Arşiv XML), judged by
+ * its root element rather than the declared MIME type
+ */
+export function isUblInvoice(buffer: Buffer): boolean {
+  const head = decodeXml(buffer.subarray(0, 4096)).replace(/^\uFEFF/, "").trimStart();
+  return head.startsWith("<") && head.includes(UBL_INVOICE_NAMESPACE) && /<([\w-]+:)?Invoice[\s>]/.test(head);
+}
+
+/**
+ * Parse an uploaded UBL-TR invoice file
+ */
+export function parseUblInvoiceFile(buffer: Buffer): ParsedUblInvoice {
+  return parseUblInvoice(decodeXml(buffer));
+}
+
+/**
+ * Whether the file is a UBL-TR despatch advice (e-İrsaliye XML)
+ */
+export function isUblDespatchAdvice(buffer: Buffer): boolean {
+  const head = decodeXml(buffer.subarray(0, 4096)).replace(/^\uFEFF/, "").trimStart();
+  return head.startsWith("<") && head.includes(UBL_DESPATCH_ADVICE_NAMESPACE) && /<([\w-]+:)?DespatchAdvice[\s>]/.test(head);
+}
+
+/**
+ * Parse an uploaded UBL-TR despatch advice file
+ */
+export function parseUblDespatchAdviceFile(buffer: Buffer): ParsedUblDespatchAdvice {
+  return parseUblDespatchAdvice(decodeXml(buffer));
+}
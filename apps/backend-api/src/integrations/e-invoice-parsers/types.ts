@@ -0,0 +1,92 @@
+export interface UblParty {
+  taxNumber: string | null;
+  taxNumberScheme: "VKN" | "TCKN" | null;
+  name: string | null;
+  taxOffice: string | null;
+}
+
+export interface UblTaxSubtotal {
+  taxTypeCode: string | null; // 0015 = KDV
+  taxName: string | null;
+  percent: number;
+  taxableAmount: number;
+  taxAmount: number;
+  exemptionReasonCode: string | null; // istisna kodu, e.g. 301, 351
+  exemptionReason: string | null;
+}
+
+export interface UblWithholding {
+  taxTypeCode: string | null; // tevkifat kodu, e.g. 601
+  taxName: string | null;
+  percent: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface UblInvoiceLine {
+  lineNumber: number;
+  description: string;
+  quantity: number;
+  unitCode: string | null;
+  unitPrice: number;
+  lineTotal: number; // LineExtensionAmount, excluding KDV
+  vatRate: number; // fraction, e.g. 0.2
+  vatAmount: number;
+  exemptionReasonCode: string | null;
+  withholding: UblWithholding | null;
+}
+
+export interface UblAttachment {
+  documentType: string | null; // XSLT for the GİB görüntüleme şablonu
+  fileName: string | null;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface ParsedUblInvoice {
+  ettn: string; // cbc:UUID
+  invoiceNumber: string;
+  profileId: string | null; // TEMELFATURA, TICARIFATURA, EARSIVFATURA, IHRACAT, ...
+  invoiceTypeCode: string | null; // SATIS, IADE, TEVKIFAT, ISTISNA, OZELMATRAH, IHRACKAYITLI, ...
+  issueDate: Date;
+  dueDate: Date | null;
+  currency: string;
+  exchangeRate: number | null; // PricingExchangeRate/CalculationRate to TRY
+  supplier: UblParty;
+  customer: UblParty;
+  lines: UblInvoiceLine[];
+  taxSubtotals: UblTaxSubtotal[];
+  withholdings: UblWithholding[];
+  netAmount: number; // LegalMonetaryTotal/LineExtensionAmount
+  allowanceAmount: number;
+  taxAmount: number; // KDV and other taxes, before tevkifat
+  withholdingAmount: number;
+  totalAmount: number; // TaxInclusiveAmount
+  payableAmount: number;
+  attachments: UblAttachment[];
+}
+
+export interface UblDespatchLine {
+  lineNumber: number;
+  description: string;
+  itemCode: string | null; // SellersItemIdentification
+  quantity: number; // DeliveredQuantity
+  unitCode: string | null;
+}
+
+export interface ParsedUblDespatchAdvice {
+  ettn: string; // cbc:UUID
+  despatchNumber: string;
+  profileId: string | null; // TEMELIRSALIYE
+  despatchTypeCode: string | null; // SEVK, MATBUDAN
+  issueDate: Date;
+  despatchDate: Date | null; // Shipment/Delivery/Despatch/ActualDespatchDate
+  supplier: UblParty; // DespatchSupplierParty
+  customer: UblParty; // DeliveryCustomerParty
+  deliveryAddress: string | null;
+  carrier: UblParty | null; // taşıyıcı firma
+  driverName: string | null;
+  driverTckn: string | null;
+  vehiclePlate: string | null;
+  lines: UblDespatchLine[];
+}
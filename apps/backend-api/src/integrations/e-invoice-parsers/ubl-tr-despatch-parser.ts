@@ -0,0 +1,86 @@
+import { ValidationError } from "@repo/shared-utils";
+import { parseXml, xmlChild, xmlChildren, xmlText, type XmlElement } from "../../utils/xml-reader";
+import { parseDate, parseParty } from "./ubl-tr-parser";
+import type { ParsedUblDespatchAdvice, UblDespatchLine, UblParty } from "./types";
+
+/**
+ * UBL-TR 1.2 despatch advice parser (e-İrsaliye)
+ *
+ * Reads what was shipped, to whom and how: the parties, the fiili sevk
+ * date, the carrier or the driver and plate, and the delivered quantity
+ * per line. An irsaliye carries no prices.
+ */
+
+function parseAddress(element: XmlElement | undefined): string | null {
+  if (!element) {
+    return null;
+  }
+  const parts = [
+    [xmlText(element, "StreetName"), xmlText(element, "BuildingNumber")].filter(Boolean).join(" "),
+    xmlText(element, "CitySubdivisionName"),
+    [xmlText(element, "PostalZone"), xmlText(element, "CityName")].filter(Boolean).join(" "),
+    xmlText(element, "Country", "Name"),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+function parseDespatchLine(line: XmlElement, index: number): UblDespatchLine {
+  const quantity = xmlChild(line, "DeliveredQuantity");
+  return {
+    lineNumber: parseInt(xmlText(line, "ID") ?? "", 10) || index + 1,
+    description: xmlText(line, "Item", "Name") ?? xmlText(line, "Item", "Description") ?? "",
+    itemCode: xmlText(line, "Item", "SellersItemIdentification", "ID"),
+    quantity: Number(quantity?.text.trim() || 0),
+    unitCode: quantity?.attributes.unitCode ?? null,
+  };
+}
+
+export function parseUblDespatchAdvice(xml: string): ParsedUblDespatchAdvice {
+  const root = parseXml(xml);
+  if (root.name !== "DespatchAdvice") {
+    throw new ValidationError("Dosya bir UBL-TR irsaliye belgesi değil.");
+  }
+
+  const ettn = xmlText(root, "UUID");
+  const despatchNumber = xmlText(root, "ID");
+  const issueDate = parseDate(xmlText(root, "IssueDate"));
+  if (!ettn || !despatchNumber || !issueDate) {
+    throw new ValidationError("UBL-TR irsaliyede ETTN, irsaliye numarası veya düzenlenme tarihi eksik.");
+  }
+
+  const lines = xmlChildren(root, "DespatchLine").map(parseDespatchLine);
+  if (lines.length === 0) {
+    throw new ValidationError("UBL-TR irsaliyede satır bulunamadı.");
+  }
+
+  const shipment = xmlChild(root, "Shipment");
+  const delivery = xmlChild(shipment, "Delivery");
+  const stage = xmlChild(shipment, "ShipmentStage");
+  const driverName = [xmlText(stage, "DriverPerson", "FirstName"), xmlText(stage, "DriverPerson", "FamilyName")]
+    .filter(Boolean)
+    .join(" ");
+
+  // CarrierParty is itself a party, not a wrapper around cac:Party
+  const carrierParty = xmlChild(delivery, "CarrierParty");
+  let carrier: UblParty | null = null;
+  if (carrierParty) {
+    carrier = parseParty({ name: "Carrier", attributes: {}, text: "", children: [{ ...carrierParty, name: "Party" }] });
+  }
+
+  return {
+    ettn: ettn.toUpperCase(),
+    despatchNumber,
+    profileId: xmlText(root, "ProfileID"),
+    despatchTypeCode: xmlText(root, "DespatchAdviceTypeCode"),
+    issueDate,
+    despatchDate: parseDate(xmlText(delivery, "Despatch", "ActualDespatchDate")),
+    supplier: parseParty(xmlChild(root, "DespatchSupplierParty")),
+    customer: parseParty(xmlChild(root, "DeliveryCustomerParty")),
+    deliveryAddress: parseAddress(xmlChild(delivery, "DeliveryAddress")),
+    carrier: carrier && (carrier.taxNumber || carrier.name) ? carrier : null,
+    driverName: driverName || null,
+    driverTckn: xmlText(stage, "DriverPerson", "NationalityID"),
+    vehiclePlate: xmlText(stage, "TransportMeans", "RoadTransport", "LicensePlateID"),
+    lines,
+  };
+}
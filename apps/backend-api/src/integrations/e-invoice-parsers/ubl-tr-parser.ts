@@ -0,0 +1,197 @@
+import { ValidationError } from "@repo/shared-utils";
+import { parseXml, xmlChild, xmlChildren, xmlText, type XmlElement } from "../../utils/xml-reader";
+import type {
+  ParsedUblInvoice,
+  UblAttachment,
+  UblInvoiceLine,
+  UblParty,
+  UblTaxSubtotal,
+  UblWithholding,
+} from "./types";
+
+/**
+ * UBL-TR 1.2 invoice parser (e-Fatura and e-Arşiv)
+ *
+ * Reads the invoice as issued: amounts are taken from the document and
+ * never recomputed, so what is booked matches what GİB holds. KDV is tax
+ * type 0015; tevkifat comes from WithholdingTaxTotal and istisna codes from
+ * TaxCategory/TaxExemptionReasonCode, at document and at line level.
+ */
+
+const KDV_TAX_TYPE = "0015";
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function amount(element: XmlElement | undefined, ...path: string[]): number {
+  const value = Number(xmlText(element, ...path) ?? "0");
+  return isNaN(value) ? 0 : value;
+}
+
+export function parseDate(value: string | null): Date | null {
+  const match = value ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+  return match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+}
+
+function normalizeCurrency(value: string | null): string {
+  const code = (value ?? "TRY").trim().toUpperCase();
+  return code === "TL" || code === "YTL" ? "TRY" : code;
+}
+
+export function parseParty(element: XmlElement | undefined): UblParty {
+  const party = xmlChild(element, "Party");
+
+  let taxNumber: string | null = null;
+  let taxNumberScheme: UblParty["taxNumberScheme"] = null;
+  for (const identification of xmlChildren(party, "PartyIdentification")) {
+    const id = xmlChild(identification, "ID");
+    const scheme = id?.attributes.schemeID?.toUpperCase();
+    if ((scheme === "VKN" || scheme === "TCKN") && id?.text.trim()) {
+      taxNumber = id.text.trim();
+      taxNumberScheme = scheme;
+      break;
+    }
+  }
+
+  // Sole proprietors (TCKN) are named through Person rather than PartyName
+  const personName = [xmlText(party, "Person", "FirstName"), xmlText(party, "Person", "FamilyName")]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    taxNumber,
+    taxNumberScheme,
+    name: xmlText(party, "PartyName", "Name") ?? (personName || null),
+    taxOffice: xmlText(party, "PartyTaxScheme", "TaxScheme", "Name"),
+  };
+}
+
+function parseTaxSubtotal(subtotal: XmlElement): UblTaxSubtotal {
+  return {
+    taxTypeCode: xmlText(subtotal, "TaxCategory", "TaxScheme", "TaxTypeCode"),
+    taxName: xmlText(subtotal, "TaxCategory", "TaxScheme", "Name"),
+    percent: amount(subtotal, "Percent"),
+    taxableAmount: amount(subtotal, "TaxableAmount"),
+    taxAmount: amount(subtotal, "TaxAmount"),
+    exemptionReasonCode: xmlText(subtotal, "TaxCategory", "TaxExemptionReasonCode"),
+    exemptionReason: xmlText(subtotal, "TaxCategory", "TaxExemptionReason"),
+  };
+}
+
+function parseWithholding(subtotal: XmlElement): UblWithholding {
+  return {
+    taxTypeCode: xmlText(subtotal, "TaxCategory", "TaxScheme", "TaxTypeCode"),
+    taxName: xmlText(subtotal, "TaxCategory", "TaxScheme", "Name"),
+    percent: amount(subtotal, "Percent"),
+    taxableAmount: amount(subtotal, "TaxableAmount"),
+    taxAmount: amount(subtotal, "TaxAmount"),
+  };
+}
+
+function taxSubtotals(parent: XmlElement | undefined): UblTaxSubtotal[] {
+  return xmlChildren(parent, "TaxTotal").flatMap((total) => xmlChildren(total, "TaxSubtotal").map(parseTaxSubtotal));
+}
+
+function withholdings(parent: XmlElement | undefined): UblWithholding[] {
+  return xmlChildren(parent, "WithholdingTaxTotal").flatMap((total) =>
+    xmlChildren(total, "TaxSubtotal").map(parseWithholding)
+  );
+}
+
+function parseLine(line: XmlElement, index: number): UblInvoiceLine {
+  const subtotals = taxSubtotals(line);
+  const kdv = subtotals.find((subtotal) => subtotal.taxTypeCode === KDV_TAX_TYPE) ?? subtotals[0];
+  const lineNumber = Number(xmlText(line, "ID"));
+
+  return {
+    lineNumber: Number.isInteger(lineNumber) && lineNumber > 0 ? lineNumber : index + 1,
+    description:
+      xmlText(line, "Item", "Name") ?? xmlText(line, "Item", "Description") ?? xmlText(line, "Note") ?? `Satır ${index + 1}`,
+    quantity: amount(line, "InvoicedQuantity"),
+    unitCode: xmlChild(line, "InvoicedQuantity")?.attributes.unitCode ?? null,
+    unitPrice: amount(line, "Price", "PriceAmount"),
+    lineTotal: amount(line, "LineExtensionAmount"),
+    vatRate: kdv ? kdv.percent / 100 : 0,
+    vatAmount: kdv?.taxAmount ?? 0,
+    exemptionReasonCode: kdv?.exemptionReasonCode ?? null,
+    withholding: withholdings(line)[0] ?? null,
+  };
+}
+
+function parseAttachments(root: XmlElement): UblAttachment[] {
+  const attachments: UblAttachment[] = [];
+
+  for (const reference of xmlChildren(root, "AdditionalDocumentReference")) {
+    const binary = xmlChild(reference, "Attachment", "EmbeddedDocumentBinaryObject");
+    const encoded = binary?.text.replace(/\s+/g, "");
+    if (!binary || !encoded) {
+      continue;
+    }
+
+    const content = Buffer.from(encoded, "base64");
+    const documentType = xmlText(reference, "DocumentType");
+    const fileName = binary.attributes.filename ?? null;
+    let mimeType = binary.attributes.mimeCode ?? "application/octet-stream";
+    if (content.subarray(0, 4).toString("ascii") === "%PDF") {
+      mimeType = "application/pdf";
+    } else if (documentType?.toUpperCase() === "XSLT" || /\.xslt?$/i.test(fileName ?? "")) {
+      mimeType = "application/xslt+xml";
+    }
+
+    attachments.push({ documentType, fileName, mimeType, content });
+  }
+
+  return attachments;
+}
+
+/**
+ * Parse a UBL-TR Invoice document
+ */
+export function parseUblInvoice(xml: string): ParsedUblInvoice {
+  const root = parseXml(xml);
+  if (root.name !== "Invoice") {
+    throw new ValidationError("Dosya bir UBL-TR fatura belgesi değil.");
+  }
+
+  const ettn = xmlText(root, "UUID");
+  const invoiceNumber = xmlText(root, "ID");
+  const issueDate = parseDate(xmlText(root, "IssueDate"));
+  if (!ettn || !invoiceNumber || !issueDate) {
+    throw new ValidationError("UBL-TR faturada ETTN, fatura numarası veya düzenlenme tarihi eksik.");
+  }
+
+  const currency = normalizeCurrency(xmlText(root, "DocumentCurrencyCode"));
+  const exchangeRate = xmlText(root, "PricingExchangeRate", "CalculationRate");
+  const monetaryTotal = xmlChild(root, "LegalMonetaryTotal");
+  const lines = xmlChildren(root, "InvoiceLine").map(parseLine);
+  if (lines.length === 0) {
+    throw new ValidationError("UBL-TR faturada satır bulunamadı.");
+  }
+
+  const withholdingTotals = xmlChildren(root, "WithholdingTaxTotal");
+
+  return {
+    ettn: ettn.toUpperCase(),
+    invoiceNumber,
+    profileId: xmlText(root, "ProfileID"),
+    invoiceTypeCode: xmlText(root, "InvoiceTypeCode"),
+    issueDate,
+    dueDate:
+      parseDate(xmlText(root, "PaymentMeans", "PaymentDueDate")) ?? parseDate(xmlText(root, "PaymentTerms", "PaymentDueDate")),
+    currency,
+    exchangeRate: currency !== "TRY" && exchangeRate ? Number(exchangeRate) || null : null,
+    supplier: parseParty(xmlChild(root, "AccountingSupplierParty")),
+    customer: parseParty(xmlChild(root, "AccountingCustomerParty")),
+    lines,
+    taxSubtotals: taxSubtotals(root),
+    withholdings: withholdings(root),
+    netAmount: amount(monetaryTotal, "LineExtensionAmount"),
+    allowanceAmount: amount(monetaryTotal, "AllowanceTotalAmount"),
+    taxAmount: round2(xmlChildren(root, "TaxTotal").reduce((sum, total) => sum + amount(total, "TaxAmount"), 0)),
+    withholdingAmount: round2(withholdingTotals.reduce((sum, total) => sum + amount(total, "TaxAmount"), 0)),
+    totalAmount: amount(monetaryTotal, "TaxInclusiveAmount"),
+    payableAmount: amount(monetaryTotal, "PayableAmount"),
+    attachments: parseAttachments(root),
+  };
+}
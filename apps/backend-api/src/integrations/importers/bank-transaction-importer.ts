@@ -1,5 +1,9 @@
 import { prisma } from "../../lib/prisma";
 import type { NormalizedBankTransaction } from "../connectors/types";
+import type { BankStatementFormat } from "../statement-parsers";
+import { accountingPeriodService } from "../../services/accounting-period-service";
+import { bankReconciliationService } from "../../services/bank-reconciliation-service";
+import { logger } from "@repo/shared-utils";
 
 export interface BankTransactionImportSummary {
   created: number;
@@ -8,11 +12,17 @@ export interface BankTransactionImportSummary {
   errors: Array<{ externalId: string; error: string }>;
 }
 
+export interface BankTransactionImportOptions {
+  // Set for uploaded statement files; their postings are booked as "import"
+  statementFormat?: BankStatementFormat;
+}
+
 export class BankTransactionImporter {
   async importTransactions(
     tenantId: string,
     normalizedTransactions: NormalizedBankTransaction[],
-    tenantIntegrationId: string
+    tenantIntegrationId: string | null,
+    options: BankTransactionImportOptions = {}
   ): Promise<BankTransactionImportSummary> {
     const summary: BankTransactionImportSummary = {
       created: 0,
@@ -20,6 +30,8 @@ export class BankTransactionImporter {
       skipped: 0,
       errors: [],
     };
+    const importedBankAccountIds = new Set<string>();
+    const source = options.statementFormat ? "import" : "integration";
 
     for (const normalizedTransaction of normalizedTransactions) {
       try {
@@ -37,6 +49,14 @@ export class BankTransactionImporter {
           bankAccount.iban
         );
 
+        // The reconciliation report compares the statement with this account
+        if (!bankAccount.ledgerAccountCode) {
+          await prisma.clientCompanyBankAccount.update({
+            where: { id: bankAccount.id },
+            data: { ledgerAccountCode: ledgerAccount.code },
+          });
+        }
+
         // Check if transaction already exists by externalId
         const existingTransaction = await prisma.transaction.findFirst({
           where: {
@@ -46,14 +66,28 @@ export class BankTransactionImporter {
           },
         });
 
+        let transactionId: string;
+
         if (existingTransaction) {
+          // Postings in a closed period are never rewritten by a sync
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            existingTransaction.clientCompanyId,
+            existingTransaction.date
+          );
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            bankAccount.clientCompanyId,
+            normalizedTransaction.bookingDate
+          );
+
           // Update existing transaction
           await prisma.transaction.update({
             where: { id: existingTransaction.id },
             data: {
               date: normalizedTransaction.bookingDate,
               description: normalizedTransaction.description,
-              source: "integration",
+              source,
             },
           });
 
@@ -76,19 +110,30 @@ export class BankTransactionImporter {
             });
           }
 
+          transactionId = existingTransaction.id;
           summary.updated++;
         } else {
           // Create new transaction
           const { debitAmount, creditAmount } = this.calculateDebitCredit(normalizedTransaction.amount);
 
-          await prisma.transaction.create({
+          // Transactions dated in a closed period are posted in the next open one
+          const posting = await accountingPeriodService.resolvePostingDate(
+            tenantId,
+            bankAccount.clientCompanyId,
+            normalizedTransaction.bookingDate
+          );
+          const description = posting.redirected
+            ? `${normalizedTransaction.description} (${posting.originalPeriod} kapalı döneminden aktarıldı, işlem tarihi ${normalizedTransaction.bookingDate.toISOString().slice(0, 10)})`
+            : normalizedTransaction.description;
+
+          const transaction = await prisma.transaction.create({
             data: {
               tenantId,
               clientCompanyId: bankAccount.clientCompanyId,
               externalId: normalizedTransaction.externalId,
-              date: normalizedTransaction.bookingDate,
-              description: normalizedTransaction.description,
-              source: "integration",
+              date: posting.date,
+              description,
+              source,
               lines: {
                 create: [
                   {
@@ -96,15 +141,25 @@ export class BankTransactionImporter {
                     ledgerAccountId: ledgerAccount.id,
                     debitAmount,
                     creditAmount,
-                    description: normalizedTransaction.description,
+                    description,
                   },
                 ],
               },
             },
           });
 
+          transactionId = transaction.id;
           summary.created++;
         }
+
+        await bankReconciliationService.recordStatementLine(
+          tenantId,
+          bankAccount,
+          normalizedTransaction,
+          transactionId,
+          options.statementFormat ?? "integration"
+        );
+        importedBankAccountIds.add(bankAccount.id);
       } catch (error: any) {
         summary.errors.push({
           externalId: normalizedTransaction.externalId,
@@ -114,13 +169,25 @@ export class BankTransactionImporter {
       }
     }
 
+    // New lines are matched right away; matching problems never fail the import
+    for (const bankAccountId of importedBankAccountIds) {
+      try {
+        await bankReconciliationService.autoMatch(tenantId, bankAccountId);
+      } catch (error: any) {
+        logger.warn("Bank reconciliation auto-match failed after import", { tenantId }, {
+          bankAccountId,
+          error: error.message,
+        });
+      }
+    }
+
     return summary;
   }
 
   private async resolveOrCreateBankAccount(
     tenantId: string,
     accountIdentifier: string
-  ): Promise<{ id: string; clientCompanyId: string; bankName: string; iban: string }> {
+  ): Promise<{ id: string; clientCompanyId: string; bankName: string; iban: string; ledgerAccountCode: string | null }> {
     // Try to find existing bank account by IBAN
     const existing = await prisma.clientCompanyBankAccount.findFirst({
       where: {
@@ -138,6 +205,7 @@ export class BankTransactionImporter {
         clientCompanyId: existing.clientCompanyId,
         bankName: existing.bankName,
         iban: existing.iban,
+        ledgerAccountCode: existing.ledgerAccountCode,
       };
     }
 
@@ -181,6 +249,7 @@ export class BankTransactionImporter {
       clientCompanyId: bankAccount.clientCompanyId,
       bankName: bankAccount.bankName,
       iban: bankAccount.iban,
+      ledgerAccountCode: bankAccount.ledgerAccountCode,
     };
   }
 
@@ -189,17 +258,16 @@ export class BankTransactionImporter {
     bankAccountId: string,
     bankName: string,
     iban: string
-  ): Promise<{ id: string }> {
+  ): Promise<{ id: string; code: string }> {
     // Try to find existing ledger account by a naming pattern
     // For simplicity, we'll use a code like "102.01.001" for bank accounts
     const accountCode = `102.01.${bankAccountId.substring(0, 3)}`;
 
-    let ledgerAccount = await prisma.ledgerAccount.findUnique({
+    let ledgerAccount = await prisma.ledgerAccount.findFirst({
       where: {
-        tenantId_code: {
-          tenantId,
-          code: accountCode,
-        },
+        tenantId,
+        clientCompanyId: null,
+        code: accountCode,
       },
     });
 
@@ -216,7 +284,7 @@ export class BankTransactionImporter {
       });
     }
 
-    return { id: ledgerAccount.id };
+    return { id: ledgerAccount.id, code: ledgerAccount.code };
   }
 
   private calculateDebitCredit(amount: number): { debitAmount: number; creditAmount: number } {
@@ -1,5 +1,10 @@
 import { prisma } from "../../lib/prisma";
 import type { NormalizedInvoice } from "../connectors/types";
+import { accountingPeriodService } from "../../services/accounting-period-service";
+import { counterpartyService } from "../../services/counterparty-service";
+import { stockService } from "../../services/stock-service";
+import { dimensionService } from "../../services/dimension-service";
+import { logger } from "@repo/shared-utils";
 
 export interface InvoiceImportSummary {
   created: number;
@@ -28,6 +33,7 @@ export class InvoiceImporter {
     });
 
     const preferredClientCompanyId = integration?.clientCompanyId;
+    const importedClientCompanyIds = new Set<string>();
 
     for (const normalizedInvoice of normalizedInvoices) {
       try {
@@ -77,7 +83,19 @@ export class InvoiceImporter {
           },
         });
 
+        // Invoices keep their issue date, so closed periods reject them outright
         if (existingInvoice) {
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            existingInvoice.clientCompanyId,
+            existingInvoice.issueDate
+          );
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            clientCompany.id,
+            normalizedInvoice.issueDate
+          );
+
           // Update existing invoice
           await prisma.invoice.update({
             where: { id: existingInvoice.id },
@@ -93,6 +111,7 @@ export class InvoiceImporter {
               counterpartyTaxNumber: normalizedInvoice.counterpartyTaxNumber ?? null,
               status: normalizedInvoice.status || "taslak",
               source: "integration",
+              counterpartyId: null, // relinked below, the counterparty may have changed
             },
           });
 
@@ -115,8 +134,15 @@ export class InvoiceImporter {
             })),
           });
 
+          importedClientCompanyIds.add(clientCompany.id);
           summary.updated++;
         } else {
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            clientCompany.id,
+            normalizedInvoice.issueDate
+          );
+
           // Create new invoice
           await prisma.invoice.create({
             data: {
@@ -149,6 +175,7 @@ export class InvoiceImporter {
             },
           });
 
+          importedClientCompanyIds.add(clientCompany.id);
           summary.created++;
         }
       } catch (error: any) {
@@ -160,6 +187,25 @@ export class InvoiceImporter {
       }
     }
 
+    // Link the imported invoices to their cari kartlar and stok kartları, then apply the cards' boyut defaults
+    for (const clientCompanyId of importedClientCompanyIds) {
+      try {
+        await counterpartyService.syncFromInvoices(tenantId, clientCompanyId);
+      } catch (error: any) {
+        logger.error(`Counterparty sync failed for client ${clientCompanyId}: ${error.message}`);
+      }
+      try {
+        await stockService.syncFromInvoices(tenantId, clientCompanyId);
+      } catch (error: any) {
+        logger.error(`Stock sync failed for client ${clientCompanyId}: ${error.message}`);
+      }
+      try {
+        await dimensionService.applyDefaultsToCompany(tenantId, clientCompanyId);
+      } catch (error: any) {
+        logger.error(`Dimension defaults failed for client ${clientCompanyId}: ${error.message}`);
+      }
+    }
+
     return summary;
   }
 
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { ValidationError } from "@repo/shared-utils";
+import { detectStatementFormat, parseBankExcel, parseCamt053, parseMt940 } from "..";
+
+const IBAN = "TR330006100519786457841326";
+
+const MT940 = [
+  "{1:F01AKBKTRISAXXX0000000000}{2:O9401200260305AKBKTRISAXXX00000000002603051200N}{4:",
+  ":20:STMT260305",
+  `:25:${IBAN}`,
+  ":28C:00064/001",
+  ":60F:C260304TRY10000,00",
+  ":61:2603050305C1180,00NTRFNONREF//EFT2026030500001",
+  ":86:?20SATIS2026000012 ODEMESI?32ACME TEKSTIL?31TR120006200000000012345678",
+  ":61:260305D250,50NCHGNONREF",
+  ":86:HAVALE MASRAFI",
+  ":62F:C260305TRY10929,50",
+  "-}",
+].join("\r\n");
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG-1</MsgId></GrpHdr>
+    <Stmt>
+      <Id>STMT-2026-03-05</Id>
+      <Acct><Id><IBAN>${IBAN}</IBAN></Id><Ccy>TRY</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="TRY">10000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-03-04</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="TRY">10929.50</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-03-05</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="TRY">1180.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-03-05</Dt></BookgDt><ValDt><Dt>2026-03-05</Dt></ValDt>
+        <AcctSvcrRef>EFT2026030500001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Dbtr><Nm>Acme Tekstil A.&#350;.</Nm><Id><OrgId><Othr><Id>1234567890</Id></Othr></OrgId></Id></Dbtr>
+            <DbtrAcct><Id><IBAN>TR120006200000000012345678</IBAN></Id></DbtrAcct>
+          </RltdPties>
+          <RmtInf><Ustrd>SATIS2026000012 ODEMESI</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="TRY">250.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-03-05</Dt></BookgDt>
+        <AddtlNtryInf><![CDATA[HAVALE MASRAFI]]></AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="TRY">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>PDNG</Sts>
+        <BookgDt><Dt>2026-03-06</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+function excelBuffer(rows: unknown[][]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Hesap Hareketleri");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+describe("parseMt940", () => {
+  it("should read balances, lines and the structured :86: narrative", () => {
+    const [statement] = parseMt940(MT940);
+
+    expect(statement).toMatchObject({
+      format: "mt940",
+      statementReference: "STMT260305/00064/001",
+      accountIdentifier: IBAN,
+      currency: "TRY",
+      openingBalance: 10000,
+      closingBalance: 10929.5,
+    });
+    expect(statement.transactions).toEqual([
+      expect.objectContaining({
+        externalId: "EFT2026030500001",
+        amount: 1180,
+        description: "SATIS2026000012 ODEMESI",
+        counterpartyName: "ACME TEKSTIL",
+        counterpartyIban: "TR120006200000000012345678",
+        balanceAfter: 11180,
+        bookingDate: new Date(Date.UTC(2026, 2, 5)),
+      }),
+      expect.objectContaining({
+        externalId: "STMT260305/00064/001/2",
+        amount: -250.5,
+        description: "HAVALE MASRAFI",
+        balanceAfter: 10929.5,
+      }),
+    ]);
+  });
+});
+
+describe("parseCamt053", () => {
+  it("should import booked entries with their counterparty", () => {
+    const [statement] = parseCamt053(CAMT053);
+
+    expect(statement).toMatchObject({
+      format: "camt053",
+      statementReference: "STMT-2026-03-05",
+      accountIdentifier: IBAN,
+      openingBalance: 10000,
+      closingBalance: 10929.5,
+    });
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toMatchObject({
+      externalId: "EFT2026030500001",
+      amount: 1180,
+      description: "SATIS2026000012 ODEMESI",
+      counterpartyName: "Acme Tekstil A.Ş.",
+      counterpartyIban: "TR120006200000000012345678",
+      counterpartyTaxNumber: "1234567890",
+    });
+    expect(statement.transactions[1]).toMatchObject({
+      externalId: "STMT-2026-03-05/2",
+      amount: -250.5,
+      description: "HAVALE MASRAFI",
+    });
+  });
+});
+
+describe("parseBankExcel", () => {
+  it("should find the header row and read Borç/Alacak columns newest first", () => {
+    const buffer = excelBuffer([
+      ["Hesap Hareketleri"],
+      ["IBAN", "TR33 0006 1005 1978 6457 8413 26"],
+      ["Para Birimi", "TL"],
+      [],
+      ["Tarih", "Açıklama", "Borç", "Alacak", "Bakiye", "Dekont No"],
+      ["05.03.2026", "HAVALE MASRAFI", "250,50", "", "10.929,50", ""],
+      ["05.03.2026", "SATIS2026000012 ODEMESI", "", "1.180,00", "11.180,00", "D-1001"],
+      ["Toplam", "", "250,50", "1.180,00", "", ""],
+    ]);
+
+    const [statement] = parseBankExcel(buffer);
+
+    expect(statement).toMatchObject({
+      format: "excel",
+      accountIdentifier: IBAN,
+      currency: "TRY",
+      openingBalance: 10000,
+      closingBalance: 10929.5,
+    });
+    expect(statement.statementReference).toMatch(/^XLS-/);
+    expect(statement.transactions.map((t) => [t.externalId.startsWith("XLS-") ? "XLS" : t.externalId, t.amount])).toEqual([
+      ["D-1001", 1180],
+      ["XLS", -250.5],
+    ]);
+  });
+});
+
+describe("detectStatementFormat", () => {
+  it("should recognise each format and reject anything else", () => {
+    expect(detectStatementFormat("ekstre.sta", Buffer.from(MT940))).toBe("mt940");
+    expect(detectStatementFormat("ekstre.xml", Buffer.from(CAMT053))).toBe("camt053");
+    expect(detectStatementFormat("ekstre.xlsx", excelBuffer([["Tarih"]]))).toBe("excel");
+    expect(() => detectStatementFormat("fatura.pdf", Buffer.from("%PDF-1.7"))).toThrow(ValidationError);
+  });
+});
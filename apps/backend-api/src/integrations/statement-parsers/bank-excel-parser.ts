@@ -0,0 +1,273 @@
+import { createHash } from "crypto";
+import * as XLSX from "xlsx";
+import { ValidationError } from "@repo/shared-utils";
+import type { NormalizedBankTransaction } from "../connectors/types";
+import type { ParsedBankStatement } from "./types";
+
+/**
+ * Excel account statements (hesap hareketleri) as exported from Turkish
+ * internet banking
+ *
+ * Layouts differ per bank, so the header row is located by its column
+ * titles: a date, a description and either a signed amount (Tutar) or
+ * separate Borç/Alacak columns. The account IBAN and currency are read from
+ * the cells above the header when the bank prints them there.
+ */
+
+type Column =
+  | "date"
+  | "valueDate"
+  | "description"
+  | "amount"
+  | "debit"
+  | "credit"
+  | "balance"
+  | "reference"
+  | "counterpartyName"
+  | "counterpartyIban"
+  | "counterpartyTaxNumber";
+
+const HEADER_ALIASES: Record<Column, string[]> = {
+  date: ["TARIH", "ISLEMTARIHI", "TARIHSAAT", "ISLEMTARIHISAAT", "MUHASEBETARIHI"],
+  valueDate: ["VALOR", "VALORTARIHI"],
+  description: ["ACIKLAMA", "ISLEMACIKLAMASI", "ACIKLAMALAR"],
+  amount: ["TUTAR", "ISLEMTUTARI", "MIKTAR"],
+  debit: ["BORC", "BORCTUTARI"],
+  credit: ["ALACAK", "ALACAKTUTARI"],
+  balance: ["BAKIYE", "KALANBAKIYE", "ISLEMSONRASIBAKIYE"],
+  reference: ["DEKONTNO", "REFERANS", "REFERANSNO", "ISLEMNO", "FISNO"],
+  counterpartyName: ["KARSITARAF", "KARSIHESAPUNVANI", "GONDEREN", "ALICI"],
+  counterpartyIban: ["KARSIIBAN", "KARSIHESAPIBAN"],
+  counterpartyTaxNumber: ["VKN", "TCKN", "VKNTCKN", "VERGINO"],
+};
+
+const CURRENCY_LABELS = ["PARABIRIMI", "DOVIZCINSI", "HESAPCINSI", "DOVIZ"];
+const HEADER_SEARCH_ROWS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? "")
+    .toLocaleUpperCase("tr-TR")
+    .replace(/Ç/g, "C")
+    .replace(/Ğ/g, "G")
+    .replace(/[İI]/g, "I")
+    .replace(/Ö/g, "O")
+    .replace(/Ş/g, "S")
+    .replace(/Ü/g, "U")
+    .replace(/[^A-Z0-9]/g, "")
+    .replace(/(TL|TRY|USD|EUR|GBP)$/, "");
+}
+
+function normalizeCurrency(value: string): string {
+  const code = value.trim().toUpperCase();
+  return code === "TL" || code === "YTL" ? "TRY" : code;
+}
+
+function parseCellDate(value: unknown): Date | null {
+  if (typeof value === "number" && value > 0) {
+    return new Date(EXCEL_EPOCH + Math.floor(value) * DAY_MS);
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const text = value.trim();
+  const dotted = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/.exec(text);
+  if (dotted) {
+    return new Date(Date.UTC(Number(dotted[3]), Number(dotted[2]) - 1, Number(dotted[1])));
+  }
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (iso) {
+    return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  }
+  return null;
+}
+
+// Numbers arrive as cell values or as Turkish formatted text ("1.234,56")
+function parseCellNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  let text = value.replace(/[^\d,.-]/g, "");
+  if (text.includes(",")) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  }
+  if (text === "" || text === "-") {
+    return null;
+  }
+  const number = Number(text);
+  return isNaN(number) ? null : number;
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+function findHeader(rows: unknown[][]): { index: number; columns: Partial<Record<Column, number>> } | null {
+  for (let index = 0; index < Math.min(rows.length, HEADER_SEARCH_ROWS); index++) {
+    const columns: Partial<Record<Column, number>> = {};
+    rows[index].forEach((cell, column) => {
+      const header = normalizeHeader(cell);
+      for (const [key, aliases] of Object.entries(HEADER_ALIASES) as Array<[Column, string[]]>) {
+        if (columns[key] === undefined && aliases.includes(header)) {
+          columns[key] = column;
+        }
+      }
+    });
+
+    const hasAmount = columns.amount !== undefined || columns.debit !== undefined || columns.credit !== undefined;
+    if (columns.date !== undefined && columns.description !== undefined && hasAmount) {
+      return { index, columns };
+    }
+  }
+  return null;
+}
+
+function findAccountDetails(rows: unknown[][]): { iban: string | null; currency: string } {
+  let iban: string | null = null;
+  let currency = "TRY";
+
+  for (const row of rows) {
+    row.forEach((cell, column) => {
+      const text = cellText(cell);
+      iban = iban ?? /TR\d{24}/.exec(text.toUpperCase().replace(/\s+/g, ""))?.[0] ?? null;
+      if (CURRENCY_LABELS.includes(normalizeHeader(text))) {
+        const next = row.slice(column + 1).map(cellText).find(Boolean);
+        if (next && /^[A-Za-z]{2,3}$/.test(next)) {
+          currency = normalizeCurrency(next);
+        }
+      }
+    });
+  }
+
+  return { iban, currency };
+}
+
+// By date, and within a single day by how the running balance carries over
+function isNewestFirst(
+  parsed: Array<{ row: unknown[]; bookingDate: Date; amount: number }>,
+  balanceOf: (row: unknown[]) => number | null
+): boolean {
+  if (parsed.length < 2) {
+    return false;
+  }
+  const first = parsed[0].bookingDate.getTime();
+  const last = parsed[parsed.length - 1].bookingDate.getTime();
+  if (first !== last) {
+    return first > last;
+  }
+
+  const [a, b] = parsed;
+  const balanceA = balanceOf(a.row);
+  const balanceB = balanceOf(b.row);
+  if (balanceA === null || balanceB === null) {
+    return false;
+  }
+  return Math.abs(round2(balanceB + a.amount) - balanceA) < 0.005;
+}
+
+/**
+ * Parse the first sheet of an Excel (.xls/.xlsx) statement export
+ */
+export function parseBankExcel(buffer: Buffer): ParsedBankStatement[] {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: "buffer" });
+  } catch {
+    throw new ValidationError("Excel dosyası okunamadı.");
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheet ? (XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: null }) as unknown[][]) : [];
+  const header = findHeader(rows);
+  if (!header) {
+    throw new ValidationError(
+      "Excel ekstresinde başlık satırı bulunamadı. Tarih, Açıklama ve Tutar (veya Borç/Alacak) sütunları gereklidir."
+    );
+  }
+
+  const { iban, currency } = findAccountDetails(rows.slice(0, header.index));
+  const { columns } = header;
+  const cell = (row: unknown[], column: Column) => (columns[column] !== undefined ? row[columns[column]!] : null);
+
+  const parsed = rows
+    .slice(header.index + 1)
+    .map((row) => {
+      const bookingDate = parseCellDate(cell(row, "date"));
+      const amount =
+        columns.amount !== undefined
+          ? parseCellNumber(cell(row, "amount"))
+          : round2(Math.abs(parseCellNumber(cell(row, "credit")) ?? 0) - Math.abs(parseCellNumber(cell(row, "debit")) ?? 0));
+      return { row, bookingDate, amount };
+    })
+    // Totals and footer rows carry no date
+    .filter((item): item is { row: unknown[]; bookingDate: Date; amount: number } =>
+      item.bookingDate !== null && item.amount !== null && item.amount !== 0
+    );
+
+  // Most banks list the newest movement first
+  if (isNewestFirst(parsed, (row) => parseCellNumber(cell(row, "balance")))) {
+    parsed.reverse();
+  }
+
+  const occurrences = new Map<string, number>();
+  const transactions: NormalizedBankTransaction[] = parsed.map(({ row, bookingDate, amount }) => {
+    const description = cellText(cell(row, "description")) || "Banka hareketi";
+    const balanceAfter = parseCellNumber(cell(row, "balance"));
+    const reference = cellText(cell(row, "reference"));
+
+    // Without a dekont number the id is derived from the row itself, so a re-upload finds it again
+    const key = `${bookingDate.toISOString().slice(0, 10)}|${amount}|${description}|${balanceAfter ?? ""}`;
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    return {
+      externalId: reference || `XLS-${createHash("sha1").update(`${key}|${occurrence}`).digest("hex").slice(0, 20)}`,
+      accountIdentifier: iban ?? "",
+      bookingDate,
+      valueDate: parseCellDate(cell(row, "valueDate")),
+      description,
+      amount,
+      currency,
+      balanceAfter,
+      counterpartyName: cellText(cell(row, "counterpartyName")) || null,
+      counterpartyIban: cellText(cell(row, "counterpartyIban")).replace(/\s+/g, "") || null,
+      counterpartyTaxNumber: cellText(cell(row, "counterpartyTaxNumber")) || null,
+    };
+  });
+
+  if (transactions.length === 0) {
+    throw new ValidationError("Excel ekstresinde hareket bulunamadı.");
+  }
+
+  const first = transactions[0];
+  const last = transactions[transactions.length - 1];
+  const closingBalance = last.balanceAfter ?? null;
+  const openingBalance =
+    first.balanceAfter !== null && first.balanceAfter !== undefined ? round2(first.balanceAfter - first.amount) : null;
+  const total = round2(transactions.reduce((sum, transaction) => sum + transaction.amount, 0));
+
+  return [
+    {
+      format: "excel",
+      statementReference: `XLS-${createHash("sha1")
+        .update(`${iban ?? ""}|${first.bookingDate.toISOString()}|${last.bookingDate.toISOString()}|${transactions.length}|${total}|${closingBalance ?? ""}`)
+        .digest("hex")
+        .slice(0, 16)}`,
+      accountIdentifier: iban,
+      currency,
+      openingBalance,
+      closingBalance,
+      periodStart: first.bookingDate,
+      periodEnd: last.bookingDate,
+      transactions,
+    },
+  ];
+}
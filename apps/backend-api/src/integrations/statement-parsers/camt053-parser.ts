@@ -0,0 +1,169 @@
+import { ValidationError } from "@repo/shared-utils";
+import { parseXml, xmlChild, xmlChildren, xmlText, type XmlElement } from "../../utils/xml-reader";
+import type { NormalizedBankTransaction } from "../connectors/types";
+import type { ParsedBankStatement } from "./types";
+
+/**
+ * ISO 20022 camt.053 (BankToCustomerStatement) parser
+ *
+ * Only booked entries are imported. Batched entries with several
+ * transaction details stay one statement line, as the bank books them.
+ * Counterparty paths differ between camt.053.001.02 and later versions
+ * (Dbtr/Nm vs Dbtr/Pty/Nm); both are read.
+ */
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseDate(element: XmlElement | undefined): Date | null {
+  const value = xmlText(element, "Dt") ?? xmlText(element, "DtTm");
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Amount with its credit/debit indicator; CRDT is incoming
+function signedAmount(element: XmlElement): number {
+  const amount = Number(xmlText(element, "Amt") ?? "0");
+  return xmlText(element, "CdtDbtInd") === "DBIT" ? -amount : amount;
+}
+
+function balanceOf(statement: XmlElement, codes: string[]): { amount: number; date: Date | null } | null {
+  for (const code of codes) {
+    const balance = xmlChildren(statement, "Bal").find((bal) => xmlText(bal, "Tp", "CdOrPrtry", "Cd") === code);
+    if (balance) {
+      return { amount: signedAmount(balance), date: parseDate(xmlChild(balance, "Dt")) };
+    }
+  }
+  return null;
+}
+
+function isBooked(entry: XmlElement): boolean {
+  const status = xmlText(entry, "Sts") ?? xmlText(entry, "Sts", "Cd");
+  return !status || status === "BOOK";
+}
+
+function partyName(party: XmlElement | undefined): string | null {
+  return xmlText(party, "Nm") ?? xmlText(party, "Pty", "Nm");
+}
+
+// VKN (10 digits) or TCKN (11 digits) in the party's organisation or private id
+function partyTaxNumber(party: XmlElement | undefined): string | null {
+  const root = xmlChild(party, "Pty") ?? party;
+  const candidates = [
+    xmlText(root, "Id", "OrgId", "Othr", "Id"),
+    xmlText(root, "Id", "PrvtId", "Othr", "Id"),
+  ];
+  return candidates.find((id): id is string => !!id && /^\d{10,11}$/.test(id)) ?? null;
+}
+
+function reference(value: string | null): string | null {
+  return value && value !== "NOTPROVIDED" ? value : null;
+}
+
+function parseEntry(
+  entry: XmlElement,
+  index: number,
+  statementId: string,
+  accountIdentifier: string | null,
+  currency: string
+): NormalizedBankTransaction {
+  let amount = signedAmount(entry);
+  if (xmlText(entry, "RvslInd") === "true") {
+    amount = -amount;
+  }
+  const incoming = amount > 0;
+  const details = xmlChildren(entry, "NtryDtls").flatMap((detail) => xmlChildren(detail, "TxDtls"));
+  const first = details[0];
+
+  // The counterparty is the debtor of incoming and the creditor of outgoing money
+  const parties = xmlChild(first, "RltdPties");
+  const party = xmlChild(parties, incoming ? "Dbtr" : "Cdtr");
+  const partyAccount = xmlChild(parties, incoming ? "DbtrAcct" : "CdtrAcct");
+
+  const descriptions = [
+    ...details.flatMap((detail) =>
+      xmlChildren(xmlChild(detail, "RmtInf"), "Ustrd").map((ustrd) => ustrd.text.trim())
+    ),
+    ...details.map((detail) => xmlText(detail, "RmtInf", "Strd", "CdtrRefInf", "Ref") ?? ""),
+    ...details.map((detail) => xmlText(detail, "AddtlTxInf") ?? ""),
+    xmlText(entry, "AddtlNtryInf") ?? "",
+  ].filter((text, i, all) => text !== "" && all.indexOf(text) === i);
+
+  return {
+    externalId:
+      reference(xmlText(entry, "AcctSvcrRef")) ??
+      reference(xmlText(entry, "NtryRef")) ??
+      reference(xmlText(first, "Refs", "AcctSvcrRef")) ??
+      reference(xmlText(first, "Refs", "EndToEndId")) ??
+      `${statementId}/${index + 1}`,
+    accountIdentifier: accountIdentifier ?? "",
+    bookingDate: parseDate(xmlChild(entry, "BookgDt")) ?? parseDate(xmlChild(entry, "ValDt")) ?? new Date(),
+    valueDate: parseDate(xmlChild(entry, "ValDt")),
+    description: descriptions.join(" ") || "camt.053 hareketi",
+    amount,
+    currency: xmlChild(entry, "Amt")?.attributes.Ccy ?? currency,
+    counterpartyName: partyName(party),
+    counterpartyIban: xmlText(partyAccount, "Id", "IBAN"),
+    counterpartyTaxNumber: partyTaxNumber(party),
+  };
+}
+
+function parseStatement(statement: XmlElement): ParsedBankStatement {
+  const statementId = xmlText(statement, "Id");
+  if (!statementId) {
+    throw new ValidationError("Geçersiz camt.053 dosyası: ekstre kimliği (Stmt/Id) eksik.");
+  }
+
+  const account = xmlChild(statement, "Acct");
+  const accountIdentifier = xmlText(account, "Id", "IBAN");
+  const opening = balanceOf(statement, ["OPBD", "PRCD"]);
+  const closing = balanceOf(statement, ["CLBD"]);
+  const currency =
+    xmlText(account, "Ccy") ??
+    xmlChild(xmlChildren(statement, "Bal")[0], "Amt")?.attributes.Ccy ??
+    "TRY";
+
+  let balance = opening?.amount ?? null;
+  const transactions = xmlChildren(statement, "Ntry")
+    .filter(isBooked)
+    .map((entry, index) => {
+      const transaction = parseEntry(entry, index, statementId, accountIdentifier, currency);
+      balance = balance !== null ? round2(balance + transaction.amount) : null;
+      return { ...transaction, balanceAfter: balance };
+    });
+
+  const period = xmlChild(statement, "FrToDt");
+  const from = xmlText(period, "FrDtTm");
+  const to = xmlText(period, "ToDtTm");
+
+  return {
+    format: "camt053",
+    statementReference: statementId,
+    accountIdentifier,
+    currency,
+    openingBalance: opening?.amount ?? null,
+    closingBalance: closing?.amount ?? null,
+    periodStart: from ? new Date(from) : (opening?.date ?? transactions[0]?.bookingDate ?? null),
+    periodEnd: to ? new Date(to) : (closing?.date ?? transactions[transactions.length - 1]?.bookingDate ?? null),
+    transactions,
+  };
+}
+
+/**
+ * Parse every statement (Stmt) in a camt.053 document
+ */
+export function parseCamt053(content: string): ParsedBankStatement[] {
+  const root = parseXml(content);
+  const container = root.name === "Document" ? xmlChild(root, "BkToCstmrStmt") : undefined;
+  const statements = xmlChildren(container, "Stmt");
+
+  if (statements.length === 0) {
+    throw new ValidationError("Geçersiz camt.053 dosyası: BkToCstmrStmt/Stmt bulunamadı.");
+  }
+
+  return statements.map(parseStatement);
+}
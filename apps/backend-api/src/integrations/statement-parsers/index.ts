@@ -0,0 +1,59 @@
+import { ValidationError } from "@repo/shared-utils";
+import { parseMt940 } from "./mt940-parser";
+import { parseCamt053 } from "./camt053-parser";
+import { parseBankExcel } from "./bank-excel-parser";
+import type { BankStatementFormat, ParsedBankStatement } from "./types";
+
+export type { BankStatementFormat, ParsedBankStatement } from "./types";
+export { parseMt940 } from "./mt940-parser";
+export { parseCamt053 } from "./camt053-parser";
+export { parseBankExcel } from "./bank-excel-parser";
+
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]); // .xlsx
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0]); // .xls
+
+// Banks export MT940 in UTF-8 or in the Turkish Windows code page
+function decodeText(buffer: Buffer): string {
+  const utf8 = buffer.toString("utf-8");
+  return utf8.includes("\uFFFD") ? new TextDecoder("windows-1254").decode(buffer) : utf8;
+}
+
+/**
+ * Detect the statement format from the file content, falling back to the
+ * file extension
+ */
+export function detectStatementFormat(fileName: string, buffer: Buffer): BankStatementFormat {
+  const head = buffer.subarray(0, 4);
+  if (head.equals(ZIP_MAGIC) || head.equals(OLE_MAGIC) || /\.xlsx?$/i.test(fileName)) {
+    return "excel";
+  }
+
+  const text = decodeText(buffer.subarray(0, 4096)).trimStart();
+  if (text.startsWith("<") && (text.includes("camt.053") || text.includes("BkToCstmrStmt"))) {
+    return "camt053";
+  }
+  if (/(^|\n|\{4:\s*)\s*:20:/.test(text) && /:(25|60F|61):/.test(text)) {
+    return "mt940";
+  }
+
+  throw new ValidationError("Desteklenmeyen ekstre biçimi. MT940, camt.053 veya Excel dosyası yükleyin.");
+}
+
+/**
+ * Parse an uploaded statement file into one or more statements
+ */
+export function parseBankStatementFile(
+  fileName: string,
+  buffer: Buffer
+): { format: BankStatementFormat; statements: ParsedBankStatement[] } {
+  const format = detectStatementFormat(fileName, buffer);
+
+  switch (format) {
+    case "excel":
+      return { format, statements: parseBankExcel(buffer) };
+    case "camt053":
+      return { format, statements: parseCamt053(decodeText(buffer)) };
+    case "mt940":
+      return { format, statements: parseMt940(decodeText(buffer)) };
+  }
+}
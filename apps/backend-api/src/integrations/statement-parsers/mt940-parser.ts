@@ -0,0 +1,280 @@
+import { ValidationError } from "@repo/shared-utils";
+import type { NormalizedBankTransaction } from "../connectors/types";
+import type { ParsedBankStatement } from "./types";
+
+/**
+ * SWIFT MT940 customer statement parser
+ *
+ * Reads the :20:, :25:, :28C:, :60a:, :61:, :86: and :62a: fields of one or
+ * more statements in a file. Turkish banks mostly write the :86: narrative
+ * as free text; the structured ?20-?33 subfield layout is read as well.
+ */
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+interface Mt940Line {
+  valueDate: Date;
+  bookingDate: Date;
+  amount: number;
+  customerReference: string;
+  bankReference: string | null;
+  supplementary: string | null;
+  information: Mt940Information | null;
+}
+
+interface Mt940Information {
+  description: string;
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+}
+
+interface Mt940Balance {
+  date: Date;
+  currency: string;
+  amount: number;
+}
+
+interface Mt940Draft {
+  reference: string;
+  sequence: string | null;
+  accountIdentifier: string | null;
+  opening: Mt940Balance | null;
+  closing: Mt940Balance | null;
+  lines: Mt940Line[];
+}
+
+const TAG_PATTERN = /^:(\d{2}[A-Z]?):/;
+const BALANCE_PATTERN = /^([CD])(\d{6})([A-Z]{3})(\d+,?\d*)/;
+const LINE_PATTERN = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,?\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+const IBAN_PATTERN = /TR\d{24}|[A-Z]{2}\d{2}[A-Z0-9]{11,30}/;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseAmount(value: string): number {
+  return Number(value.replace(",", "."));
+}
+
+function parseYymmdd(value: string): Date {
+  return new Date(Date.UTC(2000 + Number(value.slice(0, 2)), Number(value.slice(2, 4)) - 1, Number(value.slice(4, 6))));
+}
+
+// The entry date only carries MMDD; take the value date's year, stepping over a year end
+function parseEntryDate(mmdd: string, valueDate: Date): Date {
+  const month = Number(mmdd.slice(0, 2)) - 1;
+  let year = valueDate.getUTCFullYear();
+  if (month === 11 && valueDate.getUTCMonth() === 0) {
+    year--;
+  } else if (month === 0 && valueDate.getUTCMonth() === 11) {
+    year++;
+  }
+  return new Date(Date.UTC(year, month, Number(mmdd.slice(2, 4))));
+}
+
+function extractIban(value: string): string | null {
+  return IBAN_PATTERN.exec(value.toUpperCase().replace(/\s+/g, ""))?.[0] ?? null;
+}
+
+function splitFields(content: string): Mt940Field[] {
+  // SWIFT envelope blocks {1:}{2:}{3:}{5:} and the {4: ... -} wrapper
+  const body = content
+    .replace(/\{[1235]:(?:[^{}]|\{[^{}]*\})*\}/g, "")
+    .replace(/\{4:/g, "")
+    .replace(/-\}/g, "");
+
+  const fields: Mt940Field[] = [];
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line === "" || line === "-") {
+      continue;
+    }
+    const match = TAG_PATTERN.exec(line);
+    if (match) {
+      fields.push({ tag: match[1], value: line.slice(match[0].length) });
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+function parseBalance(value: string, tag: string): Mt940Balance {
+  const match = BALANCE_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new ValidationError(`Geçersiz MT940 bakiyesi (:${tag}:): ${value.trim()}`);
+  }
+  const amount = parseAmount(match[4]);
+  return {
+    date: parseYymmdd(match[2]),
+    currency: match[3],
+    amount: match[1] === "D" ? -amount : amount,
+  };
+}
+
+function parseStatementLine(value: string): Mt940Line {
+  const match = LINE_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new ValidationError(`Geçersiz MT940 hareket satırı (:61:): ${value.split("\n")[0]}`);
+  }
+
+  const valueDate = parseYymmdd(match[1]);
+  const amount = parseAmount(match[5]);
+  // C = alacak (incoming), D = borç (outgoing); RC/RD reverse an earlier entry
+  const incoming = match[3] === "C" || match[3] === "RD";
+
+  return {
+    valueDate,
+    bookingDate: match[2] ? parseEntryDate(match[2], valueDate) : valueDate,
+    amount: incoming ? amount : -amount,
+    customerReference: match[7].trim(),
+    bankReference: match[8]?.trim() || null,
+    supplementary: match[9]?.trim() || null,
+    information: null,
+  };
+}
+
+function parseInformation(value: string): Mt940Information {
+  const text = value.replace(/\n/g, "");
+
+  if (!/\?\d{2}/.test(text)) {
+    return {
+      description: value.split("\n").map((part) => part.trim()).filter(Boolean).join(" "),
+      counterpartyName: null,
+      counterpartyIban: null,
+    };
+  }
+
+  // Structured narrative: ?20-?29 and ?60-?63 purpose, ?31 account, ?32-?33 name
+  const purpose: string[] = [];
+  const name: string[] = [];
+  let account: string | null = null;
+  for (const part of text.split(/(?=\?\d{2})/)) {
+    const code = Number(part.slice(1, 3));
+    const content = part.slice(3).trim();
+    if (!part.startsWith("?") || !content) {
+      continue;
+    }
+    if ((code >= 20 && code <= 29) || (code >= 60 && code <= 63)) {
+      purpose.push(content);
+    } else if (code === 31) {
+      account = content;
+    } else if (code === 32 || code === 33) {
+      name.push(content);
+    }
+  }
+
+  return {
+    description: purpose.join(" "),
+    counterpartyName: name.length > 0 ? name.join(" ") : null,
+    counterpartyIban: account ? extractIban(account) : null,
+  };
+}
+
+function isReference(value: string | null): value is string {
+  return !!value && value.toUpperCase() !== "NONREF";
+}
+
+function finalizeStatement(draft: Mt940Draft): ParsedBankStatement {
+  const statementReference = draft.sequence ? `${draft.reference}/${draft.sequence}` : draft.reference;
+  const currency = draft.opening?.currency ?? draft.closing?.currency ?? "TRY";
+  let balance = draft.opening?.amount ?? null;
+
+  const transactions: NormalizedBankTransaction[] = draft.lines.map((line, index) => {
+    balance = balance !== null ? round2(balance + line.amount) : null;
+    const description =
+      line.information?.description || line.supplementary || line.customerReference || "MT940 hareketi";
+
+    return {
+      externalId: isReference(line.bankReference)
+        ? line.bankReference
+        : isReference(line.customerReference)
+          ? `${statementReference}/${line.customerReference}`
+          : `${statementReference}/${index + 1}`,
+      accountIdentifier: draft.accountIdentifier ?? "",
+      bookingDate: line.bookingDate,
+      valueDate: line.valueDate,
+      description,
+      amount: line.amount,
+      currency,
+      balanceAfter: balance,
+      counterpartyName: line.information?.counterpartyName ?? null,
+      counterpartyIban: line.information?.counterpartyIban ?? null,
+    };
+  });
+
+  return {
+    format: "mt940",
+    statementReference,
+    accountIdentifier: draft.accountIdentifier,
+    currency,
+    openingBalance: draft.opening?.amount ?? null,
+    closingBalance: draft.closing?.amount ?? null,
+    periodStart: draft.opening?.date ?? draft.lines[0]?.bookingDate ?? null,
+    periodEnd: draft.closing?.date ?? draft.lines[draft.lines.length - 1]?.bookingDate ?? null,
+    transactions,
+  };
+}
+
+/**
+ * Parse every statement in an MT940 file
+ */
+export function parseMt940(content: string): ParsedBankStatement[] {
+  const drafts: Mt940Draft[] = [];
+  let current: Mt940Draft | null = null;
+
+  for (const field of splitFields(content)) {
+    if (field.tag === "20") {
+      current = {
+        reference: field.value.trim(),
+        sequence: null,
+        accountIdentifier: null,
+        opening: null,
+        closing: null,
+        lines: [],
+      };
+      drafts.push(current);
+      continue;
+    }
+    if (!current) {
+      throw new ValidationError("Geçersiz MT940 dosyası: ekstre :20: alanı ile başlamalıdır.");
+    }
+
+    switch (field.tag) {
+      case "25":
+        current.accountIdentifier = extractIban(field.value);
+        break;
+      case "28C":
+        current.sequence = field.value.trim();
+        break;
+      case "60F":
+      case "60M":
+        current.opening = parseBalance(field.value, field.tag);
+        break;
+      case "61":
+        current.lines.push(parseStatementLine(field.value));
+        break;
+      case "86": {
+        // :86: after a :61: describes that line; a trailing one describes the statement
+        const last = current.lines[current.lines.length - 1];
+        if (last && !last.information && !current.closing) {
+          last.information = parseInformation(field.value);
+        }
+        break;
+      }
+      case "62F":
+      case "62M":
+        current.closing = parseBalance(field.value, field.tag);
+        break;
+    }
+  }
+
+  if (drafts.length === 0) {
+    throw new ValidationError("Geçersiz MT940 dosyası: ekstre bulunamadı.");
+  }
+
+  return drafts.map(finalizeStatement);
+}
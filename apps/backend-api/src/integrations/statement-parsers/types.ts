@@ -0,0 +1,15 @@
+import type { NormalizedBankTransaction } from "../connectors/types";
+
+export type BankStatementFormat = "mt940" | "camt053" | "excel";
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  statementReference: string; // used to detect a statement that was imported before
+  accountIdentifier: string | null; // IBAN, when the file carries one
+  currency: string;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  transactions: NormalizedBankTransaction[];
+}
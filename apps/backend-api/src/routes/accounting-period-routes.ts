@@ -0,0 +1,159 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission, requireRole } from "../middleware/rbac-middleware";
+import { z } from "zod";
+import { validate, clientCompanyIdParamSchema } from "../middleware/validation-middleware";
+import { TENANT_ROLES } from "@repo/core-domain";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────
+
+const listPeriodsQuery = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+const periodParams = clientCompanyIdParamSchema.extend({
+  period: z.string().regex(/^\d{4}-\d{2}$/, "Dönem formatı: YYYY-MM"),
+});
+
+const closePeriodBody = z.object({
+  lock: z.boolean().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+const reopenPeriodBody = z.object({
+  reason: z.string().min(10, "Dönemi yeniden açma gerekçesi en az 10 karakter olmalıdır."),
+});
+
+const correctingEntryBody = z.object({
+  transactionId: z.string().min(1, "Mali hareket ID gerekli"),
+  description: z.string().optional(),
+  lines: z
+    .array(
+      z.object({
+        ledgerAccountId: z.string().min(1, "Hesap ID gerekli"),
+        debitAmount: z.number().nonnegative(),
+        creditAmount: z.number().nonnegative(),
+        description: z.string().optional().nullable(),
+      })
+    )
+    .optional(),
+});
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Routes ──────────────────────────────────────────────────────────────
+
+// GET /api/v1/accounting-periods?clientCompanyId=...&year=2026 - Monthly periods of a year
+router.get(
+  "/",
+  requirePermission("periods:view"),
+  validate({ query: listPeriodsQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { accountingPeriodService } = await import("../services/accounting-period-service");
+      const periods = await accountingPeriodService.listPeriods(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        req.query.year ? Number(req.query.year) : undefined
+      );
+      res.json({ data: periods });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/accounting-periods/correcting-entries - Correct a transaction of a closed period
+router.post(
+  "/correcting-entries",
+  requirePermission("periods:manage"),
+  validate({ body: correctingEntryBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { accountingPeriodService } = await import("../services/accounting-period-service");
+      const transaction = await accountingPeriodService.createCorrectingEntry(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.body.transactionId,
+        { description: req.body.description, lines: req.body.lines }
+      );
+      res.status(201).json({ data: transaction });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/accounting-periods/:clientCompanyId/:period - Period status and close checks
+router.get(
+  "/:clientCompanyId/:period",
+  requirePermission("periods:view"),
+  validate({ params: periodParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { accountingPeriodService } = await import("../services/accounting-period-service");
+      const period = await accountingPeriodService.getPeriod(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        req.params.period
+      );
+      res.json({ data: period });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/accounting-periods/:clientCompanyId/:period/close - Soft-close or lock a period
+router.post(
+  "/:clientCompanyId/:period/close",
+  requirePermission("periods:manage"),
+  validate({ params: periodParams, body: closePeriodBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { accountingPeriodService } = await import("../services/accounting-period-service");
+      const period = await accountingPeriodService.closePeriod(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.clientCompanyId,
+        req.params.period,
+        req.body
+      );
+      res.json({ data: period });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/accounting-periods/:clientCompanyId/:period/reopen - Reopen a closed period (TenantOwner only)
+router.post(
+  "/:clientCompanyId/:period/reopen",
+  requireRole(TENANT_ROLES.TENANT_OWNER),
+  requirePermission("periods:manage"),
+  validate({ params: periodParams, body: reopenPeriodBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { accountingPeriodService } = await import("../services/accounting-period-service");
+      const period = await accountingPeriodService.reopenPeriod(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.clientCompanyId,
+        req.params.period,
+        req.body.reason
+      );
+      res.json({ data: period });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+export default router;
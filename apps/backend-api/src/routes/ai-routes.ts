@@ -2,6 +2,7 @@ import { Router, type Response, type NextFunction } from "express";
 import { z } from "zod";
 import { aiAssistantService } from "../services/ai-assistant-service";
 import { ragService } from "../services/rag-service";
+import { assistantConversationService } from "../services/assistant-conversation-service";
 import { authMiddleware } from "../middleware/auth-middleware";
 import { tenantMiddleware } from "../middleware/tenant-middleware";
 import { requirePermission } from "../middleware/rbac-middleware";
@@ -64,10 +65,30 @@ const enhancedChatSchema = z.object({
     )
     .max(20, "Konuşma geçmişi en fazla 20 mesaj içerebilir.")
     .optional(),
+  conversationId: z.string().max(100).optional(),
   useHybridSearch: z.boolean().default(true).optional(),
   useReranking: z.boolean().default(false).optional(),
 });
 
+const conversationListSchema = z.object({
+  search: z.string().max(200, "Arama en fazla 200 karakter olabilir.").optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+const renameConversationSchema = z.object({
+  title: z.string().min(1, "Başlık gerekli.").max(255, "Başlık en fazla 255 karakter olabilir."),
+});
+
+const conversationExportSchema = z.object({
+  format: z.enum(["json", "markdown"]).default("markdown"),
+});
+
+const messageFeedbackSchema = z.object({
+  rating: z.enum(["up", "down"]),
+  comment: z.string().max(2000, "Yorum en fazla 2000 karakter olabilir.").optional().nullable(),
+});
+
 // Hybrid search schema for advanced RAG queries
 const hybridSearchSchema = z.object({
   query: z.string().min(1, "Arama sorgusu gerekli.").max(1000, "Arama sorgusu en fazla 1000 karakter olabilir."),
@@ -268,6 +289,7 @@ router.post(
           companyId: body.companyId,
         },
         conversationHistory: body.conversationHistory as any,
+        conversationId: body.conversationId,
         useHybridSearch: body.useHybridSearch,
         useReranking: body.useReranking,
       });
@@ -278,7 +300,10 @@ router.post(
       res.json({
         data: {
           answer: result.answer,
+          conversationId: result.conversationId,
+          messageId: result.messageId,
           sourcesUsed: result.sourcesUsed,
+          citations: result.citations,
           searchMetrics: result.searchMetrics,
         },
       });
@@ -291,6 +316,135 @@ router.post(
   }
 );
 
+// GET /api/v1/ai/conversations - The user's stored assistant conversations (searchable)
+router.get(
+  "/conversations",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const query = conversationListSchema.parse(req.query);
+      const result = await assistantConversationService.listConversations(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        query
+      );
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return next(new Error(error.issues[0]?.message || "Geçersiz bilgiler."));
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/ai/conversations/:id - Conversation with messages, citations and feedback
+router.get(
+  "/conversations/:id",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const conversation = await assistantConversationService.getConversation(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id
+      );
+      res.json({ data: conversation });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/v1/ai/conversations/:id - Rename a conversation
+router.patch(
+  "/conversations/:id",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const body = renameConversationSchema.parse(req.body);
+      const conversation = await assistantConversationService.renameConversation(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        body.title
+      );
+      res.json({ data: conversation });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return next(new Error(error.issues[0]?.message || "Geçersiz bilgiler."));
+      }
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/v1/ai/conversations/:id - Delete a conversation
+router.delete(
+  "/conversations/:id",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      await assistantConversationService.deleteConversation(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id
+      );
+      res.json({ data: { message: "Konuşma silindi." } });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/ai/conversations/:id/export?format=markdown|json - Download a conversation
+router.get(
+  "/conversations/:id/export",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const query = conversationExportSchema.parse(req.query);
+      const file = await assistantConversationService.exportConversation(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        query.format
+      );
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return next(new Error(error.issues[0]?.message || "Geçersiz bilgiler."));
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/ai/messages/:id/feedback - Rate an assistant answer
+router.post(
+  "/messages/:id/feedback",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const body = messageFeedbackSchema.parse(req.body);
+      const message = await assistantConversationService.submitFeedback(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        body as any
+      );
+      res.json({ data: message });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return next(new Error(error.issues[0]?.message || "Geçersiz bilgiler."));
+      }
+      next(error);
+    }
+  }
+);
+
 // POST /api/v1/ai/rag/hybrid-search - Advanced hybrid (semantic + keyword) search
 router.post(
   "/rag/hybrid-search",
@@ -27,12 +27,21 @@ router.get(
   cacheMiddleware(300000),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const filters = dateRangeSchema.parse(req.query);
+      const filters = dateRangeSchema
+        .extend({
+          clientCompanyId: z.string().optional(),
+          dimensionValueIds: z.string().optional(), // virgülle ayrılmış boyut değerleri
+        })
+        .parse(req.query);
       const trends = await analyticsService.getFinancialTrends(
         req.context!.tenantId!,
         filters.startDate,
         filters.endDate,
-        filters.granularity || "monthly"
+        filters.granularity || "monthly",
+        {
+          clientCompanyId: filters.clientCompanyId,
+          dimensionValueIds: filters.dimensionValueIds?.split(",").map((id) => id.trim()).filter(Boolean),
+        }
       );
       res.json({ data: trends });
     } catch (error: any) {
@@ -0,0 +1,315 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { AuthorizationError } from "@repo/shared-utils";
+import { hasPermission, type Permission } from "@repo/core-domain";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const approvalAction = z.enum(["efatura_submit", "payment_initiate", "beyanname_submit", "masak_submit"]);
+const documentAction = z.enum(["efatura_submit", "beyanname_submit", "masak_submit"]);
+const tenantRole = z.enum(["TenantOwner", "Accountant", "Staff", "ReadOnly"]);
+
+const stepsSchema = z
+  .array(z.object({ roles: z.array(tenantRole).min(1, "Adım için en az bir rol seçin.") }))
+  .min(1, "En az bir onay adımı gerekli.")
+  .max(5);
+
+const createPolicyBody = z.object({
+  action: approvalAction,
+  name: z.string().min(1, "Politika adı gerekli").max(255),
+  minAmount: z.number().positive().optional().nullable(),
+  steps: stepsSchema,
+  requireDistinctPreparer: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updatePolicyBody = z.object({
+  name: z.string().min(1).max(255).optional(),
+  minAmount: z.number().positive().optional().nullable(),
+  steps: stepsSchema.optional(),
+  requireDistinctPreparer: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const listRequestsQuery = z.object({
+  status: z.enum(["pending", "approved", "rejected", "cancelled", "executed", "invalidated"]).optional(),
+  action: approvalAction.optional(),
+  clientCompanyId: z.string().optional(),
+  awaitingMe: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+const createRequestBody = z.object({
+  action: documentAction,
+  resourceId: z.string().min(1, "Belge ID gerekli"),
+  comment: z.string().max(2000).optional().nullable(),
+});
+
+const approveBody = z.object({
+  comment: z.string().max(2000).optional().nullable(),
+});
+
+const rejectBody = z.object({
+  comment: z.string().min(1, "Ret gerekçesi gerekli").max(2000),
+});
+
+const delegationBody = z
+  .object({
+    delegatorUserId: z.string().min(1).optional(),
+    delegateUserId: z.string().min(1, "Vekil kullanıcı gerekli"),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    reason: z.string().max(500).optional().nullable(),
+  })
+  .refine((body) => body.endsAt > body.startsAt, {
+    message: "Bitiş tarihi başlangıçtan sonra olmalı.",
+    path: ["endsAt"],
+  });
+
+// Who may ask for approval of a document: whoever may carry out the action
+const ACTION_PERMISSIONS: Record<z.infer<typeof documentAction>, Permission> = {
+  efatura_submit: "invoices:manage",
+  beyanname_submit: "beyanname:manage",
+  masak_submit: "masak:manage",
+};
+
+function canManageApprovals(req: AuthenticatedRequest): boolean {
+  return hasPermission(req.context!.membership!.role, "approvals:manage");
+}
+
+// ─── Politikalar ─────────────────────────────────────────────────────
+
+// GET /policies - Approval policies of the tenant
+router.get(
+  "/policies",
+  requirePermission("approvals:view"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.listPolicies(req.context!.tenantId!);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /policies - Put an action behind approval steps
+router.post(
+  "/policies",
+  requirePermission("approvals:manage"),
+  validate({ body: createPolicyBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.createPolicy(req.context!.tenantId!, req.context!.user.id, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /policies/:id
+router.patch(
+  "/policies/:id",
+  requirePermission("approvals:manage"),
+  validate({ params: idParamSchema, body: updatePolicyBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.updatePolicy(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /policies/:id
+router.delete(
+  "/policies/:id",
+  requirePermission("approvals:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      await approvalService.deletePolicy(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ message: "Onay politikası silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Talepler ────────────────────────────────────────────────────────
+
+// GET /requests - Approval requests, or those awaiting the current user
+router.get(
+  "/requests",
+  requirePermission("approvals:view"),
+  validate({ query: listRequestsQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const query = req.query as unknown as z.infer<typeof listRequestsQuery>;
+      const result = await approvalService.listRequests(req.context!.tenantId!, req.context!.user.id, query);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /requests - Ask for approval of an invoice, beyanname or MASAK report
+router.post(
+  "/requests",
+  requirePermission("approvals:view"),
+  validate({ body: createRequestBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const action = req.body.action as z.infer<typeof documentAction>;
+      if (!hasPermission(req.context!.membership!.role, ACTION_PERMISSIONS[action])) {
+        throw new AuthorizationError("Bu işlem için onay talebi oluşturma yetkiniz yok.");
+      }
+
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.requestApproval(req.context!.tenantId!, req.context!.user.id, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /requests/:id - Request with its decisions
+router.get(
+  "/requests/:id",
+  requirePermission("approvals:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.getRequest(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /requests/:id/approve - Approve the current step
+router.post(
+  "/requests/:id/approve",
+  requirePermission("approvals:view"),
+  validate({ params: idParamSchema, body: approveBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.approve(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body.comment
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /requests/:id/reject - Reject with a reason
+router.post(
+  "/requests/:id/reject",
+  requirePermission("approvals:view"),
+  validate({ params: idParamSchema, body: rejectBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.reject(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body.comment
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /requests/:id/cancel - Withdraw a pending or unused request
+router.post(
+  "/requests/:id/cancel",
+  requirePermission("approvals:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.cancel(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        canManageApprovals(req)
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Vekalet ─────────────────────────────────────────────────────────
+
+// GET /delegations
+router.get(
+  "/delegations",
+  requirePermission("approvals:view"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.listDelegations(req.context!.tenantId!);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /delegations - Hand one's approvals to a colleague for a period
+router.post(
+  "/delegations",
+  requirePermission("approvals:view"),
+  validate({ body: delegationBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      const result = await approvalService.createDelegation(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        canManageApprovals(req),
+        req.body
+      );
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /delegations/:id - End a delegation early
+router.delete(
+  "/delegations/:id",
+  requirePermission("approvals:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { approvalService } = await import("../services/approval-service");
+      await approvalService.revokeDelegation(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        canManageApprovals(req),
+        req.params.id
+      );
+      res.json({ message: "Vekalet kaldırıldı." });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
@@ -18,6 +18,15 @@ const listFormsQuery = baseListQuerySchema.extend({
   period: z.string().optional(),
 });
 
+const formLineParams = z.object({
+  id: z.string().min(1, "ID gerekli"),
+  lineId: z.string().min(1, "Satır ID gerekli"),
+});
+
+const sendLetterBody = z.object({
+  email: z.string().email("Geçerli bir e-posta adresi giriniz."),
+});
+
 const router: ExpressRouter = Router();
 
 router.use(authMiddleware);
@@ -134,4 +143,93 @@ router.post(
   }
 );
 
+// GET /api/v1/babs/forms/:id/export/validation - e-Beyanname schema errors per field
+router.get(
+  "/forms/:id/export/validation",
+  requirePermission("babs:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { babsFormService } = await import("../services/babs-form-service");
+      const { file: _file, ...validation } = await babsFormService.exportForm(req.context!.tenantId!, req.params.id);
+      res.json({ data: validation });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/babs/forms/:id/export - Download the form as GİB e-Beyanname XML
+router.get(
+  "/forms/:id/export",
+  requirePermission("babs:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { babsFormService } = await import("../services/babs-form-service");
+      const result = await babsFormService.exportForm(req.context!.tenantId!, req.params.id);
+      if (!result.file) {
+        res.status(400).json({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: result.errors[0]?.message || "Form e-Beyanname şemasına uymuyor.",
+            fields: result.errors.map((e) => ({ path: e.field, message: e.message })),
+          },
+        });
+        return;
+      }
+      res.setHeader("Content-Type", "application/xml; charset=ISO-8859-9");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(result.file.fileName)}"`);
+      res.send(result.file.content);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/babs/forms/:id/lines/:lineId/reconciliation-letter - Mutabakat letter for a counterparty as PDF
+router.get(
+  "/forms/:id/lines/:lineId/reconciliation-letter",
+  requirePermission("babs:view"),
+  validate({ params: formLineParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { babsFormService } = await import("../services/babs-form-service");
+      const { fileName, content } = await babsFormService.getReconciliationLetter(
+        req.context!.tenantId!,
+        req.params.id,
+        req.params.lineId
+      );
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Content-Length", content.length.toString());
+      res.send(content);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/babs/forms/:id/lines/:lineId/reconciliation-letter/send - E-mail the mutabakat letter
+router.post(
+  "/forms/:id/lines/:lineId/reconciliation-letter/send",
+  requirePermission("babs:manage"),
+  validate({ params: formLineParams, body: sendLetterBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { babsFormService } = await import("../services/babs-form-service");
+      const result = await babsFormService.sendReconciliationLetter(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.params.lineId,
+        req.body.email
+      );
+      res.json({ data: result });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
 export default router;
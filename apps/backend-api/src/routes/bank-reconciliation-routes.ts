@@ -0,0 +1,208 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { z } from "zod";
+import { validate } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────
+
+const dateString = z.string().refine((value) => !isNaN(Date.parse(value)), "Geçerli bir tarih giriniz.");
+
+const bankAccountParams = z.object({
+  bankAccountId: z.string().min(1, "Banka hesabı ID gerekli"),
+});
+
+const statementLineParams = bankAccountParams.extend({
+  statementLineId: z.string().min(1, "Ekstre satırı ID gerekli"),
+});
+
+const matchGroupParams = bankAccountParams.extend({
+  matchGroupId: z.string().min(1, "Eşleştirme ID gerekli"),
+});
+
+const workspaceQuery = z.object({
+  status: z.enum(["unmatched", "partially_matched", "matched"]).optional(),
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+const manualMatchBody = z.object({
+  statementLineIds: z.array(z.string().min(1)).min(1, "En az bir ekstre satırı seçilmelidir."),
+  invoiceIds: z.array(z.string().min(1)).optional(),
+  transactionIds: z.array(z.string().min(1)).optional(),
+});
+
+const differenceReportQuery = z.object({
+  asOf: dateString.optional(),
+  format: z.enum(["json", "pdf", "excel"]).default("json"),
+});
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Routes ──────────────────────────────────────────────────────────────
+
+// GET /api/v1/bank-reconciliation/:bankAccountId - Statement lines with their matches
+router.get(
+  "/:bankAccountId",
+  requirePermission("bank_reconciliation:view"),
+  validate({ params: bankAccountParams, query: workspaceQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { bankReconciliationService } = await import("../services/bank-reconciliation-service");
+      const query = req.query as unknown as z.infer<typeof workspaceQuery>;
+      const workspace = await bankReconciliationService.getWorkspace(req.context!.tenantId!, req.params.bankAccountId, {
+        status: query.status,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+      });
+      res.json({ data: workspace });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/bank-reconciliation/:bankAccountId/statement-imports - Imported statement files
+router.get(
+  "/:bankAccountId/statement-imports",
+  requirePermission("bank_reconciliation:view"),
+  validate({ params: bankAccountParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { bankStatementImportService } = await import("../services/bank-statement-import-service");
+      const imports = await bankStatementImportService.listImports(req.context!.tenantId!, req.params.bankAccountId);
+      res.json({ data: imports });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/bank-reconciliation/:bankAccountId/lines/:statementLineId/candidates - Scored match candidates
+router.get(
+  "/:bankAccountId/lines/:statementLineId/candidates",
+  requirePermission("bank_reconciliation:view"),
+  validate({ params: statementLineParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { bankReconciliationService } = await import("../services/bank-reconciliation-service");
+      const candidates = await bankReconciliationService.findCandidates(
+        req.context!.tenantId!,
+        req.params.bankAccountId,
+        req.params.statementLineId
+      );
+      res.json({ data: candidates });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/bank-reconciliation/:bankAccountId/auto-match - Match open statement lines automatically
+router.post(
+  "/:bankAccountId/auto-match",
+  requirePermission("bank_reconciliation:manage"),
+  validate({ params: bankAccountParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { bankReconciliationService } = await import("../services/bank-reconciliation-service");
+      const result = await bankReconciliationService.autoMatch(
+        req.context!.tenantId!,
+        req.params.bankAccountId,
+        req.context!.user.id
+      );
+      res.json({ data: result });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/bank-reconciliation/:bankAccountId/matches - Manual match
+router.post(
+  "/:bankAccountId/matches",
+  requirePermission("bank_reconciliation:manage"),
+  validate({ params: bankAccountParams, body: manualMatchBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { bankReconciliationService } = await import("../services/bank-reconciliation-service");
+      const result = await bankReconciliationService.createManualMatch(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.bankAccountId,
+        req.body
+      );
+      res.status(201).json({ data: result });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/v1/bank-reconciliation/:bankAccountId/matches/:matchGroupId - Unmatch
+router.delete(
+  "/:bankAccountId/matches/:matchGroupId",
+  requirePermission("bank_reconciliation:manage"),
+  validate({ params: matchGroupParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { bankReconciliationService } = await import("../services/bank-reconciliation-service");
+      await bankReconciliationService.unmatch(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.bankAccountId,
+        req.params.matchGroupId
+      );
+      res.json({ data: { message: "Eşleştirme kaldırıldı." } });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/bank-reconciliation/:bankAccountId/difference-report?asOf=2026-09-30&format=pdf - Ekstre / defter farkı
+router.get(
+  "/:bankAccountId/difference-report",
+  requirePermission("bank_reconciliation:view"),
+  validate({ params: bankAccountParams, query: differenceReportQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { bankReconciliationService } = await import("../services/bank-reconciliation-service");
+      const query = req.query as unknown as z.infer<typeof differenceReportQuery>;
+      const asOf = query.asOf ? new Date(query.asOf) : new Date();
+      const report = await bankReconciliationService.getDifferenceReport(
+        req.context!.tenantId!,
+        req.params.bankAccountId,
+        asOf
+      );
+
+      if (query.format === "json") {
+        return res.json({ data: report });
+      }
+
+      const { exportService } = await import("../services/export-service");
+      const buffer =
+        query.format === "pdf" ? await exportService.exportToPdf(report) : await exportService.exportToExcel(report);
+      const contentType =
+        query.format === "pdf"
+          ? "application/pdf"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+      const filename = `banka_mutabakati_${asOf.toISOString().slice(0, 10)}.${query.format === "pdf" ? "pdf" : "xlsx"}`;
+
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Length", buffer.length.toString());
+      res.send(buffer);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -20,6 +20,10 @@ const listBeyannameQuery = baseListQuerySchema.extend({
   period: z.string().optional(),
 });
 
+const exportPeriodQuery = z.object({
+  period: z.string().regex(/^\d{4}(-(\d{2}|Q[1-4]))?$/, "Dönem YYYY-MM, YYYY-Q1 veya YYYY biçiminde olmalıdır"),
+});
+
 const router: ExpressRouter = Router();
 
 router.use(authMiddleware);
@@ -83,6 +87,26 @@ router.get(
   }
 );
 
+// GET /api/v1/beyanname/export - ZIP of all reviewed beyannameler of a period as e-Beyanname XML
+router.get(
+  "/export",
+  requirePermission("beyanname:view"),
+  validate({ query: exportPeriodQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eBeyannameService } = await import("../services/e-beyanname-service");
+      const result = await eBeyannameService.exportPeriod(req.context!.tenantId!, req.query.period as string);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(result.fileName)}"`);
+      res.setHeader("X-Exported-Count", String(result.exported));
+      res.setHeader("X-Skipped-Count", String(result.skipped.length));
+      res.send(result.content);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/v1/beyanname/:id - Get single beyanname
 router.get(
   "/:id",
@@ -115,6 +139,50 @@ router.post(
   }
 );
 
+// GET /api/v1/beyanname/:id/export/validation - e-Beyanname schema errors per field
+router.get(
+  "/:id/export/validation",
+  requirePermission("beyanname:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eBeyannameService } = await import("../services/e-beyanname-service");
+      const result = await eBeyannameService.validateBeyanname(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/beyanname/:id/export - Download the beyanname as e-Beyanname XML
+router.get(
+  "/:id/export",
+  requirePermission("beyanname:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eBeyannameService } = await import("../services/e-beyanname-service");
+      const result = await eBeyannameService.exportBeyanname(req.context!.tenantId!, req.params.id);
+      if (!result.file) {
+        res.status(400).json({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: result.errors[0]?.message || "Beyanname e-Beyanname şemasına uymuyor.",
+            fields: result.errors.map((e) => ({ path: e.field, message: e.message })),
+          },
+        });
+        return;
+      }
+      res.setHeader("Content-Type", "application/xml; charset=ISO-8859-9");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(result.file.fileName)}"`);
+      res.send(result.file.content);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
 // PATCH /api/v1/beyanname/:id/status - Update beyanname status
 router.patch(
   "/:id/status",
@@ -123,13 +191,26 @@ router.patch(
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { beyannameService } = await import("../services/beyanname-service");
-      const beyanname = await beyannameService.updateBeyannameStatus(
-        req.context!.tenantId!,
-        req.params.id,
-        req.context!.user.id,
-        req.body.status,
-        req.body.notes
-      );
+      const { approvalService } = await import("../services/approval-service");
+      const update = () =>
+        beyannameService.updateBeyannameStatus(
+          req.context!.tenantId!,
+          req.params.id,
+          req.context!.user.id,
+          req.body.status,
+          req.body.notes
+        );
+      // Submission may need an approval under the tenant's policies
+      const beyanname =
+        req.body.status === "submitted"
+          ? await approvalService.withApproval(
+              req.context!.tenantId!,
+              req.context!.user.id,
+              "beyanname_submit",
+              req.params.id,
+              update
+            )
+          : await update();
       res.json({ data: beyanname });
     } catch (error: any) {
       next(error);
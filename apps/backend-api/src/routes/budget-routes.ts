@@ -0,0 +1,276 @@
+import { Router, type Router as ExpressRouter } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { getStorageConfig } from "@repo/config";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// Budget workbooks (.xlsx, .xls)
+const uploadWorkbook = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: getStorageConfig().maxFileSize,
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(xls|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Excel dosyası bekleniyor (.xls, .xlsx)."));
+    }
+  },
+});
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const periodString = z.string().regex(/^\d{4}-\d{2}$/, "Dönem formatı: YYYY-MM");
+const clientCompanyId = z.string().min(1, "Müşteri şirket ID gerekli");
+const fiscalYear = z.coerce.number().int().min(2000).max(2100);
+const thresholdPercent = z.number().min(0).max(1000);
+
+const listQuery = z.object({
+  clientCompanyId,
+  fiscalYear: fiscalYear.optional(),
+});
+
+const createBody = z.object({
+  clientCompanyId,
+  fiscalYear,
+  name: z.string().min(1, "Bütçe adı gerekli").max(255),
+  alertThresholdPercent: thresholdPercent.optional(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+const updateBody = z.object({
+  name: z.string().min(1).max(255).optional(),
+  alertThresholdPercent: thresholdPercent.optional(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+const linesBody = z.object({
+  lines: z
+    .array(
+      z.object({
+        ledgerAccountId: z.string().min(1, "Hesap gerekli"),
+        dimensionValueId: z.string().min(1).optional().nullable(),
+        amounts: z.array(z.number().min(0, "Bütçe tutarı negatif olamaz.")).length(12, "12 aylık tutar gerekli."),
+      })
+    )
+    .max(5000),
+});
+
+const reviseBody = z.object({
+  name: z.string().min(1).max(255).optional(),
+});
+
+const varianceQuery = z.object({
+  month: z.coerce.number().int().min(1).max(12),
+  dimensionValueId: z.string().optional(),
+});
+
+const checkBody = z.object({
+  clientCompanyId,
+  period: periodString,
+});
+
+// ─── Bütçeler ────────────────────────────────────────────────────────
+
+// GET / - Budgets of a client company, newest year and version first
+router.get(
+  "/",
+  requirePermission("budgets:view"),
+  validate({ query: listQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const query = req.query as unknown as z.infer<typeof listQuery>;
+      const result = await budgetService.listBudgets(req.context!.tenantId!, query.clientCompanyId, query.fiscalYear);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST / - Start the original budget of a fiscal year
+router.post(
+  "/",
+  requirePermission("budgets:manage"),
+  validate({ body: createBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.createBudget(req.context!.tenantId!, req.context!.user.id, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /check - Raise alerts for a month's overruns of the approved budget
+router.post(
+  "/check",
+  requirePermission("budgets:manage"),
+  validate({ body: checkBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.checkThresholds(req.context!.tenantId!, req.body.clientCompanyId, req.body.period);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id - Budget with its lines (12 months per account)
+router.get(
+  "/:id",
+  requirePermission("budgets:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.getBudget(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /:id - Rename or change the alert tolerance
+router.patch(
+  "/:id",
+  requirePermission("budgets:manage"),
+  validate({ params: idParamSchema, body: updateBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.updateBudget(req.context!.tenantId!, req.params.id, req.body);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /:id - Delete a draft
+router.delete(
+  "/:id",
+  requirePermission("budgets:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      await budgetService.deleteBudget(req.context!.tenantId!, req.params.id);
+      res.json({ message: "Bütçe silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+// PUT /:id/lines - Replace the lines of a draft
+router.put(
+  "/:id/lines",
+  requirePermission("budgets:manage"),
+  validate({ params: idParamSchema, body: linesBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.setLines(req.context!.tenantId!, req.params.id, req.body.lines);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/import - Replace the lines of a draft from an Excel file
+router.post(
+  "/:id/import",
+  requirePermission("budgets:manage"),
+  validate({ params: idParamSchema }),
+  uploadWorkbook.single("file"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          error: {
+            message: "Lütfen bir Excel dosyası seçin.",
+          },
+        });
+      }
+
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.importLines(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.file.buffer
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id/export - The budget in the import layout (empty budget = template)
+router.get(
+  "/:id/export",
+  requirePermission("budgets:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const { fileName, buffer } = await budgetService.exportWorkbook(req.context!.tenantId!, req.params.id);
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Content-Length", buffer.length.toString());
+      res.send(buffer);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/approve - Make a draft the budget of record
+router.post(
+  "/:id/approve",
+  requirePermission("budgets:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.approve(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/revise - Copy the approved budget into a new draft version
+router.post(
+  "/:id/revise",
+  requirePermission("budgets:manage"),
+  validate({ params: idParamSchema, body: reviseBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const result = await budgetService.revise(req.context!.tenantId!, req.context!.user.id, req.params.id, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id/variance - Budget vs actual for a month and the year to date
+router.get(
+  "/:id/variance",
+  requirePermission("budgets:view"),
+  validate({ params: idParamSchema, query: varianceQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { budgetService } = await import("../services/budget-service");
+      const query = req.query as unknown as z.infer<typeof varianceQuery>;
+      const result = await budgetService.getVariance(req.context!.tenantId!, req.params.id, query.month, {
+        dimensionValueId: query.dimensionValueId,
+      });
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
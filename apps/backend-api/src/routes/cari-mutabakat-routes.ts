@@ -0,0 +1,204 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, baseListQuerySchema, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Tarih formatı: YYYY-MM-DD");
+
+const counterpartiesQuery = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  asOfDate: dateString,
+});
+
+const statementQuery = counterpartiesQuery.extend({
+  counterpartyTaxNumber: z.string().min(1, "VKN/TCKN gerekli"),
+});
+
+const listQuery = baseListQuerySchema.extend({
+  status: z.enum(["pending", "confirmed", "disputed", "cancelled"]).optional(),
+});
+
+const createBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  counterpartyTaxNumber: z.string().min(1, "VKN/TCKN gerekli"),
+  email: z.string().email("Geçerli bir e-posta adresi giriniz."),
+  asOfDate: dateString,
+});
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+// GET /counterparties - Cari balances of a client company with their last mutabakat
+router.get(
+  "/counterparties",
+  requirePermission("cari_mutabakat:view"),
+  validate({ query: counterpartiesQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.listCounterparties(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        new Date(req.query.asOfDate as string)
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /statement - Cari hesap ekstresi of one counterparty
+router.get(
+  "/statement",
+  requirePermission("cari_mutabakat:view"),
+  validate({ query: statementQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.getStatement(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        req.query.counterpartyTaxNumber as string,
+        new Date(req.query.asOfDate as string)
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /statement/pdf - Ekstre as PDF
+router.get(
+  "/statement/pdf",
+  requirePermission("cari_mutabakat:view"),
+  validate({ query: statementQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const { fileName, content } = await cariMutabakatService.getStatementPdf(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        req.query.counterpartyTaxNumber as string,
+        new Date(req.query.asOfDate as string)
+      );
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Content-Length", content.length.toString());
+      res.send(content);
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /summary - Reconciliation status per client company
+router.get(
+  "/summary",
+  requirePermission("cari_mutabakat:view"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.getSummary(req.context!.tenantId!);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /reminders - Remind counterparties that have not answered for a week
+router.post(
+  "/reminders",
+  requirePermission("cari_mutabakat:manage"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.sendDueReminders(req.context!.tenantId!);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET / - List mutabakat requests
+router.get(
+  "/",
+  requirePermission("cari_mutabakat:view"),
+  validate({ query: listQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.list(req.context!.tenantId!, {
+        clientCompanyId: req.query.clientCompanyId as string,
+        status: req.query.status as string,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        pageSize: req.query.pageSize ? parseInt(req.query.pageSize as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST / - Send a mutabakat request to a counterparty
+router.post(
+  "/",
+  requirePermission("cari_mutabakat:manage"),
+  validate({ body: createBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.createRequest(req.context!.tenantId!, req.context!.user.id, {
+        ...req.body,
+        asOfDate: new Date(req.body.asOfDate),
+      });
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id - Get a mutabakat request
+router.get(
+  "/:id",
+  requirePermission("cari_mutabakat:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.getById(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/remind - Send a reminder now
+router.post(
+  "/:id/remind",
+  requirePermission("cari_mutabakat:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.sendReminder(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/cancel - Withdraw an unanswered request
+router.post(
+  "/:id/cancel",
+  requirePermission("cari_mutabakat:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.cancel(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
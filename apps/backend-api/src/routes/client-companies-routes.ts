@@ -38,6 +38,9 @@ const createBankAccountSchema = z.object({
   accountNumber: z.string().max(100, "Hesap numarası en fazla 100 karakter olabilir.").optional().nullable(),
   currency: z.string().max(10, "Para birimi en fazla 10 karakter olabilir.").default("TRY"),
   isPrimary: z.boolean().optional(),
+  ledgerAccountCode: z.string().max(50, "Hesap kodu en fazla 50 karakter olabilir.").optional().nullable(),
+  currencyBalance: z.number().optional().nullable(),
+  balanceDate: z.coerce.date().optional().nullable(),
 });
 
 const updateBankAccountSchema = createBankAccountSchema.partial();
@@ -0,0 +1,388 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, baseListQuerySchema, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+import { ValidationError } from "@repo/shared-utils";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Tarih formatı: YYYY-MM-DD");
+const counterpartyType = z.enum(["customer", "supplier", "both"]);
+
+const listQuery = baseListQuerySchema.extend({
+  clientCompanyId: z.string().optional(),
+  type: counterpartyType.optional(),
+  search: z.string().optional(),
+  isActive: z.enum(["true", "false"]).optional(),
+});
+
+const addressSchema = z.object({
+  label: z.string().max(100).optional().nullable(),
+  address: z.string().min(1, "Adres gerekli").max(1000),
+  district: z.string().max(100).optional().nullable(),
+  city: z.string().max(100).optional().nullable(),
+  postalCode: z.string().max(20).optional().nullable(),
+  country: z.string().max(100).optional().nullable(),
+});
+
+const counterpartyFields = {
+  name: z.string().min(1, "Cari adı gerekli").max(255),
+  taxNumber: z.string().max(20).optional().nullable(),
+  taxOffice: z.string().max(255).optional().nullable(),
+  type: counterpartyType.optional(),
+  email: z.string().email("Geçerli bir e-posta adresi giriniz.").optional().nullable(),
+  phone: z.string().max(50).optional().nullable(),
+  addresses: z.array(addressSchema).max(10).optional(),
+  ibans: z.array(z.string().max(42)).max(10).optional(),
+  aliases: z.array(z.string().max(255)).max(20).optional(),
+  paymentTermDays: z.number().int().min(0).max(720).optional().nullable(),
+  receivableAccountCode: z.string().max(50).optional().nullable(),
+  payableAccountCode: z.string().max(50).optional().nullable(),
+  createLedgerAccounts: z.boolean().optional(),
+};
+
+const createBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  ...counterpartyFields,
+});
+
+const updateBody = z.object(counterpartyFields).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const syncBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+});
+
+const agingQuery = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  side: z.enum(["receivable", "payable"]),
+  asOfDate: dateString,
+  periodDays: z.coerce.number().int().min(7).max(365).optional(),
+});
+
+const metricsQuery = agingQuery.omit({ side: true });
+
+const statementQuery = z.object({
+  asOfDate: dateString,
+});
+
+const openItemsQuery = z.object({
+  type: z.enum(["SATIŞ", "ALIŞ"]).optional(),
+});
+
+const paymentListQuery = baseListQuerySchema.extend({
+  clientCompanyId: z.string().optional(),
+  counterpartyId: z.string().optional(),
+  direction: z.enum(["TAHSILAT", "ODEME"]).optional(),
+});
+
+const allocationSchema = z.object({
+  invoiceId: z.string().min(1),
+  amount: z.number().positive("Tutar sıfırdan büyük olmalıdır."),
+});
+
+const paymentBody = z.object({
+  counterpartyId: z.string().min(1, "Cari hesap ID gerekli"),
+  direction: z.enum(["TAHSILAT", "ODEME"]),
+  date: dateString,
+  amount: z.number().positive("Tutar sıfırdan büyük olmalıdır."),
+  currency: z.string().length(3).optional(),
+  method: z.enum(["nakit", "havale", "cek", "senet", "kredi_karti", "mahsup"]),
+  reference: z.string().max(255).optional().nullable(),
+  description: z.string().max(2000).optional().nullable(),
+  allocations: z.array(allocationSchema).optional(),
+  autoAllocate: z.boolean().optional(),
+});
+
+const allocateBody = z.object({
+  allocations: z.array(allocationSchema).optional(),
+});
+
+// ─── Cari kartlar ────────────────────────────────────────────────────
+
+// GET / - List cari kartlar
+router.get(
+  "/",
+  requirePermission("counterparties:view"),
+  validate({ query: listQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { counterpartyService } = await import("../services/counterparty-service");
+      const result = await counterpartyService.list(req.context!.tenantId!, {
+        clientCompanyId: req.query.clientCompanyId as string | undefined,
+        type: req.query.type as any,
+        search: req.query.search as string | undefined,
+        isActive: req.query.isActive === undefined ? undefined : req.query.isActive === "true",
+        page: req.query.page ? Number(req.query.page) : undefined,
+        pageSize: req.query.pageSize ? Number(req.query.pageSize) : undefined,
+      });
+      res.json(result);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST / - Create a cari kart
+router.post(
+  "/",
+  requirePermission("counterparties:manage"),
+  validate({ body: createBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { counterpartyService } = await import("../services/counterparty-service");
+      const result = await counterpartyService.create(req.context!.tenantId!, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /sync - Open cari kartlar from invoices and link them
+router.post(
+  "/sync",
+  requirePermission("counterparties:manage"),
+  validate({ body: syncBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { counterpartyService } = await import("../services/counterparty-service");
+      const result = await counterpartyService.syncFromInvoices(req.context!.tenantId!, req.body.clientCompanyId);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Reports ─────────────────────────────────────────────────────────
+
+// GET /aging - Alacak / borç yaşlandırma
+router.get(
+  "/aging",
+  requirePermission("counterparties:view"),
+  validate({ query: agingQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      const result = await openItemService.getAgingReport(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        req.query.side as "receivable" | "payable",
+        new Date(req.query.asOfDate as string),
+        req.query.periodDays ? Number(req.query.periodDays) : undefined
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /metrics - DSO / DPO
+router.get(
+  "/metrics",
+  requirePermission("counterparties:view"),
+  validate({ query: metricsQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      const result = await openItemService.getTurnoverMetrics(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        new Date(req.query.asOfDate as string),
+        req.query.periodDays ? Number(req.query.periodDays) : undefined
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Tahsilat / ödeme ────────────────────────────────────────────────
+
+// GET /payments - List collections and payments
+router.get(
+  "/payments",
+  requirePermission("counterparties:view"),
+  validate({ query: paymentListQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      const result = await openItemService.listPayments(req.context!.tenantId!, {
+        clientCompanyId: req.query.clientCompanyId as string | undefined,
+        counterpartyId: req.query.counterpartyId as string | undefined,
+        direction: req.query.direction as any,
+        page: req.query.page ? Number(req.query.page) : undefined,
+        pageSize: req.query.pageSize ? Number(req.query.pageSize) : undefined,
+      });
+      res.json(result);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /payments - Record a collection or payment and close open invoices
+router.post(
+  "/payments",
+  requirePermission("counterparties:manage"),
+  validate({ body: paymentBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      const result = await openItemService.recordPayment(req.context!.tenantId!, req.context!.user.id, {
+        ...req.body,
+        date: new Date(req.body.date),
+      });
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /payments/:id/allocate - Close the unallocated part against invoices
+router.post(
+  "/payments/:id/allocate",
+  requirePermission("counterparties:manage"),
+  validate({ params: idParamSchema, body: allocateBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      const result = await openItemService.allocatePayment(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body.allocations
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /payments/:id/unallocate - Reopen the invoices
+router.post(
+  "/payments/:id/unallocate",
+  requirePermission("counterparties:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      const result = await openItemService.unallocatePayment(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /payments/:id - Delete a payment
+router.delete(
+  "/payments/:id",
+  requirePermission("counterparties:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      await openItemService.deletePayment(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ message: "Tahsilat/ödeme kaydı silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Single cari kart ────────────────────────────────────────────────
+
+// GET /:id - Get a cari kart
+router.get(
+  "/:id",
+  requirePermission("counterparties:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { counterpartyService } = await import("../services/counterparty-service");
+      const result = await counterpartyService.getById(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /:id - Update a cari kart
+router.patch(
+  "/:id",
+  requirePermission("counterparties:manage"),
+  validate({ params: idParamSchema, body: updateBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { counterpartyService } = await import("../services/counterparty-service");
+      const result = await counterpartyService.update(req.context!.tenantId!, req.params.id, req.body);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id/open-items - Open invoices of the cari hesap
+router.get(
+  "/:id/open-items",
+  requirePermission("counterparties:view"),
+  validate({ params: idParamSchema, query: openItemsQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { openItemService } = await import("../services/open-item-service");
+      const result = await openItemService.getOpenItems(
+        req.context!.tenantId!,
+        req.params.id,
+        req.query.type as string | undefined
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id/statement - Cari hesap ekstresi
+router.get(
+  "/:id/statement",
+  requirePermission("counterparties:view"),
+  validate({ params: idParamSchema, query: statementQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { counterpartyService } = await import("../services/counterparty-service");
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const counterparty = await counterpartyService.getById(req.context!.tenantId!, req.params.id);
+      if (!counterparty.taxNumber) {
+        throw new ValidationError("Ekstre için cari hesabın VKN/TCKN bilgisi gerekli.");
+      }
+      const result = await cariMutabakatService.getStatement(
+        req.context!.tenantId!,
+        counterparty.clientCompanyId,
+        counterparty.taxNumber,
+        new Date(req.query.asOfDate as string)
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id/statement/pdf - Ekstre as PDF
+router.get(
+  "/:id/statement/pdf",
+  requirePermission("counterparties:view"),
+  validate({ params: idParamSchema, query: statementQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { counterpartyService } = await import("../services/counterparty-service");
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const counterparty = await counterpartyService.getById(req.context!.tenantId!, req.params.id);
+      if (!counterparty.taxNumber) {
+        throw new ValidationError("Ekstre için cari hesabın VKN/TCKN bilgisi gerekli.");
+      }
+      const { fileName, content } = await cariMutabakatService.getStatementPdf(
+        req.context!.tenantId!,
+        counterparty.clientCompanyId,
+        counterparty.taxNumber,
+        new Date(req.query.asOfDate as string)
+      );
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Content-Length", content.length.toString());
+      res.send(content);
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
@@ -0,0 +1,351 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const periodString = z.string().regex(/^\d{4}-\d{2}$/, "Dönem formatı: YYYY-MM");
+const clientCompanyId = z.string().min(1, "Müşteri şirket ID gerekli");
+const dimensionType = z.enum(["cost_center", "project", "branch", "tag"]);
+
+const listQuery = z.object({
+  includeInactive: z.enum(["true", "false"]).optional(),
+});
+
+const createDimensionBody = z.object({
+  code: z.string().min(1, "Boyut kodu gerekli").max(30),
+  name: z.string().min(1, "Boyut adı gerekli").max(255),
+  type: dimensionType.optional(),
+  allowMultiple: z.boolean().optional(),
+});
+
+const updateDimensionBody = z.object({
+  name: z.string().min(1).max(255).optional(),
+  type: dimensionType.optional(),
+  allowMultiple: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const createValueBody = z.object({
+  code: z.string().min(1, "Değer kodu gerekli").max(50),
+  name: z.string().min(1, "Değer adı gerekli").max(255),
+});
+
+const updateValueBody = z.object({
+  name: z.string().min(1).max(255).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const defaultsQuery = z.object({
+  clientCompanyId: z.string().optional(),
+  counterpartyId: z.string().optional(),
+  ledgerAccountId: z.string().optional(),
+});
+
+const defaultBody = z.object({
+  dimensionValueId: z.string().min(1, "Boyut değeri gerekli"),
+  counterpartyId: z.string().optional().nullable(),
+  ledgerAccountId: z.string().optional().nullable(),
+});
+
+const applyDefaultsBody = z.object({ clientCompanyId });
+
+const clientCompanyQuery = z.object({ clientCompanyId });
+
+const targetsSchema = z
+  .array(
+    z.object({
+      dimensionValueId: z.string().min(1),
+      percentage: z.number().positive("Dağıtım oranı sıfırdan büyük olmalıdır.").max(100),
+    })
+  )
+  .min(1, "En az bir dağıtım hedefi gerekli.")
+  .max(100);
+
+const createRuleBody = z.object({
+  clientCompanyId,
+  name: z.string().min(1, "Kural adı gerekli").max(255),
+  sourceAccountCode: z.string().min(1, "Dağıtılacak hesap gerekli").max(50),
+  dimensionId: z.string().min(1, "Boyut gerekli"),
+  targets: targetsSchema,
+});
+
+const updateRuleBody = z.object({
+  name: z.string().min(1).max(255).optional(),
+  isActive: z.boolean().optional(),
+  targets: targetsSchema.optional(),
+});
+
+const rulePeriodParams = z.object({ id: z.string().min(1), period: periodString });
+
+// ─── Boyutlar ────────────────────────────────────────────────────────
+
+// GET / - Dimensions with their values
+router.get(
+  "/",
+  requirePermission("dimensions:view"),
+  validate({ query: listQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.listDimensions(req.context!.tenantId!, {
+        includeInactive: req.query.includeInactive === "true",
+      });
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST / - Create a dimension (masraf merkezi, proje, şube, etiket)
+router.post(
+  "/",
+  requirePermission("dimensions:manage"),
+  validate({ body: createDimensionBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.createDimension(req.context!.tenantId!, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Varsayılanlar ───────────────────────────────────────────────────
+
+// GET /defaults - Defaults on cari kartlar and ledger accounts
+router.get(
+  "/defaults",
+  requirePermission("dimensions:view"),
+  validate({ query: defaultsQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.listDefaults(req.context!.tenantId!, {
+        clientCompanyId: req.query.clientCompanyId as string | undefined,
+        counterpartyId: req.query.counterpartyId as string | undefined,
+        ledgerAccountId: req.query.ledgerAccountId as string | undefined,
+      });
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /defaults - Set a default value for a cari kart or an account
+router.post(
+  "/defaults",
+  requirePermission("dimensions:manage"),
+  validate({ body: defaultBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.setDefault(req.context!.tenantId!, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /defaults/apply - Give existing invoice lines their cari kart defaults
+router.post(
+  "/defaults/apply",
+  requirePermission("dimensions:manage"),
+  validate({ body: applyDefaultsBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.applyDefaultsToCompany(req.context!.tenantId!, req.body.clientCompanyId);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /defaults/:id
+router.delete(
+  "/defaults/:id",
+  requirePermission("dimensions:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      await dimensionService.deleteDefault(req.context!.tenantId!, req.params.id);
+      res.json({ message: "Varsayılan boyut değeri silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Dağıtım kuralları ───────────────────────────────────────────────
+
+// GET /allocation-rules?clientCompanyId=
+router.get(
+  "/allocation-rules",
+  requirePermission("dimensions:view"),
+  validate({ query: clientCompanyQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      const result = await costAllocationService.listRules(req.context!.tenantId!, req.query.clientCompanyId as string);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /allocation-rules
+router.post(
+  "/allocation-rules",
+  requirePermission("dimensions:manage"),
+  validate({ body: createRuleBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      const result = await costAllocationService.createRule(req.context!.tenantId!, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /allocation-rules/:id - Rule with its past runs
+router.get(
+  "/allocation-rules/:id",
+  requirePermission("dimensions:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      const [rule, runs] = await Promise.all([
+        costAllocationService.getRule(req.context!.tenantId!, req.params.id),
+        costAllocationService.listRuns(req.context!.tenantId!, req.params.id),
+      ]);
+      res.json({ data: { ...rule, runs } });
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /allocation-rules/:id
+router.patch(
+  "/allocation-rules/:id",
+  requirePermission("dimensions:manage"),
+  validate({ params: idParamSchema, body: updateRuleBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      const result = await costAllocationService.updateRule(req.context!.tenantId!, req.params.id, req.body);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /allocation-rules/:id
+router.delete(
+  "/allocation-rules/:id",
+  requirePermission("dimensions:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      await costAllocationService.deleteRule(req.context!.tenantId!, req.params.id);
+      res.json({ message: "Dağıtım kuralı silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /allocation-rules/:id/periods/:period - What the month's run would post
+router.get(
+  "/allocation-rules/:id/periods/:period",
+  requirePermission("dimensions:view"),
+  validate({ params: rulePeriodParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      const result = await costAllocationService.preview(req.context!.tenantId!, req.params.id, req.params.period);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /allocation-rules/:id/periods/:period/run - Post the allocation
+router.post(
+  "/allocation-rules/:id/periods/:period/run",
+  requirePermission("dimensions:manage"),
+  validate({ params: rulePeriodParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      const result = await costAllocationService.run(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.params.period
+      );
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /allocation-rules/:id/periods/:period - Reverse the month's allocation
+router.delete(
+  "/allocation-rules/:id/periods/:period",
+  requirePermission("dimensions:manage"),
+  validate({ params: rulePeriodParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { costAllocationService } = await import("../services/cost-allocation-service");
+      await costAllocationService.undo(req.context!.tenantId!, req.context!.user.id, req.params.id, req.params.period);
+      res.json({ message: "Gider dağıtımı geri alındı." });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Boyut ve değerler ───────────────────────────────────────────────
+
+// PATCH /values/:id - Rename or deactivate a value
+router.patch(
+  "/values/:id",
+  requirePermission("dimensions:manage"),
+  validate({ params: idParamSchema, body: updateValueBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.updateValue(req.context!.tenantId!, req.params.id, req.body);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /:id
+router.patch(
+  "/:id",
+  requirePermission("dimensions:manage"),
+  validate({ params: idParamSchema, body: updateDimensionBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.updateDimension(req.context!.tenantId!, req.params.id, req.body);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/values - Add a value (e.g. a masraf merkezi)
+router.post(
+  "/:id/values",
+  requirePermission("dimensions:manage"),
+  validate({ params: idParamSchema, body: createValueBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { dimensionService } = await import("../services/dimension-service");
+      const result = await dimensionService.createValue(req.context!.tenantId!, req.params.id, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
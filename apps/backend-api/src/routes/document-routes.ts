@@ -53,6 +53,21 @@ const uploadZip = multer({
   },
 });
 
+// Configure multer for bank statement files (MT940, camt.053, Excel)
+const uploadStatement = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: storageConfig.maxFileSize,
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(sta|mt940|940|txt|xml|xls|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Ekstre dosyası bekleniyor. İzin verilen uzantılar: .sta, .mt940, .txt, .xml, .xls, .xlsx"));
+    }
+  },
+});
+
 // POST /api/v1/documents/upload
 router.post(
   "/upload",
@@ -117,6 +132,46 @@ router.post(
   }
 );
 
+// POST /api/v1/documents/upload-bank-statement - MT940 / camt.053 / Excel hesap ekstresi
+router.post(
+  "/upload-bank-statement",
+  requirePermission("bank_reconciliation:manage"),
+  uploadStatement.single("file"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          error: {
+            message: "Lütfen bir ekstre dosyası seçin.",
+          },
+        });
+      }
+
+      const schema = z.object({
+        clientCompanyId: z.string().min(1, "Müşteri şirketi gerekli."),
+        bankAccountId: z.string().optional().nullable(),
+      });
+
+      const body = schema.parse(req.body);
+
+      const { bankStatementImportService } = await import("../services/bank-statement-import-service");
+      const result = await bankStatementImportService.importFile(req.context!.tenantId!, req.context!.user.id, {
+        clientCompanyId: body.clientCompanyId,
+        bankAccountId: body.bankAccountId || null,
+        fileName: req.file.originalname,
+        buffer: req.file.buffer,
+      });
+
+      res.status(201).json({ data: result });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return next(new ValidationError(error.issues[0]?.message || "Geçersiz bilgiler."));
+      }
+      next(error);
+    }
+  }
+);
+
 // POST /api/v1/documents/upload-batch
 router.post(
   "/upload-batch",
@@ -437,6 +492,24 @@ router.get(
   }
 );
 
+// GET /api/v1/documents/:id/preview - e-Fatura / e-Arşiv XML içindeki PDF veya XSLT
+router.get(
+  "/:id/preview",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eInvoiceDocumentService } = await import("../services/e-invoice-document-service");
+      const preview = await eInvoiceDocumentService.getPreview(req.context!.tenantId!, req.params.id);
+
+      res.setHeader("Content-Type", preview.mimeType);
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(preview.fileName)}"`);
+      res.send(preview.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // POST /api/v1/documents/:id/retry
 router.post(
   "/:id/retry",
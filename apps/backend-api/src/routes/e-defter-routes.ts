@@ -1,6 +1,7 @@
 import { Router, type Router as ExpressRouter } from "express";
 import type { NextFunction, Response } from "express";
 import { z } from "zod";
+import { logger } from "@repo/shared-utils";
 import { eDefterService } from "../services/e-defter-service";
 import { authMiddleware } from "../middleware/auth-middleware";
 import { tenantMiddleware } from "../middleware/tenant-middleware";
@@ -84,6 +85,56 @@ router.post(
   }
 );
 
+// List the XBRL-GL yevmiye / kebir parts and berat drafts of a ledger
+router.get(
+  "/:clientCompanyId/:ledgerId/files",
+  requirePermission("invoices:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await eDefterService.listLedgerFiles(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        req.params.ledgerId
+      );
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Download a single e-Defter file
+router.get(
+  "/:clientCompanyId/:ledgerId/files/:fileId/download",
+  requirePermission("invoices:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { file, stream } = await eDefterService.getLedgerFileStream(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        req.params.ledgerId,
+        req.params.fileId
+      );
+
+      res.setHeader("Content-Type", "application/xml");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(file.fileName)}"`);
+
+      stream.on("error", (error) => {
+        logger.error("Stream error:", { error });
+        if (!res.headersSent) {
+          next(error);
+        }
+      });
+
+      stream.pipe(res);
+    } catch (error) {
+      if (!res.headersSent) {
+        next(error);
+      }
+    }
+  }
+);
+
 // Get ledger by ID
 router.get(
   "/:clientCompanyId/:ledgerId",
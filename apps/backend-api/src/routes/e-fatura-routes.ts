@@ -2,6 +2,7 @@ import { Router, type Router as ExpressRouter } from "express";
 import type { NextFunction, Response } from "express";
 import { z } from "zod";
 import { eFaturaService } from "../services/e-fatura-service";
+import { approvalService } from "../services/approval-service";
 import { gibComplianceService } from "../services/gib-compliance-service";
 import { qrCodeService } from "../services/qr-code-service";
 import { authMiddleware } from "../middleware/auth-middleware";
@@ -58,10 +59,13 @@ router.post(
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const body = submitInvoiceSchema.parse(req.body);
-      const result = await eFaturaService.submitInvoice(
+      const result = await approvalService.withApproval(
         req.context!.tenantId!,
+        req.context!.user.id,
+        "efatura_submit",
         body.invoiceId,
-        body.config || {}
+        () => eFaturaService.submitInvoice(req.context!.tenantId!, body.invoiceId, body.config || {}),
+        (submission) => submission.success
       );
       res.json({ data: result });
     } catch (error: any) {
@@ -102,7 +106,7 @@ router.post(
   requirePermission("invoices:manage"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const retryCount = await eFaturaService.retryFailedSubmissions(req.context!.tenantId!);
+      const retryCount = await eFaturaService.retryFailedSubmissions(req.context!.tenantId!, req.context!.user.id);
       res.json({
         data: {
           retryCount,
@@ -0,0 +1,209 @@
+import { Router, type Router as ExpressRouter } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, baseListQuerySchema, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+});
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Tarih formatı: YYYY-MM-DD");
+
+const listQuery = baseListQuerySchema.extend({
+  clientCompanyId: z.string().optional(),
+  direction: z.enum(["outgoing", "incoming"]).optional(),
+  status: z.enum(["draft", "issued", "received"]).optional(),
+});
+
+const createBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  invoiceId: z.string().optional().nullable(),
+  counterpartyId: z.string().optional().nullable(),
+  counterpartyName: z.string().max(255).optional().nullable(),
+  counterpartyTaxNumber: z.string().max(20).optional().nullable(),
+  series: z.string().length(3, "İrsaliye serisi 3 karakter olmalıdır.").optional(),
+  issueDate: dateString,
+  despatchDate: dateString.optional().nullable(),
+  deliveryAddress: z.string().max(1000).optional().nullable(),
+  carrierName: z.string().max(255).optional().nullable(),
+  carrierTaxNumber: z.string().max(20).optional().nullable(),
+  driverName: z.string().max(255).optional().nullable(),
+  driverTckn: z.string().max(20).optional().nullable(),
+  vehiclePlate: z.string().max(20).optional().nullable(),
+  warehouseId: z.string().optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        itemId: z.string().optional().nullable(),
+        description: z.string().max(500).optional().nullable(),
+        quantity: z.number().positive("Miktar sıfırdan büyük olmalıdır."),
+        unit: z.string().max(10).optional().nullable(),
+      })
+    )
+    .max(1000)
+    .optional(),
+});
+
+const receiveBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+});
+
+const linkInvoiceBody = z.object({
+  invoiceId: z.string().min(1).nullable(),
+});
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+// GET / - List irsaliyeler
+router.get(
+  "/",
+  requirePermission("stock:view"),
+  validate({ query: listQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      const result = await eIrsaliyeService.list(req.context!.tenantId!, {
+        clientCompanyId: req.query.clientCompanyId as string | undefined,
+        direction: req.query.direction as any,
+        status: req.query.status as any,
+        page: req.query.page ? Number(req.query.page) : undefined,
+        pageSize: req.query.pageSize ? Number(req.query.pageSize) : undefined,
+      });
+      res.json(result);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST / - Draft an outgoing irsaliye, from a sales invoice or from lines
+router.post(
+  "/",
+  requirePermission("stock:manage"),
+  validate({ body: createBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      const result = await eIrsaliyeService.createOutgoing(req.context!.tenantId!, req.context!.user.id, {
+        ...req.body,
+        issueDate: new Date(req.body.issueDate),
+        despatchDate: req.body.despatchDate ? new Date(req.body.despatchDate) : null,
+      });
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /receive - Upload a received e-İrsaliye XML (multipart "file")
+router.post(
+  "/receive",
+  requirePermission("stock:manage"),
+  upload.single("file"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          error: {
+            message: "Lütfen bir e-İrsaliye XML dosyası seçin.",
+          },
+        });
+      }
+
+      const body = receiveBody.parse(req.body);
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      const result = await eIrsaliyeService.receive(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        body.clientCompanyId,
+        req.file.buffer
+      );
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id - Irsaliye with lines
+router.get(
+  "/:id",
+  requirePermission("stock:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      const result = await eIrsaliyeService.getById(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/issue - Validate and freeze the UBL-TR document
+router.post(
+  "/:id/issue",
+  requirePermission("stock:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      const result = await eIrsaliyeService.issue(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id/xml - Download the UBL-TR XML
+router.get(
+  "/:id/xml",
+  requirePermission("stock:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      const { fileName, xml } = await eIrsaliyeService.getXml(req.context!.tenantId!, req.params.id);
+      res.setHeader("Content-Type", "application/xml; charset=UTF-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(fileName)}"`);
+      res.send(xml);
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /:id/invoice - Link the invoice that bills the shipment
+router.patch(
+  "/:id/invoice",
+  requirePermission("stock:manage"),
+  validate({ params: idParamSchema, body: linkInvoiceBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      const result = await eIrsaliyeService.linkInvoice(req.context!.tenantId!, req.params.id, req.body.invoiceId);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /:id - Delete a draft or received irsaliye
+router.delete(
+  "/:id",
+  requirePermission("stock:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { eIrsaliyeService } = await import("../services/e-irsaliye-service");
+      await eIrsaliyeService.delete(req.context!.tenantId!, req.params.id);
+      res.json({ message: "İrsaliye silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
@@ -0,0 +1,277 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { z } from "zod";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────
+
+const dateString = z.string().refine((value) => !isNaN(Date.parse(value)), "Geçerli bir tarih giriniz.");
+const accountCode = z.string().regex(/^\d{3}(\.\w+)*$/, "Geçersiz hesap kodu");
+const depreciationMethod = z.enum(["normal", "azalan_bakiyeler"]);
+
+const listAssetsQuery = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  status: z.enum(["active", "fully_depreciated", "disposed"]).optional(),
+});
+
+const registerQuery = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  fiscalYear: z.coerce.number().int().min(2000, "Geçersiz mali yıl").max(2100, "Geçersiz mali yıl"),
+});
+
+const exportRegisterQuery = registerQuery.extend({
+  format: z.enum(["pdf", "excel"]),
+});
+
+const createAssetBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  assetCode: z.string().min(1, "Demirbaş numarası gerekli").max(50),
+  name: z.string().min(1, "Demirbaş adı gerekli").max(255),
+  categoryCode: z.string().optional(),
+  accountCode: accountCode.optional(),
+  expenseAccountCode: accountCode.optional(),
+  acquisitionDate: dateString,
+  acquisitionCost: z.number().positive("Maliyet bedeli sıfırdan büyük olmalıdır."),
+  usefulLifeYears: z.number().int().min(1).max(50).optional(),
+  depreciationMethod: depreciationMethod.optional(),
+  prorateFirstYear: z.boolean().optional(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+const updateAssetBody = z.object({
+  name: z.string().min(1).max(255).optional(),
+  expenseAccountCode: accountCode.optional(),
+  notes: z.string().max(2000).optional().nullable(),
+  accountCode: accountCode.optional(),
+  acquisitionDate: dateString.optional(),
+  acquisitionCost: z.number().positive().optional(),
+  usefulLifeYears: z.number().int().min(1).max(50).optional(),
+  depreciationMethod: depreciationMethod.optional(),
+  prorateFirstYear: z.boolean().optional(),
+});
+
+const depreciationRunBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  period: z.string().regex(/^\d{4}(-\d{2})?$/, "Dönem formatı: YYYY-MM veya YYYY"),
+});
+
+const disposeAssetBody = z.object({
+  disposalDate: dateString,
+  ratio: z.number().gt(0).max(1).optional(),
+  proceeds: z.number().nonnegative().optional(),
+  proceedsAccountCode: accountCode.optional(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Routes ──────────────────────────────────────────────────────────────
+
+// GET /api/v1/fixed-assets?clientCompanyId=... - Asset register of a company
+router.get(
+  "/",
+  requirePermission("fixed_assets:view"),
+  validate({ query: listAssetsQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const query = req.query as unknown as z.infer<typeof listAssetsQuery>;
+      const assets = await fixedAssetService.listAssets(req.context!.tenantId!, query.clientCompanyId, {
+        status: query.status,
+      });
+      res.json({ data: assets });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/fixed-assets/categories - VUK amortisman listesi items with useful lives
+router.get(
+  "/categories",
+  requirePermission("fixed_assets:view"),
+  async (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { VUK_AMORTISMAN_LISTESI } = await import("../services/turkish-accounting-knowledge");
+      res.json({ data: VUK_AMORTISMAN_LISTESI });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/fixed-assets/register?clientCompanyId=...&fiscalYear=2026 - Demirbaş ve amortisman listesi
+router.get(
+  "/register",
+  requirePermission("fixed_assets:view"),
+  validate({ query: registerQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const query = req.query as unknown as z.infer<typeof registerQuery>;
+      const report = await fixedAssetService.getRegisterReport(
+        req.context!.tenantId!,
+        query.clientCompanyId,
+        query.fiscalYear
+      );
+      res.json({ data: report });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/fixed-assets/register/export?clientCompanyId=...&fiscalYear=2026&format=pdf - Register as PDF / Excel
+router.get(
+  "/register/export",
+  requirePermission("fixed_assets:view"),
+  validate({ query: exportRegisterQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const { exportService } = await import("../services/export-service");
+      const query = req.query as unknown as z.infer<typeof exportRegisterQuery>;
+      const report = await fixedAssetService.getRegisterReport(
+        req.context!.tenantId!,
+        query.clientCompanyId,
+        query.fiscalYear
+      );
+
+      const buffer =
+        query.format === "pdf" ? await exportService.exportToPdf(report) : await exportService.exportToExcel(report);
+      const contentType =
+        query.format === "pdf"
+          ? "application/pdf"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+      const filename = `demirbas_listesi_${query.fiscalYear}.${query.format === "pdf" ? "pdf" : "xlsx"}`;
+
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Length", buffer.length.toString());
+      res.send(buffer);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/fixed-assets/depreciation-runs - Post depreciation for a month (YYYY-MM) or year (YYYY)
+router.post(
+  "/depreciation-runs",
+  requirePermission("fixed_assets:manage"),
+  validate({ body: depreciationRunBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const result = await fixedAssetService.runDepreciation(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.body.clientCompanyId,
+        req.body.period
+      );
+      res.status(201).json({ data: result });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/fixed-assets/:id - Asset with its depreciation schedule
+router.get(
+  "/:id",
+  requirePermission("fixed_assets:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const asset = await fixedAssetService.getAsset(req.context!.tenantId!, req.params.id);
+      res.json({ data: asset });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/fixed-assets - Register an asset
+router.post(
+  "/",
+  requirePermission("fixed_assets:manage"),
+  validate({ body: createAssetBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const asset = await fixedAssetService.createAsset(req.context!.tenantId!, {
+        ...req.body,
+        acquisitionDate: new Date(req.body.acquisitionDate),
+      });
+      res.status(201).json({ data: asset });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/v1/fixed-assets/:id - Update an asset
+router.patch(
+  "/:id",
+  requirePermission("fixed_assets:manage"),
+  validate({ params: idParamSchema, body: updateAssetBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const asset = await fixedAssetService.updateAsset(req.context!.tenantId!, req.params.id, {
+        ...req.body,
+        acquisitionDate: req.body.acquisitionDate ? new Date(req.body.acquisitionDate) : undefined,
+      });
+      res.json({ data: asset });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/v1/fixed-assets/:id - Delete an asset without postings
+router.delete(
+  "/:id",
+  requirePermission("fixed_assets:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      await fixedAssetService.deleteAsset(req.context!.tenantId!, req.params.id);
+      res.json({ data: { message: "Demirbaş silindi." } });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/fixed-assets/:id/dispose - Sell or scrap all or part of an asset
+router.post(
+  "/:id/dispose",
+  requirePermission("fixed_assets:manage"),
+  validate({ params: idParamSchema, body: disposeAssetBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fixedAssetService } = await import("../services/fixed-asset-service");
+      const disposal = await fixedAssetService.disposeAsset(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        { ...req.body, disposalDate: new Date(req.body.disposalDate) }
+      );
+      res.status(201).json({ data: disposal });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+export default router;
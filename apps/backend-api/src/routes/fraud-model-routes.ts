@@ -0,0 +1,70 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+// GET / - Model registry of the tenant, newest version first
+router.get(
+  "/",
+  requirePermission("risk:view"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fraudModelService } = await import("../services/fraud-model-service");
+      const result = await fraudModelService.listModels(req.context!.tenantId!);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /train - Queue a new model version; the worker trains it
+router.post(
+  "/train",
+  requirePermission("risk:configure"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fraudModelService } = await import("../services/fraud-model-service");
+      const result = await fraudModelService.requestTraining(req.context!.tenantId!, req.context!.user.id);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id - Model version with its training metrics
+router.get(
+  "/:id",
+  requirePermission("risk:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fraudModelService } = await import("../services/fraud-model-service");
+      const result = await fraudModelService.getModel(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/activate - Score with this version from now on
+router.post(
+  "/:id/activate",
+  requirePermission("risk:configure"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fraudModelService } = await import("../services/fraud-model-service");
+      const result = await fraudModelService.activateModel(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
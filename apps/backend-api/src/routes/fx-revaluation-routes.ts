@@ -0,0 +1,174 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { z } from "zod";
+import { validate, clientCompanyIdParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────
+
+const periodString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Dönem formatı: YYYY-MM");
+const dateString = z.string().refine((value) => !isNaN(Date.parse(value)), "Geçerli bir tarih giriniz.");
+
+const periodParams = clientCompanyIdParamSchema.extend({
+  period: periodString,
+});
+
+const invoiceParams = z.object({
+  invoiceId: z.string().min(1, "Fatura ID gerekli"),
+});
+
+const reportQuery = z.object({
+  format: z.enum(["json", "pdf", "excel"]).default("json"),
+});
+
+const settleInvoiceBody = z.object({
+  settlementDate: dateString,
+  fxAmount: z.number().positive("Tutar sıfırdan büyük olmalıdır.").optional(),
+  rate: z.number().positive("Kur sıfırdan büyük olmalıdır.").optional(),
+  cashAccountCode: z.string().min(1).max(50).optional(),
+  createKurFarkiInvoice: z.boolean().optional(),
+});
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Routes ──────────────────────────────────────────────────────────────
+
+// GET /api/v1/fx-revaluation/invoices/:invoiceId/settlements - Payments recorded against a foreign-currency invoice
+router.get(
+  "/invoices/:invoiceId/settlements",
+  requirePermission("invoices:read"),
+  validate({ params: invoiceParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fxRevaluationService } = await import("../services/fx-revaluation-service");
+      const settlements = await fxRevaluationService.listSettlements(req.context!.tenantId!, req.params.invoiceId);
+      res.json({ data: settlements });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/fx-revaluation/invoices/:invoiceId/settlements - Record a payment and post the realised kur farkı
+router.post(
+  "/invoices/:invoiceId/settlements",
+  requirePermission("invoices:update"),
+  validate({ params: invoiceParams, body: settleInvoiceBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fxRevaluationService } = await import("../services/fx-revaluation-service");
+      const settlement = await fxRevaluationService.settleInvoice(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.invoiceId,
+        { ...req.body, settlementDate: new Date(req.body.settlementDate) }
+      );
+      res.status(201).json({ data: settlement });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/fx-revaluation/:clientCompanyId - Posted revaluation runs
+router.get(
+  "/:clientCompanyId",
+  requirePermission("periods:view"),
+  validate({ params: clientCompanyIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fxRevaluationService } = await import("../services/fx-revaluation-service");
+      const runs = await fxRevaluationService.listRuns(req.context!.tenantId!, req.params.clientCompanyId);
+      res.json({ data: runs });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/fx-revaluation/:clientCompanyId/:period/preview - Value open FX positions without posting
+router.post(
+  "/:clientCompanyId/:period/preview",
+  requirePermission("periods:view"),
+  validate({ params: periodParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fxRevaluationService } = await import("../services/fx-revaluation-service");
+      const preview = await fxRevaluationService.preview(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        req.params.period
+      );
+      res.json({ data: preview });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/fx-revaluation/:clientCompanyId/:period/post - Post (or re-post) the 646/656 entries
+router.post(
+  "/:clientCompanyId/:period/post",
+  requirePermission("periods:manage"),
+  validate({ params: periodParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fxRevaluationService } = await import("../services/fx-revaluation-service");
+      const run = await fxRevaluationService.post(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.clientCompanyId,
+        req.params.period
+      );
+      res.status(201).json({ data: run });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/fx-revaluation/:clientCompanyId/:period/report?format=pdf - Değerleme raporu
+router.get(
+  "/:clientCompanyId/:period/report",
+  requirePermission("periods:view"),
+  validate({ params: periodParams, query: reportQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { fxRevaluationService } = await import("../services/fx-revaluation-service");
+      const query = req.query as unknown as z.infer<typeof reportQuery>;
+      const report = await fxRevaluationService.getReport(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        req.params.period
+      );
+
+      if (query.format === "json") {
+        return res.json({ data: report });
+      }
+
+      const { exportService } = await import("../services/export-service");
+      const buffer =
+        query.format === "pdf" ? await exportService.exportToPdf(report) : await exportService.exportToExcel(report);
+      const contentType =
+        query.format === "pdf"
+          ? "application/pdf"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+      const filename = `kur_degerlemesi_${req.params.period}.${query.format === "pdf" ? "pdf" : "xlsx"}`;
+
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Length", buffer.length.toString());
+      res.send(buffer);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,203 @@
+import { Router, type Router as ExpressRouter } from "express";
+import multer from "multer";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { z } from "zod";
+import { validate, clientCompanyIdParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────
+
+const indexType = z.enum(["yi_ufe", "tufe"]);
+const periodString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Dönem formatı: YYYY-MM");
+
+const listIndicesQuery = z.object({
+  indexType: indexType.default("yi_ufe"),
+  from: periodString.optional(),
+  to: periodString.optional(),
+});
+
+const importIndicesBody = z.object({
+  indexType: indexType.default("yi_ufe"),
+  source: z.string().min(1).max(50).optional(),
+});
+
+const periodParams = clientCompanyIdParamSchema.extend({
+  period: periodString,
+});
+
+const adjustmentBody = z.object({
+  indexType: indexType.default("yi_ufe"),
+});
+
+const workingPapersQuery = z.object({
+  indexType: indexType.default("yi_ufe"),
+  format: z.enum(["json", "pdf", "excel"]).default("json"),
+});
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 1024 * 1024 },
+});
+
+// ─── Routes ──────────────────────────────────────────────────────────────
+
+// GET /api/v1/inflation-accounting/indices?indexType=yi_ufe - Endeks tablosu
+router.get(
+  "/indices",
+  requirePermission("periods:view"),
+  validate({ query: listIndicesQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { inflationAccountingService } = await import("../services/inflation-accounting-service");
+      const query = req.query as unknown as z.infer<typeof listIndicesQuery>;
+      const indices = await inflationAccountingService.listIndices(req.context!.tenantId!, query.indexType, {
+        from: query.from,
+        to: query.to,
+      });
+      res.json({ data: indices });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/inflation-accounting/indices/import - Import indices from a CSV file (multipart "file")
+router.post(
+  "/indices/import",
+  requirePermission("periods:manage"),
+  upload.single("file"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          error: {
+            message: "Lütfen bir CSV dosyası seçin.",
+          },
+        });
+      }
+
+      const body = importIndicesBody.parse(req.body);
+      const { inflationAccountingService } = await import("../services/inflation-accounting-service");
+      const result = await inflationAccountingService.importIndices(
+        req.context!.tenantId!,
+        req.file.buffer.toString("utf-8"),
+        body.indexType,
+        body.source
+      );
+      res.status(201).json({ data: result });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/inflation-accounting/:clientCompanyId - Posted adjustment runs
+router.get(
+  "/:clientCompanyId",
+  requirePermission("periods:view"),
+  validate({ params: clientCompanyIdParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { inflationAccountingService } = await import("../services/inflation-accounting-service");
+      const adjustments = await inflationAccountingService.listAdjustments(
+        req.context!.tenantId!,
+        req.params.clientCompanyId
+      );
+      res.json({ data: adjustments });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/inflation-accounting/:clientCompanyId/:period/preview - Compute the adjustment without posting
+router.post(
+  "/:clientCompanyId/:period/preview",
+  requirePermission("periods:view"),
+  validate({ params: periodParams, body: adjustmentBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { inflationAccountingService } = await import("../services/inflation-accounting-service");
+      const preview = await inflationAccountingService.preview(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        req.params.period,
+        req.body.indexType
+      );
+      res.json({ data: preview });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/inflation-accounting/:clientCompanyId/:period/post - Post (or re-post) the 698 entries
+router.post(
+  "/:clientCompanyId/:period/post",
+  requirePermission("periods:manage"),
+  validate({ params: periodParams, body: adjustmentBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { inflationAccountingService } = await import("../services/inflation-accounting-service");
+      const adjustment = await inflationAccountingService.post(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.clientCompanyId,
+        req.params.period,
+        req.body.indexType
+      );
+      res.status(201).json({ data: adjustment });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/inflation-accounting/:clientCompanyId/:period/working-papers?format=pdf - Düzeltme çalışma kağıtları
+router.get(
+  "/:clientCompanyId/:period/working-papers",
+  requirePermission("periods:view"),
+  validate({ params: periodParams, query: workingPapersQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { inflationAccountingService } = await import("../services/inflation-accounting-service");
+      const query = req.query as unknown as z.infer<typeof workingPapersQuery>;
+      const report = await inflationAccountingService.getWorkingPapersReport(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        req.params.period,
+        query.indexType
+      );
+
+      if (query.format === "json") {
+        return res.json({ data: report });
+      }
+
+      const { exportService } = await import("../services/export-service");
+      const buffer =
+        query.format === "pdf" ? await exportService.exportToPdf(report) : await exportService.exportToExcel(report);
+      const contentType =
+        query.format === "pdf"
+          ? "application/pdf"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+      const filename = `enflasyon_duzeltmesi_${req.params.period}.${query.format === "pdf" ? "pdf" : "xlsx"}`;
+
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Length", buffer.length.toString());
+      res.send(buffer);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -24,6 +24,10 @@ const createInvoiceLineSchema = z.object({
   lineTotal: z.number().nonnegative(),
   vatRate: z.number().min(0).max(1),
   vatAmount: z.number().nonnegative(),
+  withholdingCode: z.string().regex(/^\d{3}$/, "Tevkifat kodu 3 haneli olmalıdır.").optional().nullable(),
+  withholdingRate: z.number().gt(0).max(1).optional().nullable(),
+  exemptionCode: z.string().regex(/^\d{3}$/, "İstisna kodu 3 haneli olmalıdır.").optional().nullable(),
+  dimensionValueIds: z.array(z.string().min(1)).max(20, "Bir satıra en fazla 20 boyut değeri verilebilir.").optional(),
 });
 
 const createInvoiceSchema = z.object({
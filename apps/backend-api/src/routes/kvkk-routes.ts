@@ -153,6 +153,47 @@ router.get(
   }
 );
 
+// Get retention settings
+router.get(
+  "/retention-settings",
+  requirePermission("users:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const settings = await kvkkComplianceService.getRetentionSettings(req.context!.tenantId!);
+      res.json({ data: settings });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Update retention settings
+router.put(
+  "/retention-settings",
+  requirePermission("users:manage"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const body = z.object({
+        aiConversationDays: z.number().int("Saklama süresi tam sayı olmalıdır."),
+      }).parse(req.body);
+
+      const settings = await kvkkComplianceService.updateRetentionSettings(req.context!.tenantId!, body as any);
+      res.json({ data: settings });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: {
+            message: error.issues[0]?.message || "Geçersiz bilgiler.",
+            details: error.issues,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // Get data access audit log
 router.get(
   "/audit-log",
@@ -16,23 +16,69 @@ const router: ExpressRouter = Router();
 router.use(authMiddleware);
 router.use(tenantMiddleware);
 
+const accountTypeSchema = z.enum(["asset", "liability", "equity", "income", "expense"]);
+const inflationClassSchema = z.enum(["monetary", "non_monetary"]);
+
 const createLedgerAccountSchema = z.object({
-  code: z.string().min(1, "Hesap kodu gerekli.").max(50, "Hesap kodu en fazla 50 karakter olabilir."),
+  clientCompanyId: z.string().optional().nullable(),
+  parentId: z.string().optional().nullable(),
+  code: z
+    .string()
+    .min(1, "Hesap kodu gerekli.")
+    .max(50, "Hesap kodu en fazla 50 karakter olabilir.")
+    .regex(/^[0-9A-Za-z]+(\.[0-9A-Za-z]+)*$/, "Hesap kodu 120.01.0042 biçiminde olmalıdır."),
   name: z.string().min(1, "Hesap adı gerekli.").max(255, "Hesap adı en fazla 255 karakter olabilir."),
-  type: z.enum(["asset", "liability", "equity", "income", "expense"]),
+  type: accountTypeSchema.optional(),
   isActive: z.boolean().optional(),
+  inflationClass: inflationClassSchema.optional().nullable(),
 });
 
-const updateLedgerAccountSchema = createLedgerAccountSchema.partial();
+const updateLedgerAccountSchema = z.object({
+  code: createLedgerAccountSchema.shape.code.optional(),
+  name: createLedgerAccountSchema.shape.name.optional(),
+  type: accountTypeSchema.optional(),
+  isActive: z.boolean().optional(),
+  inflationClass: inflationClassSchema.optional().nullable(),
+});
+
+const listLedgerAccountsQuerySchema = z.object({
+  clientCompanyId: z.string().optional(),
+});
+
+const seedChartOfAccountsSchema = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli."),
+});
 
 router.get("/", cacheMiddleware(600000), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
+    const query = listLedgerAccountsQuerySchema.parse(req.query);
     const accounts = await ledgerAccountService.listLedgerAccounts(
-      req.context!.tenantId!
+      req.context!.tenantId!,
+      query
     );
 
     res.json({ data: accounts });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new ValidationError(error.issues[0]?.message || "Geçersiz bilgiler."));
+    }
+    next(error);
+  }
+});
+
+router.get("/tree", cacheMiddleware(600000), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const query = listLedgerAccountsQuerySchema.parse(req.query);
+    const tree = await ledgerAccountService.getLedgerAccountTree(
+      req.context!.tenantId!,
+      query
+    );
+
+    res.json({ data: tree });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new ValidationError(error.issues[0]?.message || "Geçersiz bilgiler."));
+    }
     next(error);
   }
 });
@@ -71,6 +117,27 @@ router.post(
   }
 );
 
+router.post(
+  "/seed",
+  requireRole(TENANT_ROLES.TENANT_OWNER),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const body = seedChartOfAccountsSchema.parse(req.body);
+      const result = await ledgerAccountService.seedChartOfAccounts(
+        req.context!.tenantId!,
+        body.clientCompanyId
+      );
+
+      res.status(201).json({ data: result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new ValidationError(error.issues[0]?.message || "Geçersiz bilgiler."));
+      }
+      next(error);
+    }
+  }
+);
+
 router.patch(
   "/:id",
   requireRole(TENANT_ROLES.TENANT_OWNER), // Only Accountant role can update
@@ -136,13 +136,26 @@ router.patch(
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { masakStrService } = await import("../services/masak-str-service");
-      const report = await masakStrService.updateReportStatus(
-        req.context!.tenantId!,
-        req.params.id,
-        req.context!.user.id,
-        req.body.status,
-        req.body.notes
-      );
+      const { approvalService } = await import("../services/approval-service");
+      const update = () =>
+        masakStrService.updateReportStatus(
+          req.context!.tenantId!,
+          req.params.id,
+          req.context!.user.id,
+          req.body.status,
+          req.body.notes
+        );
+      // Submission may need an approval under the tenant's policies
+      const report =
+        req.body.status === "submitted"
+          ? await approvalService.withApproval(
+              req.context!.tenantId!,
+              req.context!.user.id,
+              "masak_submit",
+              req.params.id,
+              update
+            )
+          : await update();
       res.json({ data: report });
     } catch (error: any) {
       next(error);
@@ -0,0 +1,63 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const paymentBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  bankAccountId: z.string().min(1, "Banka hesabı gerekli"),
+  paymentType: z.enum(["FAST", "EFT", "HAVALE"]),
+  creditorIban: z.string().min(26, "Alıcı IBAN gerekli").max(34),
+  creditorName: z.string().min(1, "Alıcı adı gerekli").max(140),
+  amount: z.number().positive("Tutar pozitif olmalı"),
+  description: z.string().max(140).optional().nullable(),
+  purpose: z.enum(["SALA", "PENS", "RENT", "BILL", "TAXS", "SUPP", "LOAN", "OTHR"]).optional(),
+  comment: z.string().max(2000).optional().nullable(),
+});
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+// POST / - Initiate a payment, or open an approval request when a policy applies
+router.post(
+  "/",
+  requirePermission("payments:initiate"),
+  validate({ body: paymentBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { paymentOrderService } = await import("../services/payment-order-service");
+      const result = await paymentOrderService.initiate(req.context!.tenantId!, req.context!.user.id, req.body);
+      res.status(result.status === "initiated" ? 201 : 202).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/initiate - Initiate the payment of an approved approval request
+router.post(
+  "/:id/initiate",
+  requirePermission("payments:initiate"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { paymentOrderService } = await import("../services/payment-order-service");
+      const result = await paymentOrderService.initiateApproved(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id
+      );
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
@@ -0,0 +1,309 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { z } from "zod";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────
+
+const dateString = z.string().refine((value) => !isNaN(Date.parse(value)), "Geçerli bir tarih giriniz.");
+const accountCode = z.string().regex(/^\d{3}(\.\w+)*$/, "Geçersiz hesap kodu");
+const period = z.string().regex(/^\d{4}-\d{2}$/, "Dönem formatı: YYYY-MM");
+
+const companyQuery = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+});
+
+const listEmployeesQuery = companyQuery.extend({
+  includeInactive: z.enum(["true", "false"]).optional(),
+});
+
+const muhsgkQuery = companyQuery.extend({
+  period,
+});
+
+const createEmployeeBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  tckn: z.string().regex(/^\d{11}$/, "TC kimlik numarası 11 haneli olmalıdır."),
+  firstName: z.string().min(1, "Ad gerekli").max(100),
+  lastName: z.string().min(1, "Soyad gerekli").max(100),
+  sgkRegistryNumber: z.string().max(30).optional().nullable(),
+  occupationCode: z.string().max(10).optional().nullable(),
+  department: z.string().max(100).optional().nullable(),
+  startDate: dateString,
+  endDate: dateString.optional().nullable(),
+  grossSalary: z.number().positive("Brüt ücret sıfırdan büyük olmalıdır."),
+  incentiveCode: z.string().max(10).optional().nullable(),
+  expenseAccountCode: accountCode.optional(),
+});
+
+const updateEmployeeBody = z.object({
+  firstName: z.string().min(1).max(100).optional(),
+  lastName: z.string().min(1).max(100).optional(),
+  sgkRegistryNumber: z.string().max(30).optional().nullable(),
+  occupationCode: z.string().max(10).optional().nullable(),
+  department: z.string().max(100).optional().nullable(),
+  startDate: dateString.optional(),
+  endDate: dateString.optional().nullable(),
+  grossSalary: z.number().positive().optional(),
+  incentiveCode: z.string().max(10).optional().nullable(),
+  expenseAccountCode: accountCode.optional(),
+  isActive: z.boolean().optional(),
+});
+
+const calculateRunBody = z.object({
+  clientCompanyId: z.string().min(1, "Müşteri şirket ID gerekli"),
+  period,
+  adjustments: z
+    .array(
+      z.object({
+        employeeId: z.string().min(1),
+        workedDays: z.number().int().min(0).max(30).optional(),
+        additionalPay: z.number().nonnegative().optional(),
+      })
+    )
+    .optional(),
+});
+
+const payslipParams = z.object({
+  id: z.string().min(1, "ID gerekli"),
+  payslipId: z.string().min(1, "Bordro ID gerekli"),
+});
+
+function toDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value ? new Date(value) : null;
+}
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Personel ────────────────────────────────────────────────────────────
+
+// GET /api/v1/payroll/employees?clientCompanyId=... - Employees of a company
+router.get(
+  "/employees",
+  requirePermission("payroll:view"),
+  validate({ query: listEmployeesQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const query = req.query as unknown as z.infer<typeof listEmployeesQuery>;
+      const employees = await payrollService.listEmployees(req.context!.tenantId!, query.clientCompanyId, {
+        includeInactive: query.includeInactive === "true",
+      });
+      res.json({ data: employees });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/payroll/incentives - SGK teşvik kanun numaraları
+router.get(
+  "/incentives",
+  requirePermission("payroll:view"),
+  async (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { SGK_TESVIKLERI } = await import("../services/turkish-accounting-knowledge");
+      res.json({ data: SGK_TESVIKLERI });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/payroll/employees - Add an employee
+router.post(
+  "/employees",
+  requirePermission("payroll:manage"),
+  validate({ body: createEmployeeBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const employee = await payrollService.createEmployee(req.context!.tenantId!, {
+        ...req.body,
+        startDate: new Date(req.body.startDate),
+        endDate: toDate(req.body.endDate),
+      });
+      res.status(201).json({ data: employee });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/v1/payroll/employees/:id - Update an employee
+router.patch(
+  "/employees/:id",
+  requirePermission("payroll:manage"),
+  validate({ params: idParamSchema, body: updateEmployeeBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const employee = await payrollService.updateEmployee(req.context!.tenantId!, req.params.id, {
+        ...req.body,
+        startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
+        endDate: toDate(req.body.endDate),
+      });
+      res.json({ data: employee });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/v1/payroll/employees/:id - Delete an employee without payslips
+router.delete(
+  "/employees/:id",
+  requirePermission("payroll:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      await payrollService.deleteEmployee(req.context!.tenantId!, req.params.id);
+      res.json({ data: { message: "Personel silindi." } });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// ─── Bordro ──────────────────────────────────────────────────────────────
+
+// GET /api/v1/payroll/runs?clientCompanyId=... - Monthly bordrolar of a company
+router.get(
+  "/runs",
+  requirePermission("payroll:view"),
+  validate({ query: companyQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const query = req.query as unknown as z.infer<typeof companyQuery>;
+      const runs = await payrollService.listRuns(req.context!.tenantId!, query.clientCompanyId);
+      res.json({ data: runs });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/payroll/muhsgk?clientCompanyId=...&period=2026-03 - MUHSGK çalışan bilgileri
+router.get(
+  "/muhsgk",
+  requirePermission("payroll:view"),
+  validate({ query: muhsgkQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const query = req.query as unknown as z.infer<typeof muhsgkQuery>;
+      const detail = await payrollService.getMuhsgkDetail(req.context!.tenantId!, query.clientCompanyId, query.period);
+      res.json({ data: detail });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/payroll/runs - Calculate (or recalculate) the draft bordro of a month
+router.post(
+  "/runs",
+  requirePermission("payroll:manage"),
+  validate({ body: calculateRunBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const run = await payrollService.calculateRun(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.body.clientCompanyId,
+        req.body.period,
+        req.body.adjustments
+      );
+      res.status(201).json({ data: run });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/payroll/runs/:id - Bordro with its payslips
+router.get(
+  "/runs/:id",
+  requirePermission("payroll:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const run = await payrollService.getRun(req.context!.tenantId!, req.params.id);
+      res.json({ data: run });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/v1/payroll/runs/:id - Delete a draft bordro
+router.delete(
+  "/runs/:id",
+  requirePermission("payroll:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      await payrollService.deleteRun(req.context!.tenantId!, req.params.id);
+      res.json({ data: { message: "Bordro silindi." } });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/payroll/runs/:id/post - Book the ücret tahakkuku
+router.post(
+  "/runs/:id/post",
+  requirePermission("payroll:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const run = await payrollService.postRun(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ data: run });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/payroll/runs/:id/payslips/:payslipId/pdf - Payslip as PDF
+router.get(
+  "/runs/:id/payslips/:payslipId/pdf",
+  requirePermission("payroll:view"),
+  validate({ params: payslipParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { payrollService } = await import("../services/payroll-service");
+      const { fileName, content } = await payrollService.getPayslipPdf(
+        req.context!.tenantId!,
+        req.params.id,
+        req.params.payslipId
+      );
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Content-Length", content.length.toString());
+      res.send(content);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,108 @@
+import { Router, type Router as ExpressRouter } from "express";
+import multer from "multer";
+import { z } from "zod";
+import type { Request, Response, NextFunction } from "express";
+import { ValidationError } from "@repo/shared-utils";
+import { getStorageConfig } from "@repo/config";
+import { validate } from "../middleware/validation-middleware";
+
+/**
+ * Counterparty side of the cari hesap mutabakatı. There is no session here;
+ * the signed token in the e-mailed link identifies the request.
+ */
+
+const router: ExpressRouter = Router();
+
+const storageConfig = getStorageConfig();
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: storageConfig.maxFileSize,
+  },
+  fileFilter: (req, file, cb) => {
+    if (storageConfig.allowedMimeTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Bu dosya türüne izin verilmiyor: ${file.mimetype}`));
+    }
+  },
+});
+
+const tokenParams = z.object({
+  token: z.string().min(1, "Geçersiz bağlantı."),
+});
+
+const respondBody = z.object({
+  decision: z.enum(["confirm", "dispute"], { message: "Onay veya itiraz seçiniz." }),
+  responderName: z.string().trim().min(2, "Adınızı ve soyadınızı giriniz.").max(255),
+  responseBalance: z.coerce.number().optional().nullable(),
+  note: z.string().max(2000).optional().nullable(),
+});
+
+// GET /api/v1/public/cari-mutabakat/:token - Balance and ekstre behind the link
+router.get(
+  "/:token",
+  validate({ params: tokenParams }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.getPublicRequest(req.params.token);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /api/v1/public/cari-mutabakat/:token/pdf - Ekstre as PDF
+router.get(
+  "/:token/pdf",
+  validate({ params: tokenParams }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const { fileName, content } = await cariMutabakatService.getPublicStatementPdf(req.params.token);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Content-Length", content.length.toString());
+      res.send(content);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /api/v1/public/cari-mutabakat/:token/respond - Confirm or dispute, optionally with a file
+router.post(
+  "/:token/respond",
+  validate({ params: tokenParams }),
+  upload.single("file"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = respondBody.parse({
+        ...req.body,
+        responseBalance: req.body.responseBalance === "" ? undefined : req.body.responseBalance,
+      });
+
+      const { cariMutabakatService } = await import("../services/cari-mutabakat-service");
+      const result = await cariMutabakatService.respond(req.params.token, {
+        decision: body.decision,
+        responderName: body.responderName,
+        responseBalance: body.responseBalance,
+        note: body.note,
+        file: req.file
+          ? {
+              buffer: req.file.buffer,
+              originalname: req.file.originalname,
+              mimetype: req.file.mimetype,
+              size: req.file.size,
+            }
+          : null,
+      });
+      res.json({ data: result });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return next(new ValidationError(error.issues[0]?.message || "Geçersiz bilgiler."));
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -38,6 +38,8 @@ const generateReportSchema = z.object({
     start_date: z.string().datetime("Geçerli bir başlangıç tarihi giriniz."),
     end_date: z.string().datetime("Geçerli bir bitiş tarihi giriniz."),
     limit: z.number().int().min(1).max(1000).optional(),
+    dimension_id: z.string().optional(),
+    dimension_value_ids: z.array(z.string()).max(100).optional(),
   }),
 });
 
@@ -160,6 +162,28 @@ router.post(
           );
           break;
 
+        case "DIMENSION_PROFITABILITY":
+          if (!body.client_company_id) {
+            throw new ValidationError("Bu rapor için müşteri şirket seçilmesi zorunludur.");
+          }
+          result = await reportingService.generateDimensionProfitabilityReport(
+            tenantId,
+            body.client_company_id,
+            body.filters as any
+          );
+          break;
+
+        case "BUDGET_VARIANCE":
+          if (!body.client_company_id) {
+            throw new ValidationError("Bu rapor için müşteri şirket seçilmesi zorunludur.");
+          }
+          result = await reportingService.generateBudgetVarianceReport(
+            tenantId,
+            body.client_company_id,
+            body.filters as any
+          );
+          break;
+
         default:
           throw new ValidationError("Geçersiz rapor türü.");
       }
@@ -1,11 +1,14 @@
+import multer from "multer";
 import { z } from "zod";
+import { logger } from "@repo/shared-utils";
 import { riskAlertService } from "../services/risk-alert-service";
 import { authMiddleware } from "../middleware/auth-middleware";
 import { tenantMiddleware } from "../middleware/tenant-middleware";
 import { requirePermission, requireRole } from "../middleware/rbac-middleware";
+import { validate } from "../middleware/validation-middleware";
 import { TENANT_ROLES } from "@repo/core-domain";
 import type { AuthenticatedRequest } from "../types/request-context";
-import type { Response } from "express";
+import type { Response, NextFunction } from "express";
 
 import { Router, type Router as ExpressRouter } from "express";
 const router: ExpressRouter = Router();
@@ -13,8 +16,46 @@ const router: ExpressRouter = Router();
 router.use(authMiddleware);
 router.use(tenantMiddleware);
 
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+});
+
 const updateAlertStatusSchema = z.object({
   status: z.enum(["open", "in_progress", "closed", "ignored"]),
+  disposition: z.enum(["false_positive", "corrected", "reported_to_masak", "escalated"]).optional(),
+  note: z.string().max(2000).optional().nullable(),
+});
+
+const assignBody = z.object({
+  assigneeUserId: z.string().min(1).nullable(),
+});
+
+const dueDateBody = z.object({
+  dueAt: z.string().datetime({ offset: true, message: "Geçerli bir tarih girin." }),
+  reason: z.string().max(500).optional().nullable(),
+});
+
+const commentBody = z.object({
+  body: z.string().trim().min(1, "Yorum boş olamaz.").max(5000),
+  parentCommentId: z.string().optional().nullable(),
+});
+
+const evidenceBody = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("document"),
+    documentId: z.string().min(1),
+    description: z.string().max(500).optional().nullable(),
+  }),
+  z.object({
+    type: z.literal("transaction"),
+    transactionId: z.string().min(1),
+    description: z.string().max(500).optional().nullable(),
+  }),
+]);
+
+const mergeBody = z.object({
+  alertIds: z.array(z.string().min(1)).min(1, "Birleştirilecek en az bir uyarı seçilmelidir.").max(50),
 });
 
 // GET /api/v1/risk/alerts
@@ -27,6 +68,10 @@ router.get(
         clientCompanyId: req.query.clientCompanyId as string | undefined,
         severity: req.query.severity as string | undefined,
         status: req.query.status as any,
+        assigneeUserId:
+          req.query.assignee === "me" ? req.context!.user.id : (req.query.assignee as string | undefined),
+        overdue: req.query.overdue === "true",
+        disposition: req.query.disposition as any,
         dateFrom: req.query.dateFrom ? new Date(req.query.dateFrom as string) : undefined,
         dateTo: req.query.dateTo ? new Date(req.query.dateTo as string) : undefined,
         page: req.query.page ? parseInt(req.query.page as string) : undefined,
@@ -45,14 +90,15 @@ router.get(
 router.patch(
   "/:id/status",
   requireRole(TENANT_ROLES.TENANT_OWNER), // Only Accountant role can update
-  async (req: AuthenticatedRequest, res: Response) => {
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const body = updateAlertStatusSchema.parse(req.body);
       const alert = await riskAlertService.updateAlertStatus(
         req.context!.tenantId!,
         req.params.id,
         body.status,
-        req.context!.user.id
+        req.context!.user.id,
+        { disposition: body.disposition, note: body.note }
       );
       res.json({ data: alert });
     } catch (error: any) {
@@ -63,7 +109,189 @@ router.patch(
           },
         });
       }
-      res.status(error.statusCode || 500).json({ error: { message: error.message } });
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/risk/alerts/:id - Case with comments, evidence and history
+router.get(
+  "/:id",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await riskAlertService.getCase(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/risk/alerts/:id/assign
+router.post(
+  "/:id/assign",
+  requirePermission("risk:acknowledge"),
+  validate({ body: assignBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await riskAlertService.assignAlert(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body.assigneeUserId
+      );
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/v1/risk/alerts/:id/due-date
+router.patch(
+  "/:id/due-date",
+  requirePermission("risk:acknowledge"),
+  validate({ body: dueDateBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await riskAlertService.setDueDate(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        new Date(req.body.dueAt),
+        req.body.reason
+      );
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/risk/alerts/:id/comments
+router.post(
+  "/:id/comments",
+  requirePermission("risk:acknowledge"),
+  validate({ body: commentBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await riskAlertService.addComment(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body.body,
+        req.body.parentCommentId
+      );
+      res.status(201).json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/risk/alerts/:id/evidence - Link a document or transaction
+router.post(
+  "/:id/evidence",
+  requirePermission("risk:acknowledge"),
+  validate({ body: evidenceBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await riskAlertService.addEvidence(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body
+      );
+      res.status(201).json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/risk/alerts/:id/evidence/upload - Screenshot or PDF (multipart "file")
+router.post(
+  "/:id/evidence/upload",
+  requirePermission("risk:acknowledge"),
+  upload.single("file"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          error: {
+            message: "Lütfen bir dosya seçin.",
+          },
+        });
+      }
+
+      const description = typeof req.body.description === "string" ? req.body.description.slice(0, 500) : null;
+      const result = await riskAlertService.addEvidenceFile(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        {
+          buffer: req.file.buffer,
+          originalName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          size: req.file.size,
+        },
+        description
+      );
+      res.status(201).json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/v1/risk/alerts/:id/evidence/:evidenceId/download
+router.get(
+  "/:id/evidence/:evidenceId/download",
+  requirePermission("documents:read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { evidence, stream } = await riskAlertService.getEvidenceFileStream(
+        req.context!.tenantId!,
+        req.params.id,
+        req.params.evidenceId
+      );
+
+      res.setHeader("Content-Type", evidence.contentType ?? "application/octet-stream");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(evidence.fileName ?? "kanit")}"`);
+
+      stream.on("error", (error) => {
+        logger.error("Stream error:", { error });
+        if (!res.headersSent) {
+          next(error);
+        }
+      });
+
+      stream.pipe(res);
+    } catch (error) {
+      if (!res.headersSent) {
+        next(error);
+      }
+    }
+  }
+);
+
+// POST /api/v1/risk/alerts/:id/merge - Merge duplicate alerts into this case
+router.post(
+  "/:id/merge",
+  requirePermission("risk:acknowledge"),
+  validate({ body: mergeBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await riskAlertService.mergeAlerts(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body.alertIds
+      );
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -0,0 +1,83 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+// Conditions are checked against the field catalog by the service
+const proposedRuleChange = z.object({
+  code: z
+    .string()
+    .min(3)
+    .max(100)
+    .regex(/^[A-Za-z0-9_]+$/, "Kod yalnızca harf, rakam ve alt çizgi içerebilir"),
+  description: z.string().min(1).max(500).optional(),
+  weight: z.number().min(0).max(100).optional(),
+  defaultSeverity: z.enum(["low", "medium", "high"]).optional(),
+  config: z.record(z.unknown()).optional(),
+  condition: z.record(z.unknown()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const createBacktestBody = z.object({
+  scope: z.enum(["document", "company"]),
+  clientCompanyId: z.string().min(1).optional().nullable(),
+  windowStart: z.coerce.date(),
+  windowEnd: z.coerce.date(),
+  proposedRules: z.array(proposedRuleChange).max(50),
+});
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+// GET / - Recent backtests of the tenant, newest first
+router.get(
+  "/",
+  requirePermission("risk:view"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskBacktestService } = await import("../services/risk-backtest-service");
+      const result = await riskBacktestService.listBacktests(req.context!.tenantId!);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST / - Queue a backtest of proposed rule changes; the worker runs it
+router.post(
+  "/",
+  requirePermission("risk:configure"),
+  validate({ body: createBacktestBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskBacktestService } = await import("../services/risk-backtest-service");
+      const result = await riskBacktestService.requestBacktest(req.context!.tenantId!, req.context!.user.id, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id - Backtest with its progress and, once completed, the comparison
+router.get(
+  "/:id",
+  requirePermission("risk:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskBacktestService } = await import("../services/risk-backtest-service");
+      const result = await riskBacktestService.getBacktest(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
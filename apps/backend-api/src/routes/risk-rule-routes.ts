@@ -0,0 +1,209 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const scope = z.enum(["document", "company"]);
+// The condition tree is checked against the field catalog by validateCondition
+const condition = z.record(z.unknown());
+
+const definitionBody = {
+  description: z.string().min(1, "Açıklama gerekli").max(500),
+  weight: z.number().min(0).max(100),
+  defaultSeverity: z.enum(["low", "medium", "high"]),
+  condition,
+  effectiveFrom: z.coerce.date().optional(),
+  changeNote: z.string().max(500).optional().nullable(),
+};
+
+const createRuleBody = z.object({
+  scope,
+  code: z
+    .string()
+    .min(3)
+    .max(100)
+    .regex(/^[A-Za-z0-9_]+$/, "Kod yalnızca harf, rakam ve alt çizgi içerebilir"),
+  ...definitionBody,
+});
+
+const versionBody = z.object(definitionBody);
+
+const updateRuleBody = z.object({
+  isActive: z.boolean(),
+});
+
+const validateBody = z.object({
+  scope,
+  condition: z.unknown(),
+});
+
+const testBody = z
+  .object({
+    scope,
+    condition: z.unknown(),
+    documentId: z.string().min(1).optional(),
+    clientCompanyId: z.string().min(1).optional(),
+    facts: z.record(z.unknown()).optional(),
+  })
+  .refine((body) => [body.documentId, body.clientCompanyId, body.facts].filter(Boolean).length === 1, {
+    message: "Örnek olarak bir belge, müşteri veya örnek veri verin.",
+  });
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+// GET / - Global and tenant rules with their effective conditions
+router.get(
+  "/",
+  requirePermission("risk:view"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskRuleService } = await import("../services/risk-rule-service");
+      const result = await riskRuleService.listRuleViews(req.context!.tenantId!);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /language - Fields, collections and operators the editor offers
+router.get(
+  "/language",
+  requirePermission("risk:view"),
+  async (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { RULE_FIELDS, RULE_COLLECTIONS, COMPARISON_OPERATORS, AGGREGATE_FUNCTIONS } = await import(
+        "../services/risk-rule-language"
+      );
+      res.json({
+        data: {
+          fields: RULE_FIELDS,
+          collections: RULE_COLLECTIONS,
+          operators: COMPARISON_OPERATORS,
+          aggregates: AGGREGATE_FUNCTIONS,
+        },
+      });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /validate - Check a condition without saving it
+router.post(
+  "/validate",
+  requirePermission("risk:view"),
+  validate({ body: validateBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { validateCondition } = await import("../services/risk-rule-language");
+      const errors = validateCondition(req.body.scope, req.body.condition);
+      res.json({ data: { valid: errors.length === 0, errors } });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /test - Evaluate a condition against a document, client company or sample facts
+router.post(
+  "/test",
+  requirePermission("risk:view"),
+  validate({ body: testBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskRuleEngine } = await import("../services/risk-rule-engine");
+      const { scope: ruleScope, condition: ruleCondition, documentId, clientCompanyId, facts } = req.body;
+      const sample = documentId ? { documentId } : clientCompanyId ? { clientCompanyId } : { facts };
+      const result = await riskRuleEngine.testCondition(req.context!.tenantId!, ruleScope, ruleCondition, sample);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST / - Create a tenant rule
+router.post(
+  "/",
+  requirePermission("risk:configure"),
+  validate({ body: createRuleBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskRuleService } = await import("../services/risk-rule-service");
+      const result = await riskRuleService.createTenantRule(req.context!.tenantId!, req.context!.user.id, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /:id - Rule with its version history
+router.get(
+  "/:id",
+  requirePermission("risk:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskRuleService } = await import("../services/risk-rule-service");
+      const result = await riskRuleService.getRuleDetail(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /:id/versions - Publish a new version; for a global rule this creates the tenant's override
+router.post(
+  "/:id/versions",
+  requirePermission("risk:configure"),
+  validate({ params: idParamSchema, body: versionBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskRuleService } = await import("../services/risk-rule-service");
+      const result = await riskRuleService.publishVersion(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body
+      );
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /:id - Switch a tenant rule on or off
+router.patch(
+  "/:id",
+  requirePermission("risk:configure"),
+  validate({ params: idParamSchema, body: updateRuleBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskRuleService } = await import("../services/risk-rule-service");
+      const result = await riskRuleService.setTenantRuleActive(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.id,
+        req.body.isActive
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /:id - Delete a tenant rule (an override falls back to the global rule)
+router.delete(
+  "/:id",
+  requirePermission("risk:configure"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { riskRuleService } = await import("../services/risk-rule-service");
+      await riskRuleService.deleteTenantRule(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ message: "Risk kuralı silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
@@ -0,0 +1,458 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { z } from "zod";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { validate, baseListQuerySchema, idParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Tarih formatı: YYYY-MM-DD");
+const periodString = z.string().regex(/^\d{4}-\d{2}$/, "Dönem formatı: YYYY-MM");
+const clientCompanyId = z.string().min(1, "Müşteri şirket ID gerekli");
+
+const itemListQuery = baseListQuerySchema.extend({
+  clientCompanyId: z.string().optional(),
+  search: z.string().optional(),
+  isActive: z.enum(["true", "false"]).optional(),
+});
+
+const itemFields = {
+  name: z.string().min(1, "Stok adı gerekli").max(255),
+  unit: z.string().max(10).optional(),
+  barcode: z.string().max(50).optional().nullable(),
+  costMethod: z.enum(["fifo", "average"]).optional(),
+  inventoryAccountCode: z.string().max(50).optional(),
+  cogsAccountCode: z.string().max(50).optional(),
+  aliases: z.array(z.string().max(255)).max(20).optional(),
+};
+
+const createItemBody = z.object({
+  clientCompanyId,
+  code: z.string().min(1, "Stok kodu gerekli").max(50),
+  ...itemFields,
+});
+
+const updateItemBody = z.object(itemFields).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const clientCompanyQuery = z.object({ clientCompanyId });
+
+const warehouseBody = z.object({
+  clientCompanyId,
+  code: z.string().min(1, "Depo kodu gerekli").max(50),
+  name: z.string().min(1, "Depo adı gerekli").max(255),
+  address: z.string().max(1000).optional().nullable(),
+  isDefault: z.boolean().optional(),
+});
+
+const movementType = z.enum([
+  "opening",
+  "purchase",
+  "sale",
+  "adjustment_in",
+  "adjustment_out",
+  "count_surplus",
+  "count_shortage",
+]);
+
+const movementListQuery = baseListQuerySchema.extend({
+  clientCompanyId: z.string().optional(),
+  itemId: z.string().optional(),
+  warehouseId: z.string().optional(),
+  type: movementType.optional(),
+  dateFrom: dateString.optional(),
+  dateTo: dateString.optional(),
+});
+
+const movementBody = z.object({
+  itemId: z.string().min(1, "Stok kartı gerekli"),
+  warehouseId: z.string().optional().nullable(),
+  type: z.enum(["opening", "adjustment_in", "adjustment_out"]),
+  date: dateString,
+  quantity: z.number().positive("Miktar sıfırdan büyük olmalıdır."),
+  unitCost: z.number().min(0).optional().nullable(),
+  description: z.string().max(500).optional().nullable(),
+});
+
+const syncBody = z.object({ clientCompanyId });
+
+const asOfQuery = z.object({
+  clientCompanyId,
+  asOfDate: dateString.optional(),
+});
+
+const periodParams = z.object({ period: periodString });
+
+const countBody = z.object({
+  clientCompanyId,
+  warehouseId: z.string().optional().nullable(),
+  countDate: dateString,
+  notes: z.string().max(2000).optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        itemId: z.string().min(1),
+        countedQuantity: z.number().min(0, "Sayılan miktar negatif olamaz."),
+      })
+    )
+    .min(1, "Sayım en az bir satır içermelidir.")
+    .max(5000),
+});
+
+// ─── Stok kartları ───────────────────────────────────────────────────
+
+// GET /items - List stok kartları with quantity on hand
+router.get(
+  "/items",
+  requirePermission("stock:view"),
+  validate({ query: itemListQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.listItems(req.context!.tenantId!, {
+        clientCompanyId: req.query.clientCompanyId as string | undefined,
+        search: req.query.search as string | undefined,
+        isActive: req.query.isActive === undefined ? undefined : req.query.isActive === "true",
+        page: req.query.page ? Number(req.query.page) : undefined,
+        pageSize: req.query.pageSize ? Number(req.query.pageSize) : undefined,
+      });
+      res.json(result);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /items - Create a stok kartı
+router.post(
+  "/items",
+  requirePermission("stock:manage"),
+  validate({ body: createItemBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.createItem(req.context!.tenantId!, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /items/:id - Stok kartı with its costed movements (stok ekstresi)
+router.get(
+  "/items/:id",
+  requirePermission("stock:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.getItem(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// PATCH /items/:id - Update a stok kartı
+router.patch(
+  "/items/:id",
+  requirePermission("stock:manage"),
+  validate({ params: idParamSchema, body: updateItemBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.updateItem(req.context!.tenantId!, req.params.id, req.body);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Depolar ─────────────────────────────────────────────────────────
+
+// GET /warehouses?clientCompanyId= - Depolar of a client company
+router.get(
+  "/warehouses",
+  requirePermission("stock:view"),
+  validate({ query: clientCompanyQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.listWarehouses(req.context!.tenantId!, req.query.clientCompanyId as string);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /warehouses - Create a depo
+router.post(
+  "/warehouses",
+  requirePermission("stock:manage"),
+  validate({ body: warehouseBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.createWarehouse(req.context!.tenantId!, req.body);
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Stok hareketleri ────────────────────────────────────────────────
+
+// GET /movements - List stok hareketleri
+router.get(
+  "/movements",
+  requirePermission("stock:view"),
+  validate({ query: movementListQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.listMovements(req.context!.tenantId!, {
+        clientCompanyId: req.query.clientCompanyId as string | undefined,
+        itemId: req.query.itemId as string | undefined,
+        warehouseId: req.query.warehouseId as string | undefined,
+        type: req.query.type as any,
+        dateFrom: req.query.dateFrom ? new Date(req.query.dateFrom as string) : undefined,
+        dateTo: req.query.dateTo ? new Date(`${req.query.dateTo as string}T23:59:59.999`) : undefined,
+        page: req.query.page ? Number(req.query.page) : undefined,
+        pageSize: req.query.pageSize ? Number(req.query.pageSize) : undefined,
+      });
+      res.json(result);
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /movements - Açılış stoku or manual düzeltme
+router.post(
+  "/movements",
+  requirePermission("stock:manage"),
+  validate({ body: movementBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.createManualMovement(req.context!.tenantId!, req.context!.user.id, {
+        ...req.body,
+        date: new Date(req.body.date),
+      });
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /movements/:id - Delete a manual movement
+router.delete(
+  "/movements/:id",
+  requirePermission("stock:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      await stockService.deleteMovement(req.context!.tenantId!, req.params.id);
+      res.json({ message: "Stok hareketi silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /sync - Rebuild invoice movements of a client company
+router.post(
+  "/sync",
+  requirePermission("stock:manage"),
+  validate({ body: syncBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.syncFromInvoices(req.context!.tenantId!, req.body.clientCompanyId);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Değerleme ve dönem sonu ─────────────────────────────────────────
+
+// GET /valuation - Stok değerlemesi as of a date
+router.get(
+  "/valuation",
+  requirePermission("stock:view"),
+  validate({ query: asOfQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const asOfDate = req.query.asOfDate ? new Date(`${req.query.asOfDate as string}T23:59:59.999`) : new Date();
+      const result = await stockService.getValuation(req.context!.tenantId!, req.query.clientCompanyId as string, asOfDate);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /periods - Posted stock months
+router.get(
+  "/periods",
+  requirePermission("stock:view"),
+  validate({ query: clientCompanyQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.listPeriodPostings(req.context!.tenantId!, req.query.clientCompanyId as string);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /periods/:period - What the month-end run posts
+router.get(
+  "/periods/:period",
+  requirePermission("stock:view"),
+  validate({ params: periodParams, query: clientCompanyQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.getPeriodSummary(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        req.params.period
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /periods/:period/post - Post satılan malın maliyeti and sayım differences
+router.post(
+  "/periods/:period/post",
+  requirePermission("stock:manage"),
+  validate({ params: periodParams, body: syncBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.postPeriod(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.body.clientCompanyId,
+        req.params.period
+      );
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /periods/:period?clientCompanyId= - Reverse a month's stock posting
+router.delete(
+  "/periods/:period",
+  requirePermission("stock:manage"),
+  validate({ params: periodParams, query: clientCompanyQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      await stockService.unpostPeriod(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.query.clientCompanyId as string,
+        req.params.period
+      );
+      res.json({ message: "Stok dönem kaydı geri alındı." });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Sayım ───────────────────────────────────────────────────────────
+
+// GET /counts?clientCompanyId= - Sayım tutanakları
+router.get(
+  "/counts",
+  requirePermission("stock:view"),
+  validate({ query: clientCompanyQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.listCounts(req.context!.tenantId!, req.query.clientCompanyId as string);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /counts - Open a sayım tutanağı
+router.post(
+  "/counts",
+  requirePermission("stock:manage"),
+  validate({ body: countBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.createCount(req.context!.tenantId!, req.context!.user.id, {
+        ...req.body,
+        countDate: new Date(req.body.countDate),
+      });
+      res.status(201).json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// GET /counts/:id - Sayım with differences
+router.get(
+  "/counts/:id",
+  requirePermission("stock:view"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.getCount(req.context!.tenantId!, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// POST /counts/:id/apply - Book the sayım differences
+router.post(
+  "/counts/:id/apply",
+  requirePermission("stock:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const result = await stockService.applyCount(req.context!.tenantId!, req.context!.user.id, req.params.id);
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+// DELETE /counts/:id - Delete a draft sayım
+router.delete(
+  "/counts/:id",
+  requirePermission("stock:manage"),
+  validate({ params: idParamSchema }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      await stockService.deleteCount(req.context!.tenantId!, req.params.id);
+      res.json({ message: "Sayım silindi." });
+    } catch (error) { next(error); }
+  }
+);
+
+// ─── Tutarlılık ──────────────────────────────────────────────────────
+
+// GET /consistency - Stock vs invoice and irsaliye findings
+router.get(
+  "/consistency",
+  requirePermission("stock:view"),
+  validate({ query: asOfQuery }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { stockService } = await import("../services/stock-service");
+      const asOfDate = req.query.asOfDate ? new Date(`${req.query.asOfDate as string}T23:59:59.999`) : new Date();
+      const result = await stockService.checkConsistency(
+        req.context!.tenantId!,
+        req.query.clientCompanyId as string,
+        asOfDate
+      );
+      res.json({ data: result });
+    } catch (error) { next(error); }
+  }
+);
+
+export default router;
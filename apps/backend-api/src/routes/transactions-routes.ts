@@ -21,6 +21,7 @@ const createTransactionLineSchema = z.object({
   debitAmount: z.number().nonnegative(),
   creditAmount: z.number().nonnegative(),
   description: z.string().max(1000, "Açıklama en fazla 1000 karakter olabilir.").optional().nullable(),
+  dimensionValueIds: z.array(z.string().min(1)).max(20, "Bir satıra en fazla 20 boyut değeri verilebilir.").optional(),
 });
 
 const createTransactionSchema = z.object({
@@ -164,13 +165,19 @@ router.get(
         clientCompanyId: z.string().optional().nullable(),
         dateFrom: z.string().datetime(),
         dateTo: z.string().datetime(),
+        level: z.coerce.number().int().min(1).max(10).optional(),
+        dimensionValueIds: z.string().optional(), // virgülle ayrılmış boyut değerleri
       }).parse(req.query);
 
       const result = await transactionService.getTrialBalance(
         req.context!.tenantId!,
         query.clientCompanyId || null,
         new Date(query.dateFrom),
-        new Date(query.dateTo)
+        new Date(query.dateTo),
+        {
+          maxLevel: query.level,
+          dimensionValueIds: query.dimensionValueIds?.split(",").map((id) => id.trim()).filter(Boolean),
+        }
       );
 
       res.json({ data: result });
@@ -0,0 +1,93 @@
+import { Router, type Router as ExpressRouter } from "express";
+import { authMiddleware } from "../middleware/auth-middleware";
+import { tenantMiddleware } from "../middleware/tenant-middleware";
+import { requirePermission } from "../middleware/rbac-middleware";
+import { z } from "zod";
+import { validate, clientCompanyIdParamSchema } from "../middleware/validation-middleware";
+import type { AuthenticatedRequest } from "../types/request-context";
+import type { Response, NextFunction } from "express";
+
+// ─── Schemas ─────────────────────────────────────────────────────────────
+
+const fiscalYearParams = clientCompanyIdParamSchema.extend({
+  fiscalYear: z.coerce.number().int().min(2000, "Geçersiz mali yıl").max(2100, "Geçersiz mali yıl"),
+});
+
+const yearEndOptionsBody = z.object({
+  taxRate: z.number().min(0).max(1).optional(),
+  nonDeductibleExpenses: z.number().nonnegative().optional(),
+  taxExemptions: z.number().nonnegative().optional(),
+  carryForwardToRetainedEarnings: z.boolean().optional(),
+});
+
+const router: ExpressRouter = Router();
+
+router.use(authMiddleware);
+router.use(tenantMiddleware);
+
+// ─── Routes ──────────────────────────────────────────────────────────────
+
+// GET /api/v1/year-end-closing/:clientCompanyId/:fiscalYear - Last posted run
+router.get(
+  "/:clientCompanyId/:fiscalYear",
+  requirePermission("periods:view"),
+  validate({ params: fiscalYearParams }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { yearEndClosingService } = await import("../services/year-end-closing-service");
+      const closing = await yearEndClosingService.getClosing(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        Number(req.params.fiscalYear)
+      );
+      res.json({ data: closing });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/year-end-closing/:clientCompanyId/:fiscalYear/preview - Compute entries and diff without posting
+router.post(
+  "/:clientCompanyId/:fiscalYear/preview",
+  requirePermission("periods:view"),
+  validate({ params: fiscalYearParams, body: yearEndOptionsBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { yearEndClosingService } = await import("../services/year-end-closing-service");
+      const preview = await yearEndClosingService.preview(
+        req.context!.tenantId!,
+        req.params.clientCompanyId,
+        Number(req.params.fiscalYear),
+        req.body
+      );
+      res.json({ data: preview });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/v1/year-end-closing/:clientCompanyId/:fiscalYear/post - Post (or re-post) the year-end entries
+router.post(
+  "/:clientCompanyId/:fiscalYear/post",
+  requirePermission("periods:manage"),
+  validate({ params: fiscalYearParams, body: yearEndOptionsBody }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { yearEndClosingService } = await import("../services/year-end-closing-service");
+      const closing = await yearEndClosingService.post(
+        req.context!.tenantId!,
+        req.context!.user.id,
+        req.params.clientCompanyId,
+        Number(req.params.fiscalYear),
+        req.body
+      );
+      res.status(201).json({ data: closing });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+export default router;
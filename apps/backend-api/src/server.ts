@@ -39,6 +39,9 @@ import documentRoutes from "./routes/document-routes";
 import documentAIRoutes from "./routes/document-ai-routes";
 import riskRoutes from "./routes/risk-routes";
 import riskAlertRoutes from "./routes/risk-alert-routes";
+import riskRuleRoutes from "./routes/risk-rule-routes";
+import riskBacktestRoutes from "./routes/risk-backtest-routes";
+import fraudModelRoutes from "./routes/fraud-model-routes";
 import integrationRoutes from "./routes/integration-routes";
 import reportingRoutes from "./routes/reporting-routes";
 import reportDownloadRoutes from "./routes/report-download-routes";
@@ -86,6 +89,22 @@ import sectoralBenchmarkRoutes from "./routes/sectoral-benchmark-routes";
 import crossCompanyRoutes from "./routes/cross-company-routes";
 import masakRedFlagRoutes from "./routes/masak-red-flag-routes";
 import gibAuditPrecheckRoutes from "./routes/gib-audit-precheck-routes";
+import accountingPeriodRoutes from "./routes/accounting-period-routes";
+import yearEndClosingRoutes from "./routes/year-end-closing-routes";
+import fixedAssetRoutes from "./routes/fixed-asset-routes";
+import inflationAccountingRoutes from "./routes/inflation-accounting-routes";
+import fxRevaluationRoutes from "./routes/fx-revaluation-routes";
+import bankReconciliationRoutes from "./routes/bank-reconciliation-routes";
+import payrollRoutes from "./routes/payroll-routes";
+import cariMutabakatRoutes from "./routes/cari-mutabakat-routes";
+import publicCariMutabakatRoutes from "./routes/public-cari-mutabakat-routes";
+import counterpartyRoutes from "./routes/counterparty-routes";
+import stockRoutes from "./routes/stock-routes";
+import dimensionRoutes from "./routes/dimension-routes";
+import budgetRoutes from "./routes/budget-routes";
+import approvalRoutes from "./routes/approval-routes";
+import paymentRoutes from "./routes/payment-routes";
+import eIrsaliyeRoutes from "./routes/e-irsaliye-routes";
 
 // Resolve database URL asynchronously and update if needed
 resolveDatabaseUrl()
@@ -247,6 +266,15 @@ const authLimiter = rateLimit({
   },
 });
 
+// Stricter rate limiter for tokenized public links (counterparties, no login)
+const publicLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: process.env.NODE_ENV === "production" ? 30 : 100,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: { message: "Çok fazla istek. Lütfen 15 dakika sonra tekrar deneyin." } },
+});
+
 // API routes
 app.use("/api/v1/auth", authLimiter, authRoutes);
 app.use("/api/v1/users", userRoutes);
@@ -260,6 +288,9 @@ app.use("/api/v1/documents", documentRoutes);
 app.use("/api/v1/documents", documentAIRoutes);
 app.use("/api/v1/risk", riskRoutes);
 app.use("/api/v1/risk/alerts", riskAlertRoutes);
+app.use("/api/v1/risk/rules", riskRuleRoutes);
+app.use("/api/v1/risk/backtests", riskBacktestRoutes);
+app.use("/api/v1/risk/ml-models", fraudModelRoutes);
 app.use("/api/v1/integrations", integrationRoutes);
 app.use("/api/v1/reports", reportingRoutes);
 app.use("/api/v1/reports", reportDownloadRoutes);
@@ -306,6 +337,22 @@ app.use("/api/v1/sectoral-benchmark", sectoralBenchmarkRoutes);
 app.use("/api/v1/cross-company-matching", crossCompanyRoutes);
 app.use("/api/v1/masak-red-flags", masakRedFlagRoutes);
 app.use("/api/v1/gib-audit-precheck", gibAuditPrecheckRoutes);
+app.use("/api/v1/accounting-periods", accountingPeriodRoutes);
+app.use("/api/v1/year-end-closing", yearEndClosingRoutes);
+app.use("/api/v1/fixed-assets", fixedAssetRoutes);
+app.use("/api/v1/inflation-accounting", inflationAccountingRoutes);
+app.use("/api/v1/fx-revaluation", fxRevaluationRoutes);
+app.use("/api/v1/bank-reconciliation", bankReconciliationRoutes);
+app.use("/api/v1/payroll", payrollRoutes);
+app.use("/api/v1/cari-mutabakat", cariMutabakatRoutes);
+app.use("/api/v1/public/cari-mutabakat", publicLinkLimiter, publicCariMutabakatRoutes);
+app.use("/api/v1/counterparties", counterpartyRoutes);
+app.use("/api/v1/stock", stockRoutes);
+app.use("/api/v1/dimensions", dimensionRoutes);
+app.use("/api/v1/budgets", budgetRoutes);
+app.use("/api/v1/approvals", approvalRoutes);
+app.use("/api/v1/payments", paymentRoutes);
+app.use("/api/v1/e-irsaliye", eIrsaliyeRoutes);
 
 // 404 handler for undefined routes
 app.use((req, res, next) => {
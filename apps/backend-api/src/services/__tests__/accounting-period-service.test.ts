@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AccountingPeriodService, getPeriodKey, getPeriodBounds } from "../accounting-period-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { auditService } from "../audit-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    accountingPeriod: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    eDefterLedger: {
+      findFirst: vi.fn(),
+      count: vi.fn(),
+    },
+    beyanname: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+    transaction: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const mockCreateTransaction = vi.fn();
+vi.mock("../transaction-service", () => ({
+  transactionService: {
+    createTransaction: (...args: any[]) => mockCreateTransaction(...args),
+  },
+}));
+
+describe("period helpers", () => {
+  it("should map dates to YYYY-MM period keys and bounds", () => {
+    expect(getPeriodKey(new Date(2026, 0, 31, 23, 0))).toBe("2026-01");
+
+    const { periodStart, periodEnd } = getPeriodBounds("2026-02");
+    expect(periodStart).toEqual(new Date(2026, 1, 1));
+    expect(periodEnd.getDate()).toBe(28);
+    expect(() => getPeriodBounds("2026-13")).toThrow(ValidationError);
+  });
+});
+
+describe("AccountingPeriodService", () => {
+  let service: AccountingPeriodService;
+  const mockTenantId = "tenant-123";
+  const mockUserId = "user-1";
+
+  beforeEach(() => {
+    service = new AccountingPeriodService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.accountingPeriod.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.eDefterLedger.count).mockResolvedValue(0);
+    vi.mocked(prisma.beyanname.count).mockResolvedValue(0);
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1" } as any);
+  });
+
+  describe("assertDateWritable", () => {
+    it("should allow postings to an open month", async () => {
+      await expect(
+        service.assertDateWritable(mockTenantId, "client-1", new Date(2026, 4, 10))
+      ).resolves.toBeUndefined();
+    });
+
+    it("should treat a month with a submitted beyanname as locked", async () => {
+      vi.mocked(prisma.beyanname.count).mockResolvedValue(1);
+
+      await expect(
+        service.assertDateWritable(mockTenantId, "client-1", new Date(2026, 4, 10))
+      ).rejects.toThrow("2026-05 dönemi kilitli");
+      expect(prisma.beyanname.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          status: { in: ["submitted", "accepted"] },
+          period: { in: ["2026-05", "2026-Q2", "2026"] },
+        }),
+      });
+    });
+
+    it("should let period-end adjustments into soft-closed months only when allowed", async () => {
+      vi.mocked(prisma.accountingPeriod.findUnique).mockResolvedValue({ status: "soft_closed" } as any);
+      const date = new Date(2026, 4, 31);
+
+      await expect(service.assertDateWritable(mockTenantId, "client-1", date)).rejects.toThrow(ValidationError);
+      await expect(
+        service.assertDateWritable(mockTenantId, "client-1", date, { allowSoftClosed: true })
+      ).resolves.toBeUndefined();
+    });
+
+    it("should skip the check for entries without a client company", async () => {
+      await service.assertDateWritable(mockTenantId, null, new Date());
+      expect(prisma.accountingPeriod.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resolvePostingDate", () => {
+    it("should move postings of a locked month to the first day of the next open month", async () => {
+      vi.mocked(prisma.accountingPeriod.findUnique).mockImplementation((async (args: any) => {
+        const period = args.where.tenantId_clientCompanyId_period.period;
+        return ["2026-03", "2026-04"].includes(period) ? { status: "locked" } : null;
+      }) as any);
+
+      const result = await service.resolvePostingDate(mockTenantId, "client-1", new Date(2026, 2, 20));
+
+      expect(result.redirected).toBe(true);
+      expect(result.originalPeriod).toBe("2026-03");
+      expect(result.date).toEqual(new Date(2026, 4, 1));
+    });
+  });
+
+  describe("filterWritable", () => {
+    it("should keep only items of open months and look each month up once", async () => {
+      vi.mocked(prisma.accountingPeriod.findUnique).mockImplementation((async (args: any) =>
+        args.where.tenantId_clientCompanyId_period.period === "2026-01" ? { status: "locked" } : null) as any);
+      const items = [
+        { id: "a", date: new Date(2026, 0, 10) },
+        { id: "b", date: new Date(2026, 1, 3) },
+        { id: "c", date: new Date(2026, 0, 25) },
+        { id: "d", date: new Date(2026, 1, 20) },
+      ];
+
+      const result = await service.filterWritable(mockTenantId, "client-1", items, (item) => item.date);
+
+      expect(result.map((item) => item.id)).toEqual(["b", "d"]);
+      expect(prisma.accountingPeriod.findUnique).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("closePeriod", () => {
+    it("should lock a month whose e-Defter was accepted", async () => {
+      vi.mocked(prisma.transaction.findMany).mockResolvedValue([
+        { id: "t1", lines: [{ debitAmount: 100, creditAmount: 0 }, { debitAmount: 0, creditAmount: 100 }] },
+      ] as any);
+      vi.mocked(prisma.eDefterLedger.findFirst).mockResolvedValue({ status: "accepted" } as any);
+      vi.mocked(prisma.beyanname.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.accountingPeriod.create).mockImplementation((async (args: any) => ({
+        id: "period-1",
+        ...args.data,
+      })) as any);
+
+      const result = await service.closePeriod(mockTenantId, mockUserId, "client-1", "2026-05");
+
+      expect(result.status).toBe("locked");
+      expect(result.closeChecks?.filed).toBe(true);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "PERIOD_LOCKED", resourceId: "period-1" })
+      );
+    });
+
+    it("should refuse to close a month with unbalanced transactions", async () => {
+      vi.mocked(prisma.transaction.findMany).mockResolvedValue([
+        { id: "t1", lines: [{ debitAmount: 100, creditAmount: 0 }, { debitAmount: 0, creditAmount: 90 }] },
+      ] as any);
+      vi.mocked(prisma.eDefterLedger.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.beyanname.findMany).mockResolvedValue([]);
+
+      await expect(
+        service.closePeriod(mockTenantId, mockUserId, "client-1", "2026-05")
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.accountingPeriod.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reopenPeriod", () => {
+    it("should reopen a locked period and write an audit log entry", async () => {
+      vi.mocked(prisma.accountingPeriod.findUnique).mockResolvedValue({
+        id: "period-1",
+        clientCompanyId: "client-1",
+        period: "2026-05",
+        status: "locked",
+      } as any);
+      vi.mocked(prisma.accountingPeriod.update).mockImplementation((async (args: any) => ({
+        id: "period-1",
+        clientCompanyId: "client-1",
+        period: "2026-05",
+        ...args.data,
+      })) as any);
+
+      const result = await service.reopenPeriod(
+        mockTenantId,
+        mockUserId,
+        "client-1",
+        "2026-05",
+        "Düzeltme beyannamesi verilecek"
+      );
+
+      expect(result.status).toBe("open");
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "PERIOD_REOPENED",
+          userId: mockUserId,
+          metadata: expect.objectContaining({ previousStatus: "locked" }),
+        })
+      );
+    });
+
+    it("should reject reopening a period that is already open", async () => {
+      await expect(
+        service.reopenPeriod(mockTenantId, mockUserId, "client-1", "2026-05", "Yanlışlıkla kapatıldı")
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("createCorrectingEntry", () => {
+    it("should reverse the original postings in the open period", async () => {
+      vi.mocked(prisma.transaction.findFirst).mockResolvedValue({
+        id: "transaction-1",
+        clientCompanyId: "client-1",
+        date: new Date(2020, 0, 15),
+        referenceNo: "FT-1",
+        lines: [
+          { ledgerAccountId: "acc-120", debitAmount: 1180, creditAmount: 0, description: null },
+          { ledgerAccountId: "acc-600", debitAmount: 0, creditAmount: 1180, description: null },
+        ],
+      } as any);
+      vi.mocked(prisma.accountingPeriod.findUnique).mockImplementation((async (args: any) =>
+        args.where.tenantId_clientCompanyId_period.period === "2020-01" ? { status: "locked" } : null) as any);
+      mockCreateTransaction.mockResolvedValue({ id: "correction-1" });
+
+      await service.createCorrectingEntry(mockTenantId, mockUserId, "transaction-1");
+
+      expect(mockCreateTransaction).toHaveBeenCalledWith(
+        mockTenantId,
+        expect.objectContaining({
+          source: "correction",
+          referenceNo: "DZT-FT-1",
+          lines: [
+            expect.objectContaining({ ledgerAccountId: "acc-120", debitAmount: 0, creditAmount: 1180 }),
+            expect.objectContaining({ ledgerAccountId: "acc-600", debitAmount: 1180, creditAmount: 0 }),
+          ],
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AuthorizationError } from "@repo/shared-utils";
+import { ApprovalService, selectPolicy, resolveApprover } from "../approval-service";
+import { prisma } from "../../lib/prisma";
+import { auditService } from "../audit-service";
+import { notificationService } from "../notification-service";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma: any = {
+    approvalPolicy: {
+      findMany: vi.fn(),
+    },
+    approvalRequest: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(async ({ where, data }: any) => ({ id: where.id, ...data })),
+      updateMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+    approvalDecision: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    approvalDelegation: {
+      findMany: vi.fn(),
+    },
+    userTenantMembership: {
+      findMany: vi.fn(),
+    },
+    beyanname: {
+      findFirst: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock("../notification-service", () => ({
+  notificationService: {
+    createNotification: vi.fn(),
+  },
+}));
+
+const twoStepPolicy = {
+  id: "policy-2",
+  name: "Beyanname çift onay",
+  minAmount: null,
+  steps: [{ roles: ["Accountant"] }, { roles: ["TenantOwner"] }],
+  requireDistinctPreparer: true,
+};
+
+const beyanname = {
+  id: "beyanname-1",
+  clientCompanyId: "client-1",
+  type: "KDV",
+  period: "2026-09",
+  netPayable: 12500,
+  calculatedAmount: 15000,
+  preparedByUserId: "user-preparer",
+};
+
+const members = [
+  { userId: "user-preparer", role: "Accountant" },
+  { userId: "user-accountant", role: "Accountant" },
+  { userId: "user-owner", role: "TenantOwner" },
+  { userId: "user-staff", role: "Staff" },
+];
+
+function pendingRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "request-1",
+    action: "beyanname_submit",
+    resourceId: "beyanname-1",
+    amount: 12500,
+    summary: "KDV beyannamesi 2026-09",
+    steps: twoStepPolicy.steps,
+    requireDistinctPreparer: true,
+    currentStep: 1,
+    status: "pending",
+    requestedByUserId: "user-preparer",
+    preparedByUserId: "user-preparer",
+    decisions: [],
+    ...overrides,
+  };
+}
+
+describe("selectPolicy", () => {
+  const policies = [
+    { id: "all", minAmount: null },
+    { id: "over-50k", minAmount: 50000 },
+    { id: "over-500k", minAmount: 500000 },
+  ];
+
+  it("should pick the highest tier the amount reaches", () => {
+    expect(selectPolicy(policies, 1000)?.id).toBe("all");
+    expect(selectPolicy(policies, 50000)?.id).toBe("over-50k");
+    expect(selectPolicy(policies, 750000)?.id).toBe("over-500k");
+    expect(selectPolicy(policies.slice(1), 49999.99)).toBeNull();
+    expect(selectPolicy(policies.slice(1), null)).toBeNull();
+  });
+});
+
+describe("resolveApprover", () => {
+  const roles = new Map(members.map((member) => [member.userId, member.role as any]));
+  const step = { roles: ["TenantOwner" as const] };
+
+  it("should let a delegate decide on behalf of an absent approver", () => {
+    expect(resolveApprover({ userId: "user-owner", step, roles, delegatorIds: [], excludedUserIds: [] })).toEqual({
+      onBehalfOfUserId: null,
+    });
+    expect(resolveApprover({ userId: "user-staff", step, roles, delegatorIds: [], excludedUserIds: [] })).toBeNull();
+    expect(
+      resolveApprover({ userId: "user-staff", step, roles, delegatorIds: ["user-owner"], excludedUserIds: [] })
+    ).toEqual({ onBehalfOfUserId: "user-owner" });
+  });
+
+  it("should not let an excluded user decide, not even as a delegate", () => {
+    expect(
+      resolveApprover({ userId: "user-owner", step, roles, delegatorIds: [], excludedUserIds: ["user-owner"] })
+    ).toBeNull();
+    expect(
+      resolveApprover({
+        userId: "user-staff",
+        step,
+        roles,
+        delegatorIds: ["user-owner"],
+        excludedUserIds: ["user-staff"],
+      })
+    ).toBeNull();
+  });
+});
+
+describe("ApprovalService", () => {
+  let service: ApprovalService;
+
+  beforeEach(() => {
+    service = new ApprovalService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.userTenantMembership.findMany).mockResolvedValue(members as any);
+    vi.mocked(prisma.approvalDelegation.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.approvalDecision.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.beyanname.findFirst).mockResolvedValue(beyanname as any);
+  });
+
+  describe("withApproval", () => {
+    it("should run the action when no policy applies", async () => {
+      vi.mocked(prisma.approvalPolicy.findMany).mockResolvedValue([]);
+      const run = vi.fn().mockResolvedValue("submitted");
+
+      await expect(service.withApproval("tenant-1", "user-1", "beyanname_submit", "beyanname-1", run)).resolves.toBe(
+        "submitted"
+      );
+      expect(prisma.approvalRequest.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should refuse the action until the request is approved", async () => {
+      vi.mocked(prisma.approvalPolicy.findMany).mockResolvedValue([twoStepPolicy] as any);
+      vi.mocked(prisma.approvalRequest.findMany).mockResolvedValue([pendingRequest({ currentStep: 2 })] as any);
+      const run = vi.fn();
+
+      await expect(service.withApproval("tenant-1", "user-1", "beyanname_submit", "beyanname-1", run)).rejects.toThrow(
+        "Beyanname gönderimi onay bekliyor (adım 2/2)."
+      );
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it("should consume the approved request once the action succeeds", async () => {
+      vi.mocked(prisma.approvalPolicy.findMany).mockResolvedValue([twoStepPolicy] as any);
+      vi.mocked(prisma.approvalRequest.findMany).mockResolvedValue([pendingRequest({ status: "approved" })] as any);
+      vi.mocked(prisma.approvalRequest.updateMany).mockResolvedValue({ count: 1 });
+      const run = vi.fn().mockResolvedValue("submitted");
+
+      await service.withApproval("tenant-1", "user-1", "beyanname_submit", "beyanname-1", run);
+
+      expect(run).toHaveBeenCalled();
+      expect(prisma.approvalRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "request-1", status: "approved", executedAt: null },
+        data: expect.objectContaining({ status: "executed", executedByUserId: "user-1" }),
+      });
+      expect(prisma.approvalRequest.update).toHaveBeenCalledWith({
+        where: { id: "request-1" },
+        data: expect.objectContaining({ status: "executed", executedByUserId: "user-1" }),
+      });
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ action: "APPROVAL_EXECUTED" }));
+    });
+
+    it("should not run the action twice when a concurrent call already claimed the approval", async () => {
+      vi.mocked(prisma.approvalPolicy.findMany).mockResolvedValue([twoStepPolicy] as any);
+      vi.mocked(prisma.approvalRequest.findMany).mockResolvedValue([pendingRequest({ status: "approved" })] as any);
+      vi.mocked(prisma.approvalRequest.updateMany).mockResolvedValue({ count: 0 });
+      const run = vi.fn();
+
+      await expect(
+        service.withApproval("tenant-1", "user-1", "beyanname_submit", "beyanname-1", run)
+      ).rejects.toThrow(AuthorizationError);
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it("should release the approval when the action fails", async () => {
+      vi.mocked(prisma.approvalPolicy.findMany).mockResolvedValue([twoStepPolicy] as any);
+      vi.mocked(prisma.approvalRequest.findMany).mockResolvedValue([pendingRequest({ status: "approved" })] as any);
+      vi.mocked(prisma.approvalRequest.updateMany).mockResolvedValue({ count: 1 });
+      const run = vi.fn().mockRejectedValue(new Error("GİB bağlantı hatası"));
+
+      await expect(
+        service.withApproval("tenant-1", "user-1", "beyanname_submit", "beyanname-1", run)
+      ).rejects.toThrow("GİB bağlantı hatası");
+      expect(prisma.approvalRequest.update).toHaveBeenCalledWith({
+        where: { id: "request-1" },
+        data: { status: "approved", executedAt: null, executedByUserId: null },
+      });
+      expect(auditService.log).not.toHaveBeenCalled();
+    });
+
+    it("should keep the approval for a retry when the submission was rejected", async () => {
+      vi.mocked(prisma.approvalPolicy.findMany).mockResolvedValue([twoStepPolicy] as any);
+      vi.mocked(prisma.approvalRequest.findMany).mockResolvedValue([pendingRequest({ status: "approved" })] as any);
+      vi.mocked(prisma.approvalRequest.updateMany).mockResolvedValue({ count: 1 });
+      const run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, status: "rejected" })
+        .mockResolvedValueOnce({ success: true, status: "sent" });
+      const submit = () =>
+        service.withApproval("tenant-1", "user-1", "beyanname_submit", "beyanname-1", run, (result) => result.success);
+
+      await expect(submit()).resolves.toEqual({ success: false, status: "rejected" });
+      expect(prisma.approvalRequest.update).toHaveBeenCalledWith({
+        where: { id: "request-1" },
+        data: { status: "approved", executedAt: null, executedByUserId: null },
+      });
+      expect(auditService.log).not.toHaveBeenCalled();
+
+      await expect(submit()).resolves.toEqual({ success: true, status: "sent" });
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(prisma.approvalRequest.update).toHaveBeenLastCalledWith({
+        where: { id: "request-1" },
+        data: expect.objectContaining({ status: "executed", executedByUserId: "user-1" }),
+      });
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ action: "APPROVAL_EXECUTED" }));
+    });
+
+    it("should invalidate the approval when the amount changed afterwards", async () => {
+      vi.mocked(prisma.approvalPolicy.findMany).mockResolvedValue([twoStepPolicy] as any);
+      vi.mocked(prisma.approvalRequest.findMany).mockResolvedValue([
+        pendingRequest({ status: "approved", amount: 9000 }),
+      ] as any);
+      const run = vi.fn();
+
+      await expect(
+        service.withApproval("tenant-1", "user-1", "beyanname_submit", "beyanname-1", run)
+      ).rejects.toThrow(AuthorizationError);
+      expect(prisma.approvalRequest.update).toHaveBeenCalledWith({
+        where: { id: "request-1" },
+        data: { status: "invalidated" },
+      });
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("approve", () => {
+    it("should advance to the next step and notify its approvers", async () => {
+      vi.mocked(prisma.approvalRequest.findFirst).mockResolvedValue(pendingRequest() as any);
+      vi.mocked(prisma.approvalRequest.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.approvalRequest.findUniqueOrThrow).mockResolvedValue(pendingRequest({ currentStep: 2 }) as any);
+      vi.mocked(prisma.approvalDecision.findMany).mockResolvedValue([
+        { userId: "user-accountant", onBehalfOfUserId: null },
+      ] as any);
+
+      const result = await service.approve("tenant-1", "user-accountant", "request-1", "Kontrol edildi");
+
+      expect(result.currentStep).toBe(2);
+      expect(prisma.approvalRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "request-1", status: "pending", currentStep: 1 },
+        data: { currentStep: 2 },
+      });
+      expect(prisma.approvalDecision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ step: 1, userId: "user-accountant", decision: "approved", comment: "Kontrol edildi" }),
+      });
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "APPROVAL_APPROVED", resourceId: "request-1" })
+      );
+      expect(notificationService.createNotification).toHaveBeenCalledTimes(1);
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "user-owner", title: "Onayınızı bekleyen işlem" })
+      );
+    });
+
+    it("should not let the preparer approve their own beyanname", async () => {
+      vi.mocked(prisma.approvalRequest.findFirst).mockResolvedValue(
+        pendingRequest({ requestedByUserId: "user-accountant" }) as any
+      );
+
+      await expect(service.approve("tenant-1", "user-preparer", "request-1")).rejects.toThrow(
+        "Bu adımı onaylama yetkiniz yok."
+      );
+      expect(prisma.approvalDecision.create).not.toHaveBeenCalled();
+    });
+
+    it("should record the delegator when a delegate approves the last step", async () => {
+      vi.mocked(prisma.approvalRequest.findFirst).mockResolvedValue(
+        pendingRequest({ currentStep: 2, decisions: [{ userId: "user-accountant", onBehalfOfUserId: null }] }) as any
+      );
+      vi.mocked(prisma.approvalDelegation.findMany).mockResolvedValue([
+        { delegatorUserId: "user-owner", delegateUserId: "user-staff" },
+      ] as any);
+      vi.mocked(prisma.approvalRequest.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.approvalRequest.findUniqueOrThrow).mockResolvedValue(
+        pendingRequest({ currentStep: 2, status: "approved" }) as any
+      );
+
+      const result = await service.approve("tenant-1", "user-staff", "request-1");
+
+      expect(result.status).toBe("approved");
+      expect(prisma.approvalDecision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ step: 2, userId: "user-staff", onBehalfOfUserId: "user-owner" }),
+      });
+      expect(notificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "user-preparer", title: "Onay talebiniz onaylandı" })
+      );
+    });
+  });
+
+  describe("reject", () => {
+    it("should require a reason", async () => {
+      await expect(service.reject("tenant-1", "user-owner", "request-1", " ")).rejects.toThrow("Ret gerekçesi gerekli.");
+    });
+  });
+});
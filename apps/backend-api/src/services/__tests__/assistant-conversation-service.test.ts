@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NotFoundError, ValidationError } from "@repo/shared-utils";
+import { AssistantConversationService } from "../assistant-conversation-service";
+import { kvkkComplianceService } from "../kvkk-compliance-service";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    assistantConversation: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    assistantMessage: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../kvkk-compliance-service", () => ({
+  kvkkComplianceService: {
+    getRetentionSettings: vi.fn(),
+  },
+}));
+
+function messageRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "msg-2",
+    tenantId: "tenant-1",
+    conversationId: "conv-1",
+    role: "assistant",
+    content: "KDV beyannamesi ayın 28'ine kadar verilmelidir.",
+    searchMetrics: null,
+    feedbackRating: null,
+    feedbackComment: null,
+    feedbackAt: null,
+    createdAt: new Date("2026-10-01T09:00:05Z"),
+    citations: [],
+    ...overrides,
+  };
+}
+
+describe("AssistantConversationService", () => {
+  let service: AssistantConversationService;
+
+  beforeEach(() => {
+    service = new AssistantConversationService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(async (operations: any) => Promise.all(operations));
+  });
+
+  describe("recordExchange", () => {
+    it("should store the question, the answer with ranked citations and bump the conversation", async () => {
+      vi.mocked(prisma.assistantMessage.create).mockImplementation(
+        async ({ data }: any) => messageRow({ ...data, citations: [] }) as any
+      );
+
+      await service.recordExchange("tenant-1", "conv-1", {
+        question: "KDV beyannamesi ne zaman verilir?",
+        askedAt: new Date("2026-10-01T09:00:00Z"),
+        answer: "Ayın 28'ine kadar.",
+        citations: [
+          { documentId: "doc-1", invoiceId: "inv-1", transactionId: null, label: "fatura.pdf", similarity: 0.91 },
+          { documentId: "doc-2", invoiceId: null, transactionId: "txn-1", label: "ekstre.pdf", similarity: 0.74 },
+        ],
+      });
+
+      const answer = vi.mocked(prisma.assistantMessage.create).mock.calls[1][0] as any;
+      expect(answer.data.citations.create).toEqual([
+        expect.objectContaining({ tenantId: "tenant-1", rank: 1, documentId: "doc-1", invoiceId: "inv-1" }),
+        expect.objectContaining({ tenantId: "tenant-1", rank: 2, documentId: "doc-2", transactionId: "txn-1" }),
+      ]);
+      expect(prisma.assistantConversation.update).toHaveBeenCalledWith({
+        where: { id: "conv-1" },
+        data: { messageCount: { increment: 2 }, lastMessageAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe("getHistory", () => {
+    it("should refuse a conversation owned by another user", async () => {
+      vi.mocked(prisma.assistantConversation.findFirst).mockResolvedValue(null);
+
+      await expect(service.getHistory("tenant-1", "user-2", "conv-1")).rejects.toThrow(NotFoundError);
+      expect(prisma.assistantMessage.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("submitFeedback", () => {
+    it("should only accept feedback on assistant answers", async () => {
+      vi.mocked(prisma.assistantMessage.findFirst).mockResolvedValue(messageRow({ role: "user" }) as any);
+
+      await expect(
+        service.submitFeedback("tenant-1", "user-1", "msg-1", { rating: "up" })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("should store the rating with a trimmed comment", async () => {
+      vi.mocked(prisma.assistantMessage.findFirst).mockResolvedValue(messageRow() as any);
+      vi.mocked(prisma.assistantMessage.update).mockImplementation(async ({ data }: any) => messageRow(data) as any);
+
+      const message = await service.submitFeedback("tenant-1", "user-1", "msg-2", {
+        rating: "down",
+        comment: "  Tarih yanlış  ",
+      });
+
+      expect(message.feedbackRating).toBe("down");
+      expect(message.feedbackComment).toBe("Tarih yanlış");
+    });
+  });
+
+  describe("exportConversation", () => {
+    it("should write messages, citations and feedback as markdown", async () => {
+      vi.mocked(prisma.assistantConversation.findFirst).mockResolvedValue({
+        id: "conv-1",
+        title: "KDV beyannamesi",
+        type: "GENEL",
+        clientCompanyId: null,
+        messageCount: 2,
+        lastMessageAt: new Date("2026-10-01T09:00:05Z"),
+        createdAt: new Date("2026-10-01T09:00:00Z"),
+        messages: [
+          messageRow({ id: "msg-1", role: "user", content: "KDV beyannamesi ne zaman verilir?" }),
+          messageRow({
+            feedbackRating: "up",
+            feedbackComment: "Net",
+            citations: [
+              {
+                id: "cit-1",
+                rank: 1,
+                documentId: "doc-1",
+                invoiceId: "inv-1",
+                transactionId: null,
+                label: "fatura.pdf",
+                similarity: 0.912,
+                rerankScore: null,
+                snippet: null,
+              },
+            ],
+          }),
+        ],
+      } as any);
+
+      const file = await service.exportConversation("tenant-1", "user-1", "conv-1", "markdown");
+
+      expect(file.fileName).toBe("ai-konusma-2026-10-01-conv-1.md");
+      expect(file.content).toContain("# KDV beyannamesi");
+      expect(file.content).toContain("## Kullanıcı (2026-10-01T09:00:05.000Z)");
+      expect(file.content).toContain("1. fatura.pdf (belge doc-1, fatura inv-1, 91.2%)");
+      expect(file.content).toContain("Geri bildirim: Faydalı - Net");
+    });
+  });
+
+  describe("purgeExpiredConversations", () => {
+    it("should delete conversations past each tenant's retention period", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-10-19T00:00:00Z"));
+      vi.mocked(prisma.assistantConversation.findMany).mockResolvedValue([
+        { tenantId: "tenant-1" },
+        { tenantId: "tenant-2" },
+      ] as any);
+      vi.mocked(kvkkComplianceService.getRetentionSettings)
+        .mockResolvedValueOnce({ aiConversationDays: 30 })
+        .mockResolvedValueOnce({ aiConversationDays: 365 });
+      vi.mocked(prisma.assistantConversation.deleteMany)
+        .mockResolvedValueOnce({ count: 3 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const result = await service.purgeExpiredConversations();
+
+      expect(result).toEqual({ tenantCount: 2, deletedCount: 3 });
+      expect(prisma.assistantConversation.deleteMany).toHaveBeenCalledWith({
+        where: { tenantId: "tenant-1", lastMessageAt: { lt: new Date("2026-09-19T00:00:00Z") } },
+      });
+      vi.useRealTimers();
+    });
+  });
+});
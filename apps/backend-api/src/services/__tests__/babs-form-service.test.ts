@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BaBsFormService, normalizeTaxNumber } from "../babs-form-service";
+import { prisma } from "../../lib/prisma";
+import { exchangeRateService } from "../exchange-rate-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    invoice: {
+      findMany: vi.fn(),
+    },
+    clientCompany: {
+      findMany: vi.fn(),
+    },
+    baBsForm: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    baBsFormLine: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    tenant: {
+      findUnique: vi.fn(),
+    },
+    maliMusavirProfile: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../exchange-rate-service", () => ({
+  exchangeRateService: {
+    getRate: vi.fn(),
+  },
+}));
+
+function invoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "inv-1",
+    externalId: "ABC2026000000001",
+    type: "ALIŞ",
+    currency: "TRY",
+    issueDate: new Date(2026, 2, 10),
+    totalAmount: 3600,
+    taxAmount: 600,
+    netAmount: 3000,
+    counterpartyName: "Tedarikçi A.Ş.",
+    counterpartyTaxNumber: "1111111111",
+    metadata: null,
+    ...overrides,
+  };
+}
+
+describe("BaBsFormService", () => {
+  let service: BaBsFormService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new BaBsFormService();
+  });
+
+  describe("aggregateCounterparties", () => {
+    it("applies the threshold to KDV hariç totals grouped by VKN", async () => {
+      vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+        invoice(),
+        invoice({ id: "inv-2", counterpartyTaxNumber: "111 111 1111", netAmount: 2000, totalAmount: 2400 }),
+        // 5.400 KDV dahil but 4.500 KDV hariç: below the threshold
+        invoice({ id: "inv-3", counterpartyTaxNumber: "2222222222", netAmount: 4500, totalAmount: 5400 }),
+        invoice({ id: "inv-4", counterpartyTaxNumber: null, netAmount: 9000 }),
+      ] as any);
+
+      const result = await service.aggregateCounterparties("tenant-1", "company-1", "BA", "2026-03");
+
+      expect(result.threshold).toBe(5000);
+      expect(result.entries).toEqual([
+        { name: "Tedarikçi A.Ş.", taxNumber: "1111111111", country: "TR", totalAmount: 5000, documentCount: 2 },
+      ]);
+      expect(result.excluded.map((e) => e.invoiceId)).toEqual(["inv-4"]);
+      expect(prisma.invoice.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ type: "ALIŞ", status: { not: "iptal" } }) })
+      );
+    });
+
+    it("converts foreign currency invoices to TRY before the threshold", async () => {
+      vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+        invoice({ currency: "USD", netAmount: 200, totalAmount: 240 }),
+      ] as any);
+      vi.mocked(exchangeRateService.getRate).mockResolvedValue({ buyRate: 40, source: "tcmb" } as any);
+
+      const result = await service.aggregateCounterparties("tenant-1", "company-1", "BA", "2026-03");
+
+      expect(result.entries[0].totalAmount).toBe(8000);
+    });
+  });
+
+  describe("crossCheck", () => {
+    const form = {
+      id: "form-1",
+      clientCompanyId: "company-1",
+      formType: "BA",
+      period: "2026-03",
+      clientCompany: { taxNumber: "9999999999" },
+      lines: [
+        { id: "line-1", counterpartyName: "Kardeş Şirket", counterpartyTaxNumber: "1111111111", totalAmount: 10000, documentCount: 2 },
+        { id: "line-2", counterpartyName: "Dış Tedarikçi", counterpartyTaxNumber: "3333333333", totalAmount: 7000, documentCount: 1 },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.mocked(prisma.baBsForm.findFirst).mockResolvedValue(form as any);
+      vi.mocked(prisma.clientCompany.findMany).mockResolvedValue([
+        { id: "company-2", name: "Kardeş Şirket", taxNumber: "1111111111" },
+        { id: "company-3", name: "Üçüncü Şirket", taxNumber: "4444444444" },
+      ] as any);
+    });
+
+    it("compares our Ba with the other client company's Bs and flags missing lines", async () => {
+      vi.mocked(prisma.baBsForm.findMany).mockResolvedValue([
+        { clientCompanyId: "company-2" },
+        { clientCompanyId: "company-3" },
+      ] as any);
+      vi.mocked(prisma.baBsFormLine.findMany).mockResolvedValue([
+        { totalAmount: 9500, documentCount: 3, form: { clientCompanyId: "company-2" } },
+        { totalAmount: 6000, documentCount: 1, form: { clientCompanyId: "company-3" } },
+      ] as any);
+
+      const result = await service.crossCheck("tenant-1", "form-1");
+
+      expect(result.crossCheckStatus).toBe("mismatched");
+      expect(result.errors.map((e) => [e.counterpartyCompanyId, e.type])).toEqual([
+        ["company-2", "amount"],
+        ["company-2", "document_count"],
+        ["company-3", "missing_in_form"],
+      ]);
+      expect(result.checkedLines).toBe(1);
+      expect(result.externalLines).toBe(1);
+      expect(prisma.baBsFormLine.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["line-1"] } },
+        data: { crossCheckMatch: false },
+      });
+      expect(prisma.baBsFormLine.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["line-2"] } },
+        data: { crossCheckMatch: null },
+      });
+    });
+
+    it("uses the counterparty's invoices when its form is not generated yet", async () => {
+      vi.mocked(prisma.baBsForm.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.baBsFormLine.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+        invoice({ type: "SATIŞ", counterpartyTaxNumber: "9999999999", netAmount: 6000 }),
+        invoice({ id: "inv-2", type: "SATIŞ", counterpartyTaxNumber: "9999999999", netAmount: 4000 }),
+      ] as any);
+
+      const result = await service.crossCheck("tenant-1", "form-1");
+
+      expect(result.crossCheckStatus).toBe("matched");
+      expect(prisma.invoice.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ clientCompanyId: "company-2", type: "SATIŞ" }) })
+      );
+      expect(prisma.baBsFormLine.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["line-1"] } },
+        data: { crossCheckMatch: true },
+      });
+    });
+  });
+
+  describe("exportForm", () => {
+    it("writes one bildirim per counterparty in whole TL", async () => {
+      vi.mocked(prisma.baBsForm.findFirst).mockResolvedValue({
+        id: "form-1",
+        formType: "BS",
+        period: "2026-03",
+        status: "verified",
+        clientCompany: {
+          name: "Acme Tekstil A.Ş.",
+          taxNumber: "1234567890",
+          contactEmail: null,
+          contactPhone: null,
+          metadata: { taxOfficeCode: "034250" },
+        },
+        lines: [
+          { counterpartyName: "Müşteri Ltd.", counterpartyTaxNumber: "1111111111", counterpartyCountry: "TR", documentCount: 3, totalAmount: 12345.67 },
+        ],
+      } as any);
+      vi.mocked(prisma.tenant.findUnique).mockResolvedValue({
+        id: "tenant-1",
+        name: "Yılmaz SMMM Bürosu",
+        taxNumber: "9876543210",
+        email: null,
+        phone: null,
+      } as any);
+      vi.mocked(prisma.maliMusavirProfile.findUnique).mockResolvedValue({
+        licenseType: "SMMM",
+        licenseNumber: "34-12345",
+      } as any);
+
+      const result = await service.exportForm("tenant-1", "form-1");
+
+      expect(result.valid).toBe(true);
+      expect(result.file!.fileName).toBe("1234567890_FORMBS_8_2026-03.xml");
+      expect(result.file!.content.toString("latin1")).toContain(
+        "<bildirim><siraNo>1</siraNo><vkn>1111111111</vkn><soyadi>Müşteri Ltd.</soyadi><ulke>TR</ulke><belgeSayisi>3</belgeSayisi><malHizmetToplamTutari>12345</malHizmetToplamTutari></bildirim>"
+          .replace("ş", "\xFE")
+      );
+    });
+  });
+
+  it("normalizes VKN/TCKN and rejects other lengths", () => {
+    expect(normalizeTaxNumber("123 456 7890")).toBe("1234567890");
+    expect(normalizeTaxNumber("10000000146")).toBe("10000000146");
+    expect(normalizeTaxNumber("12345")).toBeNull();
+    expect(normalizeTaxNumber(null)).toBeNull();
+  });
+});
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  BankReconciliationService,
+  extractCounterparty,
+  findBatchSubset,
+  scoreInvoiceCandidate,
+  type MatchableInvoice,
+  type MatchableStatementLine,
+} from "../bank-reconciliation-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { paymentReminderService } from "../payment-reminder-service";
+import { accountingPeriodService } from "../accounting-period-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompanyBankAccount: {
+      findFirst: vi.fn(),
+    },
+    bankStatementLine: {
+      findMany: vi.fn(),
+    },
+    bankReconciliationMatch: {
+      findMany: vi.fn(),
+    },
+    invoice: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../payment-reminder-service", () => ({
+  paymentReminderService: {
+    syncInvoicePayment: vi.fn(),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock("../accounting-period-service", () => ({
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+    filterWritable: vi.fn(),
+  },
+}));
+
+const line = (overrides: Partial<MatchableStatementLine> = {}): MatchableStatementLine => ({
+  id: "line-1",
+  bookingDate: new Date(2026, 2, 5),
+  description: "EFT ACME TEKSTIL SATIS2026000012 ODEMESI",
+  amount: 1180,
+  remaining: 1180,
+  counterpartyName: "ACME TEKSTİL",
+  counterpartyIban: null,
+  counterpartyTaxNumber: null,
+  ...overrides,
+});
+
+const invoice = (overrides: Partial<MatchableInvoice> = {}): MatchableInvoice => ({
+  id: "inv-1",
+  externalId: "SATIS2026000012",
+  type: "SATIŞ",
+  issueDate: new Date(2026, 2, 1),
+  dueDate: new Date(2026, 2, 31),
+  counterpartyName: "Acme Tekstil A.Ş.",
+  counterpartyTaxNumber: "1234567890",
+  openAmount: 1180,
+  ...overrides,
+});
+
+describe("scoreInvoiceCandidate", () => {
+  it("should score amount, invoice number, name and date", () => {
+    expect(scoreInvoiceCandidate(line(), invoice())).toEqual({
+      confidence: 0.9,
+      reasons: ["amount", "invoice_number", "name", "date"],
+    });
+  });
+
+  it("should prefer the VKN over the name and flag partial amounts", () => {
+    const result = scoreInvoiceCandidate(
+      line({ description: "HAVALE VKN:1234567890", remaining: 500 }),
+      invoice()
+    );
+    expect(result.reasons).toEqual(["partial_amount", "tax_number", "date"]);
+  });
+});
+
+describe("extractCounterparty", () => {
+  it("should read the IBAN and VKN from a description", () => {
+    expect(extractCounterparty("GELEN EFT TR12 0006 2000 0000 0012 3456 7890 VKN: 1234567890")).toEqual({
+      iban: "TR120006200000000012345678",
+      taxNumber: "1234567890",
+    });
+  });
+});
+
+describe("findBatchSubset", () => {
+  it("should find the smallest set of invoices adding up to the amount", () => {
+    const invoices = [
+      invoice({ id: "a", openAmount: 100 }),
+      invoice({ id: "b", openAmount: 250 }),
+      invoice({ id: "c", openAmount: 400 }),
+      invoice({ id: "d", openAmount: 150 }),
+    ];
+    expect(findBatchSubset(650, invoices)?.map((i) => i.id)).toEqual(["b", "c"]);
+    expect(findBatchSubset(1000, invoices)).toBeNull();
+  });
+});
+
+describe("BankReconciliationService", () => {
+  let service: BankReconciliationService;
+  const mockTenantId = "tenant-123";
+  let tx: any;
+
+  const statementLines = [
+    {
+      id: "line-1",
+      bookingDate: new Date(2026, 2, 5),
+      description: "EFT ACME TEKSTIL SATIS2026000012 ODEMESI",
+      amount: 500,
+      matchedAmount: 0,
+      counterpartyName: "ACME TEKSTİL",
+      counterpartyIban: null,
+      counterpartyTaxNumber: null,
+    },
+    {
+      id: "line-2",
+      bookingDate: new Date(2026, 2, 20),
+      description: "EFT ACME TEKSTIL KALAN",
+      amount: 680,
+      matchedAmount: 0,
+      counterpartyName: "ACME TEKSTİL",
+      counterpartyIban: null,
+      counterpartyTaxNumber: null,
+    },
+  ];
+
+  const invoiceRow = {
+    id: "inv-1",
+    externalId: "SATIS2026000012",
+    type: "SATIŞ",
+    status: "kesildi",
+    issueDate: new Date(2026, 2, 1),
+    dueDate: new Date(2026, 2, 31),
+    counterpartyName: "Acme Tekstil A.Ş.",
+    counterpartyTaxNumber: "1234567890",
+    totalAmount: 1180,
+    paidAmount: 0,
+  };
+
+  beforeEach(() => {
+    service = new BankReconciliationService();
+    vi.clearAllMocks();
+
+    vi.mocked(prisma.clientCompanyBankAccount.findFirst).mockResolvedValue({
+      id: "bank-1",
+      clientCompanyId: "client-1",
+      currency: "TRY",
+      ledgerAccountCode: null,
+    } as any);
+    vi.mocked(prisma.bankReconciliationMatch.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([invoiceRow] as any);
+    vi.mocked(accountingPeriodService.assertDateWritable).mockResolvedValue(undefined);
+    vi.mocked(accountingPeriodService.filterWritable).mockImplementation((async (_t: string, _c: string, items: any[]) =>
+      items) as any);
+
+    tx = {
+      bankStatementLine: {
+        findMany: vi.fn().mockImplementation(async (args: any) =>
+          statementLines.filter((l) => args.where.id.in.includes(l.id))
+        ),
+        update: vi.fn(),
+      },
+      invoice: {
+        findMany: vi.fn().mockResolvedValue([invoiceRow]),
+        update: vi.fn(),
+      },
+      bankReconciliationMatch: {
+        createMany: vi.fn(),
+      },
+    };
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+  });
+
+  describe("autoMatch", () => {
+    it("should settle an invoice named in the description and mark it paid", async () => {
+      const fullPayment = { ...statementLines[0], amount: 1180 };
+      vi.mocked(prisma.bankStatementLine.findMany).mockImplementation((async (args: any) =>
+        args.where.transactionId ? [] : [fullPayment]) as any);
+      tx.bankStatementLine.findMany.mockResolvedValue([fullPayment]);
+
+      const result = await service.autoMatch(mockTenantId, "bank-1", "user-1");
+
+      expect(result).toMatchObject({ matchedLines: 1, matchCount: 1, suggestions: [] });
+      expect(tx.bankReconciliationMatch.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ statementLineId: "line-1", invoiceId: "inv-1", amount: 1180, method: "auto" }),
+      ]);
+      expect(tx.bankStatementLine.update).toHaveBeenCalledWith({
+        where: { id: "line-1" },
+        data: { matchedAmount: 1180, status: "matched" },
+      });
+      expect(tx.invoice.update).toHaveBeenCalledWith({
+        where: { id: "inv-1" },
+        data: { paidAmount: 1180, paidAt: fullPayment.bookingDate },
+      });
+      expect(paymentReminderService.syncInvoicePayment).toHaveBeenCalledWith(mockTenantId, "inv-1");
+    });
+
+    it("should apply a partial payment that names the invoice without closing it", async () => {
+      vi.mocked(prisma.bankStatementLine.findMany).mockImplementation((async (args: any) =>
+        args.where.transactionId ? [] : [statementLines[0]]) as any);
+
+      const result = await service.autoMatch(mockTenantId, "bank-1", "user-1");
+
+      expect(result.matchCount).toBe(1);
+      expect(tx.invoice.update).toHaveBeenCalledWith({ where: { id: "inv-1" }, data: { paidAmount: 500 } });
+    });
+
+    it("should leave invoices of a locked month unmatched", async () => {
+      vi.mocked(prisma.bankStatementLine.findMany).mockImplementation((async (args: any) =>
+        args.where.transactionId ? [] : [{ ...statementLines[0], amount: 1180 }]) as any);
+      vi.mocked(accountingPeriodService.filterWritable).mockResolvedValue([]);
+
+      const result = await service.autoMatch(mockTenantId, "bank-1", "user-1");
+
+      expect(accountingPeriodService.filterWritable).toHaveBeenCalledWith(
+        mockTenantId,
+        "client-1",
+        expect.any(Array),
+        expect.any(Function)
+      );
+      expect(result.matchCount).toBe(0);
+      expect(tx.invoice.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createManualMatch", () => {
+    it("should allocate several lines to one invoice", async () => {
+      vi.mocked(prisma.bankStatementLine.findMany).mockResolvedValue(statementLines as any);
+
+      const result = await service.createManualMatch(mockTenantId, "user-1", "bank-1", {
+        statementLineIds: ["line-1", "line-2"],
+        invoiceIds: ["inv-1"],
+      });
+
+      expect(result.matchCount).toBe(2);
+      expect(tx.bankReconciliationMatch.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ statementLineId: "line-1", invoiceId: "inv-1", amount: 500, method: "manual" }),
+        expect.objectContaining({ statementLineId: "line-2", invoiceId: "inv-1", amount: 680, method: "manual" }),
+      ]);
+      expect(tx.invoice.update).toHaveBeenCalledWith({
+        where: { id: "inv-1" },
+        data: { paidAmount: 1180, paidAt: statementLines[1].bookingDate },
+      });
+    });
+
+    it("should reject matching several lines to several targets", async () => {
+      await expect(
+        service.createManualMatch(mockTenantId, "user-1", "bank-1", {
+          statementLineIds: ["line-1", "line-2"],
+          invoiceIds: ["inv-1", "inv-2"],
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to pay an invoice of a locked month", async () => {
+      vi.mocked(prisma.bankStatementLine.findMany).mockResolvedValue([statementLines[0]] as any);
+      vi.mocked(accountingPeriodService.assertDateWritable).mockRejectedValue(
+        new ValidationError("2026-03 dönemi kilitli, bu döneme ait kayıtlar değiştirilemez.")
+      );
+
+      await expect(
+        service.createManualMatch(mockTenantId, "user-1", "bank-1", {
+          statementLineIds: ["line-1"],
+          invoiceIds: ["inv-1"],
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
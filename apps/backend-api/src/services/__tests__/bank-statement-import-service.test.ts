@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BankStatementImportService } from "../bank-statement-import-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+
+const { importTransactions } = vi.hoisted(() => ({ importTransactions: vi.fn() }));
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    clientCompanyBankAccount: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    bankStatementImport: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../../integrations/importers/bank-transaction-importer", () => ({
+  BankTransactionImporter: vi.fn().mockImplementation(() => ({ importTransactions })),
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const IBAN = "TR330006200519786457841326";
+
+function mt940(closing: string): Buffer {
+  return Buffer.from(
+    [
+      ":20:STMT260305",
+      `:25:${IBAN}`,
+      ":28C:64/1",
+      ":60F:C260304TRY10000,00",
+      ":61:2603050305C1180,00NTRFNONREF//EFT2026030500001",
+      ":86:SATIS2026000012 ODEMESI",
+      `:62F:C260305TRY${closing}`,
+      "-",
+    ].join("\n")
+  );
+}
+
+describe("BankStatementImportService", () => {
+  let service: BankStatementImportService;
+  const mockTenantId = "tenant-123";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new BankStatementImportService();
+
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1" } as any);
+    vi.mocked(prisma.clientCompanyBankAccount.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.clientCompanyBankAccount.create).mockImplementation((async (args: any) => ({
+      id: "bank-1",
+      balanceDate: null,
+      ...args.data,
+    })) as any);
+    vi.mocked(prisma.bankStatementImport.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.bankStatementImport.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.bankStatementImport.create).mockResolvedValue({ id: "import-1" } as any);
+    importTransactions.mockResolvedValue({ created: 1, updated: 0, skipped: 0, errors: [] });
+  });
+
+  it("should import a new statement and create the bank account from its IBAN", async () => {
+    const result = await service.importFile(mockTenantId, "user-1", {
+      clientCompanyId: "client-1",
+      fileName: "ekstre.sta",
+      buffer: mt940("11180,00"),
+    });
+
+    expect(prisma.clientCompanyBankAccount.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ clientCompanyId: "client-1", iban: IBAN, bankName: "Garanti BBVA", currency: "TRY" }),
+    });
+    expect(importTransactions).toHaveBeenCalledWith(
+      mockTenantId,
+      [expect.objectContaining({ externalId: "EFT2026030500001", accountIdentifier: IBAN, amount: 1180 })],
+      null,
+      { statementFormat: "mt940" }
+    );
+    expect(prisma.bankStatementImport.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ statementReference: "STMT260305/64/1", openingBalance: 10000, closingBalance: 11180 }),
+    });
+    expect(prisma.clientCompanyBankAccount.update).toHaveBeenCalledWith({
+      where: { id: "bank-1" },
+      data: { currencyBalance: 11180, balanceDate: new Date(Date.UTC(2026, 2, 5)) },
+    });
+    expect(result).toMatchObject({ format: "mt940", duplicates: [], warnings: [] });
+    expect(result.statements[0]).toMatchObject({ importId: "import-1", created: 1 });
+  });
+
+  it("should reject a statement whose balances do not add up", async () => {
+    await expect(
+      service.importFile(mockTenantId, "user-1", {
+        clientCompanyId: "client-1",
+        fileName: "ekstre.sta",
+        buffer: mt940("11000,00"),
+      })
+    ).rejects.toThrow(/bakiye tutmuyor/);
+    expect(importTransactions).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a statement imported before", async () => {
+    vi.mocked(prisma.bankStatementImport.findUnique).mockResolvedValue({ id: "import-0" } as any);
+
+    await expect(
+      service.importFile(mockTenantId, "user-1", {
+        clientCompanyId: "client-1",
+        fileName: "ekstre.sta",
+        buffer: mt940("11180,00"),
+      })
+    ).rejects.toThrow(ValidationError);
+    expect(importTransactions).not.toHaveBeenCalled();
+  });
+
+  it("should warn when the opening balance does not follow the previous statement", async () => {
+    vi.mocked(prisma.bankStatementImport.findFirst).mockResolvedValue({
+      statementReference: "STMT260304/63/1",
+      closingBalance: 9500,
+    } as any);
+
+    const result = await service.importFile(mockTenantId, "user-1", {
+      clientCompanyId: "client-1",
+      fileName: "ekstre.sta",
+      buffer: mt940("11180,00"),
+    });
+
+    expect(result.warnings).toEqual([expect.stringContaining("STMT260304/63/1")]);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import * as XLSX from "xlsx";
+import { ValidationError } from "@repo/shared-utils";
+import { BudgetService, matchBudgetKey, exceedsThreshold, type BudgetKey } from "../budget-service";
+import { parseBudgetWorkbook } from "../budget-excel";
+import { prisma } from "../../lib/prisma";
+import { riskAlertService } from "../risk-alert-service";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma: any = {
+    budget: {
+      findFirst: vi.fn(),
+      update: vi.fn(async ({ data }: any) => ({ id: "budget-2", ...data })),
+      updateMany: vi.fn(),
+      create: vi.fn(async ({ data: { lines, ...data } }: any) => ({ id: "budget-3", createdAt: new Date(), ...data })),
+    },
+    budgetLine: {
+      count: vi.fn(),
+    },
+    transactionLine: {
+      findMany: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock("../risk-alert-service", () => ({
+  riskAlertService: {
+    createAlert: vi.fn(),
+  },
+}));
+
+const account770 = { id: "acc-770", code: "770", name: "Genel Yönetim Giderleri", type: "expense" };
+const account600 = { id: "acc-600", code: "600", name: "Yurt İçi Satışlar", type: "income" };
+const valueSatis = { id: "mm-satis", code: "SATIS", name: "Satış", dimension: { id: "dim-mm", code: "MM", name: "Masraf Merkezi" } };
+
+function budgetLines(account: any, monthly: number, dimensionValue: any = null) {
+  return Array.from({ length: 12 }, (_, index) => ({
+    ledgerAccountId: account.id,
+    ledgerAccount: account,
+    dimensionValueId: dimensionValue?.id ?? null,
+    dimensionValue,
+    month: index + 1,
+    amount: monthly,
+  }));
+}
+
+function posting(code: string, type: string, date: string, debit: number, credit: number, tags: string[] = []) {
+  return {
+    debitAmount: debit,
+    creditAmount: credit,
+    ledgerAccount: { code, type },
+    transaction: { date: new Date(date) },
+    dimensions: tags.map((dimensionValueId) => ({ dimensionValueId })),
+  };
+}
+
+const approvedBudget = {
+  id: "budget-1",
+  tenantId: "tenant-1",
+  clientCompanyId: "client-1",
+  fiscalYear: 2026,
+  version: 1,
+  name: "2026 Bütçesi",
+  status: "approved",
+  alertThresholdPercent: 10,
+  notes: null,
+};
+
+describe("matchBudgetKey", () => {
+  const keys: BudgetKey[] = [
+    { key: "770.01:mm-satis", accountCode: "770.01", dimensionValueId: "mm-satis" },
+    { key: "770.01:", accountCode: "770.01", dimensionValueId: null },
+    { key: "770:", accountCode: "770", dimensionValueId: null },
+  ];
+
+  it("should prefer the most specific account and the tagged line", () => {
+    expect(matchBudgetKey(keys, "770.01.002", ["mm-satis"])).toBe("770.01:mm-satis");
+    expect(matchBudgetKey(keys, "770.01.002", ["mm-uretim"])).toBe("770.01:");
+    expect(matchBudgetKey(keys, "770.02", [])).toBe("770:");
+    expect(matchBudgetKey(keys, "760", [])).toBeNull();
+  });
+});
+
+describe("exceedsThreshold", () => {
+  it("should tolerate overspending up to the threshold", () => {
+    expect(exceedsThreshold(1000, 1100, 10)).toBe(false);
+    expect(exceedsThreshold(1000, 1100.01, 10)).toBe(true);
+    expect(exceedsThreshold(0, 50, 10)).toBe(true);
+    expect(exceedsThreshold(0, 0, 10)).toBe(false);
+  });
+});
+
+describe("parseBudgetWorkbook", () => {
+  function workbook(rows: unknown[][]): Buffer {
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), "Bütçe");
+    return XLSX.write(book, { type: "buffer", bookType: "xlsx" });
+  }
+
+  it("should find the header below a title block and read 12 months", () => {
+    const months = ["Ocak", "Şubat", "Mart", "Nisan", "Mayıs", "Haziran", "Temmuz", "Ağustos", "Eylül", "Ekim", "Kasım", "Aralık"];
+    const sheet = parseBudgetWorkbook(
+      workbook([
+        ["ABC Ltd. 2026 Bütçesi"],
+        [],
+        ["Hesap Kodu", "Hesap Adı", "Boyut", "Değer", ...months, "Toplam"],
+        ["770.01", "Kira", "mm", "satis", ...Array(12).fill(1000), 12000],
+        ["760", "Pazarlama", "", "", "1.250,50", ...Array(11).fill(null), 1250.5],
+        ["Toplam", "", "", "", ...Array(12).fill(0), 0],
+        ["600", "Satışlar", "MM", "", ...Array(12).fill(1)],
+      ])
+    );
+
+    expect(sheet.rows).toEqual([
+      { row: 4, accountCode: "770.01", dimensionCode: "MM", valueCode: "SATIS", amounts: Array(12).fill(1000) },
+      { row: 5, accountCode: "760", dimensionCode: null, valueCode: null, amounts: [1250.5, ...Array(11).fill(0)] },
+    ]);
+    expect(sheet.errors).toEqual([{ row: 7, message: "Boyut ve değer kodu birlikte girilmeli." }]);
+  });
+
+  it("should reject a sheet without month columns", () => {
+    expect(() => parseBudgetWorkbook(workbook([["Hesap Kodu", "Tutar"], ["770", 100]]))).toThrow(ValidationError);
+  });
+});
+
+describe("BudgetService", () => {
+  let service: BudgetService;
+
+  beforeEach(() => {
+    service = new BudgetService();
+    vi.clearAllMocks();
+  });
+
+  describe("getVariance", () => {
+    it("should compare the month and year to date per budget line", async () => {
+      vi.mocked(prisma.budget.findFirst).mockResolvedValue({
+        ...approvedBudget,
+        lines: [...budgetLines(account770, 1000), ...budgetLines(account770, 400, valueSatis), ...budgetLines(account600, 5000)],
+      } as any);
+      vi.mocked(prisma.transactionLine.findMany).mockResolvedValue([
+        posting("770.01", "expense", "2026-02-10", 900, 0),
+        posting("770.01", "expense", "2026-03-05", 1500, 0),
+        posting("770.01", "expense", "2026-03-06", 0, 100),
+        posting("770.02", "expense", "2026-03-07", 600, 0, ["mm-satis"]),
+        posting("600.01", "income", "2026-03-15", 0, 5500),
+      ] as any);
+
+      const variance = await service.getVariance("tenant-1", "budget-1", 3);
+
+      const [income, general, sales] = variance.rows;
+      expect(income).toMatchObject({ accountCode: "600", budget: 5000, actual: 5500, variance: 500, favorable: true, overThreshold: false });
+      expect(general).toMatchObject({
+        accountCode: "770",
+        dimensionValueId: null,
+        budget: 1000,
+        actual: 1400,
+        variance: 400,
+        variancePercent: 40,
+        ytdBudget: 3000,
+        ytdActual: 2300,
+        favorable: false,
+        overThreshold: true,
+      });
+      expect(sales).toMatchObject({ dimensionValueId: "mm-satis", budget: 400, actual: 600, overThreshold: true });
+      expect(variance.totals).toMatchObject({ incomeActual: 5500, expenseBudget: 1400, expenseActual: 2000 });
+    });
+
+    it("should reject a month outside 1-12", async () => {
+      await expect(service.getVariance("tenant-1", "budget-1", 13)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("approve", () => {
+    it("should supersede the previously approved version of the year", async () => {
+      vi.mocked(prisma.budget.findFirst).mockResolvedValue({ ...approvedBudget, id: "budget-2", version: 2, status: "draft" } as any);
+      vi.mocked(prisma.budgetLine.count).mockResolvedValue(24);
+
+      const approved = await service.approve("tenant-1", "user-1", "budget-2");
+
+      expect(prisma.budget.updateMany).toHaveBeenCalledWith({
+        where: { tenantId: "tenant-1", clientCompanyId: "client-1", fiscalYear: 2026, status: "approved" },
+        data: { status: "superseded" },
+      });
+      expect(approved.status).toBe("approved");
+    });
+
+    it("should refuse to change an approved budget", async () => {
+      vi.mocked(prisma.budget.findFirst).mockResolvedValue(approvedBudget as any);
+
+      await expect(service.approve("tenant-1", "user-1", "budget-1")).rejects.toThrow(
+        "Onaylanmış bütçe değiştirilemez"
+      );
+    });
+  });
+
+  describe("revise", () => {
+    it("should copy the approved lines into the next version", async () => {
+      vi.mocked(prisma.budget.findFirst)
+        .mockResolvedValueOnce({ ...approvedBudget, lines: budgetLines(account770, 1000).slice(0, 2) } as any)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ version: 1 } as any);
+
+      const revision = await service.revise("tenant-1", "user-1", "budget-1");
+
+      const data = vi.mocked(prisma.budget.create).mock.calls[0][0].data as any;
+      expect(data).toMatchObject({ version: 2, revisedFromId: "budget-1", name: "2026 Bütçesi - Revize 1" });
+      expect(data.lines.create).toHaveLength(2);
+      expect(revision.version).toBe(2);
+    });
+  });
+
+  describe("checkThresholds", () => {
+    it("should raise one BUDGET_EXCEEDED alert listing the overrun accounts", async () => {
+      vi.mocked(prisma.budget.findFirst)
+        .mockResolvedValueOnce(approvedBudget as any)
+        .mockResolvedValueOnce({ ...approvedBudget, lines: budgetLines(account770, 1000) } as any);
+      vi.mocked(prisma.transactionLine.findMany).mockResolvedValue([
+        posting("770.01", "expense", "2026-03-05", 1500, 0),
+      ] as any);
+
+      const result = await service.checkThresholds("tenant-1", "client-1", "2026-03");
+
+      expect(result.exceeded).toHaveLength(1);
+      expect(riskAlertService.createAlert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: "tenant-1",
+          clientCompanyId: "client-1",
+          type: "BUDGET_EXCEEDED",
+          title: "2026-03 bütçe aşımı",
+          severity: "high",
+        })
+      );
+    });
+
+    it("should do nothing without an approved budget", async () => {
+      vi.mocked(prisma.budget.findFirst).mockResolvedValue(null);
+
+      const result = await service.checkThresholds("tenant-1", "client-1", "2026-03");
+
+      expect(result).toEqual({ budgetId: null, period: "2026-03", exceeded: [] });
+      expect(riskAlertService.createAlert).not.toHaveBeenCalled();
+    });
+  });
+});
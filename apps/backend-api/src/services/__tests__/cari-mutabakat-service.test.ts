@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { CariMutabakatService, buildMutabakatToken, verifyMutabakatToken } from "../cari-mutabakat-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { documentService } from "../document-service";
+import { taskService } from "../task-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    invoice: {
+      findMany: vi.fn(),
+    },
+    counterpartyPayment: {
+      findMany: vi.fn(async () => []),
+    },
+    cariMutabakat: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../kdv-calculation-service", () => ({
+  kdvCalculationService: {
+    tryRate: vi.fn(async () => 1),
+  },
+}));
+
+vi.mock("../document-service", () => ({
+  documentService: {
+    uploadDocument: vi.fn(),
+  },
+}));
+
+vi.mock("../task-service", () => ({
+  taskService: {
+    createTask: vi.fn(),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+function invoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "inv-1",
+    externalId: "ABC2026000000001",
+    type: "SATIŞ",
+    currency: "TRY",
+    issueDate: new Date(2026, 0, 10),
+    totalAmount: 1200,
+    counterpartyName: "Müşteri Ltd.",
+    counterpartyTaxNumber: "1111111111",
+    metadata: null,
+    reconciliationMatches: [],
+    ...overrides,
+  };
+}
+
+const pendingRequest = {
+  id: "cm-1",
+  tenantId: "tenant-1",
+  clientCompanyId: "client-1",
+  counterpartyName: "Müşteri Ltd.",
+  counterpartyTaxNumber: "1111111111",
+  asOfDate: new Date(2026, 2, 31),
+  balance: 5000,
+  status: "pending",
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  createdByUserId: "user-1",
+};
+
+describe("mutabakat link token", () => {
+  it("should only accept the signature of the same request", () => {
+    const token = buildMutabakatToken("cm-1");
+
+    expect(verifyMutabakatToken(token)).toBe("cm-1");
+    expect(verifyMutabakatToken(token.replace("cm-1", "cm-2"))).toBeNull();
+    expect(verifyMutabakatToken("cm-1")).toBeNull();
+  });
+});
+
+describe("CariMutabakatService", () => {
+  let service: CariMutabakatService;
+
+  beforeEach(() => {
+    service = new CariMutabakatService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({
+      id: "client-1",
+      name: "Acme Tekstil A.Ş.",
+      taxNumber: "1234567890",
+    } as any);
+  });
+
+  it("should build the ekstre from invoices and their matched payments", async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      invoice({
+        reconciliationMatches: [
+          { amount: 1000, statementLine: { bookingDate: new Date(2026, 1, 5), currency: "TRY", description: "EFT" } },
+        ],
+      }),
+      invoice({ id: "inv-2", externalId: "XYZ2026000000007", type: "ALIŞ", totalAmount: 300, counterpartyTaxNumber: "111 111 1111", issueDate: new Date(2026, 0, 20) }),
+      invoice({ id: "inv-3", counterpartyTaxNumber: "2222222222", totalAmount: 9999 }),
+    ] as any);
+
+    const statement = await service.getStatement("tenant-1", "client-1", "1111111111", new Date(2026, 2, 31));
+
+    expect(statement.lines.map((l) => [l.description, l.debit, l.credit, l.balance])).toEqual([
+      ["Satış faturası", 1200, 0, 1200],
+      ["Alış faturası", 0, 300, 900],
+      ["Tahsilat", 0, 1000, -100],
+    ]);
+    expect(statement.totalDebit).toBe(1200);
+    expect(statement.totalCredit).toBe(1300);
+    expect(statement.balance).toBe(-100);
+  });
+
+  it("should store a dispute as documents and open a task for the sender", async () => {
+    vi.mocked(prisma.cariMutabakat.findUnique).mockResolvedValue(pendingRequest as any);
+    vi.mocked(prisma.cariMutabakat.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.cariMutabakat.update).mockImplementation((async (args: any) => ({ ...pendingRequest, ...args.data })) as any);
+    vi.mocked(documentService.uploadDocument)
+      .mockResolvedValueOnce({ id: "doc-attachment" } as any)
+      .mockResolvedValueOnce({ id: "doc-response" } as any);
+    vi.mocked(taskService.createTask).mockResolvedValue({ id: "task-1" } as any);
+
+    const result = await service.respond(buildMutabakatToken("cm-1"), {
+      decision: "dispute",
+      responderName: "Ayşe Yılmaz",
+      responseBalance: 4200,
+      note: "15.03 tarihli ödememiz işlenmemiş",
+      file: { buffer: Buffer.from("%PDF-1.4"), originalname: "ekstre.pdf", mimetype: "application/pdf", size: 8 },
+    });
+
+    expect(result.status).toBe("disputed");
+    expect(documentService.uploadDocument).toHaveBeenCalledTimes(2);
+    expect(documentService.uploadDocument).toHaveBeenCalledWith(
+      "tenant-1",
+      "user-1",
+      expect.objectContaining({ clientCompanyId: "client-1", uploadSource: "counterparty_response" })
+    );
+    expect(taskService.createTask).toHaveBeenCalledWith(
+      "tenant-1",
+      expect.objectContaining({ clientCompanyId: "client-1", assignedToUserId: "user-1", priority: "high" })
+    );
+    expect(prisma.cariMutabakat.updateMany).toHaveBeenCalledWith({
+      where: { id: "cm-1", status: "pending", expiresAt: { gt: expect.any(Date) } },
+      data: expect.objectContaining({ status: "disputed", responseBalance: 4200 }),
+    });
+    expect(prisma.cariMutabakat.update).toHaveBeenCalledWith({
+      where: { id: "cm-1" },
+      data: expect.objectContaining({
+        responseDocumentId: "doc-response",
+        attachmentDocumentId: "doc-attachment",
+        taskId: "task-1",
+      }),
+    });
+  });
+
+  it("should not accept answers after the link expired or without the disputed balance", async () => {
+    vi.mocked(prisma.cariMutabakat.findUnique).mockResolvedValue({
+      ...pendingRequest,
+      expiresAt: new Date(Date.now() - 1000),
+    } as any);
+    await expect(
+      service.respond(buildMutabakatToken("cm-1"), { decision: "confirm", responderName: "Ayşe Yılmaz" })
+    ).rejects.toThrow(ValidationError);
+
+    vi.mocked(prisma.cariMutabakat.findUnique).mockResolvedValue(pendingRequest as any);
+    await expect(
+      service.respond(buildMutabakatToken("cm-1"), { decision: "dispute", responderName: "Ayşe Yılmaz" })
+    ).rejects.toThrow(ValidationError);
+
+    expect(documentService.uploadDocument).not.toHaveBeenCalled();
+    expect(prisma.cariMutabakat.update).not.toHaveBeenCalled();
+  });
+
+  it("should not serve the ekstre PDF after the link expired", async () => {
+    vi.mocked(prisma.cariMutabakat.findUnique).mockResolvedValue({
+      ...pendingRequest,
+      expiresAt: new Date(Date.now() - 1000),
+    } as any);
+
+    await expect(service.getPublicStatementPdf(buildMutabakatToken("cm-1"))).rejects.toThrow(ValidationError);
+    expect(prisma.invoice.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should store a double-submitted answer only once", async () => {
+    vi.mocked(prisma.cariMutabakat.findUnique).mockResolvedValue(pendingRequest as any);
+    vi.mocked(prisma.cariMutabakat.updateMany).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    vi.mocked(documentService.uploadDocument).mockResolvedValue({ id: "doc-response" } as any);
+    vi.mocked(taskService.createTask).mockResolvedValue({ id: "task-1" } as any);
+    const answer = { decision: "dispute" as const, responderName: "Ayşe Yılmaz", responseBalance: 4200 };
+
+    const results = await Promise.allSettled([
+      service.respond(buildMutabakatToken("cm-1"), answer),
+      service.respond(buildMutabakatToken("cm-1"), answer),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(documentService.uploadDocument).toHaveBeenCalledTimes(1);
+    expect(taskService.createTask).toHaveBeenCalledTimes(1);
+  });
+
+  it("should take a new answer when storing the previous one failed", async () => {
+    vi.mocked(prisma.cariMutabakat.findUnique).mockResolvedValue(pendingRequest as any);
+    vi.mocked(prisma.cariMutabakat.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(documentService.uploadDocument).mockRejectedValue(new Error("Depolama hatası"));
+
+    await expect(
+      service.respond(buildMutabakatToken("cm-1"), { decision: "confirm", responderName: "Ayşe Yılmaz" })
+    ).rejects.toThrow("Depolama hatası");
+    expect(prisma.cariMutabakat.update).toHaveBeenCalledWith({
+      where: { id: "cm-1" },
+      data: { status: "pending", respondedAt: null, responderName: null, responseBalance: null, responseNote: null },
+    });
+    expect(taskService.createTask).not.toHaveBeenCalled();
+  });
+
+  it("should show only the status behind an expired link", async () => {
+    vi.mocked(prisma.cariMutabakat.findUnique).mockResolvedValue({
+      ...pendingRequest,
+      expiresAt: new Date(Date.now() - 1000),
+    } as any);
+
+    const view = await service.getPublicRequest(buildMutabakatToken("cm-1"));
+
+    expect(view).toEqual({
+      status: "pending",
+      expired: true,
+      clientCompany: { name: "Acme Tekstil A.Ş." },
+      counterpartyName: "Müşteri Ltd.",
+      asOfDate: pendingRequest.asOfDate,
+      expiresAt: expect.any(Date),
+      respondedAt: undefined,
+    });
+    expect(prisma.invoice.findMany).not.toHaveBeenCalled();
+  });
+});
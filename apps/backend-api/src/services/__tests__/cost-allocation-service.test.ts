@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import { CostAllocationService, splitAmount } from "../cost-allocation-service";
+import { prisma } from "../../lib/prisma";
+import { accountingPeriodService } from "../accounting-period-service";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma: any = {
+    allocationRule: {
+      findFirst: vi.fn(),
+    },
+    allocationRun: {
+      findUnique: vi.fn(),
+      create: vi.fn(async ({ data }: any) => ({ id: "run-1", createdAt: new Date(), ...data })),
+    },
+    transactionLine: {
+      findMany: vi.fn(),
+    },
+    transaction: {
+      create: vi.fn(async () => ({ id: "tx-1" })),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../accounting-period-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../accounting-period-service")>()),
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const rule = {
+  id: "rule-1",
+  tenantId: "tenant-1",
+  clientCompanyId: "client-1",
+  name: "Genel yönetim gideri",
+  sourceAccountCode: "770",
+  dimensionId: "dim-mm",
+  isActive: true,
+  targets: [
+    { dimensionValueId: "mm-uretim", percentage: 50 },
+    { dimensionValueId: "mm-satis", percentage: 33.3333 },
+    { dimensionValueId: "mm-idari", percentage: 16.6667 },
+  ],
+};
+
+function line(ledgerAccountId: string, code: string, debit: number, credit = 0) {
+  return { ledgerAccountId, debitAmount: debit, creditAmount: credit, ledgerAccount: { code, name: code } };
+}
+
+describe("splitAmount", () => {
+  it("should give the rounding difference to the last share", () => {
+    expect(splitAmount(1000, [33.3333, 33.3333, 33.3334])).toEqual([333.33, 333.33, 333.34]);
+    expect(splitAmount(0.1, [50, 50])).toEqual([0.05, 0.05]);
+    expect(splitAmount(-100, [70, 30])).toEqual([-70, -30]);
+  });
+});
+
+describe("CostAllocationService", () => {
+  let service: CostAllocationService;
+
+  beforeEach(() => {
+    service = new CostAllocationService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.allocationRule.findFirst).mockResolvedValue(rule as any);
+    vi.mocked(prisma.allocationRun.findUnique).mockResolvedValue(null);
+  });
+
+  describe("preview", () => {
+    it("should net the untagged postings of the pool accounts", async () => {
+      vi.mocked(prisma.transactionLine.findMany).mockResolvedValue([
+        line("acc-770-01", "770.01", 900),
+        line("acc-770-01", "770.01", 0, 300),
+        line("acc-770-02", "770.02", 300),
+      ] as any);
+
+      const preview = await service.preview("tenant-1", "rule-1", "2026-03");
+
+      expect(preview.amount).toBe(900);
+      expect(preview.accounts.map((account) => [account.code, account.amount])).toEqual([
+        ["770.01", 600],
+        ["770.02", 300],
+      ]);
+      expect(preview.accounts[0].splits.map((split) => split.amount)).toEqual([300, 200, 100]);
+      expect(prisma.transactionLine.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ dimensions: { none: { dimensionId: "dim-mm" } } }),
+        })
+      );
+    });
+  });
+
+  describe("run", () => {
+    it("should credit the pool untagged and debit it per masraf merkezi", async () => {
+      vi.mocked(prisma.transactionLine.findMany).mockResolvedValue([line("acc-770-01", "770.01", 1000)] as any);
+
+      const run = await service.run("tenant-1", "user-1", "rule-1", "2026-03");
+
+      expect(accountingPeriodService.assertDateWritable).toHaveBeenCalledWith(
+        "tenant-1",
+        "client-1",
+        new Date(2026, 3, 0, 23, 59, 59, 999)
+      );
+      const data = vi.mocked(prisma.transaction.create).mock.calls[0][0].data as any;
+      expect(data).toMatchObject({ source: "allocation", referenceNo: "DGT-2026-03", clientCompanyId: "client-1" });
+      expect(data.lines.create).toEqual([
+        expect.objectContaining({ ledgerAccountId: "acc-770-01", debitAmount: 0, creditAmount: 1000 }),
+        expect.objectContaining({
+          debitAmount: 500,
+          dimensions: { create: [{ tenantId: "tenant-1", dimensionId: "dim-mm", dimensionValueId: "mm-uretim" }] },
+        }),
+        expect.objectContaining({ debitAmount: 333.33 }),
+        expect.objectContaining({ debitAmount: 166.67 }),
+      ]);
+      expect(run).toMatchObject({ period: "2026-03", amount: 1000, transactionId: "tx-1" });
+    });
+
+    it("should refuse a month that was already allocated", async () => {
+      vi.mocked(prisma.transactionLine.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.allocationRun.findUnique).mockResolvedValue({
+        id: "run-0",
+        ruleId: "rule-1",
+        period: "2026-03",
+        amount: 1000,
+        transactionId: "tx-0",
+        createdAt: new Date(),
+      } as any);
+
+      await expect(service.run("tenant-1", "user-1", "rule-1", "2026-03")).rejects.toThrow(ValidationError);
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import { DimensionService, mergeLineDimensions, accountCoveredBy } from "../dimension-service";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    dimensionValue: {
+      findMany: vi.fn(),
+    },
+    dimensionDefault: {
+      findMany: vi.fn(),
+    },
+    invoice: {
+      findFirst: vi.fn(),
+    },
+    invoiceLineDimension: {
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+const costCenter = { id: "dim-mm", name: "Masraf Merkezi", allowMultiple: false, isActive: true };
+const tags = { id: "dim-tag", name: "Etiket", allowMultiple: true, isActive: true };
+
+function value(id: string, dimension: typeof costCenter, name = id) {
+  return { id, name, dimensionId: dimension.id, isActive: true, dimension };
+}
+
+function accountDefault(code: string, valueId: string, dimensionId: string, clientCompanyId: string | null = null) {
+  return {
+    ledgerAccount: { code, clientCompanyId },
+    dimensionValue: { id: valueId, dimensionId },
+  };
+}
+
+describe("mergeLineDimensions", () => {
+  it("should only fill the dimensions the line has no value for", () => {
+    const merged = mergeLineDimensions(
+      [{ dimensionId: "dim-mm", dimensionValueId: "mm-satis" }],
+      [
+        { dimensionId: "dim-mm", dimensionValueId: "mm-genel" },
+        { dimensionId: "dim-prj", dimensionValueId: "prj-a" },
+      ]
+    );
+
+    expect(merged).toEqual([
+      { dimensionId: "dim-mm", dimensionValueId: "mm-satis" },
+      { dimensionId: "dim-prj", dimensionValueId: "prj-a" },
+    ]);
+  });
+});
+
+describe("accountCoveredBy", () => {
+  it("should cover the account and its sub-accounts only", () => {
+    expect(accountCoveredBy("770", "770")).toBe(true);
+    expect(accountCoveredBy("770.01.003", "770")).toBe(true);
+    expect(accountCoveredBy("7701", "770")).toBe(false);
+  });
+});
+
+describe("DimensionService", () => {
+  let service: DimensionService;
+
+  beforeEach(() => {
+    service = new DimensionService();
+    vi.clearAllMocks();
+  });
+
+  describe("resolveValues", () => {
+    it("should reject two values of a single-value dimension on one line", async () => {
+      vi.mocked(prisma.dimensionValue.findMany).mockResolvedValue([
+        value("mm-satis", costCenter),
+        value("mm-uretim", costCenter),
+      ] as any);
+
+      await expect(service.resolveValues("tenant-1", ["mm-satis", "mm-uretim"])).rejects.toThrow(ValidationError);
+    });
+
+    it("should accept several tags", async () => {
+      vi.mocked(prisma.dimensionValue.findMany).mockResolvedValue([value("tag-a", tags), value("tag-b", tags)] as any);
+
+      const result = await service.resolveValues("tenant-1", ["tag-a", "tag-b"]);
+
+      expect(result).toEqual([
+        { dimensionId: "dim-tag", dimensionValueId: "tag-a" },
+        { dimensionId: "dim-tag", dimensionValueId: "tag-b" },
+      ]);
+    });
+
+    it("should reject values of another tenant", async () => {
+      vi.mocked(prisma.dimensionValue.findMany).mockResolvedValue([]);
+
+      await expect(service.resolveValues("tenant-1", ["foreign"])).rejects.toThrow(
+        "Bazı boyut değerleri geçersiz"
+      );
+    });
+  });
+
+  describe("accountDefaults", () => {
+    it("should prefer the most specific account's default per dimension", async () => {
+      vi.mocked(prisma.dimensionDefault.findMany).mockResolvedValue([
+        accountDefault("770", "mm-genel", "dim-mm"),
+        accountDefault("770.01", "mm-satis", "dim-mm"),
+        accountDefault("770", "prj-genel", "dim-prj"),
+      ] as any);
+
+      const defaults = await service.accountDefaults("tenant-1", [
+        { id: "acc-770-01-001", code: "770.01.001" },
+        { id: "acc-770-02", code: "770.02" },
+        { id: "acc-760", code: "760" },
+      ]);
+
+      expect(defaults.get("acc-770-01-001")).toEqual([
+        { dimensionId: "dim-mm", dimensionValueId: "mm-satis" },
+        { dimensionId: "dim-prj", dimensionValueId: "prj-genel" },
+      ]);
+      expect(defaults.get("acc-770-02")).toEqual([
+        { dimensionId: "dim-mm", dimensionValueId: "mm-genel" },
+        { dimensionId: "dim-prj", dimensionValueId: "prj-genel" },
+      ]);
+      expect(defaults.has("acc-760")).toBe(false);
+    });
+
+    it("should skip defaults set on another client company's account", async () => {
+      vi.mocked(prisma.dimensionDefault.findMany).mockResolvedValue([
+        accountDefault("770", "mm-genel", "dim-mm", "client-2"),
+      ] as any);
+
+      const defaults = await service.accountDefaults("tenant-1", [
+        { id: "acc-770-01", code: "770.01", clientCompanyId: "client-1" },
+      ]);
+
+      expect(defaults.size).toBe(0);
+    });
+  });
+
+  describe("applyInvoiceDefaults", () => {
+    it("should add the cari kart defaults to lines missing that dimension", async () => {
+      vi.mocked(prisma.invoice.findFirst).mockResolvedValue({
+        counterpartyId: "cp-1",
+        lines: [
+          { id: "line-1", dimensions: [] },
+          { id: "line-2", dimensions: [{ dimensionId: "dim-mm", dimensionValueId: "mm-uretim" }] },
+        ],
+      } as any);
+      vi.mocked(prisma.dimensionDefault.findMany).mockResolvedValue([
+        { dimensionValue: { id: "mm-satis", dimensionId: "dim-mm" } },
+      ] as any);
+
+      const updated = await service.applyInvoiceDefaults("tenant-1", "invoice-1");
+
+      expect(updated).toBe(1);
+      expect(prisma.invoiceLineDimension.createMany).toHaveBeenCalledWith({
+        data: [{ tenantId: "tenant-1", invoiceLineId: "line-1", dimensionId: "dim-mm", dimensionValueId: "mm-satis" }],
+        skipDuplicates: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import AdmZip from "adm-zip";
+import { EBeyannameService } from "../e-beyanname-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    beyanname: {
+      findMany: vi.fn(),
+    },
+    tenant: {
+      findUnique: vi.fn(),
+    },
+    maliMusavirProfile: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+const clientCompany = {
+  id: "company-1",
+  name: "Acme Tekstil Ticaret A.Ş.",
+  taxNumber: "1234567890",
+  contactEmail: "muhasebe@acme.com.tr",
+  contactPhone: "0212 555 00 00",
+  metadata: { taxOfficeCode: "034250" },
+};
+
+function kdvBeyanname(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "bey-1",
+    type: "KDV",
+    period: "2026-03",
+    status: "reviewed",
+    calculatedAmount: 310,
+    deductibleAmount: 110,
+    netPayable: 200,
+    carryForward: 0,
+    calculationData: {
+      form: "KDV1",
+      sales: {
+        byRate: [{ vatRate: 0.2, base: 1000, vat: 200 }],
+        partialWithholding: [
+          { code: "603", vatRate: 0.2, withholdingRate: 0.7, base: 1000, vat: 200, withheldVat: 140, declaredVat: 60 },
+        ],
+        fullWithholding: [],
+        totalBase: 2000,
+        calculatedVat: 260,
+      },
+      deductions: { previousCarryForward: 30, purchaseVat: 80, responsibleVatPaid: 0, totalDeductions: 110 },
+      exemptions: [],
+      result: { payable: 200, carryForward: 0, refundableVat: 140, refundClaim: 0 },
+    },
+    clientCompany,
+    ...overrides,
+  };
+}
+
+describe("EBeyannameService", () => {
+  let service: EBeyannameService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new EBeyannameService();
+    vi.mocked(prisma.tenant.findUnique).mockResolvedValue({
+      id: "tenant-1",
+      name: "Yılmaz SMMM Bürosu",
+      taxNumber: "9876543210",
+      email: "ofis@yilmazsmmm.com",
+      phone: null,
+    } as any);
+    vi.mocked(prisma.maliMusavirProfile.findUnique).mockResolvedValue({
+      licenseType: "SMMM",
+      licenseNumber: "34-12345",
+    } as any);
+  });
+
+  it("exports a reviewed KDV beyanname with mükellef, hazırlayan and KDV-1 sections", async () => {
+    vi.mocked(prisma.beyanname.findMany).mockResolvedValue([kdvBeyanname()] as any);
+
+    const result = await service.exportBeyanname("tenant-1", "bey-1");
+
+    expect(result.valid).toBe(true);
+    expect(result.file!.fileName).toBe("1234567890_KDV1_43_2026-03.xml");
+    const xml = result.file!.content.toString("latin1");
+    expect(xml).toContain('<?xml version="1.0" encoding="ISO-8859-9"?>');
+    expect(xml).toContain("<donem><tip>aylik</tip><yil>2026</yil><ay>03</ay></donem>");
+    expect(xml).toContain("<vdKodu>034250</vdKodu>");
+    expect(xml).toContain("<mukellef><vkn>1234567890</vkn>");
+    expect(xml).toContain("<sifat>SMMM</sifat><sicilNo>34-12345</sicilNo>");
+    expect(xml).toContain("<islemTuru>603</islemTuru><matrah>1000.00</matrah><kdvOrani>20</kdvOrani><tevkifatOrani>7/10</tevkifatOrani>");
+    expect(xml).toContain("<odenmesiGerekenKDV>200.00</odenmesiGerekenKDV>");
+    // Turkish letters are written in ISO-8859-9
+    expect(result.file!.content.includes(Buffer.from("A.\xDE.", "latin1"))).toBe(true);
+  });
+
+  it("returns schema errors per field instead of a file", async () => {
+    vi.mocked(prisma.beyanname.findMany).mockResolvedValue([
+      kdvBeyanname({ clientCompany: { ...clientCompany, metadata: {} }, calculationData: {} }),
+    ] as any);
+    vi.mocked(prisma.maliMusavirProfile.findUnique).mockResolvedValue(null);
+
+    const result = await service.exportBeyanname("tenant-1", "bey-1");
+
+    expect(result.valid).toBe(false);
+    expect(result.file).toBeNull();
+    expect(result.errors.map((e) => e.field)).toEqual(["idari.vdKodu", "hazirlayan.sicilNo", "ozel"]);
+  });
+
+  it("rejects beyannameler that are not reviewed yet", async () => {
+    vi.mocked(prisma.beyanname.findMany).mockResolvedValue([kdvBeyanname({ status: "calculated" })] as any);
+
+    await expect(service.exportBeyanname("tenant-1", "bey-1")).rejects.toThrow(ValidationError);
+  });
+
+  it("zips the period's reviewed beyannameler and lists the invalid ones", async () => {
+    vi.mocked(prisma.beyanname.findMany).mockResolvedValue([
+      kdvBeyanname(),
+      kdvBeyanname({ id: "bey-2", type: "MUHTASAR", calculationData: {} }),
+      kdvBeyanname({ id: "bey-3", type: "DAMGA" }),
+    ] as any);
+
+    const result = await service.exportPeriod("tenant-1", "2026-03");
+
+    expect(result.exported).toBe(1);
+    expect(result.skipped.map((s) => s.beyannameId)).toEqual(["bey-2"]);
+    const entries = new AdmZip(result.content).getEntries().map((entry) => entry.entryName);
+    expect(entries).toEqual(["1234567890_KDV1_43_2026-03.xml", "dogrulama-hatalari.json"]);
+    expect(prisma.beyanname.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tenantId: "tenant-1", period: "2026-03", status: "reviewed" } })
+    );
+  });
+});
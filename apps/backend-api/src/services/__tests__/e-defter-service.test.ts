@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { EDefterService } from "../e-defter-service";
+import { validateEDefterDocument, type EDefterHeader } from "../e-defter-xbrl";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    transaction: {
+      findMany: vi.fn(),
+    },
+    eDefterLedger: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      upsert: vi.fn(),
+      count: vi.fn(),
+    },
+    eDefterFile: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const mockUploadObject = vi.fn();
+vi.mock("@repo/config", () => ({
+  getStorage: vi.fn(() => ({
+    uploadObject: (...args: any[]) => mockUploadObject(...args),
+    getObjectStream: vi.fn(),
+    deleteObject: vi.fn(),
+    getObjectUrl: vi.fn(),
+  })),
+}));
+
+function transaction(day: number, referenceNo: string, amount: number) {
+  return {
+    id: `t-${referenceNo}`,
+    date: new Date(2026, 1, day),
+    referenceNo,
+    description: `Satış ${referenceNo}`,
+    lines: [
+      { debitAmount: amount, creditAmount: 0, description: null, ledgerAccount: { code: "100", name: "Kasa" } },
+      { debitAmount: 0, creditAmount: amount, description: null, ledgerAccount: { code: "600.01", name: "Yurtiçi Satışlar - Perakende" } },
+    ],
+  };
+}
+
+describe("EDefterService", () => {
+  let service: EDefterService;
+  const mockTenantId = "tenant-123";
+  const february = {
+    startDate: new Date(2026, 1, 1),
+    endDate: new Date(2026, 1, 28),
+    periodType: "monthly" as const,
+  };
+  let createdFiles: any[];
+
+  beforeEach(() => {
+    service = new EDefterService();
+    vi.clearAllMocks();
+    createdFiles = [];
+
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({
+      id: "client-1",
+      name: "Örnek Ticaret A.Ş.",
+      taxNumber: "1234567890",
+      address: "İstanbul",
+      metadata: {},
+    } as any);
+    vi.mocked(prisma.transaction.findMany).mockResolvedValue([
+      transaction(3, "FT-1", 1000),
+      transaction(10, "FT-2", 2500),
+    ] as any);
+    vi.mocked(prisma.eDefterLedger.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.eDefterLedger.findFirst).mockResolvedValue({
+      periodEnd: new Date(2026, 0, 31),
+      lastEntryNumber: 41,
+      lastLineNumber: 90,
+    } as any);
+    vi.mocked(prisma.eDefterFile.findMany).mockResolvedValue([]);
+
+    const tx = {
+      eDefterFile: {
+        deleteMany: vi.fn(),
+        create: vi.fn().mockImplementation(async (args: any) => {
+          const file = { id: `file-${createdFiles.length + 1}`, ...args.data };
+          createdFiles.push(file);
+          return file;
+        }),
+      },
+    };
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+  });
+
+  describe("generateLedger", () => {
+    it("should continue yevmiye madde numbering from the previous period", async () => {
+      const result = await service.generateLedger(mockTenantId, "client-1", february);
+
+      expect(result.firstEntryNumber).toBe(42);
+      expect(result.lastEntryNumber).toBe(43);
+      expect(prisma.eDefterLedger.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ fiscalYear: 2026, lastEntryNumber: 43, lastLineNumber: 94 }),
+        })
+      );
+      expect(prisma.clientCompany.update).not.toHaveBeenCalled();
+
+      const yevmiye = mockUploadObject.mock.calls.find(([, key]) => key.endsWith("1234567890-202602-Y-000000.xml"));
+      expect(yevmiye).toBeDefined();
+      const xml = (yevmiye![2] as NodeJS.ReadableStream).read().toString();
+      expect(xml).toContain('<gl-cor:entryNumber contextRef="ledger_context">42</gl-cor:entryNumber>');
+      expect(xml).toContain('<gl-cor:accountMainID contextRef="ledger_context">600</gl-cor:accountMainID>');
+      expect(xml).toContain('<gl-cor:accountSubID contextRef="ledger_context">600.01</gl-cor:accountSubID>');
+    });
+
+    it("should store yevmiye, kebir and berat files for every part", async () => {
+      const result = await service.generateLedger(mockTenantId, "client-1", february);
+
+      expect(result.files!.map((file) => file.fileName)).toEqual([
+        "1234567890-202602-Y-000000.xml",
+        "1234567890-202602-YB-000000.xml",
+        "1234567890-202602-K-000000.xml",
+        "1234567890-202602-KB-000000.xml",
+      ]);
+      expect(mockUploadObject).toHaveBeenCalledWith(
+        mockTenantId,
+        `e-defter/${result.ledgerId}/1234567890-202602-YB-000000.xml`,
+        expect.anything(),
+        expect.objectContaining({ contentType: "application/xml" })
+      );
+    });
+
+    it("should split the yevmiye into parts at madde boundaries when it exceeds the size limit", async () => {
+      const result = await service.generateLedger(mockTenantId, "client-1", february, { maxPartBytes: 5000 });
+
+      const yevmiyeParts = result.files!.filter((file) => file.fileType === "yevmiye");
+      expect(yevmiyeParts).toHaveLength(2);
+      expect(yevmiyeParts[0]).toMatchObject({ partNumber: 0, firstEntryNumber: 42, lastEntryNumber: 42 });
+      expect(yevmiyeParts[1]).toMatchObject({
+        partNumber: 1,
+        fileName: "1234567890-202602-Y-000001.xml",
+        firstEntryNumber: 43,
+        lastEntryNumber: 43,
+      });
+    });
+
+    it("should refuse to number a period whose previous month has no e-Defter", async () => {
+      vi.mocked(prisma.eDefterLedger.findFirst).mockResolvedValue(null);
+
+      await expect(service.generateLedger(mockTenantId, "client-1", february)).rejects.toThrow(
+        "önce 2026-01 dönemine ait e-Defter oluşturulmalıdır"
+      );
+      expect(prisma.eDefterLedger.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should not regenerate a ledger that was already submitted to GİB", async () => {
+      vi.mocked(prisma.eDefterLedger.findUnique).mockResolvedValue({ status: "submitted" } as any);
+
+      await expect(service.generateLedger(mockTenantId, "client-1", february)).rejects.toThrow(ValidationError);
+      expect(mockUploadObject).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("validateEDefterDocument", () => {
+  const header: EDefterHeader = {
+    taxNumber: "123",
+    companyName: "Örnek Ticaret A.Ş.",
+    periodStart: new Date(2026, 1, 1),
+    periodEnd: new Date(2026, 1, 28),
+    fiscalYearStart: new Date(2026, 0, 1),
+    fiscalYearEnd: new Date(2026, 11, 31),
+    creationDate: new Date(2026, 2, 1),
+    sourceApplication: "AI Muhasebi",
+  };
+
+  it("should report schema rule violations", () => {
+    const result = validateEDefterDocument(header, [
+      {
+        entryNumber: 1,
+        date: new Date(2026, 1, 5),
+        description: "Tahsilat",
+        lines: [
+          { lineNumberCounter: 1, accountCode: "100", accountName: "Kasa", amount: 100, debitCreditCode: "D" },
+          { lineNumberCounter: 2, accountCode: "120", accountName: "Alıcılar", amount: 90, debitCreditCode: "C" },
+        ],
+      },
+      {
+        entryNumber: 3,
+        date: new Date(2026, 2, 1),
+        description: "Satış",
+        lines: [
+          { lineNumberCounter: 3, accountCode: "100", accountName: "Kasa", amount: 50, debitCreditCode: "D" },
+          { lineNumberCounter: 4, accountCode: "600", accountName: "Yurtiçi Satışlar", amount: 50, debitCreditCode: "C" },
+        ],
+      },
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("10 veya 11 haneli"),
+        expect.stringContaining("Madde 1: borç (100.00) ve alacak (90.00) eşit değil"),
+        expect.stringContaining("Madde 3: yevmiye madde numarası kesintisiz olmalıdır"),
+        expect.stringContaining("Madde 3: kayıt tarihi 2026-03-01 dönem dışında"),
+      ])
+    );
+  });
+});
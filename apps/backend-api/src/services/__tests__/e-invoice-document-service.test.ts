@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { EInvoiceDocumentService } from "../e-invoice-document-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import type { ParsedUblInvoice } from "../../integrations/e-invoice-parsers";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma = {
+    document: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    invoice: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: any) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../accounting-period-service", () => ({
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
+vi.mock("../document-service", () => ({
+  documentService: {},
+}));
+
+const invoice: ParsedUblInvoice = {
+  ettn: "F47AC10B-58CC-4372-A567-0E02B2C3D479",
+  invoiceNumber: "ABC2026000000012",
+  profileId: "TICARIFATURA",
+  invoiceTypeCode: "SATIS",
+  issueDate: new Date(Date.UTC(2026, 2, 5)),
+  dueDate: null,
+  currency: "TRY",
+  exchangeRate: null,
+  supplier: { taxNumber: "1234567890", taxNumberScheme: "VKN", name: "Acme Tekstil A.Ş.", taxOffice: null },
+  customer: { taxNumber: "9876543210", taxNumberScheme: "VKN", name: "Beta Gıda Ltd.", taxOffice: null },
+  lines: [
+    {
+      lineNumber: 1,
+      description: "Kumaş",
+      quantity: 10,
+      unitCode: "MTR",
+      unitPrice: 100,
+      lineTotal: 1000,
+      vatRate: 0.2,
+      vatAmount: 200,
+      exemptionReasonCode: null,
+      withholding: null,
+    },
+  ],
+  taxSubtotals: [],
+  withholdings: [],
+  netAmount: 1000,
+  allowanceAmount: 0,
+  taxAmount: 200,
+  withholdingAmount: 0,
+  totalAmount: 1200,
+  payableAmount: 1200,
+  attachments: [],
+};
+
+describe("EInvoiceDocumentService", () => {
+  let service: EInvoiceDocumentService;
+  const mockTenantId = "tenant-123";
+
+  function withCompanyTaxNumber(taxNumber: string | null) {
+    vi.mocked(prisma.document.findFirst).mockResolvedValue({
+      id: "doc-1",
+      clientCompanyId: "client-1",
+      clientCompany: { id: "client-1", taxNumber },
+    } as any);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new EInvoiceDocumentService();
+    vi.mocked(prisma.invoice.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.invoice.create).mockResolvedValue({ id: "invoice-1" } as any);
+  });
+
+  it("should book a received invoice as ALIŞ with the supplier as counterparty", async () => {
+    withCompanyTaxNumber("9876543210");
+
+    const result = await service.createInvoiceFromDocument(mockTenantId, "doc-1", invoice);
+
+    expect(result).toEqual({ invoiceId: "invoice-1", created: true });
+    expect(prisma.invoice.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        externalId: "ABC2026000000012",
+        type: "ALIŞ",
+        totalAmount: 1200,
+        counterpartyTaxNumber: "1234567890",
+        source: "import",
+        metadata: { ubl: expect.objectContaining({ ettn: invoice.ettn, documentId: "doc-1" }) },
+        lines: { create: [expect.objectContaining({ lineNumber: 1, lineTotal: 1000, vatRate: 0.2 })] },
+      }),
+    });
+    expect(prisma.document.update).toHaveBeenCalledWith({
+      where: { id: "doc-1" },
+      data: { relatedInvoiceId: "invoice-1", type: "INVOICE" },
+    });
+  });
+
+  it("should book an invoice issued by the company as SATIŞ", async () => {
+    withCompanyTaxNumber("1234567890");
+
+    await service.createInvoiceFromDocument(mockTenantId, "doc-1", invoice);
+
+    expect(prisma.invoice.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "SATIŞ", counterpartyName: "Beta Gıda Ltd.", counterpartyTaxNumber: "9876543210" }),
+    });
+  });
+
+  it("should link an invoice already booked under the same ETTN", async () => {
+    withCompanyTaxNumber("9876543210");
+    vi.mocked(prisma.invoice.findFirst).mockResolvedValue({ id: "invoice-0" } as any);
+
+    const result = await service.createInvoiceFromDocument(mockTenantId, "doc-1", invoice);
+
+    expect(result).toEqual({ invoiceId: "invoice-0", created: false });
+    expect(prisma.invoice.create).not.toHaveBeenCalled();
+    expect(prisma.document.update).toHaveBeenCalledWith({
+      where: { id: "doc-1" },
+      data: { relatedInvoiceId: "invoice-0", type: "INVOICE" },
+    });
+  });
+
+  it("should refuse an invoice between two other parties", async () => {
+    withCompanyTaxNumber("5555555555");
+
+    await expect(service.createInvoiceFromDocument(mockTenantId, "doc-1", invoice)).rejects.toThrow(ValidationError);
+    expect(prisma.invoice.create).not.toHaveBeenCalled();
+  });
+});
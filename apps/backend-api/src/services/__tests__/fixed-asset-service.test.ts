@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { FixedAssetService, buildDepreciationSchedule } from "../fixed-asset-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    fixedAsset: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../accounting-period-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../accounting-period-service")>()),
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
+vi.mock("../ledger-account-service", () => ({
+  ledgerAccountService: {
+    resolveAccountIds: vi.fn(async (_tenantId: string, _clientCompanyId: string, codes: string[]) =>
+      new Map(codes.map((code) => [code, `acc-${code}`]))
+    ),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+function asset(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "asset-1",
+    tenantId: "tenant-123",
+    clientCompanyId: "client-1",
+    assetCode: "DMR-001",
+    name: "Dizüstü bilgisayar",
+    accountCode: "255",
+    expenseAccountCode: "770",
+    acquisitionDate: new Date(2026, 0, 10),
+    acquisitionCost: 12000,
+    disposedCost: 0,
+    usefulLifeYears: 4,
+    depreciationMethod: "normal",
+    prorateFirstYear: false,
+    accumulatedDepreciation: 0,
+    status: "active",
+    disposedAt: null,
+    depreciations: [],
+    ...overrides,
+  };
+}
+
+describe("buildDepreciationSchedule", () => {
+  const base = {
+    acquisitionDate: new Date(2026, 3, 15),
+    cost: 10000,
+    usefulLifeYears: 5,
+    depreciationMethod: "normal" as const,
+    prorateFirstYear: false,
+  };
+
+  it("should spread the cost evenly over the useful life", () => {
+    const schedule = buildDepreciationSchedule(base);
+
+    expect(schedule.map((row) => row.fiscalYear)).toEqual([2026, 2027, 2028, 2029, 2030]);
+    expect(schedule.map((row) => row.amount)).toEqual([2000, 2000, 2000, 2000, 2000]);
+  });
+
+  it("should apply kıst amortisman in the first year and carry the remainder past the useful life", () => {
+    const schedule = buildDepreciationSchedule({ ...base, prorateFirstYear: true });
+
+    expect(schedule.map((row) => row.amount)).toEqual([1500, 2000, 2000, 2000, 2000, 500]);
+    expect(schedule[0].months).toBe(9);
+    expect(schedule[schedule.length - 1].closingBookValue).toBe(0);
+  });
+
+  it("should use twice the normal rate on the book value for azalan bakiyeler", () => {
+    const schedule = buildDepreciationSchedule({
+      ...base,
+      acquisitionDate: new Date(2026, 0, 1),
+      depreciationMethod: "azalan_bakiyeler",
+    });
+
+    expect(schedule.map((row) => row.amount)).toEqual([4000, 2400, 1440, 864, 1296]);
+  });
+});
+
+describe("FixedAssetService", () => {
+  let service: FixedAssetService;
+  const mockTenantId = "tenant-123";
+  let tx: any;
+
+  beforeEach(() => {
+    service = new FixedAssetService();
+    vi.clearAllMocks();
+
+    tx = {
+      transaction: { create: vi.fn().mockResolvedValue({ id: "txn-1" }) },
+      fixedAsset: { update: vi.fn() },
+      fixedAssetDepreciation: { create: vi.fn() },
+      fixedAssetDisposal: {
+        create: vi.fn().mockImplementation(async (args: any) => ({ id: "disposal-1", ...args.data })),
+      },
+    };
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1", name: "Örnek A.Ş." } as any);
+  });
+
+  describe("runDepreciation", () => {
+    it("should post the depreciation accrued since the last run", async () => {
+      // January already posted: 12.000 / 4 yıl / 12 ay
+      vi.mocked(prisma.fixedAsset.findMany).mockResolvedValue([asset({ accumulatedDepreciation: 250 })] as any);
+
+      const result = await service.runDepreciation(mockTenantId, "user-1", "client-1", "2026-03");
+
+      expect(result.totalAmount).toBe(500);
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          referenceNo: "AMR-2026-03",
+          source: "fixed_asset",
+          lines: {
+            create: [
+              expect.objectContaining({ ledgerAccountId: "acc-770", debitAmount: 500, creditAmount: 0 }),
+              expect.objectContaining({ ledgerAccountId: "acc-257", debitAmount: 0, creditAmount: 500 }),
+            ],
+          },
+        }),
+      });
+      expect(tx.fixedAsset.update).toHaveBeenCalledWith({
+        where: { id: "asset-1" },
+        data: { accumulatedDepreciation: 750 },
+      });
+    });
+
+    it("should skip assets already depreciated for the period", async () => {
+      vi.mocked(prisma.fixedAsset.findMany).mockResolvedValue([
+        asset({ depreciations: [{ id: "dep-1", period: "2026-12" }] }),
+      ] as any);
+
+      const result = await service.runDepreciation(mockTenantId, "user-1", "client-1", "2026");
+
+      expect(result).toMatchObject({ period: "2026-12", transactionId: null, entries: [] });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("disposeAsset", () => {
+    it("should post the gain on sale to 679", async () => {
+      vi.mocked(prisma.fixedAsset.findFirst).mockResolvedValue(
+        asset({ acquisitionCost: 10000, accumulatedDepreciation: 4000 }) as any
+      );
+
+      const result = await service.disposeAsset(mockTenantId, "user-1", "asset-1", {
+        disposalDate: new Date(2027, 5, 30),
+        proceeds: 7000,
+      });
+
+      expect(result.gainLoss).toBe(1000);
+      expect(tx.transaction.create.mock.calls[0][0].data.lines.create).toEqual([
+        expect.objectContaining({ ledgerAccountId: "acc-257", debitAmount: 4000, creditAmount: 0 }),
+        expect.objectContaining({ ledgerAccountId: "acc-102", debitAmount: 7000, creditAmount: 0 }),
+        expect.objectContaining({ ledgerAccountId: "acc-255", debitAmount: 0, creditAmount: 10000 }),
+        expect.objectContaining({ ledgerAccountId: "acc-679", debitAmount: 0, creditAmount: 1000 }),
+      ]);
+      expect(tx.fixedAsset.update).toHaveBeenCalledWith({
+        where: { id: "asset-1" },
+        data: expect.objectContaining({ status: "disposed", disposedCost: 10000, accumulatedDepreciation: 0 }),
+      });
+    });
+
+    it("should dispose the same share of cost and accumulated depreciation on a partial disposal", async () => {
+      vi.mocked(prisma.fixedAsset.findFirst).mockResolvedValue(
+        asset({ acquisitionCost: 10000, accumulatedDepreciation: 4000 }) as any
+      );
+
+      const result = await service.disposeAsset(mockTenantId, "user-1", "asset-1", {
+        disposalDate: new Date(2027, 5, 30),
+        ratio: 0.5,
+        proceeds: 2000,
+      });
+
+      expect(result).toMatchObject({ costDisposed: 5000, accumulatedDisposed: 2000, gainLoss: -1000 });
+      expect(tx.transaction.create.mock.calls[0][0].data.lines.create).toContainEqual(
+        expect.objectContaining({ ledgerAccountId: "acc-689", debitAmount: 1000, creditAmount: 0 })
+      );
+      expect(tx.fixedAsset.update).toHaveBeenCalledWith({
+        where: { id: "asset-1" },
+        data: { disposedCost: 5000, accumulatedDepreciation: 2000 },
+      });
+    });
+
+    it("should reject disposing an asset twice", async () => {
+      vi.mocked(prisma.fixedAsset.findFirst).mockResolvedValue(asset({ status: "disposed" }) as any);
+
+      await expect(
+        service.disposeAsset(mockTenantId, "user-1", "asset-1", { disposalDate: new Date(2027, 0, 1) })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import { scoreWithArtifact, type GradientBoostingArtifact } from "@repo/core-domain";
+import { FraudModelService } from "../fraud-model-service";
+import { computeFeatureVector, labelFromDispositions } from "../fraud-feature-store-service";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    fraudModel: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../notification-service", () => ({
+  notificationService: {
+    createNotification: vi.fn(),
+  },
+}));
+
+const gradientBoosting: GradientBoostingArtifact = {
+  type: "gradient_boosting",
+  baseScore: -1,
+  learningRate: 0.5,
+  trees: [
+    { f: 0, t: 2, v: 0.1, l: { v: -0.4 }, r: { f: 1, t: 0.5, v: 1.2, l: { v: 0.6 }, r: { v: 2 } } },
+    { f: 1, t: 0.5, v: 0, l: { v: -0.2 }, r: { v: 0.3 } },
+  ],
+};
+
+function modelRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "model-2",
+    tenantId: "tenant-1",
+    version: 2,
+    algorithm: "gradient_boosting",
+    status: "training",
+    featureSetVersion: 1,
+    featureNames: ["amountZScore", "isNewCounterparty"],
+    artifact: gradientBoosting,
+    metrics: { auc: 0.82, precision: 0.7, recall: 0.6, threshold: 50, evaluatedCount: 40, positiveCount: 10 },
+    trainingSampleCount: 120,
+    labeledSampleCount: 160,
+    errorMessage: null,
+    requestedByUserId: "user-1",
+    trainedAt: new Date(),
+    activatedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("FraudModelService", () => {
+  let service: FraudModelService;
+
+  beforeEach(() => {
+    service = new FraudModelService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.fraudModel.update).mockImplementation(
+      async ({ data }: any) => modelRow({ ...data }) as any
+    );
+    vi.mocked(prisma.$transaction).mockImplementation(async (operations: any) => Promise.all(operations));
+  });
+
+  describe("scoreWithArtifact", () => {
+    it("should split a gradient boosting score into contributions along the path", () => {
+      const { score, baseline, contributions } = scoreWithArtifact(gradientBoosting, [3, 1]);
+
+      // raw = -1 + 0.5 * (2 + 0.3); baseline raw = -1 + 0.5 * (0.1 + 0)
+      expect(score).toBeCloseTo(1 / (1 + Math.exp(-0.15)), 10);
+      expect(baseline).toBeCloseTo(1 / (1 + Math.exp(0.95)), 10);
+      expect(contributions[0] + contributions[1]).toBeCloseTo(score - baseline, 10);
+      expect(contributions[1]).toBeGreaterThan(contributions[0]);
+    });
+  });
+
+  describe("requestTraining", () => {
+    it("should return the version already in flight instead of queueing another", async () => {
+      vi.mocked(prisma.fraudModel.findFirst).mockResolvedValueOnce(modelRow({ status: "queued" }) as any);
+
+      const model = await service.requestTraining("tenant-1", "user-1");
+
+      expect(model.id).toBe("model-2");
+      expect(prisma.fraudModel.create).not.toHaveBeenCalled();
+    });
+
+    it("should queue the next version", async () => {
+      vi.mocked(prisma.fraudModel.findFirst).mockResolvedValueOnce(null).mockResolvedValueOnce({ version: 4 } as any);
+      vi.mocked(prisma.fraudModel.create).mockResolvedValue(modelRow({ version: 5, status: "queued" }) as any);
+
+      await service.requestTraining("tenant-1", null);
+
+      expect(prisma.fraudModel.create).toHaveBeenCalledWith({
+        data: { tenantId: "tenant-1", version: 5, featureSetVersion: 1, requestedByUserId: null },
+      });
+    });
+  });
+
+  describe("completeTraining", () => {
+    const input = {
+      algorithm: "gradient_boosting" as const,
+      artifact: gradientBoosting,
+      featureNames: ["amountZScore", "isNewCounterparty"],
+      trainingSampleCount: 120,
+      labeledSampleCount: 160,
+    };
+
+    it("should keep a version that scores worse than the active one as a candidate", async () => {
+      vi.mocked(prisma.fraudModel.findFirst).mockResolvedValue(
+        modelRow({ id: "model-1", version: 1, status: "active", metrics: { auc: 0.9 } }) as any
+      );
+
+      const model = await service.completeTraining("model-2", {
+        ...input,
+        metrics: { auc: 0.82, precision: 0.7, recall: 0.6, threshold: 50, evaluatedCount: 40, positiveCount: 10 },
+      });
+
+      expect(model.status).toBe("candidate");
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should activate a version that scores at least as well and retire the previous one", async () => {
+      vi.mocked(prisma.fraudModel.findFirst).mockResolvedValue(
+        modelRow({ id: "model-1", version: 1, status: "active", metrics: { auc: 0.8 } }) as any
+      );
+      vi.mocked(prisma.fraudModel.findUnique).mockResolvedValue(modelRow({ status: "candidate" }) as any);
+
+      const model = await service.completeTraining("model-2", {
+        ...input,
+        metrics: { auc: 0.82, precision: 0.7, recall: 0.6, threshold: 50, evaluatedCount: 40, positiveCount: 10 },
+      });
+
+      expect(model.status).toBe("active");
+      expect(prisma.fraudModel.updateMany).toHaveBeenCalledWith({
+        where: { tenantId: "tenant-1", status: "active", id: { not: "model-2" } },
+        data: { status: "retired" },
+      });
+    });
+  });
+
+  describe("activateModel", () => {
+    it("should refuse a version that has not finished training", async () => {
+      vi.mocked(prisma.fraudModel.findUnique).mockResolvedValue(modelRow({ status: "failed", artifact: null }) as any);
+
+      await expect(service.activateModel("tenant-1", "model-2")).rejects.toThrow(ValidationError);
+    });
+  });
+});
+
+describe("fraud feature store", () => {
+  it("should only use history dated before the document", () => {
+    const invoice = (id: string, date: string, totalAmount: number, counterpartyKey: string) => ({
+      id,
+      issueDate: new Date(date),
+      totalAmount,
+      counterpartyKey,
+    });
+
+    const features = computeFeatureVector({
+      riskFeatures: { highAmount: true, amountMismatch: false },
+      aiRiskScore: 42,
+      riskFlagCount: 2,
+      amount: 50000,
+      taxAmount: 8333.33,
+      date: new Date("2026-06-13T10:00:00"), // a Saturday
+      invoiceId: "inv-4",
+      counterpartyKey: "1234567890",
+      companyInvoices: [
+        invoice("inv-1", "2026-03-01", 1000, "1234567890"),
+        invoice("inv-2", "2026-04-01", 1200, "9999999999"),
+        invoice("inv-3", "2026-05-01", 1100, "9999999999"),
+        invoice("inv-4", "2026-06-13", 50000, "1234567890"),
+        invoice("inv-5", "2026-07-01", 900, "1234567890"),
+      ],
+      companyTransactions: [
+        { date: new Date("2026-05-02"), amount: 2000 },
+        { date: new Date("2026-05-20"), amount: 1234.5 },
+        { date: new Date("2026-01-01"), amount: 5000 },
+      ],
+    });
+
+    expect(features).toMatchObject({
+      highAmount: 1,
+      amountMismatch: 0,
+      aiRiskScore: 42,
+      riskFlagCount: 2,
+      isRoundAmount: 1,
+      isWeekend: 1,
+      isNewCounterparty: 0,
+      counterpartyInvoiceCount: 1,
+      counterpartyShare: 0.3333,
+      transactionCount90d: 2,
+      roundTransactionRatio90d: 0.5,
+    });
+    expect(features.amountZScore).toBe(10);
+    expect(features.vatRatio).toBeCloseTo(0.2, 3);
+  });
+
+  it("should label a document from its alert dispositions", () => {
+    expect(labelFromDispositions(["false_positive", "corrected"])).toBe(1);
+    expect(labelFromDispositions(["false_positive", null])).toBe(0);
+    expect(labelFromDispositions([null])).toBeNull();
+  });
+});
@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { FxRevaluationService } from "../fx-revaluation-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { transactionService } from "../transaction-service";
+import { exchangeRateService } from "../exchange-rate-service";
+import { invoiceService } from "../invoice-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    fxRevaluation: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    fxSettlement: {
+      update: vi.fn(),
+    },
+    invoice: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    checkNote: {
+      findMany: vi.fn(),
+    },
+    clientCompanyBankAccount: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../transaction-service", () => ({
+  transactionService: {
+    getTrialBalance: vi.fn(),
+  },
+}));
+
+vi.mock("../exchange-rate-service", () => ({
+  exchangeRateService: {
+    getRate: vi.fn(),
+  },
+}));
+
+vi.mock("../invoice-service", () => ({
+  invoiceService: {
+    prepareInvoiceCreate: vi.fn(),
+    insertInvoice: vi.fn(),
+    afterInvoiceCreated: vi.fn(),
+  },
+}));
+
+vi.mock("../accounting-period-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../accounting-period-service")>()),
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
+vi.mock("../ledger-account-service", () => ({
+  ledgerAccountService: {
+    resolveAccountIds: vi.fn(async (_tenantId: string, _clientCompanyId: string, codes: string[]) =>
+      new Map(codes.map((code) => [code, `acc-${code}`]))
+    ),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+// TCMB döviz alış kurları: invoice dates in January, closing at the end of March
+const RATES: Record<string, { before: number; closing: number }> = {
+  USD: { before: 30, closing: 32 },
+  EUR: { before: 35, closing: 36 },
+};
+
+describe("FxRevaluationService", () => {
+  let service: FxRevaluationService;
+  const mockTenantId = "tenant-123";
+  let tx: any;
+
+  beforeEach(() => {
+    service = new FxRevaluationService();
+    vi.clearAllMocks();
+
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1", name: "Örnek A.Ş." } as any);
+    vi.mocked(prisma.fxRevaluation.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.fxRevaluation.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      {
+        id: "inv-1",
+        externalId: "EXP2026000001",
+        type: "SATIŞ",
+        currency: "USD",
+        totalAmount: 1000,
+        issueDate: new Date(2026, 0, 10),
+        counterpartyName: "Globex Ltd.",
+        fxSettlements: [],
+      },
+      {
+        id: "inv-2",
+        externalId: "IMP2026000007",
+        type: "ALIŞ",
+        currency: "EUR",
+        totalAmount: 500,
+        issueDate: new Date(2026, 0, 20),
+        counterpartyName: "Initech GmbH",
+        fxSettlements: [{ fxAmount: 200 }],
+      },
+    ] as any);
+    vi.mocked(prisma.checkNote.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.clientCompanyBankAccount.findMany).mockResolvedValue([]);
+    vi.mocked(exchangeRateService.getRate).mockImplementation((async (currency: string, _quote: string, date: Date) => {
+      const rates = RATES[currency];
+      return { buyRate: date.getMonth() >= 2 ? rates.closing : rates.before, source: "TCMB" };
+    }) as any);
+
+    tx = {
+      transaction: {
+        create: vi.fn().mockResolvedValue({ id: "txn-1" }),
+        deleteMany: vi.fn(),
+      },
+      fxRevaluation: {
+        create: vi.fn().mockImplementation(async (args: any) => ({ id: "run-1", runCount: 1, ...args.data })),
+        update: vi.fn().mockImplementation(async (args: any) => ({ id: "run-1", ...args.data, runCount: 2 })),
+      },
+      fxSettlement: {
+        create: vi.fn().mockImplementation(async (args: any) => ({ id: "stl-1", ...args.data })),
+      },
+    };
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+  });
+
+  describe("preview", () => {
+    it("should value open invoices at the closing rate", async () => {
+      const preview = await service.preview(mockTenantId, "client-1", "2026-03");
+
+      expect(preview.positions).toEqual([
+        expect.objectContaining({
+          sourceId: "inv-1",
+          accountCode: "120",
+          fxAmount: 1000,
+          carryingRate: 30,
+          closingRate: 32,
+          difference: 2000,
+        }),
+        expect.objectContaining({
+          sourceId: "inv-2",
+          accountCode: "320",
+          fxAmount: 300,
+          bookValue: 10500,
+          revaluedValue: 10800,
+          difference: -300,
+        }),
+      ]);
+      expect(preview).toMatchObject({ totalGain: 2000, totalLoss: 300, warnings: [] });
+    });
+
+    it("should carry positions at the rate of the previous revaluation", async () => {
+      vi.mocked(prisma.fxRevaluation.findFirst).mockImplementation((async (args: any) =>
+        args.where.period?.lt
+          ? { period: "2026-02", items: [{ sourceType: "invoice", sourceId: "inv-1", closingRate: 31.5 }] }
+          : null) as any);
+
+      const preview = await service.preview(mockTenantId, "client-1", "2026-03");
+
+      expect(preview.previousRevaluationPeriod).toBe("2026-02");
+      expect(preview.positions[0]).toMatchObject({ carryingRate: 31.5, difference: 500 });
+    });
+
+    it("should value bank accounts against their ledger balance", async () => {
+      vi.mocked(prisma.invoice.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.clientCompanyBankAccount.findMany).mockResolvedValue([
+        {
+          id: "bank-1",
+          bankName: "Akbank",
+          iban: "TR000000000000000000000001",
+          currency: "USD",
+          ledgerAccountCode: "102.02",
+          currencyBalance: 2000,
+          balanceDate: new Date(2026, 2, 31),
+        },
+        {
+          id: "bank-2",
+          bankName: "Garanti",
+          iban: "TR000000000000000000000002",
+          currency: "EUR",
+          ledgerAccountCode: null,
+          currencyBalance: null,
+          balanceDate: null,
+        },
+      ] as any);
+      vi.mocked(transactionService.getTrialBalance).mockResolvedValue({
+        entries: [{ ledgerAccountCode: "102.02", balance: 61000 }],
+        totalDebit: 0,
+        totalCredit: 0,
+      } as any);
+
+      const preview = await service.preview(mockTenantId, "client-1", "2026-03");
+
+      expect(preview.positions).toEqual([
+        expect.objectContaining({ sourceType: "bank_account", bookValue: 61000, revaluedValue: 64000, difference: 3000 }),
+      ]);
+      expect(preview.warnings).toHaveLength(1);
+    });
+
+    it("should not fall back to the built-in rates", async () => {
+      vi.mocked(exchangeRateService.getRate).mockResolvedValue({ buyRate: 36.2, source: "default" } as any);
+
+      await expect(service.preview(mockTenantId, "client-1", "2026-03")).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("post", () => {
+    it("should post 646/656 and replace an earlier run", async () => {
+      vi.mocked(prisma.fxRevaluation.findUnique).mockResolvedValue({ id: "run-1", transactionId: "txn-old" } as any);
+
+      const result = await service.post(mockTenantId, "user-1", "client-1", "2026-03");
+
+      expect(tx.transaction.deleteMany).toHaveBeenCalledWith({ where: { id: "txn-old", tenantId: mockTenantId } });
+      const data = tx.transaction.create.mock.calls[0][0].data;
+      expect(data).toMatchObject({ referenceNo: "KFD-2026-03", source: "fx_revaluation" });
+      expect(data.lines.create).toEqual([
+        expect.objectContaining({ ledgerAccountId: "acc-120", debitAmount: 2000, creditAmount: 0 }),
+        expect.objectContaining({ ledgerAccountId: "acc-320", debitAmount: 0, creditAmount: 300 }),
+        expect.objectContaining({ ledgerAccountId: "acc-646", debitAmount: 0, creditAmount: 2000 }),
+        expect.objectContaining({ ledgerAccountId: "acc-656", debitAmount: 300, creditAmount: 0 }),
+      ]);
+      expect(result).toMatchObject({ runCount: 2, totalGain: 2000, totalLoss: 300, transactionId: "txn-1" });
+    });
+  });
+
+  describe("settleInvoice", () => {
+    const salesInvoice = {
+      id: "inv-1",
+      clientCompanyId: "client-1",
+      externalId: "EXP2026000001",
+      type: "SATIŞ",
+      status: "kesildi",
+      currency: "USD",
+      totalAmount: 1000,
+      issueDate: new Date(2026, 0, 10),
+      counterpartyName: "Globex Ltd.",
+      counterpartyTaxNumber: "1234567890",
+      lines: [{ vatRate: 0.2 }],
+      fxSettlements: [],
+    };
+
+    it("should post the realised gain and draft a kur farkı faturası", async () => {
+      vi.mocked(prisma.invoice.findFirst).mockResolvedValue(salesInvoice as any);
+      vi.mocked(invoiceService.prepareInvoiceCreate).mockResolvedValue([[]]);
+      vi.mocked(invoiceService.insertInvoice).mockResolvedValue({ id: "inv-kf" } as any);
+
+      const result = await service.settleInvoice(mockTenantId, "user-1", "inv-1", {
+        settlementDate: new Date(2026, 1, 15),
+        rate: 31.2,
+        createKurFarkiInvoice: true,
+      });
+
+      expect(tx.transaction.create.mock.calls[0][0].data.lines.create).toEqual([
+        expect.objectContaining({ ledgerAccountId: "acc-102", debitAmount: 31200 }),
+        expect.objectContaining({ ledgerAccountId: "acc-120", creditAmount: 30000 }),
+        expect.objectContaining({ ledgerAccountId: "acc-646", creditAmount: 1000 }),
+        expect.objectContaining({ ledgerAccountId: "acc-391", creditAmount: 200 }),
+      ]);
+      expect(invoiceService.insertInvoice).toHaveBeenCalledWith(
+        tx,
+        mockTenantId,
+        expect.objectContaining({ type: "SATIŞ", status: "taslak", totalAmount: 1200, taxAmount: 200, netAmount: 1000 }),
+        [[]]
+      );
+      expect(tx.fxSettlement.create.mock.calls[0][0].data.kurFarkiInvoiceId).toBe("inv-kf");
+      expect(invoiceService.afterInvoiceCreated).toHaveBeenCalledWith(mockTenantId, { id: "inv-kf" });
+      expect(result).toMatchObject({ realisedDifference: 1200, kurFarkiInvoiceId: "inv-kf" });
+    });
+
+    it("should post nothing when the kur farkı faturası cannot be created", async () => {
+      vi.mocked(prisma.invoice.findFirst).mockResolvedValue(salesInvoice as any);
+      vi.mocked(invoiceService.prepareInvoiceCreate).mockRejectedValue(
+        new ValidationError("Bu dönem kilitli.")
+      );
+
+      await expect(
+        service.settleInvoice(mockTenantId, "user-1", "inv-1", {
+          settlementDate: new Date(2026, 1, 15),
+          rate: 31.2,
+          createKurFarkiInvoice: true,
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should reject more than the open amount", async () => {
+      vi.mocked(prisma.invoice.findFirst).mockResolvedValue({
+        ...salesInvoice,
+        fxSettlements: [{ fxAmount: 800 }],
+      } as any);
+
+      await expect(
+        service.settleInvoice(mockTenantId, "user-1", "inv-1", { settlementDate: new Date(2026, 1, 15), fxAmount: 300 })
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
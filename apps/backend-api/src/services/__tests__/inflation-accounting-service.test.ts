@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { InflationAccountingService, parseIndexCsv } from "../inflation-accounting-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { transactionService } from "../transaction-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    inflationIndex: {
+      findMany: vi.fn(),
+    },
+    inflationAdjustment: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    transaction: {
+      findFirst: vi.fn(),
+    },
+    ledgerAccount: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../transaction-service", () => ({
+  transactionService: {
+    getTrialBalance: vi.fn(),
+  },
+}));
+
+vi.mock("../accounting-period-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../accounting-period-service")>()),
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
+vi.mock("../ledger-account-service", () => ({
+  ledgerAccountService: {
+    resolveAccountIds: vi.fn(async (_tenantId: string, _clientCompanyId: string, codes: string[]) =>
+      new Map(codes.map((code) => [code, `acc-${code}`]))
+    ),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+function entry(id: string, code: string, name: string, balance: number) {
+  return {
+    ledgerAccountId: id,
+    ledgerAccountCode: code,
+    ledgerAccountName: name,
+    parentLedgerAccountId: null,
+    level: 1,
+    hasChildren: false,
+    totalDebit: Math.max(balance, 0),
+    totalCredit: Math.max(-balance, 0),
+    balance,
+  };
+}
+
+describe("parseIndexCsv", () => {
+  it("should read TÜİK style rows with a header and decimal commas", () => {
+    const { rows, errors } = parseIndexCsv(
+      ["Dönem;Yİ-ÜFE", "2026-01;3.861,33", "02.2026;3.952,10", "2026;3;4012,5", "2026-13;100", "2026-04;abc"].join("\n")
+    );
+
+    expect(rows).toEqual([
+      { period: "2026-01", value: 3861.33 },
+      { period: "2026-02", value: 3952.1 },
+      { period: "2026-03", value: 4012.5 },
+    ]);
+    expect(errors.map((error) => error.line)).toEqual([5, 6]);
+  });
+});
+
+describe("InflationAccountingService", () => {
+  let service: InflationAccountingService;
+  const mockTenantId = "tenant-123";
+  let tx: any;
+
+  beforeEach(() => {
+    service = new InflationAccountingService();
+    vi.clearAllMocks();
+
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1", name: "Örnek A.Ş." } as any);
+    vi.mocked(prisma.inflationAdjustment.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.inflationAdjustment.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.inflationIndex.findMany).mockResolvedValue([
+      { period: "2026-01", value: 100 },
+      { period: "2026-02", value: 110 },
+      { period: "2026-03", value: 125 },
+    ] as any);
+    vi.mocked(prisma.transaction.findFirst).mockResolvedValue({ date: new Date(2026, 0, 5) } as any);
+    vi.mocked(prisma.ledgerAccount.findMany).mockResolvedValue([
+      { id: "acc-100", parentId: null, code: "100", inflationClass: null },
+      { id: "acc-253", parentId: null, code: "253", inflationClass: null },
+      { id: "acc-500", parentId: null, code: "500", inflationClass: null },
+    ] as any);
+
+    // January: capital paid in cash, February: machinery bought in cash
+    vi.mocked(transactionService.getTrialBalance).mockImplementation((async (
+      _tenantId: string,
+      _clientCompanyId: string,
+      dateFrom: Date
+    ) => {
+      const month = dateFrom.getMonth();
+      const entries =
+        month === 0
+          ? [entry("acc-100", "100", "Kasa", 10000), entry("acc-500", "500", "Sermaye", -10000)]
+          : month === 1
+            ? [entry("acc-100", "100", "Kasa", -5000), entry("acc-253", "253", "Tesis, Makine ve Cihazlar", 5000)]
+            : [];
+      return { entries, totalDebit: 0, totalCredit: 0 };
+    }) as any);
+
+    tx = {
+      transaction: {
+        create: vi.fn().mockResolvedValue({ id: "txn-1" }),
+        deleteMany: vi.fn(),
+      },
+      inflationAdjustment: {
+        create: vi.fn().mockImplementation(async (args: any) => ({ id: "adj-1", runCount: 1, ...args.data })),
+        update: vi.fn().mockImplementation(async (args: any) => ({ id: "adj-1", ...args.data, runCount: 2 })),
+      },
+    };
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+  });
+
+  describe("preview", () => {
+    it("should restate non-monetary accounts with monthly coefficients", async () => {
+      const preview = await service.preview(mockTenantId, "client-1", "2026-03");
+
+      expect(preview.baseIndex).toBe(125);
+      expect(preview.accounts.map((account) => account.code)).toEqual(["253", "500"]);
+
+      const machinery = preview.accounts[0];
+      expect(machinery.layers).toEqual([
+        { period: "2026-02", amount: 5000, index: 110, coefficient: 1.136364, adjustedAmount: 5681.82 },
+      ]);
+      expect(machinery.adjustment).toBe(681.82);
+
+      const capital = preview.accounts[1];
+      expect(capital).toMatchObject({ adjustedBalance: -12500, adjustment: -2500, targetAccountCode: "502" });
+      expect(preview.totalAdjustment).toBe(-1818.18);
+    });
+
+    it("should honour an explicit monetary classification", async () => {
+      vi.mocked(prisma.ledgerAccount.findMany).mockResolvedValue([
+        { id: "acc-253", parentId: null, code: "253", inflationClass: "monetary" },
+        { id: "acc-500", parentId: null, code: "500", inflationClass: null },
+      ] as any);
+
+      const preview = await service.preview(mockTenantId, "client-1", "2026-03");
+
+      expect(preview.accounts.map((account) => account.code)).toEqual(["500"]);
+    });
+
+    it("should list the months without an index", async () => {
+      vi.mocked(prisma.inflationIndex.findMany).mockResolvedValue([{ period: "2026-03", value: 125 }] as any);
+
+      await expect(service.preview(mockTenantId, "client-1", "2026-03")).rejects.toThrow(
+        "Şu dönemler için endeks bulunamadı: 2026-01, 2026-02."
+      );
+    });
+  });
+
+  describe("post", () => {
+    it("should post the differences against 698 and replace an earlier run", async () => {
+      vi.mocked(prisma.inflationAdjustment.findUnique).mockResolvedValue({
+        id: "adj-1",
+        transactionId: "txn-old",
+      } as any);
+
+      const result = await service.post(mockTenantId, "user-1", "client-1", "2026-03");
+
+      expect(tx.transaction.deleteMany).toHaveBeenCalledWith({ where: { id: "txn-old", tenantId: mockTenantId } });
+      expect(transactionService.getTrialBalance).toHaveBeenCalledWith(
+        mockTenantId,
+        "client-1",
+        expect.any(Date),
+        expect.any(Date),
+        { excludeTransactionIds: ["txn-old"] }
+      );
+
+      const data = tx.transaction.create.mock.calls[0][0].data;
+      expect(data).toMatchObject({ referenceNo: "ENF-2026-03", source: "inflation_adjustment" });
+      expect(data.lines.create).toEqual([
+        expect.objectContaining({ ledgerAccountId: "acc-253", debitAmount: 681.82, creditAmount: 0 }),
+        expect.objectContaining({ ledgerAccountId: "acc-502", debitAmount: 0, creditAmount: 2500 }),
+        expect.objectContaining({ ledgerAccountId: "acc-698", debitAmount: 1818.18, creditAmount: 0 }),
+      ]);
+      expect(result).toMatchObject({ runCount: 2, totalAdjustment: -1818.18, transactionId: "txn-1" });
+    });
+
+    it("should not adjust a period before an existing adjustment", async () => {
+      vi.mocked(prisma.inflationAdjustment.findFirst).mockResolvedValueOnce({ period: "2026-06" } as any);
+
+      await expect(service.post(mockTenantId, "user-1", "client-1", "2026-03")).rejects.toThrow(ValidationError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { KdvCalculationService, exemptionCategory } from "../kdv-calculation-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { exchangeRateService } from "../exchange-rate-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    invoice: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../exchange-rate-service", () => ({
+  exchangeRateService: {
+    getRate: vi.fn(),
+  },
+}));
+
+const start = new Date(2026, 2, 1);
+const end = new Date(2026, 2, 31, 23, 59, 59);
+const noCarryIn = { previousCarryForward: 0, previousRefundClaim: 0, responsibleVatPaid: 0 };
+
+function line(overrides: Record<string, unknown>) {
+  return {
+    lineTotal: 1000,
+    vatRate: 0.2,
+    vatAmount: 200,
+    withholdingCode: null,
+    withholdingRate: null,
+    exemptionCode: null,
+    ...overrides,
+  };
+}
+
+function invoice(id: string, type: string, lines: Record<string, unknown>[], overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    externalId: id.toUpperCase(),
+    type,
+    currency: "TRY",
+    issueDate: new Date(2026, 2, 10),
+    totalAmount: 0,
+    taxAmount: 0,
+    netAmount: 0,
+    metadata: null,
+    lines,
+    ...overrides,
+  };
+}
+
+describe("KdvCalculationService", () => {
+  let service: KdvCalculationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new KdvCalculationService();
+  });
+
+  it("builds matrah per rate and kısmi tevkifat sections", async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      invoice("s1", "SATIŞ", [line({}), line({ lineTotal: 500, vatRate: 0.1, vatAmount: 50 })]),
+      invoice("s2", "SATIŞ", [line({ withholdingCode: "603", withholdingRate: 0.7 })]),
+      invoice("a1", "ALIŞ", [line({ lineTotal: 400, vatAmount: 80 })]),
+    ] as any);
+
+    const result = await service.calculateKdv1("tenant-1", "company-1", start, end, {
+      ...noCarryIn,
+      previousCarryForward: 30,
+    });
+
+    expect(result.sales.byRate).toEqual([
+      { vatRate: 0.1, base: 500, vat: 50 },
+      { vatRate: 0.2, base: 1000, vat: 200 },
+    ]);
+    expect(result.sales.partialWithholding).toEqual([
+      { code: "603", vatRate: 0.2, withholdingRate: 0.7, base: 1000, vat: 200, withheldVat: 140, declaredVat: 60 },
+    ]);
+    expect(result.sales.calculatedVat).toBe(310);
+    expect(result.deductions.totalDeductions).toBe(110);
+    expect(result.result).toMatchObject({ payable: 200, carryForward: 0, refundableVat: 140, refundClaim: 0 });
+    expect(result.salesInvoiceCount).toBe(2);
+    expect(result.purchaseInvoiceCount).toBe(1);
+  });
+
+  it("allocates yüklenilen KDV to ihracat and claims it from the excess", async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      invoice("s1", "SATIŞ", [line({ lineTotal: 3000, vatRate: 0, vatAmount: 0, exemptionCode: "301" })]),
+      invoice("s2", "SATIŞ", [line({})]),
+      invoice("a1", "ALIŞ", [line({ lineTotal: 2000, vatAmount: 400 })]),
+    ] as any);
+
+    const result = await service.calculateKdv1("tenant-1", "company-1", start, end, noCarryIn);
+
+    expect(result.exemptions).toEqual([{ code: "301", category: "full", base: 3000, loadedVat: 300 }]);
+    expect(result.result).toEqual({ payable: 0, carryForward: 200, refundableVat: 300, refundClaim: 200 });
+  });
+
+  it("deducts only the paid part of tevkifatlı purchases and reports the rest on KDV-2", async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      invoice("a1", "ALIŞ", [line({ withholdingCode: "601", withholdingRate: 0.4 })]),
+      invoice("a2", "ALIŞ", [line({ lineTotal: 500, vatAmount: 100, withholdingCode: "601", withholdingRate: 0.4 })]),
+    ] as any);
+
+    const kdv1 = await service.calculateKdv1("tenant-1", "company-1", start, end, noCarryIn);
+    const kdv2 = await service.calculateKdv2("tenant-1", "company-1", start, end);
+
+    expect(kdv1.deductions.purchaseVat).toBe(180);
+    expect(kdv2.withholdings).toEqual([
+      { code: "601", vatRate: 0.2, withholdingRate: 0.4, base: 1500, vat: 300, withheldVat: 120, declaredVat: 180 },
+    ]);
+    expect(kdv2.totalWithheldVat).toBe(120);
+    expect(kdv2.purchaseInvoiceCount).toBe(2);
+  });
+
+  it("converts foreign currency invoices at the TCMB rate and rejects missing rates", async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      invoice("s1", "SATIŞ", [line({ lineTotal: 100, vatAmount: 20 })], { currency: "USD" }),
+    ] as any);
+    vi.mocked(exchangeRateService.getRate).mockResolvedValueOnce({ buyRate: 40, source: "tcmb" } as any);
+
+    const result = await service.calculateKdv1("tenant-1", "company-1", start, end, noCarryIn);
+    expect(result.sales.byRate).toEqual([{ vatRate: 0.2, base: 4000, vat: 800 }]);
+
+    vi.mocked(exchangeRateService.getRate).mockResolvedValueOnce({ buyRate: 1, source: "default" } as any);
+    await expect(service.calculateKdv1("tenant-1", "company-1", start, end, noCarryIn)).rejects.toThrow(ValidationError);
+  });
+
+  it("classifies istisna codes by KDV-1 section", () => {
+    expect(exemptionCategory("213")).toBe("partial");
+    expect(exemptionCategory("301")).toBe("full");
+    expect(exemptionCategory("701")).toBe("export_registered");
+    expect(exemptionCategory("351")).toBe("other");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { LedgerAccountService } from "../ledger-account-service";
+import { detectAccountType, parseAccountCode, TEK_DUZEN_HESAP_PLANI_TEMPLATE } from "../chart-of-accounts";
+import { NotFoundError, ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    ledgerAccount: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+describe("chart-of-accounts", () => {
+  it("should parse hierarchy levels from dotted codes", () => {
+    expect(parseAccountCode("120")).toMatchObject({ level: 1, accountClass: 1, parentCode: null });
+    expect(parseAccountCode("120.01.0042")).toMatchObject({
+      level: 3,
+      accountClass: 1,
+      mainAccountCode: "120",
+      parentCode: "120.01",
+    });
+  });
+
+  it("should detect account type from the code prefix", () => {
+    expect(detectAccountType("102.01")).toBe("asset");
+    expect(detectAccountType("320")).toBe("liability");
+    expect(detectAccountType("500")).toBe("equity");
+    expect(detectAccountType("600")).toBe("income");
+    expect(detectAccountType("770.01")).toBe("expense");
+    expect(detectAccountType("691")).toBe("expense");
+    expect(detectAccountType("900")).toBeNull();
+  });
+
+  it("should only contain unique main accounts in the template", () => {
+    const codes = TEK_DUZEN_HESAP_PLANI_TEMPLATE.map((entry) => entry.code);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(codes).toEqual(expect.arrayContaining(["100", "120", "320", "600", "646", "656", "692"]));
+  });
+});
+
+describe("LedgerAccountService", () => {
+  let service: LedgerAccountService;
+  const mockTenantId = "tenant-123";
+
+  beforeEach(() => {
+    service = new LedgerAccountService();
+    vi.clearAllMocks();
+  });
+
+  describe("createLedgerAccount", () => {
+    it("should link a sub-account to its main account and inherit the level", async () => {
+      vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1" } as any);
+      vi.mocked(prisma.ledgerAccount.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.ledgerAccount.findMany).mockResolvedValue([
+        { id: "acc-120-01", code: "120.01", type: "asset", level: 2, clientCompanyId: "client-1" },
+      ] as any);
+      vi.mocked(prisma.ledgerAccount.create).mockImplementation(
+        async ({ data }: any) => ({ id: "acc-new", createdAt: new Date(), updatedAt: new Date(), ...data }) as any
+      );
+
+      const account = await service.createLedgerAccount(mockTenantId, {
+        clientCompanyId: "client-1",
+        code: "120.01.0042",
+        name: "Müşteri A",
+      });
+
+      expect(account.parentId).toBe("acc-120-01");
+      expect(account.level).toBe(3);
+      expect(account.type).toBe("asset");
+      expect(account.accountClass).toBe(1);
+    });
+
+    it("should reject a parent whose code is not a prefix of the new code", async () => {
+      vi.mocked(prisma.ledgerAccount.findFirst)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: "acc-320", code: "320", type: "liability", level: 1, clientCompanyId: null } as any);
+
+      await expect(
+        service.createLedgerAccount(mockTenantId, { code: "120.01", name: "Alıcılar", parentId: "acc-320" })
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.ledgerAccount.create).not.toHaveBeenCalled();
+    });
+
+    it("should require a type when it cannot be detected from the code", async () => {
+      vi.mocked(prisma.ledgerAccount.findFirst).mockResolvedValue(null);
+
+      await expect(
+        service.createLedgerAccount(mockTenantId, { code: "900", name: "Nazım Hesap" })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("seedChartOfAccounts", () => {
+    it("should create only the missing template accounts", async () => {
+      vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1" } as any);
+      vi.mocked(prisma.ledgerAccount.findMany)
+        .mockResolvedValueOnce([{ code: "100" }, { code: "120" }] as any)
+        .mockResolvedValueOnce([] as any);
+
+      const result = await service.seedChartOfAccounts(mockTenantId, "client-1");
+
+      expect(result.skipped).toBe(2);
+      expect(result.created).toBe(TEK_DUZEN_HESAP_PLANI_TEMPLATE.length - 2);
+      const { data } = vi.mocked(prisma.ledgerAccount.createMany).mock.calls[0][0] as any;
+      expect(data.map((d: any) => d.code)).not.toContain("100");
+      expect(data.every((d: any) => d.clientCompanyId === "client-1")).toBe(true);
+    });
+
+    it("should throw NotFoundError for a client company of another tenant", async () => {
+      vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue(null);
+
+      await expect(service.seedChartOfAccounts(mockTenantId, "client-x")).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { OpenItemService, agingBucket } from "../open-item-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { paymentReminderService } from "../payment-reminder-service";
+import { accountingPeriodService } from "../accounting-period-service";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma: any = {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    counterparty: {
+      findFirst: vi.fn(),
+    },
+    invoice: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    counterpartyPayment: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(async () => []),
+      update: vi.fn(),
+    },
+    counterpartyPaymentAllocation: {
+      upsert: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../kdv-calculation-service", () => ({
+  kdvCalculationService: {
+    tryRate: vi.fn(async () => 1),
+  },
+}));
+
+vi.mock("../payment-reminder-service", () => ({
+  paymentReminderService: {
+    syncInvoicePayment: vi.fn(),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock("../accounting-period-service", () => ({
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+    filterWritable: vi.fn(),
+  },
+}));
+
+const counterparty = {
+  id: "cp-1",
+  tenantId: "tenant-1",
+  clientCompanyId: "client-1",
+  name: "Müşteri Ltd.",
+  taxNumber: "1111111111",
+  paymentTermDays: 30,
+};
+
+const payment = {
+  id: "pay-1",
+  tenantId: "tenant-1",
+  clientCompanyId: "client-1",
+  counterpartyId: "cp-1",
+  counterparty,
+  direction: "TAHSILAT",
+  date: new Date(2026, 2, 15),
+  amount: 1500,
+  allocatedAmount: 0,
+  currency: "TRY",
+};
+
+function openInvoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "inv-1",
+    externalId: "ABC2026000000001",
+    type: "SATIŞ",
+    currency: "TRY",
+    issueDate: new Date(2026, 0, 10),
+    dueDate: null,
+    totalAmount: 1000,
+    paidAmount: 0,
+    ...overrides,
+  };
+}
+
+describe("agingBucket", () => {
+  it("should put invoices into 30/60/90/120+ day buckets", () => {
+    expect([0, 1, 30, 31, 60, 61, 90, 91, 120, 121].map(agingBucket)).toEqual([
+      "current",
+      "1-30",
+      "1-30",
+      "31-60",
+      "31-60",
+      "61-90",
+      "61-90",
+      "91-120",
+      "91-120",
+      "120+",
+    ]);
+  });
+});
+
+describe("OpenItemService", () => {
+  let service: OpenItemService;
+
+  beforeEach(() => {
+    service = new OpenItemService();
+    vi.clearAllMocks();
+    vi.mocked(accountingPeriodService.assertDateWritable).mockResolvedValue(undefined);
+    vi.mocked(accountingPeriodService.filterWritable).mockImplementation((async (_t: string, _c: string, items: any[]) =>
+      items) as any);
+  });
+
+  it("should age invoices by the card's vade and net off unapplied collections", async () => {
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1", name: "Acme Tekstil A.Ş." } as any);
+    vi.mocked(prisma.invoice.findMany)
+      .mockResolvedValueOnce([
+        {
+          ...openInvoice(),
+          counterpartyName: "MÜŞTERİ LTD",
+          counterpartyTaxNumber: "1111111111",
+          metadata: null,
+          counterparty,
+          // 1000 - 400 open, due 09.02 (10.01 + 30 gün vade)
+          reconciliationMatches: [{ amount: 400 }],
+          paymentAllocations: [],
+        },
+        {
+          ...openInvoice({ id: "inv-2", dueDate: new Date(2026, 2, 20), totalAmount: 500 }),
+          counterpartyName: "Müşteri Ltd.",
+          counterpartyTaxNumber: "1111111111",
+          metadata: null,
+          counterparty,
+          reconciliationMatches: [],
+          paymentAllocations: [{ amount: 500 }],
+        },
+      ] as any)
+      .mockResolvedValueOnce([{ id: "inv-1", totalAmount: 1000 }, { id: "inv-2", totalAmount: 500 }] as any);
+    vi.mocked(prisma.counterpartyPayment.findMany).mockResolvedValue([
+      { ...payment, amount: 250, allocatedAmount: 0 },
+    ] as any);
+
+    const report = await service.getAgingReport("tenant-1", "client-1", "receivable", new Date(2026, 2, 31));
+
+    expect(report.rows).toHaveLength(1);
+    expect(report.rows[0]).toMatchObject({
+      counterpartyId: "cp-1",
+      invoiceCount: 1,
+      total: 600,
+      unapplied: 250,
+      net: 350,
+    });
+    expect(report.rows[0].buckets["31-60"]).toBe(600);
+    expect(report.periodVolume).toBe(1500);
+    expect(report.days).toBe(21); // 350 / 1500 × 90 gün
+  });
+
+  it("should close the oldest due invoices first and mark fully paid ones", async () => {
+    vi.mocked(prisma.counterpartyPayment.findFirst)
+      .mockResolvedValueOnce(payment as any)
+      .mockResolvedValueOnce({ ...payment, allocatedAmount: 1500, allocations: [] } as any);
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      openInvoice({ id: "inv-2", issueDate: new Date(2026, 1, 1), totalAmount: 2000 }),
+      openInvoice({ totalAmount: 1000, paidAmount: 200 }),
+    ] as any);
+
+    await service.allocatePayment("tenant-1", "user-1", "pay-1");
+
+    expect(prisma.counterpartyPaymentAllocation.upsert).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ create: expect.objectContaining({ invoiceId: "inv-1", amount: 800 }) })
+    );
+    expect(prisma.counterpartyPaymentAllocation.upsert).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ create: expect.objectContaining({ invoiceId: "inv-2", amount: 700 }) })
+    );
+    expect(prisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: "inv-1" },
+      data: { paidAmount: 1000, paidAt: payment.date },
+    });
+    expect(prisma.invoice.update).toHaveBeenCalledWith({ where: { id: "inv-2" }, data: { paidAmount: 700 } });
+    expect(prisma.counterpartyPayment.update).toHaveBeenCalledWith({
+      where: { id: "pay-1" },
+      data: { allocatedAmount: 1500 },
+    });
+    expect(paymentReminderService.syncInvoicePayment).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not allocate more than the invoice's open balance", async () => {
+    vi.mocked(prisma.counterpartyPayment.findFirst).mockResolvedValue(payment as any);
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([openInvoice({ paidAmount: 600 })] as any);
+
+    await expect(
+      service.allocatePayment("tenant-1", "user-1", "pay-1", [{ invoiceId: "inv-1", amount: 500 }])
+    ).rejects.toThrow(ValidationError);
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should pass over invoices of a locked month when allocating automatically", async () => {
+    vi.mocked(prisma.counterpartyPayment.findFirst)
+      .mockResolvedValueOnce(payment as any)
+      .mockResolvedValueOnce({ ...payment, allocatedAmount: 1500, allocations: [] } as any);
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      openInvoice({ id: "inv-2", issueDate: new Date(2026, 1, 1), totalAmount: 2000 }),
+      openInvoice({ totalAmount: 1000 }),
+    ] as any);
+    // Ocak kilitli
+    vi.mocked(accountingPeriodService.filterWritable).mockImplementation((async (
+      _t: string,
+      _c: string,
+      items: any[],
+      dateOf: (item: any) => Date
+    ) => items.filter((item) => dateOf(item).getMonth() !== 0)) as any);
+
+    await service.allocatePayment("tenant-1", "user-1", "pay-1");
+
+    expect(accountingPeriodService.filterWritable).toHaveBeenCalledWith(
+      "tenant-1",
+      "client-1",
+      expect.any(Array),
+      expect.any(Function)
+    );
+    expect(prisma.counterpartyPaymentAllocation.upsert).toHaveBeenCalledTimes(1);
+    expect(prisma.counterpartyPaymentAllocation.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ create: expect.objectContaining({ invoiceId: "inv-2", amount: 1500 }) })
+    );
+    expect(prisma.invoice.update).not.toHaveBeenCalledWith(expect.objectContaining({ where: { id: "inv-1" } }));
+  });
+
+  it("should refuse an explicit allocation to an invoice of a locked month", async () => {
+    vi.mocked(prisma.counterpartyPayment.findFirst).mockResolvedValue(payment as any);
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([openInvoice()] as any);
+    vi.mocked(accountingPeriodService.assertDateWritable).mockRejectedValue(
+      new ValidationError("2026-01 dönemi kilitli, bu döneme ait kayıtlar değiştirilemez.")
+    );
+
+    await expect(
+      service.allocatePayment("tenant-1", "user-1", "pay-1", [{ invoiceId: "inv-1", amount: 500 }])
+    ).rejects.toThrow("2026-01 dönemi kilitli");
+
+    expect(accountingPeriodService.assertDateWritable).toHaveBeenCalledWith(
+      "tenant-1",
+      "client-1",
+      new Date(2026, 0, 10)
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PaymentOrderService } from "../payment-order-service";
+import { approvalService } from "../approval-service";
+import { createPISForBank } from "../../integrations/connectors/payment-initiation-service";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    approvalRequest: {
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+    clientCompanyBankAccount: {
+      findFirst: vi.fn(),
+    },
+    tenantIntegration: {
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../../integrations/connectors/payment-initiation-service", () => ({
+  createPISForBank: vi.fn(),
+  validateTurkishIBAN: vi.fn(() => ({ valid: true, bankCode: "00062" })),
+}));
+
+vi.mock("../approval-service", () => ({
+  approvalService: {
+    findPolicy: vi.fn(),
+    openRequest: vi.fn(),
+    markExecuted: vi.fn(),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const approvedRequest = {
+  id: "request-1",
+  tenantId: "tenant-1",
+  action: "payment_initiate",
+  status: "approved",
+  executedAt: null,
+  payload: {
+    clientCompanyId: "client-1",
+    bankAccountId: "account-1",
+    paymentType: "EFT",
+    creditorIban: "TR330006100519786457841326",
+    creditorName: "Tedarikçi A.Ş.",
+    amount: 250000,
+    description: "Eylül faturası",
+  },
+};
+
+describe("PaymentOrderService", () => {
+  let service: PaymentOrderService;
+  const initiatePayment = vi.fn();
+
+  beforeEach(() => {
+    service = new PaymentOrderService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.approvalRequest.findFirst).mockResolvedValue(approvedRequest as any);
+    vi.mocked(prisma.clientCompanyBankAccount.findFirst).mockResolvedValue({
+      id: "account-1",
+      iban: "TR320006200000000000001234",
+      currency: "TRY",
+      bankName: "Garanti BBVA",
+    } as any);
+    vi.mocked(prisma.tenantIntegration.findFirst).mockResolvedValue({
+      config: { pisApiUrl: "https://pis.example.com", pisAccessToken: "token" },
+    } as any);
+    vi.mocked(createPISForBank).mockReturnValue({ initiatePayment } as any);
+    initiatePayment.mockResolvedValue({ paymentId: "pay-1", transactionStatus: "ACCP", scaRequired: false });
+  });
+
+  describe("initiateApproved", () => {
+    it("should send an approved payment to the bank only once when initiated twice in parallel", async () => {
+      vi.mocked(prisma.approvalRequest.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const results = await Promise.allSettled([
+        service.initiateApproved("tenant-1", "user-1", "request-1"),
+        service.initiateApproved("tenant-1", "user-2", "request-1"),
+      ]);
+
+      expect(initiatePayment).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+      expect((results.find((result) => result.status === "rejected") as PromiseRejectedResult).reason.message).toBe(
+        "Bu ödeme zaten başlatıldı."
+      );
+      expect(prisma.approvalRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: "request-1", tenantId: "tenant-1", status: "approved", executedAt: null },
+        data: expect.objectContaining({ status: "executed" }),
+      });
+      expect(approvalService.markExecuted).toHaveBeenCalledTimes(1);
+      expect(approvalService.markExecuted).toHaveBeenCalledWith("tenant-1", expect.any(String), "request-1", {
+        paymentId: "pay-1",
+        transactionStatus: "ACCP",
+      });
+    });
+
+    it("should put the approval back when the bank refuses the payment", async () => {
+      vi.mocked(prisma.approvalRequest.updateMany).mockResolvedValue({ count: 1 });
+      initiatePayment.mockRejectedValue(new Error("Banka servisi yanıt vermedi"));
+
+      await expect(service.initiateApproved("tenant-1", "user-1", "request-1")).rejects.toThrow(
+        "Banka servisi yanıt vermedi"
+      );
+      expect(prisma.approvalRequest.update).toHaveBeenCalledWith({
+        where: { id: "request-1" },
+        data: { status: "approved", executedAt: null, executedByUserId: null },
+      });
+      expect(approvalService.markExecuted).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PayrollService, calculatePayslip, isValidTckn, workedDaysInPeriod } from "../payroll-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    employee: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    payrollRun: {
+      findFirst: vi.fn(),
+    },
+    payslip: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../accounting-period-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../accounting-period-service")>()),
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
+vi.mock("../ledger-account-service", () => ({
+  ledgerAccountService: {
+    resolveAccountIds: vi.fn(async (_tenantId: string, _clientCompanyId: string, codes: string[]) =>
+      new Map(codes.map((code) => [code, `acc-${code}`]))
+    ),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const fullMonth = {
+  year: 2026,
+  month: 1,
+  monthlyGrossSalary: 50000,
+  workedDays: 30,
+  additionalPay: 0,
+  incentiveCode: null,
+  cumulativeIncomeTaxBaseBefore: 0,
+};
+
+describe("calculatePayslip", () => {
+  it("should apply SGK payları, gelir vergisi and the asgari ücret istisnaları", () => {
+    const payslip = calculatePayslip(fullMonth);
+
+    expect(payslip).toMatchObject({
+      sgkBase: 50000,
+      employeeSgk: 7000,
+      employeeUnemployment: 500,
+      employerSgk: 10375,
+      employerUnemployment: 1000,
+      incomeTaxBase: 42500,
+      calculatedIncomeTax: 6375,
+      calculatedStampTax: 379.5,
+      stampTaxExemption: 250.7,
+      stampTax: 128.8,
+      employerCost: 61375,
+    });
+    // İstisna: gelir vergisi on the net asgari ücret (33.030 x 0,85 x %15)
+    expect(payslip.incomeTaxExemption).toBeCloseTo(4211.33, 1);
+    expect(payslip.netPay).toBeCloseTo(50000 - 7500 - payslip.incomeTax - 128.8, 2);
+  });
+
+  it("should move into the next dilim on the cumulative matrah", () => {
+    const payslip = calculatePayslip({ ...fullMonth, month: 5, cumulativeIncomeTaxBaseBefore: 180000 });
+
+    // 10.000 at %15 and 32.500 at %20
+    expect(payslip.cumulativeIncomeTaxBase).toBe(222500);
+    expect(payslip.calculatedIncomeTax).toBe(8000);
+    expect(payslip.incomeTax).toBeCloseTo(8000 - 4211.33, 1);
+  });
+
+  it("should raise partial months to the SGK tabanı and apply the teşvik", () => {
+    const payslip = calculatePayslip({ ...fullMonth, monthlyGrossSalary: 20000, workedDays: 15, incentiveCode: "17103" });
+
+    expect(payslip.grossSalary).toBe(10000);
+    expect(payslip.sgkBase).toBe(16515);
+    // 17103: işveren payı on the asgari ücret
+    expect(payslip.incentiveAmount).toBe(3757.16);
+    expect(payslip.incomeTax).toBe(0);
+    expect(payslip.stampTax).toBe(0);
+  });
+});
+
+describe("payroll helpers", () => {
+  it("should count prim günü from giriş and çıkış dates", () => {
+    const start = new Date(2026, 1, 1);
+    const end = new Date(2026, 1, 28, 23, 59, 59, 999);
+
+    expect(workedDaysInPeriod(new Date(2025, 5, 1), null, start, end)).toBe(30);
+    expect(workedDaysInPeriod(new Date(2026, 1, 16), null, start, end)).toBe(13);
+    expect(workedDaysInPeriod(new Date(2025, 5, 1), new Date(2026, 1, 10), start, end)).toBe(10);
+    expect(workedDaysInPeriod(new Date(2026, 2, 1), null, start, end)).toBe(0);
+  });
+
+  it("should validate the TC kimlik numarası checksum", () => {
+    expect(isValidTckn("10000000146")).toBe(true);
+    expect(isValidTckn("10000000147")).toBe(false);
+    expect(isValidTckn("01234567890")).toBe(false);
+  });
+});
+
+describe("PayrollService", () => {
+  let service: PayrollService;
+  let tx: any;
+
+  beforeEach(() => {
+    service = new PayrollService();
+    vi.clearAllMocks();
+
+    tx = {
+      transaction: { create: vi.fn().mockResolvedValue({ id: "txn-1" }) },
+      payrollRun: {
+        update: vi.fn().mockImplementation(async (args: any) => ({ id: "run-1", period: "2026-03", ...args.data })),
+      },
+    };
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+  });
+
+  it("should book the tahakkuk to 770 against 335, 360 and 361", async () => {
+    vi.mocked(prisma.payrollRun.findFirst).mockResolvedValue({
+      id: "run-1",
+      clientCompanyId: "client-1",
+      period: "2026-03",
+      status: "draft",
+      totalNet: 40000,
+      totalIncomeTax: 2000,
+      totalStampTax: 100,
+      totalEmployeeSgk: 7500,
+      totalEmployerSgk: 11375,
+      totalIncentive: 1000,
+      payslips: [
+        { employerCost: 30000, employee: { expenseAccountCode: "770" } },
+        { employerCost: 29975, employee: { expenseAccountCode: "770" } },
+      ],
+    } as any);
+
+    const run = await service.postRun("tenant-1", "user-1", "run-1");
+
+    expect(run.status).toBe("posted");
+    expect(tx.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        referenceNo: "BRD-2026-03",
+        source: "payroll",
+        lines: {
+          create: [
+            expect.objectContaining({ ledgerAccountId: "acc-770", debitAmount: 59975, creditAmount: 0 }),
+            expect.objectContaining({ ledgerAccountId: "acc-335", debitAmount: 0, creditAmount: 40000 }),
+            expect.objectContaining({ ledgerAccountId: "acc-360", debitAmount: 0, creditAmount: 2100 }),
+            expect.objectContaining({ ledgerAccountId: "acc-361", debitAmount: 0, creditAmount: 17875 }),
+          ],
+        },
+      }),
+    });
+  });
+
+  it("should not recalculate a posted bordro", async () => {
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1" } as any);
+    vi.mocked(prisma.payrollRun.findFirst).mockResolvedValue({ id: "run-1", status: "posted" } as any);
+
+    await expect(service.calculateRun("tenant-1", "user-1", "client-1", "2026-03")).rejects.toThrow(ValidationError);
+    expect(prisma.employee.findMany).not.toHaveBeenCalled();
+  });
+});
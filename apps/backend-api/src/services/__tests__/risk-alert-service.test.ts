@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import { RiskAlertService, computeAlertDueAt } from "../risk-alert-service";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma: any = {
+    riskAlert: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    riskAlertEvent: {
+      create: vi.fn(),
+    },
+    clientCompany: {
+      findUnique: vi.fn(),
+    },
+    userTenantMembership: {
+      findMany: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../notification-service", () => ({
+  notificationService: {
+    createNotification: vi.fn().mockResolvedValue({ title: "Yeni risk uyarısı", message: "" }),
+  },
+}));
+
+vi.mock("../email-service", () => ({
+  emailService: {
+    sendNotificationEmail: vi.fn(),
+  },
+}));
+
+function alertRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "alert-1",
+    tenantId: "tenant-1",
+    clientCompanyId: "company-1",
+    documentId: null,
+    type: "RISK_THRESHOLD_EXCEEDED",
+    title: "Yüksek Risk Skoru Tespit Edildi",
+    message: "Risk skoru yüksek",
+    severity: "medium",
+    status: "open",
+    resolvedAt: null,
+    resolvedByUserId: null,
+    assigneeUserId: null,
+    dueAt: new Date("2026-10-26T00:00:00Z"),
+    disposition: null,
+    dispositionNote: null,
+    ruleCodes: ["COMP_HIGH_FRAUD_PATTERNS"],
+    mergedIntoId: null,
+    createdAt: new Date("2026-10-19T00:00:00Z"),
+    updatedAt: new Date("2026-10-19T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("RiskAlertService", () => {
+  let service: RiskAlertService;
+
+  beforeEach(() => {
+    service = new RiskAlertService();
+    vi.clearAllMocks();
+    vi.mocked(prisma.riskAlert.update).mockImplementation((async ({ where, data }: any) =>
+      alertRow({ id: where.id, ...data })) as any);
+  });
+
+  describe("createAlert", () => {
+    it("should set the due date from the severity SLA and record the triggering rules", async () => {
+      vi.mocked(prisma.riskAlert.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.riskAlert.create).mockImplementation((async ({ data }: any) => alertRow(data)) as any);
+      vi.mocked(prisma.userTenantMembership.findMany).mockResolvedValue([]);
+
+      const before = Date.now();
+      const alert = await service.createAlert({
+        tenantId: "tenant-1",
+        clientCompanyId: "company-1",
+        type: "RISK_THRESHOLD_EXCEEDED",
+        title: "Yüksek Risk Skoru Tespit Edildi",
+        message: "Risk skoru yüksek",
+        severity: "high",
+        ruleCodes: ["COMP_HIGH_FRAUD_PATTERNS", "COMP_MANY_HIGH_RISK_DOCS"],
+      });
+
+      const slaMs = 72 * 60 * 60 * 1000;
+      expect(alert.dueAt!.getTime()).toBeGreaterThanOrEqual(before + slaMs);
+      expect(alert.dueAt!.getTime()).toBeLessThanOrEqual(Date.now() + slaMs);
+      expect(alert.ruleCodes).toEqual(["COMP_HIGH_FRAUD_PATTERNS", "COMP_MANY_HIGH_RISK_DOCS"]);
+      expect(prisma.riskAlertEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ alertId: "alert-1", type: "created", actorUserId: null }),
+      });
+    });
+
+    it("should bring the due date forward when a duplicate comes in with a higher severity", async () => {
+      vi.mocked(prisma.riskAlert.findFirst).mockResolvedValue(alertRow() as any);
+
+      const alert = await service.createAlert({
+        tenantId: "tenant-1",
+        clientCompanyId: "company-1",
+        type: "RISK_THRESHOLD_EXCEEDED",
+        title: "Yüksek Risk Skoru Tespit Edildi",
+        message: "Risk skoru kritik",
+        severity: "critical",
+        ruleCodes: ["COMP_MANY_HIGH_RISK_DOCS"],
+      });
+
+      expect(prisma.riskAlert.create).not.toHaveBeenCalled();
+      expect(alert.dueAt!.getTime()).toBeLessThanOrEqual(computeAlertDueAt("critical").getTime());
+      expect(alert.ruleCodes).toEqual(["COMP_HIGH_FRAUD_PATTERNS", "COMP_MANY_HIGH_RISK_DOCS"]);
+      expect(prisma.riskAlertEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: "reraised",
+          data: expect.objectContaining({ previousSeverity: "medium", severity: "critical" }),
+        }),
+      });
+    });
+  });
+
+  describe("updateAlertStatus", () => {
+    it("should require a disposition to close a case", async () => {
+      vi.mocked(prisma.riskAlert.findUnique).mockResolvedValue(alertRow() as any);
+
+      await expect(service.updateAlertStatus("tenant-1", "alert-1", "closed", "user-1")).rejects.toThrow(
+        ValidationError
+      );
+      expect(prisma.riskAlert.update).not.toHaveBeenCalled();
+    });
+
+    it("should store the disposition and append it to the case history", async () => {
+      vi.mocked(prisma.riskAlert.findUnique).mockResolvedValue(alertRow({ status: "in_progress" }) as any);
+
+      const alert = await service.updateAlertStatus("tenant-1", "alert-1", "closed", "user-1", {
+        disposition: "false_positive",
+        note: "Tedarikçi doğrulandı",
+      });
+
+      expect(alert).toMatchObject({ status: "closed", disposition: "false_positive", resolvedByUserId: "user-1" });
+      expect(vi.mocked(prisma.riskAlertEvent.create).mock.calls.map(([args]: any) => args.data.type)).toEqual([
+        "status_changed",
+        "disposed",
+      ]);
+    });
+  });
+
+  describe("mergeAlerts", () => {
+    it("should close duplicates into the target case and carry their severity and rules over", async () => {
+      vi.mocked(prisma.riskAlert.findUnique).mockResolvedValue(alertRow() as any);
+      vi.mocked(prisma.riskAlert.findMany).mockResolvedValue([
+        alertRow({ id: "alert-2", severity: "high", ruleCodes: ["COMP_MANY_HIGH_RISK_DOCS"] }),
+      ] as any);
+
+      const alert = await service.mergeAlerts("tenant-1", "user-1", "alert-1", ["alert-2", "alert-1"]);
+
+      expect(prisma.riskAlert.update).toHaveBeenCalledWith({
+        where: { id: "alert-2" },
+        data: expect.objectContaining({ status: "closed", disposition: "duplicate", mergedIntoId: "alert-1" }),
+      });
+      expect(alert.severity).toBe("high");
+      expect(alert.ruleCodes).toEqual(["COMP_HIGH_FRAUD_PATTERNS", "COMP_MANY_HIGH_RISK_DOCS"]);
+    });
+
+    it("should refuse alerts that were already merged elsewhere", async () => {
+      vi.mocked(prisma.riskAlert.findUnique).mockResolvedValue(alertRow() as any);
+      vi.mocked(prisma.riskAlert.findMany).mockResolvedValue([alertRow({ id: "alert-2", mergedIntoId: "alert-9" })] as any);
+
+      await expect(service.mergeAlerts("tenant-1", "user-1", "alert-1", ["alert-2"])).rejects.toThrow(ValidationError);
+      expect(prisma.riskAlert.update).not.toHaveBeenCalled();
+    });
+  });
+});
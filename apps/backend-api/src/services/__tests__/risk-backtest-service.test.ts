@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import type { RiskRule } from "@repo/core-domain";
+import { RiskBacktestService, applyRuleChanges, companyCheckpoints } from "../risk-backtest-service";
+import { riskRuleService } from "../risk-rule-service";
+import { riskRuleEngine } from "../risk-rule-engine";
+import { prisma } from "../../lib/prisma";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    riskRuleBacktest: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    document: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    documentRiskFeatures: {
+      findUnique: vi.fn(),
+    },
+    transaction: {
+      findMany: vi.fn(),
+    },
+    invoice: {
+      findMany: vi.fn(),
+    },
+    riskAlert: {
+      findMany: vi.fn(),
+    },
+    clientCompany: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../risk-rule-service", () => ({
+  riskRuleService: {
+    loadActiveRules: vi.fn(),
+  },
+}));
+
+vi.mock("../notification-service", () => ({
+  notificationService: {
+    createNotification: vi.fn(),
+  },
+}));
+
+function rule(code: string, weight: number, condition: Record<string, unknown>): RiskRule {
+  return {
+    id: `rule-${code}`,
+    tenantId: null,
+    scope: "document",
+    code,
+    description: code,
+    weight,
+    isActive: true,
+    defaultSeverity: "medium",
+    config: { condition },
+    createdAt: new Date("2026-01-01"),
+    updatedAt: new Date("2026-01-01"),
+  };
+}
+
+const activeRules = [
+  rule("DOC_HIGH_AI_SCORE", 70, { field: "riskScore", op: "gt", value: 50 }),
+  rule("DOC_MISSING_FIELDS", 20, { field: "features.hasMissingFields", op: "eq", value: true }),
+];
+
+function backtestRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "backtest-1",
+    tenantId: "tenant-1",
+    scope: "document",
+    clientCompanyId: null,
+    windowStart: new Date("2026-07-01T00:00:00Z"),
+    windowEnd: new Date("2026-09-30T23:59:59Z"),
+    proposedRules: [{ code: "DOC_MISSING_FIELDS", weight: 70 }],
+    status: "running",
+    totalCount: 0,
+    processedCount: 0,
+    result: null,
+    errorMessage: null,
+    requestedByUserId: "user-1",
+    startedAt: new Date(),
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("RiskBacktestService", () => {
+  let service: RiskBacktestService;
+
+  beforeEach(() => {
+    service = new RiskBacktestService();
+    vi.restoreAllMocks();
+    vi.mocked(riskRuleService.loadActiveRules).mockResolvedValue(activeRules);
+  });
+
+  describe("applyRuleChanges", () => {
+    it("should override, add and drop rules without touching the originals", () => {
+      const rules = applyRuleChanges(
+        activeRules,
+        [
+          { code: "DOC_HIGH_AI_SCORE", config: { condition: { field: "riskScore", op: "gt", value: 80 } } },
+          { code: "DOC_MISSING_FIELDS", isActive: false },
+          { code: "DOC_NEGATIVE", weight: 40, condition: { field: "features.negativeAmount", op: "eq", value: true } },
+        ],
+        "tenant-1",
+        "document"
+      );
+
+      expect(rules.map((r) => r.code)).toEqual(["DOC_HIGH_AI_SCORE", "DOC_NEGATIVE"]);
+      expect(rules[0].config).toEqual({ condition: { field: "riskScore", op: "gt", value: 80 } });
+      expect(rules[1]).toMatchObject({ tenantId: "tenant-1", scope: "document", weight: 40, isActive: true });
+      expect(activeRules[0].config).toEqual({ condition: { field: "riskScore", op: "gt", value: 50 } });
+    });
+  });
+
+  describe("companyCheckpoints", () => {
+    it("should stop at each month end and at the window end", () => {
+      const checkpoints = companyCheckpoints(new Date("2026-07-15T00:00:00Z"), new Date("2026-09-10T00:00:00Z"));
+
+      expect(checkpoints.map((date) => date.toISOString())).toEqual([
+        "2026-07-31T23:59:59.999Z",
+        "2026-08-31T23:59:59.999Z",
+        "2026-09-10T00:00:00.000Z",
+      ]);
+    });
+  });
+
+  describe("requestBacktest", () => {
+    it("should reject a proposed condition that does not validate", async () => {
+      await expect(
+        service.requestBacktest("tenant-1", "user-1", {
+          scope: "document",
+          windowStart: new Date("2026-07-01"),
+          windowEnd: new Date("2026-09-30"),
+          proposedRules: [{ code: "DOC_HIGH_AI_SCORE", condition: { field: "unknown.field", op: "gt", value: 1 } as any }],
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.riskRuleBacktest.create).not.toHaveBeenCalled();
+    });
+
+    it("should require a weight for a rule that is not active yet", async () => {
+      await expect(
+        service.requestBacktest("tenant-1", "user-1", {
+          scope: "document",
+          windowStart: new Date("2026-07-01"),
+          windowEnd: new Date("2026-09-30"),
+          proposedRules: [{ code: "doc_new", condition: { field: "riskScore", op: "gt", value: 90 } }],
+        })
+      ).rejects.toThrow("DOC_NEW: Yeni kural için ağırlık gerekli.");
+    });
+  });
+
+  describe("runBacktest", () => {
+    it("should compare both rule sets against past dispositions without writing scores or alerts", async () => {
+      vi.mocked(prisma.riskRuleBacktest.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.riskRuleBacktest.findUnique).mockResolvedValue(backtestRow() as any);
+      vi.mocked(prisma.document.findMany).mockResolvedValue([
+        { id: "doc-1", clientCompanyId: "company-1", originalFileName: "fatura-1.pdf", createdAt: new Date("2026-07-02") },
+        { id: "doc-2", clientCompanyId: "company-1", originalFileName: "fatura-2.pdf", createdAt: new Date("2026-08-02") },
+        { id: "doc-3", clientCompanyId: "company-1", originalFileName: "fatura-3.pdf", createdAt: new Date("2026-09-02") },
+      ] as any);
+      vi.mocked(prisma.riskAlert.findMany).mockResolvedValue([{ documentId: "doc-1", disposition: "corrected" }] as any);
+
+      const facts: Record<string, any> = {
+        "doc-1": { asOf: new Date("2026-07-01"), riskScore: 80, features: { hasMissingFields: false } },
+        "doc-2": { asOf: new Date("2026-08-01"), riskScore: 10, features: { hasMissingFields: true } },
+      };
+      vi.spyOn(riskRuleEngine, "buildDocumentFacts").mockImplementation(async (_tenantId, documentId) => {
+        if (!facts[documentId]) throw new Error("Document risk features not found");
+        return facts[documentId];
+      });
+
+      await service.runBacktest("backtest-1");
+
+      const completed = vi.mocked(prisma.riskRuleBacktest.update).mock.calls.find(
+        ([args]: any) => args.data.status === "completed"
+      );
+      const result = (completed![0] as any).data.result;
+
+      expect(result.current).toMatchObject({ evaluated: 2, alerts: 1, truePositives: 1, precision: 1 });
+      expect(result.proposed).toMatchObject({ alerts: 2, truePositives: 1, unlabeled: 1, precision: 1 });
+      expect(result.current.severityDistribution).toMatchObject({ low: 1, high: 1 });
+      expect(result).toMatchObject({ newAlerts: 1, clearedAlerts: 0, skipped: 1, truncated: false });
+      expect(result.changedSubjects).toEqual([
+        expect.objectContaining({
+          subjectId: "doc-2",
+          current: expect.objectContaining({ score: 20, severity: "low", alert: false }),
+          proposed: expect.objectContaining({ score: 70, severity: "high", alert: true }),
+          pastOutcome: "none",
+        }),
+      ]);
+      expect(result.rules).toContainEqual(
+        expect.objectContaining({ code: "DOC_MISSING_FIELDS", change: "modified", currentWeight: 20, proposedWeight: 70 })
+      );
+    });
+
+    it("should score a document from more than a year ago on the transactions of its own year", async () => {
+      const uploadedAt = new Date("2025-02-10T10:00:00Z");
+      vi.mocked(riskRuleService.loadActiveRules).mockResolvedValue([
+        rule("DOC_BUSY_COMPANY", 40, { aggregate: "count", collection: "transactions", windowDays: 365, op: "gte", value: 3 }),
+      ]);
+      vi.mocked(prisma.riskRuleBacktest.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.riskRuleBacktest.findUnique).mockResolvedValue(
+        backtestRow({
+          windowStart: new Date("2025-02-01T00:00:00Z"),
+          windowEnd: new Date("2025-02-28T23:59:59Z"),
+          proposedRules: [{ code: "DOC_BUSY_COMPANY", weight: 70 }],
+        }) as any
+      );
+      vi.mocked(prisma.document.findMany).mockResolvedValue([
+        { id: "doc-old", clientCompanyId: "company-1", originalFileName: "eski.pdf", createdAt: uploadedAt },
+      ] as any);
+      vi.mocked(prisma.riskAlert.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.documentRiskFeatures.findUnique).mockResolvedValue({
+        id: "features-1",
+        tenantId: "tenant-1",
+        documentId: "doc-old",
+        features: {},
+        riskFlags: [],
+        riskScore: null,
+      } as any);
+      vi.mocked(prisma.document.findUnique).mockResolvedValue({
+        id: "doc-old",
+        tenantId: "tenant-1",
+        clientCompanyId: "company-1",
+        type: "INVOICE",
+        createdAt: uploadedAt,
+        relatedInvoice: null,
+        relatedTransaction: null,
+      } as any);
+      const transactions = ["2024-06-15", "2024-11-03", "2025-01-20", "2026-09-01"].map((date, index) => ({
+        id: `txn-${index}`,
+        date: new Date(`${date}T12:00:00Z`),
+        lines: [{ debitAmount: 1000 + index, creditAmount: 0 }],
+      }));
+      vi.mocked(prisma.transaction.findMany).mockImplementation((async ({ where }: any) =>
+        transactions.filter((txn) => txn.date >= where.date.gte && txn.date <= where.date.lte)) as any);
+      vi.mocked(prisma.invoice.findMany).mockResolvedValue([]);
+      const buildDocumentFacts = vi.spyOn(riskRuleEngine, "buildDocumentFacts");
+
+      await service.runBacktest("backtest-1");
+
+      const facts = await buildDocumentFacts.mock.results[0].value;
+      expect(buildDocumentFacts.mock.calls[0][4]).toEqual(uploadedAt);
+      expect(facts.transactions.map((txn: any) => txn.date.toISOString().slice(0, 10))).toEqual([
+        "2024-06-15",
+        "2024-11-03",
+        "2025-01-20",
+      ]);
+      const completed = vi.mocked(prisma.riskRuleBacktest.update).mock.calls.find(
+        ([args]: any) => args.data.status === "completed"
+      );
+      expect((completed![0] as any).data.result).toMatchObject({
+        current: { evaluated: 1, alerts: 0 },
+        proposed: { evaluated: 1, alerts: 1 },
+        newAlerts: 1,
+        skipped: 0,
+      });
+    });
+
+    it("should leave a backtest another worker already claimed", async () => {
+      vi.mocked(prisma.riskRuleBacktest.updateMany).mockResolvedValue({ count: 0 });
+
+      await service.runBacktest("backtest-1");
+
+      expect(prisma.riskRuleBacktest.findUnique).not.toHaveBeenCalled();
+      expect(prisma.riskRuleBacktest.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateCondition,
+  evaluateCondition,
+  resolveRuleCondition,
+  referencedCollections,
+  type RuleCondition,
+  type ConditionTraceEntry,
+} from "../risk-rule-language";
+
+const asOf = new Date("2026-10-15T12:00:00Z");
+
+function daysBefore(days: number): Date {
+  return new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+const documentFacts = {
+  asOf,
+  features: { hasMissingFields: true, duplicateInvoiceNumber: false, dateInconsistency: false },
+  riskScore: 42,
+  riskFlags: ["SUPPLIER_BLACKLIST"],
+  riskFlagCount: 1,
+  invoice: {
+    type: "ALIŞ",
+    issueDate: asOf,
+    dueDate: daysBefore(3),
+    totalAmount: 118000,
+    counterpartyTaxNumber: "1234567890",
+  },
+  counterparty: { isNew: false, isUnusual: false },
+  signals: { duplicateInvoice: false },
+  invoices: [
+    { issueDate: daysBefore(1), totalAmount: 50000, counterpartyTaxNumber: "1234567890" },
+    { issueDate: daysBefore(5), totalAmount: 20000, counterpartyTaxNumber: "1234567890" },
+    { issueDate: daysBefore(6), totalAmount: 9000, counterpartyTaxNumber: "9999999999" },
+    { issueDate: daysBefore(40), totalAmount: 70000, counterpartyTaxNumber: "1234567890" },
+  ],
+  transactions: [],
+};
+
+describe("validateCondition", () => {
+  it("should accept a nested condition with field references and aggregates", () => {
+    const condition: RuleCondition = {
+      all: [
+        { field: "invoice.totalAmount", op: "gte", value: 100000 },
+        { field: "invoice.dueDate", op: "lt", value: { ref: "invoice.issueDate" } },
+        {
+          aggregate: "sum",
+          collection: "invoices",
+          field: "totalAmount",
+          windowDays: 30,
+          where: { field: "counterpartyTaxNumber", op: "eq", value: { ref: "invoice.counterpartyTaxNumber" } },
+          op: "gt",
+          value: 50000,
+        },
+        { not: { field: "features.someNewFeature", op: "eq", value: true } },
+      ],
+    };
+
+    expect(validateCondition("document", condition)).toEqual([]);
+  });
+
+  it("should report unknown fields, wrong value types and invalid aggregates with their path", () => {
+    const errors = validateCondition("document", {
+      any: [
+        { field: "invoice.unknownField", op: "eq", value: 1 },
+        { field: "invoice.totalAmount", op: "gt", value: "çok" },
+        { aggregate: "avg", collection: "invoices", windowDays: 400, op: "gt", value: 1 },
+      ],
+    });
+
+    expect(errors).toEqual([
+      { path: "condition.any[0].field", message: "Bilinmeyen alan: invoice.unknownField" },
+      { path: "condition.any[1].value", message: "Bu alan sayısal karşılaştırmayı desteklemez." },
+      { path: "condition.any[2].windowDays", message: "Zaman penceresi 1-365 gün arasında olmalı." },
+      { path: "condition.any[2].field", message: "Bu toplama fonksiyonu sayısal bir alan gerektirir." },
+    ]);
+  });
+
+  it("should only allow the fields of the rule's scope", () => {
+    expect(validateCondition("company", { field: "invoice.totalAmount", op: "gt", value: 1 })).toHaveLength(1);
+    expect(validateCondition("company", { field: "stockDiscrepancyCount", op: "gt", value: 0 })).toEqual([]);
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("should compare dates against other fields", () => {
+    const condition: RuleCondition = { field: "invoice.dueDate", op: "lt", value: { ref: "invoice.issueDate" } };
+    expect(evaluateCondition("document", condition, documentFacts)).toBe(true);
+  });
+
+  it("should aggregate over the time window ending at asOf", () => {
+    const sameCounterparty: RuleCondition = {
+      field: "counterpartyTaxNumber",
+      op: "eq",
+      value: { ref: "invoice.counterpartyTaxNumber" },
+    };
+
+    expect(
+      evaluateCondition(
+        "document",
+        { aggregate: "count", collection: "invoices", windowDays: 30, where: sameCounterparty, op: "eq", value: 2 },
+        documentFacts
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        "document",
+        { aggregate: "sum", collection: "invoices", windowDays: 60, field: "totalAmount", op: "eq", value: 149000 },
+        documentFacts
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        "document",
+        { aggregate: "ratio", collection: "invoices", windowDays: 30, where: sameCounterparty, op: "gt", value: 0.6 },
+        documentFacts
+      )
+    ).toBe(true);
+  });
+
+  it("should record each comparison in the trace", () => {
+    const trace: ConditionTraceEntry[] = [];
+    const matched = evaluateCondition(
+      "document",
+      { any: [{ field: "riskScore", op: "gt", value: 50 }, { field: "riskFlags", op: "contains", value: "SUPPLIER_BLACKLIST" }] },
+      documentFacts,
+      trace
+    );
+
+    expect(matched).toBe(true);
+    expect(trace).toEqual([
+      { path: "condition.any[0]", expression: "riskScore gt 50", actual: 42, matched: false },
+      {
+        path: "condition.any[1]",
+        expression: 'riskFlags contains "SUPPLIER_BLACKLIST"',
+        actual: ["SUPPLIER_BLACKLIST"],
+        matched: true,
+      },
+    ]);
+  });
+});
+
+describe("resolveRuleCondition", () => {
+  it("should express built-in codes in the rule language", () => {
+    const condition = resolveRuleCondition({ scope: "document", code: "INV_MISSING_TAX_NUMBER", config: {} });
+    expect(evaluateCondition("document", condition!, documentFacts)).toBe(true);
+  });
+
+  it("should carry legacy thresholds of built-in company rules over", () => {
+    const condition = resolveRuleCondition({
+      scope: "company",
+      code: "COMP_MANY_HIGH_RISK_DOCS",
+      config: { threshold: 1, days: 30 },
+    });
+    const facts = {
+      asOf,
+      documentRiskScores: [
+        { generatedAt: daysBefore(2), severity: "high" },
+        { generatedAt: daysBefore(10), severity: "high" },
+        { generatedAt: daysBefore(45), severity: "high" },
+      ],
+    };
+
+    expect(evaluateCondition("company", condition!, facts)).toBe(true);
+    expect(referencedCollections([condition])).toEqual(new Set(["documentRiskScores"]));
+  });
+
+  it("should prefer the rule's own condition and fall back to AI risk flags for unknown codes", () => {
+    expect(
+      resolveRuleCondition({
+        scope: "document",
+        code: "INV_TOTAL_MISMATCH",
+        config: { condition: { field: "invoice.totalAmount", op: "gt", value: 1 } },
+      })
+    ).toEqual({ field: "invoice.totalAmount", op: "gt", value: 1 });
+    expect(resolveRuleCondition({ scope: "document", code: "SUPPLIER_BLACKLIST", config: null })).toEqual({
+      field: "riskFlags",
+      op: "contains",
+      value: "SUPPLIER_BLACKLIST",
+    });
+    expect(resolveRuleCondition({ scope: "company", code: "UNKNOWN", config: null })).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ValidationError } from "@repo/shared-utils";
+import { RiskRuleService } from "../risk-rule-service";
+import { prisma } from "../../lib/prisma";
+import { auditService } from "../audit-service";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma: any = {
+    riskRule: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    riskRuleVersion: {
+      create: vi.fn(),
+    },
+    riskAlert: {
+      findMany: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+function ruleRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "rule-1",
+    tenantId: null,
+    scope: "company",
+    code: "COMP_HIGH_FRAUD_PATTERNS",
+    description: "Çok sayıda dolandırıcılık örüntüsü",
+    weight: 20,
+    isActive: true,
+    defaultSeverity: "high",
+    config: {},
+    createdAt: new Date("2026-01-01"),
+    updatedAt: new Date("2026-01-01"),
+    versions: [],
+    ...overrides,
+  };
+}
+
+function version(version: number, effectiveFrom: string, threshold: number) {
+  return {
+    id: `version-${version}`,
+    version,
+    description: `Sürüm ${version}`,
+    weight: 10 * version,
+    defaultSeverity: "medium",
+    config: { condition: { field: "fraudPatternCount", op: "gt", value: threshold } },
+    effectiveFrom: new Date(effectiveFrom),
+  };
+}
+
+describe("RiskRuleService", () => {
+  let service: RiskRuleService;
+
+  beforeEach(() => {
+    service = new RiskRuleService();
+    vi.clearAllMocks();
+  });
+
+  describe("loadActiveRules", () => {
+    it("should use the version in force at the given time and skip rules not yet effective", async () => {
+      vi.mocked(prisma.riskRule.findMany)
+        .mockResolvedValueOnce([] as any)
+        .mockResolvedValueOnce([
+          ruleRow({
+            tenantId: "tenant-1",
+            code: "TENANT_RULE",
+            versions: [version(1, "2026-01-01", 3), version(2, "2026-11-01", 5)],
+          }),
+          ruleRow({ id: "rule-2", tenantId: "tenant-1", code: "SCHEDULED_RULE", versions: [version(1, "2027-01-01", 1)] }),
+        ] as any);
+
+      const rules = await service.loadActiveRules("tenant-1", new Date("2026-10-19"));
+
+      expect(rules).toHaveLength(1);
+      expect(rules[0]).toMatchObject({
+        code: "TENANT_RULE",
+        description: "Sürüm 1",
+        weight: 10,
+        config: { condition: { field: "fraudPatternCount", op: "gt", value: 3 } },
+      });
+    });
+  });
+
+  describe("publishVersion", () => {
+    it("should leave a global rule untouched and give the tenant its own override", async () => {
+      vi.mocked(prisma.riskRule.findFirst)
+        .mockResolvedValueOnce(ruleRow() as any) // visible global rule
+        .mockResolvedValueOnce(null); // no override yet
+      vi.mocked(prisma.riskRule.create).mockResolvedValue(
+        ruleRow({ id: "override-1", tenantId: "tenant-1" }) as any
+      );
+      vi.mocked(prisma.riskRule.update).mockImplementation(
+        (async ({ where }: any) => ruleRow({ id: where.id, tenantId: "tenant-1", versions: [version(1, "2026-10-01", 5)] })) as any
+      );
+
+      const condition = { field: "fraudPatternCount", op: "gt", value: 5 } as const;
+      const result = await service.publishVersion("tenant-1", "user-1", "rule-1", {
+        description: "Eşik 5",
+        weight: 15,
+        defaultSeverity: "high",
+        condition,
+      });
+
+      expect(prisma.riskRule.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ tenantId: "tenant-1", code: "COMP_HIGH_FRAUD_PATTERNS" }),
+        })
+      );
+      expect(prisma.riskRuleVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ruleId: "override-1", version: 1, config: { condition }, createdByUserId: "user-1" }),
+      });
+      expect(prisma.riskRule.update).not.toHaveBeenCalledWith(expect.objectContaining({ where: { id: "rule-1" } }));
+      expect(result.isGlobal).toBe(false);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "RISK_RULE_CHANGED", metadata: expect.objectContaining({ change: "global_override" }) })
+      );
+    });
+
+    it("should reject an invalid condition", async () => {
+      vi.mocked(prisma.riskRule.findFirst).mockResolvedValueOnce(ruleRow() as any);
+
+      await expect(
+        service.publishVersion("tenant-1", "user-1", "rule-1", {
+          description: "Hatalı",
+          weight: 10,
+          defaultSeverity: "low",
+          condition: { field: "invoice.totalAmount", op: "gt", value: 1 },
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(prisma.riskRuleVersion.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getAlertFeedback", () => {
+    it("should report the false positive rate of closed cases per rule code", async () => {
+      vi.mocked(prisma.riskAlert.findMany).mockResolvedValue([
+        { ruleCodes: ["INV_LARGE_AMOUNT", "INV_ROUND_AMOUNT"], status: "closed", disposition: "false_positive" },
+        { ruleCodes: ["INV_LARGE_AMOUNT"], status: "closed", disposition: "corrected" },
+        { ruleCodes: ["INV_LARGE_AMOUNT"], status: "in_progress", disposition: null },
+      ] as any);
+
+      const feedback = await service.getAlertFeedback("tenant-1");
+
+      expect(feedback.get("INV_LARGE_AMOUNT")).toEqual({ alerts: 3, closed: 2, falsePositives: 1, falsePositiveRate: 0.5 });
+      expect(feedback.get("INV_ROUND_AMOUNT")).toEqual({ alerts: 1, closed: 1, falsePositives: 1, falsePositiveRate: 1 });
+      expect(prisma.riskAlert.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ tenantId: "tenant-1", mergedIntoId: null }) })
+      );
+    });
+  });
+});
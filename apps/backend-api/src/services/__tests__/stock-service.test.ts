@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { StockService, matchStockItem } from "../stock-service";
+import { costMovements, type CostingMovement } from "../stock-costing";
+import { prisma } from "../../lib/prisma";
+import { kdvCalculationService } from "../kdv-calculation-service";
+
+vi.mock("../../lib/prisma", () => {
+  const prisma: any = {
+    invoice: {
+      findFirst: vi.fn(),
+    },
+    invoiceLine: {
+      update: vi.fn(),
+    },
+    stockItem: {
+      findMany: vi.fn(),
+    },
+    stockMovement: {
+      deleteMany: vi.fn(),
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    stockPeriodPosting: {
+      findUnique: vi.fn(),
+    },
+    warehouse: {
+      findFirst: vi.fn(async () => ({ id: "wh-1" })),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../kdv-calculation-service", () => ({
+  kdvCalculationService: {
+    tryRate: vi.fn(async () => 1),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+function movement(id: string, direction: "in" | "out", day: number, quantity: number, unitCost: number | null = null): CostingMovement {
+  return { id, direction, date: new Date(2026, 2, day), quantity, unitCost };
+}
+
+const items = [
+  { id: "item-1", code: "IPL-30", name: "Pamuk İplik Ne 30/1", barcode: "8690000000011", aliases: [], isActive: true },
+  { id: "item-2", code: "KMS-01", name: "Ham Kumaş", barcode: null, aliases: ["HAM BEZ 150 CM"], isActive: true },
+];
+
+describe("costMovements", () => {
+  // 10 @ 100, 10 @ 130, then 15 out
+  const history = [
+    movement("m1", "in", 1, 10, 100),
+    movement("m2", "in", 5, 10, 130),
+    movement("m3", "out", 10, 15),
+  ];
+
+  it("should cost issues from the oldest layers first under FIFO", () => {
+    const result = costMovements(history, "fifo");
+
+    expect(result.movements[2].cost).toBe(1650); // 10 × 100 + 5 × 130
+    expect(result.quantity).toBe(5);
+    expect(result.value).toBe(650);
+    expect(result.unitCost).toBe(130);
+  });
+
+  it("should cost issues at the moving weighted average", () => {
+    const result = costMovements(history, "average");
+
+    expect(result.movements[2].cost).toBe(1725); // 15 × 115
+    expect(result.quantity).toBe(5);
+    expect(result.value).toBe(575);
+  });
+
+  it("should take same-day receipts before issues", () => {
+    const result = costMovements([movement("out", "out", 3, 4), movement("in", "in", 3, 4, 50)], "fifo");
+
+    expect(result.shortfall).toBe(0);
+    expect(result.movements.map((m) => m.id)).toEqual(["in", "out"]);
+  });
+
+  it("should report a shortfall for stock sold before it was bought and let the next receipt cover it", () => {
+    const result = costMovements(
+      [movement("m1", "in", 1, 5, 100), movement("m2", "out", 2, 8), movement("m3", "in", 4, 10, 120)],
+      "fifo"
+    );
+
+    expect(result.movements[1]).toMatchObject({ shortfall: 3, cost: 800 }); // 3 short at the last cost
+    expect(result.shortfall).toBe(3);
+    expect(result.quantity).toBe(7);
+    expect(result.value).toBe(840);
+  });
+});
+
+describe("matchStockItem", () => {
+  it("should match by seller item code, name, alias, leading code or barcode", () => {
+    expect(matchStockItem(items, "Bilinmeyen", "ipl-30")?.id).toBe("item-1");
+    expect(matchStockItem(items, "pamuk iplik ne 30/1")?.id).toBe("item-1");
+    expect(matchStockItem(items, "Ham bez, 150 cm")?.id).toBe("item-2");
+    expect(matchStockItem(items, "KMS-01 ham kumaş 2. kalite")?.id).toBe("item-2");
+    expect(matchStockItem(items, "İplik 8690000000011")?.id).toBe("item-1");
+    expect(matchStockItem(items, "Nakliye bedeli")).toBeNull();
+  });
+});
+
+describe("StockService", () => {
+  let service: StockService;
+
+  beforeEach(() => {
+    service = new StockService();
+    vi.clearAllMocks();
+  });
+
+  it("should turn matched purchase lines into inbound movements at the TRY cost", async () => {
+    vi.mocked(prisma.invoice.findFirst).mockResolvedValue({
+      id: "inv-1",
+      clientCompanyId: "client-1",
+      type: "ALIŞ",
+      status: "kesildi",
+      currency: "USD",
+      issueDate: new Date(2026, 2, 5),
+      lines: [
+        { id: "line-1", description: "Pamuk İplik Ne 30/1", quantity: 200, lineTotal: 1000, stockItemId: null },
+        { id: "line-2", description: "Nakliye bedeli", quantity: 1, lineTotal: 50, stockItemId: null },
+      ],
+    } as any);
+    vi.mocked(prisma.stockItem.findMany).mockResolvedValue(items as any);
+    vi.mocked(kdvCalculationService.tryRate).mockResolvedValue(32.5);
+
+    const result = await service.syncInvoiceMovements("tenant-1", "inv-1");
+
+    expect(result).toEqual({ matched: 1, unmatched: 1 });
+    expect(prisma.stockMovement.deleteMany).toHaveBeenCalledWith({ where: { tenantId: "tenant-1", invoiceId: "inv-1" } });
+    expect(prisma.invoiceLine.update).toHaveBeenCalledWith({ where: { id: "line-1" }, data: { stockItemId: "item-1" } });
+    expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        itemId: "item-1",
+        warehouseId: "wh-1",
+        type: "purchase",
+        direction: "in",
+        quantity: 200,
+        unitCost: 162.5, // 1000 / 200 × 32,50
+        invoiceLineId: "line-1",
+      }),
+    });
+  });
+
+  it("should drop the movements of a cancelled invoice", async () => {
+    vi.mocked(prisma.invoice.findFirst).mockResolvedValue({
+      id: "inv-1",
+      clientCompanyId: "client-1",
+      type: "SATIŞ",
+      status: "iptal",
+      lines: [{ id: "line-1", description: "Ham Kumaş", quantity: 10, lineTotal: 900, stockItemId: "item-2" }],
+    } as any);
+
+    const result = await service.syncInvoiceMovements("tenant-1", "inv-1");
+
+    expect(result).toEqual({ matched: 0, unmatched: 0 });
+    expect(prisma.stockMovement.deleteMany).toHaveBeenCalled();
+    expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it("should post the month's cost of sales and sayım differences per account", async () => {
+    vi.mocked(prisma.stockItem.findMany).mockResolvedValue([
+      { id: "item-1", costMethod: "fifo", inventoryAccountCode: "153", cogsAccountCode: "621" },
+    ] as any);
+    vi.mocked(prisma.stockMovement.findMany).mockResolvedValue([
+      { id: "m1", itemId: "item-1", type: "purchase", direction: "in", date: new Date(2026, 1, 20), quantity: 10, unitCost: 100, invoiceId: "inv-1" },
+      { id: "m2", itemId: "item-1", type: "sale", direction: "out", date: new Date(2026, 1, 25), quantity: 2, unitCost: null, invoiceId: "inv-2" },
+      { id: "m3", itemId: "item-1", type: "sale", direction: "out", date: new Date(2026, 2, 10), quantity: 5, unitCost: null, invoiceId: "inv-3" },
+      { id: "m4", itemId: "item-1", type: "count_shortage", direction: "out", date: new Date(2026, 2, 31), quantity: 1, unitCost: null, invoiceId: null },
+    ] as any);
+    vi.mocked(prisma.stockPeriodPosting.findUnique).mockResolvedValue(null);
+
+    const summary = await service.getPeriodSummary("tenant-1", "client-1", "2026-03");
+
+    expect(summary).toMatchObject({ cogsAmount: 500, shortageAmount: 100, surplusAmount: 0, closingValue: 200 });
+    expect(summary.entries).toEqual([
+      { debitAccountCode: "621", creditAccountCode: "153", amount: 500, description: "2026-03 satılan ticari mallar maliyeti" },
+      { debitAccountCode: "197", creditAccountCode: "153", amount: 100, description: "2026-03 sayım noksanı" },
+    ]);
+  });
+});
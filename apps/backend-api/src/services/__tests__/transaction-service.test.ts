@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { TransactionService } from "../transaction-service";
 import { ValidationError } from "@repo/shared-utils";
 import { prisma } from "../../lib/prisma";
+import { accountingPeriodService } from "../accounting-period-service";
 
 // Mock Prisma
 vi.mock("../../lib/prisma", () => ({
@@ -25,12 +26,24 @@ vi.mock("../../lib/prisma", () => ({
     ledgerAccount: {
       findMany: vi.fn(),
     },
+    dimensionValue: {
+      findMany: vi.fn(),
+    },
+    dimensionDefault: {
+      findMany: vi.fn(async () => []),
+    },
     $queryRaw: vi.fn(),
     $executeRaw: vi.fn(),
     $executeRawUnsafe: vi.fn(),
   },
 }));
 
+vi.mock("../accounting-period-service", () => ({
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
 describe("TransactionService", () => {
   let service: TransactionService;
   const mockTenantId = "tenant-123";
@@ -206,6 +219,55 @@ describe("TransactionService", () => {
       await expect(service.createTransaction(mockTenantId, input)).rejects.toThrow(ValidationError);
       expect(prisma.transaction.create).not.toHaveBeenCalled();
     });
+
+    it("should reject transactions dated in a closed period", async () => {
+      const input = {
+        clientCompanyId: "client-1",
+        date: new Date(2026, 2, 15),
+        source: "manual" as const,
+        lines: [
+          { ledgerAccountId: "account-1", debitAmount: 1000, creditAmount: 0 },
+          { ledgerAccountId: "account-2", debitAmount: 0, creditAmount: 1000 },
+        ],
+      };
+
+      vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({
+        id: "client-1",
+        tenantId: mockTenantId,
+      } as any);
+      vi.mocked(prisma.ledgerAccount.findMany).mockResolvedValue([
+        { id: "account-1", tenantId: mockTenantId, clientCompanyId: null },
+        { id: "account-2", tenantId: mockTenantId, clientCompanyId: null },
+      ] as any);
+      vi.mocked(accountingPeriodService.assertDateWritable).mockRejectedValueOnce(
+        new ValidationError("2026-03 dönemi kilitli")
+      );
+
+      await expect(service.createTransaction(mockTenantId, input)).rejects.toThrow("2026-03 dönemi kilitli");
+      expect(accountingPeriodService.assertDateWritable).toHaveBeenCalledWith(
+        mockTenantId,
+        "client-1",
+        input.date
+      );
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteTransaction", () => {
+    it("should not delete transactions of a locked period", async () => {
+      vi.mocked(prisma.transaction.findFirst).mockResolvedValue({
+        id: "transaction-1",
+        tenantId: mockTenantId,
+        clientCompanyId: "client-1",
+        date: new Date(2026, 2, 15),
+      } as any);
+      vi.mocked(accountingPeriodService.assertDateWritable).mockRejectedValueOnce(
+        new ValidationError("2026-03 dönemi kilitli")
+      );
+
+      await expect(service.deleteTransaction(mockTenantId, "transaction-1")).rejects.toThrow(ValidationError);
+      expect(prisma.transaction.delete).not.toHaveBeenCalled();
+    });
   });
 
   describe("listTransactions", () => {
@@ -275,5 +337,90 @@ describe("TransactionService", () => {
       );
     });
   });
-});
 
+  describe("getTrialBalance", () => {
+    const dateFrom = new Date("2026-01-01");
+    const dateTo = new Date("2026-12-31");
+
+    it("should roll detail postings up to sub-accounts and main accounts", async () => {
+      const detail = { id: "acc-120-01-0042", code: "120.01.0042", name: "Müşteri A", parentId: "acc-120-01", level: 3 };
+      const sales = { id: "acc-600", code: "600", name: "Yurtiçi Satışlar", parentId: null, level: 1 };
+
+      vi.mocked(prisma.transaction.findMany).mockResolvedValue([
+        {
+          id: "transaction-1",
+          lines: [
+            { ledgerAccountId: detail.id, ledgerAccount: detail, debitAmount: 1200, creditAmount: 0 },
+            { ledgerAccountId: sales.id, ledgerAccount: sales, debitAmount: 0, creditAmount: 1200 },
+          ],
+        },
+      ] as any);
+
+      vi.mocked(prisma.ledgerAccount.findMany)
+        .mockResolvedValueOnce([
+          { id: "acc-120-01", code: "120.01", name: "Yurtiçi Alıcılar", parentId: "acc-120", level: 2 },
+        ] as any)
+        .mockResolvedValueOnce([{ id: "acc-120", code: "120", name: "Alıcılar", parentId: null, level: 1 }] as any);
+
+      const result = await service.getTrialBalance(mockTenantId, "client-1", dateFrom, dateTo);
+
+      expect(result.entries.map((e) => e.ledgerAccountCode)).toEqual(["120", "120.01", "120.01.0042", "600"]);
+      const main = result.entries.find((e) => e.ledgerAccountCode === "120")!;
+      expect(main.totalDebit).toBe(1200);
+      expect(main.hasChildren).toBe(true);
+      expect(result.entries.find((e) => e.ledgerAccountCode === "120.01.0042")!.hasChildren).toBe(false);
+      // Grand totals count each posting once, not once per hierarchy level
+      expect(result.totalDebit).toBe(1200);
+      expect(result.totalCredit).toBe(1200);
+    });
+
+    it("should limit entries to the requested hierarchy level", async () => {
+      const sub = { id: "acc-102-01", code: "102.01", name: "Banka A", parentId: "acc-102", level: 2 };
+      const capital = { id: "acc-500", code: "500", name: "Sermaye", parentId: null, level: 1 };
+
+      vi.mocked(prisma.transaction.findMany).mockResolvedValue([
+        {
+          id: "transaction-1",
+          lines: [
+            { ledgerAccountId: sub.id, ledgerAccount: sub, debitAmount: 500, creditAmount: 0 },
+            { ledgerAccountId: capital.id, ledgerAccount: capital, debitAmount: 0, creditAmount: 500 },
+          ],
+        },
+      ] as any);
+      vi.mocked(prisma.ledgerAccount.findMany).mockResolvedValueOnce([
+        { id: "acc-102", code: "102", name: "Bankalar", parentId: null, level: 1 },
+      ] as any);
+
+      const result = await service.getTrialBalance(mockTenantId, null, dateFrom, dateTo, { maxLevel: 1 });
+
+      expect(result.entries.map((e) => e.ledgerAccountCode)).toEqual(["102", "500"]);
+      expect(result.entries[0].balance).toBe(500);
+    });
+
+    it("should only sum lines tagged with the requested dimension values", async () => {
+      vi.mocked(prisma.dimensionValue.findMany).mockResolvedValue([
+        { id: "mm-uretim", dimensionId: "dim-mm" },
+        { id: "mm-satis", dimensionId: "dim-mm" },
+        { id: "prj-a", dimensionId: "dim-prj" },
+      ] as any);
+      vi.mocked(prisma.transaction.findMany).mockResolvedValue([]);
+
+      await service.getTrialBalance(mockTenantId, "client-1", dateFrom, dateTo, {
+        dimensionValueIds: ["mm-uretim", "mm-satis", "prj-a"],
+      });
+
+      const lineFilter = {
+        AND: [
+          { dimensions: { some: { dimensionValueId: { in: ["mm-uretim", "mm-satis"] } } } },
+          { dimensions: { some: { dimensionValueId: { in: ["prj-a"] } } } },
+        ],
+      };
+      expect(prisma.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ lines: { some: lineFilter } }),
+          include: { lines: expect.objectContaining({ where: lineFilter }) },
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { YearEndClosingService } from "../year-end-closing-service";
+import { ValidationError } from "@repo/shared-utils";
+import { prisma } from "../../lib/prisma";
+import { transactionService } from "../transaction-service";
+import { tmsComplianceService } from "../tms-compliance-service";
+
+vi.mock("../../lib/prisma", () => ({
+  prisma: {
+    clientCompany: {
+      findFirst: vi.fn(),
+    },
+    yearEndClosing: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    ledgerAccount: {
+      findMany: vi.fn(),
+    },
+    transactionLine: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../transaction-service", () => ({
+  transactionService: {
+    getTrialBalance: vi.fn(),
+  },
+}));
+
+vi.mock("../tms-compliance-service", () => ({
+  tmsComplianceService: {
+    validateTMSCompliance: vi.fn(),
+  },
+}));
+
+vi.mock("../accounting-period-service", () => ({
+  accountingPeriodService: {
+    assertDateWritable: vi.fn(),
+  },
+}));
+
+vi.mock("../ledger-account-service", () => ({
+  ledgerAccountService: {
+    createLedgerAccount: vi.fn(),
+  },
+}));
+
+vi.mock("../audit-service", () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+function entry(code: string, balance: number) {
+  return {
+    ledgerAccountId: `acc-${code}`,
+    ledgerAccountCode: code,
+    ledgerAccountName: code,
+    parentLedgerAccountId: null,
+    level: 1,
+    hasChildren: false,
+    totalDebit: balance > 0 ? balance : 0,
+    totalCredit: balance < 0 ? -balance : 0,
+    balance,
+  };
+}
+
+describe("YearEndClosingService", () => {
+  let service: YearEndClosingService;
+  const mockTenantId = "tenant-123";
+
+  beforeEach(() => {
+    service = new YearEndClosingService();
+    vi.clearAllMocks();
+
+    vi.mocked(prisma.clientCompany.findFirst).mockResolvedValue({ id: "client-1" } as any);
+    vi.mocked(prisma.yearEndClosing.findUnique).mockResolvedValue(null);
+    vi.mocked(tmsComplianceService.validateTMSCompliance).mockResolvedValue({ issues: [] } as any);
+    vi.mocked(prisma.ledgerAccount.findMany).mockImplementation((async (args: any) =>
+      args.where.code.in.map((code: string) => ({ id: `acc-${code}`, code, name: code, clientCompanyId: "client-1" }))) as any);
+
+    // 600 Yurtiçi Satışlar 10.000 alacak, 770 Genel Yönetim Giderleri 4.000 borç,
+    // 100 Kasa 5.500 ve 193 Peşin Ödenen Vergiler 500 borç
+    vi.mocked(transactionService.getTrialBalance).mockResolvedValue({
+      entries: [entry("100", 5500), entry("193", 500), entry("600", -10000), entry("770", 4000)],
+      totalDebit: 10000,
+      totalCredit: 10000,
+    });
+  });
+
+  describe("preview", () => {
+    it("should close income statement accounts and compute the tax provision", async () => {
+      const preview = await service.preview(mockTenantId, "client-1", 2026);
+
+      expect(preview.summary).toMatchObject({
+        totalIncome: 10000,
+        totalExpense: 4000,
+        profitBeforeTax: 6000,
+        taxProvision: 1500,
+        prepaidTaxOffset: 500,
+        netResult: 4500,
+      });
+
+      for (const draft of preview.transactions) {
+        expect(draft.totalDebit).toBeCloseTo(draft.totalCredit, 2);
+      }
+
+      const result = preview.transactions.find((t) => t.kind === "result")!;
+      expect(result.lines).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ code: "600", debitAmount: 10000 }),
+          expect.objectContaining({ code: "770", creditAmount: 4000 }),
+          expect.objectContaining({ code: "691", debitAmount: 1500 }),
+          expect.objectContaining({ code: "370", creditAmount: 1500 }),
+          expect.objectContaining({ code: "590", creditAmount: 4500 }),
+        ])
+      );
+    });
+
+    it("should carry the net profit into 570 in the opening entry", async () => {
+      const preview = await service.preview(mockTenantId, "client-1", 2026);
+
+      const opening = preview.transactions.find((t) => t.kind === "opening")!;
+      expect(opening.date).toEqual(new Date(2027, 0, 1));
+      expect(opening.lines).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ code: "100", debitAmount: 5500 }),
+          expect.objectContaining({ code: "570", creditAmount: 4500 }),
+          expect.objectContaining({ code: "370", creditAmount: 1500 }),
+          expect.objectContaining({ code: "371", debitAmount: 500 }),
+        ])
+      );
+      expect(opening.lines.find((line) => line.code === "590")).toBeUndefined();
+    });
+
+    it("should report changes against the previously posted run", async () => {
+      vi.mocked(prisma.yearEndClosing.findUnique).mockResolvedValue({
+        id: "closing-1",
+        resultTransactionId: "t-result",
+        closingTransactionId: null,
+        openingTransactionId: null,
+        postedAt: new Date(),
+        runCount: 1,
+      } as any);
+      vi.mocked(prisma.transactionLine.findMany).mockResolvedValue([
+        { transactionId: "t-result", debitAmount: 0, creditAmount: 4000, ledgerAccount: { code: "590" } },
+      ] as any);
+
+      const preview = await service.preview(mockTenantId, "client-1", 2026);
+
+      expect(transactionService.getTrialBalance).toHaveBeenCalledWith(
+        mockTenantId,
+        "client-1",
+        expect.any(Date),
+        expect.any(Date),
+        { excludeTransactionIds: ["t-result"] }
+      );
+      expect(preview.diff).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ kind: "result", code: "590", previousCredit: 4000, credit: 4500 }),
+        ])
+      );
+    });
+  });
+
+  describe("post", () => {
+    it("should refuse to close a year with unbalanced entries", async () => {
+      vi.mocked(tmsComplianceService.validateTMSCompliance).mockResolvedValue({
+        issues: [{ type: "double_entry", severity: "high", description: "Dengesiz" }],
+      } as any);
+
+      await expect(service.post(mockTenantId, "user-1", "client-1", 2026)).rejects.toThrow(ValidationError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should replace the transactions of a previous run", async () => {
+      vi.mocked(prisma.yearEndClosing.findUnique).mockResolvedValue({
+        id: "closing-1",
+        resultTransactionId: "t-result",
+        closingTransactionId: "t-closing",
+        openingTransactionId: "t-opening",
+        postedAt: new Date(),
+        runCount: 1,
+      } as any);
+      vi.mocked(prisma.transactionLine.findMany).mockResolvedValue([]);
+
+      const tx = {
+        transaction: {
+          deleteMany: vi.fn(),
+          create: vi.fn().mockImplementation(async (args: any) => ({ id: `new-${args.data.referenceNo}` })),
+        },
+        yearEndClosing: {
+          update: vi.fn().mockImplementation(async (args: any) => ({
+            id: "closing-1",
+            fiscalYear: 2026,
+            ...args.data,
+            runCount: 2,
+          })),
+          create: vi.fn(),
+        },
+      };
+      vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(tx)) as any);
+
+      const result = await service.post(mockTenantId, "user-1", "client-1", 2026);
+
+      expect(tx.transaction.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["t-result", "t-closing", "t-opening"] }, tenantId: mockTenantId },
+      });
+      expect(tx.transaction.create).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({
+        runCount: 2,
+        resultTransactionId: "new-KAPANIS-2026-SONUC",
+        openingTransactionId: "new-ACILIS-2027",
+      });
+    });
+  });
+});
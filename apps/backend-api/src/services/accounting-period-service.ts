@@ -0,0 +1,595 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import type { CreateTransactionLineInput, Transaction } from "@repo/core-domain";
+import { auditService } from "./audit-service";
+
+/**
+ * Mali dönem kapanışı
+ *
+ * Every client company has one accounting period per month. A period is
+ * open by default; once soft-closed only period-end adjustments may post to
+ * it, and once locked it is immutable. A month whose e-Defter or beyanname
+ * has been submitted to GİB counts as locked even if nobody closed it.
+ */
+
+export type AccountingPeriodStatus = "open" | "soft_closed" | "locked";
+
+const FILED_STATUSES = ["submitted", "accepted"];
+const MAX_REDIRECT_MONTHS = 24;
+
+export interface PeriodCloseChecks {
+  transactionCount: number;
+  unbalancedTransactionIds: string[];
+  eDefterStatus: string | null;
+  beyannameler: Array<{ type: string; period: string; status: string }>;
+  filed: boolean;
+  warnings: string[];
+}
+
+export interface AccountingPeriodSummary {
+  id: string | null;
+  clientCompanyId: string;
+  period: string;
+  periodStart: Date;
+  periodEnd: Date;
+  status: AccountingPeriodStatus;
+  lockedByFiling: boolean;
+  closedAt: Date | null;
+  closedByUserId: string | null;
+  lockedAt: Date | null;
+  lockedByUserId: string | null;
+  reopenedAt: Date | null;
+  reopenedByUserId: string | null;
+  reopenReason: string | null;
+  closeChecks: PeriodCloseChecks | null;
+  notes: string | null;
+}
+
+export interface AssertWritableOptions {
+  allowSoftClosed?: boolean; // period-end adjustments may still post to soft-closed months
+}
+
+export interface PostingDateResolution {
+  date: Date;
+  redirected: boolean;
+  originalDate: Date;
+  originalPeriod: string;
+}
+
+export interface CorrectingEntryInput {
+  description?: string;
+  lines?: CreateTransactionLineInput[]; // corrected postings added next to the reversal
+}
+
+/** "YYYY-MM" key of the month a date falls into */
+export function getPeriodKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export function getPeriodBounds(period: string): { periodStart: Date; periodEnd: Date } {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  if (!match) {
+    throw new ValidationError("Dönem YYYY-MM formatında olmalıdır.");
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  if (month < 1 || month > 12) {
+    throw new ValidationError("Dönem YYYY-MM formatında olmalıdır.");
+  }
+
+  return {
+    periodStart: new Date(year, month - 1, 1),
+    periodEnd: new Date(year, month, 0, 23, 59, 59, 999),
+  };
+}
+
+function getNextPeriodKey(period: string): string {
+  const { periodEnd } = getPeriodBounds(period);
+  return getPeriodKey(new Date(periodEnd.getTime() + 1));
+}
+
+/** Beyanname period keys (monthly, quarterly, annual) that cover the month */
+function getBeyannamePeriodKeys(period: string): string[] {
+  const [year, month] = period.split("-");
+  const quarter = Math.ceil(parseInt(month, 10) / 3);
+  return [period, `${year}-Q${quarter}`, year];
+}
+
+export class AccountingPeriodService {
+  /**
+   * List the accounting periods of a client company for a year, including
+   * months that have no period row yet
+   */
+  async listPeriods(
+    tenantId: string,
+    clientCompanyId: string,
+    year: number = new Date().getFullYear()
+  ): Promise<AccountingPeriodSummary[]> {
+    await this.assertClientCompany(tenantId, clientCompanyId);
+
+    const rows = await prisma.accountingPeriod.findMany({
+      where: { tenantId, clientCompanyId, period: { startsWith: `${year}-` } },
+    });
+    const byPeriod = new Map(rows.map((row) => [row.period, row]));
+
+    const summaries: AccountingPeriodSummary[] = [];
+    for (let month = 1; month <= 12; month++) {
+      const period = `${year}-${String(month).padStart(2, "0")}`;
+      const row = byPeriod.get(period);
+      summaries.push(
+        row ? this.mapPeriod(row) : await this.buildImplicitPeriod(tenantId, clientCompanyId, period)
+      );
+    }
+
+    return summaries;
+  }
+
+  async getPeriod(
+    tenantId: string,
+    clientCompanyId: string,
+    period: string
+  ): Promise<AccountingPeriodSummary> {
+    getPeriodBounds(period);
+
+    const row = await prisma.accountingPeriod.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    return row ? this.mapPeriod(row) : this.buildImplicitPeriod(tenantId, clientCompanyId, period);
+  }
+
+  /**
+   * Effective status of the month a date falls into. An explicit period row
+   * wins; without one the month is locked once its filings reached GİB.
+   */
+  async getStatusForDate(
+    tenantId: string,
+    clientCompanyId: string,
+    date: Date
+  ): Promise<AccountingPeriodStatus> {
+    const period = getPeriodKey(date);
+
+    const row = await prisma.accountingPeriod.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+      select: { status: true },
+    });
+
+    if (row) {
+      return row.status as AccountingPeriodStatus;
+    }
+
+    return (await this.isFiled(tenantId, clientCompanyId, period)) ? "locked" : "open";
+  }
+
+  /**
+   * Throw if the month of the given date no longer accepts postings.
+   * Entries without a client company are not period-controlled.
+   */
+  async assertDateWritable(
+    tenantId: string,
+    clientCompanyId: string | null | undefined,
+    date: Date,
+    options: AssertWritableOptions = {}
+  ): Promise<void> {
+    if (!clientCompanyId) {
+      return;
+    }
+
+    const status = await this.getStatusForDate(tenantId, clientCompanyId, date);
+    if (status === "open" || (status === "soft_closed" && options.allowSoftClosed)) {
+      return;
+    }
+
+    const period = getPeriodKey(date);
+    throw new ValidationError(
+      status === "locked"
+        ? `${period} dönemi kilitli, bu döneme ait kayıtlar değiştirilemez. Düzeltmeleri açık dönemde düzeltme kaydı ile yapın.`
+        : `${period} dönemi kapatılmış, bu döneme kayıt yapılamaz. Düzeltmeleri açık dönemde düzeltme kaydı ile yapın.`
+    );
+  }
+
+  /**
+   * Keep the items whose month still accepts postings, looking each month
+   * up once. Automated matching uses it to pass over closed months.
+   */
+  async filterWritable<T>(
+    tenantId: string,
+    clientCompanyId: string,
+    items: T[],
+    dateOf: (item: T) => Date
+  ): Promise<T[]> {
+    const statuses = new Map<string, AccountingPeriodStatus>();
+    const writable: T[] = [];
+    for (const item of items) {
+      const date = dateOf(item);
+      const period = getPeriodKey(date);
+      if (!statuses.has(period)) {
+        statuses.set(period, await this.getStatusForDate(tenantId, clientCompanyId, date));
+      }
+      if (statuses.get(period) === "open") {
+        writable.push(item);
+      }
+    }
+    return writable;
+  }
+
+  /**
+   * Resolve the date an automated posting (import, integration sync) should
+   * use. Dates in a closed month move to the first day of the next open month.
+   */
+  async resolvePostingDate(
+    tenantId: string,
+    clientCompanyId: string | null | undefined,
+    date: Date
+  ): Promise<PostingDateResolution> {
+    const originalPeriod = getPeriodKey(date);
+    const resolution = { date, redirected: false, originalDate: date, originalPeriod };
+
+    if (!clientCompanyId) {
+      return resolution;
+    }
+
+    let period = originalPeriod;
+    for (let i = 0; i <= MAX_REDIRECT_MONTHS; i++) {
+      const { periodStart } = getPeriodBounds(period);
+      const status = await this.getStatusForDate(tenantId, clientCompanyId, i === 0 ? date : periodStart);
+
+      if (status === "open") {
+        return i === 0 ? resolution : { ...resolution, date: periodStart, redirected: true };
+      }
+
+      period = getNextPeriodKey(period);
+    }
+
+    throw new ValidationError("Kayıt yapılabilecek açık bir dönem bulunamadı.");
+  }
+
+  /**
+   * Run the close checks for a month and soft-close or lock it. Months whose
+   * e-Defter or beyanname has been submitted are always locked.
+   */
+  async closePeriod(
+    tenantId: string,
+    userId: string,
+    clientCompanyId: string,
+    period: string,
+    options: { lock?: boolean; notes?: string } = {}
+  ): Promise<AccountingPeriodSummary> {
+    await this.assertClientCompany(tenantId, clientCompanyId);
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+
+    const existing = await prisma.accountingPeriod.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    if (existing?.status === "locked") {
+      throw new ValidationError(`${period} dönemi zaten kilitli.`);
+    }
+
+    const checks = await this.runCloseChecks(tenantId, clientCompanyId, period);
+
+    if (checks.unbalancedTransactionIds.length > 0) {
+      throw new ValidationError(
+        `${period} döneminde borç ve alacak toplamı eşit olmayan ${checks.unbalancedTransactionIds.length} kayıt var, dönem kapatılamaz.`
+      );
+    }
+
+    const lock = options.lock === true || checks.filed;
+    const escalating = existing?.status === "soft_closed";
+    const now = new Date();
+
+    const data = {
+      status: lock ? "locked" : "soft_closed",
+      closedAt: escalating ? existing.closedAt : now,
+      closedByUserId: escalating ? existing.closedByUserId : userId,
+      lockedAt: lock ? now : null,
+      lockedByUserId: lock ? userId : null,
+      closeChecks: checks as any,
+      notes: options.notes ?? existing?.notes ?? null,
+    };
+
+    const row = existing
+      ? await prisma.accountingPeriod.update({ where: { id: existing.id }, data })
+      : await prisma.accountingPeriod.create({
+          data: { tenantId, clientCompanyId, period, periodStart, periodEnd, ...data },
+        });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: lock ? "PERIOD_LOCKED" : "PERIOD_CLOSED",
+      resourceType: "AccountingPeriod",
+      resourceId: row.id,
+      metadata: { clientCompanyId, period, filed: checks.filed, warnings: checks.warnings },
+    });
+
+    logger.info("Accounting period closed", undefined, { tenantId, clientCompanyId, period, status: row.status });
+
+    // Overruns of the approved budget are flagged once the month's figures are final
+    if (!escalating) {
+      try {
+        const { budgetService } = await import("./budget-service");
+        await budgetService.checkThresholds(tenantId, clientCompanyId, period);
+      } catch (error: any) {
+        logger.warn("Budget check after period close failed", undefined, { tenantId, clientCompanyId, period, error: error.message });
+      }
+    }
+
+    return this.mapPeriod(row);
+  }
+
+  /**
+   * Reopen a soft-closed or locked month. Callers must restrict this to the
+   * TenantOwner role; the reason is kept on the period and in the audit log.
+   */
+  async reopenPeriod(
+    tenantId: string,
+    userId: string,
+    clientCompanyId: string,
+    period: string,
+    reason: string
+  ): Promise<AccountingPeriodSummary> {
+    await this.assertClientCompany(tenantId, clientCompanyId);
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+
+    const existing = await prisma.accountingPeriod.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    const previousStatus = existing
+      ? (existing.status as AccountingPeriodStatus)
+      : (await this.isFiled(tenantId, clientCompanyId, period))
+        ? "locked"
+        : "open";
+
+    if (previousStatus === "open") {
+      throw new ValidationError(`${period} dönemi zaten açık.`);
+    }
+
+    const now = new Date();
+    const data = {
+      status: "open",
+      reopenedAt: now,
+      reopenedByUserId: userId,
+      reopenReason: reason,
+    };
+
+    // A filed month without a period row gets an explicit open row so the
+    // filing no longer locks it implicitly
+    const row = existing
+      ? await prisma.accountingPeriod.update({ where: { id: existing.id }, data })
+      : await prisma.accountingPeriod.create({
+          data: { tenantId, clientCompanyId, period, periodStart, periodEnd, ...data },
+        });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "PERIOD_REOPENED",
+      resourceType: "AccountingPeriod",
+      resourceId: row.id,
+      metadata: { clientCompanyId, period, previousStatus, reason },
+    });
+
+    logger.info("Accounting period reopened", undefined, { tenantId, clientCompanyId, period, previousStatus });
+
+    return this.mapPeriod(row);
+  }
+
+  /**
+   * Correct a transaction of a closed month: the original postings are
+   * reversed, and the corrected lines (if any) posted, in the open period.
+   */
+  async createCorrectingEntry(
+    tenantId: string,
+    userId: string,
+    transactionId: string,
+    input: CorrectingEntryInput = {}
+  ): Promise<Transaction> {
+    const original = await prisma.transaction.findFirst({
+      where: { id: transactionId, tenantId },
+      include: { lines: true },
+    });
+
+    if (!original) {
+      throw new NotFoundError("Mali hareket bulunamadı.");
+    }
+
+    if (!original.clientCompanyId) {
+      throw new ValidationError("Müşteri şirketi olmayan kayıtlar dönem kontrolüne tabi değildir, kaydı doğrudan düzenleyin.");
+    }
+
+    const status = await this.getStatusForDate(tenantId, original.clientCompanyId, original.date);
+    if (status === "open") {
+      throw new ValidationError("Kaydın dönemi açık, düzeltme kaydı yerine kaydı doğrudan düzenleyin.");
+    }
+
+    const posting = await this.resolvePostingDate(tenantId, original.clientCompanyId, new Date());
+    const reference = original.referenceNo ?? original.id.slice(-8);
+
+    const reversalLines: CreateTransactionLineInput[] = original.lines.map((line) => ({
+      ledgerAccountId: line.ledgerAccountId,
+      debitAmount: Number(line.creditAmount),
+      creditAmount: Number(line.debitAmount),
+      description: `Ters kayıt: ${line.description ?? reference}`,
+    }));
+
+    const { transactionService } = await import("./transaction-service");
+    const correction = await transactionService.createTransaction(tenantId, {
+      clientCompanyId: original.clientCompanyId,
+      date: posting.date,
+      referenceNo: `DZT-${reference}`.slice(0, 100),
+      description:
+        input.description ??
+        `${getPeriodKey(original.date)} dönemindeki ${reference} kaydının düzeltmesi`,
+      source: "correction",
+      lines: [...reversalLines, ...(input.lines ?? [])],
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "PERIOD_CORRECTING_ENTRY_CREATED",
+      resourceType: "Transaction",
+      resourceId: correction.id,
+      metadata: {
+        correctedTransactionId: original.id,
+        correctedPeriod: getPeriodKey(original.date),
+        postingPeriod: getPeriodKey(posting.date),
+      },
+    });
+
+    return correction;
+  }
+
+  private async runCloseChecks(
+    tenantId: string,
+    clientCompanyId: string,
+    period: string
+  ): Promise<PeriodCloseChecks> {
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+
+    const [transactions, eDefter, beyannameler] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { tenantId, clientCompanyId, date: { gte: periodStart, lte: periodEnd } },
+        select: { id: true, lines: { select: { debitAmount: true, creditAmount: true } } },
+      }),
+      prisma.eDefterLedger.findFirst({
+        where: {
+          tenantId,
+          clientCompanyId,
+          periodStart: { lte: periodEnd },
+          periodEnd: { gte: periodStart },
+        },
+        orderBy: { generationDate: "desc" },
+        select: { status: true },
+      }),
+      prisma.beyanname.findMany({
+        where: { tenantId, clientCompanyId, period: { in: getBeyannamePeriodKeys(period) } },
+        select: { type: true, period: true, status: true },
+      }),
+    ]);
+
+    const unbalancedTransactionIds = transactions
+      .filter((transaction) => {
+        const debit = transaction.lines.reduce((sum, line) => sum + Number(line.debitAmount), 0);
+        const credit = transaction.lines.reduce((sum, line) => sum + Number(line.creditAmount), 0);
+        return Math.abs(debit - credit) > 0.01;
+      })
+      .map((transaction) => transaction.id);
+
+    const warnings: string[] = [];
+    if (!eDefter) {
+      warnings.push("Bu dönem için e-Defter oluşturulmamış.");
+    } else if (eDefter.status === "rejected") {
+      warnings.push("Bu dönemin e-Defteri GİB tarafından reddedilmiş.");
+    }
+    for (const beyanname of beyannameler) {
+      if (!FILED_STATUSES.includes(beyanname.status)) {
+        warnings.push(`${beyanname.period} ${beyanname.type} beyannamesi henüz gönderilmemiş (${beyanname.status}).`);
+      }
+    }
+
+    const filed =
+      (eDefter !== null && FILED_STATUSES.includes(eDefter.status)) ||
+      beyannameler.some((beyanname) => FILED_STATUSES.includes(beyanname.status));
+
+    return {
+      transactionCount: transactions.length,
+      unbalancedTransactionIds,
+      eDefterStatus: eDefter?.status ?? null,
+      beyannameler,
+      filed,
+      warnings,
+    };
+  }
+
+  private async isFiled(tenantId: string, clientCompanyId: string, period: string): Promise<boolean> {
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+
+    const [eDefterCount, beyannameCount] = await Promise.all([
+      prisma.eDefterLedger.count({
+        where: {
+          tenantId,
+          clientCompanyId,
+          status: { in: FILED_STATUSES },
+          periodStart: { lte: periodEnd },
+          periodEnd: { gte: periodStart },
+        },
+      }),
+      prisma.beyanname.count({
+        where: {
+          tenantId,
+          clientCompanyId,
+          status: { in: FILED_STATUSES },
+          period: { in: getBeyannamePeriodKeys(period) },
+        },
+      }),
+    ]);
+
+    return eDefterCount > 0 || beyannameCount > 0;
+  }
+
+  private async assertClientCompany(tenantId: string, clientCompanyId: string): Promise<void> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+      select: { id: true },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+  }
+
+  private async buildImplicitPeriod(
+    tenantId: string,
+    clientCompanyId: string,
+    period: string
+  ): Promise<AccountingPeriodSummary> {
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+    const filed = await this.isFiled(tenantId, clientCompanyId, period);
+
+    return {
+      id: null,
+      clientCompanyId,
+      period,
+      periodStart,
+      periodEnd,
+      status: filed ? "locked" : "open",
+      lockedByFiling: filed,
+      closedAt: null,
+      closedByUserId: null,
+      lockedAt: null,
+      lockedByUserId: null,
+      reopenedAt: null,
+      reopenedByUserId: null,
+      reopenReason: null,
+      closeChecks: null,
+      notes: null,
+    };
+  }
+
+  private mapPeriod(row: any): AccountingPeriodSummary {
+    return {
+      id: row.id,
+      clientCompanyId: row.clientCompanyId,
+      period: row.period,
+      periodStart: row.periodStart,
+      periodEnd: row.periodEnd,
+      status: row.status as AccountingPeriodStatus,
+      lockedByFiling: false,
+      closedAt: row.closedAt ?? null,
+      closedByUserId: row.closedByUserId ?? null,
+      lockedAt: row.lockedAt ?? null,
+      lockedByUserId: row.lockedByUserId ?? null,
+      reopenedAt: row.reopenedAt ?? null,
+      reopenedByUserId: row.reopenedByUserId ?? null,
+      reopenReason: row.reopenReason ?? null,
+      closeChecks: (row.closeChecks as PeriodCloseChecks | null) ?? null,
+      notes: row.notes ?? null,
+    };
+  }
+}
+
+export const accountingPeriodService = new AccountingPeriodService();
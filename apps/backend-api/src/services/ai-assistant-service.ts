@@ -3,6 +3,7 @@ import { createLLMClient, hasRealAIProvider, logger } from "@repo/shared-utils";
 import { getConfig } from "@repo/config";
 import { auditService } from "./audit-service";
 import { ragService } from "./rag-service";
+import { assistantConversationService, type AssistantCitation, type NewAssistantCitation } from "./assistant-conversation-service";
 
 export type AIAssistantType = "CHAT" | "DAILY_RISK_SUMMARY" | "PORTFOLIO_OVERVIEW";
 
@@ -24,6 +25,7 @@ export interface EnhancedChatInput {
   type?: "GENEL" | "RAPOR" | "RISK";
   contextFilters?: ChatContextFilters;
   conversationHistory?: ConversationMessage[];
+  conversationId?: string; // stored conversation to continue; its history replaces conversationHistory
   useHybridSearch?: boolean;
   useReranking?: boolean;
 }
@@ -656,11 +658,14 @@ Yanıtlarını Türkçe, profesyonel ve yardımcı bir tonla ver.`;
    */
   async generateEnhancedChatResponse(input: EnhancedChatInput): Promise<{
     answer: string;
+    conversationId: string | null;
+    messageId: string | null;
     sourcesUsed: Array<{
       documentId: string;
       similarity: number;
       rerankScore?: number;
     }>;
+    citations: AssistantCitation[];
     searchMetrics: {
       hybridResultsCount?: number;
       ragDocumentsUsed: number;
@@ -668,17 +673,23 @@ Yanıtlarını Türkçe, profesyonel ve yardımcı bir tonla ver.`;
     };
   }> {
     const startTime = Date.now();
+    const askedAt = new Date();
     const {
       tenantId,
       userId,
       question,
       type,
       contextFilters,
-      conversationHistory,
+      conversationId,
       useHybridSearch = true,
       useReranking = false,
     } = input;
 
+    // Continuing a stored conversation: its history is authoritative (also checks ownership)
+    const conversationHistory = conversationId
+      ? await assistantConversationService.getHistory(tenantId, userId, conversationId)
+      : input.conversationHistory;
+
     try {
       // Use enhanced RAG context retrieval
       const ragContext = await ragService.retrieveEnhancedContext(question, tenantId, {
@@ -754,18 +765,65 @@ Yanıtlarını Türkçe, profesyonel ve yardımcı bir tonla ver.`;
         logger.error("Audit logging failed:", { error: auditError.message });
       }
 
+      const searchMetrics = {
+        hybridResultsCount: ragContext.hybridResults,
+        ragDocumentsUsed: ragContext.documents.length,
+        processingTimeMs,
+      };
+
+      const newCitations: NewAssistantCitation[] = ragContext.documents.map((doc) => ({
+        documentId: doc.documentId,
+        invoiceId: doc.metadata?.relatedInvoiceId ?? null,
+        transactionId: doc.metadata?.relatedTransactionId ?? null,
+        label: doc.metadata?.originalFileName || `Belge ${doc.documentId}`,
+        similarity: doc.similarity,
+        rerankScore: doc.rerankScore ?? null,
+        snippet: doc.text ? doc.text.substring(0, 300) : null,
+      }));
+
+      // Persist the exchange; the answer is still returned (without citations) if storing it fails
+      let storedConversationId: string | null = conversationId ?? null;
+      let messageId: string | null = null;
+      let citations: AssistantCitation[] = [];
+      try {
+        if (!storedConversationId) {
+          const conversation = await assistantConversationService.startConversation(
+            tenantId,
+            userId,
+            question,
+            type,
+            contextFilters?.companyId
+          );
+          storedConversationId = conversation.id;
+        }
+        const message = await assistantConversationService.recordExchange(tenantId, storedConversationId, {
+          question,
+          askedAt,
+          answer,
+          searchMetrics,
+          citations: newCitations,
+        });
+        messageId = message.id;
+        citations = message.citations;
+      } catch (storeError: any) {
+        logger.error("[AI Assistant] Failed to store conversation:", {
+          error: storeError.message,
+          tenantId,
+          userId,
+        });
+      }
+
       return {
         answer,
+        conversationId: storedConversationId,
+        messageId,
         sourcesUsed: ragContext.documents.map((doc) => ({
           documentId: doc.documentId,
           similarity: doc.similarity,
           rerankScore: doc.rerankScore,
         })),
-        searchMetrics: {
-          hybridResultsCount: ragContext.hybridResults,
-          ragDocumentsUsed: ragContext.documents.length,
-          processingTimeMs,
-        },
+        citations,
+        searchMetrics,
       };
     } catch (error: any) {
       const processingTimeMs = Date.now() - startTime;
@@ -1,6 +1,7 @@
 import { prisma } from "../lib/prisma";
 import { NotFoundError } from "@repo/shared-utils";
 import { logger } from "@repo/shared-utils";
+import { dimensionService } from "./dimension-service";
 
 /**
  * Analytics Service
@@ -18,6 +19,11 @@ export interface FinancialTrend {
   averageInvoiceValue: number;
 }
 
+export interface FinancialTrendFilters {
+  clientCompanyId?: string;
+  dimensionValueIds?: string[]; // only the invoice lines tagged with these values count
+}
+
 export interface RiskTrend {
   period: string;
   averageRiskScore: number;
@@ -83,8 +89,12 @@ export class AnalyticsService {
     tenantId: string,
     periodStart: Date,
     periodEnd: Date,
-    granularity: "daily" | "weekly" | "monthly" | "quarterly" = "monthly"
+    granularity: "daily" | "weekly" | "monthly" | "quarterly" = "monthly",
+    filters: FinancialTrendFilters = {}
   ): Promise<FinancialTrend[]> {
+    // Outside the try: unknown boyut values are a bad request, not an empty chart
+    const lineFilter = await dimensionService.buildLineFilter(tenantId, filters.dimensionValueIds);
+
     try {
       const trends: FinancialTrend[] = [];
       const invoices = await prisma.invoice.findMany({
@@ -94,9 +104,12 @@ export class AnalyticsService {
           gte: periodStart,
           lte: periodEnd,
         },
+        ...(filters.clientCompanyId && { clientCompanyId: filters.clientCompanyId }),
+        ...(lineFilter && { lines: { some: lineFilter } }),
       },
       include: {
         clientCompany: true,
+        ...(lineFilter && { lines: { where: lineFilter, select: { lineTotal: true, vatAmount: true } } }),
       },
     });
 
@@ -126,10 +139,18 @@ export class AnalyticsService {
       const data = periodMap.get(period)!;
       data.invoiceCount++;
 
+      // With a dimension filter only the share of the tagged lines counts
+      const amount = lineFilter
+        ? ((invoice as any).lines ?? []).reduce(
+            (sum: number, line: any) => sum + Number(line.lineTotal) + Number(line.vatAmount),
+            0
+          )
+        : Number(invoice.totalAmount || 0);
+
       if (invoice.type === "SATIŞ") {
-        data.revenue += Number(invoice.totalAmount || 0);
+        data.revenue += amount;
       } else if (invoice.type === "ALIŞ") {
-        data.expenses += Number(invoice.totalAmount || 0);
+        data.expenses += amount;
       }
     }
 
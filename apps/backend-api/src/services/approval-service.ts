@@ -0,0 +1,924 @@
+import { prisma } from "../lib/prisma";
+import { AuthorizationError, NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import type { TenantRole } from "@repo/core-domain";
+import { auditService } from "./audit-service";
+import { notificationService } from "./notification-service";
+
+/**
+ * Onay akışları
+ *
+ * A tenant can put e-Fatura gönderimi, ödeme başlatma, beyanname and MASAK
+ * bildirimi behind approval policies. The policy with the highest minimum
+ * amount the action reaches applies; its steps are approved in order, each
+ * by a member holding one of the step's roles. Nobody approves two steps of
+ * the same request, and with `requireDistinctPreparer` the requester and
+ * the preparer of the document cannot approve it at all.
+ *
+ * A member on leave can delegate their approvals for a date range; the
+ * delegate then decides on their behalf and the decision records both.
+ *
+ * The guarded routes call `withApproval`: without an applicable policy the
+ * action runs as before, otherwise it needs an approved request for the
+ * same document, which the successful action consumes (status "executed").
+ */
+
+export type ApprovalAction = "efatura_submit" | "payment_initiate" | "beyanname_submit" | "masak_submit";
+
+export const APPROVAL_ACTIONS: ApprovalAction[] = ["efatura_submit", "payment_initiate", "beyanname_submit", "masak_submit"];
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  efatura_submit: "e-Fatura gönderimi",
+  payment_initiate: "Ödeme başlatma",
+  beyanname_submit: "Beyanname gönderimi",
+  masak_submit: "MASAK bildirimi",
+};
+
+export type ApprovalRequestStatus = "pending" | "approved" | "rejected" | "cancelled" | "executed" | "invalidated";
+
+export interface ApprovalStep {
+  roles: TenantRole[];
+}
+
+export interface ApprovalPolicyInput {
+  action: ApprovalAction;
+  name: string;
+  minAmount?: number | null;
+  steps: ApprovalStep[];
+  requireDistinctPreparer?: boolean;
+  isActive?: boolean;
+}
+
+export type UpdateApprovalPolicyInput = Partial<Omit<ApprovalPolicyInput, "action">>;
+
+/** What an approval request is about, resolved from the document */
+export interface ApprovalSubject {
+  action: ApprovalAction;
+  resourceId: string | null;
+  clientCompanyId: string | null;
+  amount: number | null;
+  summary: string;
+  preparedByUserId: string | null;
+}
+
+export interface ApprovalRequestFilters {
+  status?: ApprovalRequestStatus;
+  action?: ApprovalAction;
+  clientCompanyId?: string;
+  awaitingMe?: boolean;
+}
+
+export interface DelegationInput {
+  delegatorUserId?: string;
+  delegateUserId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string | null;
+}
+
+interface PolicyCandidate {
+  minAmount: unknown;
+}
+
+const TENANT_ROLES: TenantRole[] = ["TenantOwner", "Accountant", "Staff", "ReadOnly"];
+const MAX_STEPS = 5;
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * The policy of the tier the amount falls into: the highest minimum amount
+ * reached, a policy without a minimum applying to every amount.
+ */
+export function selectPolicy<T extends PolicyCandidate>(policies: T[], amount: number | null): T | null {
+  let selected: T | null = null;
+  let selectedMin = -1;
+  for (const policy of policies) {
+    const min = toNumber(policy.minAmount) ?? 0;
+    if (min > 0 && (amount === null || amount < min)) continue;
+    if (min > selectedMin) {
+      selected = policy;
+      selectedMin = min;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Whether the user may decide the step, and on whose behalf. Users in
+ * `excludedUserIds` (earlier deciders, and the requester/preparer when the
+ * policy separates duties) cannot decide, not even as a delegate.
+ */
+export function resolveApprover(input: {
+  userId: string;
+  step: ApprovalStep;
+  roles: Map<string, TenantRole>;
+  delegatorIds: string[];
+  excludedUserIds: string[];
+}): { onBehalfOfUserId: string | null } | null {
+  const { userId, step, roles, delegatorIds, excludedUserIds } = input;
+  if (excludedUserIds.includes(userId)) return null;
+
+  const ownRole = roles.get(userId);
+  if (ownRole && step.roles.includes(ownRole)) {
+    return { onBehalfOfUserId: null };
+  }
+
+  for (const delegatorId of delegatorIds) {
+    const role = roles.get(delegatorId);
+    if (role && step.roles.includes(role) && !excludedUserIds.includes(delegatorId)) {
+      return { onBehalfOfUserId: delegatorId };
+    }
+  }
+  return null;
+}
+
+function parseSteps(value: unknown): ApprovalStep[] {
+  return Array.isArray(value) ? (value as ApprovalStep[]) : [];
+}
+
+function validateSteps(steps: ApprovalStep[]): ApprovalStep[] {
+  if (steps.length === 0) {
+    throw new ValidationError("En az bir onay adımı gerekli.");
+  }
+  if (steps.length > MAX_STEPS) {
+    throw new ValidationError(`En fazla ${MAX_STEPS} onay adımı tanımlanabilir.`);
+  }
+  return steps.map((step, index) => {
+    const roles = Array.from(new Set(step.roles));
+    if (roles.length === 0 || roles.some((role) => !TENANT_ROLES.includes(role))) {
+      throw new ValidationError(`${index + 1}. adım için geçerli bir onaylayıcı rolü seçin.`);
+    }
+    return { roles };
+  });
+}
+
+export class ApprovalService {
+  // ─── Politikalar ───────────────────────────────────────────────────
+
+  async listPolicies(tenantId: string) {
+    const policies = await prisma.approvalPolicy.findMany({
+      where: { tenantId },
+      orderBy: [{ action: "asc" }, { minAmount: "asc" }],
+    });
+    return policies.map((policy) => this.mapPolicy(policy));
+  }
+
+  async createPolicy(tenantId: string, userId: string, input: ApprovalPolicyInput) {
+    const steps = validateSteps(input.steps);
+    const policy = await prisma.approvalPolicy.create({
+      data: {
+        tenantId,
+        action: input.action,
+        name: sanitizeString(input.name),
+        minAmount: input.minAmount ?? null,
+        steps: steps as any,
+        requireDistinctPreparer: input.requireDistinctPreparer ?? false,
+        isActive: input.isActive ?? true,
+      },
+    });
+
+    await this.auditPolicy(tenantId, userId, policy.id, "created", { action: policy.action, steps });
+    return this.mapPolicy(policy);
+  }
+
+  async updatePolicy(tenantId: string, userId: string, id: string, input: UpdateApprovalPolicyInput) {
+    await this.getPolicy(tenantId, id);
+    const steps = input.steps ? validateSteps(input.steps) : undefined;
+
+    const policy = await prisma.approvalPolicy.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: sanitizeString(input.name) }),
+        ...(input.minAmount !== undefined && { minAmount: input.minAmount }),
+        ...(steps && { steps: steps as any }),
+        ...(input.requireDistinctPreparer !== undefined && { requireDistinctPreparer: input.requireDistinctPreparer }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+      },
+    });
+
+    // Open requests keep the steps they were opened with
+    await this.auditPolicy(tenantId, userId, id, "updated", { changes: input });
+    return this.mapPolicy(policy);
+  }
+
+  async deletePolicy(tenantId: string, userId: string, id: string): Promise<void> {
+    await this.getPolicy(tenantId, id);
+    await prisma.approvalPolicy.delete({ where: { id } });
+    await this.auditPolicy(tenantId, userId, id, "deleted", {});
+  }
+
+  /** The active policy that applies to the action at this amount, if any */
+  async findPolicy(tenantId: string, action: ApprovalAction, amount: number | null) {
+    const policies = await prisma.approvalPolicy.findMany({
+      where: { tenantId, action, isActive: true },
+    });
+    return selectPolicy(policies, amount);
+  }
+
+  // ─── Talepler ──────────────────────────────────────────────────────
+
+  /** Ask for approval of a document (invoice, beyanname, MASAK report) */
+  async requestApproval(
+    tenantId: string,
+    userId: string,
+    input: { action: ApprovalAction; resourceId: string; comment?: string | null }
+  ) {
+    const subject = await this.resolveSubject(tenantId, input.action, input.resourceId);
+    const policy = await this.findPolicy(tenantId, input.action, subject.amount);
+    if (!policy) {
+      throw new ValidationError("Bu işlem için geçerli bir onay politikası yok; onay gerekmeden yapılabilir.");
+    }
+
+    const open = await prisma.approvalRequest.findFirst({
+      where: { tenantId, action: input.action, resourceId: input.resourceId, status: { in: ["pending", "approved"] } },
+    });
+    if (open) {
+      throw new ValidationError(
+        open.status === "pending" ? "Bu belge için bekleyen bir onay talebi zaten var." : "Bu belge zaten onaylandı."
+      );
+    }
+
+    return this.openRequest(tenantId, userId, policy, subject, { comment: input.comment });
+  }
+
+  /**
+   * Open a request under the policy. Payments pass their instruction as the
+   * payload; it is what gets initiated once the request is approved.
+   */
+  async openRequest(
+    tenantId: string,
+    userId: string,
+    policy: { id: string; steps: unknown; requireDistinctPreparer: boolean },
+    subject: ApprovalSubject,
+    options: { comment?: string | null; payload?: Record<string, unknown> } = {}
+  ) {
+    const request = await prisma.approvalRequest.create({
+      data: {
+        tenantId,
+        policyId: policy.id,
+        action: subject.action,
+        resourceId: subject.resourceId,
+        clientCompanyId: subject.clientCompanyId,
+        amount: subject.amount,
+        summary: subject.summary.slice(0, 500),
+        payload: (options.payload ?? {}) as any,
+        steps: policy.steps as any,
+        requireDistinctPreparer: policy.requireDistinctPreparer,
+        comment: options.comment ? sanitizeString(options.comment) : null,
+        requestedByUserId: userId,
+        preparedByUserId: subject.preparedByUserId,
+      },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "APPROVAL_REQUESTED",
+      resourceType: "ApprovalRequest",
+      resourceId: request.id,
+      metadata: { action: subject.action, resourceId: subject.resourceId, amount: subject.amount, policyId: policy.id },
+    });
+
+    await this.notifyApprovers(tenantId, request);
+    return this.mapRequest(request);
+  }
+
+  async listRequests(tenantId: string, userId: string, filters: ApprovalRequestFilters = {}) {
+    const requests = await prisma.approvalRequest.findMany({
+      where: {
+        tenantId,
+        ...(filters.status && { status: filters.status }),
+        ...(filters.awaitingMe && { status: "pending" }),
+        ...(filters.action && { action: filters.action }),
+        ...(filters.clientCompanyId && { clientCompanyId: filters.clientCompanyId }),
+      },
+      include: { decisions: true, clientCompany: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    });
+
+    const context = await this.loadApproverContext(tenantId);
+    const rows = requests.map((request) => ({
+      ...this.mapRequest(request),
+      canDecide: request.status === "pending" && this.approverFor(request, userId, context) !== null,
+    }));
+    return filters.awaitingMe ? rows.filter((row) => row.canDecide) : rows;
+  }
+
+  async getRequest(tenantId: string, userId: string, id: string) {
+    const request = await prisma.approvalRequest.findFirst({
+      where: { id, tenantId },
+      include: {
+        decisions: { orderBy: { createdAt: "asc" } },
+        clientCompany: { select: { id: true, name: true } },
+      },
+    });
+    if (!request) {
+      throw new NotFoundError("Onay talebi bulunamadı.");
+    }
+
+    const userIds = new Set<string>([request.requestedByUserId]);
+    if (request.preparedByUserId) userIds.add(request.preparedByUserId);
+    for (const decision of request.decisions) {
+      userIds.add(decision.userId);
+      if (decision.onBehalfOfUserId) userIds.add(decision.onBehalfOfUserId);
+    }
+    const users = await prisma.user.findMany({
+      where: { id: { in: Array.from(userIds) } },
+      select: { id: true, fullName: true, email: true },
+    });
+    const names = new Map(users.map((user) => [user.id, user.fullName || user.email]));
+
+    const context = await this.loadApproverContext(tenantId);
+    return {
+      ...this.mapRequest(request),
+      requestedByName: names.get(request.requestedByUserId) ?? null,
+      preparedByName: request.preparedByUserId ? names.get(request.preparedByUserId) ?? null : null,
+      decisions: request.decisions.map((decision) => ({
+        id: decision.id,
+        step: decision.step,
+        userId: decision.userId,
+        userName: names.get(decision.userId) ?? null,
+        onBehalfOfUserId: decision.onBehalfOfUserId,
+        onBehalfOfName: decision.onBehalfOfUserId ? names.get(decision.onBehalfOfUserId) ?? null : null,
+        decision: decision.decision,
+        comment: decision.comment,
+        createdAt: decision.createdAt,
+      })),
+      canDecide: request.status === "pending" && this.approverFor(request, userId, context) !== null,
+    };
+  }
+
+  async approve(tenantId: string, userId: string, id: string, comment?: string | null) {
+    return this.decide(tenantId, userId, id, "approved", comment);
+  }
+
+  async reject(tenantId: string, userId: string, id: string, comment: string) {
+    if (!comment?.trim()) {
+      throw new ValidationError("Ret gerekçesi gerekli.");
+    }
+    return this.decide(tenantId, userId, id, "rejected", comment);
+  }
+
+  /** Withdraw a request; the requester or an approvals manager */
+  async cancel(tenantId: string, userId: string, id: string, canManage: boolean) {
+    const request = await prisma.approvalRequest.findFirst({ where: { id, tenantId } });
+    if (!request) {
+      throw new NotFoundError("Onay talebi bulunamadı.");
+    }
+    if (request.requestedByUserId !== userId && !canManage) {
+      throw new AuthorizationError("Onay talebini yalnızca talep eden geri çekebilir.");
+    }
+    if (request.status !== "pending" && request.status !== "approved") {
+      throw new ValidationError("Yalnızca bekleyen veya onaylanmış (kullanılmamış) talepler geri çekilebilir.");
+    }
+
+    const updated = await prisma.approvalRequest.update({
+      where: { id },
+      data: { status: "cancelled", decidedAt: new Date() },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "APPROVAL_CANCELLED",
+      resourceType: "ApprovalRequest",
+      resourceId: id,
+      metadata: { action: request.action, resourceId: request.resourceId, previousStatus: request.status },
+    });
+
+    return this.mapRequest(updated);
+  }
+
+  /**
+   * Run a guarded action. Without an applicable policy it simply runs;
+   * otherwise an approved request for the document is required and is
+   * consumed once the action succeeds. An action that reports failure
+   * without throwing (e.g. GİB rejected the invoice) passes `succeeded`, so
+   * the approval stays available for the retry.
+   */
+  async withApproval<T>(
+    tenantId: string,
+    userId: string,
+    action: ApprovalAction,
+    resourceId: string,
+    run: () => Promise<T>,
+    succeeded: (result: T) => boolean = () => true
+  ): Promise<T> {
+    const subject = await this.resolveSubject(tenantId, action, resourceId);
+    const policy = await this.findPolicy(tenantId, action, subject.amount);
+    if (!policy) {
+      return run();
+    }
+
+    const requests = await prisma.approvalRequest.findMany({
+      where: { tenantId, action, resourceId, status: { in: ["pending", "approved"] } },
+      orderBy: { createdAt: "desc" },
+    });
+    const approved = requests.find((request) => request.status === "approved");
+
+    if (!approved) {
+      const pending = requests.find((request) => request.status === "pending");
+      if (pending) {
+        const total = parseSteps(pending.steps).length;
+        throw new AuthorizationError(
+          `${APPROVAL_ACTION_LABELS[action]} onay bekliyor (adım ${pending.currentStep}/${total}).`
+        );
+      }
+      throw new AuthorizationError(
+        `${APPROVAL_ACTION_LABELS[action]} "${policy.name}" onay politikasına tabi. Önce onay talebi oluşturun.`
+      );
+    }
+
+    // The document must still be what was approved
+    if (toNumber(approved.amount) !== subject.amount) {
+      await prisma.approvalRequest.update({ where: { id: approved.id }, data: { status: "invalidated" } });
+      throw new AuthorizationError("Onaydan sonra tutar değişti; yeni bir onay talebi gerekli.");
+    }
+
+    // Claim the approval first so two concurrent submissions cannot both use it
+    const claimed = await prisma.approvalRequest.updateMany({
+      where: { id: approved.id, status: "approved", executedAt: null },
+      data: { status: "executed", executedAt: new Date(), executedByUserId: userId },
+    });
+    if (claimed.count !== 1) {
+      throw new AuthorizationError("Bu onay zaten kullanıldı; yeni bir onay talebi gerekli.");
+    }
+
+    let result: T;
+    try {
+      result = await run();
+    } catch (error) {
+      // The action failed, so the approval stays available for another attempt
+      await this.releaseClaim(approved.id);
+      throw error;
+    }
+    if (!succeeded(result)) {
+      await this.releaseClaim(approved.id);
+      return result;
+    }
+    await this.markExecuted(tenantId, userId, approved.id);
+    return result;
+  }
+
+  private async releaseClaim(id: string) {
+    await prisma.approvalRequest.update({
+      where: { id },
+      data: { status: "approved", executedAt: null, executedByUserId: null },
+    });
+  }
+
+  /** Record that the approved action was carried out */
+  async markExecuted(tenantId: string, userId: string, id: string, result?: Record<string, unknown>) {
+    const updated = await prisma.approvalRequest.update({
+      where: { id },
+      data: {
+        status: "executed",
+        executedAt: new Date(),
+        executedByUserId: userId,
+        ...(result && { result: result as any }),
+      },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "APPROVAL_EXECUTED",
+      resourceType: "ApprovalRequest",
+      resourceId: id,
+      metadata: { action: updated.action, resourceId: updated.resourceId },
+    });
+
+    return this.mapRequest(updated);
+  }
+
+  // ─── Vekalet ───────────────────────────────────────────────────────
+
+  async listDelegations(tenantId: string) {
+    const delegations = await prisma.approvalDelegation.findMany({
+      where: { tenantId },
+      orderBy: { startsAt: "desc" },
+      take: 200,
+    });
+
+    const userIds = Array.from(new Set(delegations.flatMap((d) => [d.delegatorUserId, d.delegateUserId])));
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, fullName: true, email: true },
+    });
+    const names = new Map(users.map((user) => [user.id, user.fullName || user.email]));
+    const now = new Date();
+
+    return delegations.map((delegation) => ({
+      id: delegation.id,
+      delegatorUserId: delegation.delegatorUserId,
+      delegatorName: names.get(delegation.delegatorUserId) ?? null,
+      delegateUserId: delegation.delegateUserId,
+      delegateName: names.get(delegation.delegateUserId) ?? null,
+      startsAt: delegation.startsAt,
+      endsAt: delegation.endsAt,
+      reason: delegation.reason,
+      revokedAt: delegation.revokedAt,
+      active: !delegation.revokedAt && delegation.startsAt <= now && delegation.endsAt >= now,
+      createdAt: delegation.createdAt,
+    }));
+  }
+
+  /** Delegate one's own approvals; a manager may delegate for any member */
+  async createDelegation(tenantId: string, userId: string, canManage: boolean, input: DelegationInput) {
+    const delegatorUserId = input.delegatorUserId ?? userId;
+    if (delegatorUserId !== userId && !canManage) {
+      throw new AuthorizationError("Yalnızca kendi onay yetkinizi devredebilirsiniz.");
+    }
+    if (delegatorUserId === input.delegateUserId) {
+      throw new ValidationError("Vekil, yetkiyi devreden kişiden farklı olmalı.");
+    }
+    if (input.endsAt <= input.startsAt) {
+      throw new ValidationError("Bitiş tarihi başlangıçtan sonra olmalı.");
+    }
+
+    const members = await prisma.userTenantMembership.count({
+      where: { tenantId, status: "active", userId: { in: [delegatorUserId, input.delegateUserId] } },
+    });
+    if (members !== 2) {
+      throw new NotFoundError("Kullanıcı bu kiracıya ait değil.");
+    }
+
+    const delegation = await prisma.approvalDelegation.create({
+      data: {
+        tenantId,
+        delegatorUserId,
+        delegateUserId: input.delegateUserId,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        reason: input.reason ? sanitizeString(input.reason) : null,
+        createdByUserId: userId,
+      },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "APPROVAL_DELEGATED",
+      resourceType: "ApprovalDelegation",
+      resourceId: delegation.id,
+      metadata: {
+        delegatorUserId,
+        delegateUserId: input.delegateUserId,
+        startsAt: input.startsAt.toISOString(),
+        endsAt: input.endsAt.toISOString(),
+      },
+    });
+
+    return delegation;
+  }
+
+  async revokeDelegation(tenantId: string, userId: string, canManage: boolean, id: string) {
+    const delegation = await prisma.approvalDelegation.findFirst({ where: { id, tenantId } });
+    if (!delegation) {
+      throw new NotFoundError("Vekalet bulunamadı.");
+    }
+    if (delegation.delegatorUserId !== userId && !canManage) {
+      throw new AuthorizationError("Yalnızca kendi vekaletinizi kaldırabilirsiniz.");
+    }
+    if (delegation.revokedAt) {
+      throw new ValidationError("Vekalet zaten kaldırılmış.");
+    }
+
+    const updated = await prisma.approvalDelegation.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "APPROVAL_DELEGATED",
+      resourceType: "ApprovalDelegation",
+      resourceId: id,
+      metadata: { revoked: true, delegatorUserId: delegation.delegatorUserId, delegateUserId: delegation.delegateUserId },
+    });
+
+    return updated;
+  }
+
+  // ─── Yardımcılar ───────────────────────────────────────────────────
+
+  private async decide(
+    tenantId: string,
+    userId: string,
+    id: string,
+    decision: "approved" | "rejected",
+    comment?: string | null
+  ) {
+    const request = await prisma.approvalRequest.findFirst({
+      where: { id, tenantId },
+      include: { decisions: true },
+    });
+    if (!request) {
+      throw new NotFoundError("Onay talebi bulunamadı.");
+    }
+    if (request.status !== "pending") {
+      throw new ValidationError("Bu onay talebi artık karar beklemiyor.");
+    }
+
+    const context = await this.loadApproverContext(tenantId);
+    const approver = this.approverFor(request, userId, context);
+    if (!approver) {
+      throw new AuthorizationError("Bu adımı onaylama yetkiniz yok.");
+    }
+
+    const steps = parseSteps(request.steps);
+    const step = request.currentStep;
+    const finalStep = decision === "rejected" || step >= steps.length;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Guards against two approvers deciding the same step at once
+      const claimed = await tx.approvalRequest.updateMany({
+        where: { id, status: "pending", currentStep: step },
+        data: finalStep
+          ? { status: decision, decidedAt: new Date() }
+          : { currentStep: step + 1 },
+      });
+      if (claimed.count === 0) {
+        throw new ValidationError("Bu adım için karar zaten verildi.");
+      }
+
+      await tx.approvalDecision.create({
+        data: {
+          tenantId,
+          approvalRequestId: id,
+          step,
+          userId,
+          onBehalfOfUserId: approver.onBehalfOfUserId,
+          decision,
+          comment: comment ? sanitizeString(comment) : null,
+        },
+      });
+
+      return tx.approvalRequest.findUniqueOrThrow({ where: { id } });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: decision === "approved" ? "APPROVAL_APPROVED" : "APPROVAL_REJECTED",
+      resourceType: "ApprovalRequest",
+      resourceId: id,
+      metadata: {
+        action: request.action,
+        resourceId: request.resourceId,
+        step,
+        onBehalfOfUserId: approver.onBehalfOfUserId,
+        comment: comment ?? null,
+      },
+    });
+
+    logger.info("Approval decided", undefined, { tenantId, approvalRequestId: id, step, decision });
+
+    if (finalStep) {
+      await this.notify(
+        tenantId,
+        request.requestedByUserId,
+        decision === "approved" ? "Onay talebiniz onaylandı" : "Onay talebiniz reddedildi",
+        `${request.summary}${comment ? `: ${comment}` : ""}`,
+        id
+      );
+    } else {
+      await this.notifyApprovers(tenantId, updated);
+    }
+
+    return this.mapRequest(updated);
+  }
+
+  /** Roles of active members and the delegations active right now */
+  private async loadApproverContext(tenantId: string) {
+    const now = new Date();
+    const [memberships, delegations] = await Promise.all([
+      prisma.userTenantMembership.findMany({
+        where: { tenantId, status: "active" },
+        select: { userId: true, role: true },
+      }),
+      prisma.approvalDelegation.findMany({
+        where: { tenantId, revokedAt: null, startsAt: { lte: now }, endsAt: { gte: now } },
+        select: { delegatorUserId: true, delegateUserId: true },
+      }),
+    ]);
+
+    return {
+      roles: new Map(memberships.map((membership) => [membership.userId, membership.role as TenantRole])),
+      delegations,
+    };
+  }
+
+  private approverFor(
+    request: {
+      steps: unknown;
+      currentStep: number;
+      requireDistinctPreparer: boolean;
+      requestedByUserId: string;
+      preparedByUserId: string | null;
+      decisions?: Array<{ userId: string; onBehalfOfUserId: string | null }>;
+    },
+    userId: string,
+    context: Awaited<ReturnType<ApprovalService["loadApproverContext"]>>
+  ) {
+    const step = parseSteps(request.steps)[request.currentStep - 1];
+    if (!step) return null;
+
+    return resolveApprover({
+      userId,
+      step,
+      roles: context.roles,
+      delegatorIds: context.delegations
+        .filter((delegation) => delegation.delegateUserId === userId)
+        .map((delegation) => delegation.delegatorUserId),
+      excludedUserIds: this.excludedUserIds(request),
+    });
+  }
+
+  private excludedUserIds(request: {
+    requireDistinctPreparer: boolean;
+    requestedByUserId: string;
+    preparedByUserId: string | null;
+    decisions?: Array<{ userId: string; onBehalfOfUserId: string | null }>;
+  }): string[] {
+    const excluded = new Set<string>();
+    for (const decision of request.decisions ?? []) {
+      excluded.add(decision.userId);
+      if (decision.onBehalfOfUserId) excluded.add(decision.onBehalfOfUserId);
+    }
+    if (request.requireDistinctPreparer) {
+      excluded.add(request.requestedByUserId);
+      if (request.preparedByUserId) excluded.add(request.preparedByUserId);
+    }
+    return Array.from(excluded);
+  }
+
+  /** Notify everyone who can decide the current step, delegates included */
+  private async notifyApprovers(
+    tenantId: string,
+    request: {
+      id: string;
+      summary: string;
+      steps: unknown;
+      currentStep: number;
+      requireDistinctPreparer: boolean;
+      requestedByUserId: string;
+      preparedByUserId: string | null;
+    }
+  ): Promise<void> {
+    const step = parseSteps(request.steps)[request.currentStep - 1];
+    if (!step) return;
+
+    const decisions = await prisma.approvalDecision.findMany({
+      where: { approvalRequestId: request.id },
+      select: { userId: true, onBehalfOfUserId: true },
+    });
+    const context = await this.loadApproverContext(tenantId);
+    const candidates = new Set<string>([
+      ...context.roles.keys(),
+      ...context.delegations.map((delegation) => delegation.delegateUserId),
+    ]);
+
+    const total = parseSteps(request.steps).length;
+    for (const userId of candidates) {
+      const approver = this.approverFor({ ...request, decisions }, userId, context);
+      if (!approver) continue;
+      await this.notify(
+        tenantId,
+        userId,
+        "Onayınızı bekleyen işlem",
+        `${request.summary} (adım ${request.currentStep}/${total})`,
+        request.id
+      );
+    }
+  }
+
+  private async notify(tenantId: string, userId: string, title: string, message: string, approvalRequestId: string) {
+    try {
+      await notificationService.createNotification({
+        tenantId,
+        userId,
+        type: "SYSTEM",
+        title,
+        message,
+        meta: { approvalRequestId },
+      });
+    } catch (error) {
+      // Don't fail the approval flow if a notification fails
+      logger.error("[ApprovalService] Error creating notification:", { error });
+    }
+  }
+
+  /** Amount, client and preparer of the document the action is about */
+  private async resolveSubject(tenantId: string, action: ApprovalAction, resourceId: string): Promise<ApprovalSubject> {
+    switch (action) {
+      case "efatura_submit": {
+        const invoice = await prisma.invoice.findFirst({ where: { id: resourceId, tenantId } });
+        if (!invoice) throw new NotFoundError("Fatura bulunamadı.");
+        return {
+          action,
+          resourceId,
+          clientCompanyId: invoice.clientCompanyId,
+          amount: Number(invoice.totalAmount),
+          summary: `e-Fatura ${invoice.externalId ?? invoice.id}${invoice.counterpartyName ? ` - ${invoice.counterpartyName}` : ""}`,
+          preparedByUserId: null,
+        };
+      }
+      case "beyanname_submit": {
+        const beyanname = await prisma.beyanname.findFirst({ where: { id: resourceId, tenantId } });
+        if (!beyanname) throw new NotFoundError("Beyanname bulunamadı.");
+        return {
+          action,
+          resourceId,
+          clientCompanyId: beyanname.clientCompanyId,
+          amount: toNumber(beyanname.netPayable ?? beyanname.calculatedAmount),
+          summary: `${beyanname.type} beyannamesi ${beyanname.period}`,
+          preparedByUserId: beyanname.preparedByUserId,
+        };
+      }
+      case "masak_submit": {
+        const report = await prisma.masakReport.findFirst({ where: { id: resourceId, tenantId } });
+        if (!report) throw new NotFoundError("MASAK raporu bulunamadı.");
+        return {
+          action,
+          resourceId,
+          clientCompanyId: report.clientCompanyId,
+          amount: Number(report.totalAmount),
+          summary: `MASAK ${report.reportType} bildirimi - ${report.suspicionType}`,
+          preparedByUserId: report.createdByUserId,
+        };
+      }
+      default:
+        throw new ValidationError("Ödeme onayları ödeme talimatı ile oluşturulur.");
+    }
+  }
+
+  private async getPolicy(tenantId: string, id: string) {
+    const policy = await prisma.approvalPolicy.findFirst({ where: { id, tenantId } });
+    if (!policy) {
+      throw new NotFoundError("Onay politikası bulunamadı.");
+    }
+    return policy;
+  }
+
+  private async auditPolicy(
+    tenantId: string,
+    userId: string,
+    policyId: string,
+    change: "created" | "updated" | "deleted",
+    metadata: Record<string, unknown>
+  ) {
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "APPROVAL_POLICY_CHANGED",
+      resourceType: "ApprovalPolicy",
+      resourceId: policyId,
+      metadata: { change, ...metadata },
+    });
+  }
+
+  private mapPolicy(policy: any) {
+    return {
+      id: policy.id,
+      action: policy.action as ApprovalAction,
+      name: policy.name,
+      minAmount: toNumber(policy.minAmount),
+      steps: parseSteps(policy.steps),
+      requireDistinctPreparer: policy.requireDistinctPreparer,
+      isActive: policy.isActive,
+      createdAt: policy.createdAt,
+      updatedAt: policy.updatedAt,
+    };
+  }
+
+  private mapRequest(request: any) {
+    return {
+      id: request.id,
+      policyId: request.policyId,
+      action: request.action as ApprovalAction,
+      resourceId: request.resourceId,
+      clientCompanyId: request.clientCompanyId,
+      clientCompany: request.clientCompany ?? undefined,
+      amount: toNumber(request.amount),
+      summary: request.summary,
+      payload: request.payload,
+      steps: parseSteps(request.steps),
+      requireDistinctPreparer: request.requireDistinctPreparer,
+      currentStep: request.currentStep,
+      status: request.status as ApprovalRequestStatus,
+      comment: request.comment,
+      requestedByUserId: request.requestedByUserId,
+      preparedByUserId: request.preparedByUserId,
+      decidedAt: request.decidedAt,
+      executedAt: request.executedAt,
+      result: request.result ?? null,
+      createdAt: request.createdAt,
+    };
+  }
+}
+
+export const approvalService = new ApprovalService();
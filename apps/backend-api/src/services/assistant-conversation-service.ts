@@ -0,0 +1,465 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { kvkkComplianceService } from "./kvkk-compliance-service";
+import type { ConversationMessage } from "./ai-assistant-service";
+
+export type AssistantConversationType = "GENEL" | "RAPOR" | "RISK";
+export type AssistantFeedbackRating = "up" | "down";
+export type AssistantExportFormat = "json" | "markdown";
+
+export interface AssistantCitation {
+  id: string;
+  rank: number;
+  documentId: string | null;
+  invoiceId: string | null;
+  transactionId: string | null;
+  label: string;
+  similarity: number;
+  rerankScore: number | null;
+  snippet: string | null;
+}
+
+export interface AssistantMessage {
+  id: string;
+  conversationId: string;
+  role: "user" | "assistant";
+  content: string;
+  searchMetrics: Record<string, unknown> | null;
+  feedbackRating: AssistantFeedbackRating | null;
+  feedbackComment: string | null;
+  feedbackAt: Date | null;
+  createdAt: Date;
+  citations: AssistantCitation[];
+}
+
+export interface AssistantConversation {
+  id: string;
+  title: string;
+  type: AssistantConversationType;
+  clientCompanyId: string | null;
+  messageCount: number;
+  lastMessageAt: Date;
+  createdAt: Date;
+  matchedSnippet?: string | null; // search hit inside a message, when searching
+}
+
+export interface AssistantConversationDetail extends AssistantConversation {
+  messages: AssistantMessage[];
+}
+
+/** A record retrieval used for an answer, before it is stored */
+export interface NewAssistantCitation {
+  documentId: string | null;
+  invoiceId: string | null;
+  transactionId: string | null;
+  label: string;
+  similarity: number;
+  rerankScore?: number | null;
+  snippet?: string | null;
+}
+
+export interface RecordExchangeInput {
+  question: string;
+  askedAt: Date;
+  answer: string;
+  searchMetrics?: Record<string, unknown>;
+  citations: NewAssistantCitation[];
+}
+
+const TITLE_LENGTH = 80;
+const HISTORY_LENGTH = 20;
+const SNIPPET_RADIUS = 60;
+const MAX_PAGE_SIZE = 50;
+
+function conversationTitle(question: string): string {
+  const title = question.replace(/\s+/g, " ").trim();
+  return title.length > TITLE_LENGTH ? `${title.substring(0, TITLE_LENGTH - 1)}…` : title || "Yeni konuşma";
+}
+
+function snippetAround(content: string, term: string): string {
+  const index = content.toLocaleLowerCase("tr-TR").indexOf(term.toLocaleLowerCase("tr-TR"));
+  if (index < 0) {
+    return content.substring(0, SNIPPET_RADIUS * 2);
+  }
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${content.substring(start, end)}${end < content.length ? "…" : ""}`;
+}
+
+/**
+ * Assistant Conversation Service
+ *
+ * Persists AI assistant conversations per user: the messages, the records
+ * each answer was grounded on (citations) and the user's feedback on
+ * answers. Conversations are private to the user who started them and are
+ * deleted after the tenant's KVKK retention period.
+ */
+export class AssistantConversationService {
+  async startConversation(
+    tenantId: string,
+    userId: string,
+    question: string,
+    type: AssistantConversationType = "GENEL",
+    clientCompanyId?: string
+  ): Promise<AssistantConversation> {
+    const conversation = await prisma.assistantConversation.create({
+      data: {
+        tenantId,
+        userId,
+        title: conversationTitle(question),
+        type,
+        clientCompanyId: clientCompanyId ?? null,
+      },
+    });
+    return this.mapToConversation(conversation);
+  }
+
+  /**
+   * The latest messages of a conversation, oldest first, as history for the
+   * next answer.
+   */
+  async getHistory(tenantId: string, userId: string, conversationId: string): Promise<ConversationMessage[]> {
+    await this.findOwnConversation(tenantId, userId, conversationId);
+
+    const messages = await prisma.assistantMessage.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: "desc" },
+      take: HISTORY_LENGTH,
+      select: { role: true, content: true },
+    });
+
+    return messages.reverse().map((message) => ({
+      role: message.role as ConversationMessage["role"],
+      content: message.content,
+    }));
+  }
+
+  /**
+   * Store a question and its answer with the answer's citations.
+   */
+  async recordExchange(
+    tenantId: string,
+    conversationId: string,
+    input: RecordExchangeInput
+  ): Promise<AssistantMessage> {
+    const answeredAt = new Date();
+
+    const [, answer] = await prisma.$transaction([
+      prisma.assistantMessage.create({
+        data: {
+          tenantId,
+          conversationId,
+          role: "user",
+          content: input.question,
+          createdAt: input.askedAt,
+        },
+      }),
+      prisma.assistantMessage.create({
+        data: {
+          tenantId,
+          conversationId,
+          role: "assistant",
+          content: input.answer,
+          searchMetrics: (input.searchMetrics ?? null) as any,
+          createdAt: answeredAt,
+          citations: {
+            create: input.citations.map((citation, index) => ({
+              tenantId,
+              rank: index + 1,
+              documentId: citation.documentId,
+              invoiceId: citation.invoiceId,
+              transactionId: citation.transactionId,
+              label: citation.label.substring(0, 500),
+              similarity: citation.similarity,
+              rerankScore: citation.rerankScore ?? null,
+              snippet: citation.snippet ?? null,
+            })),
+          },
+        },
+        include: { citations: { orderBy: { rank: "asc" } } },
+      }),
+      prisma.assistantConversation.update({
+        where: { id: conversationId },
+        data: {
+          messageCount: { increment: 2 },
+          lastMessageAt: answeredAt,
+        },
+      }),
+    ]);
+
+    return this.mapToMessage(answer);
+  }
+
+  /**
+   * List the user's conversations, newest first. A search term matches the
+   * title or any message; the matching message text is returned as a snippet.
+   */
+  async listConversations(
+    tenantId: string,
+    userId: string,
+    options: { search?: string; page?: number; pageSize?: number } = {}
+  ): Promise<{ data: AssistantConversation[]; total: number; page: number; pageSize: number }> {
+    const page = Math.max(1, options.page ?? 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, options.pageSize ?? 20));
+    const search = options.search?.trim();
+
+    const where: any = { tenantId, userId };
+    if (search) {
+      where.OR = [
+        { title: { contains: search, mode: "insensitive" } },
+        { messages: { some: { content: { contains: search, mode: "insensitive" } } } },
+      ];
+    }
+
+    const [conversations, total] = await Promise.all([
+      prisma.assistantConversation.findMany({
+        where,
+        orderBy: { lastMessageAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: search
+          ? {
+              messages: {
+                where: { content: { contains: search, mode: "insensitive" } },
+                orderBy: { createdAt: "asc" },
+                take: 1,
+                select: { content: true },
+              },
+            }
+          : undefined,
+      }),
+      prisma.assistantConversation.count({ where }),
+    ]);
+
+    return {
+      data: conversations.map((conversation: any) => ({
+        ...this.mapToConversation(conversation),
+        matchedSnippet:
+          search && conversation.messages?.length > 0 ? snippetAround(conversation.messages[0].content, search) : null,
+      })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async getConversation(
+    tenantId: string,
+    userId: string,
+    conversationId: string
+  ): Promise<AssistantConversationDetail> {
+    const conversation = await prisma.assistantConversation.findFirst({
+      where: { id: conversationId, tenantId, userId },
+      include: {
+        messages: {
+          orderBy: { createdAt: "asc" },
+          include: { citations: { orderBy: { rank: "asc" } } },
+        },
+      },
+    });
+
+    if (!conversation) {
+      throw new NotFoundError("Konuşma bulunamadı.");
+    }
+
+    return {
+      ...this.mapToConversation(conversation),
+      messages: conversation.messages.map((message) => this.mapToMessage(message)),
+    };
+  }
+
+  async renameConversation(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    title: string
+  ): Promise<AssistantConversation> {
+    await this.findOwnConversation(tenantId, userId, conversationId);
+
+    const trimmed = title.trim();
+    if (!trimmed) {
+      throw new ValidationError("Konuşma başlığı boş olamaz.", "title");
+    }
+
+    const conversation = await prisma.assistantConversation.update({
+      where: { id: conversationId },
+      data: { title: trimmed.substring(0, 255) },
+    });
+    return this.mapToConversation(conversation);
+  }
+
+  async deleteConversation(tenantId: string, userId: string, conversationId: string): Promise<void> {
+    await this.findOwnConversation(tenantId, userId, conversationId);
+    await prisma.assistantConversation.delete({ where: { id: conversationId } });
+  }
+
+  /**
+   * Rate an answer. Submitting again replaces the previous rating.
+   */
+  async submitFeedback(
+    tenantId: string,
+    userId: string,
+    messageId: string,
+    feedback: { rating: AssistantFeedbackRating; comment?: string | null }
+  ): Promise<AssistantMessage> {
+    const message = await prisma.assistantMessage.findFirst({
+      where: { id: messageId, tenantId, conversation: { userId } },
+    });
+
+    if (!message) {
+      throw new NotFoundError("Mesaj bulunamadı.");
+    }
+
+    if (message.role !== "assistant") {
+      throw new ValidationError("Yalnızca asistan yanıtları değerlendirilebilir.", "messageId");
+    }
+
+    const updated = await prisma.assistantMessage.update({
+      where: { id: messageId },
+      data: {
+        feedbackRating: feedback.rating,
+        feedbackComment: feedback.comment?.trim() || null,
+        feedbackAt: new Date(),
+      },
+      include: { citations: { orderBy: { rank: "asc" } } },
+    });
+
+    return this.mapToMessage(updated);
+  }
+
+  async exportConversation(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    format: AssistantExportFormat
+  ): Promise<{ fileName: string; contentType: string; content: string }> {
+    const conversation = await this.getConversation(tenantId, userId, conversationId);
+    const baseName = `ai-konusma-${conversation.createdAt.toISOString().substring(0, 10)}-${conversation.id}`;
+
+    if (format === "json") {
+      return {
+        fileName: `${baseName}.json`,
+        contentType: "application/json; charset=utf-8",
+        content: JSON.stringify(conversation, null, 2),
+      };
+    }
+
+    const lines: string[] = [
+      `# ${conversation.title}`,
+      "",
+      `- Başlangıç: ${conversation.createdAt.toISOString()}`,
+      `- Mesaj sayısı: ${conversation.messageCount}`,
+      "",
+    ];
+
+    for (const message of conversation.messages) {
+      lines.push(`## ${message.role === "user" ? "Kullanıcı" : "Asistan"} (${message.createdAt.toISOString()})`, "");
+      lines.push(message.content, "");
+
+      if (message.citations.length > 0) {
+        lines.push("Kaynaklar:");
+        for (const citation of message.citations) {
+          const links = [
+            citation.documentId && `belge ${citation.documentId}`,
+            citation.invoiceId && `fatura ${citation.invoiceId}`,
+            citation.transactionId && `işlem ${citation.transactionId}`,
+          ].filter(Boolean);
+          const similarity = `${(citation.similarity * 100).toFixed(1)}%`;
+          lines.push(`${citation.rank}. ${citation.label} (${[...links, similarity].join(", ")})`);
+        }
+        lines.push("");
+      }
+
+      if (message.feedbackRating) {
+        const rating = message.feedbackRating === "up" ? "Faydalı" : "Faydalı değil";
+        lines.push(`Geri bildirim: ${rating}${message.feedbackComment ? ` - ${message.feedbackComment}` : ""}`, "");
+      }
+    }
+
+    return {
+      fileName: `${baseName}.md`,
+      contentType: "text/markdown; charset=utf-8",
+      content: lines.join("\n"),
+    };
+  }
+
+  /**
+   * Delete conversations whose last message is older than the tenant's KVKK
+   * retention period. Called daily by the worker.
+   */
+  async purgeExpiredConversations(): Promise<{ tenantCount: number; deletedCount: number }> {
+    const tenants = await prisma.assistantConversation.findMany({
+      distinct: ["tenantId"],
+      select: { tenantId: true },
+    });
+
+    let deletedCount = 0;
+    for (const { tenantId } of tenants) {
+      try {
+        const { aiConversationDays } = await kvkkComplianceService.getRetentionSettings(tenantId);
+        const cutoff = new Date(Date.now() - aiConversationDays * 24 * 60 * 60 * 1000);
+
+        const result = await prisma.assistantConversation.deleteMany({
+          where: { tenantId, lastMessageAt: { lt: cutoff } },
+        });
+        deletedCount += result.count;
+      } catch (error: any) {
+        logger.error("[AssistantConversation] Retention purge failed", { tenantId }, { error: error.message });
+      }
+    }
+
+    return { tenantCount: tenants.length, deletedCount };
+  }
+
+  private async findOwnConversation(tenantId: string, userId: string, conversationId: string) {
+    const conversation = await prisma.assistantConversation.findFirst({
+      where: { id: conversationId, tenantId, userId },
+      select: { id: true },
+    });
+
+    if (!conversation) {
+      throw new NotFoundError("Konuşma bulunamadı.");
+    }
+
+    return conversation;
+  }
+
+  private mapToConversation(conversation: any): AssistantConversation {
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      type: conversation.type as AssistantConversationType,
+      clientCompanyId: conversation.clientCompanyId,
+      messageCount: conversation.messageCount,
+      lastMessageAt: conversation.lastMessageAt,
+      createdAt: conversation.createdAt,
+    };
+  }
+
+  private mapToMessage(message: any): AssistantMessage {
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      role: message.role as AssistantMessage["role"],
+      content: message.content,
+      searchMetrics: (message.searchMetrics ?? null) as Record<string, unknown> | null,
+      feedbackRating: (message.feedbackRating ?? null) as AssistantFeedbackRating | null,
+      feedbackComment: message.feedbackComment ?? null,
+      feedbackAt: message.feedbackAt ?? null,
+      createdAt: message.createdAt,
+      citations: (message.citations ?? []).map((citation: any) => ({
+        id: citation.id,
+        rank: citation.rank,
+        documentId: citation.documentId,
+        invoiceId: citation.invoiceId,
+        transactionId: citation.transactionId,
+        label: citation.label,
+        similarity: citation.similarity,
+        rerankScore: citation.rerankScore,
+        snippet: citation.snippet,
+      })),
+    };
+  }
+}
+
+export const assistantConversationService = new AssistantConversationService();
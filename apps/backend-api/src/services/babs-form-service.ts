@@ -1,6 +1,32 @@
+import PDFDocument from "pdfkit";
 import { prisma } from "../lib/prisma";
-import { logger } from "@repo/shared-utils";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
 import { Decimal } from "@prisma/client/runtime/library";
+import { BABS_BILDIRIM_SINIRI } from "./turkish-accounting-knowledge";
+import { kdvCalculationService } from "./kdv-calculation-service";
+import { eBeyannameService, toEBeyannameMukellef, type EBeyannameFile } from "./e-beyanname-service";
+import {
+  buildEBeyannameFileName,
+  buildEBeyannameXml,
+  encodeLatin5,
+  validateEBeyanname,
+  type EBeyannameFieldError,
+  type EBeyannameInput,
+} from "./e-beyanname-xml";
+import { auditService } from "./audit-service";
+
+/**
+ * Form Ba / Bs (VUK 396 Sıra No.lu Genel Tebliğ)
+ *
+ * Counterparties are grouped by VKN/TCKN and reported when their monthly
+ * KDV hariç total reaches the year's bildirim sınırı. Cross-checking
+ * compares a form with the opposite form of counterparties that are client
+ * companies of the same tenant; external counterparties get a mutabakat
+ * letter instead.
+ */
+
+const CROSS_CHECK_TOLERANCE = 100; // TRY
+const EXPORTABLE_STATUSES = ["generated", "verified", "submitted", "accepted"];
 
 interface GenerateFormParams {
   clientCompanyId: string;
@@ -17,7 +43,84 @@ interface ListFormsParams {
   pageSize?: number;
 }
 
-class BaBsFormService {
+interface BaBsCounterparty {
+  name: string;
+  taxNumber: string;
+  country: string;
+  totalAmount: number; // KDV hariç, TRY
+  documentCount: number;
+}
+
+export interface BaBsExcludedInvoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  counterpartyName: string | null;
+  reason: string;
+}
+
+export interface BaBsAggregation {
+  threshold: number;
+  entries: BaBsCounterparty[]; // at or above the threshold
+  excluded: BaBsExcludedInvoice[];
+}
+
+export type BaBsMismatchType = "amount" | "document_count" | "missing_in_counterparty" | "missing_in_form";
+
+export interface BaBsCrossCheckError {
+  lineId: string | null; // null when the counterparty reports us but we do not report them
+  counterpartyCompanyId: string;
+  counterpartyName: string;
+  counterpartyTaxNumber: string;
+  type: BaBsMismatchType;
+  ourAmount: number;
+  theirAmount: number;
+  ourDocumentCount: number;
+  theirDocumentCount: number;
+  difference: number;
+  message: string;
+}
+
+export interface BaBsFormExport {
+  formId: string;
+  formType: string;
+  period: string;
+  valid: boolean;
+  errors: EBeyannameFieldError[];
+  file: EBeyannameFile | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Bildirim sınırı of the year, falling back to the closest known year
+ */
+export function babsThresholdFor(year: number): number {
+  const years = Object.keys(BABS_BILDIRIM_SINIRI).map(Number).sort((a, b) => a - b);
+  const known = years.filter((y) => y <= year).pop() ?? years[0];
+  return BABS_BILDIRIM_SINIRI[known];
+}
+
+/**
+ * VKN (10 digits) or TCKN (11 digits) without spaces and separators; null
+ * when the number cannot be one of them
+ */
+export function normalizeTaxNumber(value: string | null | undefined): string | null {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length === 10 || digits.length === 11 ? digits : null;
+}
+
+function getPeriodRange(period: string): { year: number; startDate: Date; endDate: Date } {
+  const [year, month] = period.split("-").map(Number);
+  return { year, startDate: new Date(year, month - 1, 1), endDate: new Date(year, month, 0, 23, 59, 59) };
+}
+
+export class BaBsFormService {
   /**
    * Get Ba-Bs dashboard statistics
    */
@@ -77,49 +180,11 @@ class BaBsFormService {
       throw new Error(`${period} dönemi için ${formType} formu zaten mevcut (ID: ${existing.id})`);
     }
 
-    // Parse period to date range
-    const [year, month] = period.split("-").map(Number);
-    const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0, 23, 59, 59);
-
-    // Get relevant invoices for the period
-    // BA = purchases (alışlar), BS = sales (satışlar)
-    const invoiceType = formType === "BA" ? ["ALIŞ"] : ["SATIŞ"];
-
-    const invoices = await prisma.invoice.findMany({
-      where: {
-        tenantId,
-        clientCompanyId,
-        type: { in: invoiceType },
-        issueDate: { gte: startDate, lte: endDate },
-      },
-    });
-
-    // Group by counterparty tax number
-    const counterpartyMap = new Map<
-      string,
-      { name: string; taxNumber: string; country: string; totalAmount: number; docCount: number }
-    >();
-
-    for (const inv of invoices) {
-      const taxNo = inv.counterpartyTaxNumber || "UNKNOWN";
-      if (!counterpartyMap.has(taxNo)) {
-        counterpartyMap.set(taxNo, {
-          name: inv.counterpartyName || "Bilinmeyen",
-          taxNumber: taxNo,
-          country: "TR",
-          totalAmount: 0,
-          docCount: 0,
-        });
-      }
-      const entry = counterpartyMap.get(taxNo)!;
-      entry.totalAmount += Number(inv.totalAmount);
-      entry.docCount++;
-    }
-
-    // Filter: Ba-Bs only includes counterparties with total >= 5,000 TRY
-    const qualifyingEntries = Array.from(counterpartyMap.values()).filter(
-      (e) => e.totalAmount >= 5000
+    const { threshold, entries: qualifyingEntries, excluded } = await this.aggregateCounterparties(
+      tenantId,
+      clientCompanyId,
+      formType,
+      period
     );
 
     const totalAmount = qualifyingEntries.reduce((sum, e) => sum + e.totalAmount, 0);
@@ -138,6 +203,7 @@ class BaBsFormService {
           crossCheckStatus: "pending",
           crossCheckErrors: [],
           generatedByUserId: userId,
+          metadata: { threshold, excludedInvoices: excluded } as any,
         },
       });
 
@@ -148,7 +214,7 @@ class BaBsFormService {
             counterpartyName: entry.name,
             counterpartyTaxNumber: entry.taxNumber,
             counterpartyCountry: entry.country,
-            documentCount: entry.docCount,
+            documentCount: entry.documentCount,
             totalAmount: new Decimal(entry.totalAmount),
           })),
         });
@@ -162,11 +228,80 @@ class BaBsFormService {
       formType,
       period,
       lineCount: qualifyingEntries.length,
+      excludedInvoices: excluded.length,
     });
 
     return this.getForm(tenantId, form.id);
   }
 
+  /**
+   * Group the period's invoices by VKN/TCKN on KDV hariç TRY amounts and keep
+   * the counterparties at or above the bildirim sınırı. Cancelled invoices
+   * are skipped; invoices without a usable VKN/TCKN are listed as excluded.
+   */
+  async aggregateCounterparties(
+    tenantId: string,
+    clientCompanyId: string,
+    formType: "BA" | "BS",
+    period: string
+  ): Promise<BaBsAggregation> {
+    const { year, startDate, endDate } = getPeriodRange(period);
+    const threshold = babsThresholdFor(year);
+
+    // BA = purchases (alışlar), BS = sales (satışlar)
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        type: formType === "BA" ? "ALIŞ" : "SATIŞ",
+        status: { not: "iptal" },
+        issueDate: { gte: startDate, lte: endDate },
+      },
+      orderBy: { issueDate: "asc" },
+    });
+
+    const counterparties = new Map<string, BaBsCounterparty>();
+    const excluded: BaBsExcludedInvoice[] = [];
+
+    for (const invoice of invoices) {
+      const taxNumber = normalizeTaxNumber(invoice.counterpartyTaxNumber);
+      if (!taxNumber) {
+        excluded.push({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.externalId ?? invoice.id,
+          counterpartyName: invoice.counterpartyName,
+          reason: "Karşı tarafın vergi/TC kimlik numarası eksik veya geçersiz.",
+        });
+        continue;
+      }
+
+      const netAmount =
+        invoice.netAmount !== null
+          ? Number(invoice.netAmount)
+          : Number(invoice.totalAmount) - Number(invoice.taxAmount);
+      const amount = netAmount * (await kdvCalculationService.tryRate(invoice));
+
+      const entry = counterparties.get(taxNumber) ?? {
+        name: "",
+        taxNumber,
+        country: "TR",
+        totalAmount: 0,
+        documentCount: 0,
+      };
+      entry.name = entry.name || invoice.counterpartyName?.trim() || "";
+      entry.totalAmount += amount;
+      entry.documentCount++;
+      counterparties.set(taxNumber, entry);
+    }
+
+    const entries = Array.from(counterparties.values())
+      .map((entry) => ({ ...entry, name: entry.name || "Bilinmeyen", totalAmount: round2(entry.totalAmount) }))
+      .filter((entry) => entry.totalAmount >= threshold)
+      .sort((a, b) => b.totalAmount - a.totalAmount);
+
+    return { threshold, entries, excluded };
+  }
+
   /**
    * List Ba-Bs forms
    */
@@ -237,57 +372,149 @@ class BaBsFormService {
   }
 
   /**
-   * Cross-check Ba vs Bs forms between companies
+   * Cross-check a form against counterparties that are client companies of
+   * the same tenant: our Ba line against their Bs line for us (and the
+   * other way round), on amount and document count. Their form is used when
+   * generated, otherwise their invoices. Lines of external counterparties
+   * are left unchecked.
    */
   async crossCheck(tenantId: string, formId: string) {
     const form = await prisma.baBsForm.findFirst({
       where: { id: formId, tenantId },
-      include: { lines: true },
+      include: { lines: true, clientCompany: { select: { taxNumber: true } } },
     });
     if (!form) throw new Error("Ba-Bs formu bulunamadı");
 
-    const errors: any[] = [];
+    const ownTaxNumber = normalizeTaxNumber(form.clientCompany.taxNumber);
+    if (!ownTaxNumber) {
+      throw new ValidationError("Müşteri şirketinin vergi numarası geçersiz; çapraz kontrol yapılamaz.");
+    }
+
     const oppositeType = form.formType === "BA" ? "BS" : "BA";
 
-    // For each line, check if the counterparty has a matching opposite form
-    for (const line of form.lines) {
-      // Look for the counterparty's opposite form in the same period
-      const matchingLine = await prisma.baBsFormLine.findFirst({
+    const companies = await prisma.clientCompany.findMany({
+      where: { tenantId, id: { not: form.clientCompanyId } },
+      select: { id: true, name: true, taxNumber: true },
+    });
+    const companyByTaxNumber = new Map(
+      companies
+        .map((company) => [normalizeTaxNumber(company.taxNumber), company] as const)
+        .filter((pair): pair is [string, (typeof companies)[number]] => pair[0] !== null)
+    );
+
+    // What the other client companies report about us
+    const [oppositeForms, reportedUs] = await Promise.all([
+      prisma.baBsForm.findMany({
+        where: { tenantId, formType: oppositeType, period: form.period },
+        select: { clientCompanyId: true },
+      }),
+      prisma.baBsFormLine.findMany({
         where: {
-          counterpartyTaxNumber: line.counterpartyTaxNumber,
-          form: {
-            tenantId,
-            formType: oppositeType,
-            period: form.period,
-          },
+          counterpartyTaxNumber: ownTaxNumber,
+          form: { tenantId, formType: oppositeType, period: form.period },
         },
-      });
+        include: { form: { select: { clientCompanyId: true } } },
+      }),
+    ]);
+    const companiesWithForm = new Set(oppositeForms.map((f) => f.clientCompanyId));
+    const theirRows = new Map<string, { amount: number; documentCount: number }>(
+      reportedUs.map((line) => [
+        line.form.clientCompanyId,
+        { amount: Number(line.totalAmount), documentCount: line.documentCount },
+      ])
+    );
 
-      if (matchingLine) {
-        const diff = Math.abs(Number(line.totalAmount) - Number(matchingLine.totalAmount));
-        if (diff > 100) {
-          // Allow 100 TRY tolerance
-          errors.push({
-            lineId: line.id,
-            counterpartyName: line.counterpartyName,
-            counterpartyTaxNumber: line.counterpartyTaxNumber,
-            ourAmount: Number(line.totalAmount),
-            theirAmount: Number(matchingLine.totalAmount),
-            difference: diff,
-            message: `Tutar uyumsuzluğu: ${diff.toFixed(2)} TRY fark`,
-          });
+    const errors: BaBsCrossCheckError[] = [];
+    const matched: string[] = [];
+    const mismatched: string[] = [];
+    const external: string[] = [];
+    const checkedCompanies = new Set<string>();
 
-          await prisma.baBsFormLine.update({
-            where: { id: line.id },
-            data: { crossCheckMatch: false },
-          });
-        } else {
-          await prisma.baBsFormLine.update({
-            where: { id: line.id },
-            data: { crossCheckMatch: true },
+    for (const line of form.lines) {
+      const company = companyByTaxNumber.get(normalizeTaxNumber(line.counterpartyTaxNumber) ?? "");
+      if (!company) {
+        external.push(line.id);
+        continue;
+      }
+      checkedCompanies.add(company.id);
+
+      if (!companiesWithForm.has(company.id)) {
+        const aggregation = await this.aggregateCounterparties(tenantId, company.id, oppositeType, form.period);
+        const entry = aggregation.entries.find((e) => e.taxNumber === ownTaxNumber);
+        if (entry) {
+          theirRows.set(company.id, { amount: entry.totalAmount, documentCount: entry.documentCount });
+        }
+      }
+
+      const ours = { amount: Number(line.totalAmount), documentCount: line.documentCount };
+      const theirs = theirRows.get(company.id);
+      const base = {
+        lineId: line.id,
+        counterpartyCompanyId: company.id,
+        counterpartyName: line.counterpartyName,
+        counterpartyTaxNumber: line.counterpartyTaxNumber,
+        ourAmount: ours.amount,
+        theirAmount: theirs?.amount ?? 0,
+        ourDocumentCount: ours.documentCount,
+        theirDocumentCount: theirs?.documentCount ?? 0,
+        difference: round2(Math.abs(ours.amount - (theirs?.amount ?? 0))),
+      };
+
+      const lineErrors: BaBsCrossCheckError[] = [];
+      if (!theirs) {
+        lineErrors.push({
+          ...base,
+          type: "missing_in_counterparty",
+          message: `${company.name} Form ${oppositeType} kayıtlarında bu şirket bildirilmiyor.`,
+        });
+      } else {
+        if (base.difference > CROSS_CHECK_TOLERANCE) {
+          lineErrors.push({ ...base, type: "amount", message: `Tutar uyumsuzluğu: ${base.difference.toFixed(2)} TRY fark` });
+        }
+        if (ours.documentCount !== theirs.documentCount) {
+          lineErrors.push({
+            ...base,
+            type: "document_count",
+            message: `Belge sayısı uyumsuzluğu: ${ours.documentCount} / ${theirs.documentCount}`,
           });
         }
       }
+
+      (lineErrors.length > 0 ? mismatched : matched).push(line.id);
+      errors.push(...lineErrors);
+    }
+
+    // Client companies reporting us on their form while we do not report them
+    for (const line of reportedUs) {
+      const companyId = line.form.clientCompanyId;
+      const company = companies.find((c) => c.id === companyId);
+      if (!company || checkedCompanies.has(companyId)) {
+        continue;
+      }
+      errors.push({
+        lineId: null,
+        counterpartyCompanyId: companyId,
+        counterpartyName: company.name,
+        counterpartyTaxNumber: normalizeTaxNumber(company.taxNumber) ?? company.taxNumber,
+        type: "missing_in_form",
+        ourAmount: 0,
+        theirAmount: Number(line.totalAmount),
+        ourDocumentCount: 0,
+        theirDocumentCount: line.documentCount,
+        difference: Number(line.totalAmount),
+        message: `${company.name} bu şirketi Form ${oppositeType} ile bildiriyor ancak Form ${form.formType} satırı yok.`,
+      });
+    }
+
+    const lineResults: Array<[string[], boolean | null]> = [
+      [matched, true],
+      [mismatched, false],
+      [external, null],
+    ];
+    for (const [ids, crossCheckMatch] of lineResults) {
+      if (ids.length > 0) {
+        await prisma.baBsFormLine.updateMany({ where: { id: { in: ids } }, data: { crossCheckMatch } });
+      }
     }
 
     const crossCheckStatus = errors.length > 0 ? "mismatched" : "matched";
@@ -296,11 +523,191 @@ class BaBsFormService {
       where: { id: formId },
       data: {
         crossCheckStatus,
-        crossCheckErrors: errors,
+        crossCheckErrors: errors as any,
       },
     });
 
-    return { formId, crossCheckStatus, errors, checkedLines: form.lines.length };
+    return {
+      formId,
+      crossCheckStatus,
+      errors,
+      checkedLines: matched.length + mismatched.length,
+      externalLines: external.length,
+    };
+  }
+
+  /**
+   * Form Ba/Bs as the e-Beyanname XML GİB accepts. Schema problems are
+   * returned per field with a null file rather than thrown.
+   */
+  async exportForm(tenantId: string, formId: string): Promise<BaBsFormExport> {
+    const form = await prisma.baBsForm.findFirst({
+      where: { id: formId, tenantId },
+      include: { clientCompany: true, lines: { orderBy: { totalAmount: "desc" } } },
+    });
+    if (!form) {
+      throw new NotFoundError("Ba-Bs formu bulunamadı.");
+    }
+    if (!EXPORTABLE_STATUSES.includes(form.status)) {
+      throw new ValidationError("Taslak veya reddedilmiş form dışa aktarılamaz.", "status");
+    }
+
+    const input: EBeyannameInput = {
+      type: form.formType === "BA" ? "FORM_BA" : "FORM_BS",
+      period: form.period,
+      mukellef: toEBeyannameMukellef(form.clientCompany),
+      hazirlayan: await eBeyannameService.getHazirlayan(tenantId),
+      amounts: { calculatedAmount: 0, deductibleAmount: 0, netPayable: 0, carryForward: 0 },
+      calculationData: {
+        lines: form.lines.map((line) => ({
+          counterpartyName: line.counterpartyName,
+          counterpartyTaxNumber: line.counterpartyTaxNumber,
+          counterpartyCountry: line.counterpartyCountry,
+          documentCount: line.documentCount,
+          totalAmount: Number(line.totalAmount),
+        })),
+      },
+    };
+
+    const errors = validateEBeyanname(input);
+    return {
+      formId: form.id,
+      formType: form.formType,
+      period: form.period,
+      valid: errors.length === 0,
+      errors,
+      file:
+        errors.length === 0
+          ? { fileName: buildEBeyannameFileName(input), content: encodeLatin5(buildEBeyannameXml(input)) }
+          : null,
+    };
+  }
+
+  /**
+   * Mutabakat letter asking a counterparty to confirm the amount and
+   * document count we report for them, as PDF
+   */
+  async getReconciliationLetter(
+    tenantId: string,
+    formId: string,
+    lineId: string
+  ): Promise<{ fileName: string; content: Buffer }> {
+    const { form, line } = await this.findFormLine(tenantId, formId, lineId);
+    const content = await this.renderLetterPdf(form.clientCompany.name, this.buildLetterParagraphs(form, line));
+
+    return { fileName: `babs_mutabakat_${form.period}_${line.counterpartyTaxNumber}.pdf`, content };
+  }
+
+  /**
+   * E-mail the mutabakat letter to the counterparty and keep a record of it
+   * on the form
+   */
+  async sendReconciliationLetter(tenantId: string, userId: string, formId: string, lineId: string, email: string) {
+    const { form, line } = await this.findFormLine(tenantId, formId, lineId);
+    const paragraphs = this.buildLetterParagraphs(form, line);
+
+    const { emailService } = await import("./email-service");
+    await emailService.sendEmail({
+      to: [email],
+      subject: `${form.period} dönemi Form ${form.formType} mutabakatı - ${form.clientCompany.name}`,
+      body: ["Sayın Yetkili,", "", ...paragraphs.flatMap((p) => [p, ""]), "Saygılarımızla,", form.clientCompany.name].join(
+        "\n"
+      ),
+      tenantId,
+    });
+
+    const metadata = (form.metadata as Record<string, any>) || {};
+    const sentAt = new Date();
+    await prisma.baBsForm.update({
+      where: { id: form.id },
+      data: {
+        metadata: {
+          ...metadata,
+          reconciliationLetters: [
+            ...(metadata.reconciliationLetters ?? []),
+            { lineId: line.id, sentTo: email, sentAt: sentAt.toISOString() },
+          ],
+        },
+      },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "BABS_RECONCILIATION_LETTER_SENT",
+      resourceType: "BaBsForm",
+      resourceId: form.id,
+      metadata: { lineId: line.id, counterpartyTaxNumber: line.counterpartyTaxNumber, sentTo: email },
+    });
+
+    return { formId: form.id, lineId: line.id, sentTo: email, sentAt };
+  }
+
+  private async findFormLine(tenantId: string, formId: string, lineId: string) {
+    const form = await prisma.baBsForm.findFirst({
+      where: { id: formId, tenantId },
+      include: { clientCompany: { select: { name: true, taxNumber: true } }, lines: { where: { id: lineId } } },
+    });
+    const line = form?.lines[0];
+    if (!form || !line) {
+      throw new NotFoundError("Ba-Bs form satırı bulunamadı.");
+    }
+    return { form, line };
+  }
+
+  private buildLetterParagraphs(
+    form: { formType: string; period: string; clientCompany: { name: string; taxNumber: string } },
+    line: { counterpartyName: string; counterpartyTaxNumber: string; documentCount: number; totalAmount: unknown }
+  ): string[] {
+    const [year, month] = form.period.split("-");
+    const ourForm = form.formType === "BA" ? "Form Ba" : "Form Bs";
+    const theirForm = form.formType === "BA" ? "Form Bs" : "Form Ba";
+    const direction = form.formType === "BA" ? "firmanızdan yaptığımız alımlar" : "firmanıza yaptığımız satışlar";
+
+    return [
+      `${line.counterpartyName} (VKN/TCKN ${line.counterpartyTaxNumber})`,
+      `${month}/${year} döneminde ${direction} için ${ourForm} ile ${line.documentCount} adet belge ve KDV hariç ${formatMoney(Number(line.totalAmount))} TL bildirilecektir.`,
+      `Kayıtlarınızın ve ${theirForm} bildiriminizin bu tutarla uyumlu olup olmadığını bildirmenizi rica ederiz. Uyumsuzluk halinde belge listesini iletmeniz mutabakatı kolaylaştıracaktır.`,
+      `${form.clientCompany.name} (VKN ${form.clientCompany.taxNumber})`,
+    ];
+  }
+
+  private renderLetterPdf(companyName: string, paragraphs: string[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, size: "A4" });
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", (error) => reject(new Error(`PDF generation failed: ${error.message}`)));
+
+      doc.fontSize(12).font("Helvetica-Bold").text(companyName);
+      doc.moveDown();
+      doc.fontSize(16).text("BA/BS MUTABAKAT MEKTUBU", { align: "center" });
+      doc.moveDown(0.5);
+      doc.fontSize(10).font("Helvetica").text(`Tarih: ${new Date().toLocaleDateString("tr-TR")}`, { align: "right" });
+      doc.moveDown();
+
+      const [recipient, ...body] = paragraphs;
+      doc.fontSize(11).font("Helvetica-Bold").text(recipient);
+      doc.moveDown();
+      doc.font("Helvetica").text("Sayın Yetkili,");
+      doc.moveDown(0.5);
+      for (const paragraph of body.slice(0, -1)) {
+        doc.text(paragraph, { align: "justify" });
+        doc.moveDown(0.5);
+      }
+      doc.moveDown();
+      doc.text("Saygılarımızla,");
+      doc.font("Helvetica-Bold").text(body[body.length - 1]);
+
+      doc.moveDown(3);
+      doc.font("Helvetica").text("Mutabıkız  [   ]          Mutabık değiliz  [   ]");
+      doc.moveDown(2);
+      doc.text("Kaşe / İmza: ______________________________");
+
+      doc.end();
+    });
   }
 }
 
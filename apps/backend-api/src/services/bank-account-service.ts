@@ -37,6 +37,9 @@ export class BankAccountService {
       accountNumber: account.accountNumber,
       currency: account.currency,
       isPrimary: account.isPrimary,
+      ledgerAccountCode: account.ledgerAccountCode ?? null,
+      currencyBalance: account.currencyBalance !== null ? Number(account.currencyBalance) : null,
+      balanceDate: account.balanceDate ?? null,
       createdAt: account.createdAt,
       updatedAt: account.updatedAt,
     }));
@@ -79,6 +82,9 @@ export class BankAccountService {
         accountNumber: input.accountNumber ?? null,
         currency: input.currency || "TRY",
         isPrimary: input.isPrimary || false,
+        ledgerAccountCode: input.ledgerAccountCode ?? null,
+        currencyBalance: input.currencyBalance ?? null,
+        balanceDate: input.balanceDate ?? null,
       },
     });
 
@@ -91,6 +97,9 @@ export class BankAccountService {
       accountNumber: account.accountNumber,
       currency: account.currency,
       isPrimary: account.isPrimary,
+      ledgerAccountCode: account.ledgerAccountCode ?? null,
+      currencyBalance: account.currencyBalance !== null ? Number(account.currencyBalance) : null,
+      balanceDate: account.balanceDate ?? null,
       createdAt: account.createdAt,
       updatedAt: account.updatedAt,
     };
@@ -137,6 +146,9 @@ export class BankAccountService {
         accountNumber: input.accountNumber ?? undefined,
         currency: input.currency,
         isPrimary: input.isPrimary,
+        ledgerAccountCode: input.ledgerAccountCode,
+        currencyBalance: input.currencyBalance,
+        balanceDate: input.balanceDate,
       },
     });
 
@@ -149,6 +161,9 @@ export class BankAccountService {
       accountNumber: updated.accountNumber,
       currency: updated.currency,
       isPrimary: updated.isPrimary,
+      ledgerAccountCode: updated.ledgerAccountCode ?? null,
+      currencyBalance: updated.currencyBalance !== null ? Number(updated.currencyBalance) : null,
+      balanceDate: updated.balanceDate ?? null,
       createdAt: updated.createdAt,
       updatedAt: updated.updatedAt,
     };
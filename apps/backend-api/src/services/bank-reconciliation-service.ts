@@ -0,0 +1,1107 @@
+import { randomUUID } from "crypto";
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { paymentReminderService } from "./payment-reminder-service";
+import { auditService } from "./audit-service";
+import { accountingPeriodService } from "./accounting-period-service";
+import type { BaseReportResult } from "./reporting-service";
+
+/**
+ * Banka mutabakatı
+ *
+ * Imported bank statement lines are matched to open invoices (collections
+ * and payments) and to ledger entries on the bank's account. A statement
+ * line may settle several invoices (toplu ödeme) and an invoice may be
+ * settled by several lines (kısmi ödeme). Matched amounts are carried to
+ * Invoice.paidAmount, which closes the payment reminders once the invoice
+ * is fully paid.
+ */
+
+const AUTO_MATCH_THRESHOLD = 0.7;
+const SUGGESTION_THRESHOLD = 0.4;
+const AMOUNT_TOLERANCE = 0.01;
+const MAX_BATCH_INVOICES = 12;
+const MAX_CANDIDATES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_INVOICE_STATUSES = ["kesildi", "muhasebeleştirilmiş"];
+const COMPANY_NAME_SUFFIXES = new Set(["AŞ", "LTD", "ŞTİ", "SAN", "TİC", "VE", "LİMİTED", "ANONİM", "ŞİRKETİ"]);
+
+export type StatementLineStatus = "unmatched" | "partially_matched" | "matched";
+export type MatchReason = "amount" | "partial_amount" | "invoice_number" | "tax_number" | "iban" | "name" | "date" | "reference";
+
+export interface StatementLineInput {
+  externalId: string;
+  bookingDate: Date;
+  valueDate?: Date | null;
+  description: string;
+  amount: number; // + incoming, - outgoing
+  currency: string;
+  balanceAfter?: number | null;
+  counterpartyName?: string | null;
+  counterpartyIban?: string | null;
+  counterpartyTaxNumber?: string | null;
+}
+
+export interface MatchableStatementLine {
+  id: string;
+  bookingDate: Date;
+  description: string;
+  amount: number;
+  remaining: number; // unmatched part, always positive
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  counterpartyTaxNumber: string | null;
+}
+
+export interface MatchableInvoice {
+  id: string;
+  externalId: string | null;
+  type: string;
+  issueDate: Date;
+  dueDate: Date | null;
+  counterpartyName: string | null;
+  counterpartyTaxNumber: string | null;
+  openAmount: number;
+}
+
+export interface MatchableBookEntry {
+  transactionId: string;
+  date: Date;
+  referenceNo: string | null;
+  description: string | null;
+  amount: number; // + debit (incoming), - credit (outgoing) on the bank account
+}
+
+export interface MatchCandidate {
+  targetType: "invoice" | "transaction";
+  targetId: string;
+  reference: string;
+  counterparty: string | null;
+  date: Date;
+  openAmount: number;
+  confidence: number;
+  reasons: MatchReason[];
+}
+
+export interface ManualMatchInput {
+  statementLineIds: string[];
+  invoiceIds?: string[];
+  transactionIds?: string[];
+}
+
+export interface AutoMatchResult {
+  matchedLines: number;
+  matchCount: number;
+  suggestions: Array<{ statementLineId: string; candidates: MatchCandidate[] }>;
+}
+
+export interface StatementLineView {
+  id: string;
+  externalId: string;
+  bookingDate: Date;
+  valueDate: Date | null;
+  description: string;
+  amount: number;
+  currency: string;
+  balanceAfter: number | null;
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  counterpartyTaxNumber: string | null;
+  matchedAmount: number;
+  status: StatementLineStatus;
+  matches: Array<{
+    id: string;
+    matchGroupId: string;
+    invoiceId: string | null;
+    transactionId: string | null;
+    amount: number;
+    method: "auto" | "manual";
+    confidence: number | null;
+  }>;
+}
+
+export interface ReconciliationWorkspace {
+  bankAccount: { id: string; bankName: string; iban: string; currency: string; ledgerAccountCode: string | null };
+  summary: {
+    lineCount: number;
+    matchedCount: number;
+    partiallyMatchedCount: number;
+    unmatchedCount: number;
+    unmatchedAmount: number;
+  };
+  lines: StatementLineView[];
+}
+
+export interface ReconciliationDifferenceRow {
+  item_type: "bank_only" | "book_only";
+  date: string;
+  reference: string;
+  description: string;
+  amount: number;
+}
+
+interface PlannedMatch {
+  statementLineId: string;
+  invoiceId?: string;
+  transactionId?: string;
+  amount: number;
+  confidence?: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeToken(value: string): string {
+  return value.toLocaleUpperCase("tr-TR").replace(/[^A-Z0-9]/g, "");
+}
+
+function nameTokens(value: string): string[] {
+  return value
+    .toLocaleUpperCase("tr-TR")
+    .replace(/\./g, "")
+    .replace(/[^A-Z0-9ÇĞİÖŞÜ]+/g, " ")
+    .split(" ")
+    .filter((token) => token.length > 0 && !COMPANY_NAME_SUFFIXES.has(token));
+}
+
+function containsNumber(text: string, digits: string): boolean {
+  return new RegExp(`(^|\\D)${digits}(\\D|$)`).test(text);
+}
+
+/**
+ * Counterparty IBAN and VKN/TCKN written into a bank description, for
+ * banks that do not deliver them as separate fields
+ */
+export function extractCounterparty(description: string): { iban: string | null; taxNumber: string | null } {
+  const compact = description.toUpperCase().replace(/\s+/g, "");
+  const iban = /TR\d{24}/.exec(compact)?.[0] ?? null;
+  const taxNumber = /\b(?:VKN|TCKN|V\.K\.N\.?|VERGİ\s*NO)\s*[:.]?\s*(\d{10,11})\b/i.exec(description)?.[1] ?? null;
+  return { iban, taxNumber };
+}
+
+/**
+ * Score an open invoice against a statement line. Amount and invoice
+ * number carry most of the weight; VKN, a known IBAN, the counterparty
+ * name and the date window add to it.
+ */
+export function scoreInvoiceCandidate(
+  line: MatchableStatementLine,
+  invoice: MatchableInvoice,
+  knownTaxNumbersForIban: Set<string> = new Set()
+): { confidence: number; reasons: MatchReason[] } {
+  const reasons: MatchReason[] = [];
+  let score = 0;
+
+  if (Math.abs(line.remaining - invoice.openAmount) <= AMOUNT_TOLERANCE) {
+    score += 0.35;
+    reasons.push("amount");
+  } else if (line.remaining < invoice.openAmount) {
+    score += 0.05;
+    reasons.push("partial_amount");
+  }
+
+  const invoiceNumber = invoice.externalId ? normalizeToken(invoice.externalId) : "";
+  if (invoiceNumber.length >= 4 && normalizeToken(line.description).includes(invoiceNumber)) {
+    score += 0.35;
+    reasons.push("invoice_number");
+  }
+
+  const taxNumber = invoice.counterpartyTaxNumber;
+  if (taxNumber && (line.counterpartyTaxNumber === taxNumber || containsNumber(line.description, taxNumber))) {
+    score += 0.25;
+    reasons.push("tax_number");
+  } else if (taxNumber && knownTaxNumbersForIban.has(taxNumber)) {
+    score += 0.2;
+    reasons.push("iban");
+  } else if (invoice.counterpartyName) {
+    const name = nameTokens(invoice.counterpartyName)[0];
+    if (name && name.length >= 3 && nameTokens(`${line.counterpartyName ?? ""} ${line.description}`).includes(name)) {
+      score += 0.1;
+      reasons.push("name");
+    }
+  }
+
+  const windowStart = invoice.issueDate.getTime() - 7 * DAY_MS;
+  const windowEnd = (invoice.dueDate ?? invoice.issueDate).getTime() + 60 * DAY_MS;
+  if (line.bookingDate.getTime() >= windowStart && line.bookingDate.getTime() <= windowEnd) {
+    score += 0.1;
+    reasons.push("date");
+  }
+
+  return { confidence: round2(Math.min(score, 1)), reasons };
+}
+
+/**
+ * Score a ledger entry on the bank account against a statement line
+ */
+export function scoreBookCandidate(
+  line: MatchableStatementLine,
+  entry: MatchableBookEntry
+): { confidence: number; reasons: MatchReason[] } {
+  const reasons: MatchReason[] = [];
+  let score = 0;
+
+  if (Math.sign(entry.amount) !== Math.sign(line.amount)) {
+    return { confidence: 0, reasons };
+  }
+
+  if (Math.abs(Math.abs(entry.amount) - line.remaining) <= AMOUNT_TOLERANCE) {
+    score += 0.45;
+    reasons.push("amount");
+  }
+
+  const days = Math.abs(line.bookingDate.getTime() - entry.date.getTime()) / DAY_MS;
+  if (days <= 3) {
+    score += 0.25;
+    reasons.push("date");
+  } else if (days <= 7) {
+    score += 0.1;
+    reasons.push("date");
+  }
+
+  const reference = entry.referenceNo ? normalizeToken(entry.referenceNo) : "";
+  if (reference.length >= 4 && normalizeToken(line.description).includes(reference)) {
+    score += 0.3;
+    reasons.push("reference");
+  }
+
+  return { confidence: round2(Math.min(score, 1)), reasons };
+}
+
+/**
+ * Invoices whose open amounts add up to the statement amount, searched
+ * among at most MAX_BATCH_INVOICES candidates
+ */
+export function findBatchSubset(amount: number, invoices: MatchableInvoice[]): MatchableInvoice[] | null {
+  const candidates = invoices.slice(0, MAX_BATCH_INVOICES);
+  let best: MatchableInvoice[] | null = null;
+
+  for (let mask = 1; mask < 1 << candidates.length; mask++) {
+    const subset = candidates.filter((_, i) => mask & (1 << i));
+    if (subset.length < 2) {
+      continue;
+    }
+    const total = subset.reduce((sum, invoice) => sum + invoice.openAmount, 0);
+    if (Math.abs(total - amount) <= AMOUNT_TOLERANCE && (!best || subset.length < best.length)) {
+      best = subset;
+    }
+  }
+
+  return best;
+}
+
+function lineStatus(amount: number, matchedAmount: number): StatementLineStatus {
+  if (matchedAmount <= 0) {
+    return "unmatched";
+  }
+  return Math.abs(amount) - matchedAmount <= AMOUNT_TOLERANCE ? "matched" : "partially_matched";
+}
+
+export class BankReconciliationService {
+  /**
+   * Store an imported statement line; lines already known keep their matches
+   */
+  async recordStatementLine(
+    tenantId: string,
+    bankAccount: { id: string; clientCompanyId: string },
+    input: StatementLineInput,
+    transactionId: string | null = null,
+    source = "integration"
+  ): Promise<{ id: string; created: boolean }> {
+    const extracted = extractCounterparty(input.description);
+    const data = {
+      bookingDate: input.bookingDate,
+      valueDate: input.valueDate ?? null,
+      description: input.description,
+      amount: input.amount,
+      currency: input.currency,
+      balanceAfter: input.balanceAfter ?? null,
+      counterpartyName: input.counterpartyName ?? null,
+      counterpartyIban: input.counterpartyIban ?? extracted.iban,
+      counterpartyTaxNumber: input.counterpartyTaxNumber ?? extracted.taxNumber,
+      ...(transactionId && { transactionId }),
+    };
+
+    const existing = await prisma.bankStatementLine.findUnique({
+      where: { bankAccountId_externalId: { bankAccountId: bankAccount.id, externalId: input.externalId } },
+    });
+
+    if (existing) {
+      await prisma.bankStatementLine.update({ where: { id: existing.id }, data });
+      return { id: existing.id, created: false };
+    }
+
+    const created = await prisma.bankStatementLine.create({
+      data: {
+        tenantId,
+        clientCompanyId: bankAccount.clientCompanyId,
+        bankAccountId: bankAccount.id,
+        externalId: input.externalId,
+        source,
+        ...data,
+      },
+    });
+    return { id: created.id, created: true };
+  }
+
+  async getWorkspace(
+    tenantId: string,
+    bankAccountId: string,
+    filters: { status?: StatementLineStatus; from?: Date; to?: Date } = {}
+  ): Promise<ReconciliationWorkspace> {
+    const bankAccount = await this.getBankAccount(tenantId, bankAccountId);
+
+    const where: any = { tenantId, bankAccountId };
+    if (filters.from || filters.to) {
+      where.bookingDate = { ...(filters.from && { gte: filters.from }), ...(filters.to && { lte: filters.to }) };
+    }
+
+    const [lines, counts] = await Promise.all([
+      prisma.bankStatementLine.findMany({
+        where: { ...where, ...(filters.status && { status: filters.status }) },
+        include: { matches: { orderBy: { createdAt: "asc" } } },
+        orderBy: { bookingDate: "desc" },
+      }),
+      prisma.bankStatementLine.groupBy({
+        by: ["status"],
+        where,
+        _count: { _all: true },
+        _sum: { amount: true, matchedAmount: true },
+      }),
+    ]);
+
+    const count = (status: StatementLineStatus) => counts.find((c) => c.status === status)?._count._all ?? 0;
+
+    return {
+      bankAccount: {
+        id: bankAccount.id,
+        bankName: bankAccount.bankName,
+        iban: bankAccount.iban,
+        currency: bankAccount.currency,
+        ledgerAccountCode: bankAccount.ledgerAccountCode,
+      },
+      summary: {
+        lineCount: counts.reduce((sum, c) => sum + c._count._all, 0),
+        matchedCount: count("matched"),
+        partiallyMatchedCount: count("partially_matched"),
+        unmatchedCount: count("unmatched"),
+        unmatchedAmount: round2(
+          lines
+            .filter((line) => line.status !== "matched")
+            .reduce((sum, line) => sum + Math.abs(Number(line.amount)) - Number(line.matchedAmount), 0)
+        ),
+      },
+      lines: lines.map((line) => this.mapLine(line)),
+    };
+  }
+
+  /**
+   * Scored invoice and ledger candidates for one statement line
+   */
+  async findCandidates(tenantId: string, bankAccountId: string, statementLineId: string): Promise<MatchCandidate[]> {
+    const bankAccount = await this.getBankAccount(tenantId, bankAccountId);
+    const line = await prisma.bankStatementLine.findFirst({
+      where: { id: statementLineId, tenantId, bankAccountId },
+    });
+
+    if (!line) {
+      throw new NotFoundError("Ekstre satırı bulunamadı.");
+    }
+
+    const matchable = this.toMatchable(line);
+    const [invoices, book, ibanTaxNumbers] = await Promise.all([
+      this.loadOpenInvoices(tenantId, bankAccount.clientCompanyId, bankAccount.currency),
+      this.loadOpenBookEntries(tenantId, bankAccount),
+      this.loadKnownIbanTaxNumbers(tenantId, bankAccountId),
+    ]);
+
+    return this.rankCandidates(matchable, invoices, book, ibanTaxNumbers).slice(0, MAX_CANDIDATES);
+  }
+
+  /**
+   * Match open statement lines automatically. Confident one-to-one matches
+   * are applied first, then batched payments and partial payments that
+   * name the invoice; the rest is returned as suggestions.
+   */
+  async autoMatch(tenantId: string, bankAccountId: string, userId: string | null = null): Promise<AutoMatchResult> {
+    const bankAccount = await this.getBankAccount(tenantId, bankAccountId);
+
+    const [lines, openInvoices, book, ibanTaxNumbers] = await Promise.all([
+      prisma.bankStatementLine.findMany({
+        where: { tenantId, bankAccountId, status: { not: "matched" } },
+        orderBy: { bookingDate: "asc" },
+      }),
+      this.loadOpenInvoices(tenantId, bankAccount.clientCompanyId, bankAccount.currency),
+      this.loadOpenBookEntries(tenantId, bankAccount),
+      this.loadKnownIbanTaxNumbers(tenantId, bankAccountId),
+    ]);
+    // Invoices of a closed or locked month keep their paid amounts
+    const invoices = await accountingPeriodService.filterWritable(
+      tenantId,
+      bankAccount.clientCompanyId,
+      openInvoices,
+      (invoice) => invoice.issueDate
+    );
+
+    const matchable = lines.map((line) => this.toMatchable(line)).filter((line) => line.remaining > AMOUNT_TOLERANCE);
+    const usedLines = new Set<string>();
+    const usedTargets = new Set<string>();
+    const groups: PlannedMatch[][] = [];
+    const ranked = new Map(
+      matchable.map((line) => [line.id, this.rankCandidates(line, invoices, book, ibanTaxNumbers)])
+    );
+
+    // 1. One-to-one: full amount, confident and not ambiguous
+    const pairs = matchable
+      .flatMap((line) => {
+        const candidates = ranked.get(line.id)!;
+        const [best, second] = candidates;
+        if (!best || best.confidence < AUTO_MATCH_THRESHOLD || !best.reasons.includes("amount")) {
+          return [];
+        }
+        if (second && second.confidence === best.confidence && !best.reasons.includes("invoice_number")) {
+          return [];
+        }
+        return [{ line, candidate: best }];
+      })
+      .sort((a, b) => b.candidate.confidence - a.candidate.confidence);
+
+    for (const { line, candidate } of pairs) {
+      if (usedLines.has(line.id) || usedTargets.has(candidate.targetId)) {
+        continue;
+      }
+      usedLines.add(line.id);
+      usedTargets.add(candidate.targetId);
+      groups.push([
+        {
+          statementLineId: line.id,
+          ...(candidate.targetType === "invoice" ? { invoiceId: candidate.targetId } : { transactionId: candidate.targetId }),
+          amount: line.remaining,
+          confidence: candidate.confidence,
+        },
+      ]);
+    }
+
+    // 2. Many-to-one and one-to-many with the same counterparty
+    for (const line of matchable) {
+      if (usedLines.has(line.id)) {
+        continue;
+      }
+
+      const related = invoices.filter((invoice) => {
+        if (usedTargets.has(invoice.id) || !this.directionMatches(line, invoice)) {
+          return false;
+        }
+        const { reasons } = scoreInvoiceCandidate(line, invoice, ibanTaxNumbers.get(line.counterpartyIban ?? "") ?? new Set());
+        return reasons.some((reason) => reason === "invoice_number" || reason === "tax_number" || reason === "iban");
+      });
+
+      const batch = findBatchSubset(line.remaining, related);
+      if (batch) {
+        usedLines.add(line.id);
+        batch.forEach((invoice) => usedTargets.add(invoice.id));
+        groups.push(
+          batch.map((invoice) => ({
+            statementLineId: line.id,
+            invoiceId: invoice.id,
+            amount: invoice.openAmount,
+            confidence: AUTO_MATCH_THRESHOLD,
+          }))
+        );
+        continue;
+      }
+
+      // A partial payment is only applied when the description names the invoice
+      const named = related.filter(
+        (invoice) =>
+          invoice.openAmount > line.remaining &&
+          scoreInvoiceCandidate(line, invoice).reasons.includes("invoice_number")
+      );
+      if (named.length === 1) {
+        usedLines.add(line.id);
+        named[0].openAmount = round2(named[0].openAmount - line.remaining);
+        groups.push([
+          {
+            statementLineId: line.id,
+            invoiceId: named[0].id,
+            amount: line.remaining,
+            confidence: AUTO_MATCH_THRESHOLD,
+          },
+        ]);
+      }
+    }
+
+    for (const group of groups) {
+      await this.applyMatches(tenantId, bankAccountId, group, "auto", userId);
+    }
+
+    const suggestions = matchable
+      .filter((line) => !usedLines.has(line.id))
+      .map((line) => ({
+        statementLineId: line.id,
+        candidates: ranked
+          .get(line.id)!
+          .filter((candidate) => candidate.confidence >= SUGGESTION_THRESHOLD && !usedTargets.has(candidate.targetId))
+          .slice(0, 3),
+      }))
+      .filter((suggestion) => suggestion.candidates.length > 0);
+
+    const matchCount = groups.reduce((sum, group) => sum + group.length, 0);
+    logger.info("Bank reconciliation auto-match finished", undefined, {
+      tenantId,
+      bankAccountId,
+      matchedLines: usedLines.size,
+      matchCount,
+    });
+
+    return { matchedLines: usedLines.size, matchCount, suggestions };
+  }
+
+  /**
+   * Match one statement line to several targets or several lines to one
+   * target; amounts are allocated in date order up to what is still open.
+   */
+  async createManualMatch(
+    tenantId: string,
+    userId: string,
+    bankAccountId: string,
+    input: ManualMatchInput
+  ): Promise<{ matchGroupId: string; matchCount: number }> {
+    const bankAccount = await this.getBankAccount(tenantId, bankAccountId);
+    const invoiceIds = input.invoiceIds ?? [];
+    const transactionIds = input.transactionIds ?? [];
+    const targetCount = invoiceIds.length + transactionIds.length;
+
+    if (input.statementLineIds.length === 0 || targetCount === 0) {
+      throw new ValidationError("En az bir ekstre satırı ve bir fatura veya muhasebe kaydı seçilmelidir.");
+    }
+    if (input.statementLineIds.length > 1 && targetCount > 1) {
+      throw new ValidationError("Birden çok ekstre satırı yalnızca tek bir fatura veya kayıtla eşleştirilebilir.");
+    }
+
+    const lines = await prisma.bankStatementLine.findMany({
+      where: { id: { in: input.statementLineIds }, tenantId, bankAccountId },
+      orderBy: { bookingDate: "asc" },
+    });
+    if (lines.length !== input.statementLineIds.length) {
+      throw new NotFoundError("Ekstre satırı bulunamadı.");
+    }
+
+    const matchableLines = lines.map((line) => this.toMatchable(line)).filter((line) => line.remaining > AMOUNT_TOLERANCE);
+    if (matchableLines.length !== lines.length) {
+      throw new ValidationError("Seçilen ekstre satırlarından biri zaten tamamen eşleştirilmiş.");
+    }
+
+    const targets: Array<{ invoiceId?: string; transactionId?: string; open: number }> = [];
+
+    if (invoiceIds.length > 0) {
+      const invoices = await prisma.invoice.findMany({
+        where: { id: { in: invoiceIds }, tenantId, clientCompanyId: bankAccount.clientCompanyId },
+        orderBy: { issueDate: "asc" },
+      });
+      if (invoices.length !== invoiceIds.length) {
+        throw new NotFoundError("Fatura bulunamadı.");
+      }
+      for (const invoice of invoices) {
+        const open = round2(Number(invoice.totalAmount) - Number(invoice.paidAmount));
+        if (open <= AMOUNT_TOLERANCE) {
+          throw new ValidationError(`${invoice.externalId ?? invoice.id} numaralı fatura zaten ödenmiş.`);
+        }
+        await accountingPeriodService.assertDateWritable(tenantId, invoice.clientCompanyId, invoice.issueDate);
+        targets.push({ invoiceId: invoice.id, open });
+      }
+    }
+
+    if (transactionIds.length > 0) {
+      const book = await this.loadOpenBookEntries(tenantId, bankAccount);
+      for (const transactionId of transactionIds) {
+        const entry = book.find((e) => e.transactionId === transactionId);
+        if (!entry) {
+          throw new ValidationError("Muhasebe kaydı bu banka hesabına ait değil veya zaten eşleştirilmiş.");
+        }
+        targets.push({ transactionId, open: Math.abs(entry.amount) });
+      }
+    }
+
+    const planned: PlannedMatch[] = [];
+    for (const line of matchableLines) {
+      let remaining = line.remaining;
+      for (const target of targets) {
+        const amount = round2(Math.min(remaining, target.open));
+        if (amount <= 0) {
+          continue;
+        }
+        planned.push({
+          statementLineId: line.id,
+          ...(target.invoiceId ? { invoiceId: target.invoiceId } : { transactionId: target.transactionId }),
+          amount,
+        });
+        remaining = round2(remaining - amount);
+        target.open = round2(target.open - amount);
+      }
+    }
+
+    if (planned.length === 0) {
+      throw new ValidationError("Eşleştirilecek açık tutar bulunamadı.");
+    }
+
+    const matchGroupId = await this.applyMatches(tenantId, bankAccountId, planned, "manual", userId);
+    return { matchGroupId, matchCount: planned.length };
+  }
+
+  /**
+   * Remove a match group and give the amounts back to lines and invoices
+   */
+  async unmatch(tenantId: string, userId: string, bankAccountId: string, matchGroupId: string): Promise<void> {
+    const matches = await prisma.bankReconciliationMatch.findMany({
+      where: { tenantId, bankAccountId, matchGroupId },
+      include: { statementLine: true, invoice: true },
+    });
+
+    if (matches.length === 0) {
+      throw new NotFoundError("Eşleştirme bulunamadı.");
+    }
+    for (const match of matches) {
+      if (match.invoice) {
+        await accountingPeriodService.assertDateWritable(tenantId, match.invoice.clientCompanyId, match.invoice.issueDate);
+      }
+    }
+
+    const invoiceIds = Array.from(new Set(matches.flatMap((match) => (match.invoiceId ? [match.invoiceId] : []))));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.bankReconciliationMatch.deleteMany({ where: { tenantId, bankAccountId, matchGroupId } });
+
+      const byLine = new Map<string, { amount: number; matched: number; released: number }>();
+      const byInvoice = new Map<string, { total: number; paid: number; released: number }>();
+      for (const match of matches) {
+        const line = byLine.get(match.statementLineId) ?? {
+          amount: Number(match.statementLine.amount),
+          matched: Number(match.statementLine.matchedAmount),
+          released: 0,
+        };
+        line.released += Number(match.amount);
+        byLine.set(match.statementLineId, line);
+
+        if (match.invoice) {
+          const invoice = byInvoice.get(match.invoice.id) ?? {
+            total: Number(match.invoice.totalAmount),
+            paid: Number(match.invoice.paidAmount),
+            released: 0,
+          };
+          invoice.released += Number(match.amount);
+          byInvoice.set(match.invoice.id, invoice);
+        }
+      }
+
+      for (const [id, line] of byLine) {
+        const matchedAmount = Math.max(round2(line.matched - line.released), 0);
+        await tx.bankStatementLine.update({
+          where: { id },
+          data: { matchedAmount, status: lineStatus(line.amount, matchedAmount) },
+        });
+      }
+
+      for (const [id, invoice] of byInvoice) {
+        const paidAmount = Math.max(round2(invoice.paid - invoice.released), 0);
+        await tx.invoice.update({
+          where: { id },
+          data: { paidAmount, ...(invoice.total - paidAmount > AMOUNT_TOLERANCE && { paidAt: null }) },
+        });
+      }
+    });
+
+    for (const invoiceId of invoiceIds) {
+      await paymentReminderService.syncInvoicePayment(tenantId, invoiceId);
+    }
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "BANK_RECONCILIATION_UNMATCHED",
+      resourceType: "ClientCompanyBankAccount",
+      resourceId: bankAccountId,
+      metadata: { matchGroupId, matchCount: matches.length, invoiceIds },
+    });
+  }
+
+  /**
+   * Ekstre / defter farkı as of a date: both balances and the items that
+   * explain the difference. Entries the importer booked for a statement
+   * line stand for that line and are taken at the statement amount.
+   */
+  async getDifferenceReport(
+    tenantId: string,
+    bankAccountId: string,
+    asOf: Date
+  ): Promise<BaseReportResult<ReconciliationDifferenceRow>> {
+    const bankAccount = await this.getBankAccount(tenantId, bankAccountId);
+
+    const lines = await prisma.bankStatementLine.findMany({
+      where: { tenantId, bankAccountId, bookingDate: { lte: asOf } },
+      include: { matches: { select: { transactionId: true } } },
+      orderBy: [{ bookingDate: "asc" }, { createdAt: "asc" }],
+    });
+
+    const mirrorIds = new Set(lines.flatMap((line) => (line.transactionId ? [line.transactionId] : [])));
+    const bookEntries = (await this.loadBookEntries(tenantId, bankAccount, asOf)).filter(
+      (entry) => !mirrorIds.has(entry.transactionId)
+    );
+    const matchedTransactionIds = new Set(
+      (
+        await prisma.bankReconciliationMatch.findMany({
+          where: { tenantId, bankAccountId, transactionId: { not: null } },
+          select: { transactionId: true },
+        })
+      ).map((match) => match.transactionId!)
+    );
+
+    const lastWithBalance = [...lines].reverse().find((line) => line.balanceAfter !== null);
+    const statementBalance = round2(
+      lastWithBalance ? Number(lastWithBalance.balanceAfter) : lines.reduce((sum, line) => sum + Number(line.amount), 0)
+    );
+    const bookBalance = round2(
+      bookEntries.reduce((sum, entry) => sum + entry.amount, 0) +
+        lines.filter((line) => line.transactionId).reduce((sum, line) => sum + Number(line.amount), 0)
+    );
+
+    const rows: ReconciliationDifferenceRow[] = [
+      ...lines
+        .filter((line) => !line.transactionId && !line.matches.some((match) => match.transactionId))
+        .map((line) => ({
+          item_type: "bank_only" as const,
+          date: line.bookingDate.toISOString().slice(0, 10),
+          reference: line.externalId,
+          description: line.description,
+          amount: Number(line.amount),
+        })),
+      ...bookEntries
+        .filter((entry) => !matchedTransactionIds.has(entry.transactionId))
+        .map((entry) => ({
+          item_type: "book_only" as const,
+          date: entry.date.toISOString().slice(0, 10),
+          reference: entry.referenceNo ?? entry.transactionId,
+          description: entry.description ?? "",
+          amount: entry.amount,
+        })),
+    ];
+
+    const bankOnly = round2(rows.filter((r) => r.item_type === "bank_only").reduce((sum, r) => sum + r.amount, 0));
+    const bookOnly = round2(rows.filter((r) => r.item_type === "book_only").reduce((sum, r) => sum + r.amount, 0));
+    const difference = round2(statementBalance - bookBalance);
+
+    return {
+      title: `Banka Mutabakat Farkı - ${bankAccount.bankName} ${bankAccount.iban}`,
+      period: { start_date: lines[0]?.bookingDate.toISOString() ?? asOf.toISOString(), end_date: asOf.toISOString() },
+      generated_at: new Date().toISOString(),
+      rows,
+      totals: {
+        statement_balance: statementBalance,
+        book_balance: bookBalance,
+        difference,
+        bank_only: bankOnly,
+        book_only: bookOnly,
+        unexplained: round2(difference - (bankOnly - bookOnly)),
+      },
+      meta: { row_count: rows.length, row_limit_applied: false },
+      ...(!bankAccount.ledgerAccountCode && {
+        suggestions: ["Banka hesabına muhasebe hesap kodu tanımlanmadığı için defter kayıtları karşılaştırılamadı."],
+      }),
+    };
+  }
+
+  /**
+   * Persist a match group and carry the amounts to the statement lines and
+   * invoices; reminders follow the new paid amounts
+   */
+  private async applyMatches(
+    tenantId: string,
+    bankAccountId: string,
+    planned: PlannedMatch[],
+    method: "auto" | "manual",
+    userId: string | null
+  ): Promise<string> {
+    const matchGroupId = randomUUID();
+    const lineIds = Array.from(new Set(planned.map((match) => match.statementLineId)));
+    const invoiceIds = Array.from(new Set(planned.flatMap((match) => (match.invoiceId ? [match.invoiceId] : []))));
+
+    await prisma.$transaction(async (tx) => {
+      const [lines, invoices] = await Promise.all([
+        tx.bankStatementLine.findMany({ where: { id: { in: lineIds }, tenantId } }),
+        tx.invoice.findMany({ where: { id: { in: invoiceIds }, tenantId } }),
+      ]);
+
+      await tx.bankReconciliationMatch.createMany({
+        data: planned.map((match) => ({
+          tenantId,
+          bankAccountId,
+          statementLineId: match.statementLineId,
+          invoiceId: match.invoiceId ?? null,
+          transactionId: match.transactionId ?? null,
+          matchGroupId,
+          amount: match.amount,
+          method,
+          confidence: match.confidence ?? null,
+          matchedByUserId: userId,
+        })),
+      });
+
+      for (const line of lines) {
+        const applied = planned.filter((m) => m.statementLineId === line.id).reduce((sum, m) => sum + m.amount, 0);
+        const matchedAmount = round2(Number(line.matchedAmount) + applied);
+        await tx.bankStatementLine.update({
+          where: { id: line.id },
+          data: { matchedAmount, status: lineStatus(Number(line.amount), matchedAmount) },
+        });
+      }
+
+      for (const invoice of invoices) {
+        const applied = planned.filter((m) => m.invoiceId === invoice.id);
+        const paidAmount = round2(Number(invoice.paidAmount) + applied.reduce((sum, m) => sum + m.amount, 0));
+        const lastPayment = lines
+          .filter((line) => applied.some((m) => m.statementLineId === line.id))
+          .reduce((latest, line) => (line.bookingDate > latest ? line.bookingDate : latest), new Date(0));
+        await tx.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            paidAmount,
+            ...(Number(invoice.totalAmount) - paidAmount <= AMOUNT_TOLERANCE && { paidAt: lastPayment }),
+          },
+        });
+      }
+    });
+
+    for (const invoiceId of invoiceIds) {
+      await paymentReminderService.syncInvoicePayment(tenantId, invoiceId);
+    }
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "BANK_RECONCILIATION_MATCHED",
+      resourceType: "ClientCompanyBankAccount",
+      resourceId: bankAccountId,
+      metadata: { matchGroupId, method, statementLineIds: lineIds, invoiceIds, matchCount: planned.length },
+    });
+
+    return matchGroupId;
+  }
+
+  private rankCandidates(
+    line: MatchableStatementLine,
+    invoices: MatchableInvoice[],
+    book: MatchableBookEntry[],
+    ibanTaxNumbers: Map<string, Set<string>>
+  ): MatchCandidate[] {
+    const known = ibanTaxNumbers.get(line.counterpartyIban ?? "") ?? new Set<string>();
+
+    const invoiceCandidates = invoices
+      .filter((invoice) => this.directionMatches(line, invoice))
+      .map((invoice) => ({
+        targetType: "invoice" as const,
+        targetId: invoice.id,
+        reference: invoice.externalId ?? invoice.id,
+        counterparty: invoice.counterpartyName,
+        date: invoice.issueDate,
+        openAmount: invoice.openAmount,
+        ...scoreInvoiceCandidate(line, invoice, known),
+      }));
+
+    const bookCandidates = book.map((entry) => ({
+      targetType: "transaction" as const,
+      targetId: entry.transactionId,
+      reference: entry.referenceNo ?? entry.transactionId,
+      counterparty: null,
+      date: entry.date,
+      openAmount: Math.abs(entry.amount),
+      ...scoreBookCandidate(line, entry),
+    }));
+
+    return [...invoiceCandidates, ...bookCandidates]
+      .filter((candidate) => candidate.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // Incoming money settles sales invoices, outgoing money purchase invoices
+  private directionMatches(line: MatchableStatementLine, invoice: MatchableInvoice): boolean {
+    return line.amount > 0 ? invoice.type === "SATIŞ" : invoice.type === "ALIŞ";
+  }
+
+  private toMatchable(line: any): MatchableStatementLine {
+    const amount = Number(line.amount);
+    return {
+      id: line.id,
+      bookingDate: line.bookingDate,
+      description: line.description,
+      amount,
+      remaining: round2(Math.abs(amount) - Number(line.matchedAmount)),
+      counterpartyName: line.counterpartyName,
+      counterpartyIban: line.counterpartyIban,
+      counterpartyTaxNumber: line.counterpartyTaxNumber,
+    };
+  }
+
+  private async getBankAccount(tenantId: string, bankAccountId: string) {
+    const bankAccount = await prisma.clientCompanyBankAccount.findFirst({
+      where: { id: bankAccountId, tenantId },
+    });
+
+    if (!bankAccount) {
+      throw new NotFoundError("Banka hesabı bulunamadı.");
+    }
+
+    return bankAccount;
+  }
+
+  private async loadOpenInvoices(tenantId: string, clientCompanyId: string, currency: string): Promise<MatchableInvoice[]> {
+    const invoices = await prisma.invoice.findMany({
+      where: { tenantId, clientCompanyId, currency, status: { in: OPEN_INVOICE_STATUSES }, paidAt: null },
+      orderBy: { issueDate: "asc" },
+    });
+
+    return invoices
+      .map((invoice) => ({
+        id: invoice.id,
+        externalId: invoice.externalId,
+        type: invoice.type,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        counterpartyName: invoice.counterpartyName,
+        counterpartyTaxNumber: invoice.counterpartyTaxNumber,
+        openAmount: round2(Number(invoice.totalAmount) - Number(invoice.paidAmount)),
+      }))
+      .filter((invoice) => invoice.openAmount > AMOUNT_TOLERANCE);
+  }
+
+  /**
+   * Ledger entries on the bank account (and its sub-accounts), one per
+   * transaction, debit positive
+   */
+  private async loadBookEntries(
+    tenantId: string,
+    bankAccount: { clientCompanyId: string; ledgerAccountCode: string | null },
+    asOf?: Date
+  ): Promise<MatchableBookEntry[]> {
+    if (!bankAccount.ledgerAccountCode) {
+      return [];
+    }
+
+    const code = bankAccount.ledgerAccountCode;
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: {
+        tenantId,
+        OR: [{ code }, { code: { startsWith: `${code}.` } }],
+        AND: [{ OR: [{ clientCompanyId: bankAccount.clientCompanyId }, { clientCompanyId: null }] }],
+      },
+      select: { id: true },
+    });
+    if (accounts.length === 0) {
+      return [];
+    }
+
+    const lines = await prisma.transactionLine.findMany({
+      where: {
+        tenantId,
+        ledgerAccountId: { in: accounts.map((account) => account.id) },
+        transaction: {
+          clientCompanyId: bankAccount.clientCompanyId,
+          ...(asOf && { date: { lte: asOf } }),
+        },
+      },
+      include: { transaction: { select: { id: true, date: true, referenceNo: true, description: true } } },
+    });
+
+    const byTransaction = new Map<string, MatchableBookEntry>();
+    for (const line of lines) {
+      const entry = byTransaction.get(line.transactionId) ?? {
+        transactionId: line.transactionId,
+        date: line.transaction.date,
+        referenceNo: line.transaction.referenceNo,
+        description: line.transaction.description,
+        amount: 0,
+      };
+      entry.amount = round2(entry.amount + Number(line.debitAmount) - Number(line.creditAmount));
+      byTransaction.set(line.transactionId, entry);
+    }
+
+    return Array.from(byTransaction.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  // Book entries that are neither an importer mirror of a statement line nor matched already
+  private async loadOpenBookEntries(
+    tenantId: string,
+    bankAccount: { id: string; clientCompanyId: string; ledgerAccountCode: string | null }
+  ): Promise<MatchableBookEntry[]> {
+    const [entries, mirrors, matched] = await Promise.all([
+      this.loadBookEntries(tenantId, bankAccount),
+      prisma.bankStatementLine.findMany({
+        where: { tenantId, bankAccountId: bankAccount.id, transactionId: { not: null } },
+        select: { transactionId: true },
+      }),
+      prisma.bankReconciliationMatch.findMany({
+        where: { tenantId, bankAccountId: bankAccount.id, transactionId: { not: null } },
+        select: { transactionId: true },
+      }),
+    ]);
+
+    const excluded = new Set([...mirrors, ...matched].map((row) => row.transactionId!));
+    return entries.filter((entry) => entry.amount !== 0 && !excluded.has(entry.transactionId));
+  }
+
+  // Counterparty IBANs seen on lines already matched to invoices, with the VKNs of those invoices
+  private async loadKnownIbanTaxNumbers(tenantId: string, bankAccountId: string): Promise<Map<string, Set<string>>> {
+    const matches = await prisma.bankReconciliationMatch.findMany({
+      where: {
+        tenantId,
+        bankAccountId,
+        invoiceId: { not: null },
+        statementLine: { counterpartyIban: { not: null } },
+      },
+      select: {
+        statementLine: { select: { counterpartyIban: true } },
+        invoice: { select: { counterpartyTaxNumber: true } },
+      },
+    });
+
+    const known = new Map<string, Set<string>>();
+    for (const match of matches) {
+      const iban = match.statementLine.counterpartyIban;
+      const taxNumber = match.invoice?.counterpartyTaxNumber;
+      if (iban && taxNumber) {
+        known.set(iban, (known.get(iban) ?? new Set()).add(taxNumber));
+      }
+    }
+    return known;
+  }
+
+  private mapLine(line: any): StatementLineView {
+    return {
+      id: line.id,
+      externalId: line.externalId,
+      bookingDate: line.bookingDate,
+      valueDate: line.valueDate ?? null,
+      description: line.description,
+      amount: Number(line.amount),
+      currency: line.currency,
+      balanceAfter: line.balanceAfter !== null ? Number(line.balanceAfter) : null,
+      counterpartyName: line.counterpartyName ?? null,
+      counterpartyIban: line.counterpartyIban ?? null,
+      counterpartyTaxNumber: line.counterpartyTaxNumber ?? null,
+      matchedAmount: Number(line.matchedAmount),
+      status: line.status as StatementLineStatus,
+      matches: (line.matches ?? []).map((match: any) => ({
+        id: match.id,
+        matchGroupId: match.matchGroupId,
+        invoiceId: match.invoiceId ?? null,
+        transactionId: match.transactionId ?? null,
+        amount: Number(match.amount),
+        method: match.method,
+        confidence: match.confidence !== null ? Number(match.confidence) : null,
+      })),
+    };
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService();
@@ -0,0 +1,380 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { auditService } from "./audit-service";
+import { parseBankStatementFile, type BankStatementFormat, type ParsedBankStatement } from "../integrations/statement-parsers";
+import { BankTransactionImporter } from "../integrations/importers/bank-transaction-importer";
+
+/**
+ * Ekstre dosyası aktarımı
+ *
+ * MT940, camt.053 and bank Excel exports are parsed into normalized bank
+ * transactions and booked through the same importer as the PSD2
+ * connectors, so statement lines land in bank reconciliation as well.
+ * Each statement is checked against its own opening and closing balance
+ * before anything is written, and a statement already imported for the
+ * account is skipped by its reference.
+ */
+
+const AMOUNT_TOLERANCE = 0.01;
+
+// EFT bank codes (IBAN digits 5-9)
+const TR_BANK_CODES: Record<string, string> = {
+  "00010": "Ziraat Bankası",
+  "00012": "Halkbank",
+  "00015": "VakıfBank",
+  "00032": "TEB",
+  "00046": "Akbank",
+  "00059": "Şekerbank",
+  "00062": "Garanti BBVA",
+  "00064": "İş Bankası",
+  "00067": "Yapı Kredi",
+  "00099": "ING",
+  "00111": "QNB",
+  "00123": "HSBC",
+  "00134": "DenizBank",
+  "00146": "Odeabank",
+  "00203": "Albaraka Türk",
+  "00205": "Kuveyt Türk",
+  "00206": "Türkiye Finans",
+  "00209": "Ziraat Katılım",
+  "00210": "Vakıf Katılım",
+};
+
+export interface BankStatementImportInput {
+  clientCompanyId: string;
+  bankAccountId?: string | null;
+  fileName: string;
+  buffer: Buffer;
+}
+
+export interface ImportedStatementSummary {
+  importId: string;
+  statementReference: string;
+  bankAccountId: string;
+  iban: string;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lineCount: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: Array<{ externalId: string; error: string }>;
+}
+
+export interface BankStatementImportResult {
+  format: BankStatementFormat;
+  statements: ImportedStatementSummary[];
+  duplicates: string[]; // statement references imported before
+  warnings: string[];
+}
+
+export interface BankStatementImportRecord {
+  id: string;
+  format: BankStatementFormat;
+  statementReference: string;
+  fileName: string;
+  currency: string;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lineCount: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  importedByUserId: string | null;
+  createdAt: Date;
+}
+
+type BankAccountRow = NonNullable<Awaited<ReturnType<typeof prisma.clientCompanyBankAccount.findFirst>>>;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export class BankStatementImportService {
+  private importer = new BankTransactionImporter();
+
+  /**
+   * Parse an uploaded statement file and import every statement in it
+   */
+  async importFile(
+    tenantId: string,
+    userId: string,
+    input: BankStatementImportInput
+  ): Promise<BankStatementImportResult> {
+    const clientCompany = await prisma.clientCompany.findFirst({
+      where: { id: input.clientCompanyId, tenantId },
+    });
+    if (!clientCompany) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const selectedAccount = input.bankAccountId
+      ? await prisma.clientCompanyBankAccount.findFirst({
+          where: { id: input.bankAccountId, tenantId, clientCompanyId: input.clientCompanyId },
+        })
+      : null;
+    if (input.bankAccountId && !selectedAccount) {
+      throw new NotFoundError("Banka hesabı bulunamadı.");
+    }
+
+    const { format, statements } = parseBankStatementFile(input.fileName, input.buffer);
+
+    // Nothing is written unless every statement in the file adds up
+    for (const statement of statements) {
+      this.verifyBalances(statement);
+    }
+
+    const warnings: string[] = [];
+    const duplicates: string[] = [];
+    const pending: Array<{ statement: ParsedBankStatement; bankAccount: BankAccountRow }> = [];
+
+    for (const statement of statements) {
+      const bankAccount = await this.resolveBankAccount(tenantId, input.clientCompanyId, statement, selectedAccount);
+
+      const existing = await prisma.bankStatementImport.findUnique({
+        where: {
+          bankAccountId_statementReference: {
+            bankAccountId: bankAccount.id,
+            statementReference: statement.statementReference,
+          },
+        },
+      });
+      if (existing) {
+        duplicates.push(statement.statementReference);
+        continue;
+      }
+
+      if (statement.openingBalance === null || statement.closingBalance === null) {
+        warnings.push(`${statement.statementReference}: ekstrede açılış/kapanış bakiyesi yok, bakiye doğrulanamadı.`);
+      }
+
+      const gap = await this.checkContinuity(tenantId, bankAccount.id, statement);
+      if (gap) {
+        warnings.push(gap);
+      }
+
+      pending.push({ statement, bankAccount });
+    }
+
+    if (pending.length === 0) {
+      throw new ValidationError(`Bu ekstre daha önce içe aktarılmış (${duplicates.join(", ")}).`);
+    }
+
+    const imported: ImportedStatementSummary[] = [];
+    for (const { statement, bankAccount } of pending) {
+      const summary = await this.importer.importTransactions(
+        tenantId,
+        statement.transactions.map((transaction) => ({ ...transaction, accountIdentifier: bankAccount.iban })),
+        null,
+        { statementFormat: format }
+      );
+
+      const record = await prisma.bankStatementImport.create({
+        data: {
+          tenantId,
+          clientCompanyId: bankAccount.clientCompanyId,
+          bankAccountId: bankAccount.id,
+          format,
+          statementReference: statement.statementReference,
+          fileName: input.fileName,
+          currency: statement.currency,
+          periodStart: statement.periodStart,
+          periodEnd: statement.periodEnd,
+          openingBalance: statement.openingBalance,
+          closingBalance: statement.closingBalance,
+          lineCount: statement.transactions.length,
+          createdCount: summary.created,
+          updatedCount: summary.updated,
+          skippedCount: summary.skipped,
+          importedByUserId: userId,
+        },
+      });
+
+      // The closing balance is the account balance FX revaluation works from
+      if (
+        statement.closingBalance !== null &&
+        statement.periodEnd &&
+        (!bankAccount.balanceDate || bankAccount.balanceDate <= statement.periodEnd)
+      ) {
+        await prisma.clientCompanyBankAccount.update({
+          where: { id: bankAccount.id },
+          data: { currencyBalance: statement.closingBalance, balanceDate: statement.periodEnd },
+        });
+      }
+
+      imported.push({
+        importId: record.id,
+        statementReference: statement.statementReference,
+        bankAccountId: bankAccount.id,
+        iban: bankAccount.iban,
+        periodStart: statement.periodStart,
+        periodEnd: statement.periodEnd,
+        openingBalance: statement.openingBalance,
+        closingBalance: statement.closingBalance,
+        lineCount: statement.transactions.length,
+        created: summary.created,
+        updated: summary.updated,
+        skipped: summary.skipped,
+        errors: summary.errors,
+      });
+    }
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "BANK_STATEMENT_IMPORTED",
+      resourceType: "ClientCompany",
+      resourceId: input.clientCompanyId,
+      metadata: {
+        format,
+        fileName: input.fileName,
+        statements: imported.map((statement) => statement.statementReference),
+        duplicates,
+        lineCount: imported.reduce((sum, statement) => sum + statement.lineCount, 0),
+      },
+    });
+
+    logger.info("Bank statement file imported", undefined, {
+      tenantId,
+      clientCompanyId: input.clientCompanyId,
+      format,
+      statements: imported.length,
+      duplicates: duplicates.length,
+    });
+
+    return { format, statements: imported, duplicates, warnings };
+  }
+
+  /**
+   * Statement files imported for a bank account, newest period first
+   */
+  async listImports(tenantId: string, bankAccountId: string): Promise<BankStatementImportRecord[]> {
+    const imports = await prisma.bankStatementImport.findMany({
+      where: { tenantId, bankAccountId },
+      orderBy: [{ periodEnd: "desc" }, { createdAt: "desc" }],
+    });
+
+    return imports.map((record) => ({
+      id: record.id,
+      format: record.format as BankStatementFormat,
+      statementReference: record.statementReference,
+      fileName: record.fileName,
+      currency: record.currency,
+      periodStart: record.periodStart,
+      periodEnd: record.periodEnd,
+      openingBalance: record.openingBalance !== null ? Number(record.openingBalance) : null,
+      closingBalance: record.closingBalance !== null ? Number(record.closingBalance) : null,
+      lineCount: record.lineCount,
+      createdCount: record.createdCount,
+      updatedCount: record.updatedCount,
+      skippedCount: record.skippedCount,
+      importedByUserId: record.importedByUserId,
+      createdAt: record.createdAt,
+    }));
+  }
+
+  // Açılış bakiyesi + hareketler = kapanış bakiyesi
+  private verifyBalances(statement: ParsedBankStatement): void {
+    const currencies = new Set(statement.transactions.map((transaction) => transaction.currency));
+    if (currencies.size > 1 || (currencies.size === 1 && !currencies.has(statement.currency))) {
+      throw new ValidationError(`${statement.statementReference}: ekstrede farklı para birimlerinde hareketler var.`);
+    }
+
+    if (statement.openingBalance === null || statement.closingBalance === null) {
+      return;
+    }
+
+    const movements = round2(statement.transactions.reduce((sum, transaction) => sum + transaction.amount, 0));
+    const expected = round2(statement.openingBalance + movements);
+    if (Math.abs(expected - statement.closingBalance) > AMOUNT_TOLERANCE) {
+      throw new ValidationError(
+        `${statement.statementReference}: bakiye tutmuyor. Açılış ${formatAmount(statement.openingBalance)} + ` +
+          `hareketler ${formatAmount(movements)} = ${formatAmount(expected)}, ekstre kapanışı ${formatAmount(statement.closingBalance)}.`
+      );
+    }
+  }
+
+  // The opening balance should carry on from the closing balance of the previous statement
+  private async checkContinuity(
+    tenantId: string,
+    bankAccountId: string,
+    statement: ParsedBankStatement
+  ): Promise<string | null> {
+    if (statement.openingBalance === null || !statement.periodStart) {
+      return null;
+    }
+
+    const previous = await prisma.bankStatementImport.findFirst({
+      where: { tenantId, bankAccountId, periodEnd: { lte: statement.periodStart }, closingBalance: { not: null } },
+      orderBy: { periodEnd: "desc" },
+    });
+    if (!previous || Math.abs(Number(previous.closingBalance) - statement.openingBalance) <= AMOUNT_TOLERANCE) {
+      return null;
+    }
+
+    return (
+      `${statement.statementReference}: açılış bakiyesi ${formatAmount(statement.openingBalance)}, ` +
+      `önceki ekstrenin (${previous.statementReference}) kapanışı ${formatAmount(Number(previous.closingBalance))}. ` +
+      "Aradaki ekstre eksik olabilir."
+    );
+  }
+
+  private async resolveBankAccount(
+    tenantId: string,
+    clientCompanyId: string,
+    statement: ParsedBankStatement,
+    selectedAccount: BankAccountRow | null
+  ): Promise<BankAccountRow> {
+    const iban = statement.accountIdentifier;
+
+    if (selectedAccount) {
+      if (iban && iban !== selectedAccount.iban.replace(/\s+/g, "")) {
+        throw new ValidationError(
+          `Ekstredeki IBAN (${iban}) seçilen banka hesabıyla (${selectedAccount.iban}) eşleşmiyor.`
+        );
+      }
+      if (selectedAccount.currency !== statement.currency) {
+        throw new ValidationError(
+          `Ekstre para birimi (${statement.currency}) banka hesabının para birimiyle (${selectedAccount.currency}) eşleşmiyor.`
+        );
+      }
+      return selectedAccount;
+    }
+
+    if (!iban) {
+      throw new ValidationError("Ekstrede IBAN bulunamadı. Lütfen banka hesabını seçin.");
+    }
+
+    const existing = await prisma.clientCompanyBankAccount.findFirst({
+      where: { tenantId, iban },
+    });
+    if (existing) {
+      if (existing.clientCompanyId !== clientCompanyId) {
+        throw new ValidationError(`${iban} IBAN'lı hesap başka bir müşteri şirketine kayıtlı.`);
+      }
+      return existing;
+    }
+
+    // Onboarding: the account is created from the statement
+    return prisma.clientCompanyBankAccount.create({
+      data: {
+        tenantId,
+        clientCompanyId,
+        bankName: TR_BANK_CODES[iban.slice(4, 9)] ?? "Banka",
+        iban,
+        currency: statement.currency,
+        isPrimary: false,
+      },
+    });
+  }
+}
+
+export const bankStatementImportService = new BankStatementImportService();
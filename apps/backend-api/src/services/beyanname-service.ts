@@ -1,6 +1,8 @@
 import { prisma } from "../lib/prisma";
 import { logger } from "@repo/shared-utils";
 import { Decimal } from "@prisma/client/runtime/library";
+import { kdvCalculationService } from "./kdv-calculation-service";
+import { payrollService } from "./payroll-service";
 
 interface CreateBeyannameInput {
   clientCompanyId: string;
@@ -161,35 +163,34 @@ class BeyannameService {
 
     switch (beyanname.type) {
       case "KDV": {
-        // KDV beyannamesi - VAT declaration
-        const salesVat = invoices
-          .filter((i) => i.type === "SATIŞ")
-          .reduce((sum, i) => sum.add(i.taxAmount || 0), new Decimal(0));
-
-        const purchaseVat = invoices
-          .filter((i) => i.type === "ALIŞ")
-          .reduce((sum, i) => sum.add(i.taxAmount || 0), new Decimal(0));
-
-        // Get previous month's carry forward
-        const prevBeyanname = await this.getPreviousPeriodBeyanname(
-          tenantId, beyanname.clientCompanyId, "KDV", beyanname.period
-        );
-        const prevCarryForward = prevBeyanname?.carryForward || new Decimal(0);
+        // KDV-1: sections built line by line from rates, tevkifat and istisna codes
+        const [prevKdv1, prevKdv2] = await Promise.all([
+          this.getPreviousPeriodBeyanname(tenantId, beyanname.clientCompanyId, "KDV", beyanname.period),
+          this.getPreviousPeriodBeyanname(tenantId, beyanname.clientCompanyId, "KDV2", beyanname.period),
+        ]);
+        const prevRefundClaim = Number((prevKdv1?.calculationData as any)?.result?.refundClaim ?? 0);
+
+        const kdv1 = await kdvCalculationService.calculateKdv1(tenantId, beyanname.clientCompanyId, startDate, endDate, {
+          previousCarryForward: Number(prevKdv1?.carryForward ?? 0),
+          previousRefundClaim: prevRefundClaim,
+          responsibleVatPaid: Number(prevKdv2?.netPayable ?? 0),
+        });
 
-        calculatedAmount = salesVat;
-        deductibleAmount = purchaseVat.add(prevCarryForward);
-        netPayable = calculatedAmount.sub(deductibleAmount);
+        calculatedAmount = new Decimal(kdv1.sales.calculatedVat);
+        deductibleAmount = new Decimal(kdv1.deductions.totalDeductions);
+        netPayable = new Decimal(kdv1.result.payable);
+        carryForward = new Decimal(kdv1.result.carryForward);
+        Object.assign(calculationData, kdv1);
+        break;
+      }
 
-        if (netPayable.lessThan(0)) {
-          carryForward = netPayable.abs();
-          netPayable = new Decimal(0);
-        }
+      case "KDV2": {
+        // KDV-2: KDV withheld on purchases, declared sorumlu sıfatıyla
+        const kdv2 = await kdvCalculationService.calculateKdv2(tenantId, beyanname.clientCompanyId, startDate, endDate);
 
-        calculationData.salesVat = salesVat.toString();
-        calculationData.purchaseVat = purchaseVat.toString();
-        calculationData.previousCarryForward = prevCarryForward.toString();
-        calculationData.salesInvoiceCount = invoices.filter((i) => i.type === "SATIŞ").length;
-        calculationData.purchaseInvoiceCount = invoices.filter((i) => i.type === "ALIŞ").length;
+        calculatedAmount = new Decimal(kdv2.totalWithheldVat);
+        netPayable = calculatedAmount;
+        Object.assign(calculationData, kdv2);
         break;
       }
 
@@ -200,9 +201,18 @@ class BeyannameService {
           .reduce((sum, i) => sum.add(i.totalAmount), new Decimal(0));
 
         calculatedAmount = totalPayments.mul(WITHHOLDING_RATE);
-        netPayable = calculatedAmount;
         calculationData.totalPayments = totalPayments.toString();
         calculationData.withholdingRate = WITHHOLDING_RATE;
+
+        // Ücret stopajı, damga vergisi and the çalışan bilgileri from the posted bordro
+        const payroll = await payrollService.getMuhsgkDetail(tenantId, beyanname.clientCompanyId, beyanname.period, {
+          postedOnly: true,
+        });
+        if (payroll) {
+          calculatedAmount = calculatedAmount.add(payroll.totals.incomeTax).add(payroll.totals.stampTax);
+          calculationData.payroll = payroll;
+        }
+        netPayable = calculatedAmount;
         break;
       }
 
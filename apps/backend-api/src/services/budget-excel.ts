@@ -0,0 +1,217 @@
+import * as XLSX from "xlsx";
+import ExcelJS from "exceljs";
+import { ValidationError } from "@repo/shared-utils";
+
+/**
+ * Bütçe Excel şablonu
+ *
+ * One row per ledger account (and optional dimension value) with a column
+ * per month. The header row is located by its titles, so users may add a
+ * title block or a Toplam column; month columns are recognised by their
+ * Turkish name ("Ocak", "Şub") or number (1-12).
+ */
+
+export interface BudgetSheetRow {
+  row: number; // 1-based row number in the sheet, for error messages
+  accountCode: string;
+  dimensionCode: string | null;
+  valueCode: string | null;
+  amounts: number[]; // 12 months
+}
+
+export interface BudgetSheet {
+  rows: BudgetSheetRow[];
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface BudgetWorkbookLine {
+  accountCode: string;
+  accountName: string;
+  dimensionCode: string | null;
+  valueCode: string | null;
+  amounts: number[];
+}
+
+export const MONTH_NAMES = [
+  "Ocak",
+  "Şubat",
+  "Mart",
+  "Nisan",
+  "Mayıs",
+  "Haziran",
+  "Temmuz",
+  "Ağustos",
+  "Eylül",
+  "Ekim",
+  "Kasım",
+  "Aralık",
+];
+
+const ACCOUNT_HEADERS = ["HESAPKODU", "HESAP", "HESAPNO", "KOD"];
+const DIMENSION_HEADERS = ["BOYUT", "BOYUTKODU"];
+const VALUE_HEADERS = ["DEGER", "DEGERKODU", "BOYUTDEGERI"];
+const HEADER_SEARCH_ROWS = 20;
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? "")
+    .toLocaleUpperCase("tr-TR")
+    .replace(/Ç/g, "C")
+    .replace(/Ğ/g, "G")
+    .replace(/[İI]/g, "I")
+    .replace(/Ö/g, "O")
+    .replace(/Ş/g, "S")
+    .replace(/Ü/g, "U")
+    .replace(/[^A-Z0-9]/g, "");
+}
+
+const MONTH_HEADERS = MONTH_NAMES.map((name) => normalizeHeader(name));
+
+function monthOfHeader(header: string): number | null {
+  if (/^\d{1,2}$/.test(header)) {
+    const month = Number(header);
+    return month >= 1 && month <= 12 ? month : null;
+  }
+  const index = MONTH_HEADERS.findIndex((name) => header === name || (header.length >= 3 && name.startsWith(header)));
+  return index === -1 ? null : index + 1;
+}
+
+// Numbers arrive as cell values or as Turkish formatted text ("1.234,56")
+function parseCellNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  let text = value.replace(/[^\d,.-]/g, "");
+  if (text.includes(",")) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  }
+  if (text === "" || text === "-") {
+    return null;
+  }
+  const number = Number(text);
+  return isNaN(number) ? null : number;
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+interface HeaderColumns {
+  account: number;
+  dimension?: number;
+  value?: number;
+  months: Map<number, number>; // month -> column
+}
+
+function findHeader(rows: unknown[][]): { index: number; columns: HeaderColumns } | null {
+  for (let index = 0; index < Math.min(rows.length, HEADER_SEARCH_ROWS); index++) {
+    let account: number | undefined;
+    let dimension: number | undefined;
+    let value: number | undefined;
+    const months = new Map<number, number>();
+
+    rows[index].forEach((cell, column) => {
+      const header = normalizeHeader(cell);
+      if (account === undefined && ACCOUNT_HEADERS.includes(header)) account = column;
+      else if (dimension === undefined && DIMENSION_HEADERS.includes(header)) dimension = column;
+      else if (value === undefined && VALUE_HEADERS.includes(header)) value = column;
+      else {
+        const month = monthOfHeader(header);
+        if (month !== null && !months.has(month)) months.set(month, column);
+      }
+    });
+
+    if (account !== undefined && months.size === 12) {
+      return { index, columns: { account, dimension, value, months } };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the first sheet of a budget workbook; rows without an account code
+ * (blank lines, Toplam rows) are skipped
+ */
+export function parseBudgetWorkbook(buffer: Buffer): BudgetSheet {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: "buffer" });
+  } catch {
+    throw new ValidationError("Excel dosyası okunamadı.");
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheet ? (XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: null }) as unknown[][]) : [];
+  const header = findHeader(rows);
+  if (!header) {
+    throw new ValidationError("Başlık satırı bulunamadı. Hesap Kodu ve Ocak-Aralık sütunları gerekli.");
+  }
+
+  const { columns } = header;
+  const result: BudgetSheet = { rows: [], errors: [] };
+
+  for (let index = header.index + 1; index < rows.length; index++) {
+    const row = rows[index];
+    const accountCode = cellText(row[columns.account]);
+    if (!accountCode || /^(TOPLAM|GENEL TOPLAM)$/i.test(accountCode)) continue;
+
+    const dimensionCode = columns.dimension !== undefined ? cellText(row[columns.dimension]).toUpperCase() || null : null;
+    const valueCode = columns.value !== undefined ? cellText(row[columns.value]).toUpperCase() || null : null;
+    if ((dimensionCode === null) !== (valueCode === null)) {
+      result.errors.push({ row: index + 1, message: "Boyut ve değer kodu birlikte girilmeli." });
+      continue;
+    }
+
+    const amounts: number[] = [];
+    let invalid = false;
+    for (let month = 1; month <= 12; month++) {
+      const cell = row[columns.months.get(month)!];
+      const amount = cell === null || cellText(cell) === "" ? 0 : parseCellNumber(cell);
+      if (amount === null || amount < 0) {
+        result.errors.push({ row: index + 1, message: `${MONTH_NAMES[month - 1]} tutarı geçersiz.` });
+        invalid = true;
+        break;
+      }
+      amounts.push(Math.round(amount * 100) / 100);
+    }
+    if (invalid) continue;
+
+    result.rows.push({ row: index + 1, accountCode, dimensionCode, valueCode, amounts });
+  }
+
+  return result;
+}
+
+/**
+ * The budget as a workbook in the import layout, so it can be edited and
+ * imported back (or downloaded empty as a template)
+ */
+export async function buildBudgetWorkbook(title: string, lines: BudgetWorkbookLine[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Bütçe");
+
+  sheet.addRow([title]).font = { bold: true, size: 14 };
+  sheet.addRow([]);
+  const headerRow = sheet.addRow(["Hesap Kodu", "Hesap Adı", "Boyut", "Değer", ...MONTH_NAMES, "Toplam"]);
+  headerRow.font = { bold: true };
+  headerRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } };
+
+  for (const line of lines) {
+    const total = Math.round(line.amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100;
+    sheet.addRow([line.accountCode, line.accountName, line.dimensionCode ?? "", line.valueCode ?? "", ...line.amounts, total]);
+  }
+
+  sheet.getColumn(1).width = 16;
+  sheet.getColumn(2).width = 36;
+  sheet.getColumn(3).width = 12;
+  sheet.getColumn(4).width = 12;
+  for (let column = 5; column <= 17; column++) {
+    sheet.getColumn(column).width = 14;
+    sheet.getColumn(column).numFmt = "#,##0.00";
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
@@ -0,0 +1,732 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import { getPeriodBounds } from "./accounting-period-service";
+import { accountCoveredBy } from "./dimension-service";
+import { auditService } from "./audit-service";
+import { riskAlertService } from "./risk-alert-service";
+import { parseBudgetWorkbook, buildBudgetWorkbook, type BudgetWorkbookLine } from "./budget-excel";
+
+/**
+ * Bütçe ve bütçe-fiili karşılaştırması
+ *
+ * A budget plans monthly amounts per ledger account, optionally split by a
+ * dimension value, for one client company and fiscal year. Only a draft can
+ * be edited; approving it makes it the budget the variance reports and
+ * alerts use. A revision copies the approved version into a new draft
+ * (version 2, 3, ...) and supersedes it once approved, so the original
+ * budget stays available for comparison.
+ *
+ * Actuals are the postings of the budgeted account and its sub-accounts
+ * (gider: borç - alacak, gelir: alacak - borç). A posting counts towards
+ * the most specific budget line that covers it: the longest account code,
+ * and within that account the line of a dimension value the posting is
+ * tagged with before the line without a dimension.
+ */
+
+export type BudgetStatus = "draft" | "approved" | "superseded";
+
+export interface BudgetInput {
+  clientCompanyId: string;
+  fiscalYear: number;
+  name: string;
+  alertThresholdPercent?: number;
+  notes?: string | null;
+}
+
+export type UpdateBudgetInput = Partial<Pick<BudgetInput, "name" | "alertThresholdPercent" | "notes">>;
+
+export interface BudgetLineInput {
+  ledgerAccountId: string;
+  dimensionValueId?: string | null;
+  amounts: number[]; // 12 months, Ocak first
+}
+
+export interface BudgetImportResult {
+  lines: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface BudgetVarianceRow {
+  ledgerAccountId: string;
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  dimensionValueId: string | null;
+  dimensionValueName: string | null;
+  budget: number;
+  actual: number;
+  variance: number; // actual - budget
+  variancePercent: number | null;
+  ytdBudget: number;
+  ytdActual: number;
+  ytdVariance: number;
+  ytdVariancePercent: number | null;
+  favorable: boolean; // gider under plan or gelir over plan
+  overThreshold: boolean; // gider over plan by more than the budget's tolerance
+}
+
+export interface BudgetVariance {
+  budgetId: string;
+  fiscalYear: number;
+  version: number;
+  month: number;
+  alertThresholdPercent: number;
+  rows: BudgetVarianceRow[];
+  totals: {
+    incomeBudget: number;
+    incomeActual: number;
+    expenseBudget: number;
+    expenseActual: number;
+    ytdIncomeBudget: number;
+    ytdIncomeActual: number;
+    ytdExpenseBudget: number;
+    ytdExpenseActual: number;
+  };
+}
+
+export interface BudgetKey {
+  key: string;
+  accountCode: string;
+  dimensionValueId: string | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentOf(variance: number, budget: number): number | null {
+  return budget === 0 ? null : round2((variance / budget) * 100);
+}
+
+function lineKey(ledgerAccountId: string, dimensionValueId: string | null): string {
+  return `${ledgerAccountId}:${dimensionValueId ?? ""}`;
+}
+
+/**
+ * The budget line a posting counts towards, or null when no line covers
+ * it; `keys` must be sorted by account code length, longest first
+ */
+export function matchBudgetKey(keys: BudgetKey[], accountCode: string, dimensionValueIds: string[]): string | null {
+  for (const candidate of keys) {
+    if (!accountCoveredBy(accountCode, candidate.accountCode)) continue;
+    if (candidate.dimensionValueId === null || dimensionValueIds.includes(candidate.dimensionValueId)) {
+      return candidate.key;
+    }
+  }
+  return null;
+}
+
+/** Gider over plan by more than the tolerance; spending on a zero budget always counts */
+export function exceedsThreshold(budget: number, actual: number, thresholdPercent: number): boolean {
+  if (actual <= 0) return false;
+  return actual > round2(budget * (1 + thresholdPercent / 100));
+}
+
+function toBudgetResponse(budget: any) {
+  return {
+    id: budget.id,
+    clientCompanyId: budget.clientCompanyId,
+    fiscalYear: budget.fiscalYear,
+    version: budget.version,
+    name: budget.name,
+    status: budget.status as BudgetStatus,
+    revisedFromId: budget.revisedFromId,
+    alertThresholdPercent: Number(budget.alertThresholdPercent),
+    notes: budget.notes,
+    approvedAt: budget.approvedAt,
+    total: budget.lines
+      ? round2(budget.lines.reduce((sum: number, line: any) => sum + Number(line.amount), 0))
+      : undefined,
+    createdAt: budget.createdAt,
+    updatedAt: budget.updatedAt,
+  };
+}
+
+const LINE_INCLUDE = {
+  ledgerAccount: { select: { id: true, code: true, name: true, type: true } },
+  dimensionValue: { select: { id: true, code: true, name: true, dimension: { select: { id: true, code: true, name: true } } } },
+};
+
+/** Budget lines are stored per month; group them back into one row with 12 amounts */
+function groupLines(lines: any[]) {
+  const groups = new Map<string, any>();
+  for (const line of lines) {
+    const key = lineKey(line.ledgerAccountId, line.dimensionValueId);
+    const group = groups.get(key) ?? {
+      ledgerAccountId: line.ledgerAccountId,
+      ledgerAccount: line.ledgerAccount,
+      dimensionValueId: line.dimensionValueId,
+      dimensionValue: line.dimensionValue ?? null,
+      amounts: new Array(12).fill(0),
+    };
+    group.amounts[line.month - 1] = round2(group.amounts[line.month - 1] + Number(line.amount));
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) =>
+      a.ledgerAccount.code.localeCompare(b.ledgerAccount.code) ||
+      (a.dimensionValue?.code ?? "").localeCompare(b.dimensionValue?.code ?? "")
+  );
+}
+
+export class BudgetService {
+  async listBudgets(tenantId: string, clientCompanyId: string, fiscalYear?: number) {
+    const budgets = await prisma.budget.findMany({
+      where: { tenantId, clientCompanyId, fiscalYear },
+      orderBy: [{ fiscalYear: "desc" }, { version: "desc" }],
+      include: { lines: { select: { amount: true } } },
+    });
+    return budgets.map(toBudgetResponse);
+  }
+
+  async getBudget(tenantId: string, id: string) {
+    const budget = await prisma.budget.findFirst({
+      where: { id, tenantId },
+      include: { lines: { include: LINE_INCLUDE } },
+    });
+    if (!budget) throw new NotFoundError("Bütçe bulunamadı.");
+
+    return {
+      ...toBudgetResponse(budget),
+      lines: groupLines(budget.lines).map((group) => ({
+        ledgerAccountId: group.ledgerAccountId,
+        accountCode: group.ledgerAccount.code,
+        accountName: group.ledgerAccount.name,
+        accountType: group.ledgerAccount.type,
+        dimensionValueId: group.dimensionValueId,
+        dimensionValue: group.dimensionValue,
+        amounts: group.amounts,
+        total: round2(group.amounts.reduce((sum: number, amount: number) => sum + amount, 0)),
+      })),
+    };
+  }
+
+  /**
+   * Start the original budget of a fiscal year; later changes go through
+   * revisions
+   */
+  async createBudget(tenantId: string, userId: string, input: BudgetInput) {
+    const client = await prisma.clientCompany.findFirst({ where: { id: input.clientCompanyId, tenantId } });
+    if (!client) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const existing = await prisma.budget.findFirst({
+      where: { tenantId, clientCompanyId: input.clientCompanyId, fiscalYear: input.fiscalYear },
+    });
+    if (existing) {
+      throw new ValidationError(`${input.fiscalYear} yılı için bütçe zaten var; değişiklikler için revize edin.`);
+    }
+
+    const budget = await prisma.budget.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        fiscalYear: input.fiscalYear,
+        version: 1,
+        name: sanitizeString(input.name),
+        alertThresholdPercent: input.alertThresholdPercent ?? 10,
+        notes: input.notes ?? null,
+        createdByUserId: userId,
+      },
+    });
+    return toBudgetResponse(budget);
+  }
+
+  async updateBudget(tenantId: string, id: string, input: UpdateBudgetInput) {
+    await this.getEditable(tenantId, id, { allowApproved: true });
+
+    const budget = await prisma.budget.update({
+      where: { id },
+      data: {
+        name: input.name !== undefined ? sanitizeString(input.name) : undefined,
+        alertThresholdPercent: input.alertThresholdPercent,
+        notes: input.notes,
+      },
+    });
+    return toBudgetResponse(budget);
+  }
+
+  /**
+   * Only drafts can be deleted; approved versions are the plan of record
+   */
+  async deleteBudget(tenantId: string, id: string): Promise<void> {
+    await this.getEditable(tenantId, id);
+    await prisma.budget.delete({ where: { id } });
+  }
+
+  /**
+   * Replace the lines of a draft budget
+   */
+  async setLines(tenantId: string, id: string, lines: BudgetLineInput[]) {
+    const budget = await this.getEditable(tenantId, id);
+
+    const accountIds = [...new Set(lines.map((line) => line.ledgerAccountId))];
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: {
+        id: { in: accountIds },
+        tenantId,
+        OR: [{ clientCompanyId: budget.clientCompanyId }, { clientCompanyId: null }],
+      },
+      select: { id: true },
+    });
+    if (accounts.length !== accountIds.length) {
+      throw new ValidationError("Bazı hesaplar bu müşterinin hesap planında bulunamadı.");
+    }
+
+    const valueIds = [...new Set(lines.map((line) => line.dimensionValueId).filter((value): value is string => !!value))];
+    if (valueIds.length > 0) {
+      const values = await prisma.dimensionValue.count({ where: { id: { in: valueIds }, tenantId } });
+      if (values !== valueIds.length) {
+        throw new ValidationError("Bazı boyut değerleri geçersiz.");
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const line of lines) {
+      const key = lineKey(line.ledgerAccountId, line.dimensionValueId ?? null);
+      if (seen.has(key)) {
+        throw new ValidationError("Aynı hesap ve boyut değeri bütçede birden fazla satırda.");
+      }
+      seen.add(key);
+      if (line.amounts.length !== 12 || line.amounts.some((amount) => !Number.isFinite(amount) || amount < 0)) {
+        throw new ValidationError("Her satırda 12 ay için sıfır veya pozitif tutar girilmeli.");
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.budgetLine.deleteMany({ where: { budgetId: id } });
+      await tx.budgetLine.createMany({
+        data: lines.flatMap((line) =>
+          line.amounts
+            .map((amount, index) => ({
+              tenantId,
+              budgetId: id,
+              ledgerAccountId: line.ledgerAccountId,
+              dimensionValueId: line.dimensionValueId ?? null,
+              month: index + 1,
+              amount: round2(amount),
+            }))
+            .filter((row) => row.amount !== 0)
+        ),
+      });
+    });
+
+    return this.getBudget(tenantId, id);
+  }
+
+  /**
+   * Replace the lines of a draft budget from an Excel file. Rows that do
+   * not resolve to an account or dimension value are reported back and
+   * nothing is imported.
+   */
+  async importLines(tenantId: string, userId: string, id: string, buffer: Buffer): Promise<BudgetImportResult> {
+    const budget = await this.getEditable(tenantId, id);
+    const sheet = parseBudgetWorkbook(buffer);
+    const errors = [...sheet.errors];
+
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: {
+        tenantId,
+        code: { in: [...new Set(sheet.rows.map((row) => row.accountCode))] },
+        OR: [{ clientCompanyId: budget.clientCompanyId }, { clientCompanyId: null }],
+      },
+      select: { id: true, code: true, clientCompanyId: true },
+    });
+    // A client-specific account wins over a tenant-wide one with the same code
+    const accountByCode = new Map<string, string>();
+    for (const account of [...accounts].sort((a, b) => (a.clientCompanyId ? 1 : 0) - (b.clientCompanyId ? 1 : 0))) {
+      accountByCode.set(account.code, account.id);
+    }
+
+    const values = await prisma.dimensionValue.findMany({
+      where: {
+        tenantId,
+        code: { in: [...new Set(sheet.rows.map((row) => row.valueCode).filter((code): code is string => !!code))] },
+      },
+      select: { id: true, code: true, dimension: { select: { code: true } } },
+    });
+    const valueByCode = new Map(values.map((value) => [`${value.dimension.code}/${value.code}`, value.id]));
+
+    const lines = new Map<string, BudgetLineInput>();
+    for (const row of sheet.rows) {
+      const ledgerAccountId = accountByCode.get(row.accountCode);
+      if (!ledgerAccountId) {
+        errors.push({ row: row.row, message: `${row.accountCode} hesabı hesap planında yok.` });
+        continue;
+      }
+      let dimensionValueId: string | null = null;
+      if (row.dimensionCode && row.valueCode) {
+        dimensionValueId = valueByCode.get(`${row.dimensionCode}/${row.valueCode}`) ?? null;
+        if (!dimensionValueId) {
+          errors.push({ row: row.row, message: `${row.dimensionCode}/${row.valueCode} boyut değeri bulunamadı.` });
+          continue;
+        }
+      }
+      // Repeated rows for the same account and value are added up
+      const key = lineKey(ledgerAccountId, dimensionValueId);
+      const existing = lines.get(key);
+      lines.set(key, {
+        ledgerAccountId,
+        dimensionValueId,
+        amounts: existing ? existing.amounts.map((amount, index) => round2(amount + row.amounts[index])) : row.amounts,
+      });
+    }
+
+    if (errors.length > 0) {
+      return { lines: 0, errors: errors.sort((a, b) => a.row - b.row) };
+    }
+
+    await this.setLines(tenantId, id, [...lines.values()]);
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "BUDGET_IMPORTED",
+      resourceType: "Budget",
+      resourceId: id,
+      metadata: { lines: lines.size },
+    });
+
+    return { lines: lines.size, errors: [] };
+  }
+
+  /**
+   * The budget in the import layout; an empty budget gives the template
+   */
+  async exportWorkbook(tenantId: string, id: string): Promise<{ fileName: string; buffer: Buffer }> {
+    const budget = await prisma.budget.findFirst({
+      where: { id, tenantId },
+      include: { clientCompany: { select: { name: true } }, lines: { include: LINE_INCLUDE } },
+    });
+    if (!budget) throw new NotFoundError("Bütçe bulunamadı.");
+
+    const lines: BudgetWorkbookLine[] = groupLines(budget.lines).map((group) => ({
+      accountCode: group.ledgerAccount.code,
+      accountName: group.ledgerAccount.name,
+      dimensionCode: group.dimensionValue?.dimension.code ?? null,
+      valueCode: group.dimensionValue?.code ?? null,
+      amounts: group.amounts,
+    }));
+
+    const buffer = await buildBudgetWorkbook(
+      `${budget.clientCompany.name} - ${budget.fiscalYear} ${budget.name} (v${budget.version})`,
+      lines
+    );
+    return { fileName: `butce_${budget.fiscalYear}_v${budget.version}.xlsx`, buffer };
+  }
+
+  /**
+   * Make a draft the budget of record; the previously approved version of
+   * the year is superseded
+   */
+  async approve(tenantId: string, userId: string, id: string) {
+    const budget = await this.getEditable(tenantId, id);
+
+    const lineCount = await prisma.budgetLine.count({ where: { budgetId: id } });
+    if (lineCount === 0) {
+      throw new ValidationError("Satırı olmayan bir bütçe onaylanamaz.");
+    }
+
+    const approved = await prisma.$transaction(async (tx) => {
+      await tx.budget.updateMany({
+        where: {
+          tenantId,
+          clientCompanyId: budget.clientCompanyId,
+          fiscalYear: budget.fiscalYear,
+          status: "approved",
+        },
+        data: { status: "superseded" },
+      });
+      return tx.budget.update({
+        where: { id },
+        data: { status: "approved", approvedAt: new Date(), approvedByUserId: userId },
+      });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "BUDGET_APPROVED",
+      resourceType: "Budget",
+      resourceId: id,
+      metadata: { clientCompanyId: budget.clientCompanyId, fiscalYear: budget.fiscalYear, version: budget.version },
+    });
+
+    logger.info("Budget approved", undefined, { tenantId, budgetId: id, version: budget.version });
+    return toBudgetResponse(approved);
+  }
+
+  /**
+   * Copy the approved budget into a new draft version
+   */
+  async revise(tenantId: string, userId: string, id: string, input: { name?: string } = {}) {
+    const source = await prisma.budget.findFirst({ where: { id, tenantId }, include: { lines: true } });
+    if (!source) throw new NotFoundError("Bütçe bulunamadı.");
+    if (source.status !== "approved") {
+      throw new ValidationError("Yalnızca onaylı bütçe revize edilebilir.");
+    }
+
+    const draft = await prisma.budget.findFirst({
+      where: { tenantId, clientCompanyId: source.clientCompanyId, fiscalYear: source.fiscalYear, status: "draft" },
+    });
+    if (draft) {
+      throw new ValidationError(`${source.fiscalYear} yılı için onay bekleyen bir revizyon zaten var.`);
+    }
+
+    const latest = await prisma.budget.findFirst({
+      where: { tenantId, clientCompanyId: source.clientCompanyId, fiscalYear: source.fiscalYear },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+    const version = (latest?.version ?? source.version) + 1;
+
+    const revision = await prisma.budget.create({
+      data: {
+        tenantId,
+        clientCompanyId: source.clientCompanyId,
+        fiscalYear: source.fiscalYear,
+        version,
+        name: input.name ? sanitizeString(input.name) : `${source.name} - Revize ${version - 1}`,
+        revisedFromId: source.id,
+        alertThresholdPercent: source.alertThresholdPercent,
+        notes: source.notes,
+        createdByUserId: userId,
+        lines: {
+          create: source.lines.map((line) => ({
+            tenantId,
+            ledgerAccountId: line.ledgerAccountId,
+            dimensionValueId: line.dimensionValueId,
+            month: line.month,
+            amount: line.amount,
+          })),
+        },
+      },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "BUDGET_REVISED",
+      resourceType: "Budget",
+      resourceId: revision.id,
+      metadata: { revisedFromId: source.id, version },
+    });
+
+    return toBudgetResponse(revision);
+  }
+
+  /**
+   * The approved budget of a client company's fiscal year, if any
+   */
+  async findApproved(tenantId: string, clientCompanyId: string, fiscalYear: number) {
+    return prisma.budget.findFirst({
+      where: { tenantId, clientCompanyId, fiscalYear, status: "approved" },
+    });
+  }
+
+  /**
+   * Budget against actuals for a month and the year to date
+   */
+  async getVariance(
+    tenantId: string,
+    budgetId: string,
+    month: number,
+    options: { dimensionValueId?: string } = {}
+  ): Promise<BudgetVariance> {
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new ValidationError("Ay 1 ile 12 arasında olmalı.");
+    }
+
+    const budget = await prisma.budget.findFirst({
+      where: { id: budgetId, tenantId },
+      include: { lines: { include: LINE_INCLUDE } },
+    });
+    if (!budget) throw new NotFoundError("Bütçe bulunamadı.");
+
+    const groups = groupLines(budget.lines).filter(
+      (group) => !options.dimensionValueId || group.dimensionValueId === options.dimensionValueId
+    );
+    const keys: BudgetKey[] = groups
+      .map((group) => ({
+        key: lineKey(group.ledgerAccountId, group.dimensionValueId),
+        accountCode: group.ledgerAccount.code as string,
+        dimensionValueId: group.dimensionValueId as string | null,
+      }))
+      .sort(
+        (a, b) =>
+          b.accountCode.length - a.accountCode.length ||
+          Number(b.dimensionValueId !== null) - Number(a.dimensionValueId !== null)
+      );
+
+    const actuals = new Map<string, { month: number; ytd: number }>();
+    if (keys.length > 0) {
+      const period = `${budget.fiscalYear}-${String(month).padStart(2, "0")}`;
+      const { periodStart: monthStart, periodEnd } = getPeriodBounds(period);
+      const { periodStart: yearStart } = getPeriodBounds(`${budget.fiscalYear}-01`);
+      const codes = [...new Set(keys.map((key) => key.accountCode))];
+
+      const postings = await prisma.transactionLine.findMany({
+        where: {
+          tenantId,
+          transaction: { clientCompanyId: budget.clientCompanyId, date: { gte: yearStart, lte: periodEnd } },
+          ledgerAccount: {
+            OR: codes.flatMap((code) => [{ code }, { code: { startsWith: `${code}.` } }]),
+          },
+        },
+        select: {
+          debitAmount: true,
+          creditAmount: true,
+          ledgerAccount: { select: { code: true, type: true } },
+          transaction: { select: { date: true } },
+          dimensions: { select: { dimensionValueId: true } },
+        },
+      });
+
+      for (const posting of postings) {
+        const key = matchBudgetKey(
+          keys,
+          posting.ledgerAccount.code,
+          posting.dimensions.map((entry) => entry.dimensionValueId)
+        );
+        if (!key) continue;
+
+        const debit = Number(posting.debitAmount);
+        const credit = Number(posting.creditAmount);
+        const amount = posting.ledgerAccount.type === "income" ? credit - debit : debit - credit;
+        const entry = actuals.get(key) ?? { month: 0, ytd: 0 };
+        entry.ytd += amount;
+        if (posting.transaction.date >= monthStart) entry.month += amount;
+        actuals.set(key, entry);
+      }
+    }
+
+    const threshold = Number(budget.alertThresholdPercent);
+    const totals = {
+      incomeBudget: 0,
+      incomeActual: 0,
+      expenseBudget: 0,
+      expenseActual: 0,
+      ytdIncomeBudget: 0,
+      ytdIncomeActual: 0,
+      ytdExpenseBudget: 0,
+      ytdExpenseActual: 0,
+    };
+
+    const rows: BudgetVarianceRow[] = groups.map((group) => {
+      const actual = actuals.get(lineKey(group.ledgerAccountId, group.dimensionValueId)) ?? { month: 0, ytd: 0 };
+      const isIncome = group.ledgerAccount.type === "income";
+      const budgetAmount = group.amounts[month - 1];
+      const ytdBudget = round2(group.amounts.slice(0, month).reduce((sum: number, amount: number) => sum + amount, 0));
+      const actualAmount = round2(actual.month);
+      const ytdActual = round2(actual.ytd);
+      const variance = round2(actualAmount - budgetAmount);
+      const ytdVariance = round2(ytdActual - ytdBudget);
+
+      if (isIncome) {
+        totals.incomeBudget += budgetAmount;
+        totals.incomeActual += actualAmount;
+        totals.ytdIncomeBudget += ytdBudget;
+        totals.ytdIncomeActual += ytdActual;
+      } else {
+        totals.expenseBudget += budgetAmount;
+        totals.expenseActual += actualAmount;
+        totals.ytdExpenseBudget += ytdBudget;
+        totals.ytdExpenseActual += ytdActual;
+      }
+
+      return {
+        ledgerAccountId: group.ledgerAccountId,
+        accountCode: group.ledgerAccount.code,
+        accountName: group.ledgerAccount.name,
+        accountType: group.ledgerAccount.type,
+        dimensionValueId: group.dimensionValueId,
+        dimensionValueName: group.dimensionValue?.name ?? null,
+        budget: budgetAmount,
+        actual: actualAmount,
+        variance,
+        variancePercent: percentOf(variance, budgetAmount),
+        ytdBudget,
+        ytdActual,
+        ytdVariance,
+        ytdVariancePercent: percentOf(ytdVariance, ytdBudget),
+        favorable: isIncome ? variance >= 0 : variance <= 0,
+        overThreshold: !isIncome && exceedsThreshold(budgetAmount, actualAmount, threshold),
+      };
+    });
+
+    return {
+      budgetId: budget.id,
+      fiscalYear: budget.fiscalYear,
+      version: budget.version,
+      month,
+      alertThresholdPercent: threshold,
+      rows,
+      totals: {
+        incomeBudget: round2(totals.incomeBudget),
+        incomeActual: round2(totals.incomeActual),
+        expenseBudget: round2(totals.expenseBudget),
+        expenseActual: round2(totals.expenseActual),
+        ytdIncomeBudget: round2(totals.ytdIncomeBudget),
+        ytdIncomeActual: round2(totals.ytdIncomeActual),
+        ytdExpenseBudget: round2(totals.ytdExpenseBudget),
+        ytdExpenseActual: round2(totals.ytdExpenseActual),
+      },
+    };
+  }
+
+  /**
+   * Raise a BUDGET_EXCEEDED risk alert (and through it a notification)
+   * when gider accounts overran the approved budget in a month by more
+   * than its tolerance. Runs when the month is closed and on demand.
+   */
+  async checkThresholds(tenantId: string, clientCompanyId: string, period: string) {
+    const [year, month] = period.split("-").map(Number);
+    const budget = await this.findApproved(tenantId, clientCompanyId, year);
+    if (!budget) {
+      return { budgetId: null, period, exceeded: [] as BudgetVarianceRow[] };
+    }
+
+    const variance = await this.getVariance(tenantId, budget.id, month);
+    const exceeded = variance.rows
+      .filter((row) => row.overThreshold)
+      .sort((a, b) => b.variance - a.variance);
+
+    if (exceeded.length > 0) {
+      const overrun = round2(exceeded.reduce((sum, row) => sum + row.variance, 0));
+      const worst = Math.max(...exceeded.map((row) => row.variancePercent ?? Infinity));
+      const listed = exceeded
+        .slice(0, 5)
+        .map(
+          (row) =>
+            `${row.accountCode} ${row.accountName}${row.dimensionValueName ? ` (${row.dimensionValueName})` : ""}: ` +
+            `bütçe ${row.budget.toLocaleString("tr-TR")} TL, fiili ${row.actual.toLocaleString("tr-TR")} TL`
+        );
+      if (exceeded.length > 5) listed.push(`ve ${exceeded.length - 5} hesap daha`);
+
+      await riskAlertService.createAlert({
+        tenantId,
+        clientCompanyId,
+        type: "BUDGET_EXCEEDED",
+        title: `${period} bütçe aşımı`,
+        message:
+          `${period} döneminde ${exceeded.length} gider kalemi bütçeyi %${variance.alertThresholdPercent} toleransın ` +
+          `üzerinde aştı (toplam ${overrun.toLocaleString("tr-TR")} TL). ${listed.join("; ")}.`,
+        severity: worst >= variance.alertThresholdPercent * 3 ? "high" : "medium",
+      });
+
+      logger.info("Budget overrun alert raised", undefined, { tenantId, budgetId: budget.id, period, accounts: exceeded.length });
+    }
+
+    return { budgetId: budget.id, period, exceeded };
+  }
+
+  private async getEditable(tenantId: string, id: string, options: { allowApproved?: boolean } = {}) {
+    const budget = await prisma.budget.findFirst({ where: { id, tenantId } });
+    if (!budget) throw new NotFoundError("Bütçe bulunamadı.");
+    if (budget.status === "superseded" || (budget.status === "approved" && !options.allowApproved)) {
+      throw new ValidationError("Onaylanmış bütçe değiştirilemez; değişiklik için revize edin.");
+    }
+    return budget;
+  }
+}
+
+export const budgetService = new BudgetService();
@@ -0,0 +1,904 @@
+import PDFDocument from "pdfkit";
+import { createHmac, timingSafeEqual } from "crypto";
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { getConfig } from "@repo/config";
+import { normalizeTaxNumber } from "./babs-form-service";
+import { kdvCalculationService } from "./kdv-calculation-service";
+import { auditService } from "./audit-service";
+
+/**
+ * Cari hesap mutabakatı
+ *
+ * The cari hesap ekstresi of a counterparty is built from the client
+ * company's invoices and the bank payments matched to them. A mutabakat
+ * request e-mails the counterparty a signed link to a public page where
+ * they confirm the balance or dispute it with their own balance; answers
+ * are kept as documents and disputes become tasks.
+ */
+
+const LINK_VALIDITY_DAYS = 30;
+const REMINDER_INTERVAL_DAYS = 7;
+const MAX_REMINDERS = 3;
+const DISPUTE_TASK_DUE_DAYS = 7;
+const BALANCE_TOLERANCE = 0.01; // TRY
+
+export type CariMutabakatStatus = "pending" | "confirmed" | "disputed" | "cancelled";
+
+export interface CariEkstreLine {
+  date: Date;
+  type: "invoice" | "payment";
+  documentNo: string | null;
+  description: string;
+  debit: number; // borç
+  credit: number; // alacak
+  balance: number;
+}
+
+export interface CariEkstre {
+  clientCompany: { id: string; name: string; taxNumber: string };
+  counterpartyName: string;
+  counterpartyTaxNumber: string;
+  asOfDate: Date;
+  lines: CariEkstreLine[];
+  totalDebit: number;
+  totalCredit: number;
+  balance: number; // + karşı taraf borçlu, - karşı taraf alacaklı
+}
+
+export interface CariCounterparty {
+  counterpartyName: string;
+  counterpartyTaxNumber: string;
+  invoiceCount: number;
+  balance: number;
+  lastMutabakat: {
+    id: string;
+    status: CariMutabakatStatus;
+    asOfDate: Date;
+    sentAt: Date;
+    respondedAt: Date | null;
+  } | null;
+}
+
+export interface CariMutabakatResponseInput {
+  decision: "confirm" | "dispute";
+  responderName: string;
+  responseBalance?: number | null;
+  note?: string | null;
+  file?: { buffer: Buffer; originalname: string; mimetype: string; size: number } | null;
+}
+
+type LedgerEntry = Omit<CariEkstreLine, "balance">;
+
+interface CounterpartyLedger {
+  name: string;
+  invoiceCount: number;
+  entries: LedgerEntry[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/** Borçlu / alacaklı wording of a balance kept from the client company's side */
+function describeBalance(balance: number): string {
+  if (Math.abs(balance) < BALANCE_TOLERANCE) {
+    return "0,00 TL (bakiye yok)";
+  }
+  return `${formatMoney(Math.abs(balance))} TL ${balance > 0 ? "borç" : "alacak"} bakiyesi`;
+}
+
+/** Decimal columns as numbers for the API */
+function toResponse<T extends { balance: unknown; responseBalance: unknown }>(row: T) {
+  return {
+    ...row,
+    balance: Number(row.balance),
+    responseBalance: row.responseBalance === null ? null : Number(row.responseBalance),
+  };
+}
+
+function signToken(id: string): string {
+  return createHmac("sha256", getConfig().JWT_SECRET).update(`cari-mutabakat:${id}`).digest("base64url");
+}
+
+/** Link token of a request: its id and an HMAC of it, so nothing secret is stored */
+export function buildMutabakatToken(id: string): string {
+  return `${id}.${signToken(id)}`;
+}
+
+/** Request id of a valid token, null when the signature does not match */
+export function verifyMutabakatToken(token: string): string | null {
+  const [id, signature] = token.split(".");
+  if (!id || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(signToken(id));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? id : null;
+}
+
+export class CariMutabakatService {
+  /**
+   * Counterparties of a client company with their balance at the given date
+   * and the latest mutabakat request sent to them
+   */
+  async listCounterparties(tenantId: string, clientCompanyId: string, asOfDate: Date): Promise<CariCounterparty[]> {
+    await this.getClientCompany(tenantId, clientCompanyId);
+    const ledgers = await this.loadLedgers(tenantId, clientCompanyId, asOfDate);
+
+    const requests = await prisma.cariMutabakat.findMany({
+      where: { tenantId, clientCompanyId, status: { not: "cancelled" } },
+      orderBy: { sentAt: "desc" },
+    });
+    const latest = new Map<string, (typeof requests)[number]>();
+    for (const request of requests) {
+      if (!latest.has(request.counterpartyTaxNumber)) {
+        latest.set(request.counterpartyTaxNumber, request);
+      }
+    }
+
+    return [...ledgers.entries()]
+      .map(([taxNumber, ledger]) => {
+        const request = latest.get(taxNumber);
+        return {
+          counterpartyName: ledger.name,
+          counterpartyTaxNumber: taxNumber,
+          invoiceCount: ledger.invoiceCount,
+          balance: round2(ledger.entries.reduce((sum, e) => sum + e.debit - e.credit, 0)),
+          lastMutabakat: request
+            ? {
+                id: request.id,
+                status: request.status as CariMutabakatStatus,
+                asOfDate: request.asOfDate,
+                sentAt: request.sentAt,
+                respondedAt: request.respondedAt,
+              }
+            : null,
+        };
+      })
+      .sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance));
+  }
+
+  /**
+   * Cari hesap ekstresi of one counterparty up to the given date
+   */
+  async getStatement(
+    tenantId: string,
+    clientCompanyId: string,
+    counterpartyTaxNumber: string,
+    asOfDate: Date
+  ): Promise<CariEkstre> {
+    const clientCompany = await this.getClientCompany(tenantId, clientCompanyId);
+    const taxNumber = normalizeTaxNumber(counterpartyTaxNumber);
+    if (!taxNumber) {
+      throw new ValidationError("Geçerli bir VKN/TCKN giriniz.");
+    }
+
+    const ledger = (await this.loadLedgers(tenantId, clientCompanyId, asOfDate)).get(taxNumber);
+    if (!ledger) {
+      throw new NotFoundError("Bu karşı tarafa ait fatura bulunamadı.");
+    }
+
+    let balance = 0;
+    const lines = ledger.entries
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map((entry) => {
+        balance = round2(balance + entry.debit - entry.credit);
+        return { ...entry, balance };
+      });
+
+    return {
+      clientCompany,
+      counterpartyName: ledger.name,
+      counterpartyTaxNumber: taxNumber,
+      asOfDate,
+      lines,
+      totalDebit: round2(lines.reduce((sum, l) => sum + l.debit, 0)),
+      totalCredit: round2(lines.reduce((sum, l) => sum + l.credit, 0)),
+      balance,
+    };
+  }
+
+  /**
+   * Ekstre as PDF
+   */
+  async getStatementPdf(
+    tenantId: string,
+    clientCompanyId: string,
+    counterpartyTaxNumber: string,
+    asOfDate: Date
+  ): Promise<{ fileName: string; content: Buffer }> {
+    const statement = await this.getStatement(tenantId, clientCompanyId, counterpartyTaxNumber, asOfDate);
+    return {
+      fileName: `cari_ekstre_${statement.counterpartyTaxNumber}_${asOfDate.toISOString().slice(0, 10)}.pdf`,
+      content: await this.renderStatementPdf(statement),
+    };
+  }
+
+  /**
+   * List mutabakat requests
+   */
+  async list(
+    tenantId: string,
+    params: { clientCompanyId?: string; status?: string; page?: number; pageSize?: number }
+  ) {
+    const page = params.page || 1;
+    const pageSize = Math.min(params.pageSize || 20, 100);
+    const where: any = { tenantId };
+    if (params.clientCompanyId) where.clientCompanyId = params.clientCompanyId;
+    if (params.status) where.status = params.status;
+
+    const [items, total] = await Promise.all([
+      prisma.cariMutabakat.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: { sentAt: "desc" },
+        include: { clientCompany: { select: { id: true, name: true } } },
+      }),
+      prisma.cariMutabakat.count({ where }),
+    ]);
+
+    return {
+      data: items.map(toResponse),
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  /**
+   * Get by ID
+   */
+  async getById(tenantId: string, id: string) {
+    const item = await prisma.cariMutabakat.findFirst({
+      where: { id, tenantId },
+      include: { clientCompany: { select: { id: true, name: true } } },
+    });
+    if (!item) throw new NotFoundError("Mutabakat talebi bulunamadı.");
+    return toResponse(item);
+  }
+
+  /**
+   * Reconciliation status per client company
+   */
+  async getSummary(tenantId: string) {
+    const now = new Date();
+    const [groups, expired, companies] = await Promise.all([
+      prisma.cariMutabakat.groupBy({
+        by: ["clientCompanyId", "status"],
+        where: { tenantId, status: { not: "cancelled" } },
+        _count: { _all: true },
+        _max: { sentAt: true },
+      }),
+      prisma.cariMutabakat.groupBy({
+        by: ["clientCompanyId"],
+        where: { tenantId, status: "pending", expiresAt: { lt: now } },
+        _count: { _all: true },
+      }),
+      prisma.clientCompany.findMany({ where: { tenantId }, select: { id: true, name: true } }),
+    ]);
+
+    const names = new Map(companies.map((c) => [c.id, c.name]));
+    const summary = new Map<
+      string,
+      {
+        clientCompanyId: string;
+        clientCompanyName: string;
+        pending: number;
+        confirmed: number;
+        disputed: number;
+        expired: number;
+        lastSentAt: Date | null;
+      }
+    >();
+
+    for (const group of groups) {
+      const row = summary.get(group.clientCompanyId) ?? {
+        clientCompanyId: group.clientCompanyId,
+        clientCompanyName: names.get(group.clientCompanyId) ?? "",
+        pending: 0,
+        confirmed: 0,
+        disputed: 0,
+        expired: 0,
+        lastSentAt: null,
+      };
+      if (group.status === "pending" || group.status === "confirmed" || group.status === "disputed") {
+        row[group.status] += group._count._all;
+      }
+      if (group._max.sentAt && (!row.lastSentAt || group._max.sentAt > row.lastSentAt)) {
+        row.lastSentAt = group._max.sentAt;
+      }
+      summary.set(group.clientCompanyId, row);
+    }
+    for (const group of expired) {
+      const row = summary.get(group.clientCompanyId);
+      if (row) row.expired = group._count._all;
+    }
+
+    return [...summary.values()].sort((a, b) => a.clientCompanyName.localeCompare(b.clientCompanyName, "tr"));
+  }
+
+  /**
+   * Freeze the counterparty's balance at the given date and e-mail them the
+   * mutabakat link. An open request for the same counterparty is replaced.
+   */
+  async createRequest(
+    tenantId: string,
+    userId: string,
+    data: { clientCompanyId: string; counterpartyTaxNumber: string; email: string; asOfDate: Date }
+  ) {
+    const statement = await this.getStatement(tenantId, data.clientCompanyId, data.counterpartyTaxNumber, data.asOfDate);
+    const now = new Date();
+
+    const request = await prisma.$transaction(async (tx) => {
+      await tx.cariMutabakat.updateMany({
+        where: {
+          tenantId,
+          clientCompanyId: data.clientCompanyId,
+          counterpartyTaxNumber: statement.counterpartyTaxNumber,
+          status: "pending",
+        },
+        data: { status: "cancelled" },
+      });
+
+      return tx.cariMutabakat.create({
+        data: {
+          tenantId,
+          clientCompanyId: data.clientCompanyId,
+          counterpartyName: statement.counterpartyName,
+          counterpartyTaxNumber: statement.counterpartyTaxNumber,
+          email: data.email,
+          asOfDate: data.asOfDate,
+          balance: statement.balance,
+          status: "pending",
+          expiresAt: addDays(now, LINK_VALIDITY_DAYS),
+          sentAt: now,
+          createdByUserId: userId,
+        },
+      });
+    });
+
+    await this.sendRequestEmail(request, statement.clientCompany.name, false);
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "CARI_MUTABAKAT_SENT",
+      resourceType: "CariMutabakat",
+      resourceId: request.id,
+      metadata: {
+        clientCompanyId: data.clientCompanyId,
+        counterpartyTaxNumber: statement.counterpartyTaxNumber,
+        balance: statement.balance,
+        sentTo: data.email,
+      },
+    });
+
+    return toResponse(request);
+  }
+
+  /**
+   * Send a reminder for an unanswered request; the link is renewed
+   */
+  async sendReminder(tenantId: string, id: string) {
+    const request = await this.getById(tenantId, id);
+    if (request.status !== "pending") {
+      throw new ValidationError("Yalnızca cevap bekleyen mutabakat talepleri için hatırlatma gönderilebilir.");
+    }
+
+    const now = new Date();
+    const updated = await prisma.cariMutabakat.update({
+      where: { id: request.id },
+      data: {
+        reminderCount: { increment: 1 },
+        lastReminderAt: now,
+        expiresAt: addDays(now, LINK_VALIDITY_DAYS),
+      },
+    });
+    await this.sendRequestEmail(updated, request.clientCompany.name, true);
+
+    return toResponse(updated);
+  }
+
+  /**
+   * Remind every counterparty that has not answered for a week, at most
+   * three times per request
+   */
+  async sendDueReminders(tenantId: string) {
+    const cutoff = addDays(new Date(), -REMINDER_INTERVAL_DAYS);
+    const due = await prisma.cariMutabakat.findMany({
+      where: {
+        tenantId,
+        status: "pending",
+        reminderCount: { lt: MAX_REMINDERS },
+        OR: [{ lastReminderAt: null, sentAt: { lt: cutoff } }, { lastReminderAt: { lt: cutoff } }],
+      },
+      select: { id: true },
+    });
+
+    let sent = 0;
+    const failed: string[] = [];
+    for (const { id } of due) {
+      try {
+        await this.sendReminder(tenantId, id);
+        sent++;
+      } catch (error: any) {
+        failed.push(id);
+        logger.error("[CariMutabakatService] Reminder failed", undefined, { id, error: error.message });
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * Withdraw an unanswered request; its link stops working
+   */
+  async cancel(tenantId: string, id: string) {
+    const request = await this.getById(tenantId, id);
+    if (request.status !== "pending") {
+      throw new ValidationError("Yalnızca cevap bekleyen mutabakat talepleri iptal edilebilir.");
+    }
+    return toResponse(await prisma.cariMutabakat.update({ where: { id: request.id }, data: { status: "cancelled" } }));
+  }
+
+  /**
+   * What the counterparty sees behind the link. Once the link expired only
+   * the request's status is shown, not the ekstre or the balance.
+   */
+  async getPublicRequest(token: string) {
+    const request = await this.findByToken(token);
+    if (request.expiresAt < new Date()) {
+      const company = await this.getClientCompany(request.tenantId, request.clientCompanyId);
+      return {
+        status: request.status as CariMutabakatStatus,
+        expired: true as const,
+        clientCompany: { name: company.name },
+        counterpartyName: request.counterpartyName,
+        asOfDate: request.asOfDate,
+        expiresAt: request.expiresAt,
+        respondedAt: request.respondedAt,
+      };
+    }
+
+    const statement = await this.getStatement(
+      request.tenantId,
+      request.clientCompanyId,
+      request.counterpartyTaxNumber,
+      request.asOfDate
+    );
+
+    return {
+      status: request.status as CariMutabakatStatus,
+      expired: false as const,
+      clientCompany: { name: statement.clientCompany.name, taxNumber: statement.clientCompany.taxNumber },
+      counterpartyName: request.counterpartyName,
+      counterpartyTaxNumber: request.counterpartyTaxNumber,
+      asOfDate: request.asOfDate,
+      balance: Number(request.balance),
+      expiresAt: request.expiresAt,
+      respondedAt: request.respondedAt,
+      lines: statement.lines,
+    };
+  }
+
+  /**
+   * Ekstre PDF behind the link
+   */
+  async getPublicStatementPdf(token: string): Promise<{ fileName: string; content: Buffer }> {
+    const request = await this.findByToken(token);
+    if (request.expiresAt < new Date()) {
+      throw new ValidationError("Mutabakat bağlantısının süresi dolmuş. Lütfen gönderen firmadan yeni bağlantı isteyiniz.");
+    }
+    return this.getStatementPdf(request.tenantId, request.clientCompanyId, request.counterpartyTaxNumber, request.asOfDate);
+  }
+
+  /**
+   * Record the counterparty's answer. The answer is stored as a PDF document
+   * next to the uploaded file, and a dispute opens a task for the accountant
+   * who sent the request.
+   */
+  async respond(token: string, input: CariMutabakatResponseInput) {
+    const request = await this.findByToken(token);
+    if (request.status !== "pending") {
+      throw new ValidationError("Bu mutabakat talebi daha önce cevaplanmış veya iptal edilmiş.");
+    }
+    if (request.expiresAt < new Date()) {
+      throw new ValidationError("Mutabakat bağlantısının süresi dolmuş. Lütfen gönderen firmadan yeni bağlantı isteyiniz.");
+    }
+    if (input.decision === "dispute" && (input.responseBalance === undefined || input.responseBalance === null)) {
+      throw new ValidationError("İtiraz için kendi kayıtlarınızdaki bakiyeyi giriniz.");
+    }
+
+    const { tenantId, clientCompanyId } = request;
+    const confirmed = input.decision === "confirm";
+    const balance = Number(request.balance);
+    const responseBalance = confirmed ? balance : round2(input.responseBalance!);
+    const respondedAt = new Date();
+    const status: CariMutabakatStatus = confirmed ? "confirmed" : "disputed";
+
+    // Claim the request first: a double submit must not store two answers or open two tasks
+    const claimed = await prisma.cariMutabakat.updateMany({
+      where: { id: request.id, status: "pending", expiresAt: { gt: respondedAt } },
+      data: {
+        status,
+        respondedAt,
+        responderName: input.responderName,
+        responseBalance,
+        responseNote: input.note ?? null,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new ValidationError("Bu mutabakat talebi daha önce cevaplanmış veya iptal edilmiş.");
+    }
+
+    const { documentService } = await import("./document-service");
+    let attachment: { id: string } | null;
+    let responseDocument: { id: string };
+    let taskId: string | null = null;
+    try {
+      attachment = input.file
+        ? await documentService.uploadDocument(tenantId, request.createdByUserId, {
+            file: input.file,
+            clientCompanyId,
+            type: "OTHER",
+            uploadSource: "counterparty_response",
+          })
+        : null;
+
+      const answerPdf = await this.renderResponsePdf(request, {
+        confirmed,
+        responderName: input.responderName,
+        responseBalance,
+        note: input.note ?? null,
+        attachmentName: input.file?.originalname ?? null,
+        respondedAt,
+      });
+      responseDocument = await documentService.uploadDocument(tenantId, request.createdByUserId, {
+        file: {
+          buffer: answerPdf,
+          originalname: `cari_mutabakat_cevap_${request.counterpartyTaxNumber}_${request.asOfDate.toISOString().slice(0, 10)}.pdf`,
+          mimetype: "application/pdf",
+          size: answerPdf.length,
+        },
+        clientCompanyId,
+        type: "OTHER",
+        uploadSource: "counterparty_response",
+      });
+
+      if (!confirmed) {
+        const { taskService } = await import("./task-service");
+        const task = await taskService.createTask(tenantId, {
+          tenantId,
+          clientCompanyId,
+          assignedToUserId: request.createdByUserId,
+          title: `Cari mutabakat itirazı: ${request.counterpartyName}`,
+          description: [
+            `${request.asOfDate.toLocaleDateString("tr-TR")} tarihli cari hesap mutabakatına ${input.responderName} itiraz etti.`,
+            `Gönderilen bakiye: ${describeBalance(balance)}`,
+            `Karşı tarafın bildirdiği bakiye: ${describeBalance(responseBalance)}`,
+            `Fark: ${formatMoney(Math.abs(round2(balance - responseBalance)))} TL`,
+            input.note ? `Açıklama: ${input.note}` : null,
+          ]
+            .filter(Boolean)
+            .join("\n"),
+          priority: "high",
+          dueDate: addDays(respondedAt, DISPUTE_TASK_DUE_DAYS),
+        });
+        taskId = task.id;
+      }
+    } catch (error) {
+      // The answer could not be stored, so the link takes a new answer
+      await prisma.cariMutabakat.update({
+        where: { id: request.id },
+        data: { status: "pending", respondedAt: null, responderName: null, responseBalance: null, responseNote: null },
+      });
+      throw error;
+    }
+
+    await prisma.cariMutabakat.update({
+      where: { id: request.id },
+      data: {
+        responseDocumentId: responseDocument.id,
+        attachmentDocumentId: attachment?.id ?? null,
+        taskId,
+      },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId: null,
+      action: "CARI_MUTABAKAT_RESPONDED",
+      resourceType: "CariMutabakat",
+      resourceId: request.id,
+      metadata: { decision: input.decision, responderName: input.responderName, responseBalance, taskId },
+    });
+
+    return { status, respondedAt };
+  }
+
+  private async findByToken(token: string) {
+    const id = verifyMutabakatToken(token);
+    const request = id ? await prisma.cariMutabakat.findUnique({ where: { id } }) : null;
+    if (!request || request.status === "cancelled") {
+      throw new NotFoundError("Mutabakat talebi bulunamadı veya geçersiz bağlantı.");
+    }
+    return request;
+  }
+
+  private async getClientCompany(tenantId: string, clientCompanyId: string) {
+    const company = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+      select: { id: true, name: true, taxNumber: true },
+    });
+    if (!company) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+    return company;
+  }
+
+  /**
+   * Cari entries per counterparty VKN/TCKN: sales invoices are borç and
+   * purchase invoices alacak for the counterparty, matched bank payments
+   * and the payments recorded on the cari kart close them from the other
+   * side. Foreign currency amounts are converted at the invoice's rate.
+   */
+  private async loadLedgers(
+    tenantId: string,
+    clientCompanyId: string,
+    asOfDate: Date
+  ): Promise<Map<string, CounterpartyLedger>> {
+    const endOfDay = new Date(asOfDate.getFullYear(), asOfDate.getMonth(), asOfDate.getDate(), 23, 59, 59, 999);
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        type: { in: ["SATIŞ", "ALIŞ"] },
+        status: { not: "iptal" },
+        issueDate: { lte: endOfDay },
+        counterpartyTaxNumber: { not: null },
+      },
+      select: {
+        id: true,
+        externalId: true,
+        type: true,
+        currency: true,
+        issueDate: true,
+        totalAmount: true,
+        counterpartyName: true,
+        counterpartyTaxNumber: true,
+        metadata: true,
+        reconciliationMatches: {
+          where: { statementLine: { bookingDate: { lte: endOfDay } } },
+          select: {
+            amount: true,
+            statementLine: { select: { bookingDate: true, currency: true, description: true } },
+          },
+        },
+      },
+      orderBy: { issueDate: "asc" },
+    });
+
+    const ledgers = new Map<string, CounterpartyLedger>();
+    for (const invoice of invoices) {
+      const taxNumber = normalizeTaxNumber(invoice.counterpartyTaxNumber);
+      if (!taxNumber) continue;
+
+      const ledger = ledgers.get(taxNumber) ?? { name: invoice.counterpartyName || taxNumber, invoiceCount: 0, entries: [] };
+      const isSale = invoice.type === "SATIŞ";
+      const rate = await kdvCalculationService.tryRate(invoice);
+      const amount = round2(Number(invoice.totalAmount) * rate);
+
+      ledger.invoiceCount++;
+      ledger.entries.push({
+        date: invoice.issueDate,
+        type: "invoice",
+        documentNo: invoice.externalId,
+        description: isSale ? "Satış faturası" : "Alış faturası",
+        debit: isSale ? amount : 0,
+        credit: isSale ? 0 : amount,
+      });
+
+      for (const match of invoice.reconciliationMatches) {
+        const paid = round2(Number(match.amount) * (match.statementLine.currency === "TRY" ? 1 : rate));
+        ledger.entries.push({
+          date: match.statementLine.bookingDate,
+          type: "payment",
+          documentNo: invoice.externalId,
+          description: isSale ? "Tahsilat" : "Ödeme",
+          debit: isSale ? 0 : paid,
+          credit: isSale ? paid : 0,
+        });
+      }
+      ledgers.set(taxNumber, ledger);
+    }
+
+    const payments = await prisma.counterpartyPayment.findMany({
+      where: { tenantId, clientCompanyId, date: { lte: endOfDay }, counterparty: { taxNumber: { not: null } } },
+      include: { counterparty: { select: { name: true, taxNumber: true } } },
+      orderBy: { date: "asc" },
+    });
+    for (const payment of payments) {
+      const taxNumber = payment.counterparty.taxNumber!;
+      const ledger = ledgers.get(taxNumber) ?? { name: payment.counterparty.name, invoiceCount: 0, entries: [] };
+      const isCollection = payment.direction === "TAHSILAT";
+      const rate = await kdvCalculationService.tryRate({
+        id: payment.id,
+        externalId: payment.reference,
+        currency: payment.currency,
+        issueDate: payment.date,
+        metadata: null,
+      });
+      const amount = round2(Number(payment.amount) * rate);
+
+      ledger.entries.push({
+        date: payment.date,
+        type: "payment",
+        documentNo: payment.reference,
+        description: isCollection ? "Tahsilat" : "Ödeme",
+        debit: isCollection ? 0 : amount,
+        credit: isCollection ? amount : 0,
+      });
+      ledgers.set(taxNumber, ledger);
+    }
+
+    return ledgers;
+  }
+
+  private async sendRequestEmail(
+    request: {
+      id: string;
+      tenantId: string;
+      email: string;
+      counterpartyName: string;
+      asOfDate: Date;
+      balance: unknown;
+      expiresAt: Date;
+    },
+    companyName: string,
+    reminder: boolean
+  ) {
+    const config = getConfig();
+    const frontendUrl = config.FRONTEND_URL || config.CORS_ORIGIN || "http://localhost:3000";
+    const asOf = request.asOfDate.toLocaleDateString("tr-TR");
+
+    const { emailService } = await import("./email-service");
+    await emailService.sendTemplatedEmail(
+      "cari-mutabakat",
+      [request.email],
+      `${reminder ? "Hatırlatma: " : ""}${asOf} tarihli cari hesap mutabakatı - ${companyName}`,
+      {
+        companyName,
+        counterpartyName: request.counterpartyName,
+        asOfDate: asOf,
+        balanceText: describeBalance(Number(request.balance)),
+        link: `${frontendUrl}/mutabakat/${buildMutabakatToken(request.id)}`,
+        expiresAt: request.expiresAt.toLocaleDateString("tr-TR"),
+        reminder,
+        year: new Date().getFullYear(),
+      },
+      request.tenantId
+    );
+  }
+
+  private renderStatementPdf(statement: CariEkstre): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, size: "A4" });
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", (error) => reject(new Error(`PDF generation failed: ${error.message}`)));
+
+      doc.fontSize(12).font("Helvetica-Bold").text(statement.clientCompany.name);
+      doc.fontSize(9).font("Helvetica").text(`VKN ${statement.clientCompany.taxNumber}`);
+      doc.moveDown();
+      doc.fontSize(16).font("Helvetica-Bold").text("CARİ HESAP EKSTRESİ", { align: "center" });
+      doc.moveDown(0.5);
+      doc.fontSize(10).font("Helvetica");
+      doc.text(`Cari: ${statement.counterpartyName} (VKN/TCKN ${statement.counterpartyTaxNumber})`);
+      doc.text(`Tarih: ${statement.asOfDate.toLocaleDateString("tr-TR")}`);
+      doc.moveDown();
+
+      const columns = [50, 120, 220, 330, 400, 470];
+      const header = ["Tarih", "Belge No", "Açıklama", "Borç", "Alacak", "Bakiye"];
+      let y = doc.y;
+      doc.fontSize(9).font("Helvetica-Bold");
+      header.forEach((title, i) => doc.text(title, columns[i], y, { width: i < 3 ? columns[i + 1] - columns[i] - 5 : 70 }));
+      doc.font("Helvetica");
+      y += 16;
+
+      for (const line of statement.lines) {
+        if (y > 760) {
+          doc.addPage();
+          y = 50;
+        }
+        const cells = [
+          line.date.toLocaleDateString("tr-TR"),
+          line.documentNo ?? "-",
+          line.description,
+          line.debit ? formatMoney(line.debit) : "",
+          line.credit ? formatMoney(line.credit) : "",
+          formatMoney(line.balance),
+        ];
+        cells.forEach((cell, i) => doc.text(cell, columns[i], y, { width: i < 3 ? columns[i + 1] - columns[i] - 5 : 70 }));
+        y += 14;
+      }
+
+      y += 6;
+      doc.font("Helvetica-Bold");
+      doc.text("Toplam", columns[2], y);
+      doc.text(formatMoney(statement.totalDebit), columns[3], y, { width: 70 });
+      doc.text(formatMoney(statement.totalCredit), columns[4], y, { width: 70 });
+      doc.text(formatMoney(statement.balance), columns[5], y, { width: 70 });
+
+      doc.moveDown(2);
+      doc.x = 50;
+      doc.font("Helvetica").fontSize(10).text(
+        `${statement.asOfDate.toLocaleDateString("tr-TR")} itibarıyla firmanız ${describeBalance(statement.balance)} vermektedir.`
+      );
+
+      doc.end();
+    });
+  }
+
+  private renderResponsePdf(
+    request: { counterpartyName: string; counterpartyTaxNumber: string; asOfDate: Date; balance: unknown },
+    answer: {
+      confirmed: boolean;
+      responderName: string;
+      responseBalance: number;
+      note: string | null;
+      attachmentName: string | null;
+      respondedAt: Date;
+    }
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, size: "A4" });
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", (error) => reject(new Error(`PDF generation failed: ${error.message}`)));
+
+      doc.fontSize(12).font("Helvetica-Bold").text(request.counterpartyName);
+      doc.fontSize(9).font("Helvetica").text(`VKN/TCKN ${request.counterpartyTaxNumber}`);
+      doc.moveDown();
+      doc.fontSize(16).font("Helvetica-Bold").text("CARİ HESAP MUTABAKAT CEVABI", { align: "center" });
+      doc.moveDown();
+
+      doc.fontSize(11).font("Helvetica");
+      doc.text(`Mutabakat tarihi: ${request.asOfDate.toLocaleDateString("tr-TR")}`);
+      doc.text(`Bildirilen bakiye: ${describeBalance(Number(request.balance))}`);
+      doc.moveDown();
+      doc.font("Helvetica-Bold").text(answer.confirmed ? "Mutabıkız." : "Mutabık değiliz.");
+      doc.font("Helvetica");
+      if (!answer.confirmed) {
+        doc.text(`Kayıtlarımızdaki bakiye: ${describeBalance(answer.responseBalance)}`);
+      }
+      if (answer.note) {
+        doc.moveDown(0.5);
+        doc.text(`Açıklama: ${answer.note}`, { align: "justify" });
+      }
+      if (answer.attachmentName) {
+        doc.text(`Ek: ${answer.attachmentName}`);
+      }
+
+      doc.moveDown(2);
+      doc.text(`Cevaplayan: ${answer.responderName}`);
+      doc.text(`Tarih: ${answer.respondedAt.toLocaleString("tr-TR")}`);
+      doc.fontSize(9).fillColor("#666666").text("Bu cevap e-posta ile gönderilen mutabakat bağlantısı üzerinden verilmiştir.");
+
+      doc.end();
+    });
+  }
+}
+
+export const cariMutabakatService = new CariMutabakatService();
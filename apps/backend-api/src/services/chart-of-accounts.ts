@@ -0,0 +1,141 @@
+import type { LedgerAccountInflationClass, LedgerAccountType } from "@repo/core-domain";
+import { TEK_DUZEN_HESAP_PLANI } from "./turkish-accounting-knowledge";
+
+/**
+ * Tek Düzen Hesap Planı helpers
+ *
+ * Account codes follow the uniform chart of accounts: a 3-digit main account
+ * (ana hesap) optionally followed by dot-separated sub-account segments,
+ * e.g. 120 → 120.01 → 120.01.0042.
+ */
+
+export const ACCOUNT_CODE_SEPARATOR = ".";
+
+export interface ParsedAccountCode {
+  segments: string[];
+  level: number;
+  accountClass: number | null;
+  mainAccountCode: string;
+  parentCode: string | null;
+}
+
+export interface ChartOfAccountsTemplateEntry {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+}
+
+export function parseAccountCode(code: string): ParsedAccountCode {
+  const segments = code.trim().split(ACCOUNT_CODE_SEPARATOR).filter((segment) => segment.length > 0);
+  const firstDigit = parseInt(code.trim().charAt(0), 10);
+
+  return {
+    segments,
+    level: Math.max(segments.length, 1),
+    accountClass: isNaN(firstDigit) || firstDigit === 0 ? null : firstDigit,
+    mainAccountCode: segments[0] ?? code.trim(),
+    parentCode: segments.length > 1 ? segments.slice(0, -1).join(ACCOUNT_CODE_SEPARATOR) : null,
+  };
+}
+
+/**
+ * Detect the account type from the TDHP code prefix.
+ * Returns null for classes that carry no fixed type (8 serbest, 9 nazım hesaplar).
+ */
+export function detectAccountType(code: string): LedgerAccountType | null {
+  const { accountClass, mainAccountCode } = parseAccountCode(code);
+  const group = mainAccountCode.substring(0, 2);
+
+  switch (accountClass) {
+    case 1: // Dönen varlıklar
+    case 2: // Duran varlıklar
+      return "asset";
+    case 3: // Kısa vadeli yabancı kaynaklar
+    case 4: // Uzun vadeli yabancı kaynaklar
+      return "liability";
+    case 5: // Öz kaynaklar
+      return "equity";
+    case 6:
+      if (group === "60" || group === "64" || group === "67") {
+        return "income";
+      }
+      if (group === "69") {
+        // 690/692 dönem sonucu hesapları öz kaynak niteliğinde, 691 vergi karşılığı gider
+        return mainAccountCode === "691" ? "expense" : "equity";
+      }
+      return "expense";
+    case 7: // Maliyet hesapları
+      return "expense";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Balance sheet main accounts that are non-monetary for enflasyon düzeltmesi
+ * (VUK mükerrer 298/A): stocks, prepaid items, advances, fixed assets and
+ * equity. Result accounts (59x) are left out, they are not restated.
+ */
+const NON_MONETARY_PREFIXES = ["110", "15", "17", "180", "24", "25", "26", "27", "280", "340", "35", "380", "440", "480", "50", "52", "54", "57", "58"];
+
+/**
+ * Default monetary / non-monetary classification of a balance sheet account.
+ * Returns null for income statement, cost and off-balance-sheet accounts.
+ */
+export function defaultInflationClass(code: string): LedgerAccountInflationClass | null {
+  const { accountClass, mainAccountCode } = parseAccountCode(code);
+
+  if (!accountClass || accountClass > 5) {
+    return null;
+  }
+
+  return NON_MONETARY_PREFIXES.some((prefix) => mainAccountCode.startsWith(prefix)) ? "non_monetary" : "monetary";
+}
+
+/**
+ * Accounts seeded in addition to the knowledge base entries because the
+ * period-end workflows (kur farkı, enflasyon düzeltmesi, yıl sonu kapanış,
+ * amortisman, stok sayımı) post to them.
+ */
+const SUPPLEMENTARY_ACCOUNTS: Array<{ code: string; name: string }> = [
+  { code: "108", name: "DİĞER HAZIR DEĞERLER" },
+  { code: "136", name: "DİĞER ÇEŞİTLİ ALACAKLAR" },
+  { code: "159", name: "VERİLEN SİPARİŞ AVANSLARI" },
+  { code: "180", name: "GELECEK AYLARA AİT GİDERLER" },
+  { code: "197", name: "SAYIM VE TESELLÜM NOKSANLARI" },
+  { code: "250", name: "ARAZİ VE ARSALAR" },
+  { code: "251", name: "YERALTI VE YERÜSTÜ DÜZENLERİ" },
+  { code: "256", name: "DİĞER MADDİ DURAN VARLIKLAR" },
+  { code: "258", name: "YAPILMAKTA OLAN YATIRIMLAR" },
+  { code: "268", name: "BİRİKMİŞ AMORTİSMANLAR (-)" },
+  { code: "331", name: "ORTAKLARA BORÇLAR" },
+  { code: "340", name: "ALINAN SİPARİŞ AVANSLARI" },
+  { code: "370", name: "DÖNEM KÂRI VERGİ VE DİĞER YASAL YÜKÜMLÜLÜK KARŞILIKLARI" },
+  { code: "371", name: "DÖNEM KÂRININ PEŞİN ÖDENEN VERGİ VE DİĞER YÜKÜMLÜLÜKLERİ (-)" },
+  { code: "397", name: "SAYIM VE TESELLÜM FAZLALARI" },
+  { code: "502", name: "SERMAYE DÜZELTMESİ OLUMLU FARKLARI" },
+  { code: "503", name: "SERMAYE DÜZELTMESİ OLUMSUZ FARKLARI (-)" },
+  { code: "540", name: "YASAL YEDEKLER" },
+  { code: "646", name: "KAMBİYO KÂRLARI" },
+  { code: "656", name: "KAMBİYO ZARARLARI (-)" },
+  { code: "679", name: "DİĞER OLAĞANDIŞI GELİR VE KÂRLAR" },
+  { code: "689", name: "DİĞER OLAĞANDIŞI GİDER VE ZARARLAR (-)" },
+  { code: "692", name: "DÖNEM NET KÂRI VEYA ZARARI" },
+  { code: "698", name: "ENFLASYON DÜZELTME HESABI" },
+];
+
+function buildTemplate(): ChartOfAccountsTemplateEntry[] {
+  const byCode = new Map<string, ChartOfAccountsTemplateEntry>();
+
+  for (const hesap of [...TEK_DUZEN_HESAP_PLANI.map((h) => ({ code: h.kod, name: h.isim })), ...SUPPLEMENTARY_ACCOUNTS]) {
+    const type = detectAccountType(hesap.code);
+    if (type && !byCode.has(hesap.code)) {
+      byCode.set(hesap.code, { code: hesap.code, name: hesap.name, type });
+    }
+  }
+
+  return Array.from(byCode.values()).sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/** Main accounts (ana hesaplar) seeded for every client company */
+export const TEK_DUZEN_HESAP_PLANI_TEMPLATE: ChartOfAccountsTemplateEntry[] = buildTemplate();
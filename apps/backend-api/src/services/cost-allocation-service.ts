@@ -0,0 +1,430 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import { accountingPeriodService, getPeriodBounds } from "./accounting-period-service";
+import { auditService } from "./audit-service";
+
+/**
+ * Gider dağıtımı
+ *
+ * Allocation rules split a shared expense pool (e.g. 770 Genel Yönetim
+ * Giderleri and its sub-accounts) over the values of one dimension by fixed
+ * percentages. A monthly run takes what was posted to the pool accounts
+ * without a value of that dimension, credits it back untagged and debits the
+ * same accounts tagged per target, so the pool ends the month at zero
+ * untagged and every masraf merkezi or proje carries its share.
+ */
+
+export interface AllocationTargetInput {
+  dimensionValueId: string;
+  percentage: number;
+}
+
+export interface AllocationRuleInput {
+  clientCompanyId: string;
+  name: string;
+  sourceAccountCode: string;
+  dimensionId: string;
+  targets: AllocationTargetInput[];
+}
+
+export type UpdateAllocationRuleInput = Partial<Pick<AllocationRuleInput, "name" | "targets">> & {
+  isActive?: boolean;
+};
+
+export interface AllocationSplit {
+  dimensionValueId: string;
+  percentage: number;
+  amount: number;
+}
+
+export interface AllocationAccountPool {
+  ledgerAccountId: string;
+  code: string;
+  name: string;
+  amount: number; // untagged borç - alacak in the period
+  splits: AllocationSplit[];
+}
+
+export interface AllocationPreview {
+  ruleId: string;
+  period: string;
+  amount: number;
+  accounts: AllocationAccountPool[];
+  run: ReturnType<typeof toRunResponse> | null;
+}
+
+const PERCENT_TOLERANCE = 0.0001;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split an amount by percentages; the last share takes the rounding
+ * difference so the parts always add up to the amount
+ */
+export function splitAmount(amount: number, percentages: number[]): number[] {
+  const parts: number[] = [];
+  let remaining = round2(amount);
+  percentages.forEach((percentage, index) => {
+    const part = index === percentages.length - 1 ? remaining : round2((amount * percentage) / 100);
+    parts.push(part);
+    remaining = round2(remaining - part);
+  });
+  return parts;
+}
+
+function toRuleResponse(rule: any) {
+  return {
+    id: rule.id,
+    clientCompanyId: rule.clientCompanyId,
+    name: rule.name,
+    sourceAccountCode: rule.sourceAccountCode,
+    dimensionId: rule.dimensionId,
+    dimension: rule.dimension ? { id: rule.dimension.id, code: rule.dimension.code, name: rule.dimension.name } : undefined,
+    isActive: rule.isActive,
+    targets: (rule.targets ?? []).map((target: any) => ({
+      id: target.id,
+      dimensionValueId: target.dimensionValueId,
+      dimensionValue: target.dimensionValue
+        ? { id: target.dimensionValue.id, code: target.dimensionValue.code, name: target.dimensionValue.name }
+        : undefined,
+      percentage: Number(target.percentage),
+    })),
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+function toRunResponse(run: any) {
+  return {
+    id: run.id,
+    ruleId: run.ruleId,
+    period: run.period,
+    amount: Number(run.amount),
+    transactionId: run.transactionId,
+    createdAt: run.createdAt,
+  };
+}
+
+const RULE_INCLUDE = {
+  dimension: true,
+  targets: { include: { dimensionValue: true }, orderBy: { percentage: "desc" as const } },
+};
+
+export class CostAllocationService {
+  /**
+   * Dağıtım kuralları of a client company
+   */
+  async listRules(tenantId: string, clientCompanyId: string) {
+    const rules = await prisma.allocationRule.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { name: "asc" },
+      include: RULE_INCLUDE,
+    });
+    return rules.map(toRuleResponse);
+  }
+
+  async getRule(tenantId: string, id: string) {
+    const rule = await prisma.allocationRule.findFirst({ where: { id, tenantId }, include: RULE_INCLUDE });
+    if (!rule) throw new NotFoundError("Dağıtım kuralı bulunamadı.");
+    return toRuleResponse(rule);
+  }
+
+  async createRule(tenantId: string, input: AllocationRuleInput) {
+    const client = await prisma.clientCompany.findFirst({ where: { id: input.clientCompanyId, tenantId } });
+    if (!client) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const dimension = await prisma.dimension.findFirst({ where: { id: input.dimensionId, tenantId, isActive: true } });
+    if (!dimension) throw new NotFoundError("Boyut bulunamadı.");
+
+    const sourceAccountCode = input.sourceAccountCode.trim();
+    const account = await prisma.ledgerAccount.findFirst({
+      where: {
+        tenantId,
+        code: sourceAccountCode,
+        OR: [{ clientCompanyId: input.clientCompanyId }, { clientCompanyId: null }],
+      },
+    });
+    if (!account) throw new ValidationError(`${sourceAccountCode} hesabı hesap planında bulunamadı.`);
+
+    await this.assertTargets(tenantId, dimension.id, input.targets);
+
+    const rule = await prisma.allocationRule.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        name: sanitizeString(input.name),
+        sourceAccountCode,
+        dimensionId: dimension.id,
+        targets: {
+          create: input.targets.map((target) => ({
+            tenantId,
+            dimensionValueId: target.dimensionValueId,
+            percentage: target.percentage,
+          })),
+        },
+      },
+      include: RULE_INCLUDE,
+    });
+    return toRuleResponse(rule);
+  }
+
+  async updateRule(tenantId: string, id: string, input: UpdateAllocationRuleInput) {
+    const existing = await prisma.allocationRule.findFirst({ where: { id, tenantId } });
+    if (!existing) throw new NotFoundError("Dağıtım kuralı bulunamadı.");
+
+    if (input.targets) {
+      await this.assertTargets(tenantId, existing.dimensionId, input.targets);
+    }
+
+    const rule = await prisma.$transaction(async (tx) => {
+      if (input.targets) {
+        await tx.allocationRuleTarget.deleteMany({ where: { ruleId: id } });
+      }
+      return tx.allocationRule.update({
+        where: { id },
+        data: {
+          name: input.name !== undefined ? sanitizeString(input.name) : undefined,
+          isActive: input.isActive,
+          ...(input.targets && {
+            targets: {
+              create: input.targets.map((target) => ({
+                tenantId,
+                dimensionValueId: target.dimensionValueId,
+                percentage: target.percentage,
+              })),
+            },
+          }),
+        },
+        include: RULE_INCLUDE,
+      });
+    });
+    return toRuleResponse(rule);
+  }
+
+  /**
+   * A rule that was run keeps its history; deactivate it instead
+   */
+  async deleteRule(tenantId: string, id: string): Promise<void> {
+    const existing = await prisma.allocationRule.findFirst({ where: { id, tenantId } });
+    if (!existing) throw new NotFoundError("Dağıtım kuralı bulunamadı.");
+
+    const runs = await prisma.allocationRun.count({ where: { ruleId: id } });
+    if (runs > 0) {
+      throw new ValidationError("Bu kuralla yapılmış dağıtımlar var; kuralı silmek yerine pasife alın.");
+    }
+
+    await prisma.allocationRule.delete({ where: { id } });
+  }
+
+  async listRuns(tenantId: string, ruleId: string) {
+    const runs = await prisma.allocationRun.findMany({
+      where: { tenantId, ruleId },
+      orderBy: { period: "desc" },
+    });
+    return runs.map(toRunResponse);
+  }
+
+  /**
+   * What a run would post for the month
+   */
+  async preview(tenantId: string, ruleId: string, period: string): Promise<AllocationPreview> {
+    const rule = await prisma.allocationRule.findFirst({ where: { id: ruleId, tenantId }, include: RULE_INCLUDE });
+    if (!rule) throw new NotFoundError("Dağıtım kuralı bulunamadı.");
+
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+    const lines = await prisma.transactionLine.findMany({
+      where: {
+        tenantId,
+        transaction: { clientCompanyId: rule.clientCompanyId, date: { gte: periodStart, lte: periodEnd } },
+        ledgerAccount: {
+          OR: [{ code: rule.sourceAccountCode }, { code: { startsWith: `${rule.sourceAccountCode}.` } }],
+        },
+        dimensions: { none: { dimensionId: rule.dimensionId } },
+      },
+      select: {
+        ledgerAccountId: true,
+        debitAmount: true,
+        creditAmount: true,
+        ledgerAccount: { select: { code: true, name: true } },
+      },
+    });
+
+    const pools = new Map<string, { code: string; name: string; amount: number }>();
+    for (const line of lines) {
+      const pool = pools.get(line.ledgerAccountId) ?? { code: line.ledgerAccount.code, name: line.ledgerAccount.name, amount: 0 };
+      pool.amount += Number(line.debitAmount) - Number(line.creditAmount);
+      pools.set(line.ledgerAccountId, pool);
+    }
+
+    const percentages = rule.targets.map((target) => Number(target.percentage));
+    const accounts: AllocationAccountPool[] = [...pools.entries()]
+      .map(([ledgerAccountId, pool]) => ({ ledgerAccountId, ...pool, amount: round2(pool.amount) }))
+      .filter((pool) => pool.amount !== 0)
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .map((pool) => {
+        const parts = splitAmount(pool.amount, percentages);
+        return {
+          ...pool,
+          splits: rule.targets.map((target, index) => ({
+            dimensionValueId: target.dimensionValueId,
+            percentage: percentages[index],
+            amount: parts[index],
+          })),
+        };
+      });
+
+    const run = await prisma.allocationRun.findUnique({ where: { ruleId_period: { ruleId, period } } });
+
+    return {
+      ruleId,
+      period,
+      amount: round2(accounts.reduce((sum, account) => sum + account.amount, 0)),
+      accounts,
+      run: run ? toRunResponse(run) : null,
+    };
+  }
+
+  /**
+   * Post the month's allocation as one journal entry dated the last day of
+   * the month
+   */
+  async run(tenantId: string, userId: string, ruleId: string, period: string) {
+    const rule = await prisma.allocationRule.findFirst({ where: { id: ruleId, tenantId } });
+    if (!rule) throw new NotFoundError("Dağıtım kuralı bulunamadı.");
+    if (!rule.isActive) throw new ValidationError("Pasif bir dağıtım kuralı çalıştırılamaz.");
+
+    const { periodEnd } = getPeriodBounds(period);
+    await accountingPeriodService.assertDateWritable(tenantId, rule.clientCompanyId, periodEnd);
+
+    const preview = await this.preview(tenantId, ruleId, period);
+    if (preview.run) {
+      throw new ValidationError(`${period} dönemi için bu kuralla dağıtım zaten yapılmış.`);
+    }
+    if (preview.accounts.length === 0) {
+      throw new ValidationError(`${period} döneminde dağıtılacak boyutsuz tutar yok.`);
+    }
+
+    const description = `${period} ${rule.name} dağıtımı`;
+    const lines = preview.accounts.flatMap((account) => {
+      const debit = account.amount > 0;
+      return [
+        {
+          tenantId,
+          ledgerAccountId: account.ledgerAccountId,
+          debitAmount: debit ? 0 : -account.amount,
+          creditAmount: debit ? account.amount : 0,
+          description,
+        },
+        ...account.splits
+          .filter((split) => split.amount !== 0)
+          .map((split) => ({
+            tenantId,
+            ledgerAccountId: account.ledgerAccountId,
+            debitAmount: debit ? split.amount : 0,
+            creditAmount: debit ? 0 : -split.amount,
+            description,
+            dimensions: {
+              create: [{ tenantId, dimensionId: rule.dimensionId, dimensionValueId: split.dimensionValueId }],
+            },
+          })),
+      ];
+    });
+
+    const run = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          tenantId,
+          clientCompanyId: rule.clientCompanyId,
+          date: periodEnd,
+          referenceNo: `DGT-${period}`,
+          description,
+          source: "allocation",
+          lines: { create: lines },
+        },
+      });
+
+      return tx.allocationRun.create({
+        data: {
+          tenantId,
+          clientCompanyId: rule.clientCompanyId,
+          ruleId,
+          period,
+          amount: preview.amount,
+          transactionId: transaction.id,
+          createdByUserId: userId,
+        },
+      });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "ALLOCATION_RUN_POSTED",
+      resourceType: "AllocationRun",
+      resourceId: run.id,
+      metadata: { ruleId, period, transactionId: run.transactionId, amount: preview.amount },
+    });
+
+    logger.info("Cost allocation posted", undefined, { tenantId, ruleId, period });
+    return toRunResponse(run);
+  }
+
+  /**
+   * Reverse a month's allocation
+   */
+  async undo(tenantId: string, userId: string, ruleId: string, period: string): Promise<void> {
+    const run = await prisma.allocationRun.findFirst({ where: { tenantId, ruleId, period } });
+    if (!run) throw new NotFoundError("Dağıtım kaydı bulunamadı.");
+
+    const { periodEnd } = getPeriodBounds(period);
+    await accountingPeriodService.assertDateWritable(tenantId, run.clientCompanyId, periodEnd);
+
+    await prisma.$transaction(async (tx) => {
+      if (run.transactionId) {
+        await tx.transaction.deleteMany({ where: { id: run.transactionId, tenantId } });
+      }
+      await tx.allocationRun.delete({ where: { id: run.id } });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "ALLOCATION_RUN_REVERSED",
+      resourceType: "AllocationRun",
+      resourceId: run.id,
+      metadata: { ruleId, period, transactionId: run.transactionId },
+    });
+  }
+
+  private async assertTargets(tenantId: string, dimensionId: string, targets: AllocationTargetInput[]) {
+    if (targets.length === 0) {
+      throw new ValidationError("En az bir dağıtım hedefi gerekli.");
+    }
+
+    const ids = new Set(targets.map((target) => target.dimensionValueId));
+    if (ids.size !== targets.length) {
+      throw new ValidationError("Aynı boyut değeri birden fazla hedefte kullanılamaz.");
+    }
+
+    if (targets.some((target) => target.percentage <= 0)) {
+      throw new ValidationError("Dağıtım oranları sıfırdan büyük olmalıdır.");
+    }
+
+    const total = targets.reduce((sum, target) => sum + target.percentage, 0);
+    if (Math.abs(total - 100) > PERCENT_TOLERANCE) {
+      throw new ValidationError(`Dağıtım oranlarının toplamı 100 olmalıdır (şu an ${round2(total)}).`);
+    }
+
+    const values = await prisma.dimensionValue.findMany({
+      where: { id: { in: [...ids] }, tenantId, dimensionId, isActive: true },
+      select: { id: true },
+    });
+    if (values.length !== ids.size) {
+      throw new ValidationError("Dağıtım hedefleri kuralın boyutuna ait aktif değerler olmalıdır.");
+    }
+  }
+}
+
+export const costAllocationService = new CostAllocationService();
@@ -1,8 +1,10 @@
 import { prisma } from "../lib/prisma";
 import { NotFoundError } from "@repo/shared-utils";
 import { riskAlertService } from "./risk-alert-service";
+import { counterpartyService } from "./counterparty-service";
 
 export interface CounterpartyHistory {
+  counterpartyId: string | null; // cari kart, null when the counterparty has none
   counterpartyName: string;
   counterpartyTaxNumber: string | null;
   firstSeenDate: Date;
@@ -21,7 +23,8 @@ export interface CounterpartyAnalysisResult {
 
 export class CounterpartyAnalysisService {
   /**
-   * Analyze counterparty for a transaction or invoice
+   * Analyze counterparty for a transaction or invoice. With asOf only the
+   * history up to that date counts.
    */
   async analyzeCounterparty(
     tenantId: string,
@@ -29,14 +32,16 @@ export class CounterpartyAnalysisService {
     counterpartyName: string,
     counterpartyTaxNumber: string | null,
     amount: number,
-    date: Date
+    date: Date,
+    asOf?: Date
   ): Promise<CounterpartyAnalysisResult> {
     // Get counterparty history for this client company
     const history = await this.getCounterpartyHistory(
       tenantId,
       clientCompanyId,
       counterpartyName,
-      counterpartyTaxNumber
+      counterpartyTaxNumber,
+      asOf
     );
 
     const isNewCounterparty = !history;
@@ -83,24 +88,38 @@ export class CounterpartyAnalysisService {
   }
 
   /**
-   * Get counterparty history for a client company
+   * Get counterparty history for a client company. With a cari kart the
+   * history is the card's invoices and the postings on its 120/320
+   * sub-accounts; without one it falls back to the free-text name.
    */
   async getCounterpartyHistory(
     tenantId: string,
     clientCompanyId: string,
     counterpartyName: string,
-    counterpartyTaxNumber: string | null
+    counterpartyTaxNumber: string | null,
+    asOf?: Date
   ): Promise<CounterpartyHistory | null> {
+    const card = await counterpartyService.resolve(tenantId, clientCompanyId, counterpartyName, counterpartyTaxNumber);
+    const accountCodes = card
+      ? [card.receivableAccountCode, card.payableAccountCode].filter((code): code is string => !!code)
+      : [];
+    const onCardAccounts = { ledgerAccount: { code: { in: accountCodes } } };
+
     // Get all invoices and transactions with this counterparty
     const [invoices, transactions] = await Promise.all([
       prisma.invoice.findMany({
         where: {
-          tenantId,
-          clientCompanyId,
-          OR: [
-            { counterpartyName },
-            ...(counterpartyTaxNumber ? [{ counterpartyTaxNumber }] : []),
-          ],
+          ...(card
+            ? { tenantId, clientCompanyId, counterpartyId: card.id }
+            : {
+                tenantId,
+                clientCompanyId,
+                OR: [
+                  { counterpartyName },
+                  ...(counterpartyTaxNumber ? [{ counterpartyTaxNumber }] : []),
+                ],
+              }),
+          ...(asOf ? { issueDate: { lte: asOf } } : {}),
         },
         select: {
           issueDate: true,
@@ -110,15 +129,21 @@ export class CounterpartyAnalysisService {
       }),
       prisma.transaction.findMany({
         where: {
-          tenantId,
-          clientCompanyId,
-          description: {
-            contains: counterpartyName,
-          },
+          ...(accountCodes.length > 0
+            ? { tenantId, clientCompanyId, lines: { some: onCardAccounts } }
+            : {
+                tenantId,
+                clientCompanyId,
+                description: {
+                  contains: counterpartyName,
+                },
+              }),
+          ...(asOf ? { date: { lte: asOf } } : {}),
         },
         select: {
           date: true,
           lines: {
+            ...(accountCodes.length > 0 && { where: onCardAccounts }),
             select: {
               debitAmount: true,
               creditAmount: true,
@@ -160,8 +185,9 @@ export class CounterpartyAnalysisService {
     const averageAmount = totalAmount / allAmounts.length;
 
     return {
-      counterpartyName,
-      counterpartyTaxNumber,
+      counterpartyId: card?.id ?? null,
+      counterpartyName: card?.name ?? counterpartyName,
+      counterpartyTaxNumber: card?.taxNumber ?? counterpartyTaxNumber,
       firstSeenDate: sortedDates[0],
       lastSeenDate: sortedDates[sortedDates.length - 1],
       transactionCount: allDates.length,
@@ -212,39 +238,23 @@ export class CounterpartyAnalysisService {
   }
 
   /**
-   * Get all counterparties for a client company
+   * Get all counterparties (active cari kartlar) for a client company
    */
   async listCounterparties(
     tenantId: string,
     clientCompanyId: string
   ): Promise<CounterpartyHistory[]> {
-    // Get unique counterparties from invoices
-    const invoices = await prisma.invoice.findMany({
-      where: {
-        tenantId,
-        clientCompanyId,
-        counterpartyName: { not: null },
-      },
-      select: {
-        counterpartyName: true,
-        counterpartyTaxNumber: true,
-      },
-      distinct: ["counterpartyName", "counterpartyTaxNumber"],
+    const cards = await prisma.counterparty.findMany({
+      where: { tenantId, clientCompanyId, isActive: true },
+      select: { name: true, taxNumber: true },
     });
 
     const counterparties: CounterpartyHistory[] = [];
 
-    for (const inv of invoices) {
-      if (inv.counterpartyName) {
-        const history = await this.getCounterpartyHistory(
-          tenantId,
-          clientCompanyId,
-          inv.counterpartyName,
-          inv.counterpartyTaxNumber
-        );
-        if (history) {
-          counterparties.push(history);
-        }
+    for (const card of cards) {
+      const history = await this.getCounterpartyHistory(tenantId, clientCompanyId, card.name, card.taxNumber);
+      if (history) {
+        counterparties.push(history);
       }
     }
 
@@ -0,0 +1,500 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import { normalizeTaxNumber } from "./babs-form-service";
+import { parseAccountCode } from "./chart-of-accounts";
+import { ledgerAccountService } from "./ledger-account-service";
+
+/**
+ * Cari hesaplar
+ *
+ * Customer and supplier master data per client company. Invoices carry the
+ * counterparty as free text; they are linked to a cari kart by VKN/TCKN,
+ * or by name when the invoice has no tax number. A card can be tied to its
+ * own 120 (alıcılar) and 320 (satıcılar) sub-accounts.
+ */
+
+const RECEIVABLE_MAIN_ACCOUNT = "120";
+const PAYABLE_MAIN_ACCOUNT = "320";
+const MAX_ALIASES = 20;
+
+export type CounterpartyType = "customer" | "supplier" | "both";
+
+export interface CounterpartyAddress {
+  label?: string | null; // Merkez, Şube, Sevk adresi
+  address: string;
+  district?: string | null;
+  city?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+}
+
+export interface CounterpartyInput {
+  clientCompanyId: string;
+  name: string;
+  taxNumber?: string | null;
+  taxOffice?: string | null;
+  type?: CounterpartyType;
+  email?: string | null;
+  phone?: string | null;
+  addresses?: CounterpartyAddress[];
+  ibans?: string[];
+  aliases?: string[];
+  paymentTermDays?: number | null;
+  receivableAccountCode?: string | null;
+  payableAccountCode?: string | null;
+  createLedgerAccounts?: boolean; // open the next free 120.xxxx / 320.xxxx for the card
+}
+
+export type UpdateCounterpartyInput = Partial<Omit<CounterpartyInput, "clientCompanyId">> & {
+  isActive?: boolean;
+};
+
+export interface ListCounterpartiesFilters {
+  clientCompanyId?: string;
+  type?: CounterpartyType;
+  search?: string;
+  isActive?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CounterpartySyncResult {
+  created: number;
+  linked: number;
+  unmatched: number; // invoices with neither a valid VKN/TCKN nor a known name
+}
+
+interface MatchableCard {
+  id: string;
+  name: string;
+  taxNumber: string | null;
+  type: string;
+  aliases: string[];
+}
+
+/** Upper-case, punctuation-free form used to compare company names */
+export function normalizeCounterpartyName(value: string | null | undefined): string {
+  return (value ?? "")
+    .toLocaleUpperCase("tr-TR")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function normalizeIban(value: string): string {
+  return value.replace(/\s+/g, "").toUpperCase();
+}
+
+function validateIban(iban: string): void {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(iban) || (iban.startsWith("TR") && iban.length !== 26)) {
+    throw new ValidationError(`Geçersiz IBAN: ${iban}`);
+  }
+}
+
+/**
+ * Find the card of an invoice counterparty: the VKN/TCKN decides when
+ * there is one, otherwise the name or one of the card's aliases
+ */
+function matchCard<T extends MatchableCard>(cards: T[], name: string | null, taxNumber: string | null): T | null {
+  const normalizedTaxNumber = normalizeTaxNumber(taxNumber);
+  if (normalizedTaxNumber) {
+    return cards.find((card) => card.taxNumber === normalizedTaxNumber) ?? null;
+  }
+
+  const normalizedName = normalizeCounterpartyName(name);
+  if (!normalizedName) {
+    return null;
+  }
+  return (
+    cards.find(
+      (card) =>
+        normalizeCounterpartyName(card.name) === normalizedName ||
+        card.aliases.some((alias) => normalizeCounterpartyName(alias) === normalizedName)
+    ) ?? null
+  );
+}
+
+function typeForInvoice(invoiceType: string): CounterpartyType {
+  return invoiceType === "ALIŞ" ? "supplier" : "customer";
+}
+
+function mergeType(current: string, invoiceType: string): CounterpartyType {
+  const needed = typeForInvoice(invoiceType);
+  return current === needed || current === "both" ? (current as CounterpartyType) : "both";
+}
+
+export class CounterpartyService {
+  /**
+   * List cari kartlar
+   */
+  async list(tenantId: string, filters: ListCounterpartiesFilters = {}) {
+    const page = filters.page || 1;
+    const pageSize = Math.min(filters.pageSize || 20, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: any = { tenantId };
+    if (filters.clientCompanyId) where.clientCompanyId = filters.clientCompanyId;
+    if (filters.type) where.type = { in: [filters.type, "both"] };
+    if (filters.isActive !== undefined) where.isActive = filters.isActive;
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: "insensitive" } },
+        { taxNumber: { contains: filters.search } },
+      ];
+    }
+
+    const [items, total] = await Promise.all([
+      prisma.counterparty.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { name: "asc" },
+        include: {
+          clientCompany: { select: { id: true, name: true } },
+          _count: { select: { invoices: true } },
+        },
+      }),
+      prisma.counterparty.count({ where }),
+    ]);
+
+    return {
+      data: items.map(({ _count, ...item }) => ({ ...item, invoiceCount: _count.invoices })),
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  /**
+   * Get by ID
+   */
+  async getById(tenantId: string, id: string) {
+    const counterparty = await prisma.counterparty.findFirst({
+      where: { id, tenantId },
+      include: {
+        clientCompany: { select: { id: true, name: true } },
+        _count: { select: { invoices: true } },
+      },
+    });
+    if (!counterparty) throw new NotFoundError("Cari hesap bulunamadı.");
+
+    const { _count, ...item } = counterparty;
+    return { ...item, invoiceCount: _count.invoices };
+  }
+
+  /**
+   * Create a cari kart and link the client's existing invoices to it
+   */
+  async create(tenantId: string, input: CounterpartyInput) {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: input.clientCompanyId, tenantId },
+      select: { id: true },
+    });
+    if (!client) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const taxNumber = this.parseTaxNumber(input.taxNumber);
+    if (taxNumber) {
+      await this.assertTaxNumberFree(tenantId, input.clientCompanyId, taxNumber);
+    }
+
+    const type = input.type ?? "customer";
+    const counterparty = await prisma.counterparty.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        name: sanitizeString(input.name),
+        taxNumber,
+        taxOffice: input.taxOffice ? sanitizeString(input.taxOffice) : null,
+        type,
+        email: input.email ?? null,
+        phone: input.phone ?? null,
+        addresses: (input.addresses ?? []) as any,
+        ibans: this.parseIbans(input.ibans),
+        aliases: (input.aliases ?? []).map((alias) => sanitizeString(alias)).slice(0, MAX_ALIASES),
+        paymentTermDays: input.paymentTermDays ?? null,
+        receivableAccountCode: await this.resolveAccountCode(
+          tenantId, input.clientCompanyId, RECEIVABLE_MAIN_ACCOUNT, input.receivableAccountCode, input.name,
+          !!input.createLedgerAccounts && type !== "supplier"
+        ),
+        payableAccountCode: await this.resolveAccountCode(
+          tenantId, input.clientCompanyId, PAYABLE_MAIN_ACCOUNT, input.payableAccountCode, input.name,
+          !!input.createLedgerAccounts && type !== "customer"
+        ),
+      },
+    });
+
+    await this.linkUnassignedInvoices(tenantId, counterparty);
+    return this.getById(tenantId, counterparty.id);
+  }
+
+  /**
+   * Update a cari kart
+   */
+  async update(tenantId: string, id: string, input: UpdateCounterpartyInput) {
+    const existing = await prisma.counterparty.findFirst({ where: { id, tenantId } });
+    if (!existing) throw new NotFoundError("Cari hesap bulunamadı.");
+
+    const data: any = {};
+    if (input.taxNumber !== undefined) {
+      data.taxNumber = this.parseTaxNumber(input.taxNumber);
+      if (data.taxNumber && data.taxNumber !== existing.taxNumber) {
+        await this.assertTaxNumberFree(tenantId, existing.clientCompanyId, data.taxNumber);
+      }
+    }
+    if (input.name !== undefined) data.name = sanitizeString(input.name);
+    if (input.taxOffice !== undefined) data.taxOffice = input.taxOffice ? sanitizeString(input.taxOffice) : null;
+    if (input.type !== undefined) data.type = input.type;
+    if (input.email !== undefined) data.email = input.email;
+    if (input.phone !== undefined) data.phone = input.phone;
+    if (input.addresses !== undefined) data.addresses = input.addresses as any;
+    if (input.ibans !== undefined) data.ibans = this.parseIbans(input.ibans);
+    if (input.aliases !== undefined) data.aliases = input.aliases.map((alias) => sanitizeString(alias)).slice(0, MAX_ALIASES);
+    if (input.paymentTermDays !== undefined) data.paymentTermDays = input.paymentTermDays;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+
+    const type = input.type ?? existing.type;
+    const name = input.name ?? existing.name;
+    if (input.receivableAccountCode !== undefined || (input.createLedgerAccounts && !existing.receivableAccountCode)) {
+      data.receivableAccountCode = await this.resolveAccountCode(
+        tenantId, existing.clientCompanyId, RECEIVABLE_MAIN_ACCOUNT, input.receivableAccountCode, name,
+        !!input.createLedgerAccounts && type !== "supplier"
+      );
+    }
+    if (input.payableAccountCode !== undefined || (input.createLedgerAccounts && !existing.payableAccountCode)) {
+      data.payableAccountCode = await this.resolveAccountCode(
+        tenantId, existing.clientCompanyId, PAYABLE_MAIN_ACCOUNT, input.payableAccountCode, name,
+        !!input.createLedgerAccounts && type !== "customer"
+      );
+    }
+
+    const updated = await prisma.counterparty.update({ where: { id }, data });
+
+    // A new VKN or name may pick up invoices that had no card yet
+    if (data.taxNumber !== undefined || data.name !== undefined || data.aliases !== undefined) {
+      await this.linkUnassignedInvoices(tenantId, updated);
+    }
+    return this.getById(tenantId, id);
+  }
+
+  /**
+   * Link one invoice to its cari kart, opening a card from the invoice
+   * when the VKN/TCKN is not known yet
+   */
+  async linkInvoice(tenantId: string, invoiceId: string): Promise<string | null> {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: { id: true, clientCompanyId: true, type: true, counterpartyName: true, counterpartyTaxNumber: true, counterpartyId: true },
+    });
+    if (!invoice) throw new NotFoundError("Fatura bulunamadı.");
+
+    const cards = await prisma.counterparty.findMany({
+      where: { tenantId, clientCompanyId: invoice.clientCompanyId },
+      select: { id: true, name: true, taxNumber: true, type: true, aliases: true },
+    });
+
+    const card = await this.findOrOpenCard(tenantId, invoice.clientCompanyId, cards, invoice);
+    if (card?.id !== invoice.counterpartyId) {
+      await prisma.invoice.update({ where: { id: invoice.id }, data: { counterpartyId: card?.id ?? null } });
+    }
+    return card?.id ?? null;
+  }
+
+  /**
+   * Link every invoice of a client company without a card; unknown VKN/TCKNs
+   * get a card opened from the invoice
+   */
+  async syncFromInvoices(tenantId: string, clientCompanyId: string): Promise<CounterpartySyncResult> {
+    const [cards, invoices] = await Promise.all([
+      prisma.counterparty.findMany({
+        where: { tenantId, clientCompanyId },
+        select: { id: true, name: true, taxNumber: true, type: true, aliases: true },
+      }),
+      prisma.invoice.findMany({
+        where: { tenantId, clientCompanyId, counterpartyId: null },
+        select: { id: true, type: true, counterpartyName: true, counterpartyTaxNumber: true },
+        orderBy: { issueDate: "asc" },
+      }),
+    ]);
+
+    const createdBefore = cards.length;
+    const linkedIds = new Map<string, string[]>();
+    let unmatched = 0;
+
+    for (const invoice of invoices) {
+      const card = await this.findOrOpenCard(tenantId, clientCompanyId, cards, invoice);
+      if (!card) {
+        unmatched++;
+        continue;
+      }
+      linkedIds.set(card.id, [...(linkedIds.get(card.id) ?? []), invoice.id]);
+    }
+
+    for (const [counterpartyId, ids] of linkedIds) {
+      await prisma.invoice.updateMany({ where: { tenantId, id: { in: ids } }, data: { counterpartyId } });
+    }
+
+    const result = {
+      created: cards.length - createdBefore,
+      linked: invoices.length - unmatched,
+      unmatched,
+    };
+    logger.info(`Synced counterparties for client ${clientCompanyId}`, undefined, result);
+    return result;
+  }
+
+  /**
+   * The cari kart behind a free-text counterparty, if there is one
+   */
+  async resolve(tenantId: string, clientCompanyId: string, name: string | null, taxNumber: string | null) {
+    const cards = await prisma.counterparty.findMany({
+      where: { tenantId, clientCompanyId },
+    });
+    return matchCard(cards, name, taxNumber);
+  }
+
+  /**
+   * Match against the loaded cards; a new VKN/TCKN opens a card, a known
+   * one learns the invoice's spelling of the name and the other side
+   * (müşteri ↔ tedarikçi). Cards are updated in place so a batch sees them.
+   */
+  private async findOrOpenCard(
+    tenantId: string,
+    clientCompanyId: string,
+    cards: MatchableCard[],
+    invoice: { type: string; counterpartyName: string | null; counterpartyTaxNumber: string | null }
+  ): Promise<MatchableCard | null> {
+    const card = matchCard(cards, invoice.counterpartyName, invoice.counterpartyTaxNumber);
+    const taxNumber = normalizeTaxNumber(invoice.counterpartyTaxNumber);
+
+    if (!card) {
+      if (!taxNumber) return null;
+      const created = await prisma.counterparty.create({
+        data: {
+          tenantId,
+          clientCompanyId,
+          name: invoice.counterpartyName ? sanitizeString(invoice.counterpartyName) : taxNumber,
+          taxNumber,
+          type: typeForInvoice(invoice.type),
+          ibans: [],
+          aliases: [],
+        },
+        select: { id: true, name: true, taxNumber: true, type: true, aliases: true },
+      });
+      cards.push(created);
+      return created;
+    }
+
+    const data: { type?: string; aliases?: string[] } = {};
+    const type = mergeType(card.type, invoice.type);
+    if (type !== card.type) data.type = type;
+
+    const spelling = normalizeCounterpartyName(invoice.counterpartyName);
+    if (
+      taxNumber &&
+      spelling &&
+      spelling !== normalizeCounterpartyName(card.name) &&
+      !card.aliases.some((alias) => normalizeCounterpartyName(alias) === spelling) &&
+      card.aliases.length < MAX_ALIASES
+    ) {
+      data.aliases = [...card.aliases, sanitizeString(invoice.counterpartyName!)];
+    }
+
+    if (data.type || data.aliases) {
+      await prisma.counterparty.update({ where: { id: card.id }, data });
+      Object.assign(card, data);
+    }
+    return card;
+  }
+
+  private async linkUnassignedInvoices(
+    tenantId: string,
+    card: MatchableCard & { clientCompanyId: string }
+  ): Promise<number> {
+    const invoices = await prisma.invoice.findMany({
+      where: { tenantId, clientCompanyId: card.clientCompanyId, counterpartyId: null },
+      select: { id: true, counterpartyName: true, counterpartyTaxNumber: true },
+    });
+    const ids = invoices
+      .filter((invoice) => matchCard([card], invoice.counterpartyName, invoice.counterpartyTaxNumber))
+      .map((invoice) => invoice.id);
+
+    if (ids.length > 0) {
+      await prisma.invoice.updateMany({ where: { tenantId, id: { in: ids } }, data: { counterpartyId: card.id } });
+    }
+    return ids.length;
+  }
+
+  private parseTaxNumber(value: string | null | undefined): string | null {
+    if (!value || !value.trim()) return null;
+    const taxNumber = normalizeTaxNumber(value);
+    if (!taxNumber) {
+      throw new ValidationError("VKN 10, TCKN 11 haneli olmalıdır.");
+    }
+    return taxNumber;
+  }
+
+  private parseIbans(values: string[] | undefined): string[] {
+    const ibans = Array.from(new Set((values ?? []).map(normalizeIban).filter((iban) => iban.length > 0)));
+    ibans.forEach(validateIban);
+    return ibans;
+  }
+
+  private async assertTaxNumberFree(tenantId: string, clientCompanyId: string, taxNumber: string): Promise<void> {
+    const duplicate = await prisma.counterparty.findFirst({
+      where: { tenantId, clientCompanyId, taxNumber },
+      select: { id: true },
+    });
+    if (duplicate) {
+      throw new ValidationError("Bu VKN/TCKN ile kayıtlı bir cari hesap zaten var.");
+    }
+  }
+
+  /**
+   * A given code must be a sub-account of 120 / 320 and is opened if the
+   * chart does not have it; otherwise the next free 120.xxxx / 320.xxxx is
+   * opened when requested
+   */
+  private async resolveAccountCode(
+    tenantId: string,
+    clientCompanyId: string,
+    mainAccount: string,
+    code: string | null | undefined,
+    name: string,
+    openNext: boolean
+  ): Promise<string | null> {
+    if (code) {
+      const parsed = parseAccountCode(code);
+      if (parsed.mainAccountCode !== mainAccount || parsed.level < 2) {
+        throw new ValidationError(`Cari hesap kodu ${mainAccount} hesabının alt hesabı olmalıdır (${mainAccount}.xxxx).`);
+      }
+      const existing = await prisma.ledgerAccount.findFirst({
+        where: { tenantId, code, OR: [{ clientCompanyId }, { clientCompanyId: null }] },
+        select: { id: true },
+      });
+      if (!existing) {
+        await ledgerAccountService.resolveAccountIds(tenantId, clientCompanyId, [mainAccount]);
+        await ledgerAccountService.createLedgerAccount(tenantId, { clientCompanyId, code, name: sanitizeString(name) });
+      }
+      return code;
+    }
+
+    if (!openNext) {
+      return null;
+    }
+
+    await ledgerAccountService.resolveAccountIds(tenantId, clientCompanyId, [mainAccount]);
+    const siblings = await prisma.ledgerAccount.findMany({
+      where: { tenantId, clientCompanyId, code: { startsWith: `${mainAccount}.` } },
+      select: { code: true },
+    });
+    const last = siblings
+      .map((account) => parseAccountCode(account.code).segments)
+      .filter((segments) => segments.length === 2)
+      .map((segments) => parseInt(segments[1], 10))
+      .filter((n) => !isNaN(n))
+      .reduce((max, n) => Math.max(max, n), 0);
+
+    const next = `${mainAccount}.${String(last + 1).padStart(4, "0")}`;
+    await ledgerAccountService.createLedgerAccount(tenantId, { clientCompanyId, code: next, name: sanitizeString(name) });
+    return next;
+  }
+}
+
+export const counterpartyService = new CounterpartyService();
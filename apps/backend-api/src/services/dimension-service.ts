@@ -0,0 +1,452 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString } from "@repo/shared-utils";
+
+/**
+ * Analitik boyutlar
+ *
+ * Tenant-defined dimensions (masraf merkezi, proje, şube or free tags) whose
+ * values are attached to journal and invoice lines. A line carries at most
+ * one value per dimension unless the dimension allows several (tags).
+ * Lines posted without a value pick up the default of their ledger account
+ * (journal lines) or of the invoice's cari kart (invoice lines).
+ */
+
+export type DimensionType = "cost_center" | "project" | "branch" | "tag";
+
+export interface DimensionInput {
+  code: string; // e.g. MM, PROJE, SUBE
+  name: string;
+  type?: DimensionType;
+  allowMultiple?: boolean;
+}
+
+export type UpdateDimensionInput = Partial<Omit<DimensionInput, "code">> & {
+  isActive?: boolean;
+};
+
+export interface DimensionValueInput {
+  code: string;
+  name: string;
+}
+
+export type UpdateDimensionValueInput = Partial<Omit<DimensionValueInput, "code">> & {
+  isActive?: boolean;
+};
+
+export interface DimensionDefaultInput {
+  dimensionValueId: string;
+  counterpartyId?: string | null;
+  ledgerAccountId?: string | null; // applies to its sub-accounts too
+}
+
+export interface ListDimensionDefaultsFilters {
+  clientCompanyId?: string;
+  counterpartyId?: string;
+  ledgerAccountId?: string;
+}
+
+export interface LineDimension {
+  dimensionId: string;
+  dimensionValueId: string;
+}
+
+export interface ApplyDefaultsResult {
+  invoices: number;
+  lines: number; // lines that received at least one value
+}
+
+const CODE_PATTERN = /^[A-Z0-9_.-]{1,50}$/;
+
+/**
+ * Add the defaults for every dimension the line has no value for; values
+ * given on the line always win
+ */
+export function mergeLineDimensions(explicit: LineDimension[], defaults: LineDimension[]): LineDimension[] {
+  const covered = new Set(explicit.map((entry) => entry.dimensionId));
+  const merged = [...explicit];
+  for (const entry of defaults) {
+    if (covered.has(entry.dimensionId)) continue;
+    covered.add(entry.dimensionId);
+    merged.push(entry);
+  }
+  return merged;
+}
+
+/** Whether a default set on `defaultCode` covers `accountCode` (the account or one of its sub-accounts) */
+export function accountCoveredBy(accountCode: string, defaultCode: string): boolean {
+  return accountCode === defaultCode || accountCode.startsWith(`${defaultCode}.`);
+}
+
+function normalizeCode(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+export class DimensionService {
+  /**
+   * Dimensions of the tenant with their values
+   */
+  async listDimensions(tenantId: string, options: { includeInactive?: boolean } = {}) {
+    return prisma.dimension.findMany({
+      where: { tenantId, ...(!options.includeInactive && { isActive: true }) },
+      orderBy: { code: "asc" },
+      include: {
+        values: {
+          where: options.includeInactive ? undefined : { isActive: true },
+          orderBy: { code: "asc" },
+        },
+      },
+    });
+  }
+
+  async createDimension(tenantId: string, input: DimensionInput) {
+    const code = normalizeCode(input.code);
+    if (!CODE_PATTERN.test(code) || code.length > 30) {
+      throw new ValidationError("Boyut kodu en fazla 30 karakter olmalı; harf, rakam, '_', '.' ve '-' içerebilir.");
+    }
+
+    const existing = await prisma.dimension.findFirst({ where: { tenantId, code } });
+    if (existing) {
+      throw new ValidationError(`${code} kodlu bir boyut zaten var.`);
+    }
+
+    const type = input.type ?? "cost_center";
+    return prisma.dimension.create({
+      data: {
+        tenantId,
+        code,
+        name: sanitizeString(input.name),
+        type,
+        allowMultiple: input.allowMultiple ?? type === "tag",
+      },
+      include: { values: true },
+    });
+  }
+
+  async updateDimension(tenantId: string, id: string, input: UpdateDimensionInput) {
+    const dimension = await prisma.dimension.findFirst({ where: { id, tenantId } });
+    if (!dimension) throw new NotFoundError("Boyut bulunamadı.");
+
+    if (input.allowMultiple === false && dimension.allowMultiple) {
+      const [transactionLines, invoiceLines] = await Promise.all([
+        prisma.transactionLineDimension.groupBy({
+          by: ["transactionLineId"],
+          where: { dimensionId: id },
+          having: { transactionLineId: { _count: { gt: 1 } } },
+        }),
+        prisma.invoiceLineDimension.groupBy({
+          by: ["invoiceLineId"],
+          where: { dimensionId: id },
+          having: { invoiceLineId: { _count: { gt: 1 } } },
+        }),
+      ]);
+      if (transactionLines.length + invoiceLines.length > 0) {
+        throw new ValidationError("Bu boyutta birden fazla değer taşıyan satırlar var; önce satırları düzeltin.");
+      }
+    }
+
+    return prisma.dimension.update({
+      where: { id },
+      data: {
+        name: input.name !== undefined ? sanitizeString(input.name) : undefined,
+        type: input.type,
+        allowMultiple: input.allowMultiple,
+        isActive: input.isActive,
+      },
+      include: { values: { orderBy: { code: "asc" } } },
+    });
+  }
+
+  async createValue(tenantId: string, dimensionId: string, input: DimensionValueInput) {
+    const dimension = await prisma.dimension.findFirst({ where: { id: dimensionId, tenantId } });
+    if (!dimension) throw new NotFoundError("Boyut bulunamadı.");
+
+    const code = normalizeCode(input.code);
+    if (!CODE_PATTERN.test(code)) {
+      throw new ValidationError("Değer kodu en fazla 50 karakter olmalı; harf, rakam, '_', '.' ve '-' içerebilir.");
+    }
+
+    const existing = await prisma.dimensionValue.findFirst({ where: { dimensionId, code } });
+    if (existing) {
+      throw new ValidationError(`${dimension.name} boyutunda ${code} kodlu bir değer zaten var.`);
+    }
+
+    return prisma.dimensionValue.create({
+      data: { tenantId, dimensionId, code, name: sanitizeString(input.name) },
+    });
+  }
+
+  async updateValue(tenantId: string, id: string, input: UpdateDimensionValueInput) {
+    const value = await prisma.dimensionValue.findFirst({ where: { id, tenantId } });
+    if (!value) throw new NotFoundError("Boyut değeri bulunamadı.");
+
+    return prisma.dimensionValue.update({
+      where: { id },
+      data: {
+        name: input.name !== undefined ? sanitizeString(input.name) : undefined,
+        isActive: input.isActive,
+      },
+    });
+  }
+
+  /**
+   * Defaults set on cari kartlar and ledger accounts
+   */
+  async listDefaults(tenantId: string, filters: ListDimensionDefaultsFilters = {}) {
+    const where: any = { tenantId };
+    if (filters.counterpartyId) where.counterpartyId = filters.counterpartyId;
+    if (filters.ledgerAccountId) where.ledgerAccountId = filters.ledgerAccountId;
+    if (filters.clientCompanyId) {
+      where.OR = [
+        { counterparty: { clientCompanyId: filters.clientCompanyId } },
+        { ledgerAccount: { OR: [{ clientCompanyId: filters.clientCompanyId }, { clientCompanyId: null }] } },
+      ];
+    }
+
+    return prisma.dimensionDefault.findMany({
+      where,
+      orderBy: { createdAt: "asc" },
+      include: {
+        dimensionValue: { include: { dimension: { select: { id: true, code: true, name: true } } } },
+        counterparty: { select: { id: true, name: true, taxNumber: true } },
+        ledgerAccount: { select: { id: true, code: true, name: true } },
+      },
+    });
+  }
+
+  /**
+   * Set the default value of a dimension for a cari kart or a ledger
+   * account; replaces the previous default of the same dimension unless the
+   * dimension allows several values
+   */
+  async setDefault(tenantId: string, input: DimensionDefaultInput) {
+    if (!input.counterpartyId === !input.ledgerAccountId) {
+      throw new ValidationError("Varsayılan değer bir cari karta ya da bir hesaba tanımlanmalıdır.");
+    }
+
+    const value = await prisma.dimensionValue.findFirst({
+      where: { id: input.dimensionValueId, tenantId, isActive: true },
+      include: { dimension: true },
+    });
+    if (!value || !value.dimension.isActive) throw new NotFoundError("Boyut değeri bulunamadı.");
+
+    if (input.counterpartyId) {
+      const card = await prisma.counterparty.findFirst({ where: { id: input.counterpartyId, tenantId } });
+      if (!card) throw new NotFoundError("Cari kart bulunamadı.");
+    } else {
+      const account = await prisma.ledgerAccount.findFirst({ where: { id: input.ledgerAccountId!, tenantId } });
+      if (!account) throw new NotFoundError("Hesap bulunamadı.");
+    }
+
+    const target = input.counterpartyId
+      ? { counterpartyId: input.counterpartyId }
+      : { ledgerAccountId: input.ledgerAccountId! };
+
+    return prisma.$transaction(async (tx) => {
+      await tx.dimensionDefault.deleteMany({
+        where: {
+          tenantId,
+          ...target,
+          dimensionValue: value.dimension.allowMultiple ? { id: value.id } : { dimensionId: value.dimensionId },
+        },
+      });
+      return tx.dimensionDefault.create({
+        data: { tenantId, dimensionValueId: value.id, ...target },
+      });
+    });
+  }
+
+  async deleteDefault(tenantId: string, id: string): Promise<void> {
+    const existing = await prisma.dimensionDefault.findFirst({ where: { id, tenantId } });
+    if (!existing) throw new NotFoundError("Varsayılan boyut değeri bulunamadı.");
+    await prisma.dimensionDefault.delete({ where: { id } });
+  }
+
+  /**
+   * Check the values given for one line and pair them with their dimension
+   */
+  async resolveValues(tenantId: string, valueIds: string[]): Promise<LineDimension[]> {
+    const ids = [...new Set(valueIds)];
+    if (ids.length === 0) return [];
+
+    const values = await prisma.dimensionValue.findMany({
+      where: { id: { in: ids }, tenantId },
+      include: { dimension: true },
+    });
+    if (values.length !== ids.length) {
+      throw new ValidationError("Bazı boyut değerleri geçersiz veya bu kiracıya ait değil.");
+    }
+
+    const inactive = values.find((value) => !value.isActive || !value.dimension.isActive);
+    if (inactive) {
+      throw new ValidationError(`${inactive.dimension.name} / ${inactive.name} boyut değeri pasif.`);
+    }
+
+    const perDimension = new Map<string, number>();
+    for (const value of values) {
+      perDimension.set(value.dimensionId, (perDimension.get(value.dimensionId) ?? 0) + 1);
+      if (!value.dimension.allowMultiple && perDimension.get(value.dimensionId)! > 1) {
+        throw new ValidationError(`${value.dimension.name} boyutunda bir satıra tek değer verilebilir.`);
+      }
+    }
+
+    return values.map((value) => ({ dimensionId: value.dimensionId, dimensionValueId: value.id }));
+  }
+
+  /**
+   * Resolve the dimensions of journal lines: values given on the line plus
+   * the defaults of its ledger account or the closest parent account
+   */
+  async resolveJournalLines(
+    tenantId: string,
+    lines: Array<{ ledgerAccountId: string; dimensionValueIds?: string[] }>,
+    accounts: Array<{ id: string; code?: string; clientCompanyId?: string | null }>
+  ): Promise<LineDimension[][]> {
+    const defaults = await this.accountDefaults(tenantId, accounts);
+    const resolved: LineDimension[][] = [];
+    for (const line of lines) {
+      const explicit = await this.resolveValues(tenantId, line.dimensionValueIds ?? []);
+      resolved.push(mergeLineDimensions(explicit, defaults.get(line.ledgerAccountId) ?? []));
+    }
+    return resolved;
+  }
+
+  /**
+   * Default values per ledger account; a default on 770 also covers 770.01,
+   * the most specific account wins per dimension
+   */
+  async accountDefaults(
+    tenantId: string,
+    accounts: Array<{ id: string; code?: string; clientCompanyId?: string | null }>
+  ): Promise<Map<string, LineDimension[]>> {
+    const result = new Map<string, LineDimension[]>();
+    if (accounts.length === 0) return result;
+
+    const defaults = await prisma.dimensionDefault.findMany({
+      where: {
+        tenantId,
+        ledgerAccountId: { not: null },
+        dimensionValue: { isActive: true, dimension: { isActive: true } },
+      },
+      include: {
+        ledgerAccount: { select: { code: true, clientCompanyId: true } },
+        dimensionValue: { select: { id: true, dimensionId: true } },
+      },
+    });
+    if (defaults.length === 0) return result;
+
+    // Longest code first so a sub-account default takes the dimension before its parent's
+    const sorted = [...defaults].sort((a, b) => (b.ledgerAccount?.code.length ?? 0) - (a.ledgerAccount?.code.length ?? 0));
+
+    for (const account of accounts) {
+      if (!account.code) continue;
+      let entries: LineDimension[] = [];
+      for (const entry of sorted) {
+        if (!entry.ledgerAccount || !accountCoveredBy(account.code, entry.ledgerAccount.code)) continue;
+        if (entry.ledgerAccount.clientCompanyId && entry.ledgerAccount.clientCompanyId !== (account.clientCompanyId ?? null)) {
+          continue;
+        }
+        entries = mergeLineDimensions(entries, [
+          { dimensionId: entry.dimensionValue.dimensionId, dimensionValueId: entry.dimensionValue.id },
+        ]);
+      }
+      if (entries.length > 0) result.set(account.id, entries);
+    }
+    return result;
+  }
+
+  /**
+   * Give the lines of an invoice the defaults of its cari kart
+   */
+  async applyInvoiceDefaults(tenantId: string, invoiceId: string): Promise<number> {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: {
+        counterpartyId: true,
+        lines: { select: { id: true, dimensions: { select: { dimensionId: true, dimensionValueId: true } } } },
+      },
+    });
+    if (!invoice) throw new NotFoundError("Fatura bulunamadı.");
+    if (!invoice.counterpartyId) return 0;
+
+    const defaults = await prisma.dimensionDefault.findMany({
+      where: {
+        tenantId,
+        counterpartyId: invoice.counterpartyId,
+        dimensionValue: { isActive: true, dimension: { isActive: true } },
+      },
+      include: { dimensionValue: { select: { id: true, dimensionId: true } } },
+    });
+    if (defaults.length === 0) return 0;
+
+    const defaultDimensions = defaults.map((entry) => ({
+      dimensionId: entry.dimensionValue.dimensionId,
+      dimensionValueId: entry.dimensionValue.id,
+    }));
+
+    const rows: Array<LineDimension & { tenantId: string; invoiceLineId: string }> = [];
+    let updatedLines = 0;
+    for (const line of invoice.lines) {
+      const merged = mergeLineDimensions(line.dimensions, defaultDimensions);
+      const added = merged.slice(line.dimensions.length);
+      if (added.length === 0) continue;
+      updatedLines++;
+      rows.push(...added.map((entry) => ({ tenantId, invoiceLineId: line.id, ...entry })));
+    }
+
+    if (rows.length > 0) {
+      await prisma.invoiceLineDimension.createMany({ data: rows, skipDuplicates: true });
+    }
+    return updatedLines;
+  }
+
+  /**
+   * Apply cari kart defaults to every invoice of a client company, e.g.
+   * after an import or when a default is set later
+   */
+  async applyDefaultsToCompany(tenantId: string, clientCompanyId: string): Promise<ApplyDefaultsResult> {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        counterparty: { dimensionDefaults: { some: {} } },
+      },
+      select: { id: true },
+    });
+
+    let lines = 0;
+    for (const invoice of invoices) {
+      lines += await this.applyInvoiceDefaults(tenantId, invoice.id);
+    }
+    return { invoices: invoices.length, lines };
+  }
+
+  /**
+   * Prisma filter for transaction or invoice lines carrying the given
+   * values: any of the values within a dimension, every dimension given
+   */
+  async buildLineFilter(tenantId: string, valueIds: string[] | undefined): Promise<any | undefined> {
+    const ids = [...new Set(valueIds ?? [])];
+    if (ids.length === 0) return undefined;
+
+    const values = await prisma.dimensionValue.findMany({
+      where: { id: { in: ids }, tenantId },
+      select: { id: true, dimensionId: true },
+    });
+    if (values.length !== ids.length) {
+      throw new ValidationError("Bazı boyut değerleri geçersiz veya bu kiracıya ait değil.");
+    }
+
+    const byDimension = new Map<string, string[]>();
+    for (const value of values) {
+      byDimension.set(value.dimensionId, [...(byDimension.get(value.dimensionId) ?? []), value.id]);
+    }
+
+    return {
+      AND: [...byDimension.values()].map((group) => ({
+        dimensions: { some: { dimensionValueId: { in: group } } },
+      })),
+    };
+  }
+}
+
+export const dimensionService = new DimensionService();
@@ -38,6 +38,7 @@ export interface UploadDocumentInput {
   type?: DocumentType;
   relatedInvoiceId?: string | null;
   relatedTransactionId?: string | null;
+  uploadSource?: string; // manual, email_import, integration, counterparty_response
 }
 
 export class DocumentService {
@@ -134,7 +135,7 @@ export class DocumentService {
         mimeType: input.file.mimetype,
         fileSizeBytes: BigInt(input.file.size),
         uploadUserId: userId,
-        uploadSource: "manual",
+        uploadSource: input.uploadSource || "manual",
         status: "UPLOADED",
       },
     });
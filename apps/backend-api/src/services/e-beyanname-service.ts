@@ -0,0 +1,210 @@
+import AdmZip from "adm-zip";
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import {
+  E_BEYANNAME_FORMS,
+  buildEBeyannameFileName,
+  buildEBeyannameXml,
+  encodeLatin5,
+  validateEBeyanname,
+  type EBeyannameFieldError,
+  type EBeyannameHazirlayan,
+  type EBeyannameInput,
+  type EBeyannameMukellef,
+  type EBeyannameType,
+} from "./e-beyanname-xml";
+
+/**
+ * e-Beyanname XML export
+ *
+ * Turns reviewed beyannameler into files for the e-Beyanname desktop
+ * program. The mükellef block comes from the ClientCompany (the vergi dairesi
+ * kodu is kept in its metadata as taxOfficeCode), the hazırlayan block from
+ * the tenant and its MaliMusavirProfile.
+ */
+
+/** Statuses a single beyanname can be exported in; the bulk export takes reviewed ones only. */
+const EXPORTABLE_STATUSES = ["reviewed", "submitted", "accepted"];
+
+export interface EBeyannameValidation {
+  beyannameId: string;
+  type: string;
+  period: string;
+  clientCompanyName: string;
+  valid: boolean;
+  errors: EBeyannameFieldError[];
+}
+
+export interface EBeyannameFile {
+  fileName: string;
+  content: Buffer;
+}
+
+export interface EBeyannameExport extends EBeyannameValidation {
+  file: EBeyannameFile | null;
+}
+
+export interface EBeyannameBulkExport {
+  fileName: string;
+  content: Buffer;
+  exported: number;
+  skipped: EBeyannameValidation[];
+}
+
+type BeyannameWithCompany = Awaited<ReturnType<typeof loadBeyannameler>>[number];
+
+function loadBeyannameler(tenantId: string, where: { id?: string; period?: string; status?: string }) {
+  return prisma.beyanname.findMany({
+    where: { tenantId, ...where },
+    include: { clientCompany: true },
+    orderBy: [{ type: "asc" }, { clientCompanyId: "asc" }],
+  });
+}
+
+/** Mükellef block of a client company; the vergi dairesi kodu lives in its metadata */
+export function toEBeyannameMukellef(company: {
+  taxNumber: string;
+  name: string;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  metadata: unknown;
+}): EBeyannameMukellef {
+  const companyMetadata = (company.metadata as Record<string, unknown>) || {};
+  return {
+    taxNumber: company.taxNumber,
+    name: company.name,
+    taxOfficeCode: typeof companyMetadata.taxOfficeCode === "string" ? companyMetadata.taxOfficeCode : null,
+    email: company.contactEmail,
+    phone: company.contactPhone,
+  };
+}
+
+function isExportableType(type: string): type is EBeyannameType {
+  return type in E_BEYANNAME_FORMS;
+}
+
+export class EBeyannameService {
+  /**
+   * Validate a beyanname against the e-Beyanname schema rules without
+   * producing the file
+   */
+  async validateBeyanname(tenantId: string, beyannameId: string): Promise<EBeyannameValidation> {
+    const { file: _file, ...validation } = await this.exportBeyanname(tenantId, beyannameId);
+    return validation;
+  }
+
+  /**
+   * Build the e-Beyanname XML of a reviewed beyanname. Schema problems are
+   * returned per field with a null file rather than thrown.
+   */
+  async exportBeyanname(tenantId: string, beyannameId: string): Promise<EBeyannameExport> {
+    const [beyanname] = await loadBeyannameler(tenantId, { id: beyannameId });
+    if (!beyanname) {
+      throw new NotFoundError("Beyanname bulunamadı.");
+    }
+    if (!isExportableType(beyanname.type)) {
+      throw new ValidationError(`${beyanname.type} beyannamesi e-Beyanname XML olarak dışa aktarılamaz.`, "type");
+    }
+    if (!EXPORTABLE_STATUSES.includes(beyanname.status)) {
+      throw new ValidationError("Yalnızca incelenmiş beyannameler dışa aktarılabilir.", "status");
+    }
+
+    const hazirlayan = await this.getHazirlayan(tenantId);
+    return this.build(beyanname, hazirlayan);
+  }
+
+  /**
+   * ZIP of every reviewed beyanname of the tenant for the period. Invalid
+   * ones are left out and listed in dogrulama-hatalari.json inside the
+   * archive.
+   */
+  async exportPeriod(tenantId: string, period: string): Promise<EBeyannameBulkExport> {
+    const beyannameler = (await loadBeyannameler(tenantId, { period, status: "reviewed" })).filter((beyanname) =>
+      isExportableType(beyanname.type)
+    );
+    if (beyannameler.length === 0) {
+      throw new NotFoundError(`${period} dönemi için incelenmiş beyanname bulunamadı.`);
+    }
+
+    const hazirlayan = await this.getHazirlayan(tenantId);
+    const zip = new AdmZip();
+    const skipped: EBeyannameValidation[] = [];
+    let exported = 0;
+
+    for (const beyanname of beyannameler) {
+      const { file, ...validation } = this.build(beyanname, hazirlayan);
+      if (file) {
+        zip.addFile(file.fileName, file.content);
+        exported++;
+      } else {
+        skipped.push(validation);
+      }
+    }
+
+    if (skipped.length > 0) {
+      zip.addFile("dogrulama-hatalari.json", Buffer.from(JSON.stringify(skipped, null, 2), "utf-8"));
+    }
+
+    logger.info("e-Beyanname bulk export created", undefined, { tenantId, period, exported, skipped: skipped.length });
+
+    return {
+      fileName: `e-beyanname_${period}.zip`,
+      content: zip.toBuffer(),
+      exported,
+      skipped,
+    };
+  }
+
+  private build(beyanname: BeyannameWithCompany, hazirlayan: EBeyannameHazirlayan): EBeyannameExport {
+    const company = beyanname.clientCompany;
+    const input: EBeyannameInput = {
+      type: beyanname.type as EBeyannameType,
+      period: beyanname.period,
+      mukellef: toEBeyannameMukellef(company),
+      hazirlayan,
+      amounts: {
+        calculatedAmount: Number(beyanname.calculatedAmount ?? 0),
+        deductibleAmount: Number(beyanname.deductibleAmount ?? 0),
+        netPayable: Number(beyanname.netPayable ?? 0),
+        carryForward: Number(beyanname.carryForward ?? 0),
+      },
+      calculationData: (beyanname.calculationData as Record<string, any>) || {},
+    };
+
+    const errors = validateEBeyanname(input);
+    return {
+      beyannameId: beyanname.id,
+      type: beyanname.type,
+      period: beyanname.period,
+      clientCompanyName: company.name,
+      valid: errors.length === 0,
+      errors,
+      file:
+        errors.length === 0
+          ? { fileName: buildEBeyannameFileName(input), content: encodeLatin5(buildEBeyannameXml(input)) }
+          : null,
+    };
+  }
+
+  /** Hazırlayan block: the tenant (SMMM / YMM office) and its MaliMusavirProfile */
+  async getHazirlayan(tenantId: string): Promise<EBeyannameHazirlayan> {
+    const [tenant, profile] = await Promise.all([
+      prisma.tenant.findUnique({ where: { id: tenantId } }),
+      prisma.maliMusavirProfile.findUnique({ where: { tenantId } }),
+    ]);
+    if (!tenant) {
+      throw new NotFoundError("Kiracı bulunamadı.");
+    }
+
+    return {
+      taxNumber: tenant.taxNumber,
+      name: tenant.name,
+      title: profile?.licenseType ?? null,
+      licenseNumber: profile?.licenseNumber ?? null,
+      email: tenant.email,
+      phone: tenant.phone,
+    };
+  }
+}
+
+export const eBeyannameService = new EBeyannameService();
@@ -0,0 +1,497 @@
+/**
+ * GİB e-Beyanname XML builders
+ *
+ * Serializes calculated beyannameler into the XML accepted by the
+ * e-Beyanname desktop program's "Beyanname Aç (XML)" import: a genel/idari
+ * block with the dönem, the mükellef and the hazırlayan (SMMM / YMM) and an
+ * ozel block holding the form's own sections. Validation runs on the model
+ * before anything is serialized and reports each problem against the XML
+ * field it concerns, so the UI can point at the missing data.
+ *
+ * The files are ISO-8859-9 encoded, as the desktop program expects.
+ */
+
+export type EBeyannameType = "KDV" | "KDV2" | "MUHTASAR" | "GECICI_VERGI" | "KURUMLAR" | "FORM_BA" | "FORM_BS";
+
+export type EBeyannamePeriodType = "aylik" | "3aylik" | "yillik";
+
+/** Form code and schema version (kodVer) per beyanname type; follow GİB when a new version is published. */
+export const E_BEYANNAME_FORMS: Record<EBeyannameType, { kodVer: string; periodType: EBeyannamePeriodType }> = {
+  KDV: { kodVer: "KDV1_43", periodType: "aylik" },
+  KDV2: { kodVer: "KDV2_19", periodType: "aylik" },
+  MUHTASAR: { kodVer: "MUHSGK_24", periodType: "aylik" },
+  GECICI_VERGI: { kodVer: "KGECICI_27", periodType: "3aylik" },
+  KURUMLAR: { kodVer: "KURUMLAR_28", periodType: "yillik" },
+  FORM_BA: { kodVer: "FORMBA_8", periodType: "aylik" },
+  FORM_BS: { kodVer: "FORMBS_8", periodType: "aylik" },
+};
+
+export interface EBeyannamePeriod {
+  type: EBeyannamePeriodType;
+  year: number;
+  month: number | null; // aylık beyannameler
+  quarter: number | null; // geçici vergi
+}
+
+export interface EBeyannameMukellef {
+  taxNumber: string; // VKN (10) or TCKN (11)
+  name: string; // unvan, or "Ad Soyad" for şahıs
+  taxOfficeCode: string | null; // vergi dairesi kodu
+  email: string | null;
+  phone: string | null;
+}
+
+export interface EBeyannameHazirlayan {
+  taxNumber: string | null;
+  name: string;
+  title: string | null; // SMMM, YMM
+  licenseNumber: string | null; // ruhsat / oda sicil no
+  email: string | null;
+  phone: string | null;
+}
+
+export interface EBeyannameAmounts {
+  calculatedAmount: number;
+  deductibleAmount: number;
+  netPayable: number;
+  carryForward: number;
+}
+
+export interface EBeyannameInput {
+  type: EBeyannameType;
+  period: string; // YYYY-MM, YYYY-Q1, YYYY
+  mukellef: EBeyannameMukellef;
+  hazirlayan: EBeyannameHazirlayan;
+  amounts: EBeyannameAmounts;
+  calculationData: Record<string, any>;
+}
+
+export interface EBeyannameFieldError {
+  field: string;
+  message: string;
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────
+
+function formatAmount(amount: unknown): string {
+  return (Math.round(Number(amount ?? 0) * 100) / 100).toFixed(2);
+}
+
+function formatPercent(rate: unknown): string {
+  return String(Math.round(Number(rate ?? 0) * 100));
+}
+
+// Dates are stored as ISO strings in calculationData; GİB expects gg.aa.yyyy
+function formatDate(value: string | Date): string {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()}`;
+}
+
+// Tevkifat oranı in the tenths GİB uses, e.g. 0.7 -> 7/10
+function formatWithholdingRate(rate: unknown): string {
+  return `${Math.round(Number(rate ?? 0) * 10)}/10`;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function el(tag: string, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === "") {
+    return `<${tag}/>`;
+  }
+  return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+function amountEl(tag: string, amount: unknown): string {
+  return el(tag, formatAmount(amount));
+}
+
+function digits(value: string | null): string {
+  return (value ?? "").replace(/\D/g, "");
+}
+
+// ISO-8859-9 is Latin-1 with six Icelandic letters replaced by Turkish ones
+const LATIN5_OVERRIDES: Record<string, number> = {
+  Ğ: 0xd0,
+  İ: 0xdd,
+  Ş: 0xde,
+  ğ: 0xf0,
+  ı: 0xfd,
+  ş: 0xfe,
+};
+const LATIN5_REPLACED = new Set(Object.values(LATIN5_OVERRIDES));
+
+export function encodeLatin5(text: string): Buffer {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (LATIN5_OVERRIDES[char] !== undefined) {
+      bytes.push(LATIN5_OVERRIDES[char]);
+    } else if (code < 0x100 && !LATIN5_REPLACED.has(code)) {
+      bytes.push(code);
+    } else {
+      bytes.push(0x3f); // "?"
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// ─── Period ──────────────────────────────────────────────────────────────
+
+export function parseEBeyannamePeriod(period: string): EBeyannamePeriod | null {
+  let match = /^(\d{4})-(\d{2})$/.exec(period);
+  if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) {
+    return { type: "aylik", year: Number(match[1]), month: Number(match[2]), quarter: null };
+  }
+  match = /^(\d{4})-Q([1-4])$/.exec(period);
+  if (match) {
+    return { type: "3aylik", year: Number(match[1]), month: null, quarter: Number(match[2]) };
+  }
+  match = /^(\d{4})$/.exec(period);
+  if (match) {
+    return { type: "yillik", year: Number(match[1]), month: null, quarter: null };
+  }
+  return null;
+}
+
+/**
+ * File name the desktop program lists the import under, e.g. 1234567890_KDV1_43_2026-03.xml
+ */
+export function buildEBeyannameFileName(input: EBeyannameInput): string {
+  return `${digits(input.mukellef.taxNumber)}_${E_BEYANNAME_FORMS[input.type].kodVer}_${input.period}.xml`;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────
+
+/**
+ * Check the GİB schema rules on the model: required idari fields, the
+ * period shape of the form and the sections the ozel block is built from.
+ */
+export function validateEBeyanname(input: EBeyannameInput): EBeyannameFieldError[] {
+  const errors: EBeyannameFieldError[] = [];
+  const form = E_BEYANNAME_FORMS[input.type];
+
+  const period = parseEBeyannamePeriod(input.period);
+  if (!period) {
+    errors.push({ field: "donem", message: `Geçersiz dönem: ${input.period}` });
+  } else if (period.type !== form.periodType) {
+    const expected = { aylik: "aylık (YYYY-MM)", "3aylik": "üç aylık (YYYY-Q1)", yillik: "yıllık (YYYY)" }[form.periodType];
+    errors.push({ field: "donem", message: `${input.type} beyannamesi ${expected} dönem için verilir.` });
+  }
+
+  const mukellefVkn = digits(input.mukellef.taxNumber);
+  if (!/^\d{10,11}$/.test(mukellefVkn)) {
+    errors.push({ field: "mukellef.vkn", message: "Mükellefin vergi/TC kimlik numarası 10 veya 11 haneli olmalıdır." });
+  }
+  if (!input.mukellef.name.trim()) {
+    errors.push({ field: "mukellef.soyadi", message: "Mükellefin unvanı veya adı soyadı boş olamaz." });
+  }
+  if (!input.mukellef.taxOfficeCode || !/^\d{6}$/.test(input.mukellef.taxOfficeCode)) {
+    errors.push({ field: "idari.vdKodu", message: "Müşteri şirketinin 6 haneli vergi dairesi kodu tanımlı değil." });
+  }
+
+  if (!input.hazirlayan.taxNumber || !/^\d{10,11}$/.test(digits(input.hazirlayan.taxNumber))) {
+    errors.push({ field: "hazirlayan.vkn", message: "Hazırlayanın vergi/TC kimlik numarası 10 veya 11 haneli olmalıdır." });
+  }
+  if (!input.hazirlayan.name.trim()) {
+    errors.push({ field: "hazirlayan.soyadi", message: "Hazırlayanın unvanı boş olamaz." });
+  }
+  if (!input.hazirlayan.licenseNumber) {
+    errors.push({ field: "hazirlayan.sicilNo", message: "Mali müşavir profilinde ruhsat numarası tanımlı değil." });
+  }
+
+  for (const [key, value] of Object.entries(input.amounts)) {
+    if (!Number.isFinite(value) || value < 0) {
+      errors.push({ field: `sonuc.${key}`, message: "Tutarlar negatif olamaz." });
+    }
+  }
+
+  const data = input.calculationData;
+  switch (input.type) {
+    case "KDV":
+      if (data.form !== "KDV1") {
+        errors.push({ field: "ozel", message: "KDV beyannamesi satır bazlı KDV-1 hesaplamasıyla yeniden hesaplanmalıdır." });
+      }
+      break;
+    case "KDV2":
+      if (data.form !== "KDV2") {
+        errors.push({ field: "ozel", message: "KDV-2 beyannamesi yeniden hesaplanmalıdır." });
+      } else if (!data.withholdings?.length) {
+        errors.push({ field: "ozel.tevkifatlar", message: "Dönemde sorumlu sıfatıyla beyan edilecek tevkifat bulunmuyor." });
+      }
+      break;
+    case "MUHTASAR":
+      if (data.totalPayments === undefined) {
+        errors.push({ field: "ozel", message: "Muhtasar beyanname hesaplanmamış." });
+      }
+      ((data.payroll?.employees as Record<string, any>[]) || []).forEach((employee, index) => {
+        if (!employee.occupationCode) {
+          errors.push({
+            field: `ozel.calisanBilgileri[${index}].meslekKodu`,
+            message: `${employee.firstName} ${employee.lastName} için meslek kodu girilmemiş.`,
+          });
+        }
+      });
+      break;
+    case "GECICI_VERGI":
+      if (data.profit === undefined) {
+        errors.push({ field: "ozel", message: "Geçici vergi beyannamesi hesaplanmamış." });
+      }
+      break;
+    case "KURUMLAR":
+      if (data.annualProfit === undefined) {
+        errors.push({ field: "ozel", message: "Kurumlar vergisi beyannamesi hesaplanmamış." });
+      }
+      break;
+    case "FORM_BA":
+    case "FORM_BS":
+      if (!Array.isArray(data.lines)) {
+        errors.push({ field: "ozel", message: "Form oluşturulmamış." });
+        break;
+      }
+      (data.lines as Record<string, any>[]).forEach((line, index) => {
+        if (line.counterpartyCountry === "TR" && !/^\d{10,11}$/.test(digits(line.counterpartyTaxNumber))) {
+          errors.push({
+            field: `ozel.bildirimler[${index}].vkn`,
+            message: `${line.counterpartyName} için vergi/TC kimlik numarası 10 veya 11 haneli olmalıdır.`,
+          });
+        }
+        if (!String(line.counterpartyName ?? "").trim()) {
+          errors.push({ field: `ozel.bildirimler[${index}].unvan`, message: "Karşı tarafın unvanı boş olamaz." });
+        }
+      });
+      break;
+  }
+
+  return errors;
+}
+
+// ─── Sections ────────────────────────────────────────────────────────────
+
+function buildDonem(period: EBeyannamePeriod): string {
+  const parts = [el("tip", period.type), el("yil", period.year)];
+  if (period.month !== null) {
+    parts.push(el("ay", String(period.month).padStart(2, "0")));
+  }
+  if (period.quarter !== null) {
+    parts.push(el("ceyrek", period.quarter));
+  }
+  return `<donem>${parts.join("")}</donem>`;
+}
+
+// Şahıs mükellefler (TCKN) are written as soyadı + adı, companies as unvan in soyadi
+function buildIdentity(taxNumber: string, name: string): string {
+  const number = digits(taxNumber);
+  if (number.length === 11) {
+    const words = name.trim().split(/\s+/);
+    const lastName = words.length > 1 ? words.pop()! : words[0];
+    return el("tckn", number) + el("soyadi", lastName) + el("adi", words.length > 0 && words[0] !== lastName ? words.join(" ") : "");
+  }
+  return el("vkn", number) + el("soyadi", name.trim());
+}
+
+function buildPerson(tag: string, taxNumber: string, name: string, extra: string[]): string {
+  return `<${tag}>${buildIdentity(taxNumber, name)}${extra.join("")}</${tag}>`;
+}
+
+function buildIdari(input: EBeyannameInput, period: EBeyannamePeriod): string {
+  const { mukellef, hazirlayan } = input;
+  return [
+    "<idari>",
+    buildDonem(period),
+    el("vdKodu", mukellef.taxOfficeCode),
+    buildPerson("mukellef", mukellef.taxNumber, mukellef.name, [el("email", mukellef.email), el("telNo", digits(mukellef.phone))]),
+    buildPerson("hazirlayan", hazirlayan.taxNumber ?? "", hazirlayan.name, [
+      el("sifat", hazirlayan.title),
+      el("sicilNo", hazirlayan.licenseNumber),
+      el("email", hazirlayan.email),
+      el("telNo", digits(hazirlayan.phone)),
+    ]),
+    "</idari>",
+  ].join("");
+}
+
+function buildWithholdingRows(tag: string, rows: any[] | undefined): string {
+  return (rows ?? [])
+    .map((row) =>
+      [
+        `<${tag}>`,
+        el("islemTuru", row.code),
+        amountEl("matrah", row.base),
+        el("kdvOrani", formatPercent(row.vatRate)),
+        el("tevkifatOrani", formatWithholdingRate(row.withholdingRate)),
+        amountEl("vergi", row.declaredVat),
+        amountEl("tevkifatTutari", row.withheldVat),
+        `</${tag}>`,
+      ].join("")
+    )
+    .join("");
+}
+
+function buildKdv1(data: Record<string, any>, amounts: EBeyannameAmounts): string {
+  const sales = data.sales ?? {};
+  const deductions = data.deductions ?? {};
+  const result = data.result ?? {};
+  return [
+    "<matrah>",
+    ...(sales.byRate ?? []).map(
+      (row: any) =>
+        `<teslimVeHizmet>${el("kdvOrani", formatPercent(row.vatRate))}${amountEl("matrah", row.base)}${amountEl("vergi", row.vat)}</teslimVeHizmet>`
+    ),
+    `<kismiTevkifatlar>${buildWithholdingRows("kismiTevkifat", sales.partialWithholding)}</kismiTevkifatlar>`,
+    `<tamTevkifatlar>${buildWithholdingRows("tamTevkifat", sales.fullWithholding)}</tamTevkifatlar>`,
+    amountEl("matrahToplami", sales.totalBase),
+    amountEl("hesaplananKDV", amounts.calculatedAmount),
+    "</matrah>",
+    "<indirimler>",
+    amountEl("devredenKDV", deductions.previousCarryForward),
+    amountEl("buDonemIndirilecekKDV", deductions.purchaseVat),
+    amountEl("sorumluSifatiylaOdenenKDV", deductions.responsibleVatPaid),
+    amountEl("indirimlerToplami", amounts.deductibleAmount),
+    "</indirimler>",
+    "<istisnalar>",
+    ...(data.exemptions ?? []).map(
+      (row: any) =>
+        `<istisna>${el("kod", row.code)}${amountEl("teslimBedeli", row.base)}${amountEl("yuklenilenKDV", row.loadedVat)}</istisna>`
+    ),
+    "</istisnalar>",
+    "<sonuc>",
+    amountEl("odenmesiGerekenKDV", amounts.netPayable),
+    amountEl("sonrakiDonemeDevredenKDV", amounts.carryForward),
+    amountEl("iadeTalepEdilenKDV", result.refundClaim),
+    "</sonuc>",
+  ].join("");
+}
+
+function buildKdv2(data: Record<string, any>, amounts: EBeyannameAmounts): string {
+  return [
+    `<tevkifatlar>${buildWithholdingRows("tevkifat", data.withholdings)}</tevkifatlar>`,
+    amountEl("matrahToplami", data.totalBase),
+    amountEl("odenmesiGerekenKDV", amounts.netPayable),
+  ].join("");
+}
+
+function buildMuhtasar(data: Record<string, any>, amounts: EBeyannameAmounts): string {
+  const payroll = data.payroll as Record<string, any> | undefined;
+  const withheld = Number(data.totalPayments ?? 0) * Number(data.withholdingRate ?? 0);
+
+  return [
+    "<vergiKesintileri>",
+    `<kesinti>${amountEl("gayrisafiTutar", data.totalPayments)}${el("kesintiOrani", formatPercent(data.withholdingRate))}${amountEl("kesilenVergi", withheld)}</kesinti>`,
+    payroll
+      ? `<ucretKesintisi>${amountEl("gayrisafiTutar", payroll.totals.grossEarnings)}${amountEl("kesilenGelirVergisi", payroll.totals.incomeTax)}${amountEl("kesilenDamgaVergisi", payroll.totals.stampTax)}</ucretKesintisi>`
+      : "",
+    "</vergiKesintileri>",
+    payroll ? buildCalisanBilgileri(payroll) : "",
+    amountEl("odenmesiGerekenVergi", amounts.netPayable),
+  ].join("");
+}
+
+// MUHSGK çalışan bilgileri: SGK hizmet and vergi bildirimi per employee
+function buildCalisanBilgileri(payroll: Record<string, any>): string {
+  const rows = ((payroll.employees as Record<string, any>[]) || []).map((employee) =>
+    [
+      "<calisan>",
+      el("tckn", employee.tckn),
+      el("ad", employee.firstName),
+      el("soyad", employee.lastName),
+      el("belgeTuru", employee.documentType),
+      el("kanunNo", employee.incentiveCode ?? "00000"),
+      el("meslekKodu", employee.occupationCode),
+      el("primGunu", employee.workedDays),
+      el("eksikGunSayisi", employee.missingDays),
+      el("iseGirisTarihi", employee.startDate ? formatDate(employee.startDate) : null),
+      el("istenCikisTarihi", employee.endDate ? formatDate(employee.endDate) : null),
+      amountEl("hakEdilenUcret", employee.grossEarnings),
+      amountEl("primeEsasKazanc", employee.sgkBase),
+      amountEl("gelirVergisiMatrahi", employee.incomeTaxBase),
+      amountEl("hesaplananGelirVergisi", employee.calculatedIncomeTax),
+      amountEl("asgariUcretGelirVergisiIstisnasi", employee.incomeTaxExemption),
+      amountEl("kesilenGelirVergisi", employee.incomeTax),
+      amountEl("damgaVergisiIstisnasi", employee.stampTaxExemption),
+      amountEl("kesilenDamgaVergisi", employee.stampTax),
+      "</calisan>",
+    ].join("")
+  );
+
+  return `<calisanBilgileri>${rows.join("")}</calisanBilgileri>`;
+}
+
+function buildGeciciVergi(data: Record<string, any>, amounts: EBeyannameAmounts): string {
+  return [
+    "<ticariKazanc>",
+    amountEl("donemGelirleri", data.quarterlyIncome),
+    amountEl("donemGiderleri", data.quarterlyExpense),
+    amountEl("donemKazanci", data.profit),
+    "</ticariKazanc>",
+    amountEl("hesaplananGeciciVergi", amounts.calculatedAmount),
+    amountEl("odenmesiGerekenGeciciVergi", amounts.netPayable),
+  ].join("");
+}
+
+function buildKurumlar(data: Record<string, any>, amounts: EBeyannameAmounts): string {
+  return [
+    "<kurumKazanci>",
+    amountEl("hasilat", data.annualIncome),
+    amountEl("giderler", data.annualExpense),
+    amountEl("ticariBilancoKari", data.annualProfit),
+    "</kurumKazanci>",
+    amountEl("hesaplananKurumlarVergisi", amounts.calculatedAmount),
+    amountEl("mahsupEdilecekGeciciVergi", data.quarterlyTaxesPaid),
+    amountEl("odenmesiGerekenKurumlarVergisi", amounts.netPayable),
+  ].join("");
+}
+
+// Form Ba/Bs: one bildirim per karşı taraf, amounts in whole TL (küsurat bildirilmez)
+function buildFormBaBs(data: Record<string, any>): string {
+  const rows = (data.lines as Record<string, any>[]).map((line, index) =>
+    [
+      "<bildirim>",
+      el("siraNo", index + 1),
+      buildIdentity(line.counterpartyTaxNumber, line.counterpartyName),
+      el("ulke", line.counterpartyCountry),
+      el("belgeSayisi", line.documentCount),
+      el("malHizmetToplamTutari", Math.floor(Number(line.totalAmount))),
+      "</bildirim>",
+    ].join("")
+  );
+
+  return `<bildirimler>${rows.join("")}</bildirimler>`;
+}
+
+const OZEL_BUILDERS: Record<EBeyannameType, (data: Record<string, any>, amounts: EBeyannameAmounts) => string> = {
+  KDV: buildKdv1,
+  KDV2: buildKdv2,
+  MUHTASAR: buildMuhtasar,
+  GECICI_VERGI: buildGeciciVergi,
+  KURUMLAR: buildKurumlar,
+  FORM_BA: buildFormBaBs,
+  FORM_BS: buildFormBaBs,
+};
+
+/**
+ * Serialize a validated beyanname. Callers run validateEBeyanname first; an
+ * unparseable period is the only input this rejects itself.
+ */
+export function buildEBeyannameXml(input: EBeyannameInput): string {
+  const period = parseEBeyannamePeriod(input.period);
+  if (!period) {
+    throw new Error(`Geçersiz dönem: ${input.period}`);
+  }
+
+  const { kodVer } = E_BEYANNAME_FORMS[input.type];
+  return [
+    '<?xml version="1.0" encoding="ISO-8859-9"?>',
+    `<beyanname kodVer="${kodVer}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="${kodVer}.xsd">`,
+    `<genel>${buildIdari(input, period)}</genel>`,
+    `<ozel>${OZEL_BUILDERS[input.type](input.calculationData, input.amounts)}</ozel>`,
+    "</beyanname>",
+  ].join("\n");
+}
@@ -1,11 +1,27 @@
+import { createHash } from "crypto";
+import { Readable } from "stream";
 import { prisma } from "../lib/prisma";
 import { NotFoundError, ValidationError } from "@repo/shared-utils";
 import { logger } from "@repo/shared-utils";
+import { getStorage } from "@repo/config";
 import {
   gibComplianceService,
   GIB_EDEFTER_STATUS,
   type GibEDefterStatus,
 } from "./gib-compliance-service";
+import { getPeriodKey } from "./accounting-period-service";
+import {
+  buildBeratXml,
+  buildEDefterFileName,
+  buildKebirParts,
+  buildYevmiyeParts,
+  validateEDefterDocument,
+  E_DEFTER_MAX_PART_BYTES,
+  type EDefterFileType,
+  type EDefterHeader,
+  type YevmiyeLine,
+  type YevmiyeMadde,
+} from "./e-defter-xbrl";
 
 /**
  * E-Defter (Electronic Ledger) Service
@@ -39,9 +55,40 @@ export interface EDefterGenerationResult {
   totalDebit: number;
   totalCredit: number;
   generationDate: Date;
+  firstEntryNumber?: number;
+  lastEntryNumber?: number;
+  files?: EDefterFileSummary[];
+  warnings?: string[];
   message?: string;
 }
 
+export interface EDefterGenerationOptions {
+  /** Size limit for a single yevmiye / kebir part (defaults to the GİB limit) */
+  maxPartBytes?: number;
+}
+
+export interface EDefterFileSummary {
+  id: string;
+  period: string;
+  fileType: EDefterFileType;
+  partNumber: number;
+  fileName: string;
+  sizeBytes: number;
+  checksum: string;
+  firstEntryNumber: number | null;
+  lastEntryNumber: number | null;
+}
+
+interface GeneratedFile {
+  period: string;
+  fileType: EDefterFileType;
+  partNumber: number;
+  fileName: string;
+  content: string;
+  firstEntryNumber: number | null;
+  lastEntryNumber: number | null;
+}
+
 export interface EDefterSubmissionResult {
   success: boolean;
   submissionId?: string;
@@ -51,13 +98,20 @@ export interface EDefterSubmissionResult {
 }
 
 export class EDefterService {
+  private storage = getStorage();
+
   /**
    * Generate E-Defter (Electronic Ledger) for a period
+   *
+   * Besides the ledger record, produces the XBRL-GL yevmiye and kebir files
+   * (one set per month, split into parts when needed) with their berat
+   * drafts and stores them in object storage.
    */
   async generateLedger(
     tenantId: string,
     clientCompanyId: string,
-    period: EDefterPeriod
+    period: EDefterPeriod,
+    options: EDefterGenerationOptions = {}
   ): Promise<EDefterGenerationResult> {
     // Verify company belongs to tenant
     const company = await prisma.clientCompany.findFirst({
@@ -89,9 +143,7 @@ export class EDefterService {
         },
         clientCompany: true,
       },
-      orderBy: {
-        date: "asc",
-      },
+      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
     });
 
     if (transactions.length === 0) {
@@ -131,6 +183,24 @@ export class EDefterService {
     // Generate ledger ID
     const ledgerId = this.generateLedgerId(company.taxNumber || "", period);
 
+    const existingLedger = await prisma.eDefterLedger.findUnique({ where: { id: ledgerId } });
+    if (existingLedger && (existingLedger.status === "submitted" || existingLedger.status === "accepted")) {
+      throw new ValidationError("GİB'e gönderilmiş e-Defter yeniden oluşturulamaz.");
+    }
+
+    // Build and validate the XBRL-GL documents before anything is persisted
+    const fiscalYear = period.startDate.getFullYear();
+    const numberingStart = await this.resolveNumberingStart(tenantId, clientCompanyId, ledgerId, period);
+    const artifacts = this.buildArtifacts(company, period, transactions, numberingStart, options);
+
+    if (artifacts.errors.length > 0) {
+      throw new ValidationError(
+        `e-Defter şema doğrulaması başarısız: ${artifacts.errors.slice(0, 5).join("; ")}`
+      );
+    }
+
+    const validationResult = { valid: true, errors: [], warnings: artifacts.warnings };
+
     // Store ledger record using Prisma
     await prisma.eDefterLedger.upsert({
       where: { id: ledgerId },
@@ -146,6 +216,11 @@ export class EDefterService {
         totalCredit,
         generationDate: new Date(),
         status: "generated",
+        fiscalYear,
+        firstEntryNumber: numberingStart.entryNumber + 1,
+        lastEntryNumber: artifacts.lastEntryNumber,
+        lastLineNumber: artifacts.lastLineNumber,
+        validationResult: validationResult as any,
         metadata: { entries } as any,
       },
       update: {
@@ -153,63 +228,327 @@ export class EDefterService {
         totalDebit,
         totalCredit,
         generationDate: new Date(),
+        fiscalYear,
+        firstEntryNumber: numberingStart.entryNumber + 1,
+        lastEntryNumber: artifacts.lastEntryNumber,
+        lastLineNumber: artifacts.lastLineNumber,
+        validationResult: validationResult as any,
         metadata: { entries } as any,
       },
-    }).catch((err) => {
-      logger.warn("EDefterLedger upsert failed, storing in company metadata instead", {
-        error: err instanceof Error ? err.message : String(err),
-      });
     });
 
-    // Store in company metadata as fallback
-    const companyMetadata = (company.metadata as Record<string, unknown>) || {};
-    const eDefterRecords = (companyMetadata.eDefter as Array<Record<string, unknown>>) || [];
+    const files = await this.storeFiles(tenantId, ledgerId, artifacts.files);
 
-    const existingIndex = eDefterRecords.findIndex(
-      (r) => r.ledgerId === ledgerId
+    const warnings = [...artifacts.warnings];
+    if (existingLedger?.lastEntryNumber != null && existingLedger.lastEntryNumber !== artifacts.lastEntryNumber) {
+      const laterLedgers = await prisma.eDefterLedger.count({
+        where: { tenantId, clientCompanyId, fiscalYear, periodStart: { gt: period.endDate } },
+      });
+      if (laterLedgers > 0) {
+        warnings.push(
+          "Yevmiye madde numaraları değişti; sonraki dönemlerin e-Defter dosyaları yeniden oluşturulmalıdır."
+        );
+      }
+    }
+
+    logger.info(
+      `E-Defter generated for company ${clientCompanyId}, period: ${period.startDate.toISOString()} - ${period.endDate.toISOString()}`
     );
 
-    const ledgerRecord = {
+    return {
+      success: true,
       ledgerId,
-      periodStart: period.startDate,
-      periodEnd: period.endDate,
-      periodType: period.periodType,
       entryCount: entries.length,
       totalDebit,
       totalCredit,
       generationDate: new Date(),
-      status: "generated",
-      entries,
+      firstEntryNumber: numberingStart.entryNumber + 1,
+      lastEntryNumber: artifacts.lastEntryNumber,
+      files,
+      warnings,
+      message: "E-Defter başarıyla oluşturuldu.",
     };
+  }
 
-    if (existingIndex >= 0) {
-      eDefterRecords[existingIndex] = ledgerRecord;
-    } else {
-      eDefterRecords.push(ledgerRecord);
+  /**
+   * List the stored XBRL-GL / berat files of a ledger
+   */
+  async listLedgerFiles(tenantId: string, clientCompanyId: string, ledgerId: string): Promise<EDefterFileSummary[]> {
+    await this.findLedgerRecord(tenantId, clientCompanyId, ledgerId);
+
+    const files = await prisma.eDefterFile.findMany({
+      where: { tenantId, ledgerId },
+      orderBy: [{ period: "asc" }, { fileType: "asc" }, { partNumber: "asc" }],
+    });
+
+    return files.map((file) => this.toFileSummary(file));
+  }
+
+  /**
+   * Open a stored e-Defter file for download
+   */
+  async getLedgerFileStream(
+    tenantId: string,
+    clientCompanyId: string,
+    ledgerId: string,
+    fileId: string
+  ): Promise<{ file: EDefterFileSummary; stream: Readable }> {
+    await this.findLedgerRecord(tenantId, clientCompanyId, ledgerId);
+
+    const file = await prisma.eDefterFile.findFirst({
+      where: { id: fileId, tenantId, ledgerId },
+    });
+
+    if (!file) {
+      throw new NotFoundError("E-Defter dosyası bulunamadı.");
     }
 
-    await prisma.clientCompany.update({
-      where: { id: clientCompanyId },
-      data: {
-        metadata: {
-          ...companyMetadata,
-          eDefter: eDefterRecords,
-        } as any,
+    const stream = await this.storage.getObjectStream(tenantId, file.storagePath);
+    return { file: this.toFileSummary(file), stream };
+  }
+
+  private async findLedgerRecord(tenantId: string, clientCompanyId: string, ledgerId: string) {
+    const ledger = await prisma.eDefterLedger.findFirst({
+      where: { id: ledgerId, tenantId, clientCompanyId },
+    });
+
+    if (!ledger) {
+      throw new NotFoundError("E-Defter kaydı bulunamadı.");
+    }
+
+    return ledger;
+  }
+
+  /**
+   * Yevmiye madde numbers and line counters run through the whole fiscal
+   * year, so every period continues from the last ledger of the same year.
+   */
+  private async resolveNumberingStart(
+    tenantId: string,
+    clientCompanyId: string,
+    ledgerId: string,
+    period: EDefterPeriod
+  ): Promise<{ entryNumber: number; lineNumber: number }> {
+    const start = period.startDate;
+    if (start.getMonth() === 0 && start.getDate() === 1) {
+      return { entryNumber: 0, lineNumber: 0 };
+    }
+
+    const previous = await prisma.eDefterLedger.findFirst({
+      where: {
+        tenantId,
+        clientCompanyId,
+        fiscalYear: start.getFullYear(),
+        id: { not: ledgerId },
+        periodEnd: { lt: start },
       },
+      orderBy: { periodEnd: "desc" },
     });
 
-    logger.info(
-      `E-Defter generated for company ${clientCompanyId}, period: ${period.startDate.toISOString()} - ${period.endDate.toISOString()}`
-    );
+    const expectedPreviousPeriod = getPeriodKey(new Date(start.getFullYear(), start.getMonth() - 1, 1));
+
+    if (!previous || previous.lastEntryNumber === null || getPeriodKey(previous.periodEnd) !== expectedPreviousPeriod) {
+      throw new ValidationError(
+        `Yevmiye madde numaraları dönemler arasında devam ettiğinden önce ${expectedPreviousPeriod} dönemine ait e-Defter oluşturulmalıdır.`
+      );
+    }
+
+    return { entryNumber: previous.lastEntryNumber, lineNumber: previous.lastLineNumber ?? 0 };
+  }
+
+  /**
+   * Build the yevmiye maddeler, validate them and render the XBRL-GL parts
+   * and berat drafts for every month of the period.
+   */
+  private buildArtifacts(
+    company: { name: string; taxNumber: string; address: string | null },
+    period: EDefterPeriod,
+    transactions: Array<{
+      date: Date;
+      referenceNo: string | null;
+      description: string | null;
+      lines: Array<{
+        debitAmount: unknown;
+        creditAmount: unknown;
+        description: string | null;
+        ledgerAccount: { code: string; name: string } | null;
+      }>;
+    }>,
+    numberingStart: { entryNumber: number; lineNumber: number },
+    options: EDefterGenerationOptions
+  ): { files: GeneratedFile[]; errors: string[]; warnings: string[]; lastEntryNumber: number; lastLineNumber: number } {
+    const byMonth = new Map<string, YevmiyeMadde[]>();
+    let entryNumber = numberingStart.entryNumber;
+    let lineNumber = numberingStart.lineNumber;
+
+    for (const transaction of transactions) {
+      const lines: YevmiyeLine[] = [];
+      for (const line of transaction.lines) {
+        const code = line.ledgerAccount?.code || "";
+        const name = line.ledgerAccount?.name || "";
+        const debit = Number(line.debitAmount || 0);
+        const credit = Number(line.creditAmount || 0);
+        // A line carrying both sides becomes two XBRL-GL details
+        for (const [amount, debitCreditCode] of [[debit, "D"], [credit, "C"]] as const) {
+          if (amount <= 0) continue;
+          lines.push({
+            lineNumberCounter: ++lineNumber,
+            accountCode: code,
+            accountName: name,
+            amount,
+            debitCreditCode,
+            description: line.description,
+          });
+        }
+      }
+
+      if (lines.length === 0) continue;
+
+      const month = getPeriodKey(transaction.date);
+      const maddeler = byMonth.get(month) ?? [];
+      maddeler.push({
+        entryNumber: ++entryNumber,
+        date: transaction.date,
+        description: transaction.description || transaction.referenceNo || "",
+        documentNumber: transaction.referenceNo,
+        lines,
+      });
+      byMonth.set(month, maddeler);
+    }
+
+    const files: GeneratedFile[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const maxPartBytes = options.maxPartBytes ?? E_DEFTER_MAX_PART_BYTES;
+
+    for (const [month, maddeler] of byMonth) {
+      const [year, monthNumber] = month.split("-").map(Number);
+      const header: EDefterHeader = {
+        taxNumber: company.taxNumber,
+        companyName: company.name,
+        address: company.address,
+        periodStart: new Date(year, monthNumber - 1, 1),
+        periodEnd: new Date(year, monthNumber, 0),
+        fiscalYearStart: new Date(year, 0, 1),
+        fiscalYearEnd: new Date(year, 11, 31),
+        creationDate: new Date(),
+        sourceApplication: "AI Muhasebi",
+      };
+
+      const validation = validateEDefterDocument(header, maddeler);
+      errors.push(...validation.errors.map((error) => `${month} ${error}`));
+      warnings.push(...validation.warnings.map((warning) => `${month} ${warning}`));
+      if (!validation.valid) continue;
+
+      const parts = [...buildYevmiyeParts(header, maddeler, maxPartBytes), ...buildKebirParts(header, maddeler, maxPartBytes)];
+      for (const part of parts) {
+        const fileType: EDefterFileType = part.kind;
+        const fileName = buildEDefterFileName(header, fileType, part.partNumber);
+        const digest = createHash("sha256").update(part.xml, "utf8").digest("base64");
+
+        if (Buffer.byteLength(part.xml, "utf8") > maxPartBytes) {
+          warnings.push(`${fileName} tek bir madde/hesap nedeniyle parça boyutu sınırını aşıyor`);
+        }
+
+        files.push({
+          period: month,
+          fileType,
+          partNumber: part.partNumber,
+          fileName,
+          content: part.xml,
+          firstEntryNumber: part.firstEntryNumber,
+          lastEntryNumber: part.lastEntryNumber,
+        });
+
+        const beratType: EDefterFileType = part.kind === "yevmiye" ? "yevmiye_berat" : "kebir_berat";
+        files.push({
+          period: month,
+          fileType: beratType,
+          partNumber: part.partNumber,
+          fileName: buildEDefterFileName(header, beratType, part.partNumber),
+          content: buildBeratXml(header, part, fileName, digest),
+          firstEntryNumber: part.firstEntryNumber,
+          lastEntryNumber: part.lastEntryNumber,
+        });
+      }
+    }
+
+    return { files, errors, warnings, lastEntryNumber: entryNumber, lastLineNumber: lineNumber };
+  }
+
+  /**
+   * Replace the ledger's stored files with a freshly generated set
+   */
+  private async storeFiles(tenantId: string, ledgerId: string, files: GeneratedFile[]): Promise<EDefterFileSummary[]> {
+    const previousFiles = await prisma.eDefterFile.findMany({ where: { tenantId, ledgerId } });
+    const newPaths = new Set(files.map((file) => `e-defter/${ledgerId}/${file.fileName}`));
+
+    for (const previous of previousFiles) {
+      if (newPaths.has(previous.storagePath)) continue;
+      await this.storage.deleteObject(tenantId, previous.storagePath).catch((err) => {
+        logger.warn("Failed to delete stale e-Defter file", undefined, {
+          storagePath: previous.storagePath,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    }
+
+    const records = [];
+    for (const file of files) {
+      const storagePath = `e-defter/${ledgerId}/${file.fileName}`;
+      const buffer = Buffer.from(file.content, "utf8");
+      await this.storage.uploadObject(tenantId, storagePath, Readable.from(buffer), {
+        contentType: "application/xml",
+        contentLength: buffer.length,
+      });
+      records.push({
+        tenantId,
+        ledgerId,
+        period: file.period,
+        fileType: file.fileType,
+        partNumber: file.partNumber,
+        fileName: file.fileName,
+        storagePath,
+        sizeBytes: buffer.length,
+        checksum: createHash("sha256").update(buffer).digest("hex"),
+        firstEntryNumber: file.firstEntryNumber,
+        lastEntryNumber: file.lastEntryNumber,
+      });
+    }
+
+    const stored = await prisma.$transaction(async (tx) => {
+      await tx.eDefterFile.deleteMany({ where: { tenantId, ledgerId } });
+      const created = [];
+      for (const record of records) {
+        created.push(await tx.eDefterFile.create({ data: record }));
+      }
+      return created;
+    });
 
+    return stored.map((file) => this.toFileSummary(file));
+  }
+
+  private toFileSummary(file: {
+    id: string;
+    period: string;
+    fileType: string;
+    partNumber: number;
+    fileName: string;
+    sizeBytes: number;
+    checksum: string;
+    firstEntryNumber: number | null;
+    lastEntryNumber: number | null;
+  }): EDefterFileSummary {
     return {
-      success: true,
-      ledgerId,
-      entryCount: entries.length,
-      totalDebit,
-      totalCredit,
-      generationDate: new Date(),
-      message: "E-Defter başarıyla oluşturuldu.",
+      id: file.id,
+      period: file.period,
+      fileType: file.fileType as EDefterFileType,
+      partNumber: file.partNumber,
+      fileName: file.fileName,
+      sizeBytes: file.sizeBytes,
+      checksum: file.checksum,
+      firstEntryNumber: file.firstEntryNumber,
+      lastEntryNumber: file.lastEntryNumber,
     };
   }
 
@@ -232,20 +571,13 @@ export class EDefterService {
       throw new NotFoundError("Müşteri şirketi bulunamadı.");
     }
 
-    const metadata = (company.metadata as Record<string, unknown>) || {};
-    const eDefterRecords = (metadata.eDefter as Array<Record<string, unknown>>) || [];
-
-    const ledgerRecord = eDefterRecords.find((r) => r.ledgerId === ledgerId);
-
-    if (!ledgerRecord) {
-      throw new NotFoundError("E-Defter kaydı bulunamadı.");
-    }
+    const ledgerRecord = await this.findLedgerRecord(tenantId, clientCompanyId, ledgerId);
 
     if (ledgerRecord.status === "submitted" || ledgerRecord.status === "accepted") {
       return {
         success: true,
-        submissionId: ledgerRecord.submissionId as string | undefined,
-        submissionDate: ledgerRecord.submissionDate ? new Date(ledgerRecord.submissionDate as string) : undefined,
+        submissionId: ledgerRecord.submissionId ?? undefined,
+        submissionDate: ledgerRecord.submissionDate ?? undefined,
         status: ledgerRecord.status as "submitted" | "accepted",
         message: "E-Defter zaten gönderilmiş.",
       };
@@ -266,22 +598,17 @@ export class EDefterService {
       timestamp: submissionDate.toISOString(),
       submissionId,
       entryCount: ledgerRecord.entryCount,
-      totalDebit: ledgerRecord.totalDebit,
-      totalCredit: ledgerRecord.totalCredit,
+      totalDebit: Number(ledgerRecord.totalDebit),
+      totalCredit: Number(ledgerRecord.totalCredit),
     });
 
-    ledgerRecord.status = "submitted";
-    ledgerRecord.submissionId = submissionId;
-    ledgerRecord.submissionDate = submissionDate;
-    ledgerRecord.auditTrail = auditTrail;
-
-    await prisma.clientCompany.update({
-      where: { id: clientCompanyId },
+    await prisma.eDefterLedger.update({
+      where: { id: ledgerId },
       data: {
-        metadata: {
-          ...metadata,
-          eDefter: eDefterRecords,
-        } as any,
+        status: "submitted",
+        submissionId,
+        submissionDate,
+        auditTrail: auditTrail as any,
       },
     });
 
@@ -329,28 +656,22 @@ export class EDefterService {
       throw new NotFoundError("Müşteri şirketi bulunamadı.");
     }
 
-    const metadata = (company.metadata as Record<string, unknown>) || {};
-    const eDefterRecords = (metadata.eDefter as Array<Record<string, unknown>>) || [];
-
-    const ledgerRecord = eDefterRecords.find((r) => r.ledgerId === ledgerId);
-
-    if (!ledgerRecord) {
-      throw new NotFoundError("E-Defter kaydı bulunamadı.");
-    }
+    const ledgerRecord = await this.findLedgerRecord(tenantId, clientCompanyId, ledgerId);
+    const ledgerMetadata = (ledgerRecord.metadata as Record<string, unknown>) || {};
 
     return {
-      ledgerId: ledgerRecord.ledgerId as string,
+      ledgerId: ledgerRecord.id,
       period: {
-        startDate: new Date(ledgerRecord.periodStart as string),
-        endDate: new Date(ledgerRecord.periodEnd as string),
+        startDate: ledgerRecord.periodStart,
+        endDate: ledgerRecord.periodEnd,
         periodType: ledgerRecord.periodType as "monthly" | "quarterly" | "yearly",
       },
-      entryCount: ledgerRecord.entryCount as number,
-      totalDebit: ledgerRecord.totalDebit as number,
-      totalCredit: ledgerRecord.totalCredit as number,
-      generationDate: new Date(ledgerRecord.generationDate as string),
-      status: ledgerRecord.status as string,
-      entries: (ledgerRecord.entries as EDefterEntry[]) || [],
+      entryCount: ledgerRecord.entryCount,
+      totalDebit: Number(ledgerRecord.totalDebit),
+      totalCredit: Number(ledgerRecord.totalCredit),
+      generationDate: ledgerRecord.generationDate,
+      status: ledgerRecord.status,
+      entries: (ledgerMetadata.entries as EDefterEntry[]) || [],
     };
   }
 
@@ -383,28 +704,29 @@ export class EDefterService {
       throw new NotFoundError("Müşteri şirketi bulunamadı.");
     }
 
-    const metadata = (company.metadata as Record<string, unknown>) || {};
-    const eDefterRecords = (metadata.eDefter as Array<Record<string, unknown>>) || [];
+    const ledgers = await prisma.eDefterLedger.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { periodStart: "asc" },
+    });
 
-    return eDefterRecords.map((record) => ({
-      ledgerId: record.ledgerId as string,
+    return ledgers.map((record) => ({
+      ledgerId: record.id,
       clientCompanyId: company.id,
       clientCompanyName: company.name,
       period: {
-        startDate: new Date(record.periodStart as string),
-        endDate: new Date(record.periodEnd as string),
+        startDate: record.periodStart,
+        endDate: record.periodEnd,
         periodType: record.periodType as "monthly" | "quarterly" | "yearly",
       },
-      entryCount: (record.entryCount as number) || 0,
-      totalDebit: (record.totalDebit as number) || 0,
-      totalCredit: (record.totalCredit as number) || 0,
-      generationDate: new Date(record.generationDate as string),
-      submissionStatus: record.status === "submitted" || record.status === "accepted" 
-        ? (record.status as "submitted" | "accepted")
-        : record.submissionId 
-        ? ("submitted" as const)
-        : ("draft" as const),
-      submissionDate: record.submissionDate ? new Date(record.submissionDate as string) : undefined,
+      entryCount: record.entryCount,
+      totalDebit: Number(record.totalDebit),
+      totalCredit: Number(record.totalCredit),
+      generationDate: record.generationDate,
+      submissionStatus:
+        record.status === "submitted" || record.status === "accepted" || record.status === "rejected"
+          ? (record.status as "submitted" | "accepted" | "rejected")
+          : ("draft" as const),
+      submissionDate: record.submissionDate ?? undefined,
     }));
   }
 
@@ -504,9 +826,6 @@ export class EDefterService {
       return { exists: false, warning: "Şirket bulunamadı" };
     }
 
-    const metadata = (company.metadata as Record<string, unknown>) || {};
-    const eDefterRecords = (metadata.eDefter as Array<Record<string, unknown>>) || [];
-
     // Calculate previous period end date
     let previousEndDate: Date;
     switch (currentPeriod.periodType) {
@@ -524,15 +843,23 @@ export class EDefterService {
         break;
     }
 
-    const previousLedger = eDefterRecords.find((r) => {
-      const periodEnd = new Date(r.periodEnd as string);
-      return Math.abs(periodEnd.getTime() - previousEndDate.getTime()) < 86400000; // 1 day tolerance
+    const previousLedger = await prisma.eDefterLedger.findFirst({
+      where: {
+        tenantId,
+        clientCompanyId,
+        // 1 day tolerance
+        periodEnd: {
+          gt: new Date(previousEndDate.getTime() - 86400000),
+          lt: new Date(previousEndDate.getTime() + 86400000),
+        },
+      },
+      select: { id: true },
     });
 
     if (previousLedger) {
       return {
         exists: true,
-        previousLedgerId: previousLedger.ledgerId as string,
+        previousLedgerId: previousLedger.id,
       };
     }
 
@@ -595,9 +922,12 @@ export class EDefterService {
     totalDebit: number;
     totalCredit: number;
   }> {
-    const companies = await prisma.clientCompany.findMany({
-      where: { tenantId },
-      select: { metadata: true },
+    const ledgers = await prisma.eDefterLedger.findMany({
+      where: {
+        tenantId,
+        ...(year ? { periodStart: { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) } } : {}),
+      },
+      select: { periodType: true, status: true, totalDebit: true, totalCredit: true },
     });
 
     const stats = {
@@ -615,44 +945,31 @@ export class EDefterService {
       totalCredit: 0,
     };
 
-    for (const company of companies) {
-      const metadata = (company.metadata as Record<string, unknown>) || {};
-      const eDefterRecords = (metadata.eDefter as Array<Record<string, unknown>>) || [];
-
-      for (const record of eDefterRecords) {
-        // Filter by year if specified
-        if (year) {
-          const periodStart = new Date(record.periodStart as string);
-          if (periodStart.getFullYear() !== year) continue;
-        }
-
-        stats.totalLedgers++;
-
-        const status = record.status as string;
-        switch (status) {
-          case "generated":
-          case "draft":
-            stats.draft++;
-            break;
-          case "submitted":
-            stats.submitted++;
-            break;
-          case "accepted":
-            stats.accepted++;
-            break;
-          case "rejected":
-            stats.rejected++;
-            break;
-        }
+    for (const record of ledgers) {
+      stats.totalLedgers++;
+
+      switch (record.status) {
+        case "generated":
+        case "draft":
+          stats.draft++;
+          break;
+        case "submitted":
+          stats.submitted++;
+          break;
+        case "accepted":
+          stats.accepted++;
+          break;
+        case "rejected":
+          stats.rejected++;
+          break;
+      }
 
-        const periodType = record.periodType as string;
-        if (periodType === "monthly") stats.byPeriodType.monthly++;
-        else if (periodType === "quarterly") stats.byPeriodType.quarterly++;
-        else if (periodType === "yearly") stats.byPeriodType.yearly++;
+      if (record.periodType === "monthly") stats.byPeriodType.monthly++;
+      else if (record.periodType === "quarterly") stats.byPeriodType.quarterly++;
+      else if (record.periodType === "yearly") stats.byPeriodType.yearly++;
 
-        stats.totalDebit += (record.totalDebit as number) || 0;
-        stats.totalCredit += (record.totalCredit as number) || 0;
-      }
+      stats.totalDebit += Number(record.totalDebit);
+      stats.totalCredit += Number(record.totalCredit);
     }
 
     return stats;
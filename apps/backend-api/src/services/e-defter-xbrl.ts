@@ -0,0 +1,465 @@
+import { parseAccountCode, TEK_DUZEN_HESAP_PLANI_TEMPLATE } from "./chart-of-accounts";
+
+/**
+ * GİB e-Defter XBRL-GL builders
+ *
+ * Produces yevmiye (journal) and büyük defter (kebir / general ledger)
+ * instance documents in the GİB e-Defter XBRL-GL profile, the berat drafts
+ * that are signed with the mali mühür before upload, and a validation step
+ * that checks the GİB schema rules on the document model before anything is
+ * serialized.
+ *
+ * GİB expects one set of files per calendar month; a month whose documents
+ * exceed the size limit is split into parts (parça) at yevmiye madde /
+ * kebir hesap boundaries.
+ */
+
+export type EDefterDocumentKind = "yevmiye" | "kebir";
+export type EDefterFileType = "yevmiye" | "kebir" | "yevmiye_berat" | "kebir_berat";
+
+/** GİB upload limit for a single defter part, uncompressed. */
+export const E_DEFTER_MAX_PART_BYTES = 100 * 1024 * 1024;
+
+const CONTEXT_REF = "ledger_context";
+const UNIT_REF = "try";
+
+const NAMESPACES = [
+  'xmlns:edefter="http://www.edefter.gov.tr"',
+  'xmlns:xbrli="http://www.xbrl.org/2003/instance"',
+  'xmlns:xbrll="http://www.xbrl.org/2003/linkbase"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:iso4217="http://www.xbrl.org/2003/iso4217"',
+  'xmlns:iso639="http://www.xbrl.org/2005/iso639"',
+  'xmlns:gl-cor="http://www.xbrl.org/int/gl/cor/2006-10-25"',
+  'xmlns:gl-bus="http://www.xbrl.org/int/gl/bus/2006-10-25"',
+  'xmlns:gl-plt="http://www.xbrl.org/int/gl/plt/2006-10-25"',
+  'xmlns:ds="http://www.w3.org/2000/09/xmldsig#"',
+].join(" ");
+
+const SCHEMA_REF =
+  '<xbrll:schemaRef xlink:type="simple" xlink:arcrole="http://www.w3.org/1999/xlink/properties/linkbase" xlink:href="../xsd/2006-10-25/plt/case-c-b-m-u-t/gl-plt-2006-10-25.xsd"/>';
+
+export interface EDefterHeader {
+  taxNumber: string;
+  companyName: string;
+  address?: string | null;
+  periodStart: Date;
+  periodEnd: Date;
+  fiscalYearStart: Date;
+  fiscalYearEnd: Date;
+  creationDate: Date;
+  sourceApplication: string;
+}
+
+export interface YevmiyeLine {
+  lineNumberCounter: number;
+  accountCode: string;
+  accountName: string;
+  amount: number;
+  debitCreditCode: "D" | "C";
+  description?: string | null;
+}
+
+export interface YevmiyeMadde {
+  entryNumber: number;
+  date: Date;
+  description: string;
+  documentNumber?: string | null;
+  lines: YevmiyeLine[];
+}
+
+export interface EDefterXmlPart {
+  kind: EDefterDocumentKind;
+  partNumber: number;
+  uniqueId: string;
+  xml: string;
+  firstEntryNumber: number | null;
+  lastEntryNumber: number | null;
+}
+
+export interface EDefterValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────
+
+export function formatXbrlDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatAmount(amount: number): string {
+  return (Math.round(amount * 100) / 100).toFixed(2);
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function el(tag: string, value: string | number, attributes = ""): string {
+  return `<${tag} contextRef="${CONTEXT_REF}"${attributes}>${escapeXml(String(value))}</${tag}>`;
+}
+
+function amountEl(tag: string, amount: number): string {
+  return el(tag, formatAmount(amount), ` unitRef="${UNIT_REF}" decimals="INF"`);
+}
+
+function periodCode(header: EDefterHeader): string {
+  return formatXbrlDate(header.periodStart).slice(0, 7).replace("-", "");
+}
+
+/**
+ * GİB file name, e.g. 1234567890-202601-Y-000000.xml or 1234567890-202601-YB-000000.xml
+ */
+export function buildEDefterFileName(header: EDefterHeader, fileType: EDefterFileType, partNumber: number): string {
+  const typeCode = { yevmiye: "Y", kebir: "K", yevmiye_berat: "YB", kebir_berat: "KB" }[fileType];
+  return `${header.taxNumber}-${periodCode(header)}-${typeCode}-${String(partNumber).padStart(6, "0")}.xml`;
+}
+
+function buildUniqueId(header: EDefterHeader, kind: EDefterDocumentKind, partNumber: number): string {
+  return `${kind === "yevmiye" ? "YEV" : "KEB"}${periodCode(header)}${String(partNumber).padStart(6, "0")}`;
+}
+
+const MAIN_ACCOUNT_NAMES = new Map(TEK_DUZEN_HESAP_PLANI_TEMPLATE.map((entry) => [entry.code, entry.name]));
+
+function buildAccount(line: YevmiyeLine): string {
+  const { mainAccountCode, level } = parseAccountCode(line.accountCode);
+  const mainName = MAIN_ACCOUNT_NAMES.get(mainAccountCode) ?? line.accountName;
+  const sub =
+    level > 1
+      ? `<gl-cor:accountSub>${el("gl-cor:accountSubDescription", line.accountName)}${el("gl-cor:accountSubID", line.accountCode)}</gl-cor:accountSub>`
+      : "";
+  return `<gl-cor:account>${el("gl-cor:accountMainID", mainAccountCode)}${el("gl-cor:accountMainDescription", mainName)}${sub}</gl-cor:account>`;
+}
+
+// ─── Document skeleton ───────────────────────────────────────────────────
+
+function buildDocumentInfo(header: EDefterHeader, kind: EDefterDocumentKind, uniqueId: string): string {
+  return [
+    "<gl-cor:documentInfo>",
+    el("gl-cor:entriesType", kind === "yevmiye" ? "journal" : "ledger"),
+    el("gl-cor:uniqueID", uniqueId),
+    el("gl-cor:language", "iso639:tr"),
+    el("gl-cor:creationDate", formatXbrlDate(header.creationDate)),
+    el("gl-bus:creator", header.companyName),
+    el("gl-cor:entriesComment", kind === "yevmiye" ? "Yevmiye Defteri" : "Büyük Defter"),
+    el("gl-cor:periodCoveredStart", formatXbrlDate(header.periodStart)),
+    el("gl-cor:periodCoveredEnd", formatXbrlDate(header.periodEnd)),
+    el("gl-bus:sourceApplication", header.sourceApplication),
+    "</gl-cor:documentInfo>",
+  ].join("");
+}
+
+function buildEntityInformation(header: EDefterHeader): string {
+  return [
+    "<gl-cor:entityInformation>",
+    "<gl-bus:organizationIdentifiers>",
+    el("gl-bus:organizationIdentifier", header.taxNumber),
+    el("gl-bus:organizationDescription", header.companyName),
+    "</gl-bus:organizationIdentifiers>",
+    header.address
+      ? `<gl-bus:organizationAddress>${el("gl-bus:organizationAddressStreet", header.address)}</gl-bus:organizationAddress>`
+      : "",
+    el("gl-bus:fiscalYearStart", formatXbrlDate(header.fiscalYearStart)),
+    el("gl-bus:fiscalYearEnd", formatXbrlDate(header.fiscalYearEnd)),
+    "</gl-cor:entityInformation>",
+  ].join("");
+}
+
+function buildXbrlHead(header: EDefterHeader): string {
+  return [
+    SCHEMA_REF,
+    `<xbrli:context id="${CONTEXT_REF}">`,
+    `<xbrli:entity><xbrli:identifier scheme="http://www.gib.gov.tr">${escapeXml(header.taxNumber)}</xbrli:identifier></xbrli:entity>`,
+    `<xbrli:period><xbrli:instant>${formatXbrlDate(header.periodEnd)}</xbrli:instant></xbrli:period>`,
+    "</xbrli:context>",
+    `<xbrli:unit id="${UNIT_REF}"><xbrli:measure>iso4217:TRY</xbrli:measure></xbrli:unit>`,
+  ].join("");
+}
+
+function wrapDefter(header: EDefterHeader, kind: EDefterDocumentKind, uniqueId: string, body: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<edefter:defter ${NAMESPACES}>`,
+    "<xbrli:xbrl>",
+    buildXbrlHead(header),
+    "<gl-cor:accountingEntries>",
+    buildDocumentInfo(header, kind, uniqueId),
+    buildEntityInformation(header),
+    body,
+    "</gl-cor:accountingEntries>",
+    "</xbrli:xbrl>",
+    "</edefter:defter>",
+  ].join("");
+}
+
+// ─── Yevmiye / Kebir ─────────────────────────────────────────────────────
+
+function buildYevmiyeEntryHeader(madde: YevmiyeMadde): string {
+  const totalDebit = madde.lines.filter((l) => l.debitCreditCode === "D").reduce((sum, l) => sum + l.amount, 0);
+  const totalCredit = madde.lines.filter((l) => l.debitCreditCode === "C").reduce((sum, l) => sum + l.amount, 0);
+  const date = formatXbrlDate(madde.date);
+
+  const details = madde.lines.map((line, index) =>
+    [
+      "<gl-cor:entryDetail>",
+      el("gl-cor:lineNumber", index + 1),
+      el("gl-cor:lineNumberCounter", line.lineNumberCounter, ' decimals="INF"'),
+      buildAccount(line),
+      amountEl("gl-cor:amount", line.amount),
+      el("gl-cor:debitCreditCode", line.debitCreditCode),
+      el("gl-cor:postingDate", date),
+      el("gl-cor:documentType", "other"),
+      el("gl-cor:documentTypeDescription", "MUHASEBE FİŞİ"),
+      madde.documentNumber ? el("gl-cor:documentNumber", madde.documentNumber) : "",
+      el("gl-cor:documentDate", date),
+      line.description ? el("gl-cor:detailComment", line.description) : "",
+      "</gl-cor:entryDetail>",
+    ].join("")
+  );
+
+  return [
+    "<gl-cor:entryHeader>",
+    el("gl-cor:enteredDate", date),
+    el("gl-cor:entryNumber", madde.entryNumber),
+    el("gl-cor:entryComment", madde.description),
+    amountEl("gl-bus:totalDebit", totalDebit),
+    amountEl("gl-bus:totalCredit", totalCredit),
+    el("gl-cor:entryNumberCounter", madde.entryNumber, ' decimals="INF"'),
+    ...details,
+    "</gl-cor:entryHeader>",
+  ].join("");
+}
+
+/**
+ * One kebir entry header per main account; every detail points back to the
+ * yevmiye madde it was posted with.
+ */
+function buildKebirEntryHeaders(maddeler: YevmiyeMadde[]): Array<{ block: string; entryNumbers: number[] }> {
+  const byAccount = new Map<string, Array<{ madde: YevmiyeMadde; line: YevmiyeLine }>>();
+  for (const madde of maddeler) {
+    for (const line of madde.lines) {
+      const { mainAccountCode } = parseAccountCode(line.accountCode);
+      const bucket = byAccount.get(mainAccountCode) ?? [];
+      bucket.push({ madde, line });
+      byAccount.set(mainAccountCode, bucket);
+    }
+  }
+
+  let counter = 0;
+  return [...byAccount.keys()].sort().map((mainAccountCode) => {
+    const postings = byAccount.get(mainAccountCode)!;
+    const totalDebit = postings.filter((p) => p.line.debitCreditCode === "D").reduce((sum, p) => sum + p.line.amount, 0);
+    const totalCredit = postings.filter((p) => p.line.debitCreditCode === "C").reduce((sum, p) => sum + p.line.amount, 0);
+
+    const details = postings.map(({ madde, line }) => {
+      counter++;
+      const date = formatXbrlDate(madde.date);
+      return [
+        "<gl-cor:entryDetail>",
+        el("gl-cor:lineNumber", madde.entryNumber),
+        el("gl-cor:lineNumberCounter", counter, ' decimals="INF"'),
+        buildAccount(line),
+        amountEl("gl-cor:amount", line.amount),
+        el("gl-cor:debitCreditCode", line.debitCreditCode),
+        el("gl-cor:postingDate", date),
+        madde.documentNumber ? el("gl-cor:documentNumber", madde.documentNumber) : "",
+        el("gl-cor:detailComment", line.description || madde.description),
+        "</gl-cor:entryDetail>",
+      ].join("");
+    });
+
+    const block = [
+      "<gl-cor:entryHeader>",
+      el("gl-cor:enteredDate", formatXbrlDate(postings[postings.length - 1].madde.date)),
+      el("gl-cor:entryComment", MAIN_ACCOUNT_NAMES.get(mainAccountCode) ?? postings[0].line.accountName),
+      amountEl("gl-bus:totalDebit", totalDebit),
+      amountEl("gl-bus:totalCredit", totalCredit),
+      ...details,
+      "</gl-cor:entryHeader>",
+    ].join("");
+
+    return { block, entryNumbers: postings.map((p) => p.madde.entryNumber) };
+  });
+}
+
+/**
+ * Packs entry header blocks into as few parts as the size limit allows.
+ * A single block larger than the limit still gets a part of its own.
+ */
+function packParts(
+  header: EDefterHeader,
+  kind: EDefterDocumentKind,
+  blocks: Array<{ block: string; entryNumbers: number[] }>,
+  maxPartBytes: number
+): EDefterXmlPart[] {
+  const envelopeBytes = Buffer.byteLength(wrapDefter(header, kind, buildUniqueId(header, kind, 0), ""), "utf8");
+  const groups: Array<typeof blocks> = [[]];
+  let currentBytes = envelopeBytes;
+
+  for (const item of blocks) {
+    const size = Buffer.byteLength(item.block, "utf8");
+    const current = groups[groups.length - 1];
+    if (current.length > 0 && currentBytes + size > maxPartBytes) {
+      groups.push([item]);
+      currentBytes = envelopeBytes + size;
+    } else {
+      current.push(item);
+      currentBytes += size;
+    }
+  }
+
+  return groups.map((group, partNumber) => {
+    const uniqueId = buildUniqueId(header, kind, partNumber);
+    const entryNumbers = group.flatMap((item) => item.entryNumbers);
+    return {
+      kind,
+      partNumber,
+      uniqueId,
+      xml: wrapDefter(header, kind, uniqueId, group.map((item) => item.block).join("")),
+      firstEntryNumber: entryNumbers.length > 0 ? Math.min(...entryNumbers) : null,
+      lastEntryNumber: entryNumbers.length > 0 ? Math.max(...entryNumbers) : null,
+    };
+  });
+}
+
+export function buildYevmiyeParts(
+  header: EDefterHeader,
+  maddeler: YevmiyeMadde[],
+  maxPartBytes: number = E_DEFTER_MAX_PART_BYTES
+): EDefterXmlPart[] {
+  const blocks = maddeler.map((madde) => ({
+    block: buildYevmiyeEntryHeader(madde),
+    entryNumbers: [madde.entryNumber],
+  }));
+  return packParts(header, "yevmiye", blocks, maxPartBytes);
+}
+
+export function buildKebirParts(
+  header: EDefterHeader,
+  maddeler: YevmiyeMadde[],
+  maxPartBytes: number = E_DEFTER_MAX_PART_BYTES
+): EDefterXmlPart[] {
+  return packParts(header, "kebir", buildKebirEntryHeaders(maddeler), maxPartBytes);
+}
+
+// ─── Berat ───────────────────────────────────────────────────────────────
+
+/**
+ * Berat draft for a defter part. The signature block carries the SHA-256
+ * digest of the part and is left unsigned; the mali mühür signature is
+ * applied by the taxpayer's signing application before upload to GİB.
+ */
+export function buildBeratXml(header: EDefterHeader, part: EDefterXmlPart, fileName: string, digestBase64: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<edefter:berat ${NAMESPACES}>`,
+    "<xbrli:xbrl>",
+    buildXbrlHead(header),
+    "<gl-cor:accountingEntries>",
+    buildDocumentInfo(header, part.kind, part.uniqueId),
+    buildEntityInformation(header),
+    "<gl-cor:entryHeader>",
+    el("gl-cor:entryNumberCounter", part.lastEntryNumber ?? 0, ' decimals="INF"'),
+    "</gl-cor:entryHeader>",
+    "</gl-cor:accountingEntries>",
+    "</xbrli:xbrl>",
+    '<ds:Signature Id="Signature_1">',
+    "<ds:SignedInfo>",
+    '<ds:CanonicalizationMethod Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"/>',
+    '<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"/>',
+    `<ds:Reference URI="${escapeXml(fileName)}">`,
+    '<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>',
+    `<ds:DigestValue>${digestBase64}</ds:DigestValue>`,
+    "</ds:Reference>",
+    "</ds:SignedInfo>",
+    "<ds:SignatureValue/>",
+    "</ds:Signature>",
+    "</edefter:berat>",
+  ].join("");
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────
+
+/**
+ * Checks the GİB e-Defter schema rules on the document model: identifiers,
+ * single-month coverage, account codes, balanced maddeler and gapless
+ * yevmiye madde / satır numbering.
+ */
+export function validateEDefterDocument(header: EDefterHeader, maddeler: YevmiyeMadde[]): EDefterValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!/^\d{10,11}$/.test(header.taxNumber)) {
+    errors.push(`Vergi/TC kimlik numarası 10 veya 11 haneli olmalıdır: ${header.taxNumber || "(boş)"}`);
+  }
+  if (!header.companyName.trim()) {
+    errors.push("Unvan bilgisi boş olamaz");
+  }
+  if (
+    header.periodStart.getFullYear() !== header.periodEnd.getFullYear() ||
+    header.periodStart.getMonth() !== header.periodEnd.getMonth()
+  ) {
+    errors.push("Bir e-Defter dosyası yalnızca tek bir takvim ayını kapsayabilir");
+  }
+  if (maddeler.length === 0) {
+    errors.push("Dönemde yevmiye maddesi bulunmuyor");
+  }
+
+  const periodStart = formatXbrlDate(header.periodStart);
+  const periodEnd = formatXbrlDate(header.periodEnd);
+  let previousEntryNumber: number | null = null;
+  let previousLineCounter: number | null = null;
+
+  for (const madde of maddeler) {
+    const label = `Madde ${madde.entryNumber}`;
+
+    if (previousEntryNumber !== null && madde.entryNumber !== previousEntryNumber + 1) {
+      errors.push(`${label}: yevmiye madde numarası kesintisiz olmalıdır (önceki: ${previousEntryNumber})`);
+    }
+    previousEntryNumber = madde.entryNumber;
+
+    const date = formatXbrlDate(madde.date);
+    if (date < periodStart || date > periodEnd) {
+      errors.push(`${label}: kayıt tarihi ${date} dönem dışında`);
+    }
+    if (madde.lines.length < 2) {
+      errors.push(`${label}: en az bir borç ve bir alacak satırı olmalıdır`);
+    }
+    if (!madde.description.trim()) {
+      warnings.push(`${label}: madde açıklaması boş`);
+    }
+
+    let debit = 0;
+    let credit = 0;
+    for (const line of madde.lines) {
+      if (previousLineCounter !== null && line.lineNumberCounter !== previousLineCounter + 1) {
+        errors.push(`${label}: satır sayacı kesintisiz olmalıdır (önceki: ${previousLineCounter})`);
+      }
+      previousLineCounter = line.lineNumberCounter;
+
+      if (!/^\d{3}$/.test(parseAccountCode(line.accountCode).mainAccountCode)) {
+        errors.push(`${label}: geçersiz ana hesap kodu "${line.accountCode}"`);
+      }
+      if (!(line.amount > 0)) {
+        errors.push(`${label}: ${line.accountCode} satırında tutar sıfırdan büyük olmalıdır`);
+      }
+      if (line.debitCreditCode === "D") debit += line.amount;
+      else credit += line.amount;
+    }
+
+    if (Math.abs(debit - credit) > 0.01) {
+      errors.push(`${label}: borç (${formatAmount(debit)}) ve alacak (${formatAmount(credit)}) eşit değil`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
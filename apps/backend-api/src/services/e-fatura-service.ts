@@ -3,6 +3,7 @@ import { prisma } from "../lib/prisma";
 import { ETAConnector } from "../integrations/connectors/eta-connector";
 import { NotFoundError, ValidationError } from "@repo/shared-utils";
 import { logger } from "@repo/shared-utils";
+import { approvalService } from "./approval-service";
 import {
   gibComplianceService,
   GIB_EFATURA_STATUS,
@@ -528,9 +529,11 @@ export class EFaturaService {
   }
 
   /**
-   * Retry failed invoice submissions
+   * Retry failed invoice submissions. Each resubmission goes through the
+   * same approval check as a single submit; invoices without an approval
+   * are skipped.
    */
-  async retryFailedSubmissions(tenantId: string): Promise<number> {
+  async retryFailedSubmissions(tenantId: string, userId: string): Promise<number> {
     // Find all invoices for tenant and filter by metadata in memory
     // Prisma JSON filtering has limitations, so we fetch and filter
     const allInvoices = await prisma.invoice.findMany({
@@ -565,7 +568,14 @@ export class EFaturaService {
         });
 
         if (integration) {
-          await this.submitInvoice(tenantId, invoice.id, integration.config as Record<string, unknown>);
+          await approvalService.withApproval(
+            tenantId,
+            userId,
+            "efatura_submit",
+            invoice.id,
+            () => this.submitInvoice(tenantId, invoice.id, integration.config as Record<string, unknown>),
+            (result) => result.success
+          );
           retryCount++;
         }
       } catch (error) {
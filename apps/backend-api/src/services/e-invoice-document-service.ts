@@ -0,0 +1,270 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import type { ParsedInvoiceFields } from "@repo/core-domain";
+import type { Readable } from "stream";
+import { accountingPeriodService } from "./accounting-period-service";
+import { documentService } from "./document-service";
+import { counterpartyService } from "./counterparty-service";
+import { stockService } from "./stock-service";
+import { dimensionService } from "./dimension-service";
+import { isUblInvoice, parseUblInvoiceFile, type ParsedUblInvoice, type UblParty } from "../integrations/e-invoice-parsers";
+
+/**
+ * e-Fatura / e-Arşiv XML belgeleri
+ *
+ * Uploaded UBL-TR files skip OCR: the document processor parses them
+ * deterministically and books the invoice with its lines here. The
+ * direction follows the client company's VKN (issued by the company is a
+ * sale, received is a purchase) and an invoice already booked under the same
+ * ETTN is linked instead of duplicated. Line tevkifat and istisna codes go
+ * to InvoiceLine; UBL details without a column (ETTN, profile, kur) are
+ * kept in metadata.ubl.
+ */
+
+export interface EInvoiceLinkResult {
+  invoiceId: string;
+  created: boolean;
+}
+
+export interface EInvoicePreview {
+  mimeType: string;
+  fileName: string;
+  content: Buffer;
+}
+
+function partySummary(party: UblParty) {
+  return { name: party.name, taxNumber: party.taxNumber, taxNumberScheme: party.taxNumberScheme, taxOffice: party.taxOffice };
+}
+
+async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export class EInvoiceDocumentService {
+  /**
+   * Map a parsed UBL-TR invoice to the DocumentParsedData fields. The
+   * counterparty is the supplier, as seen on a received invoice.
+   */
+  toParsedFields(invoice: ParsedUblInvoice): ParsedInvoiceFields {
+    return {
+      invoiceNumber: invoice.invoiceNumber,
+      issueDate: invoice.issueDate.toISOString(),
+      dueDate: invoice.dueDate ? invoice.dueDate.toISOString() : null,
+      totalAmount: invoice.totalAmount,
+      netAmount: invoice.netAmount,
+      taxAmount: invoice.taxAmount,
+      currency: invoice.currency,
+      counterpartyName: invoice.supplier.name,
+      counterpartyTaxNumber: invoice.supplier.taxNumber,
+      lineItems: invoice.lines.map((line) => ({
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineTotal: line.lineTotal,
+        vatRate: line.vatRate,
+        vatAmount: line.vatAmount,
+      })),
+      ettn: invoice.ettn,
+      profileId: invoice.profileId,
+      invoiceTypeCode: invoice.invoiceTypeCode,
+      exchangeRate: invoice.exchangeRate,
+      supplier: partySummary(invoice.supplier),
+      customer: partySummary(invoice.customer),
+      taxBreakdown: invoice.taxSubtotals,
+      withholdings: invoice.withholdings,
+      withholdingAmount: invoice.withholdingAmount,
+      exemptionCodes: [
+        ...new Set(
+          [...invoice.taxSubtotals.map((subtotal) => subtotal.exemptionReasonCode), ...invoice.lines.map((line) => line.exemptionReasonCode)]
+            .filter((code): code is string => !!code)
+        ),
+      ],
+      payableAmount: invoice.payableAmount,
+      hasEmbeddedPreview: invoice.attachments.length > 0,
+    };
+  }
+
+  /**
+   * Book the invoice described by an uploaded UBL-TR document and link the
+   * document to it
+   */
+  async createInvoiceFromDocument(
+    tenantId: string,
+    documentId: string,
+    invoice: ParsedUblInvoice
+  ): Promise<EInvoiceLinkResult> {
+    const document = await prisma.document.findFirst({
+      where: { id: documentId, tenantId, isDeleted: false },
+      include: { clientCompany: true },
+    });
+
+    if (!document) {
+      throw new NotFoundError("Belge bulunamadı.");
+    }
+
+    const existing = await prisma.invoice.findFirst({
+      where: {
+        tenantId,
+        clientCompanyId: document.clientCompanyId,
+        metadata: { path: ["ubl", "ettn"], equals: invoice.ettn },
+      },
+    });
+
+    if (existing) {
+      await prisma.document.update({
+        where: { id: documentId },
+        data: { relatedInvoiceId: existing.id, type: "INVOICE" },
+      });
+      return { invoiceId: existing.id, created: false };
+    }
+
+    const companyTaxNumber = document.clientCompany.taxNumber;
+    let type: "SATIŞ" | "ALIŞ";
+    let counterparty: UblParty;
+    if (companyTaxNumber && invoice.supplier.taxNumber === companyTaxNumber) {
+      type = "SATIŞ";
+      counterparty = invoice.customer;
+    } else if (!companyTaxNumber || invoice.customer.taxNumber === companyTaxNumber) {
+      type = "ALIŞ";
+      counterparty = invoice.supplier;
+    } else {
+      throw new ValidationError(
+        `Fatura tarafları (${invoice.supplier.taxNumber ?? "-"} / ${invoice.customer.taxNumber ?? "-"}) müşteri şirketinin VKN'si (${companyTaxNumber}) ile eşleşmiyor.`
+      );
+    }
+
+    await accountingPeriodService.assertDateWritable(tenantId, document.clientCompanyId, invoice.issueDate);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const record = await tx.invoice.create({
+        data: {
+          tenantId,
+          clientCompanyId: document.clientCompanyId,
+          externalId: invoice.invoiceNumber,
+          type,
+          issueDate: invoice.issueDate,
+          dueDate: invoice.dueDate,
+          totalAmount: invoice.totalAmount,
+          currency: invoice.currency,
+          taxAmount: invoice.taxAmount,
+          netAmount: invoice.netAmount,
+          counterpartyName: counterparty.name ? sanitizeString(counterparty.name) : null,
+          counterpartyTaxNumber: counterparty.taxNumber,
+          status: "kesildi",
+          source: "import",
+          metadata: {
+            ubl: {
+              ettn: invoice.ettn,
+              profileId: invoice.profileId,
+              invoiceTypeCode: invoice.invoiceTypeCode,
+              exchangeRate: invoice.exchangeRate,
+              supplier: partySummary(invoice.supplier),
+              customer: partySummary(invoice.customer),
+              taxBreakdown: invoice.taxSubtotals,
+              withholdings: invoice.withholdings,
+              withholdingAmount: invoice.withholdingAmount,
+              payableAmount: invoice.payableAmount,
+              unitCodes: invoice.lines.map((line) => line.unitCode),
+              documentId,
+            },
+          } as any,
+          lines: {
+            create: invoice.lines.map((line) => ({
+              tenantId,
+              lineNumber: line.lineNumber,
+              description: sanitizeString(line.description).slice(0, 500),
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              lineTotal: line.lineTotal,
+              vatRate: line.vatRate,
+              vatAmount: line.vatAmount,
+              withholdingCode: line.withholding?.taxTypeCode ?? null,
+              withholdingRate: line.withholding ? line.withholding.percent / 100 : null,
+              exemptionCode: line.exemptionReasonCode,
+            })),
+          },
+        },
+      });
+
+      await tx.document.update({
+        where: { id: documentId },
+        data: { relatedInvoiceId: record.id, type: "INVOICE" },
+      });
+
+      return record;
+    });
+
+    logger.info("UBL-TR invoice booked from document", undefined, {
+      tenantId,
+      documentId,
+      invoiceId: created.id,
+      ettn: invoice.ettn,
+      type,
+    });
+
+    try {
+      await counterpartyService.linkInvoice(tenantId, created.id);
+    } catch (error) {
+      logger.error("UBL-TR invoice could not be linked to a counterparty", undefined, {
+        invoiceId: created.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      await dimensionService.applyInvoiceDefaults(tenantId, created.id);
+    } catch (error) {
+      logger.error("UBL-TR invoice dimension defaults could not be applied", undefined, {
+        invoiceId: created.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      await stockService.syncInvoiceMovements(tenantId, created.id);
+    } catch (error) {
+      logger.error("UBL-TR invoice stock movements could not be synced", undefined, {
+        invoiceId: created.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return { invoiceId: created.id, created: true };
+  }
+
+  /**
+   * Embedded rendering of a UBL-TR document: the PDF when the issuer
+   * attached one, otherwise the XSLT görüntüleme şablonu, which the client
+   * applies to the XML itself.
+   */
+  async getPreview(tenantId: string, documentId: string): Promise<EInvoicePreview> {
+    const document = await documentService.getDocumentById(tenantId, documentId);
+    const buffer = await streamToBuffer(await documentService.getDocumentStream(tenantId, documentId));
+
+    if (!isUblInvoice(buffer)) {
+      throw new NotFoundError("Bu belge bir e-Fatura / e-Arşiv XML dosyası değil.");
+    }
+
+    const { attachments } = parseUblInvoiceFile(buffer);
+    const attachment =
+      attachments.find((item) => item.mimeType === "application/pdf") ??
+      attachments.find((item) => item.mimeType === "application/xslt+xml");
+
+    if (!attachment) {
+      throw new NotFoundError("Faturada gömülü PDF veya XSLT görüntüleme şablonu bulunmuyor.");
+    }
+
+    const baseName = document.originalFileName.replace(/\.xml$/i, "");
+    return {
+      mimeType: attachment.mimeType,
+      fileName: attachment.fileName ?? `${baseName}.${attachment.mimeType === "application/pdf" ? "pdf" : "xslt"}`,
+      content: attachment.content,
+    };
+  }
+}
+
+export const eInvoiceDocumentService = new EInvoiceDocumentService();
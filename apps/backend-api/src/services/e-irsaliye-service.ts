@@ -0,0 +1,509 @@
+import { randomUUID } from "crypto";
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import { parseUblDespatchAdviceFile } from "../integrations/e-invoice-parsers";
+import { normalizeTaxNumber } from "./babs-form-service";
+import { auditService } from "./audit-service";
+import { counterpartyService } from "./counterparty-service";
+import { buildEIrsaliyeXml, normalizeVehiclePlate, validateEIrsaliye, type EIrsaliyeInput } from "./e-irsaliye-xml";
+import { STOCK_UNIT_CODES, matchStockItem } from "./stock-service";
+
+/**
+ * e-İrsaliye
+ *
+ * Outgoing irsaliyeler are drafted from a sales invoice or from stock
+ * lines, validated and frozen as UBL-TR when issued; the XML then goes to
+ * the özel entegratör. Incoming ones are uploaded as received and their
+ * lines matched to stok kartları.
+ *
+ * An irsaliye does not move stock itself: the invoice does. The stock
+ * consistency check flags irsaliyeler that stay unbilled beyond the 7 days
+ * of VUK 231/5 or are billed with other quantities.
+ */
+
+const DEFAULT_SERIES = "IRS";
+const MAX_DESPATCH_FILE_SIZE = 5 * 1024 * 1024;
+
+export type DespatchDirection = "outgoing" | "incoming";
+export type DespatchStatus = "draft" | "issued" | "received";
+
+export interface DespatchLineInput {
+  itemId?: string | null;
+  description?: string | null; // defaults to the item name
+  quantity: number;
+  unit?: string | null; // defaults to the item unit, then C62
+}
+
+export interface CreateDespatchAdviceInput {
+  clientCompanyId: string;
+  invoiceId?: string | null; // copies the counterparty and the stock lines
+  counterpartyId?: string | null;
+  counterpartyName?: string | null;
+  counterpartyTaxNumber?: string | null;
+  series?: string; // 3-character seri, e.g. IRS
+  issueDate: Date;
+  despatchDate?: Date | null;
+  deliveryAddress?: string | null;
+  carrierName?: string | null;
+  carrierTaxNumber?: string | null;
+  driverName?: string | null;
+  driverTckn?: string | null;
+  vehiclePlate?: string | null;
+  warehouseId?: string | null;
+  notes?: string | null;
+  lines?: DespatchLineInput[];
+}
+
+export interface ListDespatchAdvicesFilters {
+  clientCompanyId?: string;
+  direction?: DespatchDirection;
+  status?: DespatchStatus;
+  page?: number;
+  pageSize?: number;
+}
+
+const DETAIL_INCLUDE = {
+  clientCompany: { select: { id: true, name: true } },
+  counterparty: { select: { id: true, name: true, taxNumber: true } },
+  warehouse: { select: { id: true, code: true, name: true } },
+  invoice: { select: { id: true, externalId: true, type: true, issueDate: true } },
+  lines: {
+    orderBy: { lineNumber: "asc" as const },
+    include: { item: { select: { id: true, code: true, name: true } } },
+  },
+};
+
+function toResponse<T extends { lines: Array<{ quantity: unknown }> }>(despatch: T) {
+  return {
+    ...despatch,
+    lines: despatch.lines.map((line) => ({ ...line, quantity: Number(line.quantity) })),
+  };
+}
+
+function firstAddress(addresses: unknown): { address: string | null; city: string | null } {
+  const first = Array.isArray(addresses) ? (addresses[0] as { address?: string; city?: string } | undefined) : undefined;
+  return { address: first?.address ?? null, city: first?.city ?? null };
+}
+
+export class EIrsaliyeService {
+  /**
+   * List irsaliyeler
+   */
+  async list(tenantId: string, filters: ListDespatchAdvicesFilters = {}) {
+    const page = filters.page || 1;
+    const pageSize = Math.min(filters.pageSize || 20, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: any = { tenantId };
+    if (filters.clientCompanyId) where.clientCompanyId = filters.clientCompanyId;
+    if (filters.direction) where.direction = filters.direction;
+    if (filters.status) where.status = filters.status;
+
+    const [items, total] = await Promise.all([
+      prisma.despatchAdvice.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: [{ issueDate: "desc" }, { despatchNumber: "desc" }],
+        select: {
+          id: true,
+          clientCompanyId: true,
+          direction: true,
+          despatchNumber: true,
+          uuid: true,
+          issueDate: true,
+          despatchDate: true,
+          counterpartyName: true,
+          counterpartyTaxNumber: true,
+          status: true,
+          invoice: { select: { id: true, externalId: true } },
+          _count: { select: { lines: true } },
+        },
+      }),
+      prisma.despatchAdvice.count({ where }),
+    ]);
+
+    return {
+      data: items.map(({ _count, ...item }) => ({ ...item, lineCount: _count.lines })),
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  async getById(tenantId: string, id: string) {
+    const despatch = await prisma.despatchAdvice.findFirst({
+      where: { id, tenantId },
+      include: DETAIL_INCLUDE,
+    });
+    if (!despatch) throw new NotFoundError("İrsaliye bulunamadı.");
+
+    const { ublXml, ...rest } = despatch;
+    return toResponse({ ...rest, hasXml: !!ublXml });
+  }
+
+  /**
+   * Draft an outgoing irsaliye with the next number of the seri
+   */
+  async createOutgoing(tenantId: string, userId: string, input: CreateDespatchAdviceInput) {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: input.clientCompanyId, tenantId },
+      select: { id: true },
+    });
+    if (!client) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const invoice = input.invoiceId
+      ? await prisma.invoice.findFirst({
+          where: { id: input.invoiceId, tenantId, clientCompanyId: input.clientCompanyId },
+          include: { lines: { orderBy: { lineNumber: "asc" } } },
+        })
+      : null;
+    if (input.invoiceId && !invoice) throw new NotFoundError("Fatura bulunamadı.");
+    if (invoice && invoice.type !== "SATIŞ") {
+      throw new ValidationError("Giden irsaliye yalnızca satış faturasından oluşturulabilir.");
+    }
+
+    const counterpartyId = input.counterpartyId ?? invoice?.counterpartyId ?? null;
+    const card = counterpartyId
+      ? await prisma.counterparty.findFirst({ where: { id: counterpartyId, tenantId, clientCompanyId: input.clientCompanyId } })
+      : null;
+    if (input.counterpartyId && !card) throw new NotFoundError("Cari hesap bulunamadı.");
+
+    const counterpartyName = input.counterpartyName ?? card?.name ?? invoice?.counterpartyName ?? null;
+    if (!counterpartyName?.trim()) {
+      throw new ValidationError("Alıcı unvanı veya cari hesap seçilmelidir.");
+    }
+    const counterpartyTaxNumber = normalizeTaxNumber(
+      input.counterpartyTaxNumber ?? card?.taxNumber ?? invoice?.counterpartyTaxNumber ?? null
+    );
+
+    // Stock lines of the invoice, or every line when none is a stok kartı
+    const invoiceLines = invoice?.lines.filter((line) => Number(line.quantity) > 0) ?? [];
+    const stockLines = invoiceLines.filter((line) => line.stockItemId);
+    const lineInputs: DespatchLineInput[] =
+      input.lines ??
+      (stockLines.length > 0 ? stockLines : invoiceLines).map((line) => ({
+        itemId: line.stockItemId,
+        description: line.description,
+        quantity: Number(line.quantity),
+      }));
+    const lines = await this.resolveLines(tenantId, input.clientCompanyId, lineInputs);
+
+    if (input.warehouseId) {
+      const warehouse = await prisma.warehouse.findFirst({
+        where: { id: input.warehouseId, tenantId, clientCompanyId: input.clientCompanyId },
+        select: { id: true },
+      });
+      if (!warehouse) throw new NotFoundError("Depo bulunamadı.");
+    }
+
+    const series = (input.series ?? DEFAULT_SERIES).toUpperCase();
+    if (!/^[A-Z0-9]{3}$/.test(series)) {
+      throw new ValidationError("İrsaliye serisi 3 karakter (harf veya rakam) olmalıdır.");
+    }
+    const issueDate = new Date(input.issueDate);
+
+    const despatch = await prisma.despatchAdvice.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        direction: "outgoing",
+        despatchNumber: await this.nextNumber(tenantId, input.clientCompanyId, series, issueDate.getFullYear()),
+        uuid: randomUUID().toUpperCase(),
+        issueDate,
+        despatchDate: input.despatchDate ?? issueDate,
+        counterpartyId: card?.id ?? null,
+        counterpartyName: sanitizeString(counterpartyName),
+        counterpartyTaxNumber,
+        deliveryAddress: input.deliveryAddress
+          ? sanitizeString(input.deliveryAddress)
+          : firstAddress(card?.addresses).address,
+        carrierName: input.carrierName ? sanitizeString(input.carrierName) : null,
+        carrierTaxNumber: normalizeTaxNumber(input.carrierTaxNumber ?? null),
+        driverName: input.driverName ? sanitizeString(input.driverName) : null,
+        driverTckn: input.driverTckn ? input.driverTckn.replace(/\D/g, "") : null,
+        vehiclePlate: normalizeVehiclePlate(input.vehiclePlate),
+        warehouseId: input.warehouseId ?? null,
+        invoiceId: invoice?.id ?? null,
+        notes: input.notes ? sanitizeString(input.notes) : null,
+        createdByUserId: userId,
+        lines: { create: lines.map((line) => ({ tenantId, ...line })) },
+      },
+    });
+
+    return this.getById(tenantId, despatch.id);
+  }
+
+  /**
+   * Validate against the e-İrsaliye rules and freeze the UBL-TR document
+   */
+  async issue(tenantId: string, userId: string, id: string) {
+    const despatch = await prisma.despatchAdvice.findFirst({ where: { id, tenantId } });
+    if (!despatch) throw new NotFoundError("İrsaliye bulunamadı.");
+    if (despatch.direction !== "outgoing" || despatch.status !== "draft") {
+      throw new ValidationError("Yalnızca taslak giden irsaliyeler düzenlenebilir.");
+    }
+
+    const input = await this.buildInput(tenantId, id);
+    const errors = validateEIrsaliye(input);
+    if (errors.length > 0) {
+      throw new ValidationError(errors.map((error) => error.message).join(" "));
+    }
+
+    await prisma.despatchAdvice.update({
+      where: { id },
+      data: { status: "issued", ublXml: buildEIrsaliyeXml(input) },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "E_IRSALIYE_ISSUED",
+      resourceType: "DespatchAdvice",
+      resourceId: id,
+      metadata: { clientCompanyId: despatch.clientCompanyId, despatchNumber: despatch.despatchNumber, uuid: despatch.uuid },
+    });
+
+    logger.info("e-İrsaliye issued", undefined, { tenantId, despatchAdviceId: id, despatchNumber: despatch.despatchNumber });
+    return this.getById(tenantId, id);
+  }
+
+  /**
+   * The UBL-TR file: as issued or received, or a preview of a draft
+   */
+  async getXml(tenantId: string, id: string): Promise<{ fileName: string; xml: string }> {
+    const despatch = await prisma.despatchAdvice.findFirst({
+      where: { id, tenantId },
+      select: { id: true, despatchNumber: true, ublXml: true },
+    });
+    if (!despatch) throw new NotFoundError("İrsaliye bulunamadı.");
+
+    const xml = despatch.ublXml ?? buildEIrsaliyeXml(await this.buildInput(tenantId, id));
+    return { fileName: `${despatch.despatchNumber}.xml`, xml };
+  }
+
+  /**
+   * Book a received e-İrsaliye XML for the client company it was sent to
+   */
+  async receive(tenantId: string, userId: string, clientCompanyId: string, file: Buffer) {
+    if (file.length > MAX_DESPATCH_FILE_SIZE) {
+      throw new ValidationError("İrsaliye dosyası 5 MB'tan büyük olamaz.");
+    }
+
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+      select: { id: true, taxNumber: true },
+    });
+    if (!client) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const parsed = parseUblDespatchAdviceFile(file);
+    if (parsed.customer.taxNumber && normalizeTaxNumber(client.taxNumber) !== parsed.customer.taxNumber) {
+      throw new ValidationError(`İrsaliyenin alıcısı (${parsed.customer.taxNumber}) bu müşteri şirketi değil.`);
+    }
+    if (parsed.despatchNumber.length > 16) {
+      throw new ValidationError(`Geçersiz irsaliye numarası: ${parsed.despatchNumber}`);
+    }
+
+    const duplicate = await prisma.despatchAdvice.findFirst({
+      where: { tenantId, clientCompanyId, direction: "incoming", OR: [{ uuid: parsed.ettn }, { despatchNumber: parsed.despatchNumber }] },
+      select: { id: true },
+    });
+    if (duplicate) {
+      throw new ValidationError(`${parsed.despatchNumber} irsaliyesi zaten kayıtlı.`);
+    }
+
+    const [card, items] = await Promise.all([
+      counterpartyService.resolve(tenantId, clientCompanyId, parsed.supplier.name, parsed.supplier.taxNumber),
+      prisma.stockItem.findMany({
+        where: { tenantId, clientCompanyId, isActive: true },
+        select: { id: true, code: true, name: true, barcode: true, aliases: true },
+      }),
+    ]);
+
+    const despatch = await prisma.despatchAdvice.create({
+      data: {
+        tenantId,
+        clientCompanyId,
+        direction: "incoming",
+        despatchNumber: parsed.despatchNumber,
+        uuid: parsed.ettn,
+        profileId: parsed.profileId ?? "TEMELIRSALIYE",
+        issueDate: parsed.issueDate,
+        despatchDate: parsed.despatchDate ?? parsed.issueDate,
+        counterpartyId: card?.id ?? null,
+        counterpartyName: parsed.supplier.name ?? card?.name ?? parsed.supplier.taxNumber ?? "Bilinmeyen gönderici",
+        counterpartyTaxNumber: parsed.supplier.taxNumber,
+        deliveryAddress: parsed.deliveryAddress,
+        carrierName: parsed.carrier?.name ?? null,
+        carrierTaxNumber: parsed.carrier?.taxNumber ?? null,
+        driverName: parsed.driverName,
+        driverTckn: parsed.driverTckn,
+        vehiclePlate: parsed.vehiclePlate,
+        status: "received",
+        ublXml: file.toString("utf-8"),
+        createdByUserId: userId,
+        lines: {
+          create: parsed.lines.map((line) => ({
+            tenantId,
+            lineNumber: line.lineNumber,
+            itemId: matchStockItem(items, line.description, line.itemCode)?.id ?? null,
+            itemCode: line.itemCode,
+            description: line.description,
+            quantity: line.quantity,
+            unit: line.unitCode ?? "C62",
+          })),
+        },
+      },
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "E_IRSALIYE_RECEIVED",
+      resourceType: "DespatchAdvice",
+      resourceId: despatch.id,
+      metadata: { clientCompanyId, despatchNumber: parsed.despatchNumber, uuid: parsed.ettn, supplier: parsed.supplier.taxNumber },
+    });
+
+    return this.getById(tenantId, despatch.id);
+  }
+
+  /**
+   * Tie the irsaliye to the invoice that bills it (satış for giden, alış
+   * for gelen), or untie it with null
+   */
+  async linkInvoice(tenantId: string, id: string, invoiceId: string | null) {
+    const despatch = await prisma.despatchAdvice.findFirst({ where: { id, tenantId } });
+    if (!despatch) throw new NotFoundError("İrsaliye bulunamadı.");
+
+    if (invoiceId) {
+      const invoice = await prisma.invoice.findFirst({
+        where: { id: invoiceId, tenantId, clientCompanyId: despatch.clientCompanyId },
+        select: { id: true, type: true },
+      });
+      if (!invoice) throw new NotFoundError("Fatura bulunamadı.");
+
+      const expected = despatch.direction === "outgoing" ? "SATIŞ" : "ALIŞ";
+      if (invoice.type !== expected) {
+        throw new ValidationError(`${despatch.direction === "outgoing" ? "Giden" : "Gelen"} irsaliye ${expected} faturasına bağlanabilir.`);
+      }
+    }
+
+    await prisma.despatchAdvice.update({ where: { id }, data: { invoiceId } });
+    return this.getById(tenantId, id);
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    const despatch = await prisma.despatchAdvice.findFirst({ where: { id, tenantId } });
+    if (!despatch) throw new NotFoundError("İrsaliye bulunamadı.");
+    if (despatch.status === "issued") {
+      throw new ValidationError("Düzenlenmiş irsaliye silinemez.");
+    }
+    await prisma.despatchAdvice.delete({ where: { id } });
+  }
+
+  private async resolveLines(tenantId: string, clientCompanyId: string, inputs: DespatchLineInput[]) {
+    if (inputs.length === 0) {
+      throw new ValidationError("İrsaliye en az bir satır içermelidir.");
+    }
+
+    const itemIds = inputs.map((line) => line.itemId).filter((itemId): itemId is string => !!itemId);
+    const items = await prisma.stockItem.findMany({
+      where: { tenantId, clientCompanyId, id: { in: itemIds } },
+      select: { id: true, code: true, name: true, unit: true },
+    });
+
+    return inputs.map((line, index) => {
+      const item = line.itemId ? items.find((candidate) => candidate.id === line.itemId) : null;
+      if (line.itemId && !item) throw new NotFoundError("Stok kartı bulunamadı.");
+
+      const description = line.description?.trim() || item?.name;
+      if (!description) {
+        throw new ValidationError(`${index + 1}. satırın mal adı boş olamaz.`);
+      }
+      if (!(line.quantity > 0)) {
+        throw new ValidationError(`${index + 1}. satırın miktarı sıfırdan büyük olmalıdır.`);
+      }
+      const unit = (line.unit ?? item?.unit ?? "C62").toUpperCase();
+      if (!STOCK_UNIT_CODES.includes(unit)) {
+        throw new ValidationError(`Geçersiz birim kodu: ${unit}`);
+      }
+
+      return {
+        lineNumber: index + 1,
+        itemId: item?.id ?? null,
+        itemCode: item?.code ?? null,
+        description: sanitizeString(description),
+        quantity: Math.round(line.quantity * 1000) / 1000,
+        unit,
+      };
+    });
+  }
+
+  private async nextNumber(tenantId: string, clientCompanyId: string, series: string, year: number): Promise<string> {
+    const prefix = `${series}${year}`;
+    const last = await prisma.despatchAdvice.findFirst({
+      where: { tenantId, clientCompanyId, direction: "outgoing", despatchNumber: { startsWith: prefix } },
+      orderBy: { despatchNumber: "desc" },
+      select: { despatchNumber: true },
+    });
+    const sequence = last ? parseInt(last.despatchNumber.slice(prefix.length), 10) + 1 : 1;
+    return `${prefix}${String(sequence).padStart(9, "0")}`;
+  }
+
+  private async buildInput(tenantId: string, id: string): Promise<EIrsaliyeInput> {
+    const despatch = await prisma.despatchAdvice.findFirst({
+      where: { id, tenantId },
+      include: {
+        clientCompany: true,
+        counterparty: true,
+        lines: { orderBy: { lineNumber: "asc" } },
+      },
+    });
+    if (!despatch) throw new NotFoundError("İrsaliye bulunamadı.");
+
+    const company = despatch.clientCompany;
+    const companyMetadata = (company.metadata as Record<string, unknown>) || {};
+    const customerAddress = firstAddress(despatch.counterparty?.addresses);
+
+    return {
+      uuid: despatch.uuid,
+      despatchNumber: despatch.despatchNumber,
+      profileId: despatch.profileId,
+      issueDate: despatch.issueDate,
+      despatchDate: despatch.despatchDate,
+      supplier: {
+        taxNumber: company.taxNumber,
+        name: company.name,
+        taxOffice: typeof companyMetadata.taxOffice === "string" ? companyMetadata.taxOffice : null,
+        address: company.address,
+        city: typeof companyMetadata.city === "string" ? companyMetadata.city : null,
+      },
+      customer: {
+        taxNumber: despatch.counterpartyTaxNumber ?? "",
+        name: despatch.counterpartyName,
+        taxOffice: despatch.counterparty?.taxOffice ?? null,
+        address: customerAddress.address,
+        city: customerAddress.city,
+      },
+      deliveryAddress: despatch.deliveryAddress,
+      carrier:
+        despatch.carrierName || despatch.carrierTaxNumber
+          ? { name: despatch.carrierName ?? "", taxNumber: despatch.carrierTaxNumber ?? "" }
+          : null,
+      driver:
+        despatch.driverName || despatch.driverTckn
+          ? { name: despatch.driverName ?? "", tckn: despatch.driverTckn ?? "" }
+          : null,
+      vehiclePlate: despatch.vehiclePlate,
+      notes: despatch.notes,
+      lines: despatch.lines.map((line) => ({
+        lineNumber: line.lineNumber,
+        description: line.description,
+        itemCode: line.itemCode,
+        quantity: Number(line.quantity),
+        unitCode: line.unit,
+      })),
+    };
+  }
+}
+
+export const eIrsaliyeService = new EIrsaliyeService();
@@ -0,0 +1,250 @@
+/**
+ * e-İrsaliye UBL-TR builder
+ *
+ * Serializes an outgoing irsaliye into a UBL-TR 1.2 DespatchAdvice with
+ * the sevk eden (DespatchSupplierParty), the alıcı (DeliveryCustomerParty),
+ * the shipment (teslimat adresi, taşıyıcı firma or şoför and plaka, fiili
+ * sevk tarihi) and one DespatchLine per item. The document goes to the
+ * özel entegratör unsigned; signing is the integrator's job.
+ */
+
+export interface EIrsaliyeParty {
+  taxNumber: string; // VKN (10) or TCKN (11)
+  name: string; // unvan, or "Ad Soyad" for şahıs
+  taxOffice: string | null;
+  address: string | null;
+  city: string | null;
+}
+
+export interface EIrsaliyeLine {
+  lineNumber: number;
+  description: string;
+  itemCode: string | null;
+  quantity: number;
+  unitCode: string; // UN/ECE, e.g. C62, KGM
+}
+
+export interface EIrsaliyeInput {
+  uuid: string; // ETTN
+  despatchNumber: string;
+  profileId: string; // TEMELIRSALIYE
+  issueDate: Date;
+  despatchDate: Date;
+  supplier: EIrsaliyeParty;
+  customer: EIrsaliyeParty;
+  deliveryAddress: string | null;
+  carrier: { name: string; taxNumber: string } | null;
+  driver: { name: string; tckn: string } | null;
+  vehiclePlate: string | null;
+  notes: string | null;
+  lines: EIrsaliyeLine[];
+}
+
+export interface EIrsaliyeFieldError {
+  field: string;
+  message: string;
+}
+
+const DESPATCH_NUMBER_PATTERN = /^[A-Z0-9]{3}\d{13}$/;
+
+// ─── Formatting ──────────────────────────────────────────────────────────
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatTime(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function formatQuantity(quantity: number): string {
+  return String(Math.round(quantity * 1000) / 1000);
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function el(tag: string, value: string | number | null | undefined, attributes = ""): string {
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+  return `<${tag}${attributes}>${escapeXml(String(value))}</${tag}>`;
+}
+
+function digits(value: string | null): string {
+  return (value ?? "").replace(/\D/g, "");
+}
+
+/** Upper-case plate without spaces, e.g. "34 abc 123" -> "34ABC123" */
+export function normalizeVehiclePlate(value: string | null | undefined): string | null {
+  const plate = (value ?? "").toLocaleUpperCase("tr-TR").replace(/[\s-]+/g, "");
+  return plate || null;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────
+
+function validateParty(errors: EIrsaliyeFieldError[], field: string, label: string, party: EIrsaliyeParty): void {
+  if (!/^\d{10,11}$/.test(digits(party.taxNumber))) {
+    errors.push({ field: `${field}.taxNumber`, message: `${label} vergi/TC kimlik numarası 10 veya 11 haneli olmalıdır.` });
+  }
+  if (!party.name.trim()) {
+    errors.push({ field: `${field}.name`, message: `${label} unvanı veya adı soyadı boş olamaz.` });
+  }
+}
+
+export function validateEIrsaliye(input: EIrsaliyeInput): EIrsaliyeFieldError[] {
+  const errors: EIrsaliyeFieldError[] = [];
+
+  if (!DESPATCH_NUMBER_PATTERN.test(input.despatchNumber)) {
+    errors.push({ field: "despatchNumber", message: "İrsaliye numarası 3 karakterlik seri ve 13 haneli sıra numarasından oluşmalıdır." });
+  }
+  validateParty(errors, "supplier", "Gönderici", input.supplier);
+  validateParty(errors, "customer", "Alıcı", input.customer);
+
+  if (formatDate(input.despatchDate) < formatDate(input.issueDate)) {
+    errors.push({ field: "despatchDate", message: "Fiili sevk tarihi irsaliye tarihinden önce olamaz." });
+  }
+  if (!input.deliveryAddress?.trim() && !input.customer.address?.trim()) {
+    errors.push({ field: "deliveryAddress", message: "Teslimat adresi boş olamaz." });
+  }
+
+  // Either a taşıyıcı firma or the şoför and the araç
+  if (input.carrier) {
+    if (!/^\d{10,11}$/.test(digits(input.carrier.taxNumber))) {
+      errors.push({ field: "carrier.taxNumber", message: "Taşıyıcı firmanın vergi numarası 10 veya 11 haneli olmalıdır." });
+    }
+  } else {
+    if (!input.driver?.name.trim()) {
+      errors.push({ field: "driver.name", message: "Taşıyıcı firma yoksa şoför adı soyadı girilmelidir." });
+    }
+    if (!/^\d{11}$/.test(digits(input.driver?.tckn ?? null))) {
+      errors.push({ field: "driver.tckn", message: "Şoförün TC kimlik numarası 11 haneli olmalıdır." });
+    }
+    if (!/^\d{2}[A-Z]{1,3}\d{2,4}$/.test(normalizeVehiclePlate(input.vehiclePlate) ?? "")) {
+      errors.push({ field: "vehiclePlate", message: "Geçerli bir araç plakası girilmelidir." });
+    }
+  }
+
+  if (input.lines.length === 0) {
+    errors.push({ field: "lines", message: "İrsaliye en az bir satır içermelidir." });
+  }
+  input.lines.forEach((line, index) => {
+    if (!line.description.trim()) {
+      errors.push({ field: `lines[${index}].description`, message: `${index + 1}. satırın mal adı boş olamaz.` });
+    }
+    if (!(line.quantity > 0)) {
+      errors.push({ field: `lines[${index}].quantity`, message: `${index + 1}. satırın miktarı sıfırdan büyük olmalıdır.` });
+    }
+  });
+
+  return errors;
+}
+
+// ─── Serialization ───────────────────────────────────────────────────────
+
+function buildAddress(tag: string, address: string | null, city: string | null): string {
+  return [
+    `<cac:${tag}>`,
+    el("cbc:StreetName", address),
+    el("cbc:CitySubdivisionName", city),
+    el("cbc:CityName", city),
+    "<cac:Country><cbc:Name>Türkiye</cbc:Name></cac:Country>",
+    `</cac:${tag}>`,
+  ].join("");
+}
+
+function buildPartyBody(party: EIrsaliyeParty): string {
+  const taxNumber = digits(party.taxNumber);
+  const isPerson = taxNumber.length === 11;
+  const [firstName, ...rest] = party.name.trim().split(/\s+/);
+
+  return [
+    `<cac:PartyIdentification>${el("cbc:ID", taxNumber, ` schemeID="${isPerson ? "TCKN" : "VKN"}"`)}</cac:PartyIdentification>`,
+    isPerson ? "" : `<cac:PartyName>${el("cbc:Name", party.name)}</cac:PartyName>`,
+    buildAddress("PostalAddress", party.address, party.city),
+    party.taxOffice ? `<cac:PartyTaxScheme><cac:TaxScheme>${el("cbc:Name", party.taxOffice)}</cac:TaxScheme></cac:PartyTaxScheme>` : "",
+    isPerson ? `<cac:Person>${el("cbc:FirstName", firstName)}${el("cbc:FamilyName", rest.join(" ") || firstName)}</cac:Person>` : "",
+  ].join("");
+}
+
+function buildShipment(input: EIrsaliyeInput): string {
+  const stage: string[] = [];
+  const plate = normalizeVehiclePlate(input.vehiclePlate);
+  if (plate) {
+    stage.push(
+      `<cac:TransportMeans><cac:RoadTransport>${el("cbc:LicensePlateID", plate, ' schemeID="PLAKA"')}</cac:RoadTransport></cac:TransportMeans>`
+    );
+  }
+  if (input.driver) {
+    const [firstName, ...rest] = input.driver.name.trim().split(/\s+/);
+    stage.push(
+      `<cac:DriverPerson>${el("cbc:FirstName", firstName)}${el("cbc:FamilyName", rest.join(" ") || firstName)}${el("cbc:Title", "Şoför")}${el("cbc:NationalityID", digits(input.driver.tckn))}</cac:DriverPerson>`
+    );
+  }
+
+  const carrier = input.carrier
+    ? `<cac:CarrierParty>${buildPartyBody({ taxNumber: input.carrier.taxNumber, name: input.carrier.name, taxOffice: null, address: null, city: null })}</cac:CarrierParty>`
+    : "";
+
+  return [
+    "<cac:Shipment>",
+    el("cbc:ID", "1"),
+    "<cac:GoodsItem/>",
+    stage.length > 0 ? `<cac:ShipmentStage>${stage.join("")}</cac:ShipmentStage>` : "",
+    "<cac:Delivery>",
+    buildAddress("DeliveryAddress", input.deliveryAddress ?? input.customer.address, input.customer.city),
+    carrier,
+    `<cac:Despatch>${el("cbc:ActualDespatchDate", formatDate(input.despatchDate))}${el("cbc:ActualDespatchTime", formatTime(input.despatchDate))}</cac:Despatch>`,
+    "</cac:Delivery>",
+    "</cac:Shipment>",
+  ].join("");
+}
+
+function buildLine(line: EIrsaliyeLine): string {
+  return [
+    "<cac:DespatchLine>",
+    el("cbc:ID", line.lineNumber),
+    el("cbc:DeliveredQuantity", formatQuantity(line.quantity), ` unitCode="${escapeXml(line.unitCode)}"`),
+    `<cac:OrderLineReference>${el("cbc:LineID", line.lineNumber)}</cac:OrderLineReference>`,
+    "<cac:Item>",
+    el("cbc:Name", line.description),
+    line.itemCode ? `<cac:SellersItemIdentification>${el("cbc:ID", line.itemCode)}</cac:SellersItemIdentification>` : "",
+    "</cac:Item>",
+    "</cac:DespatchLine>",
+  ].join("");
+}
+
+export function buildEIrsaliyeXml(input: EIrsaliyeInput): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DespatchAdvice xmlns="urn:oasis:names:specification:ubl:schema:xsd:DespatchAdvice-2"' +
+      ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"' +
+      ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    el("cbc:UBLVersionID", "2.1"),
+    el("cbc:CustomizationID", "TR1.2.1"),
+    el("cbc:ProfileID", input.profileId),
+    el("cbc:ID", input.despatchNumber),
+    el("cbc:CopyIndicator", "false"),
+    el("cbc:UUID", input.uuid),
+    el("cbc:IssueDate", formatDate(input.issueDate)),
+    el("cbc:IssueTime", formatTime(input.issueDate)),
+    el("cbc:DespatchAdviceTypeCode", "SEVK"),
+    el("cbc:Note", input.notes),
+    el("cbc:LineCountNumeric", input.lines.length),
+    `<cac:DespatchSupplierParty><cac:Party>${buildPartyBody(input.supplier)}</cac:Party></cac:DespatchSupplierParty>`,
+    `<cac:DeliveryCustomerParty><cac:Party>${buildPartyBody(input.customer)}</cac:Party></cac:DeliveryCustomerParty>`,
+    buildShipment(input),
+    ...input.lines.map(buildLine),
+    "</DespatchAdvice>",
+  ].join("\n");
+}
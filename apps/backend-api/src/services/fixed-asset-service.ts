@@ -0,0 +1,758 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { accountingPeriodService, getPeriodBounds } from "./accounting-period-service";
+import { ledgerAccountService } from "./ledger-account-service";
+import { auditService } from "./audit-service";
+import { parseAccountCode } from "./chart-of-accounts";
+import { VUK_AMORTISMAN_LISTESI } from "./turkish-accounting-knowledge";
+import type { BaseReportResult } from "./reporting-service";
+
+/**
+ * Sabit kıymet (demirbaş) register and amortisman postings
+ *
+ * Depreciation follows VUK 313-321: normal (eşit tutarlı) or azalan
+ * bakiyeler (twice the normal rate, capped at 50%), with optional kıst
+ * amortisman in the acquisition year whose unused part is added after the
+ * useful life. Runs post the amount accrued since the last run, so monthly
+ * and yearly runs can be mixed freely.
+ */
+
+const DECLINING_BALANCE_MAX_RATE = 0.5;
+const DEFAULT_EXPENSE_ACCOUNT = "770";
+const DEFAULT_PROCEEDS_ACCOUNT = "102";
+const DISPOSAL_GAIN_ACCOUNT = "679";
+const DISPOSAL_LOSS_ACCOUNT = "689";
+const AMOUNT_TOLERANCE = 0.005;
+
+export type DepreciationMethod = "normal" | "azalan_bakiyeler";
+export type FixedAssetStatus = "active" | "fully_depreciated" | "disposed";
+
+export interface FixedAssetSummary {
+  id: string;
+  clientCompanyId: string;
+  assetCode: string;
+  name: string;
+  categoryCode: string | null;
+  accountCode: string;
+  expenseAccountCode: string;
+  acquisitionDate: Date;
+  acquisitionCost: number;
+  currentCost: number;
+  usefulLifeYears: number;
+  depreciationMethod: DepreciationMethod;
+  prorateFirstYear: boolean;
+  accumulatedDepreciation: number;
+  netBookValue: number;
+  status: FixedAssetStatus;
+  disposedAt: Date | null;
+  notes: string | null;
+}
+
+export interface CreateFixedAssetInput {
+  clientCompanyId: string;
+  assetCode: string;
+  name: string;
+  categoryCode?: string; // VUK amortisman listesi kalemi, supplies the defaults below
+  accountCode?: string;
+  expenseAccountCode?: string;
+  acquisitionDate: Date;
+  acquisitionCost: number;
+  usefulLifeYears?: number;
+  depreciationMethod?: DepreciationMethod;
+  prorateFirstYear?: boolean;
+  notes?: string | null;
+}
+
+export interface UpdateFixedAssetInput {
+  name?: string;
+  expenseAccountCode?: string;
+  notes?: string | null;
+  // Only while nothing has been posted for the asset
+  accountCode?: string;
+  acquisitionDate?: Date;
+  acquisitionCost?: number;
+  usefulLifeYears?: number;
+  depreciationMethod?: DepreciationMethod;
+  prorateFirstYear?: boolean;
+}
+
+export interface DepreciationScheduleYear {
+  fiscalYear: number;
+  months: number; // months of the year the amount is spread over
+  amount: number;
+  openingBookValue: number;
+  closingBookValue: number;
+}
+
+export interface DepreciationRunEntry {
+  fixedAssetId: string;
+  assetCode: string;
+  name: string;
+  amount: number;
+}
+
+export interface DepreciationRunResult {
+  period: string;
+  transactionId: string | null;
+  totalAmount: number;
+  entries: DepreciationRunEntry[];
+}
+
+export interface DisposeFixedAssetInput {
+  disposalDate: Date;
+  ratio?: number; // share of the asset disposed, defaults to all of it
+  proceeds?: number; // satış bedeli (KDV hariç)
+  proceedsAccountCode?: string;
+  notes?: string | null;
+}
+
+export interface FixedAssetDisposalResult {
+  id: string;
+  fixedAssetId: string;
+  disposalDate: Date;
+  ratio: number;
+  costDisposed: number;
+  accumulatedDisposed: number;
+  proceeds: number;
+  gainLoss: number;
+  transactionId: string | null;
+}
+
+export interface FixedAssetRegisterRow {
+  asset_code: string;
+  name: string;
+  account_code: string;
+  acquisition_date: string;
+  cost: number;
+  useful_life_years: number;
+  method: string;
+  year_depreciation: number;
+  accumulated_depreciation: number;
+  net_book_value: number;
+  status: string;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** 25x maddi duran varlıklar → 257, 26x maddi olmayan duran varlıklar → 268 */
+export function accumulatedDepreciationAccountFor(accountCode: string): string {
+  return parseAccountCode(accountCode).mainAccountCode.startsWith("26") ? "268" : "257";
+}
+
+/**
+ * Yearly depreciation amounts over the asset's life for the given cost
+ */
+export function buildDepreciationSchedule(asset: {
+  acquisitionDate: Date;
+  cost: number;
+  usefulLifeYears: number;
+  depreciationMethod: DepreciationMethod;
+  prorateFirstYear: boolean;
+}): DepreciationScheduleYear[] {
+  const startYear = asset.acquisitionDate.getFullYear();
+  const firstYearMonths = 12 - asset.acquisitionDate.getMonth();
+  const kist = asset.prorateFirstYear && firstYearMonths < 12;
+  const years = asset.usefulLifeYears + (kist ? 1 : 0);
+  const straightLine = asset.cost / asset.usefulLifeYears;
+  const decliningRate = Math.min(2 / asset.usefulLifeYears, DECLINING_BALANCE_MAX_RATE);
+
+  const schedule: DepreciationScheduleYear[] = [];
+  let bookValue = round2(asset.cost);
+
+  for (let i = 0; i < years; i++) {
+    const fraction = kist && i === 0 ? firstYearMonths / 12 : 1;
+    let amount =
+      asset.depreciationMethod === "azalan_bakiyeler"
+        ? bookValue * decliningRate * fraction
+        : straightLine * fraction;
+
+    // The last year takes whatever is left (rounding, kıst remainder, azalan bakiye)
+    if (i === years - 1 || amount > bookValue) {
+      amount = bookValue;
+    }
+    amount = round2(amount);
+
+    schedule.push({
+      fiscalYear: startYear + i,
+      months: i === 0 ? firstYearMonths : 12,
+      amount,
+      openingBookValue: bookValue,
+      closingBookValue: round2(bookValue - amount),
+    });
+    bookValue = round2(bookValue - amount);
+  }
+
+  return schedule;
+}
+
+/**
+ * Depreciation the schedule has accrued by the end of the given month
+ */
+export function depreciationAccruedThrough(
+  schedule: DepreciationScheduleYear[],
+  year: number,
+  month: number
+): number {
+  let total = 0;
+
+  for (const row of schedule) {
+    if (row.fiscalYear < year) {
+      total += row.amount;
+    } else if (row.fiscalYear === year) {
+      const firstMonth = 12 - row.months + 1;
+      const elapsed = Math.max(0, Math.min(month, 12) - firstMonth + 1);
+      total += (row.amount * elapsed) / row.months;
+    }
+  }
+
+  return round2(total);
+}
+
+export class FixedAssetService {
+  async listAssets(
+    tenantId: string,
+    clientCompanyId: string,
+    filters: { status?: FixedAssetStatus } = {}
+  ): Promise<FixedAssetSummary[]> {
+    const assets = await prisma.fixedAsset.findMany({
+      where: { tenantId, clientCompanyId, ...(filters.status && { status: filters.status }) },
+      orderBy: { assetCode: "asc" },
+    });
+
+    return assets.map((asset) => this.mapAsset(asset));
+  }
+
+  async getAsset(tenantId: string, id: string): Promise<FixedAssetSummary & { schedule: DepreciationScheduleYear[] }> {
+    const asset = await this.findAsset(tenantId, id);
+    const summary = this.mapAsset(asset);
+    return { ...summary, schedule: this.scheduleFor(asset) };
+  }
+
+  async createAsset(tenantId: string, input: CreateFixedAssetInput): Promise<FixedAssetSummary> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: input.clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const category = input.categoryCode
+      ? VUK_AMORTISMAN_LISTESI.find((kalem) => kalem.kod === input.categoryCode)
+      : undefined;
+
+    if (input.categoryCode && !category) {
+      throw new ValidationError("Amortisman listesinde bu kalem bulunamadı.");
+    }
+
+    const usefulLifeYears = input.usefulLifeYears ?? category?.faydaliOmur;
+    const accountCode = input.accountCode ?? category?.hesapKodu;
+
+    if (!usefulLifeYears || usefulLifeYears < 1) {
+      throw new ValidationError("Faydalı ömür belirtilmeli veya amortisman listesinden bir kalem seçilmelidir.");
+    }
+
+    if (!accountCode) {
+      throw new ValidationError("Duran varlık hesap kodu belirtilmelidir.");
+    }
+
+    if (!(input.acquisitionCost > 0)) {
+      throw new ValidationError("Maliyet bedeli sıfırdan büyük olmalıdır.");
+    }
+
+    const existing = await prisma.fixedAsset.findFirst({
+      where: { tenantId, clientCompanyId: input.clientCompanyId, assetCode: input.assetCode },
+    });
+
+    if (existing) {
+      throw new ValidationError("Bu demirbaş numarası zaten kullanılıyor.");
+    }
+
+    const asset = await prisma.fixedAsset.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        assetCode: input.assetCode,
+        name: input.name,
+        categoryCode: category?.kod ?? null,
+        accountCode,
+        expenseAccountCode: input.expenseAccountCode ?? DEFAULT_EXPENSE_ACCOUNT,
+        acquisitionDate: input.acquisitionDate,
+        acquisitionCost: input.acquisitionCost,
+        usefulLifeYears,
+        depreciationMethod: input.depreciationMethod ?? "normal",
+        prorateFirstYear: input.prorateFirstYear ?? category?.kistAmortisman ?? false,
+        notes: input.notes ?? null,
+      },
+    });
+
+    return this.mapAsset(asset);
+  }
+
+  async updateAsset(tenantId: string, id: string, input: UpdateFixedAssetInput): Promise<FixedAssetSummary> {
+    const asset = await this.findAsset(tenantId, id);
+
+    const changesValuation =
+      input.accountCode !== undefined ||
+      input.acquisitionDate !== undefined ||
+      input.acquisitionCost !== undefined ||
+      input.usefulLifeYears !== undefined ||
+      input.depreciationMethod !== undefined ||
+      input.prorateFirstYear !== undefined;
+
+    if (changesValuation && (await this.hasPostings(id))) {
+      throw new ValidationError(
+        "Amortisman veya elden çıkarma kaydı bulunan demirbaşın maliyet ve amortisman bilgileri değiştirilemez."
+      );
+    }
+
+    if (input.acquisitionCost !== undefined && !(input.acquisitionCost > 0)) {
+      throw new ValidationError("Maliyet bedeli sıfırdan büyük olmalıdır.");
+    }
+
+    const updated = await prisma.fixedAsset.update({
+      where: { id: asset.id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.expenseAccountCode !== undefined && { expenseAccountCode: input.expenseAccountCode }),
+        ...(input.notes !== undefined && { notes: input.notes }),
+        ...(input.accountCode !== undefined && { accountCode: input.accountCode }),
+        ...(input.acquisitionDate !== undefined && { acquisitionDate: input.acquisitionDate }),
+        ...(input.acquisitionCost !== undefined && { acquisitionCost: input.acquisitionCost }),
+        ...(input.usefulLifeYears !== undefined && { usefulLifeYears: input.usefulLifeYears }),
+        ...(input.depreciationMethod !== undefined && { depreciationMethod: input.depreciationMethod }),
+        ...(input.prorateFirstYear !== undefined && { prorateFirstYear: input.prorateFirstYear }),
+      },
+    });
+
+    return this.mapAsset(updated);
+  }
+
+  async deleteAsset(tenantId: string, id: string): Promise<void> {
+    const asset = await this.findAsset(tenantId, id);
+
+    if (await this.hasPostings(id)) {
+      throw new ValidationError("Amortisman veya elden çıkarma kaydı bulunan demirbaş silinemez.");
+    }
+
+    await prisma.fixedAsset.delete({ where: { id: asset.id } });
+  }
+
+  /**
+   * Post depreciation for all active assets of a company up to the end of
+   * the period ("YYYY-MM" for a monthly run, "YYYY" for a yearly run).
+   */
+  async runDepreciation(
+    tenantId: string,
+    userId: string,
+    clientCompanyId: string,
+    period: string
+  ): Promise<DepreciationRunResult> {
+    const periodKey = /^\d{4}$/.test(period) ? `${period}-12` : period;
+    const { periodEnd } = getPeriodBounds(periodKey);
+    const [year, month] = periodKey.split("-").map(Number);
+
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    // Amortisman is a period-end adjustment, so a soft-closed month accepts it
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, periodEnd, {
+      allowSoftClosed: true,
+    });
+
+    const assets = await prisma.fixedAsset.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        status: "active",
+        acquisitionDate: { lte: periodEnd },
+      },
+      include: { depreciations: { where: { period: periodKey } } },
+      orderBy: { assetCode: "asc" },
+    });
+
+    const entries: Array<DepreciationRunEntry & { asset: (typeof assets)[number] }> = [];
+    for (const asset of assets) {
+      if (asset.depreciations.length > 0) {
+        continue; // already posted for this period
+      }
+
+      const accrued = depreciationAccruedThrough(this.scheduleFor(asset), year, month);
+      const amount = round2(accrued - Number(asset.accumulatedDepreciation));
+      if (amount > AMOUNT_TOLERANCE) {
+        entries.push({ fixedAssetId: asset.id, assetCode: asset.assetCode, name: asset.name, amount, asset });
+      }
+    }
+
+    if (entries.length === 0) {
+      return { period: periodKey, transactionId: null, totalAmount: 0, entries: [] };
+    }
+
+    const accountIds = await ledgerAccountService.resolveAccountIds(
+      tenantId,
+      clientCompanyId,
+      entries.flatMap(({ asset }) => [asset.expenseAccountCode, accumulatedDepreciationAccountFor(asset.accountCode)])
+    );
+
+    const totalAmount = round2(entries.reduce((sum, entry) => sum + entry.amount, 0));
+    const description = period.length === 4 ? `${year} yılı amortisman kaydı` : `${periodKey} dönemi amortisman kaydı`;
+
+    const transaction = await prisma.$transaction(async (tx) => {
+      const created = await tx.transaction.create({
+        data: {
+          tenantId,
+          clientCompanyId,
+          date: periodEnd,
+          referenceNo: `AMR-${periodKey}`,
+          description,
+          source: "fixed_asset",
+          lines: {
+            create: entries.flatMap(({ asset, amount }) => [
+              {
+                tenantId,
+                ledgerAccountId: accountIds.get(asset.expenseAccountCode)!,
+                debitAmount: amount,
+                creditAmount: 0,
+                description: `${asset.assetCode} ${asset.name} amortismanı`,
+              },
+              {
+                tenantId,
+                ledgerAccountId: accountIds.get(accumulatedDepreciationAccountFor(asset.accountCode))!,
+                debitAmount: 0,
+                creditAmount: amount,
+                description: `${asset.assetCode} ${asset.name} amortismanı`,
+              },
+            ]),
+          },
+        },
+      });
+
+      for (const { asset, amount } of entries) {
+        const accumulated = round2(Number(asset.accumulatedDepreciation) + amount);
+        const currentCost = round2(Number(asset.acquisitionCost) - Number(asset.disposedCost));
+
+        await tx.fixedAssetDepreciation.create({
+          data: {
+            tenantId,
+            fixedAssetId: asset.id,
+            period: periodKey,
+            fiscalYear: year,
+            amount,
+            transactionId: created.id,
+          },
+        });
+        await tx.fixedAsset.update({
+          where: { id: asset.id },
+          data: {
+            accumulatedDepreciation: accumulated,
+            ...(currentCost - accumulated <= AMOUNT_TOLERANCE && { status: "fully_depreciated" }),
+          },
+        });
+      }
+
+      return created;
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "FIXED_ASSET_DEPRECIATION_POSTED",
+      resourceType: "Transaction",
+      resourceId: transaction.id,
+      metadata: { clientCompanyId, period: periodKey, assetCount: entries.length, totalAmount },
+    });
+
+    logger.info("Depreciation posted", undefined, { tenantId, clientCompanyId, period: periodKey, totalAmount });
+
+    return {
+      period: periodKey,
+      transactionId: transaction.id,
+      totalAmount,
+      entries: entries.map(({ asset: _asset, ...entry }) => entry),
+    };
+  }
+
+  /**
+   * Dispose of all or part of an asset (satış / hurdaya ayırma). The disposed
+   * share of cost and accumulated depreciation leaves the books and the
+   * difference to the proceeds is posted as gain (679) or loss (689).
+   */
+  async disposeAsset(
+    tenantId: string,
+    userId: string,
+    id: string,
+    input: DisposeFixedAssetInput
+  ): Promise<FixedAssetDisposalResult> {
+    const asset = await this.findAsset(tenantId, id);
+
+    if (asset.status === "disposed") {
+      throw new ValidationError("Bu demirbaş zaten elden çıkarılmış.");
+    }
+
+    const ratio = input.ratio ?? 1;
+    if (!(ratio > 0 && ratio <= 1)) {
+      throw new ValidationError("Elden çıkarma oranı 0 ile 1 arasında olmalıdır.");
+    }
+
+    const proceeds = round2(input.proceeds ?? 0);
+    if (proceeds < 0) {
+      throw new ValidationError("Satış bedeli negatif olamaz.");
+    }
+
+    if (input.disposalDate < asset.acquisitionDate) {
+      throw new ValidationError("Elden çıkarma tarihi edinim tarihinden önce olamaz.");
+    }
+
+    await accountingPeriodService.assertDateWritable(tenantId, asset.clientCompanyId, input.disposalDate);
+
+    const currentCost = Number(asset.acquisitionCost) - Number(asset.disposedCost);
+    const costDisposed = round2(currentCost * ratio);
+    const accumulatedDisposed = round2(Number(asset.accumulatedDepreciation) * ratio);
+    const gainLoss = round2(proceeds - (costDisposed - accumulatedDisposed));
+
+    const accumulatedAccount = accumulatedDepreciationAccountFor(asset.accountCode);
+    const proceedsAccount = input.proceedsAccountCode ?? DEFAULT_PROCEEDS_ACCOUNT;
+    const resultAccount = gainLoss >= 0 ? DISPOSAL_GAIN_ACCOUNT : DISPOSAL_LOSS_ACCOUNT;
+    const accountIds = await ledgerAccountService.resolveAccountIds(tenantId, asset.clientCompanyId, [
+      asset.accountCode,
+      accumulatedAccount,
+      proceedsAccount,
+      resultAccount,
+    ]);
+
+    const label = `${asset.assetCode} ${asset.name} elden çıkarma`;
+    const lines = [
+      { code: accumulatedAccount, debitAmount: accumulatedDisposed, creditAmount: 0 },
+      { code: proceedsAccount, debitAmount: proceeds, creditAmount: 0 },
+      { code: asset.accountCode, debitAmount: 0, creditAmount: costDisposed },
+      gainLoss >= 0
+        ? { code: resultAccount, debitAmount: 0, creditAmount: gainLoss }
+        : { code: resultAccount, debitAmount: -gainLoss, creditAmount: 0 },
+    ].filter((line) => line.debitAmount > 0 || line.creditAmount > 0);
+
+    const fullyDisposed = ratio >= 1 - 1e-4;
+
+    const disposal = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          tenantId,
+          clientCompanyId: asset.clientCompanyId,
+          date: input.disposalDate,
+          referenceNo: `DMR-${asset.assetCode}`,
+          description: label,
+          source: "fixed_asset",
+          lines: {
+            create: lines.map((line) => ({
+              tenantId,
+              ledgerAccountId: accountIds.get(line.code)!,
+              debitAmount: line.debitAmount,
+              creditAmount: line.creditAmount,
+              description: label,
+            })),
+          },
+        },
+      });
+
+      const created = await tx.fixedAssetDisposal.create({
+        data: {
+          tenantId,
+          fixedAssetId: asset.id,
+          disposalDate: input.disposalDate,
+          ratio,
+          costDisposed,
+          accumulatedDisposed,
+          proceeds,
+          gainLoss,
+          transactionId: transaction.id,
+          notes: input.notes ?? null,
+        },
+      });
+
+      await tx.fixedAsset.update({
+        where: { id: asset.id },
+        data: {
+          disposedCost: round2(Number(asset.disposedCost) + costDisposed),
+          accumulatedDepreciation: round2(Number(asset.accumulatedDepreciation) - accumulatedDisposed),
+          ...(fullyDisposed && { status: "disposed", disposedAt: input.disposalDate }),
+        },
+      });
+
+      return created;
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "FIXED_ASSET_DISPOSED",
+      resourceType: "FixedAsset",
+      resourceId: asset.id,
+      metadata: { ratio, costDisposed, accumulatedDisposed, proceeds, gainLoss },
+    });
+
+    return {
+      id: disposal.id,
+      fixedAssetId: asset.id,
+      disposalDate: disposal.disposalDate,
+      ratio,
+      costDisposed,
+      accumulatedDisposed,
+      proceeds,
+      gainLoss,
+      transactionId: disposal.transactionId,
+    };
+  }
+
+  /**
+   * Demirbaş ve amortisman listesi for a fiscal year, in the report shape
+   * consumed by ExportService
+   */
+  async getRegisterReport(
+    tenantId: string,
+    clientCompanyId: string,
+    fiscalYear: number
+  ): Promise<BaseReportResult<FixedAssetRegisterRow>> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const yearStart = new Date(fiscalYear, 0, 1);
+    const yearEnd = new Date(fiscalYear, 11, 31, 23, 59, 59);
+
+    const assets = await prisma.fixedAsset.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        acquisitionDate: { lte: yearEnd },
+        OR: [{ disposedAt: null }, { disposedAt: { gte: yearStart } }],
+      },
+      include: {
+        depreciations: { where: { fiscalYear: { lte: fiscalYear } } },
+        disposals: { where: { disposalDate: { lte: yearEnd } } },
+      },
+      orderBy: { assetCode: "asc" },
+    });
+
+    const rows: FixedAssetRegisterRow[] = assets.map((asset) => {
+      const cost = Number(asset.acquisitionCost) - sum(asset.disposals.map((d) => Number(d.costDisposed)));
+      const accumulated =
+        sum(asset.depreciations.map((d) => Number(d.amount))) -
+        sum(asset.disposals.map((d) => Number(d.accumulatedDisposed)));
+      const yearDepreciation = sum(
+        asset.depreciations.filter((d) => d.fiscalYear === fiscalYear).map((d) => Number(d.amount))
+      );
+
+      return {
+        asset_code: asset.assetCode,
+        name: asset.name,
+        account_code: asset.accountCode,
+        acquisition_date: asset.acquisitionDate.toISOString(),
+        cost: round2(cost),
+        useful_life_years: asset.usefulLifeYears,
+        method: asset.depreciationMethod === "azalan_bakiyeler" ? "Azalan bakiyeler" : "Normal",
+        year_depreciation: round2(yearDepreciation),
+        accumulated_depreciation: round2(accumulated),
+        net_book_value: round2(cost - accumulated),
+        status: asset.disposedAt && asset.disposedAt <= yearEnd ? "disposed" : asset.status,
+      };
+    });
+
+    return {
+      title: `Demirbaş ve Amortisman Listesi ${fiscalYear} - ${client.name}`,
+      period: { start_date: yearStart.toISOString(), end_date: yearEnd.toISOString() },
+      generated_at: new Date().toISOString(),
+      rows,
+      totals: {
+        cost: round2(sum(rows.map((row) => row.cost))),
+        year_depreciation: round2(sum(rows.map((row) => row.year_depreciation))),
+        accumulated_depreciation: round2(sum(rows.map((row) => row.accumulated_depreciation))),
+        net_book_value: round2(sum(rows.map((row) => row.net_book_value))),
+      },
+      meta: { row_count: rows.length, row_limit_applied: false },
+    };
+  }
+
+  private async findAsset(tenantId: string, id: string) {
+    const asset = await prisma.fixedAsset.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!asset) {
+      throw new NotFoundError("Demirbaş bulunamadı.");
+    }
+
+    return asset;
+  }
+
+  private async hasPostings(fixedAssetId: string): Promise<boolean> {
+    const [depreciations, disposals] = await Promise.all([
+      prisma.fixedAssetDepreciation.count({ where: { fixedAssetId } }),
+      prisma.fixedAssetDisposal.count({ where: { fixedAssetId } }),
+    ]);
+    return depreciations + disposals > 0;
+  }
+
+  /**
+   * Both methods are linear in cost, so after a partial disposal the schedule
+   * on the remaining cost matches the accumulated depreciation left on the
+   * books (which shrank by the same share).
+   */
+  private scheduleFor(asset: {
+    acquisitionDate: Date;
+    acquisitionCost: unknown;
+    disposedCost: unknown;
+    usefulLifeYears: number;
+    depreciationMethod: string;
+    prorateFirstYear: boolean;
+  }): DepreciationScheduleYear[] {
+    return buildDepreciationSchedule({
+      acquisitionDate: asset.acquisitionDate,
+      cost: Number(asset.acquisitionCost) - Number(asset.disposedCost),
+      usefulLifeYears: asset.usefulLifeYears,
+      depreciationMethod: asset.depreciationMethod as DepreciationMethod,
+      prorateFirstYear: asset.prorateFirstYear,
+    });
+  }
+
+  private mapAsset(asset: any): FixedAssetSummary {
+    const currentCost = round2(Number(asset.acquisitionCost) - Number(asset.disposedCost));
+    const accumulatedDepreciation = Number(asset.accumulatedDepreciation);
+
+    return {
+      id: asset.id,
+      clientCompanyId: asset.clientCompanyId,
+      assetCode: asset.assetCode,
+      name: asset.name,
+      categoryCode: asset.categoryCode ?? null,
+      accountCode: asset.accountCode,
+      expenseAccountCode: asset.expenseAccountCode,
+      acquisitionDate: asset.acquisitionDate,
+      acquisitionCost: Number(asset.acquisitionCost),
+      currentCost,
+      usefulLifeYears: asset.usefulLifeYears,
+      depreciationMethod: asset.depreciationMethod as DepreciationMethod,
+      prorateFirstYear: asset.prorateFirstYear,
+      accumulatedDepreciation,
+      netBookValue: round2(currentCost - accumulatedDepreciation),
+      status: asset.status as FixedAssetStatus,
+      disposedAt: asset.disposedAt ?? null,
+      notes: asset.notes ?? null,
+    };
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export const fixedAssetService = new FixedAssetService();
@@ -0,0 +1,380 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError } from "@repo/shared-utils";
+import type { FraudTrainingSet, RiskFeatureMap } from "@repo/core-domain";
+import { CONFIRMED_DISPOSITIONS } from "./risk-alert-service";
+
+/**
+ * Bumped whenever a feature is added, removed or computed differently.
+ * Models record the version they were trained on and only score vectors of
+ * the same version.
+ */
+export const FRAUD_FEATURE_SET_VERSION = 1;
+
+export interface FraudFeatureDefinition {
+  name: string;
+  label: string;
+}
+
+export const FRAUD_FEATURES: FraudFeatureDefinition[] = [
+  // Document risk features (0/1)
+  { name: "hasMissingFields", label: "Eksik alan var" },
+  { name: "amountMismatch", label: "Toplam satırlarla uyuşmuyor" },
+  { name: "dateInconsistency", label: "Vade, fatura tarihinden önce" },
+  { name: "negativeAmount", label: "Negatif tutar" },
+  { name: "duplicateInvoiceNumber", label: "Fatura numarası daha önce kullanılmış" },
+  { name: "highAmount", label: "Yüksek tutar" },
+  { name: "vatRateInconsistency", label: "KDV oranı tutarsız" },
+  { name: "amountDateInconsistency", label: "Tutar/tarih tutarsız" },
+  { name: "chartMismatch", label: "Hesap planı uyumsuz" },
+  { name: "aiRiskScore", label: "AI risk puanı" },
+  { name: "riskFlagCount", label: "AI risk işareti sayısı" },
+  // The document's own amount and date
+  { name: "logAmount", label: "Tutar (log10)" },
+  { name: "amountZScore", label: "Tutarın müşteri ortalamasından sapması" },
+  { name: "vatRatio", label: "KDV / matrah oranı" },
+  { name: "isRoundAmount", label: "Yuvarlak tutar" },
+  { name: "isWeekend", label: "Hafta sonu tarihli" },
+  // Counterparty statistics over the previous 365 days
+  { name: "isNewCounterparty", label: "Yeni karşı taraf" },
+  { name: "counterpartyInvoiceCount", label: "Karşı tarafla önceki fatura sayısı" },
+  { name: "counterpartyShare", label: "Karşı tarafın fatura payı" },
+  { name: "counterpartyAmountZScore", label: "Tutarın karşı taraf geçmişinden sapması" },
+  // Company transaction statistics over the previous 90 days
+  { name: "transactionCount90d", label: "Son 90 gün işlem sayısı" },
+  { name: "roundTransactionRatio90d", label: "Son 90 gün yuvarlak tutar oranı" },
+  { name: "weekendTransactionRatio90d", label: "Son 90 gün hafta sonu işlem oranı" },
+];
+
+const RISK_FEATURE_FLAGS = FRAUD_FEATURES.slice(0, 9).map((feature) => feature.name);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COUNTERPARTY_WINDOW_DAYS = 365;
+const TRANSACTION_WINDOW_DAYS = 90;
+const REFRESH_WINDOW_DAYS = 365;
+const MAX_REFRESH_DOCUMENTS = 5000;
+
+interface InvoiceStat {
+  id: string;
+  issueDate: Date;
+  totalAmount: number;
+  counterpartyKey: string | null;
+}
+
+interface TransactionStat {
+  date: Date;
+  amount: number;
+}
+
+/** What a document's feature vector is computed from */
+export interface DocumentFeatureInput {
+  riskFeatures: RiskFeatureMap;
+  aiRiskScore: number | null;
+  riskFlagCount: number;
+  amount: number | null;
+  taxAmount: number | null;
+  date: Date;
+  invoiceId: string | null;
+  counterpartyKey: string | null;
+  companyInvoices: InvoiceStat[]; // may include invoices outside the windows; filtered here
+  companyTransactions: TransactionStat[];
+}
+
+export interface FraudFeatureVectorView {
+  documentId: string;
+  clientCompanyId: string;
+  asOf: Date;
+  features: Record<string, number>;
+  label: number | null;
+}
+
+function isRound(amount: number): boolean {
+  return Math.abs(amount) >= 1000 && Math.abs(amount) % 100 === 0;
+}
+
+function isWeekend(date: Date): boolean {
+  return date.getDay() === 0 || date.getDay() === 6;
+}
+
+function zScore(value: number, values: number[]): number {
+  if (values.length < 3) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  if (std === 0) return 0;
+  return Math.max(-10, Math.min(10, (value - mean) / std));
+}
+
+function counterpartyKey(taxNumber: string | null, name: string | null): string | null {
+  return taxNumber?.trim() || name?.trim().toLocaleLowerCase("tr-TR") || null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Compute a document's feature vector. Only data dated before the document
+ * is used, so vectors of past documents match what was known at the time.
+ */
+export function computeFeatureVector(input: DocumentFeatureInput): Record<string, number> {
+  const asOf = input.date.getTime();
+  const previousInvoices = input.companyInvoices.filter(
+    (invoice) =>
+      invoice.id !== input.invoiceId &&
+      invoice.issueDate.getTime() <= asOf &&
+      invoice.issueDate.getTime() > asOf - COUNTERPARTY_WINDOW_DAYS * DAY_MS
+  );
+  const recentTransactions = input.companyTransactions.filter(
+    (txn) => txn.date.getTime() <= asOf && txn.date.getTime() > asOf - TRANSACTION_WINDOW_DAYS * DAY_MS
+  );
+  const counterpartyInvoices = input.counterpartyKey
+    ? previousInvoices.filter((invoice) => invoice.counterpartyKey === input.counterpartyKey)
+    : [];
+
+  const amount = input.amount ?? 0;
+  const features: Record<string, number> = {};
+  for (const name of RISK_FEATURE_FLAGS) {
+    features[name] = input.riskFeatures[name] === true ? 1 : 0;
+  }
+  features.aiRiskScore = input.aiRiskScore ?? 0;
+  features.riskFlagCount = input.riskFlagCount;
+
+  features.logAmount = Math.log10(Math.abs(amount) + 1);
+  features.amountZScore = zScore(amount, previousInvoices.map((invoice) => invoice.totalAmount));
+  features.vatRatio =
+    input.taxAmount !== null && amount - input.taxAmount > 0 ? input.taxAmount / (amount - input.taxAmount) : 0;
+  features.isRoundAmount = isRound(amount) ? 1 : 0;
+  features.isWeekend = isWeekend(input.date) ? 1 : 0;
+
+  features.isNewCounterparty = input.counterpartyKey && counterpartyInvoices.length === 0 ? 1 : 0;
+  features.counterpartyInvoiceCount = counterpartyInvoices.length;
+  features.counterpartyShare = previousInvoices.length > 0 ? counterpartyInvoices.length / previousInvoices.length : 0;
+  features.counterpartyAmountZScore = zScore(amount, counterpartyInvoices.map((invoice) => invoice.totalAmount));
+
+  features.transactionCount90d = recentTransactions.length;
+  features.roundTransactionRatio90d =
+    recentTransactions.length > 0 ? recentTransactions.filter((txn) => isRound(txn.amount)).length / recentTransactions.length : 0;
+  features.weekendTransactionRatio90d =
+    recentTransactions.length > 0 ? recentTransactions.filter((txn) => isWeekend(txn.date)).length / recentTransactions.length : 0;
+
+  for (const name of Object.keys(features)) {
+    features[name] = round(features[name]);
+  }
+  return features;
+}
+
+/**
+ * Training label from the alert cases raised on a document: 1 when one was
+ * confirmed, 0 when closed as a false positive, null otherwise
+ */
+export function labelFromDispositions(dispositions: Array<string | null>): number | null {
+  if (dispositions.some((d) => d && (CONFIRMED_DISPOSITIONS as string[]).includes(d))) return 1;
+  if (dispositions.includes("false_positive")) return 0;
+  return null;
+}
+
+export class FraudFeatureStoreService {
+  /**
+   * Build the feature vector of a single document without storing it
+   */
+  async buildDocumentVector(tenantId: string, documentId: string): Promise<FraudFeatureVectorView> {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      include: { riskFeatures: true, relatedInvoice: true, relatedTransaction: { include: { lines: true } } },
+    });
+    if (!document || document.tenantId !== tenantId || !document.riskFeatures) {
+      throw new NotFoundError("Belge risk özellikleri bulunamadı.");
+    }
+
+    const date = this.documentDate(document);
+    const [invoices, transactions] = await this.loadCompanyHistory(
+      tenantId,
+      document.clientCompanyId,
+      new Date(date.getTime() - COUNTERPARTY_WINDOW_DAYS * DAY_MS),
+      date
+    );
+
+    return {
+      documentId,
+      clientCompanyId: document.clientCompanyId,
+      asOf: date,
+      features: computeFeatureVector(this.toFeatureInput(document, invoices, transactions)),
+      label: null,
+    };
+  }
+
+  /**
+   * Rebuild the stored vectors and labels of the tenant's documents from the
+   * last year. Company history is loaded once per company.
+   */
+  async refreshTenant(tenantId: string): Promise<{ vectors: number; labeled: number }> {
+    const since = new Date(Date.now() - REFRESH_WINDOW_DAYS * DAY_MS);
+    const documents = await prisma.document.findMany({
+      where: { tenantId, isDeleted: false, createdAt: { gte: since }, riskFeatures: { isNot: null } },
+      include: { riskFeatures: true, relatedInvoice: true, relatedTransaction: { include: { lines: true } } },
+      orderBy: { createdAt: "desc" },
+      take: MAX_REFRESH_DOCUMENTS,
+    });
+    if (documents.length === 0) {
+      return { vectors: 0, labeled: 0 };
+    }
+
+    const alerts = await prisma.riskAlert.findMany({
+      where: {
+        tenantId,
+        documentId: { in: documents.map((document) => document.id) },
+        mergedIntoId: null,
+        disposition: { not: null },
+      },
+      select: { documentId: true, disposition: true },
+    });
+
+    const byCompany = new Map<string, typeof documents>();
+    for (const document of documents) {
+      const list = byCompany.get(document.clientCompanyId) ?? [];
+      list.push(document);
+      byCompany.set(document.clientCompanyId, list);
+    }
+
+    let labeled = 0;
+    for (const [clientCompanyId, companyDocuments] of byCompany) {
+      const dates = companyDocuments.map((document) => this.documentDate(document).getTime());
+      const [invoices, transactions] = await this.loadCompanyHistory(
+        tenantId,
+        clientCompanyId,
+        new Date(Math.min(...dates) - COUNTERPARTY_WINDOW_DAYS * DAY_MS),
+        new Date(Math.max(...dates))
+      );
+
+      for (const document of companyDocuments) {
+        const features = computeFeatureVector(this.toFeatureInput(document, invoices, transactions));
+        const label = labelFromDispositions(
+          alerts.filter((alert) => alert.documentId === document.id).map((alert) => alert.disposition)
+        );
+        if (label !== null) labeled += 1;
+
+        const data = {
+          clientCompanyId,
+          featureSetVersion: FRAUD_FEATURE_SET_VERSION,
+          features: features as any,
+          label,
+          asOf: this.documentDate(document),
+        };
+        await prisma.fraudFeatureVector.upsert({
+          where: { documentId: document.id },
+          create: { tenantId, documentId: document.id, ...data },
+          update: data,
+        });
+      }
+    }
+
+    return { vectors: documents.length, labeled };
+  }
+
+  /**
+   * Stored vectors of the current feature set, in the column order of FRAUD_FEATURES
+   */
+  async loadTrainingSet(tenantId: string): Promise<FraudTrainingSet> {
+    const vectors = await prisma.fraudFeatureVector.findMany({
+      where: { tenantId, featureSetVersion: FRAUD_FEATURE_SET_VERSION },
+      select: { documentId: true, features: true, label: true },
+    });
+    const featureNames = FRAUD_FEATURES.map((feature) => feature.name);
+
+    return {
+      featureSetVersion: FRAUD_FEATURE_SET_VERSION,
+      featureNames,
+      rows: vectors.map((vector) => {
+        const features = vector.features as Record<string, number>;
+        return {
+          documentId: vector.documentId,
+          values: featureNames.map((name) => Number(features[name] ?? 0)),
+          label: vector.label,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Stored vectors of a company's documents dated on or after since
+   */
+  async getCompanyVectors(tenantId: string, clientCompanyId: string, since: Date): Promise<FraudFeatureVectorView[]> {
+    const vectors = await prisma.fraudFeatureVector.findMany({
+      where: { tenantId, clientCompanyId, featureSetVersion: FRAUD_FEATURE_SET_VERSION, asOf: { gte: since } },
+      orderBy: { asOf: "desc" },
+    });
+    return vectors.map((vector) => ({
+      documentId: vector.documentId,
+      clientCompanyId: vector.clientCompanyId,
+      asOf: vector.asOf,
+      features: vector.features as Record<string, number>,
+      label: vector.label,
+    }));
+  }
+
+  private async loadCompanyHistory(
+    tenantId: string,
+    clientCompanyId: string,
+    from: Date,
+    to: Date
+  ): Promise<[InvoiceStat[], TransactionStat[]]> {
+    const [invoices, transactions] = await Promise.all([
+      prisma.invoice.findMany({
+        where: { tenantId, clientCompanyId, issueDate: { gte: from, lte: to } },
+        select: { id: true, issueDate: true, totalAmount: true, counterpartyName: true, counterpartyTaxNumber: true },
+      }),
+      prisma.transaction.findMany({
+        where: {
+          tenantId,
+          clientCompanyId,
+          date: { gte: new Date(from.getTime() - TRANSACTION_WINDOW_DAYS * DAY_MS), lte: to },
+        },
+        include: { lines: true },
+      }),
+    ]);
+
+    return [
+      invoices.map((invoice) => ({
+        id: invoice.id,
+        issueDate: invoice.issueDate,
+        totalAmount: Number(invoice.totalAmount),
+        counterpartyKey: counterpartyKey(invoice.counterpartyTaxNumber, invoice.counterpartyName),
+      })),
+      transactions.map((txn) => ({
+        date: txn.date,
+        amount: txn.lines.reduce((sum, line) => sum + Number(line.debitAmount), 0),
+      })),
+    ];
+  }
+
+  private documentDate(document: any): Date {
+    return document.relatedInvoice?.issueDate ?? document.relatedTransaction?.date ?? document.createdAt;
+  }
+
+  private toFeatureInput(document: any, invoices: InvoiceStat[], transactions: TransactionStat[]): DocumentFeatureInput {
+    const invoice = document.relatedInvoice;
+    const transaction = document.relatedTransaction;
+    const riskFeatures = document.riskFeatures;
+
+    let amount: number | null = null;
+    if (invoice) {
+      amount = Number(invoice.totalAmount);
+    } else if (transaction) {
+      amount = transaction.lines.reduce((sum: number, line: any) => sum + Number(line.debitAmount), 0);
+    }
+
+    return {
+      riskFeatures: (riskFeatures.features ?? {}) as RiskFeatureMap,
+      aiRiskScore: riskFeatures.riskScore !== null ? Number(riskFeatures.riskScore) : null,
+      riskFlagCount: Array.isArray(riskFeatures.riskFlags) ? riskFeatures.riskFlags.length : 0,
+      amount,
+      taxAmount: invoice ? Number(invoice.taxAmount) : null,
+      date: this.documentDate(document),
+      invoiceId: invoice?.id ?? null,
+      counterpartyKey: invoice ? counterpartyKey(invoice.counterpartyTaxNumber, invoice.counterpartyName) : null,
+      companyInvoices: invoices,
+      companyTransactions: transactions,
+    };
+  }
+}
+
+export const fraudFeatureStoreService = new FraudFeatureStoreService();
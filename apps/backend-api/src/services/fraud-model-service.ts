@@ -0,0 +1,349 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { notificationService } from "./notification-service";
+import {
+  scoreWithArtifact,
+  type FraudModelAlgorithm,
+  type FraudModelArtifact,
+  type FraudModelMetrics,
+  type TrainedFraudModel,
+} from "@repo/core-domain";
+import {
+  fraudFeatureStoreService,
+  FRAUD_FEATURES,
+  FRAUD_FEATURE_SET_VERSION,
+} from "./fraud-feature-store-service";
+
+export type FraudModelStatus = "queued" | "training" | "candidate" | "active" | "retired" | "failed";
+
+export interface FraudModel {
+  id: string;
+  tenantId: string;
+  version: number;
+  algorithm: FraudModelAlgorithm | null;
+  status: FraudModelStatus;
+  featureSetVersion: number;
+  featureNames: string[];
+  metrics: FraudModelMetrics | null;
+  trainingSampleCount: number;
+  labeledSampleCount: number;
+  errorMessage: string | null;
+  requestedByUserId: string | null;
+  trainedAt: Date | null;
+  activatedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface FeatureContribution {
+  feature: string;
+  label: string;
+  value: number;
+  contribution: number; // score points, may be negative
+}
+
+export interface FraudModelScore {
+  modelId: string;
+  modelVersion: number;
+  algorithm: FraudModelAlgorithm;
+  score: number; // 0-100
+  documentId: string;
+  contributions: FeatureContribution[]; // largest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMPANY_SCORE_WINDOW_DAYS = 90;
+const MAX_CONTRIBUTIONS = 8;
+
+const FEATURE_LABELS = new Map(FRAUD_FEATURES.map((feature) => [feature.name, feature.label]));
+
+function isBetter(candidate: FraudModelMetrics, active: FraudModelMetrics | null): boolean {
+  // A model without an AUC replaces another one only if that one has none either
+  return (candidate.auc ?? -1) >= (active?.auc ?? -1);
+}
+
+export class FraudModelService {
+  async listModels(tenantId: string): Promise<FraudModel[]> {
+    const models = await prisma.fraudModel.findMany({
+      where: { tenantId },
+      orderBy: { version: "desc" },
+      take: 50,
+    });
+    return models.map((model) => this.mapToModel(model));
+  }
+
+  async getModel(tenantId: string, modelId: string): Promise<FraudModel> {
+    const model = await prisma.fraudModel.findUnique({ where: { id: modelId } });
+    if (!model || model.tenantId !== tenantId) {
+      throw new NotFoundError("Model bulunamadı.");
+    }
+    return this.mapToModel(model);
+  }
+
+  async getActiveModel(tenantId: string): Promise<FraudModel | null> {
+    const model = await prisma.fraudModel.findFirst({ where: { tenantId, status: "active" } });
+    return model ? this.mapToModel(model) : null;
+  }
+
+  /**
+   * Queue a new model version for the worker. A version already queued or
+   * training is returned instead of queueing another one.
+   */
+  async requestTraining(tenantId: string, userId: string | null): Promise<FraudModel> {
+    const inFlight = await prisma.fraudModel.findFirst({
+      where: { tenantId, status: { in: ["queued", "training"] } },
+    });
+    if (inFlight) {
+      return this.mapToModel(inFlight);
+    }
+
+    const latest = await prisma.fraudModel.findFirst({
+      where: { tenantId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+    const model = await prisma.fraudModel.create({
+      data: {
+        tenantId,
+        version: (latest?.version ?? 0) + 1,
+        featureSetVersion: FRAUD_FEATURE_SET_VERSION,
+        requestedByUserId: userId,
+      },
+    });
+    return this.mapToModel(model);
+  }
+
+  /**
+   * Tenants with documents scored in the last year, for scheduled retraining
+   */
+  async getTenantIdsForRetraining(): Promise<string[]> {
+    const rows = await prisma.documentRiskFeatures.findMany({
+      where: { generatedAt: { gte: new Date(Date.now() - 365 * DAY_MS) } },
+      distinct: ["tenantId"],
+      select: { tenantId: true },
+    });
+    return rows.map((row) => row.tenantId);
+  }
+
+  /**
+   * Queued versions, oldest first, for the worker to pick up
+   */
+  async getQueuedModelIds(limit: number): Promise<string[]> {
+    const models = await prisma.fraudModel.findMany({
+      where: { status: "queued" },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+      select: { id: true },
+    });
+    return models.map((model) => model.id);
+  }
+
+  /**
+   * Move a queued version to training. Returns null when another worker
+   * already claimed it.
+   */
+  async claimTraining(modelId: string): Promise<FraudModel | null> {
+    const claimed = await prisma.fraudModel.updateMany({
+      where: { id: modelId, status: "queued" },
+      data: { status: "training" },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+    const model = await prisma.fraudModel.findUnique({ where: { id: modelId } });
+    return model ? this.mapToModel(model) : null;
+  }
+
+  /**
+   * Store a trained version as a candidate. It is activated right away when
+   * the tenant has no usable active model or it scores at least as well.
+   */
+  async completeTraining(modelId: string, input: TrainedFraudModel): Promise<FraudModel> {
+    const model = await prisma.fraudModel.update({
+      where: { id: modelId },
+      data: {
+        status: "candidate",
+        algorithm: input.algorithm,
+        artifact: input.artifact as any,
+        metrics: input.metrics as any,
+        featureNames: input.featureNames,
+        trainingSampleCount: input.trainingSampleCount,
+        labeledSampleCount: input.labeledSampleCount,
+        trainedAt: new Date(),
+      },
+    });
+
+    const active = await this.getActiveModel(model.tenantId);
+    const activate =
+      !active || active.featureSetVersion !== FRAUD_FEATURE_SET_VERSION || isBetter(input.metrics, active.metrics);
+    const result = activate ? await this.activateModel(model.tenantId, modelId) : this.mapToModel(model);
+
+    await this.notifyRequester(
+      result,
+      `Dolandırıcılık modeli v${result.version} eğitildi`,
+      activate
+        ? "Model etkinleştirildi ve yeni puanlamalarda kullanılıyor."
+        : "Model, etkin modelden daha iyi sonuç vermediği için aday olarak bekliyor."
+    );
+    return result;
+  }
+
+  async failTraining(modelId: string, message: string): Promise<void> {
+    const model = await prisma.fraudModel.update({
+      where: { id: modelId },
+      data: { status: "failed", errorMessage: message },
+    });
+    await this.notifyRequester(this.mapToModel(model), `Dolandırıcılık modeli v${model.version} eğitilemedi`, message);
+  }
+
+  /**
+   * Make a trained version the one used for scoring; the previous active
+   * version is retired
+   */
+  async activateModel(tenantId: string, modelId: string): Promise<FraudModel> {
+    const model = await prisma.fraudModel.findUnique({ where: { id: modelId } });
+    if (!model || model.tenantId !== tenantId) {
+      throw new NotFoundError("Model bulunamadı.");
+    }
+    if (!["candidate", "retired", "active"].includes(model.status) || !model.artifact) {
+      throw new ValidationError("Yalnızca eğitimi tamamlanmış modeller etkinleştirilebilir.");
+    }
+    if (model.featureSetVersion !== FRAUD_FEATURE_SET_VERSION) {
+      throw new ValidationError("Model güncel özellik setiyle eğitilmemiş; yeniden eğitin.");
+    }
+
+    const [, activated] = await prisma.$transaction([
+      prisma.fraudModel.updateMany({
+        where: { tenantId, status: "active", id: { not: modelId } },
+        data: { status: "retired" },
+      }),
+      prisma.fraudModel.update({
+        where: { id: modelId },
+        data: { status: "active", activatedAt: new Date() },
+      }),
+    ]);
+    return this.mapToModel(activated);
+  }
+
+  /**
+   * Score a document with the tenant's active model. Null when the tenant
+   * has no usable active model.
+   */
+  async scoreDocument(tenantId: string, documentId: string): Promise<FraudModelScore | null> {
+    const model = await this.loadActiveArtifact(tenantId);
+    if (!model) {
+      return null;
+    }
+    const vector = await fraudFeatureStoreService.buildDocumentVector(tenantId, documentId);
+    return this.score(model, documentId, vector.features);
+  }
+
+  /**
+   * Score a company by its riskiest document of the last 90 days in the
+   * feature store. Null without an active model or stored vectors.
+   */
+  async scoreCompany(
+    tenantId: string,
+    clientCompanyId: string
+  ): Promise<(FraudModelScore & { documentCount: number }) | null> {
+    const model = await this.loadActiveArtifact(tenantId);
+    if (!model) {
+      return null;
+    }
+    const vectors = await fraudFeatureStoreService.getCompanyVectors(
+      tenantId,
+      clientCompanyId,
+      new Date(Date.now() - COMPANY_SCORE_WINDOW_DAYS * DAY_MS)
+    );
+    if (vectors.length === 0) {
+      return null;
+    }
+
+    let riskiest: FraudModelScore | null = null;
+    for (const vector of vectors) {
+      const score = this.score(model, vector.documentId, vector.features);
+      if (!riskiest || score.score > riskiest.score) {
+        riskiest = score;
+      }
+    }
+    return { ...riskiest!, documentCount: vectors.length };
+  }
+
+  private async loadActiveArtifact(tenantId: string) {
+    const model = await prisma.fraudModel.findFirst({
+      where: { tenantId, status: "active", featureSetVersion: FRAUD_FEATURE_SET_VERSION },
+    });
+    if (!model?.artifact || !model.algorithm) {
+      return null;
+    }
+    return model;
+  }
+
+  private score(
+    model: { id: string; version: number; algorithm: string | null; featureNames: string[]; artifact: unknown },
+    documentId: string,
+    features: Record<string, number>
+  ): FraudModelScore {
+    const values = model.featureNames.map((name) => Number(features[name] ?? 0));
+    const result = scoreWithArtifact(model.artifact as FraudModelArtifact, values);
+
+    const contributions = model.featureNames
+      .map((name, index) => ({
+        feature: name,
+        label: FEATURE_LABELS.get(name) ?? name,
+        value: values[index],
+        contribution: Math.round(result.contributions[index] * 1000) / 10,
+      }))
+      .filter((c) => c.contribution !== 0)
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+      .slice(0, MAX_CONTRIBUTIONS);
+
+    return {
+      modelId: model.id,
+      modelVersion: model.version,
+      algorithm: model.algorithm as FraudModelAlgorithm,
+      score: Math.round(result.score * 100),
+      documentId,
+      contributions,
+    };
+  }
+
+  private async notifyRequester(model: FraudModel, title: string, message: string): Promise<void> {
+    if (!model.requestedByUserId) {
+      return;
+    }
+    try {
+      await notificationService.createNotification({
+        tenantId: model.tenantId,
+        userId: model.requestedByUserId,
+        type: "SYSTEM",
+        title,
+        message,
+        meta: { fraudModelId: model.id },
+      });
+    } catch (error) {
+      logger.error("[FraudModelService] Failed to notify requester:", { error });
+    }
+  }
+
+  private mapToModel(model: any): FraudModel {
+    return {
+      id: model.id,
+      tenantId: model.tenantId,
+      version: model.version,
+      algorithm: (model.algorithm ?? null) as FraudModelAlgorithm | null,
+      status: model.status as FraudModelStatus,
+      featureSetVersion: model.featureSetVersion,
+      featureNames: model.featureNames ?? [],
+      metrics: (model.metrics ?? null) as FraudModelMetrics | null,
+      trainingSampleCount: model.trainingSampleCount,
+      labeledSampleCount: model.labeledSampleCount,
+      errorMessage: model.errorMessage,
+      requestedByUserId: model.requestedByUserId,
+      trainedAt: model.trainedAt,
+      activatedAt: model.activatedAt,
+      createdAt: model.createdAt,
+    };
+  }
+}
+
+export const fraudModelService = new FraudModelService();
@@ -221,11 +221,12 @@ export class FraudPatternDetectorService {
   }
 
   /**
-   * Detect fraud patterns for a client company
+   * Detect fraud patterns for a client company over the 12 months up to asOf
    */
   async detectFraudPatterns(
     tenantId: string,
-    clientCompanyId: string
+    clientCompanyId: string,
+    asOf: Date = new Date()
   ): Promise<FraudPatternResult> {
     // Verify company belongs to tenant
     const company = await prisma.clientCompany.findUnique({
@@ -237,7 +238,7 @@ export class FraudPatternDetectorService {
     }
 
     // Get transactions for last 12 months
-    const twelveMonthsAgo = new Date();
+    const twelveMonthsAgo = new Date(asOf);
     twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
 
     const transactions = await prisma.transaction.findMany({
@@ -246,6 +247,7 @@ export class FraudPatternDetectorService {
         clientCompanyId,
         date: {
           gte: twelveMonthsAgo,
+          lte: asOf,
         },
       },
       include: {
@@ -328,6 +330,7 @@ export class FraudPatternDetectorService {
         clientCompanyId,
         issueDate: {
           gte: twelveMonthsAgo,
+          lte: asOf,
         },
       },
     });
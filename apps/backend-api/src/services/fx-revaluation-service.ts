@@ -0,0 +1,844 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { accountingPeriodService, getPeriodBounds } from "./accounting-period-service";
+import { transactionService } from "./transaction-service";
+import { ledgerAccountService } from "./ledger-account-service";
+import { exchangeRateService } from "./exchange-rate-service";
+import { invoiceService } from "./invoice-service";
+import { auditService } from "./audit-service";
+import type { BaseReportResult } from "./reporting-service";
+import type { CreateInvoiceInput } from "@repo/core-domain";
+
+/**
+ * Kur farkı değerlemesi (VUK 280)
+ *
+ * Open foreign-currency positions (invoices not yet settled, çek/senet in
+ * portfolio and döviz bank accounts) are valued at the TCMB döviz alış kuru
+ * of the closing date. The difference against the rate they are carried at
+ * (booking rate, or the rate of the previous revaluation) is posted to
+ * 646 Kambiyo Kârları / 656 Kambiyo Zararları. Payments of foreign-currency
+ * invoices realise the remaining difference against the carrying rate.
+ */
+
+const FX_GAIN_ACCOUNT = "646";
+const FX_LOSS_ACCOUNT = "656";
+const VAT_PAYABLE_ACCOUNT = "391";
+const DEFAULT_CASH_ACCOUNT = "102";
+const DEFAULT_KUR_FARKI_VAT_RATE = 0.2;
+const AMOUNT_TOLERANCE = 0.005;
+const RATE_DECIMALS = 6;
+
+const OPEN_INVOICE_STATUSES = ["kesildi", "muhasebeleştirilmiş"];
+const OPEN_CHECK_NOTE_STATUSES = ["portfoyde", "tahsile_verildi"];
+
+// Invoices are carried on the ana hesap of the cari account
+const INVOICE_ACCOUNTS: Record<string, { code: string; side: FxPositionSide }> = {
+  SATIŞ: { code: "120", side: "asset" },
+  ALIŞ: { code: "320", side: "liability" },
+};
+
+const CHECK_NOTE_ACCOUNTS: Record<string, { code: string; side: FxPositionSide }> = {
+  "ALACAK:CEK": { code: "101", side: "asset" },
+  "ALACAK:SENET": { code: "121", side: "asset" },
+  "BORC:CEK": { code: "103", side: "liability" },
+  "BORC:SENET": { code: "321", side: "liability" },
+};
+
+export type FxPositionSourceType = "invoice" | "check_note" | "bank_account";
+export type FxPositionSide = "asset" | "liability";
+
+export interface FxPosition {
+  sourceType: FxPositionSourceType;
+  sourceId: string;
+  reference: string;
+  counterparty: string | null;
+  currency: string;
+  fxAmount: number;
+  accountCode: string;
+  side: FxPositionSide;
+  carryingRate: number; // booking rate or the rate of the previous revaluation
+  closingRate: number; // TCMB döviz alış kuru of the closing date
+  bookValue: number;
+  revaluedValue: number;
+  difference: number; // + kambiyo kârı, - kambiyo zararı
+}
+
+export interface FxRevaluationPreview {
+  clientCompanyId: string;
+  period: string;
+  revaluationDate: Date;
+  previousRevaluationPeriod: string | null;
+  positions: FxPosition[];
+  totalGain: number;
+  totalLoss: number;
+  warnings: string[];
+}
+
+export interface FxRevaluationResult {
+  id: string;
+  clientCompanyId: string;
+  period: string;
+  revaluationDate: Date;
+  totalGain: number;
+  totalLoss: number;
+  transactionId: string | null;
+  runCount: number;
+  postedAt: Date;
+}
+
+export interface SettleInvoiceInput {
+  settlementDate: Date;
+  fxAmount?: number; // defaults to the open amount
+  rate?: number; // defaults to the TCMB döviz alış kuru of the settlement date
+  cashAccountCode?: string;
+  createKurFarkiInvoice?: boolean;
+}
+
+export interface FxSettlementResult {
+  id: string;
+  invoiceId: string;
+  settlementDate: Date;
+  currency: string;
+  fxAmount: number;
+  rate: number;
+  carryingRate: number;
+  realisedDifference: number;
+  transactionId: string | null;
+  kurFarkiInvoiceId: string | null;
+  createdAt: Date;
+}
+
+export interface FxRevaluationReportRow {
+  source_type: FxPositionSourceType;
+  reference: string;
+  counterparty: string;
+  currency: string;
+  fx_amount: number;
+  account_code: string;
+  carrying_rate: number;
+  closing_rate: number;
+  book_value: number;
+  revalued_value: number;
+  difference: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundRate(value: number): number {
+  const factor = 10 ** RATE_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+function positionKey(sourceType: FxPositionSourceType, sourceId: string): string {
+  return `${sourceType}:${sourceId}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("tr-TR");
+}
+
+export class FxRevaluationService {
+  async listRuns(tenantId: string, clientCompanyId: string): Promise<FxRevaluationResult[]> {
+    const runs = await prisma.fxRevaluation.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { period: "desc" },
+    });
+
+    return runs.map((run) => this.mapRun(run));
+  }
+
+  /**
+   * Value the open positions at the end of the period without posting
+   */
+  async preview(tenantId: string, clientCompanyId: string, period: string): Promise<FxRevaluationPreview> {
+    const { periodEnd } = getPeriodBounds(period);
+
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const later = await prisma.fxRevaluation.findFirst({
+      where: { tenantId, clientCompanyId, period: { gt: period } },
+    });
+
+    if (later) {
+      throw new ValidationError(
+        `${later.period} dönemine ait kur değerlemesi bulunduğundan önceki dönemler yeniden değerlenemez.`
+      );
+    }
+
+    const [previous, current, invoices, checkNotes, bankAccounts] = await Promise.all([
+      prisma.fxRevaluation.findFirst({
+        where: { tenantId, clientCompanyId, period: { lt: period } },
+        orderBy: { period: "desc" },
+      }),
+      prisma.fxRevaluation.findUnique({
+        where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+      }),
+      prisma.invoice.findMany({
+        where: {
+          tenantId,
+          clientCompanyId,
+          currency: { not: "TRY" },
+          status: { in: OPEN_INVOICE_STATUSES },
+          issueDate: { lte: periodEnd },
+        },
+        include: { fxSettlements: { where: { settlementDate: { lte: periodEnd } } } },
+        orderBy: { issueDate: "asc" },
+      }),
+      prisma.checkNote.findMany({
+        where: {
+          tenantId,
+          clientCompanyId,
+          currency: { not: "TRY" },
+          status: { in: OPEN_CHECK_NOTE_STATUSES },
+          issueDate: { lte: periodEnd },
+        },
+        orderBy: { issueDate: "asc" },
+      }),
+      prisma.clientCompanyBankAccount.findMany({
+        where: { tenantId, clientCompanyId, currency: { not: "TRY" } },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    const previousRates = new Map(
+      ((previous?.items as unknown as FxPosition[] | undefined) ?? []).map((item) => [
+        positionKey(item.sourceType, item.sourceId),
+        item.closingRate,
+      ])
+    );
+    const rateCache = new Map<string, number | null>();
+    const lookupRate = async (currency: string, date: Date): Promise<number | null> => {
+      const key = `${currency}:${date.toISOString().slice(0, 10)}`;
+      if (!rateCache.has(key)) {
+        rateCache.set(key, await this.tcmbBuyRate(currency, date));
+      }
+      return rateCache.get(key)!;
+    };
+
+    const positions: FxPosition[] = [];
+    const warnings: string[] = [];
+
+    const closingRate = async (currency: string): Promise<number> => {
+      const rate = await lookupRate(currency, periodEnd);
+      if (rate === null) {
+        throw new ValidationError(
+          `${currency} için ${formatDate(periodEnd)} tarihli TCMB kuru bulunamadı, önce kurları güncelleyin.`
+        );
+      }
+      return rate;
+    };
+
+    const addPosition = async (
+      position: Omit<FxPosition, "carryingRate" | "closingRate" | "bookValue" | "revaluedValue" | "difference">,
+      bookingDate: Date
+    ) => {
+      const rate = await closingRate(position.currency);
+      const carryingRate =
+        previousRates.get(positionKey(position.sourceType, position.sourceId)) ??
+        (await lookupRate(position.currency, bookingDate));
+
+      if (carryingRate === null) {
+        warnings.push(
+          `${position.reference}: ${formatDate(bookingDate)} tarihli ${position.currency} kuru bulunamadığı için değerlenmedi.`
+        );
+        return;
+      }
+
+      const bookValue = round2(position.fxAmount * carryingRate);
+      const revaluedValue = round2(position.fxAmount * rate);
+
+      positions.push({
+        ...position,
+        carryingRate,
+        closingRate: rate,
+        bookValue,
+        revaluedValue,
+        difference: round2(position.side === "asset" ? revaluedValue - bookValue : bookValue - revaluedValue),
+      });
+    };
+
+    for (const invoice of invoices) {
+      const account = INVOICE_ACCOUNTS[invoice.type];
+      const settled = invoice.fxSettlements.reduce((sum, settlement) => sum + Number(settlement.fxAmount), 0);
+      const open = round2(Number(invoice.totalAmount) - settled);
+      if (!account || open < 0.01) {
+        continue;
+      }
+
+      await addPosition(
+        {
+          sourceType: "invoice",
+          sourceId: invoice.id,
+          reference: invoice.externalId || invoice.id,
+          counterparty: invoice.counterpartyName,
+          currency: invoice.currency,
+          fxAmount: open,
+          accountCode: account.code,
+          side: account.side,
+        },
+        invoice.issueDate
+      );
+    }
+
+    for (const note of checkNotes) {
+      const account = CHECK_NOTE_ACCOUNTS[`${note.direction}:${note.type}`];
+      if (!account) {
+        continue;
+      }
+
+      await addPosition(
+        {
+          sourceType: "check_note",
+          sourceId: note.id,
+          reference: note.documentNumber,
+          counterparty: note.direction === "ALACAK" ? note.issuer : note.endorsedTo ?? note.issuer,
+          currency: note.currency,
+          fxAmount: Number(note.amount),
+          accountCode: account.code,
+          side: account.side,
+        },
+        note.issueDate
+      );
+    }
+
+    // Bank accounts are carried at their ledger balance, whatever rates it was built from
+    if (bankAccounts.length > 0) {
+      const trialBalance = await transactionService.getTrialBalance(tenantId, clientCompanyId, new Date(0), periodEnd, {
+        excludeTransactionIds: current?.transactionId ? [current.transactionId] : [],
+      });
+      const ledgerBalances = new Map(trialBalance.entries.map((entry) => [entry.ledgerAccountCode, entry.balance]));
+
+      for (const bankAccount of bankAccounts) {
+        const label = `${bankAccount.bankName} ${bankAccount.iban}`;
+
+        if (!bankAccount.ledgerAccountCode || bankAccount.currencyBalance === null) {
+          warnings.push(`${label}: muhasebe hesabı veya döviz bakiyesi tanımlı olmadığı için değerlenmedi.`);
+          continue;
+        }
+
+        if (!bankAccount.balanceDate || bankAccount.balanceDate > periodEnd) {
+          warnings.push(`${label}: döviz bakiyesi dönem sonu itibarıyla girilmemiş olabilir, bakiye tarihini kontrol edin.`);
+        }
+
+        const fxAmount = Number(bankAccount.currencyBalance);
+        const rate = await closingRate(bankAccount.currency);
+        const bookValue = round2(ledgerBalances.get(bankAccount.ledgerAccountCode) ?? 0);
+        const revaluedValue = round2(fxAmount * rate);
+
+        positions.push({
+          sourceType: "bank_account",
+          sourceId: bankAccount.id,
+          reference: label,
+          counterparty: null,
+          currency: bankAccount.currency,
+          fxAmount,
+          accountCode: bankAccount.ledgerAccountCode,
+          side: "asset",
+          carryingRate: fxAmount !== 0 ? roundRate(bookValue / fxAmount) : 0,
+          closingRate: rate,
+          bookValue,
+          revaluedValue,
+          difference: round2(revaluedValue - bookValue),
+        });
+      }
+    }
+
+    return {
+      clientCompanyId,
+      period,
+      revaluationDate: periodEnd,
+      previousRevaluationPeriod: previous?.period ?? null,
+      positions,
+      totalGain: round2(positions.reduce((sum, p) => sum + Math.max(p.difference, 0), 0)),
+      totalLoss: round2(positions.reduce((sum, p) => sum + Math.max(-p.difference, 0), 0)),
+      warnings,
+    };
+  }
+
+  /**
+   * Post the revaluation, replacing an earlier run of the same period.
+   * Differences are netted per account; 646 and 656 are kept gross.
+   */
+  async post(tenantId: string, userId: string, clientCompanyId: string, period: string): Promise<FxRevaluationResult> {
+    const preview = await this.preview(tenantId, clientCompanyId, period);
+    const { periodEnd } = getPeriodBounds(period);
+
+    // Kur değerlemesi is a period-end adjustment, so a soft-closed month accepts it
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, periodEnd, {
+      allowSoftClosed: true,
+    });
+
+    const netByAccount = new Map<string, number>();
+    for (const position of preview.positions) {
+      netByAccount.set(position.accountCode, (netByAccount.get(position.accountCode) ?? 0) + position.difference);
+    }
+    const postable = Array.from(netByAccount.entries())
+      .map(([code, amount]) => ({ code, amount: round2(amount) }))
+      .filter((account) => Math.abs(account.amount) >= 0.01)
+      .sort((a, b) => a.code.localeCompare(b.code));
+
+    const accountIds = await ledgerAccountService.resolveAccountIds(tenantId, clientCompanyId, [
+      ...postable.map((account) => account.code),
+      FX_GAIN_ACCOUNT,
+      FX_LOSS_ACCOUNT,
+    ]);
+
+    const lines = postable.map((account) => ({
+      tenantId,
+      ledgerAccountId: accountIds.get(account.code)!,
+      debitAmount: account.amount > 0 ? account.amount : 0,
+      creditAmount: account.amount < 0 ? -account.amount : 0,
+      description: `${account.code} dövizli bakiyelerin değerlemesi`,
+    }));
+
+    if (lines.length > 0) {
+      if (preview.totalGain >= 0.01) {
+        lines.push({
+          tenantId,
+          ledgerAccountId: accountIds.get(FX_GAIN_ACCOUNT)!,
+          debitAmount: 0,
+          creditAmount: preview.totalGain,
+          description: `${period} kur değerlemesi kambiyo kârları`,
+        });
+      }
+      if (preview.totalLoss >= 0.01) {
+        lines.push({
+          tenantId,
+          ledgerAccountId: accountIds.get(FX_LOSS_ACCOUNT)!,
+          debitAmount: preview.totalLoss,
+          creditAmount: 0,
+          description: `${period} kur değerlemesi kambiyo zararları`,
+        });
+      }
+    }
+
+    const existing = await prisma.fxRevaluation.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    const run = await prisma.$transaction(async (tx) => {
+      if (existing?.transactionId) {
+        await tx.transaction.deleteMany({ where: { id: existing.transactionId, tenantId } });
+      }
+
+      const transaction =
+        lines.length > 0
+          ? await tx.transaction.create({
+              data: {
+                tenantId,
+                clientCompanyId,
+                date: periodEnd,
+                referenceNo: `KFD-${period}`,
+                description: `${period} dönemi dövizli kalemlerin kur değerlemesi (VUK 280)`,
+                source: "fx_revaluation",
+                lines: { create: lines },
+              },
+            })
+          : null;
+
+      const data = {
+        revaluationDate: periodEnd,
+        totalGain: preview.totalGain,
+        totalLoss: preview.totalLoss,
+        transactionId: transaction?.id ?? null,
+        items: preview.positions as any,
+        warnings: preview.warnings as any,
+        postedAt: new Date(),
+        postedByUserId: userId,
+      };
+
+      return existing
+        ? tx.fxRevaluation.update({
+            where: { id: existing.id },
+            data: { ...data, runCount: { increment: 1 } },
+          })
+        : tx.fxRevaluation.create({
+            data: { tenantId, clientCompanyId, period, ...data },
+          });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "FX_REVALUATION_POSTED",
+      resourceType: "FxRevaluation",
+      resourceId: run.id,
+      metadata: {
+        clientCompanyId,
+        period,
+        runCount: run.runCount,
+        positionCount: preview.positions.length,
+        totalGain: preview.totalGain,
+        totalLoss: preview.totalLoss,
+      },
+    });
+
+    logger.info("FX revaluation posted", undefined, { tenantId, clientCompanyId, period, runCount: run.runCount });
+
+    return this.mapRun(run);
+  }
+
+  /**
+   * Değerleme raporu, one row per position, in the report shape consumed by
+   * ExportService. Uses the posted run when there is one, otherwise a fresh
+   * preview.
+   */
+  async getReport(
+    tenantId: string,
+    clientCompanyId: string,
+    period: string
+  ): Promise<BaseReportResult<FxRevaluationReportRow>> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const posted = await prisma.fxRevaluation.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    const { positions, warnings } = posted
+      ? {
+          positions: posted.items as unknown as FxPosition[],
+          warnings: posted.warnings as unknown as string[],
+        }
+      : await this.preview(tenantId, clientCompanyId, period);
+
+    const rows: FxRevaluationReportRow[] = positions.map((position) => ({
+      source_type: position.sourceType,
+      reference: position.reference,
+      counterparty: position.counterparty ?? "",
+      currency: position.currency,
+      fx_amount: position.fxAmount,
+      account_code: position.accountCode,
+      carrying_rate: position.carryingRate,
+      closing_rate: position.closingRate,
+      book_value: position.bookValue,
+      revalued_value: position.revaluedValue,
+      difference: position.difference,
+    }));
+
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+
+    return {
+      title: `Kur Farkı Değerleme Raporu ${period}${posted ? "" : " (Taslak)"} - ${client.name}`,
+      period: { start_date: periodStart.toISOString(), end_date: periodEnd.toISOString() },
+      generated_at: new Date().toISOString(),
+      rows,
+      totals: {
+        book_value: round2(rows.reduce((sum, row) => sum + row.book_value, 0)),
+        revalued_value: round2(rows.reduce((sum, row) => sum + row.revalued_value, 0)),
+        difference: round2(rows.reduce((sum, row) => sum + row.difference, 0)),
+      },
+      meta: { row_count: rows.length, row_limit_applied: false },
+      ...(warnings.length > 0 && { suggestions: warnings }),
+    };
+  }
+
+  async listSettlements(tenantId: string, invoiceId: string): Promise<FxSettlementResult[]> {
+    const settlements = await prisma.fxSettlement.findMany({
+      where: { tenantId, invoiceId },
+      orderBy: { settlementDate: "asc" },
+    });
+
+    return settlements.map((settlement) => this.mapSettlement(settlement));
+  }
+
+  /**
+   * Record the payment of a foreign-currency invoice and post the realised
+   * kur farkı against the carrying rate. For a sales invoice with a gain a
+   * draft kur farkı faturası can be generated; its KDV is then carried to
+   * 391 instead of 646.
+   */
+  async settleInvoice(
+    tenantId: string,
+    userId: string,
+    invoiceId: string,
+    input: SettleInvoiceInput
+  ): Promise<FxSettlementResult> {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      include: { lines: true, fxSettlements: true },
+    });
+
+    if (!invoice) {
+      throw new NotFoundError("Fatura bulunamadı.");
+    }
+
+    const account = INVOICE_ACCOUNTS[invoice.type];
+    if (invoice.currency === "TRY" || !account) {
+      throw new ValidationError("Kur farkı yalnızca döviz cinsinden faturalar için hesaplanır.");
+    }
+
+    if (!OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new ValidationError("Yalnızca kesilmiş veya muhasebeleştirilmiş faturalar için tahsilat/ödeme kaydedilebilir.");
+    }
+
+    const settled = invoice.fxSettlements.reduce((sum, settlement) => sum + Number(settlement.fxAmount), 0);
+    const open = round2(Number(invoice.totalAmount) - settled);
+    const fxAmount = round2(input.fxAmount ?? open);
+
+    if (fxAmount <= 0 || fxAmount > open + AMOUNT_TOLERANCE) {
+      throw new ValidationError(`Tutar faturanın açık bakiyesini (${open} ${invoice.currency}) aşamaz.`);
+    }
+
+    await accountingPeriodService.assertDateWritable(tenantId, invoice.clientCompanyId, input.settlementDate);
+
+    const rate = input.rate ?? (await this.tcmbBuyRate(invoice.currency, input.settlementDate));
+    if (rate === null) {
+      throw new ValidationError(
+        `${invoice.currency} için ${formatDate(input.settlementDate)} tarihli TCMB kuru bulunamadı, kuru girerek tekrar deneyin.`
+      );
+    }
+
+    const carryingRate = await this.invoiceCarryingRate(tenantId, invoice, input.settlementDate);
+    const paymentAmount = round2(fxAmount * rate);
+    const carryingAmount = round2(fxAmount * carryingRate);
+    const realisedDifference = round2(
+      account.side === "asset" ? paymentAmount - carryingAmount : carryingAmount - paymentAmount
+    );
+
+    const createKurFarkiInvoice =
+      input.createKurFarkiInvoice === true && account.side === "asset" && realisedDifference >= 0.01;
+    const vatRate = createKurFarkiInvoice
+      ? invoice.lines.length > 0
+        ? Number(invoice.lines[0].vatRate)
+        : DEFAULT_KUR_FARKI_VAT_RATE
+      : 0;
+    const kurFarkiNet = round2(realisedDifference / (1 + vatRate));
+    const kurFarkiVat = round2(realisedDifference - kurFarkiNet);
+
+    const cashAccountCode = input.cashAccountCode ?? DEFAULT_CASH_ACCOUNT;
+    const accountIds = await ledgerAccountService.resolveAccountIds(tenantId, invoice.clientCompanyId, [
+      cashAccountCode,
+      account.code,
+      FX_GAIN_ACCOUNT,
+      FX_LOSS_ACCOUNT,
+      ...(kurFarkiVat >= 0.01 ? [VAT_PAYABLE_ACCOUNT] : []),
+    ]);
+
+    const reference = invoice.externalId || invoice.id;
+    const lines = [
+      {
+        tenantId,
+        ledgerAccountId: accountIds.get(account.side === "asset" ? cashAccountCode : account.code)!,
+        debitAmount: account.side === "asset" ? paymentAmount : carryingAmount,
+        creditAmount: 0,
+        description: `${reference} ${account.side === "asset" ? "tahsilatı" : "ödemesi"}`,
+      },
+      {
+        tenantId,
+        ledgerAccountId: accountIds.get(account.side === "asset" ? account.code : cashAccountCode)!,
+        debitAmount: 0,
+        creditAmount: account.side === "asset" ? carryingAmount : paymentAmount,
+        description: `${reference} ${account.side === "asset" ? "tahsilatı" : "ödemesi"}`,
+      },
+    ];
+
+    if (realisedDifference >= 0.01) {
+      lines.push({
+        tenantId,
+        ledgerAccountId: accountIds.get(FX_GAIN_ACCOUNT)!,
+        debitAmount: 0,
+        creditAmount: createKurFarkiInvoice ? kurFarkiNet : realisedDifference,
+        description: `${reference} kur farkı kârı`,
+      });
+      if (createKurFarkiInvoice && kurFarkiVat >= 0.01) {
+        lines.push({
+          tenantId,
+          ledgerAccountId: accountIds.get(VAT_PAYABLE_ACCOUNT)!,
+          debitAmount: 0,
+          creditAmount: kurFarkiVat,
+          description: `${reference} kur farkı KDV`,
+        });
+      }
+    } else if (realisedDifference <= -0.01) {
+      lines.push({
+        tenantId,
+        ledgerAccountId: accountIds.get(FX_LOSS_ACCOUNT)!,
+        debitAmount: -realisedDifference,
+        creditAmount: 0,
+        description: `${reference} kur farkı zararı`,
+      });
+    }
+
+    const kurFarkiInput: CreateInvoiceInput | null = createKurFarkiInvoice
+      ? {
+          clientCompanyId: invoice.clientCompanyId,
+          type: "SATIŞ",
+          issueDate: input.settlementDate,
+          totalAmount: realisedDifference,
+          currency: "TRY",
+          taxAmount: kurFarkiVat,
+          netAmount: kurFarkiNet,
+          counterpartyName: invoice.counterpartyName,
+          counterpartyTaxNumber: invoice.counterpartyTaxNumber,
+          status: "taslak",
+          lines: [
+            {
+              lineNumber: 1,
+              description: `${reference} no'lu faturanın kur farkı (${invoice.currency} ${fxAmount} × ${roundRate(rate - carryingRate)})`,
+              quantity: 1,
+              unitPrice: kurFarkiNet,
+              lineTotal: realisedDifference,
+              vatRate,
+              vatAmount: kurFarkiVat,
+            },
+          ],
+        }
+      : null;
+
+    // The kur farkı invoice carries the KDV credited to 391, so it is checked
+    // before posting and written in the same transaction as the journal
+    const kurFarkiDimensions = kurFarkiInput ? await invoiceService.prepareInvoiceCreate(tenantId, kurFarkiInput) : [];
+
+    const { settlement, kurFarkiInvoice } = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          tenantId,
+          clientCompanyId: invoice.clientCompanyId,
+          date: input.settlementDate,
+          referenceNo: `KF-${reference}`,
+          description: `${reference} dövizli fatura ${account.side === "asset" ? "tahsilatı" : "ödemesi"} ve kur farkı`,
+          source: "fx_revaluation",
+          lines: { create: lines },
+        },
+      });
+
+      const kurFarkiInvoice = kurFarkiInput
+        ? await invoiceService.insertInvoice(tx, tenantId, kurFarkiInput, kurFarkiDimensions)
+        : null;
+
+      const settlement = await tx.fxSettlement.create({
+        data: {
+          tenantId,
+          clientCompanyId: invoice.clientCompanyId,
+          invoiceId: invoice.id,
+          settlementDate: input.settlementDate,
+          currency: invoice.currency,
+          fxAmount,
+          rate,
+          carryingRate,
+          realisedDifference,
+          transactionId: transaction.id,
+          kurFarkiInvoiceId: kurFarkiInvoice?.id ?? null,
+        },
+      });
+
+      return { settlement, kurFarkiInvoice };
+    });
+
+    if (kurFarkiInvoice) {
+      await invoiceService.afterInvoiceCreated(tenantId, kurFarkiInvoice);
+    }
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "FX_SETTLEMENT_POSTED",
+      resourceType: "Invoice",
+      resourceId: invoice.id,
+      metadata: {
+        settlementId: settlement.id,
+        fxAmount,
+        rate,
+        carryingRate,
+        realisedDifference,
+        kurFarkiInvoiceId: settlement.kurFarkiInvoiceId ?? null,
+      },
+    });
+
+    logger.info("FX settlement posted", undefined, { tenantId, invoiceId, realisedDifference });
+
+    return this.mapSettlement(settlement);
+  }
+
+  /**
+   * Rate of the latest revaluation before the payment that valued the
+   * invoice, otherwise the TCMB rate of the invoice date
+   */
+  private async invoiceCarryingRate(
+    tenantId: string,
+    invoice: { id: string; clientCompanyId: string; currency: string; issueDate: Date },
+    settlementDate: Date
+  ): Promise<number> {
+    const lastRun = await prisma.fxRevaluation.findFirst({
+      where: { tenantId, clientCompanyId: invoice.clientCompanyId, revaluationDate: { lt: settlementDate } },
+      orderBy: { revaluationDate: "desc" },
+    });
+
+    const revalued = ((lastRun?.items as unknown as FxPosition[] | undefined) ?? []).find(
+      (item) => item.sourceType === "invoice" && item.sourceId === invoice.id
+    );
+    if (revalued) {
+      return revalued.closingRate;
+    }
+
+    const bookingRate = await this.tcmbBuyRate(invoice.currency, invoice.issueDate);
+    if (bookingRate === null) {
+      throw new ValidationError(
+        `${invoice.currency} için fatura tarihli (${formatDate(invoice.issueDate)}) TCMB kuru bulunamadı.`
+      );
+    }
+    return bookingRate;
+  }
+
+  /**
+   * TCMB döviz alış kuru effective on the date; the built-in fallback rates
+   * are not acceptable for valuation.
+   */
+  private async tcmbBuyRate(currency: string, date: Date): Promise<number | null> {
+    try {
+      const rate = await exchangeRateService.getRate(currency, "TRY", date);
+      return rate.source === "default" ? null : Number(rate.buyRate);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private mapRun(run: any): FxRevaluationResult {
+    return {
+      id: run.id,
+      clientCompanyId: run.clientCompanyId,
+      period: run.period,
+      revaluationDate: run.revaluationDate,
+      totalGain: Number(run.totalGain),
+      totalLoss: Number(run.totalLoss),
+      transactionId: run.transactionId ?? null,
+      runCount: run.runCount,
+      postedAt: run.postedAt,
+    };
+  }
+
+  private mapSettlement(settlement: any): FxSettlementResult {
+    return {
+      id: settlement.id,
+      invoiceId: settlement.invoiceId,
+      settlementDate: settlement.settlementDate,
+      currency: settlement.currency,
+      fxAmount: Number(settlement.fxAmount),
+      rate: Number(settlement.rate),
+      carryingRate: Number(settlement.carryingRate),
+      realisedDifference: Number(settlement.realisedDifference),
+      transactionId: settlement.transactionId ?? null,
+      kurFarkiInvoiceId: settlement.kurFarkiInvoiceId ?? null,
+      createdAt: settlement.createdAt,
+    };
+  }
+}
+
+export const fxRevaluationService = new FxRevaluationService();
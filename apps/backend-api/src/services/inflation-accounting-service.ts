@@ -0,0 +1,639 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import type { LedgerAccountInflationClass } from "@repo/core-domain";
+import { accountingPeriodService, getPeriodBounds } from "./accounting-period-service";
+import { transactionService, type TrialBalanceResult } from "./transaction-service";
+import { ledgerAccountService } from "./ledger-account-service";
+import { auditService } from "./audit-service";
+import { defaultInflationClass, parseAccountCode } from "./chart-of-accounts";
+import type { BaseReportResult } from "./reporting-service";
+
+/**
+ * Enflasyon düzeltmesi (VUK mükerrer 298/A)
+ *
+ * Non-monetary balance sheet accounts are restated to the price level of
+ * the adjustment date: every month's net postings are multiplied by
+ * (endeks at the adjustment date / endeks of the posting month), balances
+ * carried from the previous adjustment by the ratio of the two adjustment
+ * indices. Differences are posted against 698 Enflasyon Düzeltme Hesabı;
+ * ödenmiş sermaye differences go to 502 / 503 instead.
+ */
+
+const INFLATION_ADJUSTMENT_ACCOUNT = "698";
+const CAPITAL_ADJUSTMENT_POSITIVE = "502";
+const CAPITAL_ADJUSTMENT_NEGATIVE = "503";
+const COEFFICIENT_DECIMALS = 6;
+const AMOUNT_TOLERANCE = 0.005;
+
+export type InflationIndexType = "yi_ufe" | "tufe";
+
+export interface InflationIndexEntry {
+  period: string;
+  indexType: InflationIndexType;
+  value: number;
+  source: string;
+}
+
+export interface ParsedIndexRow {
+  period: string;
+  value: number;
+}
+
+export interface ImportIndicesResult {
+  imported: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+export interface InflationLayer {
+  period: string; // month of the postings, or the previous adjustment period for the carried balance
+  amount: number;
+  index: number;
+  coefficient: number;
+  adjustedAmount: number;
+}
+
+export interface InflationAccountAdjustment {
+  ledgerAccountId: string;
+  code: string;
+  name: string;
+  targetAccountCode: string; // account the difference is posted to
+  historicalBalance: number;
+  adjustedBalance: number;
+  adjustment: number; // + borç, - alacak
+  layers: InflationLayer[];
+}
+
+export interface InflationAdjustmentPreview {
+  clientCompanyId: string;
+  period: string;
+  indexType: InflationIndexType;
+  baseIndex: number;
+  previousAdjustmentPeriod: string | null;
+  accounts: InflationAccountAdjustment[];
+  totalAdjustment: number; // net 698 bakiyesi, + alacak / - borç
+}
+
+export interface InflationAdjustmentResult {
+  id: string;
+  clientCompanyId: string;
+  period: string;
+  indexType: InflationIndexType;
+  baseIndex: number;
+  totalAdjustment: number;
+  transactionId: string | null;
+  runCount: number;
+  postedAt: Date;
+}
+
+export interface InflationWorkingPaperRow {
+  account_code: string;
+  account_name: string;
+  layer_period: string;
+  historical_amount: number;
+  index_value: number;
+  coefficient: number;
+  adjusted_amount: number;
+  difference: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function adjustmentCoefficient(baseIndex: number, index: number): number {
+  const factor = 10 ** COEFFICIENT_DECIMALS;
+  return Math.round((baseIndex / index) * factor) / factor;
+}
+
+/**
+ * Parse an endeks CSV as published by TÜİK or kept in a spreadsheet.
+ * Rows are "period;value" (2026-01, 2026/01, 01.2026 or 01/2026) or
+ * "year;month;value"; ";", "," and tab separators are accepted, and
+ * decimal commas are understood when the separator is not a comma.
+ * A non-numeric first line is treated as the header.
+ */
+export function parseIndexCsv(csv: string): { rows: ParsedIndexRow[]; errors: ImportIndicesResult["errors"] } {
+  const rows: ParsedIndexRow[] = [];
+  const errors: ImportIndicesResult["errors"] = [];
+  const lines = csv.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    const lineNumber = i + 1;
+    if (!line) {
+      return;
+    }
+
+    const separator = line.includes(";") ? ";" : line.includes("\t") ? "\t" : ",";
+    const fields = line.split(separator).map((field) => field.trim().replace(/^"|"$/g, ""));
+
+    if (lineNumber === 1 && !/\d/.test(fields[0])) {
+      return; // header
+    }
+
+    let period: string | null = null;
+    let rawValue: string | undefined;
+
+    if (fields.length >= 3 && /^\d{4}$/.test(fields[0]) && /^\d{1,2}$/.test(fields[1])) {
+      period = `${fields[0]}-${fields[1].padStart(2, "0")}`;
+      rawValue = fields[2];
+    } else {
+      const yearFirst = /^(\d{4})[-/.](\d{1,2})$/.exec(fields[0]);
+      const monthFirst = /^(\d{1,2})[-/.](\d{4})$/.exec(fields[0]);
+      if (yearFirst) {
+        period = `${yearFirst[1]}-${yearFirst[2].padStart(2, "0")}`;
+      } else if (monthFirst) {
+        period = `${monthFirst[2]}-${monthFirst[1].padStart(2, "0")}`;
+      }
+      rawValue = fields[1];
+    }
+
+    const month = period ? parseInt(period.slice(5), 10) : 0;
+    if (!period || month < 1 || month > 12) {
+      errors.push({ line: lineNumber, message: `Dönem okunamadı: "${fields[0]}"` });
+      return;
+    }
+
+    const normalized =
+      separator !== "," && rawValue?.includes(",") ? rawValue.replace(/\./g, "").replace(",", ".") : rawValue;
+    const value = normalized ? Number(normalized) : NaN;
+    if (!Number.isFinite(value) || value <= 0) {
+      errors.push({ line: lineNumber, message: `Geçersiz endeks değeri: "${rawValue ?? ""}"` });
+      return;
+    }
+
+    rows.push({ period, value });
+  });
+
+  return { rows, errors };
+}
+
+export class InflationAccountingService {
+  async listIndices(
+    tenantId: string,
+    indexType: InflationIndexType = "yi_ufe",
+    filters: { from?: string; to?: string } = {}
+  ): Promise<InflationIndexEntry[]> {
+    const indices = await prisma.inflationIndex.findMany({
+      where: {
+        tenantId,
+        indexType,
+        ...((filters.from || filters.to) && {
+          period: { ...(filters.from && { gte: filters.from }), ...(filters.to && { lte: filters.to }) },
+        }),
+      },
+      orderBy: { period: "asc" },
+    });
+
+    return indices.map((index) => ({
+      period: index.period,
+      indexType: index.indexType as InflationIndexType,
+      value: Number(index.value),
+      source: index.source,
+    }));
+  }
+
+  /**
+   * Import index values from CSV, overwriting months that already exist
+   */
+  async importIndices(
+    tenantId: string,
+    csv: string,
+    indexType: InflationIndexType = "yi_ufe",
+    source = "TÜİK"
+  ): Promise<ImportIndicesResult> {
+    const { rows, errors } = parseIndexCsv(csv);
+
+    if (rows.length === 0) {
+      throw new ValidationError("Dosyada içe aktarılabilecek endeks satırı bulunamadı.");
+    }
+
+    await prisma.$transaction(
+      rows.map((row) =>
+        prisma.inflationIndex.upsert({
+          where: { tenantId_indexType_period: { tenantId, indexType, period: row.period } },
+          create: { tenantId, indexType, period: row.period, value: row.value, source },
+          update: { value: row.value, source },
+        })
+      )
+    );
+
+    logger.info("Inflation indices imported", undefined, { tenantId, indexType, imported: rows.length });
+
+    return { imported: rows.length, errors };
+  }
+
+  async listAdjustments(tenantId: string, clientCompanyId: string): Promise<InflationAdjustmentResult[]> {
+    const adjustments = await prisma.inflationAdjustment.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { period: "desc" },
+    });
+
+    return adjustments.map((adjustment) => this.mapAdjustment(adjustment));
+  }
+
+  /**
+   * Compute the adjustment as of the end of the period without posting it
+   */
+  async preview(
+    tenantId: string,
+    clientCompanyId: string,
+    period: string,
+    indexType: InflationIndexType = "yi_ufe"
+  ): Promise<InflationAdjustmentPreview> {
+    const { periodEnd } = getPeriodBounds(period);
+
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const later = await prisma.inflationAdjustment.findFirst({
+      where: { tenantId, clientCompanyId, period: { gt: period } },
+    });
+
+    if (later) {
+      throw new ValidationError(
+        `${later.period} dönemine ait enflasyon düzeltmesi bulunduğundan önceki dönemler yeniden düzeltilemez.`
+      );
+    }
+
+    const [indices, previous, current] = await Promise.all([
+      prisma.inflationIndex.findMany({ where: { tenantId, indexType, period: { lte: period } } }),
+      prisma.inflationAdjustment.findFirst({
+        where: { tenantId, clientCompanyId, period: { lt: period } },
+        orderBy: { period: "desc" },
+      }),
+      prisma.inflationAdjustment.findUnique({
+        where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+      }),
+    ]);
+
+    const indexByPeriod = new Map(indices.map((index) => [index.period, Number(index.value)]));
+    const baseIndex = indexByPeriod.get(period);
+    if (!baseIndex) {
+      throw new ValidationError(`${period} dönemi için endeks bulunamadı, önce endeks tablosunu içe aktarın.`);
+    }
+
+    // A re-run replaces the previous posting of the same period
+    const excludeTransactionIds = current?.transactionId ? [current.transactionId] : [];
+
+    const balances: Array<{ period: string; index: number | undefined; trialBalance: TrialBalanceResult }> = [];
+    let firstMonth: string | null;
+
+    if (previous) {
+      const { periodEnd: previousEnd } = getPeriodBounds(previous.period);
+      balances.push({
+        period: previous.period,
+        index: Number(previous.baseIndex),
+        trialBalance: await transactionService.getTrialBalance(tenantId, clientCompanyId, new Date(0), previousEnd, {
+          excludeTransactionIds,
+        }),
+      });
+      firstMonth = nextMonth(previous.period);
+    } else {
+      const first = await prisma.transaction.findFirst({
+        where: { tenantId, clientCompanyId, date: { lte: periodEnd } },
+        orderBy: { date: "asc" },
+        select: { date: true },
+      });
+      firstMonth = first ? monthKey(first.date) : null;
+    }
+
+    for (let month = firstMonth; month && month <= period; month = nextMonth(month)) {
+      const bounds = getPeriodBounds(month);
+      balances.push({
+        period: month,
+        index: indexByPeriod.get(month),
+        trialBalance: await transactionService.getTrialBalance(
+          tenantId,
+          clientCompanyId,
+          bounds.periodStart,
+          bounds.periodEnd,
+          { excludeTransactionIds }
+        ),
+      });
+    }
+
+    const classify = await this.accountClassifier(tenantId, clientCompanyId);
+    const accounts = new Map<string, InflationAccountAdjustment>();
+    const missingIndices: string[] = [];
+
+    for (const { period: layerPeriod, index, trialBalance } of balances) {
+      for (const [ledgerAccountId, own] of ownBalances(trialBalance)) {
+        if (Math.abs(own.amount) < AMOUNT_TOLERANCE || classify(ledgerAccountId) !== "non_monetary") {
+          continue;
+        }
+
+        if (!index) {
+          missingIndices.push(layerPeriod);
+          continue;
+        }
+
+        const coefficient = adjustmentCoefficient(baseIndex, index);
+        let account = accounts.get(ledgerAccountId);
+        if (!account) {
+          account = {
+            ledgerAccountId,
+            code: own.code,
+            name: own.name,
+            targetAccountCode: own.code,
+            historicalBalance: 0,
+            adjustedBalance: 0,
+            adjustment: 0,
+            layers: [],
+          };
+          accounts.set(ledgerAccountId, account);
+        }
+
+        const amount = round2(own.amount);
+        const adjustedAmount = round2(amount * coefficient);
+        account.layers.push({ period: layerPeriod, amount, index, coefficient, adjustedAmount });
+        account.historicalBalance = round2(account.historicalBalance + amount);
+        account.adjustedBalance = round2(account.adjustedBalance + adjustedAmount);
+      }
+    }
+
+    if (missingIndices.length > 0) {
+      throw new ValidationError(
+        `Şu dönemler için endeks bulunamadı: ${Array.from(new Set(missingIndices)).join(", ")}.`
+      );
+    }
+
+    const adjusted = Array.from(accounts.values())
+      .map((account) => {
+        const adjustment = round2(account.adjustedBalance - account.historicalBalance);
+        return { ...account, adjustment, targetAccountCode: this.targetAccountCode(account.code, adjustment) };
+      })
+      .sort((a, b) => a.code.localeCompare(b.code));
+
+    return {
+      clientCompanyId,
+      period,
+      indexType,
+      baseIndex,
+      previousAdjustmentPeriod: previous?.period ?? null,
+      accounts: adjusted,
+      totalAdjustment: round2(adjusted.reduce((sum, account) => sum + account.adjustment, 0)),
+    };
+  }
+
+  /**
+   * Post the adjustment, replacing an earlier run of the same period
+   */
+  async post(
+    tenantId: string,
+    userId: string,
+    clientCompanyId: string,
+    period: string,
+    indexType: InflationIndexType = "yi_ufe"
+  ): Promise<InflationAdjustmentResult> {
+    const preview = await this.preview(tenantId, clientCompanyId, period, indexType);
+    const { periodEnd } = getPeriodBounds(period);
+
+    // Enflasyon düzeltmesi is a period-end adjustment, so a soft-closed month accepts it
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, periodEnd, {
+      allowSoftClosed: true,
+    });
+
+    const postable = preview.accounts.filter((account) => Math.abs(account.adjustment) >= 0.01);
+    const accountIds = await ledgerAccountService.resolveAccountIds(tenantId, clientCompanyId, [
+      INFLATION_ADJUSTMENT_ACCOUNT,
+      ...postable.filter((a) => a.targetAccountCode !== a.code).map((a) => a.targetAccountCode),
+    ]);
+
+    const lines = postable.map((account) => ({
+      tenantId,
+      ledgerAccountId:
+        account.targetAccountCode === account.code
+          ? account.ledgerAccountId
+          : accountIds.get(account.targetAccountCode)!,
+      debitAmount: account.adjustment > 0 ? account.adjustment : 0,
+      creditAmount: account.adjustment < 0 ? -account.adjustment : 0,
+      description: `${account.code} ${account.name} enflasyon düzeltmesi`,
+    }));
+
+    if (lines.length > 0 && Math.abs(preview.totalAdjustment) >= 0.01) {
+      lines.push({
+        tenantId,
+        ledgerAccountId: accountIds.get(INFLATION_ADJUSTMENT_ACCOUNT)!,
+        debitAmount: preview.totalAdjustment < 0 ? -preview.totalAdjustment : 0,
+        creditAmount: preview.totalAdjustment > 0 ? preview.totalAdjustment : 0,
+        description: `${period} enflasyon düzeltme farkları`,
+      });
+    }
+
+    const existing = await prisma.inflationAdjustment.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    const adjustment = await prisma.$transaction(async (tx) => {
+      if (existing?.transactionId) {
+        await tx.transaction.deleteMany({ where: { id: existing.transactionId, tenantId } });
+      }
+
+      const transaction =
+        lines.length > 0
+          ? await tx.transaction.create({
+              data: {
+                tenantId,
+                clientCompanyId,
+                date: periodEnd,
+                referenceNo: `ENF-${period}`,
+                description: `${period} dönemi enflasyon düzeltmesi (VUK mük. 298)`,
+                source: "inflation_adjustment",
+                lines: { create: lines },
+              },
+            })
+          : null;
+
+      const data = {
+        indexType,
+        baseIndex: preview.baseIndex,
+        totalAdjustment: preview.totalAdjustment,
+        transactionId: transaction?.id ?? null,
+        workingPapers: preview.accounts as any,
+        postedAt: new Date(),
+        postedByUserId: userId,
+      };
+
+      return existing
+        ? tx.inflationAdjustment.update({
+            where: { id: existing.id },
+            data: { ...data, runCount: { increment: 1 } },
+          })
+        : tx.inflationAdjustment.create({
+            data: { tenantId, clientCompanyId, period, ...data },
+          });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "INFLATION_ADJUSTMENT_POSTED",
+      resourceType: "InflationAdjustment",
+      resourceId: adjustment.id,
+      metadata: {
+        clientCompanyId,
+        period,
+        runCount: adjustment.runCount,
+        accountCount: postable.length,
+        totalAdjustment: preview.totalAdjustment,
+      },
+    });
+
+    logger.info("Inflation adjustment posted", undefined, { tenantId, clientCompanyId, period, runCount: adjustment.runCount });
+
+    return this.mapAdjustment(adjustment);
+  }
+
+  /**
+   * Düzeltme çalışma kağıtları, one row per account and month layer, in the
+   * report shape consumed by ExportService. Uses the posted run when there
+   * is one, otherwise a fresh preview.
+   */
+  async getWorkingPapersReport(
+    tenantId: string,
+    clientCompanyId: string,
+    period: string,
+    indexType: InflationIndexType = "yi_ufe"
+  ): Promise<BaseReportResult<InflationWorkingPaperRow>> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const posted = await prisma.inflationAdjustment.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    const accounts = posted
+      ? (posted.workingPapers as unknown as InflationAccountAdjustment[])
+      : (await this.preview(tenantId, clientCompanyId, period, indexType)).accounts;
+
+    const rows: InflationWorkingPaperRow[] = accounts.flatMap((account) =>
+      account.layers.map((layer) => ({
+        account_code: account.code,
+        account_name: account.name,
+        layer_period: layer.period,
+        historical_amount: layer.amount,
+        index_value: layer.index,
+        coefficient: layer.coefficient,
+        adjusted_amount: layer.adjustedAmount,
+        difference: round2(layer.adjustedAmount - layer.amount),
+      }))
+    );
+
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+
+    return {
+      title: `Enflasyon Düzeltmesi Çalışma Kağıtları ${period}${posted ? "" : " (Taslak)"} - ${client.name}`,
+      period: { start_date: periodStart.toISOString(), end_date: periodEnd.toISOString() },
+      generated_at: new Date().toISOString(),
+      rows,
+      totals: {
+        historical_amount: round2(rows.reduce((sum, row) => sum + row.historical_amount, 0)),
+        adjusted_amount: round2(rows.reduce((sum, row) => sum + row.adjusted_amount, 0)),
+        difference: round2(rows.reduce((sum, row) => sum + row.difference, 0)),
+      },
+      meta: { row_count: rows.length, row_limit_applied: false },
+    };
+  }
+
+  /**
+   * Explicit classifications are inherited by sub-accounts; accounts without
+   * one along their chain fall back to the Tek Düzen default of their code.
+   */
+  private async accountClassifier(
+    tenantId: string,
+    clientCompanyId: string
+  ): Promise<(ledgerAccountId: string) => LedgerAccountInflationClass | null> {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { tenantId, OR: [{ clientCompanyId }, { clientCompanyId: null }] },
+      select: { id: true, parentId: true, code: true, inflationClass: true },
+    });
+    const byId = new Map(accounts.map((account) => [account.id, account]));
+
+    return (ledgerAccountId) => {
+      const visited = new Set<string>();
+      for (let id: string | null = ledgerAccountId; id && !visited.has(id); ) {
+        visited.add(id);
+        const account = byId.get(id);
+        if (!account) {
+          break;
+        }
+        if (account.inflationClass) {
+          return account.inflationClass as LedgerAccountInflationClass;
+        }
+        id = account.parentId;
+      }
+
+      const account = byId.get(ledgerAccountId);
+      return account ? defaultInflationClass(account.code) : null;
+    };
+  }
+
+  private targetAccountCode(code: string, adjustment: number): string {
+    const { mainAccountCode } = parseAccountCode(code);
+    if (mainAccountCode === "500" || mainAccountCode === "501") {
+      return adjustment < 0 ? CAPITAL_ADJUSTMENT_POSITIVE : CAPITAL_ADJUSTMENT_NEGATIVE;
+    }
+    return code;
+  }
+
+  private mapAdjustment(adjustment: any): InflationAdjustmentResult {
+    return {
+      id: adjustment.id,
+      clientCompanyId: adjustment.clientCompanyId,
+      period: adjustment.period,
+      indexType: adjustment.indexType as InflationIndexType,
+      baseIndex: Number(adjustment.baseIndex),
+      totalAdjustment: Number(adjustment.totalAdjustment),
+      transactionId: adjustment.transactionId ?? null,
+      runCount: adjustment.runCount,
+      postedAt: adjustment.postedAt,
+    };
+  }
+}
+
+/**
+ * Balances posted to each account itself, without the rolled-up postings
+ * of its sub-accounts
+ */
+function ownBalances(trialBalance: TrialBalanceResult): Map<string, { code: string; name: string; amount: number }> {
+  const own = new Map<string, { code: string; name: string; amount: number }>();
+
+  for (const entry of trialBalance.entries) {
+    own.set(entry.ledgerAccountId, {
+      code: entry.ledgerAccountCode,
+      name: entry.ledgerAccountName,
+      amount: entry.balance,
+    });
+  }
+
+  for (const entry of trialBalance.entries) {
+    const parent = entry.parentLedgerAccountId ? own.get(entry.parentLedgerAccountId) : undefined;
+    if (parent) {
+      parent.amount -= entry.balance;
+    }
+  }
+
+  return own;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function nextMonth(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return monthKey(new Date(year, month, 1));
+}
+
+export const inflationAccountingService = new InflationAccountingService();
@@ -1,3 +1,4 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma";
 import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
 import type {
@@ -10,6 +11,10 @@ import type {
 import type { PaginatedResult } from "./client-company-service";
 import { riskAlertService } from "./risk-alert-service";
 import { counterpartyAnalysisService } from "./counterparty-analysis-service";
+import { counterpartyService } from "./counterparty-service";
+import { stockService } from "./stock-service";
+import { dimensionService, type LineDimension } from "./dimension-service";
+import { accountingPeriodService } from "./accounting-period-service";
 
 export interface ListInvoicesFilters {
   clientCompanyId?: string;
@@ -94,6 +99,8 @@ export class InvoiceService {
         counterpartyTaxNumber: item.counterpartyTaxNumber,
         status: item.status as any,
         source: item.source as any,
+        paidAmount: Number(item.paidAmount),
+        paidAt: item.paidAt,
         metadata: item.metadata || {},
         createdAt: item.createdAt,
         updatedAt: item.updatedAt,
@@ -111,6 +118,7 @@ export class InvoiceService {
       include: {
         lines: {
           orderBy: { lineNumber: "asc" },
+          include: { dimensions: { select: { dimensionValueId: true } } },
         },
       },
     });
@@ -135,6 +143,8 @@ export class InvoiceService {
       counterpartyTaxNumber: invoice.counterpartyTaxNumber,
       status: invoice.status as any,
       source: invoice.source as any,
+      paidAmount: Number(invoice.paidAmount),
+      paidAt: invoice.paidAt,
       createdAt: invoice.createdAt,
       updatedAt: invoice.updatedAt,
       lines: invoice.lines.map((line) => ({
@@ -148,6 +158,10 @@ export class InvoiceService {
         lineTotal: Number(line.lineTotal),
         vatRate: Number(line.vatRate),
         vatAmount: Number(line.vatAmount),
+        withholdingCode: line.withholdingCode,
+        withholdingRate: line.withholdingRate !== null ? Number(line.withholdingRate) : null,
+        exemptionCode: line.exemptionCode,
+        dimensionValueIds: (line.dimensions ?? []).map((entry) => entry.dimensionValueId),
         createdAt: line.createdAt,
         updatedAt: line.updatedAt,
       })),
@@ -155,6 +169,17 @@ export class InvoiceService {
   }
 
   async createInvoice(tenantId: string, input: CreateInvoiceInput): Promise<Invoice> {
+    const lineDimensions = await this.prepareInvoiceCreate(tenantId, input);
+    const invoice = await this.insertInvoice(prisma, tenantId, input, lineDimensions);
+    return this.afterInvoiceCreated(tenantId, invoice);
+  }
+
+  /**
+   * Checks a new invoice and resolves its line dimensions. Together with
+   * insertInvoice and afterInvoiceCreated this lets a caller insert the
+   * invoice inside its own transaction.
+   */
+  async prepareInvoiceCreate(tenantId: string, input: CreateInvoiceInput): Promise<LineDimension[][]> {
     // Check usage limit before creating
     const { usageService } = await import("./usage-service");
     const limitCheck = await usageService.checkLimit(tenantId, "DOCUMENTS" as any);
@@ -173,6 +198,9 @@ export class InvoiceService {
       throw new NotFoundError("Müşteri şirketi bulunamadı.");
     }
 
+    // Closed and locked periods no longer accept invoices
+    await accountingPeriodService.assertDateWritable(tenantId, input.clientCompanyId, input.issueDate);
+
     // Validate line totals match header total (with tolerance)
     const lineTotalSum = input.lines.reduce((sum, line) => sum + line.lineTotal, 0);
     const tolerance = 0.01; // Allow small rounding differences
@@ -182,7 +210,16 @@ export class InvoiceService {
       );
     }
 
-    const invoice = await prisma.invoice.create({
+    return this.resolveLineDimensions(tenantId, input.lines);
+  }
+
+  async insertInvoice(
+    client: Prisma.TransactionClient | typeof prisma,
+    tenantId: string,
+    input: CreateInvoiceInput,
+    lineDimensions: LineDimension[][]
+  ) {
+    return client.invoice.create({
       data: {
         tenantId,
         clientCompanyId: input.clientCompanyId,
@@ -199,7 +236,7 @@ export class InvoiceService {
         status: input.status || "taslak",
         source: input.source || "manual",
         lines: {
-          create: input.lines.map((line) => ({
+          create: input.lines.map((line, index) => ({
             tenantId,
             lineNumber: line.lineNumber,
             description: sanitizeString(line.description),
@@ -208,12 +245,25 @@ export class InvoiceService {
             lineTotal: line.lineTotal,
             vatRate: line.vatRate,
             vatAmount: line.vatAmount,
+            withholdingCode: line.withholdingCode ?? null,
+            withholdingRate: line.withholdingRate ?? null,
+            exemptionCode: line.exemptionCode ?? null,
+            ...this.dimensionsCreate(tenantId, lineDimensions[index]),
           })),
         },
       },
     });
+  }
 
+  /**
+   * Usage accounting and the checks that run once an invoice is committed
+   */
+  async afterInvoiceCreated(
+    tenantId: string,
+    invoice: Awaited<ReturnType<InvoiceService["insertInvoice"]>>
+  ): Promise<Invoice> {
     // Increment usage after successful creation
+    const { usageService } = await import("./usage-service");
     await usageService.incrementUsage(tenantId, "DOCUMENTS" as any, 1);
 
     // Check for invoice-level duplicates after creation
@@ -238,6 +288,26 @@ export class InvoiceService {
       }
     }
 
+    // Link to the cari kart before the analysis, which reads the card's history
+    try {
+      await counterpartyService.linkInvoice(tenantId, invoice.id);
+    } catch (error) {
+      logger.error("[InvoiceService] Error linking counterparty:", { error });
+    }
+
+    // Lines without a masraf merkezi / proje take the cari kart's defaults
+    try {
+      await dimensionService.applyInvoiceDefaults(tenantId, invoice.id);
+    } catch (error) {
+      logger.error("[InvoiceService] Error applying dimension defaults:", { error });
+    }
+
+    try {
+      await stockService.syncInvoiceMovements(tenantId, invoice.id);
+    } catch (error) {
+      logger.error("[InvoiceService] Error syncing stock movements:", { error });
+    }
+
     // Check for unusual counterparty
     if (invoice.counterpartyName) {
       try {
@@ -272,6 +342,8 @@ export class InvoiceService {
       counterpartyTaxNumber: invoice.counterpartyTaxNumber,
       status: invoice.status as any,
       source: invoice.source as any,
+      paidAmount: Number(invoice.paidAmount),
+      paidAt: invoice.paidAt,
       createdAt: invoice.createdAt,
       updatedAt: invoice.updatedAt,
     };
@@ -295,6 +367,11 @@ export class InvoiceService {
       throw new ValidationError("Bu fatura durumu nedeniyle düzenlenemez.");
     }
 
+    await accountingPeriodService.assertDateWritable(tenantId, existing.clientCompanyId, existing.issueDate);
+    if (input.issueDate) {
+      await accountingPeriodService.assertDateWritable(tenantId, existing.clientCompanyId, input.issueDate);
+    }
+
     // If updating lines, validate totals
     if (input.lines && input.totalAmount !== undefined) {
       const lineTotalSum = input.lines.reduce((sum, line) => sum + line.lineTotal, 0);
@@ -306,6 +383,8 @@ export class InvoiceService {
       }
     }
 
+    const lineDimensions = input.lines ? await this.resolveLineDimensions(tenantId, input.lines) : [];
+
     // Update invoice and lines in transaction
     const invoice = await prisma.$transaction(async (tx) => {
       // Delete existing lines if new lines provided
@@ -332,7 +411,7 @@ export class InvoiceService {
           status: input.status,
           ...(input.lines && {
             lines: {
-              create: input.lines.map((line) => ({
+              create: input.lines.map((line, index) => ({
                 tenantId,
                 lineNumber: line.lineNumber,
                 description: sanitizeString(line.description),
@@ -341,6 +420,10 @@ export class InvoiceService {
                 lineTotal: line.lineTotal,
                 vatRate: line.vatRate,
                 vatAmount: line.vatAmount,
+                withholdingCode: line.withholdingCode ?? null,
+                withholdingRate: line.withholdingRate ?? null,
+                exemptionCode: line.exemptionCode ?? null,
+                ...this.dimensionsCreate(tenantId, lineDimensions[index]),
               })),
             },
           }),
@@ -350,6 +433,29 @@ export class InvoiceService {
       return updated;
     });
 
+    if (input.counterpartyName !== undefined || input.counterpartyTaxNumber !== undefined) {
+      try {
+        await counterpartyService.linkInvoice(tenantId, invoice.id);
+      } catch (error) {
+        logger.error("[InvoiceService] Error linking counterparty:", { error });
+      }
+    }
+
+    if (input.lines || input.counterpartyName !== undefined || input.counterpartyTaxNumber !== undefined) {
+      try {
+        await dimensionService.applyInvoiceDefaults(tenantId, invoice.id);
+      } catch (error) {
+        logger.error("[InvoiceService] Error applying dimension defaults:", { error });
+      }
+    }
+
+    // Lines were rebuilt, and with them the stock movements
+    try {
+      await stockService.syncInvoiceMovements(tenantId, invoice.id);
+    } catch (error) {
+      logger.error("[InvoiceService] Error syncing stock movements:", { error });
+    }
+
     // Check for invoice-level duplicates after update
     if (invoice.externalId) {
       try {
@@ -388,6 +494,8 @@ export class InvoiceService {
       counterpartyTaxNumber: invoice.counterpartyTaxNumber,
       status: invoice.status as any,
       source: invoice.source as any,
+      paidAmount: Number(invoice.paidAmount),
+      paidAt: invoice.paidAt,
       createdAt: invoice.createdAt,
       updatedAt: invoice.updatedAt,
     };
@@ -406,11 +514,20 @@ export class InvoiceService {
       throw new NotFoundError("Fatura bulunamadı.");
     }
 
+    await accountingPeriodService.assertDateWritable(tenantId, invoice.clientCompanyId, invoice.issueDate);
+
     const updated = await prisma.invoice.update({
       where: { id },
       data: { status },
     });
 
+    // Stock moves with kesildi and leaves with iptal
+    try {
+      await stockService.syncInvoiceMovements(tenantId, id);
+    } catch (error) {
+      logger.error("[InvoiceService] Error syncing stock movements:", { error });
+    }
+
     return {
       id: updated.id,
       tenantId: updated.tenantId,
@@ -427,6 +544,8 @@ export class InvoiceService {
       counterpartyTaxNumber: updated.counterpartyTaxNumber,
       status: updated.status as any,
       source: updated.source as any,
+      paidAmount: Number(updated.paidAmount),
+      paidAt: updated.paidAt,
       createdAt: updated.createdAt,
       updatedAt: updated.updatedAt,
     };
@@ -446,6 +565,8 @@ export class InvoiceService {
       throw new ValidationError("Bu fatura durumu nedeniyle silinemez.");
     }
 
+    await accountingPeriodService.assertDateWritable(tenantId, invoice.clientCompanyId, invoice.issueDate);
+
     await prisma.invoice.delete({
       where: { id },
     });
@@ -618,6 +739,25 @@ export class InvoiceService {
 
     return matrix[str2.length][str1.length];
   }
+
+  /**
+   * Check the analitik boyut values given on each line
+   */
+  private async resolveLineDimensions(
+    tenantId: string,
+    lines: Array<{ dimensionValueIds?: string[] }>
+  ): Promise<LineDimension[][]> {
+    const resolved: LineDimension[][] = [];
+    for (const line of lines) {
+      resolved.push(await dimensionService.resolveValues(tenantId, line.dimensionValueIds ?? []));
+    }
+    return resolved;
+  }
+
+  private dimensionsCreate(tenantId: string, dimensions: LineDimension[] | undefined) {
+    if (!dimensions || dimensions.length === 0) return {};
+    return { dimensions: { create: dimensions.map((entry) => ({ tenantId, ...entry })) } };
+  }
 }
 
 export const invoiceService = new InvoiceService();
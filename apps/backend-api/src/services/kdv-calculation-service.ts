@@ -0,0 +1,411 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError } from "@repo/shared-utils";
+import { exchangeRateService } from "./exchange-rate-service";
+
+/**
+ * KDV-1 / KDV-2 hesaplama motoru
+ *
+ * Works line by line from InvoiceLine.vatRate and the line's tevkifat and
+ * istisna codes rather than from invoice totals, so mixed %1/%10/%20 rates,
+ * kısmi/tam tevkifat and ihracat land in their own KDV-1 sections. Amounts
+ * are converted to TRY at the invoice's own rate (UBL CalculationRate) or
+ * the TCMB döviz alış kuru of the issue date.
+ *
+ * Invoice-level assumptions:
+ * - SATIŞ lines are hesaplanan KDV, ALIŞ lines indirilecek KDV
+ * - For purchases under tevkifat only the part paid to the supplier is
+ *   deducted now; the withheld part is declared on KDV-2 and deducted in the
+ *   period it is paid
+ * - Yüklenilen KDV of istisna sales is allocated from the period's
+ *   indirilecek KDV in proportion to their share of sales, capped at the
+ *   general rate
+ */
+
+const GENERAL_VAT_RATE = 0.2;
+const FULL_WITHHOLDING = 1;
+
+export type KdvExemptionCategory = "partial" | "full" | "export_registered" | "other";
+
+export interface KdvRateRow {
+  vatRate: number;
+  base: number;
+  vat: number;
+}
+
+export interface KdvWithholdingRow {
+  code: string | null;
+  vatRate: number;
+  withholdingRate: number;
+  base: number;
+  vat: number;
+  withheldVat: number;
+  declaredVat: number;
+}
+
+export interface KdvExemptionRow {
+  code: string;
+  category: KdvExemptionCategory;
+  base: number;
+  loadedVat: number;
+}
+
+export interface KdvCarryIn {
+  previousCarryForward: number; // önceki dönemden devreden indirilecek KDV
+  previousRefundClaim: number; // önceki dönemde iadesi talep edilen KDV
+  responsibleVatPaid: number; // sorumlu sıfatıyla beyan edilerek ödenen KDV (önceki dönem KDV-2)
+}
+
+export interface Kdv1Calculation {
+  form: "KDV1";
+  sales: {
+    byRate: KdvRateRow[];
+    partialWithholding: KdvWithholdingRow[];
+    fullWithholding: KdvWithholdingRow[];
+    totalBase: number;
+    calculatedVat: number;
+  };
+  deductions: {
+    previousCarryForward: number;
+    previousRefundClaim: number;
+    purchasesByRate: KdvRateRow[];
+    purchaseVat: number;
+    responsibleVatPaid: number;
+    totalDeductions: number;
+  };
+  exemptions: KdvExemptionRow[];
+  result: {
+    payable: number;
+    carryForward: number;
+    refundableVat: number;
+    refundClaim: number;
+  };
+  salesInvoiceCount: number;
+  purchaseInvoiceCount: number;
+  warnings: string[];
+}
+
+export interface Kdv2Calculation {
+  form: "KDV2";
+  withholdings: KdvWithholdingRow[];
+  totalBase: number;
+  totalWithheldVat: number;
+  purchaseInvoiceCount: number;
+  warnings: string[];
+}
+
+interface KdvLine {
+  invoiceId: string;
+  invoiceType: string;
+  base: number;
+  vatRate: number;
+  vat: number;
+  withholdingCode: string | null;
+  withholdingRate: number | null;
+  exemptionCode: string | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * KDV-1 istisna section of an exemption code
+ */
+export function exemptionCategory(code: string): KdvExemptionCategory {
+  const value = Number(code);
+  if (value >= 201 && value <= 299) {
+    return "partial";
+  }
+  if (value >= 301 && value <= 350) {
+    return "full";
+  }
+  if (value >= 701 && value <= 799) {
+    return "export_registered";
+  }
+  return "other";
+}
+
+function addRateRow(rows: Map<number, KdvRateRow>, line: KdvLine, vat: number): void {
+  const key = Math.round(line.vatRate * 10000);
+  const row = rows.get(key) ?? { vatRate: line.vatRate, base: 0, vat: 0 };
+  row.base += line.base;
+  row.vat += vat;
+  rows.set(key, row);
+}
+
+function addWithholdingRow(rows: Map<string, KdvWithholdingRow>, line: KdvLine): void {
+  const withholdingRate = line.withholdingRate ?? 0;
+  const key = `${line.withholdingCode ?? ""}|${line.vatRate}|${withholdingRate}`;
+  const row = rows.get(key) ?? {
+    code: line.withholdingCode,
+    vatRate: line.vatRate,
+    withholdingRate,
+    base: 0,
+    vat: 0,
+    withheldVat: 0,
+    declaredVat: 0,
+  };
+  const withheld = line.vat * withholdingRate;
+  row.base += line.base;
+  row.vat += line.vat;
+  row.withheldVat += withheld;
+  row.declaredVat += line.vat - withheld;
+  rows.set(key, row);
+}
+
+function roundRateRows(rows: Map<number, KdvRateRow>): KdvRateRow[] {
+  return [...rows.values()]
+    .map((row) => ({ vatRate: row.vatRate, base: round2(row.base), vat: round2(row.vat) }))
+    .sort((a, b) => a.vatRate - b.vatRate);
+}
+
+function roundWithholdingRows(rows: Map<string, KdvWithholdingRow>): KdvWithholdingRow[] {
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      base: round2(row.base),
+      vat: round2(row.vat),
+      withheldVat: round2(row.withheldVat),
+      declaredVat: round2(row.declaredVat),
+    }))
+    .sort((a, b) => (a.code ?? "").localeCompare(b.code ?? "") || a.vatRate - b.vatRate);
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return round2(items.reduce((total, item) => total + value(item), 0));
+}
+
+export class KdvCalculationService {
+  /**
+   * KDV-1: hesaplanan KDV by section, indirimler, istisnalar and the
+   * ödenecek / devreden / iade result for the period
+   */
+  async calculateKdv1(
+    tenantId: string,
+    clientCompanyId: string,
+    startDate: Date,
+    endDate: Date,
+    carryIn: KdvCarryIn
+  ): Promise<Kdv1Calculation> {
+    const { lines, warnings } = await this.loadLines(tenantId, clientCompanyId, startDate, endDate);
+    const sales = lines.filter((line) => line.invoiceType === "SATIŞ");
+    const purchases = lines.filter((line) => line.invoiceType === "ALIŞ");
+
+    // Hesaplanan KDV
+    const salesByRate = new Map<number, KdvRateRow>();
+    const partialWithholding = new Map<string, KdvWithholdingRow>();
+    const fullWithholding = new Map<string, KdvWithholdingRow>();
+    const exemptSales: KdvLine[] = [];
+    for (const line of sales) {
+      if (line.exemptionCode && line.vat === 0) {
+        exemptSales.push(line);
+      } else if (line.withholdingCode && line.withholdingRate) {
+        addWithholdingRow(line.withholdingRate >= FULL_WITHHOLDING ? fullWithholding : partialWithholding, line);
+      } else {
+        addRateRow(salesByRate, line, line.vat);
+      }
+    }
+
+    const byRate = roundRateRows(salesByRate);
+    const partial = roundWithholdingRows(partialWithholding);
+    const full = roundWithholdingRows(fullWithholding);
+    const calculatedVat = round2(sum(byRate, (row) => row.vat) + sum(partial, (row) => row.declaredVat));
+
+    // İndirimler: the withheld part of a purchase is deducted once paid on KDV-2
+    const purchasesByRate = new Map<number, KdvRateRow>();
+    for (const line of purchases) {
+      if (line.vat > 0) {
+        addRateRow(purchasesByRate, line, line.vat * (1 - (line.withholdingRate ?? 0)));
+      }
+    }
+    const purchaseRows = roundRateRows(purchasesByRate);
+    const purchaseVat = sum(purchaseRows, (row) => row.vat);
+    const previousCarryForward = round2(Math.max(carryIn.previousCarryForward - carryIn.previousRefundClaim, 0));
+    const totalDeductions = round2(previousCarryForward + purchaseVat + carryIn.responsibleVatPaid);
+
+    // İstisnalar with their share of the period's yüklenilen KDV
+    const totalSalesBase = sum(sales, (line) => line.base);
+    const exemptionRows = new Map<string, KdvExemptionRow>();
+    for (const line of exemptSales) {
+      const code = line.exemptionCode!;
+      const row = exemptionRows.get(code) ?? { code, category: exemptionCategory(code), base: 0, loadedVat: 0 };
+      row.base += line.base;
+      exemptionRows.set(code, row);
+    }
+    const exemptions = [...exemptionRows.values()]
+      .map((row) => {
+        const refundable = row.category === "full" || row.category === "export_registered";
+        const allocated = refundable && totalSalesBase > 0 ? (purchaseVat * row.base) / totalSalesBase : 0;
+        return { ...row, base: round2(row.base), loadedVat: round2(Math.min(allocated, row.base * GENERAL_VAT_RATE)) };
+      })
+      .sort((a, b) => a.code.localeCompare(b.code));
+
+    // Sonuç: excess deductions carry forward; the iade hakkı part of it may be claimed
+    const refundableVat = round2(sum(exemptions, (row) => row.loadedVat) + sum(partial, (row) => row.withheldVat));
+    const difference = round2(calculatedVat - totalDeductions);
+    const carryForward = difference < 0 ? -difference : 0;
+
+    if (lines.some((line) => line.invoiceType === "SATIŞ" && line.exemptionCode && line.vat !== 0)) {
+      warnings.push("İstisna kodu taşıyan ancak KDV hesaplanmış satış satırları normal teslim olarak değerlendirildi.");
+    }
+
+    return {
+      form: "KDV1",
+      sales: {
+        byRate,
+        partialWithholding: partial,
+        fullWithholding: full,
+        totalBase: round2(sum(byRate, (row) => row.base) + sum(partial, (row) => row.base)),
+        calculatedVat,
+      },
+      deductions: {
+        previousCarryForward,
+        previousRefundClaim: carryIn.previousRefundClaim,
+        purchasesByRate: purchaseRows,
+        purchaseVat,
+        responsibleVatPaid: carryIn.responsibleVatPaid,
+        totalDeductions,
+      },
+      exemptions,
+      result: {
+        payable: difference > 0 ? difference : 0,
+        carryForward,
+        refundableVat,
+        refundClaim: round2(Math.min(refundableVat, carryForward)),
+      },
+      salesInvoiceCount: new Set(sales.map((line) => line.invoiceId)).size,
+      purchaseInvoiceCount: new Set(purchases.map((line) => line.invoiceId)).size,
+      warnings,
+    };
+  }
+
+  /**
+   * KDV-2: KDV withheld as alıcı (sorumlu sıfatıyla) on the period's
+   * purchases under tevkifat
+   */
+  async calculateKdv2(
+    tenantId: string,
+    clientCompanyId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Kdv2Calculation> {
+    const { lines, warnings } = await this.loadLines(tenantId, clientCompanyId, startDate, endDate);
+    const withheld = lines.filter(
+      (line) => line.invoiceType === "ALIŞ" && line.withholdingCode && line.withholdingRate && line.vat > 0
+    );
+
+    const rows = new Map<string, KdvWithholdingRow>();
+    for (const line of withheld) {
+      addWithholdingRow(rows, line);
+    }
+    const withholdings = roundWithholdingRows(rows);
+
+    return {
+      form: "KDV2",
+      withholdings,
+      totalBase: sum(withholdings, (row) => row.base),
+      totalWithheldVat: sum(withholdings, (row) => row.withheldVat),
+      purchaseInvoiceCount: new Set(withheld.map((line) => line.invoiceId)).size,
+      warnings,
+    };
+  }
+
+  /**
+   * Period invoices as TRY lines; invoices entered without lines count as a
+   * single line at the rate implied by their totals
+   */
+  private async loadLines(
+    tenantId: string,
+    clientCompanyId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<{ lines: KdvLine[]; warnings: string[] }> {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        issueDate: { gte: startDate, lte: endDate },
+        status: { not: "iptal" },
+      },
+      include: { lines: true },
+      orderBy: { issueDate: "asc" },
+    });
+
+    const lines: KdvLine[] = [];
+    const warnings: string[] = [];
+    for (const invoice of invoices) {
+      const label = invoice.externalId ?? invoice.id;
+      const rate = await this.tryRate(invoice);
+
+      if (invoice.lines.length === 0) {
+        const vat = Number(invoice.taxAmount);
+        const base = invoice.netAmount !== null ? Number(invoice.netAmount) : Number(invoice.totalAmount) - vat;
+        warnings.push(`${label} faturasında satır yok; KDV oranı fatura toplamlarından çıkarıldı.`);
+        lines.push({
+          invoiceId: invoice.id,
+          invoiceType: invoice.type,
+          base: round2(base * rate),
+          vatRate: base > 0 ? Math.round((vat / base) * 100) / 100 : 0,
+          vat: round2(vat * rate),
+          withholdingCode: null,
+          withholdingRate: null,
+          exemptionCode: null,
+        });
+        continue;
+      }
+
+      for (const line of invoice.lines) {
+        lines.push({
+          invoiceId: invoice.id,
+          invoiceType: invoice.type,
+          base: round2(Number(line.lineTotal) * rate),
+          vatRate: Number(line.vatRate),
+          vat: round2(Number(line.vatAmount) * rate),
+          withholdingCode: line.withholdingCode,
+          withholdingRate: line.withholdingRate !== null ? Number(line.withholdingRate) : null,
+          exemptionCode: line.exemptionCode,
+        });
+      }
+    }
+
+    return { lines, warnings };
+  }
+
+  /**
+   * TRY rate of a foreign currency invoice: the rate printed on the
+   * e-Fatura, otherwise the TCMB döviz alış kuru of the issue date
+   */
+  async tryRate(invoice: {
+    id: string;
+    externalId: string | null;
+    currency: string;
+    issueDate: Date;
+    metadata: unknown;
+  }): Promise<number> {
+    if (invoice.currency === "TRY") {
+      return 1;
+    }
+
+    const printed = (invoice.metadata as { ubl?: { exchangeRate?: number | null } } | null)?.ubl?.exchangeRate;
+    if (typeof printed === "number" && printed > 0) {
+      return printed;
+    }
+
+    try {
+      const rate = await exchangeRateService.getRate(invoice.currency, "TRY", invoice.issueDate);
+      if (rate.source !== "default") {
+        return Number(rate.buyRate);
+      }
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+
+    throw new ValidationError(
+      `${invoice.externalId ?? invoice.id} faturası için ${invoice.currency} TCMB kuru bulunamadı. Kurları güncelleyip tekrar hesaplayın.`
+    );
+  }
+}
+
+export const kdvCalculationService = new KdvCalculationService();
@@ -1,6 +1,7 @@
 import { prisma } from "../lib/prisma";
 import { logger } from "@repo/shared-utils";
 import { Decimal } from "@prisma/client/runtime/library";
+import { stockService } from "./stock-service";
 
 interface KurganAnalysisResult {
   clientCompanyId: string;
@@ -221,6 +222,29 @@ class KurganMonitorService {
       });
     }
 
+    // Check 5: Stock vs invoice - sales without purchases, unbilled irsaliyeler, sayım noksanı
+    try {
+      const consistency = await stockService.checkConsistency(tenantId, clientCompanyId);
+      const findings = consistency.findings.filter((f) => f.severity !== "low");
+
+      if (findings.length > 0) {
+        signals.push({
+          signalType: "stock_discrepancy",
+          severity: findings.some((f) => f.severity === "high") ? "high" : "medium",
+          title: "Stok-fatura tutarsızlığı",
+          description: findings.map((f) => f.title).slice(0, 5).join("; "),
+          dataSource: "e_fatura",
+          affectedPeriod: currentPeriod,
+          riskScore: Math.min(40 + findings.length * 10, 90),
+          financialImpact: findings.reduce((sum, f) => sum + f.amount, 0),
+          relatedInvoiceIds: [...new Set(findings.flatMap((f) => f.relatedInvoiceIds))],
+          recommendedAction: "Stok hareketlerini alış/satış faturaları, irsaliyeler ve sayım tutanaklarıyla karşılaştırın",
+        });
+      }
+    } catch (error: any) {
+      logger.error("KURGAN stock check failed", undefined, { tenantId, clientCompanyId, error: error?.message });
+    }
+
     return {
       clientCompanyId,
       signals,
@@ -1,5 +1,5 @@
 import { prisma } from "../lib/prisma";
-import { NotFoundError } from "@repo/shared-utils";
+import { NotFoundError, ValidationError } from "@repo/shared-utils";
 import { logger } from "@repo/shared-utils";
 
 /**
@@ -41,6 +41,14 @@ export interface KVKKBreachRecord {
   status: "detected" | "investigating" | "contained" | "resolved" | "reported";
 }
 
+export interface KVKKRetentionSettings {
+  aiConversationDays: number; // AI asistan konuşmaları son mesajdan bu kadar gün sonra silinir
+}
+
+export const DEFAULT_AI_CONVERSATION_RETENTION_DAYS = 365;
+const MIN_AI_CONVERSATION_RETENTION_DAYS = 30;
+const MAX_AI_CONVERSATION_RETENTION_DAYS = 3650;
+
 export class KVKKComplianceService {
   /**
    * Record data processing consent
@@ -199,6 +207,17 @@ export class KVKKComplianceService {
       throw new NotFoundError("Kullanıcı bulunamadı.");
     }
 
+    const assistantConversations = await prisma.assistantConversation.findMany({
+      where: { tenantId, userId },
+      include: {
+        messages: {
+          orderBy: { createdAt: "asc" },
+          select: { role: true, content: true, feedbackRating: true, feedbackComment: true, createdAt: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
     // Collect user data
     const userData = {
       personalInfo: {
@@ -214,6 +233,11 @@ export class KVKKComplianceService {
       metadata: user.metadata,
       createdAt: user.createdAt,
       lastLoginAt: user.lastLoginAt,
+      assistantConversations: assistantConversations.map((c) => ({
+        title: c.title,
+        createdAt: c.createdAt,
+        messages: c.messages,
+      })),
     };
 
     // Store request (would ideally be a separate table)
@@ -323,6 +347,11 @@ export class KVKKComplianceService {
       },
     });
 
+    // AI asistan konuşmaları serbest metin kişisel veri içerebilir; anonimleştirme yerine silinir
+    await prisma.assistantConversation.deleteMany({
+      where: { tenantId, userId },
+    });
+
     const request: KVKKDataRequest = {
       id: `request-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
       userId,
@@ -485,6 +514,74 @@ export class KVKKComplianceService {
     };
   }
 
+  /**
+   * Get tenant data retention settings
+   */
+  async getRetentionSettings(tenantId: string): Promise<KVKKRetentionSettings> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant) {
+      throw new NotFoundError("Kiracı bulunamadı.");
+    }
+
+    const tenantMetadata = (tenant.metadata as Record<string, unknown>) || {};
+    const retention = (tenantMetadata.kvkkRetention as Record<string, unknown>) || {};
+
+    return {
+      aiConversationDays:
+        typeof retention.aiConversationDays === "number"
+          ? retention.aiConversationDays
+          : DEFAULT_AI_CONVERSATION_RETENTION_DAYS,
+    };
+  }
+
+  /**
+   * Update tenant data retention settings
+   */
+  async updateRetentionSettings(
+    tenantId: string,
+    settings: KVKKRetentionSettings
+  ): Promise<KVKKRetentionSettings> {
+    if (
+      !Number.isInteger(settings.aiConversationDays) ||
+      settings.aiConversationDays < MIN_AI_CONVERSATION_RETENTION_DAYS ||
+      settings.aiConversationDays > MAX_AI_CONVERSATION_RETENTION_DAYS
+    ) {
+      throw new ValidationError(
+        `AI konuşma saklama süresi ${MIN_AI_CONVERSATION_RETENTION_DAYS} ile ${MAX_AI_CONVERSATION_RETENTION_DAYS} gün arasında olmalıdır.`,
+        "aiConversationDays"
+      );
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant) {
+      throw new NotFoundError("Kiracı bulunamadı.");
+    }
+
+    const tenantMetadata = (tenant.metadata as Record<string, unknown>) || {};
+
+    await prisma.tenant.update({
+      where: { id: tenantId },
+      data: {
+        metadata: {
+          ...tenantMetadata,
+          kvkkRetention: {
+            aiConversationDays: settings.aiConversationDays,
+          },
+        } as any,
+      },
+    });
+
+    logger.info(`KVKK retention settings updated for tenant ${tenantId}: ${settings.aiConversationDays} days`);
+
+    return { aiConversationDays: settings.aiConversationDays };
+  }
+
   /**
    * Get audit log for data access
    */
@@ -494,9 +591,9 @@ export class KVKKComplianceService {
   ): Promise<Array<{
     timestamp: Date;
     action: string;
-    userId: string;
-    resourceType: string;
-    resourceId: string;
+    userId: string | null;
+    resourceType: string | null;
+    resourceId: string | null;
     ipAddress?: string;
   }>> {
     // Get audit logs from audit service
@@ -559,7 +656,7 @@ export class KVKKComplianceService {
               rejectionReason: req.rejectionReason as string | undefined,
             });
           } catch (error) {
-            logger.warn(`Error parsing data access request for user ${user.id}:`, error);
+            logger.warn(`Error parsing data access request for user ${user.id}:`, { error });
           }
         }
       }
@@ -603,7 +700,7 @@ export class KVKKComplianceService {
               rejectionReason: req.rejectionReason as string | undefined,
             });
           } catch (error) {
-            logger.warn(`Error parsing data deletion request for user ${user.id}:`, error);
+            logger.warn(`Error parsing data deletion request for user ${user.id}:`, { error });
           }
         }
       }
@@ -642,7 +739,7 @@ export class KVKKComplianceService {
             status: (b.status as KVKKBreachRecord["status"]) || "detected",
           };
         } catch (error) {
-          logger.warn(`Error parsing breach record ${b.id}:`, error);
+          logger.warn(`Error parsing breach record ${b.id}:`, { error });
           return null;
         }
       })
@@ -2,27 +2,86 @@ import { prisma } from "../lib/prisma";
 import { NotFoundError, ValidationError } from "@repo/shared-utils";
 import type {
   LedgerAccount,
+  LedgerAccountTreeNode,
   CreateLedgerAccountInput,
   UpdateLedgerAccountInput,
 } from "@repo/core-domain";
+import {
+  parseAccountCode,
+  detectAccountType,
+  TEK_DUZEN_HESAP_PLANI_TEMPLATE,
+} from "./chart-of-accounts";
+
+export interface ListLedgerAccountsFilters {
+  clientCompanyId?: string;
+}
+
+export interface SeedChartOfAccountsResult {
+  created: number;
+  skipped: number;
+  relinked: number;
+}
+
+function mapLedgerAccount(account: any): LedgerAccount {
+  return {
+    id: account.id,
+    tenantId: account.tenantId,
+    clientCompanyId: account.clientCompanyId ?? null,
+    parentId: account.parentId ?? null,
+    code: account.code,
+    name: account.name,
+    type: account.type as any,
+    accountClass: account.accountClass ?? null,
+    level: account.level ?? 1,
+    isActive: account.isActive,
+    inflationClass: account.inflationClass ?? null,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+  };
+}
 
 export class LedgerAccountService {
-  async listLedgerAccounts(tenantId: string): Promise<LedgerAccount[]> {
+  async listLedgerAccounts(
+    tenantId: string,
+    filters: ListLedgerAccountsFilters = {}
+  ): Promise<LedgerAccount[]> {
+    const where: any = { tenantId };
+
+    // A client company sees its own chart plus the tenant-wide accounts
+    if (filters.clientCompanyId) {
+      where.OR = [{ clientCompanyId: filters.clientCompanyId }, { clientCompanyId: null }];
+    }
+
     const accounts = await prisma.ledgerAccount.findMany({
-      where: { tenantId },
+      where,
       orderBy: { code: "asc" },
     });
 
-    return accounts.map((account) => ({
-      id: account.id,
-      tenantId: account.tenantId,
-      code: account.code,
-      name: account.name,
-      type: account.type as any,
-      isActive: account.isActive,
-      createdAt: account.createdAt,
-      updatedAt: account.updatedAt,
-    }));
+    return accounts.map(mapLedgerAccount);
+  }
+
+  async getLedgerAccountTree(
+    tenantId: string,
+    filters: ListLedgerAccountsFilters = {}
+  ): Promise<LedgerAccountTreeNode[]> {
+    const accounts = await this.listLedgerAccounts(tenantId, filters);
+
+    const nodes = new Map<string, LedgerAccountTreeNode>();
+    for (const account of accounts) {
+      nodes.set(account.id, { ...account, children: [] });
+    }
+
+    const roots: LedgerAccountTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
   }
 
   async getLedgerAccountById(tenantId: string, id: string): Promise<LedgerAccount> {
@@ -34,56 +93,59 @@ export class LedgerAccountService {
       throw new NotFoundError("Hesap bulunamadı.");
     }
 
-    return {
-      id: account.id,
-      tenantId: account.tenantId,
-      code: account.code,
-      name: account.name,
-      type: account.type as any,
-      isActive: account.isActive,
-      createdAt: account.createdAt,
-      updatedAt: account.updatedAt,
-    };
+    return mapLedgerAccount(account);
   }
 
   async createLedgerAccount(
     tenantId: string,
     input: CreateLedgerAccountInput
   ): Promise<LedgerAccount> {
-    // Check if code already exists for this tenant
-    const existing = await prisma.ledgerAccount.findUnique({
-      where: {
-        tenantId_code: {
-          tenantId,
-          code: input.code,
-        },
-      },
+    const clientCompanyId = input.clientCompanyId ?? null;
+    const code = input.code.trim();
+
+    if (clientCompanyId) {
+      const client = await prisma.clientCompany.findFirst({
+        where: { id: clientCompanyId, tenantId },
+      });
+
+      if (!client) {
+        throw new NotFoundError("Müşteri şirketi bulunamadı.");
+      }
+    }
+
+    // Check if code already exists in this chart of accounts
+    const existing = await prisma.ledgerAccount.findFirst({
+      where: { tenantId, clientCompanyId, code },
     });
 
     if (existing) {
       throw new ValidationError("Bu hesap kodu zaten kullanılıyor.");
     }
 
+    const parsed = parseAccountCode(code);
+    const parent = await this.resolveParent(tenantId, clientCompanyId, code, input.parentId ?? null);
+
+    const type = input.type ?? parent?.type ?? detectAccountType(code);
+    if (!type) {
+      throw new ValidationError("Hesap türü hesap kodundan belirlenemedi, lütfen hesap türünü seçin.");
+    }
+
     const account = await prisma.ledgerAccount.create({
       data: {
         tenantId,
-        code: input.code,
+        clientCompanyId,
+        parentId: parent?.id ?? null,
+        code,
         name: input.name,
-        type: input.type,
+        type,
+        accountClass: parsed.accountClass,
+        level: parent ? parent.level + 1 : parsed.level,
         isActive: input.isActive ?? true,
+        inflationClass: input.inflationClass ?? null,
       },
     });
 
-    return {
-      id: account.id,
-      tenantId: account.tenantId,
-      code: account.code,
-      name: account.name,
-      type: account.type as any,
-      isActive: account.isActive,
-      createdAt: account.createdAt,
-      updatedAt: account.updatedAt,
-    };
+    return mapLedgerAccount(account);
   }
 
   async updateLedgerAccount(
@@ -99,20 +161,33 @@ export class LedgerAccountService {
       throw new NotFoundError("Hesap bulunamadı.");
     }
 
-    // If updating code, check uniqueness
+    let hierarchy: { parentId: string | null; level: number; accountClass: number | null } | undefined;
+
+    // If updating code, check uniqueness and re-resolve the parent account
     if (input.code && input.code !== existing.code) {
-      const codeExists = await prisma.ledgerAccount.findUnique({
-        where: {
-          tenantId_code: {
-            tenantId,
-            code: input.code,
-          },
-        },
+      const childCount = await prisma.ledgerAccount.count({
+        where: { tenantId, parentId: id },
+      });
+
+      if (childCount > 0) {
+        throw new ValidationError("Alt hesapları bulunan bir hesabın kodu değiştirilemez.");
+      }
+
+      const codeExists = await prisma.ledgerAccount.findFirst({
+        where: { tenantId, clientCompanyId: existing.clientCompanyId, code: input.code },
       });
 
       if (codeExists) {
         throw new ValidationError("Bu hesap kodu zaten kullanılıyor.");
       }
+
+      const parsed = parseAccountCode(input.code);
+      const parent = await this.resolveParent(tenantId, existing.clientCompanyId, input.code, null);
+      hierarchy = {
+        parentId: parent?.id ?? null,
+        level: parent ? parent.level + 1 : parsed.level,
+        accountClass: parsed.accountClass,
+      };
     }
 
     const account = await prisma.ledgerAccount.update({
@@ -122,21 +197,175 @@ export class LedgerAccountService {
         name: input.name,
         type: input.type,
         isActive: input.isActive,
+        inflationClass: input.inflationClass,
+        ...hierarchy,
       },
     });
 
+    return mapLedgerAccount(account);
+  }
+
+  /**
+   * Seed the Tek Düzen Hesap Planı main accounts for a client company.
+   * Existing codes are left untouched, so the call is safe to repeat.
+   */
+  async seedChartOfAccounts(
+    tenantId: string,
+    clientCompanyId: string
+  ): Promise<SeedChartOfAccountsResult> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const existing = await prisma.ledgerAccount.findMany({
+      where: { tenantId, clientCompanyId },
+      select: { code: true },
+    });
+    const existingCodes = new Set(existing.map((account) => account.code));
+
+    const missing = TEK_DUZEN_HESAP_PLANI_TEMPLATE.filter((entry) => !existingCodes.has(entry.code));
+
+    if (missing.length > 0) {
+      await prisma.ledgerAccount.createMany({
+        data: missing.map((entry) => ({
+          tenantId,
+          clientCompanyId,
+          code: entry.code,
+          name: entry.name,
+          type: entry.type,
+          accountClass: parseAccountCode(entry.code).accountClass,
+          level: 1,
+          isActive: true,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    // Sub-accounts created before their main account existed are linked now
+    const relinked = await this.relinkOrphanedAccounts(tenantId, clientCompanyId);
+
     return {
-      id: account.id,
-      tenantId: account.tenantId,
-      code: account.code,
-      name: account.name,
-      type: account.type as any,
-      isActive: account.isActive,
-      createdAt: account.createdAt,
-      updatedAt: account.updatedAt,
+      created: missing.length,
+      skipped: TEK_DUZEN_HESAP_PLANI_TEMPLATE.length - missing.length,
+      relinked,
     };
   }
+
+  /**
+   * Resolve account codes to ledger account IDs for automated postings.
+   * The company's own chart wins over the tenant-wide accounts; codes found
+   * in neither are created for the company from the Tek Düzen template.
+   */
+  async resolveAccountIds(
+    tenantId: string,
+    clientCompanyId: string,
+    codes: string[]
+  ): Promise<Map<string, string>> {
+    const uniqueCodes = Array.from(new Set(codes));
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: {
+        tenantId,
+        code: { in: uniqueCodes },
+        OR: [{ clientCompanyId }, { clientCompanyId: null }],
+      },
+    });
+
+    const ids = new Map<string, string>();
+    for (const code of uniqueCodes) {
+      const account =
+        accounts.find((a) => a.code === code && a.clientCompanyId === clientCompanyId) ??
+        accounts.find((a) => a.code === code);
+
+      if (account) {
+        ids.set(code, account.id);
+        continue;
+      }
+
+      const created = await this.createLedgerAccount(tenantId, {
+        clientCompanyId,
+        code,
+        name: TEK_DUZEN_HESAP_PLANI_TEMPLATE.find((entry) => entry.code === code)?.name ?? code,
+      });
+      ids.set(code, created.id);
+    }
+
+    return ids;
+  }
+
+  private async resolveParent(
+    tenantId: string,
+    clientCompanyId: string | null,
+    code: string,
+    parentId: string | null
+  ): Promise<{ id: string; code: string; type: string; level: number } | null> {
+    if (parentId) {
+      const parent = await prisma.ledgerAccount.findFirst({
+        where: { id: parentId, tenantId },
+      });
+
+      if (!parent) {
+        throw new NotFoundError("Üst hesap bulunamadı.");
+      }
+
+      if (parent.clientCompanyId && parent.clientCompanyId !== clientCompanyId) {
+        throw new ValidationError("Üst hesap farklı bir müşteri şirketinin hesap planına ait.");
+      }
+
+      if (!code.startsWith(`${parent.code}.`)) {
+        throw new ValidationError(`Alt hesap kodu üst hesap kodu ile başlamalıdır (${parent.code}.xx).`);
+      }
+
+      return parent;
+    }
+
+    const { parentCode } = parseAccountCode(code);
+    if (!parentCode) {
+      return null;
+    }
+
+    // Prefer the company's own chart, fall back to the tenant-wide account
+    const candidates = await prisma.ledgerAccount.findMany({
+      where: {
+        tenantId,
+        code: parentCode,
+        OR: [{ clientCompanyId }, { clientCompanyId: null }],
+      },
+    });
+
+    return candidates.find((c) => c.clientCompanyId === clientCompanyId) ?? candidates[0] ?? null;
+  }
+
+  private async relinkOrphanedAccounts(tenantId: string, clientCompanyId: string): Promise<number> {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { tenantId, clientCompanyId },
+      select: { id: true, code: true, parentId: true, level: true },
+      orderBy: { code: "asc" },
+    });
+    const byCode = new Map(accounts.map((account) => [account.code, account]));
+
+    // Parents sort before their children, so levels propagate downwards
+    let relinked = 0;
+    for (const account of accounts) {
+      const { parentCode } = parseAccountCode(account.code);
+      const parent = parentCode ? byCode.get(parentCode) : undefined;
+
+      if (parent && account.parentId !== parent.id) {
+        await prisma.ledgerAccount.update({
+          where: { id: account.id },
+          data: { parentId: parent.id, level: parent.level + 1 },
+        });
+        account.parentId = parent.id;
+        account.level = parent.level + 1;
+        relinked++;
+      }
+    }
+
+    return relinked;
+  }
 }
 
 export const ledgerAccountService = new LedgerAccountService();
-
@@ -2,15 +2,16 @@ import { prisma } from "../lib/prisma";
 import { NotFoundError } from "@repo/shared-utils";
 import { logger } from "@repo/shared-utils";
 import { riskAlertService } from "./risk-alert-service";
+import { fraudModelService } from "./fraud-model-service";
 
 /**
  * ML Fraud Detector Service
- * 
- * Uses machine learning techniques for fraud detection:
- * - Isolation Forest for anomaly detection
- * - Pattern recognition for common fraud schemes
- * - Real-time fraud scoring
- * - Continuous learning from flagged cases
+ *
+ * Scores a company's fraud risk:
+ * - With the tenant's active trained model (see fraud-model-service) when
+ *   there is one, factors being the model's per-feature contributions
+ * - Otherwise with statistical outlier checks and behavioral heuristics
+ * - Pattern recognition for common fraud schemes in both cases
  */
 export interface MLFraudScore {
   overallScore: number; // 0-100, higher = more suspicious
@@ -19,8 +20,11 @@ export interface MLFraudScore {
     name: string;
     contribution: number; // How much this factor contributes to the score
     severity: "low" | "medium" | "high";
+    feature?: string; // model feature behind the factor, for trained model scores
+    value?: number;
   }>;
   recommendations: string[];
+  modelVersion: number | null; // trained model version used, null for the heuristic score
 }
 
 export interface FraudPattern {
@@ -83,6 +87,7 @@ export class MLFraudDetectorService {
         confidence: 0,
         factors: [],
         recommendations: ["Yeterli veri yok - daha fazla işlem gerekli"],
+        modelVersion: null,
       };
     }
 
@@ -137,13 +142,24 @@ export class MLFraudDetectorService {
     const confidence = Math.min(1, (transactions.length + invoices.length) / 100);
 
     // Build factors
-    const factors: Array<{
-      name: string;
-      contribution: number;
-      severity: "low" | "medium" | "high";
-    }> = [];
+    const factors: MLFraudScore["factors"] = [];
+
+    // A trained model replaces the heuristic score and factors; detected patterns are kept
+    const modelScore = await this.scoreWithActiveModel(tenantId, clientCompanyId);
+    if (modelScore) {
+      overallScore = modelScore.score;
+      for (const contribution of modelScore.contributions.filter((c) => c.contribution > 0)) {
+        factors.push({
+          name: contribution.label,
+          contribution: contribution.contribution,
+          severity: contribution.contribution >= 15 ? "high" : contribution.contribution >= 5 ? "medium" : "low",
+          feature: contribution.feature,
+          value: contribution.value,
+        });
+      }
+    }
 
-    if (anomalyScore > 0.5) {
+    if (!modelScore && anomalyScore > 0.5) {
       factors.push({
         name: "Anomali Tespiti",
         contribution: anomalyScore * 30,
@@ -151,7 +167,7 @@ export class MLFraudDetectorService {
       });
     }
 
-    if (behavioralScore > 0.5) {
+    if (!modelScore && behavioralScore > 0.5) {
       factors.push({
         name: "Davranışsal Analiz",
         contribution: behavioralScore * 30,
@@ -159,7 +175,7 @@ export class MLFraudDetectorService {
       });
     }
 
-    if (networkScore > 0.5) {
+    if (!modelScore && networkScore > 0.5) {
       factors.push({
         name: "Ağ Analizi",
         contribution: networkScore * 20,
@@ -191,9 +207,26 @@ export class MLFraudDetectorService {
       confidence: Math.round(confidence * 100) / 100,
       factors,
       recommendations,
+      modelVersion: modelScore?.modelVersion ?? null,
     };
   }
 
+  /**
+   * Score with the tenant's active trained model. A scoring failure falls
+   * back to the heuristic score rather than failing the request.
+   */
+  private async scoreWithActiveModel(tenantId: string, clientCompanyId: string) {
+    try {
+      return await fraudModelService.scoreCompany(tenantId, clientCompanyId);
+    } catch (error: any) {
+      logger.error("[MLFraudDetectorService] Trained model scoring failed", { tenantId }, {
+        clientCompanyId,
+        error: error.message,
+      });
+      return null;
+    }
+  }
+
   /**
    * Extract features from transactions and invoices for ML analysis
    */
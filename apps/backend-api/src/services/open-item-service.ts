@@ -0,0 +1,683 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError } from "@repo/shared-utils";
+import { kdvCalculationService } from "./kdv-calculation-service";
+import { paymentReminderService } from "./payment-reminder-service";
+import { auditService } from "./audit-service";
+import { accountingPeriodService } from "./accounting-period-service";
+import { normalizeCounterpartyName } from "./counterparty-service";
+
+/**
+ * Açık kalem takibi
+ *
+ * Collections and payments outside the bank reconciliation (nakit, çek,
+ * senet, mahsup) are recorded per cari hesap and closed against the
+ * counterparty's open invoices, explicitly or oldest due date first.
+ * Together with the bank matches they make up Invoice.paidAmount, which
+ * drives the payment reminders, the 30/60/90/120+ yaşlandırma and DSO/DPO.
+ */
+
+const AMOUNT_TOLERANCE = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_METRIC_PERIOD_DAYS = 90;
+const OPEN_INVOICE_STATUSES = ["kesildi", "muhasebeleştirilmiş"];
+
+export const AGING_BUCKETS = ["current", "1-30", "31-60", "61-90", "91-120", "120+"] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export type PaymentDirection = "TAHSILAT" | "ODEME";
+export type PaymentMethod = "nakit" | "havale" | "cek" | "senet" | "kredi_karti" | "mahsup";
+export type AgingSide = "receivable" | "payable";
+
+export interface AllocationInput {
+  invoiceId: string;
+  amount: number;
+}
+
+export interface RecordPaymentInput {
+  counterpartyId: string;
+  direction: PaymentDirection;
+  date: Date;
+  amount: number;
+  currency?: string;
+  method: PaymentMethod;
+  reference?: string | null;
+  description?: string | null;
+  allocations?: AllocationInput[]; // explicit; otherwise oldest due date first
+  autoAllocate?: boolean; // default true; false keeps the payment as avans
+}
+
+export interface ListPaymentsFilters {
+  clientCompanyId?: string;
+  counterpartyId?: string;
+  direction?: PaymentDirection;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface OpenItem {
+  invoiceId: string;
+  externalId: string | null;
+  type: string;
+  issueDate: Date;
+  dueDate: Date; // invoice due date or issue date + the card's vade
+  currency: string;
+  totalAmount: number;
+  paidAmount: number;
+  openAmount: number;
+  daysOverdue: number;
+}
+
+export interface AgingRow {
+  counterpartyId: string | null; // null: invoice without a cari kart
+  counterpartyName: string;
+  counterpartyTaxNumber: string | null;
+  invoiceCount: number;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  unapplied: number; // payments not closed against invoices yet (avans)
+  net: number;
+  oldestDueDate: Date | null;
+}
+
+export interface AgingReport {
+  clientCompany: { id: string; name: string };
+  side: AgingSide;
+  asOfDate: Date;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number> & { total: number; unapplied: number; net: number };
+  periodDays: number;
+  periodVolume: number; // sales (or purchases) of the period, TRY
+  days: number | null; // DSO for receivables, DPO for payables
+}
+
+export interface TurnoverMetrics {
+  asOfDate: Date;
+  periodDays: number;
+  receivables: number;
+  payables: number;
+  sales: number;
+  purchases: number;
+  dso: number | null; // Days Sales Outstanding
+  dpo: number | null; // Days Payable Outstanding
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { current: 0, "1-30": 0, "31-60": 0, "61-90": 0, "91-120": 0, "120+": 0 };
+}
+
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "1-30";
+  if (daysOverdue <= 60) return "31-60";
+  if (daysOverdue <= 90) return "61-90";
+  if (daysOverdue <= 120) return "91-120";
+  return "120+";
+}
+
+function effectiveDueDate(
+  invoice: { issueDate: Date; dueDate: Date | null },
+  paymentTermDays: number | null | undefined
+): Date {
+  return invoice.dueDate ?? addDays(invoice.issueDate, paymentTermDays ?? 0);
+}
+
+function daysOverdue(dueDate: Date, asOf: Date): number {
+  return Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS);
+}
+
+function invoiceTypeFor(direction: string): string {
+  return direction === "TAHSILAT" ? "SATIŞ" : "ALIŞ";
+}
+
+export class OpenItemService {
+  /**
+   * Open invoices of a cari hesap, oldest due date first
+   */
+  async getOpenItems(tenantId: string, counterpartyId: string, type?: string): Promise<OpenItem[]> {
+    const counterparty = await this.getCounterparty(tenantId, counterpartyId);
+    return this.loadOpenItems(tenantId, counterparty, type);
+  }
+
+  /**
+   * List collections and payments
+   */
+  async listPayments(tenantId: string, filters: ListPaymentsFilters = {}) {
+    const page = filters.page || 1;
+    const pageSize = Math.min(filters.pageSize || 20, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: any = { tenantId };
+    if (filters.clientCompanyId) where.clientCompanyId = filters.clientCompanyId;
+    if (filters.counterpartyId) where.counterpartyId = filters.counterpartyId;
+    if (filters.direction) where.direction = filters.direction;
+
+    const [items, total] = await Promise.all([
+      prisma.counterpartyPayment.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { date: "desc" },
+        include: {
+          counterparty: { select: { id: true, name: true, taxNumber: true } },
+          allocations: { include: { invoice: { select: { id: true, externalId: true } } } },
+        },
+      }),
+      prisma.counterpartyPayment.count({ where }),
+    ]);
+
+    return {
+      data: items.map((item) => this.toPaymentResponse(item)),
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  async getPayment(tenantId: string, id: string) {
+    const payment = await prisma.counterpartyPayment.findFirst({
+      where: { id, tenantId },
+      include: {
+        counterparty: { select: { id: true, name: true, taxNumber: true } },
+        allocations: { include: { invoice: { select: { id: true, externalId: true } } } },
+      },
+    });
+    if (!payment) throw new NotFoundError("Tahsilat/ödeme kaydı bulunamadı.");
+    return this.toPaymentResponse(payment);
+  }
+
+  /**
+   * Record a collection or payment and close it against open invoices
+   */
+  async recordPayment(tenantId: string, userId: string, input: RecordPaymentInput) {
+    const counterparty = await this.getCounterparty(tenantId, input.counterpartyId);
+    if (input.amount <= 0) {
+      throw new ValidationError("Tutar sıfırdan büyük olmalıdır.");
+    }
+
+    const payment = await prisma.counterpartyPayment.create({
+      data: {
+        tenantId,
+        clientCompanyId: counterparty.clientCompanyId,
+        counterpartyId: counterparty.id,
+        direction: input.direction,
+        date: input.date,
+        amount: round2(input.amount),
+        currency: input.currency || "TRY",
+        method: input.method,
+        reference: input.reference ?? null,
+        description: input.description ?? null,
+        createdByUserId: userId,
+      },
+    });
+
+    if (input.allocations?.length) {
+      return this.allocatePayment(tenantId, userId, payment.id, input.allocations);
+    }
+    if (input.autoAllocate !== false) {
+      const openItems = await accountingPeriodService.filterWritable(
+        tenantId,
+        counterparty.clientCompanyId,
+        await this.loadOpenItems(tenantId, counterparty, invoiceTypeFor(input.direction), payment.currency),
+        (item) => item.issueDate
+      );
+      if (openItems.length > 0) {
+        return this.allocatePayment(tenantId, userId, payment.id);
+      }
+    }
+    return this.getPayment(tenantId, payment.id);
+  }
+
+  /**
+   * Close the unallocated part of a payment against invoices: the given
+   * amounts, or the open invoices oldest due date first
+   */
+  async allocatePayment(tenantId: string, userId: string, paymentId: string, allocations?: AllocationInput[]) {
+    const payment = await prisma.counterpartyPayment.findFirst({
+      where: { id: paymentId, tenantId },
+      include: { counterparty: true },
+    });
+    if (!payment) throw new NotFoundError("Tahsilat/ödeme kaydı bulunamadı.");
+
+    const unallocated = round2(Number(payment.amount) - Number(payment.allocatedAmount));
+    if (unallocated <= AMOUNT_TOLERANCE) {
+      throw new ValidationError("Bu kaydın tamamı faturalara dağıtılmış.");
+    }
+
+    const openItems = await this.loadOpenItems(
+      tenantId,
+      payment.counterparty,
+      invoiceTypeFor(payment.direction),
+      payment.currency
+    );
+
+    // Invoices of a closed or locked month keep their paid amounts: explicit
+    // allocations to them are refused, automatic ones pass them over
+    let planned: AllocationInput[];
+    if (allocations?.length) {
+      for (const allocation of allocations) {
+        const item = openItems.find((i) => i.invoiceId === allocation.invoiceId);
+        if (item) {
+          await accountingPeriodService.assertDateWritable(tenantId, payment.clientCompanyId, item.issueDate);
+        }
+      }
+      planned = this.checkAllocations(allocations, openItems, unallocated);
+    } else {
+      const writable = await accountingPeriodService.filterWritable(
+        tenantId,
+        payment.clientCompanyId,
+        openItems,
+        (item) => item.issueDate
+      );
+      planned = this.planOldestFirst(writable, unallocated);
+    }
+
+    if (planned.length === 0) {
+      throw new ValidationError("Kapatılacak açık fatura bulunamadı.");
+    }
+
+    const applied = round2(planned.reduce((sum, a) => sum + a.amount, 0));
+    await prisma.$transaction(async (tx) => {
+      for (const allocation of planned) {
+        const item = openItems.find((i) => i.invoiceId === allocation.invoiceId)!;
+        await tx.counterpartyPaymentAllocation.upsert({
+          where: { paymentId_invoiceId: { paymentId, invoiceId: allocation.invoiceId } },
+          create: { tenantId, paymentId, invoiceId: allocation.invoiceId, amount: allocation.amount },
+          update: { amount: { increment: allocation.amount } },
+        });
+
+        const paidAmount = round2(item.paidAmount + allocation.amount);
+        await tx.invoice.update({
+          where: { id: allocation.invoiceId },
+          data: {
+            paidAmount,
+            ...(item.totalAmount - paidAmount <= AMOUNT_TOLERANCE && { paidAt: payment.date }),
+          },
+        });
+      }
+
+      await tx.counterpartyPayment.update({
+        where: { id: paymentId },
+        data: { allocatedAmount: round2(Number(payment.allocatedAmount) + applied) },
+      });
+    });
+
+    for (const allocation of planned) {
+      await paymentReminderService.syncInvoicePayment(tenantId, allocation.invoiceId);
+    }
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "COUNTERPARTY_PAYMENT_ALLOCATED",
+      resourceType: "CounterpartyPayment",
+      resourceId: paymentId,
+      metadata: { counterpartyId: payment.counterpartyId, allocations: planned, method: allocations?.length ? "manual" : "auto" },
+    });
+
+    return this.getPayment(tenantId, paymentId);
+  }
+
+  /**
+   * Reopen the invoices a payment was closed against
+   */
+  async unallocatePayment(tenantId: string, userId: string, paymentId: string) {
+    const payment = await prisma.counterpartyPayment.findFirst({
+      where: { id: paymentId, tenantId },
+      include: { allocations: { include: { invoice: true } } },
+    });
+    if (!payment) throw new NotFoundError("Tahsilat/ödeme kaydı bulunamadı.");
+    if (payment.allocations.length === 0) {
+      throw new ValidationError("Bu kayıt herhangi bir faturaya dağıtılmamış.");
+    }
+    for (const allocation of payment.allocations) {
+      await accountingPeriodService.assertDateWritable(
+        tenantId,
+        allocation.invoice.clientCompanyId,
+        allocation.invoice.issueDate
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const allocation of payment.allocations) {
+        const paidAmount = Math.max(round2(Number(allocation.invoice.paidAmount) - Number(allocation.amount)), 0);
+        await tx.invoice.update({
+          where: { id: allocation.invoiceId },
+          data: {
+            paidAmount,
+            ...(Number(allocation.invoice.totalAmount) - paidAmount > AMOUNT_TOLERANCE && { paidAt: null }),
+          },
+        });
+      }
+      await tx.counterpartyPaymentAllocation.deleteMany({ where: { tenantId, paymentId } });
+      await tx.counterpartyPayment.update({ where: { id: paymentId }, data: { allocatedAmount: 0 } });
+    });
+
+    for (const allocation of payment.allocations) {
+      await paymentReminderService.syncInvoicePayment(tenantId, allocation.invoiceId);
+    }
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "COUNTERPARTY_PAYMENT_UNALLOCATED",
+      resourceType: "CounterpartyPayment",
+      resourceId: paymentId,
+      metadata: { counterpartyId: payment.counterpartyId, invoiceIds: payment.allocations.map((a) => a.invoiceId) },
+    });
+
+    return this.getPayment(tenantId, paymentId);
+  }
+
+  /**
+   * Delete a payment, reopening its invoices first
+   */
+  async deletePayment(tenantId: string, userId: string, paymentId: string): Promise<void> {
+    const payment = await prisma.counterpartyPayment.findFirst({
+      where: { id: paymentId, tenantId },
+      select: { id: true, allocatedAmount: true },
+    });
+    if (!payment) throw new NotFoundError("Tahsilat/ödeme kaydı bulunamadı.");
+
+    if (Number(payment.allocatedAmount) > 0) {
+      await this.unallocatePayment(tenantId, userId, paymentId);
+    }
+    await prisma.counterpartyPayment.delete({ where: { id: paymentId } });
+  }
+
+  /**
+   * Alacak / borç yaşlandırma per cari hesap at the given date, in TRY
+   */
+  async getAgingReport(
+    tenantId: string,
+    clientCompanyId: string,
+    side: AgingSide,
+    asOfDate: Date,
+    periodDays: number = DEFAULT_METRIC_PERIOD_DAYS
+  ): Promise<AgingReport> {
+    const clientCompany = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+      select: { id: true, name: true },
+    });
+    if (!clientCompany) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const rows = await this.computeAging(tenantId, clientCompanyId, side, endOfDay(asOfDate));
+    const totals = { ...emptyBuckets(), total: 0, unapplied: 0, net: 0 };
+    for (const row of rows) {
+      for (const bucket of AGING_BUCKETS) {
+        totals[bucket] = round2(totals[bucket] + row.buckets[bucket]);
+      }
+      totals.total = round2(totals.total + row.total);
+      totals.unapplied = round2(totals.unapplied + row.unapplied);
+      totals.net = round2(totals.net + row.net);
+    }
+
+    const volume = await this.periodVolume(tenantId, clientCompanyId, side, endOfDay(asOfDate), periodDays);
+    return {
+      clientCompany,
+      side,
+      asOfDate,
+      rows,
+      totals,
+      periodDays,
+      periodVolume: volume,
+      days: volume > 0 ? Math.round((Math.max(totals.net, 0) / volume) * periodDays * 10) / 10 : null,
+    };
+  }
+
+  /**
+   * DSO / DPO: outstanding receivables and payables against the sales and
+   * purchases of the preceding period
+   */
+  async getTurnoverMetrics(
+    tenantId: string,
+    clientCompanyId: string,
+    asOfDate: Date,
+    periodDays: number = DEFAULT_METRIC_PERIOD_DAYS
+  ): Promise<TurnoverMetrics> {
+    const [receivable, payable] = await Promise.all([
+      this.getAgingReport(tenantId, clientCompanyId, "receivable", asOfDate, periodDays),
+      this.getAgingReport(tenantId, clientCompanyId, "payable", asOfDate, periodDays),
+    ]);
+
+    return {
+      asOfDate,
+      periodDays,
+      receivables: receivable.totals.net,
+      payables: payable.totals.net,
+      sales: receivable.periodVolume,
+      purchases: payable.periodVolume,
+      dso: receivable.days,
+      dpo: payable.days,
+    };
+  }
+
+  private async computeAging(tenantId: string, clientCompanyId: string, side: AgingSide, end: Date): Promise<AgingRow[]> {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        type: side === "receivable" ? "SATIŞ" : "ALIŞ",
+        status: { in: OPEN_INVOICE_STATUSES },
+        issueDate: { lte: end },
+      },
+      select: {
+        id: true,
+        externalId: true,
+        currency: true,
+        issueDate: true,
+        dueDate: true,
+        totalAmount: true,
+        counterpartyName: true,
+        counterpartyTaxNumber: true,
+        metadata: true,
+        counterparty: { select: { id: true, name: true, taxNumber: true, paymentTermDays: true } },
+        reconciliationMatches: {
+          where: { statementLine: { bookingDate: { lte: end } } },
+          select: { amount: true },
+        },
+        paymentAllocations: {
+          where: { payment: { date: { lte: end } } },
+          select: { amount: true },
+        },
+      },
+    });
+
+    const rows = new Map<string, AgingRow>();
+    const rowFor = (id: string | null, name: string, taxNumber: string | null) => {
+      const key = id ?? `name:${normalizeCounterpartyName(name)}`;
+      const row = rows.get(key) ?? {
+        counterpartyId: id,
+        counterpartyName: name,
+        counterpartyTaxNumber: taxNumber,
+        invoiceCount: 0,
+        buckets: emptyBuckets(),
+        total: 0,
+        unapplied: 0,
+        net: 0,
+        oldestDueDate: null,
+      };
+      rows.set(key, row);
+      return row;
+    };
+
+    for (const invoice of invoices) {
+      const settled = [...invoice.reconciliationMatches, ...invoice.paymentAllocations].reduce(
+        (sum, m) => sum + Number(m.amount),
+        0
+      );
+      const open = round2(Number(invoice.totalAmount) - settled);
+      if (open <= AMOUNT_TOLERANCE) continue;
+
+      const openTry = round2(open * (await kdvCalculationService.tryRate(invoice)));
+      const dueDate = effectiveDueDate(invoice, invoice.counterparty?.paymentTermDays);
+      const row = rowFor(
+        invoice.counterparty?.id ?? null,
+        invoice.counterparty?.name ?? invoice.counterpartyName ?? "Tanımsız cari",
+        invoice.counterparty?.taxNumber ?? invoice.counterpartyTaxNumber
+      );
+      const bucket = agingBucket(daysOverdue(dueDate, end));
+      row.buckets[bucket] = round2(row.buckets[bucket] + openTry);
+      row.total = round2(row.total + openTry);
+      row.invoiceCount++;
+      if (!row.oldestDueDate || dueDate < row.oldestDueDate) row.oldestDueDate = dueDate;
+    }
+
+    const payments = await prisma.counterpartyPayment.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        direction: side === "receivable" ? "TAHSILAT" : "ODEME",
+        date: { lte: end },
+      },
+      include: { counterparty: { select: { id: true, name: true, taxNumber: true } } },
+    });
+    for (const payment of payments) {
+      const unapplied = round2(Number(payment.amount) - Number(payment.allocatedAmount));
+      if (unapplied <= AMOUNT_TOLERANCE) continue;
+
+      const rate = await kdvCalculationService.tryRate({
+        id: payment.id,
+        externalId: payment.reference,
+        currency: payment.currency,
+        issueDate: payment.date,
+        metadata: null,
+      });
+      const row = rowFor(payment.counterparty.id, payment.counterparty.name, payment.counterparty.taxNumber);
+      row.unapplied = round2(row.unapplied + unapplied * rate);
+    }
+
+    return [...rows.values()]
+      .map((row) => ({ ...row, net: round2(row.total - row.unapplied) }))
+      .sort((a, b) => b.total - a.total);
+  }
+
+  // Sales (or purchases) in TRY invoiced during the period ending at `end`
+  private async periodVolume(
+    tenantId: string,
+    clientCompanyId: string,
+    side: AgingSide,
+    end: Date,
+    periodDays: number
+  ): Promise<number> {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        type: side === "receivable" ? "SATIŞ" : "ALIŞ",
+        status: { in: OPEN_INVOICE_STATUSES },
+        issueDate: { gt: addDays(end, -periodDays), lte: end },
+      },
+      select: { id: true, externalId: true, currency: true, issueDate: true, totalAmount: true, metadata: true },
+    });
+
+    let volume = 0;
+    for (const invoice of invoices) {
+      volume += Number(invoice.totalAmount) * (await kdvCalculationService.tryRate(invoice));
+    }
+    return round2(volume);
+  }
+
+  private async loadOpenItems(
+    tenantId: string,
+    counterparty: { id: string; paymentTermDays: number | null },
+    type?: string,
+    currency?: string
+  ): Promise<OpenItem[]> {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        counterpartyId: counterparty.id,
+        status: { in: OPEN_INVOICE_STATUSES },
+        paidAt: null,
+        ...(type && { type }),
+        ...(currency && { currency }),
+      },
+      orderBy: { issueDate: "asc" },
+    });
+
+    const today = new Date();
+    return invoices
+      .map((invoice) => {
+        const dueDate = effectiveDueDate(invoice, counterparty.paymentTermDays);
+        return {
+          invoiceId: invoice.id,
+          externalId: invoice.externalId,
+          type: invoice.type,
+          issueDate: invoice.issueDate,
+          dueDate,
+          currency: invoice.currency,
+          totalAmount: Number(invoice.totalAmount),
+          paidAmount: Number(invoice.paidAmount),
+          openAmount: round2(Number(invoice.totalAmount) - Number(invoice.paidAmount)),
+          daysOverdue: daysOverdue(dueDate, today),
+        };
+      })
+      .filter((item) => item.openAmount > AMOUNT_TOLERANCE)
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime() || a.issueDate.getTime() - b.issueDate.getTime());
+  }
+
+  private planOldestFirst(openItems: OpenItem[], amount: number): AllocationInput[] {
+    const planned: AllocationInput[] = [];
+    let remaining = amount;
+    for (const item of openItems) {
+      if (remaining <= AMOUNT_TOLERANCE) break;
+      const applied = round2(Math.min(remaining, item.openAmount));
+      planned.push({ invoiceId: item.invoiceId, amount: applied });
+      remaining = round2(remaining - applied);
+    }
+    return planned;
+  }
+
+  private checkAllocations(allocations: AllocationInput[], openItems: OpenItem[], unallocated: number): AllocationInput[] {
+    const planned = allocations.map((allocation) => {
+      const item = openItems.find((i) => i.invoiceId === allocation.invoiceId);
+      if (!item) {
+        throw new ValidationError("Fatura bu cari hesabın aynı yöndeki ve para birimindeki açık kalemleri arasında değil.");
+      }
+      if (allocation.amount <= 0 || allocation.amount - item.openAmount > AMOUNT_TOLERANCE) {
+        throw new ValidationError(
+          `${item.externalId ?? item.invoiceId} faturasına dağıtılan tutar açık bakiyeyi (${item.openAmount.toFixed(2)}) aşıyor.`
+        );
+      }
+      return { invoiceId: allocation.invoiceId, amount: round2(allocation.amount) };
+    });
+
+    if (new Set(planned.map((a) => a.invoiceId)).size !== planned.length) {
+      throw new ValidationError("Aynı fatura birden fazla kez seçilmiş.");
+    }
+    if (planned.reduce((sum, a) => sum + a.amount, 0) - unallocated > AMOUNT_TOLERANCE) {
+      throw new ValidationError(`Dağıtılan toplam tutar kaydın dağıtılmamış kısmını (${unallocated.toFixed(2)}) aşıyor.`);
+    }
+    return planned;
+  }
+
+  private async getCounterparty(tenantId: string, counterpartyId: string) {
+    const counterparty = await prisma.counterparty.findFirst({ where: { id: counterpartyId, tenantId } });
+    if (!counterparty) throw new NotFoundError("Cari hesap bulunamadı.");
+    return counterparty;
+  }
+
+  private toPaymentResponse(payment: any) {
+    return {
+      ...payment,
+      amount: Number(payment.amount),
+      allocatedAmount: Number(payment.allocatedAmount),
+      allocations: (payment.allocations ?? []).map((allocation: any) => ({
+        ...allocation,
+        amount: Number(allocation.amount),
+      })),
+    };
+  }
+}
+
+export const openItemService = new OpenItemService();
@@ -0,0 +1,196 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import {
+  createPISForBank,
+  validateTurkishIBAN,
+  type PaymentPurpose,
+  type PaymentResponse,
+} from "../integrations/connectors/payment-initiation-service";
+import { approvalService } from "./approval-service";
+import { auditService } from "./audit-service";
+
+/**
+ * Ödeme talimatları
+ *
+ * Initiates payments from a client company's bank account through the
+ * bank's payment initiation API. When an approval policy applies to the
+ * amount, the instruction is stored on an approval request instead and is
+ * initiated as approved - the instruction cannot change after approval.
+ *
+ * The bank integration of the client company (provider type "bank") must
+ * carry `pisApiUrl` and `pisAccessToken` in its config.
+ */
+
+export type PaymentOrderType = "FAST" | "EFT" | "HAVALE";
+
+export interface PaymentOrderInput {
+  clientCompanyId: string;
+  bankAccountId: string;
+  paymentType: PaymentOrderType;
+  creditorIban: string;
+  creditorName: string;
+  amount: number;
+  description?: string | null;
+  purpose?: PaymentPurpose;
+  comment?: string | null; // for the approvers
+}
+
+type PaymentOrder = Omit<PaymentOrderInput, "comment">;
+
+export type PaymentOrderResult =
+  | { status: "initiated"; payment: PaymentResponse }
+  | { status: "pending_approval"; approvalRequest: Awaited<ReturnType<typeof approvalService.openRequest>> };
+
+export class PaymentOrderService {
+  async initiate(tenantId: string, userId: string, input: PaymentOrderInput): Promise<PaymentOrderResult> {
+    const { comment, ...order } = input;
+    const creditorIban = order.creditorIban.replace(/\s/g, "").toUpperCase();
+    const ibanCheck = validateTurkishIBAN(creditorIban);
+    if (!ibanCheck.valid) {
+      throw new ValidationError(ibanCheck.error ?? "Alıcı IBAN geçersiz.", "creditorIban");
+    }
+
+    const account = await this.getBankAccount(tenantId, order.clientCompanyId, order.bankAccountId);
+    const normalized: PaymentOrder = {
+      ...order,
+      creditorIban,
+      creditorName: sanitizeString(order.creditorName),
+      description: order.description ? sanitizeString(order.description) : null,
+    };
+
+    const policy = await approvalService.findPolicy(tenantId, "payment_initiate", order.amount);
+    if (policy) {
+      const approvalRequest = await approvalService.openRequest(
+        tenantId,
+        userId,
+        policy,
+        {
+          action: "payment_initiate",
+          resourceId: null,
+          clientCompanyId: order.clientCompanyId,
+          amount: order.amount,
+          summary: `${order.paymentType} ödeme: ${normalized.creditorName} (${account.bankName})`,
+          preparedByUserId: null,
+        },
+        { comment, payload: normalized as unknown as Record<string, unknown> }
+      );
+      return { status: "pending_approval", approvalRequest };
+    }
+
+    const payment = await this.send(tenantId, userId, normalized);
+    return { status: "initiated", payment };
+  }
+
+  /** Initiate the instruction of an approved payment request */
+  async initiateApproved(tenantId: string, userId: string, approvalRequestId: string): Promise<PaymentResponse> {
+    const request = await prisma.approvalRequest.findFirst({
+      where: { id: approvalRequestId, tenantId, action: "payment_initiate" },
+    });
+    if (!request) {
+      throw new NotFoundError("Ödeme onay talebi bulunamadı.");
+    }
+    if (request.status !== "approved") {
+      throw new ValidationError(
+        request.status === "executed" ? "Bu ödeme zaten başlatıldı." : "Ödeme henüz onaylanmadı."
+      );
+    }
+
+    // Claim the approval before going to the bank so a double submit cannot pay twice
+    const claimed = await prisma.approvalRequest.updateMany({
+      where: { id: approvalRequestId, tenantId, status: "approved", executedAt: null },
+      data: { status: "executed", executedAt: new Date(), executedByUserId: userId },
+    });
+    if (claimed.count !== 1) {
+      throw new ValidationError("Bu ödeme zaten başlatıldı.");
+    }
+
+    const order = request.payload as unknown as PaymentOrder;
+    let payment: PaymentResponse;
+    try {
+      payment = await this.send(tenantId, userId, order, approvalRequestId);
+    } catch (error) {
+      // The bank did not take the payment, so the approval stays available
+      await prisma.approvalRequest.update({
+        where: { id: approvalRequestId },
+        data: { status: "approved", executedAt: null, executedByUserId: null },
+      });
+      throw error;
+    }
+    await approvalService.markExecuted(tenantId, userId, approvalRequestId, {
+      paymentId: payment.paymentId,
+      transactionStatus: payment.transactionStatus,
+    });
+    return payment;
+  }
+
+  private async send(
+    tenantId: string,
+    userId: string,
+    order: PaymentOrder,
+    approvalRequestId?: string
+  ): Promise<PaymentResponse> {
+    const account = await this.getBankAccount(tenantId, order.clientCompanyId, order.bankAccountId);
+    const debtorIban = account.iban.replace(/\s/g, "").toUpperCase();
+    const debtorCheck = validateTurkishIBAN(debtorIban);
+    if (!debtorCheck.valid || !debtorCheck.bankCode) {
+      throw new ValidationError(`Ödeme hesabının IBAN'ı geçersiz: ${debtorCheck.error ?? ""}`.trim());
+    }
+
+    const integration = await prisma.tenantIntegration.findFirst({
+      where: {
+        tenantId,
+        clientCompanyId: order.clientCompanyId,
+        status: "connected",
+        provider: { type: "bank" },
+      },
+    });
+    const config = (integration?.config ?? {}) as Record<string, unknown>;
+    if (typeof config.pisApiUrl !== "string" || typeof config.pisAccessToken !== "string") {
+      throw new ValidationError("Ödeme başlatma için bankanın ödeme API'si yapılandırılmamış.");
+    }
+
+    const pis = createPISForBank(debtorCheck.bankCode, {
+      apiUrl: config.pisApiUrl,
+      accessToken: config.pisAccessToken,
+    });
+    const payment = await pis.initiatePayment({
+      paymentType: order.paymentType,
+      debtorAccount: { iban: debtorIban, currency: account.currency },
+      creditorAccount: { iban: order.creditorIban, name: order.creditorName },
+      instructedAmount: { amount: order.amount, currency: "TRY" },
+      remittanceInfo: order.description ? { unstructured: order.description } : undefined,
+      purpose: order.purpose ?? "SUPP",
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "PAYMENT_INITIATED",
+      resourceType: "ClientCompanyBankAccount",
+      resourceId: account.id,
+      metadata: {
+        clientCompanyId: order.clientCompanyId,
+        paymentId: payment.paymentId,
+        paymentType: order.paymentType,
+        amount: order.amount,
+        creditorIban: order.creditorIban,
+        approvalRequestId: approvalRequestId ?? null,
+      },
+    });
+
+    logger.info("Payment initiated", undefined, { tenantId, paymentId: payment.paymentId, approvalRequestId });
+    return payment;
+  }
+
+  private async getBankAccount(tenantId: string, clientCompanyId: string, bankAccountId: string) {
+    const account = await prisma.clientCompanyBankAccount.findFirst({
+      where: { id: bankAccountId, tenantId, clientCompanyId },
+    });
+    if (!account) {
+      throw new NotFoundError("Banka hesabı bulunamadı.");
+    }
+    return account;
+  }
+}
+
+export const paymentOrderService = new PaymentOrderService();
@@ -43,7 +43,14 @@ export class PaymentReminderService {
         orderBy: { dueDate: "asc" },
         include: {
           clientCompany: { select: { id: true, name: true } },
-          invoice: { select: { id: true, externalId: true, totalAmount: true } },
+          invoice: {
+            select: {
+              id: true,
+              externalId: true,
+              totalAmount: true,
+              counterparty: { select: { id: true, name: true } },
+            },
+          },
         },
       }),
       prisma.paymentReminder.count({ where }),
@@ -63,7 +70,15 @@ export class PaymentReminderService {
       where: { id, tenantId },
       include: {
         clientCompany: { select: { id: true, name: true } },
-        invoice: { select: { id: true, externalId: true, totalAmount: true, dueDate: true } },
+        invoice: {
+          select: {
+            id: true,
+            externalId: true,
+            totalAmount: true,
+            dueDate: true,
+            counterparty: { select: { id: true, name: true, email: true, phone: true } },
+          },
+        },
       },
     });
     if (!item) throw new NotFoundError("Hatırlatma bulunamadı.");
@@ -148,7 +163,29 @@ export class PaymentReminderService {
   }
 
   /**
-   * Auto-sync reminders from unpaid invoices and checks
+   * Follow the paid amount of an invoice: reminders of a fully paid invoice
+   * are closed, otherwise they are reopened for the outstanding amount
+   */
+  async syncInvoicePayment(tenantId: string, invoiceId: string) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: { totalAmount: true, paidAmount: true, paidAt: true },
+    });
+    if (!invoice) throw new NotFoundError("Fatura bulunamadı.");
+
+    const result = await prisma.paymentReminder.updateMany({
+      where: { tenantId, invoiceId },
+      data: invoice.paidAt
+        ? { isPaid: true, paidAt: invoice.paidAt }
+        : { isPaid: false, paidAt: null, amount: Number(invoice.totalAmount) - Number(invoice.paidAmount) },
+    });
+
+    return { updated: result.count };
+  }
+
+  /**
+   * Auto-sync reminders from unpaid invoices and checks. An invoice without
+   * a due date falls due after its cari kart's vade (payment term).
    */
   async syncReminders(tenantId: string) {
     let created = 0;
@@ -159,13 +196,28 @@ export class PaymentReminderService {
       where: {
         tenantId,
         status: { in: ["kesildi", "taslak"] },
-        dueDate: { not: null },
+        OR: [{ dueDate: { not: null } }, { counterparty: { paymentTermDays: { not: null } } }],
+        paidAt: null,
+      },
+      select: {
+        id: true,
+        type: true,
+        issueDate: true,
+        totalAmount: true,
+        paidAmount: true,
+        dueDate: true,
+        clientCompanyId: true,
+        counterpartyName: true,
+        counterparty: { select: { name: true, paymentTermDays: true } },
       },
-      select: { id: true, type: true, totalAmount: true, dueDate: true, clientCompanyId: true, counterpartyName: true },
     });
 
     for (const inv of unpaidInvoices) {
-      if (!inv.dueDate) continue;
+      const termDays = inv.counterparty?.paymentTermDays;
+      const dueDate =
+        inv.dueDate ?? (termDays != null ? new Date(inv.issueDate.getTime() + termDays * 24 * 60 * 60 * 1000) : null);
+      if (!dueDate) continue;
+      const outstanding = Number(inv.totalAmount) - Number(inv.paidAmount);
 
       const existing = await prisma.paymentReminder.findFirst({
         where: { tenantId, invoiceId: inv.id },
@@ -173,10 +225,10 @@ export class PaymentReminderService {
 
       if (existing) {
         // Update if amount or date changed
-        if (Number(existing.amount) !== Number(inv.totalAmount) || existing.dueDate.getTime() !== inv.dueDate.getTime()) {
+        if (Number(existing.amount) !== outstanding || existing.dueDate.getTime() !== dueDate.getTime()) {
           await prisma.paymentReminder.update({
             where: { id: existing.id },
-            data: { amount: inv.totalAmount, dueDate: inv.dueDate },
+            data: { amount: outstanding, dueDate },
           });
           updated++;
         }
@@ -190,9 +242,9 @@ export class PaymentReminderService {
           clientCompanyId: inv.clientCompanyId,
           invoiceId: inv.id,
           type,
-          dueDate: inv.dueDate,
-          amount: inv.totalAmount,
-          description: `${type === "TAHSILAT" ? "Tahsilat" : "Ödeme"}: ${inv.counterpartyName || "Fatura"} - ${inv.id.slice(-8)}`,
+          dueDate,
+          amount: outstanding,
+          description: `${type === "TAHSILAT" ? "Tahsilat" : "Ödeme"}: ${inv.counterparty?.name || inv.counterpartyName || "Fatura"} - ${inv.id.slice(-8)}`,
           reminderDaysBefore: 3,
         },
       });
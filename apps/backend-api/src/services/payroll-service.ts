@@ -0,0 +1,904 @@
+import PDFDocument from "pdfkit";
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { accountingPeriodService, getPeriodBounds } from "./accounting-period-service";
+import { ledgerAccountService } from "./ledger-account-service";
+import { auditService } from "./audit-service";
+import {
+  BORDRO_PARAMETRELERI,
+  SGK_TESVIKLERI,
+  type BordroParametreleri,
+} from "./turkish-accounting-knowledge";
+
+/**
+ * Bordro: personel, aylık ücret bordrosu and tahakkuk
+ *
+ * Payslips follow the usual Turkish payroll order: SGK işçi payı and
+ * işsizlik on prime esas kazanç (between taban and tavan), gelir vergisi on
+ * the cumulative yearly matrah through the ücret dilimleri, asgari ücret
+ * istisnası on both gelir and damga vergisi, then the teşvik on the işveren
+ * payı. Parameters come from BORDRO_PARAMETRELERI by year.
+ *
+ * Posting a run books the tahakkuk: 770 (or the employee's own gider
+ * hesabı) against 335 Personele Borçlar, 360 Ödenecek Vergi ve Fonlar and
+ * 361 Ödenecek Sosyal Güvenlik Kesintileri.
+ */
+
+const NET_PAY_ACCOUNT = "335";
+const TAX_PAYABLE_ACCOUNT = "360";
+const SGK_PAYABLE_ACCOUNT = "361";
+const FULL_MONTH_DAYS = 30;
+
+export type PayrollRunStatus = "draft" | "posted";
+
+export interface EmployeeSummary {
+  id: string;
+  clientCompanyId: string;
+  tckn: string;
+  firstName: string;
+  lastName: string;
+  sgkRegistryNumber: string | null;
+  occupationCode: string | null;
+  department: string | null;
+  startDate: Date;
+  endDate: Date | null;
+  grossSalary: number;
+  incentiveCode: string | null;
+  expenseAccountCode: string;
+  isActive: boolean;
+}
+
+export interface CreateEmployeeInput {
+  clientCompanyId: string;
+  tckn: string;
+  firstName: string;
+  lastName: string;
+  sgkRegistryNumber?: string | null;
+  occupationCode?: string | null;
+  department?: string | null;
+  startDate: Date;
+  endDate?: Date | null;
+  grossSalary: number;
+  incentiveCode?: string | null;
+  expenseAccountCode?: string;
+}
+
+export type UpdateEmployeeInput = Partial<Omit<CreateEmployeeInput, "clientCompanyId" | "tckn">> & {
+  isActive?: boolean;
+};
+
+export interface PayrollAdjustment {
+  employeeId: string;
+  workedDays?: number; // overrides the days derived from giriş / çıkış dates
+  additionalPay?: number; // prim, ikramiye, fazla mesai
+}
+
+export interface PayslipCalculationInput {
+  year: number;
+  month: number;
+  monthlyGrossSalary: number;
+  workedDays: number;
+  additionalPay: number;
+  incentiveCode: string | null;
+  cumulativeIncomeTaxBaseBefore: number;
+}
+
+export interface PayslipCalculation {
+  workedDays: number;
+  grossSalary: number;
+  additionalPay: number;
+  sgkBase: number;
+  employeeSgk: number;
+  employeeUnemployment: number;
+  employerSgk: number;
+  employerUnemployment: number;
+  incentiveCode: string | null;
+  incentiveAmount: number;
+  incomeTaxBase: number;
+  cumulativeIncomeTaxBase: number;
+  calculatedIncomeTax: number;
+  incomeTaxExemption: number;
+  incomeTax: number;
+  calculatedStampTax: number;
+  stampTaxExemption: number;
+  stampTax: number;
+  netPay: number;
+  employerCost: number;
+}
+
+export interface PayslipSummary extends PayslipCalculation {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  tckn: string;
+}
+
+export interface PayrollRunSummary {
+  id: string;
+  clientCompanyId: string;
+  period: string;
+  status: PayrollRunStatus;
+  employeeCount: number;
+  totalGross: number;
+  totalEmployeeSgk: number;
+  totalEmployerSgk: number;
+  totalIncentive: number;
+  totalIncomeTax: number;
+  totalStampTax: number;
+  totalNet: number;
+  totalEmployerCost: number;
+  transactionId: string | null;
+  postedAt: Date | null;
+}
+
+export interface MuhsgkEmployeeRow {
+  tckn: string;
+  firstName: string;
+  lastName: string;
+  sgkRegistryNumber: string | null;
+  occupationCode: string | null;
+  documentType: string; // SGK belge türü, 01 = tüm sigorta kolları
+  incentiveCode: string | null;
+  workedDays: number;
+  missingDays: number;
+  startDate: Date | null; // dönem içinde işe giriş
+  endDate: Date | null; // dönem içinde işten çıkış
+  grossEarnings: number; // hak edilen ücret
+  sgkBase: number; // prime esas kazanç
+  incomeTaxBase: number;
+  calculatedIncomeTax: number;
+  incomeTaxExemption: number;
+  incomeTax: number;
+  stampTaxExemption: number;
+  stampTax: number;
+}
+
+export interface MuhsgkDetail {
+  period: string;
+  payrollRunId: string;
+  status: PayrollRunStatus;
+  employees: MuhsgkEmployeeRow[];
+  totals: {
+    employeeCount: number;
+    grossEarnings: number;
+    sgkBase: number;
+    incomeTax: number;
+    stampTax: number;
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Parameters of the year, falling back to the closest known year
+ */
+export function payrollParametersFor(year: number): BordroParametreleri {
+  const years = Object.keys(BORDRO_PARAMETRELERI).map(Number).sort((a, b) => a - b);
+  const known = years.filter((y) => y <= year).pop() ?? years[0];
+  return BORDRO_PARAMETRELERI[known];
+}
+
+/**
+ * Gelir vergisi on a cumulative matrah through the ücret dilimleri
+ */
+export function incomeTaxOnCumulativeBase(base: number, brackets: BordroParametreleri["gelirVergisiDilimleri"]): number {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of brackets) {
+    if (base <= lower) {
+      break;
+    }
+    tax += (Math.min(base, bracket.ustSinir) - lower) * bracket.oran;
+    lower = bracket.ustSinir;
+  }
+  return tax;
+}
+
+/**
+ * TC kimlik numarası checksum (10th and 11th digits)
+ */
+export function isValidTckn(tckn: string): boolean {
+  if (!/^[1-9]\d{10}$/.test(tckn)) {
+    return false;
+  }
+  const d = tckn.split("").map(Number);
+  const odd = d[0] + d[2] + d[4] + d[6] + d[8];
+  const even = d[1] + d[3] + d[5] + d[7];
+  const tenth = (((odd * 7 - even) % 10) + 10) % 10;
+  const eleventh = sum(d.slice(0, 10)) % 10;
+  return d[9] === tenth && d[10] === eleventh;
+}
+
+/**
+ * One month's payslip. Partial months scale the ücret, the SGK taban/tavan
+ * and the asgari ücret istisnası by worked days over 30.
+ */
+export function calculatePayslip(input: PayslipCalculationInput): PayslipCalculation {
+  const params = payrollParametersFor(input.year);
+  const dayRatio = Math.min(input.workedDays, FULL_MONTH_DAYS) / FULL_MONTH_DAYS;
+
+  const grossSalary = round2(input.monthlyGrossSalary * dayRatio);
+  const totalGross = grossSalary + input.additionalPay;
+  const minimumWage = params.asgariUcretBrut * dayRatio;
+
+  // Prime esas kazanç between taban (asgari ücret) and tavan
+  const sgkBase =
+    input.workedDays > 0
+      ? round2(Math.min(Math.max(totalGross, minimumWage), minimumWage * params.sgkTavanCarpani))
+      : 0;
+  const employeeSgk = round2(sgkBase * params.isciSgk);
+  const employeeUnemployment = round2(sgkBase * params.isciIssizlik);
+  const employerSgk = round2(sgkBase * params.isverenSgk);
+  const employerUnemployment = round2(sgkBase * params.isverenIssizlik);
+
+  const tesvik = input.incentiveCode ? SGK_TESVIKLERI.find((t) => t.kanunNo === input.incentiveCode) : undefined;
+  let incentiveAmount = 0;
+  if (tesvik?.tur === "puan") {
+    incentiveAmount = round2(sgkBase * (tesvik.oran ?? 0));
+  } else if (tesvik?.tur === "isveren_payi") {
+    const coveredBase = tesvik.matrah === "asgari_ucret" ? Math.min(sgkBase, minimumWage) : sgkBase;
+    incentiveAmount = round2(coveredBase * (params.isverenSgk + params.isverenIssizlik));
+  }
+
+  // Gelir vergisi on the cumulative matrah, less the tax on asgari ücret
+  const incomeTaxBase = round2(Math.max(totalGross - employeeSgk - employeeUnemployment, 0));
+  const cumulativeIncomeTaxBase = round2(input.cumulativeIncomeTaxBaseBefore + incomeTaxBase);
+  const calculatedIncomeTax = round2(
+    incomeTaxOnCumulativeBase(cumulativeIncomeTaxBase, params.gelirVergisiDilimleri) -
+      incomeTaxOnCumulativeBase(input.cumulativeIncomeTaxBaseBefore, params.gelirVergisiDilimleri)
+  );
+  const minimumWageMonthlyBase = params.asgariUcretBrut * (1 - params.isciSgk - params.isciIssizlik);
+  const minimumWageBaseBefore = minimumWageMonthlyBase * (input.month - 1);
+  const minimumWageTax =
+    incomeTaxOnCumulativeBase(minimumWageBaseBefore + minimumWageMonthlyBase * dayRatio, params.gelirVergisiDilimleri) -
+    incomeTaxOnCumulativeBase(minimumWageBaseBefore, params.gelirVergisiDilimleri);
+  const incomeTaxExemption = round2(Math.min(calculatedIncomeTax, minimumWageTax));
+  const incomeTax = round2(calculatedIncomeTax - incomeTaxExemption);
+
+  const calculatedStampTax = round2(totalGross * params.damgaVergisiOrani);
+  const stampTaxExemption = round2(Math.min(calculatedStampTax, minimumWage * params.damgaVergisiOrani));
+  const stampTax = round2(calculatedStampTax - stampTaxExemption);
+
+  return {
+    workedDays: input.workedDays,
+    grossSalary,
+    additionalPay: round2(input.additionalPay),
+    sgkBase,
+    employeeSgk,
+    employeeUnemployment,
+    employerSgk,
+    employerUnemployment,
+    incentiveCode: tesvik ? tesvik.kanunNo : null,
+    incentiveAmount,
+    incomeTaxBase,
+    cumulativeIncomeTaxBase,
+    calculatedIncomeTax,
+    incomeTaxExemption,
+    incomeTax,
+    calculatedStampTax,
+    stampTaxExemption,
+    stampTax,
+    netPay: round2(totalGross - employeeSgk - employeeUnemployment - incomeTax - stampTax),
+    employerCost: round2(totalGross + employerSgk + employerUnemployment - incentiveAmount),
+  };
+}
+
+/**
+ * SGK prim günü from giriş / çıkış dates: a full month counts as 30
+ */
+export function workedDaysInPeriod(startDate: Date, endDate: Date | null, periodStart: Date, periodEnd: Date): number {
+  const from = startDate > periodStart ? startDate : periodStart;
+  const to = endDate && endDate < periodEnd ? endDate : periodEnd;
+  if (from > to) {
+    return 0;
+  }
+  if (from.getTime() === periodStart.getTime() && to.getTime() === periodEnd.getTime()) {
+    return FULL_MONTH_DAYS;
+  }
+  return Math.min(to.getDate() - from.getDate() + 1, FULL_MONTH_DAYS);
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export class PayrollService {
+  // ─── Personel ────────────────────────────────────────────────────────
+
+  async listEmployees(
+    tenantId: string,
+    clientCompanyId: string,
+    filters: { includeInactive?: boolean } = {}
+  ): Promise<EmployeeSummary[]> {
+    const employees = await prisma.employee.findMany({
+      where: { tenantId, clientCompanyId, ...(!filters.includeInactive && { isActive: true }) },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    });
+
+    return employees.map((employee) => this.mapEmployee(employee));
+  }
+
+  async createEmployee(tenantId: string, input: CreateEmployeeInput): Promise<EmployeeSummary> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: input.clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    if (!isValidTckn(input.tckn)) {
+      throw new ValidationError("Geçersiz TC kimlik numarası.", "tckn");
+    }
+
+    this.assertEmployeeFields(input);
+
+    const existing = await prisma.employee.findFirst({
+      where: { tenantId, clientCompanyId: input.clientCompanyId, tckn: input.tckn },
+    });
+
+    if (existing) {
+      throw new ValidationError("Bu TC kimlik numarasıyla kayıtlı bir personel zaten var.", "tckn");
+    }
+
+    const employee = await prisma.employee.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        tckn: input.tckn,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        sgkRegistryNumber: input.sgkRegistryNumber ?? null,
+        occupationCode: input.occupationCode ?? null,
+        department: input.department ?? null,
+        startDate: input.startDate,
+        endDate: input.endDate ?? null,
+        grossSalary: input.grossSalary,
+        incentiveCode: input.incentiveCode ?? null,
+        expenseAccountCode: input.expenseAccountCode ?? "770",
+      },
+    });
+
+    return this.mapEmployee(employee);
+  }
+
+  async updateEmployee(tenantId: string, id: string, input: UpdateEmployeeInput): Promise<EmployeeSummary> {
+    const employee = await this.findEmployee(tenantId, id);
+
+    this.assertEmployeeFields({
+      startDate: input.startDate ?? employee.startDate,
+      endDate: input.endDate !== undefined ? input.endDate : employee.endDate,
+      grossSalary: input.grossSalary ?? Number(employee.grossSalary),
+      incentiveCode: input.incentiveCode,
+    });
+
+    const updated = await prisma.employee.update({
+      where: { id: employee.id },
+      data: input,
+    });
+
+    return this.mapEmployee(updated);
+  }
+
+  async deleteEmployee(tenantId: string, id: string): Promise<void> {
+    const employee = await this.findEmployee(tenantId, id);
+
+    const payslips = await prisma.payslip.count({ where: { employeeId: employee.id } });
+    if (payslips > 0) {
+      throw new ValidationError("Bordrosu bulunan personel silinemez; işten çıkış tarihi giriniz.");
+    }
+
+    await prisma.employee.delete({ where: { id: employee.id } });
+  }
+
+  // ─── Bordro ──────────────────────────────────────────────────────────
+
+  async listRuns(tenantId: string, clientCompanyId: string): Promise<PayrollRunSummary[]> {
+    const runs = await prisma.payrollRun.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { period: "desc" },
+    });
+
+    return runs.map((run) => this.mapRun(run));
+  }
+
+  async getRun(tenantId: string, id: string): Promise<PayrollRunSummary & { payslips: PayslipSummary[] }> {
+    const run = await prisma.payrollRun.findFirst({
+      where: { id, tenantId },
+      include: { payslips: { include: { employee: true } } },
+    });
+
+    if (!run) {
+      throw new NotFoundError("Bordro bulunamadı.");
+    }
+
+    const payslips = run.payslips
+      .map((payslip) => this.mapPayslip(payslip))
+      .sort((a, b) => a.employeeName.localeCompare(b.employeeName, "tr"));
+
+    return { ...this.mapRun(run), payslips };
+  }
+
+  /**
+   * Calculate (or recalculate) the draft bordro of a month for every
+   * employee on the payroll during it
+   */
+  async calculateRun(
+    tenantId: string,
+    userId: string,
+    clientCompanyId: string,
+    period: string,
+    adjustments: PayrollAdjustment[] = []
+  ): Promise<PayrollRunSummary & { payslips: PayslipSummary[] }> {
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+    const [year, month] = period.split("-").map(Number);
+
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const existing = await prisma.payrollRun.findFirst({
+      where: { tenantId, clientCompanyId, period },
+    });
+
+    if (existing?.status === "posted") {
+      throw new ValidationError("Bu dönemin bordrosu muhasebeleştirildi; yeniden hesaplanamaz.");
+    }
+
+    const employees = await prisma.employee.findMany({
+      where: {
+        tenantId,
+        clientCompanyId,
+        startDate: { lte: periodEnd },
+        OR: [{ endDate: null }, { endDate: { gte: periodStart } }],
+      },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    });
+
+    if (employees.length === 0) {
+      throw new ValidationError("Bu dönemde çalışan personel bulunmuyor.");
+    }
+
+    const unknown = adjustments.find((adjustment) => !employees.some((e) => e.id === adjustment.employeeId));
+    if (unknown) {
+      throw new ValidationError("Düzeltme girilen personel bu dönemin bordrosunda değil.");
+    }
+
+    // Kümülatif gelir vergisi matrahı from the earlier months of the year
+    const earlier = await prisma.payslip.findMany({
+      where: {
+        tenantId,
+        employeeId: { in: employees.map((e) => e.id) },
+        payrollRun: { clientCompanyId, period: { gte: `${year}-01`, lt: period } },
+      },
+      select: { employeeId: true, incomeTaxBase: true },
+    });
+
+    const payslips = employees.map((employee) => {
+      const adjustment = adjustments.find((a) => a.employeeId === employee.id);
+      const calculation = calculatePayslip({
+        year,
+        month,
+        monthlyGrossSalary: Number(employee.grossSalary),
+        workedDays:
+          adjustment?.workedDays ?? workedDaysInPeriod(employee.startDate, employee.endDate, periodStart, periodEnd),
+        additionalPay: adjustment?.additionalPay ?? 0,
+        incentiveCode: employee.incentiveCode,
+        cumulativeIncomeTaxBaseBefore: sum(
+          earlier.filter((p) => p.employeeId === employee.id).map((p) => Number(p.incomeTaxBase))
+        ),
+      });
+      return { employeeId: employee.id, ...calculation };
+    });
+
+    const totals = {
+      employeeCount: payslips.length,
+      totalGross: round2(sum(payslips.map((p) => p.grossSalary + p.additionalPay))),
+      totalEmployeeSgk: round2(sum(payslips.map((p) => p.employeeSgk + p.employeeUnemployment))),
+      totalEmployerSgk: round2(sum(payslips.map((p) => p.employerSgk + p.employerUnemployment))),
+      totalIncentive: round2(sum(payslips.map((p) => p.incentiveAmount))),
+      totalIncomeTax: round2(sum(payslips.map((p) => p.incomeTax))),
+      totalStampTax: round2(sum(payslips.map((p) => p.stampTax))),
+      totalNet: round2(sum(payslips.map((p) => p.netPay))),
+      totalEmployerCost: round2(sum(payslips.map((p) => p.employerCost))),
+    };
+
+    const run = await prisma.$transaction(async (tx) => {
+      const saved = existing
+        ? await tx.payrollRun.update({ where: { id: existing.id }, data: totals })
+        : await tx.payrollRun.create({
+            data: { tenantId, clientCompanyId, period, status: "draft", createdByUserId: userId, ...totals },
+          });
+
+      await tx.payslip.deleteMany({ where: { payrollRunId: saved.id } });
+      await tx.payslip.createMany({
+        data: payslips.map((payslip) => ({ tenantId, payrollRunId: saved.id, ...payslip })),
+      });
+
+      return saved;
+    });
+
+    logger.info("Payroll calculated", undefined, { tenantId, clientCompanyId, period, employeeCount: payslips.length });
+
+    return this.getRun(tenantId, run.id);
+  }
+
+  async deleteRun(tenantId: string, id: string): Promise<void> {
+    const run = await this.findRun(tenantId, id);
+
+    if (run.status === "posted") {
+      throw new ValidationError("Muhasebeleştirilmiş bordro silinemez.");
+    }
+
+    await prisma.payrollRun.delete({ where: { id: run.id } });
+  }
+
+  /**
+   * Book the bordro tahakkuku of a draft run
+   */
+  async postRun(tenantId: string, userId: string, id: string): Promise<PayrollRunSummary> {
+    const run = await prisma.payrollRun.findFirst({
+      where: { id, tenantId },
+      include: { payslips: { include: { employee: true } } },
+    });
+
+    if (!run) {
+      throw new NotFoundError("Bordro bulunamadı.");
+    }
+
+    if (run.status === "posted") {
+      throw new ValidationError("Bu bordro zaten muhasebeleştirildi.");
+    }
+
+    const { periodEnd } = getPeriodBounds(run.period);
+    await accountingPeriodService.assertDateWritable(tenantId, run.clientCompanyId, periodEnd);
+
+    // Gider per account: ücret + işveren payı, net of teşvik
+    const expenses = new Map<string, number>();
+    for (const payslip of run.payslips) {
+      const code = payslip.employee.expenseAccountCode;
+      expenses.set(code, (expenses.get(code) ?? 0) + Number(payslip.employerCost));
+    }
+
+    const netPay = Number(run.totalNet);
+    const taxes = round2(Number(run.totalIncomeTax) + Number(run.totalStampTax));
+    const sgk = round2(Number(run.totalEmployeeSgk) + Number(run.totalEmployerSgk) - Number(run.totalIncentive));
+
+    const accountIds = await ledgerAccountService.resolveAccountIds(tenantId, run.clientCompanyId, [
+      ...expenses.keys(),
+      NET_PAY_ACCOUNT,
+      TAX_PAYABLE_ACCOUNT,
+      SGK_PAYABLE_ACCOUNT,
+    ]);
+
+    const description = `${run.period} dönemi ücret tahakkuku`;
+    const credits: Array<[string, number, string]> = [
+      [NET_PAY_ACCOUNT, netPay, "Net ücretler"],
+      [TAX_PAYABLE_ACCOUNT, taxes, "Gelir vergisi ve damga vergisi kesintileri"],
+      [SGK_PAYABLE_ACCOUNT, sgk, "SGK işçi ve işveren payları"],
+    ];
+
+    const posted = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          tenantId,
+          clientCompanyId: run.clientCompanyId,
+          date: periodEnd,
+          referenceNo: `BRD-${run.period}`,
+          description,
+          source: "payroll",
+          lines: {
+            create: [
+              ...[...expenses.entries()].map(([code, amount]) => ({
+                tenantId,
+                ledgerAccountId: accountIds.get(code)!,
+                debitAmount: round2(amount),
+                creditAmount: 0,
+                description,
+              })),
+              ...credits
+                .filter(([, amount]) => amount > 0)
+                .map(([code, amount, lineDescription]) => ({
+                  tenantId,
+                  ledgerAccountId: accountIds.get(code)!,
+                  debitAmount: 0,
+                  creditAmount: amount,
+                  description: lineDescription,
+                })),
+            ],
+          },
+        },
+      });
+
+      return tx.payrollRun.update({
+        where: { id: run.id },
+        data: { status: "posted", transactionId: transaction.id, postedAt: new Date() },
+      });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "PAYROLL_POSTED",
+      resourceType: "PayrollRun",
+      resourceId: run.id,
+      metadata: { clientCompanyId: run.clientCompanyId, period: run.period, transactionId: posted.transactionId },
+    });
+
+    logger.info("Payroll posted", undefined, { tenantId, payrollRunId: run.id, period: run.period });
+
+    return this.mapRun(posted);
+  }
+
+  /**
+   * MUHSGK çalışan bilgileri of a month: the SGK hizmet and vergi bildirimi
+   * rows of the muhtasar ve prim hizmet beyannamesi. Returns null when no
+   * bordro exists; with postedOnly a draft counts as none.
+   */
+  async getMuhsgkDetail(
+    tenantId: string,
+    clientCompanyId: string,
+    period: string,
+    options: { postedOnly?: boolean } = {}
+  ): Promise<MuhsgkDetail | null> {
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+    const run = await prisma.payrollRun.findFirst({
+      where: { tenantId, clientCompanyId, period, ...(options.postedOnly && { status: "posted" }) },
+      include: { payslips: { include: { employee: true } } },
+    });
+
+    if (!run) {
+      return null;
+    }
+
+    const employees = run.payslips
+      .map((payslip): MuhsgkEmployeeRow => {
+        const employee = payslip.employee;
+        return {
+          tckn: employee.tckn,
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          sgkRegistryNumber: employee.sgkRegistryNumber,
+          occupationCode: employee.occupationCode,
+          documentType: "01",
+          incentiveCode: payslip.incentiveCode,
+          workedDays: payslip.workedDays,
+          missingDays: FULL_MONTH_DAYS - payslip.workedDays,
+          startDate: employee.startDate >= periodStart ? employee.startDate : null,
+          endDate: employee.endDate && employee.endDate <= periodEnd ? employee.endDate : null,
+          grossEarnings: round2(Number(payslip.grossSalary) + Number(payslip.additionalPay)),
+          sgkBase: Number(payslip.sgkBase),
+          incomeTaxBase: Number(payslip.incomeTaxBase),
+          calculatedIncomeTax: Number(payslip.calculatedIncomeTax),
+          incomeTaxExemption: Number(payslip.incomeTaxExemption),
+          incomeTax: Number(payslip.incomeTax),
+          stampTaxExemption: Number(payslip.stampTaxExemption),
+          stampTax: Number(payslip.stampTax),
+        };
+      })
+      .sort((a, b) => a.tckn.localeCompare(b.tckn));
+
+    return {
+      period,
+      payrollRunId: run.id,
+      status: run.status as PayrollRunStatus,
+      employees,
+      totals: {
+        employeeCount: employees.length,
+        grossEarnings: round2(sum(employees.map((e) => e.grossEarnings))),
+        sgkBase: round2(sum(employees.map((e) => e.sgkBase))),
+        incomeTax: round2(sum(employees.map((e) => e.incomeTax))),
+        stampTax: round2(sum(employees.map((e) => e.stampTax))),
+      },
+    };
+  }
+
+  /**
+   * Ücret bordrosu (payslip) of one employee as PDF
+   */
+  async getPayslipPdf(tenantId: string, runId: string, payslipId: string): Promise<{ fileName: string; content: Buffer }> {
+    const run = await prisma.payrollRun.findFirst({
+      where: { id: runId, tenantId },
+      include: { clientCompany: true, payslips: { where: { id: payslipId }, include: { employee: true } } },
+    });
+
+    const payslip = run?.payslips[0];
+    if (!run || !payslip) {
+      throw new NotFoundError("Bordro bulunamadı.");
+    }
+
+    const summary = this.mapPayslip(payslip);
+    const content = await this.renderPayslipPdf(run.clientCompany.name, run.period, summary, payslip.employee);
+
+    return { fileName: `bordro_${run.period}_${payslip.employee.tckn}.pdf`, content };
+  }
+
+  private renderPayslipPdf(
+    companyName: string,
+    period: string,
+    payslip: PayslipSummary,
+    employee: { sgkRegistryNumber: string | null; department: string | null }
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, size: "A4" });
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", (error) => reject(new Error(`PDF generation failed: ${error.message}`)));
+
+      doc.fontSize(16).font("Helvetica-Bold").text("ÜCRET BORDROSU", { align: "center" });
+      doc.moveDown(0.5);
+      doc.fontSize(10).font("Helvetica");
+      doc.text(`İşveren: ${companyName}`);
+      doc.text(`Dönem: ${period}`);
+      doc.text(`Personel: ${payslip.employeeName} (TCKN ${payslip.tckn})`);
+      if (employee.sgkRegistryNumber) doc.text(`SGK Sicil No: ${employee.sgkRegistryNumber}`);
+      if (employee.department) doc.text(`Bölüm: ${employee.department}`);
+      doc.text(`Prim Günü: ${payslip.workedDays}`);
+      doc.moveDown();
+
+      const section = (title: string, rows: Array<[string, number]>) => {
+        doc.fontSize(12).font("Helvetica-Bold").text(title, { underline: true });
+        doc.moveDown(0.3);
+        doc.fontSize(10).font("Helvetica");
+        for (const [label, value] of rows) {
+          const y = doc.y;
+          doc.text(label, 50, y, { width: 330 });
+          doc.text(formatMoney(value), 380, y, { width: 165, align: "right" });
+        }
+        doc.moveDown();
+      };
+
+      section("Kazançlar", [
+        ["Ücret", payslip.grossSalary],
+        ["Ek Ödemeler (prim, ikramiye, fazla mesai)", payslip.additionalPay],
+        ["Brüt Toplam", payslip.grossSalary + payslip.additionalPay],
+      ]);
+      section("Kesintiler", [
+        ["SGK Prime Esas Kazanç", payslip.sgkBase],
+        ["SGK İşçi Payı (%14)", payslip.employeeSgk],
+        ["İşsizlik Sigortası İşçi Payı (%1)", payslip.employeeUnemployment],
+        ["Gelir Vergisi Matrahı", payslip.incomeTaxBase],
+        ["Kümülatif Gelir Vergisi Matrahı", payslip.cumulativeIncomeTaxBase],
+        ["Hesaplanan Gelir Vergisi", payslip.calculatedIncomeTax],
+        ["Asgari Ücret Gelir Vergisi İstisnası", payslip.incomeTaxExemption],
+        ["Kesilen Gelir Vergisi", payslip.incomeTax],
+        ["Hesaplanan Damga Vergisi", payslip.calculatedStampTax],
+        ["Asgari Ücret Damga Vergisi İstisnası", payslip.stampTaxExemption],
+        ["Kesilen Damga Vergisi", payslip.stampTax],
+      ]);
+      section("İşveren", [
+        ["SGK İşveren Payı", payslip.employerSgk],
+        ["İşsizlik Sigortası İşveren Payı", payslip.employerUnemployment],
+        [`Teşvik İndirimi${payslip.incentiveCode ? ` (${payslip.incentiveCode})` : ""}`, payslip.incentiveAmount],
+        ["İşveren Maliyeti", payslip.employerCost],
+      ]);
+
+      doc.fontSize(13).font("Helvetica-Bold").text(`NET ÖDENECEK: ${formatMoney(payslip.netPay)} TL`, { align: "right" });
+
+      doc.end();
+    });
+  }
+
+  private assertEmployeeFields(input: {
+    startDate?: Date;
+    endDate?: Date | null;
+    grossSalary?: number;
+    incentiveCode?: string | null;
+  }): void {
+    if (input.grossSalary !== undefined && !(input.grossSalary > 0)) {
+      throw new ValidationError("Brüt ücret sıfırdan büyük olmalıdır.", "grossSalary");
+    }
+    if (input.startDate && input.endDate && input.endDate < input.startDate) {
+      throw new ValidationError("İşten çıkış tarihi işe giriş tarihinden önce olamaz.", "endDate");
+    }
+    if (input.incentiveCode && !SGK_TESVIKLERI.some((t) => t.kanunNo === input.incentiveCode)) {
+      throw new ValidationError("Tanımsız SGK teşvik kanun numarası.", "incentiveCode");
+    }
+  }
+
+  private async findEmployee(tenantId: string, id: string) {
+    const employee = await prisma.employee.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!employee) {
+      throw new NotFoundError("Personel bulunamadı.");
+    }
+
+    return employee;
+  }
+
+  private async findRun(tenantId: string, id: string) {
+    const run = await prisma.payrollRun.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!run) {
+      throw new NotFoundError("Bordro bulunamadı.");
+    }
+
+    return run;
+  }
+
+  private mapEmployee(employee: any): EmployeeSummary {
+    return {
+      id: employee.id,
+      clientCompanyId: employee.clientCompanyId,
+      tckn: employee.tckn,
+      firstName: employee.firstName,
+      lastName: employee.lastName,
+      sgkRegistryNumber: employee.sgkRegistryNumber,
+      occupationCode: employee.occupationCode,
+      department: employee.department,
+      startDate: employee.startDate,
+      endDate: employee.endDate,
+      grossSalary: Number(employee.grossSalary),
+      incentiveCode: employee.incentiveCode,
+      expenseAccountCode: employee.expenseAccountCode,
+      isActive: employee.isActive,
+    };
+  }
+
+  private mapRun(run: any): PayrollRunSummary {
+    return {
+      id: run.id,
+      clientCompanyId: run.clientCompanyId,
+      period: run.period,
+      status: run.status,
+      employeeCount: run.employeeCount,
+      totalGross: Number(run.totalGross),
+      totalEmployeeSgk: Number(run.totalEmployeeSgk),
+      totalEmployerSgk: Number(run.totalEmployerSgk),
+      totalIncentive: Number(run.totalIncentive),
+      totalIncomeTax: Number(run.totalIncomeTax),
+      totalStampTax: Number(run.totalStampTax),
+      totalNet: Number(run.totalNet),
+      totalEmployerCost: Number(run.totalEmployerCost),
+      transactionId: run.transactionId,
+      postedAt: run.postedAt,
+    };
+  }
+
+  private mapPayslip(payslip: any): PayslipSummary {
+    return {
+      id: payslip.id,
+      employeeId: payslip.employeeId,
+      employeeName: `${payslip.employee.firstName} ${payslip.employee.lastName}`,
+      tckn: payslip.employee.tckn,
+      workedDays: payslip.workedDays,
+      grossSalary: Number(payslip.grossSalary),
+      additionalPay: Number(payslip.additionalPay),
+      sgkBase: Number(payslip.sgkBase),
+      employeeSgk: Number(payslip.employeeSgk),
+      employeeUnemployment: Number(payslip.employeeUnemployment),
+      employerSgk: Number(payslip.employerSgk),
+      employerUnemployment: Number(payslip.employerUnemployment),
+      incentiveCode: payslip.incentiveCode,
+      incentiveAmount: Number(payslip.incentiveAmount),
+      incomeTaxBase: Number(payslip.incomeTaxBase),
+      cumulativeIncomeTaxBase: Number(payslip.cumulativeIncomeTaxBase),
+      calculatedIncomeTax: Number(payslip.calculatedIncomeTax),
+      incomeTaxExemption: Number(payslip.incomeTaxExemption),
+      incomeTax: Number(payslip.incomeTax),
+      calculatedStampTax: Number(payslip.calculatedStampTax),
+      stampTaxExemption: Number(payslip.stampTaxExemption),
+      stampTax: Number(payslip.stampTax),
+      netPay: Number(payslip.netPay),
+      employerCost: Number(payslip.employerCost),
+    };
+  }
+}
+
+export const payrollService = new PayrollService();
@@ -33,6 +33,9 @@ export interface RAGContext {
       type?: string;
       clientCompanyId?: string;
       createdAt?: Date;
+      originalFileName?: string;
+      relatedInvoiceId?: string | null;
+      relatedTransactionId?: string | null;
     };
     rerankScore?: number;
   }>;
@@ -254,6 +257,9 @@ export class RAGService {
                   type: document?.type,
                   clientCompanyId: document?.clientCompanyId,
                   createdAt: document?.createdAt,
+                  originalFileName: document?.originalFileName,
+                  relatedInvoiceId: document?.relatedInvoiceId,
+                  relatedTransactionId: document?.relatedTransactionId,
                 }
               : undefined,
           };
@@ -348,6 +354,9 @@ export class RAGService {
                 type: document?.type,
                 clientCompanyId: document?.clientCompanyId,
                 createdAt: document?.createdAt,
+                originalFileName: document?.originalFileName,
+                relatedInvoiceId: document?.relatedInvoiceId,
+                relatedTransactionId: document?.relatedTransactionId,
               }
             : undefined,
         };
@@ -1,6 +1,9 @@
 import { prisma } from "../lib/prisma";
 import { NotFoundError, ValidationError } from "@repo/shared-utils";
 import { logger } from "@repo/shared-utils";
+import { counterpartyService } from "./counterparty-service";
+import { stockService } from "./stock-service";
+import { dimensionService } from "./dimension-service";
 
 export class RecurringInvoiceService {
   /**
@@ -254,6 +257,24 @@ export class RecurringInvoiceService {
           },
         });
 
+        try {
+          await counterpartyService.linkInvoice(template.tenantId, invoice.id);
+        } catch (error) {
+          logger.error(`Invoice ${invoice.id} could not be linked to a counterparty: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        try {
+          await dimensionService.applyInvoiceDefaults(template.tenantId, invoice.id);
+        } catch (error) {
+          logger.error(`Dimension defaults of invoice ${invoice.id} could not be applied: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        try {
+          await stockService.syncInvoiceMovements(template.tenantId, invoice.id);
+        } catch (error) {
+          logger.error(`Stock movements of invoice ${invoice.id} could not be synced: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
         generated++;
         logger.info(`Generated invoice ${invoice.id} from recurring template ${template.id}`);
       } catch (error) {
@@ -1,6 +1,7 @@
 import { prisma } from "../lib/prisma";
 import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
 import { aiAssistantService } from "./ai-assistant-service";
+import { budgetService } from "./budget-service";
 
 export interface ReportPeriod {
   start_date: string; // ISO date string
@@ -906,6 +907,196 @@ Lütfen 3-5 adet kısa ve öz risk azaltma önerisi sun. Her öneri bir satır o
       ],
     };
   }
+
+  /**
+   * Generate profitability per masraf merkezi / proje / şube
+   * Income and expense postings are summed per value of one dimension;
+   * postings without a value of the dimension form the "Atanmamış" row
+   */
+  async generateDimensionProfitabilityReport(
+    tenantId: string,
+    clientCompanyId: string,
+    filters: { start_date: string; end_date: string; dimension_id?: string; dimension_value_ids?: string[] }
+  ): Promise<BaseReportResult> {
+    await this.validateClientCompany(tenantId, clientCompanyId);
+
+    const dimension = await prisma.dimension.findFirst({
+      where: {
+        tenantId,
+        ...(filters.dimension_id ? { id: filters.dimension_id } : { isActive: true }),
+      },
+      orderBy: { code: "asc" },
+      include: { values: { orderBy: { code: "asc" } } },
+    });
+
+    if (!dimension) {
+      throw filters.dimension_id
+        ? new NotFoundError("Boyut bulunamadı.")
+        : new ValidationError("Kârlılık raporu için önce bir analitik boyut tanımlayın.");
+    }
+
+    const startDate = new Date(filters.start_date);
+    const endDate = new Date(filters.end_date);
+
+    const lines = await prisma.transactionLine.findMany({
+      where: {
+        tenantId,
+        transaction: {
+          clientCompanyId,
+          date: {
+            gte: startDate,
+            lte: endDate,
+          },
+        },
+        ledgerAccount: {
+          type: { in: ["income", "expense"] },
+        },
+      },
+      include: {
+        ledgerAccount: { select: { type: true } },
+        dimensions: {
+          where: { dimensionId: dimension.id },
+          select: { dimensionValueId: true },
+        },
+      },
+    });
+
+    const UNASSIGNED = "";
+    const totalsByValue = new Map<string, { income: number; expense: number }>();
+    let totalIncome = 0;
+    let totalExpense = 0;
+
+    for (const line of lines) {
+      const debit = Number(line.debitAmount);
+      const credit = Number(line.creditAmount);
+      const income = line.ledgerAccount.type === "income" ? credit - debit : 0;
+      const expense = line.ledgerAccount.type === "expense" ? debit - credit : 0;
+      totalIncome += income;
+      totalExpense += expense;
+
+      // A line tagged with several values (etiketler) counts under each of them
+      const valueIds = line.dimensions.length > 0 ? line.dimensions.map((entry) => entry.dimensionValueId) : [UNASSIGNED];
+      for (const valueId of valueIds) {
+        const totals = totalsByValue.get(valueId) ?? { income: 0, expense: 0 };
+        totals.income += income;
+        totals.expense += expense;
+        totalsByValue.set(valueId, totals);
+      }
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const selectedIds = filters.dimension_value_ids && filters.dimension_value_ids.length > 0
+      ? new Set(filters.dimension_value_ids)
+      : null;
+
+    const rows: Array<{
+      dimension_value_code: string;
+      dimension_value_name: string;
+      income: number;
+      expense: number;
+      profit: number;
+      profit_margin: number | null;
+    }> = [];
+
+    const entries: Array<{ id: string; code: string; name: string }> = [
+      ...dimension.values,
+      { id: UNASSIGNED, code: "-", name: "Atanmamış" },
+    ];
+    for (const value of entries) {
+      if (selectedIds && !selectedIds.has(value.id)) continue;
+      const totals = totalsByValue.get(value.id);
+      if (!totals) continue;
+      const profit = totals.income - totals.expense;
+      rows.push({
+        dimension_value_code: value.code,
+        dimension_value_name: value.name,
+        income: round(totals.income),
+        expense: round(totals.expense),
+        profit: round(profit),
+        profit_margin: totals.income !== 0 ? round((profit / totals.income) * 100) : null,
+      });
+    }
+
+    return {
+      title: `${dimension.name} Bazında Kârlılık`,
+      period: {
+        start_date: filters.start_date,
+        end_date: filters.end_date,
+      },
+      generated_at: new Date().toISOString(),
+      rows,
+      totals: {
+        dimension: { id: dimension.id, code: dimension.code, name: dimension.name },
+        totalIncome: round(totalIncome),
+        totalExpense: round(totalExpense),
+        netIncome: round(totalIncome - totalExpense),
+        unassignedShare: totalExpense !== 0
+          ? round(((totalsByValue.get(UNASSIGNED)?.expense ?? 0) / totalExpense) * 100)
+          : 0,
+      },
+      meta: {
+        row_count: rows.length,
+        row_limit_applied: false,
+      },
+    };
+  }
+
+  /**
+   * Generate budget vs actual for the month of the end date and the year
+   * to date, against the approved budget of that fiscal year
+   */
+  async generateBudgetVarianceReport(
+    tenantId: string,
+    clientCompanyId: string,
+    filters: { start_date: string; end_date: string }
+  ): Promise<BaseReportResult> {
+    await this.validateClientCompany(tenantId, clientCompanyId);
+
+    const endDate = new Date(filters.end_date);
+    const fiscalYear = endDate.getFullYear();
+    const month = endDate.getMonth() + 1;
+
+    const budget = await budgetService.findApproved(tenantId, clientCompanyId, fiscalYear);
+    if (!budget) {
+      throw new ValidationError(`${fiscalYear} yılı için onaylanmış bütçe bulunamadı.`);
+    }
+
+    const variance = await budgetService.getVariance(tenantId, budget.id, month);
+    const rows = variance.rows.map((row) => ({
+      account_code: row.accountCode,
+      account_name: row.accountName,
+      dimension_value: row.dimensionValueName ?? "",
+      budget: row.budget,
+      actual: row.actual,
+      variance: row.variance,
+      variance_percent: row.variancePercent,
+      ytd_budget: row.ytdBudget,
+      ytd_actual: row.ytdActual,
+      ytd_variance: row.ytdVariance,
+      over_threshold: row.overThreshold,
+    }));
+
+    return {
+      title: `${budget.name} (v${budget.version}) - Bütçe / Fiili`,
+      period: {
+        start_date: filters.start_date,
+        end_date: filters.end_date,
+      },
+      generated_at: new Date().toISOString(),
+      rows,
+      totals: {
+        budgetId: budget.id,
+        fiscalYear,
+        month,
+        alertThresholdPercent: variance.alertThresholdPercent,
+        ...variance.totals,
+      },
+      meta: {
+        row_count: rows.length,
+        row_limit_applied: false,
+      },
+    };
+  }
 }
 
 export const reportingService = new ReportingService();
@@ -1,14 +1,120 @@
+import { createHash, randomUUID } from "crypto";
+import { Readable } from "stream";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma";
-import { NotFoundError, logger } from "@repo/shared-utils";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { getStorage } from "@repo/config";
 import type {
   RiskAlert,
   CreateRiskAlertInput,
   UpdateRiskAlertInput,
   RiskAlertStatus,
+  RiskAlertSeverity,
+  RiskAlertDisposition,
 } from "@repo/core-domain";
 import { notificationService } from "./notification-service";
 import { emailService } from "./email-service";
 
+/**
+ * Hours an alert may stay unresolved, by severity. The case due date is
+ * derived from this when the alert is raised.
+ */
+export const RISK_ALERT_SLA_HOURS: Record<RiskAlertSeverity, number> = {
+  critical: 24,
+  high: 72,
+  medium: 7 * 24,
+  low: 14 * 24,
+};
+
+/**
+ * Dispositions that confirm an alert was a real finding. Rule feedback,
+X
+ */
+export const CONFIRMED_DISPOSITIONS: RiskAlertDisposition[] = ["corrected", "reported_to_masak", "escalated"];
+
+const SEVERITY_RANK: Record<RiskAlertSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const OPEN_STATUSES: RiskAlertStatus[] = ["open", "in_progress"];
+
+const EVIDENCE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp", "application/pdf"];
+
+export type RiskAlertEventType =
+  | "created"
+  | "reraised"
+  | "assigned"
+  | "due_changed"
+  | "status_changed"
+  | "comment_added"
+  | "evidence_added"
+  | "disposed"
+  | "merged"
+  | "merged_into";
+
+export type RiskAlertEvidenceInput =
+  | { type: "document"; documentId: string; description?: string | null }
+  | { type: "transaction"; transactionId: string; description?: string | null };
+
+export interface RiskAlertEvidenceFile {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface RiskAlertCommentView {
+  id: string;
+  parentCommentId: string | null;
+  authorUserId: string;
+  authorName: string | null;
+  body: string;
+  createdAt: Date;
+}
+
+export interface RiskAlertEvidenceView {
+  id: string;
+  type: "document" | "transaction" | "file";
+  documentId: string | null;
+  transactionId: string | null;
+  fileName: string | null;
+  contentType: string | null;
+  sizeBytes: number | null;
+  checksum: string | null;
+  description: string | null;
+  addedByUserId: string;
+  addedByName: string | null;
+  createdAt: Date;
+}
+
+export interface RiskAlertEventView {
+  id: string;
+  type: RiskAlertEventType;
+  actorUserId: string | null;
+  actorName: string | null;
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface RiskAlertCase extends RiskAlert {
+  clientCompany: { id: string; name: string } | null;
+  document: { id: string; originalFileName: string } | null;
+  assigneeName: string | null;
+  isOverdue: boolean;
+  comments: RiskAlertCommentView[];
+  evidence: RiskAlertEvidenceView[];
+  history: RiskAlertEventView[];
+  mergedAlerts: Array<{ id: string; title: string; severity: RiskAlertSeverity; createdAt: Date }>;
+}
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Due date for a case raised at `from` with the given severity
+ */
+export function computeAlertDueAt(severity: RiskAlertSeverity, from: Date = new Date()): Date {
+  const hours = RISK_ALERT_SLA_HOURS[severity] ?? RISK_ALERT_SLA_HOURS.medium;
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
 export class RiskAlertService {
   private mapToRiskAlert(alert: any): RiskAlert {
     return {
@@ -23,6 +129,12 @@ export class RiskAlertService {
       status: alert.status as RiskAlertStatus,
       resolvedAt: alert.resolvedAt,
       resolvedByUserId: alert.resolvedByUserId,
+      assigneeUserId: alert.assigneeUserId ?? null,
+      dueAt: alert.dueAt ?? null,
+      disposition: (alert.disposition as RiskAlertDisposition | null) ?? null,
+      dispositionNote: alert.dispositionNote ?? null,
+      ruleCodes: alert.ruleCodes ?? [],
+      mergedIntoId: alert.mergedIntoId ?? null,
       createdAt: alert.createdAt,
       updatedAt: alert.updatedAt,
     };
@@ -50,14 +162,29 @@ export class RiskAlertService {
 
     if (existing) {
       // Update existing alert instead of creating duplicate
+      const ruleCodes = Array.from(new Set([...(existing.ruleCodes ?? []), ...(input.ruleCodes ?? [])]));
+      const escalated =
+        SEVERITY_RANK[input.severity] > SEVERITY_RANK[existing.severity as RiskAlertSeverity];
+      // A higher severity brings the due date forward, never back
+      const tighterDueAt = computeAlertDueAt(input.severity);
+      const dueAt =
+        escalated && (!existing.dueAt || tighterDueAt < existing.dueAt) ? tighterDueAt : existing.dueAt;
+
       const updated = await prisma.riskAlert.update({
         where: { id: existing.id },
         data: {
           message: input.message,
           severity: input.severity,
+          ruleCodes,
+          dueAt,
           updatedAt: new Date(),
         },
       });
+      await this.recordEvent(prisma, input.tenantId, existing.id, "reraised", null, {
+        previousSeverity: existing.severity,
+        severity: input.severity,
+        ruleCodes: input.ruleCodes ?? [],
+      });
       return this.mapToRiskAlert(updated);
     }
 
@@ -71,8 +198,15 @@ export class RiskAlertService {
         message: input.message,
         severity: input.severity,
         status: input.status || "open",
+        dueAt: computeAlertDueAt(input.severity),
+        ruleCodes: input.ruleCodes ?? [],
       },
     });
+    await this.recordEvent(prisma, input.tenantId, alert.id, "created", null, {
+      type: input.type,
+      severity: input.severity,
+      ruleCodes: input.ruleCodes ?? [],
+    });
 
     // Create notification for risk alert
     try {
@@ -151,6 +285,9 @@ export class RiskAlertService {
       clientCompanyId?: string;
       severity?: string;
       status?: RiskAlertStatus;
+      assigneeUserId?: string;
+      overdue?: boolean;
+      disposition?: RiskAlertDisposition;
       dateFrom?: Date;
       dateTo?: Date;
       page?: number;
@@ -183,6 +320,19 @@ export class RiskAlertService {
       where.status = filters.status;
     }
 
+    if (filters.assigneeUserId) {
+      where.assigneeUserId = filters.assigneeUserId;
+    }
+
+    if (filters.overdue) {
+      where.dueAt = { lt: new Date() };
+      where.status = { in: OPEN_STATUSES };
+    }
+
+    if (filters.disposition) {
+      where.disposition = filters.disposition;
+    }
+
     if (filters.dateFrom || filters.dateTo) {
       where.createdAt = {};
       if (filters.dateFrom) {
@@ -227,20 +377,21 @@ export class RiskAlertService {
   }
 
   /**
-   * Update alert status
+   * Update alert status. Closing a case requires a disposition; reopening
+   * clears it so that tuning statistics only count final decisions.
    */
   async updateAlertStatus(
     tenantId: string,
     alertId: string,
     status: RiskAlertStatus,
-    userId: string
+    userId: string,
+    resolution: { disposition?: Exclude<RiskAlertDisposition, "duplicate">; note?: string | null } = {}
   ): Promise<RiskAlert> {
-    const alert = await prisma.riskAlert.findUnique({
-      where: { id: alertId },
-    });
+    const alert = await this.getAlertRecord(tenantId, alertId);
+    this.assertNotMerged(alert);
 
-    if (!alert || alert.tenantId !== tenantId) {
-      throw new NotFoundError("Uyarı bulunamadı.");
+    if (status === "closed" && !resolution.disposition) {
+      throw new ValidationError("Vakayı kapatmak için bir sonuç kodu seçilmelidir.", "disposition");
     }
 
     const updateData: any = {
@@ -251,19 +402,457 @@ export class RiskAlertService {
     if (status === "closed" || status === "ignored") {
       updateData.resolvedAt = new Date();
       updateData.resolvedByUserId = userId;
+      updateData.disposition = status === "closed" ? resolution.disposition : null;
+      updateData.dispositionNote = resolution.note ?? null;
     } else {
       // If reopening, clear resolved fields
       updateData.resolvedAt = null;
       updateData.resolvedByUserId = null;
+      updateData.disposition = null;
+      updateData.dispositionNote = null;
     }
 
-    const updated = await prisma.riskAlert.update({
-      where: { id: alertId },
-      data: updateData,
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.riskAlert.update({
+        where: { id: alertId },
+        data: updateData,
+      });
+      if (alert.status !== status) {
+        await this.recordEvent(tx, tenantId, alertId, "status_changed", userId, { from: alert.status, to: status });
+      }
+      if (status === "closed") {
+        await this.recordEvent(tx, tenantId, alertId, "disposed", userId, {
+          disposition: resolution.disposition,
+          note: resolution.note ?? null,
+        });
+      }
+      return result;
     });
 
     return this.mapToRiskAlert(updated);
   }
+
+  /**
+   * Full case view with comments, evidence and history
+   */
+  async getCase(tenantId: string, alertId: string): Promise<RiskAlertCase> {
+    const alert = await prisma.riskAlert.findFirst({
+      where: { id: alertId, tenantId },
+      include: {
+        clientCompany: { select: { id: true, name: true } },
+        document: { select: { id: true, originalFileName: true } },
+        comments: { orderBy: { createdAt: "asc" } },
+        evidence: { orderBy: { createdAt: "asc" } },
+        events: { orderBy: { createdAt: "asc" } },
+        mergedAlerts: {
+          select: { id: true, title: true, severity: true, createdAt: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!alert) {
+      throw new NotFoundError("Uyarı bulunamadı.");
+    }
+
+    const userIds = new Set<string>();
+    if (alert.assigneeUserId) userIds.add(alert.assigneeUserId);
+    alert.comments.forEach((comment) => userIds.add(comment.authorUserId));
+    alert.evidence.forEach((item) => userIds.add(item.addedByUserId));
+    alert.events.forEach((event) => event.actorUserId && userIds.add(event.actorUserId));
+
+    const users = userIds.size
+      ? await prisma.user.findMany({
+          where: { id: { in: Array.from(userIds) } },
+          select: { id: true, fullName: true },
+        })
+      : [];
+    const names = new Map(users.map((user) => [user.id, user.fullName]));
+
+    return {
+      ...this.mapToRiskAlert(alert),
+      clientCompany: alert.clientCompany,
+      document: alert.document,
+      assigneeName: alert.assigneeUserId ? names.get(alert.assigneeUserId) ?? null : null,
+      isOverdue: this.isOverdue(alert),
+      comments: alert.comments.map((comment) => ({
+        id: comment.id,
+        parentCommentId: comment.parentCommentId,
+        authorUserId: comment.authorUserId,
+        authorName: names.get(comment.authorUserId) ?? null,
+        body: comment.body,
+        createdAt: comment.createdAt,
+      })),
+      evidence: alert.evidence.map((item) => this.mapEvidence(item, names)),
+      history: alert.events.map((event) => ({
+        id: event.id,
+        type: event.type as RiskAlertEventType,
+        actorUserId: event.actorUserId,
+        actorName: event.actorUserId ? names.get(event.actorUserId) ?? null : null,
+        data: (event.data as Record<string, unknown>) ?? {},
+        createdAt: event.createdAt,
+      })),
+      mergedAlerts: alert.mergedAlerts.map((merged) => ({
+        ...merged,
+        severity: merged.severity as RiskAlertSeverity,
+      })),
+    };
+  }
+
+  /**
+   * Assign the case to a tenant member, or unassign it with null
+   */
+  async assignAlert(
+    tenantId: string,
+    userId: string,
+    alertId: string,
+    assigneeUserId: string | null
+  ): Promise<RiskAlert> {
+    const alert = await this.getAlertRecord(tenantId, alertId);
+    this.assertNotMerged(alert);
+
+    if (assigneeUserId) {
+      const membership = await prisma.userTenantMembership.findFirst({
+        where: { tenantId, userId: assigneeUserId, status: "active" },
+      });
+      if (!membership) {
+        throw new NotFoundError("Kullanıcı bu kiracıya ait değil.");
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.riskAlert.update({
+        where: { id: alertId },
+        data: { assigneeUserId },
+      });
+      await this.recordEvent(tx, tenantId, alertId, "assigned", userId, {
+        from: alert.assigneeUserId,
+        to: assigneeUserId,
+      });
+      return result;
+    });
+
+    if (assigneeUserId && assigneeUserId !== userId) {
+      try {
+        await notificationService.createNotification({
+          tenantId,
+          userId: assigneeUserId,
+          type: "RISK_ALERT",
+          title: "Risk vakası size atandı",
+          message: `${alert.title}${alert.dueAt ? ` · Son tarih: ${alert.dueAt.toLocaleDateString("tr-TR")}` : ""}`,
+          meta: { riskAlertId: alertId },
+        });
+      } catch (error) {
+        logger.error("[RiskAlertService] Failed to notify assignee:", { error });
+      }
+    }
+
+    return this.mapToRiskAlert(updated);
+  }
+
+  /**
+   * Move the case due date away from the severity SLA
+   */
+  async setDueDate(
+    tenantId: string,
+    userId: string,
+    alertId: string,
+    dueAt: Date,
+    reason?: string | null
+  ): Promise<RiskAlert> {
+    const alert = await this.getAlertRecord(tenantId, alertId);
+    this.assertNotMerged(alert);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.riskAlert.update({
+        where: { id: alertId },
+        data: { dueAt },
+      });
+      await this.recordEvent(tx, tenantId, alertId, "due_changed", userId, {
+        from: alert.dueAt?.toISOString() ?? null,
+        to: dueAt.toISOString(),
+        reason: reason ?? null,
+      });
+      return result;
+    });
+
+    return this.mapToRiskAlert(updated);
+  }
+
+  /**
+   * Add a comment, optionally as a reply to another comment on the same case
+   */
+  async addComment(
+    tenantId: string,
+    userId: string,
+    alertId: string,
+    body: string,
+    parentCommentId?: string | null
+  ): Promise<RiskAlertCommentView> {
+    await this.getAlertRecord(tenantId, alertId);
+
+    if (parentCommentId) {
+      const parent = await prisma.riskAlertComment.findFirst({
+        where: { id: parentCommentId, tenantId, alertId },
+      });
+      if (!parent) {
+        throw new NotFoundError("Yanıtlanan yorum bulunamadı.");
+      }
+    }
+
+    const comment = await prisma.$transaction(async (tx) => {
+      const created = await tx.riskAlertComment.create({
+        data: { tenantId, alertId, parentCommentId: parentCommentId ?? null, authorUserId: userId, body },
+      });
+      await this.recordEvent(tx, tenantId, alertId, "comment_added", userId, {
+        commentId: created.id,
+        parentCommentId: parentCommentId ?? null,
+      });
+      return created;
+    });
+
+    return {
+      id: comment.id,
+      parentCommentId: comment.parentCommentId,
+      authorUserId: comment.authorUserId,
+      authorName: null,
+      body: comment.body,
+      createdAt: comment.createdAt,
+    };
+  }
+
+  /**
+   * Attach a document or transaction of the tenant as evidence
+   */
+  async addEvidence(
+    tenantId: string,
+    userId: string,
+    alertId: string,
+    input: RiskAlertEvidenceInput
+  ): Promise<RiskAlertEvidenceView> {
+    await this.getAlertRecord(tenantId, alertId);
+
+    if (input.type === "document") {
+      const document = await prisma.document.findFirst({ where: { id: input.documentId, tenantId } });
+      if (!document) {
+        throw new NotFoundError("Belge bulunamadı.");
+      }
+    } else {
+      const transaction = await prisma.transaction.findFirst({ where: { id: input.transactionId, tenantId } });
+      if (!transaction) {
+        throw new NotFoundError("Muhasebe fişi bulunamadı.");
+      }
+    }
+
+    return this.createEvidence(tenantId, userId, alertId, {
+      type: input.type,
+      documentId: input.type === "document" ? input.documentId : null,
+      transactionId: input.type === "transaction" ? input.transactionId : null,
+      description: input.description ?? null,
+    });
+  }
+
+  /**
+   * Store an uploaded file (e.g. a screenshot) as evidence
+   */
+  async addEvidenceFile(
+    tenantId: string,
+    userId: string,
+    alertId: string,
+    file: RiskAlertEvidenceFile,
+    description?: string | null
+  ): Promise<RiskAlertEvidenceView> {
+    await this.getAlertRecord(tenantId, alertId);
+
+    if (!EVIDENCE_MIME_TYPES.includes(file.mimeType)) {
+      throw new ValidationError("Kanıt dosyası PNG, JPEG, WEBP veya PDF olmalıdır.", "file");
+    }
+
+    const fileName = file.originalName.replace(/[^\w.\-]+/g, "_");
+    const storagePath = `risk-alerts/${alertId}/${randomUUID()}-${fileName}`;
+    await getStorage().uploadObject(tenantId, storagePath, Readable.from(file.buffer), {
+      contentType: file.mimeType,
+      contentLength: file.size,
+    });
+
+    return this.createEvidence(tenantId, userId, alertId, {
+      type: "file",
+      fileName: file.originalName,
+      contentType: file.mimeType,
+      sizeBytes: file.size,
+      storagePath,
+      checksum: createHash("sha256").update(file.buffer).digest("hex"),
+      description: description ?? null,
+    });
+  }
+
+  /**
+   * Open an uploaded evidence file for download
+   */
+  async getEvidenceFileStream(
+    tenantId: string,
+    alertId: string,
+    evidenceId: string
+  ): Promise<{ evidence: RiskAlertEvidenceView; stream: Readable }> {
+    const evidence = await prisma.riskAlertEvidence.findFirst({
+      where: { id: evidenceId, alertId, tenantId, type: "file" },
+    });
+
+    if (!evidence || !evidence.storagePath) {
+      throw new NotFoundError("Kanıt dosyası bulunamadı.");
+    }
+
+    const stream = await getStorage().getObjectStream(tenantId, evidence.storagePath);
+    return { evidence: this.mapEvidence(evidence, new Map()), stream };
+  }
+
+  /**
+   * Merge duplicate alerts into a target case. The duplicates are closed with
+   * the "duplicate" disposition and keep their own history.
+   */
+  async mergeAlerts(
+    tenantId: string,
+    userId: string,
+    targetAlertId: string,
+    duplicateAlertIds: string[]
+  ): Promise<RiskAlert> {
+    const target = await this.getAlertRecord(tenantId, targetAlertId);
+    this.assertNotMerged(target);
+
+    const ids = Array.from(new Set(duplicateAlertIds)).filter((id) => id !== targetAlertId);
+    if (ids.length === 0) {
+      throw new ValidationError("Birleştirilecek en az bir uyarı seçilmelidir.", "alertIds");
+    }
+    if (!OPEN_STATUSES.includes(target.status as RiskAlertStatus)) {
+      throw new ValidationError("Kapatılmış bir vakaya uyarı birleştirilemez.", "targetAlertId");
+    }
+
+    const duplicates = await prisma.riskAlert.findMany({
+      where: { id: { in: ids }, tenantId },
+    });
+    if (duplicates.length !== ids.length) {
+      throw new NotFoundError("Uyarı bulunamadı.");
+    }
+    if (duplicates.some((alert) => alert.mergedIntoId)) {
+      throw new ValidationError("Seçilen uyarılardan biri zaten başka bir vakaya birleştirilmiş.", "alertIds");
+    }
+
+    const severity = [target, ...duplicates]
+      .map((alert) => alert.severity as RiskAlertSeverity)
+      .reduce((max, current) => (SEVERITY_RANK[current] > SEVERITY_RANK[max] ? current : max));
+    const ruleCodes = Array.from(new Set([target, ...duplicates].flatMap((alert) => alert.ruleCodes ?? [])));
+    const now = new Date();
+
+    const updated = await prisma.$transaction(async (tx) => {
+      for (const duplicate of duplicates) {
+        await tx.riskAlert.update({
+          where: { id: duplicate.id },
+          data: {
+            status: "closed",
+            disposition: "duplicate",
+            mergedIntoId: targetAlertId,
+            resolvedAt: now,
+            resolvedByUserId: userId,
+          },
+        });
+        await this.recordEvent(tx, tenantId, duplicate.id, "merged_into", userId, { targetAlertId });
+      }
+
+      const result = await tx.riskAlert.update({
+        where: { id: targetAlertId },
+        data: { severity, ruleCodes },
+      });
+      await this.recordEvent(tx, tenantId, targetAlertId, "merged", userId, {
+        alertIds: duplicates.map((alert) => alert.id),
+        previousSeverity: target.severity,
+        severity,
+      });
+      return result;
+    });
+
+    return this.mapToRiskAlert(updated);
+  }
+
+  private async createEvidence(
+    tenantId: string,
+    userId: string,
+    alertId: string,
+    data: Omit<Prisma.RiskAlertEvidenceUncheckedCreateInput, "tenantId" | "alertId" | "addedByUserId">
+  ): Promise<RiskAlertEvidenceView> {
+    const evidence = await prisma.$transaction(async (tx) => {
+      const created = await tx.riskAlertEvidence.create({
+        data: { ...data, tenantId, alertId, addedByUserId: userId },
+      });
+      await this.recordEvent(tx, tenantId, alertId, "evidence_added", userId, {
+        evidenceId: created.id,
+        type: created.type,
+        documentId: created.documentId,
+        transactionId: created.transactionId,
+        fileName: created.fileName,
+        checksum: created.checksum,
+      });
+      return created;
+    });
+
+    return this.mapEvidence(evidence, new Map());
+  }
+
+  private async getAlertRecord(tenantId: string, alertId: string) {
+    const alert = await prisma.riskAlert.findUnique({
+      where: { id: alertId },
+    });
+
+    if (!alert || alert.tenantId !== tenantId) {
+      throw new NotFoundError("Uyarı bulunamadı.");
+    }
+
+    return alert;
+  }
+
+  private assertNotMerged(alert: { mergedIntoId: string | null }): void {
+    if (alert.mergedIntoId) {
+      throw new ValidationError("Bu uyarı başka bir vakaya birleştirilmiş; işlemleri ana vaka üzerinden yapın.");
+    }
+  }
+
+  private isOverdue(alert: { dueAt: Date | null; status: string }): boolean {
+    return (
+      !!alert.dueAt && OPEN_STATUSES.includes(alert.status as RiskAlertStatus) && alert.dueAt.getTime() < Date.now()
+    );
+  }
+
+  private mapEvidence(evidence: any, names: Map<string, string>): RiskAlertEvidenceView {
+    return {
+      id: evidence.id,
+      type: evidence.type,
+      documentId: evidence.documentId,
+      transactionId: evidence.transactionId,
+      fileName: evidence.fileName,
+      contentType: evidence.contentType,
+      sizeBytes: evidence.sizeBytes,
+      checksum: evidence.checksum,
+      description: evidence.description,
+      addedByUserId: evidence.addedByUserId,
+      addedByName: names.get(evidence.addedByUserId) ?? null,
+      createdAt: evidence.createdAt,
+    };
+  }
+
+  /**
+   * Append to the case history. Events are never updated or deleted.
+   */
+  private async recordEvent(
+    client: PrismaClientLike,
+    tenantId: string,
+    alertId: string,
+    type: RiskAlertEventType,
+    actorUserId: string | null,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    await client.riskAlertEvent.create({
+      data: { tenantId, alertId, type, actorUserId, data: data as Prisma.InputJsonValue },
+    });
+  }
 }
 
 export const riskAlertService = new RiskAlertService();
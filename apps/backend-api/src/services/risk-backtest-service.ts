@@ -0,0 +1,688 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import type { RiskRule, RiskRuleScope, RiskSeverity } from "@repo/core-domain";
+import { riskRuleService } from "./risk-rule-service";
+import { riskRuleEngine } from "./risk-rule-engine";
+import { notificationService } from "./notification-service";
+import { CONFIRMED_DISPOSITIONS } from "./risk-alert-service";
+import {
+  BUILT_IN_RULES,
+  referencedCollections,
+  resolveRuleCondition,
+  validateCondition,
+  type RuleCondition,
+  type RuleFacts,
+} from "./risk-rule-language";
+
+/**
+ * A change to the tenant's active rule set. A code that is not active adds a
+ * rule, isActive false drops one. config is merged into the rule's config, so
+ * a built-in rule's threshold can be tried without writing a condition.
+ */
+export interface ProposedRuleChange {
+  code: string;
+  description?: string;
+  weight?: number;
+  defaultSeverity?: RiskSeverity;
+  config?: Record<string, unknown>;
+  condition?: RuleCondition;
+  isActive?: boolean;
+}
+
+export type RiskBacktestStatus = "pending" | "running" | "completed" | "failed";
+
+export interface CreateRiskBacktestInput {
+  scope: RiskRuleScope;
+  clientCompanyId?: string | null;
+  windowStart: Date;
+  windowEnd: Date;
+  proposedRules: ProposedRuleChange[];
+}
+
+/**
+ * How the past alert cases of a subject were closed, used as ground truth:
+ * confirmed (corrected, reported or escalated), false_positive, open (raised
+ * but not closed with a disposition) or none (never raised)
+ */
+export type BacktestOutcome = "confirmed" | "false_positive" | "open" | "none";
+
+export interface BacktestEvaluation {
+  score: number;
+  severity: RiskSeverity;
+  triggeredRuleCodes: string[];
+  alert: boolean;
+}
+
+export interface BacktestRuleSetSummary {
+  evaluated: number;
+  alerts: number;
+  severityDistribution: Record<RiskSeverity, number>;
+  averageScore: number;
+  truePositives: number; // alerts on subjects whose past case was confirmed
+  falsePositives: number; // alerts on subjects whose past case was closed as false positive
+  unlabeled: number; // alerts on subjects without a closed past case
+  precision: number | null; // null while no alert hits a closed case
+  missedConfirmed: number; // confirmed past cases the rule set would not raise
+  ruleHits: Record<string, number>;
+}
+
+export interface BacktestRuleDiff {
+  code: string;
+  change: "added" | "modified" | "removed" | "unchanged";
+  currentWeight: number | null;
+  proposedWeight: number | null;
+  currentHits: number;
+  proposedHits: number;
+}
+
+export interface BacktestSubjectDiff {
+  subjectType: RiskRuleScope;
+  subjectId: string;
+  label: string; // file name or company name
+  clientCompanyId: string;
+  asOf: string;
+  current: BacktestEvaluation;
+  proposed: BacktestEvaluation;
+  pastOutcome: BacktestOutcome;
+}
+
+export interface RiskBacktestResult {
+  current: BacktestRuleSetSummary;
+  proposed: BacktestRuleSetSummary;
+  rules: BacktestRuleDiff[];
+  newAlerts: number;
+  clearedAlerts: number;
+  severityChanges: number; // subjects alerted by both sets, or neither, with a different severity
+  changedSubjects: BacktestSubjectDiff[]; // first MAX_CHANGED_SUBJECTS only
+  skipped: number; // subjects whose facts could not be built, e.g. documents without risk features
+  truncated: boolean; // the window held more than MAX_SUBJECTS subjects
+}
+
+export interface RiskBacktest {
+  id: string;
+  tenantId: string;
+  scope: RiskRuleScope;
+  clientCompanyId: string | null;
+  windowStart: Date;
+  windowEnd: Date;
+  proposedRules: ProposedRuleChange[];
+  status: RiskBacktestStatus;
+  totalCount: number;
+  processedCount: number;
+  result: RiskBacktestResult | null;
+  errorMessage: string | null;
+  requestedByUserId: string;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface BacktestSubject {
+  id: string;
+  label: string;
+  clientCompanyId: string;
+  asOf: Date;
+  outcome: BacktestOutcome;
+}
+
+const MAX_WINDOW_DAYS = 366;
+const MAX_SUBJECTS = 2000;
+const MAX_CHANGED_SUBJECTS = 200;
+const PROGRESS_EVERY = 25;
+
+// The worker raises a case for high severity scores only
+const ALERT_SEVERITY: RiskSeverity = "high";
+
+/**
+ * Apply proposed changes to a scope's active rules. The result is only used
+ * for scoring; nothing is saved.
+ */
+export function applyRuleChanges(
+  rules: RiskRule[],
+  changes: ProposedRuleChange[],
+  tenantId: string,
+  scope: RiskRuleScope
+): RiskRule[] {
+  const byCode = new Map(rules.map((rule) => [rule.code, rule]));
+
+  for (const change of changes) {
+    const existing = byCode.get(change.code);
+    if (change.isActive === false) {
+      byCode.delete(change.code);
+      continue;
+    }
+
+    const config = {
+      ...(existing?.config ?? {}),
+      ...(change.config ?? {}),
+      ...(change.condition ? { condition: change.condition } : {}),
+    };
+
+    if (existing) {
+      byCode.set(change.code, {
+        ...existing,
+        description: change.description ?? existing.description,
+        weight: change.weight ?? existing.weight,
+        defaultSeverity: change.defaultSeverity ?? existing.defaultSeverity,
+        config,
+      });
+    } else {
+      const now = new Date();
+      byCode.set(change.code, {
+        id: `proposed:${change.code}`,
+        tenantId,
+        scope,
+        code: change.code,
+        description: change.description ?? change.code,
+        weight: change.weight ?? 0,
+        isActive: true,
+        defaultSeverity: change.defaultSeverity ?? "medium",
+        config,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  return Array.from(byCode.values());
+}
+
+/**
+ * End of each calendar month inside the window, and the window end itself.
+ * Client companies are replayed at these points, like the daily calculation
+ * would have seen them.
+ */
+export function companyCheckpoints(windowStart: Date, windowEnd: Date): Date[] {
+  const checkpoints: Date[] = [];
+  let year = windowStart.getUTCFullYear();
+  let month = windowStart.getUTCMonth();
+  for (;;) {
+    const monthEnd = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
+    if (monthEnd >= windowEnd) break;
+    checkpoints.push(monthEnd);
+    month += 1;
+    if (month === 12) {
+      month = 0;
+      year += 1;
+    }
+  }
+  checkpoints.push(windowEnd);
+  return checkpoints;
+}
+
+function outcomeOf(alerts: Array<{ disposition: string | null }>): BacktestOutcome {
+  if (alerts.some((alert) => alert.disposition && (CONFIRMED_DISPOSITIONS as string[]).includes(alert.disposition))) {
+    return "confirmed";
+  }
+  if (alerts.some((alert) => alert.disposition === "false_positive")) {
+    return "false_positive";
+  }
+  return alerts.length > 0 ? "open" : "none";
+}
+
+function emptySummary(): BacktestRuleSetSummary {
+  return {
+    evaluated: 0,
+    alerts: 0,
+    severityDistribution: { low: 0, medium: 0, high: 0, critical: 0 },
+    averageScore: 0,
+    truePositives: 0,
+    falsePositives: 0,
+    unlabeled: 0,
+    precision: null,
+    missedConfirmed: 0,
+    ruleHits: {},
+  };
+}
+
+function addToSummary(summary: BacktestRuleSetSummary, evaluation: BacktestEvaluation, outcome: BacktestOutcome): void {
+  summary.evaluated += 1;
+  summary.averageScore += evaluation.score; // running total until finishSummary
+  summary.severityDistribution[evaluation.severity] += 1;
+  for (const code of evaluation.triggeredRuleCodes) {
+    summary.ruleHits[code] = (summary.ruleHits[code] ?? 0) + 1;
+  }
+
+  if (!evaluation.alert) {
+    if (outcome === "confirmed") summary.missedConfirmed += 1;
+    return;
+  }
+  summary.alerts += 1;
+  if (outcome === "confirmed") summary.truePositives += 1;
+  else if (outcome === "false_positive") summary.falsePositives += 1;
+  else summary.unlabeled += 1;
+}
+
+function finishSummary(summary: BacktestRuleSetSummary): BacktestRuleSetSummary {
+  const labeled = summary.truePositives + summary.falsePositives;
+  return {
+    ...summary,
+    averageScore: summary.evaluated > 0 ? Math.round((summary.averageScore / summary.evaluated) * 100) / 100 : 0,
+    precision: labeled > 0 ? Math.round((summary.truePositives / labeled) * 1000) / 1000 : null,
+  };
+}
+
+function diffRules(
+  current: RiskRule[],
+  proposed: RiskRule[],
+  currentHits: Record<string, number>,
+  proposedHits: Record<string, number>
+): BacktestRuleDiff[] {
+  const currentByCode = new Map(current.map((rule) => [rule.code, rule]));
+  const proposedByCode = new Map(proposed.map((rule) => [rule.code, rule]));
+  const codes = Array.from(new Set([...currentByCode.keys(), ...proposedByCode.keys()])).sort();
+
+  return codes.map((code) => {
+    const before = currentByCode.get(code);
+    const after = proposedByCode.get(code);
+    let change: BacktestRuleDiff["change"] = "unchanged";
+    if (!before) change = "added";
+    else if (!after) change = "removed";
+    else if (
+      before.weight !== after.weight ||
+      JSON.stringify(before.config ?? {}) !== JSON.stringify(after.config ?? {})
+    ) {
+      change = "modified";
+    }
+    return {
+      code,
+      change,
+      currentWeight: before?.weight ?? null,
+      proposedWeight: after?.weight ?? null,
+      currentHits: currentHits[code] ?? 0,
+      proposedHits: proposedHits[code] ?? 0,
+    };
+  });
+}
+
+export class RiskBacktestService {
+  /**
+   * Queue a backtest for the worker. One backtest per tenant runs at a time.
+   */
+  async requestBacktest(tenantId: string, userId: string, input: CreateRiskBacktestInput): Promise<RiskBacktest> {
+    if (input.windowStart >= input.windowEnd) {
+      throw new ValidationError("Başlangıç tarihi bitiş tarihinden önce olmalı.", "windowStart");
+    }
+    if (input.windowEnd > new Date()) {
+      throw new ValidationError("Geriye dönük test geleceğe uzanamaz.", "windowEnd");
+    }
+    if (input.windowEnd.getTime() - input.windowStart.getTime() > MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      throw new ValidationError(`Test aralığı en fazla ${MAX_WINDOW_DAYS} gün olabilir.`, "windowStart");
+    }
+
+    if (input.clientCompanyId) {
+      const company = await prisma.clientCompany.findUnique({ where: { id: input.clientCompanyId } });
+      if (!company || company.tenantId !== tenantId) {
+        throw new NotFoundError("Müşteri şirketi bulunamadı.");
+      }
+    }
+
+    const activeCodes = new Set(
+      (await riskRuleService.loadActiveRules(tenantId))
+        .filter((rule) => rule.scope === input.scope)
+        .map((rule) => rule.code)
+    );
+    const proposedRules = input.proposedRules.map((change) => ({ ...change, code: change.code.trim().toUpperCase() }));
+    for (const change of proposedRules) {
+      this.assertChange(input.scope, change, activeCodes.has(change.code));
+    }
+
+    const inFlight = await prisma.riskRuleBacktest.findFirst({
+      where: { tenantId, status: { in: ["pending", "running"] } },
+    });
+    if (inFlight) {
+      throw new ValidationError("Devam eden bir geriye dönük test var; bitmesini bekleyin.");
+    }
+
+    const backtest = await prisma.riskRuleBacktest.create({
+      data: {
+        tenantId,
+        scope: input.scope,
+        clientCompanyId: input.clientCompanyId ?? null,
+        windowStart: input.windowStart,
+        windowEnd: input.windowEnd,
+        proposedRules: proposedRules as any,
+        requestedByUserId: userId,
+      },
+    });
+    return this.mapToBacktest(backtest);
+  }
+
+  async listBacktests(tenantId: string): Promise<RiskBacktest[]> {
+    const backtests = await prisma.riskRuleBacktest.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+    });
+    return backtests.map((backtest) => this.mapToBacktest(backtest));
+  }
+
+  async getBacktest(tenantId: string, backtestId: string): Promise<RiskBacktest> {
+    const backtest = await prisma.riskRuleBacktest.findUnique({ where: { id: backtestId } });
+    if (!backtest || backtest.tenantId !== tenantId) {
+      throw new NotFoundError("Geriye dönük test bulunamadı.");
+    }
+    return this.mapToBacktest(backtest);
+  }
+
+  /**
+   * Pending backtests, oldest first, for the worker to pick up
+   */
+  async getPendingBacktestIds(limit: number): Promise<string[]> {
+    const backtests = await prisma.riskRuleBacktest.findMany({
+      where: { status: "pending" },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+      select: { id: true },
+    });
+    return backtests.map((backtest) => backtest.id);
+  }
+
+  /**
+   * Replay the current and proposed rule sets over the backtest's window and
+   * store the comparison. Called by the worker; a backtest another worker
+   * already claimed is left alone.
+   */
+  async runBacktest(backtestId: string): Promise<void> {
+    const claimed = await prisma.riskRuleBacktest.updateMany({
+      where: { id: backtestId, status: "pending" },
+      data: { status: "running", startedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const backtest = await prisma.riskRuleBacktest.findUnique({ where: { id: backtestId } });
+    if (!backtest) {
+      return;
+    }
+
+    try {
+      const result = await this.replay(this.mapToBacktest(backtest));
+      await prisma.riskRuleBacktest.update({
+        where: { id: backtestId },
+        data: {
+          status: "completed",
+          result: result as any,
+          processedCount: result.current.evaluated + result.skipped,
+          completedAt: new Date(),
+        },
+      });
+      await this.notifyRequester(
+        backtest.tenantId,
+        backtest.requestedByUserId,
+        backtestId,
+        "Geriye dönük kural testi tamamlandı",
+        `Önerilen kurallar ${result.proposed.alerts} uyarı üretirdi (mevcut: ${result.current.alerts}).`
+      );
+    } catch (error: any) {
+      logger.error("[RiskBacktestService] Backtest failed", { tenantId: backtest.tenantId }, {
+        backtestId,
+        error: error.message,
+      });
+      await prisma.riskRuleBacktest.update({
+        where: { id: backtestId },
+        data: { status: "failed", errorMessage: error.message ?? "Bilinmeyen hata", completedAt: new Date() },
+      });
+      await this.notifyRequester(
+        backtest.tenantId,
+        backtest.requestedByUserId,
+        backtestId,
+        "Geriye dönük kural testi başarısız",
+        error.message ?? "Bilinmeyen hata"
+      );
+    }
+  }
+
+  private async replay(backtest: RiskBacktest): Promise<RiskBacktestResult> {
+    const { tenantId, scope } = backtest;
+    const currentRules = (await riskRuleService.loadActiveRules(tenantId)).filter((rule) => rule.scope === scope);
+    const proposedRules = applyRuleChanges(currentRules, backtest.proposedRules, tenantId, scope);
+
+    const { subjects, truncated } =
+      scope === "document" ? await this.loadDocumentSubjects(backtest) : await this.loadCompanySubjects(backtest);
+    await prisma.riskRuleBacktest.update({ where: { id: backtest.id }, data: { totalCount: subjects.length } });
+
+    const collections = referencedCollections(
+      [...currentRules, ...proposedRules].map((rule) => resolveRuleCondition(rule))
+    );
+
+    const current = emptySummary();
+    const proposed = emptySummary();
+    const changedSubjects: BacktestSubjectDiff[] = [];
+    let newAlerts = 0;
+    let clearedAlerts = 0;
+    let severityChanges = 0;
+    let skipped = 0;
+
+    for (const [index, subject] of subjects.entries()) {
+      if (index > 0 && index % PROGRESS_EVERY === 0) {
+        await prisma.riskRuleBacktest.update({ where: { id: backtest.id }, data: { processedCount: index } });
+      }
+
+      let facts: RuleFacts;
+      try {
+        facts =
+          scope === "document"
+            ? await riskRuleEngine.buildDocumentFacts(tenantId, subject.id, undefined, collections, subject.asOf)
+            : await riskRuleEngine.buildCompanyFacts(tenantId, subject.id, subject.asOf);
+      } catch {
+        skipped += 1;
+        continue;
+      }
+
+      const before = this.evaluate(scope, currentRules, facts);
+      const after = this.evaluate(scope, proposedRules, facts);
+      addToSummary(current, before, subject.outcome);
+      addToSummary(proposed, after, subject.outcome);
+
+      if (before.alert !== after.alert) {
+        if (after.alert) newAlerts += 1;
+        else clearedAlerts += 1;
+      } else if (before.severity !== after.severity) {
+        severityChanges += 1;
+      }
+
+      const changed =
+        before.score !== after.score ||
+        before.triggeredRuleCodes.join(",") !== after.triggeredRuleCodes.join(",");
+      if (changed && changedSubjects.length < MAX_CHANGED_SUBJECTS) {
+        changedSubjects.push({
+          subjectType: scope,
+          subjectId: subject.id,
+          label: subject.label,
+          clientCompanyId: subject.clientCompanyId,
+          asOf: (facts.asOf ?? subject.asOf).toISOString(),
+          current: before,
+          proposed: after,
+          pastOutcome: subject.outcome,
+        });
+      }
+    }
+
+    return {
+      current: finishSummary(current),
+      proposed: finishSummary(proposed),
+      rules: diffRules(currentRules, proposedRules, current.ruleHits, proposed.ruleHits),
+      newAlerts,
+      clearedAlerts,
+      severityChanges,
+      changedSubjects,
+      skipped,
+      truncated,
+    };
+  }
+
+  private evaluate(scope: RiskRuleScope, rules: RiskRule[], facts: RuleFacts): BacktestEvaluation {
+    const { score, triggeredRuleCodes } = riskRuleEngine.scoreRules(scope, rules, facts);
+    const severity = riskRuleEngine.mapScoreToSeverity(score);
+    return { score, severity, triggeredRuleCodes, alert: severity === ALERT_SEVERITY };
+  }
+
+  /**
+   * Documents uploaded in the window, with the outcome of the cases raised on them
+   */
+  private async loadDocumentSubjects(
+    backtest: RiskBacktest
+  ): Promise<{ subjects: BacktestSubject[]; truncated: boolean }> {
+    const documents = await prisma.document.findMany({
+      where: {
+        tenantId: backtest.tenantId,
+        isDeleted: false,
+        riskFeatures: { isNot: null },
+        createdAt: { gte: backtest.windowStart, lte: backtest.windowEnd },
+        ...(backtest.clientCompanyId ? { clientCompanyId: backtest.clientCompanyId } : {}),
+      },
+      select: {
+        id: true,
+        clientCompanyId: true,
+        originalFileName: true,
+        createdAt: true,
+        relatedInvoice: { select: { issueDate: true } },
+        relatedTransaction: { select: { date: true } },
+      },
+      orderBy: { createdAt: "asc" },
+      take: MAX_SUBJECTS + 1,
+    });
+    const truncated = documents.length > MAX_SUBJECTS;
+    const selected = documents.slice(0, MAX_SUBJECTS);
+
+    const alerts = await prisma.riskAlert.findMany({
+      where: {
+        tenantId: backtest.tenantId,
+        documentId: { in: selected.map((document) => document.id) },
+        mergedIntoId: null,
+      },
+      select: { documentId: true, disposition: true },
+    });
+
+    return {
+      truncated,
+      subjects: selected.map((document) => ({
+        id: document.id,
+        label: document.originalFileName,
+        clientCompanyId: document.clientCompanyId,
+        asOf: document.relatedInvoice?.issueDate ?? document.relatedTransaction?.date ?? document.createdAt,
+        outcome: outcomeOf(alerts.filter((alert) => alert.documentId === document.id)),
+      })),
+    };
+  }
+
+  /**
+   * Active client companies at each checkpoint of the window. A checkpoint's
+   * outcome comes from the company cases raised since the previous one.
+   */
+  private async loadCompanySubjects(
+    backtest: RiskBacktest
+  ): Promise<{ subjects: BacktestSubject[]; truncated: boolean }> {
+    const companies = await prisma.clientCompany.findMany({
+      where: {
+        tenantId: backtest.tenantId,
+        isActive: true,
+        ...(backtest.clientCompanyId ? { id: backtest.clientCompanyId } : {}),
+      },
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    });
+
+    const alerts = await prisma.riskAlert.findMany({
+      where: {
+        tenantId: backtest.tenantId,
+        documentId: null,
+        clientCompanyId: { in: companies.map((company) => company.id) },
+        createdAt: { gt: backtest.windowStart, lte: backtest.windowEnd },
+        mergedIntoId: null,
+      },
+      select: { clientCompanyId: true, disposition: true, createdAt: true },
+    });
+
+    const checkpoints = companyCheckpoints(backtest.windowStart, backtest.windowEnd);
+    const subjects: BacktestSubject[] = [];
+    for (const company of companies) {
+      checkpoints.forEach((checkpoint, index) => {
+        const periodStart = index === 0 ? backtest.windowStart : checkpoints[index - 1];
+        subjects.push({
+          id: company.id,
+          label: company.name,
+          clientCompanyId: company.id,
+          asOf: checkpoint,
+          outcome: outcomeOf(
+            alerts.filter(
+              (alert) =>
+                alert.clientCompanyId === company.id && alert.createdAt > periodStart && alert.createdAt <= checkpoint
+            )
+          ),
+        });
+      });
+    }
+
+    return { subjects: subjects.slice(0, MAX_SUBJECTS), truncated: subjects.length > MAX_SUBJECTS };
+  }
+
+  private assertChange(scope: RiskRuleScope, change: ProposedRuleChange, isActive: boolean): void {
+    if (change.condition) {
+      const errors = validateCondition(scope, change.condition);
+      if (errors.length > 0) {
+        throw new ValidationError(`${change.code}: ${errors[0].message} (${errors[0].path})`, "proposedRules");
+      }
+    }
+    if (change.weight !== undefined && (change.weight < 0 || change.weight > 100)) {
+      throw new ValidationError(`${change.code}: Ağırlık 0-100 arasında olmalı.`, "proposedRules");
+    }
+    if (!isActive && change.isActive !== false) {
+      if (change.weight === undefined) {
+        throw new ValidationError(`${change.code}: Yeni kural için ağırlık gerekli.`, "proposedRules");
+      }
+      const builtIn = BUILT_IN_RULES[change.code];
+      if (!change.condition && !(builtIn && builtIn.scope === scope)) {
+        throw new ValidationError(`${change.code}: Yeni kural için koşul gerekli.`, "proposedRules");
+      }
+    }
+  }
+
+  private async notifyRequester(
+    tenantId: string,
+    userId: string,
+    backtestId: string,
+    title: string,
+    message: string
+  ): Promise<void> {
+    try {
+      await notificationService.createNotification({
+        tenantId,
+        userId,
+        type: "SYSTEM",
+        title,
+        message,
+        meta: { riskBacktestId: backtestId },
+      });
+    } catch (error) {
+      logger.error("[RiskBacktestService] Failed to notify requester:", { error });
+    }
+  }
+
+  private mapToBacktest(backtest: any): RiskBacktest {
+    return {
+      id: backtest.id,
+      tenantId: backtest.tenantId,
+      scope: backtest.scope as RiskRuleScope,
+      clientCompanyId: backtest.clientCompanyId,
+      windowStart: backtest.windowStart,
+      windowEnd: backtest.windowEnd,
+      proposedRules: (backtest.proposedRules ?? []) as ProposedRuleChange[],
+      status: backtest.status as RiskBacktestStatus,
+      totalCount: backtest.totalCount,
+      processedCount: backtest.processedCount,
+      result: (backtest.result ?? null) as RiskBacktestResult | null,
+      errorMessage: backtest.errorMessage,
+      requestedByUserId: backtest.requestedByUserId,
+      startedAt: backtest.startedAt,
+      completedAt: backtest.completedAt,
+      createdAt: backtest.createdAt,
+      updatedAt: backtest.updatedAt,
+    };
+  }
+}
+
+export const riskBacktestService = new RiskBacktestService();
@@ -1,6 +1,7 @@
 import { prisma } from "../lib/prisma";
-import { NotFoundError } from "@repo/shared-utils";
+import { NotFoundError, logger } from "@repo/shared-utils";
 import { riskRuleService } from "./risk-rule-service";
+import { fraudModelService, type FraudModelScore } from "./fraud-model-service";
 
 export interface RiskExplanation {
   score: number;
@@ -13,6 +14,7 @@ export interface RiskExplanation {
   }>;
   summary: string;
   recommendations: string[];
+  model: FraudModelScore | null; // the active fraud model's score and feature contributions
 }
 
 export class RiskExplanationService {
@@ -83,6 +85,7 @@ export class RiskExplanationService {
       contributingFactors,
       summary,
       recommendations,
+      model: await this.scoreWithModel(() => fraudModelService.scoreDocument(tenantId, documentId)),
     };
   }
 
@@ -150,9 +153,22 @@ export class RiskExplanationService {
       contributingFactors,
       summary,
       recommendations,
+      model: await this.scoreWithModel(() => fraudModelService.scoreCompany(tenantId, clientCompanyId)),
     };
   }
 
+  /**
+   * The model section is optional; a scoring failure leaves it out
+   */
+  private async scoreWithModel(score: () => Promise<FraudModelScore | null>): Promise<FraudModelScore | null> {
+    try {
+      return await score();
+    } catch (error: any) {
+      logger.error("[RiskExplanationService] Fraud model scoring failed", { error: error.message });
+      return null;
+    }
+  }
+
   /**
    * Generate human-readable summary
    */
@@ -1,5 +1,6 @@
 import { prisma } from "../lib/prisma";
 import { riskRuleService } from "./risk-rule-service";
+import type { CounterpartyHistory } from "./counterparty-analysis-service";
 import type {
   RiskRule,
   DocumentRiskScore,
@@ -8,7 +9,31 @@ import type {
   CreateClientCompanyRiskScoreInput,
   RiskSeverity,
 } from "@repo/core-domain";
-import type { DocumentRiskFeatures, RiskFeatureMap } from "@repo/core-domain";
+import type { DocumentRiskFeatures, RiskFeatureMap, RiskRuleScope } from "@repo/core-domain";
+import {
+  evaluateCondition,
+  referencedCollections,
+  resolveRuleCondition,
+  validateCondition,
+  RULE_COLLECTIONS,
+  type ConditionTraceEntry,
+  type ConditionValidationError,
+  type RuleFacts,
+} from "./risk-rule-language";
+
+export type RuleTestSample =
+  | { documentId: string }
+  | { clientCompanyId: string }
+  | { facts: Record<string, unknown> };
+
+export interface RuleTestResult {
+  valid: boolean;
+  errors: ConditionValidationError[];
+  matched: boolean | null;
+  trace: ConditionTraceEntry[];
+  facts: Record<string, unknown> | null; // without the collections, which are summarised in collectionSizes
+  collectionSizes: Record<string, number>;
+}
 
 export interface DocumentEvaluationContext {
   riskFeatures: DocumentRiskFeatures;
@@ -16,17 +41,6 @@ export interface DocumentEvaluationContext {
   transaction?: any;
 }
 
-export interface DocumentRuleContext {
-  riskFeatures: DocumentRiskFeatures;
-  document: any;
-  // Pre-computed fraud detection results
-  benfordsViolation: boolean;
-  roundNumberSuspicious: boolean;
-  unusualTiming: boolean;
-  counterpartyAnalysis: { isNew: boolean; isUnusual: boolean } | null;
-  isDuplicateInvoice: boolean;
-}
-
 export interface CompanyEvaluationContext {
   documentRiskScores: DocumentRiskScore[];
   highRiskDocumentCount: number;
@@ -39,6 +53,17 @@ export interface CompanyEvaluationContext {
   hasUnusualVatPatterns: boolean;
   hasDateManipulation: boolean;
   fraudPatternCount: number;
+  // Stock vs invoice consistency findings (medium and high)
+  stockDiscrepancyCount: number;
+  invoices: Array<{
+    issueDate: Date;
+    type: string;
+    totalAmount: number;
+    taxAmount: number;
+    counterpartyName: string | null;
+    counterpartyTaxNumber: string | null;
+    status: string;
+  }>;
 }
 
 export class RiskRuleEngine {
@@ -54,6 +79,84 @@ export class RiskRuleEngine {
     const allRules = await riskRuleService.loadActiveRules(tenantId);
     const documentRules = allRules.filter((r) => r.scope === "document");
 
+    const facts = await this.buildDocumentFacts(
+      tenantId,
+      documentId,
+      riskFeatures,
+      referencedCollections(documentRules.map((rule) => resolveRuleCondition(rule)))
+    );
+    const { score, triggeredRuleCodes } = this.scoreRules("document", documentRules, facts);
+
+    // Map to severity
+    const severity = this.mapScoreToSeverity(score);
+
+    // Save or update DocumentRiskScore
+    const generatedAt = new Date();
+    const riskScoreData: CreateDocumentRiskScoreInput = {
+      tenantId,
+      documentId,
+      score,
+      severity,
+      triggeredRuleCodes,
+      generatedAt,
+    };
+
+    const existing = await prisma.documentRiskScore.findUnique({
+      where: { documentId },
+    });
+
+    let riskScore: DocumentRiskScore;
+    if (existing) {
+      const updated = await prisma.documentRiskScore.update({
+        where: { id: existing.id },
+        data: {
+          score: riskScoreData.score,
+          severity: riskScoreData.severity,
+          triggeredRuleCodes: riskScoreData.triggeredRuleCodes,
+          generatedAt: generatedAt,
+        },
+      });
+      riskScore = this.mapToDocumentRiskScore(updated);
+    } else {
+      const created = await prisma.documentRiskScore.create({
+        data: {
+          tenantId: riskScoreData.tenantId,
+          documentId: riskScoreData.documentId,
+          score: riskScoreData.score,
+          severity: riskScoreData.severity,
+          triggeredRuleCodes: riskScoreData.triggeredRuleCodes,
+          generatedAt: generatedAt,
+        },
+      });
+      riskScore = this.mapToDocumentRiskScore(created);
+    }
+
+    // Store history
+    const { riskTrendService } = await import("./risk-trend-service");
+    await riskTrendService.storeRiskScoreHistory(
+      tenantId,
+      "document",
+      documentId,
+      Number(riskScore.score),
+      riskScore.severity as "low" | "medium" | "high"
+    );
+
+    return riskScore;
+  }
+
+  /**
+   * Build the facts document rules are evaluated against. Collections for
+   * aggregates are loaded only when a rule uses them. Backtests pass the
+   * document's date as replayAsOf; the duplicate and counterparty checks are
+   * then bounded by it too, so the document is scored on what was known then.
+   */
+  async buildDocumentFacts(
+    tenantId: string,
+    documentId: string,
+    riskFeatures?: DocumentRiskFeatures,
+    collections: Set<string> = new Set(["invoices", "transactions"]),
+    replayAsOf?: Date
+  ): Promise<RuleFacts> {
     // Fetch risk features if not provided
     let features: DocumentRiskFeatures;
     if (riskFeatures) {
@@ -93,12 +196,27 @@ export class RiskRuleEngine {
       throw new Error("Document not found");
     }
 
+    const invoice = document.relatedInvoice;
+    const transaction = document.relatedTransaction
+      ? await prisma.transaction.findUnique({ where: { id: document.relatedTransaction.id }, include: { lines: true } })
+      : null;
+    const asOf = replayAsOf ?? invoice?.issueDate ?? transaction?.date ?? document.createdAt;
+
+    // Aggregates and derived signals cover the year up to the document's date
+    const since = new Date(asOf);
+    since.setDate(since.getDate() - 365);
+
     // Pre-compute fraud detection results for this document's company
     const clientCompanyId = document.clientCompanyId;
     let benfordsViolation = false;
     let roundNumberSuspicious = false;
     let unusualTiming = false;
-    let counterpartyResult: { isNew: boolean; isUnusual: boolean } | null = null;
+    let counterpartyResult: {
+      isNew: boolean;
+      isUnusual: boolean;
+      history: CounterpartyHistory | null;
+    } | null = null;
+    let transactionItems: Array<{ date: Date; amount: number; isRound: boolean; isWeekend: boolean }> = [];
     let isDuplicateInvoice = false;
 
     if (clientCompanyId) {
@@ -106,11 +224,8 @@ export class RiskRuleEngine {
         const { fraudPatternDetectorService } = await import("./fraud-pattern-detector-service");
 
         // Get transactions for Benford's / round number / timing analysis
-        const twelveMonthsAgo = new Date();
-        twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
-
         const transactions = await prisma.transaction.findMany({
-          where: { tenantId, clientCompanyId, date: { gte: twelveMonthsAgo } },
+          where: { tenantId, clientCompanyId, date: { gte: since, lte: asOf } },
           include: { lines: true },
           orderBy: { date: "desc" },
         });
@@ -119,6 +234,13 @@ export class RiskRuleEngine {
           txn.lines.reduce((sum, line) => sum + Number(line.debitAmount) + Number(line.creditAmount), 0)
         );
         const dates = transactions.map((txn) => txn.date);
+        const roundAmounts = new Set(fraudPatternDetectorService.detectRoundNumbers(amounts).map((r) => r.amount));
+        transactionItems = transactions.map((txn, index) => ({
+          date: txn.date,
+          amount: amounts[index],
+          isRound: roundAmounts.has(amounts[index]),
+          isWeekend: txn.date.getDay() === 0 || txn.date.getDay() === 6,
+        }));
 
         // Benford's Law analysis (needs at least 20 data points)
         if (amounts.length >= 20) {
@@ -151,11 +273,13 @@ export class RiskRuleEngine {
           invoice.counterpartyName,
           invoice.counterpartyTaxNumber || null,
           Number(invoice.totalAmount),
-          invoice.issueDate
+          invoice.issueDate,
+          replayAsOf
         );
         counterpartyResult = {
           isNew: analysis.isNewCounterparty,
           isUnusual: analysis.isUnusualCounterparty,
+          history: analysis.counterpartyHistory,
         };
       } catch {
         // Counterparty analysis failed – continue with null
@@ -175,7 +299,9 @@ export class RiskRuleEngine {
             ...(inv.counterpartyName ? { counterpartyName: inv.counterpartyName } : {}),
             issueDate: {
               gte: new Date(new Date(inv.issueDate).getTime() - thirtyDaysMs),
-              lte: new Date(new Date(inv.issueDate).getTime() + thirtyDaysMs),
+              lte: new Date(
+                Math.min(new Date(inv.issueDate).getTime() + thirtyDaysMs, replayAsOf?.getTime() ?? Infinity)
+              ),
             },
           },
           take: 1,
@@ -186,86 +312,66 @@ export class RiskRuleEngine {
       }
     }
 
-    // Build the enriched rule context with pre-computed fraud detection results
-    const ruleContext: DocumentRuleContext = {
-      riskFeatures: features,
-      document,
-      benfordsViolation,
-      roundNumberSuspicious,
-      unusualTiming,
-      counterpartyAnalysis: counterpartyResult,
-      isDuplicateInvoice,
-    };
-
-    // Evaluate each rule
-    let score = 0;
-    const triggeredRuleCodes: string[] = [];
+    const history = counterpartyResult?.history ?? null;
 
-    for (const rule of documentRules) {
-      if (this.evaluateRuleCondition(rule, ruleContext)) {
-        score += rule.weight;
-        triggeredRuleCodes.push(rule.code);
-      }
-    }
-
-    // Cap score at 100
-    score = Math.min(100, Math.max(0, score));
-
-    // Map to severity
-    const severity = this.mapScoreToSeverity(score);
-
-    // Save or update DocumentRiskScore
-    const generatedAt = new Date();
-    const riskScoreData: CreateDocumentRiskScoreInput = {
-      tenantId,
-      documentId,
-      score,
-      severity,
-      triggeredRuleCodes,
-      generatedAt,
-    };
-
-    const existing = await prisma.documentRiskScore.findUnique({
-      where: { documentId },
-    });
-
-    let riskScore: DocumentRiskScore;
-    if (existing) {
-      const updated = await prisma.documentRiskScore.update({
-        where: { id: existing.id },
-        data: {
-          score: riskScoreData.score,
-          severity: riskScoreData.severity,
-          triggeredRuleCodes: riskScoreData.triggeredRuleCodes,
-          generatedAt: generatedAt,
-        },
+    let invoiceItems: CompanyEvaluationContext["invoices"] = [];
+    if (collections.has("invoices") && clientCompanyId) {
+      const invoices = await prisma.invoice.findMany({
+        where: { tenantId, clientCompanyId, issueDate: { gte: since, lte: asOf } },
       });
-      riskScore = this.mapToDocumentRiskScore(updated);
-    } else {
-      const created = await prisma.documentRiskScore.create({
-        data: {
-          tenantId: riskScoreData.tenantId,
-          documentId: riskScoreData.documentId,
-          score: riskScoreData.score,
-          severity: riskScoreData.severity,
-          triggeredRuleCodes: riskScoreData.triggeredRuleCodes,
-          generatedAt: generatedAt,
-        },
-      });
-      riskScore = this.mapToDocumentRiskScore(created);
+      invoiceItems = invoices.map((inv) => this.mapInvoiceItem(inv));
     }
 
-    // Store history
-    const { riskTrendService } = await import("./risk-trend-service");
-    await riskTrendService.storeRiskScoreHistory(
-      tenantId,
-      "document",
-      documentId,
-      Number(riskScore.score),
-      riskScore.severity as "low" | "medium" | "high"
-    );
-
-    return riskScore;
+    return {
+      asOf,
+      features: features.features,
+      riskScore: features.riskScore,
+      riskFlags: features.riskFlags.map((flag: any) => flag.code),
+      riskFlagCount: features.riskFlags.length,
+      document: { type: document.type },
+      invoice: invoice
+        ? {
+            type: invoice.type,
+            issueDate: invoice.issueDate,
+            dueDate: invoice.dueDate,
+            totalAmount: Number(invoice.totalAmount),
+            taxAmount: Number(invoice.taxAmount),
+            netAmount: invoice.netAmount === null ? null : Number(invoice.netAmount),
+            currency: invoice.currency,
+            counterpartyName: invoice.counterpartyName,
+            counterpartyTaxNumber: invoice.counterpartyTaxNumber,
+            status: invoice.status,
+            source: invoice.source,
+          }
+        : null,
+      transaction: transaction
+        ? {
+            date: transaction.date,
+            amount: transaction.lines.reduce((sum, line) => sum + Number(line.debitAmount), 0),
+            source: transaction.source,
+          }
+        : null,
+      counterparty: counterpartyResult
+        ? {
+            isNew: counterpartyResult.isNew,
+            isUnusual: counterpartyResult.isUnusual,
+            hasCard: !!history?.counterpartyId,
+            transactionCount: history?.transactionCount ?? 0,
+            averageAmount: history?.averageAmount ?? null,
+            daysSinceLastSeen: history
+              ? Math.floor((asOf.getTime() - history.lastSeenDate.getTime()) / (24 * 60 * 60 * 1000))
+              : null,
+          }
+        : null,
+      signals: {
+        duplicateInvoice: isDuplicateInvoice,
+        benfordsViolation,
+        roundNumberSuspicious,
+        unusualTiming,
+      },
+      invoices: invoiceItems,
+      transactions: transactionItems,
+    };
   }
 
   /**
@@ -276,31 +382,9 @@ export class RiskRuleEngine {
     const allRules = await riskRuleService.loadActiveRules(tenantId);
     const companyRules = allRules.filter((r) => r.scope === "company");
 
-    // Verify company belongs to tenant
-    const company = await prisma.clientCompany.findUnique({
-      where: { id: clientCompanyId },
-    });
-
-    if (!company || company.tenantId !== tenantId) {
-      throw new Error("Client company not found");
-    }
-
-    // Build evaluation context
-    const context = await this.buildCompanyContext(tenantId, clientCompanyId);
-
-    // Evaluate each rule
-    let score = 0;
-    const triggeredRuleCodes: string[] = [];
-
-    for (const rule of companyRules) {
-      if (this.evaluateCompanyRuleCondition(rule, context)) {
-        score += rule.weight;
-        triggeredRuleCodes.push(rule.code);
-      }
-    }
-
-    // Cap score at 100
-    score = Math.min(100, Math.max(0, score));
+    // Build evaluation facts (verifies the company belongs to the tenant)
+    const facts = await this.buildCompanyFacts(tenantId, clientCompanyId);
+    const { score, triggeredRuleCodes } = this.scoreRules("company", companyRules, facts);
 
     // Map to severity
     const severity = this.mapScoreToSeverity(score);
@@ -364,135 +448,122 @@ export class RiskRuleEngine {
   }
 
   /**
-   * Evaluate a document rule condition using pre-computed fraud detection context
+   * Validate a condition and evaluate it against a sample: a real document or
+   * client company of the tenant, or hand-written facts
    */
-  private evaluateRuleCondition(
-    rule: RiskRule,
-    context: DocumentRuleContext
-  ): boolean {
-    const features = context.riskFeatures.features;
-    const _config = rule.config || {};
-
-    switch (rule.code) {
-      case "INV_DUE_BEFORE_ISSUE":
-        return features.dateInconsistency === true;
-
-      case "INV_TOTAL_MISMATCH":
-        return features.amountMismatch === true;
-
-      case "VAT_RATE_INCONSISTENCY":
-        return features.vatRateInconsistency === true;
-
-      case "AMOUNT_DATE_INCONSISTENCY":
-        return features.amountDateInconsistency === true;
-
-      case "CHART_MISMATCH":
-        return features.chartMismatch === true;
-
-      case "INV_DUPLICATE_NUMBER":
-        return features.duplicateInvoiceNumber === true;
-
-      case "INV_DUPLICATE_INVOICE":
-        // Duplicate invoice detection: same amount + counterparty + similar date within 30 days
-        return context.isDuplicateInvoice;
-
-      case "UNUSUAL_COUNTERPARTY":
-        // Counterparty shows unusual patterns (dormant reactivation, abnormal amount, etc.)
-        return context.counterpartyAnalysis?.isUnusual ?? false;
-
-      case "NEW_COUNTERPARTY":
-        // Counterparty has never been seen before for this client company
-        return context.counterpartyAnalysis?.isNew ?? false;
-
-      case "BENFORDS_LAW_VIOLATION":
-        // Benford's Law chi-square test on company transaction amounts
-        return context.benfordsViolation;
-
-      case "ROUND_NUMBER_SUSPICIOUS":
-        // More than 30% of company transaction amounts are suspiciously round
-        return context.roundNumberSuspicious;
-
-      case "UNUSUAL_TIMING":
-        // Transactions outside business hours, on weekends, or clustered at month-end
-        return context.unusualTiming;
-
-      case "INV_MISSING_TAX_NUMBER":
-        return features.hasMissingFields === true && features.duplicateInvoiceNumber !== true;
+  async testCondition(
+    tenantId: string,
+    scope: RiskRuleScope,
+    condition: unknown,
+    sample: RuleTestSample
+  ): Promise<RuleTestResult> {
+    const errors = validateCondition(scope, condition);
+    if (errors.length > 0) {
+      return { valid: false, errors, matched: null, trace: [], facts: null, collectionSizes: {} };
+    }
 
-      case "DOC_PARSING_FAILED":
-        return context.riskFeatures.riskScore === null || context.riskFeatures.riskFlags.length === 0;
+    let facts: RuleFacts;
+    if ("documentId" in sample) {
+      facts = await this.buildDocumentFacts(tenantId, sample.documentId);
+    } else if ("clientCompanyId" in sample) {
+      facts = await this.buildCompanyFacts(tenantId, sample.clientCompanyId);
+    } else {
+      const asOf = typeof sample.facts.asOf === "string" ? new Date(sample.facts.asOf) : new Date();
+      facts = { ...sample.facts, asOf: Number.isNaN(asOf.getTime()) ? new Date() : asOf };
+    }
 
-      default:
-        // Generic check: look for rule code in risk flags
-        return context.riskFeatures.riskFlags.some((flag: any) => flag.code === rule.code);
+    const trace: ConditionTraceEntry[] = [];
+    const matched = evaluateCondition(scope, condition as any, facts, trace);
+
+    const collectionNames = RULE_COLLECTIONS[scope].map((collection) => collection.name);
+    const collectionSizes: Record<string, number> = {};
+    const plainFacts: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(facts)) {
+      if (collectionNames.includes(key)) {
+        collectionSizes[key] = Array.isArray(value) ? value.length : 0;
+      } else {
+        plainFacts[key] = value;
+      }
     }
+
+    return { valid: true, errors: [], matched, trace, facts: plainFacts, collectionSizes };
   }
 
   /**
-   * Evaluate a company rule condition
+   * Add up the weights of the rules whose condition holds, capped at 100
    */
-  private evaluateCompanyRuleCondition(rule: RiskRule, context: CompanyEvaluationContext): boolean {
-    const config = rule.config || {};
-
-    switch (rule.code) {
-      case "COMP_MANY_HIGH_RISK_DOCS": {
-        const threshold = (config.threshold as number) || 5;
-        const days = (config.days as number) || 90;
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - days);
-
-        const highRiskInPeriod = context.documentRiskScores.filter(
-          (score) => score.severity === "high" && score.generatedAt >= cutoffDate
-        ).length;
-
-        return highRiskInPeriod > threshold;
-      }
-
-      case "COMP_HIGH_RISK_RATIO": {
-        const threshold = (config.threshold as number) || 0.3; // 30%
-        if (context.totalInvoiceCount === 0) return false;
-        const ratio = context.highRiskInvoiceCount / context.totalInvoiceCount;
-        return ratio > threshold;
-      }
+  scoreRules(
+    scope: RiskRuleScope,
+    rules: RiskRule[],
+    facts: RuleFacts
+  ): { score: number; triggeredRuleCodes: string[] } {
+    let score = 0;
+    const triggeredRuleCodes: string[] = [];
 
-      case "COMP_FREQUENT_DUPLICATES": {
-        const threshold = (config.threshold as number) || 3;
-        return context.duplicateInvoiceNumbers.length > threshold;
+    for (const rule of rules) {
+      const condition = resolveRuleCondition(rule);
+      if (condition && evaluateCondition(scope, condition, facts)) {
+        score += rule.weight;
+        triggeredRuleCodes.push(rule.code);
       }
+    }
 
-      case "COMP_BENFORDS_LAW_VIOLATION":
-        // Benford's Law violation detected across all company transactions
-        return context.benfordsViolation;
-
-      case "COMP_CIRCULAR_TRANSACTIONS":
-        // Circular transaction patterns (A->B->C->A) detected
-        return context.hasCircularTransactions;
+    return { score: Math.min(100, Math.max(0, score)), triggeredRuleCodes };
+  }
 
-      case "COMP_UNUSUAL_VAT_PATTERNS":
-        // Unusual VAT rate patterns across company invoices
-        return context.hasUnusualVatPatterns;
+  /**
+   * Build the facts company rules are evaluated against. With asOf, scores,
+   * invoices, fraud patterns and stock movements after that date are left out
+   * so past states can be replayed.
+   */
+  async buildCompanyFacts(tenantId: string, clientCompanyId: string, asOf?: Date): Promise<RuleFacts> {
+    // Verify company belongs to tenant
+    const company = await prisma.clientCompany.findUnique({
+      where: { id: clientCompanyId },
+    });
 
-      case "COMP_DATE_MANIPULATION":
-        // Date manipulation detected (future dates, backdating, due before issue)
-        return context.hasDateManipulation;
+    if (!company || company.tenantId !== tenantId) {
+      throw new Error("Client company not found");
+    }
 
-      case "COMP_HIGH_FRAUD_PATTERNS": {
-        // Too many fraud patterns detected overall
-        const fraudThreshold = (config.threshold as number) || 3;
-        return context.fraudPatternCount > fraudThreshold;
-      }
+    const context = await this.buildCompanyContext(tenantId, clientCompanyId, asOf);
 
-      default:
-        return false;
-    }
+    return {
+      asOf: asOf ?? new Date(),
+      company: { legalType: company.legalType, sector: company.sector, isActive: company.isActive },
+      invoiceCount: context.totalInvoiceCount,
+      highRiskInvoiceCount: context.highRiskInvoiceCount,
+      highRiskInvoiceRatio:
+        context.totalInvoiceCount === 0 ? 0 : context.highRiskInvoiceCount / context.totalInvoiceCount,
+      highRiskDocumentCount: context.highRiskDocumentCount,
+      duplicateInvoiceNumberCount: context.duplicateInvoiceNumbers.length,
+      fraudPatternCount: context.fraudPatternCount,
+      stockDiscrepancyCount: context.stockDiscrepancyCount,
+      signals: {
+        benfordsViolation: context.benfordsViolation,
+        circularTransactions: context.hasCircularTransactions,
+        unusualVatPatterns: context.hasUnusualVatPatterns,
+        dateManipulation: context.hasDateManipulation,
+      },
+      documentRiskScores: context.documentRiskScores.map((score) => ({
+        generatedAt: score.generatedAt,
+        score: score.score,
+        severity: score.severity,
+      })),
+      invoices: context.invoices,
+    };
   }
 
   /**
    * Build company evaluation context
    */
-  private async buildCompanyContext(tenantId: string, clientCompanyId: string): Promise<CompanyEvaluationContext> {
+  private async buildCompanyContext(
+    tenantId: string,
+    clientCompanyId: string,
+    asOf?: Date
+  ): Promise<CompanyEvaluationContext> {
     // Get document risk scores for this company (last 90 days)
-    const cutoffDate = new Date();
+    const cutoffDate = asOf ? new Date(asOf) : new Date();
     cutoffDate.setDate(cutoffDate.getDate() - 90);
 
     const documentRiskScores = await prisma.documentRiskScore.findMany({
@@ -504,6 +575,7 @@ export class RiskRuleEngine {
         },
         generatedAt: {
           gte: cutoffDate,
+          ...(asOf ? { lte: asOf } : {}),
         },
       },
       include: {
@@ -525,6 +597,7 @@ export class RiskRuleEngine {
       where: {
         tenantId,
         clientCompanyId,
+        ...(asOf ? { issueDate: { lte: asOf } } : {}),
       },
     });
 
@@ -564,7 +637,7 @@ export class RiskRuleEngine {
 
     try {
       const { fraudPatternDetectorService } = await import("./fraud-pattern-detector-service");
-      const fraudResult = await fraudPatternDetectorService.detectFraudPatterns(tenantId, clientCompanyId);
+      const fraudResult = await fraudPatternDetectorService.detectFraudPatterns(tenantId, clientCompanyId, asOf);
 
       benfordsViolation = fraudResult.benfordsLawViolation;
       hasCircularTransactions = fraudResult.patterns.some((p) => p.type === "circular_transaction");
@@ -575,6 +648,15 @@ export class RiskRuleEngine {
       // Fraud pattern detection failed – continue with defaults (false / 0)
     }
 
+    let stockDiscrepancyCount = 0;
+    try {
+      const { stockService } = await import("./stock-service");
+      const consistency = await stockService.checkConsistency(tenantId, clientCompanyId, asOf);
+      stockDiscrepancyCount = consistency.findings.filter((f) => f.severity !== "low").length;
+    } catch {
+      // Stock check failed – no stock findings
+    }
+
     return {
       documentRiskScores: mappedScores,
       highRiskDocumentCount,
@@ -586,13 +668,27 @@ export class RiskRuleEngine {
       hasUnusualVatPatterns,
       hasDateManipulation,
       fraudPatternCount,
+      stockDiscrepancyCount,
+      invoices: invoices.map((invoice) => this.mapInvoiceItem(invoice)),
+    };
+  }
+
+  private mapInvoiceItem(invoice: any): CompanyEvaluationContext["invoices"][number] {
+    return {
+      issueDate: invoice.issueDate,
+      type: invoice.type,
+      totalAmount: Number(invoice.totalAmount),
+      taxAmount: Number(invoice.taxAmount),
+      counterpartyName: invoice.counterpartyName,
+      counterpartyTaxNumber: invoice.counterpartyTaxNumber,
+      status: invoice.status,
     };
   }
 
   /**
    * Map score to severity
    */
-  private mapScoreToSeverity(score: number): RiskSeverity {
+  mapScoreToSeverity(score: number): RiskSeverity {
     if (score <= 30) return "low";
     if (score <= 65) return "medium";
     return "high";
@@ -0,0 +1,684 @@
+import type { RiskRule, RiskRuleScope } from "@repo/core-domain";
+
+/**
+ * Risk kuralı koşul dili
+ *
+ * A rule's condition is a JSON tree stored in `RiskRule.config.condition`:
+ *
+ *   { "all": [...] } / { "any": [...] } / { "not": {...} }
+ *   { "field": "invoice.totalAmount", "op": "gte", "value": 100000 }
+ *   { "field": "invoice.dueDate", "op": "lt", "value": { "ref": "invoice.issueDate" } }
+ *   { "aggregate": "count", "collection": "invoices", "windowDays": 30,
+ *     "where": { "field": "counterpartyTaxNumber", "op": "eq", "value": { "ref": "invoice.counterpartyTaxNumber" } },
+ *     "op": "gt", "value": 5 }
+ *
+ * Fields are dotted paths into the facts the engine builds for a document or
+ * a client company (see RULE_FIELDS). Inside an aggregate's `where`, fields
+ * are those of the collection item and `ref` still points at the root facts.
+ * Aggregate windows end at `facts.asOf`: the invoice or transaction date for
+ * documents, the evaluation time for companies.
+ *
+ * The built-in rule codes are expressed in the same language; a rule without
+ * a condition falls back to its built-in definition, so tenants tune a
+ * built-in rule by publishing their own version of it with a condition.
+ */
+
+export type ComparisonOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "notIn"
+  | "contains"
+  | "exists"
+  | "notExists";
+
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max" | "ratio";
+
+export type RuleValue = string | number | boolean | null | Array<string | number> | { ref: string };
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { field: string; op: ComparisonOperator; value?: RuleValue }
+  | {
+      aggregate: AggregateFunction;
+      collection: string;
+      windowDays: number;
+      field?: string;
+      where?: RuleCondition;
+      op: ComparisonOperator;
+      value: RuleValue;
+    };
+
+export type RuleFieldType = "boolean" | "number" | "string" | "date" | "list";
+
+export interface RuleFieldDefinition {
+  path: string;
+  label: string;
+  type: RuleFieldType;
+}
+
+export interface RuleCollectionDefinition {
+  name: string;
+  label: string;
+  dateField: string;
+  maxWindowDays: number; // how far back the engine loads the collection
+  fields: RuleFieldDefinition[];
+}
+
+/** Facts a condition is evaluated against */
+export interface RuleFacts {
+  asOf: Date;
+  [key: string]: unknown;
+}
+
+export interface ConditionValidationError {
+  path: string;
+  message: string;
+}
+
+export interface ConditionTraceEntry {
+  path: string;
+  expression: string;
+  actual: unknown;
+  matched: boolean;
+}
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "notIn",
+  "contains",
+  "exists",
+  "notExists",
+];
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ["count", "sum", "avg", "min", "max", "ratio"];
+
+const MAX_DEPTH = 8;
+const MAX_NODES = 100;
+
+const INVOICE_ITEM_FIELDS: RuleFieldDefinition[] = [
+  { path: "issueDate", label: "Fatura tarihi", type: "date" },
+  { path: "type", label: "Fatura türü (SATIŞ/ALIŞ)", type: "string" },
+  { path: "totalAmount", label: "Genel toplam", type: "number" },
+  { path: "taxAmount", label: "KDV tutarı", type: "number" },
+  { path: "counterpartyName", label: "Karşı taraf adı", type: "string" },
+  { path: "counterpartyTaxNumber", label: "Karşı taraf VKN/TCKN", type: "string" },
+  { path: "status", label: "Durum", type: "string" },
+];
+
+export const RULE_FIELDS: Record<RiskRuleScope, RuleFieldDefinition[]> = {
+  document: [
+    { path: "features.hasMissingFields", label: "Eksik alan var", type: "boolean" },
+    { path: "features.amountMismatch", label: "Toplam satırlarla uyuşmuyor", type: "boolean" },
+    { path: "features.dateInconsistency", label: "Vade, fatura tarihinden önce", type: "boolean" },
+    { path: "features.negativeAmount", label: "Negatif tutar", type: "boolean" },
+    { path: "features.duplicateInvoiceNumber", label: "Fatura numarası daha önce kullanılmış", type: "boolean" },
+    { path: "features.highAmount", label: "Yüksek tutar", type: "boolean" },
+    { path: "features.vatRateInconsistency", label: "KDV oranı tutarsız", type: "boolean" },
+    { path: "features.amountDateInconsistency", label: "Tutar/tarih tutarsız", type: "boolean" },
+    { path: "features.chartMismatch", label: "Hesap planı uyumsuz", type: "boolean" },
+    { path: "riskScore", label: "AI risk puanı", type: "number" },
+    { path: "riskFlags", label: "AI risk işaretleri (kodlar)", type: "list" },
+    { path: "riskFlagCount", label: "AI risk işareti sayısı", type: "number" },
+    { path: "document.type", label: "Belge türü", type: "string" },
+    { path: "invoice.type", label: "Fatura türü (SATIŞ/ALIŞ)", type: "string" },
+    { path: "invoice.issueDate", label: "Fatura tarihi", type: "date" },
+    { path: "invoice.dueDate", label: "Vade tarihi", type: "date" },
+    { path: "invoice.totalAmount", label: "Genel toplam", type: "number" },
+    { path: "invoice.taxAmount", label: "KDV tutarı", type: "number" },
+    { path: "invoice.netAmount", label: "Matrah", type: "number" },
+    { path: "invoice.currency", label: "Para birimi", type: "string" },
+    { path: "invoice.counterpartyName", label: "Karşı taraf adı", type: "string" },
+    { path: "invoice.counterpartyTaxNumber", label: "Karşı taraf VKN/TCKN", type: "string" },
+    { path: "invoice.status", label: "Fatura durumu", type: "string" },
+    { path: "invoice.source", label: "Fatura kaynağı", type: "string" },
+    { path: "transaction.date", label: "Fiş tarihi", type: "date" },
+    { path: "transaction.amount", label: "Fiş tutarı (borç)", type: "number" },
+    { path: "transaction.source", label: "Fiş kaynağı", type: "string" },
+    { path: "counterparty.isNew", label: "Karşı taraf ilk kez görülüyor", type: "boolean" },
+    { path: "counterparty.isUnusual", label: "Karşı taraf olağandışı", type: "boolean" },
+    { path: "counterparty.hasCard", label: "Cari kartı var", type: "boolean" },
+    { path: "counterparty.transactionCount", label: "Karşı tarafla işlem sayısı", type: "number" },
+    { path: "counterparty.averageAmount", label: "Karşı taraf ortalama tutar", type: "number" },
+    { path: "counterparty.daysSinceLastSeen", label: "Karşı tarafın son görülmesinden beri gün", type: "number" },
+    { path: "signals.duplicateInvoice", label: "Mükerrer fatura (aynı tutar/karşı taraf, ±30 gün)", type: "boolean" },
+    { path: "signals.benfordsViolation", label: "Benford yasası ihlali (şirket)", type: "boolean" },
+    { path: "signals.roundNumberSuspicious", label: "Şüpheli yuvarlak tutarlar (şirket)", type: "boolean" },
+    { path: "signals.unusualTiming", label: "Olağandışı işlem zamanlaması (şirket)", type: "boolean" },
+  ],
+  company: [
+    { path: "company.legalType", label: "Şirket türü", type: "string" },
+    { path: "company.sector", label: "Sektör", type: "string" },
+    { path: "company.isActive", label: "Aktif", type: "boolean" },
+    { path: "invoiceCount", label: "Fatura sayısı", type: "number" },
+    { path: "highRiskInvoiceCount", label: "Yüksek riskli fatura sayısı", type: "number" },
+    { path: "highRiskInvoiceRatio", label: "Yüksek riskli fatura oranı", type: "number" },
+    { path: "highRiskDocumentCount", label: "Yüksek riskli belge sayısı (90 gün)", type: "number" },
+    { path: "duplicateInvoiceNumberCount", label: "Tekrarlanan fatura numarası sayısı", type: "number" },
+    { path: "fraudPatternCount", label: "Dolandırıcılık örüntüsü sayısı", type: "number" },
+    { path: "stockDiscrepancyCount", label: "Stok-fatura tutarsızlığı sayısı", type: "number" },
+    { path: "signals.benfordsViolation", label: "Benford yasası ihlali", type: "boolean" },
+    { path: "signals.circularTransactions", label: "Döngüsel işlemler", type: "boolean" },
+    { path: "signals.unusualVatPatterns", label: "Olağandışı KDV örüntüleri", type: "boolean" },
+    { path: "signals.dateManipulation", label: "Tarih manipülasyonu", type: "boolean" },
+  ],
+};
+
+export const RULE_COLLECTIONS: Record<RiskRuleScope, RuleCollectionDefinition[]> = {
+  document: [
+    {
+      name: "invoices",
+      label: "Şirketin faturaları",
+      dateField: "issueDate",
+      maxWindowDays: 365,
+      fields: INVOICE_ITEM_FIELDS,
+    },
+    {
+      name: "transactions",
+      label: "Şirketin fişleri",
+      dateField: "date",
+      maxWindowDays: 365,
+      fields: [
+        { path: "date", label: "Fiş tarihi", type: "date" },
+        { path: "amount", label: "Tutar (borç + alacak)", type: "number" },
+        { path: "isRound", label: "Şüpheli yuvarlak tutar", type: "boolean" },
+        { path: "isWeekend", label: "Hafta sonu", type: "boolean" },
+      ],
+    },
+  ],
+  company: [
+    {
+      name: "invoices",
+      label: "Faturalar",
+      dateField: "issueDate",
+      maxWindowDays: 3650,
+      fields: INVOICE_ITEM_FIELDS,
+    },
+    {
+      name: "documentRiskScores",
+      label: "Belge risk skorları",
+      dateField: "generatedAt",
+      maxWindowDays: 90,
+      fields: [
+        { path: "generatedAt", label: "Hesaplanma tarihi", type: "date" },
+        { path: "score", label: "Skor", type: "number" },
+        { path: "severity", label: "Seviye (low/medium/high)", type: "string" },
+      ],
+    },
+  ],
+};
+
+// ─── Built-in rules ──────────────────────────────────────────────────
+
+function flag(path: string): RuleCondition {
+  return { field: path, op: "eq", value: true };
+}
+
+function numberParam(config: Record<string, unknown> | null, key: string, fallback: number): number {
+  const value = config?.[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * The hard-coded rule codes, re-expressed as conditions. Legacy `threshold`
+ * and `days` values in a rule's config are carried over.
+ */
+export const BUILT_IN_RULES: Record<
+  string,
+  { scope: RiskRuleScope; condition: (config: Record<string, unknown> | null) => RuleCondition }
+> = {
+  INV_DUE_BEFORE_ISSUE: { scope: "document", condition: () => flag("features.dateInconsistency") },
+  INV_TOTAL_MISMATCH: { scope: "document", condition: () => flag("features.amountMismatch") },
+  VAT_RATE_INCONSISTENCY: { scope: "document", condition: () => flag("features.vatRateInconsistency") },
+  AMOUNT_DATE_INCONSISTENCY: { scope: "document", condition: () => flag("features.amountDateInconsistency") },
+  CHART_MISMATCH: { scope: "document", condition: () => flag("features.chartMismatch") },
+  INV_DUPLICATE_NUMBER: { scope: "document", condition: () => flag("features.duplicateInvoiceNumber") },
+  INV_DUPLICATE_INVOICE: { scope: "document", condition: () => flag("signals.duplicateInvoice") },
+  UNUSUAL_COUNTERPARTY: { scope: "document", condition: () => flag("counterparty.isUnusual") },
+  NEW_COUNTERPARTY: { scope: "document", condition: () => flag("counterparty.isNew") },
+  BENFORDS_LAW_VIOLATION: { scope: "document", condition: () => flag("signals.benfordsViolation") },
+  ROUND_NUMBER_SUSPICIOUS: { scope: "document", condition: () => flag("signals.roundNumberSuspicious") },
+  UNUSUAL_TIMING: { scope: "document", condition: () => flag("signals.unusualTiming") },
+  INV_MISSING_TAX_NUMBER: {
+    scope: "document",
+    condition: () => ({
+      all: [flag("features.hasMissingFields"), { not: flag("features.duplicateInvoiceNumber") }],
+    }),
+  },
+  DOC_PARSING_FAILED: {
+    scope: "document",
+    condition: () => ({
+      any: [
+        { field: "riskScore", op: "notExists" },
+        { field: "riskFlagCount", op: "eq", value: 0 },
+      ],
+    }),
+  },
+  COMP_MANY_HIGH_RISK_DOCS: {
+    scope: "company",
+    condition: (config) => ({
+      aggregate: "count",
+      collection: "documentRiskScores",
+      windowDays: Math.min(numberParam(config, "days", 90), 90),
+      where: { field: "severity", op: "eq", value: "high" },
+      op: "gt",
+      value: numberParam(config, "threshold", 5),
+    }),
+  },
+  COMP_HIGH_RISK_RATIO: {
+    scope: "company",
+    condition: (config) => ({
+      all: [
+        { field: "invoiceCount", op: "gt", value: 0 },
+        { field: "highRiskInvoiceRatio", op: "gt", value: numberParam(config, "threshold", 0.3) },
+      ],
+    }),
+  },
+  COMP_FREQUENT_DUPLICATES: {
+    scope: "company",
+    condition: (config) => ({
+      field: "duplicateInvoiceNumberCount",
+      op: "gt",
+      value: numberParam(config, "threshold", 3),
+    }),
+  },
+  COMP_BENFORDS_LAW_VIOLATION: { scope: "company", condition: () => flag("signals.benfordsViolation") },
+  COMP_CIRCULAR_TRANSACTIONS: { scope: "company", condition: () => flag("signals.circularTransactions") },
+  COMP_UNUSUAL_VAT_PATTERNS: { scope: "company", condition: () => flag("signals.unusualVatPatterns") },
+  COMP_DATE_MANIPULATION: { scope: "company", condition: () => flag("signals.dateManipulation") },
+  COMP_HIGH_FRAUD_PATTERNS: {
+    scope: "company",
+    condition: (config) => ({ field: "fraudPatternCount", op: "gt", value: numberParam(config, "threshold", 3) }),
+  },
+  COMP_STOCK_DISCREPANCY: {
+    scope: "company",
+    condition: (config) => ({
+      field: "stockDiscrepancyCount",
+      op: "gt",
+      value: numberParam(config, "threshold", 0),
+    }),
+  },
+};
+
+/**
+ * Condition a rule is evaluated with: its own, else the built-in definition
+ * of its code. A document rule with neither keeps the old behaviour of
+ * matching an AI risk flag with the rule's code.
+ */
+export function resolveRuleCondition(rule: Pick<RiskRule, "scope" | "code" | "config">): RuleCondition | null {
+  const own = rule.config?.condition;
+  if (own && typeof own === "object") {
+    return own as RuleCondition;
+  }
+
+  const builtIn = BUILT_IN_RULES[rule.code];
+  if (builtIn && builtIn.scope === rule.scope) {
+    return builtIn.condition(rule.config);
+  }
+
+  if (rule.scope === "document") {
+    return { field: "riskFlags", op: "contains", value: rule.code };
+  }
+  return null;
+}
+
+/** Collections the conditions aggregate over, so the engine loads only those */
+export function referencedCollections(conditions: Array<RuleCondition | null>): Set<string> {
+  const collections = new Set<string>();
+  const visit = (condition: RuleCondition) => {
+    if ("all" in condition) condition.all.forEach(visit);
+    else if ("any" in condition) condition.any.forEach(visit);
+    else if ("not" in condition) visit(condition.not);
+    else if ("aggregate" in condition) collections.add(condition.collection);
+  };
+  conditions.forEach((condition) => condition && visit(condition));
+  return collections;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────
+
+function isRef(value: unknown): value is { ref: string } {
+  return !!value && typeof value === "object" && !Array.isArray(value) && typeof (value as any).ref === "string";
+}
+
+function fieldType(fields: RuleFieldDefinition[], path: string): RuleFieldType | "any" | null {
+  const known = fields.find((field) => field.path === path);
+  if (known) return known.type;
+  // Document features are an open map; new feature keys need no code change
+  if (/^features\.[A-Za-z0-9_]+$/.test(path) && fields === RULE_FIELDS.document) return "any";
+  return null;
+}
+
+/**
+ * Check a condition tree against the field catalog of a scope. Returns the
+ * problems with their path in the tree; an empty list means valid.
+ */
+export function validateCondition(scope: RiskRuleScope, condition: unknown): ConditionValidationError[] {
+  const errors: ConditionValidationError[] = [];
+  let nodes = 0;
+  const rootFields = RULE_FIELDS[scope];
+
+  const checkValue = (
+    path: string,
+    op: ComparisonOperator,
+    type: RuleFieldType | "any",
+    value: unknown
+  ) => {
+    if (op === "exists" || op === "notExists") {
+      if (value !== undefined) errors.push({ path: `${path}.value`, message: "Bu operatör değer almaz." });
+      return;
+    }
+    if (value === undefined) {
+      errors.push({ path: `${path}.value`, message: "Karşılaştırma değeri gerekli." });
+      return;
+    }
+    if (isRef(value)) {
+      const refType = fieldType(rootFields, value.ref);
+      if (!refType) errors.push({ path: `${path}.value.ref`, message: `Bilinmeyen alan: ${value.ref}` });
+      return;
+    }
+    if (op === "in" || op === "notIn") {
+      if (!Array.isArray(value) || value.length === 0) {
+        errors.push({ path: `${path}.value`, message: "Liste operatörü için boş olmayan bir liste gerekli." });
+      }
+      return;
+    }
+    if (Array.isArray(value) || (value !== null && typeof value === "object")) {
+      errors.push({ path: `${path}.value`, message: "Değer bir sayı, metin veya mantıksal değer olmalı." });
+      return;
+    }
+    if (type === "any") return;
+    if (op === "contains") {
+      if (type !== "list" && type !== "string") {
+        errors.push({ path: `${path}.op`, message: "'contains' yalnızca metin ve liste alanlarında kullanılabilir." });
+      }
+      return;
+    }
+    if (["gt", "gte", "lt", "lte"].includes(op)) {
+      const comparable =
+        (type === "number" && typeof value === "number") ||
+        (type === "date" && typeof value === "string" && !Number.isNaN(Date.parse(value)));
+      if (!comparable) {
+        errors.push({
+          path: `${path}.value`,
+          message: type === "date" ? "Tarih alanı bir tarihle karşılaştırılmalı." : "Bu alan sayısal karşılaştırmayı desteklemez.",
+        });
+      }
+      return;
+    }
+    if (type === "boolean" && typeof value !== "boolean") {
+      errors.push({ path: `${path}.value`, message: "Değer true veya false olmalı." });
+    } else if (type === "number" && typeof value !== "number") {
+      errors.push({ path: `${path}.value`, message: "Değer sayı olmalı." });
+    } else if (type === "list") {
+      errors.push({ path: `${path}.op`, message: "Liste alanlarında 'contains' kullanın." });
+    }
+  };
+
+  const visit = (node: unknown, path: string, depth: number, fields: RuleFieldDefinition[], inAggregate: boolean) => {
+    nodes += 1;
+    if (nodes > MAX_NODES) {
+      if (nodes === MAX_NODES + 1) errors.push({ path, message: `Koşul en fazla ${MAX_NODES} öğe içerebilir.` });
+      return;
+    }
+    if (depth > MAX_DEPTH) {
+      errors.push({ path, message: `Koşul en fazla ${MAX_DEPTH} seviye iç içe olabilir.` });
+      return;
+    }
+    if (!node || typeof node !== "object" || Array.isArray(node)) {
+      errors.push({ path, message: "Koşul bir nesne olmalı." });
+      return;
+    }
+
+    // An aggregate may name the field it sums; otherwise exactly one kind key
+    const kinds = "aggregate" in (node as object) ? ["all", "any", "not", "aggregate"] : ["all", "any", "not", "field"];
+    const keys = kinds.filter((key) => key in (node as object));
+    if (keys.length !== 1) {
+      errors.push({ path, message: "Koşul all, any, not, field veya aggregate öğelerinden tam olarak birini içermeli." });
+      return;
+    }
+    const n = node as Record<string, any>;
+
+    if (keys[0] === "all" || keys[0] === "any") {
+      const children = n[keys[0]];
+      if (!Array.isArray(children) || children.length === 0) {
+        errors.push({ path: `${path}.${keys[0]}`, message: "En az bir alt koşul gerekli." });
+        return;
+      }
+      children.forEach((child: unknown, index: number) =>
+        visit(child, `${path}.${keys[0]}[${index}]`, depth + 1, fields, inAggregate)
+      );
+      return;
+    }
+
+    if (keys[0] === "not") {
+      visit(n.not, `${path}.not`, depth + 1, fields, inAggregate);
+      return;
+    }
+
+    if (!COMPARISON_OPERATORS.includes(n.op)) {
+      errors.push({ path: `${path}.op`, message: `Geçersiz operatör: ${String(n.op)}` });
+      return;
+    }
+
+    if (keys[0] === "field") {
+      const type = typeof n.field === "string" ? fieldType(fields, n.field) : null;
+      if (!type) {
+        errors.push({ path: `${path}.field`, message: `Bilinmeyen alan: ${String(n.field)}` });
+        return;
+      }
+      checkValue(path, n.op, type, n.value);
+      return;
+    }
+
+    // Aggregate
+    if (inAggregate) {
+      errors.push({ path, message: "Toplama koşulları iç içe kullanılamaz." });
+      return;
+    }
+    if (!AGGREGATE_FUNCTIONS.includes(n.aggregate)) {
+      errors.push({ path: `${path}.aggregate`, message: `Geçersiz toplama fonksiyonu: ${String(n.aggregate)}` });
+      return;
+    }
+    const collection = RULE_COLLECTIONS[scope].find((c) => c.name === n.collection);
+    if (!collection) {
+      errors.push({ path: `${path}.collection`, message: `Bilinmeyen koleksiyon: ${String(n.collection)}` });
+      return;
+    }
+    if (!Number.isInteger(n.windowDays) || n.windowDays < 1 || n.windowDays > collection.maxWindowDays) {
+      errors.push({
+        path: `${path}.windowDays`,
+        message: `Zaman penceresi 1-${collection.maxWindowDays} gün arasında olmalı.`,
+      });
+    }
+    if (["sum", "avg", "min", "max"].includes(n.aggregate)) {
+      const type = typeof n.field === "string" ? fieldType(collection.fields, n.field) : null;
+      if (type !== "number") {
+        errors.push({ path: `${path}.field`, message: "Bu toplama fonksiyonu sayısal bir alan gerektirir." });
+      }
+    } else if (n.field !== undefined) {
+      errors.push({ path: `${path}.field`, message: "count ve ratio alan almaz." });
+    }
+    if (n.aggregate === "ratio" && n.where === undefined) {
+      errors.push({ path: `${path}.where`, message: "Oran için bir filtre koşulu gerekli." });
+    }
+    if (n.where !== undefined) {
+      visit(n.where, `${path}.where`, depth + 1, collection.fields, true);
+    }
+    if (!["eq", "neq", "gt", "gte", "lt", "lte"].includes(n.op)) {
+      errors.push({ path: `${path}.op`, message: "Toplama sonucu yalnızca sayısal operatörlerle karşılaştırılabilir." });
+    } else if (typeof n.value !== "number" && !isRef(n.value)) {
+      errors.push({ path: `${path}.value`, message: "Değer sayı olmalı." });
+    } else if (isRef(n.value) && !fieldType(rootFields, n.value.ref)) {
+      errors.push({ path: `${path}.value.ref`, message: `Bilinmeyen alan: ${n.value.ref}` });
+    }
+  };
+
+  visit(condition, "condition", 1, rootFields, false);
+  return errors;
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+function getPath(source: unknown, path: string): unknown {
+  let current: any = source;
+  for (const key of path.split(".")) {
+    if (current === null || current === undefined) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? value : time;
+  }
+  return value;
+}
+
+function compare(actual: unknown, op: ComparisonOperator, expected: unknown): boolean {
+  if (op === "exists") return actual !== null && actual !== undefined && actual !== "";
+  if (op === "notExists") return actual === null || actual === undefined || actual === "";
+
+  if (op === "contains") {
+    if (Array.isArray(actual)) return actual.some((item) => item === expected);
+    if (typeof actual === "string" && typeof expected === "string") {
+      return actual.toLocaleLowerCase("tr-TR").includes(expected.toLocaleLowerCase("tr-TR"));
+    }
+    return false;
+  }
+
+  if (op === "in" || op === "notIn") {
+    const list = Array.isArray(expected) ? expected.map(comparable) : [];
+    const found = list.includes(comparable(actual));
+    return op === "in" ? found : !found;
+  }
+
+  const a = comparable(actual);
+  const b = comparable(expected);
+  switch (op) {
+    case "eq":
+      return a === b;
+    case "neq":
+      return a !== b;
+    default: {
+      if (typeof a !== "number" || typeof b !== "number" || Number.isNaN(a) || Number.isNaN(b)) return false;
+      if (op === "gt") return a > b;
+      if (op === "gte") return a >= b;
+      if (op === "lt") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (isRef(value)) return value.ref;
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+}
+
+function aggregateItems(
+  scope: RiskRuleScope,
+  condition: Extract<RuleCondition, { aggregate: AggregateFunction }>,
+  facts: RuleFacts
+): number | null {
+  const definition = RULE_COLLECTIONS[scope].find((c) => c.name === condition.collection);
+  const items = getPath(facts, condition.collection);
+  if (!definition || !Array.isArray(items)) return null;
+
+  const end = facts.asOf.getTime();
+  const start = end - condition.windowDays * DAY_MS;
+  const inWindow = items.filter((item) => {
+    const time = comparable(getPath(item, definition.dateField));
+    return typeof time === "number" && time > start && time <= end;
+  });
+  const matching = condition.where
+    ? inWindow.filter((item) => evaluate(scope, condition.where!, item, facts, "", null))
+    : inWindow;
+
+  if (condition.aggregate === "count") return matching.length;
+  if (condition.aggregate === "ratio") return inWindow.length === 0 ? null : matching.length / inWindow.length;
+
+  const values = matching
+    .map((item) => Number(getPath(item, condition.field!)))
+    .filter((value) => Number.isFinite(value));
+  if (condition.aggregate === "sum") return values.reduce((sum, value) => sum + value, 0);
+  if (values.length === 0) return null;
+  if (condition.aggregate === "avg") return values.reduce((sum, value) => sum + value, 0) / values.length;
+  return condition.aggregate === "min" ? Math.min(...values) : Math.max(...values);
+}
+
+function evaluate(
+  scope: RiskRuleScope,
+  condition: RuleCondition,
+  target: unknown,
+  facts: RuleFacts,
+  path: string,
+  trace: ConditionTraceEntry[] | null
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((child, index) => evaluate(scope, child, target, facts, `${path}.all[${index}]`, trace));
+  }
+  if ("any" in condition) {
+    return condition.any.some((child, index) => evaluate(scope, child, target, facts, `${path}.any[${index}]`, trace));
+  }
+  if ("not" in condition) {
+    return !evaluate(scope, condition.not, target, facts, `${path}.not`, trace);
+  }
+
+  const expected = isRef(condition.value) ? getPath(facts, condition.value.ref) : condition.value;
+
+  if ("aggregate" in condition) {
+    const actual = aggregateItems(scope, condition, facts);
+    const matched = actual !== null && compare(actual, condition.op, expected);
+    trace?.push({
+      path,
+      expression:
+        `${condition.aggregate}(${condition.collection}${condition.field ? `.${condition.field}` : ""}, ` +
+        `${condition.windowDays} gün) ${condition.op} ${describeValue(condition.value)}`,
+      actual,
+      matched,
+    });
+    return matched;
+  }
+
+  const actual = getPath(target, condition.field);
+  const matched = compare(actual, condition.op, expected);
+  trace?.push({
+    path,
+    expression: `${condition.field} ${condition.op}${condition.value === undefined ? "" : ` ${describeValue(condition.value)}`}`,
+    actual: actual instanceof Date ? actual.toISOString() : actual,
+    matched,
+  });
+  return matched;
+}
+
+/**
+ * Evaluate a (validated) condition against facts. When a trace array is
+ * given, every comparison is recorded with the value it saw.
+ */
+export function evaluateCondition(
+  scope: RiskRuleScope,
+  condition: RuleCondition,
+  facts: RuleFacts,
+  trace?: ConditionTraceEntry[]
+): boolean {
+  return evaluate(scope, condition, facts, facts, "condition", trace ?? null);
+}
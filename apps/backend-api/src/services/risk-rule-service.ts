@@ -1,11 +1,63 @@
 import { prisma } from "../lib/prisma";
-import { NotFoundError } from "@repo/shared-utils";
+import { NotFoundError, ValidationError } from "@repo/shared-utils";
 import type {
   RiskRule,
   CreateRiskRuleInput,
   UpdateRiskRuleInput,
   RiskRuleScope,
+  RiskSeverity,
 } from "@repo/core-domain";
+import { auditService } from "./audit-service";
+import { BUILT_IN_RULES, resolveRuleCondition, validateCondition, type RuleCondition } from "./risk-rule-language";
+
+export interface RiskRuleDefinitionInput {
+  description: string;
+  weight: number;
+  defaultSeverity: RiskSeverity;
+  condition: RuleCondition;
+  effectiveFrom?: Date;
+  changeNote?: string | null;
+}
+
+export interface TenantRiskRuleInput extends RiskRuleDefinitionInput {
+  scope: RiskRuleScope;
+  code: string;
+}
+
+export interface RiskRuleVersionView {
+  id: string;
+  version: number;
+  description: string;
+  weight: number;
+  defaultSeverity: RiskSeverity;
+  condition: RuleCondition | null;
+  effectiveFrom: Date;
+  changeNote: string | null;
+  createdByUserId: string | null;
+  createdAt: Date;
+}
+
+export interface RiskRuleView extends RiskRule {
+  isGlobal: boolean;
+  isBuiltIn: boolean;
+  overriddenByTenant: boolean; // a global rule the tenant has its own version of
+  condition: RuleCondition | null; // effective condition, built-in definitions included
+  currentVersion: number | null;
+  scheduledVersion: { version: number; effectiveFrom: Date } | null;
+  alertFeedback: RuleAlertFeedback | null; // filled in rule listings only
+}
+
+/**
+ * How the tenant's alert cases raised by a rule were closed
+ */
+export interface RuleAlertFeedback {
+  alerts: number;
+  closed: number;
+  falsePositives: number;
+  falsePositiveRate: number | null; // share of closed cases, null until one is closed
+}
+
+const FEEDBACK_WINDOW_DAYS = 365;
 
 export class RiskRuleService {
   private mapToRiskRule(rule: any): RiskRule {
@@ -25,16 +77,43 @@ export class RiskRuleService {
   }
 
   /**
-   * Load all active rules for a tenant
+   * Resolve a rule row to the definition effective at a point in time.
+   * Returns null for a versioned rule whose first version is not yet effective.
+   */
+  private resolveVersion(rule: any, at: Date): RiskRule | null {
+    const versions: any[] = rule.versions ?? [];
+    if (versions.length === 0) {
+      return this.mapToRiskRule(rule);
+    }
+    const effective = versions
+      .filter((v) => v.effectiveFrom <= at)
+      .sort((a, b) => b.version - a.version)[0];
+    if (!effective) {
+      return null;
+    }
+    return this.mapToRiskRule({
+      ...rule,
+      description: effective.description,
+      weight: effective.weight,
+      defaultSeverity: effective.defaultSeverity,
+      config: effective.config,
+    });
+  }
+
+  /**
+   * Load all active rules for a tenant, as defined at the given time
    * Global rules (tenantId=null) are included, tenant-specific rules override global ones by code
    */
-  async loadActiveRules(tenantId: string): Promise<RiskRule[]> {
+  async loadActiveRules(tenantId: string, at: Date = new Date()): Promise<RiskRule[]> {
+    const versions = { select: { version: true, description: true, weight: true, defaultSeverity: true, config: true, effectiveFrom: true } };
+
     // Load global rules (tenantId = null)
     const globalRules = await prisma.riskRule.findMany({
       where: {
         tenantId: null,
         isActive: true,
       },
+      include: { versions },
     });
 
     // Load tenant-specific rules
@@ -43,12 +122,16 @@ export class RiskRuleService {
         tenantId,
         isActive: true,
       },
+      include: { versions },
     });
 
     // Create a map of tenant rules by code (these override global rules)
     const tenantRuleMap = new Map<string, RiskRule>();
     tenantRules.forEach((rule) => {
-      tenantRuleMap.set(rule.code, this.mapToRiskRule(rule));
+      const resolved = this.resolveVersion(rule, at);
+      if (resolved) {
+        tenantRuleMap.set(rule.code, resolved);
+      }
     });
 
     // Combine: use tenant rules if they exist, otherwise use global rules
@@ -59,7 +142,10 @@ export class RiskRuleService {
         combinedRules.push(tenantRule);
         tenantRuleMap.delete(rule.code); // Remove from map so we don't add it twice
       } else {
-        combinedRules.push(this.mapToRiskRule(rule));
+        const resolved = this.resolveVersion(rule, at);
+        if (resolved) {
+          combinedRules.push(resolved);
+        }
       }
     });
 
@@ -197,6 +283,307 @@ export class RiskRuleService {
 
     return [...globalRules.map((r) => this.mapToRiskRule(r)), ...tenantRules.map((r) => this.mapToRiskRule(r))];
   }
+
+  // ─── Kural düzenleyici ───────────────────────────────────────────────
+
+  /**
+   * Rules as the editor shows them: global and tenant rules with their
+   * effective condition and version state
+   */
+  async listRuleViews(tenantId: string): Promise<RiskRuleView[]> {
+    const rules = await prisma.riskRule.findMany({
+      where: { OR: [{ tenantId: null }, { tenantId }] },
+      include: { versions: true },
+      orderBy: [{ scope: "asc" }, { code: "asc" }],
+    });
+
+    const tenantCodes = new Set(rules.filter((r) => r.tenantId === tenantId).map((r) => r.code));
+    const feedback = await this.getAlertFeedback(tenantId);
+    return rules.map((rule) => ({
+      ...this.mapToRuleView(rule, tenantCodes),
+      alertFeedback: feedback.get(rule.code) ?? null,
+    }));
+  }
+
+  /**
+   * Disposition statistics of the alert cases each rule raised in the last
+   * year, keyed by rule code. Merged duplicates are not counted.
+   */
+  async getAlertFeedback(tenantId: string): Promise<Map<string, RuleAlertFeedback>> {
+    const since = new Date(Date.now() - FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const alerts = await prisma.riskAlert.findMany({
+      where: { tenantId, createdAt: { gte: since }, mergedIntoId: null, ruleCodes: { isEmpty: false } },
+      select: { ruleCodes: true, status: true, disposition: true },
+    });
+
+    const feedback = new Map<string, RuleAlertFeedback>();
+    for (const alert of alerts) {
+      for (const code of alert.ruleCodes) {
+        const stats = feedback.get(code) ?? { alerts: 0, closed: 0, falsePositives: 0, falsePositiveRate: null };
+        stats.alerts += 1;
+        if (alert.status === "closed" && alert.disposition) {
+          stats.closed += 1;
+          if (alert.disposition === "false_positive") {
+            stats.falsePositives += 1;
+          }
+        }
+        feedback.set(code, stats);
+      }
+    }
+
+    for (const stats of feedback.values()) {
+      stats.falsePositiveRate = stats.closed > 0 ? Math.round((stats.falsePositives / stats.closed) * 1000) / 1000 : null;
+    }
+    return feedback;
+  }
+
+  /**
+   * A rule with its version history, newest first
+   */
+  async getRuleDetail(
+    tenantId: string,
+    ruleId: string
+  ): Promise<RiskRuleView & { versions: RiskRuleVersionView[] }> {
+    const rule = await this.getVisibleRule(tenantId, ruleId);
+    const tenantOverride =
+      rule.tenantId === null
+        ? await prisma.riskRule.count({ where: { tenantId, code: rule.code } })
+        : 0;
+
+    return {
+      ...this.mapToRuleView(rule, new Set(tenantOverride > 0 ? [rule.code] : [])),
+      versions: [...rule.versions]
+        .sort((a: any, b: any) => b.version - a.version)
+        .map((version: any) => ({
+          id: version.id,
+          version: version.version,
+          description: version.description,
+          weight: Number(version.weight),
+          defaultSeverity: version.defaultSeverity as RiskSeverity,
+          condition: ((version.config as any)?.condition as RuleCondition) ?? null,
+          effectiveFrom: version.effectiveFrom,
+          changeNote: version.changeNote,
+          createdByUserId: version.createdByUserId,
+          createdAt: version.createdAt,
+        })),
+    };
+  }
+
+  /**
+   * Create a tenant rule with its first version
+   */
+  async createTenantRule(tenantId: string, userId: string, input: TenantRiskRuleInput): Promise<RiskRuleView> {
+    this.assertDefinition(input.scope, input);
+    const code = input.code.trim().toUpperCase();
+
+    const existing = await prisma.riskRule.findFirst({
+      where: { code, OR: [{ tenantId }, { tenantId: null }] },
+    });
+    if (existing) {
+      throw new ValidationError(
+        existing.tenantId === null
+          ? "Bu kod genel bir kurala ait; genel kuralı uyarlamak için yeni sürüm yayınlayın."
+          : "Bu kodla bir kural zaten var.",
+        "code"
+      );
+    }
+
+    const effectiveFrom = input.effectiveFrom ?? new Date();
+    const rule = await prisma.riskRule.create({
+      data: {
+        tenantId,
+        scope: input.scope,
+        code,
+        description: input.description,
+        weight: input.weight,
+        defaultSeverity: input.defaultSeverity,
+        config: { condition: input.condition } as any,
+        versions: {
+          create: {
+            version: 1,
+            description: input.description,
+            weight: input.weight,
+            defaultSeverity: input.defaultSeverity,
+            config: { condition: input.condition } as any,
+            effectiveFrom,
+            changeNote: input.changeNote ?? null,
+            createdByUserId: userId,
+          },
+        },
+      },
+      include: { versions: true },
+    });
+
+    await this.auditRuleChange(tenantId, userId, rule.id, { code, version: 1, change: "created" });
+    return this.mapToRuleView(rule, new Set([code]));
+  }
+
+  /**
+   * Publish a new version of a rule. A global rule is not changed; the
+   * tenant gets its own copy of it (same code) that overrides it.
+   */
+  async publishVersion(
+    tenantId: string,
+    userId: string,
+    ruleId: string,
+    input: RiskRuleDefinitionInput
+  ): Promise<RiskRuleView> {
+    const visible = await this.getVisibleRule(tenantId, ruleId);
+    this.assertDefinition(visible.scope as RiskRuleScope, input);
+
+    const now = new Date();
+    const effectiveFrom = input.effectiveFrom ?? now;
+    const definition = {
+      description: input.description,
+      weight: input.weight,
+      defaultSeverity: input.defaultSeverity,
+      config: { condition: input.condition } as any,
+    };
+
+    const rule = await prisma.$transaction(async (tx) => {
+      let target: any = visible;
+      if (visible.tenantId === null) {
+        target =
+          (await tx.riskRule.findFirst({ where: { tenantId, code: visible.code }, include: { versions: true } })) ??
+          (await tx.riskRule.create({
+            data: {
+              tenantId,
+              scope: visible.scope,
+              code: visible.code,
+              isActive: visible.isActive,
+              ...definition,
+            },
+            include: { versions: true },
+          }));
+      }
+
+      const latest = target.versions.reduce((max: number, v: any) => Math.max(max, v.version), 0);
+      await tx.riskRuleVersion.create({
+        data: {
+          ruleId: target.id,
+          version: latest + 1,
+          ...definition,
+          effectiveFrom,
+          changeNote: input.changeNote ?? null,
+          createdByUserId: userId,
+        },
+      });
+
+      // The rule row mirrors the definition in force; scheduled versions
+      // are picked up by loadActiveRules once they take effect.
+      return tx.riskRule.update({
+        where: { id: target.id },
+        data: effectiveFrom <= now ? definition : {},
+        include: { versions: true },
+      });
+    });
+
+    const version = rule.versions.reduce((max: number, v: any) => Math.max(max, v.version), 0);
+    await this.auditRuleChange(tenantId, userId, rule.id, {
+      code: rule.code,
+      version,
+      effectiveFrom: effectiveFrom.toISOString(),
+      change: visible.tenantId === null ? "global_override" : "version",
+    });
+    return this.mapToRuleView(rule, new Set([rule.code]));
+  }
+
+  /**
+   * Switch a tenant rule on or off
+   */
+  async setTenantRuleActive(
+    tenantId: string,
+    userId: string,
+    ruleId: string,
+    isActive: boolean
+  ): Promise<RiskRuleView> {
+    const existing = await this.getTenantRule(tenantId, ruleId);
+    const rule = await prisma.riskRule.update({
+      where: { id: existing.id },
+      data: { isActive },
+      include: { versions: true },
+    });
+
+    await this.auditRuleChange(tenantId, userId, rule.id, { code: rule.code, change: isActive ? "activated" : "deactivated" });
+    return this.mapToRuleView(rule, new Set([rule.code]));
+  }
+
+  /**
+   * Delete a tenant rule; a deleted override brings back the global rule
+   */
+  async deleteTenantRule(tenantId: string, userId: string, ruleId: string): Promise<void> {
+    const existing = await this.getTenantRule(tenantId, ruleId);
+    await prisma.riskRule.delete({ where: { id: existing.id } });
+    await this.auditRuleChange(tenantId, userId, existing.id, { code: existing.code, change: "deleted" });
+  }
+
+  private async getVisibleRule(tenantId: string, ruleId: string) {
+    const rule = await prisma.riskRule.findFirst({
+      where: { id: ruleId, OR: [{ tenantId: null }, { tenantId }] },
+      include: { versions: true },
+    });
+    if (!rule) {
+      throw new NotFoundError("Risk kuralı bulunamadı.");
+    }
+    return rule;
+  }
+
+  private async getTenantRule(tenantId: string, ruleId: string) {
+    const rule = await this.getVisibleRule(tenantId, ruleId);
+    if (rule.tenantId === null) {
+      throw new ValidationError("Genel kurallar değiştirilemez; kendi sürümünüzü yayınlayın.");
+    }
+    return rule;
+  }
+
+  private assertDefinition(scope: RiskRuleScope, input: RiskRuleDefinitionInput): void {
+    const errors = validateCondition(scope, input.condition);
+    if (errors.length > 0) {
+      throw new ValidationError(`${errors[0].message} (${errors[0].path})`, errors[0].path);
+    }
+    if (input.weight < 0 || input.weight > 100) {
+      throw new ValidationError("Ağırlık 0-100 arasında olmalı.", "weight");
+    }
+  }
+
+  private async auditRuleChange(
+    tenantId: string,
+    userId: string,
+    ruleId: string,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "RISK_RULE_CHANGED",
+      resourceType: "RiskRule",
+      resourceId: ruleId,
+      metadata,
+    });
+  }
+
+  private mapToRuleView(rule: any, tenantCodes: Set<string>): RiskRuleView {
+    const now = new Date();
+    const versions: any[] = rule.versions ?? [];
+    const current = versions
+      .filter((v) => v.effectiveFrom <= now)
+      .reduce((max: number | null, v) => (max === null || v.version > max ? v.version : max), null);
+    const scheduled = versions
+      .filter((v) => v.effectiveFrom > now)
+      .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime())[0];
+    const resolved = this.resolveVersion(rule, now) ?? this.mapToRiskRule(rule);
+
+    return {
+      ...resolved,
+      isGlobal: rule.tenantId === null,
+      isBuiltIn: rule.code in BUILT_IN_RULES,
+      overriddenByTenant: rule.tenantId === null && tenantCodes.has(rule.code),
+      condition: resolveRuleCondition(resolved),
+      currentVersion: current,
+      scheduledVersion: scheduled ? { version: scheduled.version, effectiveFrom: scheduled.effectiveFrom } : null,
+      alertFeedback: null,
+    };
+  }
 }
 
 export const riskRuleService = new RiskRuleService();
@@ -0,0 +1,182 @@
+/**
+ * Stok maliyeti
+ *
+ * Replays the movements of one item in date order and prices every outbound
+ * movement with the item's cost method: FIFO (ilk giren ilk çıkar) layers
+ * or the moving weighted average (hareketli ağırlıklı ortalama). Inbound
+ * movements carry their own unit cost in TRY.
+ *
+ * Stock sold before it was received cannot be priced from layers; that
+ * quantity is reported as shortfall, costed at the last known unit cost,
+ * and the next receipts first cover it. A shortfall is what the
+ * stock-vs-invoice check flags as satış without alış.
+ */
+
+export type CostMethod = "fifo" | "average";
+export type StockDirection = "in" | "out";
+
+export interface CostingMovement {
+  id: string;
+  direction: StockDirection;
+  date: Date;
+  quantity: number;
+  unitCost: number | null; // inbound; null takes the current unit cost (e.g. sayım fazlası)
+}
+
+export interface CostedMovement {
+  id: string;
+  direction: StockDirection;
+  date: Date;
+  quantity: number;
+  unitCost: number;
+  cost: number; // quantity × unitCost, TRY
+  shortfall: number; // quantity that left without stock on hand
+  balanceQuantity: number;
+  balanceValue: number;
+}
+
+export interface CostingResult {
+  movements: CostedMovement[];
+  quantity: number; // on hand after the last movement
+  value: number;
+  unitCost: number; // value / quantity, or the last known unit cost when nothing is on hand
+  shortfall: number; // total quantity sold without stock
+}
+
+interface Layer {
+  quantity: number;
+  unitCost: number;
+}
+
+const QUANTITY_TOLERANCE = 0.0005;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Same-day receipts are taken before issues, so a purchase and a sale on
+ * the same invoice date never show a shortfall
+ */
+export function sortForCosting<T extends { direction: StockDirection; date: Date }>(movements: T[]): T[] {
+  return movements
+    .map((movement, index) => ({ movement, index }))
+    .sort((a, b) => {
+      const dayA = new Date(a.movement.date).setHours(0, 0, 0, 0);
+      const dayB = new Date(b.movement.date).setHours(0, 0, 0, 0);
+      if (dayA !== dayB) return dayA - dayB;
+      if (a.movement.direction !== b.movement.direction) return a.movement.direction === "in" ? -1 : 1;
+      return a.movement.date.getTime() - b.movement.date.getTime() || a.index - b.index;
+    })
+    .map(({ movement }) => movement);
+}
+
+/**
+ * Price the movements of one item with the given cost method
+ */
+export function costMovements(movements: CostingMovement[], method: CostMethod): CostingResult {
+  const layers: Layer[] = [];
+  let quantity = 0;
+  let value = 0;
+  let backlog = 0; // quantity issued without stock, waiting for receipts
+  let lastUnitCost = 0;
+  let totalShortfall = 0;
+
+  const currentUnitCost = () => (quantity > QUANTITY_TOLERANCE ? value / quantity : lastUnitCost);
+  const costed: CostedMovement[] = [];
+
+  for (const movement of sortForCosting(movements)) {
+    const movementQuantity = round3(movement.quantity);
+
+    if (movement.direction === "in") {
+      const unitCost = movement.unitCost ?? currentUnitCost();
+      lastUnitCost = unitCost;
+
+      // Receipts first cover what was already sold without stock
+      const covered = Math.min(backlog, movementQuantity);
+      backlog = round3(backlog - covered);
+      const added = round3(movementQuantity - covered);
+
+      if (added > 0) {
+        if (method === "fifo") {
+          layers.push({ quantity: added, unitCost });
+        }
+        quantity = round3(quantity + added);
+        value += added * unitCost;
+      }
+
+      costed.push({
+        id: movement.id,
+        direction: "in",
+        date: movement.date,
+        quantity: movementQuantity,
+        unitCost: round4(unitCost),
+        cost: round2(movementQuantity * unitCost),
+        shortfall: 0,
+        balanceQuantity: round3(quantity - backlog),
+        balanceValue: round2(value),
+      });
+      continue;
+    }
+
+    let remaining = movementQuantity;
+    let cost = 0;
+
+    if (method === "fifo") {
+      while (remaining > QUANTITY_TOLERANCE && layers.length > 0) {
+        const layer = layers[0];
+        const taken = Math.min(layer.quantity, remaining);
+        cost += taken * layer.unitCost;
+        lastUnitCost = layer.unitCost;
+        layer.quantity = round3(layer.quantity - taken);
+        remaining = round3(remaining - taken);
+        if (layer.quantity <= QUANTITY_TOLERANCE) layers.shift();
+      }
+      quantity = round3(quantity - (movementQuantity - remaining));
+      value = layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+    } else {
+      const unitCost = currentUnitCost();
+      const taken = Math.min(Math.max(quantity, 0), remaining);
+      cost += taken * unitCost;
+      lastUnitCost = unitCost;
+      quantity = round3(quantity - taken);
+      value = quantity > QUANTITY_TOLERANCE ? value - taken * unitCost : 0;
+      remaining = round3(remaining - taken);
+    }
+
+    const shortfall = remaining > QUANTITY_TOLERANCE ? remaining : 0;
+    if (shortfall > 0) {
+      cost += shortfall * lastUnitCost;
+      backlog = round3(backlog + shortfall);
+      totalShortfall = round3(totalShortfall + shortfall);
+    }
+
+    costed.push({
+      id: movement.id,
+      direction: "out",
+      date: movement.date,
+      quantity: movementQuantity,
+      unitCost: movementQuantity > 0 ? round4(cost / movementQuantity) : 0,
+      cost: round2(cost),
+      shortfall,
+      balanceQuantity: round3(quantity - backlog),
+      balanceValue: round2(value),
+    });
+  }
+
+  return {
+    movements: costed,
+    quantity: round3(quantity - backlog),
+    value: round2(value),
+    unitCost: round4(currentUnitCost()),
+    shortfall: totalShortfall,
+  };
+}
@@ -0,0 +1,1273 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, sanitizeString, logger } from "@repo/shared-utils";
+import { accountingPeriodService, getPeriodBounds, getPeriodKey } from "./accounting-period-service";
+import { auditService } from "./audit-service";
+import { normalizeCounterpartyName as normalizeText } from "./counterparty-service";
+import { kdvCalculationService } from "./kdv-calculation-service";
+import { ledgerAccountService } from "./ledger-account-service";
+import { costMovements, type CostMethod, type CostingResult, type StockDirection } from "./stock-costing";
+
+/**
+ * Stok takibi
+ *
+ * Item catalogue (stok kartları) per client company. Purchase and sales
+ * invoices move stock once they are kesildi: each line is matched to an
+ * item by the line's stock item, or by code, name or alias, and becomes a
+ * purchase or sale movement. Manual adjustments and sayım differences are
+ * movements too, so the costing in stock-costing.ts sees one history.
+ *
+ * Period-end, the cost of sales and sayım differences are posted per month
+ * (621/153, 197/153, 153/397). A posted month locks the stock history up to
+ * its end, because FIFO and average costs depend on everything before.
+ */
+
+const STOCK_INVOICE_STATUSES = ["kesildi", "muhasebeleştirilmiş"];
+const COUNT_SHORTAGE_ACCOUNT = "197"; // sayım ve tesellüm noksanları
+const COUNT_SURPLUS_ACCOUNT = "397"; // sayım ve tesellüm fazlaları
+const MAX_ALIASES = 20;
+
+/** UN/ECE Rec 20 codes accepted on e-Fatura and e-İrsaliye */
+export const STOCK_UNIT_CODES = ["C62", "KGM", "GRM", "TNE", "LTR", "MTR", "MTK", "MTQ", "BX", "PA", "SET", "KWH"];
+
+/** VUK 231/5: the invoice follows the shipment within 7 days */
+export const DESPATCH_INVOICE_DAYS = 7;
+
+export type StockMovementType =
+  | "opening"
+  | "purchase"
+  | "sale"
+  | "adjustment_in"
+  | "adjustment_out"
+  | "count_surplus"
+  | "count_shortage";
+
+export type ManualMovementType = "opening" | "adjustment_in" | "adjustment_out";
+
+export interface StockItemInput {
+  clientCompanyId: string;
+  code: string;
+  name: string;
+  unit?: string;
+  barcode?: string | null;
+  costMethod?: CostMethod;
+  inventoryAccountCode?: string;
+  cogsAccountCode?: string;
+  aliases?: string[];
+}
+
+export type UpdateStockItemInput = Partial<Omit<StockItemInput, "clientCompanyId" | "code">> & {
+  isActive?: boolean;
+};
+
+export interface ListStockItemsFilters {
+  clientCompanyId?: string;
+  search?: string;
+  isActive?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface WarehouseInput {
+  clientCompanyId: string;
+  code: string;
+  name: string;
+  address?: string | null;
+  isDefault?: boolean;
+}
+
+export interface ManualMovementInput {
+  itemId: string;
+  warehouseId?: string | null;
+  type: ManualMovementType;
+  date: Date;
+  quantity: number;
+  unitCost?: number | null; // required for opening and adjustment_in
+  description?: string | null;
+}
+
+export interface ListStockMovementsFilters {
+  clientCompanyId?: string;
+  itemId?: string;
+  warehouseId?: string;
+  type?: StockMovementType;
+  dateFrom?: Date;
+  dateTo?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface StockCountInput {
+  clientCompanyId: string;
+  warehouseId?: string | null;
+  countDate: Date;
+  notes?: string | null;
+  lines: Array<{ itemId: string; countedQuantity: number }>;
+}
+
+export interface InvoiceStockSyncResult {
+  matched: number;
+  unmatched: number; // lines without a stock item (services, expenses, unknown goods)
+}
+
+export interface StockSyncResult extends InvoiceStockSyncResult {
+  invoices: number;
+}
+
+export interface StockValuationRow {
+  itemId: string;
+  code: string;
+  name: string;
+  unit: string;
+  costMethod: string;
+  inventoryAccountCode: string;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  shortfall: number;
+}
+
+export interface StockPostingEntry {
+  debitAccountCode: string;
+  creditAccountCode: string;
+  amount: number;
+  description: string;
+}
+
+export type StockFindingType = "negative_stock" | "despatch_not_invoiced" | "despatch_quantity_mismatch" | "count_shortage";
+
+export interface StockFinding {
+  type: StockFindingType;
+  severity: "low" | "medium" | "high";
+  title: string;
+  description: string;
+  itemId?: string;
+  despatchAdviceId?: string;
+  amount: number; // TRY at stake
+  relatedInvoiceIds: string[];
+}
+
+export interface StockConsistencyReport {
+  clientCompanyId: string;
+  asOfDate: Date;
+  findings: StockFinding[];
+  unmatchedLineCount: number; // goods invoices whose lines have no stock item, for information
+}
+
+interface MatchableItem {
+  id: string;
+  code: string;
+  name: string;
+  barcode: string | null;
+  aliases: string[];
+}
+
+interface MovementRow {
+  id: string;
+  itemId: string;
+  type: string;
+  direction: string;
+  date: Date;
+  quantity: unknown;
+  unitCost: unknown;
+  invoiceId: string | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Stock and depo codes are upper-cased without Turkish casing: "ipl-30" -> "IPL-30" */
+function normalizeCode(value: string): string {
+  return sanitizeString(value).toUpperCase();
+}
+
+function codeKey(value: string | null | undefined): string {
+  return (value ?? "")
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Find the item an invoice or irsaliye line means: the seller's item code
+ * when there is one, then the name or an alias, then a description that
+ * starts with the item code or carries its barcode
+ */
+export function matchStockItem<T extends MatchableItem>(
+  items: T[],
+  description: string | null,
+  code?: string | null
+): T | null {
+  const normalizedCode = codeKey(code);
+  if (normalizedCode) {
+    const byCode = items.find((item) => codeKey(item.code) === normalizedCode);
+    if (byCode) return byCode;
+  }
+
+  const normalized = normalizeText(description);
+  if (!normalized) {
+    return null;
+  }
+
+  const byName = items.find(
+    (item) =>
+      normalizeText(item.name) === normalized || item.aliases.some((alias) => normalizeText(alias) === normalized)
+  );
+  if (byName) return byName;
+
+  const descriptionKey = codeKey(description);
+  const words = descriptionKey.split(" ");
+  return (
+    items.find((item) => {
+      const itemCode = codeKey(item.code);
+      return (
+        descriptionKey === itemCode ||
+        descriptionKey.startsWith(`${itemCode} `) ||
+        (!!item.barcode && words.includes(item.barcode))
+      );
+    }) ?? null
+  );
+}
+
+function movementDirection(type: StockMovementType): StockDirection {
+  return ["opening", "purchase", "adjustment_in", "count_surplus"].includes(type) ? "in" : "out";
+}
+
+export class StockService {
+  /**
+   * List stok kartları with the quantity on hand
+   */
+  async listItems(tenantId: string, filters: ListStockItemsFilters = {}) {
+    const page = filters.page || 1;
+    const pageSize = Math.min(filters.pageSize || 20, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: any = { tenantId };
+    if (filters.clientCompanyId) where.clientCompanyId = filters.clientCompanyId;
+    if (filters.isActive !== undefined) where.isActive = filters.isActive;
+    if (filters.search) {
+      where.OR = [
+        { code: { contains: filters.search, mode: "insensitive" } },
+        { name: { contains: filters.search, mode: "insensitive" } },
+        { barcode: { contains: filters.search } },
+      ];
+    }
+
+    const [items, total] = await Promise.all([
+      prisma.stockItem.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { code: "asc" },
+        include: { clientCompany: { select: { id: true, name: true } } },
+      }),
+      prisma.stockItem.count({ where }),
+    ]);
+
+    const quantities = await this.quantitiesOnHand(tenantId, items.map((item) => item.id));
+
+    return {
+      data: items.map((item) => ({ ...item, quantity: quantities.get(item.id) ?? 0 })),
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  /**
+   * Get a stok kartı with its costed movement history (stok ekstresi)
+   */
+  async getItem(tenantId: string, id: string) {
+    const item = await prisma.stockItem.findFirst({
+      where: { id, tenantId },
+      include: { clientCompany: { select: { id: true, name: true } } },
+    });
+    if (!item) throw new NotFoundError("Stok kartı bulunamadı.");
+
+    const rows = await this.loadMovements(tenantId, [item.id]);
+    const costing = costMovements(rows.map(toCostingMovement), item.costMethod as CostMethod);
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    return {
+      ...item,
+      quantity: costing.quantity,
+      unitCost: costing.unitCost,
+      value: costing.value,
+      shortfall: costing.shortfall,
+      movements: costing.movements.map((movement) => ({
+        ...movement,
+        type: byId.get(movement.id)!.type,
+        invoiceId: byId.get(movement.id)!.invoiceId,
+      })),
+    };
+  }
+
+  /**
+   * Create a stok kartı and move stock for the company's invoice lines that
+   * now match it
+   */
+  async createItem(tenantId: string, input: StockItemInput) {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: input.clientCompanyId, tenantId },
+      select: { id: true },
+    });
+    if (!client) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const code = normalizeCode(input.code);
+    const duplicate = await prisma.stockItem.findFirst({
+      where: { tenantId, clientCompanyId: input.clientCompanyId, code },
+      select: { id: true },
+    });
+    if (duplicate) throw new ValidationError(`${code} stok kodu bu şirkette zaten kullanılıyor.`);
+
+    const item = await prisma.stockItem.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        code,
+        name: sanitizeString(input.name),
+        unit: this.parseUnit(input.unit),
+        barcode: input.barcode ? input.barcode.trim() : null,
+        costMethod: input.costMethod ?? "fifo",
+        inventoryAccountCode: this.parseAccountCode(input.inventoryAccountCode, "153", "15"),
+        cogsAccountCode: this.parseAccountCode(input.cogsAccountCode, "621", "62"),
+        aliases: (input.aliases ?? []).map((alias) => sanitizeString(alias)).slice(0, MAX_ALIASES),
+      },
+    });
+
+    await this.syncFromInvoices(tenantId, input.clientCompanyId);
+    return this.getItem(tenantId, item.id);
+  }
+
+  /**
+   * Update a stok kartı. The code stays: it is printed on issued irsaliyeler.
+   */
+  async updateItem(tenantId: string, id: string, input: UpdateStockItemInput) {
+    const existing = await prisma.stockItem.findFirst({ where: { id, tenantId } });
+    if (!existing) throw new NotFoundError("Stok kartı bulunamadı.");
+
+    const data: any = {};
+    if (input.name !== undefined) data.name = sanitizeString(input.name);
+    if (input.unit !== undefined) data.unit = this.parseUnit(input.unit);
+    if (input.barcode !== undefined) data.barcode = input.barcode ? input.barcode.trim() : null;
+    if (input.aliases !== undefined) data.aliases = input.aliases.map((alias) => sanitizeString(alias)).slice(0, MAX_ALIASES);
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+    if (input.inventoryAccountCode !== undefined) {
+      data.inventoryAccountCode = this.parseAccountCode(input.inventoryAccountCode, "153", "15");
+    }
+    if (input.cogsAccountCode !== undefined) {
+      data.cogsAccountCode = this.parseAccountCode(input.cogsAccountCode, "621", "62");
+    }
+    if (input.costMethod !== undefined && input.costMethod !== existing.costMethod) {
+      // VUK 274: the method is kept within the year; posted months were costed with the old one
+      const posted = await prisma.stockPeriodPosting.count({ where: { tenantId, clientCompanyId: existing.clientCompanyId } });
+      if (posted > 0) {
+        throw new ValidationError("Stok dönem kaydı yapılmış şirkette maliyet yöntemi değiştirilemez.");
+      }
+      data.costMethod = input.costMethod;
+    }
+
+    await prisma.stockItem.update({ where: { id }, data });
+
+    if (data.name !== undefined || data.aliases !== undefined || data.barcode !== undefined) {
+      await this.syncFromInvoices(tenantId, existing.clientCompanyId);
+    }
+    return this.getItem(tenantId, id);
+  }
+
+  /**
+   * Depolar of a client company
+   */
+  async listWarehouses(tenantId: string, clientCompanyId: string) {
+    return prisma.warehouse.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: [{ isDefault: "desc" }, { code: "asc" }],
+    });
+  }
+
+  /**
+   * Create a depo; the first one becomes the default that invoice
+   * movements go to
+   */
+  async createWarehouse(tenantId: string, input: WarehouseInput) {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: input.clientCompanyId, tenantId },
+      select: { id: true },
+    });
+    if (!client) throw new NotFoundError("Müşteri şirketi bulunamadı.");
+
+    const code = normalizeCode(input.code);
+    const existing = await prisma.warehouse.findMany({
+      where: { tenantId, clientCompanyId: input.clientCompanyId },
+      select: { id: true, code: true },
+    });
+    if (existing.some((warehouse) => warehouse.code === code)) {
+      throw new ValidationError(`${code} depo kodu bu şirkette zaten kullanılıyor.`);
+    }
+
+    const isDefault = existing.length === 0 || !!input.isDefault;
+    return prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.warehouse.updateMany({
+          where: { tenantId, clientCompanyId: input.clientCompanyId },
+          data: { isDefault: false },
+        });
+      }
+      return tx.warehouse.create({
+        data: {
+          tenantId,
+          clientCompanyId: input.clientCompanyId,
+          code,
+          name: sanitizeString(input.name),
+          address: input.address ? sanitizeString(input.address) : null,
+          isDefault,
+        },
+      });
+    });
+  }
+
+  /**
+   * List stok hareketleri
+   */
+  async listMovements(tenantId: string, filters: ListStockMovementsFilters = {}) {
+    const page = filters.page || 1;
+    const pageSize = Math.min(filters.pageSize || 50, 200);
+    const skip = (page - 1) * pageSize;
+
+    const where: any = { tenantId };
+    if (filters.clientCompanyId) where.clientCompanyId = filters.clientCompanyId;
+    if (filters.itemId) where.itemId = filters.itemId;
+    if (filters.warehouseId) where.warehouseId = filters.warehouseId;
+    if (filters.type) where.type = filters.type;
+    if (filters.dateFrom || filters.dateTo) {
+      where.date = {};
+      if (filters.dateFrom) where.date.gte = filters.dateFrom;
+      if (filters.dateTo) where.date.lte = filters.dateTo;
+    }
+
+    const [movements, total] = await Promise.all([
+      prisma.stockMovement.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+        include: {
+          item: { select: { id: true, code: true, name: true, unit: true } },
+          warehouse: { select: { id: true, code: true, name: true } },
+          invoice: { select: { id: true, externalId: true, type: true } },
+        },
+      }),
+      prisma.stockMovement.count({ where }),
+    ]);
+
+    return {
+      data: movements.map((movement) => ({
+        ...movement,
+        quantity: Number(movement.quantity),
+        unitCost: movement.unitCost !== null ? Number(movement.unitCost) : null,
+      })),
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  /**
+   * Record an açılış stoku or a manual düzeltme. These are not posted by the
+   * period-end run; the fiş for them is entered separately.
+   */
+  async createManualMovement(tenantId: string, userId: string, input: ManualMovementInput) {
+    const item = await prisma.stockItem.findFirst({ where: { id: input.itemId, tenantId } });
+    if (!item) throw new NotFoundError("Stok kartı bulunamadı.");
+
+    if (!(input.quantity > 0)) {
+      throw new ValidationError("Miktar sıfırdan büyük olmalıdır.");
+    }
+    const direction = movementDirection(input.type);
+    if (direction === "in" && !(input.unitCost !== null && input.unitCost !== undefined && input.unitCost >= 0)) {
+      throw new ValidationError("Stok girişi için birim maliyet gerekli.");
+    }
+
+    const warehouseId = await this.resolveWarehouseId(tenantId, item.clientCompanyId, input.warehouseId);
+    await this.assertStockDateWritable(tenantId, item.clientCompanyId, input.date);
+
+    const movement = await prisma.stockMovement.create({
+      data: {
+        tenantId,
+        clientCompanyId: item.clientCompanyId,
+        itemId: item.id,
+        warehouseId,
+        type: input.type,
+        direction,
+        date: input.date,
+        quantity: round3(input.quantity),
+        unitCost: direction === "in" ? input.unitCost! : null,
+        description: input.description ? sanitizeString(input.description) : null,
+        createdByUserId: userId,
+      },
+    });
+    return { ...movement, quantity: Number(movement.quantity), unitCost: movement.unitCost !== null ? Number(movement.unitCost) : null };
+  }
+
+  /**
+   * Delete a manual movement; invoice and sayım movements follow their source
+   */
+  async deleteMovement(tenantId: string, id: string): Promise<void> {
+    const movement = await prisma.stockMovement.findFirst({ where: { id, tenantId } });
+    if (!movement) throw new NotFoundError("Stok hareketi bulunamadı.");
+
+    if (movement.invoiceId || movement.countId) {
+      throw new ValidationError("Fatura ve sayım hareketleri elle silinemez; kaynağını düzeltin.");
+    }
+    await this.assertStockDateWritable(tenantId, movement.clientCompanyId, movement.date);
+    await prisma.stockMovement.delete({ where: { id } });
+  }
+
+  /**
+   * Rebuild the stock movements of one invoice. Only kesildi and
+   * muhasebeleştirilmiş invoices move stock; a draft or cancelled one
+   * loses its movements.
+   */
+  async syncInvoiceMovements(tenantId: string, invoiceId: string): Promise<InvoiceStockSyncResult> {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      include: { lines: { orderBy: { lineNumber: "asc" } } },
+    });
+    if (!invoice) throw new NotFoundError("Fatura bulunamadı.");
+
+    await prisma.stockMovement.deleteMany({ where: { tenantId, invoiceId } });
+    if (!STOCK_INVOICE_STATUSES.includes(invoice.status) || invoice.lines.length === 0) {
+      return { matched: 0, unmatched: 0 };
+    }
+
+    const items = await prisma.stockItem.findMany({
+      where: { tenantId, clientCompanyId: invoice.clientCompanyId },
+      select: { id: true, code: true, name: true, barcode: true, aliases: true, isActive: true },
+    });
+    if (items.length === 0) {
+      return { matched: 0, unmatched: invoice.lines.length };
+    }
+
+    const isPurchase = invoice.type === "ALIŞ";
+    const rate = isPurchase ? await kdvCalculationService.tryRate(invoice) : 1;
+    const warehouseId = await this.resolveWarehouseId(tenantId, invoice.clientCompanyId, null);
+    const activeItems = items.filter((item) => item.isActive);
+
+    let matched = 0;
+    for (const line of invoice.lines) {
+      const quantity = Number(line.quantity);
+      const item =
+        (line.stockItemId ? items.find((candidate) => candidate.id === line.stockItemId) : null) ??
+        matchStockItem(activeItems, line.description);
+      if (!item || !(quantity > 0)) {
+        continue;
+      }
+
+      if (line.stockItemId !== item.id) {
+        await prisma.invoiceLine.update({ where: { id: line.id }, data: { stockItemId: item.id } });
+      }
+
+      await prisma.stockMovement.create({
+        data: {
+          tenantId,
+          clientCompanyId: invoice.clientCompanyId,
+          itemId: item.id,
+          warehouseId,
+          type: isPurchase ? "purchase" : "sale",
+          direction: isPurchase ? "in" : "out",
+          date: invoice.issueDate,
+          quantity: round3(quantity),
+          // Alış maliyeti: KDV hariç satır tutarı, TRY
+          unitCost: isPurchase ? Math.round((Number(line.lineTotal) / quantity) * rate * 10000) / 10000 : null,
+          invoiceId: invoice.id,
+          invoiceLineId: line.id,
+          description: line.description,
+        },
+      });
+      matched++;
+    }
+
+    return { matched, unmatched: invoice.lines.length - matched };
+  }
+
+  /**
+   * Rebuild the movements of every stock-moving invoice of a client company
+   */
+  async syncFromInvoices(tenantId: string, clientCompanyId: string): Promise<StockSyncResult> {
+    const invoices = await prisma.invoice.findMany({
+      where: { tenantId, clientCompanyId, status: { in: STOCK_INVOICE_STATUSES }, lines: { some: {} } },
+      select: { id: true },
+      orderBy: { issueDate: "asc" },
+    });
+
+    const result: StockSyncResult = { invoices: invoices.length, matched: 0, unmatched: 0 };
+    for (const invoice of invoices) {
+      try {
+        const synced = await this.syncInvoiceMovements(tenantId, invoice.id);
+        result.matched += synced.matched;
+        result.unmatched += synced.unmatched;
+      } catch (error: any) {
+        // A missing TCMB kuru must not stop the rest of the company
+        logger.error("[StockService] Failed to sync invoice stock movements", undefined, {
+          tenantId,
+          invoiceId: invoice.id,
+          error: error?.message,
+        });
+      }
+    }
+
+    logger.info(`Synced stock movements for client ${clientCompanyId}`, undefined, { ...result });
+    return result;
+  }
+
+  /**
+   * Stok değerlemesi as of a date, per item with the item's cost method
+   */
+  async getValuation(tenantId: string, clientCompanyId: string, asOfDate: Date) {
+    const items = await prisma.stockItem.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { code: "asc" },
+    });
+    const costing = await this.costItems(tenantId, items, asOfDate);
+
+    const rows: StockValuationRow[] = [];
+    for (const item of items) {
+      const result = costing.get(item.id)!;
+      // Passive cards only while they still hold stock
+      if (!item.isActive && result.quantity === 0 && result.value === 0) continue;
+      rows.push({
+        itemId: item.id,
+        code: item.code,
+        name: item.name,
+        unit: item.unit,
+        costMethod: item.costMethod,
+        inventoryAccountCode: item.inventoryAccountCode,
+        quantity: result.quantity,
+        unitCost: result.unitCost,
+        value: result.value,
+        shortfall: result.shortfall,
+      });
+    }
+
+    return {
+      clientCompanyId,
+      asOfDate,
+      rows,
+      totalValue: round2(rows.reduce((sum, row) => sum + row.value, 0)),
+    };
+  }
+
+  /**
+   * What the month-end run would post: satılan malın maliyeti and sayım
+   * differences, grouped by account
+   */
+  async getPeriodSummary(tenantId: string, clientCompanyId: string, period: string) {
+    const { periodStart, periodEnd } = getPeriodBounds(period);
+
+    const items = await prisma.stockItem.findMany({ where: { tenantId, clientCompanyId } });
+    const rows = await this.loadMovements(tenantId, items.map((item) => item.id), periodEnd);
+    const types = new Map(rows.map((row) => [row.id, row.type]));
+
+    const entries = new Map<string, StockPostingEntry>();
+    const add = (debit: string, credit: string, amount: number, description: string) => {
+      const key = `${debit}|${credit}`;
+      const entry = entries.get(key) ?? { debitAccountCode: debit, creditAccountCode: credit, amount: 0, description };
+      entry.amount += amount;
+      entries.set(key, entry);
+    };
+
+    let cogsAmount = 0;
+    let shortageAmount = 0;
+    let surplusAmount = 0;
+    let closingValue = 0;
+
+    for (const item of items) {
+      const costing = costMovements(
+        rows.filter((row) => row.itemId === item.id).map(toCostingMovement),
+        item.costMethod as CostMethod
+      );
+      closingValue += costing.value;
+
+      for (const movement of costing.movements) {
+        if (movement.date < periodStart || movement.cost === 0) continue;
+        switch (types.get(movement.id)) {
+          case "sale":
+            cogsAmount += movement.cost;
+            add(item.cogsAccountCode, item.inventoryAccountCode, movement.cost, `${period} satılan ticari mallar maliyeti`);
+            break;
+          case "count_shortage":
+            shortageAmount += movement.cost;
+            add(COUNT_SHORTAGE_ACCOUNT, item.inventoryAccountCode, movement.cost, `${period} sayım noksanı`);
+            break;
+          case "count_surplus":
+            surplusAmount += movement.cost;
+            add(item.inventoryAccountCode, COUNT_SURPLUS_ACCOUNT, movement.cost, `${period} sayım fazlası`);
+            break;
+        }
+      }
+    }
+
+    const posting = await prisma.stockPeriodPosting.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+
+    return {
+      clientCompanyId,
+      period,
+      cogsAmount: round2(cogsAmount),
+      shortageAmount: round2(shortageAmount),
+      surplusAmount: round2(surplusAmount),
+      closingValue: round2(closingValue),
+      entries: [...entries.values()]
+        .map((entry) => ({ ...entry, amount: round2(entry.amount) }))
+        .filter((entry) => entry.amount > 0),
+      posting: posting ? toPostingResponse(posting) : null,
+    };
+  }
+
+  /**
+   * Posted months of a client company
+   */
+  async listPeriodPostings(tenantId: string, clientCompanyId: string) {
+    const postings = await prisma.stockPeriodPosting.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { period: "desc" },
+    });
+    return postings.map(toPostingResponse);
+  }
+
+  /**
+   * Post the month's stock entries to the yevmiye and lock the stock
+   * history up to the month end
+   */
+  async postPeriod(tenantId: string, userId: string, clientCompanyId: string, period: string) {
+    const { periodEnd } = getPeriodBounds(period);
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, periodEnd);
+
+    const summary = await this.getPeriodSummary(tenantId, clientCompanyId, period);
+    if (summary.posting) {
+      throw new ValidationError(`${period} dönemi stok kaydı zaten yapılmış.`);
+    }
+    if (summary.entries.length === 0) {
+      throw new ValidationError(`${period} döneminde muhasebeleştirilecek stok hareketi yok.`);
+    }
+
+    const accountIds = await ledgerAccountService.resolveAccountIds(
+      tenantId,
+      clientCompanyId,
+      summary.entries.flatMap((entry) => [entry.debitAccountCode, entry.creditAccountCode])
+    );
+
+    const posting = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          tenantId,
+          clientCompanyId,
+          date: periodEnd,
+          referenceNo: `STK-${period}`,
+          description: `${period} dönemi stok maliyet kaydı`,
+          source: "stock",
+          lines: {
+            create: summary.entries.flatMap((entry) => [
+              {
+                tenantId,
+                ledgerAccountId: accountIds.get(entry.debitAccountCode)!,
+                debitAmount: entry.amount,
+                creditAmount: 0,
+                description: entry.description,
+              },
+              {
+                tenantId,
+                ledgerAccountId: accountIds.get(entry.creditAccountCode)!,
+                debitAmount: 0,
+                creditAmount: entry.amount,
+                description: entry.description,
+              },
+            ]),
+          },
+        },
+      });
+
+      return tx.stockPeriodPosting.create({
+        data: {
+          tenantId,
+          clientCompanyId,
+          period,
+          cogsAmount: summary.cogsAmount,
+          shortageAmount: summary.shortageAmount,
+          surplusAmount: summary.surplusAmount,
+          closingValue: summary.closingValue,
+          transactionId: transaction.id,
+          postedByUserId: userId,
+        },
+      });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "STOCK_PERIOD_POSTED",
+      resourceType: "StockPeriodPosting",
+      resourceId: posting.id,
+      metadata: { clientCompanyId, period, transactionId: posting.transactionId, cogsAmount: summary.cogsAmount },
+    });
+
+    logger.info("Stock period posted", undefined, { tenantId, clientCompanyId, period });
+    return toPostingResponse(posting);
+  }
+
+  /**
+   * Reverse a month's stock posting; later months have to be reversed first
+   */
+  async unpostPeriod(tenantId: string, userId: string, clientCompanyId: string, period: string): Promise<void> {
+    const posting = await prisma.stockPeriodPosting.findUnique({
+      where: { tenantId_clientCompanyId_period: { tenantId, clientCompanyId, period } },
+    });
+    if (!posting) throw new NotFoundError("Stok dönem kaydı bulunamadı.");
+
+    const later = await prisma.stockPeriodPosting.findFirst({
+      where: { tenantId, clientCompanyId, period: { gt: period } },
+      orderBy: { period: "asc" },
+    });
+    if (later) {
+      throw new ValidationError(`Önce ${later.period} dönemi stok kaydını geri alın.`);
+    }
+
+    const { periodEnd } = getPeriodBounds(period);
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, periodEnd);
+
+    await prisma.$transaction(async (tx) => {
+      if (posting.transactionId) {
+        await tx.transaction.deleteMany({ where: { id: posting.transactionId, tenantId } });
+      }
+      await tx.stockPeriodPosting.delete({ where: { id: posting.id } });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "STOCK_PERIOD_UNPOSTED",
+      resourceType: "StockPeriodPosting",
+      resourceId: posting.id,
+      metadata: { clientCompanyId, period, transactionId: posting.transactionId },
+    });
+  }
+
+  /**
+   * Sayım tutanakları of a client company
+   */
+  async listCounts(tenantId: string, clientCompanyId: string) {
+    const counts = await prisma.stockCount.findMany({
+      where: { tenantId, clientCompanyId },
+      orderBy: { countDate: "desc" },
+      include: {
+        warehouse: { select: { id: true, code: true, name: true } },
+        _count: { select: { lines: true } },
+      },
+    });
+    return counts.map(({ _count, ...count }) => ({ ...count, lineCount: _count.lines }));
+  }
+
+  async getCount(tenantId: string, id: string) {
+    const count = await prisma.stockCount.findFirst({
+      where: { id, tenantId },
+      include: {
+        warehouse: { select: { id: true, code: true, name: true } },
+        lines: { include: { item: { select: { id: true, code: true, name: true, unit: true } } } },
+      },
+    });
+    if (!count) throw new NotFoundError("Sayım bulunamadı.");
+
+    const lines = count.lines
+      .map((line) => {
+        const difference = round3(Number(line.countedQuantity) - Number(line.bookQuantity));
+        return {
+          ...line,
+          bookQuantity: Number(line.bookQuantity),
+          countedQuantity: Number(line.countedQuantity),
+          unitCost: Number(line.unitCost),
+          difference,
+          differenceValue: round2(difference * Number(line.unitCost)),
+        };
+      })
+      .sort((a, b) => a.item.code.localeCompare(b.item.code));
+
+    return {
+      ...count,
+      lines,
+      shortageValue: round2(-lines.filter((line) => line.difference < 0).reduce((sum, line) => sum + line.differenceValue, 0)),
+      surplusValue: round2(lines.filter((line) => line.difference > 0).reduce((sum, line) => sum + line.differenceValue, 0)),
+    };
+  }
+
+  /**
+   * Open a sayım tutanağı: the book quantity and unit cost of every counted
+   * item are fixed at the count date
+   */
+  async createCount(tenantId: string, userId: string, input: StockCountInput) {
+    if (input.lines.length === 0) {
+      throw new ValidationError("Sayım en az bir satır içermelidir.");
+    }
+    if (new Set(input.lines.map((line) => line.itemId)).size !== input.lines.length) {
+      throw new ValidationError("Bir stok kartı sayımda birden fazla kez yer alamaz.");
+    }
+    if (input.lines.some((line) => !(line.countedQuantity >= 0))) {
+      throw new ValidationError("Sayılan miktar negatif olamaz.");
+    }
+
+    const items = await prisma.stockItem.findMany({
+      where: { tenantId, clientCompanyId: input.clientCompanyId, id: { in: input.lines.map((line) => line.itemId) } },
+    });
+    if (items.length !== input.lines.length) {
+      throw new NotFoundError("Stok kartı bulunamadı.");
+    }
+    const warehouseId = input.warehouseId
+      ? await this.resolveWarehouseId(tenantId, input.clientCompanyId, input.warehouseId)
+      : null;
+
+    const countDate = new Date(input.countDate);
+    countDate.setHours(23, 59, 59, 999);
+    const costing = await this.costItems(tenantId, items, countDate);
+    const warehouseQuantities = warehouseId ? await this.quantitiesOnHand(tenantId, items.map((item) => item.id), countDate, warehouseId) : null;
+
+    const count = await prisma.stockCount.create({
+      data: {
+        tenantId,
+        clientCompanyId: input.clientCompanyId,
+        warehouseId,
+        countDate,
+        notes: input.notes ? sanitizeString(input.notes) : null,
+        createdByUserId: userId,
+        lines: {
+          create: input.lines.map((line) => {
+            const result = costing.get(line.itemId);
+            return {
+              tenantId,
+              itemId: line.itemId,
+              bookQuantity: warehouseQuantities ? (warehouseQuantities.get(line.itemId) ?? 0) : (result?.quantity ?? 0),
+              countedQuantity: round3(line.countedQuantity),
+              unitCost: result?.unitCost ?? 0,
+            };
+          }),
+        },
+      },
+    });
+
+    return this.getCount(tenantId, count.id);
+  }
+
+  /**
+   * Book the sayım differences as count_surplus / count_shortage movements
+   * at the book unit cost
+   */
+  async applyCount(tenantId: string, userId: string, id: string) {
+    const count = await this.getCount(tenantId, id);
+    if (count.status !== "draft") {
+      throw new ValidationError("Bu sayım zaten uygulandı.");
+    }
+    await this.assertStockDateWritable(tenantId, count.clientCompanyId, count.countDate);
+
+    const differences = count.lines.filter((line) => line.difference !== 0);
+    await prisma.$transaction(async (tx) => {
+      for (const line of differences) {
+        const surplus = line.difference > 0;
+        await tx.stockMovement.create({
+          data: {
+            tenantId,
+            clientCompanyId: count.clientCompanyId,
+            itemId: line.itemId,
+            warehouseId: count.warehouseId,
+            type: surplus ? "count_surplus" : "count_shortage",
+            direction: surplus ? "in" : "out",
+            date: count.countDate,
+            quantity: Math.abs(line.difference),
+            unitCost: surplus ? line.unitCost : null,
+            countId: count.id,
+            description: surplus ? "Sayım fazlası" : "Sayım noksanı",
+            createdByUserId: userId,
+          },
+        });
+      }
+      await tx.stockCount.update({ where: { id: count.id }, data: { status: "applied", appliedAt: new Date() } });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "STOCK_COUNT_APPLIED",
+      resourceType: "StockCount",
+      resourceId: count.id,
+      metadata: {
+        clientCompanyId: count.clientCompanyId,
+        differences: differences.length,
+        shortageValue: count.shortageValue,
+        surplusValue: count.surplusValue,
+      },
+    });
+
+    return this.getCount(tenantId, id);
+  }
+
+  async deleteCount(tenantId: string, id: string): Promise<void> {
+    const count = await prisma.stockCount.findFirst({ where: { id, tenantId } });
+    if (!count) throw new NotFoundError("Sayım bulunamadı.");
+    if (count.status !== "draft") {
+      throw new ValidationError("Uygulanmış sayım silinemez.");
+    }
+    await prisma.stockCount.delete({ where: { id } });
+  }
+
+  /**
+   * Stock vs invoice consistency: sales without stock, irsaliyeler not
+   * invoiced within 7 days or invoiced with other quantities, and sayım
+   * noksanları that are large against the stock value
+   */
+  async checkConsistency(tenantId: string, clientCompanyId: string, asOfDate: Date = new Date()): Promise<StockConsistencyReport> {
+    const findings: StockFinding[] = [];
+
+    const items = await prisma.stockItem.findMany({ where: { tenantId, clientCompanyId } });
+    const rows = await this.loadMovements(tenantId, items.map((item) => item.id), asOfDate);
+    let stockValue = 0;
+
+    for (const item of items) {
+      const itemRows = rows.filter((row) => row.itemId === item.id);
+      const costing = costMovements(itemRows.map(toCostingMovement), item.costMethod as CostMethod);
+      stockValue += costing.value;
+      if (costing.shortfall <= 0) continue;
+
+      const short = costing.movements.filter((movement) => movement.shortfall > 0);
+      const invoiceIds = [
+        ...new Set(short.map((movement) => itemRows.find((row) => row.id === movement.id)?.invoiceId).filter((id): id is string => !!id)),
+      ];
+      findings.push({
+        type: "negative_stock",
+        severity: "high",
+        title: `${item.code} stoksuz satış`,
+        description: `${item.name} için alış kaydı olmadan ${costing.shortfall} ${item.unit} çıkış yapılmış.`,
+        itemId: item.id,
+        amount: round2(short.reduce((sum, movement) => sum + (movement.shortfall / movement.quantity) * movement.cost, 0)),
+        relatedInvoiceIds: invoiceIds,
+      });
+    }
+
+    const despatches = await prisma.despatchAdvice.findMany({
+      where: { tenantId, clientCompanyId, status: { in: ["issued", "received"] }, despatchDate: { lte: asOfDate } },
+      include: {
+        lines: true,
+        invoice: { select: { id: true, status: true, lines: { select: { stockItemId: true, quantity: true } } } },
+      },
+    });
+    const invoiceDeadline = new Date(asOfDate.getTime() - DESPATCH_INVOICE_DAYS * 24 * 60 * 60 * 1000);
+
+    for (const despatch of despatches) {
+      if (!despatch.invoice || despatch.invoice.status === "iptal") {
+        if (despatch.despatchDate < invoiceDeadline) {
+          findings.push({
+            type: "despatch_not_invoiced",
+            severity: "medium",
+            title: `${despatch.despatchNumber} faturasız irsaliye`,
+            description:
+              despatch.direction === "outgoing"
+                ? `${despatch.counterpartyName} sevkiyatı ${DESPATCH_INVOICE_DAYS} gün içinde faturalanmamış.`
+                : `${despatch.counterpartyName} tarafından gönderilen mal için ${DESPATCH_INVOICE_DAYS} gün içinde alış faturası kaydedilmemiş.`,
+            despatchAdviceId: despatch.id,
+            amount: 0,
+            relatedInvoiceIds: [],
+          });
+        }
+        continue;
+      }
+
+      const shipped = new Map<string, number>();
+      for (const line of despatch.lines) {
+        if (line.itemId) shipped.set(line.itemId, (shipped.get(line.itemId) ?? 0) + Number(line.quantity));
+      }
+      const invoiced = new Map<string, number>();
+      for (const line of despatch.invoice.lines) {
+        if (line.stockItemId) invoiced.set(line.stockItemId, (invoiced.get(line.stockItemId) ?? 0) + Number(line.quantity));
+      }
+
+      const mismatched = [...shipped.keys()].filter((itemId) => round3((invoiced.get(itemId) ?? 0) - shipped.get(itemId)!) !== 0);
+      if (mismatched.length > 0) {
+        const codes = items.filter((item) => mismatched.includes(item.id)).map((item) => item.code);
+        findings.push({
+          type: "despatch_quantity_mismatch",
+          severity: "medium",
+          title: `${despatch.despatchNumber} irsaliye-fatura miktar farkı`,
+          description: `İrsaliye ile bağlı fatura arasında miktar farkı: ${codes.join(", ")}.`,
+          despatchAdviceId: despatch.id,
+          amount: 0,
+          relatedInvoiceIds: [despatch.invoice.id],
+        });
+      }
+    }
+
+    // Sayım noksanı over 5% of the stock value in the last 12 months
+    const yearAgo = new Date(asOfDate.getFullYear() - 1, asOfDate.getMonth(), asOfDate.getDate());
+    const shortages = await prisma.stockCountLine.findMany({
+      where: { tenantId, count: { clientCompanyId, status: "applied", countDate: { gt: yearAgo, lte: asOfDate } } },
+    });
+    const shortageValue = round2(
+      shortages.reduce((sum, line) => {
+        const difference = Number(line.bookQuantity) - Number(line.countedQuantity);
+        return difference > 0 ? sum + difference * Number(line.unitCost) : sum;
+      }, 0)
+    );
+    if (shortageValue > 0 && shortageValue > stockValue * 0.05) {
+      findings.push({
+        type: "count_shortage",
+        severity: shortageValue > stockValue * 0.2 ? "high" : "medium",
+        title: "Yüksek sayım noksanı",
+        description: `Son 12 ayda ${shortageValue.toFixed(2)} TL sayım noksanı; stok değerinin %${stockValue > 0 ? Math.round((shortageValue / stockValue) * 100) : 100}'i.`,
+        amount: shortageValue,
+        relatedInvoiceIds: [],
+      });
+    }
+
+    const unmatchedLineCount =
+      items.length === 0
+        ? 0
+        : await prisma.invoiceLine.count({
+            where: {
+              tenantId,
+              stockItemId: null,
+              invoice: { clientCompanyId, status: { in: STOCK_INVOICE_STATUSES }, issueDate: { lte: asOfDate } },
+            },
+          });
+
+    return { clientCompanyId, asOfDate, findings, unmatchedLineCount };
+  }
+
+  private async loadMovements(tenantId: string, itemIds: string[], until?: Date): Promise<MovementRow[]> {
+    if (itemIds.length === 0) {
+      return [];
+    }
+    return prisma.stockMovement.findMany({
+      where: { tenantId, itemId: { in: itemIds }, ...(until ? { date: { lte: until } } : {}) },
+      select: { id: true, itemId: true, type: true, direction: true, date: true, quantity: true, unitCost: true, invoiceId: true },
+      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    });
+  }
+
+  private async costItems(
+    tenantId: string,
+    items: Array<{ id: string; costMethod: string }>,
+    until: Date
+  ): Promise<Map<string, CostingResult>> {
+    const rows = await this.loadMovements(tenantId, items.map((item) => item.id), until);
+    const results = new Map<string, CostingResult>();
+    for (const item of items) {
+      results.set(
+        item.id,
+        costMovements(rows.filter((row) => row.itemId === item.id).map(toCostingMovement), item.costMethod as CostMethod)
+      );
+    }
+    return results;
+  }
+
+  private async quantitiesOnHand(
+    tenantId: string,
+    itemIds: string[],
+    until?: Date,
+    warehouseId?: string
+  ): Promise<Map<string, number>> {
+    const quantities = new Map<string, number>();
+    if (itemIds.length === 0) {
+      return quantities;
+    }
+
+    const sums = await prisma.stockMovement.groupBy({
+      by: ["itemId", "direction"],
+      where: {
+        tenantId,
+        itemId: { in: itemIds },
+        ...(until ? { date: { lte: until } } : {}),
+        ...(warehouseId ? { warehouseId } : {}),
+      },
+      _sum: { quantity: true },
+    });
+    for (const sum of sums) {
+      const quantity = Number(sum._sum.quantity ?? 0) * (sum.direction === "in" ? 1 : -1);
+      quantities.set(sum.itemId, round3((quantities.get(sum.itemId) ?? 0) + quantity));
+    }
+    return quantities;
+  }
+
+  /**
+   * The given depo, or the company's default one (null when it has none)
+   */
+  private async resolveWarehouseId(tenantId: string, clientCompanyId: string, warehouseId: string | null | undefined) {
+    if (warehouseId) {
+      const warehouse = await prisma.warehouse.findFirst({
+        where: { id: warehouseId, tenantId, clientCompanyId },
+        select: { id: true },
+      });
+      if (!warehouse) throw new NotFoundError("Depo bulunamadı.");
+      return warehouse.id;
+    }
+
+    const fallback = await prisma.warehouse.findFirst({
+      where: { tenantId, clientCompanyId, isActive: true },
+      orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+      select: { id: true },
+    });
+    return fallback?.id ?? null;
+  }
+
+  /**
+   * Stock dated inside a posted month, or before one, would change costs
+   * already in the yevmiye
+   */
+  private async assertStockDateWritable(tenantId: string, clientCompanyId: string, date: Date): Promise<void> {
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, date);
+
+    const posted = await prisma.stockPeriodPosting.findFirst({
+      where: { tenantId, clientCompanyId, period: { gte: getPeriodKey(date) } },
+      orderBy: { period: "desc" },
+      select: { period: true },
+    });
+    if (posted) {
+      throw new ValidationError(`${posted.period} dönemi stok kaydı yapılmış; önce dönem kaydını geri alın.`);
+    }
+  }
+
+  private parseUnit(unit: string | undefined): string {
+    const code = (unit ?? "C62").trim().toUpperCase();
+    if (!STOCK_UNIT_CODES.includes(code)) {
+      throw new ValidationError(`Geçersiz birim kodu: ${code}`);
+    }
+    return code;
+  }
+
+  private parseAccountCode(code: string | undefined, fallback: string, prefix: string): string {
+    const value = (code ?? fallback).trim();
+    if (!value.startsWith(prefix) || !/^\d{3}(\.\d+)*$/.test(value)) {
+      throw new ValidationError(`${value} hesap kodu ${prefix} grubunda olmalıdır.`);
+    }
+    return value;
+  }
+}
+
+function toCostingMovement(row: MovementRow) {
+  return {
+    id: row.id,
+    direction: row.direction as StockDirection,
+    date: row.date,
+    quantity: Number(row.quantity),
+    unitCost: row.unitCost !== null ? Number(row.unitCost) : null,
+  };
+}
+
+function toPostingResponse<T extends { cogsAmount: unknown; shortageAmount: unknown; surplusAmount: unknown; closingValue: unknown }>(
+  posting: T
+) {
+  return {
+    ...posting,
+    cogsAmount: Number(posting.cogsAmount),
+    shortageAmount: Number(posting.shortageAmount),
+    surplusAmount: Number(posting.surplusAmount),
+    closingValue: Number(posting.closingValue),
+  };
+}
+
+export const stockService = new StockService();
@@ -7,6 +7,8 @@ import type {
   UpdateTransactionInput,
 } from "@repo/core-domain";
 import type { PaginatedResult } from "./client-company-service";
+import { accountingPeriodService } from "./accounting-period-service";
+import { dimensionService, type LineDimension } from "./dimension-service";
 
 export interface ListTransactionsFilters {
   clientCompanyId?: string;
@@ -21,11 +23,20 @@ export interface TrialBalanceEntry {
   ledgerAccountId: string;
   ledgerAccountCode: string;
   ledgerAccountName: string;
-  totalDebit: number;
+  parentLedgerAccountId: string | null;
+  level: number;
+  hasChildren: boolean;
+  totalDebit: number; // includes the postings of all sub-accounts
   totalCredit: number;
   balance: number;
 }
 
+export interface TrialBalanceOptions {
+  maxLevel?: number; // 1: only ana hesaplar, 2: down to alt hesaplar, ...
+  excludeTransactionIds?: string[]; // e.g. the previous year-end run when re-computing it
+  dimensionValueIds?: string[]; // only lines tagged with these values (any within a dimension, all dimensions)
+}
+
 export interface TrialBalanceResult {
   entries: TrialBalanceEntry[];
   totalDebit: number;
@@ -109,6 +120,7 @@ export class TransactionService {
         lines: {
           include: {
             ledgerAccount: true,
+            dimensions: { select: { dimensionValueId: true } },
           },
         },
       },
@@ -136,6 +148,7 @@ export class TransactionService {
         debitAmount: Number(line.debitAmount),
         creditAmount: Number(line.creditAmount),
         description: line.description,
+        dimensionValueIds: (line.dimensions ?? []).map((entry) => entry.dimensionValueId),
         createdAt: line.createdAt,
         updatedAt: line.updatedAt,
       })),
@@ -167,6 +180,11 @@ export class TransactionService {
       throw new ValidationError("Bazı hesap kodları geçersiz veya bu kiracıya ait değil.");
     }
 
+    this.assertAccountsBelongToCompany(ledgerAccounts, input.clientCompanyId ?? null);
+
+    // Closed and locked periods no longer accept postings
+    await accountingPeriodService.assertDateWritable(tenantId, input.clientCompanyId, input.date);
+
     // Validate debit == credit
     const totalDebit = input.lines.reduce((sum, line) => sum + line.debitAmount, 0);
     const totalCredit = input.lines.reduce((sum, line) => sum + line.creditAmount, 0);
@@ -178,6 +196,8 @@ export class TransactionService {
       );
     }
 
+    const lineDimensions = await dimensionService.resolveJournalLines(tenantId, input.lines, ledgerAccounts);
+
     const transaction = await prisma.transaction.create({
       data: {
         tenantId,
@@ -187,12 +207,13 @@ export class TransactionService {
         description: input.description ?? null,
         source: input.source || "manual",
         lines: {
-          create: input.lines.map((line) => ({
+          create: input.lines.map((line, index) => ({
             tenantId,
             ledgerAccountId: line.ledgerAccountId,
             debitAmount: line.debitAmount,
             creditAmount: line.creditAmount,
             description: line.description ?? null,
+            ...this.dimensionsCreate(tenantId, lineDimensions[index]),
           })),
         },
       },
@@ -225,6 +246,16 @@ export class TransactionService {
       throw new NotFoundError("Mali hareket bulunamadı.");
     }
 
+    // Both the period the entry is in and the one it moves to must be open
+    await accountingPeriodService.assertDateWritable(tenantId, existing.clientCompanyId, existing.date);
+    if (input.clientCompanyId !== undefined || input.date) {
+      await accountingPeriodService.assertDateWritable(
+        tenantId,
+        input.clientCompanyId !== undefined ? input.clientCompanyId : existing.clientCompanyId,
+        input.date ?? existing.date
+      );
+    }
+
     // Validate client company if provided
     if (input.clientCompanyId) {
       const client = await prisma.clientCompany.findFirst({
@@ -237,6 +268,7 @@ export class TransactionService {
     }
 
     // If updating lines, validate
+    let lineDimensions: LineDimension[][] = [];
     if (input.lines) {
       const ledgerAccountIds = input.lines.map((line) => line.ledgerAccountId);
       const ledgerAccounts = await prisma.ledgerAccount.findMany({
@@ -250,6 +282,11 @@ export class TransactionService {
         throw new ValidationError("Bazı hesap kodları geçersiz veya bu kiracıya ait değil.");
       }
 
+      this.assertAccountsBelongToCompany(
+        ledgerAccounts,
+        input.clientCompanyId !== undefined ? input.clientCompanyId : existing.clientCompanyId
+      );
+
       const totalDebit = input.lines.reduce((sum, line) => sum + line.debitAmount, 0);
       const totalCredit = input.lines.reduce((sum, line) => sum + line.creditAmount, 0);
       const tolerance = 0.01;
@@ -259,6 +296,8 @@ export class TransactionService {
           `Toplam borç (${totalDebit}) ile toplam alacak (${totalCredit}) eşit olmalıdır.`
         );
       }
+
+      lineDimensions = await dimensionService.resolveJournalLines(tenantId, input.lines, ledgerAccounts);
     }
 
     const transaction = await prisma.$transaction(async (tx) => {
@@ -279,12 +318,13 @@ export class TransactionService {
           description: input.description,
           ...(input.lines && {
             lines: {
-              create: input.lines.map((line) => ({
+              create: input.lines.map((line, index) => ({
                 tenantId,
                 ledgerAccountId: line.ledgerAccountId,
                 debitAmount: line.debitAmount,
                 creditAmount: line.creditAmount,
                 description: line.description ?? null,
+                ...this.dimensionsCreate(tenantId, lineDimensions[index]),
               })),
             },
           }),
@@ -317,6 +357,8 @@ export class TransactionService {
       throw new NotFoundError("Mali hareket bulunamadı.");
     }
 
+    await accountingPeriodService.assertDateWritable(tenantId, transaction.clientCompanyId, transaction.date);
+
     await prisma.transaction.delete({
       where: { id },
     });
@@ -326,7 +368,8 @@ export class TransactionService {
     tenantId: string,
     clientCompanyId: string | null,
     dateFrom: Date,
-    dateTo: Date
+    dateTo: Date,
+    options: TrialBalanceOptions = {}
   ): Promise<TrialBalanceResult> {
     const where: any = {
       tenantId,
@@ -340,10 +383,21 @@ export class TransactionService {
       where.clientCompanyId = clientCompanyId;
     }
 
+    if (options.excludeTransactionIds && options.excludeTransactionIds.length > 0) {
+      where.id = { notIn: options.excludeTransactionIds };
+    }
+
+    // Dimension filter: a masraf merkezi or proje mizanı only sums the tagged lines
+    const lineFilter = await dimensionService.buildLineFilter(tenantId, options.dimensionValueIds);
+    if (lineFilter) {
+      where.lines = { some: lineFilter };
+    }
+
     const transactions = await prisma.transaction.findMany({
       where,
       include: {
         lines: {
+          where: lineFilter ?? undefined,
           include: {
             ledgerAccount: true,
           },
@@ -351,38 +405,87 @@ export class TransactionService {
       },
     });
 
-    // Aggregate by ledger account
+    // Aggregate postings by ledger account
     const accountMap = new Map<string, TrialBalanceEntry>();
+    const accounts = new Map<string, { id: string; parentId: string | null }>();
+
+    const ensureEntry = (account: any): TrialBalanceEntry => {
+      if (!accountMap.has(account.id)) {
+        accountMap.set(account.id, {
+          ledgerAccountId: account.id,
+          ledgerAccountCode: account.code,
+          ledgerAccountName: account.name,
+          parentLedgerAccountId: account.parentId ?? null,
+          level: account.level ?? 1,
+          hasChildren: false,
+          totalDebit: 0,
+          totalCredit: 0,
+          balance: 0,
+        });
+        accounts.set(account.id, { id: account.id, parentId: account.parentId ?? null });
+      }
+      return accountMap.get(account.id)!;
+    };
+
+    let totalDebit = 0;
+    let totalCredit = 0;
+    const postings: Array<{ accountId: string; debit: number; credit: number }> = [];
 
     transactions.forEach((transaction) => {
       transaction.lines.forEach((line) => {
-        const accountId = line.ledgerAccountId;
-        const account = line.ledgerAccount;
-
-        if (!accountMap.has(accountId)) {
-          accountMap.set(accountId, {
-            ledgerAccountId: accountId,
-            ledgerAccountCode: account.code,
-            ledgerAccountName: account.name,
-            totalDebit: 0,
-            totalCredit: 0,
-            balance: 0,
-          });
-        }
+        const debit = Number(line.debitAmount);
+        const credit = Number(line.creditAmount);
 
-        const entry = accountMap.get(accountId)!;
-        entry.totalDebit += Number(line.debitAmount);
-        entry.totalCredit += Number(line.creditAmount);
-        entry.balance = entry.totalDebit - entry.totalCredit;
+        ensureEntry({ ...line.ledgerAccount, id: line.ledgerAccountId });
+        postings.push({ accountId: line.ledgerAccountId, debit, credit });
+        totalDebit += debit;
+        totalCredit += credit;
       });
     });
 
-    const entries = Array.from(accountMap.values()).sort((a, b) =>
-      a.ledgerAccountCode.localeCompare(b.ledgerAccountCode)
-    );
+    // Load parent accounts without postings of their own so the mizan shows every level
+    let missingParentIds = this.collectMissingParentIds(accounts, accountMap);
+    while (missingParentIds.length > 0) {
+      const parents = await prisma.ledgerAccount.findMany({
+        where: { id: { in: missingParentIds }, tenantId },
+      });
+
+      if (parents.length === 0) {
+        break;
+      }
 
-    const totalDebit = entries.reduce((sum, entry) => sum + entry.totalDebit, 0);
-    const totalCredit = entries.reduce((sum, entry) => sum + entry.totalCredit, 0);
+      parents.forEach((parent) => ensureEntry(parent));
+      missingParentIds = this.collectMissingParentIds(accounts, accountMap);
+    }
+
+    // Roll every posting up to the account itself and all of its ancestors
+    for (const posting of postings) {
+      let accountId: string | null = posting.accountId;
+      const visited = new Set<string>();
+
+      while (accountId && !visited.has(accountId)) {
+        visited.add(accountId);
+        const entry = accountMap.get(accountId);
+        if (!entry) {
+          break;
+        }
+        entry.totalDebit += posting.debit;
+        entry.totalCredit += posting.credit;
+        entry.balance = entry.totalDebit - entry.totalCredit;
+        accountId = entry.parentLedgerAccountId;
+      }
+    }
+
+    for (const entry of accountMap.values()) {
+      const parent = entry.parentLedgerAccountId ? accountMap.get(entry.parentLedgerAccountId) : undefined;
+      if (parent) {
+        parent.hasChildren = true;
+      }
+    }
+
+    const entries = Array.from(accountMap.values())
+      .filter((entry) => !options.maxLevel || entry.level <= options.maxLevel)
+      .sort((a, b) => a.ledgerAccountCode.localeCompare(b.ledgerAccountCode));
 
     return {
       entries,
@@ -390,6 +493,40 @@ export class TransactionService {
       totalCredit,
     };
   }
+
+  /**
+   * Accounts from a client company's own chart can only be posted for that company
+   */
+  private assertAccountsBelongToCompany(
+    ledgerAccounts: Array<{ code: string; clientCompanyId?: string | null }>,
+    clientCompanyId: string | null
+  ): void {
+    const foreign = ledgerAccounts.find(
+      (account) => account.clientCompanyId && account.clientCompanyId !== clientCompanyId
+    );
+
+    if (foreign) {
+      throw new ValidationError(`${foreign.code} hesabı bu müşteri şirketinin hesap planına ait değil.`);
+    }
+  }
+
+  private dimensionsCreate(tenantId: string, dimensions: LineDimension[] | undefined) {
+    if (!dimensions || dimensions.length === 0) return {};
+    return { dimensions: { create: dimensions.map((entry) => ({ tenantId, ...entry })) } };
+  }
+
+  private collectMissingParentIds(
+    accounts: Map<string, { id: string; parentId: string | null }>,
+    accountMap: Map<string, TrialBalanceEntry>
+  ): string[] {
+    const missing = new Set<string>();
+    for (const account of accounts.values()) {
+      if (account.parentId && !accountMap.has(account.parentId)) {
+        missing.add(account.parentId);
+      }
+    }
+    return Array.from(missing);
+  }
 }
 
 export const transactionService = new TransactionService();
@@ -1291,6 +1291,119 @@ export const ASGARI_UCRET_2024 = {
   ISVEREN_MALIYETI: 23502.94,
 };
 
+export interface BordroParametreleri {
+  asgariUcretBrut: number; // aylık
+  sgkTavanCarpani: number; // prime esas kazanç üst sınırı = asgari ücret x çarpan
+  gelirVergisiDilimleri: Array<{ ustSinir: number; oran: number }>; // ücret gelirleri, kümülatif matrah
+  damgaVergisiOrani: number;
+  isciSgk: number;
+  isciIssizlik: number;
+  isverenSgk: number; // kısa vadeli + uzun vadeli + GSS
+  isverenIssizlik: number;
+}
+
+// Yıllık bordro parametreleri (GVK 103, 5510 s.K. 82, asgari ücret tespit komisyonu kararları)
+export const BORDRO_PARAMETRELERI: Record<number, BordroParametreleri> = {
+  2024: {
+    asgariUcretBrut: 20002.5,
+    sgkTavanCarpani: 7.5,
+    gelirVergisiDilimleri: [
+      { ustSinir: 110000, oran: 0.15 },
+      { ustSinir: 230000, oran: 0.2 },
+      { ustSinir: 870000, oran: 0.27 },
+      { ustSinir: 3000000, oran: 0.35 },
+      { ustSinir: Infinity, oran: 0.4 },
+    ],
+    damgaVergisiOrani: 0.00759,
+    isciSgk: 0.14,
+    isciIssizlik: 0.01,
+    isverenSgk: 0.205,
+    isverenIssizlik: 0.02,
+  },
+  2025: {
+    asgariUcretBrut: 26005.5,
+    sgkTavanCarpani: 7.5,
+    gelirVergisiDilimleri: [
+      { ustSinir: 158000, oran: 0.15 },
+      { ustSinir: 330000, oran: 0.2 },
+      { ustSinir: 1200000, oran: 0.27 },
+      { ustSinir: 4300000, oran: 0.35 },
+      { ustSinir: Infinity, oran: 0.4 },
+    ],
+    damgaVergisiOrani: 0.00759,
+    isciSgk: 0.14,
+    isciIssizlik: 0.01,
+    isverenSgk: 0.2075,
+    isverenIssizlik: 0.02,
+  },
+  2026: {
+    asgariUcretBrut: 33030,
+    sgkTavanCarpani: 7.5,
+    gelirVergisiDilimleri: [
+      { ustSinir: 190000, oran: 0.15 },
+      { ustSinir: 400000, oran: 0.2 },
+      { ustSinir: 1500000, oran: 0.27 },
+      { ustSinir: 5300000, oran: 0.35 },
+      { ustSinir: Infinity, oran: 0.4 },
+    ],
+    damgaVergisiOrani: 0.00759,
+    isciSgk: 0.14,
+    isciIssizlik: 0.01,
+    isverenSgk: 0.2075,
+    isverenIssizlik: 0.02,
+  },
+};
+
+export interface SgkTesvik {
+  kanunNo: string;
+  ad: string;
+  // puan: işveren payından düşülen oran; isveren_payi: işveren sigorta + işsizlik payının tamamı
+  tur: "puan" | "isveren_payi";
+  oran?: number;
+  matrah?: "prime_esas_kazanc" | "asgari_ucret"; // isveren_payi teşviklerinde karşılanan matrah
+}
+
+// Sık kullanılan SGK teşvikleri (APHB'de bildirilen kanun numaraları)
+export const SGK_TESVIKLERI: SgkTesvik[] = [
+  { kanunNo: "05510", ad: "5510 s.K. 5 puanlık hazine desteği", tur: "puan", oran: 0.05 },
+  { kanunNo: "06111", ad: "6111 s.K. genç/kadın/mesleki belgeli istihdam", tur: "isveren_payi", matrah: "prime_esas_kazanc" },
+  { kanunNo: "17103", ad: "4447 s.K. geçici 19. madde ilave istihdam", tur: "isveren_payi", matrah: "asgari_ucret" },
+  { kanunNo: "27103", ad: "4447 s.K. geçici 19. madde işsizlik ödeneği alanlar", tur: "isveren_payi", matrah: "asgari_ucret" },
+  { kanunNo: "14857", ad: "4857 s.K. 30. madde engelli istihdamı", tur: "isveren_payi", matrah: "asgari_ucret" },
+];
+
+// Form Ba/Bs bildirim sınırı: kişi başına aylık KDV hariç toplam (VUK 396 Sıra No.lu Genel Tebliğ)
+export const BABS_BILDIRIM_SINIRI: Record<number, number> = {
+  2024: 5000,
+  2025: 5000,
+  2026: 5000,
+};
+
+export interface AmortismanListesiKalemi {
+  kod: string;
+  ad: string;
+  faydaliOmur: number; // yıl
+  hesapKodu: string; // Tek Düzen aktif hesabı
+  kistAmortisman?: boolean; // ilk yıl kıst amortisman uygulanır (binek otomobiller)
+}
+
+// VUK Amortisman Listesi (333, 339, 365 ve 389 Sıra No.lu Genel Tebliğler) - sık kullanılan kalemler
+export const VUK_AMORTISMAN_LISTESI: AmortismanListesiKalemi[] = [
+  { kod: "binalar_betonarme", ad: "Binalar (betonarme)", faydaliOmur: 50, hesapKodu: "252" },
+  { kod: "binalar_diger", ad: "Binalar (diğer)", faydaliOmur: 25, hesapKodu: "252" },
+  { kod: "yeralti_yerustu_duzenleri", ad: "Yeraltı ve yerüstü düzenleri", faydaliOmur: 10, hesapKodu: "251" },
+  { kod: "tesis_makine_cihazlar", ad: "Tesis, makine ve cihazlar", faydaliOmur: 10, hesapKodu: "253" },
+  { kod: "binek_otomobil", ad: "Binek otomobiller", faydaliOmur: 5, hesapKodu: "254", kistAmortisman: true },
+  { kod: "kamyon_kamyonet", ad: "Kamyon ve kamyonetler", faydaliOmur: 5, hesapKodu: "254" },
+  { kod: "is_makineleri", ad: "İş makineleri", faydaliOmur: 6, hesapKodu: "253" },
+  { kod: "bilgisayar", ad: "Bilgisayarlar ve çevre birimleri", faydaliOmur: 4, hesapKodu: "255" },
+  { kod: "buro_makineleri", ad: "Büro makineleri", faydaliOmur: 5, hesapKodu: "255" },
+  { kod: "mobilya_mefrusat", ad: "Mobilya ve mefruşat", faydaliOmur: 5, hesapKodu: "255" },
+  { kod: "cep_telefonu", ad: "Cep telefonları", faydaliOmur: 3, hesapKodu: "255" },
+  { kod: "haklar", ad: "Haklar (lisans, marka, yazılım)", faydaliOmur: 15, hesapKodu: "260" },
+  { kod: "ozel_maliyetler", ad: "Özel maliyetler (kira süresine göre)", faydaliOmur: 5, hesapKodu: "264" },
+];
+
 // =============================================================================
 // TURKISH ACCOUNTING TERMINOLOGY
 // =============================================================================
@@ -0,0 +1,668 @@
+import { prisma } from "../lib/prisma";
+import { NotFoundError, ValidationError, logger } from "@repo/shared-utils";
+import { transactionService, type TrialBalanceEntry } from "./transaction-service";
+import { tmsComplianceService } from "./tms-compliance-service";
+import { accountingPeriodService } from "./accounting-period-service";
+import { ledgerAccountService } from "./ledger-account-service";
+import { auditService } from "./audit-service";
+import { parseAccountCode, TEK_DUZEN_HESAP_PLANI_TEMPLATE } from "./chart-of-accounts";
+import { KURUMLAR_VERGISI_ORANI } from "./turkish-accounting-knowledge";
+
+/**
+ * Yıl sonu kapanış ve açılış fişleri
+ *
+ * For a fiscal year the wizard generates three transactions:
+ *  1. Dönem sonucu fişi: 6xx/7xx balances → 690, 691 tax provision (→ 370,
+ *     netted with 193 through 371), 690/691 → 692, 692 → 590 or 591.
+ *  2. Kapanış fişi on 31 December zeroing every remaining balance.
+ *  3. Açılış fişi on 1 January of the next year re-opening those balances.
+ *
+ * Posting again replaces the transactions of the previous run, so late
+ * adjustments only need another run.
+ */
+
+const RESULT_ACCOUNT_CODES = ["690", "691", "692"];
+const BALANCE_TOLERANCE = 0.005;
+
+export type YearEndTransactionKind = "result" | "closing" | "opening";
+
+export interface YearEndOptions {
+  taxRate?: number; // defaults to the kurumlar vergisi oranı
+  nonDeductibleExpenses?: number; // KKEG, added to the tax base
+  taxExemptions?: number; // istisna ve indirimler, deducted from the tax base
+  carryForwardToRetainedEarnings?: boolean; // open 590/591 as 570/580 in the new year
+}
+
+export interface YearEndLine {
+  ledgerAccountId: string | null; // null: account is created from the template when posting
+  code: string;
+  name: string;
+  debitAmount: number;
+  creditAmount: number;
+  description: string;
+}
+
+export interface YearEndTransactionDraft {
+  kind: YearEndTransactionKind;
+  date: Date;
+  referenceNo: string;
+  description: string;
+  lines: YearEndLine[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+export interface YearEndSummary {
+  totalIncome: number;
+  totalExpense: number;
+  profitBeforeTax: number;
+  taxBase: number;
+  taxRate: number;
+  taxProvision: number;
+  prepaidTaxOffset: number;
+  netResult: number; // > 0 → 590 Dönem Net Kârı, < 0 → 591 Dönem Net Zararı
+}
+
+export interface YearEndDiffEntry {
+  kind: YearEndTransactionKind;
+  code: string;
+  previousDebit: number;
+  previousCredit: number;
+  debit: number;
+  credit: number;
+}
+
+export interface YearEndPreview {
+  clientCompanyId: string;
+  fiscalYear: number;
+  summary: YearEndSummary;
+  transactions: YearEndTransactionDraft[];
+  previousRun: { postedAt: Date; runCount: number } | null;
+  diff: YearEndDiffEntry[]; // changes against the previously posted run
+  complianceIssues: Array<{ type: string; severity: string; description: string }>;
+  warnings: string[];
+}
+
+export interface YearEndClosingResult {
+  id: string;
+  fiscalYear: number;
+  resultTransactionId: string | null;
+  closingTransactionId: string | null;
+  openingTransactionId: string | null;
+  runCount: number;
+  postedAt: Date;
+  summary: YearEndSummary;
+}
+
+interface ResolvedAccount {
+  ledgerAccountId: string | null;
+  code: string;
+  name: string;
+}
+
+interface AccountBalance extends ResolvedAccount {
+  balance: number; // debit - credit
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function templateName(code: string): string {
+  return TEK_DUZEN_HESAP_PLANI_TEMPLATE.find((entry) => entry.code === code)?.name ?? code;
+}
+
+function isIncomeStatementAccount(code: string): boolean {
+  const { accountClass, mainAccountCode } = parseAccountCode(code);
+  return (accountClass === 6 || accountClass === 7) && !RESULT_ACCOUNT_CODES.includes(mainAccountCode);
+}
+
+/**
+ * Balances posted to the account itself; trial balance totals include sub-accounts
+ */
+function toDirectBalances(entries: TrialBalanceEntry[]): AccountBalance[] {
+  const childTotals = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.parentLedgerAccountId) {
+      childTotals.set(
+        entry.parentLedgerAccountId,
+        (childTotals.get(entry.parentLedgerAccountId) ?? 0) + entry.balance
+      );
+    }
+  }
+
+  return entries
+    .map((entry) => ({
+      ledgerAccountId: entry.ledgerAccountId,
+      code: entry.ledgerAccountCode,
+      name: entry.ledgerAccountName,
+      balance: round2(entry.balance - (childTotals.get(entry.ledgerAccountId) ?? 0)),
+    }))
+    .filter((balance) => Math.abs(balance.balance) > BALANCE_TOLERANCE);
+}
+
+function closingLine(balance: AccountBalance, description: string): YearEndLine {
+  return {
+    ledgerAccountId: balance.ledgerAccountId,
+    code: balance.code,
+    name: balance.name,
+    debitAmount: balance.balance < 0 ? round2(-balance.balance) : 0,
+    creditAmount: balance.balance > 0 ? round2(balance.balance) : 0,
+    description,
+  };
+}
+
+function buildDraft(
+  kind: YearEndTransactionKind,
+  date: Date,
+  referenceNo: string,
+  description: string,
+  lines: YearEndLine[]
+): YearEndTransactionDraft {
+  const nonZero = lines.filter((line) => line.debitAmount > 0 || line.creditAmount > 0);
+  return {
+    kind,
+    date,
+    referenceNo,
+    description,
+    lines: nonZero,
+    totalDebit: round2(nonZero.reduce((sum, line) => sum + line.debitAmount, 0)),
+    totalCredit: round2(nonZero.reduce((sum, line) => sum + line.creditAmount, 0)),
+  };
+}
+
+export class YearEndClosingService {
+  /**
+   * Get the posted year-end run of a fiscal year, if any
+   */
+  async getClosing(
+    tenantId: string,
+    clientCompanyId: string,
+    fiscalYear: number
+  ): Promise<YearEndClosingResult | null> {
+    const closing = await prisma.yearEndClosing.findUnique({
+      where: { tenantId_clientCompanyId_fiscalYear: { tenantId, clientCompanyId, fiscalYear } },
+    });
+
+    return closing ? this.mapClosing(closing) : null;
+  }
+
+  /**
+   * Compute the closing, result and opening transactions without posting them
+   */
+  async preview(
+    tenantId: string,
+    clientCompanyId: string,
+    fiscalYear: number,
+    options: YearEndOptions = {}
+  ): Promise<YearEndPreview> {
+    const client = await prisma.clientCompany.findFirst({
+      where: { id: clientCompanyId, tenantId },
+      select: { id: true },
+    });
+
+    if (!client) {
+      throw new NotFoundError("Müşteri şirketi bulunamadı.");
+    }
+
+    const yearStart = new Date(fiscalYear, 0, 1);
+    const yearEnd = new Date(fiscalYear, 11, 31, 23, 59, 59, 999);
+    const closingDate = new Date(fiscalYear, 11, 31);
+    const openingDate = new Date(fiscalYear + 1, 0, 1);
+
+    const previous = await prisma.yearEndClosing.findUnique({
+      where: { tenantId_clientCompanyId_fiscalYear: { tenantId, clientCompanyId, fiscalYear } },
+    });
+    const previousIds = previous ? this.transactionIds(previous) : [];
+
+    // Income statement accounts only carry the fiscal year, balance sheet accounts are cumulative
+    const [yearBalance, cumulativeBalance] = await Promise.all([
+      transactionService.getTrialBalance(tenantId, clientCompanyId, yearStart, yearEnd, {
+        excludeTransactionIds: previousIds,
+      }),
+      transactionService.getTrialBalance(tenantId, clientCompanyId, new Date(0), yearEnd, {
+        excludeTransactionIds: previousIds,
+      }),
+    ]);
+
+    const warnings: string[] = [];
+    if (Math.abs(cumulativeBalance.totalDebit - cumulativeBalance.totalCredit) > 0.01) {
+      warnings.push("Mizan borç ve alacak toplamları eşit değil, kapanış fişi dengeli olmayacak.");
+    }
+
+    const incomeStatementBalances = toDirectBalances(yearBalance.entries).filter((balance) =>
+      isIncomeStatementAccount(balance.code)
+    );
+    const balances = toDirectBalances(cumulativeBalance.entries).filter(
+      (balance) => !isIncomeStatementAccount(balance.code)
+    );
+
+    const accounts = await this.resolveAccounts(tenantId, clientCompanyId, [
+      "690", "691", "692", "590", "591", "370", "371", "193", "570", "580",
+    ]);
+
+    const sumMain = (code: string) =>
+      round2(
+        balances
+          .filter((balance) => parseAccountCode(balance.code).mainAccountCode === code)
+          .reduce((sum, balance) => sum + balance.balance, 0)
+      );
+
+    // ─── 1. Gelir tablosu hesaplarının 690'a devri ───
+    const resultLines: YearEndLine[] = [];
+    let closedNet = 0;
+    for (const balance of incomeStatementBalances) {
+      resultLines.push(closingLine(balance, "Gelir tablosu hesabının 690 hesabına devri"));
+      closedNet += balance.balance;
+    }
+    closedNet = round2(closedNet);
+
+    const totalIncome = round2(
+      -incomeStatementBalances.filter((b) => b.balance < 0).reduce((sum, b) => sum + b.balance, 0)
+    );
+    const totalExpense = round2(
+      incomeStatementBalances.filter((b) => b.balance > 0).reduce((sum, b) => sum + b.balance, 0)
+    );
+
+    resultLines.push(this.line(accounts["690"], closedNet, "Dönem kârı veya zararı"));
+
+    const existing690 = sumMain("690");
+    const profitBeforeTax = round2(-(existing690 + closedNet));
+
+    // ─── 2. Vergi karşılığı (691 / 370) ───
+    const taxRate = options.taxRate ?? KURUMLAR_VERGISI_ORANI;
+    const existing691 = sumMain("691");
+    let taxBase = 0;
+    let taxProvision = 0;
+
+    if (existing691 > 0) {
+      taxProvision = existing691;
+      warnings.push("691 hesabında elle kaydedilmiş vergi karşılığı bulundu, yeniden hesaplanmadı.");
+    } else {
+      taxBase = round2(
+        Math.max(0, profitBeforeTax + (options.nonDeductibleExpenses ?? 0) - (options.taxExemptions ?? 0))
+      );
+      taxProvision = round2(taxBase * taxRate);
+
+      if (taxProvision > 0) {
+        resultLines.push(this.line(accounts["691"], taxProvision, "Dönem kârı vergi karşılığı"));
+        resultLines.push(this.line(accounts["370"], -taxProvision, "Dönem kârı vergi karşılığı"));
+      }
+    }
+
+    let prepaidTaxOffset = 0;
+    const prepaidTax = sumMain("193");
+    if (taxProvision > 0 && prepaidTax > 0) {
+      prepaidTaxOffset = round2(Math.min(prepaidTax, taxProvision));
+      resultLines.push(this.line(accounts["371"], prepaidTaxOffset, "Peşin ödenen vergilerin mahsubu"));
+      resultLines.push(this.line(accounts["193"], -prepaidTaxOffset, "Peşin ödenen vergilerin mahsubu"));
+    }
+
+    // ─── 3. 690 ve 691'in 692'ye devri ───
+    if (profitBeforeTax !== 0) {
+      resultLines.push(this.line(accounts["690"], profitBeforeTax, "Dönem kârı veya zararının 692 hesabına devri"));
+      resultLines.push(this.line(accounts["692"], -profitBeforeTax, "Dönem kârı veya zararının 692 hesabına devri"));
+    }
+    if (taxProvision > 0) {
+      resultLines.push(this.line(accounts["692"], taxProvision, "Vergi karşılığının 692 hesabına devri"));
+      resultLines.push(this.line(accounts["691"], -taxProvision, "Vergi karşılığının 692 hesabına devri"));
+    }
+
+    // ─── 4. 692'nin 590 / 591'e devri ───
+    const existing692 = sumMain("692");
+    const netResult = round2(profitBeforeTax - taxProvision - existing692);
+    if (netResult > 0) {
+      resultLines.push(this.line(accounts["692"], netResult, "Dönem net kârının 590 hesabına devri"));
+      resultLines.push(this.line(accounts["590"], -netResult, "Dönem net kârının 590 hesabına devri"));
+    } else if (netResult < 0) {
+      resultLines.push(this.line(accounts["591"], -netResult, "Dönem net zararının 591 hesabına devri"));
+      resultLines.push(this.line(accounts["692"], netResult, "Dönem net zararının 591 hesabına devri"));
+    }
+
+    const resultDraft = buildDraft(
+      "result",
+      closingDate,
+      `KAPANIS-${fiscalYear}-SONUC`,
+      `${fiscalYear} dönem sonucu kapanış kayıtları`,
+      resultLines
+    );
+
+    // ─── Kapanış ve açılış fişleri ───
+    const afterResult = this.applyLines(balances, resultDraft.lines);
+    const closingDraft = buildDraft(
+      "closing",
+      closingDate,
+      `KAPANIS-${fiscalYear}`,
+      `${fiscalYear} yılı kapanış fişi`,
+      afterResult.map((balance) => closingLine(balance, "Kapanış kaydı"))
+    );
+
+    const carryForward = options.carryForwardToRetainedEarnings ?? true;
+    const openingLines = afterResult.map((balance) => {
+      const mainCode = parseAccountCode(balance.code).mainAccountCode;
+      const target =
+        carryForward && mainCode === "590"
+          ? accounts["570"]
+          : carryForward && mainCode === "591"
+            ? accounts["580"]
+            : balance;
+      const description = target === balance ? "Açılış kaydı" : `${balance.code} bakiyesinin ${target.code} hesabına devri`;
+      return this.line(target, balance.balance, description);
+    });
+    const openingDraft = buildDraft(
+      "opening",
+      openingDate,
+      `ACILIS-${fiscalYear + 1}`,
+      `${fiscalYear + 1} yılı açılış fişi`,
+      openingLines
+    );
+
+    const transactions = [resultDraft, closingDraft, openingDraft];
+    const diff = previous ? await this.diffWithPrevious(previous, transactions) : [];
+
+    const compliance = await tmsComplianceService.validateTMSCompliance(
+      tenantId,
+      clientCompanyId,
+      yearStart,
+      yearEnd
+    );
+
+    return {
+      clientCompanyId,
+      fiscalYear,
+      summary: {
+        totalIncome,
+        totalExpense,
+        profitBeforeTax,
+        taxBase,
+        taxRate,
+        taxProvision,
+        prepaidTaxOffset,
+        netResult,
+      },
+      transactions,
+      previousRun: previous ? { postedAt: previous.postedAt, runCount: previous.runCount } : null,
+      diff,
+      complianceIssues: compliance.issues.map((issue) => ({
+        type: issue.type,
+        severity: issue.severity,
+        description: issue.description,
+      })),
+      warnings,
+    };
+  }
+
+  /**
+   * Post the year-end transactions, replacing those of a previous run
+   */
+  async post(
+    tenantId: string,
+    userId: string,
+    clientCompanyId: string,
+    fiscalYear: number,
+    options: YearEndOptions = {}
+  ): Promise<YearEndClosingResult> {
+    const preview = await this.preview(tenantId, clientCompanyId, fiscalYear, options);
+
+    if (preview.complianceIssues.some((issue) => issue.type === "double_entry")) {
+      throw new ValidationError("Dengesiz kayıtlar bulunan bir yıl kapatılamaz, önce mizanı düzeltin.");
+    }
+
+    const unbalanced = preview.transactions.find(
+      (draft) => Math.abs(draft.totalDebit - draft.totalCredit) > 0.01
+    );
+    if (unbalanced) {
+      throw new ValidationError(`${unbalanced.description} dengeli değil, kapanış yapılamaz.`);
+    }
+
+    // Year-end entries are period-end adjustments, so a soft-closed December accepts them
+    const closingDate = new Date(fiscalYear, 11, 31);
+    const openingDate = new Date(fiscalYear + 1, 0, 1);
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, closingDate, {
+      allowSoftClosed: true,
+    });
+    await accountingPeriodService.assertDateWritable(tenantId, clientCompanyId, openingDate);
+
+    const accountIds = await this.ensureAccounts(tenantId, clientCompanyId, preview.transactions);
+
+    const previous = await prisma.yearEndClosing.findUnique({
+      where: { tenantId_clientCompanyId_fiscalYear: { tenantId, clientCompanyId, fiscalYear } },
+    });
+
+    const closing = await prisma.$transaction(async (tx) => {
+      if (previous) {
+        await tx.transaction.deleteMany({
+          where: { id: { in: this.transactionIds(previous) }, tenantId },
+        });
+      }
+
+      const created: Partial<Record<YearEndTransactionKind, string>> = {};
+      for (const draft of preview.transactions) {
+        if (draft.lines.length === 0) {
+          continue;
+        }
+
+        const transaction = await tx.transaction.create({
+          data: {
+            tenantId,
+            clientCompanyId,
+            date: draft.date,
+            referenceNo: draft.referenceNo,
+            description: draft.description,
+            source: "year_end",
+            lines: {
+              create: draft.lines.map((line) => ({
+                tenantId,
+                ledgerAccountId: line.ledgerAccountId ?? accountIds.get(line.code)!,
+                debitAmount: line.debitAmount,
+                creditAmount: line.creditAmount,
+                description: line.description,
+              })),
+            },
+          },
+        });
+        created[draft.kind] = transaction.id;
+      }
+
+      const data = {
+        resultTransactionId: created.result ?? null,
+        closingTransactionId: created.closing ?? null,
+        openingTransactionId: created.opening ?? null,
+        summary: preview.summary as any,
+        postedAt: new Date(),
+        postedByUserId: userId,
+      };
+
+      return previous
+        ? tx.yearEndClosing.update({
+            where: { id: previous.id },
+            data: { ...data, runCount: { increment: 1 } },
+          })
+        : tx.yearEndClosing.create({
+            data: { tenantId, clientCompanyId, fiscalYear, ...data },
+          });
+    });
+
+    await auditService.log({
+      tenantId,
+      userId,
+      action: "YEAR_END_CLOSING_POSTED",
+      resourceType: "YearEndClosing",
+      resourceId: closing.id,
+      metadata: { clientCompanyId, fiscalYear, runCount: closing.runCount, netResult: preview.summary.netResult },
+    });
+
+    logger.info("Year-end closing posted", undefined, { tenantId, clientCompanyId, fiscalYear, runCount: closing.runCount });
+
+    return this.mapClosing(closing);
+  }
+
+  /** Positive amounts are debits, negative amounts credits */
+  private line(account: ResolvedAccount, amount: number, description: string): YearEndLine {
+    const value = round2(amount);
+    return {
+      ledgerAccountId: account.ledgerAccountId,
+      code: account.code,
+      name: account.name,
+      debitAmount: value > 0 ? value : 0,
+      creditAmount: value < 0 ? -value : 0,
+      description,
+    };
+  }
+
+  private applyLines(balances: AccountBalance[], lines: YearEndLine[]): AccountBalance[] {
+    const byCode = new Map(balances.map((balance) => [balance.code, { ...balance }]));
+
+    for (const line of lines) {
+      if (isIncomeStatementAccount(line.code)) {
+        continue; // closed to zero by the result transaction
+      }
+
+      const current = byCode.get(line.code) ?? {
+        ledgerAccountId: line.ledgerAccountId,
+        code: line.code,
+        name: line.name,
+        balance: 0,
+      };
+      current.balance = round2(current.balance + line.debitAmount - line.creditAmount);
+      byCode.set(line.code, current);
+    }
+
+    return Array.from(byCode.values())
+      .filter((balance) => Math.abs(balance.balance) > BALANCE_TOLERANCE)
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  private async resolveAccounts(
+    tenantId: string,
+    clientCompanyId: string,
+    codes: string[]
+  ): Promise<Record<string, ResolvedAccount>> {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: {
+        tenantId,
+        code: { in: codes },
+        OR: [{ clientCompanyId }, { clientCompanyId: null }],
+      },
+    });
+
+    const resolved: Record<string, ResolvedAccount> = {};
+    for (const code of codes) {
+      // Prefer the company's own chart, fall back to the tenant-wide account
+      const account =
+        accounts.find((a) => a.code === code && a.clientCompanyId === clientCompanyId) ??
+        accounts.find((a) => a.code === code);
+      resolved[code] = account
+        ? { ledgerAccountId: account.id, code, name: account.name }
+        : { ledgerAccountId: null, code, name: templateName(code) };
+    }
+
+    return resolved;
+  }
+
+  private async ensureAccounts(
+    tenantId: string,
+    clientCompanyId: string,
+    drafts: YearEndTransactionDraft[]
+  ): Promise<Map<string, string>> {
+    const ids = new Map<string, string>();
+
+    for (const draft of drafts) {
+      for (const line of draft.lines) {
+        if (line.ledgerAccountId || ids.has(line.code)) {
+          continue;
+        }
+
+        const account = await ledgerAccountService.createLedgerAccount(tenantId, {
+          clientCompanyId,
+          code: line.code,
+          name: line.name,
+        });
+        ids.set(line.code, account.id);
+      }
+    }
+
+    return ids;
+  }
+
+  private async diffWithPrevious(
+    previous: { resultTransactionId: string | null; closingTransactionId: string | null; openingTransactionId: string | null },
+    drafts: YearEndTransactionDraft[]
+  ): Promise<YearEndDiffEntry[]> {
+    const previousIds: Record<YearEndTransactionKind, string | null> = {
+      result: previous.resultTransactionId,
+      closing: previous.closingTransactionId,
+      opening: previous.openingTransactionId,
+    };
+
+    const lines = await prisma.transactionLine.findMany({
+      where: { transactionId: { in: Object.values(previousIds).filter((id): id is string => !!id) } },
+      include: { ledgerAccount: { select: { code: true } } },
+    });
+
+    const diff: YearEndDiffEntry[] = [];
+    for (const draft of drafts) {
+      const totals = new Map<string, { previousDebit: number; previousCredit: number; debit: number; credit: number }>();
+      const totalsFor = (code: string) => {
+        if (!totals.has(code)) {
+          totals.set(code, { previousDebit: 0, previousCredit: 0, debit: 0, credit: 0 });
+        }
+        return totals.get(code)!;
+      };
+
+      for (const line of lines.filter((l) => l.transactionId === previousIds[draft.kind])) {
+        const entry = totalsFor(line.ledgerAccount.code);
+        entry.previousDebit += Number(line.debitAmount);
+        entry.previousCredit += Number(line.creditAmount);
+      }
+      for (const line of draft.lines) {
+        const entry = totalsFor(line.code);
+        entry.debit += line.debitAmount;
+        entry.credit += line.creditAmount;
+      }
+
+      for (const [code, entry] of totals) {
+        const changed =
+          Math.abs(entry.previousDebit - entry.debit) > BALANCE_TOLERANCE ||
+          Math.abs(entry.previousCredit - entry.credit) > BALANCE_TOLERANCE;
+        if (changed) {
+          diff.push({
+            kind: draft.kind,
+            code,
+            previousDebit: round2(entry.previousDebit),
+            previousCredit: round2(entry.previousCredit),
+            debit: round2(entry.debit),
+            credit: round2(entry.credit),
+          });
+        }
+      }
+    }
+
+    return diff.sort((a, b) => a.kind.localeCompare(b.kind) || a.code.localeCompare(b.code));
+  }
+
+  private transactionIds(closing: {
+    resultTransactionId: string | null;
+    closingTransactionId: string | null;
+    openingTransactionId: string | null;
+  }): string[] {
+    return [closing.resultTransactionId, closing.closingTransactionId, closing.openingTransactionId].filter(
+      (id): id is string => !!id
+    );
+  }
+
+  private mapClosing(closing: any): YearEndClosingResult {
+    return {
+      id: closing.id,
+      fiscalYear: closing.fiscalYear,
+      resultTransactionId: closing.resultTransactionId ?? null,
+      closingTransactionId: closing.closingTransactionId ?? null,
+      openingTransactionId: closing.openingTransactionId ?? null,
+      runCount: closing.runCount,
+      postedAt: closing.postedAt,
+      summary: closing.summary as YearEndSummary,
+    };
+  }
+}
+
+export const yearEndClosingService = new YearEndClosingService();
@@ -186,6 +186,7 @@ export class ZipExtractionService {
       ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
       ".doc": "application/msword",
       ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      ".xml": "application/xml",
     };
 
     // Check extension first
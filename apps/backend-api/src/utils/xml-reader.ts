@@ -0,0 +1,201 @@
+/**
+ * Minimal XML reader for the documents we import (camt.053 bank
+ * statements, UBL-TR invoices).
+ *
+ * Builds a plain element tree with namespace prefixes removed from element
+ * and attribute names. DTDs are skipped and never expanded, so external
+ * entities cannot be pulled in.
+ */
+
+import { ValidationError } from "@repo/shared-utils";
+
+export interface XmlElement {
+  name: string; // local name, without namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+// End of a start/end tag, skipping ">" inside quoted attribute values
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const name = match[1];
+    if (name === "xmlns" || name.startsWith("xmlns:")) {
+      continue;
+    }
+    attributes[localName(name)] = decodeEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const source = xml.replace(/^\uFEFF/, "");
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new ValidationError(`Geçersiz XML dosyası: ${reason}`);
+  };
+
+  const skipTo = (marker: string, from: number): number => {
+    const end = source.indexOf(marker, from);
+    if (end === -1) {
+      fail("kapanmamış bölüm");
+    }
+    return end + marker.length;
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf("<", pos);
+    const textEnd = lt === -1 ? source.length : lt;
+    if (textEnd > pos && stack.length > 0) {
+      stack[stack.length - 1].text += decodeEntities(source.slice(pos, textEnd));
+    }
+    if (lt === -1) {
+      break;
+    }
+
+    if (source.startsWith("<!--", lt)) {
+      pos = skipTo("-->", lt + 4);
+      continue;
+    }
+    if (source.startsWith("<![CDATA[", lt)) {
+      const end = skipTo("]]>", lt + 9);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += source.slice(lt + 9, end - 3);
+      }
+      pos = end;
+      continue;
+    }
+    if (source.startsWith("<?", lt)) {
+      pos = skipTo("?>", lt + 2);
+      continue;
+    }
+    if (source.startsWith("<!", lt)) {
+      // DOCTYPE, including an internal subset in brackets
+      const bracket = source.indexOf("[", lt);
+      const close = source.indexOf(">", lt);
+      pos = bracket !== -1 && bracket < close ? skipTo("]>", bracket) : skipTo(">", lt);
+      continue;
+    }
+
+    const gt = findTagEnd(source, lt + 1);
+    if (gt === -1) {
+      fail("kapanmamış etiket");
+    }
+    const tag = source.slice(lt + 1, gt);
+    pos = gt + 1;
+
+    if (tag.startsWith("/")) {
+      const name = localName(tag.slice(1).trim());
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        fail(`beklenmeyen </${name}> etiketi`);
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith("/");
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameEnd = body.search(/\s/);
+    const element: XmlElement = {
+      name: localName(nameEnd === -1 ? body : body.slice(0, nameEnd)),
+      attributes: nameEnd === -1 ? {} : parseAttributes(body.slice(nameEnd)),
+      children: [],
+      text: "",
+    };
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else if (root) {
+      fail("birden fazla kök eleman");
+    } else {
+      root = element;
+    }
+
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (!root || stack.length > 0) {
+    fail("belge eksik");
+  }
+
+  return root!;
+}
+
+/**
+ * First descendant along a path of child names
+ */
+export function xmlChild(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find((child) => child.name === name);
+  }
+  return current;
+}
+
+/**
+ * All children with the given name
+ */
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter((child) => child.name === name) : [];
+}
+
+/**
+ * Trimmed text of the element at the path, null when missing or empty
+ */
+export function xmlText(element: XmlElement | undefined, ...path: string[]): string | null {
+  const text = xmlChild(element, ...path)?.text.trim();
+  return text ? text : null;
+}
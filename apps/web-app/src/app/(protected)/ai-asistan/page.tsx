@@ -1,73 +1,282 @@
 "use client";
 
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  assistantConversationClient,
+  type AssistantCitation,
+  type AssistantExportFormat,
+  type AssistantFeedbackRating,
+  type AssistantMessage,
+} from "@repo/api-client";
 import { colors, spacing, shadows } from "../../../styles/design-system";
 import { useTheme } from "@/contexts/ThemeContext";
-import { getAccessToken } from "@/lib/auth";
+import { toast } from "@/lib/toast";
 
 interface Message {
   id: string;
+  messageId: string | null; // stored assistant answer; null for questions and errors
   text: string;
   isUser: boolean;
   timestamp: Date;
+  citations: AssistantCitation[];
+  feedbackRating: AssistantFeedbackRating | null;
+  feedbackComment: string | null;
 }
 
-async function sendChatMessage(question: string, type?: "GENEL" | "RAPOR" | "RISK") {
-  const token = getAccessToken();
+function toMessage(message: AssistantMessage): Message {
+  return {
+    id: message.id,
+    messageId: message.role === "assistant" ? message.id : null,
+    text: message.content,
+    isUser: message.role === "user",
+    timestamp: new Date(message.createdAt),
+    citations: message.citations,
+    feedbackRating: message.feedbackRating,
+    feedbackComment: message.feedbackComment,
+  };
+}
 
-  const response = await fetch("/api/v1/ai/chat", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      ...(token && { Authorization: `Bearer ${token}` }),
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
+function citationHref(citation: AssistantCitation): string | null {
+  if (citation.invoiceId) return `/faturalar/${citation.invoiceId}`;
+  if (citation.transactionId) return `/islemler/${citation.transactionId}`;
+  if (citation.documentId) return `/belgeler/${citation.documentId}`;
+  return null;
+}
+
+function CitationList({ citations }: { citations: AssistantCitation[] }) {
+  const { themeColors } = useTheme();
+
+  return (
+    <div style={{ marginTop: spacing.sm, borderTop: `1px solid ${themeColors.border}`, paddingTop: spacing.sm }}>
+      <p style={{ margin: 0, fontSize: "12px", fontWeight: 600, color: themeColors.text.secondary }}>Kaynaklar</p>
+      <ol style={{ margin: `${spacing.xs} 0 0`, paddingLeft: spacing.lg, fontSize: "12px" }}>
+        {citations.map((citation) => {
+          const href = citationHref(citation);
+          return (
+            <li key={citation.id} title={citation.snippet ?? undefined} style={{ color: themeColors.text.secondary }}>
+              {href ? (
+                <Link href={href} style={{ color: colors.primary }}>
+                  {citation.label}
+                </Link>
+              ) : (
+                <span>{citation.label} (silinmiş)</span>
+              )}{" "}
+              - %{(citation.similarity * 100).toFixed(0)} benzerlik
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+function FeedbackControls({ message, onSaved }: { message: Message; onSaved: (updated: AssistantMessage) => void }) {
+  const { themeColors } = useTheme();
+  const [rating, setRating] = useState<AssistantFeedbackRating | null>(message.feedbackRating);
+  const [comment, setComment] = useState(message.feedbackComment ?? "");
+  const [showComment, setShowComment] = useState(false);
+
+  const feedbackMutation = useMutation({
+    mutationFn: (input: { rating: AssistantFeedbackRating; comment?: string }) =>
+      assistantConversationClient.submitFeedback(message.messageId!, input),
+    onSuccess: (response) => {
+      onSaved(response.data);
+      setShowComment(false);
+      toast.success("Geri bildiriminiz kaydedildi.");
+    },
+    onError: (error: Error) => {
+      toast.error(`Hata: ${error.message}`);
     },
-    credentials: "include",
-    body: JSON.stringify({ question, type }),
   });
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: "Bir hata oluştu." } }));
-    throw new Error(error.error?.message || "Şu anda AI servisine ulaşılamıyor. Lütfen daha sonra tekrar deneyin.");
-  }
+  const rate = (value: AssistantFeedbackRating) => {
+    setRating(value);
+    setShowComment(true);
+    feedbackMutation.mutate({ rating: value, comment: comment || undefined });
+  };
 
-  return response.json();
+  const buttonStyle = (value: AssistantFeedbackRating) => ({
+    padding: `2px ${spacing.sm}`,
+    border: `1px solid ${rating === value ? colors.primary : themeColors.border}`,
+    borderRadius: "6px",
+    backgroundColor: rating === value ? colors.primary : "transparent",
+    color: rating === value ? colors.white : themeColors.text.secondary,
+    cursor: "pointer",
+    fontSize: "12px",
+  });
+
+  return (
+    <div style={{ marginTop: spacing.sm }}>
+      <div style={{ display: "flex", gap: spacing.xs, alignItems: "center" }}>
+        <button type="button" aria-label="Faydalı" onClick={() => rate("up")} style={buttonStyle("up")}>
+          👍
+        </button>
+        <button type="button" aria-label="Faydalı değil" onClick={() => rate("down")} style={buttonStyle("down")}>
+          👎
+        </button>
+        {message.feedbackComment && !showComment && (
+          <span style={{ fontSize: "12px", color: themeColors.text.secondary }}>“{message.feedbackComment}”</span>
+        )}
+      </div>
+      {showComment && rating && (
+        <div style={{ display: "flex", gap: spacing.xs, marginTop: spacing.xs }}>
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Yorum ekleyin (isteğe bağlı)"
+            maxLength={2000}
+            style={{
+              flex: 1,
+              padding: spacing.xs,
+              border: `1px solid ${themeColors.border}`,
+              borderRadius: "6px",
+              fontSize: "12px",
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => feedbackMutation.mutate({ rating, comment: comment.trim() || undefined })}
+            disabled={feedbackMutation.isPending}
+            style={{
+              padding: `2px ${spacing.sm}`,
+              border: "none",
+              borderRadius: "6px",
+              backgroundColor: colors.primary,
+              color: colors.white,
+              cursor: "pointer",
+              fontSize: "12px",
+            }}
+          >
+            Kaydet
+          </button>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function AIAsistanPage() {
   const { themeColors } = useTheme();
+  const queryClient = useQueryClient();
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState("");
+  const [search, setSearch] = useState("");
+
+  const { data: conversationsData } = useQuery({
+    queryKey: ["assistant-conversations", search],
+    queryFn: () => assistantConversationClient.listConversations({ search: search.trim() || undefined }),
+  });
+  const conversations = conversationsData?.data ?? [];
+
+  const openConversation = async (id: string) => {
+    try {
+      const response = await assistantConversationClient.getConversation(id);
+      setConversationId(id);
+      setMessages(response.data.messages.map(toMessage));
+    } catch (error: any) {
+      toast.error(`Hata: ${error.message}`);
+    }
+  };
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+  };
 
   const chatMutation = useMutation({
-    mutationFn: (question: string) => sendChatMessage(question),
+    mutationFn: (question: string) =>
+      assistantConversationClient.ask({ question, conversationId: conversationId ?? undefined }),
     onSuccess: (response, question) => {
       const userMessage: Message = {
         id: Date.now().toString(),
+        messageId: null,
         text: question,
         isUser: true,
         timestamp: new Date(),
+        citations: [],
+        feedbackRating: null,
+        feedbackComment: null,
       };
       const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: response.data.messageId ?? (Date.now() + 1).toString(),
+        messageId: response.data.messageId,
         text: response.data.answer,
         isUser: false,
         timestamp: new Date(),
+        citations: response.data.citations,
+        feedbackRating: null,
+        feedbackComment: null,
       };
       setMessages((prev) => [...prev, userMessage, aiMessage]);
       setInputText("");
+      if (response.data.conversationId) {
+        setConversationId(response.data.conversationId);
+      }
+      queryClient.invalidateQueries({ queryKey: ["assistant-conversations"] });
     },
     onError: (error: any) => {
       const errorMessage: Message = {
         id: Date.now().toString(),
+        messageId: null,
         text: error.message || "Şu anda AI yanıtı oluşturulamadı. Lütfen daha sonra tekrar deneyin.",
         isUser: false,
         timestamp: new Date(),
+        citations: [],
+        feedbackRating: null,
+        feedbackComment: null,
       };
       setMessages((prev) => [...prev, errorMessage]);
     },
   });
 
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => assistantConversationClient.deleteConversation(id),
+    onSuccess: (_, id) => {
+      if (id === conversationId) {
+        startNewConversation();
+      }
+      queryClient.invalidateQueries({ queryKey: ["assistant-conversations"] });
+      toast.success("Konuşma silindi.");
+    },
+    onError: (error: Error) => {
+      toast.error(`Hata: ${error.message}`);
+    },
+  });
+
+  const handleExport = async (format: AssistantExportFormat) => {
+    if (!conversationId) return;
+    try {
+      const blob = await assistantConversationClient.exportConversation(conversationId, format);
+      saveBlob(blob, `ai-konusma-${conversationId}.${format === "json" ? "json" : "md"}`);
+    } catch (error: any) {
+      toast.error(`Hata: ${error.message}`);
+    }
+  };
+
+  const handleFeedbackSaved = (updated: AssistantMessage) => {
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.messageId === updated.id
+          ? { ...message, feedbackRating: updated.feedbackRating, feedbackComment: updated.feedbackComment }
+          : message
+      )
+    );
+  };
+
   const handleSend = () => {
     if (!inputText.trim() || chatMutation.isPending) {
       return;
@@ -83,10 +292,20 @@ export default function AIAsistanPage() {
     }
   };
 
+  const smallButtonStyle = {
+    padding: `${spacing.xs} ${spacing.sm}`,
+    border: `1px solid ${themeColors.border}`,
+    borderRadius: "6px",
+    backgroundColor: "transparent",
+    color: themeColors.text.primary,
+    cursor: "pointer",
+    fontSize: "13px",
+  };
+
   return (
     <div
       style={{
-        maxWidth: "1200px",
+        maxWidth: "1400px",
         margin: "0 auto",
         padding: spacing.xl,
         minHeight: "calc(100vh - 200px)",
@@ -94,129 +313,239 @@ export default function AIAsistanPage() {
         flexDirection: "column",
       }}
     >
-      <h1 style={{ marginBottom: spacing.xl, color: themeColors.text.primary }}>AI Asistan</h1>
-
-      <div
-        style={{
-          flex: 1,
-          display: "flex",
-          flexDirection: "column",
-          backgroundColor: themeColors.white,
-          borderRadius: "8px",
-          boxShadow: shadows.md,
-          overflow: "hidden",
-        }}
-      >
-        {/* Messages */}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: spacing.xl }}>
+        <h1 style={{ margin: 0, color: themeColors.text.primary }}>AI Asistan</h1>
+        {conversationId && (
+          <div style={{ display: "flex", gap: spacing.sm }}>
+            <button type="button" onClick={() => handleExport("markdown")} style={smallButtonStyle}>
+              Dışa aktar (Markdown)
+            </button>
+            <button type="button" onClick={() => handleExport("json")} style={smallButtonStyle}>
+              Dışa aktar (JSON)
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div style={{ flex: 1, display: "flex", gap: spacing.lg }}>
+        {/* Conversations */}
+        <div
+          style={{
+            width: "280px",
+            flexShrink: 0,
+            display: "flex",
+            flexDirection: "column",
+            gap: spacing.sm,
+            backgroundColor: themeColors.white,
+            borderRadius: "8px",
+            boxShadow: shadows.md,
+            padding: spacing.md,
+          }}
+        >
+          <button
+            type="button"
+            onClick={startNewConversation}
+            style={{
+              padding: spacing.sm,
+              backgroundColor: colors.primary,
+              color: colors.white,
+              border: "none",
+              borderRadius: "6px",
+              cursor: "pointer",
+              fontWeight: 600,
+            }}
+          >
+            Yeni konuşma
+          </button>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Konuşmalarda ara..."
+            style={{
+              padding: spacing.sm,
+              border: `1px solid ${themeColors.border}`,
+              borderRadius: "6px",
+              fontSize: "13px",
+            }}
+          />
+          <div style={{ flex: 1, overflowY: "auto", display: "flex", flexDirection: "column", gap: spacing.xs }}>
+            {conversations.length === 0 ? (
+              <p style={{ fontSize: "13px", color: themeColors.text.secondary }}>
+                {search.trim() ? "Eşleşen konuşma yok." : "Henüz konuşma yok."}
+              </p>
+            ) : (
+              conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  onClick={() => openConversation(conversation.id)}
+                  style={{
+                    padding: spacing.sm,
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    backgroundColor: conversation.id === conversationId ? themeColors.gray[100] : "transparent",
+                  }}
+                >
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: spacing.xs }}>
+                    <span style={{ fontSize: "13px", fontWeight: 600, color: themeColors.text.primary }}>
+                      {conversation.title}
+                    </span>
+                    <button
+                      type="button"
+                      aria-label="Konuşmayı sil"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm("Bu konuşmayı silmek istediğinize emin misiniz?")) {
+                          deleteMutation.mutate(conversation.id);
+                        }
+                      }}
+                      style={{
+                        border: "none",
+                        background: "transparent",
+                        color: themeColors.text.secondary,
+                        cursor: "pointer",
+                      }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  {conversation.matchedSnippet && (
+                    <p style={{ margin: `${spacing.xs} 0 0`, fontSize: "12px", color: themeColors.text.secondary }}>
+                      {conversation.matchedSnippet}
+                    </p>
+                  )}
+                  <p style={{ margin: `${spacing.xs} 0 0`, fontSize: "11px", color: themeColors.text.secondary }}>
+                    {new Date(conversation.lastMessageAt).toLocaleString("tr-TR")}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
         <div
           style={{
             flex: 1,
-            overflowY: "auto",
-            padding: spacing.lg,
             display: "flex",
             flexDirection: "column",
-            gap: spacing.md,
+            backgroundColor: themeColors.white,
+            borderRadius: "8px",
+            boxShadow: shadows.md,
+            overflow: "hidden",
           }}
         >
-          {messages.length === 0 ? (
-            <div
-              style={{
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                height: "100%",
-                color: themeColors.text.secondary,
-              }}
-            >
-              <p>Muhasebe ile ilgili sorunuzu yazın...</p>
-            </div>
-          ) : (
-            messages.map((message) => (
+          {/* Messages */}
+          <div
+            style={{
+              flex: 1,
+              overflowY: "auto",
+              padding: spacing.lg,
+              display: "flex",
+              flexDirection: "column",
+              gap: spacing.md,
+            }}
+          >
+            {messages.length === 0 ? (
               <div
-                key={message.id}
                 style={{
                   display: "flex",
-                  justifyContent: message.isUser ? "flex-end" : "flex-start",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  height: "100%",
+                  color: themeColors.text.secondary,
                 }}
               >
+                <p>Muhasebe ile ilgili sorunuzu yazın...</p>
+              </div>
+            ) : (
+              messages.map((message) => (
+                <div
+                  key={message.id}
+                  style={{
+                    display: "flex",
+                    justifyContent: message.isUser ? "flex-end" : "flex-start",
+                  }}
+                >
+                  <div
+                    style={{
+                      maxWidth: "70%",
+                      padding: spacing.md,
+                      borderRadius: "12px",
+                      backgroundColor: message.isUser ? colors.primary : themeColors.gray[100],
+                      color: message.isUser ? colors.white : themeColors.text.primary,
+                    }}
+                  >
+                    <p style={{ margin: 0, whiteSpace: "pre-wrap" }}>{message.text}</p>
+                    {message.citations.length > 0 && <CitationList citations={message.citations} />}
+                    {message.messageId && (
+                      <FeedbackControls key={message.messageId} message={message} onSaved={handleFeedbackSaved} />
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+            {chatMutation.isPending && (
+              <div style={{ display: "flex", justifyContent: "flex-start" }}>
                 <div
                   style={{
-                    maxWidth: "70%",
                     padding: spacing.md,
                     borderRadius: "12px",
-                    backgroundColor: message.isUser ? colors.primary : themeColors.gray[100],
-                    color: message.isUser ? colors.white : themeColors.text.primary,
+                    backgroundColor: themeColors.gray[100],
+                    color: themeColors.text.secondary,
                   }}
                 >
-                  <p style={{ margin: 0, whiteSpace: "pre-wrap" }}>{message.text}</p>
+                  <p style={{ margin: 0 }}>Yanıt oluşturuluyor...</p>
                 </div>
               </div>
-            ))
-          )}
-          {chatMutation.isPending && (
-            <div style={{ display: "flex", justifyContent: "flex-start" }}>
-              <div
-                style={{
-                  padding: spacing.md,
-                  borderRadius: "12px",
-                  backgroundColor: themeColors.gray[100],
-                  color: themeColors.text.secondary,
-                }}
-              >
-                <p style={{ margin: 0 }}>Yanıt oluşturuluyor...</p>
-              </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
 
-        {/* Input */}
-        <div
-          style={{
-            borderTop: `1px solid ${themeColors.border}`,
-            padding: spacing.md,
-            display: "flex",
-            gap: spacing.md,
-            alignItems: "flex-end",
-          }}
-        >
-          <textarea
-            value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Muhasebe ile ilgili sorunuzu yazın..."
+          {/* Input */}
+          <div
             style={{
-              flex: 1,
+              borderTop: `1px solid ${themeColors.border}`,
               padding: spacing.md,
-              border: `1px solid ${themeColors.border}`,
-              borderRadius: "8px",
-              fontSize: "14px",
-              fontFamily: "inherit",
-              resize: "none",
-              minHeight: "60px",
-              maxHeight: "150px",
-            }}
-            disabled={chatMutation.isPending}
-          />
-          <button
-            onClick={handleSend}
-            disabled={!inputText.trim() || chatMutation.isPending}
-            style={{
-              padding: `${spacing.md} ${spacing.lg}`,
-              backgroundColor: colors.primary,
-              color: colors.white,
-              border: "none",
-              borderRadius: "8px",
-              cursor: chatMutation.isPending || !inputText.trim() ? "not-allowed" : "pointer",
-              opacity: chatMutation.isPending || !inputText.trim() ? 0.6 : 1,
-              fontWeight: 600,
+              display: "flex",
+              gap: spacing.md,
+              alignItems: "flex-end",
             }}
           >
-            {chatMutation.isPending ? "Gönderiliyor..." : "Gönder"}
-          </button>
+            <textarea
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Muhasebe ile ilgili sorunuzu yazın..."
+              style={{
+                flex: 1,
+                padding: spacing.md,
+                border: `1px solid ${themeColors.border}`,
+                borderRadius: "8px",
+                fontSize: "14px",
+                fontFamily: "inherit",
+                resize: "none",
+                minHeight: "60px",
+                maxHeight: "150px",
+              }}
+              disabled={chatMutation.isPending}
+            />
+            <button
+              onClick={handleSend}
+              disabled={!inputText.trim() || chatMutation.isPending}
+              style={{
+                padding: `${spacing.md} ${spacing.lg}`,
+                backgroundColor: colors.primary,
+                color: colors.white,
+                border: "none",
+                borderRadius: "8px",
+                cursor: chatMutation.isPending || !inputText.trim() ? "not-allowed" : "pointer",
+                opacity: chatMutation.isPending || !inputText.trim() ? 0.6 : 1,
+                fontWeight: 600,
+              }}
+            >
+              {chatMutation.isPending ? "Gönderiliyor..." : "Gönder"}
+            </button>
+          </div>
         </div>
       </div>
     </div>
   );
 }
-
-
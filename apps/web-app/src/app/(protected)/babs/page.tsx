@@ -33,6 +33,20 @@ const CROSS_CHECK_LABELS: Record<string, string> = {
   mismatched: "Uyumsuz",
 };
 
+// Statuses the GİB XML export accepts
+const EXPORTABLE_STATUSES = ["generated", "verified", "submitted", "accepted"];
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
 export default function BaBsPage() {
   const { themeColors } = useTheme();
   const [activeTab, setActiveTab] = useState<"dashboard" | "forms" | "generate">("dashboard");
@@ -45,6 +59,8 @@ export default function BaBsPage() {
   });
   const [selectedFormId, setSelectedFormId] = useState<string | null>(null);
   const [statusNotes, setStatusNotes] = useState<string>("");
+  const [letterLineId, setLetterLineId] = useState<string | null>(null);
+  const [letterEmail, setLetterEmail] = useState<string>("");
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
@@ -79,9 +95,10 @@ export default function BaBsPage() {
 
   const crossCheckMutation = useMutation({
     mutationFn: (formId: string) => babsClient.crossCheck(formId),
-    onSuccess: () => {
+    onSuccess: (_result, formId) => {
       queryClient.invalidateQueries({ queryKey: ["babs-forms"] });
       queryClient.invalidateQueries({ queryKey: ["babs-dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["babs-form-detail", formId] });
     },
   });
 
@@ -107,6 +124,42 @@ export default function BaBsPage() {
   });
 
   const formDetail = formDetailData?.data;
+  const canExportDetail = !!formDetail && EXPORTABLE_STATUSES.includes(formDetail.status);
+
+  const { data: exportValidationData } = useQuery({
+    queryKey: ["babs-export-validation", selectedFormId, formDetail?.status],
+    queryFn: () => babsClient.validateExport(selectedFormId!),
+    enabled: canExportDetail,
+  });
+  const exportValidation = canExportDetail ? exportValidationData?.data : undefined;
+
+  const exportMutation = useMutation({
+    mutationFn: async (f: { id: string; formType: string; period: string; clientCompany?: { taxNumber?: string } }) => {
+      const blob = await babsClient.exportForm(f.id);
+      saveBlob(blob, `${f.clientCompany?.taxNumber ?? f.id}_FORM${f.formType}_${f.period}.xml`);
+    },
+    onSuccess: () => showToast("Form XML indirildi"),
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const letterDownloadMutation = useMutation({
+    mutationFn: async (line: { id: string; counterpartyTaxNumber: string }) => {
+      const blob = await babsClient.downloadReconciliationLetter(selectedFormId!, line.id);
+      saveBlob(blob, `babs_mutabakat_${formDetail?.period}_${line.counterpartyTaxNumber}.pdf`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const letterSendMutation = useMutation({
+    mutationFn: () => babsClient.sendReconciliationLetter(selectedFormId!, letterLineId!, letterEmail),
+    onSuccess: (result) => {
+      setLetterLineId(null);
+      setLetterEmail("");
+      showToast(`Mutabakat mektubu gonderildi: ${result.data.sentTo}`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
   const dashboard = dashboardData?.data;
   const clients = clientsData?.data?.data || [];
   const forms = formsData?.data?.forms || [];
@@ -423,7 +476,7 @@ export default function BaBsPage() {
                           <table style={{ width: "100%", borderCollapse: "collapse" }}>
                             <thead>
                               <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
-                                {["Karsi Taraf", "VKN", "Ulke", "Belge Sayisi", "Tutar", "Eslesti"].map((h) => (
+                                {["Karsi Taraf", "VKN", "Ulke", "Belge Sayisi", "Tutar", "Eslesti", "Mutabakat"].map((h) => (
                                   <th key={h} style={{ textAlign: "left", padding: spacing.xs, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" }}>{h}</th>
                                 ))}
                               </tr>
@@ -443,11 +496,47 @@ export default function BaBsPage() {
                                       </span>
                                     ) : "-"}
                                   </td>
+                                  <td style={{ padding: spacing.xs, whiteSpace: "nowrap" }}>
+                                    <button
+                                      onClick={() => letterDownloadMutation.mutate(line)}
+                                      disabled={letterDownloadMutation.isPending}
+                                      style={{ padding: `2px ${spacing.sm}`, fontSize: typography.fontSize.xs, backgroundColor: themeColors.gray[100], color: themeColors.text.secondary, border: "none", borderRadius: borderRadius.md, cursor: "pointer", marginRight: spacing.xs }}
+                                    >
+                                      PDF
+                                    </button>
+                                    <button
+                                      onClick={() => setLetterLineId(letterLineId === line.id ? null : line.id)}
+                                      style={{ padding: `2px ${spacing.sm}`, fontSize: typography.fontSize.xs, backgroundColor: letterLineId === line.id ? colors.primary : themeColors.gray[100], color: letterLineId === line.id ? themeColors.white : themeColors.text.secondary, border: "none", borderRadius: borderRadius.md, cursor: "pointer" }}
+                                    >
+                                      E-posta
+                                    </button>
+                                  </td>
                                 </tr>
                               ))}
                             </tbody>
                           </table>
                         </div>
+                        {letterLineId && (
+                          <div style={{ display: "flex", gap: spacing.sm, alignItems: "center", marginTop: spacing.sm }}>
+                            <span style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary, whiteSpace: "nowrap" }}>
+                              {formDetail.lines.find((l: any) => l.id === letterLineId)?.counterpartyName} icin mutabakat e-postasi:
+                            </span>
+                            <input
+                              type="email"
+                              value={letterEmail}
+                              onChange={(e) => setLetterEmail(e.target.value)}
+                              placeholder="muhasebe@karsitaraf.com.tr"
+                              style={{ flex: 1, padding: spacing.xs, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}`, fontSize: typography.fontSize.sm }}
+                            />
+                            <button
+                              onClick={() => letterSendMutation.mutate()}
+                              disabled={!letterEmail || letterSendMutation.isPending}
+                              style={{ padding: `${spacing.xs} ${spacing.md}`, fontSize: typography.fontSize.sm, backgroundColor: colors.primary, color: themeColors.white, border: "none", borderRadius: borderRadius.md, cursor: "pointer", whiteSpace: "nowrap" }}
+                            >
+                              {letterSendMutation.isPending ? "Gonderiliyor..." : "Gonder"}
+                            </button>
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -459,12 +548,42 @@ export default function BaBsPage() {
                         </h4>
                         {formDetail.crossCheckErrors.map((err: any, i: number) => (
                           <div key={i} style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary, padding: `${spacing.xs} 0` }}>
-                            {typeof err === "string" ? err : JSON.stringify(err)}
+                            {typeof err === "string" ? err : err.message ? `${err.counterpartyName}: ${err.message}` : JSON.stringify(err)}
                           </div>
                         ))}
                       </div>
                     )}
 
+                    {/* GİB XML Export */}
+                    {canExportDetail && (
+                      <div style={{ marginBottom: spacing.lg, padding: spacing.md, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}` }}>
+                        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: spacing.md }}>
+                          <div>
+                            <div style={{ fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold }}>GIB e-Beyanname XML</div>
+                            <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>
+                              {!exportValidation ? "Sema kontrol ediliyor..." : exportValidation.valid ? "Form GIB semasina uygun" : `${exportValidation.errors.length} alan duzeltilmeli`}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => exportMutation.mutate(formDetail)}
+                            disabled={!exportValidation?.valid || exportMutation.isPending}
+                            style={{ padding: `${spacing.sm} ${spacing.lg}`, fontSize: typography.fontSize.sm, backgroundColor: colors.primary, color: themeColors.white, border: "none", borderRadius: borderRadius.md, cursor: exportValidation?.valid ? "pointer" : "not-allowed", opacity: exportValidation?.valid ? 1 : 0.5, whiteSpace: "nowrap" }}
+                          >
+                            XML Indir
+                          </button>
+                        </div>
+                        {exportValidation && !exportValidation.valid && (
+                          <ul style={{ margin: `${spacing.sm} 0 0`, paddingLeft: spacing.lg, fontSize: typography.fontSize.xs, color: colors.danger }}>
+                            {exportValidation.errors.map((e) => (
+                              <li key={`${e.field}-${e.message}`}>
+                                <code>{e.field}</code>: {e.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+
                     {/* Status Update with Notes */}
                     <div style={{ borderTop: `1px solid ${themeColors.border}`, paddingTop: spacing.md }}>
                       <div style={{ fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold, marginBottom: spacing.sm }}>Durum Guncelle</div>
@@ -13,6 +13,7 @@ import { Tabs } from "@/components/ui/Tabs";
 import { Badge } from "@/components/ui/Badge";
 import { toast } from "@/lib/toast";
 import { PageTransition } from "@/components/ui/PageTransition";
+import { EInvoicePreview } from "@/components/invoice";
 import { colors, spacing, borderRadius, typography } from "@/styles/design-system";
 import { useTheme } from "@/contexts/ThemeContext";
 
@@ -377,6 +378,14 @@ export default function DocumentDetailPage() {
             </div>
           </div>
 
+          {/* e-Fatura / e-Arşiv XML Preview */}
+          {documentData.mimeType.includes("xml") && documentData.status === "PROCESSED" && (
+            <div style={{ padding: spacing.xl, backgroundColor: themeColors.gray[50], borderRadius: borderRadius.lg, marginBottom: spacing.lg, border: `1px solid ${themeColors.border}` }}>
+              <h2 style={{ marginTop: 0, marginBottom: spacing.lg, fontSize: typography.fontSize.xl, fontWeight: typography.fontWeight.semibold, color: themeColors.text.primary }}>Fatura Görüntüsü</h2>
+              <EInvoicePreview documentId={documentId} />
+            </div>
+          )}
+
           {/* Related Information */}
           {(documentData.relatedInvoiceId || documentData.relatedTransactionId) && (
             <div style={{ padding: spacing.xl, backgroundColor: themeColors.gray[50], borderRadius: borderRadius.lg, marginBottom: spacing.lg, border: `1px solid ${themeColors.border}` }}>
@@ -29,6 +29,21 @@ const STATUS_LABELS: Record<string, string> = {
   revision_needed: "Düzeltme Gerekli",
 };
 
+// Types the e-Beyanname XML export supports, and the statuses it accepts
+const E_BEYANNAME_TYPES = ["KDV", "KDV2", "MUHTASAR", "GECICI_VERGI", "KURUMLAR"];
+const E_BEYANNAME_STATUSES = ["reviewed", "submitted", "accepted"];
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
 const STATUS_COLORS: Record<string, string> = {
   draft: colors.gray[500],
   calculating: colors.info,
@@ -58,6 +73,7 @@ export default function BeyannamePage() {
   const [selectedBeyannameId, setSelectedBeyannameId] = useState<string | null>(null);
   const [statusNotes, setStatusNotes] = useState<string>("");
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [exportPeriod, setExportPeriod] = useState<string>(period);
   const queryClient = useQueryClient();
 
   const showToast = (msg: string) => {
@@ -119,6 +135,33 @@ export default function BeyannamePage() {
   });
 
   const beyannameDetail = beyannameDetailData?.data;
+  const canExportDetail =
+    !!beyannameDetail && E_BEYANNAME_TYPES.includes(beyannameDetail.type) && E_BEYANNAME_STATUSES.includes(beyannameDetail.status);
+
+  const { data: exportValidationData } = useQuery({
+    queryKey: ["beyanname-export-validation", selectedBeyannameId, beyannameDetail?.status],
+    queryFn: () => beyannameClient.validateEBeyanname(selectedBeyannameId!),
+    enabled: canExportDetail,
+  });
+  const exportValidation = canExportDetail ? exportValidationData?.data : undefined;
+
+  const exportMutation = useMutation({
+    mutationFn: async (b: { id: string; type: string; period: string; clientCompany?: { taxNumber?: string } }) => {
+      const blob = await beyannameClient.exportEBeyanname(b.id);
+      saveBlob(blob, `${b.clientCompany?.taxNumber ?? b.id}_${b.type}_${b.period}.xml`);
+    },
+    onSuccess: () => showToast("e-Beyanname XML indirildi"),
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const exportPeriodMutation = useMutation({
+    mutationFn: async () => {
+      const blob = await beyannameClient.exportEBeyannamePeriod(exportPeriod);
+      saveBlob(blob, `e-beyanname_${exportPeriod}.zip`);
+    },
+    onSuccess: () => showToast("Incelenmis beyannameler ZIP olarak indirildi"),
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
   const dashboard = dashboardData?.data;
   const clients = clientsData?.data?.data || [];
   const beyannameler = listData?.data?.beyannameler || [];
@@ -250,7 +293,22 @@ export default function BeyannamePage() {
         <>
           <Card variant="elevated">
             <div style={{ padding: spacing.lg }}>
-              <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: `0 0 ${spacing.lg}` }}>Beyanname Listesi</h3>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: spacing.md, flexWrap: "wrap", marginBottom: spacing.lg }}>
+                <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>Beyanname Listesi</h3>
+                <div style={{ display: "flex", gap: spacing.sm, alignItems: "center" }}>
+                  <input
+                    type="text"
+                    value={exportPeriod}
+                    onChange={(e) => setExportPeriod(e.target.value)}
+                    placeholder="2026-03"
+                    title="Donem: YYYY-MM, YYYY-Q1 veya YYYY"
+                    style={{ width: "110px", padding: spacing.sm, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}`, fontSize: typography.fontSize.sm }}
+                  />
+                  <Button onClick={() => exportPeriodMutation.mutate()} disabled={!exportPeriod || exportPeriodMutation.isPending}>
+                    {exportPeriodMutation.isPending ? "Hazirlaniyor..." : "e-Beyanname ZIP"}
+                  </Button>
+                </div>
+              </div>
               {listLoading ? (
                 <Skeleton height="200px" />
               ) : beyannameler.length === 0 ? (
@@ -479,6 +537,36 @@ export default function BeyannamePage() {
                       </div>
                     )}
 
+                    {/* e-Beyanname Export */}
+                    {canExportDetail && (
+                      <div style={{ marginBottom: spacing.lg, padding: spacing.md, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}` }}>
+                        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: spacing.md }}>
+                          <div>
+                            <div style={{ fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold }}>e-Beyanname XML</div>
+                            <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>
+                              {!exportValidation ? "Sema kontrol ediliyor..." : exportValidation.valid ? "Beyanname e-Beyanname semasina uygun" : `${exportValidation.errors.length} alan duzeltilmeli`}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => exportMutation.mutate(beyannameDetail)}
+                            disabled={!exportValidation?.valid || exportMutation.isPending}
+                            style={{ padding: `${spacing.sm} ${spacing.lg}`, fontSize: typography.fontSize.sm, backgroundColor: colors.primary, color: themeColors.white, border: "none", borderRadius: borderRadius.md, cursor: exportValidation?.valid ? "pointer" : "not-allowed", opacity: exportValidation?.valid ? 1 : 0.5, whiteSpace: "nowrap" }}
+                          >
+                            XML Indir
+                          </button>
+                        </div>
+                        {exportValidation && !exportValidation.valid && (
+                          <ul style={{ margin: `${spacing.sm} 0 0`, paddingLeft: spacing.lg, fontSize: typography.fontSize.xs, color: colors.danger }}>
+                            {exportValidation.errors.map((e) => (
+                              <li key={`${e.field}-${e.message}`}>
+                                <code>{e.field}</code>: {e.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+
                     {/* Prepared By / Reviewed By */}
                     <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: spacing.lg, marginBottom: spacing.lg }}>
                       {beyannameDetail.preparedBy && (
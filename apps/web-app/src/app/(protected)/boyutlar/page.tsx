@@ -0,0 +1,772 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  dimensionClient,
+  counterpartyClient,
+  listClientCompanies,
+  listLedgerAccounts,
+  generateReport,
+} from "@repo/api-client";
+import type { DimensionType } from "@repo/api-client";
+import { Card } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Skeleton } from "../../../components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography, transitions } from "../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const DIMENSION_TYPE_LABELS: Record<DimensionType, string> = {
+  cost_center: "Masraf merkezi",
+  project: "Proje",
+  branch: "Şube",
+  tag: "Etiket",
+};
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function previousPeriod(): string {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return toDateInput(date).slice(0, 7);
+}
+
+const emptyDimensionForm = { code: "", name: "", type: "cost_center" as DimensionType };
+const emptyRuleForm = { name: "", sourceAccountCode: "770", dimensionId: "" };
+
+export default function BoyutlarPage() {
+  const { themeColors } = useTheme();
+  const [activeTab, setActiveTab] = useState<"dimensions" | "defaults" | "allocation" | "profitability">("dimensions");
+  const [selectedClientId, setSelectedClientId] = useState<string>("");
+  const [showDimensionForm, setShowDimensionForm] = useState(false);
+  const [dimensionForm, setDimensionForm] = useState(emptyDimensionForm);
+  const [valueForms, setValueForms] = useState<Record<string, { code: string; name: string }>>({});
+  const [defaultTarget, setDefaultTarget] = useState<"counterparty" | "account">("account");
+  const [defaultTargetId, setDefaultTargetId] = useState<string>("");
+  const [defaultValueId, setDefaultValueId] = useState<string>("");
+  const [showRuleForm, setShowRuleForm] = useState(false);
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+  const [rulePercentages, setRulePercentages] = useState<Record<string, string>>({});
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
+  const [period, setPeriod] = useState<string>(previousPeriod);
+  const [reportDimensionId, setReportDimensionId] = useState<string>("");
+  const [startDate, setStartDate] = useState<string>(() => `${new Date().getFullYear()}-01-01`);
+  const [endDate, setEndDate] = useState<string>(() => toDateInput(new Date()));
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+  });
+
+  const { data: dimensionsData, isLoading: dimensionsLoading } = useQuery({
+    queryKey: ["dimensions"],
+    queryFn: () => dimensionClient.list({ includeInactive: true }),
+  });
+
+  const { data: defaultsData, isLoading: defaultsLoading } = useQuery({
+    queryKey: ["dimension-defaults", selectedClientId],
+    queryFn: () => dimensionClient.listDefaults({ clientCompanyId: selectedClientId || undefined }),
+    enabled: activeTab === "defaults",
+  });
+
+  const { data: accountsData } = useQuery({
+    queryKey: ["ledger-accounts", selectedClientId],
+    queryFn: () => listLedgerAccounts(selectedClientId || undefined),
+    enabled: activeTab === "defaults",
+  });
+
+  const { data: counterpartiesData } = useQuery({
+    queryKey: ["counterparties", selectedClientId],
+    queryFn: () => counterpartyClient.list({ clientCompanyId: selectedClientId, pageSize: 100 }),
+    enabled: !!selectedClientId && activeTab === "defaults",
+  });
+
+  const { data: rulesData, isLoading: rulesLoading } = useQuery({
+    queryKey: ["allocation-rules", selectedClientId],
+    queryFn: () => dimensionClient.listAllocationRules(selectedClientId),
+    enabled: !!selectedClientId && activeTab === "allocation",
+  });
+
+  const { data: previewData, isLoading: previewLoading } = useQuery({
+    queryKey: ["allocation-preview", selectedRuleId, period],
+    queryFn: () => dimensionClient.previewAllocation(selectedRuleId!, period),
+    enabled: !!selectedRuleId && /^\d{4}-\d{2}$/.test(period) && activeTab === "allocation",
+  });
+
+  const { data: reportData, isLoading: reportLoading, error: reportError } = useQuery({
+    queryKey: ["dimension-profitability", selectedClientId, reportDimensionId, startDate, endDate],
+    queryFn: () =>
+      generateReport({
+        report_code: "DIMENSION_PROFITABILITY",
+        client_company_id: selectedClientId,
+        filters: {
+          start_date: new Date(`${startDate}T00:00:00`).toISOString(),
+          end_date: new Date(`${endDate}T23:59:59`).toISOString(),
+          dimension_id: reportDimensionId || undefined,
+        },
+      }),
+    enabled: !!selectedClientId && !!startDate && !!endDate && activeTab === "profitability",
+    retry: false,
+  });
+
+  const onError = (error: Error) => showToast(`Hata: ${error.message}`);
+
+  const createDimensionMutation = useMutation({
+    mutationFn: () =>
+      dimensionClient.create({
+        code: dimensionForm.code,
+        name: dimensionForm.name,
+        type: dimensionForm.type,
+        allowMultiple: dimensionForm.type === "tag",
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dimensions"] });
+      setDimensionForm(emptyDimensionForm);
+      setShowDimensionForm(false);
+      showToast("Boyut eklendi");
+    },
+    onError,
+  });
+
+  const toggleDimensionMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => dimensionClient.update(id, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["dimensions"] }),
+    onError,
+  });
+
+  const createValueMutation = useMutation({
+    mutationFn: (dimensionId: string) => dimensionClient.createValue(dimensionId, valueForms[dimensionId]),
+    onSuccess: (_, dimensionId) => {
+      queryClient.invalidateQueries({ queryKey: ["dimensions"] });
+      setValueForms({ ...valueForms, [dimensionId]: { code: "", name: "" } });
+    },
+    onError,
+  });
+
+  const toggleValueMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => dimensionClient.updateValue(id, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["dimensions"] }),
+    onError,
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: () =>
+      dimensionClient.setDefault({
+        dimensionValueId: defaultValueId,
+        counterpartyId: defaultTarget === "counterparty" ? defaultTargetId : null,
+        ledgerAccountId: defaultTarget === "account" ? defaultTargetId : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dimension-defaults"] });
+      setDefaultTargetId("");
+      setDefaultValueId("");
+      showToast("Varsayılan değer kaydedildi");
+    },
+    onError,
+  });
+
+  const deleteDefaultMutation = useMutation({
+    mutationFn: (id: string) => dimensionClient.deleteDefault(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["dimension-defaults"] }),
+    onError,
+  });
+
+  const applyDefaultsMutation = useMutation({
+    mutationFn: () => dimensionClient.applyDefaults(selectedClientId),
+    onSuccess: (result) => showToast(`${result.data.invoices} faturada ${result.data.lines} satıra varsayılan boyut verildi`),
+    onError,
+  });
+
+  const createRuleMutation = useMutation({
+    mutationFn: () =>
+      dimensionClient.createAllocationRule({
+        clientCompanyId: selectedClientId,
+        name: ruleForm.name,
+        sourceAccountCode: ruleForm.sourceAccountCode,
+        dimensionId: ruleForm.dimensionId,
+        targets: Object.entries(rulePercentages)
+          .filter(([, percentage]) => Number(percentage) > 0)
+          .map(([dimensionValueId, percentage]) => ({ dimensionValueId, percentage: Number(percentage) })),
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["allocation-rules"] });
+      setRuleForm(emptyRuleForm);
+      setRulePercentages({});
+      setShowRuleForm(false);
+      setSelectedRuleId(result.data.id);
+      showToast("Dağıtım kuralı eklendi");
+    },
+    onError,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: string) => dimensionClient.deleteAllocationRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["allocation-rules"] });
+      setSelectedRuleId(null);
+    },
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => dimensionClient.runAllocation(selectedRuleId!, period),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["allocation-preview"] });
+      showToast(`${period} dağıtımı muhasebeleştirildi`);
+    },
+    onError,
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: () => dimensionClient.undoAllocation(selectedRuleId!, period),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["allocation-preview"] });
+      showToast(`${period} dağıtımı geri alındı`);
+    },
+    onError,
+  });
+
+  const clients = clientsData?.data?.data || [];
+  const dimensions = dimensionsData?.data || [];
+  const activeDimensions = dimensions.filter((dimension) => dimension.isActive);
+  const defaults = defaultsData?.data || [];
+  const accounts = (accountsData?.data || []).filter((account) => account.isActive);
+  const counterparties = counterpartiesData?.data || [];
+  const rules = rulesData?.data || [];
+  const preview = previewData?.data;
+  const report = reportData?.data;
+  const ruleDimension = dimensions.find((dimension) => dimension.id === ruleForm.dimensionId);
+  const percentageTotal = Object.values(rulePercentages).reduce((sum, percentage) => sum + (Number(percentage) || 0), 0);
+  const valueName = (id: string) => {
+    for (const dimension of dimensions) {
+      const value = dimension.values.find((v) => v.id === id);
+      if (value) return `${value.code} - ${value.name}`;
+    }
+    return id;
+  };
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const numStyle = { ...tdStyle, textAlign: "right" as const, fontFamily: "monospace" };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const formGridStyle = {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+    gap: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: borderRadius.md,
+    backgroundColor: themeColors.gray[50],
+  };
+  const emptyText = (text: string) => (
+    <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>{text}</p>
+  );
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl }}>
+        <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+          Masraf Merkezleri ve Projeler
+        </h1>
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+          Analitik boyutlar, cari kart ve hesap varsayılanları, gider dağıtımı ve boyut bazında kârlılık
+        </p>
+      </div>
+
+      <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+        <select value={selectedClientId} onChange={(e) => { setSelectedClientId(e.target.value); setSelectedRuleId(null); }} style={{ ...inputStyle, minWidth: "240px" }}>
+          <option value="">Müşteri seçiniz</option>
+          {clients.map((c: any) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Tabs */}
+      <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.xl, borderBottom: `2px solid ${themeColors.border}`, paddingBottom: spacing.sm }}>
+        {[
+          { key: "dimensions", label: "Boyutlar" },
+          { key: "defaults", label: "Varsayılanlar" },
+          { key: "allocation", label: "Gider Dağıtımı" },
+          { key: "profitability", label: "Kârlılık" },
+        ].map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key as any)}
+            style={{
+              padding: `${spacing.sm} ${spacing.lg}`,
+              backgroundColor: activeTab === tab.key ? colors.primary : "transparent",
+              color: activeTab === tab.key ? themeColors.white : themeColors.text.secondary,
+              border: "none",
+              borderRadius: borderRadius.md,
+              fontWeight: typography.fontWeight.semibold,
+              fontSize: typography.fontSize.sm,
+              cursor: "pointer",
+              transition: `all ${transitions.normal}`,
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Boyutlar */}
+      {activeTab === "dimensions" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg }}>
+              <div style={{ flex: 1 }} />
+              <Button onClick={() => setShowDimensionForm(!showDimensionForm)}>Yeni Boyut</Button>
+            </div>
+
+            {showDimensionForm && (
+              <div style={formGridStyle}>
+                <input placeholder="Kod * (ör. MM)" value={dimensionForm.code} onChange={(e) => setDimensionForm({ ...dimensionForm, code: e.target.value })} style={inputStyle} />
+                <input placeholder="Ad *" value={dimensionForm.name} onChange={(e) => setDimensionForm({ ...dimensionForm, name: e.target.value })} style={inputStyle} />
+                <select value={dimensionForm.type} onChange={(e) => setDimensionForm({ ...dimensionForm, type: e.target.value as DimensionType })} style={inputStyle}>
+                  {Object.entries(DIMENSION_TYPE_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <Button onClick={() => createDimensionMutation.mutate()} disabled={!dimensionForm.code || !dimensionForm.name || createDimensionMutation.isPending}>
+                  {createDimensionMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                </Button>
+              </div>
+            )}
+
+            {dimensionsLoading ? (
+              <Skeleton height="200px" />
+            ) : dimensions.length === 0 ? (
+              emptyText("Henüz boyut tanımlanmadı. Masraf merkezi, proje veya şube ekleyerek başlayın.")
+            ) : (
+              <div style={{ display: "flex", flexDirection: "column", gap: spacing.lg }}>
+                {dimensions.map((dimension) => {
+                  const valueForm = valueForms[dimension.id] || { code: "", name: "" };
+                  return (
+                    <div key={dimension.id} style={{ border: `1px solid ${themeColors.border}`, borderRadius: borderRadius.md, padding: spacing.md, opacity: dimension.isActive ? 1 : 0.5 }}>
+                      <div style={{ display: "flex", alignItems: "center", gap: spacing.md, marginBottom: spacing.sm }}>
+                        <span style={{ fontFamily: "monospace", fontWeight: typography.fontWeight.bold }}>{dimension.code}</span>
+                        <span style={{ fontWeight: typography.fontWeight.semibold }}>{dimension.name}</span>
+                        <span style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary }}>
+                          {DIMENSION_TYPE_LABELS[dimension.type]}{dimension.allowMultiple ? " · satırda birden fazla değer" : ""}
+                        </span>
+                        <div style={{ flex: 1 }} />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleDimensionMutation.mutate({ id: dimension.id, isActive: !dimension.isActive })}
+                          disabled={toggleDimensionMutation.isPending}
+                        >
+                          {dimension.isActive ? "Pasife Al" : "Aktifleştir"}
+                        </Button>
+                      </div>
+                      <div style={{ display: "flex", gap: spacing.sm, flexWrap: "wrap", marginBottom: spacing.sm }}>
+                        {dimension.values.length === 0 && (
+                          <span style={{ fontSize: typography.fontSize.sm, color: themeColors.text.muted }}>Değer yok</span>
+                        )}
+                        {dimension.values.map((value) => (
+                          <button
+                            key={value.id}
+                            title={value.isActive ? "Pasife almak için tıklayın" : "Aktifleştirmek için tıklayın"}
+                            onClick={() => toggleValueMutation.mutate({ id: value.id, isActive: !value.isActive })}
+                            style={{
+                              padding: `${spacing.xs} ${spacing.sm}`,
+                              borderRadius: borderRadius.full,
+                              border: `1px solid ${themeColors.border}`,
+                              backgroundColor: value.isActive ? themeColors.gray[50] : "transparent",
+                              color: value.isActive ? themeColors.text.primary : themeColors.text.muted,
+                              textDecoration: value.isActive ? "none" : "line-through",
+                              fontSize: typography.fontSize.xs,
+                              cursor: "pointer",
+                            }}
+                          >
+                            {value.code} · {value.name}
+                          </button>
+                        ))}
+                      </div>
+                      {dimension.isActive && (
+                        <div style={{ display: "flex", gap: spacing.sm, flexWrap: "wrap" }}>
+                          <input placeholder="Değer kodu" value={valueForm.code} onChange={(e) => setValueForms({ ...valueForms, [dimension.id]: { ...valueForm, code: e.target.value } })} style={inputStyle} />
+                          <input placeholder="Değer adı" value={valueForm.name} onChange={(e) => setValueForms({ ...valueForms, [dimension.id]: { ...valueForm, name: e.target.value } })} style={inputStyle} />
+                          <Button size="sm" variant="outline" onClick={() => createValueMutation.mutate(dimension.id)} disabled={!valueForm.code || !valueForm.name || createValueMutation.isPending}>
+                            Değer Ekle
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Varsayılanlar */}
+      {activeTab === "defaults" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, marginTop: 0 }}>
+              Hesaba verilen değer o hesabın ve alt hesaplarının yevmiye satırlarına, cari karta verilen değer o carinin fatura satırlarına
+              boyut seçilmediğinde otomatik atanır.
+            </p>
+            <div style={formGridStyle}>
+              <select value={defaultTarget} onChange={(e) => { setDefaultTarget(e.target.value as any); setDefaultTargetId(""); }} style={inputStyle}>
+                <option value="account">Hesap</option>
+                <option value="counterparty">Cari kart</option>
+              </select>
+              {defaultTarget === "account" ? (
+                <select value={defaultTargetId} onChange={(e) => setDefaultTargetId(e.target.value)} style={inputStyle}>
+                  <option value="">Hesap seçiniz</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>{account.code} - {account.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <select value={defaultTargetId} onChange={(e) => setDefaultTargetId(e.target.value)} style={inputStyle} disabled={!selectedClientId}>
+                  <option value="">{selectedClientId ? "Cari kart seçiniz" : "Önce müşteri seçiniz"}</option>
+                  {counterparties.map((card) => (
+                    <option key={card.id} value={card.id}>{card.name}</option>
+                  ))}
+                </select>
+              )}
+              <select value={defaultValueId} onChange={(e) => setDefaultValueId(e.target.value)} style={inputStyle}>
+                <option value="">Boyut değeri seçiniz</option>
+                {activeDimensions.map((dimension) => (
+                  <optgroup key={dimension.id} label={dimension.name}>
+                    {dimension.values.filter((value) => value.isActive).map((value) => (
+                      <option key={value.id} value={value.id}>{value.code} - {value.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <Button onClick={() => setDefaultMutation.mutate()} disabled={!defaultTargetId || !defaultValueId || setDefaultMutation.isPending}>
+                {setDefaultMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+              </Button>
+            </div>
+
+            <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: spacing.md }}>
+              <Button variant="outline" onClick={() => applyDefaultsMutation.mutate()} disabled={!selectedClientId || applyDefaultsMutation.isPending}>
+                {applyDefaultsMutation.isPending ? "Uygulanıyor..." : "Mevcut Faturalara Uygula"}
+              </Button>
+            </div>
+
+            {defaultsLoading ? (
+              <Skeleton height="160px" />
+            ) : defaults.length === 0 ? (
+              emptyText("Varsayılan boyut değeri tanımlanmadı")
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                    {["Hesap / Cari", "Boyut", "Değer", ""].map((h) => (
+                      <th key={h} style={thStyle}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {defaults.map((entry) => (
+                    <tr key={entry.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                      <td style={tdStyle}>
+                        {entry.ledgerAccount ? (
+                          <span style={{ fontFamily: "monospace" }}>{entry.ledgerAccount.code} - {entry.ledgerAccount.name}</span>
+                        ) : (
+                          entry.counterparty?.name
+                        )}
+                      </td>
+                      <td style={tdStyle}>{entry.dimensionValue.dimension.name}</td>
+                      <td style={tdStyle}>{entry.dimensionValue.code} - {entry.dimensionValue.name}</td>
+                      <td style={tdStyle}>
+                        <Button variant="outline" size="sm" onClick={() => deleteDefaultMutation.mutate(entry.id)} disabled={deleteDefaultMutation.isPending}>
+                          Sil
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Gider dağıtımı */}
+      {activeTab === "allocation" && (
+        <div style={{ display: "flex", flexDirection: "column", gap: spacing.lg }}>
+          <Card variant="elevated">
+            <div style={{ padding: spacing.lg }}>
+              <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg }}>
+                <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>Dağıtım Kuralları</h3>
+                <div style={{ flex: 1 }} />
+                <Button onClick={() => setShowRuleForm(!showRuleForm)} disabled={!selectedClientId || activeDimensions.length === 0}>
+                  Yeni Kural
+                </Button>
+              </div>
+
+              {showRuleForm && (
+                <div style={{ ...formGridStyle, gridTemplateColumns: "1fr" }}>
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))", gap: spacing.sm }}>
+                    <input placeholder="Kural adı *" value={ruleForm.name} onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })} style={inputStyle} />
+                    <input placeholder="Dağıtılacak hesap (ör. 770)" value={ruleForm.sourceAccountCode} onChange={(e) => setRuleForm({ ...ruleForm, sourceAccountCode: e.target.value })} style={inputStyle} />
+                    <select value={ruleForm.dimensionId} onChange={(e) => { setRuleForm({ ...ruleForm, dimensionId: e.target.value }); setRulePercentages({}); }} style={inputStyle}>
+                      <option value="">Boyut seçiniz</option>
+                      {activeDimensions.map((dimension) => (
+                        <option key={dimension.id} value={dimension.id}>{dimension.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {ruleDimension && (
+                    <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: spacing.sm }}>
+                      {ruleDimension.values.filter((value) => value.isActive).map((value) => (
+                        <label key={value.id} style={{ display: "flex", alignItems: "center", gap: spacing.sm, fontSize: typography.fontSize.sm }}>
+                          <span style={{ flex: 1 }}>{value.code} - {value.name}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step="0.01"
+                            placeholder="%"
+                            value={rulePercentages[value.id] ?? ""}
+                            onChange={(e) => setRulePercentages({ ...rulePercentages, [value.id]: e.target.value })}
+                            style={{ ...inputStyle, width: "90px" }}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  <div style={{ display: "flex", alignItems: "center", gap: spacing.md }}>
+                    <span style={{ fontSize: typography.fontSize.sm, color: Math.abs(percentageTotal - 100) < 0.0001 ? colors.success : colors.danger }}>
+                      Toplam: %{percentageTotal.toLocaleString("tr-TR", { maximumFractionDigits: 4 })}
+                    </span>
+                    <div style={{ flex: 1 }} />
+                    <Button
+                      onClick={() => createRuleMutation.mutate()}
+                      disabled={!ruleForm.name || !ruleForm.sourceAccountCode || !ruleForm.dimensionId || Math.abs(percentageTotal - 100) > 0.0001 || createRuleMutation.isPending}
+                    >
+                      {createRuleMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {!selectedClientId ? (
+                emptyText("Dağıtım kuralları için müşteri seçiniz")
+              ) : rulesLoading ? (
+                <Skeleton height="160px" />
+              ) : rules.length === 0 ? (
+                emptyText("Dağıtım kuralı yok")
+              ) : (
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Kural", "Hesap", "Boyut", "Hedefler", ""].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rules.map((rule) => (
+                      <tr
+                        key={rule.id}
+                        onClick={() => setSelectedRuleId(rule.id)}
+                        style={{
+                          borderBottom: `1px solid ${themeColors.border}`,
+                          cursor: "pointer",
+                          opacity: rule.isActive ? 1 : 0.5,
+                          backgroundColor: selectedRuleId === rule.id ? themeColors.gray[50] : undefined,
+                        }}
+                      >
+                        <td style={{ ...tdStyle, fontWeight: typography.fontWeight.medium }}>{rule.name}</td>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{rule.sourceAccountCode}</td>
+                        <td style={tdStyle}>{rule.dimension?.name}</td>
+                        <td style={tdStyle}>
+                          {rule.targets.map((target) => `${target.dimensionValue?.code ?? ""} %${target.percentage}`).join(", ")}
+                        </td>
+                        <td style={tdStyle}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (confirm(`"${rule.name}" kuralı silinsin mi?`)) deleteRuleMutation.mutate(rule.id);
+                            }}
+                            disabled={deleteRuleMutation.isPending}
+                          >
+                            Sil
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </Card>
+
+          {selectedRuleId && (
+            <Card variant="elevated">
+              <div style={{ padding: spacing.lg }}>
+                <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+                  <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>Dönem Dağıtımı</h3>
+                  <div style={{ flex: 1 }} />
+                  <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} style={inputStyle} />
+                  {preview && !preview.run && (
+                    <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending || preview.accounts.length === 0}>
+                      {runMutation.isPending ? "Kaydediliyor..." : "Muhasebeleştir"}
+                    </Button>
+                  )}
+                  {preview?.run && (
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        if (confirm(`${period} dağıtımı geri alınsın mı?`)) undoMutation.mutate();
+                      }}
+                      disabled={undoMutation.isPending}
+                    >
+                      Geri Al
+                    </Button>
+                  )}
+                </div>
+
+                {previewLoading || !preview ? (
+                  <Skeleton height="120px" />
+                ) : preview.run ? (
+                  emptyText(`${period} dönemi ${formatAmount(preview.run.amount)} TRY ile dağıtıldı.`)
+                ) : preview.accounts.length === 0 ? (
+                  emptyText("Bu dönemde dağıtılacak boyutsuz tutar yok")
+                ) : (
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                        {["Hesap", "Boyutsuz Tutar", "Dağılım"].map((h) => (
+                          <th key={h} style={thStyle}>{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.accounts.map((account) => (
+                        <tr key={account.ledgerAccountId} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                          <td style={{ ...tdStyle, fontFamily: "monospace" }}>{account.code} - {account.name}</td>
+                          <td style={numStyle}>{formatAmount(account.amount)}</td>
+                          <td style={tdStyle}>
+                            {account.splits.map((split) => (
+                              <div key={split.dimensionValueId} style={{ fontSize: typography.fontSize.xs }}>
+                                {valueName(split.dimensionValueId)}: <span style={{ fontFamily: "monospace" }}>{formatAmount(split.amount)}</span>
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr style={{ borderTop: `2px solid ${themeColors.border}`, fontWeight: typography.fontWeight.bold }}>
+                        <td style={tdStyle}>Toplam</td>
+                        <td style={numStyle}>{formatAmount(preview.amount)}</td>
+                        <td />
+                      </tr>
+                    </tfoot>
+                  </table>
+                )}
+              </div>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {/* Kârlılık */}
+      {activeTab === "profitability" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              <select value={reportDimensionId} onChange={(e) => setReportDimensionId(e.target.value)} style={inputStyle}>
+                <option value="">İlk aktif boyut</option>
+                {dimensions.map((dimension) => (
+                  <option key={dimension.id} value={dimension.id}>{dimension.name}</option>
+                ))}
+              </select>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} style={inputStyle} />
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} style={inputStyle} />
+            </div>
+
+            {!selectedClientId ? (
+              emptyText("Kârlılık raporu için müşteri seçiniz")
+            ) : reportLoading ? (
+              <Skeleton height="200px" />
+            ) : reportError ? (
+              emptyText((reportError as Error).message)
+            ) : !report || report.rows.length === 0 ? (
+              emptyText("Bu aralıkta gelir veya gider kaydı yok")
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                    {["Kod", "Değer", "Gelir", "Gider", "Kâr", "Kâr Marjı"].map((h) => (
+                      <th key={h} style={thStyle}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row: any) => (
+                    <tr key={row.dimension_value_code} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                      <td style={{ ...tdStyle, fontFamily: "monospace" }}>{row.dimension_value_code}</td>
+                      <td style={tdStyle}>{row.dimension_value_name}</td>
+                      <td style={numStyle}>{formatAmount(row.income)}</td>
+                      <td style={numStyle}>{formatAmount(row.expense)}</td>
+                      <td style={{ ...numStyle, color: row.profit < 0 ? colors.danger : undefined }}>{formatAmount(row.profit)}</td>
+                      <td style={numStyle}>{row.profit_margin === null ? "-" : `%${row.profit_margin}`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                {report.totals && (
+                  <tfoot>
+                    <tr style={{ borderTop: `2px solid ${themeColors.border}`, fontWeight: typography.fontWeight.bold }}>
+                      <td style={tdStyle} colSpan={2}>Toplam</td>
+                      <td style={numStyle}>{formatAmount(report.totals.totalIncome)}</td>
+                      <td style={numStyle}>{formatAmount(report.totals.totalExpense)}</td>
+                      <td style={numStyle}>{formatAmount(report.totals.netIncome)}</td>
+                      <td style={numStyle}>{report.totals.unassignedShare ? `Atanmamış gider %${report.totals.unassignedShare}` : ""}</td>
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
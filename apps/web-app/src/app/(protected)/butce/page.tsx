@@ -0,0 +1,639 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { budgetClient, dimensionClient, listClientCompanies, listLedgerAccounts } from "@repo/api-client";
+import type { BudgetLineInput, BudgetStatus } from "@repo/api-client";
+import { Card } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Skeleton } from "../../../components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography, transitions } from "../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const MONTHS = ["Oca", "Şub", "Mar", "Nis", "May", "Haz", "Tem", "Ağu", "Eyl", "Eki", "Kas", "Ara"];
+
+const STATUS_LABELS: Record<BudgetStatus, string> = {
+  draft: "Taslak",
+  approved: "Onaylı",
+  superseded: "Revize edildi",
+};
+
+const STATUS_COLORS: Record<BudgetStatus, string> = {
+  draft: colors.warning,
+  approved: colors.success,
+  superseded: colors.gray[500],
+};
+
+interface EditableLine extends BudgetLineInput {
+  label: string;
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatPercent(percent: number | null): string {
+  return percent === null ? "-" : `%${percent.toLocaleString("tr-TR", { maximumFractionDigits: 1 })}`;
+}
+
+export default function ButcePage() {
+  const { themeColors } = useTheme();
+  const [activeTab, setActiveTab] = useState<"plan" | "variance">("plan");
+  const [selectedClientId, setSelectedClientId] = useState<string>("");
+  const [fiscalYear, setFiscalYear] = useState<number>(() => new Date().getFullYear());
+  const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(null);
+  const [month, setMonth] = useState<number>(() => new Date().getMonth() + 1);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [createForm, setCreateForm] = useState({ name: "", alertThresholdPercent: "10" });
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [newLine, setNewLine] = useState({ ledgerAccountId: "", dimensionValueId: "" });
+  const [importErrors, setImportErrors] = useState<Array<{ row: number; message: string }>>([]);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+  });
+
+  const { data: budgetsData, isLoading: budgetsLoading } = useQuery({
+    queryKey: ["budgets", selectedClientId, fiscalYear],
+    queryFn: () => budgetClient.list(selectedClientId, fiscalYear),
+    enabled: !!selectedClientId,
+  });
+
+  const budgets = budgetsData?.data || [];
+  const approvedBudget = budgets.find((budget) => budget.status === "approved");
+  const activeBudgetId = selectedBudgetId ?? budgets.find((budget) => budget.status === "draft")?.id ?? approvedBudget?.id ?? null;
+
+  const { data: budgetData, isLoading: budgetLoading } = useQuery({
+    queryKey: ["budget", activeBudgetId],
+    queryFn: () => budgetClient.get(activeBudgetId!),
+    enabled: !!activeBudgetId && activeTab === "plan",
+  });
+
+  const { data: accountsData } = useQuery({
+    queryKey: ["ledger-accounts", selectedClientId],
+    queryFn: () => listLedgerAccounts(selectedClientId),
+    enabled: !!selectedClientId && activeTab === "plan",
+  });
+
+  const { data: dimensionsData } = useQuery({
+    queryKey: ["dimensions"],
+    queryFn: () => dimensionClient.list(),
+    enabled: activeTab === "plan",
+  });
+
+  const { data: varianceData, isLoading: varianceLoading } = useQuery({
+    queryKey: ["budget-variance", approvedBudget?.id, month],
+    queryFn: () => budgetClient.getVariance(approvedBudget!.id, month),
+    enabled: !!approvedBudget && activeTab === "variance",
+  });
+
+  const budget = budgetData?.data;
+  const editable = budget?.status === "draft";
+
+  useEffect(() => {
+    setLines(
+      (budget?.lines || []).map((line) => ({
+        ledgerAccountId: line.ledgerAccountId,
+        dimensionValueId: line.dimensionValueId,
+        amounts: line.amounts,
+        label: `${line.accountCode} ${line.accountName}${line.dimensionValue ? ` · ${line.dimensionValue.name}` : ""}`,
+      }))
+    );
+    setDirty(false);
+    setImportErrors([]);
+  }, [budget]);
+
+  const onError = (error: Error) => showToast(`Hata: ${error.message}`);
+
+  const invalidateBudgets = () => {
+    queryClient.invalidateQueries({ queryKey: ["budgets"] });
+    queryClient.invalidateQueries({ queryKey: ["budget"] });
+    queryClient.invalidateQueries({ queryKey: ["budget-variance"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      budgetClient.create({
+        clientCompanyId: selectedClientId,
+        fiscalYear,
+        name: createForm.name,
+        alertThresholdPercent: Number(createForm.alertThresholdPercent) || 0,
+      }),
+    onSuccess: (result) => {
+      invalidateBudgets();
+      setSelectedBudgetId(result.data.id);
+      setShowCreateForm(false);
+      setCreateForm({ name: "", alertThresholdPercent: "10" });
+      showToast("Bütçe oluşturuldu");
+    },
+    onError,
+  });
+
+  const saveLinesMutation = useMutation({
+    mutationFn: () =>
+      budgetClient.setLines(
+        activeBudgetId!,
+        lines.map(({ ledgerAccountId, dimensionValueId, amounts }) => ({ ledgerAccountId, dimensionValueId, amounts }))
+      ),
+    onSuccess: () => {
+      invalidateBudgets();
+      showToast("Bütçe satırları kaydedildi");
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => budgetClient.importWorkbook(activeBudgetId!, file),
+    onSuccess: (result) => {
+      if (result.data.errors.length > 0) {
+        setImportErrors(result.data.errors);
+        showToast(`Hata: ${result.data.errors.length} satır aktarılamadı, dosya yüklenmedi`);
+        return;
+      }
+      invalidateBudgets();
+      showToast(`${result.data.lines} bütçe satırı aktarıldı`);
+    },
+    onError,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const blob = await budgetClient.exportWorkbook(activeBudgetId!);
+      saveBlob(blob, `butce_${budget?.fiscalYear}_v${budget?.version}.xlsx`);
+    },
+    onError,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: () => budgetClient.approve(activeBudgetId!),
+    onSuccess: () => {
+      invalidateBudgets();
+      showToast("Bütçe onaylandı");
+    },
+    onError,
+  });
+
+  const reviseMutation = useMutation({
+    mutationFn: () => budgetClient.revise(activeBudgetId!),
+    onSuccess: (result) => {
+      invalidateBudgets();
+      setSelectedBudgetId(result.data.id);
+      showToast("Revizyon taslağı oluşturuldu");
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => budgetClient.delete(activeBudgetId!),
+    onSuccess: () => {
+      setSelectedBudgetId(null);
+      invalidateBudgets();
+      showToast("Taslak silindi");
+    },
+    onError,
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: () => budgetClient.checkThresholds(selectedClientId, `${fiscalYear}-${String(month).padStart(2, "0")}`),
+    onSuccess: (result) =>
+      showToast(
+        result.data.exceeded.length > 0
+          ? `${result.data.exceeded.length} kalem için bütçe aşımı uyarısı oluşturuldu`
+          : "Tolerans üzerinde bütçe aşımı yok"
+      ),
+    onError,
+  });
+
+  const clients = clientsData?.data?.data || [];
+  const accounts = (accountsData?.data || []).filter((account) => account.isActive && ["income", "expense"].includes(account.type));
+  const dimensionValues = (dimensionsData?.data || []).flatMap((dimension) =>
+    dimension.values.filter((value) => value.isActive).map((value) => ({ ...value, dimensionName: dimension.name }))
+  );
+  const variance = varianceData?.data;
+
+  const addLine = () => {
+    const account = accounts.find((a) => a.id === newLine.ledgerAccountId);
+    if (!account) return;
+    const value = dimensionValues.find((v) => v.id === newLine.dimensionValueId);
+    const dimensionValueId = value?.id ?? null;
+    if (lines.some((line) => line.ledgerAccountId === account.id && (line.dimensionValueId ?? null) === dimensionValueId)) {
+      showToast("Hata: Bu hesap ve boyut değeri zaten bütçede");
+      return;
+    }
+    setLines([
+      ...lines,
+      {
+        ledgerAccountId: account.id,
+        dimensionValueId,
+        amounts: new Array(12).fill(0),
+        label: `${account.code} ${account.name}${value ? ` · ${value.name}` : ""}`,
+      },
+    ]);
+    setNewLine({ ledgerAccountId: "", dimensionValueId: "" });
+    setDirty(true);
+  };
+
+  const setAmount = (lineIndex: number, monthIndex: number, value: string) => {
+    const amount = Math.max(0, Number(value.replace(",", ".")) || 0);
+    setLines(
+      lines.map((line, index) =>
+        index === lineIndex ? { ...line, amounts: line.amounts.map((a, m) => (m === monthIndex ? amount : a)) } : line
+      )
+    );
+    setDirty(true);
+  };
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const numStyle = { ...tdStyle, textAlign: "right" as const, fontFamily: "monospace" };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const cellInputStyle = { ...inputStyle, width: "90px", padding: spacing.xs, textAlign: "right" as const, fontFamily: "monospace" };
+  const formGridStyle = {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+    gap: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: borderRadius.md,
+    backgroundColor: themeColors.gray[50],
+  };
+  const emptyText = (text: string) => (
+    <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>{text}</p>
+  );
+  const varianceColor = (favorable: boolean, overThreshold: boolean) =>
+    overThreshold ? colors.danger : favorable ? colors.success : colors.warning;
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl }}>
+        <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+          Bütçe
+        </h1>
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+          Hesap ve boyut bazında yıllık bütçe, revizyonlar ve bütçe / fiili karşılaştırması
+        </p>
+      </div>
+
+      <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+        <select value={selectedClientId} onChange={(e) => { setSelectedClientId(e.target.value); setSelectedBudgetId(null); }} style={{ ...inputStyle, minWidth: "240px" }}>
+          <option value="">Müşteri seçiniz</option>
+          {clients.map((c: any) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <select value={fiscalYear} onChange={(e) => { setFiscalYear(Number(e.target.value)); setSelectedBudgetId(null); }} style={inputStyle}>
+          {[-1, 0, 1].map((offset) => {
+            const year = new Date().getFullYear() + offset;
+            return <option key={year} value={year}>{year}</option>;
+          })}
+        </select>
+      </div>
+
+      {/* Tabs */}
+      <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.xl, borderBottom: `2px solid ${themeColors.border}`, paddingBottom: spacing.sm }}>
+        {[
+          { key: "plan", label: "Bütçe Planı" },
+          { key: "variance", label: "Bütçe / Fiili" },
+        ].map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key as any)}
+            style={{
+              padding: `${spacing.sm} ${spacing.lg}`,
+              backgroundColor: activeTab === tab.key ? colors.primary : "transparent",
+              color: activeTab === tab.key ? themeColors.white : themeColors.text.secondary,
+              border: "none",
+              borderRadius: borderRadius.md,
+              fontWeight: typography.fontWeight.semibold,
+              fontSize: typography.fontSize.sm,
+              cursor: "pointer",
+              transition: `all ${transitions.normal}`,
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {!selectedClientId ? (
+        <Card variant="elevated">{emptyText("Bütçe için müşteri seçiniz")}</Card>
+      ) : activeTab === "plan" ? (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            {/* Versions */}
+            <div style={{ display: "flex", gap: spacing.sm, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              {budgetsLoading ? (
+                <Skeleton height="36px" width="320px" />
+              ) : (
+                budgets.map((b) => (
+                  <button
+                    key={b.id}
+                    onClick={() => setSelectedBudgetId(b.id)}
+                    style={{
+                      padding: `${spacing.xs} ${spacing.md}`,
+                      borderRadius: borderRadius.full,
+                      border: `1px solid ${b.id === activeBudgetId ? colors.primary : themeColors.border}`,
+                      backgroundColor: b.id === activeBudgetId ? themeColors.gray[50] : "transparent",
+                      color: themeColors.text.primary,
+                      fontSize: typography.fontSize.sm,
+                      cursor: "pointer",
+                    }}
+                  >
+                    v{b.version} · {b.name}{" "}
+                    <span style={{ color: STATUS_COLORS[b.status], fontWeight: typography.fontWeight.semibold }}>{STATUS_LABELS[b.status]}</span>
+                  </button>
+                ))
+              )}
+              <div style={{ flex: 1 }} />
+              {budgets.length === 0 && !budgetsLoading && (
+                <Button onClick={() => setShowCreateForm(!showCreateForm)}>Yeni Bütçe</Button>
+              )}
+            </div>
+
+            {showCreateForm && (
+              <div style={formGridStyle}>
+                <input placeholder={`Bütçe adı * (ör. ${fiscalYear} Bütçesi)`} value={createForm.name} onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })} style={inputStyle} />
+                <label style={{ display: "flex", alignItems: "center", gap: spacing.sm, fontSize: typography.fontSize.sm }}>
+                  Uyarı toleransı %
+                  <input type="number" min={0} value={createForm.alertThresholdPercent} onChange={(e) => setCreateForm({ ...createForm, alertThresholdPercent: e.target.value })} style={{ ...inputStyle, width: "80px" }} />
+                </label>
+                <Button onClick={() => createMutation.mutate()} disabled={!createForm.name || createMutation.isPending}>
+                  {createMutation.isPending ? "Kaydediliyor..." : "Oluştur"}
+                </Button>
+              </div>
+            )}
+
+            {!activeBudgetId ? (
+              !budgetsLoading && emptyText(`${fiscalYear} yılı için bütçe yok`)
+            ) : budgetLoading || !budget ? (
+              <Skeleton height="240px" />
+            ) : (
+              <>
+                <div style={{ display: "flex", gap: spacing.sm, alignItems: "center", marginBottom: spacing.md, flexWrap: "wrap" }}>
+                  <span style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>
+                    Toplam: <strong style={{ fontFamily: "monospace" }}>{formatAmount(budget.total ?? 0)}</strong> · Uyarı toleransı %{budget.alertThresholdPercent}
+                  </span>
+                  <div style={{ flex: 1 }} />
+                  <Button variant="outline" size="sm" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+                    {budget.lines.length === 0 ? "Excel Şablonu" : "Excel İndir"}
+                  </Button>
+                  {editable && (
+                    <>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".xls,.xlsx"
+                        style={{ display: "none" }}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) importMutation.mutate(file);
+                          e.target.value = "";
+                        }}
+                      />
+                      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+                        {importMutation.isPending ? "Yükleniyor..." : "Excel'den Yükle"}
+                      </Button>
+                      <Button size="sm" onClick={() => saveLinesMutation.mutate()} disabled={!dirty || saveLinesMutation.isPending}>
+                        {saveLinesMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => {
+                          if (confirm("Bütçe onaylansın mı? Onaylı bütçe yalnızca revizyonla değiştirilebilir.")) approveMutation.mutate();
+                        }}
+                        disabled={dirty || budget.lines.length === 0 || approveMutation.isPending}
+                      >
+                        Onayla
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm("Taslak silinsin mi?")) deleteMutation.mutate();
+                        }}
+                        disabled={deleteMutation.isPending}
+                      >
+                        Sil
+                      </Button>
+                    </>
+                  )}
+                  {budget.status === "approved" && (
+                    <Button size="sm" onClick={() => reviseMutation.mutate()} disabled={reviseMutation.isPending}>
+                      Revize Et
+                    </Button>
+                  )}
+                </div>
+
+                {importErrors.length > 0 && (
+                  <div style={{ padding: spacing.md, marginBottom: spacing.md, borderRadius: borderRadius.md, backgroundColor: themeColors.gray[50], fontSize: typography.fontSize.sm }}>
+                    <strong style={{ color: colors.danger }}>Dosya aktarılmadı:</strong>
+                    <ul style={{ margin: `${spacing.xs} 0 0`, paddingLeft: spacing.lg }}>
+                      {importErrors.slice(0, 20).map((error) => (
+                        <li key={`${error.row}-${error.message}`}>Satır {error.row}: {error.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {editable && (
+                  <div style={{ ...formGridStyle, gridTemplateColumns: "2fr 2fr 1fr" }}>
+                    <select value={newLine.ledgerAccountId} onChange={(e) => setNewLine({ ...newLine, ledgerAccountId: e.target.value })} style={inputStyle}>
+                      <option value="">Gelir / gider hesabı seçiniz</option>
+                      {accounts.map((account) => (
+                        <option key={account.id} value={account.id}>{account.code} - {account.name}</option>
+                      ))}
+                    </select>
+                    <select value={newLine.dimensionValueId} onChange={(e) => setNewLine({ ...newLine, dimensionValueId: e.target.value })} style={inputStyle}>
+                      <option value="">Boyut yok</option>
+                      {dimensionValues.map((value) => (
+                        <option key={value.id} value={value.id}>{value.dimensionName}: {value.code} - {value.name}</option>
+                      ))}
+                    </select>
+                    <Button variant="outline" onClick={addLine} disabled={!newLine.ledgerAccountId}>
+                      Satır Ekle
+                    </Button>
+                  </div>
+                )}
+
+                {lines.length === 0 ? (
+                  emptyText(editable ? "Satır ekleyin veya Excel şablonunu doldurup yükleyin" : "Bütçe satırı yok")
+                ) : (
+                  <div style={{ overflowX: "auto" }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                      <thead>
+                        <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                          {["Hesap", ...MONTHS, "Toplam", ""].map((h) => (
+                            <th key={h} style={thStyle}>{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {lines.map((line, lineIndex) => (
+                          <tr key={`${line.ledgerAccountId}-${line.dimensionValueId ?? ""}`} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                            <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>{line.label}</td>
+                            {line.amounts.map((amount, monthIndex) => (
+                              <td key={monthIndex} style={numStyle}>
+                                {editable ? (
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    step="0.01"
+                                    value={amount || ""}
+                                    onChange={(e) => setAmount(lineIndex, monthIndex, e.target.value)}
+                                    style={cellInputStyle}
+                                  />
+                                ) : (
+                                  formatAmount(amount)
+                                )}
+                              </td>
+                            ))}
+                            <td style={{ ...numStyle, fontWeight: typography.fontWeight.semibold }}>
+                              {formatAmount(line.amounts.reduce((sum, amount) => sum + amount, 0))}
+                            </td>
+                            <td style={tdStyle}>
+                              {editable && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    setLines(lines.filter((_, index) => index !== lineIndex));
+                                    setDirty(true);
+                                  }}
+                                >
+                                  Sil
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </Card>
+      ) : (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              <select value={month} onChange={(e) => setMonth(Number(e.target.value))} style={inputStyle}>
+                {MONTHS.map((label, index) => (
+                  <option key={label} value={index + 1}>{label} {fiscalYear}</option>
+                ))}
+              </select>
+              {approvedBudget && (
+                <span style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>
+                  v{approvedBudget.version} · {approvedBudget.name} · tolerans %{approvedBudget.alertThresholdPercent}
+                </span>
+              )}
+              <div style={{ flex: 1 }} />
+              <Button variant="outline" onClick={() => checkMutation.mutate()} disabled={!approvedBudget || checkMutation.isPending}>
+                {checkMutation.isPending ? "Kontrol ediliyor..." : "Aşım Kontrolü"}
+              </Button>
+            </div>
+
+            {!approvedBudget ? (
+              !budgetsLoading && emptyText(`${fiscalYear} yılı için onaylı bütçe yok`)
+            ) : varianceLoading || !variance ? (
+              <Skeleton height="240px" />
+            ) : variance.rows.length === 0 ? (
+              emptyText("Bütçe satırı yok")
+            ) : (
+              <>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: spacing.md, marginBottom: spacing.lg }}>
+                  {[
+                    { label: "Gelir (ay)", budget: variance.totals.incomeBudget, actual: variance.totals.incomeActual },
+                    { label: "Gider (ay)", budget: variance.totals.expenseBudget, actual: variance.totals.expenseActual },
+                    { label: "Gelir (yıl başından)", budget: variance.totals.ytdIncomeBudget, actual: variance.totals.ytdIncomeActual },
+                    { label: "Gider (yıl başından)", budget: variance.totals.ytdExpenseBudget, actual: variance.totals.ytdExpenseActual },
+                  ].map((metric) => (
+                    <div key={metric.label} style={{ padding: spacing.md, borderRadius: borderRadius.md, backgroundColor: themeColors.gray[50] }}>
+                      <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary }}>{metric.label}</div>
+                      <div style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.bold, fontFamily: "monospace" }}>{formatAmount(metric.actual)}</div>
+                      <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>Bütçe {formatAmount(metric.budget)}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div style={{ overflowX: "auto" }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                        {["Hesap", "Bütçe", "Fiili", "Sapma", "Sapma %", "YB Bütçe", "YB Fiili", "YB Sapma", "YB Sapma %"].map((h) => (
+                          <th key={h} style={thStyle}>{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {variance.rows.map((row) => (
+                        <tr key={`${row.ledgerAccountId}-${row.dimensionValueId ?? ""}`} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                          <td style={tdStyle}>
+                            <span style={{ fontFamily: "monospace" }}>{row.accountCode}</span> {row.accountName}
+                            {row.dimensionValueName && (
+                              <span style={{ color: themeColors.text.secondary }}> · {row.dimensionValueName}</span>
+                            )}
+                          </td>
+                          <td style={numStyle}>{formatAmount(row.budget)}</td>
+                          <td style={numStyle}>{formatAmount(row.actual)}</td>
+                          <td style={{ ...numStyle, color: varianceColor(row.favorable, row.overThreshold) }}>{formatAmount(row.variance)}</td>
+                          <td style={{ ...numStyle, color: varianceColor(row.favorable, row.overThreshold) }}>{formatPercent(row.variancePercent)}</td>
+                          <td style={numStyle}>{formatAmount(row.ytdBudget)}</td>
+                          <td style={numStyle}>{formatAmount(row.ytdActual)}</td>
+                          <td style={numStyle}>{formatAmount(row.ytdVariance)}</td>
+                          <td style={numStyle}>{formatPercent(row.ytdVariancePercent)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
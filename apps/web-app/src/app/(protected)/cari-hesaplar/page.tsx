@@ -0,0 +1,632 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { counterpartyClient, listClientCompanies } from "@repo/api-client";
+import type { AgingBucket, AgingSide, CounterpartyPaymentDirection, CounterpartyPaymentMethod, CounterpartyType } from "@repo/api-client";
+import { Card } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Skeleton } from "../../../components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography, transitions } from "../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const TYPE_LABELS: Record<CounterpartyType, string> = {
+  customer: "Müşteri",
+  supplier: "Tedarikçi",
+  both: "Müşteri / Tedarikçi",
+};
+
+const METHOD_LABELS: Record<CounterpartyPaymentMethod, string> = {
+  nakit: "Nakit",
+  havale: "Havale / EFT",
+  cek: "Çek",
+  senet: "Senet",
+  kredi_karti: "Kredi Kartı",
+  mahsup: "Mahsup",
+};
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Vadesi Gelmemiş",
+  "1-30": "1-30 Gün",
+  "31-60": "31-60 Gün",
+  "61-90": "61-90 Gün",
+  "91-120": "91-120 Gün",
+  "120+": "120+ Gün",
+};
+
+const BUCKETS = Object.keys(BUCKET_LABELS) as AgingBucket[];
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+const emptyCardForm = {
+  name: "",
+  taxNumber: "",
+  taxOffice: "",
+  type: "customer" as CounterpartyType,
+  email: "",
+  phone: "",
+  address: "",
+  city: "",
+  iban: "",
+  paymentTermDays: "",
+  createLedgerAccounts: true,
+};
+
+const emptyPaymentForm = {
+  counterpartyId: "",
+  direction: "TAHSILAT" as CounterpartyPaymentDirection,
+  date: toDateInput(new Date()),
+  amount: "",
+  method: "havale" as CounterpartyPaymentMethod,
+  reference: "",
+  autoAllocate: true,
+};
+
+export default function CariHesaplarPage() {
+  const { themeColors } = useTheme();
+  const [activeTab, setActiveTab] = useState<"cards" | "aging" | "payments">("cards");
+  const [selectedClientId, setSelectedClientId] = useState<string>("");
+  const [search, setSearch] = useState<string>("");
+  const [asOfDate, setAsOfDate] = useState<string>(() => toDateInput(new Date()));
+  const [agingSide, setAgingSide] = useState<AgingSide>("receivable");
+  const [showCardForm, setShowCardForm] = useState(false);
+  const [cardForm, setCardForm] = useState(emptyCardForm);
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+  });
+
+  const { data: cardsData, isLoading: cardsLoading } = useQuery({
+    queryKey: ["counterparties", selectedClientId, search],
+    queryFn: () =>
+      counterpartyClient.list({ clientCompanyId: selectedClientId, search: search || undefined, pageSize: 100 }),
+    enabled: !!selectedClientId,
+  });
+
+  const { data: agingData, isLoading: agingLoading } = useQuery({
+    queryKey: ["counterparty-aging", selectedClientId, agingSide, asOfDate],
+    queryFn: () => counterpartyClient.getAging({ clientCompanyId: selectedClientId, side: agingSide, asOfDate }),
+    enabled: !!selectedClientId && !!asOfDate && activeTab === "aging",
+  });
+
+  const { data: metricsData } = useQuery({
+    queryKey: ["counterparty-metrics", selectedClientId, asOfDate],
+    queryFn: () => counterpartyClient.getMetrics({ clientCompanyId: selectedClientId, asOfDate }),
+    enabled: !!selectedClientId && !!asOfDate && activeTab === "aging",
+  });
+
+  const { data: paymentsData, isLoading: paymentsLoading } = useQuery({
+    queryKey: ["counterparty-payments", selectedClientId],
+    queryFn: () => counterpartyClient.listPayments({ clientCompanyId: selectedClientId, pageSize: 100 }),
+    enabled: !!selectedClientId && activeTab === "payments",
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["counterparties"] });
+    queryClient.invalidateQueries({ queryKey: ["counterparty-aging"] });
+    queryClient.invalidateQueries({ queryKey: ["counterparty-metrics"] });
+    queryClient.invalidateQueries({ queryKey: ["counterparty-payments"] });
+  };
+
+  const syncMutation = useMutation({
+    mutationFn: () => counterpartyClient.sync(selectedClientId),
+    onSuccess: (result) => {
+      invalidate();
+      const { created, linked, unmatched } = result.data;
+      showToast(`${created} cari kart açıldı, ${linked} fatura bağlandı${unmatched ? `, ${unmatched} fatura eşleşmedi` : ""}`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      counterpartyClient.create({
+        clientCompanyId: selectedClientId,
+        name: cardForm.name,
+        taxNumber: cardForm.taxNumber || null,
+        taxOffice: cardForm.taxOffice || null,
+        type: cardForm.type,
+        email: cardForm.email || null,
+        phone: cardForm.phone || null,
+        addresses: cardForm.address ? [{ address: cardForm.address, city: cardForm.city || null }] : [],
+        ibans: cardForm.iban ? [cardForm.iban] : [],
+        paymentTermDays: cardForm.paymentTermDays ? Number(cardForm.paymentTermDays) : null,
+        createLedgerAccounts: cardForm.createLedgerAccounts,
+      }),
+    onSuccess: (result) => {
+      invalidate();
+      setShowCardForm(false);
+      setCardForm(emptyCardForm);
+      showToast(`${result.data.name} cari kartı oluşturuldu`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => counterpartyClient.update(id, { isActive }),
+    onSuccess: () => invalidate(),
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const statementMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const blob = await counterpartyClient.downloadStatement(id, asOfDate);
+      saveBlob(blob, `cari_ekstre_${id}_${asOfDate}.pdf`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: () =>
+      counterpartyClient.recordPayment({
+        counterpartyId: paymentForm.counterpartyId,
+        direction: paymentForm.direction,
+        date: paymentForm.date,
+        amount: Number(paymentForm.amount),
+        method: paymentForm.method,
+        reference: paymentForm.reference || null,
+        autoAllocate: paymentForm.autoAllocate,
+      }),
+    onSuccess: (result) => {
+      invalidate();
+      setShowPaymentForm(false);
+      setPaymentForm(emptyPaymentForm);
+      const unallocated = result.data.amount - result.data.allocatedAmount;
+      showToast(unallocated > 0.01 ? `Kaydedildi, ${formatAmount(unallocated)} ${result.data.currency} avans olarak bekliyor` : "Kaydedildi, faturalar kapatıldı");
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const allocateMutation = useMutation({
+    mutationFn: (id: string) => counterpartyClient.allocatePayment(id),
+    onSuccess: () => {
+      invalidate();
+      showToast("Açık faturalar kapatıldı");
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const unallocateMutation = useMutation({
+    mutationFn: (id: string) => counterpartyClient.unallocatePayment(id),
+    onSuccess: () => {
+      invalidate();
+      showToast("Fatura eşleşmeleri kaldırıldı");
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: (id: string) => counterpartyClient.deletePayment(id),
+    onSuccess: () => {
+      invalidate();
+      showToast("Kayıt silindi");
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const clients = clientsData?.data?.data || [];
+  const cards = cardsData?.data || [];
+  const aging = agingData?.data;
+  const metrics = metricsData?.data;
+  const payments = paymentsData?.data || [];
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const numStyle = { ...tdStyle, textAlign: "right" as const, fontFamily: "monospace" };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const emptyText = (text: string) => (
+    <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>{text}</p>
+  );
+
+  const metricBox = (label: string, value: string, hint?: string) => (
+    <div style={{ flex: 1, minWidth: "160px", padding: spacing.md, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}` }}>
+      <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" }}>{label}</div>
+      <div style={{ fontSize: typography.fontSize.xl, fontWeight: typography.fontWeight.bold, marginTop: spacing.xs }}>{value}</div>
+      {hint && <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{hint}</div>}
+    </div>
+  );
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl }}>
+        <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+          Cari Hesaplar
+        </h1>
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+          Cari kartlar, tahsilat/ödeme eşleştirme, alacak-borç yaşlandırma ve DSO/DPO
+        </p>
+      </div>
+
+      <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+        <select value={selectedClientId} onChange={(e) => setSelectedClientId(e.target.value)} style={{ ...inputStyle, minWidth: "240px" }}>
+          <option value="">Müşteri seçiniz</option>
+          {clients.map((c: any) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <label style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>
+          Tarih{" "}
+          <input type="date" value={asOfDate} onChange={(e) => setAsOfDate(e.target.value)} style={inputStyle} />
+        </label>
+      </div>
+
+      {/* Tabs */}
+      <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.xl, borderBottom: `2px solid ${themeColors.border}`, paddingBottom: spacing.sm }}>
+        {[
+          { key: "cards", label: "Cari Kartlar" },
+          { key: "aging", label: "Yaşlandırma" },
+          { key: "payments", label: "Tahsilat / Ödeme" },
+        ].map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key as any)}
+            style={{
+              padding: `${spacing.sm} ${spacing.lg}`,
+              backgroundColor: activeTab === tab.key ? colors.primary : "transparent",
+              color: activeTab === tab.key ? themeColors.white : themeColors.text.secondary,
+              border: "none",
+              borderRadius: borderRadius.md,
+              fontWeight: typography.fontWeight.semibold,
+              fontSize: typography.fontSize.sm,
+              cursor: "pointer",
+              transition: `all ${transitions.normal}`,
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Cari kartlar */}
+      {activeTab === "cards" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              <input
+                placeholder="Unvan veya VKN/TCKN ara"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                style={{ ...inputStyle, minWidth: "280px" }}
+              />
+              <div style={{ flex: 1 }} />
+              <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={!selectedClientId || syncMutation.isPending}>
+                {syncMutation.isPending ? "Eşleştiriliyor..." : "Faturalardan Cari Aç"}
+              </Button>
+              <Button onClick={() => setShowCardForm(!showCardForm)} disabled={!selectedClientId}>
+                Yeni Cari Kart
+              </Button>
+            </div>
+
+            {showCardForm && (
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: spacing.sm, padding: spacing.md, marginBottom: spacing.lg, borderRadius: borderRadius.md, backgroundColor: themeColors.gray[50] }}>
+                <input placeholder="Unvan *" value={cardForm.name} onChange={(e) => setCardForm({ ...cardForm, name: e.target.value })} style={inputStyle} />
+                <input placeholder="VKN / TCKN" value={cardForm.taxNumber} onChange={(e) => setCardForm({ ...cardForm, taxNumber: e.target.value })} style={inputStyle} />
+                <input placeholder="Vergi dairesi" value={cardForm.taxOffice} onChange={(e) => setCardForm({ ...cardForm, taxOffice: e.target.value })} style={inputStyle} />
+                <select value={cardForm.type} onChange={(e) => setCardForm({ ...cardForm, type: e.target.value as CounterpartyType })} style={inputStyle}>
+                  {Object.entries(TYPE_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <input placeholder="E-posta" value={cardForm.email} onChange={(e) => setCardForm({ ...cardForm, email: e.target.value })} style={inputStyle} />
+                <input placeholder="Telefon" value={cardForm.phone} onChange={(e) => setCardForm({ ...cardForm, phone: e.target.value })} style={inputStyle} />
+                <input placeholder="Adres" value={cardForm.address} onChange={(e) => setCardForm({ ...cardForm, address: e.target.value })} style={inputStyle} />
+                <input placeholder="İl" value={cardForm.city} onChange={(e) => setCardForm({ ...cardForm, city: e.target.value })} style={inputStyle} />
+                <input placeholder="IBAN" value={cardForm.iban} onChange={(e) => setCardForm({ ...cardForm, iban: e.target.value })} style={inputStyle} />
+                <input type="number" min={0} placeholder="Vade (gün)" value={cardForm.paymentTermDays} onChange={(e) => setCardForm({ ...cardForm, paymentTermDays: e.target.value })} style={inputStyle} />
+                <label style={{ display: "flex", gap: spacing.xs, alignItems: "center", fontSize: typography.fontSize.sm }}>
+                  <input type="checkbox" checked={cardForm.createLedgerAccounts} onChange={(e) => setCardForm({ ...cardForm, createLedgerAccounts: e.target.checked })} />
+                  120 / 320 alt hesabı aç
+                </label>
+                <Button onClick={() => createMutation.mutate()} disabled={!cardForm.name || createMutation.isPending}>
+                  {createMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                </Button>
+              </div>
+            )}
+
+            {!selectedClientId ? (
+              emptyText("Cari kartları görmek için müşteri seçiniz")
+            ) : cardsLoading ? (
+              <Skeleton height="200px" />
+            ) : cards.length === 0 ? (
+              emptyText("Cari kart bulunamadı. Faturalardan cari açabilirsiniz.")
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Cari", "VKN/TCKN", "Tür", "Vade", "Hesap Kodları", "Fatura", "İşlem"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cards.map((c) => (
+                      <tr key={c.id} style={{ borderBottom: `1px solid ${themeColors.border}`, opacity: c.isActive ? 1 : 0.5 }}>
+                        <td style={tdStyle}>
+                          <div style={{ fontWeight: typography.fontWeight.medium }}>{c.name}</div>
+                          {(c.email || c.phone) && (
+                            <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{[c.email, c.phone].filter(Boolean).join(" · ")}</div>
+                          )}
+                        </td>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{c.taxNumber || "-"}</td>
+                        <td style={tdStyle}>{TYPE_LABELS[c.type] || c.type}</td>
+                        <td style={tdStyle}>{c.paymentTermDays !== null ? `${c.paymentTermDays} gün` : "-"}</td>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>
+                          {[c.receivableAccountCode, c.payableAccountCode].filter(Boolean).join(" / ") || "-"}
+                        </td>
+                        <td style={tdStyle}>{c.invoiceCount}</td>
+                        <td style={tdStyle}>
+                          <div style={{ display: "flex", gap: spacing.xs }}>
+                            {c.taxNumber && (
+                              <Button variant="outline" size="sm" onClick={() => statementMutation.mutate(c.id)} disabled={statementMutation.isPending}>
+                                Ekstre PDF
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => toggleActiveMutation.mutate({ id: c.id, isActive: !c.isActive })}
+                              disabled={toggleActiveMutation.isPending}
+                            >
+                              {c.isActive ? "Pasife Al" : "Aktifleştir"}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Yaşlandırma */}
+      {activeTab === "aging" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.lg }}>
+              {([["receivable", "Alacaklar"], ["payable", "Borçlar"]] as const).map(([side, label]) => (
+                <Button key={side} variant={agingSide === side ? "primary" : "outline"} size="sm" onClick={() => setAgingSide(side)}>
+                  {label}
+                </Button>
+              ))}
+            </div>
+
+            {metrics && (
+              <div style={{ display: "flex", gap: spacing.md, marginBottom: spacing.lg, flexWrap: "wrap" }}>
+                {metricBox("Açık Alacak", `${formatAmount(metrics.receivables)} TRY`)}
+                {metricBox("Açık Borç", `${formatAmount(metrics.payables)} TRY`)}
+                {metricBox("DSO", metrics.dso !== null ? `${metrics.dso} gün` : "-", `Son ${metrics.periodDays} gün satışlarına göre`)}
+                {metricBox("DPO", metrics.dpo !== null ? `${metrics.dpo} gün` : "-", `Son ${metrics.periodDays} gün alışlarına göre`)}
+              </div>
+            )}
+
+            {!selectedClientId ? (
+              emptyText("Yaşlandırma için müşteri seçiniz")
+            ) : agingLoading ? (
+              <Skeleton height="200px" />
+            ) : !aging || aging.rows.length === 0 ? (
+              emptyText("Bu tarihte açık kalem bulunmuyor")
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      <th style={thStyle}>Cari</th>
+                      {BUCKETS.map((bucket) => (
+                        <th key={bucket} style={{ ...thStyle, textAlign: "right" }}>{BUCKET_LABELS[bucket]}</th>
+                      ))}
+                      <th style={{ ...thStyle, textAlign: "right" }}>Toplam</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>Avans</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>Net</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aging.rows.map((row) => (
+                      <tr key={row.counterpartyId ?? row.counterpartyName} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                        <td style={tdStyle}>
+                          <div style={{ fontWeight: typography.fontWeight.medium }}>{row.counterpartyName}</div>
+                          <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>
+                            {row.counterpartyTaxNumber || (row.counterpartyId ? "" : "Cari kartı yok")}
+                          </div>
+                        </td>
+                        {BUCKETS.map((bucket) => (
+                          <td
+                            key={bucket}
+                            style={{ ...numStyle, color: bucket !== "current" && row.buckets[bucket] > 0 ? colors.danger : undefined }}
+                          >
+                            {row.buckets[bucket] ? formatAmount(row.buckets[bucket]) : "-"}
+                          </td>
+                        ))}
+                        <td style={{ ...numStyle, fontWeight: typography.fontWeight.semibold }}>{formatAmount(row.total)}</td>
+                        <td style={numStyle}>{row.unapplied ? formatAmount(row.unapplied) : "-"}</td>
+                        <td style={{ ...numStyle, fontWeight: typography.fontWeight.semibold }}>{formatAmount(row.net)}</td>
+                      </tr>
+                    ))}
+                    <tr style={{ borderTop: `2px solid ${themeColors.border}`, fontWeight: typography.fontWeight.bold }}>
+                      <td style={tdStyle}>Toplam</td>
+                      {BUCKETS.map((bucket) => (
+                        <td key={bucket} style={numStyle}>{formatAmount(aging.totals[bucket])}</td>
+                      ))}
+                      <td style={numStyle}>{formatAmount(aging.totals.total)}</td>
+                      <td style={numStyle}>{formatAmount(aging.totals.unapplied)}</td>
+                      <td style={numStyle}>{formatAmount(aging.totals.net)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                <p style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted, marginTop: spacing.md }}>
+                  Tutarlar TRY. Vadesi olmayan faturalarda vade, fatura tarihine carinin vade günü eklenerek hesaplanır.
+                  Avans: henüz faturalarla eşleşmemiş tahsilat/ödeme.
+                </p>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Tahsilat / ödeme */}
+      {activeTab === "payments" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: spacing.lg }}>
+              <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>Tahsilat ve Ödemeler</h3>
+              <Button onClick={() => setShowPaymentForm(!showPaymentForm)} disabled={!selectedClientId}>
+                Yeni Kayıt
+              </Button>
+            </div>
+
+            {showPaymentForm && (
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))", gap: spacing.sm, padding: spacing.md, marginBottom: spacing.lg, borderRadius: borderRadius.md, backgroundColor: themeColors.gray[50] }}>
+                <select value={paymentForm.counterpartyId} onChange={(e) => setPaymentForm({ ...paymentForm, counterpartyId: e.target.value })} style={inputStyle}>
+                  <option value="">Cari seçiniz</option>
+                  {cards.filter((c) => c.isActive).map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <select value={paymentForm.direction} onChange={(e) => setPaymentForm({ ...paymentForm, direction: e.target.value as CounterpartyPaymentDirection })} style={inputStyle}>
+                  <option value="TAHSILAT">Tahsilat</option>
+                  <option value="ODEME">Ödeme</option>
+                </select>
+                <input type="date" value={paymentForm.date} onChange={(e) => setPaymentForm({ ...paymentForm, date: e.target.value })} style={inputStyle} />
+                <input type="number" min={0} step="0.01" placeholder="Tutar (TRY)" value={paymentForm.amount} onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })} style={inputStyle} />
+                <select value={paymentForm.method} onChange={(e) => setPaymentForm({ ...paymentForm, method: e.target.value as CounterpartyPaymentMethod })} style={inputStyle}>
+                  {Object.entries(METHOD_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <input placeholder="Belge no / açıklama" value={paymentForm.reference} onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })} style={inputStyle} />
+                <label style={{ display: "flex", gap: spacing.xs, alignItems: "center", fontSize: typography.fontSize.sm }}>
+                  <input type="checkbox" checked={paymentForm.autoAllocate} onChange={(e) => setPaymentForm({ ...paymentForm, autoAllocate: e.target.checked })} />
+                  En eski faturadan kapat
+                </label>
+                <Button
+                  onClick={() => recordPaymentMutation.mutate()}
+                  disabled={!paymentForm.counterpartyId || !paymentForm.amount || recordPaymentMutation.isPending}
+                >
+                  {recordPaymentMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                </Button>
+              </div>
+            )}
+
+            {!selectedClientId ? (
+              emptyText("Kayıtları görmek için müşteri seçiniz")
+            ) : paymentsLoading ? (
+              <Skeleton height="200px" />
+            ) : payments.length === 0 ? (
+              emptyText("Tahsilat veya ödeme kaydı bulunamadı")
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Tarih", "Cari", "Tür", "Yöntem", "Tutar", "Kapatılan Faturalar", "Avans", "İşlem"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payments.map((p) => {
+                      const unallocated = p.amount - p.allocatedAmount;
+                      return (
+                        <tr key={p.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                          <td style={tdStyle}>{new Date(p.date).toLocaleDateString("tr-TR")}</td>
+                          <td style={{ ...tdStyle, fontWeight: typography.fontWeight.medium }}>{p.counterparty?.name}</td>
+                          <td style={{ ...tdStyle, color: p.direction === "TAHSILAT" ? colors.success : colors.warning }}>
+                            {p.direction === "TAHSILAT" ? "Tahsilat" : "Ödeme"}
+                          </td>
+                          <td style={tdStyle}>{METHOD_LABELS[p.method] || p.method}</td>
+                          <td style={numStyle}>{formatAmount(p.amount)} {p.currency}</td>
+                          <td style={{ ...tdStyle, fontSize: typography.fontSize.xs }}>
+                            {p.allocations.length === 0
+                              ? "-"
+                              : p.allocations.map((a) => `${a.invoice?.externalId || a.invoiceId} (${formatAmount(a.amount)})`).join(", ")}
+                          </td>
+                          <td style={{ ...numStyle, color: unallocated > 0.01 ? colors.warning : themeColors.text.muted }}>
+                            {unallocated > 0.01 ? formatAmount(unallocated) : "-"}
+                          </td>
+                          <td style={tdStyle}>
+                            <div style={{ display: "flex", gap: spacing.xs }}>
+                              {unallocated > 0.01 && (
+                                <Button size="sm" onClick={() => allocateMutation.mutate(p.id)} disabled={allocateMutation.isPending}>
+                                  Eşleştir
+                                </Button>
+                              )}
+                              {p.allocations.length > 0 && (
+                                <Button variant="outline" size="sm" onClick={() => unallocateMutation.mutate(p.id)} disabled={unallocateMutation.isPending}>
+                                  Eşleşmeyi Kaldır
+                                </Button>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  if (confirm("Kayıt silinsin mi?")) deletePaymentMutation.mutate(p.id);
+                                }}
+                                disabled={deletePaymentMutation.isPending}
+                              >
+                                Sil
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
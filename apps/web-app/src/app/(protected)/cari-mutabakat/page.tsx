@@ -0,0 +1,467 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { cariMutabakatClient, listClientCompanies } from "@repo/api-client";
+import { Card } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Skeleton } from "../../../components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography, transitions } from "../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Cevap Bekliyor",
+  confirmed: "Mutabık",
+  disputed: "İtiraz",
+  cancelled: "İptal",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: colors.warning,
+  confirmed: colors.success,
+  disputed: colors.danger,
+  cancelled: colors.gray[500],
+};
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
+function formatBalance(balance: number): string {
+  if (Math.abs(balance) < 0.01) return "0,00 TRY";
+  const amount = Math.abs(balance).toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount} TRY ${balance > 0 ? "(B)" : "(A)"}`;
+}
+
+export default function CariMutabakatPage() {
+  const { themeColors } = useTheme();
+  const [activeTab, setActiveTab] = useState<"summary" | "counterparties" | "requests">("summary");
+  const [selectedClientId, setSelectedClientId] = useState<string>("");
+  const [asOfDate, setAsOfDate] = useState<string>(() => {
+    const now = new Date();
+    const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
+    return `${lastMonthEnd.getFullYear()}-${String(lastMonthEnd.getMonth() + 1).padStart(2, "0")}-${String(lastMonthEnd.getDate()).padStart(2, "0")}`;
+  });
+  const [statusFilter, setStatusFilter] = useState<string>("");
+  const [sendTaxNumber, setSendTaxNumber] = useState<string | null>(null);
+  const [sendEmail, setSendEmail] = useState<string>("");
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+  });
+
+  const { data: summaryData, isLoading: summaryLoading } = useQuery({
+    queryKey: ["cari-mutabakat-summary"],
+    queryFn: () => cariMutabakatClient.getSummary(),
+  });
+
+  const { data: counterpartiesData, isLoading: counterpartiesLoading } = useQuery({
+    queryKey: ["cari-mutabakat-counterparties", selectedClientId, asOfDate],
+    queryFn: () => cariMutabakatClient.listCounterparties(selectedClientId, asOfDate),
+    enabled: !!selectedClientId && !!asOfDate,
+  });
+
+  const { data: requestsData, isLoading: requestsLoading } = useQuery({
+    queryKey: ["cari-mutabakat-requests", selectedClientId, statusFilter],
+    queryFn: () =>
+      cariMutabakatClient.list({
+        clientCompanyId: selectedClientId || undefined,
+        status: (statusFilter || undefined) as any,
+        pageSize: 100,
+      }),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["cari-mutabakat-summary"] });
+    queryClient.invalidateQueries({ queryKey: ["cari-mutabakat-counterparties"] });
+    queryClient.invalidateQueries({ queryKey: ["cari-mutabakat-requests"] });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: (counterpartyTaxNumber: string) =>
+      cariMutabakatClient.send({ clientCompanyId: selectedClientId, counterpartyTaxNumber, email: sendEmail, asOfDate }),
+    onSuccess: (result) => {
+      invalidate();
+      setSendTaxNumber(null);
+      setSendEmail("");
+      showToast(`Mutabakat talebi ${result.data.email} adresine gönderildi`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const statementMutation = useMutation({
+    mutationFn: async (counterpartyTaxNumber: string) => {
+      const blob = await cariMutabakatClient.downloadStatement(selectedClientId, counterpartyTaxNumber, asOfDate);
+      saveBlob(blob, `cari_ekstre_${counterpartyTaxNumber}_${asOfDate}.pdf`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: (id: string) => cariMutabakatClient.remind(id),
+    onSuccess: () => {
+      invalidate();
+      showToast("Hatırlatma gönderildi");
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const dueRemindersMutation = useMutation({
+    mutationFn: () => cariMutabakatClient.sendDueReminders(),
+    onSuccess: (result) => {
+      invalidate();
+      showToast(`${result.data.sent} hatırlatma gönderildi${result.data.failed.length ? `, ${result.data.failed.length} başarısız` : ""}`);
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => cariMutabakatClient.cancel(id),
+    onSuccess: () => {
+      invalidate();
+      showToast("Mutabakat talebi iptal edildi");
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const clients = clientsData?.data?.data || [];
+  const summary = summaryData?.data || [];
+  const counterparties = counterpartiesData?.data || [];
+  const requests = requestsData?.data || [];
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+
+  const statusBadge = (status: string) => (
+    <span style={{ padding: `2px ${spacing.sm}`, borderRadius: borderRadius.full, fontSize: typography.fontSize.xs, fontWeight: typography.fontWeight.semibold, backgroundColor: `${STATUS_COLORS[status]}20`, color: STATUS_COLORS[status] }}>
+      {STATUS_LABELS[status] || status}
+    </span>
+  );
+
+  const clientSelect = (
+    <select value={selectedClientId} onChange={(e) => setSelectedClientId(e.target.value)} style={{ ...inputStyle, minWidth: "240px" }}>
+      <option value="">Müşteri seçiniz</option>
+      {clients.map((c: any) => (
+        <option key={c.id} value={c.id}>{c.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl }}>
+        <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+          Cari Hesap Mutabakatı
+        </h1>
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+          Carilere ekstre ve mutabakat talebi gönderin, cevapları takip edin
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.xl, borderBottom: `2px solid ${themeColors.border}`, paddingBottom: spacing.sm }}>
+        {[
+          { key: "summary", label: "Müşteri Durumu" },
+          { key: "counterparties", label: "Cariler" },
+          { key: "requests", label: "Talepler" },
+        ].map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key as any)}
+            style={{
+              padding: `${spacing.sm} ${spacing.lg}`,
+              backgroundColor: activeTab === tab.key ? colors.primary : "transparent",
+              color: activeTab === tab.key ? themeColors.white : themeColors.text.secondary,
+              border: "none",
+              borderRadius: borderRadius.md,
+              fontWeight: typography.fontWeight.semibold,
+              fontSize: typography.fontSize.sm,
+              cursor: "pointer",
+              transition: `all ${transitions.normal}`,
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Summary per client */}
+      {activeTab === "summary" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: spacing.lg }}>
+              <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>Müşteri Bazında Mutabakat Durumu</h3>
+              <Button onClick={() => dueRemindersMutation.mutate()} disabled={dueRemindersMutation.isPending}>
+                {dueRemindersMutation.isPending ? "Gönderiliyor..." : "Geciken Cevaplara Hatırlat"}
+              </Button>
+            </div>
+            {summaryLoading ? (
+              <Skeleton height="200px" />
+            ) : summary.length === 0 ? (
+              <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>Henüz mutabakat talebi gönderilmemiş</p>
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Müşteri", "Cevap Bekleyen", "Süresi Dolan", "Mutabık", "İtiraz", "Son Gönderim"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.map((row) => (
+                      <tr
+                        key={row.clientCompanyId}
+                        onClick={() => {
+                          setSelectedClientId(row.clientCompanyId);
+                          setActiveTab("requests");
+                        }}
+                        style={{ borderBottom: `1px solid ${themeColors.border}`, cursor: "pointer" }}
+                      >
+                        <td style={{ ...tdStyle, fontWeight: typography.fontWeight.medium }}>{row.clientCompanyName}</td>
+                        <td style={{ ...tdStyle, color: colors.warning }}>{row.pending}</td>
+                        <td style={{ ...tdStyle, color: row.expired ? colors.danger : themeColors.text.muted }}>{row.expired}</td>
+                        <td style={{ ...tdStyle, color: colors.success }}>{row.confirmed}</td>
+                        <td style={{ ...tdStyle, color: row.disputed ? colors.danger : themeColors.text.muted }}>{row.disputed}</td>
+                        <td style={tdStyle}>{row.lastSentAt ? new Date(row.lastSentAt).toLocaleDateString("tr-TR") : "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Counterparties of a client */}
+      {activeTab === "counterparties" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              {clientSelect}
+              <label style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>
+                Mutabakat tarihi{" "}
+                <input type="date" value={asOfDate} onChange={(e) => setAsOfDate(e.target.value)} style={inputStyle} />
+              </label>
+            </div>
+            {!selectedClientId ? (
+              <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>Carileri görmek için müşteri seçiniz</p>
+            ) : counterpartiesLoading ? (
+              <Skeleton height="200px" />
+            ) : counterparties.length === 0 ? (
+              <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>Bu tarihe kadar VKN/TCKN bilgisi olan fatura bulunamadı</p>
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Cari", "VKN/TCKN", "Fatura", "Bakiye", "Son Mutabakat", "İşlem"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {counterparties.map((c) => (
+                      <Fragment key={c.counterpartyTaxNumber}>
+                        <tr style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                          <td style={{ ...tdStyle, fontWeight: typography.fontWeight.medium }}>{c.counterpartyName}</td>
+                          <td style={{ ...tdStyle, fontFamily: "monospace" }}>{c.counterpartyTaxNumber}</td>
+                          <td style={tdStyle}>{c.invoiceCount}</td>
+                          <td style={{ ...tdStyle, fontWeight: typography.fontWeight.semibold }}>{formatBalance(c.balance)}</td>
+                          <td style={tdStyle}>
+                            {c.lastMutabakat ? (
+                              <div style={{ display: "flex", gap: spacing.xs, alignItems: "center" }}>
+                                {statusBadge(c.lastMutabakat.status)}
+                                <span style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>
+                                  {new Date(c.lastMutabakat.asOfDate).toLocaleDateString("tr-TR")}
+                                </span>
+                              </div>
+                            ) : (
+                              <span style={{ color: themeColors.text.muted }}>-</span>
+                            )}
+                          </td>
+                          <td style={tdStyle}>
+                            <div style={{ display: "flex", gap: spacing.xs }}>
+                              <Button variant="outline" size="sm" onClick={() => statementMutation.mutate(c.counterpartyTaxNumber)} disabled={statementMutation.isPending}>
+                                Ekstre PDF
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => setSendTaxNumber(sendTaxNumber === c.counterpartyTaxNumber ? null : c.counterpartyTaxNumber)}
+                              >
+                                Mutabakat Gönder
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                        {sendTaxNumber === c.counterpartyTaxNumber && (
+                          <tr style={{ backgroundColor: themeColors.gray[50] }}>
+                            <td colSpan={6} style={tdStyle}>
+                              <div style={{ display: "flex", gap: spacing.sm, alignItems: "center" }}>
+                                <input
+                                  type="email"
+                                  placeholder="Carinin e-posta adresi"
+                                  value={sendEmail}
+                                  onChange={(e) => setSendEmail(e.target.value)}
+                                  style={{ ...inputStyle, minWidth: "280px" }}
+                                />
+                                <Button
+                                  size="sm"
+                                  onClick={() => sendMutation.mutate(c.counterpartyTaxNumber)}
+                                  disabled={!sendEmail || sendMutation.isPending}
+                                >
+                                  {sendMutation.isPending ? "Gönderiliyor..." : `${formatBalance(c.balance)} için gönder`}
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+                <p style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted, marginTop: spacing.md }}>
+                  (B) cari müşteriye borçlu, (A) cari müşteriden alacaklı. Tahsilat ve ödemeler banka mutabakatında faturalarla eşleşen hareketlerdir.
+                </p>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Requests */}
+      {activeTab === "requests" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              <select value={selectedClientId} onChange={(e) => setSelectedClientId(e.target.value)} style={{ ...inputStyle, minWidth: "240px" }}>
+                <option value="">Tüm müşteriler</option>
+                {clients.map((c: any) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} style={inputStyle}>
+                <option value="">Tüm durumlar</option>
+                {Object.entries(STATUS_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {requestsLoading ? (
+              <Skeleton height="200px" />
+            ) : requests.length === 0 ? (
+              <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>Mutabakat talebi bulunamadı</p>
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Müşteri", "Cari", "Tarih", "Bakiye", "Durum", "Cevap", "Gönderim", "İşlem"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {requests.map((r) => {
+                      const expired = r.status === "pending" && new Date(r.expiresAt) < new Date();
+                      return (
+                        <tr key={r.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                          <td style={tdStyle}>{r.clientCompany?.name}</td>
+                          <td style={tdStyle}>
+                            <div style={{ fontWeight: typography.fontWeight.medium }}>{r.counterpartyName}</div>
+                            <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{r.email}</div>
+                          </td>
+                          <td style={tdStyle}>{new Date(r.asOfDate).toLocaleDateString("tr-TR")}</td>
+                          <td style={tdStyle}>{formatBalance(r.balance)}</td>
+                          <td style={tdStyle}>
+                            {statusBadge(r.status)}
+                            {expired && (
+                              <div style={{ fontSize: typography.fontSize.xs, color: colors.danger, marginTop: "2px" }}>Bağlantı süresi doldu</div>
+                            )}
+                          </td>
+                          <td style={tdStyle}>
+                            {r.respondedAt ? (
+                              <>
+                                <div>{r.responderName}</div>
+                                {r.status === "disputed" && r.responseBalance !== null && (
+                                  <div style={{ fontSize: typography.fontSize.xs, color: colors.danger }}>
+                                    Cari bakiyesi: {formatBalance(r.responseBalance)}
+                                  </div>
+                                )}
+                                {r.responseNote && (
+                                  <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{r.responseNote}</div>
+                                )}
+                              </>
+                            ) : (
+                              <span style={{ color: themeColors.text.muted }}>-</span>
+                            )}
+                          </td>
+                          <td style={tdStyle}>
+                            <div>{new Date(r.sentAt).toLocaleDateString("tr-TR")}</div>
+                            {r.reminderCount > 0 && (
+                              <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{r.reminderCount} hatırlatma</div>
+                            )}
+                          </td>
+                          <td style={tdStyle}>
+                            {r.status === "pending" && (
+                              <div style={{ display: "flex", gap: spacing.xs }}>
+                                <Button variant="outline" size="sm" onClick={() => remindMutation.mutate(r.id)} disabled={remindMutation.isPending}>
+                                  Hatırlat
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => cancelMutation.mutate(r.id)} disabled={cancelMutation.isPending}>
+                                  İptal
+                                </Button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,90 @@
 "use client";
 
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { kvkkClient, listTenantUsers } from "@repo/api-client";
 import { Card } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
 import { SkeletonTable } from "../../../components/ui/Skeleton";
 import { colors, spacing, borderRadius, typography } from "../../../styles/design-system";
 import { useTheme } from "@/contexts/ThemeContext";
+import { toast } from "@/lib/toast";
+
+function RetentionSettingsCard() {
+  const { themeColors } = useTheme();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState("");
+
+  const { data: settingsData } = useQuery({
+    queryKey: ["kvkk-retention-settings"],
+    queryFn: () => kvkkClient.getRetentionSettings(),
+  });
+
+  useEffect(() => {
+    if (settingsData?.data) {
+      setDays(String(settingsData.data.aiConversationDays));
+    }
+  }, [settingsData]);
+
+  const updateMutation = useMutation({
+    mutationFn: (aiConversationDays: number) => kvkkClient.updateRetentionSettings({ aiConversationDays }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kvkk-retention-settings"] });
+      toast.success("Saklama süresi güncellendi.");
+    },
+    onError: (error: Error) => {
+      toast.error(`Hata: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card variant="elevated" style={{ marginTop: spacing.xl }}>
+      <h2
+        style={{
+          fontSize: typography.fontSize.xl,
+          fontWeight: typography.fontWeight.bold,
+          color: themeColors.text.primary,
+          marginBottom: spacing.xs,
+        }}
+      >
+        Saklama Süreleri
+      </h2>
+      <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, marginTop: 0 }}>
+        AI asistan konuşmaları, son mesajdan itibaren bu süre dolunca kaynak ve geri bildirimleriyle birlikte
+        kalıcı olarak silinir (30-3650 gün).
+      </p>
+      <div style={{ display: "flex", gap: spacing.md, alignItems: "center" }}>
+        <label style={{ fontSize: typography.fontSize.sm, color: themeColors.text.primary }}>
+          AI asistan konuşmaları
+        </label>
+        <input
+          type="number"
+          min={30}
+          max={3650}
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          style={{
+            width: "120px",
+            padding: spacing.sm,
+            border: `1px solid ${themeColors.border}`,
+            borderRadius: borderRadius.md,
+            fontSize: typography.fontSize.sm,
+          }}
+        />
+        <span style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>gün</span>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => updateMutation.mutate(Number(days))}
+          loading={updateMutation.isPending}
+          disabled={!days || Number(days) === settingsData?.data?.aiConversationDays}
+        >
+          Kaydet
+        </Button>
+      </div>
+    </Card>
+  );
+}
 
 export default function KVKKDashboardPage() {
   const { themeColors } = useTheme();
@@ -556,6 +634,8 @@ export default function KVKKDashboardPage() {
         )}
       </Card>
 
+      <RetentionSettingsCard />
+
       <style jsx global>{`
         @keyframes spin {
           to {
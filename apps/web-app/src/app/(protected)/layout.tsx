@@ -389,10 +389,10 @@ export default function ProtectedLayout({ children }: { children: React.ReactNod
     if (pathname?.startsWith("/raporlar") || pathname?.startsWith("/entegrasyonlar") || pathname?.startsWith("/ai-asistan") || pathname?.startsWith("/mesajlar") || pathname?.startsWith("/sozlesmeler") || pathname?.startsWith("/bildirimler")) {
       setExpandedSections((prev) => new Set(prev).add("other"));
     }
-    if (pathname?.startsWith("/masak") || pathname?.startsWith("/kurgan") || pathname?.startsWith("/babs") || pathname?.startsWith("/beyanname") || pathname?.startsWith("/mali-musavir")) {
+    if (pathname?.startsWith("/masak") || pathname?.startsWith("/kurgan") || pathname?.startsWith("/babs") || pathname?.startsWith("/beyanname") || pathname?.startsWith("/onaylar") || pathname?.startsWith("/mali-musavir")) {
       setExpandedSections((prev) => new Set(prev).add("maliMusavir"));
     }
-    if (pathname?.startsWith("/tekrar-faturalar") || pathname?.startsWith("/cek-senet") || pathname?.startsWith("/nakit-akis") || pathname?.startsWith("/doviz-kurlari") || pathname?.startsWith("/odeme-hatirlatma")) {
+    if (pathname?.startsWith("/tekrar-faturalar") || pathname?.startsWith("/cek-senet") || pathname?.startsWith("/nakit-akis") || pathname?.startsWith("/doviz-kurlari") || pathname?.startsWith("/odeme-hatirlatma") || pathname?.startsWith("/cari-mutabakat") || pathname?.startsWith("/cari-hesaplar") || pathname?.startsWith("/stok") || pathname?.startsWith("/boyutlar") || pathname?.startsWith("/butce")) {
       setExpandedSections((prev) => new Set(prev).add("finans"));
     }
   }, [pathname]);
@@ -415,6 +415,8 @@ export default function ProtectedLayout({ children }: { children: React.ReactNod
     { href: "/risk/dashboard", label: "Risk Panosu", icon: "chart" },
     { href: "/risk/alerts", label: "Risk Uyarıları", icon: "alert", badge: 0 },
     { href: "/risk/ml-fraud", label: "ML Dolandırıcılık", icon: "robot" },
+    { href: "/risk/rules", label: "Risk Kuralları", icon: "settings" },
+    { href: "/risk/backtests", label: "Kural Simülasyonu", icon: "chart" },
   ];
 
   const maliMusavirNavItems: NavItem[] = [
@@ -423,6 +425,7 @@ export default function ProtectedLayout({ children }: { children: React.ReactNod
     { href: "/kurgan", label: "KURGAN", icon: "security" },
     { href: "/babs", label: "Ba-Bs Formları", icon: "file" },
     { href: "/beyanname", label: "Beyanname", icon: "invoice" },
+    { href: "/onaylar", label: "Onaylar", icon: "checkCircle" },
   ];
 
   const finansNavItems: NavItem[] = [
@@ -431,6 +434,11 @@ export default function ProtectedLayout({ children }: { children: React.ReactNod
     { href: "/nakit-akis", label: "Nakit Akış", icon: "chart" },
     { href: "/doviz-kurlari", label: "Döviz Kurları", icon: "creditCard" },
     { href: "/odeme-hatirlatma", label: "Ödeme Hatırlatma", icon: "notification" },
+    { href: "/cari-hesaplar", label: "Cari Hesaplar", icon: "users" },
+    { href: "/cari-mutabakat", label: "Cari Mutabakat", icon: "checkCircle" },
+    { href: "/stok", label: "Stok", icon: "archive" },
+    { href: "/boyutlar", label: "Boyutlar", icon: "chart" },
+    { href: "/butce", label: "Bütçe", icon: "analytics" },
   ];
 
   // Get unread message count for badge
@@ -0,0 +1,747 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  approvalClient,
+  APPROVAL_ACTION_LABELS,
+  getCurrentUser,
+  listBankAccounts,
+  listClientCompanies,
+  listTenantUsers,
+} from "@repo/api-client";
+import type { ApprovalAction, ApprovalRequest, ApprovalRequestStatus, ApprovalRole, ApprovalStep } from "@repo/api-client";
+import { Card } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Skeleton } from "../../../components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography, transitions } from "../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const STATUS_LABELS: Record<ApprovalRequestStatus, string> = {
+  pending: "Bekliyor",
+  approved: "Onaylandı",
+  rejected: "Reddedildi",
+  cancelled: "Geri çekildi",
+  executed: "Uygulandı",
+  invalidated: "Geçersiz",
+};
+
+const STATUS_COLORS: Record<ApprovalRequestStatus, string> = {
+  pending: colors.warning,
+  approved: colors.success,
+  rejected: colors.danger,
+  cancelled: colors.gray[500],
+  executed: colors.primary,
+  invalidated: colors.gray[500],
+};
+
+const ROLE_LABELS: Record<ApprovalRole, string> = {
+  TenantOwner: "Ofis sahibi",
+  Accountant: "Muhasebeci",
+  Staff: "Personel",
+  ReadOnly: "Müşteri",
+};
+
+const DOCUMENT_ACTIONS: Array<Exclude<ApprovalAction, "payment_initiate">> = ["efatura_submit", "beyanname_submit", "masak_submit"];
+
+function formatAmount(amount: number | null): string {
+  return amount === null ? "-" : amount.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString("tr-TR", { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function OnaylarPage() {
+  const { themeColors } = useTheme();
+  const [activeTab, setActiveTab] = useState<"requests" | "payment" | "policies" | "delegations">("requests");
+  const [awaitingMe, setAwaitingMe] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<ApprovalRequestStatus | "">("");
+  const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
+  const [decisionComment, setDecisionComment] = useState("");
+  const [requestForm, setRequestForm] = useState({ action: "efatura_submit" as (typeof DOCUMENT_ACTIONS)[number], resourceId: "", comment: "" });
+  const [paymentForm, setPaymentForm] = useState({
+    clientCompanyId: "",
+    bankAccountId: "",
+    paymentType: "EFT" as "FAST" | "EFT" | "HAVALE",
+    creditorIban: "",
+    creditorName: "",
+    amount: "",
+    description: "",
+    comment: "",
+  });
+  const [showPolicyForm, setShowPolicyForm] = useState(false);
+  const [policyForm, setPolicyForm] = useState({
+    action: "payment_initiate" as ApprovalAction,
+    name: "",
+    minAmount: "",
+    requireDistinctPreparer: true,
+    steps: [{ roles: ["TenantOwner"] }] as ApprovalStep[],
+  });
+  const [delegationForm, setDelegationForm] = useState({ delegateUserId: "", startsAt: "", endsAt: "", reason: "" });
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const { data: userData } = useQuery({
+    queryKey: ["currentUser"],
+    queryFn: () => getCurrentUser(),
+  });
+  const currentUserId = userData?.data?.user?.id;
+  const currentTenant = userData?.data?.tenants?.find((t: any) => t.status === "active");
+  const canManage = currentTenant?.role === "TenantOwner" || currentTenant?.role === "Accountant";
+
+  const { data: requestsData, isLoading: requestsLoading } = useQuery({
+    queryKey: ["approval-requests", awaitingMe, statusFilter],
+    queryFn: () => approvalClient.listRequests({ awaitingMe, status: statusFilter || undefined }),
+    enabled: activeTab === "requests",
+  });
+
+  const { data: requestData, isLoading: requestLoading } = useQuery({
+    queryKey: ["approval-request", selectedRequestId],
+    queryFn: () => approvalClient.getRequest(selectedRequestId!),
+    enabled: !!selectedRequestId && activeTab === "requests",
+  });
+
+  const { data: policiesData, isLoading: policiesLoading } = useQuery({
+    queryKey: ["approval-policies"],
+    queryFn: () => approvalClient.listPolicies(),
+    enabled: activeTab === "policies",
+  });
+
+  const { data: delegationsData, isLoading: delegationsLoading } = useQuery({
+    queryKey: ["approval-delegations"],
+    queryFn: () => approvalClient.listDelegations(),
+    enabled: activeTab === "delegations",
+  });
+
+  const { data: usersData } = useQuery({
+    queryKey: ["tenantUsers", currentTenant?.id],
+    queryFn: () => listTenantUsers(currentTenant!.id),
+    enabled: !!currentTenant?.id && activeTab === "delegations",
+  });
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+    enabled: activeTab === "payment",
+  });
+
+  const { data: bankAccountsData } = useQuery({
+    queryKey: ["bank-accounts", paymentForm.clientCompanyId],
+    queryFn: () => listBankAccounts(paymentForm.clientCompanyId),
+    enabled: !!paymentForm.clientCompanyId && activeTab === "payment",
+  });
+
+  const onError = (error: Error) => showToast(`Hata: ${error.message}`);
+
+  const invalidateRequests = () => {
+    queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["approval-request"] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => approvalClient.approve(id, decisionComment || null),
+    onSuccess: (result) => {
+      showToast(result.data.status === "approved" ? "Talep onaylandı" : "Adım onaylandı, sonraki onaylayıcıya iletildi");
+      setDecisionComment("");
+      invalidateRequests();
+    },
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: string) => approvalClient.reject(id, decisionComment),
+    onSuccess: () => {
+      showToast("Talep reddedildi");
+      setDecisionComment("");
+      invalidateRequests();
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => approvalClient.cancel(id),
+    onSuccess: () => {
+      showToast("Talep geri çekildi");
+      invalidateRequests();
+    },
+    onError,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: () =>
+      approvalClient.requestApproval({
+        action: requestForm.action,
+        resourceId: requestForm.resourceId.trim(),
+        comment: requestForm.comment || null,
+      }),
+    onSuccess: () => {
+      showToast("Onay talebi oluşturuldu, onaylayıcılara bildirildi");
+      setRequestForm({ ...requestForm, resourceId: "", comment: "" });
+      setAwaitingMe(false);
+      invalidateRequests();
+    },
+    onError,
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: () =>
+      approvalClient.initiatePayment({
+        clientCompanyId: paymentForm.clientCompanyId,
+        bankAccountId: paymentForm.bankAccountId,
+        paymentType: paymentForm.paymentType,
+        creditorIban: paymentForm.creditorIban,
+        creditorName: paymentForm.creditorName,
+        amount: Number(paymentForm.amount.replace(",", ".")),
+        description: paymentForm.description || null,
+        comment: paymentForm.comment || null,
+      }),
+    onSuccess: (result) => {
+      showToast(
+        result.data.status === "initiated"
+          ? `Ödeme başlatıldı (${result.data.payment.paymentId})`
+          : "Ödeme onay politikasına tabi; onay talebi oluşturuldu"
+      );
+      setPaymentForm({ ...paymentForm, creditorIban: "", creditorName: "", amount: "", description: "", comment: "" });
+      invalidateRequests();
+    },
+    onError,
+  });
+
+  const initiateApprovedMutation = useMutation({
+    mutationFn: (id: string) => approvalClient.initiateApprovedPayment(id),
+    onSuccess: (result) => {
+      showToast(`Ödeme başlatıldı (${result.data.paymentId})`);
+      invalidateRequests();
+    },
+    onError,
+  });
+
+  const createPolicyMutation = useMutation({
+    mutationFn: () =>
+      approvalClient.createPolicy({
+        action: policyForm.action,
+        name: policyForm.name,
+        minAmount: policyForm.minAmount ? Number(policyForm.minAmount.replace(",", ".")) : null,
+        steps: policyForm.steps,
+        requireDistinctPreparer: policyForm.requireDistinctPreparer,
+      }),
+    onSuccess: () => {
+      showToast("Onay politikası eklendi");
+      setShowPolicyForm(false);
+      setPolicyForm({ ...policyForm, name: "", minAmount: "", steps: [{ roles: ["TenantOwner"] }] });
+      queryClient.invalidateQueries({ queryKey: ["approval-policies"] });
+    },
+    onError,
+  });
+
+  const togglePolicyMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => approvalClient.updatePolicy(id, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["approval-policies"] }),
+    onError,
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: (id: string) => approvalClient.deletePolicy(id),
+    onSuccess: () => {
+      showToast("Onay politikası silindi");
+      queryClient.invalidateQueries({ queryKey: ["approval-policies"] });
+    },
+    onError,
+  });
+
+  const createDelegationMutation = useMutation({
+    mutationFn: () =>
+      approvalClient.createDelegation({
+        delegateUserId: delegationForm.delegateUserId,
+        startsAt: new Date(delegationForm.startsAt).toISOString(),
+        endsAt: new Date(`${delegationForm.endsAt}T23:59:59`).toISOString(),
+        reason: delegationForm.reason || null,
+      }),
+    onSuccess: () => {
+      showToast("Vekalet tanımlandı");
+      setDelegationForm({ delegateUserId: "", startsAt: "", endsAt: "", reason: "" });
+      queryClient.invalidateQueries({ queryKey: ["approval-delegations"] });
+    },
+    onError,
+  });
+
+  const revokeDelegationMutation = useMutation({
+    mutationFn: (id: string) => approvalClient.revokeDelegation(id),
+    onSuccess: () => {
+      showToast("Vekalet kaldırıldı");
+      queryClient.invalidateQueries({ queryKey: ["approval-delegations"] });
+    },
+    onError,
+  });
+
+  const requests = requestsData?.data || [];
+  const request = requestData?.data;
+  const policies = policiesData?.data || [];
+  const delegations = delegationsData?.data || [];
+  const users = (usersData?.data || []).filter((user) => user.id !== currentUserId && user.status === "active");
+  const clients = clientsData?.data?.data || [];
+  const bankAccounts = bankAccountsData?.data || [];
+
+  const setStepRoles = (stepIndex: number, role: ApprovalRole, checked: boolean) => {
+    setPolicyForm({
+      ...policyForm,
+      steps: policyForm.steps.map((step, index) =>
+        index === stepIndex
+          ? { roles: checked ? [...step.roles, role] : step.roles.filter((r) => r !== role) }
+          : step
+      ),
+    });
+  };
+
+  const stepsText = (steps: ApprovalStep[]) =>
+    steps.map((step, index) => `${index + 1}. ${step.roles.map((role) => ROLE_LABELS[role]).join(" / ")}`).join(" → ");
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const numStyle = { ...tdStyle, textAlign: "right" as const, fontFamily: "monospace" };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const formGridStyle = {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+    gap: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: borderRadius.md,
+    backgroundColor: themeColors.gray[50],
+  };
+  const emptyText = (text: string) => (
+    <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>{text}</p>
+  );
+  const statusBadge = (status: ApprovalRequestStatus) => (
+    <span style={{ color: STATUS_COLORS[status], fontWeight: typography.fontWeight.semibold }}>{STATUS_LABELS[status]}</span>
+  );
+
+  const renderRequestRow = (row: ApprovalRequest) => (
+    <tr
+      key={row.id}
+      onClick={() => setSelectedRequestId(row.id === selectedRequestId ? null : row.id)}
+      style={{
+        borderBottom: `1px solid ${themeColors.border}`,
+        cursor: "pointer",
+        backgroundColor: row.id === selectedRequestId ? themeColors.gray[50] : "transparent",
+      }}
+    >
+      <td style={tdStyle}>{formatDate(row.createdAt)}</td>
+      <td style={tdStyle}>{APPROVAL_ACTION_LABELS[row.action]}</td>
+      <td style={tdStyle}>
+        {row.summary}
+        {row.clientCompany && <span style={{ color: themeColors.text.secondary }}> · {row.clientCompany.name}</span>}
+      </td>
+      <td style={numStyle}>{formatAmount(row.amount)}</td>
+      <td style={tdStyle}>{row.status === "pending" ? `${row.currentStep}/${row.steps.length}` : "-"}</td>
+      <td style={tdStyle}>{statusBadge(row.status)}</td>
+    </tr>
+  );
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl }}>
+        <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+          Onaylar
+        </h1>
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+          e-Fatura, ödeme, beyanname ve MASAK bildirimleri için çok adımlı onay akışları ve vekalet
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.xl, borderBottom: `2px solid ${themeColors.border}`, paddingBottom: spacing.sm }}>
+        {[
+          { key: "requests", label: "Onay Talepleri" },
+          { key: "payment", label: "Ödeme Talimatı" },
+          { key: "policies", label: "Politikalar" },
+          { key: "delegations", label: "Vekalet" },
+        ].map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key as any)}
+            style={{
+              padding: `${spacing.sm} ${spacing.lg}`,
+              backgroundColor: activeTab === tab.key ? colors.primary : "transparent",
+              color: activeTab === tab.key ? themeColors.white : themeColors.text.secondary,
+              border: "none",
+              borderRadius: borderRadius.md,
+              fontWeight: typography.fontWeight.semibold,
+              fontSize: typography.fontSize.sm,
+              cursor: "pointer",
+              transition: `all ${transitions.normal}`,
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "requests" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ ...formGridStyle, gridTemplateColumns: "1fr 2fr 2fr auto" }}>
+              <select value={requestForm.action} onChange={(e) => setRequestForm({ ...requestForm, action: e.target.value as any })} style={inputStyle}>
+                {DOCUMENT_ACTIONS.map((action) => (
+                  <option key={action} value={action}>{APPROVAL_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+              <input placeholder="Fatura / beyanname / MASAK raporu ID *" value={requestForm.resourceId} onChange={(e) => setRequestForm({ ...requestForm, resourceId: e.target.value })} style={inputStyle} />
+              <input placeholder="Açıklama (onaylayıcılar için)" value={requestForm.comment} onChange={(e) => setRequestForm({ ...requestForm, comment: e.target.value })} style={inputStyle} />
+              <Button onClick={() => requestMutation.mutate()} disabled={!requestForm.resourceId.trim() || requestMutation.isPending}>
+                Onaya Gönder
+              </Button>
+            </div>
+
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              <label style={{ display: "flex", alignItems: "center", gap: spacing.xs, fontSize: typography.fontSize.sm }}>
+                <input type="checkbox" checked={awaitingMe} onChange={(e) => setAwaitingMe(e.target.checked)} />
+                Yalnızca onayımı bekleyenler
+              </label>
+              {!awaitingMe && (
+                <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as any)} style={inputStyle}>
+                  <option value="">Tüm durumlar</option>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {requestsLoading ? (
+              <Skeleton height="200px" />
+            ) : requests.length === 0 ? (
+              emptyText(awaitingMe ? "Onayınızı bekleyen işlem yok" : "Onay talebi yok")
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Tarih", "İşlem", "Konu", "Tutar", "Adım", "Durum"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>{requests.map(renderRequestRow)}</tbody>
+                </table>
+              </div>
+            )}
+
+            {selectedRequestId && (
+              <div style={{ marginTop: spacing.lg, padding: spacing.md, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}` }}>
+                {requestLoading || !request ? (
+                  <Skeleton height="120px" />
+                ) : (
+                  <>
+                    <div style={{ fontSize: typography.fontSize.sm, marginBottom: spacing.md }}>
+                      <strong>{request.summary}</strong> · {statusBadge(request.status)}
+                      <div style={{ color: themeColors.text.secondary, marginTop: spacing.xs }}>
+                        Talep eden: {request.requestedByName ?? "-"}
+                        {request.preparedByName && ` · Hazırlayan: ${request.preparedByName}`}
+                        {" · "}Adımlar: {stepsText(request.steps)}
+                        {request.requireDistinctPreparer && " · Hazırlayan onaylayamaz"}
+                      </div>
+                      {request.comment && <div style={{ marginTop: spacing.xs }}>“{request.comment}”</div>}
+                    </div>
+
+                    {request.decisions.length > 0 && (
+                      <ul style={{ margin: `0 0 ${spacing.md}`, paddingLeft: spacing.lg, fontSize: typography.fontSize.sm }}>
+                        {request.decisions.map((decision) => (
+                          <li key={decision.id}>
+                            {decision.step}. adım · {decision.userName ?? decision.userId}
+                            {decision.onBehalfOfName && ` (${decision.onBehalfOfName} adına)`}
+                            {" · "}
+                            <span style={{ color: decision.decision === "approved" ? colors.success : colors.danger }}>
+                              {decision.decision === "approved" ? "Onayladı" : "Reddetti"}
+                            </span>
+                            {" · "}{formatDate(decision.createdAt)}
+                            {decision.comment && ` · “${decision.comment}”`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div style={{ display: "flex", gap: spacing.sm, alignItems: "center", flexWrap: "wrap" }}>
+                      {request.canDecide && (
+                        <>
+                          <input placeholder="Yorum (ret için zorunlu)" value={decisionComment} onChange={(e) => setDecisionComment(e.target.value)} style={{ ...inputStyle, minWidth: "280px" }} />
+                          <Button size="sm" onClick={() => approveMutation.mutate(request.id)} disabled={approveMutation.isPending}>
+                            Onayla
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => rejectMutation.mutate(request.id)} disabled={!decisionComment.trim() || rejectMutation.isPending}>
+                            Reddet
+                          </Button>
+                        </>
+                      )}
+                      {request.action === "payment_initiate" && request.status === "approved" && (
+                        <Button size="sm" onClick={() => initiateApprovedMutation.mutate(request.id)} disabled={initiateApprovedMutation.isPending}>
+                          {initiateApprovedMutation.isPending ? "Gönderiliyor..." : "Ödemeyi Başlat"}
+                        </Button>
+                      )}
+                      {(request.status === "pending" || request.status === "approved") &&
+                        (request.requestedByUserId === currentUserId || canManage) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm("Onay talebi geri çekilsin mi?")) cancelMutation.mutate(request.id);
+                            }}
+                            disabled={cancelMutation.isPending}
+                          >
+                            Geri Çek
+                          </Button>
+                        )}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {activeTab === "payment" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, marginTop: 0 }}>
+              Onay politikası kapsamındaki ödemeler önce onaya gönderilir; onaylandıktan sonra Onay Talepleri sekmesinden başlatılır.
+            </p>
+            <div style={formGridStyle}>
+              <select value={paymentForm.clientCompanyId} onChange={(e) => setPaymentForm({ ...paymentForm, clientCompanyId: e.target.value, bankAccountId: "" })} style={inputStyle}>
+                <option value="">Müşteri seçiniz *</option>
+                {clients.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              <select value={paymentForm.bankAccountId} onChange={(e) => setPaymentForm({ ...paymentForm, bankAccountId: e.target.value })} style={inputStyle} disabled={!paymentForm.clientCompanyId}>
+                <option value="">Ödeme hesabı *</option>
+                {bankAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.bankName} - {account.iban}</option>
+                ))}
+              </select>
+              <select value={paymentForm.paymentType} onChange={(e) => setPaymentForm({ ...paymentForm, paymentType: e.target.value as any })} style={inputStyle}>
+                <option value="EFT">EFT</option>
+                <option value="FAST">FAST</option>
+                <option value="HAVALE">Havale</option>
+              </select>
+              <input placeholder="Alıcı IBAN *" value={paymentForm.creditorIban} onChange={(e) => setPaymentForm({ ...paymentForm, creditorIban: e.target.value })} style={inputStyle} />
+              <input placeholder="Alıcı adı *" value={paymentForm.creditorName} onChange={(e) => setPaymentForm({ ...paymentForm, creditorName: e.target.value })} style={inputStyle} />
+              <input placeholder="Tutar (TL) *" value={paymentForm.amount} onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })} style={inputStyle} />
+              <input placeholder="Açıklama" value={paymentForm.description} onChange={(e) => setPaymentForm({ ...paymentForm, description: e.target.value })} style={inputStyle} />
+              <input placeholder="Onaylayıcılar için not" value={paymentForm.comment} onChange={(e) => setPaymentForm({ ...paymentForm, comment: e.target.value })} style={inputStyle} />
+              <Button
+                onClick={() => paymentMutation.mutate()}
+                disabled={
+                  !paymentForm.bankAccountId ||
+                  !paymentForm.creditorIban ||
+                  !paymentForm.creditorName ||
+                  !(Number(paymentForm.amount.replace(",", ".")) > 0) ||
+                  paymentMutation.isPending
+                }
+              >
+                {paymentMutation.isPending ? "Gönderiliyor..." : "Ödeme Talimatı Ver"}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {activeTab === "policies" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            {canManage && (
+              <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: spacing.md }}>
+                <Button onClick={() => setShowPolicyForm(!showPolicyForm)}>Yeni Politika</Button>
+              </div>
+            )}
+
+            {showPolicyForm && (
+              <div style={{ ...formGridStyle, gridTemplateColumns: "1fr" }}>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))", gap: spacing.sm }}>
+                  <select value={policyForm.action} onChange={(e) => setPolicyForm({ ...policyForm, action: e.target.value as ApprovalAction })} style={inputStyle}>
+                    {(Object.keys(APPROVAL_ACTION_LABELS) as ApprovalAction[]).map((action) => (
+                      <option key={action} value={action}>{APPROVAL_ACTION_LABELS[action]}</option>
+                    ))}
+                  </select>
+                  <input placeholder="Politika adı * (ör. 50.000 TL üstü ödemeler)" value={policyForm.name} onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })} style={inputStyle} />
+                  <input placeholder="Alt tutar (TL, boş = her tutar)" value={policyForm.minAmount} onChange={(e) => setPolicyForm({ ...policyForm, minAmount: e.target.value })} style={inputStyle} />
+                  <label style={{ display: "flex", alignItems: "center", gap: spacing.xs, fontSize: typography.fontSize.sm }}>
+                    <input type="checkbox" checked={policyForm.requireDistinctPreparer} onChange={(e) => setPolicyForm({ ...policyForm, requireDistinctPreparer: e.target.checked })} />
+                    Hazırlayan / talep eden onaylayamaz
+                  </label>
+                </div>
+                {policyForm.steps.map((step, stepIndex) => (
+                  <div key={stepIndex} style={{ display: "flex", gap: spacing.md, alignItems: "center", fontSize: typography.fontSize.sm, flexWrap: "wrap" }}>
+                    <strong>{stepIndex + 1}. adım:</strong>
+                    {(Object.keys(ROLE_LABELS) as ApprovalRole[]).map((role) => (
+                      <label key={role} style={{ display: "flex", alignItems: "center", gap: spacing.xs }}>
+                        <input type="checkbox" checked={step.roles.includes(role)} onChange={(e) => setStepRoles(stepIndex, role, e.target.checked)} />
+                        {ROLE_LABELS[role]}
+                      </label>
+                    ))}
+                    {policyForm.steps.length > 1 && (
+                      <Button variant="outline" size="sm" onClick={() => setPolicyForm({ ...policyForm, steps: policyForm.steps.filter((_, index) => index !== stepIndex) })}>
+                        Adımı Kaldır
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <div style={{ display: "flex", gap: spacing.sm }}>
+                  <Button variant="outline" size="sm" onClick={() => setPolicyForm({ ...policyForm, steps: [...policyForm.steps, { roles: ["TenantOwner"] }] })} disabled={policyForm.steps.length >= 5}>
+                    Adım Ekle
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => createPolicyMutation.mutate()}
+                    disabled={!policyForm.name || policyForm.steps.some((step) => step.roles.length === 0) || createPolicyMutation.isPending}
+                  >
+                    {createPolicyMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {policiesLoading ? (
+              <Skeleton height="160px" />
+            ) : policies.length === 0 ? (
+              emptyText("Onay politikası yok; tüm işlemler yetkili kullanıcılarca doğrudan yapılabilir")
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                    {["İşlem", "Politika", "Alt Tutar", "Onay Adımları", "Görevler Ayrılığı", "Durum", ""].map((h) => (
+                      <th key={h} style={thStyle}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {policies.map((policy) => (
+                    <tr key={policy.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                      <td style={tdStyle}>{APPROVAL_ACTION_LABELS[policy.action]}</td>
+                      <td style={tdStyle}>{policy.name}</td>
+                      <td style={numStyle}>{policy.minAmount === null ? "Her tutar" : formatAmount(policy.minAmount)}</td>
+                      <td style={tdStyle}>{stepsText(policy.steps)}</td>
+                      <td style={tdStyle}>{policy.requireDistinctPreparer ? "Evet" : "Hayır"}</td>
+                      <td style={tdStyle}>
+                        <span style={{ color: policy.isActive ? colors.success : colors.gray[500] }}>{policy.isActive ? "Aktif" : "Pasif"}</span>
+                      </td>
+                      <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>
+                        {canManage && (
+                          <div style={{ display: "flex", gap: spacing.xs }}>
+                            <Button variant="outline" size="sm" onClick={() => togglePolicyMutation.mutate({ id: policy.id, isActive: !policy.isActive })}>
+                              {policy.isActive ? "Pasifleştir" : "Aktifleştir"}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                if (confirm("Politika silinsin mi? Açık talepler mevcut adımlarıyla devam eder.")) deletePolicyMutation.mutate(policy.id);
+                              }}
+                            >
+                              Sil
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {activeTab === "delegations" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={formGridStyle}>
+              <select value={delegationForm.delegateUserId} onChange={(e) => setDelegationForm({ ...delegationForm, delegateUserId: e.target.value })} style={inputStyle}>
+                <option value="">Vekil seçiniz *</option>
+                {users.map((user) => (
+                  <option key={user.id} value={user.id}>{user.name || user.email}</option>
+                ))}
+              </select>
+              <input type="date" value={delegationForm.startsAt} onChange={(e) => setDelegationForm({ ...delegationForm, startsAt: e.target.value })} style={inputStyle} />
+              <input type="date" value={delegationForm.endsAt} onChange={(e) => setDelegationForm({ ...delegationForm, endsAt: e.target.value })} style={inputStyle} />
+              <input placeholder="Neden (ör. yıllık izin)" value={delegationForm.reason} onChange={(e) => setDelegationForm({ ...delegationForm, reason: e.target.value })} style={inputStyle} />
+              <Button
+                onClick={() => createDelegationMutation.mutate()}
+                disabled={!delegationForm.delegateUserId || !delegationForm.startsAt || !delegationForm.endsAt || createDelegationMutation.isPending}
+              >
+                Onay Yetkimi Devret
+              </Button>
+            </div>
+
+            {delegationsLoading ? (
+              <Skeleton height="160px" />
+            ) : delegations.length === 0 ? (
+              emptyText("Vekalet yok")
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                    {["Devreden", "Vekil", "Başlangıç", "Bitiş", "Neden", "Durum", ""].map((h) => (
+                      <th key={h} style={thStyle}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {delegations.map((delegation) => (
+                    <tr key={delegation.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                      <td style={tdStyle}>{delegation.delegatorName ?? delegation.delegatorUserId}</td>
+                      <td style={tdStyle}>{delegation.delegateName ?? delegation.delegateUserId}</td>
+                      <td style={tdStyle}>{formatDate(delegation.startsAt)}</td>
+                      <td style={tdStyle}>{formatDate(delegation.endsAt)}</td>
+                      <td style={tdStyle}>{delegation.reason ?? "-"}</td>
+                      <td style={tdStyle}>
+                        {delegation.revokedAt ? "Kaldırıldı" : delegation.active ? (
+                          <span style={{ color: colors.success }}>Aktif</span>
+                        ) : (
+                          "Planlı / sona erdi"
+                        )}
+                      </td>
+                      <td style={tdStyle}>
+                        {!delegation.revokedAt && (delegation.delegatorUserId === currentUserId || canManage) && (
+                          <Button variant="outline" size="sm" onClick={() => revokeDelegationMutation.mutate(delegation.id)} disabled={revokeDelegationMutation.isPending}>
+                            Kaldır
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
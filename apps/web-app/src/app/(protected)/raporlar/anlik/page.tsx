@@ -20,6 +20,8 @@ const REPORT_TYPES = [
   { code: "TENANT_PORTFOLIO", label: "Portföy Özeti" },
   { code: "DOCUMENT_ACTIVITY", label: "Belge ve Fatura Aktivitesi" },
   { code: "AUDIT_PREPARATION", label: "Denetim Hazırlık Raporu" },
+  { code: "DIMENSION_PROFITABILITY", label: "Boyut Bazında Kârlılık" },
+  { code: "BUDGET_VARIANCE", label: "Bütçe / Fiili Karşılaştırma" },
 ] as const;
 
 export default function OnDemandReportsPage() {
@@ -2,9 +2,11 @@
 
 import { useState } from "react";
 import { useRiskAlerts, useUpdateAlertStatus } from "@/hooks/use-risk";
-import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
 import { risk as riskI18n, common as commonI18n } from "@repo/i18n";
+import { getCurrentUser } from "@repo/api-client";
 import { PageTransition } from "@/components/ui/PageTransition";
+import AlertCasePanel from "@/components/risk/AlertCasePanel";
 import { colors, borderRadius } from "@/styles/design-system";
 import { useTheme } from "@/contexts/ThemeContext";
 import { toast } from "@/lib/toast";
@@ -67,17 +69,32 @@ export default function RiskAlertsPage() {
   const { themeColors } = useTheme();
   const [severityFilter, setSeverityFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
   const [page, setPage] = useState(1);
   const pageSize = 20;
 
   const { data, isLoading } = useRiskAlerts({
     severity: severityFilter !== "all" ? severityFilter : undefined,
     status: statusFilter !== "all" ? (statusFilter as any) : undefined,
+    assignee: assignedToMe ? "me" : undefined,
+    overdue: overdueOnly || undefined,
     page,
     pageSize,
   });
 
+  const { data: userData } = useQuery({
+    queryKey: ["currentUser"],
+    queryFn: () => getCurrentUser(),
+  });
+  const currentTenant = userData?.data?.tenants?.find((t: any) => t.status === "active");
+
   const updateStatusMutation = useUpdateAlertStatus();
+
+  // Closing needs a disposition, so the "Kapat" action opens the case panel
+  const isOverdue = (alert: { dueAt: Date | string | null; status: string }) =>
+    !!alert.dueAt && (alert.status === "open" || alert.status === "in_progress") && new Date(alert.dueAt).getTime() < Date.now();
   const queryClient = useQueryClient();
 
   const alerts = data?.data.data || [];
@@ -208,8 +225,42 @@ export default function RiskAlertsPage() {
             <option value="ignored">Yok Sayıldı</option>
           </select>
         </div>
+
+        <div style={{ display: "flex", flexDirection: "column", justifyContent: "flex-end", gap: "6px", fontSize: "14px" }}>
+          <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+            <input
+              type="checkbox"
+              checked={assignedToMe}
+              onChange={(e) => {
+                setAssignedToMe(e.target.checked);
+                setPage(1);
+              }}
+            />
+            Bana atananlar
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+            <input
+              type="checkbox"
+              checked={overdueOnly}
+              onChange={(e) => {
+                setOverdueOnly(e.target.checked);
+                setPage(1);
+              }}
+            />
+            Süresi geçenler
+          </label>
+        </div>
       </div>
 
+      {selectedAlertId && (
+        <AlertCasePanel
+          alertId={selectedAlertId}
+          tenantId={currentTenant?.id}
+          onClose={() => setSelectedAlertId(null)}
+          onError={(message) => toast.error(message)}
+        />
+      )}
+
       {/* Alerts Table */}
       {isLoading ? (
         <div style={{ padding: "40px", textAlign: "center" }}>
@@ -254,6 +305,9 @@ export default function RiskAlertsPage() {
                   <th style={{ padding: "12px", textAlign: "left", fontSize: "14px", fontWeight: "600" }}>
                     Durum
                   </th>
+                  <th style={{ padding: "12px", textAlign: "left", fontSize: "14px", fontWeight: "600" }}>
+                    Son Tarih
+                  </th>
                   <th style={{ padding: "12px", textAlign: "left", fontSize: "14px", fontWeight: "600" }}>
                     Müşteri
                   </th>
@@ -269,7 +323,14 @@ export default function RiskAlertsPage() {
                 {alerts.map((alert) => (
                   <tr key={alert.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
                     <td style={{ padding: "12px", fontSize: "14px" }}>{TYPE_LABELS[alert.type] || alert.type}</td>
-                    <td style={{ padding: "12px", fontSize: "14px" }}>{alert.title}</td>
+                    <td style={{ padding: "12px", fontSize: "14px" }}>
+                      <button
+                        onClick={() => setSelectedAlertId(alert.id)}
+                        style={{ background: "none", border: "none", padding: 0, cursor: "pointer", color: colors.primary, fontSize: "14px", textAlign: "left" }}
+                      >
+                        {alert.title}
+                      </button>
+                    </td>
                     <td style={{ padding: "12px" }}>
                       <span
                         style={{
@@ -287,6 +348,16 @@ export default function RiskAlertsPage() {
                     <td style={{ padding: "12px", fontSize: "14px" }}>
                       {STATUS_LABELS[alert.status] || alert.status}
                     </td>
+                    <td
+                      style={{
+                        padding: "12px",
+                        fontSize: "14px",
+                        color: isOverdue(alert) ? colors.danger : themeColors.text.muted,
+                        fontWeight: isOverdue(alert) ? 600 : undefined,
+                      }}
+                    >
+                      {alert.dueAt ? new Date(alert.dueAt).toLocaleDateString("tr-TR") : "-"}
+                    </td>
                     <td style={{ padding: "12px", fontSize: "14px" }}>
                       {alert.clientCompanyId ? (
                         <Link
@@ -321,7 +392,7 @@ export default function RiskAlertsPage() {
                               İşleme Al
                             </button>
                             <button
-                              onClick={() => handleStatusUpdate(alert.id, "closed")}
+                              onClick={() => setSelectedAlertId(alert.id)}
                               style={{
                                 padding: "4px 8px",
                                 fontSize: "12px",
@@ -353,7 +424,7 @@ export default function RiskAlertsPage() {
                         {alert.status === "in_progress" && (
                           <>
                             <button
-                              onClick={() => handleStatusUpdate(alert.id, "closed")}
+                              onClick={() => setSelectedAlertId(alert.id)}
                               style={{
                                 padding: "4px 8px",
                                 fontSize: "12px",
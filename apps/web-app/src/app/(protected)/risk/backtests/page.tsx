@@ -0,0 +1,498 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { riskBacktestClient, riskRuleClient, listClientCompanies, RISK_BACKTEST_STATUS_LABELS } from "@repo/api-client";
+import type {
+  BacktestOutcome,
+  BacktestRuleDiff,
+  BacktestRuleSetSummary,
+  ProposedRuleChange,
+  RiskBacktest,
+  RiskBacktestStatus,
+  RiskRuleScope,
+  RiskRuleView,
+} from "@repo/api-client";
+import { Card } from "../../../../components/ui/Card";
+import { Button } from "../../../../components/ui/Button";
+import { Skeleton } from "../../../../components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography } from "../../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const SCOPE_LABELS: Record<RiskRuleScope, string> = {
+  document: "Belgeler",
+  company: "Müşteriler",
+};
+
+const STATUS_COLORS: Record<RiskBacktestStatus, string> = {
+  pending: colors.gray[500],
+  running: colors.info,
+  completed: colors.success,
+  failed: colors.danger,
+};
+
+const OUTCOME_LABELS: Record<BacktestOutcome, string> = {
+  confirmed: "Doğrulandı",
+  false_positive: "Yanlış alarm",
+  open: "Açık vaka",
+  none: "Vaka yok",
+};
+
+const CHANGE_LABELS: Record<BacktestRuleDiff["change"], string> = {
+  added: "Eklendi",
+  modified: "Değişti",
+  removed: "Kaldırıldı",
+  unchanged: "—",
+};
+
+interface RuleChangeForm {
+  weight: string;
+  threshold: string;
+  disabled: boolean;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("tr-TR");
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? "—" : `%${(value * 100).toFixed(1)}`;
+}
+
+// Eşik yalnızca "alan > sayı" biçimindeki yerleşik kurallarda anlamlı
+function thresholdOf(rule: RiskRuleView): number | null {
+  const condition = rule.condition as { op?: string; value?: unknown } | null;
+  if (!rule.isBuiltIn || !condition || !("op" in condition) || typeof condition.value !== "number") return null;
+  return condition.value;
+}
+
+export default function RiskBacktestsPage() {
+  const { themeColors } = useTheme();
+  const queryClient = useQueryClient();
+  const today = new Date();
+  const [scope, setScope] = useState<RiskRuleScope>("document");
+  const [windowStart, setWindowStart] = useState(isoDate(new Date(today.getFullYear(), today.getMonth() - 3, 1)));
+  const [windowEnd, setWindowEnd] = useState(isoDate(today));
+  const [clientCompanyId, setClientCompanyId] = useState("");
+  const [changes, setChanges] = useState<Record<string, RuleChangeForm>>({});
+  const [extraJson, setExtraJson] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const { data: rulesData, isLoading: rulesLoading } = useQuery({
+    queryKey: ["risk-rules"],
+    queryFn: () => riskRuleClient.listRules(),
+  });
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+  });
+
+  const { data: backtestsData, isLoading: backtestsLoading } = useQuery({
+    queryKey: ["risk-backtests"],
+    queryFn: () => riskBacktestClient.listBacktests(),
+    // Sırada veya çalışan test varsa ilerlemeyi takip et
+    refetchInterval: (query) =>
+      query.state.data?.data?.some((b) => b.status === "pending" || b.status === "running") ? 5000 : false,
+  });
+
+  const rules = (rulesData?.data ?? []).filter((rule) => rule.scope === scope && rule.isActive);
+  const clients = clientsData?.data?.data ?? [];
+  const backtests = backtestsData?.data ?? [];
+  const selected = backtests.find((b) => b.id === selectedId) ?? null;
+
+  const updateChange = (code: string, patch: Partial<RuleChangeForm>) => {
+    const current = changes[code] ?? { weight: "", threshold: "", disabled: false };
+    setChanges({ ...changes, [code]: { ...current, ...patch } });
+  };
+
+  const buildProposedRules = (): ProposedRuleChange[] => {
+    const proposed: ProposedRuleChange[] = [];
+    for (const rule of rules) {
+      const change = changes[rule.code];
+      if (!change) continue;
+      if (change.disabled) {
+        proposed.push({ code: rule.code, isActive: false });
+        continue;
+      }
+      const entry: ProposedRuleChange = { code: rule.code };
+      if (change.weight !== "") entry.weight = Number(change.weight.replace(",", "."));
+      if (change.threshold !== "") entry.config = { threshold: Number(change.threshold.replace(",", ".")) };
+      if (entry.weight !== undefined || entry.config) proposed.push(entry);
+    }
+    if (extraJson.trim()) {
+      const extra = JSON.parse(extraJson);
+      proposed.push(...(Array.isArray(extra) ? extra : [extra]));
+    }
+    return proposed;
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      let proposedRules: ProposedRuleChange[];
+      try {
+        proposedRules = buildProposedRules();
+      } catch {
+        throw new Error("Ek kurallar geçerli bir JSON değil");
+      }
+      return riskBacktestClient.createBacktest({
+        scope,
+        clientCompanyId: clientCompanyId || null,
+        windowStart: new Date(windowStart).toISOString(),
+        windowEnd: new Date(`${windowEnd}T23:59:59`).toISOString(),
+        proposedRules,
+      });
+    },
+    onSuccess: (result) => {
+      showToast("Test sıraya alındı; sonuç hazır olduğunda bildirim alacaksınız");
+      setSelectedId(result.data.id);
+      queryClient.invalidateQueries({ queryKey: ["risk-backtests"] });
+    },
+    onError: (error: Error) => showToast(`Hata: ${error.message}`),
+  });
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const sectionTitleStyle = {
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.semibold,
+    color: themeColors.text.primary,
+    margin: `${spacing.md} 0 ${spacing.sm}`,
+  };
+
+  const renderSummaryRows = (current: BacktestRuleSetSummary, proposed: BacktestRuleSetSummary) => {
+    const rows: Array<[string, string, string]> = [
+      ["Değerlendirilen", String(current.evaluated), String(proposed.evaluated)],
+      ["Uyarı", String(current.alerts), String(proposed.alerts)],
+      ["Düşük / Orta / Yüksek", `${current.severityDistribution.low} / ${current.severityDistribution.medium} / ${current.severityDistribution.high}`, `${proposed.severityDistribution.low} / ${proposed.severityDistribution.medium} / ${proposed.severityDistribution.high}`],
+      ["Ortalama puan", current.averageScore.toFixed(1), proposed.averageScore.toFixed(1)],
+      ["Doğrulanmış vakada uyarı", String(current.truePositives), String(proposed.truePositives)],
+      ["Yanlış alarmda uyarı", String(current.falsePositives), String(proposed.falsePositives)],
+      ["Kapanmamış / vakasız uyarı", String(current.unlabeled), String(proposed.unlabeled)],
+      ["Kesinlik", formatRate(current.precision), formatRate(proposed.precision)],
+      ["Kaçırılan doğrulanmış vaka", String(current.missedConfirmed), String(proposed.missedConfirmed)],
+    ];
+    return rows.map(([label, before, after]) => (
+      <tr key={label} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+        <td style={tdStyle}>{label}</td>
+        <td style={tdStyle}>{before}</td>
+        <td style={{ ...tdStyle, fontWeight: before !== after ? typography.fontWeight.semibold : undefined }}>{after}</td>
+      </tr>
+    ));
+  };
+
+  const renderResult = (backtest: RiskBacktest) => {
+    if (backtest.status === "failed") {
+      return <p style={{ color: colors.danger, fontSize: typography.fontSize.sm }}>Test başarısız: {backtest.errorMessage}</p>;
+    }
+    if (!backtest.result) {
+      return (
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>
+          {backtest.status === "running"
+            ? `Çalışıyor: ${backtest.processedCount} / ${backtest.totalCount}`
+            : "Test sırada bekliyor."}
+        </p>
+      );
+    }
+
+    const result = backtest.result;
+    return (
+      <>
+        <div style={{ display: "flex", gap: spacing.lg, flexWrap: "wrap", fontSize: typography.fontSize.sm, marginBottom: spacing.md }}>
+          <span>Yeni uyarı: <strong style={{ color: colors.danger }}>{result.newAlerts}</strong></span>
+          <span>Kalkan uyarı: <strong style={{ color: colors.success }}>{result.clearedAlerts}</strong></span>
+          <span>Şiddeti değişen: <strong>{result.severityChanges}</strong></span>
+          {result.skipped > 0 && <span>Atlanan: {result.skipped}</span>}
+          {result.truncated && <span style={{ color: colors.warning }}>Aralık çok büyük; ilk 2000 kayıt değerlendirildi</span>}
+        </div>
+
+        <table style={{ width: "100%", borderCollapse: "collapse", maxWidth: "700px" }}>
+          <thead>
+            <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+              <th style={thStyle}>Ölçüt</th>
+              <th style={thStyle}>Mevcut kurallar</th>
+              <th style={thStyle}>Önerilen kurallar</th>
+            </tr>
+          </thead>
+          <tbody>{renderSummaryRows(result.current, result.proposed)}</tbody>
+        </table>
+
+        <h3 style={sectionTitleStyle}>Kurallar</h3>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+              <th style={thStyle}>Kod</th>
+              <th style={thStyle}>Değişiklik</th>
+              <th style={thStyle}>Ağırlık</th>
+              <th style={thStyle}>Tetiklenme (mevcut → önerilen)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.rules.map((rule) => (
+              <tr key={rule.code} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                <td style={{ ...tdStyle, fontFamily: "monospace" }}>{rule.code}</td>
+                <td style={tdStyle}>{CHANGE_LABELS[rule.change]}</td>
+                <td style={tdStyle}>
+                  {rule.currentWeight ?? "—"} → {rule.proposedWeight ?? "—"}
+                </td>
+                <td style={tdStyle}>
+                  {rule.currentHits} → {rule.proposedHits}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3 style={sectionTitleStyle}>Sonucu değişen kayıtlar ({result.changedSubjects.length})</h3>
+        {result.changedSubjects.length === 0 ? (
+          <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>Önerilen kurallar hiçbir kaydın puanını değiştirmiyor.</p>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                <th style={thStyle}>{backtest.scope === "document" ? "Belge" : "Müşteri"}</th>
+                <th style={thStyle}>Tarih</th>
+                <th style={thStyle}>Mevcut</th>
+                <th style={thStyle}>Önerilen</th>
+                <th style={thStyle}>Geçmiş vaka</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.changedSubjects.map((subject) => (
+                <tr key={`${subject.subjectId}-${subject.asOf}`} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                  <td style={tdStyle}>{subject.label}</td>
+                  <td style={tdStyle}>{formatDate(subject.asOf)}</td>
+                  <td style={{ ...tdStyle, color: subject.current.alert ? colors.danger : undefined }}>
+                    {subject.current.score} · {subject.current.triggeredRuleCodes.join(", ") || "—"}
+                  </td>
+                  <td style={{ ...tdStyle, color: subject.proposed.alert ? colors.danger : undefined }}>
+                    {subject.proposed.score} · {subject.proposed.triggeredRuleCodes.join(", ") || "—"}
+                  </td>
+                  <td style={tdStyle}>{OUTCOME_LABELS[subject.pastOutcome]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl }}>
+        <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+          Kural Simülasyonu
+        </h1>
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+          Kural değişikliklerini geçmiş belgeler ve müşteriler üzerinde deneyin; puan ya da uyarı kaydedilmez
+        </p>
+      </div>
+
+      <Card variant="elevated" style={{ marginBottom: spacing.xl }}>
+        <div style={{ padding: spacing.lg }}>
+          <div style={{ display: "flex", gap: spacing.sm, flexWrap: "wrap", alignItems: "center" }}>
+            <select
+              value={scope}
+              onChange={(e) => {
+                setScope(e.target.value as RiskRuleScope);
+                setChanges({});
+              }}
+              style={inputStyle}
+            >
+              {(Object.keys(SCOPE_LABELS) as RiskRuleScope[]).map((key) => (
+                <option key={key} value={key}>{SCOPE_LABELS[key]}</option>
+              ))}
+            </select>
+            <label style={{ display: "flex", alignItems: "center", gap: spacing.xs, fontSize: typography.fontSize.sm }}>
+              Başlangıç
+              <input type="date" value={windowStart} onChange={(e) => setWindowStart(e.target.value)} style={inputStyle} />
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: spacing.xs, fontSize: typography.fontSize.sm }}>
+              Bitiş
+              <input type="date" value={windowEnd} onChange={(e) => setWindowEnd(e.target.value)} style={inputStyle} />
+            </label>
+            <select value={clientCompanyId} onChange={(e) => setClientCompanyId(e.target.value)} style={inputStyle}>
+              <option value="">Tüm müşteriler</option>
+              {clients.map((client: any) => (
+                <option key={client.id} value={client.id}>{client.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <h3 style={sectionTitleStyle}>Önerilen değişiklikler</h3>
+          {rulesLoading ? (
+            <Skeleton height="160px" />
+          ) : (
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                  <th style={thStyle}>Kod</th>
+                  <th style={thStyle}>Açıklama</th>
+                  <th style={thStyle}>Ağırlık</th>
+                  <th style={thStyle}>Yeni ağırlık</th>
+                  <th style={thStyle}>Eşik</th>
+                  <th style={thStyle}>Devre dışı</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => {
+                  const change = changes[rule.code];
+                  const threshold = thresholdOf(rule);
+                  return (
+                    <tr key={rule.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                      <td style={{ ...tdStyle, fontFamily: "monospace" }}>{rule.code}</td>
+                      <td style={tdStyle}>{rule.description}</td>
+                      <td style={tdStyle}>{rule.weight}</td>
+                      <td style={tdStyle}>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={change?.weight ?? ""}
+                          disabled={change?.disabled}
+                          onChange={(e) => updateChange(rule.code, { weight: e.target.value })}
+                          style={{ ...inputStyle, width: "80px" }}
+                        />
+                      </td>
+                      <td style={tdStyle}>
+                        {threshold === null ? (
+                          "—"
+                        ) : (
+                          <input
+                            type="number"
+                            placeholder={String(threshold)}
+                            value={change?.threshold ?? ""}
+                            disabled={change?.disabled}
+                            onChange={(e) => updateChange(rule.code, { threshold: e.target.value })}
+                            style={{ ...inputStyle, width: "80px" }}
+                          />
+                        )}
+                      </td>
+                      <td style={tdStyle}>
+                        <input
+                          type="checkbox"
+                          checked={change?.disabled ?? false}
+                          onChange={(e) => updateChange(rule.code, { disabled: e.target.checked })}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <h3 style={sectionTitleStyle}>Yeni veya koşulu değişen kurallar (isteğe bağlı, JSON)</h3>
+          <textarea
+            placeholder='[{"code": "OFIS_BUYUK_ALIS", "weight": 30, "condition": {"field": "invoice.totalAmount", "op": "gt", "value": 250000}}]'
+            value={extraJson}
+            onChange={(e) => setExtraJson(e.target.value)}
+            rows={4}
+            style={{ ...inputStyle, width: "100%", fontFamily: "monospace" }}
+          />
+
+          <div style={{ marginTop: spacing.md, display: "flex", justifyContent: "flex-end" }}>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+              Testi Başlat
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card variant="elevated" style={{ marginBottom: spacing.xl }}>
+        <div style={{ padding: spacing.lg }}>
+          <h2 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: `0 0 ${spacing.md}` }}>
+            Testler
+          </h2>
+          {backtestsLoading ? (
+            <Skeleton height="120px" />
+          ) : backtests.length === 0 ? (
+            <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>Henüz test çalıştırılmadı.</p>
+          ) : (
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                  <th style={thStyle}>Oluşturma</th>
+                  <th style={thStyle}>Kapsam</th>
+                  <th style={thStyle}>Aralık</th>
+                  <th style={thStyle}>Değişiklik</th>
+                  <th style={thStyle}>Durum</th>
+                  <th style={thStyle}>Uyarı (mevcut → önerilen)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {backtests.map((backtest) => (
+                  <tr
+                    key={backtest.id}
+                    onClick={() => setSelectedId(backtest.id)}
+                    style={{
+                      borderBottom: `1px solid ${themeColors.border}`,
+                      cursor: "pointer",
+                      backgroundColor: backtest.id === selectedId ? themeColors.gray[50] : undefined,
+                    }}
+                  >
+                    <td style={tdStyle}>{formatDate(backtest.createdAt)}</td>
+                    <td style={tdStyle}>{SCOPE_LABELS[backtest.scope]}</td>
+                    <td style={tdStyle}>
+                      {formatDate(backtest.windowStart)} – {formatDate(backtest.windowEnd)}
+                    </td>
+                    <td style={tdStyle}>{backtest.proposedRules.length}</td>
+                    <td style={{ ...tdStyle, color: STATUS_COLORS[backtest.status], fontWeight: typography.fontWeight.semibold }}>
+                      {RISK_BACKTEST_STATUS_LABELS[backtest.status]}
+                    </td>
+                    <td style={tdStyle}>
+                      {backtest.result ? `${backtest.result.current.alerts} → ${backtest.result.proposed.alerts}` : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </Card>
+
+      {selected && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <h2 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: `0 0 ${spacing.md}` }}>
+              Sonuç — {formatDate(selected.windowStart)} – {formatDate(selected.windowEnd)}
+            </h2>
+            {renderResult(selected)}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
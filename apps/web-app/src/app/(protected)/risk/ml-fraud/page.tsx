@@ -4,6 +4,12 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { listClientCompanies } from "@repo/api-client";
 import { getMLFraudScore, checkMLFraud } from "@repo/api-client";
+import {
+  fraudModelClient,
+  FRAUD_MODEL_ALGORITHM_LABELS,
+  FRAUD_MODEL_STATUS_LABELS,
+  type FraudModel,
+} from "@repo/api-client";
 import { Card } from "../../../../components/ui/Card";
 import { Button } from "../../../../components/ui/Button";
 import { Modal } from "../../../../components/ui/Modal";
@@ -101,6 +107,149 @@ function CircularProgress({ score, size = 160 }: { score: number; size?: number
   );
 }
 
+const MODEL_STATUS_COLORS: Record<FraudModel["status"], string> = {
+  queued: colors.gray[500],
+  training: colors.info,
+  candidate: colors.warning,
+  active: colors.success,
+  retired: colors.gray[400],
+  failed: colors.danger,
+};
+
+function formatMetric(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : value.toFixed(2);
+}
+
+// Model Registry: trained versions, their held-out metrics and the active one
+function ModelRegistryCard() {
+  const { themeColors } = useTheme();
+  const queryClient = useQueryClient();
+
+  const { data: modelsData, isLoading } = useQuery({
+    queryKey: ["fraud-models"],
+    queryFn: () => fraudModelClient.listModels(),
+    // Eğitim sürerken durumu takip et
+    refetchInterval: (query) =>
+      query.state.data?.data?.some((m) => m.status === "queued" || m.status === "training") ? 10000 : false,
+  });
+
+  const models = modelsData?.data ?? [];
+
+  const trainMutation = useMutation({
+    mutationFn: () => fraudModelClient.trainModel(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["fraud-models"] });
+      toast.success("Model eğitimi kuyruğa alındı. Eğitim arka planda yapılacak.");
+    },
+    onError: (error: Error) => {
+      toast.error(`Hata: ${error.message}`);
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: (id: string) => fraudModelClient.activateModel(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["fraud-models"] });
+      queryClient.invalidateQueries({ queryKey: ["ml-fraud-score"] });
+      toast.success("Model etkinleştirildi.");
+    },
+    onError: (error: Error) => {
+      toast.error(`Hata: ${error.message}`);
+    },
+  });
+
+  const cellStyle = {
+    padding: spacing.sm,
+    fontSize: typography.fontSize.sm,
+    color: themeColors.text.primary,
+    textAlign: "left" as const,
+  };
+  const headerStyle = { ...cellStyle, color: themeColors.text.secondary, fontWeight: typography.fontWeight.semibold };
+
+  return (
+    <Card variant="elevated" style={{ marginTop: spacing.xl }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: spacing.md }}>
+        <div>
+          <h2 style={{ fontSize: typography.fontSize.xl, fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, marginBottom: spacing.xs }}>
+            Model Kaydı
+          </h2>
+          <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: 0 }}>
+            Model, kapatılan uyarı vakalarından öğrenir ve her gün yeniden eğitilir. Etiket azsa anomali tespiti (Isolation Forest) kullanılır.
+          </p>
+        </div>
+        <Button variant="primary" size="sm" onClick={() => trainMutation.mutate()} loading={trainMutation.isPending}>
+          Yeni Model Eğit
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton height="120px" />
+      ) : models.length === 0 ? (
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.muted, margin: 0 }}>
+          Henüz eğitilmiş model yok. Model olmadan skorlar istatistiksel kurallarla hesaplanır.
+        </p>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+              <th style={headerStyle}>Sürüm</th>
+              <th style={headerStyle}>Algoritma</th>
+              <th style={headerStyle}>Durum</th>
+              <th style={headerStyle}>AUC</th>
+              <th style={headerStyle}>Kesinlik / Duyarlılık</th>
+              <th style={headerStyle}>Örnek (etiketli)</th>
+              <th style={headerStyle}>Eğitim</th>
+              <th style={headerStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((model) => (
+              <tr key={model.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                <td style={cellStyle}>v{model.version}</td>
+                <td style={cellStyle}>{model.algorithm ? FRAUD_MODEL_ALGORITHM_LABELS[model.algorithm] : "—"}</td>
+                <td style={cellStyle}>
+                  <span
+                    title={model.errorMessage ?? undefined}
+                    style={{
+                      padding: `2px ${spacing.sm}`,
+                      borderRadius: borderRadius.full,
+                      fontSize: typography.fontSize.xs,
+                      backgroundColor: MODEL_STATUS_COLORS[model.status],
+                      color: colors.white,
+                    }}
+                  >
+                    {FRAUD_MODEL_STATUS_LABELS[model.status]}
+                  </span>
+                </td>
+                <td style={cellStyle}>{formatMetric(model.metrics?.auc)}</td>
+                <td style={cellStyle}>
+                  {formatMetric(model.metrics?.precision)} / {formatMetric(model.metrics?.recall)}
+                </td>
+                <td style={cellStyle}>
+                  {model.trainingSampleCount} ({model.labeledSampleCount})
+                </td>
+                <td style={cellStyle}>{model.trainedAt ? new Date(model.trainedAt).toLocaleDateString("tr-TR") : "—"}</td>
+                <td style={cellStyle}>
+                  {(model.status === "candidate" || model.status === "retired") && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => activateMutation.mutate(model.id)}
+                      loading={activateMutation.isPending && activateMutation.variables === model.id}
+                    >
+                      Etkinleştir
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+}
+
 export default function MLFraudPage() {
   const { themeColors } = useTheme();
   const queryClient = useQueryClient();
@@ -449,7 +598,9 @@ export default function MLFraudPage() {
                         margin: 0,
                       }}
                     >
-                      ML algoritması tarafından hesaplanan risk skoru
+                      {fraudScore.modelVersion !== null
+                        ? `Eğitilmiş model v${fraudScore.modelVersion} tarafından hesaplanan risk skoru`
+                        : "ML algoritması tarafından hesaplanan risk skoru"}
                     </p>
                   </div>
                   <Button
@@ -684,6 +835,8 @@ export default function MLFraudPage() {
         </div>
       </div>
 
+      <ModelRegistryCard />
+
       <style jsx global>{`
         @keyframes spin {
           to {
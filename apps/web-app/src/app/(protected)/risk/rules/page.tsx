@@ -0,0 +1,628 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { riskRuleClient, listClientCompanies } from "@repo/api-client";
+import type {
+  ConditionValidationError,
+  RiskRuleScope,
+  RiskRuleSeverity,
+  RiskRuleView,
+  RuleCondition,
+  RuleTestResult,
+  RuleTestSample,
+} from "@repo/api-client";
+import { Card } from "../../../../components/ui/Card";
+import { Button } from "../../../../components/ui/Button";
+import { Skeleton } from "../../../../components/ui/Skeleton";
+import RuleConditionEditor from "../../../../components/risk/RuleConditionEditor";
+import { colors, spacing, borderRadius, typography, transitions } from "../../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const SCOPE_LABELS: Record<RiskRuleScope, string> = {
+  document: "Belge Kuralları",
+  company: "Müşteri Kuralları",
+};
+
+const SEVERITY_LABELS: Record<RiskRuleSeverity, string> = {
+  low: "Düşük",
+  medium: "Orta",
+  high: "Yüksek",
+};
+
+const SEVERITY_COLORS: Record<RiskRuleSeverity, string> = {
+  low: colors.success,
+  medium: colors.warning,
+  high: colors.danger,
+};
+
+interface RuleForm {
+  ruleId: string | null; // null: yeni kiracı kuralı
+  code: string;
+  description: string;
+  weight: string;
+  defaultSeverity: RiskRuleSeverity;
+  effectiveFrom: string;
+  changeNote: string;
+  condition: RuleCondition;
+}
+
+function emptyForm(scope: RiskRuleScope): RuleForm {
+  return {
+    ruleId: null,
+    code: "",
+    description: "",
+    weight: "10",
+    defaultSeverity: "medium",
+    effectiveFrom: "",
+    changeNote: "",
+    condition: { all: [{ field: scope === "document" ? "invoice.totalAmount" : "invoiceCount", op: "gt", value: 0 }] },
+  };
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("tr-TR");
+}
+
+export default function RiskRulesPage() {
+  const { themeColors } = useTheme();
+  const [scope, setScope] = useState<RiskRuleScope>("document");
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [jsonMode, setJsonMode] = useState(false);
+  const [jsonText, setJsonText] = useState("");
+  const [validationErrors, setValidationErrors] = useState<ConditionValidationError[] | null>(null);
+  const [sampleType, setSampleType] = useState<"document" | "company" | "facts">("document");
+  const [sampleValue, setSampleValue] = useState("");
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+  const onError = (error: Error) => showToast(`Hata: ${error.message}`);
+
+  const { data: rulesData, isLoading: rulesLoading } = useQuery({
+    queryKey: ["risk-rules"],
+    queryFn: () => riskRuleClient.listRules(),
+  });
+
+  const { data: languageData } = useQuery({
+    queryKey: ["risk-rule-language"],
+    queryFn: () => riskRuleClient.getLanguage(),
+    staleTime: Infinity,
+  });
+
+  const { data: ruleDetailData } = useQuery({
+    queryKey: ["risk-rule", form?.ruleId],
+    queryFn: () => riskRuleClient.getRule(form!.ruleId!),
+    enabled: !!form?.ruleId,
+  });
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+    enabled: !!form && scope === "company",
+  });
+
+  const rules = (rulesData?.data ?? []).filter((rule) => rule.scope === scope);
+  const language = languageData?.data;
+  const fields = language?.fields[scope] ?? [];
+  const collections = language?.collections[scope] ?? [];
+  const versions = ruleDetailData?.data?.versions ?? [];
+  const clients = clientsData?.data?.data ?? [];
+
+  // JSON modunda metin, görsel modda form durumu esas alınır
+  const currentCondition = (): unknown => {
+    if (!form) return null;
+    if (!jsonMode) return form.condition;
+    try {
+      return JSON.parse(jsonText);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ["risk-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["risk-rule"] });
+  };
+
+  const validateMutation = useMutation({
+    mutationFn: () => riskRuleClient.validateCondition(scope, currentCondition()),
+    onSuccess: (result) => setValidationErrors(result.data.errors),
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => {
+      let sample: RuleTestSample;
+      if (sampleType === "facts") {
+        sample = { facts: JSON.parse(sampleValue || "{}") };
+      } else if (sampleType === "company") {
+        sample = { clientCompanyId: sampleValue };
+      } else {
+        sample = { documentId: sampleValue.trim() };
+      }
+      return riskRuleClient.testCondition(scope, currentCondition(), sample);
+    },
+    onSuccess: (result) => {
+      setTestResult(result.data);
+      setValidationErrors(result.data.errors);
+    },
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const condition = currentCondition();
+      if (!form || condition === undefined) {
+        throw new Error("Koşul geçerli bir JSON değil");
+      }
+      const definition = {
+        description: form.description,
+        weight: Number(form.weight.replace(",", ".")),
+        defaultSeverity: form.defaultSeverity,
+        condition: condition as RuleCondition,
+        effectiveFrom: form.effectiveFrom ? new Date(form.effectiveFrom).toISOString() : undefined,
+        changeNote: form.changeNote || null,
+      };
+      return form.ruleId
+        ? riskRuleClient.publishVersion(form.ruleId, definition)
+        : riskRuleClient.createRule({ ...definition, scope, code: form.code });
+    },
+    onSuccess: () => {
+      showToast(form?.ruleId ? "Yeni kural sürümü yayınlandı" : "Kural oluşturuldu");
+      setForm(null);
+      setTestResult(null);
+      setValidationErrors(null);
+      invalidateRules();
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => riskRuleClient.setActive(id, isActive),
+    onSuccess: invalidateRules,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => riskRuleClient.deleteRule(id),
+    onSuccess: () => {
+      showToast("Kural silindi");
+      setForm(null);
+      invalidateRules();
+    },
+    onError,
+  });
+
+  const openRule = (rule: RiskRuleView) => {
+    const condition = rule.condition ?? emptyForm(scope).condition;
+    setForm({
+      ruleId: rule.id,
+      code: rule.code,
+      description: rule.description,
+      weight: String(rule.weight),
+      defaultSeverity: rule.defaultSeverity,
+      effectiveFrom: "",
+      changeNote: "",
+      condition,
+    });
+    setJsonText(JSON.stringify(condition, null, 2));
+    setValidationErrors(null);
+    setTestResult(null);
+  };
+
+  const openNewRule = () => {
+    const next = emptyForm(scope);
+    setForm(next);
+    setJsonText(JSON.stringify(next.condition, null, 2));
+    setValidationErrors(null);
+    setTestResult(null);
+  };
+
+  const toggleJsonMode = () => {
+    if (!form) return;
+    if (jsonMode) {
+      try {
+        setForm({ ...form, condition: JSON.parse(jsonText) });
+      } catch {
+        showToast("Hata: Koşul geçerli bir JSON değil");
+        return;
+      }
+    } else {
+      setJsonText(JSON.stringify(form.condition, null, 2));
+    }
+    setJsonMode(!jsonMode);
+  };
+
+  const sourceLabel = (rule: RiskRuleView) => {
+    if (rule.isGlobal) return rule.overriddenByTenant ? "Genel (uyarlandı)" : "Genel";
+    return rule.isBuiltIn ? "Genel (ofis sürümü)" : "Ofis";
+  };
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const formGridStyle = {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  };
+  const sectionTitleStyle = {
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.semibold,
+    color: themeColors.text.primary,
+    margin: `${spacing.md} 0 ${spacing.sm}`,
+  };
+
+  const editingRule = form?.ruleId ? rulesData?.data?.find((rule) => rule.id === form.ruleId) : undefined;
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl, display: "flex", justifyContent: "space-between", alignItems: "flex-start" }}>
+        <div>
+          <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+            Risk Kuralları
+          </h1>
+          <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+            Belge ve müşteri risk puanlamasında kullanılan kuralları düzenleyin, örnek veriler üzerinde deneyin ve sürümleyin
+          </p>
+        </div>
+        <Button onClick={openNewRule}>+ Yeni Kural</Button>
+      </div>
+
+      {/* Tabs */}
+      <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.xl, borderBottom: `2px solid ${themeColors.border}`, paddingBottom: spacing.sm }}>
+        {(Object.keys(SCOPE_LABELS) as RiskRuleScope[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => {
+              setScope(key);
+              setForm(null);
+              setTestResult(null);
+              setSampleType(key === "document" ? "document" : "company");
+              setSampleValue("");
+            }}
+            style={{
+              padding: `${spacing.sm} ${spacing.lg}`,
+              backgroundColor: scope === key ? colors.primary : "transparent",
+              color: scope === key ? themeColors.white : themeColors.text.secondary,
+              border: "none",
+              borderRadius: borderRadius.md,
+              fontWeight: typography.fontWeight.semibold,
+              fontSize: typography.fontSize.sm,
+              cursor: "pointer",
+              transition: `all ${transitions.normal}`,
+            }}
+          >
+            {SCOPE_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {form && (
+        <Card variant="elevated" style={{ marginBottom: spacing.xl }}>
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: spacing.md }}>
+              <h2 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>
+                {form.ruleId ? `${form.code} — yeni sürüm` : "Yeni kural"}
+              </h2>
+              <Button variant="outline" size="sm" onClick={() => setForm(null)}>
+                Kapat
+              </Button>
+            </div>
+            {editingRule?.isGlobal && (
+              <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, marginTop: 0 }}>
+                Bu genel bir kuraldır. Kaydettiğinizde yalnızca ofisinize özel bir sürüm oluşturulur.
+              </p>
+            )}
+
+            <div style={formGridStyle}>
+              {!form.ruleId && (
+                <input
+                  placeholder="Kural kodu * (örn. OFIS_BUYUK_ALIS)"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  style={inputStyle}
+                />
+              )}
+              <input
+                placeholder="Açıklama *"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                style={{ ...inputStyle, gridColumn: "span 2" }}
+              />
+              <label style={{ display: "flex", alignItems: "center", gap: spacing.xs, fontSize: typography.fontSize.sm }}>
+                Ağırlık
+                <input type="number" min={0} max={100} value={form.weight} onChange={(e) => setForm({ ...form, weight: e.target.value })} style={{ ...inputStyle, width: "80px" }} />
+              </label>
+              <select value={form.defaultSeverity} onChange={(e) => setForm({ ...form, defaultSeverity: e.target.value as RiskRuleSeverity })} style={inputStyle}>
+                {(Object.keys(SEVERITY_LABELS) as RiskRuleSeverity[]).map((severity) => (
+                  <option key={severity} value={severity}>Şiddet: {SEVERITY_LABELS[severity]}</option>
+                ))}
+              </select>
+              <label style={{ display: "flex", alignItems: "center", gap: spacing.xs, fontSize: typography.fontSize.sm }}>
+                Geçerlilik
+                <input type="date" value={form.effectiveFrom} onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })} style={inputStyle} />
+              </label>
+              <input
+                placeholder="Değişiklik notu"
+                value={form.changeNote}
+                onChange={(e) => setForm({ ...form, changeNote: e.target.value })}
+                style={{ ...inputStyle, gridColumn: "span 2" }}
+              />
+            </div>
+
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <h3 style={sectionTitleStyle}>Koşul</h3>
+              <Button variant="ghost" size="sm" onClick={toggleJsonMode}>
+                {jsonMode ? "Görsel düzenleyici" : "JSON olarak düzenle"}
+              </Button>
+            </div>
+            {jsonMode ? (
+              <textarea
+                value={jsonText}
+                onChange={(e) => setJsonText(e.target.value)}
+                rows={14}
+                style={{ ...inputStyle, width: "100%", fontFamily: "monospace" }}
+              />
+            ) : !language ? (
+              <Skeleton height="120px" />
+            ) : (
+              <RuleConditionEditor
+                condition={form.condition}
+                onChange={(condition) => setForm({ ...form, condition })}
+                fields={fields}
+                rootFields={fields}
+                collections={collections}
+              />
+            )}
+
+            {validationErrors && (
+              <div style={{ marginTop: spacing.sm, fontSize: typography.fontSize.sm }}>
+                {validationErrors.length === 0 ? (
+                  <span style={{ color: colors.success }}>Koşul geçerli</span>
+                ) : (
+                  <ul style={{ color: colors.danger, margin: 0, paddingLeft: spacing.lg }}>
+                    {validationErrors.map((error) => (
+                      <li key={`${error.path}-${error.message}`}>
+                        <code>{error.path}</code>: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <h3 style={sectionTitleStyle}>Örnek üzerinde dene</h3>
+            <div style={{ display: "flex", gap: spacing.sm, alignItems: "flex-start", flexWrap: "wrap" }}>
+              <select
+                value={sampleType}
+                onChange={(e) => {
+                  setSampleType(e.target.value as any);
+                  setSampleValue("");
+                }}
+                style={inputStyle}
+              >
+                {scope === "document" ? <option value="document">Belge</option> : <option value="company">Müşteri</option>}
+                <option value="facts">Örnek veri (JSON)</option>
+              </select>
+              {sampleType === "company" ? (
+                <select value={sampleValue} onChange={(e) => setSampleValue(e.target.value)} style={inputStyle}>
+                  <option value="">Müşteri seçin</option>
+                  {clients.map((client: any) => (
+                    <option key={client.id} value={client.id}>{client.name}</option>
+                  ))}
+                </select>
+              ) : sampleType === "facts" ? (
+                <textarea
+                  placeholder='{"asOf": "2026-10-01", "invoice": {"totalAmount": 150000}}'
+                  value={sampleValue}
+                  onChange={(e) => setSampleValue(e.target.value)}
+                  rows={4}
+                  style={{ ...inputStyle, flex: 1, minWidth: "300px", fontFamily: "monospace" }}
+                />
+              ) : (
+                <input placeholder="Belge ID" value={sampleValue} onChange={(e) => setSampleValue(e.target.value)} style={{ ...inputStyle, minWidth: "300px" }} />
+              )}
+              <Button variant="outline" onClick={() => validateMutation.mutate()} disabled={validateMutation.isPending}>
+                Doğrula
+              </Button>
+              <Button variant="secondary" onClick={() => testMutation.mutate()} disabled={(!sampleValue && sampleType !== "facts") || testMutation.isPending}>
+                Dene
+              </Button>
+            </div>
+
+            {testResult && testResult.valid && (
+              <div style={{ marginTop: spacing.md, padding: spacing.md, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}` }}>
+                <div style={{ fontWeight: typography.fontWeight.semibold, color: testResult.matched ? colors.danger : colors.success, marginBottom: spacing.sm }}>
+                  {testResult.matched ? "Kural tetiklenir" : "Kural tetiklenmez"}
+                </div>
+                {Object.keys(testResult.collectionSizes).length > 0 && (
+                  <p style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary, margin: `0 0 ${spacing.sm}` }}>
+                    {Object.entries(testResult.collectionSizes).map(([name, size]) => `${name}: ${size} kayıt`).join(" · ")}
+                  </p>
+                )}
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Yol", "İfade", "Gerçek değer", "Sonuç"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {testResult.trace.map((entry, index) => (
+                      <tr key={`${entry.path}-${index}`} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{entry.path}</td>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{entry.expression}</td>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{JSON.stringify(entry.actual)}</td>
+                        <td style={{ ...tdStyle, color: entry.matched ? colors.danger : themeColors.text.secondary }}>
+                          {entry.matched ? "✓" : "✗"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {testResult.facts && (
+                  <details style={{ marginTop: spacing.sm }}>
+                    <summary style={{ cursor: "pointer", fontSize: typography.fontSize.sm }}>Kullanılan veriler</summary>
+                    <pre style={{ fontSize: typography.fontSize.xs, overflowX: "auto" }}>{JSON.stringify(testResult.facts, null, 2)}</pre>
+                  </details>
+                )}
+              </div>
+            )}
+
+            <div style={{ display: "flex", gap: spacing.sm, marginTop: spacing.lg }}>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!form.description.trim() || (!form.ruleId && !form.code.trim()) || saveMutation.isPending}
+              >
+                {form.ruleId ? "Sürümü Yayınla" : "Kuralı Oluştur"}
+              </Button>
+              {editingRule && !editingRule.isGlobal && (
+                <Button
+                  variant="danger"
+                  onClick={() => {
+                    if (confirm(`${editingRule.code} kuralı silinsin mi?`)) deleteMutation.mutate(editingRule.id);
+                  }}
+                >
+                  Sil
+                </Button>
+              )}
+            </div>
+
+            {versions.length > 0 && (
+              <>
+                <h3 style={sectionTitleStyle}>Sürüm geçmişi</h3>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Sürüm", "Geçerlilik", "Açıklama", "Ağırlık", "Not"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {versions.map((version) => (
+                      <tr key={version.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                        <td style={tdStyle}>v{version.version}</td>
+                        <td style={tdStyle}>{formatDate(version.effectiveFrom)}</td>
+                        <td style={tdStyle}>{version.description}</td>
+                        <td style={tdStyle}>{version.weight}</td>
+                        <td style={{ ...tdStyle, color: themeColors.text.secondary }}>{version.changeNote ?? "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </Card>
+      )}
+
+      <Card variant="elevated">
+        <div style={{ padding: spacing.lg }}>
+          {rulesLoading ? (
+            <Skeleton height="240px" />
+          ) : rules.length === 0 ? (
+            <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>Kural bulunamadı</p>
+          ) : (
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                    {["Kod", "Açıklama", "Ağırlık", "Şiddet", "Kaynak", "Sürüm", "Yanlış Alarm", "Durum", ""].map((h) => (
+                      <th key={h} style={thStyle}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map((rule) => (
+                    <tr
+                      key={rule.id}
+                      onClick={() => openRule(rule)}
+                      style={{
+                        borderBottom: `1px solid ${themeColors.border}`,
+                        cursor: "pointer",
+                        backgroundColor: form?.ruleId === rule.id ? themeColors.gray[50] : "transparent",
+                        opacity: rule.overriddenByTenant ? 0.6 : 1,
+                      }}
+                    >
+                      <td style={{ ...tdStyle, fontFamily: "monospace" }}>{rule.code}</td>
+                      <td style={tdStyle}>{rule.description}</td>
+                      <td style={tdStyle}>{rule.weight}</td>
+                      <td style={{ ...tdStyle, color: SEVERITY_COLORS[rule.defaultSeverity], fontWeight: typography.fontWeight.semibold }}>
+                        {SEVERITY_LABELS[rule.defaultSeverity]}
+                      </td>
+                      <td style={tdStyle}>{sourceLabel(rule)}</td>
+                      <td style={tdStyle}>
+                        {rule.currentVersion ? `v${rule.currentVersion}` : "-"}
+                        {rule.scheduledVersion && (
+                          <span style={{ color: themeColors.text.secondary }}>
+                            {" "}(v{rule.scheduledVersion.version}: {formatDate(rule.scheduledVersion.effectiveFrom)})
+                          </span>
+                        )}
+                      </td>
+                      <td
+                        style={tdStyle}
+                        title={rule.alertFeedback ? `Son bir yılda ${rule.alertFeedback.alerts} vaka, ${rule.alertFeedback.closed} kapatıldı` : undefined}
+                      >
+                        {rule.alertFeedback?.falsePositiveRate != null ? (
+                          <span style={{ color: rule.alertFeedback.falsePositiveRate >= 0.5 ? colors.danger : themeColors.text.primary }}>
+                            %{Math.round(rule.alertFeedback.falsePositiveRate * 100)}
+                            <span style={{ color: themeColors.text.secondary }}> ({rule.alertFeedback.falsePositives}/{rule.alertFeedback.closed})</span>
+                          </span>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td style={{ ...tdStyle, color: rule.isActive ? colors.success : themeColors.text.muted }}>
+                        {rule.isActive ? "Aktif" : "Pasif"}
+                      </td>
+                      <td style={tdStyle} onClick={(e) => e.stopPropagation()}>
+                        {!rule.isGlobal && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => toggleMutation.mutate({ id: rule.id, isActive: !rule.isActive })}
+                          >
+                            {rule.isActive ? "Pasifleştir" : "Etkinleştir"}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
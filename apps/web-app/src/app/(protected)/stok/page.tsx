@@ -0,0 +1,1045 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { stockClient, eIrsaliyeClient, listClientCompanies } from "@repo/api-client";
+import type { DespatchDirection, DespatchStatus, StockCostMethod, StockFindingType } from "@repo/api-client";
+import { Card } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Skeleton } from "../../../components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography, transitions } from "../../../styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const COST_METHOD_LABELS: Record<StockCostMethod, string> = {
+  fifo: "FIFO (İlk giren ilk çıkar)",
+  average: "Hareketli ağırlıklı ortalama",
+};
+
+const UNIT_LABELS: Record<string, string> = {
+  C62: "Adet",
+  KGM: "Kg",
+  LTR: "Litre",
+  MTR: "Metre",
+  MTK: "m²",
+  MTQ: "m³",
+  BX: "Kutu",
+  PA: "Paket",
+};
+
+const DESPATCH_STATUS_LABELS: Record<DespatchStatus, string> = {
+  draft: "Taslak",
+  issued: "Düzenlendi",
+  received: "Alındı",
+};
+
+const FINDING_LABELS: Record<StockFindingType, string> = {
+  negative_stock: "Eksi stok",
+  despatch_not_invoiced: "Faturalanmamış irsaliye",
+  despatch_quantity_mismatch: "İrsaliye-fatura miktar farkı",
+  count_shortage: "Sayım noksanı",
+};
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString("tr-TR", { maximumFractionDigits: 3 });
+}
+
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function previousPeriod(): string {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return toDateInput(date).slice(0, 7);
+}
+
+const emptyItemForm = {
+  code: "",
+  name: "",
+  unit: "C62",
+  barcode: "",
+  costMethod: "fifo" as StockCostMethod,
+  aliases: "",
+};
+
+const emptyOpeningForm = {
+  itemId: "",
+  date: toDateInput(new Date()),
+  quantity: "",
+  unitCost: "",
+};
+
+const emptyDespatchForm = {
+  invoiceId: "",
+  issueDate: toDateInput(new Date()),
+  deliveryAddress: "",
+  carrierName: "",
+  carrierTaxNumber: "",
+  driverName: "",
+  driverTckn: "",
+  vehiclePlate: "",
+};
+
+export default function StokPage() {
+  const { themeColors } = useTheme();
+  const [activeTab, setActiveTab] = useState<"items" | "valuation" | "counts" | "despatch" | "consistency">("items");
+  const [selectedClientId, setSelectedClientId] = useState<string>("");
+  const [search, setSearch] = useState<string>("");
+  const [asOfDate, setAsOfDate] = useState<string>(() => toDateInput(new Date()));
+  const [period, setPeriod] = useState<string>(previousPeriod);
+  const [showItemForm, setShowItemForm] = useState(false);
+  const [itemForm, setItemForm] = useState(emptyItemForm);
+  const [showOpeningForm, setShowOpeningForm] = useState(false);
+  const [openingForm, setOpeningForm] = useState(emptyOpeningForm);
+  const [showCountForm, setShowCountForm] = useState(false);
+  const [countDate, setCountDate] = useState<string>(() => toDateInput(new Date()));
+  const [countedQuantities, setCountedQuantities] = useState<Record<string, string>>({});
+  const [selectedCountId, setSelectedCountId] = useState<string | null>(null);
+  const [despatchDirection, setDespatchDirection] = useState<DespatchDirection>("outgoing");
+  const [showDespatchForm, setShowDespatchForm] = useState(false);
+  const [despatchForm, setDespatchForm] = useState(emptyDespatchForm);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const { data: clientsData } = useQuery({
+    queryKey: ["client-companies"],
+    queryFn: () => listClientCompanies({ pageSize: 100 }),
+  });
+
+  const { data: itemsData, isLoading: itemsLoading } = useQuery({
+    queryKey: ["stock-items", selectedClientId, search],
+    queryFn: () => stockClient.listItems({ clientCompanyId: selectedClientId, search: search || undefined, pageSize: 100 }),
+    enabled: !!selectedClientId,
+  });
+
+  const { data: valuationData, isLoading: valuationLoading } = useQuery({
+    queryKey: ["stock-valuation", selectedClientId, asOfDate],
+    queryFn: () => stockClient.getValuation(selectedClientId, asOfDate),
+    enabled: !!selectedClientId && !!asOfDate && activeTab === "valuation",
+  });
+
+  const { data: periodData } = useQuery({
+    queryKey: ["stock-period", selectedClientId, period],
+    queryFn: () => stockClient.getPeriodSummary(selectedClientId, period),
+    enabled: !!selectedClientId && /^\d{4}-\d{2}$/.test(period) && activeTab === "valuation",
+  });
+
+  const { data: postingsData } = useQuery({
+    queryKey: ["stock-postings", selectedClientId],
+    queryFn: () => stockClient.listPeriodPostings(selectedClientId),
+    enabled: !!selectedClientId && activeTab === "valuation",
+  });
+
+  const { data: countsData, isLoading: countsLoading } = useQuery({
+    queryKey: ["stock-counts", selectedClientId],
+    queryFn: () => stockClient.listCounts(selectedClientId),
+    enabled: !!selectedClientId && activeTab === "counts",
+  });
+
+  const { data: countDetailData } = useQuery({
+    queryKey: ["stock-count", selectedCountId],
+    queryFn: () => stockClient.getCount(selectedCountId!),
+    enabled: !!selectedCountId && activeTab === "counts",
+  });
+
+  const { data: despatchData, isLoading: despatchLoading } = useQuery({
+    queryKey: ["e-irsaliye", selectedClientId, despatchDirection],
+    queryFn: () => eIrsaliyeClient.list({ clientCompanyId: selectedClientId, direction: despatchDirection, pageSize: 100 }),
+    enabled: !!selectedClientId && activeTab === "despatch",
+  });
+
+  const { data: consistencyData, isLoading: consistencyLoading } = useQuery({
+    queryKey: ["stock-consistency", selectedClientId, asOfDate],
+    queryFn: () => stockClient.checkConsistency(selectedClientId, asOfDate),
+    enabled: !!selectedClientId && !!asOfDate && activeTab === "consistency",
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["stock-items"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-valuation"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-period"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-postings"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-counts"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-count"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-consistency"] });
+    queryClient.invalidateQueries({ queryKey: ["e-irsaliye"] });
+  };
+
+  const onError = (error: Error) => showToast(`Hata: ${error.message}`);
+
+  const syncMutation = useMutation({
+    mutationFn: () => stockClient.sync(selectedClientId),
+    onSuccess: (result) => {
+      invalidate();
+      const { invoices, matched, unmatched } = result.data;
+      showToast(`${invoices} fatura işlendi, ${matched} satır stok kartına bağlandı${unmatched ? `, ${unmatched} satır eşleşmedi` : ""}`);
+    },
+    onError,
+  });
+
+  const createItemMutation = useMutation({
+    mutationFn: () =>
+      stockClient.createItem({
+        clientCompanyId: selectedClientId,
+        code: itemForm.code,
+        name: itemForm.name,
+        unit: itemForm.unit,
+        barcode: itemForm.barcode || null,
+        costMethod: itemForm.costMethod,
+        aliases: itemForm.aliases.split(",").map((alias) => alias.trim()).filter(Boolean),
+      }),
+    onSuccess: (result) => {
+      invalidate();
+      setShowItemForm(false);
+      setItemForm(emptyItemForm);
+      showToast(`${result.data.code} stok kartı oluşturuldu`);
+    },
+    onError,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => stockClient.updateItem(id, { isActive }),
+    onSuccess: () => invalidate(),
+    onError,
+  });
+
+  const openingMutation = useMutation({
+    mutationFn: () =>
+      stockClient.createMovement({
+        itemId: openingForm.itemId,
+        type: "opening",
+        date: openingForm.date,
+        quantity: Number(openingForm.quantity),
+        unitCost: Number(openingForm.unitCost),
+      }),
+    onSuccess: () => {
+      invalidate();
+      setShowOpeningForm(false);
+      setOpeningForm(emptyOpeningForm);
+      showToast("Açılış stoku kaydedildi");
+    },
+    onError,
+  });
+
+  const postPeriodMutation = useMutation({
+    mutationFn: () => stockClient.postPeriod(selectedClientId, period),
+    onSuccess: () => {
+      invalidate();
+      showToast(`${period} stok kaydı muhasebeleştirildi`);
+    },
+    onError,
+  });
+
+  const unpostPeriodMutation = useMutation({
+    mutationFn: (target: string) => stockClient.unpostPeriod(selectedClientId, target),
+    onSuccess: () => {
+      invalidate();
+      showToast("Stok dönem kaydı geri alındı");
+    },
+    onError,
+  });
+
+  const createCountMutation = useMutation({
+    mutationFn: () =>
+      stockClient.createCount({
+        clientCompanyId: selectedClientId,
+        countDate,
+        lines: Object.entries(countedQuantities)
+          .filter(([, value]) => value !== "")
+          .map(([itemId, value]) => ({ itemId, countedQuantity: Number(value) })),
+      }),
+    onSuccess: (result) => {
+      invalidate();
+      setShowCountForm(false);
+      setCountedQuantities({});
+      setSelectedCountId(result.data.id);
+      showToast("Sayım kaydedildi");
+    },
+    onError,
+  });
+
+  const applyCountMutation = useMutation({
+    mutationFn: (id: string) => stockClient.applyCount(id),
+    onSuccess: () => {
+      invalidate();
+      showToast("Sayım farkları stoka işlendi");
+    },
+    onError,
+  });
+
+  const deleteCountMutation = useMutation({
+    mutationFn: (id: string) => stockClient.deleteCount(id),
+    onSuccess: () => {
+      invalidate();
+      setSelectedCountId(null);
+      showToast("Sayım silindi");
+    },
+    onError,
+  });
+
+  const createDespatchMutation = useMutation({
+    mutationFn: () =>
+      eIrsaliyeClient.create({
+        clientCompanyId: selectedClientId,
+        invoiceId: despatchForm.invoiceId || null,
+        issueDate: despatchForm.issueDate,
+        deliveryAddress: despatchForm.deliveryAddress || null,
+        carrierName: despatchForm.carrierName || null,
+        carrierTaxNumber: despatchForm.carrierTaxNumber || null,
+        driverName: despatchForm.driverName || null,
+        driverTckn: despatchForm.driverTckn || null,
+        vehiclePlate: despatchForm.vehiclePlate || null,
+      }),
+    onSuccess: (result) => {
+      invalidate();
+      setShowDespatchForm(false);
+      setDespatchForm(emptyDespatchForm);
+      showToast(`${result.data.despatchNumber} taslak olarak oluşturuldu`);
+    },
+    onError,
+  });
+
+  const issueDespatchMutation = useMutation({
+    mutationFn: (id: string) => eIrsaliyeClient.issue(id),
+    onSuccess: (result) => {
+      invalidate();
+      showToast(`${result.data.despatchNumber} düzenlendi`);
+    },
+    onError,
+  });
+
+  const downloadXmlMutation = useMutation({
+    mutationFn: async ({ id, despatchNumber }: { id: string; despatchNumber: string }) => {
+      const blob = await eIrsaliyeClient.downloadXml(id);
+      saveBlob(blob, `${despatchNumber}.xml`);
+    },
+    onError,
+  });
+
+  const deleteDespatchMutation = useMutation({
+    mutationFn: (id: string) => eIrsaliyeClient.delete(id),
+    onSuccess: () => {
+      invalidate();
+      showToast("İrsaliye silindi");
+    },
+    onError,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: (file: File) => eIrsaliyeClient.receive(selectedClientId, file),
+    onSuccess: (result) => {
+      invalidate();
+      const unmatched = result.data.lines.filter((line) => !line.itemId).length;
+      showToast(`${result.data.despatchNumber} alındı${unmatched ? `, ${unmatched} satır stok kartıyla eşleşmedi` : ""}`);
+    },
+    onError,
+  });
+
+  const clients = clientsData?.data?.data || [];
+  const items = itemsData?.data || [];
+  const valuation = valuationData?.data;
+  const periodSummary = periodData?.data;
+  const postings = postingsData?.data || [];
+  const counts = countsData?.data || [];
+  const countDetail = countDetailData?.data;
+  const despatches = despatchData?.data || [];
+  const consistency = consistencyData?.data;
+
+  const thStyle = { textAlign: "left" as const, padding: spacing.sm, fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" as const };
+  const tdStyle = { padding: spacing.sm, fontSize: typography.fontSize.sm };
+  const numStyle = { ...tdStyle, textAlign: "right" as const, fontFamily: "monospace" };
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const formGridStyle = {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+    gap: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: borderRadius.md,
+    backgroundColor: themeColors.gray[50],
+  };
+  const emptyText = (text: string) => (
+    <p style={{ color: themeColors.text.muted, textAlign: "center", padding: spacing.xl }}>{text}</p>
+  );
+
+  const metricBox = (label: string, value: string, hint?: string) => (
+    <div style={{ flex: 1, minWidth: "160px", padding: spacing.md, borderRadius: borderRadius.md, border: `1px solid ${themeColors.border}` }}>
+      <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary, textTransform: "uppercase" }}>{label}</div>
+      <div style={{ fontSize: typography.fontSize.xl, fontWeight: typography.fontWeight.bold, marginTop: spacing.xs }}>{value}</div>
+      {hint && <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{hint}</div>}
+    </div>
+  );
+
+  const severityColor = (severity: "low" | "medium" | "high") =>
+    severity === "high" ? colors.danger : severity === "medium" ? colors.warning : themeColors.text.secondary;
+
+  return (
+    <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div style={{
+          position: "fixed", top: spacing.lg, right: spacing.lg, zIndex: 9999,
+          padding: `${spacing.md} ${spacing.xl}`, borderRadius: borderRadius.lg,
+          backgroundColor: toastMessage.startsWith("Hata") ? colors.danger : colors.success,
+          color: themeColors.white, fontSize: typography.fontSize.sm, fontWeight: typography.fontWeight.semibold,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        }}>
+          {toastMessage}
+        </div>
+      )}
+
+      <div style={{ marginBottom: spacing.xl }}>
+        <h1 style={{ fontSize: typography.fontSize["2xl"], fontWeight: typography.fontWeight.bold, color: themeColors.text.primary, margin: 0 }}>
+          Stok
+        </h1>
+        <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>
+          Stok kartları, FIFO / ortalama maliyet, dönem sonu SMM kaydı, sayım ve e-İrsaliye
+        </p>
+      </div>
+
+      <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+        <select value={selectedClientId} onChange={(e) => setSelectedClientId(e.target.value)} style={{ ...inputStyle, minWidth: "240px" }}>
+          <option value="">Müşteri seçiniz</option>
+          {clients.map((c: any) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <label style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>
+          Tarih{" "}
+          <input type="date" value={asOfDate} onChange={(e) => setAsOfDate(e.target.value)} style={inputStyle} />
+        </label>
+      </div>
+
+      {/* Tabs */}
+      <div style={{ display: "flex", gap: spacing.sm, marginBottom: spacing.xl, borderBottom: `2px solid ${themeColors.border}`, paddingBottom: spacing.sm }}>
+        {[
+          { key: "items", label: "Stok Kartları" },
+          { key: "valuation", label: "Değerleme / Dönem Sonu" },
+          { key: "counts", label: "Sayım" },
+          { key: "despatch", label: "e-İrsaliye" },
+          { key: "consistency", label: "Tutarlılık" },
+        ].map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setActiveTab(tab.key as any)}
+            style={{
+              padding: `${spacing.sm} ${spacing.lg}`,
+              backgroundColor: activeTab === tab.key ? colors.primary : "transparent",
+              color: activeTab === tab.key ? themeColors.white : themeColors.text.secondary,
+              border: "none",
+              borderRadius: borderRadius.md,
+              fontWeight: typography.fontWeight.semibold,
+              fontSize: typography.fontSize.sm,
+              cursor: "pointer",
+              transition: `all ${transitions.normal}`,
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Stok kartları */}
+      {activeTab === "items" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              <input
+                placeholder="Kod, ad veya barkod ara"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                style={{ ...inputStyle, minWidth: "280px" }}
+              />
+              <div style={{ flex: 1 }} />
+              <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={!selectedClientId || syncMutation.isPending}>
+                {syncMutation.isPending ? "İşleniyor..." : "Faturalardan Hareket Oluştur"}
+              </Button>
+              <Button variant="outline" onClick={() => setShowOpeningForm(!showOpeningForm)} disabled={!selectedClientId || items.length === 0}>
+                Açılış Stoku
+              </Button>
+              <Button onClick={() => setShowItemForm(!showItemForm)} disabled={!selectedClientId}>
+                Yeni Stok Kartı
+              </Button>
+            </div>
+
+            {showItemForm && (
+              <div style={formGridStyle}>
+                <input placeholder="Stok kodu *" value={itemForm.code} onChange={(e) => setItemForm({ ...itemForm, code: e.target.value })} style={inputStyle} />
+                <input placeholder="Stok adı *" value={itemForm.name} onChange={(e) => setItemForm({ ...itemForm, name: e.target.value })} style={inputStyle} />
+                <select value={itemForm.unit} onChange={(e) => setItemForm({ ...itemForm, unit: e.target.value })} style={inputStyle}>
+                  {Object.entries(UNIT_LABELS).map(([code, label]) => (
+                    <option key={code} value={code}>{label}</option>
+                  ))}
+                </select>
+                <input placeholder="Barkod" value={itemForm.barcode} onChange={(e) => setItemForm({ ...itemForm, barcode: e.target.value })} style={inputStyle} />
+                <select value={itemForm.costMethod} onChange={(e) => setItemForm({ ...itemForm, costMethod: e.target.value as StockCostMethod })} style={inputStyle}>
+                  {Object.entries(COST_METHOD_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <input placeholder="Faturadaki diğer adları (virgülle)" value={itemForm.aliases} onChange={(e) => setItemForm({ ...itemForm, aliases: e.target.value })} style={inputStyle} />
+                <Button onClick={() => createItemMutation.mutate()} disabled={!itemForm.code || !itemForm.name || createItemMutation.isPending}>
+                  {createItemMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                </Button>
+              </div>
+            )}
+
+            {showOpeningForm && (
+              <div style={formGridStyle}>
+                <select value={openingForm.itemId} onChange={(e) => setOpeningForm({ ...openingForm, itemId: e.target.value })} style={inputStyle}>
+                  <option value="">Stok kartı seçiniz</option>
+                  {items.filter((item) => item.isActive).map((item) => (
+                    <option key={item.id} value={item.id}>{item.code} - {item.name}</option>
+                  ))}
+                </select>
+                <input type="date" value={openingForm.date} onChange={(e) => setOpeningForm({ ...openingForm, date: e.target.value })} style={inputStyle} />
+                <input type="number" min={0} step="0.001" placeholder="Miktar" value={openingForm.quantity} onChange={(e) => setOpeningForm({ ...openingForm, quantity: e.target.value })} style={inputStyle} />
+                <input type="number" min={0} step="0.01" placeholder="Birim maliyet (TRY)" value={openingForm.unitCost} onChange={(e) => setOpeningForm({ ...openingForm, unitCost: e.target.value })} style={inputStyle} />
+                <Button
+                  onClick={() => openingMutation.mutate()}
+                  disabled={!openingForm.itemId || !openingForm.quantity || !openingForm.unitCost || openingMutation.isPending}
+                >
+                  {openingMutation.isPending ? "Kaydediliyor..." : "Kaydet"}
+                </Button>
+              </div>
+            )}
+
+            {!selectedClientId ? (
+              emptyText("Stok kartlarını görmek için müşteri seçiniz")
+            ) : itemsLoading ? (
+              <Skeleton height="200px" />
+            ) : items.length === 0 ? (
+              emptyText("Stok kartı bulunamadı")
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["Kod", "Stok", "Birim", "Maliyet Yöntemi", "Hesaplar", "Miktar", "İşlem"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map((item) => (
+                      <tr key={item.id} style={{ borderBottom: `1px solid ${themeColors.border}`, opacity: item.isActive ? 1 : 0.5 }}>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{item.code}</td>
+                        <td style={tdStyle}>
+                          <div style={{ fontWeight: typography.fontWeight.medium }}>{item.name}</div>
+                          {item.barcode && <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{item.barcode}</div>}
+                        </td>
+                        <td style={tdStyle}>{UNIT_LABELS[item.unit] || item.unit}</td>
+                        <td style={tdStyle}>{item.costMethod === "fifo" ? "FIFO" : "Ortalama"}</td>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{item.inventoryAccountCode} / {item.cogsAccountCode}</td>
+                        <td style={{ ...numStyle, color: item.quantity < 0 ? colors.danger : undefined }}>{formatQuantity(item.quantity)}</td>
+                        <td style={tdStyle}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => toggleActiveMutation.mutate({ id: item.id, isActive: !item.isActive })}
+                            disabled={toggleActiveMutation.isPending}
+                          >
+                            {item.isActive ? "Pasife Al" : "Aktifleştir"}
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Değerleme / dönem sonu */}
+      {activeTab === "valuation" && (
+        <div style={{ display: "flex", flexDirection: "column", gap: spacing.lg }}>
+          <Card variant="elevated">
+            <div style={{ padding: spacing.lg }}>
+              <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+                <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>Dönem Sonu Stok Kaydı</h3>
+                <div style={{ flex: 1 }} />
+                <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} style={inputStyle} />
+                {periodSummary && !periodSummary.posting && (
+                  <Button onClick={() => postPeriodMutation.mutate()} disabled={postPeriodMutation.isPending || periodSummary.entries.length === 0}>
+                    {postPeriodMutation.isPending ? "Kaydediliyor..." : "Muhasebeleştir"}
+                  </Button>
+                )}
+                {periodSummary?.posting && (
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      if (confirm(`${period} stok kaydı geri alınsın mı?`)) unpostPeriodMutation.mutate(period);
+                    }}
+                    disabled={unpostPeriodMutation.isPending}
+                  >
+                    Geri Al
+                  </Button>
+                )}
+              </div>
+
+              {!selectedClientId ? (
+                emptyText("Dönem kaydı için müşteri seçiniz")
+              ) : !periodSummary ? (
+                <Skeleton height="120px" />
+              ) : (
+                <>
+                  <div style={{ display: "flex", gap: spacing.md, marginBottom: spacing.lg, flexWrap: "wrap" }}>
+                    {metricBox("Satılan Malın Maliyeti", `${formatAmount(periodSummary.cogsAmount)} TRY`)}
+                    {metricBox("Sayım Noksanı", `${formatAmount(periodSummary.shortageAmount)} TRY`, "197 hesaba")}
+                    {metricBox("Sayım Fazlası", `${formatAmount(periodSummary.surplusAmount)} TRY`, "397 hesaba")}
+                    {metricBox("Dönem Sonu Stok", `${formatAmount(periodSummary.closingValue)} TRY`)}
+                  </div>
+                  {periodSummary.entries.length === 0 ? (
+                    emptyText("Bu dönemde stok çıkışı yok")
+                  ) : (
+                    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                      <thead>
+                        <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                          <th style={thStyle}>Borç</th>
+                          <th style={thStyle}>Alacak</th>
+                          <th style={thStyle}>Açıklama</th>
+                          <th style={{ ...thStyle, textAlign: "right" }}>Tutar</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {periodSummary.entries.map((entry) => (
+                          <tr key={`${entry.debitAccountCode}-${entry.creditAccountCode}`} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                            <td style={{ ...tdStyle, fontFamily: "monospace" }}>{entry.debitAccountCode}</td>
+                            <td style={{ ...tdStyle, fontFamily: "monospace" }}>{entry.creditAccountCode}</td>
+                            <td style={tdStyle}>{entry.description}</td>
+                            <td style={numStyle}>{formatAmount(entry.amount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {periodSummary.posting && (
+                    <p style={{ fontSize: typography.fontSize.xs, color: colors.success, marginTop: spacing.md }}>
+                      {new Date(periodSummary.posting.postedAt).toLocaleDateString("tr-TR")} tarihinde muhasebeleştirildi. Bu döneme kadar stok hareketi girilemez.
+                    </p>
+                  )}
+                  {postings.length > 0 && (
+                    <p style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted, marginTop: spacing.sm }}>
+                      Kaydedilmiş dönemler: {postings.map((p) => p.period).join(", ")}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </Card>
+
+          <Card variant="elevated">
+            <div style={{ padding: spacing.lg }}>
+              <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: `0 0 ${spacing.lg}` }}>
+                Stok Değerleme ({new Date(asOfDate).toLocaleDateString("tr-TR")})
+              </h3>
+              {!selectedClientId ? (
+                emptyText("Değerleme için müşteri seçiniz")
+              ) : valuationLoading ? (
+                <Skeleton height="200px" />
+              ) : !valuation || valuation.rows.length === 0 ? (
+                emptyText("Stok kartı bulunamadı")
+              ) : (
+                <div style={{ overflowX: "auto" }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                        <th style={thStyle}>Kod</th>
+                        <th style={thStyle}>Stok</th>
+                        <th style={thStyle}>Yöntem</th>
+                        <th style={{ ...thStyle, textAlign: "right" }}>Miktar</th>
+                        <th style={{ ...thStyle, textAlign: "right" }}>Birim Maliyet</th>
+                        <th style={{ ...thStyle, textAlign: "right" }}>Tutar</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {valuation.rows.map((row) => (
+                        <tr key={row.itemId} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                          <td style={{ ...tdStyle, fontFamily: "monospace" }}>{row.code}</td>
+                          <td style={tdStyle}>
+                            {row.name}
+                            {row.shortfall > 0 && (
+                              <div style={{ fontSize: typography.fontSize.xs, color: colors.danger }}>
+                                {formatQuantity(row.shortfall)} {UNIT_LABELS[row.unit] || row.unit} stoksuz çıkış
+                              </div>
+                            )}
+                          </td>
+                          <td style={tdStyle}>{row.costMethod === "fifo" ? "FIFO" : "Ortalama"}</td>
+                          <td style={numStyle}>{formatQuantity(row.quantity)}</td>
+                          <td style={numStyle}>{formatAmount(row.unitCost)}</td>
+                          <td style={numStyle}>{formatAmount(row.value)}</td>
+                        </tr>
+                      ))}
+                      <tr style={{ borderTop: `2px solid ${themeColors.border}`, fontWeight: typography.fontWeight.bold }}>
+                        <td style={tdStyle} colSpan={5}>Toplam</td>
+                        <td style={numStyle}>{formatAmount(valuation.totalValue)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+        </div>
+      )}
+
+      {/* Sayım */}
+      {activeTab === "counts" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: spacing.lg }}>
+              <h3 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>Stok Sayımları</h3>
+              <Button onClick={() => setShowCountForm(!showCountForm)} disabled={!selectedClientId || items.length === 0}>
+                Yeni Sayım
+              </Button>
+            </div>
+
+            {showCountForm && (
+              <div style={{ padding: spacing.md, marginBottom: spacing.lg, borderRadius: borderRadius.md, backgroundColor: themeColors.gray[50] }}>
+                <div style={{ display: "flex", gap: spacing.md, alignItems: "center", marginBottom: spacing.md }}>
+                  <label style={{ fontSize: typography.fontSize.sm }}>
+                    Sayım tarihi{" "}
+                    <input type="date" value={countDate} onChange={(e) => setCountDate(e.target.value)} style={inputStyle} />
+                  </label>
+                  <div style={{ flex: 1 }} />
+                  <Button
+                    onClick={() => createCountMutation.mutate()}
+                    disabled={!Object.values(countedQuantities).some((value) => value !== "") || createCountMutation.isPending}
+                  >
+                    {createCountMutation.isPending ? "Kaydediliyor..." : "Sayımı Kaydet"}
+                  </Button>
+                </div>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      <th style={thStyle}>Kod</th>
+                      <th style={thStyle}>Stok</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>Sayılan Miktar</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.filter((item) => item.isActive).map((item) => (
+                      <tr key={item.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{item.code}</td>
+                        <td style={tdStyle}>{item.name}</td>
+                        <td style={{ ...tdStyle, textAlign: "right" }}>
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.001"
+                            value={countedQuantities[item.id] ?? ""}
+                            onChange={(e) => setCountedQuantities({ ...countedQuantities, [item.id]: e.target.value })}
+                            style={{ ...inputStyle, width: "140px", textAlign: "right" }}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {!selectedClientId ? (
+              emptyText("Sayımları görmek için müşteri seçiniz")
+            ) : countsLoading ? (
+              <Skeleton height="200px" />
+            ) : counts.length === 0 ? (
+              emptyText("Sayım kaydı bulunamadı")
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: spacing.lg }}>
+                <thead>
+                  <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                    {["Tarih", "Depo", "Kalem", "Durum", "İşlem"].map((h) => (
+                      <th key={h} style={thStyle}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {counts.map((count) => (
+                    <tr
+                      key={count.id}
+                      onClick={() => setSelectedCountId(count.id)}
+                      style={{
+                        borderBottom: `1px solid ${themeColors.border}`,
+                        cursor: "pointer",
+                        backgroundColor: selectedCountId === count.id ? themeColors.gray[50] : undefined,
+                      }}
+                    >
+                      <td style={tdStyle}>{new Date(count.countDate).toLocaleDateString("tr-TR")}</td>
+                      <td style={tdStyle}>{count.warehouse?.name || "-"}</td>
+                      <td style={tdStyle}>{count.lineCount}</td>
+                      <td style={{ ...tdStyle, color: count.status === "applied" ? colors.success : colors.warning }}>
+                        {count.status === "applied" ? "İşlendi" : "Taslak"}
+                      </td>
+                      <td style={tdStyle}>
+                        {count.status === "draft" && (
+                          <div style={{ display: "flex", gap: spacing.xs }}>
+                            <Button
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                applyCountMutation.mutate(count.id);
+                              }}
+                              disabled={applyCountMutation.isPending}
+                            >
+                              Farkları İşle
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                if (confirm("Sayım silinsin mi?")) deleteCountMutation.mutate(count.id);
+                              }}
+                              disabled={deleteCountMutation.isPending}
+                            >
+                              Sil
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {countDetail && (
+              <div>
+                <div style={{ display: "flex", gap: spacing.md, marginBottom: spacing.md, flexWrap: "wrap" }}>
+                  {metricBox("Sayım Noksanı", `${formatAmount(countDetail.shortageValue)} TRY`)}
+                  {metricBox("Sayım Fazlası", `${formatAmount(countDetail.surplusValue)} TRY`)}
+                </div>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      <th style={thStyle}>Stok</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>Kayıtlı</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>Sayılan</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>Fark</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>Fark Tutarı</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {countDetail.lines.map((line) => (
+                      <tr key={line.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                        <td style={tdStyle}>{line.item.code} - {line.item.name}</td>
+                        <td style={numStyle}>{formatQuantity(line.bookQuantity)}</td>
+                        <td style={numStyle}>{formatQuantity(line.countedQuantity)}</td>
+                        <td style={{ ...numStyle, color: line.difference < 0 ? colors.danger : line.difference > 0 ? colors.success : undefined }}>
+                          {formatQuantity(line.difference)}
+                        </td>
+                        <td style={numStyle}>{formatAmount(line.differenceValue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* e-İrsaliye */}
+      {activeTab === "despatch" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            <div style={{ display: "flex", gap: spacing.sm, alignItems: "center", marginBottom: spacing.lg, flexWrap: "wrap" }}>
+              {([["outgoing", "Giden"], ["incoming", "Gelen"]] as const).map(([direction, label]) => (
+                <Button key={direction} variant={despatchDirection === direction ? "primary" : "outline"} size="sm" onClick={() => setDespatchDirection(direction)}>
+                  {label}
+                </Button>
+              ))}
+              <div style={{ flex: 1 }} />
+              {despatchDirection === "outgoing" ? (
+                <Button onClick={() => setShowDespatchForm(!showDespatchForm)} disabled={!selectedClientId}>
+                  Yeni İrsaliye
+                </Button>
+              ) : (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".xml"
+                    style={{ display: "none" }}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) receiveMutation.mutate(file);
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button onClick={() => fileInputRef.current?.click()} disabled={!selectedClientId || receiveMutation.isPending}>
+                    {receiveMutation.isPending ? "Yükleniyor..." : "Gelen İrsaliye Yükle (XML)"}
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {showDespatchForm && despatchDirection === "outgoing" && (
+              <div style={formGridStyle}>
+                <input placeholder="Satış faturası ID" value={despatchForm.invoiceId} onChange={(e) => setDespatchForm({ ...despatchForm, invoiceId: e.target.value })} style={inputStyle} />
+                <input type="date" value={despatchForm.issueDate} onChange={(e) => setDespatchForm({ ...despatchForm, issueDate: e.target.value })} style={inputStyle} />
+                <input placeholder="Teslimat adresi" value={despatchForm.deliveryAddress} onChange={(e) => setDespatchForm({ ...despatchForm, deliveryAddress: e.target.value })} style={inputStyle} />
+                <input placeholder="Taşıyıcı firma" value={despatchForm.carrierName} onChange={(e) => setDespatchForm({ ...despatchForm, carrierName: e.target.value })} style={inputStyle} />
+                <input placeholder="Taşıyıcı VKN" value={despatchForm.carrierTaxNumber} onChange={(e) => setDespatchForm({ ...despatchForm, carrierTaxNumber: e.target.value })} style={inputStyle} />
+                <input placeholder="Şoför adı" value={despatchForm.driverName} onChange={(e) => setDespatchForm({ ...despatchForm, driverName: e.target.value })} style={inputStyle} />
+                <input placeholder="Şoför TCKN" value={despatchForm.driverTckn} onChange={(e) => setDespatchForm({ ...despatchForm, driverTckn: e.target.value })} style={inputStyle} />
+                <input placeholder="Araç plakası" value={despatchForm.vehiclePlate} onChange={(e) => setDespatchForm({ ...despatchForm, vehiclePlate: e.target.value })} style={inputStyle} />
+                <Button onClick={() => createDespatchMutation.mutate()} disabled={!despatchForm.invoiceId || createDespatchMutation.isPending}>
+                  {createDespatchMutation.isPending ? "Kaydediliyor..." : "Taslak Oluştur"}
+                </Button>
+              </div>
+            )}
+
+            {!selectedClientId ? (
+              emptyText("İrsaliyeleri görmek için müşteri seçiniz")
+            ) : despatchLoading ? (
+              <Skeleton height="200px" />
+            ) : despatches.length === 0 ? (
+              emptyText("İrsaliye bulunamadı")
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                      {["İrsaliye No", "Tarih", despatchDirection === "outgoing" ? "Alıcı" : "Gönderen", "Kalem", "Fatura", "Durum", "İşlem"].map((h) => (
+                        <th key={h} style={thStyle}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {despatches.map((d) => (
+                      <tr key={d.id} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                        <td style={{ ...tdStyle, fontFamily: "monospace" }}>{d.despatchNumber}</td>
+                        <td style={tdStyle}>{new Date(d.issueDate).toLocaleDateString("tr-TR")}</td>
+                        <td style={tdStyle}>
+                          <div style={{ fontWeight: typography.fontWeight.medium }}>{d.counterpartyName}</div>
+                          <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{d.counterpartyTaxNumber}</div>
+                        </td>
+                        <td style={tdStyle}>{d.lineCount}</td>
+                        <td style={{ ...tdStyle, color: d.invoice ? undefined : colors.warning }}>
+                          {d.invoice ? d.invoice.externalId || "Bağlı" : "Faturalanmadı"}
+                        </td>
+                        <td style={tdStyle}>{DESPATCH_STATUS_LABELS[d.status] || d.status}</td>
+                        <td style={tdStyle}>
+                          <div style={{ display: "flex", gap: spacing.xs }}>
+                            {d.status === "draft" && (
+                              <Button size="sm" onClick={() => issueDespatchMutation.mutate(d.id)} disabled={issueDespatchMutation.isPending}>
+                                Düzenle
+                              </Button>
+                            )}
+                            {d.status !== "draft" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => downloadXmlMutation.mutate({ id: d.id, despatchNumber: d.despatchNumber })}
+                                disabled={downloadXmlMutation.isPending}
+                              >
+                                XML
+                              </Button>
+                            )}
+                            {d.status !== "issued" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  if (confirm("İrsaliye silinsin mi?")) deleteDespatchMutation.mutate(d.id);
+                                }}
+                                disabled={deleteDespatchMutation.isPending}
+                              >
+                                Sil
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Tutarlılık */}
+      {activeTab === "consistency" && (
+        <Card variant="elevated">
+          <div style={{ padding: spacing.lg }}>
+            {!selectedClientId ? (
+              emptyText("Tutarlılık kontrolü için müşteri seçiniz")
+            ) : consistencyLoading ? (
+              <Skeleton height="200px" />
+            ) : !consistency ? null : (
+              <>
+                {consistency.unmatchedLineCount > 0 && (
+                  <p style={{ fontSize: typography.fontSize.sm, color: colors.warning, marginTop: 0 }}>
+                    {consistency.unmatchedLineCount} fatura satırı hiçbir stok kartıyla eşleşmedi. Stok kartlarına diğer adlarını ekleyebilirsiniz.
+                  </p>
+                )}
+                {consistency.findings.length === 0 ? (
+                  emptyText("Stok, fatura ve irsaliyeler tutarlı görünüyor")
+                ) : (
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                        <th style={thStyle}>Bulgu</th>
+                        <th style={thStyle}>Açıklama</th>
+                        <th style={{ ...thStyle, textAlign: "right" }}>Tutar / Miktar</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {consistency.findings.map((finding, index) => (
+                        <tr key={`${finding.type}-${finding.itemId ?? finding.despatchAdviceId ?? index}`} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                          <td style={{ ...tdStyle, color: severityColor(finding.severity), fontWeight: typography.fontWeight.semibold }}>
+                            {FINDING_LABELS[finding.type] || finding.type}
+                          </td>
+                          <td style={tdStyle}>
+                            <div style={{ fontWeight: typography.fontWeight.medium }}>{finding.title}</div>
+                            <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted }}>{finding.description}</div>
+                          </td>
+                          <td style={numStyle}>{formatAmount(finding.amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { cariMutabakatClient } from "@repo/api-client";
+import { colors, spacing, borderRadius } from "@/styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Balance is kept from the sender's side: positive means the counterparty owes them */
+function describeBalance(balance: number): string {
+  if (Math.abs(balance) < 0.01) return "0,00 TL (bakiye yok)";
+  return `${formatMoney(Math.abs(balance))} TL ${balance > 0 ? "borç" : "alacak"} bakiyesi`;
+}
+
+export default function CariMutabakatResponsePage() {
+  const params = useParams<{ token: string }>();
+  const token = params?.token ?? "";
+  const { themeColors } = useTheme();
+
+  const [decision, setDecision] = useState<"confirm" | "dispute">("confirm");
+  const [responderName, setResponderName] = useState("");
+  const [ownAmount, setOwnAmount] = useState("");
+  const [ownSide, setOwnSide] = useState<"borc" | "alacak">("borc");
+  const [note, setNote] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading, error: loadError } = useQuery({
+    queryKey: ["public-cari-mutabakat", token],
+    queryFn: () => cariMutabakatClient.getPublic(token),
+    enabled: !!token,
+    retry: false,
+  });
+  const request = data?.data;
+
+  const respondMutation = useMutation({
+    mutationFn: () => {
+      const amount = Number(ownAmount.replace(/\./g, "").replace(",", "."));
+      return cariMutabakatClient.respond(token, {
+        decision,
+        responderName,
+        responseBalance: decision === "dispute" ? (ownSide === "borc" ? amount : -amount) : null,
+        note: note || null,
+        file,
+      });
+    },
+    onError: (err: Error) => setError(err.message || "Cevabınız kaydedilemedi."),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const blob = await cariMutabakatClient.downloadPublicStatement(token);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `cari_ekstre_${request?.asOfDate.slice(0, 10) ?? ""}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    },
+  });
+
+  const inputStyle = {
+    width: "100%",
+    padding: `${spacing.sm} 12px`,
+    border: `1px solid ${themeColors.border}`,
+    borderRadius: borderRadius.sm,
+    fontSize: "16px",
+    color: themeColors.text.primary,
+    backgroundColor: themeColors.white,
+  };
+
+  if (isLoading) {
+    return <div style={{ padding: "40px", textAlign: "center" }}>Yükleniyor...</div>;
+  }
+
+  if (!request || loadError) {
+    return (
+      <div style={{ display: "flex", justifyContent: "center", alignItems: "center", minHeight: "100vh", padding: "20px" }}>
+        <div style={{ width: "100%", maxWidth: "480px", textAlign: "center" }}>
+          <h1 style={{ marginBottom: "24px" }}>Geçersiz Bağlantı</h1>
+          <p>Mutabakat bağlantısı geçersiz veya talep gönderen firma tarafından iptal edilmiş.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (request.expired) {
+    return (
+      <div style={{ display: "flex", justifyContent: "center", alignItems: "center", minHeight: "100vh", padding: "20px" }}>
+        <div style={{ width: "100%", maxWidth: "480px", textAlign: "center" }}>
+          <h1 style={{ marginBottom: "24px" }}>Cari Hesap Mutabakatı</h1>
+          <p>
+            {request.status === "pending"
+              ? `Bağlantının süresi dolmuş. Lütfen ${request.clientCompany.name} ile iletişime geçerek yeni bağlantı isteyiniz.`
+              : `Bu mutabakat ${request.respondedAt ? new Date(request.respondedAt).toLocaleDateString("tr-TR") : ""} tarihinde cevaplanmış.`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const answered = request.status !== "pending" || respondMutation.isSuccess;
+  const submitting = respondMutation.isPending;
+  const canSubmit = responderName.trim().length >= 2 && (decision === "confirm" || ownAmount.trim() !== "");
+
+  return (
+    <div style={{ display: "flex", justifyContent: "center", padding: "40px 20px" }}>
+      <div style={{ width: "100%", maxWidth: "760px" }}>
+        <h1 style={{ marginBottom: spacing.xs }}>Cari Hesap Mutabakatı</h1>
+        <p style={{ color: themeColors.text.secondary, marginTop: 0 }}>
+          {request.clientCompany.name} (VKN {request.clientCompany.taxNumber}) → {request.counterpartyName}
+        </p>
+
+        <div style={{ padding: spacing.lg, backgroundColor: themeColors.gray[50], borderRadius: borderRadius.md, margin: `${spacing.lg} 0`, textAlign: "center" }}>
+          <div style={{ fontSize: "14px", color: themeColors.text.secondary }}>
+            {new Date(request.asOfDate).toLocaleDateString("tr-TR")} tarihi itibarıyla firmanızın bakiyesi
+          </div>
+          <div style={{ fontSize: "24px", fontWeight: "600", marginTop: spacing.xs }}>{describeBalance(request.balance)}</div>
+          <button
+            type="button"
+            onClick={() => downloadMutation.mutate()}
+            disabled={downloadMutation.isPending}
+            style={{ marginTop: spacing.sm, background: "none", border: "none", color: colors.primary, cursor: "pointer", fontSize: "14px" }}
+          >
+            Ekstreyi PDF olarak indir
+          </button>
+        </div>
+
+        <div style={{ overflowX: "auto", marginBottom: spacing.lg }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "14px" }}>
+            <thead>
+              <tr style={{ borderBottom: `2px solid ${themeColors.border}` }}>
+                {["Tarih", "Belge No", "Açıklama", "Borç", "Alacak", "Bakiye"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: spacing.sm, color: themeColors.text.secondary }}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {request.lines.map((line, i) => (
+                <tr key={i} style={{ borderBottom: `1px solid ${themeColors.border}` }}>
+                  <td style={{ padding: spacing.sm }}>{new Date(line.date).toLocaleDateString("tr-TR")}</td>
+                  <td style={{ padding: spacing.sm }}>{line.documentNo ?? "-"}</td>
+                  <td style={{ padding: spacing.sm }}>{line.description}</td>
+                  <td style={{ padding: spacing.sm }}>{line.debit ? formatMoney(line.debit) : ""}</td>
+                  <td style={{ padding: spacing.sm }}>{line.credit ? formatMoney(line.credit) : ""}</td>
+                  <td style={{ padding: spacing.sm }}>{formatMoney(line.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {answered ? (
+          <div style={{ padding: "16px", backgroundColor: colors.successLight, color: colors.success, borderRadius: borderRadius.sm }}>
+            {request.status === "pending"
+              ? "Cevabınız kaydedildi. Teşekkür ederiz."
+              : `Bu mutabakat ${request.respondedAt ? new Date(request.respondedAt).toLocaleDateString("tr-TR") : ""} tarihinde cevaplanmış.`}
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setError(null);
+              respondMutation.mutate();
+            }}
+            style={{ display: "flex", flexDirection: "column", gap: spacing.md }}
+          >
+            {error && (
+              <div style={{ padding: "12px", backgroundColor: colors.dangerLight, color: colors.danger, borderRadius: borderRadius.sm }}>
+                {error}
+              </div>
+            )}
+
+            <div style={{ display: "flex", gap: spacing.lg }}>
+              <label style={{ display: "flex", gap: spacing.xs, alignItems: "center", cursor: "pointer" }}>
+                <input type="radio" checked={decision === "confirm"} onChange={() => setDecision("confirm")} />
+                Mutabıkız
+              </label>
+              <label style={{ display: "flex", gap: spacing.xs, alignItems: "center", cursor: "pointer" }}>
+                <input type="radio" checked={decision === "dispute"} onChange={() => setDecision("dispute")} />
+                Mutabık değiliz
+              </label>
+            </div>
+
+            {decision === "dispute" && (
+              <div>
+                <label style={{ display: "block", marginBottom: spacing.xs, fontWeight: "500" }}>Kayıtlarımızdaki bakiye</label>
+                <div style={{ display: "flex", gap: spacing.sm }}>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="0,00"
+                    value={ownAmount}
+                    onChange={(e) => setOwnAmount(e.target.value)}
+                    style={inputStyle}
+                  />
+                  <select value={ownSide} onChange={(e) => setOwnSide(e.target.value as "borc" | "alacak")} style={{ ...inputStyle, width: "auto" }}>
+                    <option value="borc">{request.clientCompany.name} firmasına borçluyuz</option>
+                    <option value="alacak">{request.clientCompany.name} firmasından alacaklıyız</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label style={{ display: "block", marginBottom: spacing.xs, fontWeight: "500" }}>Açıklama</label>
+              <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} style={inputStyle} />
+            </div>
+
+            <div>
+              <label style={{ display: "block", marginBottom: spacing.xs, fontWeight: "500" }}>Ek (ekstreniz veya belge, isteğe bağlı)</label>
+              <input type="file" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+            </div>
+
+            <div>
+              <label style={{ display: "block", marginBottom: spacing.xs, fontWeight: "500" }}>Adınız soyadınız</label>
+              <input type="text" value={responderName} onChange={(e) => setResponderName(e.target.value)} style={inputStyle} />
+            </div>
+
+            <button
+              type="submit"
+              disabled={!canSubmit || submitting}
+              style={{
+                padding: "12px",
+                backgroundColor: colors.primary,
+                color: colors.white,
+                border: "none",
+                borderRadius: borderRadius.sm,
+                fontSize: "16px",
+                fontWeight: "500",
+                cursor: !canSubmit || submitting ? "not-allowed" : "pointer",
+                opacity: !canSubmit || submitting ? 0.6 : 1,
+              }}
+            >
+              {submitting ? "Gönderiliyor..." : "Cevabı Gönder"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
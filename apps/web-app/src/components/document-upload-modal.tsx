@@ -352,7 +352,7 @@ export function DocumentUploadModal({ clientCompanyId: propClientCompanyId, isOp
               <input
                 id="file"
                 type="file"
-                accept=".pdf,.jpg,.jpeg,.png,.xls,.xlsx"
+                accept=".pdf,.jpg,.jpeg,.png,.xls,.xlsx,.xml"
                 onChange={(e) => {
                   const file = e.target.files?.[0];
                   if (file) {
@@ -0,0 +1,87 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { downloadDocument, downloadDocumentPreview } from "@repo/api-client";
+import { Skeleton } from "@/components/ui/Skeleton";
+import { borderRadius, typography } from "@/styles/design-system";
+import { useTheme } from "../../contexts/ThemeContext";
+
+// ==================== Types ====================
+
+type RenderedPreview = { kind: "pdf"; blob: Blob } | { kind: "html"; html: string };
+
+interface EInvoicePreviewProps {
+  documentId: string;
+  height?: number;
+}
+
+// ==================== Rendering ====================
+
+/**
+ * Issuers either embed a PDF or the XSLT görüntüleme şablonu; the latter is
+ * applied to the invoice XML in the browser, the same way GİB's viewer does.
+ */
+async function renderPreview(documentId: string): Promise<RenderedPreview> {
+  const preview = await downloadDocumentPreview(documentId);
+  if (preview.type === "application/pdf") {
+    return { kind: "pdf", blob: preview };
+  }
+
+  const [xsltText, xmlText] = await Promise.all([preview.text(), downloadDocument(documentId).then((blob) => blob.text())]);
+  const parser = new DOMParser();
+  const processor = new XSLTProcessor();
+  processor.importStylesheet(parser.parseFromString(xsltText, "application/xml"));
+  const output = processor.transformToDocument(parser.parseFromString(xmlText, "application/xml"));
+  return { kind: "html", html: new XMLSerializer().serializeToString(output) };
+}
+
+// ==================== E-Invoice Preview Component ====================
+
+export function EInvoicePreview({ documentId, height = 800 }: EInvoicePreviewProps) {
+  const { themeColors } = useTheme();
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["document-preview", documentId],
+    queryFn: () => renderPreview(documentId),
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (data?.kind !== "pdf") {
+      return;
+    }
+    const url = URL.createObjectURL(data.blob);
+    setPdfUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [data]);
+
+  const frameStyle: React.CSSProperties = {
+    width: "100%",
+    height,
+    border: `1px solid ${themeColors.border}`,
+    borderRadius: borderRadius.md,
+    backgroundColor: "#fff",
+  };
+
+  if (isLoading) {
+    return <Skeleton height={`${height}px`} width="100%" variant="rectangular" />;
+  }
+
+  if (error || !data) {
+    return (
+      <p style={{ margin: 0, color: themeColors.text.secondary, fontSize: typography.fontSize.sm }}>
+        {(error as Error | null)?.message || "Önizleme oluşturulamadı."}
+      </p>
+    );
+  }
+
+  if (data.kind === "pdf") {
+    return pdfUrl ? <iframe title="e-Fatura önizleme" src={pdfUrl} style={frameStyle} /> : null;
+  }
+
+  // Templates come from the issuer, so scripts stay disabled
+  return <iframe title="e-Fatura önizleme" srcDoc={data.html} sandbox="" style={frameStyle} />;
+}
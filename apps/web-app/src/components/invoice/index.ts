@@ -1 +1,2 @@
 export { QRCodeDisplay, InlineQRCode, PaymentQRModal } from "./qr-code-display";
+export { EInvoicePreview } from "./e-invoice-preview";
@@ -3,6 +3,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { colors, spacing, borderRadius, typography } from "@/styles/design-system";
 import { useTheme } from "@/contexts/ThemeContext";
+import type { FraudModelScore } from "@repo/api-client";
 
 interface RiskExplanation {
   score: number;
@@ -15,6 +16,7 @@ interface RiskExplanation {
   }>;
   summary: string;
   recommendations: string[];
+  model: FraudModelScore | null;
 }
 
 interface RiskExplanationPanelProps {
@@ -103,6 +105,50 @@ export default function RiskExplanationPanel({ type, id }: RiskExplanationPanelP
         </div>
       </div>
 
+      {explanation.model && (
+        <div style={{ marginBottom: "20px" }}>
+          <h4 style={{ marginBottom: spacing.xs, fontSize: typography.fontSize.base }}>
+            Model Puanı: {explanation.model.score}/100
+          </h4>
+          <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.muted, marginBottom: spacing.md }}>
+            Dolandırıcılık modeli v{explanation.model.modelVersion} · özelliklerin puana katkısı
+          </div>
+          {explanation.model.contributions.length === 0 ? (
+            <div style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary }}>
+              Model bu kayıtta öne çıkan bir özellik bulmadı.
+            </div>
+          ) : (
+            <div style={{ display: "grid", gap: spacing.xs }}>
+              {explanation.model.contributions.map((contribution) => (
+                <div
+                  key={contribution.feature}
+                  style={{ display: "grid", gridTemplateColumns: "1fr 120px 56px", alignItems: "center", gap: spacing.sm }}
+                >
+                  <div style={{ fontSize: typography.fontSize.sm }}>
+                    {contribution.label}
+                    <span style={{ color: themeColors.text.muted, fontSize: typography.fontSize.xs }}> ({contribution.value})</span>
+                  </div>
+                  <div style={{ height: "8px", backgroundColor: themeColors.gray[100], borderRadius: borderRadius.sm }}>
+                    <div
+                      style={{
+                        height: "100%",
+                        width: `${Math.min(100, Math.abs(contribution.contribution) * 2)}%`,
+                        backgroundColor: contribution.contribution > 0 ? colors.danger : colors.success,
+                        borderRadius: borderRadius.sm,
+                      }}
+                    />
+                  </div>
+                  <div style={{ fontSize: typography.fontSize.xs, textAlign: "right" }}>
+                    {contribution.contribution > 0 ? "+" : ""}
+                    {contribution.contribution.toFixed(1)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {explanation.recommendations.length > 0 && (
         <div>
           <h4 style={{ marginBottom: spacing.md, fontSize: typography.fontSize.base }}>Öneriler</h4>
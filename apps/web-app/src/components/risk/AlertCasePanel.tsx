@@ -0,0 +1,446 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { riskAlertClient, listTenantUsers, RISK_ALERT_DISPOSITION_LABELS } from "@repo/api-client";
+import type { RiskAlertCommentView, RiskAlertDisposition, RiskAlertEventView } from "@repo/api-client";
+import { Card } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Skeleton } from "@/components/ui/Skeleton";
+import { colors, spacing, borderRadius, typography } from "@/styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+type ClosingDisposition = Exclude<RiskAlertDisposition, "duplicate">;
+
+const CLOSING_DISPOSITIONS: ClosingDisposition[] = ["false_positive", "corrected", "reported_to_masak", "escalated"];
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Açık",
+  in_progress: "İşlemde",
+  closed: "Kapatıldı",
+  ignored: "Yok Sayıldı",
+};
+
+interface AlertCasePanelProps {
+  alertId: string;
+  tenantId?: string;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("tr-TR", { dateStyle: "short", timeStyle: "short" });
+}
+
+function toLocalInput(value: string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function describeEvent(event: RiskAlertEventView, userName: (id: string | null) => string): string {
+  const data = event.data;
+  switch (event.type) {
+    case "created":
+      return `Uyarı oluşturuldu (${data.severity})`;
+    case "reraised":
+      return `Uyarı yeniden tetiklendi: ${data.previousSeverity} → ${data.severity}`;
+    case "assigned":
+      return data.to ? `${userName(data.to)} kişisine atandı` : "Atama kaldırıldı";
+    case "due_changed":
+      return `Son tarih ${formatDateTime(data.to)} olarak değiştirildi${data.reason ? ` (${data.reason})` : ""}`;
+    case "status_changed":
+      return `Durum: ${STATUS_LABELS[data.from] ?? data.from} → ${STATUS_LABELS[data.to] ?? data.to}`;
+    case "comment_added":
+      return data.parentCommentId ? "Yoruma yanıt yazıldı" : "Yorum eklendi";
+    case "evidence_added":
+      return `Kanıt eklendi: ${data.fileName ?? data.documentId ?? data.transactionId}`;
+    case "disposed":
+      return `Sonuç: ${RISK_ALERT_DISPOSITION_LABELS[data.disposition as RiskAlertDisposition] ?? data.disposition}${data.note ? ` — ${data.note}` : ""}`;
+    case "merged":
+      return `${(data.alertIds ?? []).length} mükerrer uyarı bu vakaya birleştirildi`;
+    case "merged_into":
+      return `Başka bir vakaya birleştirildi (${data.targetAlertId})`;
+    default:
+      return event.type;
+  }
+}
+
+/**
+ * Case view of a risk alert: assignment, SLA, threaded comments, evidence,
+ * disposition, duplicate merging and the immutable history
+ */
+export default function AlertCasePanel({ alertId, tenantId, onClose, onError }: AlertCasePanelProps) {
+  const { themeColors } = useTheme();
+  const queryClient = useQueryClient();
+  const [commentText, setCommentText] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [dueForm, setDueForm] = useState<{ dueAt: string; reason: string } | null>(null);
+  const [closeForm, setCloseForm] = useState({ disposition: "false_positive" as ClosingDisposition, note: "" });
+  const [evidenceForm, setEvidenceForm] = useState({ type: "document" as "document" | "transaction" | "file", id: "", description: "" });
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [mergeIds, setMergeIds] = useState("");
+
+  const { data: caseData, isLoading } = useQuery({
+    queryKey: ["risk-alert-case", alertId],
+    queryFn: () => riskAlertClient.getCase(alertId),
+  });
+
+  const { data: usersData } = useQuery({
+    queryKey: ["tenantUsers", tenantId],
+    queryFn: () => listTenantUsers(tenantId!),
+    enabled: !!tenantId,
+  });
+
+  const alert = caseData?.data;
+  const users = (usersData?.data || []).filter((user) => user.status === "active" && user.role !== "ReadOnly");
+  const userName = (id: string | null) =>
+    (id && (users.find((user) => user.id === id)?.name ?? users.find((user) => user.id === id)?.fullName)) || "kullanıcı";
+  const isOpen = alert ? (alert.status === "open" || alert.status === "in_progress") && !alert.mergedIntoId : false;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["risk-alert-case", alertId] });
+    queryClient.invalidateQueries({ queryKey: ["risk-alerts"] });
+  };
+  const onMutationError = (error: Error) => onError(error.message);
+
+  const assignMutation = useMutation({
+    mutationFn: (assigneeUserId: string | null) => riskAlertClient.assign(alertId, assigneeUserId),
+    onSuccess: refresh,
+    onError: onMutationError,
+  });
+
+  const dueMutation = useMutation({
+    mutationFn: () => riskAlertClient.setDueDate(alertId, new Date(dueForm!.dueAt).toISOString(), dueForm!.reason || null),
+    onSuccess: () => {
+      setDueForm(null);
+      refresh();
+    },
+    onError: onMutationError,
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: () => riskAlertClient.addComment(alertId, commentText, replyTo),
+    onSuccess: () => {
+      setCommentText("");
+      setReplyTo(null);
+      refresh();
+    },
+    onError: onMutationError,
+  });
+
+  const evidenceMutation = useMutation({
+    mutationFn: () => {
+      if (evidenceForm.type === "file") {
+        return riskAlertClient.uploadEvidence(alertId, evidenceFile!, evidenceForm.description || undefined);
+      }
+      return evidenceForm.type === "document"
+        ? riskAlertClient.addEvidence(alertId, { type: "document", documentId: evidenceForm.id.trim(), description: evidenceForm.description || null })
+        : riskAlertClient.addEvidence(alertId, { type: "transaction", transactionId: evidenceForm.id.trim(), description: evidenceForm.description || null });
+    },
+    onSuccess: () => {
+      setEvidenceForm({ ...evidenceForm, id: "", description: "" });
+      setEvidenceFile(null);
+      refresh();
+    },
+    onError: onMutationError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => riskAlertClient.close(alertId, closeForm.disposition, closeForm.note || null),
+    onSuccess: refresh,
+    onError: onMutationError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: () =>
+      riskAlertClient.merge(
+        alertId,
+        mergeIds
+          .split(/[\s,]+/)
+          .map((id) => id.trim())
+          .filter(Boolean)
+      ),
+    onSuccess: () => {
+      setMergeIds("");
+      refresh();
+    },
+    onError: onMutationError,
+  });
+
+  const downloadEvidence = async (evidenceId: string, fileName: string | null) => {
+    try {
+      const blob = await riskAlertClient.downloadEvidence(alertId, evidenceId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName ?? "kanit";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      onError(error.message);
+    }
+  };
+
+  const inputStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const sectionTitleStyle = {
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.semibold,
+    color: themeColors.text.primary,
+    margin: `${spacing.lg} 0 ${spacing.sm}`,
+  };
+  const mutedStyle = { fontSize: typography.fontSize.xs, color: themeColors.text.secondary };
+
+  const renderComments = (parentId: string | null, depth: number): JSX.Element[] =>
+    (alert?.comments ?? [])
+      .filter((comment: RiskAlertCommentView) => comment.parentCommentId === parentId)
+      .map((comment) => (
+        <div key={comment.id} style={{ marginLeft: depth * 20, marginBottom: spacing.sm }}>
+          <div style={{ padding: spacing.sm, borderRadius: borderRadius.md, backgroundColor: themeColors.gray[50] }}>
+            <div style={mutedStyle}>
+              {comment.authorName ?? "Kullanıcı"} · {formatDateTime(comment.createdAt)}
+            </div>
+            <div style={{ fontSize: typography.fontSize.sm, whiteSpace: "pre-wrap" }}>{comment.body}</div>
+            <button
+              onClick={() => setReplyTo(comment.id)}
+              style={{ ...mutedStyle, background: "none", border: "none", padding: 0, cursor: "pointer", color: colors.primary }}
+            >
+              Yanıtla
+            </button>
+          </div>
+          {renderComments(comment.id, depth + 1)}
+        </div>
+      ));
+
+  return (
+    <Card variant="elevated" style={{ marginBottom: "20px" }}>
+      <div style={{ padding: spacing.lg }}>
+        {isLoading || !alert ? (
+          <Skeleton height="240px" />
+        ) : (
+          <>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: spacing.md }}>
+              <div>
+                <h2 style={{ fontSize: typography.fontSize.lg, fontWeight: typography.fontWeight.semibold, margin: 0 }}>{alert.title}</h2>
+                <p style={{ fontSize: typography.fontSize.sm, color: themeColors.text.secondary, margin: `${spacing.xs} 0 0` }}>{alert.message}</p>
+                <div style={{ ...mutedStyle, marginTop: spacing.xs }}>
+                  {STATUS_LABELS[alert.status]}
+                  {alert.clientCompany && ` · ${alert.clientCompany.name}`}
+                  {alert.ruleCodes.length > 0 && ` · Kurallar: ${alert.ruleCodes.join(", ")}`}
+                  {alert.disposition && ` · Sonuç: ${RISK_ALERT_DISPOSITION_LABELS[alert.disposition]}`}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={onClose}>
+                Kapat
+              </Button>
+            </div>
+
+            {alert.mergedIntoId && (
+              <p style={{ fontSize: typography.fontSize.sm, color: colors.warning }}>
+                Bu uyarı {alert.mergedIntoId} numaralı vakaya birleştirildi.
+              </p>
+            )}
+
+            {/* Assignment & SLA */}
+            <div style={{ display: "flex", gap: spacing.md, alignItems: "center", flexWrap: "wrap", marginTop: spacing.md }}>
+              <label style={{ display: "flex", alignItems: "center", gap: spacing.xs, fontSize: typography.fontSize.sm }}>
+                Sorumlu
+                <select
+                  value={alert.assigneeUserId ?? ""}
+                  disabled={!isOpen || assignMutation.isPending}
+                  onChange={(e) => assignMutation.mutate(e.target.value || null)}
+                  style={inputStyle}
+                >
+                  <option value="">Atanmadı</option>
+                  {alert.assigneeUserId && !users.some((user) => user.id === alert.assigneeUserId) && (
+                    <option value={alert.assigneeUserId}>{alert.assigneeName ?? alert.assigneeUserId}</option>
+                  )}
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>{user.name || user.fullName || user.email}</option>
+                  ))}
+                </select>
+              </label>
+              <span style={{ fontSize: typography.fontSize.sm, color: alert.isOverdue ? colors.danger : themeColors.text.primary }}>
+                Son tarih: {alert.dueAt ? formatDateTime(alert.dueAt) : "-"}
+                {alert.isOverdue && " (süresi geçti)"}
+              </span>
+              {isOpen && !dueForm && (
+                <Button variant="ghost" size="sm" onClick={() => setDueForm({ dueAt: toLocalInput(alert.dueAt), reason: "" })}>
+                  Son tarihi değiştir
+                </Button>
+              )}
+              {dueForm && (
+                <>
+                  <input type="datetime-local" value={dueForm.dueAt} onChange={(e) => setDueForm({ ...dueForm, dueAt: e.target.value })} style={inputStyle} />
+                  <input placeholder="Gerekçe" value={dueForm.reason} onChange={(e) => setDueForm({ ...dueForm, reason: e.target.value })} style={inputStyle} />
+                  <Button size="sm" onClick={() => dueMutation.mutate()} disabled={!dueForm.dueAt || dueMutation.isPending}>
+                    Kaydet
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setDueForm(null)}>
+                    Vazgeç
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {/* Disposition */}
+            {isOpen && (
+              <>
+                <h3 style={sectionTitleStyle}>Vakayı sonuçlandır</h3>
+                <div style={{ display: "flex", gap: spacing.sm, flexWrap: "wrap" }}>
+                  <select
+                    value={closeForm.disposition}
+                    onChange={(e) => setCloseForm({ ...closeForm, disposition: e.target.value as ClosingDisposition })}
+                    style={inputStyle}
+                  >
+                    {CLOSING_DISPOSITIONS.map((disposition) => (
+                      <option key={disposition} value={disposition}>{RISK_ALERT_DISPOSITION_LABELS[disposition]}</option>
+                    ))}
+                  </select>
+                  <input
+                    placeholder="Açıklama"
+                    value={closeForm.note}
+                    onChange={(e) => setCloseForm({ ...closeForm, note: e.target.value })}
+                    style={{ ...inputStyle, flex: 1, minWidth: "240px" }}
+                  />
+                  <Button variant="success" onClick={() => closeMutation.mutate()} disabled={closeMutation.isPending}>
+                    Kapat
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {/* Comments */}
+            <h3 style={sectionTitleStyle}>Yorumlar</h3>
+            {alert.comments.length === 0 ? <p style={mutedStyle}>Henüz yorum yok</p> : renderComments(null, 0)}
+            <div style={{ display: "flex", gap: spacing.sm, alignItems: "flex-start" }}>
+              <textarea
+                placeholder={replyTo ? "Yanıtınız" : "Yorum yazın"}
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                rows={2}
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <div style={{ display: "flex", flexDirection: "column", gap: spacing.xs }}>
+                <Button size="sm" onClick={() => commentMutation.mutate()} disabled={!commentText.trim() || commentMutation.isPending}>
+                  {replyTo ? "Yanıtla" : "Gönder"}
+                </Button>
+                {replyTo && (
+                  <Button variant="outline" size="sm" onClick={() => setReplyTo(null)}>
+                    Vazgeç
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Evidence */}
+            <h3 style={sectionTitleStyle}>Kanıtlar</h3>
+            {alert.evidence.length === 0 ? (
+              <p style={mutedStyle}>Henüz kanıt eklenmedi</p>
+            ) : (
+              <ul style={{ margin: `0 0 ${spacing.sm}`, paddingLeft: spacing.lg, fontSize: typography.fontSize.sm }}>
+                {alert.evidence.map((item) => (
+                  <li key={item.id} style={{ marginBottom: spacing.xs }}>
+                    {item.type === "file" ? (
+                      <button
+                        onClick={() => downloadEvidence(item.id, item.fileName)}
+                        style={{ background: "none", border: "none", padding: 0, cursor: "pointer", color: colors.primary, fontSize: typography.fontSize.sm }}
+                      >
+                        {item.fileName}
+                      </button>
+                    ) : item.type === "document" ? (
+                      <a href={`/belgeler/${item.documentId}`} style={{ color: colors.primary }}>Belge {item.documentId}</a>
+                    ) : (
+                      <span>Fiş {item.transactionId}</span>
+                    )}
+                    {item.description && ` — ${item.description}`}
+                    <span style={mutedStyle}> · {item.addedByName ?? "Kullanıcı"}, {formatDateTime(item.createdAt)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {isOpen && (
+              <div style={{ display: "flex", gap: spacing.sm, flexWrap: "wrap" }}>
+                <select
+                  value={evidenceForm.type}
+                  onChange={(e) => setEvidenceForm({ ...evidenceForm, type: e.target.value as any, id: "" })}
+                  style={inputStyle}
+                >
+                  <option value="document">Belge</option>
+                  <option value="transaction">Muhasebe fişi</option>
+                  <option value="file">Ekran görüntüsü / PDF</option>
+                </select>
+                {evidenceForm.type === "file" ? (
+                  <input type="file" accept="image/png,image/jpeg,image/webp,application/pdf" onChange={(e) => setEvidenceFile(e.target.files?.[0] ?? null)} style={inputStyle} />
+                ) : (
+                  <input
+                    placeholder={evidenceForm.type === "document" ? "Belge ID" : "Fiş ID"}
+                    value={evidenceForm.id}
+                    onChange={(e) => setEvidenceForm({ ...evidenceForm, id: e.target.value })}
+                    style={inputStyle}
+                  />
+                )}
+                <input
+                  placeholder="Açıklama"
+                  value={evidenceForm.description}
+                  onChange={(e) => setEvidenceForm({ ...evidenceForm, description: e.target.value })}
+                  style={{ ...inputStyle, flex: 1, minWidth: "200px" }}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => evidenceMutation.mutate()}
+                  disabled={(evidenceForm.type === "file" ? !evidenceFile : !evidenceForm.id.trim()) || evidenceMutation.isPending}
+                >
+                  Ekle
+                </Button>
+              </div>
+            )}
+
+            {/* Merge */}
+            {(isOpen || alert.mergedAlerts.length > 0) && <h3 style={sectionTitleStyle}>Mükerrer uyarılar</h3>}
+            {alert.mergedAlerts.length > 0 && (
+              <ul style={{ margin: `0 0 ${spacing.sm}`, paddingLeft: spacing.lg, fontSize: typography.fontSize.sm }}>
+                {alert.mergedAlerts.map((merged) => (
+                  <li key={merged.id}>
+                    {merged.title} <span style={mutedStyle}>· {formatDateTime(merged.createdAt)} · {merged.id}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {isOpen && (
+              <div style={{ display: "flex", gap: spacing.sm }}>
+                <input
+                  placeholder="Birleştirilecek uyarı ID'leri (virgülle ayırın)"
+                  value={mergeIds}
+                  onChange={(e) => setMergeIds(e.target.value)}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <Button variant="outline" onClick={() => mergeMutation.mutate()} disabled={!mergeIds.trim() || mergeMutation.isPending}>
+                  Birleştir
+                </Button>
+              </div>
+            )}
+
+            {/* History */}
+            <h3 style={sectionTitleStyle}>Vaka geçmişi</h3>
+            <ol style={{ margin: 0, paddingLeft: spacing.lg, fontSize: typography.fontSize.sm }}>
+              {alert.history.map((event) => (
+                <li key={event.id} style={{ marginBottom: spacing.xs }}>
+                  <span style={mutedStyle}>{formatDateTime(event.createdAt)} · {event.actorName ?? "Sistem"}</span>
+                  <div>{describeEvent(event, userName)}</div>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,429 @@
+"use client";
+
+import type {
+  AggregateFunction,
+  ComparisonOperator,
+  RuleCollectionDefinition,
+  RuleCondition,
+  RuleFieldDefinition,
+  RuleValue,
+} from "@repo/api-client";
+import { Button } from "@/components/ui/Button";
+import { colors, spacing, borderRadius, typography } from "@/styles/design-system";
+import { useTheme } from "@/contexts/ThemeContext";
+
+export const OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+  eq: "=",
+  neq: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  in: "şunlardan biri",
+  notIn: "şunlardan hiçbiri",
+  contains: "içerir",
+  exists: "dolu",
+  notExists: "boş",
+};
+
+export const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  count: "Adet",
+  sum: "Toplam",
+  avg: "Ortalama",
+  min: "En küçük",
+  max: "En büyük",
+  ratio: "Oran",
+};
+
+const NUMERIC_OPERATORS: ComparisonOperator[] = ["eq", "neq", "gt", "gte", "lt", "lte"];
+
+interface RuleConditionEditorProps {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  fields: RuleFieldDefinition[]; // fields of the current level
+  rootFields: RuleFieldDefinition[]; // fields a value may reference
+  collections: RuleCollectionDefinition[]; // empty inside an aggregate
+  onRemove?: () => void;
+  depth?: number;
+}
+
+function operatorsFor(type: RuleFieldDefinition["type"] | undefined): ComparisonOperator[] {
+  switch (type) {
+    case "boolean":
+      return ["eq", "neq", "exists", "notExists"];
+    case "number":
+    case "date":
+      return [...NUMERIC_OPERATORS, "exists", "notExists"];
+    case "list":
+      return ["contains", "exists", "notExists"];
+    case "string":
+      return ["eq", "neq", "in", "notIn", "contains", "exists", "notExists"];
+    default:
+      return ["eq", "neq", "gt", "gte", "lt", "lte", "in", "notIn", "contains", "exists", "notExists"];
+  }
+}
+
+function defaultValue(type: RuleFieldDefinition["type"] | undefined, op: ComparisonOperator): RuleValue | undefined {
+  if (op === "exists" || op === "notExists") return undefined;
+  if (op === "in" || op === "notIn") return [];
+  if (type === "boolean") return true;
+  if (type === "number") return 0;
+  return "";
+}
+
+function isRefValue(value: RuleValue | undefined): value is { ref: string } {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Visual editor for a risk rule condition tree: all/any groups, negation,
+ * field comparisons and aggregates over time windows
+ */
+export default function RuleConditionEditor({
+  condition,
+  onChange,
+  fields,
+  rootFields,
+  collections,
+  onRemove,
+  depth = 0,
+}: RuleConditionEditorProps) {
+  const { themeColors } = useTheme();
+
+  const inputStyle = {
+    padding: `${spacing.xs} ${spacing.sm}`,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    fontSize: typography.fontSize.sm,
+    backgroundColor: themeColors.white,
+    color: themeColors.text.primary,
+  };
+  const rowStyle = { display: "flex", gap: spacing.xs, alignItems: "center", flexWrap: "wrap" as const };
+  const boxStyle = {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    border: `1px solid ${themeColors.border}`,
+    backgroundColor: depth % 2 === 0 ? themeColors.gray[50] : themeColors.white,
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: spacing.xs,
+  };
+
+  const firstField = fields[0];
+  const newFieldCondition = (): RuleCondition => ({
+    field: firstField?.path ?? "",
+    op: operatorsFor(firstField?.type)[0],
+    value: defaultValue(firstField?.type, operatorsFor(firstField?.type)[0]),
+  });
+  const newAggregateCondition = (): RuleCondition => ({
+    aggregate: "count",
+    collection: collections[0]?.name ?? "",
+    windowDays: 30,
+    op: "gt",
+    value: 0,
+  });
+
+  const removeButton = onRemove && (
+    <Button variant="outline" size="sm" onClick={onRemove}>
+      Kaldır
+    </Button>
+  );
+
+  const renderValue = (
+    type: RuleFieldDefinition["type"] | undefined,
+    op: ComparisonOperator,
+    value: RuleValue | undefined,
+    setValue: (value: RuleValue | undefined) => void,
+    allowRef: boolean
+  ) => {
+    if (op === "exists" || op === "notExists") return null;
+
+    if (isRefValue(value)) {
+      return (
+        <>
+          <select value={value.ref} onChange={(e) => setValue({ ref: e.target.value })} style={inputStyle}>
+            {rootFields.map((field) => (
+              <option key={field.path} value={field.path}>{field.label}</option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={() => setValue(defaultValue(type, op))}>
+            Sabit değer
+          </Button>
+        </>
+      );
+    }
+
+    let input;
+    if (op === "in" || op === "notIn") {
+      input = (
+        <input
+          placeholder="virgülle ayırın"
+          value={Array.isArray(value) ? value.join(", ") : ""}
+          onChange={(e) =>
+            setValue(
+              e.target.value
+                .split(",")
+                .map((item) => item.trim())
+                .filter(Boolean)
+            )
+          }
+          style={{ ...inputStyle, minWidth: "200px" }}
+        />
+      );
+    } else if (type === "boolean") {
+      input = (
+        <select value={String(value)} onChange={(e) => setValue(e.target.value === "true")} style={inputStyle}>
+          <option value="true">Evet</option>
+          <option value="false">Hayır</option>
+        </select>
+      );
+    } else if (type === "number") {
+      input = (
+        <input
+          type="number"
+          value={typeof value === "number" ? value : ""}
+          onChange={(e) => setValue(e.target.value === "" ? 0 : Number(e.target.value))}
+          style={{ ...inputStyle, width: "120px" }}
+        />
+      );
+    } else if (type === "date") {
+      input = (
+        <input
+          type="date"
+          value={typeof value === "string" ? value.slice(0, 10) : ""}
+          onChange={(e) => setValue(e.target.value)}
+          style={inputStyle}
+        />
+      );
+    } else {
+      input = (
+        <input value={value === null || value === undefined ? "" : String(value)} onChange={(e) => setValue(e.target.value)} style={inputStyle} />
+      );
+    }
+
+    return (
+      <>
+        {input}
+        {allowRef && (
+          <Button variant="outline" size="sm" onClick={() => setValue({ ref: rootFields[0]?.path ?? "" })}>
+            Alanla karşılaştır
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  // ─── Groups ──────────────────────────────────────────────────────
+
+  if ("all" in condition || "any" in condition) {
+    const kind = "all" in condition ? "all" : "any";
+    const children = "all" in condition ? condition.all : condition.any;
+    const setChildren = (next: RuleCondition[]) =>
+      onChange(kind === "all" ? { all: next } : { any: next });
+
+    return (
+      <div style={boxStyle}>
+        <div style={rowStyle}>
+          <select
+            value={kind}
+            onChange={(e) => onChange(e.target.value === "all" ? { all: children } : { any: children })}
+            style={{ ...inputStyle, fontWeight: typography.fontWeight.semibold }}
+          >
+            <option value="all">Tümü sağlanmalı (VE)</option>
+            <option value="any">Biri yeterli (VEYA)</option>
+          </select>
+          {removeButton}
+        </div>
+        {children.map((child, index) => (
+          <RuleConditionEditor
+            key={index}
+            condition={child}
+            onChange={(next) => setChildren(children.map((c, i) => (i === index ? next : c)))}
+            onRemove={children.length > 1 ? () => setChildren(children.filter((_, i) => i !== index)) : undefined}
+            fields={fields}
+            rootFields={rootFields}
+            collections={collections}
+            depth={depth + 1}
+          />
+        ))}
+        <div style={rowStyle}>
+          <Button variant="outline" size="sm" onClick={() => setChildren([...children, newFieldCondition()])}>
+            + Koşul
+          </Button>
+          {collections.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setChildren([...children, newAggregateCondition()])}>
+              + Toplama
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => setChildren([...children, { all: [newFieldCondition()] }])}>
+            + Grup
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // ─── Negation ────────────────────────────────────────────────────
+
+  if ("not" in condition) {
+    return (
+      <div style={boxStyle}>
+        <div style={rowStyle}>
+          <strong style={{ fontSize: typography.fontSize.sm, color: colors.danger }}>DEĞİL</strong>
+          <Button variant="outline" size="sm" onClick={() => onChange(condition.not)}>
+            Olumsuzluğu kaldır
+          </Button>
+          {removeButton}
+        </div>
+        <RuleConditionEditor
+          condition={condition.not}
+          onChange={(next) => onChange({ not: next })}
+          fields={fields}
+          rootFields={rootFields}
+          collections={collections}
+          depth={depth + 1}
+        />
+      </div>
+    );
+  }
+
+  // ─── Aggregates ──────────────────────────────────────────────────
+
+  if ("aggregate" in condition) {
+    const collection = collections.find((c) => c.name === condition.collection) ?? collections[0];
+    const numericFields = (collection?.fields ?? []).filter((field) => field.type === "number");
+    const needsField = ["sum", "avg", "min", "max"].includes(condition.aggregate);
+
+    return (
+      <div style={boxStyle}>
+        <div style={rowStyle}>
+          <select
+            value={condition.aggregate}
+            onChange={(e) => {
+              const aggregate = e.target.value as AggregateFunction;
+              const takesField = ["sum", "avg", "min", "max"].includes(aggregate);
+              onChange({
+                ...condition,
+                aggregate,
+                field: takesField ? condition.field ?? numericFields[0]?.path : undefined,
+                where: aggregate === "ratio" ? condition.where ?? { all: [] } : condition.where,
+              });
+            }}
+            style={inputStyle}
+          >
+            {(Object.keys(AGGREGATE_LABELS) as AggregateFunction[]).map((fn) => (
+              <option key={fn} value={fn}>{AGGREGATE_LABELS[fn]}</option>
+            ))}
+          </select>
+          {needsField && (
+            <select value={condition.field ?? ""} onChange={(e) => onChange({ ...condition, field: e.target.value })} style={inputStyle}>
+              {numericFields.map((field) => (
+                <option key={field.path} value={field.path}>{field.label}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={condition.collection}
+            onChange={(e) => onChange({ ...condition, collection: e.target.value, field: undefined, where: undefined })}
+            style={inputStyle}
+          >
+            {collections.map((c) => (
+              <option key={c.name} value={c.name}>{c.label}</option>
+            ))}
+          </select>
+          <span style={{ fontSize: typography.fontSize.sm }}>son</span>
+          <input
+            type="number"
+            min={1}
+            max={collection?.maxWindowDays}
+            value={condition.windowDays}
+            onChange={(e) => onChange({ ...condition, windowDays: Number(e.target.value) })}
+            style={{ ...inputStyle, width: "80px" }}
+          />
+          <span style={{ fontSize: typography.fontSize.sm }}>gün</span>
+          <select
+            value={condition.op}
+            onChange={(e) => onChange({ ...condition, op: e.target.value as ComparisonOperator })}
+            style={inputStyle}
+          >
+            {NUMERIC_OPERATORS.map((op) => (
+              <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+            ))}
+          </select>
+          {renderValue("number", condition.op, condition.value, (value) => onChange({ ...condition, value: value ?? 0 }), true)}
+          {!condition.where && (
+            <Button variant="outline" size="sm" onClick={() => onChange({ ...condition, where: { all: [] } })}>
+              Filtre ekle
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => onChange({ not: condition })}>
+            DEĞİL
+          </Button>
+          {removeButton}
+        </div>
+        {condition.where && (
+          <div style={{ paddingLeft: spacing.md }}>
+            <div style={{ fontSize: typography.fontSize.xs, color: themeColors.text.secondary, marginBottom: spacing.xs }}>
+              Yalnızca şu kayıtlar:
+            </div>
+            <RuleConditionEditor
+              condition={
+                "all" in condition.where && condition.where.all.length === 0
+                  ? { all: [{ field: collection?.fields[0]?.path ?? "", op: "eq", value: "" }] }
+                  : condition.where
+              }
+              onChange={(where) => onChange({ ...condition, where })}
+              onRemove={condition.aggregate === "ratio" ? undefined : () => onChange({ ...condition, where: undefined })}
+              fields={collection?.fields ?? []}
+              rootFields={rootFields}
+              collections={[]}
+              depth={depth + 1}
+            />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // ─── Field comparisons ───────────────────────────────────────────
+
+  const field = fields.find((f) => f.path === condition.field);
+  const operators = operatorsFor(field?.type);
+
+  return (
+    <div style={{ ...rowStyle, padding: `${spacing.xs} 0` }}>
+      <select
+        value={condition.field}
+        onChange={(e) => {
+          const next = fields.find((f) => f.path === e.target.value);
+          const op = operatorsFor(next?.type).includes(condition.op) ? condition.op : operatorsFor(next?.type)[0];
+          onChange({ field: e.target.value, op, value: defaultValue(next?.type, op) });
+        }}
+        style={{ ...inputStyle, maxWidth: "320px" }}
+      >
+        {!field && <option value={condition.field}>{condition.field}</option>}
+        {fields.map((f) => (
+          <option key={f.path} value={f.path}>{f.label}</option>
+        ))}
+      </select>
+      <select
+        value={condition.op}
+        onChange={(e) => {
+          const op = e.target.value as ComparisonOperator;
+          const reset = ["exists", "notExists", "in", "notIn"].includes(op) || ["exists", "notExists", "in", "notIn"].includes(condition.op);
+          onChange({ ...condition, op, value: reset ? defaultValue(field?.type, op) : condition.value });
+        }}
+        style={inputStyle}
+      >
+        {operators.map((op) => (
+          <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+        ))}
+      </select>
+      {renderValue(field?.type, condition.op, condition.value, (value) => onChange({ ...condition, value }), field?.type !== "boolean")}
+      <Button variant="outline" size="sm" onClick={() => onChange({ not: condition })}>
+        DEĞİL
+      </Button>
+      {removeButton}
+    </div>
+  );
+}
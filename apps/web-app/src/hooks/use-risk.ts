@@ -33,6 +33,8 @@ export function useRiskAlerts(filters?: {
   clientCompanyId?: string;
   severity?: string;
   status?: RiskAlertStatus;
+  assignee?: string;
+  overdue?: boolean;
   dateFrom?: string;
   dateTo?: string;
   page?: number;
@@ -9,6 +9,8 @@ export function getReportTypeLabel(code: string): string {
     TENANT_PORTFOLIO: "Portföy Özeti",
     DOCUMENT_ACTIVITY: "Belge ve Fatura Aktivitesi",
     AUDIT_PREPARATION: "Denetim Hazırlık Raporu",
+    DIMENSION_PROFITABILITY: "Boyut Bazında Kârlılık",
+    BUDGET_VARIANCE: "Bütçe / Fiili Karşılaştırma",
   };
   return labels[code] || code;
 }
@@ -38,7 +40,9 @@ export function requiresClientCompany(code: string): boolean {
   return (
     code === "COMPANY_FINANCIAL_SUMMARY" ||
     code === "COMPANY_RISK_SUMMARY" ||
-    code === "AUDIT_PREPARATION"
+    code === "AUDIT_PREPARATION" ||
+    code === "DIMENSION_PROFITABILITY" ||
+    code === "BUDGET_VARIANCE"
   );
 }
 
@@ -35,6 +35,9 @@ export interface NormalizedBankTransaction {
   amount: number;
   currency: string;
   balanceAfter?: number | null;
+  counterpartyName?: string | null;
+  counterpartyIban?: string | null;
+  counterpartyTaxNumber?: string | null; // VKN/TCKN when the bank provides it
 }
 
 export interface FetchInvoicesOptions {
@@ -1,4 +1,5 @@
 import { prisma } from "../../lib/prisma";
+import { logger } from "@repo/shared-utils";
 import type { NormalizedBankTransaction } from "../connectors/types";
 
 export interface BankTransactionImportSummary {
@@ -14,12 +15,21 @@ export class BankTransactionImporter {
     normalizedTransactions: NormalizedBankTransaction[],
     tenantIntegrationId: string
   ): Promise<BankTransactionImportSummary> {
+    // Period locks live in the backend service, shared with the API write paths
+    const { accountingPeriodService } = await import(
+      "../../../../backend-api/src/services/accounting-period-service"
+    );
+    const { bankReconciliationService } = await import(
+      "../../../../backend-api/src/services/bank-reconciliation-service"
+    );
+
     const summary: BankTransactionImportSummary = {
       created: 0,
       updated: 0,
       skipped: 0,
       errors: [],
     };
+    const importedBankAccountIds = new Set<string>();
 
     for (const normalizedTransaction of normalizedTransactions) {
       try {
@@ -35,6 +45,14 @@ export class BankTransactionImporter {
           bankAccount.iban
         );
 
+        // The reconciliation report compares the statement with this account
+        if (!bankAccount.ledgerAccountCode) {
+          await prisma.clientCompanyBankAccount.update({
+            where: { id: bankAccount.id },
+            data: { ledgerAccountCode: ledgerAccount.code },
+          });
+        }
+
         const existingTransaction = await prisma.transaction.findFirst({
           where: {
             tenantId,
@@ -43,7 +61,21 @@ export class BankTransactionImporter {
           },
         });
 
+        let transactionId: string;
+
         if (existingTransaction) {
+          // Postings in a closed period are never rewritten by a sync
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            existingTransaction.clientCompanyId,
+            existingTransaction.date
+          );
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            bankAccount.clientCompanyId,
+            normalizedTransaction.bookingDate
+          );
+
           await prisma.transaction.update({
             where: { id: existingTransaction.id },
             data: {
@@ -71,17 +103,28 @@ export class BankTransactionImporter {
             });
           }
 
+          transactionId = existingTransaction.id;
           summary.updated++;
         } else {
           const { debitAmount, creditAmount } = this.calculateDebitCredit(normalizedTransaction.amount);
 
-          await prisma.transaction.create({
+          // Transactions dated in a closed period are posted in the next open one
+          const posting = await accountingPeriodService.resolvePostingDate(
+            tenantId,
+            bankAccount.clientCompanyId,
+            normalizedTransaction.bookingDate
+          );
+          const description = posting.redirected
+            ? `${normalizedTransaction.description} (${posting.originalPeriod} kapalı döneminden aktarıldı, işlem tarihi ${normalizedTransaction.bookingDate.toISOString().slice(0, 10)})`
+            : normalizedTransaction.description;
+
+          const transaction = await prisma.transaction.create({
             data: {
               tenantId,
               clientCompanyId: bankAccount.clientCompanyId,
               externalId: normalizedTransaction.externalId,
-              date: normalizedTransaction.bookingDate,
-              description: normalizedTransaction.description,
+              date: posting.date,
+              description,
               source: "integration",
               lines: {
                 create: [
@@ -90,15 +133,24 @@ export class BankTransactionImporter {
                     ledgerAccountId: ledgerAccount.id,
                     debitAmount,
                     creditAmount,
-                    description: normalizedTransaction.description,
+                    description,
                   },
                 ],
               },
             },
           });
 
+          transactionId = transaction.id;
           summary.created++;
         }
+
+        await bankReconciliationService.recordStatementLine(
+          tenantId,
+          bankAccount,
+          normalizedTransaction,
+          transactionId
+        );
+        importedBankAccountIds.add(bankAccount.id);
       } catch (error: any) {
         summary.errors.push({
           externalId: normalizedTransaction.externalId,
@@ -108,13 +160,25 @@ export class BankTransactionImporter {
       }
     }
 
+    // New lines are matched right away; matching problems never fail the import
+    for (const bankAccountId of importedBankAccountIds) {
+      try {
+        await bankReconciliationService.autoMatch(tenantId, bankAccountId);
+      } catch (error: any) {
+        logger.warn("Bank reconciliation auto-match failed after import", { tenantId }, {
+          bankAccountId,
+          error: error.message,
+        });
+      }
+    }
+
     return summary;
   }
 
   private async resolveOrCreateBankAccount(
     tenantId: string,
     accountIdentifier: string
-  ): Promise<{ id: string; clientCompanyId: string; bankName: string; iban: string }> {
+  ): Promise<{ id: string; clientCompanyId: string; bankName: string; iban: string; ledgerAccountCode: string | null }> {
     const existing = await prisma.clientCompanyBankAccount.findFirst({
       where: {
         tenantId,
@@ -128,6 +192,7 @@ export class BankTransactionImporter {
         clientCompanyId: existing.clientCompanyId,
         bankName: existing.bankName,
         iban: existing.iban,
+        ledgerAccountCode: existing.ledgerAccountCode,
       };
     }
 
@@ -166,6 +231,7 @@ export class BankTransactionImporter {
       clientCompanyId: bankAccount.clientCompanyId,
       bankName: bankAccount.bankName,
       iban: bankAccount.iban,
+      ledgerAccountCode: bankAccount.ledgerAccountCode,
     };
   }
 
@@ -174,15 +240,14 @@ export class BankTransactionImporter {
     bankAccountId: string,
     bankName: string,
     iban: string
-  ): Promise<{ id: string }> {
+  ): Promise<{ id: string; code: string }> {
     const accountCode = `102.01.${bankAccountId.substring(0, 3)}`;
 
-    let ledgerAccount = await prisma.ledgerAccount.findUnique({
+    let ledgerAccount = await prisma.ledgerAccount.findFirst({
       where: {
-        tenantId_code: {
-          tenantId,
-          code: accountCode,
-        },
+        tenantId,
+        clientCompanyId: null,
+        code: accountCode,
       },
     });
 
@@ -198,7 +263,7 @@ export class BankTransactionImporter {
       });
     }
 
-    return { id: ledgerAccount.id };
+    return { id: ledgerAccount.id, code: ledgerAccount.code };
   }
 
   private calculateDebitCredit(amount: number): { debitAmount: number; creditAmount: number } {
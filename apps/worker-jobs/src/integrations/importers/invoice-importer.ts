@@ -14,6 +14,11 @@ export class InvoiceImporter {
     normalizedInvoices: NormalizedInvoice[],
     tenantIntegrationId: string
   ): Promise<InvoiceImportSummary> {
+    // Period locks live in the backend service, shared with the API write paths
+    const { accountingPeriodService } = await import(
+      "../../../../backend-api/src/services/accounting-period-service"
+    );
+
     const summary: InvoiceImportSummary = {
       created: 0,
       updated: 0,
@@ -75,7 +80,19 @@ export class InvoiceImporter {
           },
         });
 
+        // Invoices keep their issue date, so closed periods reject them outright
         if (existingInvoice) {
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            existingInvoice.clientCompanyId,
+            existingInvoice.issueDate
+          );
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            clientCompany.id,
+            normalizedInvoice.issueDate
+          );
+
           await prisma.invoice.update({
             where: { id: existingInvoice.id },
             data: {
@@ -113,6 +130,12 @@ export class InvoiceImporter {
 
           summary.updated++;
         } else {
+          await accountingPeriodService.assertDateWritable(
+            tenantId,
+            clientCompany.id,
+            normalizedInvoice.issueDate
+          );
+
           await prisma.invoice.create({
             data: {
               tenantId,
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { scoreWithArtifact, type FraudTrainingSet } from "@repo/core-domain";
+import { trainFraudModel } from "../train-fraud-model";
+import { createRandom, rocAuc, stratifiedSplit } from "../metrics";
+
+const featureNames = ["amountZScore", "isNewCounterparty", "isWeekend"];
+
+// Confirmed findings have a large amount deviation; the other features are noise
+function labeledSet(count: number, seed: number): FraudTrainingSet {
+  const random = createRandom(seed);
+  return {
+    featureSetVersion: 1,
+    featureNames,
+    rows: Array.from({ length: count }, (_, index) => {
+      const label = index % 3 === 0 ? 1 : 0;
+      return {
+        documentId: `doc-${index}`,
+        values: [label === 1 ? 3 + random() * 2 : random() * 2, random() < 0.5 ? 1 : 0, random() < 0.3 ? 1 : 0],
+        label,
+      };
+    }),
+  };
+}
+
+describe("trainFraudModel", () => {
+  it("should train gradient boosting on dispositions and evaluate it on held-out labels", () => {
+    const model = trainFraudModel(labeledSet(120, 7));
+
+    expect(model.algorithm).toBe("gradient_boosting");
+    expect(model.labeledSampleCount).toBe(120);
+    expect(model.trainingSampleCount + model.metrics.evaluatedCount).toBe(120);
+    expect(model.metrics.positiveCount).toBe(10);
+    expect(model.metrics.auc).toBeGreaterThan(0.9);
+    expect(model.featureNames).toEqual(featureNames);
+  });
+
+  it("should fall back to an isolation forest without enough labels", () => {
+    const random = createRandom(3);
+    const rows: FraudTrainingSet["rows"] = Array.from({ length: 80 }, (_, index) => ({
+      documentId: `doc-${index}`,
+      values: [random(), random(), random() < 0.3 ? 1 : 0],
+      label: null,
+    }));
+    rows.push({ documentId: "doc-outlier", values: [25, 1, 1], label: 1 });
+
+    const model = trainFraudModel({ featureSetVersion: 1, featureNames, rows });
+
+    expect(model.algorithm).toBe("isolation_forest");
+    expect(model.metrics.auc).toBeNull();
+    expect(scoreWithArtifact(model.artifact, [25, 1, 1]).score).toBeGreaterThan(
+      scoreWithArtifact(model.artifact, [0.5, 0.5, 0]).score
+    );
+  });
+
+  it("should produce the same model for the same seed", () => {
+    const set = labeledSet(90, 11);
+
+    expect(JSON.stringify(trainFraudModel(set, 5))).toBe(JSON.stringify(trainFraudModel(set, 5)));
+  });
+
+  it("should refuse to train on too few documents", () => {
+    expect(() => trainFraudModel(labeledSet(20, 1))).toThrow("Eğitim için en az 50 belge gerekli (mevcut: 20).");
+  });
+});
+
+describe("metrics", () => {
+  it("should count tied scores as half in the AUC", () => {
+    expect(rocAuc([0.1, 0.4, 0.35, 0.8], [0, 0, 1, 1])).toBe(0.75);
+    expect(rocAuc([0.5, 0.5], [0, 1])).toBe(0.5);
+    expect(rocAuc([0.2, 0.3], [1, 1])).toBeNull();
+  });
+
+  it("should keep both classes in the test split", () => {
+    const labels = [1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0];
+    const { train, test } = stratifiedSplit(labels, 0.25, createRandom(1));
+
+    expect(test.filter((index) => labels[index] === 1)).toHaveLength(1);
+    expect(test.filter((index) => labels[index] === 0)).toHaveLength(2);
+    expect([...train, ...test].sort((a, b) => a - b)).toEqual(labels.map((_, index) => index));
+  });
+});
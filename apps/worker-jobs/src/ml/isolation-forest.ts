@@ -0,0 +1,69 @@
+import type { IsolationForestArtifact, IsolationTreeNode } from "@repo/core-domain";
+import type { Random } from "./metrics";
+
+export interface IsolationForestOptions {
+  trees?: number;
+  sampleSize?: number;
+}
+
+function buildTree(rows: number[][], indexes: number[], depth: number, maxDepth: number, random: Random): IsolationTreeNode {
+  if (indexes.length <= 1 || depth >= maxDepth) {
+    return { n: indexes.length };
+  }
+
+  // Pick a random feature among those that still vary in this node
+  const featureCount = rows[indexes[0]].length;
+  const candidates: Array<{ f: number; min: number; max: number }> = [];
+  for (let f = 0; f < featureCount; f++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const index of indexes) {
+      min = Math.min(min, rows[index][f]);
+      max = Math.max(max, rows[index][f]);
+    }
+    if (max > min) candidates.push({ f, min, max });
+  }
+  if (candidates.length === 0) {
+    return { n: indexes.length };
+  }
+
+  const { f, min, max } = candidates[Math.floor(random() * candidates.length)];
+  const t = min + random() * (max - min);
+  const left = indexes.filter((index) => rows[index][f] < t);
+  const right = indexes.filter((index) => rows[index][f] >= t);
+  return {
+    f,
+    t,
+    l: buildTree(rows, left, depth + 1, maxDepth, random),
+    r: buildTree(rows, right, depth + 1, maxDepth, random),
+  };
+}
+
+/**
+ * Isolation forest (Liu et al., 2008). Each tree isolates a random subsample
+ * with random splits; anomalies are isolated in fewer splits. Used when the
+ * tenant has too few dispositioned alerts to learn from labels.
+ */
+export function trainIsolationForest(
+  rows: number[][],
+  random: Random,
+  options: IsolationForestOptions = {}
+): IsolationForestArtifact {
+  const treeCount = options.trees ?? 100;
+  const sampleSize = Math.min(options.sampleSize ?? 256, rows.length);
+  const maxDepth = Math.ceil(Math.log2(Math.max(sampleSize, 2)));
+  const allIndexes = rows.map((_, index) => index);
+
+  const trees: IsolationTreeNode[] = [];
+  for (let i = 0; i < treeCount; i++) {
+    // Subsample without replacement (partial Fisher-Yates)
+    const sample = [...allIndexes];
+    for (let j = 0; j < sampleSize; j++) {
+      const k = j + Math.floor(random() * (sample.length - j));
+      [sample[j], sample[k]] = [sample[k], sample[j]];
+    }
+    trees.push(buildTree(rows, sample.slice(0, sampleSize), 0, maxDepth, random));
+  }
+
+  return { type: "isolation_forest", sampleSize, trees };
+}
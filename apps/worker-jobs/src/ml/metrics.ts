@@ -0,0 +1,105 @@
+/**
+ * Small helpers shared by the fraud model trainers: a seeded random source,
+ * so a training run can be reproduced, and the evaluation metrics stored in
+ * the model registry.
+ */
+
+export type Random = () => number;
+
+/**
+ * Mulberry32: fast, seeded, good enough for sampling and split selection
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Split row indexes into train and test sets, keeping the share of
+ * positive labels the same in both
+ */
+export function stratifiedSplit(
+  labels: number[],
+  testFraction: number,
+  random: Random
+): { train: number[]; test: number[] } {
+  const train: number[] = [];
+  const test: number[] = [];
+  for (const label of [0, 1]) {
+    const indexes = shuffle(
+      labels.flatMap((l, index) => (l === label ? [index] : [])),
+      random
+    );
+    const testCount = Math.max(1, Math.round(indexes.length * testFraction));
+    test.push(...indexes.slice(0, testCount));
+    train.push(...indexes.slice(testCount));
+  }
+  return { train, test };
+}
+
+/**
+ * Area under the ROC curve: the chance that a random positive scores above
+ * a random negative, ties counting half. Null without both classes.
+ */
+export function rocAuc(scores: number[], labels: number[]): number | null {
+  const positives = labels.filter((l) => l === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const order = scores.map((score, index) => ({ score, label: labels[index] })).sort((a, b) => a.score - b.score);
+
+  // Sum of positive ranks, averaging the ranks of tied scores
+  let rankSum = 0;
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].score === order[i].score) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (order[k].label === 1) rankSum += averageRank;
+    }
+    i = j + 1;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/**
+ * Precision and recall of flagging scores at or above the threshold. Null
+ * when nothing is flagged or there is no positive label.
+ */
+export function precisionRecall(
+  scores: number[],
+  labels: number[],
+  threshold: number
+): { precision: number | null; recall: number | null } {
+  let truePositives = 0;
+  let flagged = 0;
+  let positives = 0;
+  scores.forEach((score, index) => {
+    if (labels[index] === 1) positives++;
+    if (score >= threshold) {
+      flagged++;
+      if (labels[index] === 1) truePositives++;
+    }
+  });
+  return {
+    precision: flagged > 0 ? truePositives / flagged : null,
+    recall: positives > 0 ? truePositives / positives : null,
+  };
+}
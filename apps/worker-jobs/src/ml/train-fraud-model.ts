@@ -0,0 +1,84 @@
+import {
+  scoreWithArtifact,
+  type FraudModelMetrics,
+  type FraudTrainingSet,
+  type TrainedFraudModel,
+} from "@repo/core-domain";
+import { createRandom, precisionRecall, rocAuc, stratifiedSplit } from "./metrics";
+import { trainIsolationForest } from "./isolation-forest";
+import { trainGradientBoosting } from "./gradient-boosting";
+
+export const MIN_TRAINING_SAMPLES = 50;
+
+// Gradient boosting needs enough dispositions of both kinds to learn from
+const MIN_LABELED_SAMPLES = 30;
+const MIN_SAMPLES_PER_CLASS = 5;
+const TEST_FRACTION = 0.25;
+
+// Scores (0-100) at which precision and recall are reported
+const GRADIENT_BOOSTING_THRESHOLD = 50;
+const ISOLATION_FOREST_THRESHOLD = 60;
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10000) / 10000;
+}
+
+function evaluate(scores: number[], labels: number[], threshold: number): FraudModelMetrics {
+  const { precision, recall } = precisionRecall(scores, labels, threshold);
+  return {
+    auc: round(rocAuc(scores, labels)),
+    precision: round(precision),
+    recall: round(recall),
+    threshold,
+    evaluatedCount: labels.length,
+    positiveCount: labels.filter((l) => l === 1).length,
+  };
+}
+
+/**
+ * Train a fraud model on a tenant's feature vectors. Gradient boosting is
+ * used once enough alerts have been dispositioned, evaluated on a held-out
+ * quarter of the labels; otherwise an isolation forest is trained on all
+ * vectors and evaluated on whatever labels exist.
+ */
+export function trainFraudModel(set: FraudTrainingSet, seed = 42): TrainedFraudModel {
+  if (set.rows.length < MIN_TRAINING_SAMPLES) {
+    throw new Error(`Eğitim için en az ${MIN_TRAINING_SAMPLES} belge gerekli (mevcut: ${set.rows.length}).`);
+  }
+
+  const random = createRandom(seed);
+  const labeled = set.rows.filter((row): row is FraudTrainingSet["rows"][number] & { label: number } => row.label !== null);
+  const positives = labeled.filter((row) => row.label === 1).length;
+  const negatives = labeled.length - positives;
+
+  if (labeled.length >= MIN_LABELED_SAMPLES && positives >= MIN_SAMPLES_PER_CLASS && negatives >= MIN_SAMPLES_PER_CLASS) {
+    const labels = labeled.map((row) => row.label);
+    const { train, test } = stratifiedSplit(labels, TEST_FRACTION, random);
+    const artifact = trainGradientBoosting(
+      train.map((index) => labeled[index].values),
+      train.map((index) => labels[index])
+    );
+    const scores = test.map((index) => scoreWithArtifact(artifact, labeled[index].values).score * 100);
+
+    return {
+      algorithm: "gradient_boosting",
+      artifact,
+      metrics: evaluate(scores, test.map((index) => labels[index]), GRADIENT_BOOSTING_THRESHOLD),
+      featureNames: set.featureNames,
+      trainingSampleCount: train.length,
+      labeledSampleCount: labeled.length,
+    };
+  }
+
+  const artifact = trainIsolationForest(set.rows.map((row) => row.values), random);
+  const scores = labeled.map((row) => scoreWithArtifact(artifact, row.values).score * 100);
+
+  return {
+    algorithm: "isolation_forest",
+    artifact,
+    metrics: evaluate(scores, labeled.map((row) => row.label), ISOLATION_FOREST_THRESHOLD),
+    featureNames: set.featureNames,
+    trainingSampleCount: set.rows.length,
+    labeledSampleCount: labeled.length,
+  };
+}
@@ -47,6 +47,7 @@ vi.mock("../../services/ocr-service", () => ({
 // Mock parser service
 vi.mock("../../services/document-parser-service", () => ({
   documentParserService: {
+    parseUblDocument: vi.fn().mockResolvedValue(null),
     parseDocument: vi.fn().mockResolvedValue({
       documentType: "invoice",
       fields: { invoiceNumber: "INV-001" },
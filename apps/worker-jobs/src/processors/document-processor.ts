@@ -1,10 +1,11 @@
 import { prisma } from "../lib/prisma";
 import { getStorage } from "@repo/config";
 import { documentJobService } from "../services/document-job-service";
-import { ocrService } from "../services/ocr-service";
+import { ocrService, type OCRResult } from "../services/ocr-service";
 import { documentParserService } from "../services/document-parser-service";
 import { riskFeatureService } from "../services/risk-feature-service";
 import { Readable } from "stream";
+import type { ParsedDocumentResult } from "@repo/core-domain";
 
 export class DocumentProcessor {
   private storage = getStorage();
@@ -33,18 +34,28 @@ export class DocumentProcessor {
     }
 
     try {
-      // Step 1: OCR - Convert file to text
       const fileStream = await this.storage.getObjectStream(tenantId, document.storagePath);
       const fileBuffer = await this.streamToBuffer(fileStream);
-      
-      const ocrResult = await ocrService.runOCR(fileBuffer, document.mimeType);
 
-      // Step 2: Parse - Extract structured fields from OCR text
-      const parsedData = await documentParserService.parseDocument(
-        ocrResult.rawText,
-        document.type,
-        tenantId
-      );
+      // e-Fatura / e-Arşiv XML carries its data in structured form, so OCR is skipped
+      const ublDocument = await documentParserService.parseUblDocument(fileBuffer);
+
+      let ocrResult: OCRResult;
+      let parsedData: ParsedDocumentResult;
+      if (ublDocument) {
+        ocrResult = { rawText: ublDocument.rawText, engineName: "xml", confidence: 1 };
+        parsedData = ublDocument.result;
+      } else {
+        // Step 1: OCR - Convert file to text
+        ocrResult = await ocrService.runOCR(fileBuffer, document.mimeType);
+
+        // Step 2: Parse - Extract structured fields from OCR text
+        parsedData = await documentParserService.parseDocument(
+          ocrResult.rawText,
+          document.type,
+          tenantId
+        );
+      }
 
       // Step 3: Risk Features - Generate risk flags and features
       const riskFeatures = await riskFeatureService.generateRiskFeatures(
@@ -93,7 +104,18 @@ export class DocumentProcessor {
         }
       );
 
-      // Step 6: Calculate document risk score and create alerts if needed
+      // Step 6: Book the invoice of an e-Fatura / e-Arşiv XML and link it to the document
+      if (ublDocument) {
+        try {
+          const { eInvoiceDocumentService } = await import("../../../backend-api/src/services/e-invoice-document-service");
+          await eInvoiceDocumentService.createInvoiceFromDocument(tenantId, documentId, ublDocument.invoice);
+        } catch (invoiceError: any) {
+          // The parsed data is kept; the invoice can still be entered manually
+          console.error(`[Document Processor] Error creating invoice from e-Fatura XML ${documentId}:`, invoiceError);
+        }
+      }
+
+      // Step 7: Calculate document risk score and create alerts if needed
       try {
         const { riskCalculationProcessor } = await import("./risk-calculation-processor");
         await riskCalculationProcessor.processDocumentRiskCalculation(tenantId, documentId);
@@ -102,7 +124,7 @@ export class DocumentProcessor {
         console.error(`[Document Processor] Error calculating risk for document ${documentId}:`, riskError);
       }
 
-      // Step 7: Increment AI analysis usage after successful processing
+      // Step 8: Increment AI analysis usage after successful processing
       try {
         const { usageService } = await import("../../../backend-api/src/services/usage-service");
         await usageService.incrementUsage(tenantId, "AI_ANALYSES" as any, 1);
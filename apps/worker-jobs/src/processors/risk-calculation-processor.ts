@@ -75,6 +75,7 @@ export class RiskCalculationProcessor {
           title: "Yüksek Risk Skoru Tespit Edildi",
           message: `Müşteri şirketi için risk skoru yüksek seviyede (${companyRiskScore.score}). Tetiklenen kurallar: ${companyRiskScore.triggeredRuleCodes.join(", ")}`,
           severity: "high",
+          ruleCodes: companyRiskScore.triggeredRuleCodes,
         });
       }
 
@@ -132,6 +133,7 @@ export class RiskCalculationProcessor {
           title: "Yüksek Riskli Belge Tespit Edildi",
           message: `Belge için risk skoru yüksek seviyede (${documentRiskScore.score}). Tetiklenen kurallar: ${documentRiskScore.triggeredRuleCodes.join(", ")}`,
           severity: "high",
+          ruleCodes: documentRiskScore.triggeredRuleCodes,
         });
       }
 
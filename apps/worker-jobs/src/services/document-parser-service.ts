@@ -8,6 +8,7 @@ import type {
   CreateDocumentParsedDataInput,
 } from "@repo/core-domain";
 import { createLLMClient, hasRealAIProvider, logger, type LogContext } from "@repo/shared-utils";
+import type { ParsedUblInvoice } from "../../../backend-api/src/integrations/e-invoice-parsers";
 
 /**
  * Document Parser Service - LLM-Based with Rule-based Fallback
@@ -22,9 +23,16 @@ export interface ParsedDocumentData {
   parserVersion: string;
 }
 
+export interface ParsedUblDocument {
+  result: ParsedDocumentResult;
+  invoice: ParsedUblInvoice;
+  rawText: string;
+}
+
 export class DocumentParserService {
   private readonly PARSER_VERSION = "2.0-llm";
   private readonly FALLBACK_PARSER_VERSION = "1.0-stub";
+  private readonly UBL_PARSER_VERSION = "ubl-tr-1.0";
   private llmClient: ReturnType<typeof createLLMClient> | null = null;
 
   /**
@@ -63,6 +71,48 @@ export class DocumentParserService {
     return this.parseWithRules(rawText, documentTypeHint);
   }
 
+  /**
+   * Parse an e-Fatura / e-Arşiv UBL-TR XML file straight from its content,
+   * without OCR or LLM
+   * @param fileBuffer - Uploaded file content
+   * @returns Parsed document and invoice, or null when the file is not UBL-TR
+   */
+  async parseUblDocument(fileBuffer: Buffer): Promise<ParsedUblDocument | null> {
+    const { isUblInvoice, parseUblInvoiceFile } = await import("../../../backend-api/src/integrations/e-invoice-parsers");
+    if (!isUblInvoice(fileBuffer)) {
+      return null;
+    }
+
+    const invoice = parseUblInvoiceFile(fileBuffer);
+    const { eInvoiceDocumentService } = await import("../../../backend-api/src/services/e-invoice-document-service");
+
+    // Readable text stands in for OCR output (search, embeddings)
+    const rawText = [
+      `Fatura No: ${invoice.invoiceNumber}`,
+      `ETTN: ${invoice.ettn}`,
+      `Tarih: ${invoice.issueDate.toISOString().slice(0, 10)}`,
+      `Satıcı: ${invoice.supplier.name ?? ""} (${invoice.supplier.taxNumber ?? "-"})`,
+      `Alıcı: ${invoice.customer.name ?? ""} (${invoice.customer.taxNumber ?? "-"})`,
+      ...invoice.lines.map(
+        (line) => `${line.lineNumber}. ${line.description} ${line.quantity} x ${line.unitPrice} = ${line.lineTotal} ${invoice.currency}`
+      ),
+      `Mal/Hizmet Toplamı: ${invoice.netAmount} ${invoice.currency}`,
+      `Hesaplanan KDV: ${invoice.taxAmount} ${invoice.currency}`,
+      `Vergiler Dahil Toplam: ${invoice.totalAmount} ${invoice.currency}`,
+      `Ödenecek Tutar: ${invoice.payableAmount} ${invoice.currency}`,
+    ].join("\n");
+
+    return {
+      result: {
+        documentType: "invoice",
+        fields: eInvoiceDocumentService.toParsedFields(invoice),
+        parserVersion: this.UBL_PARSER_VERSION,
+      },
+      invoice,
+      rawText,
+    };
+  }
+
   /**
    * Parse document using LLM
    */
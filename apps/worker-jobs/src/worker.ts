@@ -7,6 +7,9 @@ import { integrationSyncProcessor } from "./processors/integration-sync-processo
 import { integrationSyncScheduler } from "./schedulers/integration-sync-scheduler";
 import { scheduledReportRunner } from "./workers/scheduled-report-runner";
 import { aiSummaryRunner } from "./workers/ai-summary-runner";
+import { riskBacktestRunner } from "./workers/risk-backtest-runner";
+import { fraudModelTrainer } from "./workers/fraud-model-trainer";
+import { assistantConversationRetention } from "./workers/assistant-conversation-retention";
 import { processContractExpirationChecks } from "./workers/contract-expiration-checker";
 import { prisma } from "./lib/prisma";
 
@@ -21,6 +24,10 @@ const INTEGRATION_SCHEDULER_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
 const SCHEDULED_REPORT_INTERVAL_MS = 60 * 1000; // 1 minute
 const AI_SUMMARY_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours (daily)
 const CONTRACT_EXPIRATION_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours (daily)
+const RISK_BACKTEST_INTERVAL_MS = 60 * 1000; // 1 minute
+const FRAUD_MODEL_TRAINING_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const FRAUD_MODEL_RETRAINING_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours (daily)
+const ASSISTANT_CONVERSATION_RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours (daily)
 
 async function processPendingJobs(): Promise<void> {
   try {
@@ -296,6 +303,54 @@ async function processAISummaries(): Promise<void> {
   }
 }
 
+async function processRiskBacktests(): Promise<void> {
+  try {
+    await riskBacktestRunner.runOnce();
+  } catch (error: any) {
+    logger.error("Error in risk backtest processing loop", undefined, {
+      error: error.message,
+      stack: error.stack,
+      jobType: "RISK_BACKTEST",
+    });
+  }
+}
+
+async function processFraudModelTraining(): Promise<void> {
+  try {
+    await fraudModelTrainer.runOnce();
+  } catch (error: any) {
+    logger.error("Error in fraud model training loop", undefined, {
+      error: error.message,
+      stack: error.stack,
+      jobType: "FRAUD_MODEL_TRAINING",
+    });
+  }
+}
+
+async function scheduleFraudModelRetraining(): Promise<void> {
+  try {
+    await fraudModelTrainer.scheduleRetraining();
+  } catch (error: any) {
+    logger.error("Error scheduling fraud model retraining", undefined, {
+      error: error.message,
+      stack: error.stack,
+      jobType: "FRAUD_MODEL_TRAINING",
+    });
+  }
+}
+
+async function processAssistantConversationRetention(): Promise<void> {
+  try {
+    await assistantConversationRetention.runOnce();
+  } catch (error: any) {
+    logger.error("Error in assistant conversation retention loop", undefined, {
+      error: error.message,
+      stack: error.stack,
+      jobType: "ASSISTANT_CONVERSATION_RETENTION",
+    });
+  }
+}
+
 let isShuttingDown = false;
 let activeJobCount = 0;
 const intervalHandles: NodeJS.Timeout[] = [];
@@ -319,6 +374,10 @@ async function startWorker(): Promise<void> {
     scheduledReportInterval: `${SCHEDULED_REPORT_INTERVAL_MS / 1000}s`,
     aiSummaryInterval: `${AI_SUMMARY_INTERVAL_MS / (60 * 60 * 1000)}h`,
     contractExpirationCheckInterval: `${CONTRACT_EXPIRATION_CHECK_INTERVAL_MS / (60 * 60 * 1000)}h`,
+    riskBacktestInterval: `${RISK_BACKTEST_INTERVAL_MS / 1000}s`,
+    fraudModelTrainingInterval: `${FRAUD_MODEL_TRAINING_INTERVAL_MS / 1000}s`,
+    fraudModelRetrainingInterval: `${FRAUD_MODEL_RETRAINING_INTERVAL_MS / (60 * 60 * 1000)}h`,
+    assistantConversationRetentionInterval: `${ASSISTANT_CONVERSATION_RETENTION_INTERVAL_MS / (60 * 60 * 1000)}h`,
   });
 
   // Start document processing polling loop
@@ -356,6 +415,26 @@ async function startWorker(): Promise<void> {
     await runGuarded(processContractExpirationChecks);
   }, CONTRACT_EXPIRATION_CHECK_INTERVAL_MS));
 
+  // Start risk backtest processing loop
+  intervalHandles.push(setInterval(async () => {
+    await runGuarded(processRiskBacktests);
+  }, RISK_BACKTEST_INTERVAL_MS));
+
+  // Start fraud model training loop
+  intervalHandles.push(setInterval(async () => {
+    await runGuarded(processFraudModelTraining);
+  }, FRAUD_MODEL_TRAINING_INTERVAL_MS));
+
+  // Start fraud model retraining schedule (daily)
+  intervalHandles.push(setInterval(async () => {
+    await runGuarded(scheduleFraudModelRetraining);
+  }, FRAUD_MODEL_RETRAINING_INTERVAL_MS));
+
+  // Start assistant conversation retention loop (daily)
+  intervalHandles.push(setInterval(async () => {
+    await runGuarded(processAssistantConversationRetention);
+  }, ASSISTANT_CONVERSATION_RETENTION_INTERVAL_MS));
+
   // Start retry queue processing loop (every 5 minutes)
   intervalHandles.push(setInterval(async () => {
     await runGuarded(processRetryQueue);
@@ -369,6 +448,8 @@ async function startWorker(): Promise<void> {
   await processScheduledReports();
   await processRetryQueue();
   await processContractExpirationChecks();
+  await processRiskBacktests();
+  await processFraudModelTraining();
 
   // Run risk calculations once on startup (optional - can be removed if not desired)
   // await processScheduledRiskCalculations();
@@ -0,0 +1,45 @@
+import { logger } from "@repo/shared-utils";
+
+// Use dynamic imports to load services from backend-api at runtime
+// This avoids module resolution issues in the monorepo
+async function getAssistantConversationService() {
+  try {
+    const module = await import("../../../backend-api/src/services/assistant-conversation-service.js");
+    return module.assistantConversationService;
+  } catch (error1: unknown) {
+    try {
+      const module = await import("../../../backend-api/src/services/assistant-conversation-service");
+      return module.assistantConversationService;
+    } catch (error2: unknown) {
+      const msg1 = error1 instanceof Error ? error1.message : String(error1);
+      const msg2 = error2 instanceof Error ? error2.message : String(error2);
+      throw new Error(`Failed to load AssistantConversationService: ${msg1}, ${msg2}`);
+    }
+  }
+}
+
+/**
+ * Assistant Conversation Retention
+ *
+ * Deletes AI assistant conversations that are older than each tenant's KVKK
+ * retention period (measured from the last message).
+ */
+export class AssistantConversationRetention {
+  async runOnce(): Promise<void> {
+    try {
+      const assistantConversationService = await getAssistantConversationService();
+      const { tenantCount, deletedCount } = await assistantConversationService.purgeExpiredConversations();
+
+      logger.info(`Purged ${deletedCount} expired assistant conversation(s)`, undefined, {
+        tenantCount,
+        deletedCount,
+        jobType: "ASSISTANT_CONVERSATION_RETENTION",
+      });
+    } catch (error: any) {
+      // Never throw unhandled errors from worker loop
+      logger.error("[AssistantConversationRetention] Error in runOnce", error);
+    }
+  }
+}
+
+export const assistantConversationRetention = new AssistantConversationRetention();
@@ -0,0 +1,125 @@
+import { logger } from "@repo/shared-utils";
+import { trainFraudModel } from "../ml/train-fraud-model";
+
+const MAX_MODELS_PER_RUN = 2;
+
+// Use dynamic imports to load services from backend-api at runtime
+// This avoids module resolution issues in the monorepo
+async function getFraudModelService() {
+  try {
+    const module = await import("../../../backend-api/src/services/fraud-model-service.js");
+    return module.fraudModelService;
+  } catch (error1: unknown) {
+    try {
+      const module = await import("../../../backend-api/src/services/fraud-model-service");
+      return module.fraudModelService;
+    } catch (error2: unknown) {
+      const msg1 = error1 instanceof Error ? error1.message : String(error1);
+      const msg2 = error2 instanceof Error ? error2.message : String(error2);
+      throw new Error(`Failed to load FraudModelService: ${msg1}, ${msg2}`);
+    }
+  }
+}
+
+async function getFraudFeatureStoreService() {
+  try {
+    const module = await import("../../../backend-api/src/services/fraud-feature-store-service.js");
+    return module.fraudFeatureStoreService;
+  } catch (error1: unknown) {
+    try {
+      const module = await import("../../../backend-api/src/services/fraud-feature-store-service");
+      return module.fraudFeatureStoreService;
+    } catch (error2: unknown) {
+      const msg1 = error1 instanceof Error ? error1.message : String(error1);
+      const msg2 = error2 instanceof Error ? error2.message : String(error2);
+      throw new Error(`Failed to load FraudFeatureStoreService: ${msg1}, ${msg2}`);
+    }
+  }
+}
+
+/**
+ * Fraud Model Trainer
+ *
+ * Trains queued fraud model versions offline: refreshes the tenant's feature
+ * store, trains on CPU and hands the result to the model registry, which
+ * decides whether the new version becomes active. Also queues a retraining
+ * for every tenant with scored documents once a day.
+ */
+export class FraudModelTrainer {
+  async runOnce(): Promise<void> {
+    try {
+      const fraudModelService = await getFraudModelService();
+      const modelIds = await fraudModelService.getQueuedModelIds(MAX_MODELS_PER_RUN);
+
+      if (modelIds.length === 0) {
+        return;
+      }
+
+      logger.info(`Picked up ${modelIds.length} queued fraud model(s)`, undefined, {
+        jobCount: modelIds.length,
+        jobType: "FRAUD_MODEL_TRAINING",
+      });
+
+      for (const modelId of modelIds) {
+        await this.train(modelId);
+      }
+    } catch (error: any) {
+      // Never throw unhandled errors from worker loop
+      logger.error("[FraudModelTrainer] Error in runOnce", error);
+    }
+  }
+
+  async scheduleRetraining(): Promise<void> {
+    try {
+      const fraudModelService = await getFraudModelService();
+      const tenantIds = await fraudModelService.getTenantIdsForRetraining();
+
+      for (const tenantId of tenantIds) {
+        await fraudModelService.requestTraining(tenantId, null);
+      }
+
+      logger.info(`Queued fraud model retraining for ${tenantIds.length} tenant(s)`, undefined, {
+        jobCount: tenantIds.length,
+        jobType: "FRAUD_MODEL_TRAINING",
+      });
+    } catch (error: any) {
+      logger.error("[FraudModelTrainer] Error in scheduleRetraining", error);
+    }
+  }
+
+  private async train(modelId: string): Promise<void> {
+    const fraudModelService = await getFraudModelService();
+    const model = await fraudModelService.claimTraining(modelId);
+    if (!model) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const featureStore = await getFraudFeatureStoreService();
+      await featureStore.refreshTenant(model.tenantId);
+      const trainingSet = await featureStore.loadTrainingSet(model.tenantId);
+
+      const trained = trainFraudModel(trainingSet);
+      const result = await fraudModelService.completeTraining(modelId, trained);
+
+      logger.info("Fraud model trained", { tenantId: model.tenantId }, {
+        modelId,
+        version: result.version,
+        algorithm: trained.algorithm,
+        auc: trained.metrics.auc,
+        status: result.status,
+        durationMs: Date.now() - startedAt,
+        jobType: "FRAUD_MODEL_TRAINING",
+      });
+    } catch (error: any) {
+      logger.error("[FraudModelTrainer] Training failed", { tenantId: model.tenantId }, {
+        modelId,
+        error: error.message,
+      });
+      await fraudModelService.failTraining(modelId, error.message ?? "Bilinmeyen hata");
+    }
+  }
+}
+
+export const fraudModelTrainer = new FraudModelTrainer();
@@ -0,0 +1,61 @@
+import { logger } from "@repo/shared-utils";
+
+const MAX_BACKTESTS_PER_RUN = 2;
+
+// Use dynamic imports to load services from backend-api at runtime
+// This avoids module resolution issues in the monorepo
+async function getRiskBacktestService() {
+  try {
+    const module = await import("../../../backend-api/src/services/risk-backtest-service.js");
+    return module.riskBacktestService;
+  } catch (error1: unknown) {
+    try {
+      const module = await import("../../../backend-api/src/services/risk-backtest-service");
+      return module.riskBacktestService;
+    } catch (error2: unknown) {
+      const msg1 = error1 instanceof Error ? error1.message : String(error1);
+      const msg2 = error2 instanceof Error ? error2.message : String(error2);
+      throw new Error(`Failed to load RiskBacktestService: ${msg1}, ${msg2}`);
+    }
+  }
+}
+
+/**
+ * Risk Backtest Runner
+ *
+ * Runs queued rule backtests. A backtest replays the current and a proposed
+ * rule set over many past documents or companies, so it is kept out of the
+ * request path. The service records results and failures on the backtest.
+ */
+export class RiskBacktestRunner {
+  async runOnce(): Promise<void> {
+    try {
+      const riskBacktestService = await getRiskBacktestService();
+      const backtestIds = await riskBacktestService.getPendingBacktestIds(MAX_BACKTESTS_PER_RUN);
+
+      if (backtestIds.length === 0) {
+        return;
+      }
+
+      logger.info(`Picked up ${backtestIds.length} pending risk backtest(s)`, undefined, {
+        jobCount: backtestIds.length,
+        jobType: "RISK_BACKTEST",
+      });
+
+      for (const backtestId of backtestIds) {
+        const startedAt = Date.now();
+        await riskBacktestService.runBacktest(backtestId);
+        logger.info("Risk backtest finished", undefined, {
+          backtestId,
+          durationMs: Date.now() - startedAt,
+          jobType: "RISK_BACKTEST",
+        });
+      }
+    } catch (error: any) {
+      // Never throw unhandled errors from worker loop
+      logger.error("[RiskBacktestRunner] Error in runOnce", error);
+    }
+  }
+}
+
+export const riskBacktestRunner = new RiskBacktestRunner();
@@ -112,6 +112,8 @@ function getReportSubject(reportCode: string, reportName: string): string {
     COMPANY_RISK_SUMMARY: "Risk Özeti Raporu",
     TENANT_PORTFOLIO: "Portföy Raporu",
     DOCUMENT_ACTIVITY: "Döküman Aktivite Raporu",
+    DIMENSION_PROFITABILITY: "Boyut Bazında Kârlılık Raporu",
+    BUDGET_VARIANCE: "Bütçe / Fiili Karşılaştırma Raporu",
   };
 
   const reportTitle = reportNameMap[reportCode] || reportName;
@@ -351,6 +353,28 @@ export class ScheduledReportRunner {
           );
           break;
 
+        case "DIMENSION_PROFITABILITY":
+          if (!report.clientCompanyId) {
+            throw new Error("DIMENSION_PROFITABILITY requires client_company_id");
+          }
+          reportResult = await reportingService.generateDimensionProfitabilityReport(
+            report.tenantId,
+            report.clientCompanyId,
+            filters
+          );
+          break;
+
+        case "BUDGET_VARIANCE":
+          if (!report.clientCompanyId) {
+            throw new Error("BUDGET_VARIANCE requires client_company_id");
+          }
+          reportResult = await reportingService.generateBudgetVarianceReport(
+            report.tenantId,
+            report.clientCompanyId,
+            filters
+          );
+          break;
+
         default:
           throw new Error(`Unknown report code: ${report.reportCode}`);
       }
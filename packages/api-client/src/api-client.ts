@@ -5,7 +5,7 @@ import { getAccessToken, setAccessToken, clearAccessToken } from "./token-store"
 const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || "";
 
 /** Read the __csrf cookie value (set by the backend on every response). */
-function getCsrfToken(): string | undefined {
+export function getCsrfToken(): string | undefined {
   if (typeof document === "undefined") return undefined;
   const match = document.cookie.match(/(?:^|;\s*)__csrf=([^;]*)/);
   return match ? decodeURIComponent(match[1]) : undefined;
@@ -0,0 +1,77 @@
+import { apiClient } from "../api-client";
+import type { Transaction } from "./transaction-client";
+
+// Mali Dönem Kapanışı (Accounting Period Close)
+
+export type AccountingPeriodStatus = "open" | "soft_closed" | "locked"; // Açık | Kapalı | Kilitli
+
+export interface PeriodCloseChecks {
+  transactionCount: number;
+  unbalancedTransactionIds: string[];
+  eDefterStatus: string | null;
+  beyannameler: { type: string; period: string; status: string }[];
+  filed: boolean;
+  warnings: string[];
+}
+
+export interface AccountingPeriod {
+  id: string | null; // null: dönem henüz hiç kapatılmamış
+  clientCompanyId: string;
+  period: string; // YYYY-MM
+  periodStart: string;
+  periodEnd: string;
+  status: AccountingPeriodStatus;
+  lockedByFiling: boolean; // e-Defter veya beyanname GİB'e gönderildiği için kilitli
+  closedAt: string | null;
+  closedByUserId: string | null;
+  lockedAt: string | null;
+  lockedByUserId: string | null;
+  reopenedAt: string | null;
+  reopenedByUserId: string | null;
+  reopenReason: string | null;
+  closeChecks: PeriodCloseChecks | null;
+  notes: string | null;
+}
+
+export interface ClosePeriodInput {
+  lock?: boolean;
+  notes?: string;
+}
+
+export interface CorrectingEntryInput {
+  transactionId: string;
+  description?: string;
+  lines?: {
+    ledgerAccountId: string;
+    debitAmount: number;
+    creditAmount: number;
+    description?: string | null;
+  }[];
+}
+
+export const accountingPeriodClient = {
+  /** Müşteri şirketin yıl içindeki aylık dönemleri */
+  async list(clientCompanyId: string, year?: number): Promise<{ data: AccountingPeriod[] }> {
+    return apiClient.get("/api/v1/accounting-periods", { params: { clientCompanyId, year } });
+  },
+
+  /** Tekil dönem durumu */
+  async get(clientCompanyId: string, period: string): Promise<{ data: AccountingPeriod }> {
+    return apiClient.get(`/api/v1/accounting-periods/${clientCompanyId}/${period}`);
+  },
+
+  /** Dönemi kapat veya kilitle */
+  async close(clientCompanyId: string, period: string, input: ClosePeriodInput = {}): Promise<{ data: AccountingPeriod }> {
+    return apiClient.post(`/api/v1/accounting-periods/${clientCompanyId}/${period}/close`, input);
+  },
+
+  /** Dönemi yeniden aç (yalnızca ofis sahibi) */
+  async reopen(clientCompanyId: string, period: string, reason: string): Promise<{ data: AccountingPeriod }> {
+    return apiClient.post(`/api/v1/accounting-periods/${clientCompanyId}/${period}/reopen`, { reason });
+  },
+
+  /** Kapalı döneme ait kayıt için açık dönemde düzeltme kaydı oluştur */
+  async createCorrectingEntry(input: CorrectingEntryInput): Promise<{ data: Transaction }> {
+    return apiClient.post("/api/v1/accounting-periods/correcting-entries", input);
+  },
+};
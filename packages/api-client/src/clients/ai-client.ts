@@ -1,4 +1,5 @@
 import { apiClient } from "../api-client";
+import type { AssistantChatInput, AssistantChatResponse } from "./assistant-conversation-client";
 
 export const aiClient = {
   async chat(input: { message: string; context?: string }): Promise<{ data: any }> {
@@ -13,7 +14,7 @@ export const aiClient = {
   async ragSearch(input: { query: string; topK?: number }): Promise<{ data: any }> {
     return apiClient.post("/api/v1/ai/rag/search", input);
   },
-  async enhancedChat(input: { message: string; conversationId?: string }): Promise<{ data: any }> {
+  async enhancedChat(input: AssistantChatInput): Promise<{ data: AssistantChatResponse }> {
     return apiClient.post("/api/v1/ai/chat/enhanced", input);
   },
   async hybridSearch(input: { query: string; topK?: number }): Promise<{ data: any }> {
@@ -161,10 +161,17 @@ export const analyticsClient = {
   async getFinancialTrends(
     startDate: string,
     endDate: string,
-    granularity: "daily" | "weekly" | "monthly" | "quarterly" = "monthly"
+    granularity: "daily" | "weekly" | "monthly" | "quarterly" = "monthly",
+    filters: { clientCompanyId?: string; dimensionValueIds?: string[] } = {}
   ): Promise<{ data: FinancialTrend[] }> {
     return apiRequest<{ data: FinancialTrend[] }>("/api/v1/analytics/financial-trends", {
-      params: { startDate, endDate, granularity },
+      params: {
+        startDate,
+        endDate,
+        granularity,
+        clientCompanyId: filters.clientCompanyId,
+        dimensionValueIds: filters.dimensionValueIds?.length ? filters.dimensionValueIds.join(",") : undefined,
+      },
     });
   },
 
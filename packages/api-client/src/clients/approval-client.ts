@@ -0,0 +1,209 @@
+import { apiClient } from "../api-client";
+
+// Onay akışları, vekalet ve onaylı ödeme talimatları
+
+export type ApprovalAction = "efatura_submit" | "payment_initiate" | "beyanname_submit" | "masak_submit";
+
+export type ApprovalRequestStatus = "pending" | "approved" | "rejected" | "cancelled" | "executed" | "invalidated";
+
+export type ApprovalRole = "TenantOwner" | "Accountant" | "Staff" | "ReadOnly";
+
+export interface ApprovalStep {
+  roles: ApprovalRole[];
+}
+
+export interface ApprovalPolicy {
+  id: string;
+  action: ApprovalAction;
+  name: string;
+  minAmount: number | null; // bu tutardan itibaren; null = her tutar
+  steps: ApprovalStep[]; // sırayla onaylanır
+  requireDistinctPreparer: boolean; // hazırlayan/talep eden onaylayamaz
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApprovalPolicyInput {
+  action: ApprovalAction;
+  name: string;
+  minAmount?: number | null;
+  steps: ApprovalStep[];
+  requireDistinctPreparer?: boolean;
+  isActive?: boolean;
+}
+
+export type UpdateApprovalPolicyInput = Partial<Omit<ApprovalPolicyInput, "action">>;
+
+export interface ApprovalRequest {
+  id: string;
+  policyId: string | null;
+  action: ApprovalAction;
+  resourceId: string | null;
+  clientCompanyId: string | null;
+  clientCompany?: { id: string; name: string };
+  amount: number | null;
+  summary: string;
+  payload: Record<string, unknown>;
+  steps: ApprovalStep[];
+  requireDistinctPreparer: boolean;
+  currentStep: number;
+  status: ApprovalRequestStatus;
+  comment: string | null;
+  requestedByUserId: string;
+  preparedByUserId: string | null;
+  decidedAt: string | null;
+  executedAt: string | null;
+  result: Record<string, unknown> | null;
+  createdAt: string;
+  canDecide?: boolean;
+}
+
+export interface ApprovalDecision {
+  id: string;
+  step: number;
+  userId: string;
+  userName: string | null;
+  onBehalfOfUserId: string | null; // vekaleten verilen kararlarda asıl onaylayıcı
+  onBehalfOfName: string | null;
+  decision: "approved" | "rejected";
+  comment: string | null;
+  createdAt: string;
+}
+
+export interface ApprovalRequestDetail extends ApprovalRequest {
+  requestedByName: string | null;
+  preparedByName: string | null;
+  decisions: ApprovalDecision[];
+}
+
+export interface ApprovalRequestFilters {
+  status?: ApprovalRequestStatus;
+  action?: ApprovalAction;
+  clientCompanyId?: string;
+  awaitingMe?: boolean;
+}
+
+export interface ApprovalDelegation {
+  id: string;
+  delegatorUserId: string;
+  delegatorName: string | null;
+  delegateUserId: string;
+  delegateName: string | null;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+  revokedAt: string | null;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface DelegationInput {
+  delegatorUserId?: string; // varsayılan: kendisi
+  delegateUserId: string;
+  startsAt: string;
+  endsAt: string;
+  reason?: string | null;
+}
+
+export interface PaymentOrderInput {
+  clientCompanyId: string;
+  bankAccountId: string;
+  paymentType: "FAST" | "EFT" | "HAVALE";
+  creditorIban: string;
+  creditorName: string;
+  amount: number;
+  description?: string | null;
+  purpose?: "SALA" | "PENS" | "RENT" | "BILL" | "TAXS" | "SUPP" | "LOAN" | "OTHR";
+  comment?: string | null; // onaylayıcılar için
+}
+
+export interface PaymentInitiation {
+  paymentId: string;
+  transactionStatus: string;
+  scaRequired: boolean;
+  scaRedirectUrl?: string;
+  createdAt: string;
+}
+
+export type PaymentOrderResult =
+  | { status: "initiated"; payment: PaymentInitiation }
+  | { status: "pending_approval"; approvalRequest: ApprovalRequest };
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  efatura_submit: "e-Fatura gönderimi",
+  payment_initiate: "Ödeme başlatma",
+  beyanname_submit: "Beyanname gönderimi",
+  masak_submit: "MASAK bildirimi",
+};
+
+export const approvalClient = {
+  async listPolicies(): Promise<{ data: ApprovalPolicy[] }> {
+    return apiClient.get("/api/v1/approvals/policies");
+  },
+
+  async createPolicy(input: ApprovalPolicyInput): Promise<{ data: ApprovalPolicy }> {
+    return apiClient.post("/api/v1/approvals/policies", input);
+  },
+
+  async updatePolicy(id: string, input: UpdateApprovalPolicyInput): Promise<{ data: ApprovalPolicy }> {
+    return apiClient.patch(`/api/v1/approvals/policies/${id}`, input);
+  },
+
+  async deletePolicy(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/approvals/policies/${id}`);
+  },
+
+  async listRequests(filters: ApprovalRequestFilters = {}): Promise<{ data: ApprovalRequest[] }> {
+    return apiClient.get("/api/v1/approvals/requests", {
+      params: { ...filters, awaitingMe: filters.awaitingMe ? "true" : undefined },
+    });
+  },
+
+  async getRequest(id: string): Promise<{ data: ApprovalRequestDetail }> {
+    return apiClient.get(`/api/v1/approvals/requests/${id}`);
+  },
+
+  /** Fatura, beyanname veya MASAK raporu için onay iste */
+  async requestApproval(input: {
+    action: Exclude<ApprovalAction, "payment_initiate">;
+    resourceId: string;
+    comment?: string | null;
+  }): Promise<{ data: ApprovalRequest }> {
+    return apiClient.post("/api/v1/approvals/requests", input);
+  },
+
+  async approve(id: string, comment?: string | null): Promise<{ data: ApprovalRequest }> {
+    return apiClient.post(`/api/v1/approvals/requests/${id}/approve`, { comment });
+  },
+
+  async reject(id: string, comment: string): Promise<{ data: ApprovalRequest }> {
+    return apiClient.post(`/api/v1/approvals/requests/${id}/reject`, { comment });
+  },
+
+  async cancel(id: string): Promise<{ data: ApprovalRequest }> {
+    return apiClient.post(`/api/v1/approvals/requests/${id}/cancel`, {});
+  },
+
+  async listDelegations(): Promise<{ data: ApprovalDelegation[] }> {
+    return apiClient.get("/api/v1/approvals/delegations");
+  },
+
+  async createDelegation(input: DelegationInput): Promise<{ data: ApprovalDelegation }> {
+    return apiClient.post("/api/v1/approvals/delegations", input);
+  },
+
+  async revokeDelegation(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/approvals/delegations/${id}`);
+  },
+
+  /** Ödemeyi başlat; onay politikası varsa onay talebi açılır */
+  async initiatePayment(input: PaymentOrderInput): Promise<{ data: PaymentOrderResult }> {
+    return apiClient.post("/api/v1/payments", input);
+  },
+
+  /** Onaylanmış ödeme talebini bankaya gönder */
+  async initiateApprovedPayment(approvalRequestId: string): Promise<{ data: PaymentInitiation }> {
+    return apiClient.post(`/api/v1/payments/${approvalRequestId}/initiate`, {});
+  },
+};
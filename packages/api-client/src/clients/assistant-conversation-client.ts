@@ -0,0 +1,109 @@
+import { apiClient } from "../api-client";
+
+// AI asistan konuşmaları: kayıtlı konuşmalar, yanıt kaynakları (atıflar) ve geri bildirim
+
+export type AssistantFeedbackRating = "up" | "down";
+export type AssistantExportFormat = "json" | "markdown";
+
+/** Bir yanıtın dayandığı kayıt: belge ve bağlı olduğu fatura/işlem */
+export interface AssistantCitation {
+  id: string;
+  rank: number;
+  documentId: string | null; // kayıt silinmişse null
+  invoiceId: string | null;
+  transactionId: string | null;
+  label: string;
+  similarity: number;
+  rerankScore: number | null;
+  snippet: string | null;
+}
+
+export interface AssistantMessage {
+  id: string;
+  conversationId: string;
+  role: "user" | "assistant";
+  content: string;
+  searchMetrics: Record<string, unknown> | null;
+  feedbackRating: AssistantFeedbackRating | null;
+  feedbackComment: string | null;
+  feedbackAt: string | null;
+  createdAt: string;
+  citations: AssistantCitation[];
+}
+
+export interface AssistantConversation {
+  id: string;
+  title: string;
+  type: "GENEL" | "RAPOR" | "RISK";
+  clientCompanyId: string | null;
+  messageCount: number;
+  lastMessageAt: string;
+  createdAt: string;
+  matchedSnippet?: string | null; // aramada eşleşen mesaj metni
+}
+
+export interface AssistantConversationDetail extends AssistantConversation {
+  messages: AssistantMessage[];
+}
+
+export interface AssistantChatInput {
+  question: string;
+  conversationId?: string; // yoksa yeni konuşma başlatılır
+  type?: "GENEL" | "RAPOR" | "RISK";
+  companyId?: string;
+  useHybridSearch?: boolean;
+  useReranking?: boolean;
+}
+
+export interface AssistantChatResponse {
+  answer: string;
+  conversationId: string | null; // kayıt başarısız olursa null
+  messageId: string | null;
+  sourcesUsed: Array<{ documentId: string; similarity: number; rerankScore?: number }>;
+  citations: AssistantCitation[];
+  searchMetrics: {
+    hybridResultsCount?: number;
+    ragDocumentsUsed: number;
+    processingTimeMs: number;
+  };
+}
+
+export const assistantConversationClient = {
+  async ask(input: AssistantChatInput): Promise<{ data: AssistantChatResponse }> {
+    return apiClient.post("/api/v1/ai/chat/enhanced", input);
+  },
+
+  async listConversations(params?: {
+    search?: string;
+    page?: number;
+    pageSize?: number;
+  }): Promise<{ data: AssistantConversation[]; total: number; page: number; pageSize: number }> {
+    return apiClient.get("/api/v1/ai/conversations", { params });
+  },
+
+  async getConversation(id: string): Promise<{ data: AssistantConversationDetail }> {
+    return apiClient.get(`/api/v1/ai/conversations/${id}`);
+  },
+
+  async renameConversation(id: string, title: string): Promise<{ data: AssistantConversation }> {
+    return apiClient.patch(`/api/v1/ai/conversations/${id}`, { title });
+  },
+
+  async deleteConversation(id: string): Promise<{ data: { message: string } }> {
+    return apiClient.delete(`/api/v1/ai/conversations/${id}`);
+  },
+
+  async exportConversation(id: string, format: AssistantExportFormat = "markdown"): Promise<Blob> {
+    return apiClient.get(`/api/v1/ai/conversations/${id}/export`, {
+      params: { format },
+      responseType: "blob",
+    });
+  },
+
+  async submitFeedback(
+    messageId: string,
+    feedback: { rating: AssistantFeedbackRating; comment?: string | null }
+  ): Promise<{ data: AssistantMessage }> {
+    return apiClient.post(`/api/v1/ai/messages/${messageId}/feedback`, feedback);
+  },
+};
@@ -50,11 +50,36 @@ export interface BaBsFormLine {
   crossCheckMatch?: boolean;
 }
 
+export type BaBsMismatchType = "amount" | "document_count" | "missing_in_counterparty" | "missing_in_form";
+
+export interface BaBsCrossCheckError {
+  lineId: string | null; // null: karşı taraf bizi bildiriyor, bizim formda satır yok
+  counterpartyCompanyId: string;
+  counterpartyName: string;
+  counterpartyTaxNumber: string;
+  type: BaBsMismatchType;
+  ourAmount: number;
+  theirAmount: number;
+  ourDocumentCount: number;
+  theirDocumentCount: number;
+  difference: number;
+  message: string;
+}
+
 export interface CrossCheckResult {
   formId: string;
   crossCheckStatus: string;
-  errors: any[];
-  checkedLines: number;
+  errors: BaBsCrossCheckError[];
+  checkedLines: number; // aynı büroya ait karşı taraflar
+  externalLines: number; // mutabakat mektubu ile teyit edilecek karşı taraflar
+}
+
+export interface BaBsExportValidation {
+  formId: string;
+  formType: string;
+  period: string;
+  valid: boolean;
+  errors: { field: string; message: string }[];
 }
 
 export const babsClient = {
@@ -96,4 +121,27 @@ export const babsClient = {
   async crossCheck(id: string): Promise<{ data: CrossCheckResult }> {
     return apiClient.post(`/api/v1/babs/forms/${id}/cross-check`);
   },
+
+  /** GİB e-Beyanname şema kontrolü */
+  async validateExport(id: string): Promise<{ data: BaBsExportValidation }> {
+    return apiClient.get(`/api/v1/babs/forms/${id}/export/validation`);
+  },
+
+  /** Formu GİB e-Beyanname XML olarak indir */
+  async exportForm(id: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/babs/forms/${id}/export`, { responseType: "blob" });
+  },
+
+  /** Karşı taraf için mutabakat mektubu (PDF) */
+  async downloadReconciliationLetter(id: string, lineId: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/babs/forms/${id}/lines/${lineId}/reconciliation-letter`, { responseType: "blob" });
+  },
+
+  async sendReconciliationLetter(
+    id: string,
+    lineId: string,
+    email: string
+  ): Promise<{ data: { formId: string; lineId: string; sentTo: string; sentAt: string } }> {
+    return apiClient.post(`/api/v1/babs/forms/${id}/lines/${lineId}/reconciliation-letter/send`, { email });
+  },
 };
@@ -0,0 +1,137 @@
+import { apiClient } from "../api-client";
+
+// Banka Mutabakatı
+
+export type StatementLineStatus = "unmatched" | "partially_matched" | "matched";
+export type MatchReason =
+  | "amount"
+  | "partial_amount"
+  | "invoice_number"
+  | "tax_number"
+  | "iban"
+  | "name"
+  | "date"
+  | "reference";
+
+export interface ReconciliationMatch {
+  id: string;
+  matchGroupId: string; // Birlikte oluşturulan eşleştirmeler birlikte kaldırılır
+  invoiceId: string | null;
+  transactionId: string | null;
+  amount: number;
+  method: "auto" | "manual";
+  confidence: number | null;
+}
+
+export interface StatementLine {
+  id: string;
+  externalId: string;
+  bookingDate: string;
+  valueDate: string | null;
+  description: string;
+  amount: number; // + giriş, - çıkış
+  currency: string;
+  balanceAfter: number | null;
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  counterpartyTaxNumber: string | null;
+  matchedAmount: number;
+  status: StatementLineStatus;
+  matches: ReconciliationMatch[];
+}
+
+export interface ReconciliationWorkspace {
+  bankAccount: { id: string; bankName: string; iban: string; currency: string; ledgerAccountCode: string | null };
+  summary: {
+    lineCount: number;
+    matchedCount: number;
+    partiallyMatchedCount: number;
+    unmatchedCount: number;
+    unmatchedAmount: number;
+  };
+  lines: StatementLine[];
+}
+
+export interface MatchCandidate {
+  targetType: "invoice" | "transaction";
+  targetId: string;
+  reference: string;
+  counterparty: string | null;
+  date: string;
+  openAmount: number;
+  confidence: number; // 0-1
+  reasons: MatchReason[];
+}
+
+export interface AutoMatchResult {
+  matchedLines: number;
+  matchCount: number;
+  suggestions: { statementLineId: string; candidates: MatchCandidate[] }[];
+}
+
+export interface StatementImport {
+  id: string;
+  format: "mt940" | "camt053" | "excel";
+  statementReference: string;
+  fileName: string;
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lineCount: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  importedByUserId: string | null;
+  createdAt: string;
+}
+
+export interface ManualMatchData {
+  statementLineIds: string[];
+  invoiceIds?: string[];
+  transactionIds?: string[];
+}
+
+export const bankReconciliationClient = {
+  /** Banka hesabının ekstre satırları ve eşleştirmeleri */
+  async getWorkspace(
+    bankAccountId: string,
+    filters: { status?: StatementLineStatus; from?: string; to?: string } = {}
+  ): Promise<{ data: ReconciliationWorkspace }> {
+    return apiClient.get(`/api/v1/bank-reconciliation/${bankAccountId}`, { params: filters });
+  },
+
+  /** Banka hesabına yüklenmiş ekstre dosyaları */
+  async listStatementImports(bankAccountId: string): Promise<{ data: StatementImport[] }> {
+    return apiClient.get(`/api/v1/bank-reconciliation/${bankAccountId}/statement-imports`);
+  },
+
+  /** Ekstre satırı için önerilen fatura ve muhasebe kayıtları */
+  async getCandidates(bankAccountId: string, statementLineId: string): Promise<{ data: MatchCandidate[] }> {
+    return apiClient.get(`/api/v1/bank-reconciliation/${bankAccountId}/lines/${statementLineId}/candidates`);
+  },
+
+  /** Açık ekstre satırlarını otomatik eşleştir */
+  async autoMatch(bankAccountId: string): Promise<{ data: AutoMatchResult }> {
+    return apiClient.post(`/api/v1/bank-reconciliation/${bankAccountId}/auto-match`, {});
+  },
+
+  /** Elle eşleştir (bir satır → çok fatura veya çok satır → bir fatura) */
+  async match(bankAccountId: string, data: ManualMatchData): Promise<{ data: { matchGroupId: string; matchCount: number } }> {
+    return apiClient.post(`/api/v1/bank-reconciliation/${bankAccountId}/matches`, data);
+  },
+
+  /** Eşleştirmeyi kaldır */
+  async unmatch(bankAccountId: string, matchGroupId: string): Promise<{ data: { message: string } }> {
+    return apiClient.delete(`/api/v1/bank-reconciliation/${bankAccountId}/matches/${matchGroupId}`);
+  },
+
+  /** Ekstre / defter fark raporunu PDF veya Excel olarak indir */
+  async exportDifferenceReport(bankAccountId: string, asOf: string, format: "pdf" | "excel"): Promise<Blob> {
+    return apiClient.get(`/api/v1/bank-reconciliation/${bankAccountId}/difference-report`, {
+      params: { asOf, format },
+      responseType: "blob",
+    });
+  },
+};
@@ -48,6 +48,20 @@ export interface BeyannameCreateInput {
   notes?: string;
 }
 
+export interface EBeyannameFieldError {
+  field: string;
+  message: string;
+}
+
+export interface EBeyannameValidation {
+  beyannameId: string;
+  type: string;
+  period: string;
+  clientCompanyName: string;
+  valid: boolean;
+  errors: EBeyannameFieldError[];
+}
+
 export const beyannameClient = {
   async getDashboard(): Promise<{ data: BeyannameDashboardStats }> {
     return apiClient.get("/api/v1/beyanname/dashboard");
@@ -83,4 +97,16 @@ export const beyannameClient = {
   ): Promise<{ data: Beyanname }> {
     return apiClient.patch(`/api/v1/beyanname/${id}/status`, { status, notes });
   },
+
+  async validateEBeyanname(id: string): Promise<{ data: EBeyannameValidation }> {
+    return apiClient.get(`/api/v1/beyanname/${id}/export/validation`);
+  },
+
+  async exportEBeyanname(id: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/beyanname/${id}/export`, { responseType: "blob" });
+  },
+
+  async exportEBeyannamePeriod(period: string): Promise<Blob> {
+    return apiClient.get("/api/v1/beyanname/export", { params: { period }, responseType: "blob" });
+  },
 };
@@ -0,0 +1,183 @@
+import { apiClient, getCsrfToken } from "../api-client";
+
+const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || "";
+
+// Bütçe ve bütçe-fiili karşılaştırması
+
+export type BudgetStatus = "draft" | "approved" | "superseded";
+
+export interface Budget {
+  id: string;
+  clientCompanyId: string;
+  fiscalYear: number;
+  version: number; // 1 = orijinal, 2+ = revizyon
+  name: string;
+  status: BudgetStatus;
+  revisedFromId: string | null;
+  alertThresholdPercent: number; // tolerans aşılınca risk uyarısı
+  notes: string | null;
+  approvedAt: string | null;
+  total?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetLine {
+  ledgerAccountId: string;
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  dimensionValueId: string | null;
+  dimensionValue: { id: string; code: string; name: string; dimension: { id: string; code: string; name: string } } | null;
+  amounts: number[]; // Ocak-Aralık
+  total: number;
+}
+
+export interface BudgetDetail extends Budget {
+  lines: BudgetLine[];
+}
+
+export interface CreateBudgetInput {
+  clientCompanyId: string;
+  fiscalYear: number;
+  name: string;
+  alertThresholdPercent?: number;
+  notes?: string | null;
+}
+
+export type UpdateBudgetInput = Partial<Pick<CreateBudgetInput, "name" | "alertThresholdPercent" | "notes">>;
+
+export interface BudgetLineInput {
+  ledgerAccountId: string;
+  dimensionValueId?: string | null;
+  amounts: number[];
+}
+
+export interface BudgetImportResult {
+  lines: number;
+  errors: Array<{ row: number; message: string }>; // hata varsa hiçbir satır aktarılmaz
+}
+
+export interface BudgetVarianceRow {
+  ledgerAccountId: string;
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  dimensionValueId: string | null;
+  dimensionValueName: string | null;
+  budget: number;
+  actual: number;
+  variance: number; // fiili - bütçe
+  variancePercent: number | null;
+  ytdBudget: number;
+  ytdActual: number;
+  ytdVariance: number;
+  ytdVariancePercent: number | null;
+  favorable: boolean;
+  overThreshold: boolean;
+}
+
+export interface BudgetVariance {
+  budgetId: string;
+  fiscalYear: number;
+  version: number;
+  month: number;
+  alertThresholdPercent: number;
+  rows: BudgetVarianceRow[];
+  totals: {
+    incomeBudget: number;
+    incomeActual: number;
+    expenseBudget: number;
+    expenseActual: number;
+    ytdIncomeBudget: number;
+    ytdIncomeActual: number;
+    ytdExpenseBudget: number;
+    ytdExpenseActual: number;
+  };
+}
+
+export const budgetClient = {
+  async list(clientCompanyId: string, fiscalYear?: number): Promise<{ data: Budget[] }> {
+    return apiClient.get("/api/v1/budgets", { params: { clientCompanyId, fiscalYear } });
+  },
+
+  async get(id: string): Promise<{ data: BudgetDetail }> {
+    return apiClient.get(`/api/v1/budgets/${id}`);
+  },
+
+  async create(input: CreateBudgetInput): Promise<{ data: Budget }> {
+    return apiClient.post("/api/v1/budgets", input);
+  },
+
+  async update(id: string, input: UpdateBudgetInput): Promise<{ data: Budget }> {
+    return apiClient.patch(`/api/v1/budgets/${id}`, input);
+  },
+
+  async delete(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/budgets/${id}`);
+  },
+
+  async setLines(id: string, lines: BudgetLineInput[]): Promise<{ data: BudgetDetail }> {
+    return apiClient.put(`/api/v1/budgets/${id}/lines`, { lines });
+  },
+
+  /** Excel şablonu veya bütçenin kendisi */
+  async exportWorkbook(id: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/budgets/${id}/export`, { responseType: "blob" });
+  },
+
+  /** Taslak bütçenin satırlarını Excel dosyasından değiştir */
+  async importWorkbook(id: string, file: File): Promise<{ data: BudgetImportResult }> {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const csrfToken = getCsrfToken();
+    const response = await fetch(`${API_URL}/api/v1/budgets/${id}/import`, {
+      method: "POST",
+      headers: {
+        ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+      },
+      credentials: "include",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      let errorMessage = "Bütçe dosyası yüklenemedi.";
+      try {
+        const error: any = await response.json();
+        const rawMessage = error?.error?.message || error?.message;
+        if (typeof rawMessage === "string") {
+          errorMessage = rawMessage;
+        }
+      } catch {
+        errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+      }
+      const error = new Error(errorMessage);
+      (error as any).status = response.status;
+      throw error;
+    }
+
+    return response.json() as Promise<{ data: BudgetImportResult }>;
+  },
+
+  async approve(id: string): Promise<{ data: Budget }> {
+    return apiClient.post(`/api/v1/budgets/${id}/approve`, {});
+  },
+
+  /** Onaylı bütçeden yeni bir taslak revizyon oluştur */
+  async revise(id: string, name?: string): Promise<{ data: Budget }> {
+    return apiClient.post(`/api/v1/budgets/${id}/revise`, { name });
+  },
+
+  async getVariance(id: string, month: number, dimensionValueId?: string): Promise<{ data: BudgetVariance }> {
+    return apiClient.get(`/api/v1/budgets/${id}/variance`, { params: { month, dimensionValueId } });
+  },
+
+  /** Ayın bütçe aşımlarını kontrol et, tolerans aşıldıysa risk uyarısı oluştur */
+  async checkThresholds(
+    clientCompanyId: string,
+    period: string
+  ): Promise<{ data: { budgetId: string | null; period: string; exceeded: BudgetVarianceRow[] } }> {
+    return apiClient.post("/api/v1/budgets/check", { clientCompanyId, period });
+  },
+};
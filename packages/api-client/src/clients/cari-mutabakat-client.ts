@@ -0,0 +1,229 @@
+import { apiClient, getCsrfToken } from "../api-client";
+
+const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || "";
+
+// Cari hesap mutabakatı
+
+export type CariMutabakatStatus = "pending" | "confirmed" | "disputed" | "cancelled";
+
+export interface CariEkstreLine {
+  date: string;
+  type: "invoice" | "payment";
+  documentNo: string | null;
+  description: string;
+  debit: number; // Borç
+  credit: number; // Alacak
+  balance: number;
+}
+
+export interface CariEkstre {
+  clientCompany: { id: string; name: string; taxNumber: string };
+  counterpartyName: string;
+  counterpartyTaxNumber: string;
+  asOfDate: string;
+  lines: CariEkstreLine[];
+  totalDebit: number;
+  totalCredit: number;
+  balance: number; // + karşı taraf borçlu, - karşı taraf alacaklı
+}
+
+export interface CariCounterparty {
+  counterpartyName: string;
+  counterpartyTaxNumber: string;
+  invoiceCount: number;
+  balance: number;
+  lastMutabakat: {
+    id: string;
+    status: CariMutabakatStatus;
+    asOfDate: string;
+    sentAt: string;
+    respondedAt: string | null;
+  } | null;
+}
+
+export interface CariMutabakat {
+  id: string;
+  clientCompanyId: string;
+  clientCompany?: { id: string; name: string };
+  counterpartyName: string;
+  counterpartyTaxNumber: string;
+  email: string;
+  asOfDate: string;
+  balance: number;
+  status: CariMutabakatStatus;
+  expiresAt: string;
+  sentAt: string;
+  reminderCount: number;
+  lastReminderAt: string | null;
+  respondedAt: string | null;
+  responderName: string | null;
+  responseBalance: number | null;
+  responseNote: string | null;
+  responseDocumentId: string | null;
+  attachmentDocumentId: string | null;
+  taskId: string | null;
+}
+
+export interface CariMutabakatSummary {
+  clientCompanyId: string;
+  clientCompanyName: string;
+  pending: number;
+  confirmed: number;
+  disputed: number;
+  expired: number; // cevap bekleyen ve bağlantı süresi dolmuş
+  lastSentAt: string | null;
+}
+
+export type PublicCariMutabakat =
+  | {
+      status: CariMutabakatStatus;
+      expired: false;
+      clientCompany: { name: string; taxNumber: string };
+      counterpartyName: string;
+      counterpartyTaxNumber: string;
+      asOfDate: string;
+      balance: number;
+      expiresAt: string;
+      respondedAt: string | null;
+      lines: CariEkstreLine[];
+    }
+  | {
+      // süresi dolmuş bağlantı: ekstre ve bakiye gösterilmez
+      status: CariMutabakatStatus;
+      expired: true;
+      clientCompany: { name: string };
+      counterpartyName: string;
+      asOfDate: string;
+      expiresAt: string;
+      respondedAt: string | null;
+    };
+
+export interface CariMutabakatResponseInput {
+  decision: "confirm" | "dispute";
+  responderName: string;
+  responseBalance?: number | null; // itirazda karşı tarafın kendi bakiyesi, aynı işaretle
+  note?: string | null;
+  file?: File | null;
+}
+
+export const cariMutabakatClient = {
+  /** Müşterinin carileri ve bakiyeleri */
+  async listCounterparties(clientCompanyId: string, asOfDate: string): Promise<{ data: CariCounterparty[] }> {
+    return apiClient.get("/api/v1/cari-mutabakat/counterparties", { params: { clientCompanyId, asOfDate } });
+  },
+
+  /** Cari hesap ekstresi */
+  async getStatement(
+    clientCompanyId: string,
+    counterpartyTaxNumber: string,
+    asOfDate: string
+  ): Promise<{ data: CariEkstre }> {
+    return apiClient.get("/api/v1/cari-mutabakat/statement", {
+      params: { clientCompanyId, counterpartyTaxNumber, asOfDate },
+    });
+  },
+
+  async downloadStatement(clientCompanyId: string, counterpartyTaxNumber: string, asOfDate: string): Promise<Blob> {
+    return apiClient.get("/api/v1/cari-mutabakat/statement/pdf", {
+      params: { clientCompanyId, counterpartyTaxNumber, asOfDate },
+      responseType: "blob",
+    });
+  },
+
+  /** Müşteri bazında mutabakat durumu */
+  async getSummary(): Promise<{ data: CariMutabakatSummary[] }> {
+    return apiClient.get("/api/v1/cari-mutabakat/summary");
+  },
+
+  async list(params?: {
+    clientCompanyId?: string;
+    status?: CariMutabakatStatus;
+    page?: number;
+    pageSize?: number;
+  }): Promise<{ data: CariMutabakat[]; pagination: { page: number; pageSize: number; total: number; totalPages: number } }> {
+    return apiClient.get("/api/v1/cari-mutabakat", { params });
+  },
+
+  async get(id: string): Promise<{ data: CariMutabakat }> {
+    return apiClient.get(`/api/v1/cari-mutabakat/${id}`);
+  },
+
+  /** Mutabakat talebini e-posta ile gönder */
+  async send(input: {
+    clientCompanyId: string;
+    counterpartyTaxNumber: string;
+    email: string;
+    asOfDate: string;
+  }): Promise<{ data: CariMutabakat }> {
+    return apiClient.post("/api/v1/cari-mutabakat", input);
+  },
+
+  async remind(id: string): Promise<{ data: CariMutabakat }> {
+    return apiClient.post(`/api/v1/cari-mutabakat/${id}/remind`, {});
+  },
+
+  /** Bir haftadır cevap vermeyenlere hatırlatma gönder */
+  async sendDueReminders(): Promise<{ data: { sent: number; failed: string[] } }> {
+    return apiClient.post("/api/v1/cari-mutabakat/reminders", {});
+  },
+
+  async cancel(id: string): Promise<{ data: CariMutabakat }> {
+    return apiClient.post(`/api/v1/cari-mutabakat/${id}/cancel`, {});
+  },
+
+  /** Karşı taraf: bağlantıdaki mutabakat ve ekstre */
+  async getPublic(token: string): Promise<{ data: PublicCariMutabakat }> {
+    return apiClient.get(`/api/v1/public/cari-mutabakat/${encodeURIComponent(token)}`);
+  },
+
+  async downloadPublicStatement(token: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/public/cari-mutabakat/${encodeURIComponent(token)}/pdf`, { responseType: "blob" });
+  },
+
+  /** Karşı taraf: onay veya itiraz, isteğe bağlı dosya ile */
+  async respond(
+    token: string,
+    input: CariMutabakatResponseInput
+  ): Promise<{ data: { status: CariMutabakatStatus; respondedAt: string } }> {
+    const formData = new FormData();
+    formData.append("decision", input.decision);
+    formData.append("responderName", input.responderName);
+    if (input.responseBalance !== undefined && input.responseBalance !== null) {
+      formData.append("responseBalance", String(input.responseBalance));
+    }
+    if (input.note) {
+      formData.append("note", input.note);
+    }
+    if (input.file) {
+      formData.append("file", input.file);
+    }
+
+    const csrfToken = getCsrfToken();
+    const response = await fetch(`${API_URL}/api/v1/public/cari-mutabakat/${encodeURIComponent(token)}/respond`, {
+      method: "POST",
+      headers: {
+        ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+      },
+      credentials: "include",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      let errorMessage = "Bir hata oluştu.";
+      try {
+        const error: any = await response.json();
+        const rawMessage = error?.error?.message || error?.message;
+        if (typeof rawMessage === "string") {
+          errorMessage = rawMessage;
+        }
+      } catch {
+        errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+      }
+      const error = new Error(errorMessage);
+      (error as any).status = response.status;
+      throw error;
+    }
+
+    return response.json() as Promise<{ data: { status: CariMutabakatStatus; respondedAt: string } }>;
+  },
+};
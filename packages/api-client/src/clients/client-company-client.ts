@@ -29,6 +29,9 @@ export interface BankAccount {
   accountNumber: string | null;
   currency: string;
   isPrimary: boolean;
+  ledgerAccountCode?: string | null; // Döviz hesabının muavin kodu, ör. 102.02
+  currencyBalance?: number | null; // Hesap para birimi cinsinden bakiye
+  balanceDate?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,250 @@
+import { apiClient } from "../api-client";
+
+// Cari hesaplar: cari kartlar, açık kalem takibi, yaşlandırma
+
+export type CounterpartyType = "customer" | "supplier" | "both";
+export type CounterpartyPaymentDirection = "TAHSILAT" | "ODEME";
+export type CounterpartyPaymentMethod = "nakit" | "havale" | "cek" | "senet" | "kredi_karti" | "mahsup";
+export type AgingSide = "receivable" | "payable";
+export type AgingBucket = "current" | "1-30" | "31-60" | "61-90" | "91-120" | "120+";
+
+export interface CounterpartyAddress {
+  label?: string | null;
+  address: string;
+  district?: string | null;
+  city?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+}
+
+export interface Counterparty {
+  id: string;
+  clientCompanyId: string;
+  clientCompany?: { id: string; name: string };
+  name: string;
+  taxNumber: string | null;
+  taxOffice: string | null;
+  type: CounterpartyType;
+  email: string | null;
+  phone: string | null;
+  addresses: CounterpartyAddress[];
+  ibans: string[];
+  aliases: string[];
+  paymentTermDays: number | null; // vade (gün)
+  receivableAccountCode: string | null; // 120.xxxx
+  payableAccountCode: string | null; // 320.xxxx
+  isActive: boolean;
+  invoiceCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCounterpartyInput {
+  clientCompanyId: string;
+  name: string;
+  taxNumber?: string | null;
+  taxOffice?: string | null;
+  type?: CounterpartyType;
+  email?: string | null;
+  phone?: string | null;
+  addresses?: CounterpartyAddress[];
+  ibans?: string[];
+  aliases?: string[];
+  paymentTermDays?: number | null;
+  receivableAccountCode?: string | null;
+  payableAccountCode?: string | null;
+  createLedgerAccounts?: boolean;
+}
+
+export type UpdateCounterpartyInput = Partial<Omit<CreateCounterpartyInput, "clientCompanyId">> & {
+  isActive?: boolean;
+};
+
+export interface CounterpartySyncResult {
+  created: number;
+  linked: number;
+  unmatched: number;
+}
+
+export interface CounterpartyOpenItem {
+  invoiceId: string;
+  externalId: string | null;
+  type: string;
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  totalAmount: number;
+  paidAmount: number;
+  openAmount: number;
+  daysOverdue: number;
+}
+
+export interface CounterpartyPaymentAllocation {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  invoice?: { id: string; externalId: string | null };
+}
+
+export interface CounterpartyPayment {
+  id: string;
+  clientCompanyId: string;
+  counterpartyId: string;
+  counterparty?: { id: string; name: string; taxNumber: string | null };
+  direction: CounterpartyPaymentDirection;
+  date: string;
+  amount: number;
+  currency: string;
+  method: CounterpartyPaymentMethod;
+  reference: string | null;
+  description: string | null;
+  allocatedAmount: number;
+  allocations: CounterpartyPaymentAllocation[];
+  createdAt: string;
+}
+
+export interface RecordCounterpartyPaymentInput {
+  counterpartyId: string;
+  direction: CounterpartyPaymentDirection;
+  date: string;
+  amount: number;
+  currency?: string;
+  method: CounterpartyPaymentMethod;
+  reference?: string | null;
+  description?: string | null;
+  allocations?: Array<{ invoiceId: string; amount: number }>;
+  autoAllocate?: boolean; // false: avans olarak bırak
+}
+
+export interface AgingRow {
+  counterpartyId: string | null;
+  counterpartyName: string;
+  counterpartyTaxNumber: string | null;
+  invoiceCount: number;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  unapplied: number; // kapatılmamış tahsilat/ödeme (avans)
+  net: number;
+  oldestDueDate: string | null;
+}
+
+export interface AgingReport {
+  clientCompany: { id: string; name: string };
+  side: AgingSide;
+  asOfDate: string;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number> & { total: number; unapplied: number; net: number };
+  periodDays: number;
+  periodVolume: number;
+  days: number | null; // DSO / DPO
+}
+
+export interface TurnoverMetrics {
+  asOfDate: string;
+  periodDays: number;
+  receivables: number;
+  payables: number;
+  sales: number;
+  purchases: number;
+  dso: number | null;
+  dpo: number | null;
+}
+
+type Pagination = { page: number; pageSize: number; total: number; totalPages: number };
+
+export const counterpartyClient = {
+  async list(params?: {
+    clientCompanyId?: string;
+    type?: CounterpartyType;
+    search?: string;
+    isActive?: boolean;
+    page?: number;
+    pageSize?: number;
+  }): Promise<{ data: Counterparty[]; pagination: Pagination }> {
+    const { isActive, ...rest } = params ?? {};
+    return apiClient.get("/api/v1/counterparties", {
+      params: { ...rest, isActive: isActive === undefined ? undefined : String(isActive) },
+    });
+  },
+
+  async get(id: string): Promise<{ data: Counterparty }> {
+    return apiClient.get(`/api/v1/counterparties/${id}`);
+  },
+
+  async create(input: CreateCounterpartyInput): Promise<{ data: Counterparty }> {
+    return apiClient.post("/api/v1/counterparties", input);
+  },
+
+  async update(id: string, input: UpdateCounterpartyInput): Promise<{ data: Counterparty }> {
+    return apiClient.patch(`/api/v1/counterparties/${id}`, input);
+  },
+
+  /** Faturalardan cari kart aç ve faturaları bağla */
+  async sync(clientCompanyId: string): Promise<{ data: CounterpartySyncResult }> {
+    return apiClient.post("/api/v1/counterparties/sync", { clientCompanyId });
+  },
+
+  async getOpenItems(id: string, type?: "SATIŞ" | "ALIŞ"): Promise<{ data: CounterpartyOpenItem[] }> {
+    return apiClient.get(`/api/v1/counterparties/${id}/open-items`, { params: { type } });
+  },
+
+  /** Cari hesap ekstresi (VKN/TCKN'li cariler) */
+  async getStatement(id: string, asOfDate: string): Promise<{ data: any }> {
+    return apiClient.get(`/api/v1/counterparties/${id}/statement`, { params: { asOfDate } });
+  },
+
+  async downloadStatement(id: string, asOfDate: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/counterparties/${id}/statement/pdf`, {
+      params: { asOfDate },
+      responseType: "blob",
+    });
+  },
+
+  /** Alacak / borç yaşlandırma */
+  async getAging(params: {
+    clientCompanyId: string;
+    side: AgingSide;
+    asOfDate: string;
+    periodDays?: number;
+  }): Promise<{ data: AgingReport }> {
+    return apiClient.get("/api/v1/counterparties/aging", { params });
+  },
+
+  /** DSO / DPO */
+  async getMetrics(params: {
+    clientCompanyId: string;
+    asOfDate: string;
+    periodDays?: number;
+  }): Promise<{ data: TurnoverMetrics }> {
+    return apiClient.get("/api/v1/counterparties/metrics", { params });
+  },
+
+  async listPayments(params?: {
+    clientCompanyId?: string;
+    counterpartyId?: string;
+    direction?: CounterpartyPaymentDirection;
+    page?: number;
+    pageSize?: number;
+  }): Promise<{ data: CounterpartyPayment[]; pagination: Pagination }> {
+    return apiClient.get("/api/v1/counterparties/payments", { params });
+  },
+
+  async recordPayment(input: RecordCounterpartyPaymentInput): Promise<{ data: CounterpartyPayment }> {
+    return apiClient.post("/api/v1/counterparties/payments", input);
+  },
+
+  async allocatePayment(
+    id: string,
+    allocations?: Array<{ invoiceId: string; amount: number }>
+  ): Promise<{ data: CounterpartyPayment }> {
+    return apiClient.post(`/api/v1/counterparties/payments/${id}/allocate`, { allocations });
+  },
+
+  async unallocatePayment(id: string): Promise<{ data: CounterpartyPayment }> {
+    return apiClient.post(`/api/v1/counterparties/payments/${id}/unallocate`, {});
+  },
+
+  async deletePayment(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/counterparties/payments/${id}`);
+  },
+};
@@ -0,0 +1,184 @@
+import { apiClient } from "../api-client";
+
+// Analitik boyutlar: masraf merkezi, proje, şube, etiket; varsayılanlar ve gider dağıtımı
+
+export type DimensionType = "cost_center" | "project" | "branch" | "tag";
+
+export interface DimensionValue {
+  id: string;
+  dimensionId: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+}
+
+export interface Dimension {
+  id: string;
+  code: string;
+  name: string;
+  type: DimensionType;
+  allowMultiple: boolean; // etiketler: bir satırda birden fazla değer
+  isActive: boolean;
+  values: DimensionValue[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateDimensionInput {
+  code: string;
+  name: string;
+  type?: DimensionType;
+  allowMultiple?: boolean;
+}
+
+export type UpdateDimensionInput = Partial<Omit<CreateDimensionInput, "code">> & { isActive?: boolean };
+
+export interface DimensionDefault {
+  id: string;
+  dimensionValueId: string;
+  dimensionValue: DimensionValue & { dimension: { id: string; code: string; name: string } };
+  counterpartyId: string | null;
+  counterparty: { id: string; name: string; taxNumber: string | null } | null;
+  ledgerAccountId: string | null;
+  ledgerAccount: { id: string; code: string; name: string } | null; // alt hesaplar dahil
+  createdAt: string;
+}
+
+export interface SetDimensionDefaultInput {
+  dimensionValueId: string;
+  counterpartyId?: string | null;
+  ledgerAccountId?: string | null;
+}
+
+export interface AllocationTarget {
+  id: string;
+  dimensionValueId: string;
+  dimensionValue?: { id: string; code: string; name: string };
+  percentage: number;
+}
+
+export interface AllocationRun {
+  id: string;
+  ruleId: string;
+  period: string;
+  amount: number;
+  transactionId: string | null;
+  createdAt: string;
+}
+
+export interface AllocationRule {
+  id: string;
+  clientCompanyId: string;
+  name: string;
+  sourceAccountCode: string; // e.g. 770, alt hesaplar dahil
+  dimensionId: string;
+  dimension?: { id: string; code: string; name: string };
+  isActive: boolean;
+  targets: AllocationTarget[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAllocationRuleInput {
+  clientCompanyId: string;
+  name: string;
+  sourceAccountCode: string;
+  dimensionId: string;
+  targets: Array<{ dimensionValueId: string; percentage: number }>; // toplam 100
+}
+
+export type UpdateAllocationRuleInput = Partial<Pick<CreateAllocationRuleInput, "name" | "targets">> & {
+  isActive?: boolean;
+};
+
+export interface AllocationPreview {
+  ruleId: string;
+  period: string;
+  amount: number;
+  accounts: Array<{
+    ledgerAccountId: string;
+    code: string;
+    name: string;
+    amount: number;
+    splits: Array<{ dimensionValueId: string; percentage: number; amount: number }>;
+  }>;
+  run: AllocationRun | null;
+}
+
+export const dimensionClient = {
+  async list(params?: { includeInactive?: boolean }): Promise<{ data: Dimension[] }> {
+    return apiClient.get("/api/v1/dimensions", {
+      params: { includeInactive: params?.includeInactive ? "true" : undefined },
+    });
+  },
+
+  async create(input: CreateDimensionInput): Promise<{ data: Dimension }> {
+    return apiClient.post("/api/v1/dimensions", input);
+  },
+
+  async update(id: string, input: UpdateDimensionInput): Promise<{ data: Dimension }> {
+    return apiClient.patch(`/api/v1/dimensions/${id}`, input);
+  },
+
+  async createValue(dimensionId: string, input: { code: string; name: string }): Promise<{ data: DimensionValue }> {
+    return apiClient.post(`/api/v1/dimensions/${dimensionId}/values`, input);
+  },
+
+  async updateValue(id: string, input: { name?: string; isActive?: boolean }): Promise<{ data: DimensionValue }> {
+    return apiClient.patch(`/api/v1/dimensions/values/${id}`, input);
+  },
+
+  async listDefaults(params?: {
+    clientCompanyId?: string;
+    counterpartyId?: string;
+    ledgerAccountId?: string;
+  }): Promise<{ data: DimensionDefault[] }> {
+    return apiClient.get("/api/v1/dimensions/defaults", { params });
+  },
+
+  async setDefault(input: SetDimensionDefaultInput): Promise<{ data: DimensionDefault }> {
+    return apiClient.post("/api/v1/dimensions/defaults", input);
+  },
+
+  async deleteDefault(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/dimensions/defaults/${id}`);
+  },
+
+  /** Cari kart varsayılanlarını mevcut fatura satırlarına uygula */
+  async applyDefaults(clientCompanyId: string): Promise<{ data: { invoices: number; lines: number } }> {
+    return apiClient.post("/api/v1/dimensions/defaults/apply", { clientCompanyId });
+  },
+
+  async listAllocationRules(clientCompanyId: string): Promise<{ data: AllocationRule[] }> {
+    return apiClient.get("/api/v1/dimensions/allocation-rules", { params: { clientCompanyId } });
+  },
+
+  async getAllocationRule(id: string): Promise<{ data: AllocationRule & { runs: AllocationRun[] } }> {
+    return apiClient.get(`/api/v1/dimensions/allocation-rules/${id}`);
+  },
+
+  async createAllocationRule(input: CreateAllocationRuleInput): Promise<{ data: AllocationRule }> {
+    return apiClient.post("/api/v1/dimensions/allocation-rules", input);
+  },
+
+  async updateAllocationRule(id: string, input: UpdateAllocationRuleInput): Promise<{ data: AllocationRule }> {
+    return apiClient.patch(`/api/v1/dimensions/allocation-rules/${id}`, input);
+  },
+
+  async deleteAllocationRule(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/dimensions/allocation-rules/${id}`);
+  },
+
+  async previewAllocation(ruleId: string, period: string): Promise<{ data: AllocationPreview }> {
+    return apiClient.get(`/api/v1/dimensions/allocation-rules/${ruleId}/periods/${period}`);
+  },
+
+  /** Dönemin gider dağıtımını muhasebeleştir */
+  async runAllocation(ruleId: string, period: string): Promise<{ data: AllocationRun }> {
+    return apiClient.post(`/api/v1/dimensions/allocation-rules/${ruleId}/periods/${period}/run`, {});
+  },
+
+  async undoAllocation(ruleId: string, period: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/dimensions/allocation-rules/${ruleId}/periods/${period}`);
+  },
+};
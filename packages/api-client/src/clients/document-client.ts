@@ -274,6 +274,77 @@ export async function uploadZipFile(
   return response.json();
 }
 
+export interface BankStatementImportResult {
+  format: "mt940" | "camt053" | "excel";
+  statements: Array<{
+    importId: string;
+    statementReference: string;
+    bankAccountId: string;
+    iban: string;
+    periodStart: string | null;
+    periodEnd: string | null;
+    openingBalance: number | null;
+    closingBalance: number | null;
+    lineCount: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    errors: Array<{ externalId: string; error: string }>;
+  }>;
+  duplicates: string[]; // Daha önce aktarılmış ekstre referansları
+  warnings: string[];
+}
+
+/**
+ * MT940, camt.053 veya Excel hesap ekstresini yükle ve hareketleri aktar
+ */
+export async function uploadBankStatement(
+  file: File,
+  metadata: {
+    clientCompanyId: string;
+    bankAccountId?: string | null; // Ekstrede IBAN yoksa zorunlu
+  }
+): Promise<{ data: BankStatementImportResult }> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("clientCompanyId", metadata.clientCompanyId);
+  if (metadata.bankAccountId) {
+    formData.append("bankAccountId", metadata.bankAccountId);
+  }
+
+  const token = getAccessToken();
+
+  const response = await fetch(`${API_URL}/api/v1/documents/upload-bank-statement`, {
+    method: "POST",
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    credentials: "include",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    let errorMessage = "Bir hata oluştu.";
+    try {
+      const error = await response.json();
+      const rawMessage = error?.error?.message || error?.message;
+      if (typeof rawMessage === "string") {
+        errorMessage = rawMessage;
+      }
+    } catch {
+      errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+    }
+
+    const error = new Error(errorMessage);
+    (error as any).status = response.status;
+    (error as any).statusCode = response.status;
+    (error as any).response = { status: response.status };
+    throw error;
+  }
+
+  return response.json();
+}
+
 export async function getBatchStatus(batchId: string): Promise<{ data: BatchStatus }> {
   return apiRequest<{ data: BatchStatus }>(`/api/v1/documents/batch/${batchId}/status`);
 }
@@ -421,6 +492,42 @@ export async function downloadDocument(id: string): Promise<Blob> {
   return response.blob();
 }
 
+/**
+ * e-Fatura / e-Arşiv XML belgesine gömülü görüntüyü indirir: PDF ya da
+ * XML'e uygulanacak XSLT şablonu (blob türünden ayırt edilir)
+ */
+export async function downloadDocumentPreview(id: string): Promise<Blob> {
+  const token = getAccessToken();
+
+  const response = await fetch(`${API_URL}/api/v1/documents/${id}/preview`, {
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    let errorMessage = "Bir hata oluştu.";
+    try {
+      const error = await response.json();
+      const rawMessage = error?.error?.message || error?.message;
+      if (typeof rawMessage === "string") {
+        errorMessage = rawMessage;
+      }
+    } catch {
+      errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+    }
+
+    const error = new Error(errorMessage);
+    (error as any).status = response.status;
+    (error as any).statusCode = response.status;
+    (error as any).response = { status: response.status };
+    throw error;
+  }
+
+  return response.blob();
+}
+
 export async function retryDocumentProcessing(id: string): Promise<{ data: { message: string } }> {
   return apiRequest<{ data: { message: string } }>(`/api/v1/documents/${id}/retry`, {
     method: "POST",
@@ -15,9 +15,27 @@ export interface EDefterGenerationResult {
   totalDebit: number;
   totalCredit: number;
   generationDate: Date;
+  firstEntryNumber?: number;
+  lastEntryNumber?: number;
+  files?: EDefterFile[];
+  warnings?: string[];
   message?: string;
 }
 
+export type EDefterFileType = "yevmiye" | "kebir" | "yevmiye_berat" | "kebir_berat";
+
+export interface EDefterFile {
+  id: string;
+  period: string;
+  fileType: EDefterFileType;
+  partNumber: number;
+  fileName: string;
+  sizeBytes: number;
+  checksum: string;
+  firstEntryNumber: number | null;
+  lastEntryNumber: number | null;
+}
+
 export interface EDefterSubmissionResult {
   success: boolean;
   submissionId?: string;
@@ -141,3 +159,49 @@ export async function listEDefterLedgers(
   return apiRequest<{ data: EDefterLedger[] }>(`/api/v1/e-defter/${clientCompanyId}`);
 }
 
+
+export async function listEDefterFiles(
+  clientCompanyId: string,
+  ledgerId: string
+): Promise<{ data: EDefterFile[] }> {
+  return apiRequest<{ data: EDefterFile[] }>(`/api/v1/e-defter/${clientCompanyId}/${ledgerId}/files`);
+}
+
+export async function downloadEDefterFile(
+  clientCompanyId: string,
+  ledgerId: string,
+  fileId: string
+): Promise<Blob> {
+  const token = getAccessToken();
+
+  const response = await fetch(
+    `${API_URL}/api/v1/e-defter/${clientCompanyId}/${ledgerId}/files/${fileId}/download`,
+    {
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      credentials: "include",
+    }
+  );
+
+  if (!response.ok) {
+    let errorMessage = "Bir hata oluştu.";
+    try {
+      const error = await response.json();
+      const rawMessage = error?.error?.message || error?.message;
+      if (typeof rawMessage === "string") {
+        errorMessage = rawMessage;
+      }
+    } catch {
+      errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+    }
+
+    const error = new Error(errorMessage);
+    (error as any).status = response.status;
+    (error as any).statusCode = response.status;
+    (error as any).response = { status: response.status };
+    throw error;
+  }
+
+  return response.blob();
+}
@@ -0,0 +1,148 @@
+import { apiClient, getCsrfToken } from "../api-client";
+
+const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || "";
+
+// e-İrsaliye (UBL-TR DespatchAdvice)
+
+export type DespatchDirection = "outgoing" | "incoming";
+export type DespatchStatus = "draft" | "issued" | "received";
+
+export interface DespatchAdviceListItem {
+  id: string;
+  clientCompanyId: string;
+  direction: DespatchDirection;
+  despatchNumber: string;
+  uuid: string; // ETTN
+  issueDate: string;
+  despatchDate: string;
+  counterpartyName: string;
+  counterpartyTaxNumber: string | null;
+  status: DespatchStatus;
+  invoice: { id: string; externalId: string | null } | null;
+  lineCount: number;
+}
+
+export interface DespatchAdviceLine {
+  id: string;
+  lineNumber: number;
+  itemId: string | null;
+  item: { id: string; code: string; name: string } | null;
+  itemCode: string | null;
+  description: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface DespatchAdvice extends Omit<DespatchAdviceListItem, "invoice" | "lineCount"> {
+  clientCompany: { id: string; name: string };
+  counterparty: { id: string; name: string; taxNumber: string | null } | null;
+  profileId: string;
+  deliveryAddress: string | null;
+  carrierName: string | null;
+  carrierTaxNumber: string | null;
+  driverName: string | null;
+  driverTckn: string | null;
+  vehiclePlate: string | null;
+  warehouse: { id: string; code: string; name: string } | null;
+  invoice: { id: string; externalId: string | null; type: string; issueDate: string } | null;
+  notes: string | null;
+  hasXml: boolean;
+  lines: DespatchAdviceLine[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateDespatchAdviceInput {
+  clientCompanyId: string;
+  invoiceId?: string | null; // satış faturasından
+  counterpartyId?: string | null;
+  counterpartyName?: string | null;
+  counterpartyTaxNumber?: string | null;
+  series?: string;
+  issueDate: string;
+  despatchDate?: string | null;
+  deliveryAddress?: string | null;
+  carrierName?: string | null;
+  carrierTaxNumber?: string | null;
+  driverName?: string | null;
+  driverTckn?: string | null;
+  vehiclePlate?: string | null;
+  warehouseId?: string | null;
+  notes?: string | null;
+  lines?: Array<{ itemId?: string | null; description?: string | null; quantity: number; unit?: string | null }>;
+}
+
+export const eIrsaliyeClient = {
+  async list(params?: {
+    clientCompanyId?: string;
+    direction?: DespatchDirection;
+    status?: DespatchStatus;
+    page?: number;
+    pageSize?: number;
+  }): Promise<{
+    data: DespatchAdviceListItem[];
+    pagination: { page: number; pageSize: number; total: number; totalPages: number };
+  }> {
+    return apiClient.get("/api/v1/e-irsaliye", { params });
+  },
+
+  async get(id: string): Promise<{ data: DespatchAdvice }> {
+    return apiClient.get(`/api/v1/e-irsaliye/${id}`);
+  },
+
+  async create(input: CreateDespatchAdviceInput): Promise<{ data: DespatchAdvice }> {
+    return apiClient.post("/api/v1/e-irsaliye", input);
+  },
+
+  /** Doğrula ve UBL-TR belgesini dondur */
+  async issue(id: string): Promise<{ data: DespatchAdvice }> {
+    return apiClient.post(`/api/v1/e-irsaliye/${id}/issue`, {});
+  },
+
+  async downloadXml(id: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/e-irsaliye/${id}/xml`, { responseType: "blob" });
+  },
+
+  async linkInvoice(id: string, invoiceId: string | null): Promise<{ data: DespatchAdvice }> {
+    return apiClient.patch(`/api/v1/e-irsaliye/${id}/invoice`, { invoiceId });
+  },
+
+  async delete(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/e-irsaliye/${id}`);
+  },
+
+  /** Gelen e-İrsaliye XML dosyasını yükle */
+  async receive(clientCompanyId: string, file: File): Promise<{ data: DespatchAdvice }> {
+    const formData = new FormData();
+    formData.append("clientCompanyId", clientCompanyId);
+    formData.append("file", file);
+
+    const csrfToken = getCsrfToken();
+    const response = await fetch(`${API_URL}/api/v1/e-irsaliye/receive`, {
+      method: "POST",
+      headers: {
+        ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+      },
+      credentials: "include",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      let errorMessage = "İrsaliye yüklenemedi.";
+      try {
+        const error: any = await response.json();
+        const rawMessage = error?.error?.message || error?.message;
+        if (typeof rawMessage === "string") {
+          errorMessage = rawMessage;
+        }
+      } catch {
+        errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+      }
+      const error = new Error(errorMessage);
+      (error as any).status = response.status;
+      throw error;
+    }
+
+    return response.json() as Promise<{ data: DespatchAdvice }>;
+  },
+};
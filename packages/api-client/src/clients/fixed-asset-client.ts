@@ -0,0 +1,136 @@
+import { apiClient } from "../api-client";
+
+// Demirbaş ve Amortisman (Fixed Assets)
+
+export type DepreciationMethod = "normal" | "azalan_bakiyeler"; // Normal | Azalan bakiyeler
+export type FixedAssetStatus = "active" | "fully_depreciated" | "disposed";
+
+export interface AmortismanListesiKalemi {
+  kod: string;
+  ad: string;
+  faydaliOmur: number; // yıl
+  hesapKodu: string;
+  kistAmortisman?: boolean;
+}
+
+export interface FixedAsset {
+  id: string;
+  clientCompanyId: string;
+  assetCode: string;
+  name: string;
+  categoryCode: string | null;
+  accountCode: string;
+  expenseAccountCode: string;
+  acquisitionDate: string;
+  acquisitionCost: number;
+  currentCost: number; // Kısmi elden çıkarmalar sonrası maliyet
+  usefulLifeYears: number;
+  depreciationMethod: DepreciationMethod;
+  prorateFirstYear: boolean; // Kıst amortisman
+  accumulatedDepreciation: number;
+  netBookValue: number;
+  status: FixedAssetStatus;
+  disposedAt: string | null;
+  notes: string | null;
+}
+
+export interface DepreciationScheduleYear {
+  fiscalYear: number;
+  months: number;
+  amount: number;
+  openingBookValue: number;
+  closingBookValue: number;
+}
+
+export interface CreateFixedAssetInput {
+  clientCompanyId: string;
+  assetCode: string;
+  name: string;
+  categoryCode?: string; // Amortisman listesi kalemi
+  accountCode?: string;
+  expenseAccountCode?: string;
+  acquisitionDate: string;
+  acquisitionCost: number;
+  usefulLifeYears?: number;
+  depreciationMethod?: DepreciationMethod;
+  prorateFirstYear?: boolean;
+  notes?: string | null;
+}
+
+export type UpdateFixedAssetInput = Partial<
+  Omit<CreateFixedAssetInput, "clientCompanyId" | "assetCode" | "categoryCode">
+>;
+
+export interface DepreciationRunResult {
+  period: string;
+  transactionId: string | null;
+  totalAmount: number;
+  entries: { fixedAssetId: string; assetCode: string; name: string; amount: number }[];
+}
+
+export interface DisposeFixedAssetInput {
+  disposalDate: string;
+  ratio?: number; // 0-1 arası, varsayılan: tamamı
+  proceeds?: number; // Satış bedeli (KDV hariç)
+  proceedsAccountCode?: string;
+  notes?: string | null;
+}
+
+export interface FixedAssetDisposal {
+  id: string;
+  fixedAssetId: string;
+  disposalDate: string;
+  ratio: number;
+  costDisposed: number;
+  accumulatedDisposed: number;
+  proceeds: number;
+  gainLoss: number; // Pozitif: kâr (679), negatif: zarar (689)
+  transactionId: string | null;
+}
+
+export const fixedAssetClient = {
+  /** Şirketin demirbaş listesi */
+  async list(clientCompanyId: string, status?: FixedAssetStatus): Promise<{ data: FixedAsset[] }> {
+    return apiClient.get("/api/v1/fixed-assets", { params: { clientCompanyId, status } });
+  },
+
+  /** VUK amortisman listesi kalemleri */
+  async getCategories(): Promise<{ data: AmortismanListesiKalemi[] }> {
+    return apiClient.get("/api/v1/fixed-assets/categories");
+  },
+
+  /** Demirbaş ve amortisman planı */
+  async get(id: string): Promise<{ data: FixedAsset & { schedule: DepreciationScheduleYear[] } }> {
+    return apiClient.get(`/api/v1/fixed-assets/${id}`);
+  },
+
+  async create(input: CreateFixedAssetInput): Promise<{ data: FixedAsset }> {
+    return apiClient.post("/api/v1/fixed-assets", input);
+  },
+
+  async update(id: string, input: UpdateFixedAssetInput): Promise<{ data: FixedAsset }> {
+    return apiClient.patch(`/api/v1/fixed-assets/${id}`, input);
+  },
+
+  async delete(id: string): Promise<{ data: { message: string } }> {
+    return apiClient.delete(`/api/v1/fixed-assets/${id}`);
+  },
+
+  /** Amortisman kaydı oluştur (dönem: YYYY-MM aylık, YYYY yıllık) */
+  async runDepreciation(clientCompanyId: string, period: string): Promise<{ data: DepreciationRunResult }> {
+    return apiClient.post("/api/v1/fixed-assets/depreciation-runs", { clientCompanyId, period });
+  },
+
+  /** Demirbaşı tamamen veya kısmen elden çıkar (satış / hurda) */
+  async dispose(id: string, input: DisposeFixedAssetInput): Promise<{ data: FixedAssetDisposal }> {
+    return apiClient.post(`/api/v1/fixed-assets/${id}/dispose`, input);
+  },
+
+  /** Demirbaş listesini PDF veya Excel olarak indir */
+  async exportRegister(clientCompanyId: string, fiscalYear: number, format: "pdf" | "excel"): Promise<Blob> {
+    return apiClient.get("/api/v1/fixed-assets/register/export", {
+      params: { clientCompanyId, fiscalYear, format },
+      responseType: "blob",
+    });
+  },
+};
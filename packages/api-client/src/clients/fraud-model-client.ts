@@ -0,0 +1,83 @@
+import { apiClient } from "../api-client";
+
+// Eğitilebilir dolandırıcılık modeli: model kaydı (sürümler, metrikler, etkinleştirme)
+
+export type FraudModelAlgorithm = "isolation_forest" | "gradient_boosting";
+export type FraudModelStatus = "queued" | "training" | "candidate" | "active" | "retired" | "failed";
+
+export interface FraudModelMetrics {
+  auc: number | null; // doğrulanmış ve yanlış alarm etiketleri yoksa null
+  precision: number | null;
+  recall: number | null;
+  threshold: number; // precision/recall'un ölçüldüğü puan (0-100)
+  evaluatedCount: number;
+  positiveCount: number;
+}
+
+export interface FraudModel {
+  id: string;
+  tenantId: string;
+  version: number;
+  algorithm: FraudModelAlgorithm | null;
+  status: FraudModelStatus;
+  featureSetVersion: number;
+  featureNames: string[];
+  metrics: FraudModelMetrics | null;
+  trainingSampleCount: number;
+  labeledSampleCount: number;
+  errorMessage: string | null;
+  requestedByUserId: string | null; // zamanlanmış yeniden eğitimde null
+  trainedAt: string | null;
+  activatedAt: string | null;
+  createdAt: string;
+}
+
+/** Bir özelliğin model puanına katkısı (puan cinsinden, negatif olabilir) */
+export interface FeatureContribution {
+  feature: string;
+  label: string;
+  value: number;
+  contribution: number;
+}
+
+export interface FraudModelScore {
+  modelId: string;
+  modelVersion: number;
+  algorithm: FraudModelAlgorithm;
+  score: number;
+  documentId: string;
+  contributions: FeatureContribution[];
+}
+
+export const FRAUD_MODEL_STATUS_LABELS: Record<FraudModelStatus, string> = {
+  queued: "Sırada",
+  training: "Eğitiliyor",
+  candidate: "Aday",
+  active: "Etkin",
+  retired: "Emekli",
+  failed: "Başarısız",
+};
+
+export const FRAUD_MODEL_ALGORITHM_LABELS: Record<FraudModelAlgorithm, string> = {
+  isolation_forest: "Isolation Forest",
+  gradient_boosting: "Gradient Boosting",
+};
+
+export const fraudModelClient = {
+  async listModels(): Promise<{ data: FraudModel[] }> {
+    return apiClient.get("/api/v1/risk/ml-models");
+  },
+
+  async getModel(id: string): Promise<{ data: FraudModel }> {
+    return apiClient.get(`/api/v1/risk/ml-models/${id}`);
+  },
+
+  /** Yeni sürümü kuyruğa ekler; eğitim arka planda yapılır */
+  async trainModel(): Promise<{ data: FraudModel }> {
+    return apiClient.post("/api/v1/risk/ml-models/train");
+  },
+
+  async activateModel(id: string): Promise<{ data: FraudModel }> {
+    return apiClient.post(`/api/v1/risk/ml-models/${id}/activate`);
+  },
+};
@@ -0,0 +1,101 @@
+import { apiClient } from "../api-client";
+
+// Kur Farkı Değerlemesi (VUK 280)
+
+export type FxPositionSourceType = "invoice" | "check_note" | "bank_account";
+
+export interface FxPosition {
+  sourceType: FxPositionSourceType;
+  sourceId: string;
+  reference: string;
+  counterparty: string | null;
+  currency: string;
+  fxAmount: number;
+  accountCode: string;
+  side: "asset" | "liability";
+  carryingRate: number; // Kayıtlı kur (işlem veya önceki değerleme kuru)
+  closingRate: number; // Dönem sonu TCMB döviz alış kuru
+  bookValue: number;
+  revaluedValue: number;
+  difference: number; // + kambiyo kârı, - kambiyo zararı
+}
+
+export interface FxRevaluationPreview {
+  clientCompanyId: string;
+  period: string;
+  revaluationDate: string;
+  previousRevaluationPeriod: string | null;
+  positions: FxPosition[];
+  totalGain: number;
+  totalLoss: number;
+  warnings: string[];
+}
+
+export interface FxRevaluation {
+  id: string;
+  clientCompanyId: string;
+  period: string;
+  revaluationDate: string;
+  totalGain: number;
+  totalLoss: number;
+  transactionId: string | null;
+  runCount: number;
+  postedAt: string;
+}
+
+export interface SettleInvoiceData {
+  settlementDate: string;
+  fxAmount?: number; // Boş bırakılırsa açık bakiyenin tamamı
+  rate?: number; // Boş bırakılırsa tahsilat/ödeme tarihli TCMB döviz alış kuru
+  cashAccountCode?: string; // Varsayılan 102
+  createKurFarkiInvoice?: boolean;
+}
+
+export interface FxSettlement {
+  id: string;
+  invoiceId: string;
+  settlementDate: string;
+  currency: string;
+  fxAmount: number;
+  rate: number;
+  carryingRate: number;
+  realisedDifference: number;
+  transactionId: string | null;
+  kurFarkiInvoiceId: string | null;
+  createdAt: string;
+}
+
+export const fxRevaluationClient = {
+  /** Şirketin kaydedilmiş değerleme çalıştırmaları */
+  async listRuns(clientCompanyId: string): Promise<{ data: FxRevaluation[] }> {
+    return apiClient.get(`/api/v1/fx-revaluation/${clientCompanyId}`);
+  },
+
+  /** Değerlemeyi hesapla (kayıt oluşturmaz) */
+  async preview(clientCompanyId: string, period: string): Promise<{ data: FxRevaluationPreview }> {
+    return apiClient.post(`/api/v1/fx-revaluation/${clientCompanyId}/${period}/preview`, {});
+  },
+
+  /** 646/656 kayıtlarını oluştur (aynı dönemin önceki çalıştırmasının yerine geçer) */
+  async post(clientCompanyId: string, period: string): Promise<{ data: FxRevaluation }> {
+    return apiClient.post(`/api/v1/fx-revaluation/${clientCompanyId}/${period}/post`, {});
+  },
+
+  /** Değerleme raporunu PDF veya Excel olarak indir */
+  async exportReport(clientCompanyId: string, period: string, format: "pdf" | "excel"): Promise<Blob> {
+    return apiClient.get(`/api/v1/fx-revaluation/${clientCompanyId}/${period}/report`, {
+      params: { format },
+      responseType: "blob",
+    });
+  },
+
+  /** Dövizli faturaya ait tahsilat/ödemeler */
+  async listSettlements(invoiceId: string): Promise<{ data: FxSettlement[] }> {
+    return apiClient.get(`/api/v1/fx-revaluation/invoices/${invoiceId}/settlements`);
+  },
+
+  /** Tahsilat/ödemeyi kaydet, gerçekleşen kur farkını muhasebeleştir */
+  async settleInvoice(invoiceId: string, data: SettleInvoiceData): Promise<{ data: FxSettlement }> {
+    return apiClient.post(`/api/v1/fx-revaluation/invoices/${invoiceId}/settlements`, data);
+  },
+};
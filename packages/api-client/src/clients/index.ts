@@ -57,3 +57,21 @@ export * from "./turkish-accounting-ai-client";
 export * from "./tax-calendar-client";
 export * from "./report-download-client";
 export * from "./masak-red-flag-client";
+export * from "./accounting-period-client";
+export * from "./year-end-closing-client";
+export * from "./fixed-asset-client";
+export * from "./inflation-accounting-client";
+export * from "./fx-revaluation-client";
+export * from "./bank-reconciliation-client";
+export * from "./payroll-client";
+export * from "./cari-mutabakat-client";
+export * from "./counterparty-client";
+export * from "./stock-client";
+export * from "./e-irsaliye-client";
+export * from "./dimension-client";
+export * from "./budget-client";
+export * from "./approval-client";
+export * from "./risk-rule-client";
+export * from "./risk-backtest-client";
+export * from "./fraud-model-client";
+export * from "./assistant-conversation-client";
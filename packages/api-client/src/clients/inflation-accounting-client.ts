@@ -0,0 +1,142 @@
+import { apiClient } from "../api-client";
+import { getAccessToken } from "../token-store";
+
+const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || "";
+
+// Enflasyon Düzeltmesi (VUK mükerrer 298)
+
+export type InflationIndexType = "yi_ufe" | "tufe"; // Yİ-ÜFE | TÜFE
+
+export interface InflationIndexEntry {
+  period: string; // YYYY-MM
+  indexType: InflationIndexType;
+  value: number;
+  source: string;
+}
+
+export interface ImportIndicesResult {
+  imported: number;
+  errors: { line: number; message: string }[];
+}
+
+export interface InflationLayer {
+  period: string;
+  amount: number;
+  index: number;
+  coefficient: number; // Düzeltme katsayısı
+  adjustedAmount: number;
+}
+
+export interface InflationAccountAdjustment {
+  ledgerAccountId: string;
+  code: string;
+  name: string;
+  targetAccountCode: string; // Farkın kaydedildiği hesap (sermaye için 502/503)
+  historicalBalance: number;
+  adjustedBalance: number;
+  adjustment: number; // + borç, - alacak
+  layers: InflationLayer[];
+}
+
+export interface InflationAdjustmentPreview {
+  clientCompanyId: string;
+  period: string;
+  indexType: InflationIndexType;
+  baseIndex: number;
+  previousAdjustmentPeriod: string | null;
+  accounts: InflationAccountAdjustment[];
+  totalAdjustment: number; // 698 net bakiyesi, + alacak / - borç
+}
+
+export interface InflationAdjustment {
+  id: string;
+  clientCompanyId: string;
+  period: string;
+  indexType: InflationIndexType;
+  baseIndex: number;
+  totalAdjustment: number;
+  transactionId: string | null;
+  runCount: number;
+  postedAt: string;
+}
+
+export const inflationAccountingClient = {
+  /** Endeks tablosu */
+  async listIndices(
+    indexType: InflationIndexType = "yi_ufe",
+    range: { from?: string; to?: string } = {}
+  ): Promise<{ data: InflationIndexEntry[] }> {
+    return apiClient.get("/api/v1/inflation-accounting/indices", { params: { indexType, ...range } });
+  },
+
+  /** Endeksleri CSV dosyasından içe aktar (dönem;değer) */
+  async importIndices(
+    file: File,
+    indexType: InflationIndexType = "yi_ufe",
+    source?: string
+  ): Promise<{ data: ImportIndicesResult }> {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("indexType", indexType);
+    if (source) {
+      formData.append("source", source);
+    }
+
+    const token = getAccessToken();
+    const response = await fetch(`${API_URL}/api/v1/inflation-accounting/indices/import`, {
+      method: "POST",
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      credentials: "include",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      let errorMessage = "Endeksler içe aktarılamadı.";
+      try {
+        const error = await response.json();
+        const rawMessage = error?.error?.message || error?.message;
+        if (typeof rawMessage === "string") {
+          errorMessage = rawMessage;
+        }
+      } catch {
+        errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+      }
+      throw new Error(errorMessage);
+    }
+
+    return response.json();
+  },
+
+  /** Şirketin kaydedilmiş düzeltme çalıştırmaları */
+  async listAdjustments(clientCompanyId: string): Promise<{ data: InflationAdjustment[] }> {
+    return apiClient.get(`/api/v1/inflation-accounting/${clientCompanyId}`);
+  },
+
+  /** Düzeltmeyi hesapla (kayıt oluşturmaz) */
+  async preview(
+    clientCompanyId: string,
+    period: string,
+    indexType: InflationIndexType = "yi_ufe"
+  ): Promise<{ data: InflationAdjustmentPreview }> {
+    return apiClient.post(`/api/v1/inflation-accounting/${clientCompanyId}/${period}/preview`, { indexType });
+  },
+
+  /** 698 düzeltme kayıtlarını oluştur (aynı dönemin önceki çalıştırmasının yerine geçer) */
+  async post(
+    clientCompanyId: string,
+    period: string,
+    indexType: InflationIndexType = "yi_ufe"
+  ): Promise<{ data: InflationAdjustment }> {
+    return apiClient.post(`/api/v1/inflation-accounting/${clientCompanyId}/${period}/post`, { indexType });
+  },
+
+  /** Çalışma kağıtlarını PDF veya Excel olarak indir */
+  async exportWorkingPapers(clientCompanyId: string, period: string, format: "pdf" | "excel"): Promise<Blob> {
+    return apiClient.get(`/api/v1/inflation-accounting/${clientCompanyId}/${period}/working-papers`, {
+      params: { format },
+      responseType: "blob",
+    });
+  },
+};
@@ -19,6 +19,8 @@ export interface Invoice {
   counterpartyTaxNumber: string | null;
   status: "taslak" | "kesildi" | "iptal" | "muhasebeleştirilmiş";
   source: "manual" | "import" | "integration";
+  paidAmount?: number; // Banka mutabakatıyla eşleşen tahsilat/ödeme
+  paidAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,6 +36,10 @@ export interface InvoiceLine {
   lineTotal: number;
   vatRate: number;
   vatAmount: number;
+  withholdingCode?: string | null; // KDV tevkifat kodu
+  withholdingRate?: number | null;
+  exemptionCode?: string | null; // KDV istisna kodu
+  dimensionValueIds?: string[]; // analitik boyut değerleri
   createdAt: Date;
   updatedAt: Date;
 }
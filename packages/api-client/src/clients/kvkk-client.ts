@@ -60,6 +60,10 @@ export interface DataRetention {
   expiresAt: string;
 }
 
+export interface RetentionSettings {
+  aiConversationDays: number; // AI asistan konuşmaları son mesajdan bu kadar gün sonra silinir
+}
+
 export interface DataAccessAuditLog {
   logId: string;
   userId: string;
@@ -202,6 +206,23 @@ export const kvkkClient = {
     return apiRequest<{ data: DataRetention }>(`/api/v1/kvkk/retention/${userId}`);
   },
 
+  /**
+   * Get tenant retention settings
+   */
+  async getRetentionSettings(): Promise<{ data: RetentionSettings }> {
+    return apiRequest<{ data: RetentionSettings }>("/api/v1/kvkk/retention-settings");
+  },
+
+  /**
+   * Update tenant retention settings
+   */
+  async updateRetentionSettings(settings: RetentionSettings): Promise<{ data: RetentionSettings }> {
+    return apiRequest<{ data: RetentionSettings }>("/api/v1/kvkk/retention-settings", {
+      method: "PUT",
+      body: JSON.stringify(settings),
+    });
+  },
+
   /**
    * Get data access audit log
    */
@@ -5,14 +5,39 @@ const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_
 export interface LedgerAccount {
   id: string;
   tenantId: string;
+  clientCompanyId: string | null;
+  parentId: string | null;
   code: string;
   name: string;
   type: "asset" | "liability" | "equity" | "income" | "expense";
+  accountClass: number | null;
+  level: number;
   isActive: boolean;
+  inflationClass: "monetary" | "non_monetary" | null; // null: hesap kodundan belirlenir
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface LedgerAccountTreeNode extends LedgerAccount {
+  children: LedgerAccountTreeNode[];
+}
+
+export interface CreateLedgerAccountData {
+  clientCompanyId?: string | null;
+  parentId?: string | null;
+  code: string;
+  name: string;
+  type?: LedgerAccount["type"];
+  isActive?: boolean;
+  inflationClass?: LedgerAccount["inflationClass"];
+}
+
+export interface SeedChartOfAccountsResult {
+  created: number;
+  skipped: number;
+  relinked: number;
+}
+
 async function apiRequest<T>(
   endpoint: string,
   options?: RequestInit
@@ -60,8 +85,21 @@ async function apiRequest<T>(
   return response.json();
 }
 
-export async function listLedgerAccounts(): Promise<{ data: LedgerAccount[] }> {
-  return apiRequest<{ data: LedgerAccount[] }>("/api/v1/ledger-accounts");
+export async function listLedgerAccounts(clientCompanyId?: string): Promise<{ data: LedgerAccount[] }> {
+  const query = clientCompanyId ? `?clientCompanyId=${encodeURIComponent(clientCompanyId)}` : "";
+  return apiRequest<{ data: LedgerAccount[] }>(`/api/v1/ledger-accounts${query}`);
+}
+
+export async function getLedgerAccountTree(clientCompanyId?: string): Promise<{ data: LedgerAccountTreeNode[] }> {
+  const query = clientCompanyId ? `?clientCompanyId=${encodeURIComponent(clientCompanyId)}` : "";
+  return apiRequest<{ data: LedgerAccountTreeNode[] }>(`/api/v1/ledger-accounts/tree${query}`);
+}
+
+export async function seedChartOfAccounts(clientCompanyId: string): Promise<{ data: SeedChartOfAccountsResult }> {
+  return apiRequest<{ data: SeedChartOfAccountsResult }>("/api/v1/ledger-accounts/seed", {
+    method: "POST",
+    body: JSON.stringify({ clientCompanyId }),
+  });
 }
 
 export async function getLedgerAccount(id: string): Promise<{ data: LedgerAccount }> {
@@ -69,7 +107,7 @@ export async function getLedgerAccount(id: string): Promise<{ data: LedgerAccoun
 }
 
 export async function createLedgerAccount(
-  data: Omit<LedgerAccount, "id" | "tenantId" | "createdAt" | "updatedAt">
+  data: CreateLedgerAccountData
 ): Promise<{ data: LedgerAccount }> {
   return apiRequest<{ data: LedgerAccount }>("/api/v1/ledger-accounts", {
     method: "POST",
@@ -79,7 +117,7 @@ export async function createLedgerAccount(
 
 export async function updateLedgerAccount(
   id: string,
-  data: Partial<Omit<LedgerAccount, "id" | "tenantId" | "createdAt" | "updatedAt">>
+  data: Partial<Pick<LedgerAccount, "code" | "name" | "type" | "isActive" | "inflationClass">>
 ): Promise<{ data: LedgerAccount }> {
   return apiRequest<{ data: LedgerAccount }>(`/api/v1/ledger-accounts/${id}`, {
     method: "PATCH",
@@ -0,0 +1,193 @@
+import { apiClient } from "../api-client";
+
+// Bordro (Payroll)
+
+export type PayrollRunStatus = "draft" | "posted"; // Taslak | Muhasebeleştirildi
+
+export interface SgkTesvik {
+  kanunNo: string;
+  ad: string;
+  tur: "puan" | "isveren_payi";
+  oran?: number;
+  matrah?: "prime_esas_kazanc" | "asgari_ucret";
+}
+
+export interface Employee {
+  id: string;
+  clientCompanyId: string;
+  tckn: string;
+  firstName: string;
+  lastName: string;
+  sgkRegistryNumber: string | null;
+  occupationCode: string | null; // Meslek kodu
+  department: string | null;
+  startDate: string; // İşe giriş
+  endDate: string | null; // İşten çıkış
+  grossSalary: number; // Aylık brüt ücret
+  incentiveCode: string | null; // SGK teşvik kanun no
+  expenseAccountCode: string;
+  isActive: boolean;
+}
+
+export interface CreateEmployeeInput {
+  clientCompanyId: string;
+  tckn: string;
+  firstName: string;
+  lastName: string;
+  sgkRegistryNumber?: string | null;
+  occupationCode?: string | null;
+  department?: string | null;
+  startDate: string;
+  endDate?: string | null;
+  grossSalary: number;
+  incentiveCode?: string | null;
+  expenseAccountCode?: string;
+}
+
+export type UpdateEmployeeInput = Partial<Omit<CreateEmployeeInput, "clientCompanyId" | "tckn">> & {
+  isActive?: boolean;
+};
+
+export interface PayrollAdjustment {
+  employeeId: string;
+  workedDays?: number; // Prim günü
+  additionalPay?: number; // Prim, ikramiye, fazla mesai
+}
+
+export interface Payslip {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  tckn: string;
+  workedDays: number;
+  grossSalary: number;
+  additionalPay: number;
+  sgkBase: number; // Prime esas kazanç
+  employeeSgk: number;
+  employeeUnemployment: number;
+  employerSgk: number;
+  employerUnemployment: number;
+  incentiveCode: string | null;
+  incentiveAmount: number;
+  incomeTaxBase: number;
+  cumulativeIncomeTaxBase: number;
+  calculatedIncomeTax: number;
+  incomeTaxExemption: number; // Asgari ücret istisnası
+  incomeTax: number;
+  calculatedStampTax: number;
+  stampTaxExemption: number;
+  stampTax: number;
+  netPay: number;
+  employerCost: number;
+}
+
+export interface PayrollRun {
+  id: string;
+  clientCompanyId: string;
+  period: string;
+  status: PayrollRunStatus;
+  employeeCount: number;
+  totalGross: number;
+  totalEmployeeSgk: number;
+  totalEmployerSgk: number;
+  totalIncentive: number;
+  totalIncomeTax: number;
+  totalStampTax: number;
+  totalNet: number;
+  totalEmployerCost: number;
+  transactionId: string | null;
+  postedAt: string | null;
+}
+
+export interface MuhsgkEmployeeRow {
+  tckn: string;
+  firstName: string;
+  lastName: string;
+  sgkRegistryNumber: string | null;
+  occupationCode: string | null;
+  documentType: string; // SGK belge türü
+  incentiveCode: string | null;
+  workedDays: number;
+  missingDays: number;
+  startDate: string | null;
+  endDate: string | null;
+  grossEarnings: number;
+  sgkBase: number;
+  incomeTaxBase: number;
+  calculatedIncomeTax: number;
+  incomeTaxExemption: number;
+  incomeTax: number;
+  stampTaxExemption: number;
+  stampTax: number;
+}
+
+export interface MuhsgkDetail {
+  period: string;
+  payrollRunId: string;
+  status: PayrollRunStatus;
+  employees: MuhsgkEmployeeRow[];
+  totals: { employeeCount: number; grossEarnings: number; sgkBase: number; incomeTax: number; stampTax: number };
+}
+
+export const payrollClient = {
+  /** Şirketin personel listesi */
+  async listEmployees(clientCompanyId: string, includeInactive?: boolean): Promise<{ data: Employee[] }> {
+    return apiClient.get("/api/v1/payroll/employees", {
+      params: { clientCompanyId, includeInactive: includeInactive ? "true" : undefined },
+    });
+  },
+
+  /** SGK teşvik kanun numaraları */
+  async getIncentives(): Promise<{ data: SgkTesvik[] }> {
+    return apiClient.get("/api/v1/payroll/incentives");
+  },
+
+  async createEmployee(input: CreateEmployeeInput): Promise<{ data: Employee }> {
+    return apiClient.post("/api/v1/payroll/employees", input);
+  },
+
+  async updateEmployee(id: string, input: UpdateEmployeeInput): Promise<{ data: Employee }> {
+    return apiClient.patch(`/api/v1/payroll/employees/${id}`, input);
+  },
+
+  async deleteEmployee(id: string): Promise<{ data: { message: string } }> {
+    return apiClient.delete(`/api/v1/payroll/employees/${id}`);
+  },
+
+  /** Şirketin aylık bordroları */
+  async listRuns(clientCompanyId: string): Promise<{ data: PayrollRun[] }> {
+    return apiClient.get("/api/v1/payroll/runs", { params: { clientCompanyId } });
+  },
+
+  async getRun(id: string): Promise<{ data: PayrollRun & { payslips: Payslip[] } }> {
+    return apiClient.get(`/api/v1/payroll/runs/${id}`);
+  },
+
+  /** Dönem bordrosunu hesapla (taslak bordro yeniden hesaplanır) */
+  async calculateRun(
+    clientCompanyId: string,
+    period: string,
+    adjustments?: PayrollAdjustment[]
+  ): Promise<{ data: PayrollRun & { payslips: Payslip[] } }> {
+    return apiClient.post("/api/v1/payroll/runs", { clientCompanyId, period, adjustments });
+  },
+
+  async deleteRun(id: string): Promise<{ data: { message: string } }> {
+    return apiClient.delete(`/api/v1/payroll/runs/${id}`);
+  },
+
+  /** Ücret tahakkukunu muhasebeleştir (770 / 335 / 360 / 361) */
+  async postRun(id: string): Promise<{ data: PayrollRun }> {
+    return apiClient.post(`/api/v1/payroll/runs/${id}/post`, {});
+  },
+
+  /** Ücret bordrosu PDF */
+  async downloadPayslip(runId: string, payslipId: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/payroll/runs/${runId}/payslips/${payslipId}/pdf`, { responseType: "blob" });
+  },
+
+  /** MUHSGK çalışan bilgileri */
+  async getMuhsgkDetail(clientCompanyId: string, period: string): Promise<{ data: MuhsgkDetail | null }> {
+    return apiClient.get("/api/v1/payroll/muhsgk", { params: { clientCompanyId, period } });
+  },
+};
@@ -1,4 +1,16 @@
-import { apiClient } from "../api-client";
+import { apiClient, getCsrfToken } from "../api-client";
+
+const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || "";
+
+export type RiskAlertDisposition = "false_positive" | "corrected" | "reported_to_masak" | "escalated" | "duplicate";
+
+export const RISK_ALERT_DISPOSITION_LABELS: Record<RiskAlertDisposition, string> = {
+  false_positive: "Yanlış alarm",
+  corrected: "Düzeltildi",
+  reported_to_masak: "MASAK'a bildirildi",
+  escalated: "Üst makama iletildi",
+  duplicate: "Mükerrer (birleştirildi)",
+};
 
 export interface RiskAlert {
   id: string;
@@ -14,6 +26,83 @@ export interface RiskAlert {
   updatedAt: string;
 }
 
+export interface RiskAlertCommentView {
+  id: string;
+  parentCommentId: string | null;
+  authorUserId: string;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface RiskAlertEvidenceView {
+  id: string;
+  type: "document" | "transaction" | "file";
+  documentId: string | null;
+  transactionId: string | null;
+  fileName: string | null;
+  contentType: string | null;
+  sizeBytes: number | null;
+  checksum: string | null;
+  description: string | null;
+  addedByUserId: string;
+  addedByName: string | null;
+  createdAt: string;
+}
+
+export interface RiskAlertEventView {
+  id: string;
+  type:
+    | "created"
+    | "reraised"
+    | "assigned"
+    | "due_changed"
+    | "status_changed"
+    | "comment_added"
+    | "evidence_added"
+    | "disposed"
+    | "merged"
+    | "merged_into";
+  actorUserId: string | null;
+  actorName: string | null;
+  data: Record<string, any>;
+  createdAt: string;
+}
+
+export interface RiskAlertCase {
+  id: string;
+  tenantId: string;
+  clientCompanyId: string | null;
+  documentId: string | null;
+  type: string;
+  title: string;
+  message: string;
+  severity: "low" | "medium" | "high" | "critical";
+  status: "open" | "in_progress" | "closed" | "ignored";
+  resolvedAt: string | null;
+  resolvedByUserId: string | null;
+  assigneeUserId: string | null;
+  assigneeName: string | null;
+  dueAt: string | null;
+  isOverdue: boolean;
+  disposition: RiskAlertDisposition | null;
+  dispositionNote: string | null;
+  ruleCodes: string[];
+  mergedIntoId: string | null;
+  clientCompany: { id: string; name: string } | null;
+  document: { id: string; originalFileName: string } | null;
+  comments: RiskAlertCommentView[];
+  evidence: RiskAlertEvidenceView[];
+  history: RiskAlertEventView[];
+  mergedAlerts: Array<{ id: string; title: string; severity: string; createdAt: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RiskAlertEvidenceInput =
+  | { type: "document"; documentId: string; description?: string | null }
+  | { type: "transaction"; transactionId: string; description?: string | null };
+
 export const riskAlertClient = {
   async list(params?: { status?: string; severity?: string; type?: string; page?: number; limit?: number }): Promise<{ data: { items: RiskAlert[]; pagination: any } }> {
     return apiClient.get("/api/v1/risk/alerts", { params: params as any });
@@ -21,4 +110,81 @@ export const riskAlertClient = {
   async updateStatus(id: string, status: string): Promise<{ data: RiskAlert }> {
     return apiClient.patch(`/api/v1/risk/alerts/${id}/status`, { status });
   },
+
+  // Vaka yönetimi
+
+  async getCase(id: string): Promise<{ data: RiskAlertCase }> {
+    return apiClient.get(`/api/v1/risk/alerts/${id}`);
+  },
+
+  /** Vakayı kapat; sonuç kodu zorunlu */
+  async close(
+    id: string,
+    disposition: Exclude<RiskAlertDisposition, "duplicate">,
+    note?: string | null
+  ): Promise<{ data: RiskAlert }> {
+    return apiClient.patch(`/api/v1/risk/alerts/${id}/status`, { status: "closed", disposition, note });
+  },
+
+  async assign(id: string, assigneeUserId: string | null): Promise<{ data: RiskAlert }> {
+    return apiClient.post(`/api/v1/risk/alerts/${id}/assign`, { assigneeUserId });
+  },
+
+  async setDueDate(id: string, dueAt: string, reason?: string | null): Promise<{ data: RiskAlert }> {
+    return apiClient.patch(`/api/v1/risk/alerts/${id}/due-date`, { dueAt, reason });
+  },
+
+  async addComment(id: string, body: string, parentCommentId?: string | null): Promise<{ data: RiskAlertCommentView }> {
+    return apiClient.post(`/api/v1/risk/alerts/${id}/comments`, { body, parentCommentId });
+  },
+
+  async addEvidence(id: string, input: RiskAlertEvidenceInput): Promise<{ data: RiskAlertEvidenceView }> {
+    return apiClient.post(`/api/v1/risk/alerts/${id}/evidence`, input);
+  },
+
+  /** Ekran görüntüsü veya PDF yükle */
+  async uploadEvidence(id: string, file: File, description?: string): Promise<{ data: RiskAlertEvidenceView }> {
+    const formData = new FormData();
+    formData.append("file", file);
+    if (description) {
+      formData.append("description", description);
+    }
+
+    const csrfToken = getCsrfToken();
+    const response = await fetch(`${API_URL}/api/v1/risk/alerts/${id}/evidence/upload`, {
+      method: "POST",
+      headers: {
+        ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+      },
+      credentials: "include",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      let errorMessage = "Kanıt dosyası yüklenemedi.";
+      try {
+        const error: any = await response.json();
+        const rawMessage = error?.error?.message || error?.message;
+        if (typeof rawMessage === "string") {
+          errorMessage = rawMessage;
+        }
+      } catch {
+        errorMessage = response.statusText || `HTTP ${response.status} hatası`;
+      }
+      const error = new Error(errorMessage);
+      (error as any).status = response.status;
+      throw error;
+    }
+
+    return response.json() as Promise<{ data: RiskAlertEvidenceView }>;
+  },
+
+  async downloadEvidence(id: string, evidenceId: string): Promise<Blob> {
+    return apiClient.get(`/api/v1/risk/alerts/${id}/evidence/${evidenceId}/download`, { responseType: "blob" });
+  },
+
+  /** Mükerrer uyarıları bu vakada birleştir */
+  async merge(id: string, alertIds: string[]): Promise<{ data: RiskAlert }> {
+    return apiClient.post(`/api/v1/risk/alerts/${id}/merge`, { alertIds });
+  },
 };
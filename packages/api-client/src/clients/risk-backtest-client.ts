@@ -0,0 +1,122 @@
+import { apiClient } from "../api-client";
+import type { RiskRuleScope, RiskRuleSeverity, RuleCondition } from "./risk-rule-client";
+
+// Kural değişikliklerinin geçmiş belgeler üzerinde denenmesi (geriye dönük test)
+
+export type RiskBacktestStatus = "pending" | "running" | "completed" | "failed";
+
+/** Etkin kural setine önerilen değişiklik; etkin olmayan kod yeni kural ekler */
+export interface ProposedRuleChange {
+  code: string;
+  description?: string;
+  weight?: number;
+  defaultSeverity?: RiskRuleSeverity;
+  config?: Record<string, unknown>; // ör. yerleşik kuralın eşiği: { threshold: 5 }
+  condition?: RuleCondition;
+  isActive?: boolean; // false: kural devre dışı
+}
+
+export interface CreateRiskBacktestInput {
+  scope: RiskRuleScope;
+  clientCompanyId?: string | null;
+  windowStart: string;
+  windowEnd: string;
+  proposedRules: ProposedRuleChange[];
+}
+
+/** Geçmiş vakaların kapanış sonucu: doğrulandı, yanlış alarm, açık, hiç açılmadı */
+export type BacktestOutcome = "confirmed" | "false_positive" | "open" | "none";
+
+export interface BacktestEvaluation {
+  score: number;
+  severity: "low" | "medium" | "high" | "critical";
+  triggeredRuleCodes: string[];
+  alert: boolean;
+}
+
+export interface BacktestRuleSetSummary {
+  evaluated: number;
+  alerts: number;
+  severityDistribution: Record<"low" | "medium" | "high" | "critical", number>;
+  averageScore: number;
+  truePositives: number;
+  falsePositives: number;
+  unlabeled: number;
+  precision: number | null;
+  missedConfirmed: number;
+  ruleHits: Record<string, number>;
+}
+
+export interface BacktestRuleDiff {
+  code: string;
+  change: "added" | "modified" | "removed" | "unchanged";
+  currentWeight: number | null;
+  proposedWeight: number | null;
+  currentHits: number;
+  proposedHits: number;
+}
+
+export interface BacktestSubjectDiff {
+  subjectType: RiskRuleScope;
+  subjectId: string;
+  label: string;
+  clientCompanyId: string;
+  asOf: string;
+  current: BacktestEvaluation;
+  proposed: BacktestEvaluation;
+  pastOutcome: BacktestOutcome;
+}
+
+export interface RiskBacktestResult {
+  current: BacktestRuleSetSummary;
+  proposed: BacktestRuleSetSummary;
+  rules: BacktestRuleDiff[];
+  newAlerts: number;
+  clearedAlerts: number;
+  severityChanges: number;
+  changedSubjects: BacktestSubjectDiff[]; // en fazla 200 kayıt
+  skipped: number;
+  truncated: boolean;
+}
+
+export interface RiskBacktest {
+  id: string;
+  tenantId: string;
+  scope: RiskRuleScope;
+  clientCompanyId: string | null;
+  windowStart: string;
+  windowEnd: string;
+  proposedRules: ProposedRuleChange[];
+  status: RiskBacktestStatus;
+  totalCount: number;
+  processedCount: number;
+  result: RiskBacktestResult | null;
+  errorMessage: string | null;
+  requestedByUserId: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const RISK_BACKTEST_STATUS_LABELS: Record<RiskBacktestStatus, string> = {
+  pending: "Sırada",
+  running: "Çalışıyor",
+  completed: "Tamamlandı",
+  failed: "Başarısız",
+};
+
+export const riskBacktestClient = {
+  async listBacktests(): Promise<{ data: RiskBacktest[] }> {
+    return apiClient.get("/api/v1/risk/backtests");
+  },
+
+  async getBacktest(id: string): Promise<{ data: RiskBacktest }> {
+    return apiClient.get(`/api/v1/risk/backtests/${id}`);
+  },
+
+  /** Testi kuyruğa ekler; sonuç arka planda hesaplanır */
+  async createBacktest(input: CreateRiskBacktestInput): Promise<{ data: RiskBacktest }> {
+    return apiClient.post("/api/v1/risk/backtests", input);
+  },
+};
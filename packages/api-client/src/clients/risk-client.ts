@@ -58,6 +58,9 @@ export interface ListRiskAlertsParams {
   clientCompanyId?: string;
   severity?: string;
   status?: RiskAlertStatus;
+  assignee?: string; // kullanıcı ID veya "me"
+  overdue?: boolean;
+  disposition?: string;
   dateFrom?: string;
   dateTo?: string;
   page?: number;
@@ -302,8 +305,11 @@ export interface MLFraudScore {
     name: string;
     contribution: number; // How much this factor contributes to the score
     severity: "low" | "medium" | "high";
+    feature?: string; // model feature behind the factor, for trained model scores
+    value?: number;
   }>;
   recommendations: string[];
+  modelVersion: number | null; // trained model version used, null for the heuristic score
 }
 
 /**
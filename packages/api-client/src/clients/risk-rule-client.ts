@@ -0,0 +1,179 @@
+import { apiClient } from "../api-client";
+
+// Risk kuralları: koşul dili, sürümler ve örnek üzerinde deneme
+
+export type RiskRuleScope = "document" | "company";
+
+export type RiskRuleSeverity = "low" | "medium" | "high";
+
+export type ComparisonOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "notIn"
+  | "contains"
+  | "exists"
+  | "notExists";
+
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max" | "ratio";
+
+export type RuleValue = string | number | boolean | null | Array<string | number> | { ref: string };
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { field: string; op: ComparisonOperator; value?: RuleValue }
+  | {
+      aggregate: AggregateFunction;
+      collection: string;
+      windowDays: number;
+      field?: string;
+      where?: RuleCondition;
+      op: ComparisonOperator;
+      value: RuleValue;
+    };
+
+export interface RuleFieldDefinition {
+  path: string;
+  label: string;
+  type: "boolean" | "number" | "string" | "date" | "list";
+}
+
+export interface RuleCollectionDefinition {
+  name: string;
+  label: string;
+  dateField: string;
+  maxWindowDays: number;
+  fields: RuleFieldDefinition[];
+}
+
+export interface RuleLanguage {
+  fields: Record<RiskRuleScope, RuleFieldDefinition[]>;
+  collections: Record<RiskRuleScope, RuleCollectionDefinition[]>;
+  operators: ComparisonOperator[];
+  aggregates: AggregateFunction[];
+}
+
+export interface RiskRuleView {
+  id: string;
+  tenantId: string | null;
+  scope: RiskRuleScope;
+  code: string;
+  description: string;
+  weight: number;
+  isActive: boolean;
+  defaultSeverity: RiskRuleSeverity;
+  config: Record<string, unknown> | null;
+  isGlobal: boolean;
+  isBuiltIn: boolean;
+  overriddenByTenant: boolean; // genel kuralın kiracıya özel sürümü var
+  condition: RuleCondition | null;
+  currentVersion: number | null;
+  scheduledVersion: { version: number; effectiveFrom: string } | null;
+  alertFeedback: RuleAlertFeedback | null; // yalnızca kural listesinde dolu
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Kuralın son bir yılda açtığı vakaların nasıl kapatıldığı */
+export interface RuleAlertFeedback {
+  alerts: number;
+  closed: number;
+  falsePositives: number;
+  falsePositiveRate: number | null;
+}
+
+export interface RiskRuleVersion {
+  id: string;
+  version: number;
+  description: string;
+  weight: number;
+  defaultSeverity: RiskRuleSeverity;
+  condition: RuleCondition | null;
+  effectiveFrom: string;
+  changeNote: string | null;
+  createdByUserId: string | null;
+  createdAt: string;
+}
+
+export interface RiskRuleDetail extends RiskRuleView {
+  versions: RiskRuleVersion[];
+}
+
+export interface RiskRuleDefinitionInput {
+  description: string;
+  weight: number;
+  defaultSeverity: RiskRuleSeverity;
+  condition: RuleCondition;
+  effectiveFrom?: string; // varsayılan: hemen
+  changeNote?: string | null;
+}
+
+export interface CreateRiskRuleInput extends RiskRuleDefinitionInput {
+  scope: RiskRuleScope;
+  code: string;
+}
+
+export interface ConditionValidationError {
+  path: string;
+  message: string;
+}
+
+export interface RuleTestResult {
+  valid: boolean;
+  errors: ConditionValidationError[];
+  matched: boolean | null;
+  trace: Array<{ path: string; expression: string; actual: unknown; matched: boolean }>;
+  facts: Record<string, unknown> | null;
+  collectionSizes: Record<string, number>;
+}
+
+export type RuleTestSample = { documentId: string } | { clientCompanyId: string } | { facts: Record<string, unknown> };
+
+export const riskRuleClient = {
+  async listRules(): Promise<{ data: RiskRuleView[] }> {
+    return apiClient.get("/api/v1/risk/rules");
+  },
+
+  async getLanguage(): Promise<{ data: RuleLanguage }> {
+    return apiClient.get("/api/v1/risk/rules/language");
+  },
+
+  async getRule(id: string): Promise<{ data: RiskRuleDetail }> {
+    return apiClient.get(`/api/v1/risk/rules/${id}`);
+  },
+
+  async createRule(input: CreateRiskRuleInput): Promise<{ data: RiskRuleView }> {
+    return apiClient.post("/api/v1/risk/rules", input);
+  },
+
+  /** Yeni sürüm yayınla; genel kuralda kiracıya özel kopya oluşturulur */
+  async publishVersion(id: string, input: RiskRuleDefinitionInput): Promise<{ data: RiskRuleView }> {
+    return apiClient.post(`/api/v1/risk/rules/${id}/versions`, input);
+  },
+
+  async setActive(id: string, isActive: boolean): Promise<{ data: RiskRuleView }> {
+    return apiClient.patch(`/api/v1/risk/rules/${id}`, { isActive });
+  },
+
+  async deleteRule(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/risk/rules/${id}`);
+  },
+
+  async validateCondition(
+    scope: RiskRuleScope,
+    condition: unknown
+  ): Promise<{ data: { valid: boolean; errors: ConditionValidationError[] } }> {
+    return apiClient.post("/api/v1/risk/rules/validate", { scope, condition });
+  },
+
+  /** Koşulu bir belge, müşteri veya örnek veri üzerinde dene */
+  async testCondition(scope: RiskRuleScope, condition: unknown, sample: RuleTestSample): Promise<{ data: RuleTestResult }> {
+    return apiClient.post("/api/v1/risk/rules/test", { scope, condition, ...sample });
+  },
+};
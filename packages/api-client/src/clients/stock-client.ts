@@ -0,0 +1,328 @@
+import { apiClient } from "../api-client";
+
+// Stok takibi: stok kartları, hareketler, değerleme, dönem sonu, sayım
+
+export type StockCostMethod = "fifo" | "average";
+export type StockMovementType =
+  | "opening"
+  | "purchase"
+  | "sale"
+  | "adjustment_in"
+  | "adjustment_out"
+  | "count_surplus"
+  | "count_shortage";
+export type ManualStockMovementType = "opening" | "adjustment_in" | "adjustment_out";
+
+export interface StockItem {
+  id: string;
+  clientCompanyId: string;
+  clientCompany?: { id: string; name: string };
+  code: string;
+  name: string;
+  unit: string; // UN/ECE: C62 adet, KGM, LTR, MTR ...
+  barcode: string | null;
+  costMethod: StockCostMethod;
+  inventoryAccountCode: string; // 153
+  cogsAccountCode: string; // 621
+  aliases: string[];
+  isActive: boolean;
+  quantity: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CostedStockMovement {
+  id: string;
+  type: StockMovementType;
+  direction: "in" | "out";
+  date: string;
+  quantity: number;
+  unitCost: number;
+  cost: number;
+  shortfall: number;
+  balanceQuantity: number;
+  balanceValue: number;
+  invoiceId: string | null;
+}
+
+export interface StockItemDetail extends StockItem {
+  unitCost: number;
+  value: number;
+  shortfall: number; // stoksuz satılan miktar
+  movements: CostedStockMovement[];
+}
+
+export interface CreateStockItemInput {
+  clientCompanyId: string;
+  code: string;
+  name: string;
+  unit?: string;
+  barcode?: string | null;
+  costMethod?: StockCostMethod;
+  inventoryAccountCode?: string;
+  cogsAccountCode?: string;
+  aliases?: string[];
+}
+
+export type UpdateStockItemInput = Partial<Omit<CreateStockItemInput, "clientCompanyId" | "code">> & {
+  isActive?: boolean;
+};
+
+export interface Warehouse {
+  id: string;
+  clientCompanyId: string;
+  code: string;
+  name: string;
+  address: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  item: { id: string; code: string; name: string; unit: string };
+  warehouse: { id: string; code: string; name: string } | null;
+  invoice: { id: string; externalId: string | null; type: string } | null;
+  type: StockMovementType;
+  direction: "in" | "out";
+  date: string;
+  quantity: number;
+  unitCost: number | null;
+  description: string | null;
+  countId: string | null;
+  createdAt: string;
+}
+
+export interface CreateStockMovementInput {
+  itemId: string;
+  warehouseId?: string | null;
+  type: ManualStockMovementType;
+  date: string;
+  quantity: number;
+  unitCost?: number | null;
+  description?: string | null;
+}
+
+export interface StockSyncResult {
+  invoices: number;
+  matched: number;
+  unmatched: number;
+}
+
+export interface StockValuationRow {
+  itemId: string;
+  code: string;
+  name: string;
+  unit: string;
+  costMethod: StockCostMethod;
+  inventoryAccountCode: string;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  shortfall: number;
+}
+
+export interface StockValuation {
+  clientCompanyId: string;
+  asOfDate: string;
+  rows: StockValuationRow[];
+  totalValue: number;
+}
+
+export interface StockPeriodPosting {
+  id: string;
+  period: string;
+  cogsAmount: number;
+  shortageAmount: number;
+  surplusAmount: number;
+  closingValue: number;
+  transactionId: string | null;
+  postedAt: string;
+}
+
+export interface StockPeriodSummary {
+  clientCompanyId: string;
+  period: string;
+  cogsAmount: number;
+  shortageAmount: number;
+  surplusAmount: number;
+  closingValue: number;
+  entries: Array<{ debitAccountCode: string; creditAccountCode: string; amount: number; description: string }>;
+  posting: StockPeriodPosting | null;
+}
+
+export interface StockCount {
+  id: string;
+  clientCompanyId: string;
+  warehouse: { id: string; code: string; name: string } | null;
+  countDate: string;
+  status: "draft" | "applied";
+  notes: string | null;
+  appliedAt: string | null;
+  lineCount: number;
+}
+
+export interface StockCountLine {
+  id: string;
+  itemId: string;
+  item: { id: string; code: string; name: string; unit: string };
+  bookQuantity: number;
+  countedQuantity: number;
+  unitCost: number;
+  difference: number;
+  differenceValue: number;
+}
+
+export interface StockCountDetail extends Omit<StockCount, "lineCount"> {
+  warehouseId: string | null;
+  lines: StockCountLine[];
+  shortageValue: number;
+  surplusValue: number;
+}
+
+export interface CreateStockCountInput {
+  clientCompanyId: string;
+  warehouseId?: string | null;
+  countDate: string;
+  notes?: string | null;
+  lines: Array<{ itemId: string; countedQuantity: number }>;
+}
+
+export type StockFindingType = "negative_stock" | "despatch_not_invoiced" | "despatch_quantity_mismatch" | "count_shortage";
+
+export interface StockFinding {
+  type: StockFindingType;
+  severity: "low" | "medium" | "high";
+  title: string;
+  description: string;
+  itemId?: string;
+  despatchAdviceId?: string;
+  amount: number;
+  relatedInvoiceIds: string[];
+}
+
+export interface StockConsistencyReport {
+  clientCompanyId: string;
+  asOfDate: string;
+  findings: StockFinding[];
+  unmatchedLineCount: number;
+}
+
+type Pagination = { page: number; pageSize: number; total: number; totalPages: number };
+
+export const stockClient = {
+  async listItems(params?: {
+    clientCompanyId?: string;
+    search?: string;
+    isActive?: boolean;
+    page?: number;
+    pageSize?: number;
+  }): Promise<{ data: StockItem[]; pagination: Pagination }> {
+    const { isActive, ...rest } = params ?? {};
+    return apiClient.get("/api/v1/stock/items", {
+      params: { ...rest, isActive: isActive === undefined ? undefined : String(isActive) },
+    });
+  },
+
+  async getItem(id: string): Promise<{ data: StockItemDetail }> {
+    return apiClient.get(`/api/v1/stock/items/${id}`);
+  },
+
+  async createItem(input: CreateStockItemInput): Promise<{ data: StockItemDetail }> {
+    return apiClient.post("/api/v1/stock/items", input);
+  },
+
+  async updateItem(id: string, input: UpdateStockItemInput): Promise<{ data: StockItemDetail }> {
+    return apiClient.patch(`/api/v1/stock/items/${id}`, input);
+  },
+
+  async listWarehouses(clientCompanyId: string): Promise<{ data: Warehouse[] }> {
+    return apiClient.get("/api/v1/stock/warehouses", { params: { clientCompanyId } });
+  },
+
+  async createWarehouse(input: {
+    clientCompanyId: string;
+    code: string;
+    name: string;
+    address?: string | null;
+    isDefault?: boolean;
+  }): Promise<{ data: Warehouse }> {
+    return apiClient.post("/api/v1/stock/warehouses", input);
+  },
+
+  async listMovements(params?: {
+    clientCompanyId?: string;
+    itemId?: string;
+    warehouseId?: string;
+    type?: StockMovementType;
+    dateFrom?: string;
+    dateTo?: string;
+    page?: number;
+    pageSize?: number;
+  }): Promise<{ data: StockMovement[]; pagination: Pagination }> {
+    return apiClient.get("/api/v1/stock/movements", { params });
+  },
+
+  /** Açılış stoku veya elle düzeltme */
+  async createMovement(input: CreateStockMovementInput): Promise<{ data: StockMovement }> {
+    return apiClient.post("/api/v1/stock/movements", input);
+  },
+
+  async deleteMovement(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/stock/movements/${id}`);
+  },
+
+  /** Faturalardan stok hareketlerini yeniden oluştur */
+  async sync(clientCompanyId: string): Promise<{ data: StockSyncResult }> {
+    return apiClient.post("/api/v1/stock/sync", { clientCompanyId });
+  },
+
+  async getValuation(clientCompanyId: string, asOfDate?: string): Promise<{ data: StockValuation }> {
+    return apiClient.get("/api/v1/stock/valuation", { params: { clientCompanyId, asOfDate } });
+  },
+
+  async listPeriodPostings(clientCompanyId: string): Promise<{ data: StockPeriodPosting[] }> {
+    return apiClient.get("/api/v1/stock/periods", { params: { clientCompanyId } });
+  },
+
+  async getPeriodSummary(clientCompanyId: string, period: string): Promise<{ data: StockPeriodSummary }> {
+    return apiClient.get(`/api/v1/stock/periods/${period}`, { params: { clientCompanyId } });
+  },
+
+  /** Satılan malın maliyeti ve sayım farklarını muhasebeleştir */
+  async postPeriod(clientCompanyId: string, period: string): Promise<{ data: StockPeriodPosting }> {
+    return apiClient.post(`/api/v1/stock/periods/${period}/post`, { clientCompanyId });
+  },
+
+  async unpostPeriod(clientCompanyId: string, period: string): Promise<{ message: string }> {
+    return apiClient.delete(
+      `/api/v1/stock/periods/${period}?clientCompanyId=${encodeURIComponent(clientCompanyId)}`
+    );
+  },
+
+  async listCounts(clientCompanyId: string): Promise<{ data: StockCount[] }> {
+    return apiClient.get("/api/v1/stock/counts", { params: { clientCompanyId } });
+  },
+
+  async getCount(id: string): Promise<{ data: StockCountDetail }> {
+    return apiClient.get(`/api/v1/stock/counts/${id}`);
+  },
+
+  async createCount(input: CreateStockCountInput): Promise<{ data: StockCountDetail }> {
+    return apiClient.post("/api/v1/stock/counts", input);
+  },
+
+  async applyCount(id: string): Promise<{ data: StockCountDetail }> {
+    return apiClient.post(`/api/v1/stock/counts/${id}/apply`, {});
+  },
+
+  async deleteCount(id: string): Promise<{ message: string }> {
+    return apiClient.delete(`/api/v1/stock/counts/${id}`);
+  },
+
+  /** Stok-fatura-irsaliye tutarlılığı */
+  async checkConsistency(clientCompanyId: string, asOfDate?: string): Promise<{ data: StockConsistencyReport }> {
+    return apiClient.get("/api/v1/stock/consistency", { params: { clientCompanyId, asOfDate } });
+  },
+};
@@ -9,7 +9,7 @@ export interface Transaction {
   date: Date;
   referenceNo: string | null;
   description: string | null;
-  source: "manual" | "import" | "integration";
+  source: "manual" | "import" | "integration" | "correction" | "year_end" | "fixed_asset" | "inflation_adjustment" | "fx_revaluation" | "payroll" | "stock" | "allocation";
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,6 +22,7 @@ export interface TransactionLine {
   debitAmount: number;
   creditAmount: number;
   description: string | null;
+  dimensionValueIds?: string[]; // analitik boyut değerleri (masraf merkezi, proje, ...)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -44,6 +45,9 @@ export interface TrialBalanceEntry {
   ledgerAccountId: string;
   ledgerAccountCode: string;
   ledgerAccountName: string;
+  parentLedgerAccountId: string | null;
+  level: number;
+  hasChildren: boolean;
   totalDebit: number;
   totalCredit: number;
   balance: number;
@@ -168,7 +172,9 @@ export async function deleteTransaction(id: string): Promise<{ data: { message:
 export async function getTrialBalance(
   clientCompanyId: string | null,
   dateFrom: string,
-  dateTo: string
+  dateTo: string,
+  level?: number,
+  dimensionValueIds?: string[]
 ): Promise<{ data: TrialBalanceResult }> {
   const queryParams = new URLSearchParams();
   if (clientCompanyId) {
@@ -176,6 +182,12 @@ export async function getTrialBalance(
   }
   queryParams.append("dateFrom", dateFrom);
   queryParams.append("dateTo", dateTo);
+  if (level) {
+    queryParams.append("level", String(level));
+  }
+  if (dimensionValueIds && dimensionValueIds.length > 0) {
+    queryParams.append("dimensionValueIds", dimensionValueIds.join(","));
+  }
 
   return apiRequest<{ data: TrialBalanceResult }>(
     `/api/v1/transactions/trial-balance?${queryParams.toString()}`
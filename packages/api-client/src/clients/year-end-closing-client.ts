@@ -0,0 +1,90 @@
+import { apiClient } from "../api-client";
+
+// Yıl Sonu Kapanış ve Açılış Fişleri (Year-End Closing)
+
+export type YearEndTransactionKind = "result" | "closing" | "opening"; // Dönem sonucu | Kapanış | Açılış
+
+export interface YearEndOptions {
+  taxRate?: number; // Varsayılan: kurumlar vergisi oranı
+  nonDeductibleExpenses?: number; // KKEG
+  taxExemptions?: number; // İstisna ve indirimler
+  carryForwardToRetainedEarnings?: boolean; // 590/591 → 570/580
+}
+
+export interface YearEndLine {
+  ledgerAccountId: string | null;
+  code: string;
+  name: string;
+  debitAmount: number;
+  creditAmount: number;
+  description: string;
+}
+
+export interface YearEndTransactionDraft {
+  kind: YearEndTransactionKind;
+  date: string;
+  referenceNo: string;
+  description: string;
+  lines: YearEndLine[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+export interface YearEndSummary {
+  totalIncome: number;
+  totalExpense: number;
+  profitBeforeTax: number;
+  taxBase: number;
+  taxRate: number;
+  taxProvision: number;
+  prepaidTaxOffset: number;
+  netResult: number;
+}
+
+export interface YearEndDiffEntry {
+  kind: YearEndTransactionKind;
+  code: string;
+  previousDebit: number;
+  previousCredit: number;
+  debit: number;
+  credit: number;
+}
+
+export interface YearEndPreview {
+  clientCompanyId: string;
+  fiscalYear: number;
+  summary: YearEndSummary;
+  transactions: YearEndTransactionDraft[];
+  previousRun: { postedAt: string; runCount: number } | null;
+  diff: YearEndDiffEntry[];
+  complianceIssues: { type: string; severity: string; description: string }[];
+  warnings: string[];
+}
+
+export interface YearEndClosing {
+  id: string;
+  fiscalYear: number;
+  resultTransactionId: string | null;
+  closingTransactionId: string | null;
+  openingTransactionId: string | null;
+  runCount: number;
+  postedAt: string;
+  summary: YearEndSummary;
+}
+
+export const yearEndClosingClient = {
+  /** Mali yılın son kapanış çalıştırması */
+  async get(clientCompanyId: string, fiscalYear: number): Promise<{ data: YearEndClosing | null }> {
+    return apiClient.get(`/api/v1/year-end-closing/${clientCompanyId}/${fiscalYear}`);
+  },
+
+  /** Kapanış ve açılış fişlerini önizle (kayıt oluşturmaz) */
+  async preview(clientCompanyId: string, fiscalYear: number, options: YearEndOptions = {}): Promise<{ data: YearEndPreview }> {
+    return apiClient.post(`/api/v1/year-end-closing/${clientCompanyId}/${fiscalYear}/preview`, options);
+  },
+
+  /** Kapanış ve açılış fişlerini kaydet (önceki çalıştırmanın yerine geçer) */
+  async post(clientCompanyId: string, fiscalYear: number, options: YearEndOptions = {}): Promise<{ data: YearEndClosing }> {
+    return apiClient.post(`/api/v1/year-end-closing/${clientCompanyId}/${fiscalYear}/post`, options);
+  },
+};
@@ -27,7 +27,44 @@ export type AuditAction =
   | "AI_SUMMARY_DAILY_RISK"
   | "AI_SUMMARY_PORTFOLIO"
   | "DOCUMENT_BATCH_UPLOADED"
-  | "DOCUMENT_BATCH_ANALYZED";
+  | "DOCUMENT_BATCH_ANALYZED"
+  | "PERIOD_CLOSED"
+  | "PERIOD_LOCKED"
+  | "PERIOD_REOPENED"
+  | "PERIOD_CORRECTING_ENTRY_CREATED"
+  | "YEAR_END_CLOSING_POSTED"
+  | "FIXED_ASSET_DEPRECIATION_POSTED"
+  | "FIXED_ASSET_DISPOSED"
+  | "INFLATION_ADJUSTMENT_POSTED"
+  | "FX_REVALUATION_POSTED"
+  | "FX_SETTLEMENT_POSTED"
+  | "BANK_RECONCILIATION_MATCHED"
+  | "BANK_RECONCILIATION_UNMATCHED" | "BANK_STATEMENT_IMPORTED"
+  | "PAYROLL_POSTED"
+  | "BABS_RECONCILIATION_LETTER_SENT"
+  | "CARI_MUTABAKAT_SENT"
+  | "CARI_MUTABAKAT_RESPONDED"
+  | "COUNTERPARTY_PAYMENT_ALLOCATED"
+  | "COUNTERPARTY_PAYMENT_UNALLOCATED"
+  | "STOCK_COUNT_APPLIED"
+  | "STOCK_PERIOD_POSTED"
+  | "STOCK_PERIOD_UNPOSTED"
+  | "E_IRSALIYE_ISSUED"
+  | "E_IRSALIYE_RECEIVED"
+  | "ALLOCATION_RUN_POSTED"
+  | "ALLOCATION_RUN_REVERSED"
+  | "BUDGET_APPROVED"
+  | "BUDGET_REVISED"
+  | "BUDGET_IMPORTED"
+  | "APPROVAL_POLICY_CHANGED"
+  | "APPROVAL_REQUESTED"
+  | "APPROVAL_APPROVED"
+  | "APPROVAL_REJECTED"
+  | "APPROVAL_CANCELLED"
+  | "APPROVAL_EXECUTED"
+  | "APPROVAL_DELEGATED"
+  | "PAYMENT_INITIATED"
+  | "RISK_RULE_CHANGED";
 
 export interface AuditLog {
   id: string;
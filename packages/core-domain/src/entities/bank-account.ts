@@ -7,6 +7,9 @@ export interface ClientCompanyBankAccount {
   accountNumber: string | null;
   currency: string;
   isPrimary: boolean;
+  ledgerAccountCode: string | null; // e.g. 102.02 for a USD account, used by kur farkı değerlemesi
+  currencyBalance: number | null; // balance in the account currency as of balanceDate
+  balanceDate: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,6 +20,9 @@ export interface CreateBankAccountInput {
   accountNumber?: string | null;
   currency?: string;
   isPrimary?: boolean;
+  ledgerAccountCode?: string | null;
+  currencyBalance?: number | null;
+  balanceDate?: Date | null;
 }
 
 export interface UpdateBankAccountInput {
@@ -25,5 +31,8 @@ export interface UpdateBankAccountInput {
   accountNumber?: string | null;
   currency?: string;
   isPrimary?: boolean;
+  ledgerAccountCode?: string | null;
+  currencyBalance?: number | null;
+  balanceDate?: Date | null;
 }
 
@@ -1,4 +1,4 @@
-export type OCREngine = "stub" | "tesseract" | "textract" | "vision" | "other";
+export type OCREngine = "stub" | "tesseract" | "textract" | "vision" | "xml" | "other";
 
 export interface DocumentOCRResult {
   id: string;
@@ -9,6 +9,9 @@ export interface InvoiceLine {
   lineTotal: number;
   vatRate: number;
   vatAmount: number;
+  withholdingCode: string | null;
+  withholdingRate: number | null;
+  exemptionCode: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,6 +24,10 @@ export interface CreateInvoiceLineInput {
   lineTotal: number;
   vatRate: number;
   vatAmount: number;
+  withholdingCode?: string | null;
+  withholdingRate?: number | null;
+  exemptionCode?: string | null;
+  dimensionValueIds?: string[]; // analitik boyut değerleri, at most one per dimension unless it allows several
 }
 
 export interface UpdateInvoiceLineInput {
@@ -31,5 +38,8 @@ export interface UpdateInvoiceLineInput {
   lineTotal?: number;
   vatRate?: number;
   vatAmount?: number;
+  withholdingCode?: string | null;
+  withholdingRate?: number | null;
+  exemptionCode?: string | null;
 }
 
@@ -20,6 +20,8 @@ export interface Invoice {
   counterpartyTaxNumber: string | null;
   status: InvoiceStatus;
   source: InvoiceSource;
+  paidAmount: number; // collected / paid so far, set by bank reconciliation
+  paidAt: Date | null; // date the invoice was fully settled
   createdAt: Date;
   updatedAt: Date;
 }
@@ -1,21 +1,36 @@
 export type LedgerAccountType = "asset" | "liability" | "equity" | "income" | "expense";
 
+// Enflasyon düzeltmesi: parasal kalemler düzeltilmez, parasal olmayanlar düzeltilir
+export type LedgerAccountInflationClass = "monetary" | "non_monetary";
+
 export interface LedgerAccount {
   id: string;
   tenantId: string;
+  clientCompanyId: string | null;
+  parentId: string | null;
   code: string;
   name: string;
   type: LedgerAccountType;
+  accountClass: number | null;
+  level: number;
   isActive: boolean;
+  inflationClass: LedgerAccountInflationClass | null; // null = derived from the account code
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface LedgerAccountTreeNode extends LedgerAccount {
+  children: LedgerAccountTreeNode[];
+}
+
 export interface CreateLedgerAccountInput {
+  clientCompanyId?: string | null;
+  parentId?: string | null;
   code: string;
   name: string;
-  type: LedgerAccountType;
+  type?: LedgerAccountType;
   isActive?: boolean;
+  inflationClass?: LedgerAccountInflationClass | null;
 }
 
 export interface UpdateLedgerAccountInput {
@@ -23,5 +38,6 @@ export interface UpdateLedgerAccountInput {
   name?: string;
   type?: LedgerAccountType;
   isActive?: boolean;
+  inflationClass?: LedgerAccountInflationClass | null;
 }
 
@@ -1,6 +1,8 @@
-export type RiskAlertType = "RISK_THRESHOLD_EXCEEDED" | "ANOMALY_DETECTED" | "ML_FRAUD_DETECTION" | "INVOICE_DUPLICATE" | "FRAUD_PATTERN" | "UNUSUAL_COUNTERPARTY" | "CHART_MISMATCH" | "MASAK_THRESHOLD";
+export type RiskAlertType = "RISK_THRESHOLD_EXCEEDED" | "ANOMALY_DETECTED" | "ML_FRAUD_DETECTION" | "INVOICE_DUPLICATE" | "FRAUD_PATTERN" | "UNUSUAL_COUNTERPARTY" | "CHART_MISMATCH" | "MASAK_THRESHOLD" | "BUDGET_EXCEEDED";
 export type RiskAlertSeverity = "low" | "medium" | "high" | "critical";
 export type RiskAlertStatus = "open" | "in_progress" | "closed" | "ignored";
+// "duplicate" is only set when an alert is merged into another case
+export type RiskAlertDisposition = "false_positive" | "corrected" | "reported_to_masak" | "escalated" | "duplicate";
 
 export interface RiskAlert {
   id: string;
@@ -14,6 +16,12 @@ export interface RiskAlert {
   status: RiskAlertStatus;
   resolvedAt: Date | null;
   resolvedByUserId: string | null;
+  assigneeUserId: string | null;
+  dueAt: Date | null;
+  disposition: RiskAlertDisposition | null;
+  dispositionNote: string | null;
+  ruleCodes: string[];
+  mergedIntoId: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +35,7 @@ export interface CreateRiskAlertInput {
   message: string;
   severity: RiskAlertSeverity;
   status?: RiskAlertStatus;
+  ruleCodes?: string[];
 }
 
 export interface UpdateRiskAlertInput {
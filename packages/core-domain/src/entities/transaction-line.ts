@@ -15,6 +15,7 @@ export interface CreateTransactionLineInput {
   debitAmount: number;
   creditAmount: number;
   description?: string | null;
+  dimensionValueIds?: string[]; // analitik boyut değerleri, at most one per dimension unless it allows several
 }
 
 export interface UpdateTransactionLineInput {
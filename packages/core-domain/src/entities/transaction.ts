@@ -1,6 +1,6 @@
 import type { CreateTransactionLineInput } from "./transaction-line";
 
-export type TransactionSource = "manual" | "import" | "integration";
+export type TransactionSource = "manual" | "import" | "integration" | "correction" | "year_end" | "fixed_asset" | "inflation_adjustment" | "fx_revaluation" | "payroll" | "stock" | "allocation";
 
 export interface Transaction {
   id: string;
@@ -4,6 +4,7 @@ export * from "./types/roles";
 export * from "./types/permissions";
 export * from "./types/risk-severity";
 export * from "./types/saved-filter";
+export * from "./types/fraud-model";
 export * from "./value-objects";
 export * from "./repositories";
 export * from "./services";
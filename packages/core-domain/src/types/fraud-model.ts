@@ -0,0 +1,141 @@
+// Fraud model artifacts, shared by the worker that trains them and the
+// backend that scores documents with them
+
+export type FraudModelAlgorithm = "isolation_forest" | "gradient_boosting";
+
+/**
+ * Serialized trees. Splits send values below t left. Isolation leaves hold
+ * the number of training samples n that reached them; regression nodes hold
+ * the value v of their samples, so contributions can be read off the path.
+ */
+export type IsolationTreeNode = { f: number; t: number; l: IsolationTreeNode; r: IsolationTreeNode } | { n: number };
+export type RegressionTreeNode =
+  | { f: number; t: number; v: number; l: RegressionTreeNode; r: RegressionTreeNode }
+  | { v: number };
+
+export interface IsolationForestArtifact {
+  type: "isolation_forest";
+  sampleSize: number;
+  trees: IsolationTreeNode[];
+}
+
+export interface GradientBoostingArtifact {
+  type: "gradient_boosting";
+  baseScore: number; // log-odds
+  learningRate: number;
+  trees: RegressionTreeNode[];
+}
+
+export type FraudModelArtifact = IsolationForestArtifact | GradientBoostingArtifact;
+
+export interface FraudModelMetrics {
+  auc: number | null; // null without both confirmed and false positive labels
+  precision: number | null;
+  recall: number | null;
+  threshold: number; // score (0-100) at which precision and recall are measured
+  evaluatedCount: number;
+  positiveCount: number;
+}
+
+/**
+ * Feature vectors in the column order of featureNames. Labels are alert
+ * dispositions: 1 confirmed, 0 false positive, null not dispositioned.
+ */
+export interface FraudTrainingSet {
+  featureSetVersion: number;
+  featureNames: string[];
+  rows: Array<{ documentId: string; values: number[]; label: number | null }>;
+}
+
+export interface TrainedFraudModel {
+  algorithm: FraudModelAlgorithm;
+  artifact: FraudModelArtifact;
+  metrics: FraudModelMetrics;
+  featureNames: string[];
+  trainingSampleCount: number;
+  labeledSampleCount: number;
+}
+
+export function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// Average path length of an unsuccessful search in a binary tree of n nodes
+export function averagePathLength(n: number): number {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  return 2 * (Math.log(n - 1) + 0.5772156649) - (2 * (n - 1)) / n;
+}
+
+export function predictRegressionTree(tree: RegressionTreeNode, values: number[]): number {
+  let node = tree;
+  while ("f" in node) {
+    node = values[node.f] < node.t ? node.l : node.r;
+  }
+  return node.v;
+}
+
+/**
+ * Score a vector with an artifact. Returns a 0-1 score and per-feature
+ * contributions that add up to the score's distance from the model's baseline.
+ *
+ * Gradient boosting: each split on the path moves the prediction from the
+ * node's value to the child's value; the move is credited to the split
+ * feature. The score is the probability of a confirmed finding.
+ * Isolation forest: the anomaly score above 0.5 is divided among the features
+ * that split on the isolation paths, shorter paths weighing more. Around 0.5
+ * is normal, close to 1 is anomalous.
+ */
+export function scoreWithArtifact(
+  artifact: FraudModelArtifact,
+  values: number[]
+): { score: number; baseline: number; contributions: number[] } {
+  const contributions = new Array<number>(values.length).fill(0);
+
+  if (artifact.type === "gradient_boosting") {
+    let raw = artifact.baseScore;
+    let baselineRaw = artifact.baseScore;
+    for (const tree of artifact.trees) {
+      let node = tree;
+      baselineRaw += artifact.learningRate * node.v;
+      while ("f" in node) {
+        const child: RegressionTreeNode = values[node.f] < node.t ? node.l : node.r;
+        contributions[node.f] += artifact.learningRate * (child.v - node.v);
+        node = child;
+      }
+      raw += artifact.learningRate * node.v;
+    }
+
+    const score = sigmoid(raw);
+    const baseline = sigmoid(baselineRaw);
+    // Contributions are in log-odds; rescale them so they add up in probability
+    const scale = raw !== baselineRaw ? (score - baseline) / (raw - baselineRaw) : 0;
+    return { score, baseline, contributions: contributions.map((c) => c * scale) };
+  }
+
+  let totalPath = 0;
+  const splitWeights = new Array<number>(values.length).fill(0);
+  for (const tree of artifact.trees) {
+    let node = tree;
+    const path: number[] = [];
+    while ("f" in node) {
+      path.push(node.f);
+      node = values[node.f] < node.t ? node.l : node.r;
+    }
+    const length = path.length + averagePathLength(node.n);
+    totalPath += length;
+    for (const feature of path) {
+      splitWeights[feature] += 1 / Math.max(length, 1);
+    }
+  }
+
+  const meanPath = artifact.trees.length > 0 ? totalPath / artifact.trees.length : 0;
+  const score = Math.pow(2, -meanPath / Math.max(averagePathLength(artifact.sampleSize), 1));
+  const weightSum = splitWeights.reduce((sum, w) => sum + w, 0);
+  const excess = Math.max(0, score - 0.5);
+  return {
+    score,
+    baseline: 0.5,
+    contributions: splitWeights.map((w) => (weightSum > 0 ? (w / weightSum) * excess : 0)),
+  };
+}
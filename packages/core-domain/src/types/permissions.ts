@@ -58,7 +58,28 @@ export type Permission =
   | "exchange_rates:view"
   | "exchange_rates:manage"
   | "payment_reminders:view"
-  | "payment_reminders:manage";
+  | "payment_reminders:manage"
+  | "periods:view"
+  | "periods:manage"
+  | "fixed_assets:view"
+  | "fixed_assets:manage"
+  | "bank_reconciliation:view"
+  | "bank_reconciliation:manage"
+  | "payroll:view"
+  | "payroll:manage"
+  | "cari_mutabakat:view"
+  | "cari_mutabakat:manage"
+  | "counterparties:view"
+  | "counterparties:manage"
+  | "stock:view"
+  | "stock:manage"
+  | "dimensions:view"
+  | "dimensions:manage"
+  | "budgets:view"
+  | "budgets:manage"
+  | "approvals:view"
+  | "approvals:manage"
+  | "payments:initiate";
 
 export const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
   // Accountant role (TenantOwner) - Full access
@@ -121,6 +142,27 @@ export const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
     "exchange_rates:manage",
     "payment_reminders:view",
     "payment_reminders:manage",
+    "periods:view",
+    "periods:manage",
+    "fixed_assets:view",
+    "fixed_assets:manage",
+    "bank_reconciliation:view",
+    "bank_reconciliation:manage",
+    "payroll:view",
+    "payroll:manage",
+    "cari_mutabakat:view",
+    "cari_mutabakat:manage",
+    "counterparties:view",
+    "counterparties:manage",
+    "stock:view",
+    "stock:manage",
+    "dimensions:view",
+    "dimensions:manage",
+    "budgets:view",
+    "budgets:manage",
+    "approvals:view",
+    "approvals:manage",
+    "payments:initiate",
   ],
   // Deprecated - use TenantOwner instead (mapped to same permissions)
   Accountant: [
@@ -179,6 +221,27 @@ export const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
     "exchange_rates:manage",
     "payment_reminders:view",
     "payment_reminders:manage",
+    "periods:view",
+    "periods:manage",
+    "fixed_assets:view",
+    "fixed_assets:manage",
+    "bank_reconciliation:view",
+    "bank_reconciliation:manage",
+    "payroll:view",
+    "payroll:manage",
+    "cari_mutabakat:view",
+    "cari_mutabakat:manage",
+    "counterparties:view",
+    "counterparties:manage",
+    "stock:view",
+    "stock:manage",
+    "dimensions:view",
+    "dimensions:manage",
+    "budgets:view",
+    "budgets:manage",
+    "approvals:view",
+    "approvals:manage",
+    "payments:initiate",
   ],
   // Deprecated - not used
   Staff: [
@@ -206,6 +269,16 @@ export const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
     "cash_flow:view",
     "exchange_rates:view",
     "payment_reminders:view",
+    "periods:view",
+    "fixed_assets:view",
+    "bank_reconciliation:view",
+    "payroll:view",
+    "cari_mutabakat:view",
+    "counterparties:view",
+    "stock:view",
+    "dimensions:view",
+    "budgets:view",
+    "approvals:view",
   ],
 };
 